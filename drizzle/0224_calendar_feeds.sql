@@ -0,0 +1,54 @@
+-- Subscribable iCal feeds — `webcal://` subscriptions for /events filters,
+-- venues, promoters, series and a private feed of a user's favorites.
+--
+-- Two tables, both small:
+--
+-- ── calendar_feed_sequences ──────────────────────────────────────────────
+-- RFC 5545 SEQUENCE is what tells a subscribed calendar "this VEVENT changed,
+-- replace your copy". It has to be monotonic per UID and it has to move when
+-- the dates move — otherwise Google/Apple keep the old time and the feed looks
+-- like it works while quietly going stale.
+--
+-- The sequence is NOT bumped by the event writers. There are at least four of
+-- them (admin PATCH, promoter draft, the MCP tools, merge), and eventDays are
+-- rewritten delete-then-insert on most of them; an invariant kept in four
+-- writers is violated by the fifth. Instead the feed renderer fingerprints each
+-- event's occurrence set + cancellation state and bumps the counter here when
+-- the fingerprint differs from the one it last published. Whatever path moved
+-- the dates, the next feed render notices.
+--
+-- A row also records that an event has been PUBLISHED in some feed, which is
+-- what lets a cancelled event keep appearing (as STATUS:CANCELLED) to the
+-- calendars that already hold it, without ever exposing cancelled events that
+-- no subscriber saw.
+--
+-- ── calendar_feed_tokens ─────────────────────────────────────────────────
+-- The favorites feed is per-user and unauthenticated by necessity: calendar
+-- clients cannot send a session cookie. The URL carries a random capability
+-- token instead. One live token per user (UNIQUE user_id); "reset link" rotates
+-- it in place, which is the revocation story.
+--
+-- The token is stored as issued rather than hashed (the
+-- submission_correction_tokens precedent, not api_tokens): the dashboard has to
+-- re-display the subscribe URL on every visit, and what it grants is read-only
+-- access to the holder's own favorites.
+
+CREATE TABLE IF NOT EXISTS calendar_feed_sequences (
+  event_id TEXT PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL DEFAULT 0,
+  fingerprint TEXT NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  last_fetched_at INTEGER
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feed_tokens_user
+  ON calendar_feed_tokens(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feed_tokens_token
+  ON calendar_feed_tokens(token);
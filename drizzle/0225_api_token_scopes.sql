@@ -0,0 +1,32 @@
+-- Scoped, expiring, revocable vendor API tokens.
+--
+-- Until now an `mmatf_` token was a bare capability: any valid hash granted
+-- full authority over every vendor the owner holds, forever, from anywhere.
+-- That was fine for one personal automation; it is not fine once vendors hand
+-- tokens to third-party tools (a booking sheet that only needs to READ
+-- applications should not be able to rewrite them).
+--
+--   scopes          JSON array of scope strings (src/lib/api-token-scopes.ts).
+--                   Backfilled below to the full set so every existing token
+--                   keeps exactly the authority it had; new tokens must name
+--                   theirs explicitly.
+--   expires_at      optional hard expiry; NULL = no expiry.
+--   revoked_at /    revocation is now a soft flag rather than a DELETE, so the
+--   revoked_reason  dashboard (and an incident review) can still see what the
+--                   token was, when it was pulled and why.
+--   allowed_cidrs   optional JSON array of IPv4/IPv6 CIDRs; NULL = any address.
+--   use_count /     per-token counters for the settings page: authorised calls
+--   denied_count    vs. calls refused for scope or address.
+--   last_used_ip    the address of the most recent authorised call.
+
+ALTER TABLE api_tokens ADD COLUMN scopes TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE api_tokens ADD COLUMN expires_at INTEGER;
+ALTER TABLE api_tokens ADD COLUMN revoked_at INTEGER;
+ALTER TABLE api_tokens ADD COLUMN revoked_reason TEXT;
+ALTER TABLE api_tokens ADD COLUMN allowed_cidrs TEXT;
+ALTER TABLE api_tokens ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE api_tokens ADD COLUMN denied_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE api_tokens ADD COLUMN last_used_ip TEXT;
+
+UPDATE api_tokens
+   SET scopes = '["applications:read","applications:write","profile:write","events:read"]';
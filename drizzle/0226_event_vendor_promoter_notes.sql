@@ -0,0 +1,9 @@
+-- Private promoter notes on an event↔vendor application.
+--
+-- The promoter application board (/promoter/events/[id]/applications) lets a
+-- promoter jot "great booth last year", "waiting on COI" and the like against
+-- an applicant. These are the PROMOTER's working notes: they are never shown to
+-- the vendor, never emailed, and never rendered on a public surface. `booth_info`
+-- already exists and stays the vendor-facing field (booth number / location).
+
+ALTER TABLE event_vendors ADD COLUMN promoter_notes TEXT;
@@ -0,0 +1,28 @@
+-- Structured vendor application forms, defined per event.
+--
+-- Until now an application was `event_id` + a free-text `booth_info`, so every
+-- promoter re-collected booth size, power, products and insurance by email.
+--
+-- event_application_forms   one row per event that has a form. A sibling of
+--                           `events.application_instructions` rather than
+--                           another `events` column: `events` is already 75
+--                           columns wide and eventJoinProjection sits a few
+--                           columns under D1's 100-column result cap, so the
+--                           JSON blob lives beside the event, not in it.
+--                           `fields` is the JSON form definition validated by
+--                           applicationFormSchema (packages/validation).
+--
+-- event_vendors.application_answers
+--                           JSON array of {id, label, type, value} — the
+--                           vendor's answers as a LABELLED SNAPSHOT of the form
+--                           they filled in, so a later form edit never orphans
+--                           or relabels an answer already given.
+
+CREATE TABLE event_application_forms (
+  event_id TEXT PRIMARY KEY NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  fields TEXT NOT NULL DEFAULT '[]',
+  updated_at INTEGER,
+  updated_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE event_vendors ADD COLUMN application_answers TEXT;
@@ -0,0 +1,46 @@
+-- Automatic waitlist promotion.
+--
+-- WAITLISTED / WITHDRAWN / CANCELLED already existed on event_vendors, but a
+-- slot freed by a withdrawal sat empty until the promoter noticed. Now an event
+-- with a booth capacity offers each open slot to the next waitlisted vendor,
+-- by a time-limited accept/decline link; an unanswered offer expires and the
+-- slot cascades to the vendor after them.
+--
+-- event_booth_capacity   one row per event that opted in. A sibling table for
+--                        the same reason as event_application_forms (0227):
+--                        `events` is near D1's 100-column cap on joins.
+--                        `offer_hours` is how long each offer stays open.
+--                        No row = no automatic promotion for that event.
+--
+-- waitlist_offers        one row per offer, keyed by its token (same shape as
+--                        submission_correction_tokens: 32 random bytes,
+--                        base64url, expires_at + used_at). `status` is
+--                        OFFERED → ACCEPTED | DECLINED | EXPIRED | VOID.
+--                        VOID = the application left the waitlist some other
+--                        way (promoter approved/rejected it by hand) while the
+--                        offer was open.
+--
+-- The partial unique index stops two concurrent reconciles from handing the
+-- same vendor two live offers.
+
+CREATE TABLE event_booth_capacity (
+  event_id TEXT PRIMARY KEY NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  capacity INTEGER NOT NULL,
+  offer_hours INTEGER NOT NULL DEFAULT 48,
+  updated_at INTEGER,
+  updated_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE waitlist_offers (
+  token TEXT PRIMARY KEY NOT NULL,
+  event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  event_vendor_id TEXT NOT NULL REFERENCES event_vendors(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'OFFERED',
+  expires_at INTEGER NOT NULL,
+  used_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_waitlist_offers_event_status ON waitlist_offers(event_id, status);
+CREATE UNIQUE INDEX idx_waitlist_offers_live
+  ON waitlist_offers(event_vendor_id) WHERE status = 'OFFERED';
@@ -0,0 +1,41 @@
+-- Config-driven scrapers.
+--
+-- Every import source in src/lib/scrapers/registry.ts is a hand-written module,
+-- so a new regional calendar meant code + a deploy. A source definition stored
+-- here — list-page URL, pagination rule, selectors for the event fields, a
+-- date-format hint — is run by src/lib/scrapers/declarative and yields the
+-- same ScrapedEvent objects through the same ScraperEntry interface. Code
+-- modules still win on a key clash; the admin API refuses one anyway.
+--
+-- scraper_definitions   one row per source. `key` is what lands in
+--                       events.source_name, so it must never be reused for a
+--                       different site. `definition` is JSON validated by
+--                       scraperDefinitionSchema (packages/validation).
+--                       `enabled = 0` hides the source from /admin/import and
+--                       from detail re-scrapes without deleting it.
+--
+-- scraper_fixtures      saved copies of a source's pages, for the dry-run
+--                       preview: the definition runs against these instead of
+--                       the live site, so a selector edit can be checked
+--                       without fetching anything. One row per (source, URL);
+--                       pagination follows fixtures by URL.
+
+CREATE TABLE scraper_definitions (
+  key TEXT PRIMARY KEY NOT NULL,
+  label TEXT NOT NULL,
+  definition TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER,
+  updated_at INTEGER,
+  updated_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE scraper_fixtures (
+  id TEXT PRIMARY KEY NOT NULL,
+  definition_key TEXT NOT NULL REFERENCES scraper_definitions(key) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  body TEXT NOT NULL,
+  captured_at INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_scraper_fixtures_key_url ON scraper_fixtures (definition_key, url);
@@ -0,0 +1,302 @@
+-- Full-text search index for events, venues, vendors and blog posts.
+--
+-- /api/search and /search matched with instr()/LIKE substring scans and
+-- re-ranked with Levenshtein, so "fairs" missed "Fair", nothing was ranked by
+-- relevance, and every query scanned four tables. This is an SQLite FTS5
+-- index (D1 ships FTS5) with porter stemming, 2- and 3-character prefix
+-- indexes for type-ahead, and bm25() ranking. Querying lives in
+-- src/lib/search/fts.ts; the rebuild in src/lib/search/index-sync.ts.
+--
+-- search_documents   one plain row per indexed entity: the text the index is
+--                    built from, under a stable INTEGER rowid. It is the FTS
+--                    table's external content, so highlight()/snippet() read
+--                    from here and a document is found by (entity_type,
+--                    entity_id) through an ordinary unique index.
+--
+-- search_index       the FTS5 table over search_documents. Column order is
+--                    load-bearing: fts.ts passes bm25() weights and
+--                    highlight()/snippet() column numbers positionally.
+--                      title  event/venue/blog name; vendor display name
+--                      body   description (blog: excerpt + body)
+--                      place  venue name, address, city, state
+--                      tags   categories/tags JSON, vendor type + products,
+--                             and a vendor's legal name when it differs
+--
+-- Sync is by trigger, not by the application: events alone are written from
+-- dozens of routes, the importers and the MCP worker, and any one of them
+-- forgetting a call would leave the index silently stale. The source-table
+-- triggers upsert into search_documents; search_documents' own triggers keep
+-- the FTS table in step (the external-content pattern from the SQLite docs).
+-- Visibility (status, deleted_at, end dates) is NOT decided here — every row
+-- is indexed and the query joins back to the source table for its filters,
+-- so a status flip never needs a re-index.
+--
+-- The document expressions below are duplicated in index-sync.ts's rebuild
+-- (NEW.x here, alias.x there); search-index.test.ts applies this file and
+-- checks that a rebuild reproduces exactly what the triggers wrote.
+--
+-- Upserts use ON CONFLICT DO UPDATE, never INSERT OR REPLACE: REPLACE's
+-- implicit delete does not fire delete triggers unless recursive_triggers is
+-- on, which would orphan the old FTS entry.
+--
+-- Backups: `wrangler d1 export` refuses a database that has a virtual table.
+-- scripts/db-backup.sh runs scripts/search-index-detach.sql (drops
+-- search_index and the three search_documents triggers) before exporting and
+-- scripts/search-index-attach.sql (recreates them, then 'rebuild') after, so
+-- a backup never contains the index. scripts/db-restore.sh attaches it after
+-- loading one. A change to the FTS table or those triggers here must be
+-- repeated in search-index-attach.sql; search-index.test.ts compares the two.
+-- D1 Time Travel (`wrangler d1 time-travel restore`) needs none of this.
+
+CREATE TABLE search_documents (
+  id INTEGER PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  title TEXT NOT NULL DEFAULT '',
+  body TEXT NOT NULL DEFAULT '',
+  place TEXT NOT NULL DEFAULT '',
+  tags TEXT NOT NULL DEFAULT ''
+);
+CREATE UNIQUE INDEX idx_search_documents_entity ON search_documents (entity_type, entity_id);
+
+CREATE VIRTUAL TABLE search_index USING fts5(
+  title,
+  body,
+  place,
+  tags,
+  content = 'search_documents',
+  content_rowid = 'id',
+  tokenize = 'porter unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE TRIGGER search_documents_ai AFTER INSERT ON search_documents BEGIN
+  INSERT INTO search_index (rowid, title, body, place, tags)
+  VALUES (NEW.id, NEW.title, NEW.body, NEW.place, NEW.tags);
+END;
+
+CREATE TRIGGER search_documents_ad AFTER DELETE ON search_documents BEGIN
+  INSERT INTO search_index (search_index, rowid, title, body, place, tags)
+  VALUES ('delete', OLD.id, OLD.title, OLD.body, OLD.place, OLD.tags);
+END;
+
+CREATE TRIGGER search_documents_au AFTER UPDATE ON search_documents BEGIN
+  INSERT INTO search_index (search_index, rowid, title, body, place, tags)
+  VALUES ('delete', OLD.id, OLD.title, OLD.body, OLD.place, OLD.tags);
+  INSERT INTO search_index (rowid, title, body, place, tags)
+  VALUES (NEW.id, NEW.title, NEW.body, NEW.place, NEW.tags);
+END;
+
+-- ── events ──────────────────────────────────────────────────────────────────
+-- place carries the venue's name/city/state, read at write time. A venue edit
+-- re-derives it for the venue's events (search_index_venues_au below).
+
+CREATE TRIGGER search_index_events_ai AFTER INSERT ON events BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+  VALUES (
+    'event',
+    NEW.id,
+    NEW.name,
+    COALESCE(NEW.description, ''),
+    trim(
+      COALESCE((SELECT v.name || ' ' || v.city || ' ' || v.state FROM venues v WHERE v.id = NEW.venue_id), '')
+      || ' ' || COALESCE(NEW.state_code, '')
+    ),
+    COALESCE(NEW.categories, '') || ' ' || COALESCE(NEW.tags, '')
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    title = excluded.title, body = excluded.body, place = excluded.place, tags = excluded.tags;
+END;
+
+CREATE TRIGGER search_index_events_au
+AFTER UPDATE OF name, description, venue_id, state_code, categories, tags ON events BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+  VALUES (
+    'event',
+    NEW.id,
+    NEW.name,
+    COALESCE(NEW.description, ''),
+    trim(
+      COALESCE((SELECT v.name || ' ' || v.city || ' ' || v.state FROM venues v WHERE v.id = NEW.venue_id), '')
+      || ' ' || COALESCE(NEW.state_code, '')
+    ),
+    COALESCE(NEW.categories, '') || ' ' || COALESCE(NEW.tags, '')
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    title = excluded.title, body = excluded.body, place = excluded.place, tags = excluded.tags;
+END;
+
+CREATE TRIGGER search_index_events_ad AFTER DELETE ON events BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'event' AND entity_id = OLD.id;
+END;
+
+-- ── venues ──────────────────────────────────────────────────────────────────
+
+CREATE TRIGGER search_index_venues_ai AFTER INSERT ON venues BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+  VALUES (
+    'venue',
+    NEW.id,
+    NEW.name,
+    COALESCE(NEW.description, ''),
+    NEW.address || ' ' || NEW.city || ' ' || NEW.state,
+    ''
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    title = excluded.title, body = excluded.body, place = excluded.place, tags = excluded.tags;
+END;
+
+CREATE TRIGGER search_index_venues_au
+AFTER UPDATE OF name, description, address, city, state ON venues BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+  VALUES (
+    'venue',
+    NEW.id,
+    NEW.name,
+    COALESCE(NEW.description, ''),
+    NEW.address || ' ' || NEW.city || ' ' || NEW.state,
+    ''
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    title = excluded.title, body = excluded.body, place = excluded.place, tags = excluded.tags;
+  UPDATE search_documents
+  SET place = (
+    SELECT trim(NEW.name || ' ' || NEW.city || ' ' || NEW.state || ' ' || COALESCE(e.state_code, ''))
+    FROM events e WHERE e.id = search_documents.entity_id
+  )
+  WHERE entity_type = 'event'
+    AND entity_id IN (SELECT id FROM events WHERE venue_id = NEW.id);
+END;
+
+CREATE TRIGGER search_index_venues_ad AFTER DELETE ON venues BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'venue' AND entity_id = OLD.id;
+END;
+
+-- ── vendors ─────────────────────────────────────────────────────────────────
+-- title is the name the UI shows (display_name override, else business
+-- name); the legal name still matches through tags.
+
+CREATE TRIGGER search_index_vendors_ai AFTER INSERT ON vendors BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+  VALUES (
+    'vendor',
+    NEW.id,
+    COALESCE(NULLIF(NEW.display_name, ''), NEW.business_name),
+    COALESCE(NEW.description, ''),
+    trim(COALESCE(NEW.city, '') || ' ' || COALESCE(NEW.state, '')),
+    trim(
+      CASE WHEN NULLIF(NEW.display_name, '') IS NULL THEN '' ELSE NEW.business_name END
+      || ' ' || COALESCE(NEW.vendor_type, '') || ' ' || COALESCE(NEW.products, '')
+    )
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    title = excluded.title, body = excluded.body, place = excluded.place, tags = excluded.tags;
+END;
+
+CREATE TRIGGER search_index_vendors_au
+AFTER UPDATE OF business_name, display_name, description, city, state, vendor_type, products
+ON vendors BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+  VALUES (
+    'vendor',
+    NEW.id,
+    COALESCE(NULLIF(NEW.display_name, ''), NEW.business_name),
+    COALESCE(NEW.description, ''),
+    trim(COALESCE(NEW.city, '') || ' ' || COALESCE(NEW.state, '')),
+    trim(
+      CASE WHEN NULLIF(NEW.display_name, '') IS NULL THEN '' ELSE NEW.business_name END
+      || ' ' || COALESCE(NEW.vendor_type, '') || ' ' || COALESCE(NEW.products, '')
+    )
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    title = excluded.title, body = excluded.body, place = excluded.place, tags = excluded.tags;
+END;
+
+CREATE TRIGGER search_index_vendors_ad AFTER DELETE ON vendors BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'vendor' AND entity_id = OLD.id;
+END;
+
+-- ── blog_posts ──────────────────────────────────────────────────────────────
+
+CREATE TRIGGER search_index_blog_posts_ai AFTER INSERT ON blog_posts BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+  VALUES (
+    'blog',
+    NEW.id,
+    NEW.title,
+    trim(COALESCE(NEW.excerpt, '') || ' ' || NEW.body),
+    '',
+    COALESCE(NEW.tags, '') || ' ' || COALESCE(NEW.categories, '')
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    title = excluded.title, body = excluded.body, place = excluded.place, tags = excluded.tags;
+END;
+
+CREATE TRIGGER search_index_blog_posts_au
+AFTER UPDATE OF title, excerpt, body, tags, categories ON blog_posts BEGIN
+  INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+  VALUES (
+    'blog',
+    NEW.id,
+    NEW.title,
+    trim(COALESCE(NEW.excerpt, '') || ' ' || NEW.body),
+    '',
+    COALESCE(NEW.tags, '') || ' ' || COALESCE(NEW.categories, '')
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    title = excluded.title, body = excluded.body, place = excluded.place, tags = excluded.tags;
+END;
+
+CREATE TRIGGER search_index_blog_posts_ad AFTER DELETE ON blog_posts BEGIN
+  DELETE FROM search_documents WHERE entity_type = 'blog' AND entity_id = OLD.id;
+END;
+
+-- ── backfill ────────────────────────────────────────────────────────────────
+-- Same expressions as the triggers. POST /api/admin/search-index/rebuild
+-- re-runs this (and an FTS 'rebuild') if the index is ever suspected stale.
+
+INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+SELECT
+  'event',
+  e.id,
+  e.name,
+  COALESCE(e.description, ''),
+  trim(
+    COALESCE((SELECT v.name || ' ' || v.city || ' ' || v.state FROM venues v WHERE v.id = e.venue_id), '')
+    || ' ' || COALESCE(e.state_code, '')
+  ),
+  COALESCE(e.categories, '') || ' ' || COALESCE(e.tags, '')
+FROM events e;
+
+INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+SELECT
+  'venue',
+  v.id,
+  v.name,
+  COALESCE(v.description, ''),
+  v.address || ' ' || v.city || ' ' || v.state,
+  ''
+FROM venues v;
+
+INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+SELECT
+  'vendor',
+  v.id,
+  COALESCE(NULLIF(v.display_name, ''), v.business_name),
+  COALESCE(v.description, ''),
+  trim(COALESCE(v.city, '') || ' ' || COALESCE(v.state, '')),
+  trim(
+    CASE WHEN NULLIF(v.display_name, '') IS NULL THEN '' ELSE v.business_name END
+    || ' ' || COALESCE(v.vendor_type, '') || ' ' || COALESCE(v.products, '')
+  )
+FROM vendors v;
+
+INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+SELECT
+  'blog',
+  b.id,
+  b.title,
+  trim(COALESCE(b.excerpt, '') || ' ' || b.body),
+  '',
+  COALESCE(b.tags, '') || ' ' || COALESCE(b.categories, '')
+FROM blog_posts b;
@@ -0,0 +1,54 @@
+-- SYN3 — self-service syndication portal. Until now a subscriber existed only
+-- if an admin ran `register_syndication_subscriber`, and it tracked a
+-- hand-maintained list of event ids. Partners (regional newspapers, tourism
+-- boards) now register themselves from /dashboard/syndication and subscribe by
+-- query — state, category, promoter, series, or a radius around a point.
+--
+-- Three changes:
+--   • syndication_subscribers gains an owner (the partner's user account) and
+--     a rotation grace: after "rotate secret" the retired secret keeps signing
+--     (in a second header) and authenticating reconcile reads for 24 hours.
+--   • syndication_query_subscriptions — the query form of
+--     syndication_subscriptions. All non-null criteria must hold.
+--   • syndication_deliveries — one row per webhook attempt (change, test ping,
+--     manual redelivery) with the exact body sent, the receiver's status and
+--     timing. Backs the portal's delivery log and "redeliver" button.
+--
+-- Admin-registered subscribers keep owner_user_id NULL and behave exactly as
+-- before; explicit event-id subscriptions are untouched.
+
+ALTER TABLE syndication_subscribers ADD COLUMN owner_user_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE syndication_subscribers ADD COLUMN previous_signing_secret TEXT;
+ALTER TABLE syndication_subscribers ADD COLUMN previous_secret_expires_at INTEGER;
+CREATE INDEX idx_syndication_subscribers_owner ON syndication_subscribers (owner_user_id);
+
+CREATE TABLE syndication_query_subscriptions (
+  id TEXT PRIMARY KEY,
+  subscriber_id TEXT NOT NULL REFERENCES syndication_subscribers(id) ON DELETE CASCADE,
+  state_code TEXT,                     -- two-letter, matched against events.state_code
+  category TEXT,                       -- one events.categories entry, case-insensitive
+  promoter_id TEXT REFERENCES promoters(id) ON DELETE CASCADE,
+  series_id TEXT REFERENCES event_series(id) ON DELETE CASCADE,
+  latitude REAL,                       -- radius centre; all three or none
+  longitude REAL,
+  radius_miles REAL,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX idx_syndication_query_subs_subscriber ON syndication_query_subscriptions (subscriber_id);
+
+CREATE TABLE syndication_deliveries (
+  id TEXT PRIMARY KEY,                 -- also sent as X-Syndication-Delivery-Id
+  subscriber_id TEXT NOT NULL REFERENCES syndication_subscribers(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,                  -- 'change' | 'ping'
+  event_id TEXT,                       -- no FK: the log outlives the event
+  event_version INTEGER,
+  outbox_id TEXT,
+  redelivery_of TEXT,                  -- the attempt a manual redelivery repeated
+  payload TEXT NOT NULL,               -- exact body sent
+  succeeded INTEGER NOT NULL,
+  response_status INTEGER,             -- NULL when no response (network error / timeout)
+  error TEXT,
+  duration_ms INTEGER,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX idx_syndication_deliveries_subscriber ON syndication_deliveries (subscriber_id, created_at);
@@ -0,0 +1,34 @@
+-- Saved searches. Favorites cover one event, venue, vendor or promoter at a
+-- time; they can't express "tell me when any new craft fair is listed in NH".
+-- A saved search captures the /events filter state (plus a facet region from
+-- src/lib/events/facet-regions.ts) and a daily or weekly digest reports newly
+-- approved matches — in the notifications table always, by email unless the
+-- user turned that off or used the one-click unsubscribe.
+--
+-- "New" can't be read off the event: there is no approved_at, and an event
+-- reaches APPROVED from a dozen paths (admin review, promoter auto-approve,
+-- scraper trust tiers, claim flows). Instead each search keeps the set of
+-- event ids it has already reported, seeded with everything that matched when
+-- the search was saved, so the first digest doesn't replay the whole state.
+-- Rows go with the search (cascade) and are never pruned by event deletion;
+-- an id that no longer exists simply never matches again.
+
+CREATE TABLE saved_searches (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  params TEXT NOT NULL,                -- JSON: /events filter keys + optional facet slug
+  frequency TEXT NOT NULL DEFAULT 'WEEKLY',  -- 'DAILY' | 'WEEKLY'
+  email_enabled INTEGER NOT NULL DEFAULT 1,  -- 0: in-app notifications only
+  last_run_at INTEGER,                 -- last digest pass, NULL until the first
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE INDEX idx_saved_searches_user ON saved_searches (user_id);
+
+CREATE TABLE saved_search_seen (
+  saved_search_id TEXT NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL,              -- no FK: outlives a deleted event harmlessly
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (saved_search_id, event_id)
+);
@@ -0,0 +1,22 @@
+-- Per-type notification channel preferences. The notifications table has had
+-- writers since the claim rail (claim_approved) but no reader, and everything
+-- else a user hears about — application decisions, submission approvals —
+-- went out by email only. With the in-app notification center each producer
+-- can reach both channels, and this table is where a user says which.
+--
+-- Sparse: a row exists only once the user has changed something for that
+-- type; a missing row means the type's defaults from
+-- src/lib/notifications/types.ts. Adding a type therefore needs no backfill,
+-- and changing a default moves everyone who never touched it.
+--
+-- `type` is the notifications.type string (lower snake case). Unknown types
+-- are rejected at the API, not here, so a retired type's rows are harmless.
+
+CREATE TABLE notification_preferences (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  email INTEGER NOT NULL,              -- 0: never email this type
+  in_app INTEGER NOT NULL,             -- 0: don't write a notifications row
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (user_id, type)
+);
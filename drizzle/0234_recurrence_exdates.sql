@@ -0,0 +1,13 @@
+-- RFC 5545 exceptions for recurring events and series. recurrence_rule has
+-- existed on both tables since 0127 but only its FREQ/INTERVAL were ever read
+-- (the K27 rollover); with the full expander (packages/utils/src/rrule.ts) a
+-- rule can describe "every 2nd Saturday May–October", and the one Saturday the
+-- fairgrounds are booked needs somewhere to live that isn't the rule itself.
+--
+-- JSON array of YYYY-MM-DD strings, sorted — the EXDATE set at day
+-- granularity, same as event_days.date. NULL or '[]' means no exceptions.
+-- Meaningless without a recurrence_rule; the write paths clear it when the
+-- rule is removed.
+
+ALTER TABLE events ADD COLUMN recurrence_exdates TEXT;
+ALTER TABLE event_series ADD COLUMN recurrence_exdates TEXT;
@@ -0,0 +1,10 @@
+-- Radius search ("near=lat,lng&radius=" on /events, /vendors, /api/search and
+-- the MCP search tools). The exact distance test is arithmetic no index can
+-- serve, so every radius query first narrows to the enclosing lat/lng box
+-- (nearBoundingBox in packages/utils/src/near-search.ts). These give that box
+-- a range scan on latitude instead of a full pass over the table; longitude
+-- rides along in the index so the second half of the box is checked without
+-- touching the row.
+
+CREATE INDEX IF NOT EXISTS idx_venues_lat_lng ON venues (latitude, longitude);
+CREATE INDEX IF NOT EXISTS idx_vendors_lat_lng ON vendors (latitude, longitude);
@@ -0,0 +1,8 @@
+-- Application-deadline reminders for vendors (src/lib/vendors/deadline-reminders.ts).
+-- A daily pass reminds vendors with INVITED / INTERESTED links about events
+-- whose application deadline is a week or less away. This stamps the link when
+-- it was reminded so the next day's pass doesn't repeat itself; a reminder
+-- older than the current deadline's window (the promoter pushed the deadline
+-- out) doesn't count, so the vendor hears about the new date too.
+
+ALTER TABLE event_vendors ADD COLUMN deadline_reminded_at INTEGER;
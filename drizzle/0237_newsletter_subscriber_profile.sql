@@ -0,0 +1,12 @@
+-- Newsletter subscriber profiles (src/lib/newsletter/subscriber-profile.ts).
+-- A subscriber may give a home ZIP, a radius and the event categories they
+-- care about, at signup or on /newsletter/preferences. The ZIP's center is
+-- resolved once, when it's saved, so a send never looks ZIPs up; digests are
+-- then rendered per cohort (same ZIP, radius and categories). All NULL means
+-- no profile: that subscriber keeps getting the issue everyone gets.
+
+ALTER TABLE newsletter_subscribers ADD COLUMN home_zip TEXT;
+ALTER TABLE newsletter_subscribers ADD COLUMN home_latitude REAL;
+ALTER TABLE newsletter_subscribers ADD COLUMN home_longitude REAL;
+ALTER TABLE newsletter_subscribers ADD COLUMN radius_miles INTEGER;
+ALTER TABLE newsletter_subscribers ADD COLUMN categories TEXT;
@@ -0,0 +1,27 @@
+-- Newsletter engagement tracking (src/lib/newsletter/tracking.ts,
+-- src/lib/newsletter/engagement.ts).
+--
+-- A broadcast's links go through a signed redirect and the issue carries an
+-- open pixel; each hit lands in newsletter_engagement_events against the
+-- issue's slug. The ledger row for every send records the same slug, so an
+-- issue's deliveries and bounces join to it without guessing from subjects.
+--
+-- engagement_flagged_at marks a subscriber who has received the last several
+-- tracked issues without opening or clicking any. It's a flag for a human to
+-- act on, not an unsubscribe; any later open or click clears it.
+
+ALTER TABLE email_send_ledger ADD COLUMN newsletter_issue_slug TEXT;
+CREATE INDEX idx_email_send_ledger_newsletter_issue ON email_send_ledger (newsletter_issue_slug);
+
+CREATE TABLE newsletter_engagement_events (
+  id TEXT PRIMARY KEY NOT NULL,
+  issue_slug TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  url TEXT,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX idx_newsletter_engagement_issue ON newsletter_engagement_events (issue_slug, kind);
+CREATE INDEX idx_newsletter_engagement_recipient ON newsletter_engagement_events (recipient, issue_slug);
+
+ALTER TABLE newsletter_subscribers ADD COLUMN engagement_flagged_at INTEGER;
@@ -0,0 +1,38 @@
+-- Team accounts for vendors and promoters (src/lib/organizations/).
+--
+-- A vendor or promoter keeps exactly one owner in its existing user_id column;
+-- organization_members adds the editors and viewers alongside it, so the claim
+-- paths and owner-facing emails that read user_id are unchanged. Ownership
+-- transfer rewrites user_id and moves the previous owner into this table.
+--
+-- organization_invites holds emailed invitations as SHA-256 token hashes (the
+-- claim_tokens pattern). Accepted and revoked rows stay as the audit trail.
+
+CREATE TABLE organization_members (
+  id TEXT PRIMARY KEY NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL,
+  invited_by_user_id TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE UNIQUE INDEX idx_organization_members_unique ON organization_members (entity_type, entity_id, user_id);
+CREATE INDEX idx_organization_members_user ON organization_members (user_id, entity_type);
+
+CREATE TABLE organization_invites (
+  id TEXT PRIMARY KEY NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by_user_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  accepted_at INTEGER,
+  accepted_by_user_id TEXT,
+  revoked_at INTEGER
+);
+CREATE INDEX idx_organization_invites_entity ON organization_invites (entity_type, entity_id);
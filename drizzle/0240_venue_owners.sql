@@ -0,0 +1,18 @@
+-- Venue owners (src/lib/venues/owner.ts, the /venue portal).
+--
+-- Same shape as performers (drizzle/0152): ownership is recorded on the row
+-- itself — user_id + claimed + claimed_at + claimed_by — and is granted only by
+-- an admin approving a VENUE entity_claims row. There is no VENUE user role;
+-- the portal authorizes on venues.user_id.
+--
+-- user_id is nullable and NOT unique: almost every venue stays unowned, and a
+-- fair association that runs two grounds manages both from one account.
+-- ON DELETE SET NULL so deleting an account un-owns the venue instead of
+-- deleting a public listing.
+
+ALTER TABLE venues ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE venues ADD COLUMN claimed INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE venues ADD COLUMN claimed_at INTEGER;
+ALTER TABLE venues ADD COLUMN claimed_by TEXT REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_venues_user_id ON venues (user_id);
@@ -0,0 +1,70 @@
+-- Second factors, step-up and login history (src/lib/auth/).
+--
+-- user_totp holds one authenticator-app secret per user, AES-GCM sealed with a
+-- key derived from AUTH_SECRET so a database export alone can't mint codes.
+-- enabled_at stays NULL until the user proves the app works; last_step is the
+-- 30-second window of the last accepted code, so a code can't be replayed.
+--
+-- user_recovery_codes are SHA-256 hashes of the one-time codes shown once at
+-- enrollment; used_at marks a spent code. user_passkeys are WebAuthn
+-- credentials stored as SPKI public keys (no attestation is kept).
+--
+-- auth_challenges are single-use WebAuthn challenges, deleted on first read.
+--
+-- login_events has one row per session: its id is the `sid` carried in the
+-- JWT. verified_at is when the session's second factor was satisfied and
+-- step_up_at when it last re-authenticated for a sensitive admin action.
+
+CREATE TABLE user_totp (
+  user_id TEXT PRIMARY KEY NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  enabled_at INTEGER,
+  last_step INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE user_recovery_codes (
+  id TEXT PRIMARY KEY NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX idx_user_recovery_codes_user ON user_recovery_codes (user_id);
+
+CREATE TABLE user_passkeys (
+  id TEXT PRIMARY KEY NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  credential_id TEXT NOT NULL UNIQUE,
+  public_key TEXT NOT NULL,
+  algorithm INTEGER NOT NULL,
+  sign_count INTEGER NOT NULL DEFAULT 0,
+  transports TEXT,
+  name TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER
+);
+CREATE INDEX idx_user_passkeys_user ON user_passkeys (user_id);
+
+CREATE TABLE auth_challenges (
+  id TEXT PRIMARY KEY NOT NULL,
+  user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL,
+  challenge TEXT NOT NULL,
+  expires_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX idx_auth_challenges_expires ON auth_challenges (expires_at);
+
+CREATE TABLE login_events (
+  id TEXT PRIMARY KEY NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL,
+  second_factor TEXT,
+  ip TEXT,
+  user_agent TEXT,
+  created_at INTEGER NOT NULL,
+  verified_at INTEGER,
+  step_up_at INTEGER
+);
+CREATE INDEX idx_login_events_user ON login_events (user_id, created_at);
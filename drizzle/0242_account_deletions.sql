@@ -0,0 +1,22 @@
+-- Self-service account deletion (src/lib/account/deletion.ts).
+--
+-- One row per deletion request. A request waits out a grace period
+-- (scheduled_for) during which the user can cancel; the hourly sweep then
+-- erases the account and stamps completed_at. user_id deliberately has no
+-- foreign key: the row is the record that an account existed and was erased
+-- on request, so it must outlive the users row it names. It holds no email,
+-- name or other personal data.
+--
+-- At most one pending request (neither cancelled nor completed) per user.
+
+CREATE TABLE account_deletions (
+  id TEXT PRIMARY KEY NOT NULL,
+  user_id TEXT NOT NULL,
+  requested_at INTEGER NOT NULL,
+  scheduled_for INTEGER NOT NULL,
+  cancelled_at INTEGER,
+  completed_at INTEGER
+);
+CREATE UNIQUE INDEX idx_account_deletions_pending_user ON account_deletions (user_id)
+  WHERE cancelled_at IS NULL AND completed_at IS NULL;
+CREATE INDEX idx_account_deletions_scheduled ON account_deletions (scheduled_for);
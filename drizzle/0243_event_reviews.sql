@@ -0,0 +1,56 @@
+-- Vendor reviews of past fairs (src/lib/reviews/).
+--
+-- A review is written by a vendor listing, not a person: one per (vendor,
+-- event), and only for an event the vendor verifiably exhibited at — an
+-- APPROVED/CONFIRMED event_vendors row, or a vendor_self_reported_events row
+-- that isn't DISPUTED. `participation` records which of those it was when the
+-- review was written, so readers can weigh an organizer-confirmed exhibitor
+-- above a self-report. author_user_id is the team member who wrote it and is
+-- SET NULL on account deletion; the review belongs to the listing.
+--
+-- The four ratings are 1-5, enforced in src/lib/reviews/event-reviews.ts and
+-- the request schema rather than a CHECK, like every other enum-ish column.
+-- Moderation hides rather than deletes (status HIDDEN) so a restored review
+-- keeps its reply and its report history.
+--
+-- event_review_reports holds abuse reports against a review. One open or
+-- closed report per (review, reporter); resolution records what the admin did.
+
+CREATE TABLE event_reviews (
+  id TEXT PRIMARY KEY NOT NULL,
+  event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  vendor_id TEXT NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+  author_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  participation TEXT NOT NULL,
+  attendance_rating INTEGER NOT NULL,
+  sales_rating INTEGER NOT NULL,
+  organization_rating INTEGER NOT NULL,
+  load_in_rating INTEGER NOT NULL,
+  body TEXT,
+  status TEXT NOT NULL DEFAULT 'PUBLISHED',
+  moderated_at INTEGER,
+  moderated_by TEXT,
+  moderation_note TEXT,
+  reply_body TEXT,
+  reply_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  replied_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE UNIQUE INDEX idx_event_reviews_vendor_event ON event_reviews (vendor_id, event_id);
+CREATE INDEX idx_event_reviews_event_status ON event_reviews (event_id, status);
+
+CREATE TABLE event_review_reports (
+  id TEXT PRIMARY KEY NOT NULL,
+  review_id TEXT NOT NULL REFERENCES event_reviews(id) ON DELETE CASCADE,
+  reporter_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL,
+  details TEXT,
+  created_at INTEGER NOT NULL,
+  resolved_at INTEGER,
+  resolved_by TEXT,
+  resolution TEXT
+);
+CREATE UNIQUE INDEX idx_event_review_reports_reporter ON event_review_reports (review_id, reporter_user_id);
+CREATE INDEX idx_event_review_reports_open ON event_review_reports (created_at)
+  WHERE resolved_at IS NULL;
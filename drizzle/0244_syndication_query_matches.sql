@@ -0,0 +1,30 @@
+-- SYN3 follow-up — which events each query subscriber has been sent.
+--
+-- A query subscription only matches public events in its state / category /
+-- promoter / series / radius, so when an event is cancelled, unpublished or
+-- moved out of the query it stops matching — and, without a record of who had
+-- it, the partner was never told. The dispatcher now adds a row here after a
+-- successful change delivery to a subscriber whose query matched, and on a
+-- later change that no longer matches sends that subscriber one
+-- `{ eventId, eventVersion, removed: true }` webhook and deletes the row.
+--
+-- Backfilled from the delivery log: every event a subscriber with a query
+-- subscription was successfully sent a change for. An explicit-id subscriber
+-- caught by the backfill is harmless — explicit subscriptions always take the
+-- full payload and never consult this table.
+
+CREATE TABLE syndication_query_matches (
+  subscriber_id TEXT NOT NULL REFERENCES syndication_subscribers(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  matched_at INTEGER NOT NULL,
+  PRIMARY KEY (subscriber_id, event_id)
+);
+
+INSERT OR IGNORE INTO syndication_query_matches (subscriber_id, event_id, matched_at)
+SELECT d.subscriber_id, d.event_id, MAX(d.created_at)
+FROM syndication_deliveries d
+JOIN events e ON e.id = d.event_id
+WHERE d.kind = 'change'
+  AND d.succeeded = 1
+  AND d.subscriber_id IN (SELECT subscriber_id FROM syndication_query_subscriptions)
+GROUP BY d.subscriber_id, d.event_id;
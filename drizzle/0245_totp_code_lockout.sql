@@ -0,0 +1,13 @@
+-- Per-account cap on second-factor code guesses (src/lib/auth/two-factor.ts).
+--
+-- The only limit on /api/auth/two-factor was the per-IP rate limit: a session
+-- waiting on its second factor isn't a session to checkRateLimit, so it keys
+-- on the address, and someone holding the password could sign in again from
+-- fresh addresses and keep guessing. failed_code_attempts counts wrong codes
+-- (app or recovery) since the last accepted factor; every tenth locks code
+-- entry until code_locked_until — 15 minutes, doubling with each further
+-- lockout up to a day — and emails the owner. A passkey still works while
+-- locked, and any accepted factor resets the count.
+
+ALTER TABLE user_totp ADD COLUMN failed_code_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_totp ADD COLUMN code_locked_until INTEGER;
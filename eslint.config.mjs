@@ -82,6 +82,10 @@ export default [
         //     (Gmail strips them), so the brand band MUST inline raw hex.
         //     It is deliberately NOT theme-aware: the masthead is the
         //     same green in the inbox and on the web archive (OPE-234).
+        //   - src/lib/widget/render.ts — the embeddable events widget's
+        //     iframe document. It is served without the root layout, so
+        //     globals.css and its tokens never load; its palette is its own
+        //     light/dark pair, switched by the embed's `theme` option.
         {
           selector: "Literal[value=/^#(?:[0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/]",
           message:
@@ -110,7 +114,12 @@ export default [
   // (not eslint-disable-line comments) keeps the allowlist auditable
   // in one place.
   {
-    files: ["src/app/global-error.tsx", "src/app/admin/**/*.tsx", "src/lib/newsletter-masthead.ts"],
+    files: [
+      "src/app/global-error.tsx",
+      "src/app/admin/**/*.tsx",
+      "src/lib/newsletter-masthead.ts",
+      "src/lib/widget/render.ts",
+    ],
     rules: {
       "no-restricted-syntax": [
         "error",
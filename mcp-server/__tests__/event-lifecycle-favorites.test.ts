@@ -0,0 +1,100 @@
+import { describe, expect, it, beforeEach, vi } from "vitest";
+import { CapturingMcpServer, createTestDb, type TestDb } from "./setup-db.js";
+import { registerEventLifecycleTools } from "../src/tools/admin-event-lifecycle.js";
+import { events } from "../src/schema.js";
+
+/**
+ * The lifecycle tool mirrors the admin lifecycle route, and that route tells
+ * the event's favoriters about a reschedule, postponement, cancellation or move
+ * online. The producer lives in the main app, so the tool asks it to over the
+ * internal endpoint once the transition has committed.
+ */
+const NOTIFY_PATH = "/api/internal/favorite-changes/notify";
+
+let db: TestDb;
+
+function envWithBinding(response: () => Response) {
+  return {
+    INTERNAL_API_KEY: "k",
+    MAIN_APP: { fetch: vi.fn(async (_req: Request) => response()) },
+  };
+}
+
+function notifyCalls(env: ReturnType<typeof envWithBinding>) {
+  return env.MAIN_APP.fetch.mock.calls
+    .map((c) => c[0] as Request)
+    .filter((req) => new URL(req.url).pathname === NOTIFY_PATH);
+}
+
+async function transition(env: ReturnType<typeof envWithBinding>, params: Record<string, unknown>) {
+  const server = new CapturingMcpServer();
+  registerEventLifecycleTools(
+    server as never,
+    db as never,
+    { role: "ADMIN", userId: "admin-1" } as never,
+    env as never
+  );
+  const res = (await server.invoke("update_event_lifecycle", { event_id: "ev-1", ...params })) as {
+    content: Array<{ text: string }>;
+    isError?: boolean;
+  };
+  return { isError: res.isError, body: JSON.parse(res.content[0].text) };
+}
+
+beforeEach(async () => {
+  ({ db } = createTestDb());
+  await db.insert(events).values({
+    id: "ev-1",
+    name: "Harvest Fair",
+    slug: "harvest-fair",
+    status: "APPROVED",
+    lifecycleStatus: "SCHEDULED",
+    promoterId: "p1",
+    startDate: new Date("2026-09-01T00:00:00Z"),
+    endDate: new Date("2026-09-02T00:00:00Z"),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as never);
+});
+
+describe("update_event_lifecycle — favoriter notifications", () => {
+  it("asks the main app to notify favoriters of a cancellation", async () => {
+    const env = envWithBinding(
+      () => new Response(JSON.stringify({ ok: true, notified: 3, emailed: 1 }), { status: 200 })
+    );
+    const { isError, body } = await transition(env, {
+      new_lifecycle: "CANCELLED",
+      reason: "Flooding",
+    });
+
+    expect(isError).toBeFalsy();
+    const calls = notifyCalls(env);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].method).toBe("POST");
+    expect(await calls[0].json()).toEqual({ eventId: "ev-1" });
+    expect(body.favoriters_notified).toBe(3);
+  });
+
+  it("does not notify for a move favoriters aren't told about", async () => {
+    const env = envWithBinding(() => new Response(JSON.stringify({ ok: true }), { status: 200 }));
+    const { isError, body } = await transition(env, { new_lifecycle: "TENTATIVE" });
+
+    expect(isError).toBeFalsy();
+    expect(notifyCalls(env)).toHaveLength(0);
+    expect(body.favoriters_notified).toBeNull();
+  });
+
+  it("still reports the transition when the notify call fails", async () => {
+    // The event row has already changed; failing the tool would invite a retry
+    // that then trips no_op_transition.
+    const env = envWithBinding(
+      () => new Response(JSON.stringify({ ok: false, error: "boom" }), { status: 500 })
+    );
+    const { isError, body } = await transition(env, { new_lifecycle: "POSTPONED" });
+
+    expect(isError).toBeFalsy();
+    expect(body.to).toBe("POSTPONED");
+    expect(notifyCalls(env)).toHaveLength(1);
+    expect(body.favoriters_notified).toBeNull();
+  });
+});
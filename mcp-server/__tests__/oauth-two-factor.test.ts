@@ -0,0 +1,204 @@
+/**
+ * The MCP OAuth sign-in form (src/oauth/login-handler.ts) asks for the same
+ * second factor as the main app: a password alone never authorizes an account
+ * with an authenticator app, a passkey, or the ADMIN role, and every sign-in
+ * lands in login_events.
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createHash } from "node:crypto";
+import { createTestDb, type TestDb } from "./setup-db.js";
+import { loginEvents, userPasskeys, userRoles, userTotp, users } from "../src/schema.js";
+
+const harness = vi.hoisted(() => ({
+  db: null as any,
+  /** The code the stubbed main app accepts, and which factor it reports. */
+  validCode: "123456",
+  factor: "totp" as "totp" | "recovery",
+  verifyCalls: [] as { userId: string; code: string }[],
+}));
+
+vi.mock("../src/db.js", () => ({ getDb: () => harness.db }));
+vi.mock("../src/logger.js", () => ({ logError: async () => {} }));
+vi.mock("../src/main-app-fetch.js", () => ({
+  mainAppFetch: async (_env: unknown, _path: string, _entry: string, opts: { body: string }) => {
+    const args = JSON.parse(opts.body) as { userId: string; code: string };
+    harness.verifyCalls.push(args);
+    const factor = args.code === harness.validCode ? harness.factor : null;
+    return new Response(JSON.stringify({ ok: true, factor }), { status: 200 });
+  },
+}));
+
+import { LoginHandler } from "../src/oauth/login-handler.js";
+
+const PASSWORD = "correct horse";
+const STATE = btoa(JSON.stringify({ clientId: "claude", scope: ["mcp"] }));
+
+let db: TestDb;
+let kv: Map<string, string>;
+let completed: { userId: string }[];
+
+function makeEnv() {
+  return {
+    DB: {} as D1Database,
+    OAUTH_KV: {
+      get: async (k: string) => kv.get(k) ?? null,
+      put: async (k: string, v: string) => void kv.set(k, v),
+      delete: async (k: string) => void kv.delete(k),
+    },
+    OAUTH_PROVIDER: {
+      completeAuthorization: async (args: { userId: string }) => {
+        completed.push({ userId: args.userId });
+        return { redirectTo: "https://claude.ai/callback?code=abc" };
+      },
+    },
+  };
+}
+
+function post(path: string, fields: Record<string, string>, cookies: string[] = []) {
+  const body = new FormData();
+  body.set("csrf_token", "csrf-1");
+  body.set("state", STATE);
+  for (const [k, v] of Object.entries(fields)) body.set(k, v);
+  return LoginHandler.request(
+    path,
+    { method: "POST", body, headers: { Cookie: ["__Host-CSRF=csrf-1", ...cookies].join("; ") } },
+    makeEnv()
+  );
+}
+
+function signIn(email: string) {
+  return post("/authorize", { email, password: PASSWORD });
+}
+
+/** The pending-sign-in cookie the code prompt set. */
+function pendingCookie(res: Response): string {
+  const cookie = res.headers
+    .getSetCookie()
+    .find((c) => c.startsWith("__Host-MCP-2FA="))
+    ?.split(";")[0];
+  expect(cookie).toBeDefined();
+  return cookie!;
+}
+
+function loginRows() {
+  return db.select().from(loginEvents).all();
+}
+
+beforeEach(() => {
+  ({ db } = createTestDb());
+  harness.db = db;
+  harness.verifyCalls.length = 0;
+  harness.factor = "totp";
+  harness.validCode = "123456";
+  kv = new Map();
+  completed = [];
+  const passwordHash = createHash("sha256").update(PASSWORD).digest("hex");
+  db.insert(users)
+    .values([
+      { id: "u-plain", email: "plain@test", role: "USER", passwordHash },
+      { id: "u-totp", email: "totp@test", role: "VENDOR", passwordHash },
+      { id: "u-passkey", email: "passkey@test", role: "USER", passwordHash },
+      { id: "u-admin", email: "admin@test", role: "ADMIN", passwordHash },
+      { id: "u-granted", email: "granted@test", role: "USER", passwordHash },
+    ])
+    .run();
+  db.insert(userTotp)
+    .values({ userId: "u-totp", secret: "v1.sealed", enabledAt: new Date(), createdAt: new Date() })
+    .run();
+  db.insert(userPasskeys)
+    .values({
+      userId: "u-passkey",
+      credentialId: "cred-1",
+      publicKey: "spki",
+      algorithm: -7,
+      name: "Laptop",
+      createdAt: new Date(),
+    })
+    .run();
+  db.insert(userRoles).values({ userId: "u-granted", role: "ADMIN", grantedAt: new Date() }).run();
+});
+
+describe("POST /authorize", () => {
+  it("authorizes an unenrolled user on the password and records the login", async () => {
+    const res = await signIn("plain@test");
+    expect(res.status).toBe(302);
+    expect(completed).toEqual([{ userId: "u-plain" }]);
+    expect(loginRows()).toMatchObject([
+      { userId: "u-plain", method: "mcp-oauth", secondFactor: null, verifiedAt: null },
+    ]);
+  });
+
+  it("asks an authenticator user for a code instead of authorizing", async () => {
+    const res = await signIn("totp@test");
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('action="/authorize/two-factor"');
+    pendingCookie(res);
+    expect(completed).toEqual([]);
+    expect(loginRows()).toMatchObject([{ userId: "u-totp", verifiedAt: null }]);
+  });
+
+  it("refuses a passkey-only account rather than accept the password alone", async () => {
+    const res = await signIn("passkey@test");
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("uses a passkey");
+    expect(completed).toEqual([]);
+    expect(loginRows()).toEqual([]);
+  });
+
+  it("refuses an admin with no second factor, by primary role or by grant", async () => {
+    for (const email of ["admin@test", "granted@test"]) {
+      const res = await signIn(email);
+      expect(await res.text()).toContain("Admin accounts need an authenticator app");
+    }
+    expect(completed).toEqual([]);
+  });
+});
+
+describe("POST /authorize/two-factor", () => {
+  it("authorizes on a matching code and marks the login verified", async () => {
+    const cookie = pendingCookie(await signIn("totp@test"));
+    const res = await post("/authorize/two-factor", { code: "123456" }, [cookie]);
+    expect(res.status).toBe(302);
+    expect(harness.verifyCalls).toEqual([{ userId: "u-totp", code: "123456" }]);
+    expect(completed).toEqual([{ userId: "u-totp" }]);
+    expect(loginRows()).toMatchObject([
+      { userId: "u-totp", secondFactor: "totp", verifiedAt: expect.any(Date) },
+    ]);
+
+    // The pending sign-in is spent: the same cookie can't authorize again.
+    const replay = await post("/authorize/two-factor", { code: "123456" }, [cookie]);
+    expect(await replay.text()).toContain("timed out");
+    expect(completed).toHaveLength(1);
+  });
+
+  it("accepts a recovery code", async () => {
+    harness.factor = "recovery";
+    harness.validCode = "abcde-fghij";
+    const cookie = pendingCookie(await signIn("totp@test"));
+    const res = await post("/authorize/two-factor", { code: "abcde-fghij" }, [cookie]);
+    expect(res.status).toBe(302);
+    expect(loginRows()[0].secondFactor).toBe("recovery");
+  });
+
+  it("re-prompts on a wrong code and gives up after five", async () => {
+    const cookie = pendingCookie(await signIn("totp@test"));
+    for (let i = 0; i < 4; i++) {
+      const res = await post("/authorize/two-factor", { code: "000000" }, [cookie]);
+      expect(await res.text()).toContain("didn't match");
+    }
+    const last = await post("/authorize/two-factor", { code: "000000" }, [cookie]);
+    expect(await last.text()).toContain("Too many incorrect codes");
+
+    const late = await post("/authorize/two-factor", { code: "123456" }, [cookie]);
+    expect(await late.text()).toContain("timed out");
+    expect(completed).toEqual([]);
+    expect(loginRows()[0].verifiedAt).toBeNull();
+  });
+
+  it("refuses without a pending sign-in", async () => {
+    const res = await post("/authorize/two-factor", { code: "123456" });
+    expect(await res.text()).toContain("timed out");
+    expect(harness.verifyCalls).toEqual([]);
+    expect(completed).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Radius search for search_events / search_vendors (drizzle/0235): the input
+ * resolution (ZIP through location_zips, or a latitude/longitude pair) and the
+ * box + distance predicate, against in-memory SQLite.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import * as schema from "../src/schema.js";
+import { vendors } from "../src/schema.js";
+import {
+  nearDistanceMiles,
+  nearDistanceSquared,
+  nearWhere,
+  resolveMcpNearSearch,
+} from "../src/helpers.js";
+
+const SCHEMA_SQL = `
+  CREATE TABLE locations (
+    id TEXT PRIMARY KEY, state TEXT NOT NULL, name TEXT NOT NULL,
+    population INTEGER, latitude REAL, longitude REAL
+  );
+  CREATE TABLE location_zips (location_id TEXT NOT NULL, zip TEXT NOT NULL);
+  CREATE TABLE vendors (id TEXT PRIMARY KEY, business_name TEXT, latitude REAL, longitude REAL);
+`;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let db: any;
+let raw: InstanceType<typeof Database>;
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw["exec"](SCHEMA_SQL);
+  raw["exec"](`
+    INSERT INTO locations VALUES
+      ('portland', 'ME', 'Portland', 68000, 43.6591, -70.2568),
+      ('south-portland', 'ME', 'South Portland', 26000, 43.6415, -70.2409),
+      ('no-coords', 'ME', 'Nowhere', 10, NULL, NULL);
+    INSERT INTO location_zips VALUES ('portland', '04101'), ('south-portland', '04101'),
+      ('no-coords', '04999');
+    INSERT INTO vendors VALUES
+      ('brunswick', 'Brunswick Kettle Corn', 43.9109, -69.9653),
+      ('portland', 'Old Port Pottery', 43.6570, -70.2500),
+      ('augusta', 'Capital Crafts', 44.3106, -69.7795),
+      ('unplaced', 'Somewhere Soaps', NULL, NULL);
+  `);
+  db = drizzle(raw, { schema });
+});
+
+describe("resolveMcpNearSearch", () => {
+  it("centers a ZIP on its most populous place", async () => {
+    expect(await resolveMcpNearSearch(db, { zip: "04101-2345", radius_miles: 30 })).toEqual({
+      search: { center: { latitude: 43.6591, longitude: -70.2568 }, radiusMiles: 30, zip: "04101" },
+    });
+  });
+
+  it("explains a ZIP or coordinate pair it can't use", async () => {
+    expect((await resolveMcpNearSearch(db, { zip: "abc" })).error).toMatch(/not a US ZIP/);
+    expect((await resolveMcpNearSearch(db, { zip: "04999" })).error).toMatch(
+      /not in the locations/
+    );
+    expect((await resolveMcpNearSearch(db, { latitude: 43.6 })).error).toMatch(/together/);
+    expect(await resolveMcpNearSearch(db, {})).toEqual({ search: null });
+  });
+});
+
+describe("nearWhere / nearDistanceSquared", () => {
+  it("keeps vendors inside the radius, nearest first", async () => {
+    const { search } = await resolveMcpNearSearch(db, { latitude: 43.66, longitude: -70.26 });
+    const rows = await db
+      .select({ id: vendors.id, latitude: vendors.latitude, longitude: vendors.longitude })
+      .from(vendors)
+      .where(nearWhere(vendors.latitude, vendors.longitude, search!))
+      .orderBy(nearDistanceSquared(vendors.latitude, vendors.longitude, search!.center));
+    expect(rows.map((r: { id: string }) => r.id)).toEqual(["portland", "brunswick"]);
+    expect(nearDistanceMiles(search!.center, rows[1].latitude, rows[1].longitude)).toBeCloseTo(
+      22.5,
+      0
+    );
+  });
+});
@@ -124,6 +124,19 @@ describe("send_newsletter_broadcast — STOP-gate (OPE-190)", () => {
     expect(res.json.mode).toBe("preview");
   });
 
+  it("forwards preview_as alongside a preview (drizzle/0237)", async () => {
+    stubFetch({ success: true, preview: true, preview_as: { email: "reader@x.com" } });
+    const s = server();
+    await s.invoke("send_newsletter_broadcast", {
+      subject: "Hi",
+      content_html: "<p>x</p>",
+      preview_only: true,
+      preview_as: "reader@x.com",
+    });
+    expect(calls[0].body.preview_as).toBe("reader@x.com");
+    expect(calls[0].body.preview_only).toBe(true);
+  });
+
   it("surfaces an endpoint error (e.g. broadcast_disabled) as isError", async () => {
     stubFetch({ error: "broadcast_disabled", message: "flag off" }, 409);
     const s = server();
@@ -62,7 +62,11 @@ const SCHEMA_SQL = `
     created_at INTEGER,
     updated_at INTEGER,
     image_focal_x REAL NOT NULL DEFAULT 0.5,
-    image_focal_y REAL NOT NULL DEFAULT 0.5
+    image_focal_y REAL NOT NULL DEFAULT 0.5,
+    user_id TEXT,
+    claimed INTEGER NOT NULL DEFAULT 0,
+    claimed_at INTEGER,
+    claimed_by TEXT
   );
 
   CREATE TABLE promoters (
@@ -121,6 +125,7 @@ const SCHEMA_SQL = `
     public_end_date INTEGER,
     dates_confirmed INTEGER DEFAULT 1,
     recurrence_rule TEXT,
+    recurrence_exdates TEXT,
     categories TEXT DEFAULT '[]',
     tags TEXT DEFAULT '[]',
     ticket_url TEXT,
@@ -214,6 +219,7 @@ const SCHEMA_SQL = `
     venue_id TEXT,
     promoter_id TEXT,
     recurrence_rule TEXT,
+    recurrence_exdates TEXT,
     description TEXT,
     image_url TEXT,
     categories TEXT DEFAULT '[]',
@@ -652,6 +658,12 @@ const SCHEMA_SQL = `
     -- OPE-316 (drizzle/0176) — per-link public visibility. DEFAULT 1 mirrors
     -- the migration, so existing test rows stay visible exactly as before.
     public_visible INTEGER NOT NULL DEFAULT 1,
+    -- drizzle/0226 — the promoter's private notes on the application.
+    promoter_notes TEXT,
+    -- drizzle/0227 — labelled snapshot of the vendor's form answers.
+    application_answers TEXT,
+    -- drizzle/0236 — last application-deadline reminder for this link.
+    deadline_reminded_at INTEGER,
     created_at INTEGER,
     updated_at INTEGER
   );
@@ -833,7 +845,9 @@ const SCHEMA_SQL = `
     -- stays the send-attempt outcome; see drizzle/0193).
     delivery_status TEXT,
     delivery_updated_at INTEGER,
-    delivery_detail TEXT
+    delivery_detail TEXT,
+    -- drizzle/0238 — tracked newsletter broadcasts.
+    newsletter_issue_slug TEXT
   );
 
   -- OPE-177 — raw CF Email Sending lifecycle events, stored before matching.
@@ -1139,7 +1153,11 @@ const SCHEMA_SQL = `
     callback_url TEXT NOT NULL,
     signing_secret TEXT NOT NULL,
     active INTEGER NOT NULL DEFAULT 1,
-    created_at INTEGER NOT NULL
+    created_at INTEGER NOT NULL,
+    -- SYN3 (drizzle/0231) — portal owner + secret-rotation grace.
+    owner_user_id TEXT,
+    previous_signing_secret TEXT,
+    previous_secret_expires_at INTEGER
   );
 
   CREATE TABLE syndication_subscriptions (
@@ -1153,6 +1171,43 @@ const SCHEMA_SQL = `
   CREATE INDEX idx_syndication_subscriptions_event
     ON syndication_subscriptions (event_id);
 
+  -- SYN3 (drizzle/0231) — query subscriptions + the delivery log.
+  CREATE TABLE syndication_query_subscriptions (
+    id TEXT PRIMARY KEY,
+    subscriber_id TEXT NOT NULL,
+    state_code TEXT,
+    category TEXT,
+    promoter_id TEXT,
+    series_id TEXT,
+    latitude REAL,
+    longitude REAL,
+    radius_miles REAL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE syndication_deliveries (
+    id TEXT PRIMARY KEY,
+    subscriber_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    event_id TEXT,
+    event_version INTEGER,
+    outbox_id TEXT,
+    redelivery_of TEXT,
+    payload TEXT NOT NULL,
+    succeeded INTEGER NOT NULL,
+    response_status INTEGER,
+    error TEXT,
+    duration_ms INTEGER,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE syndication_query_matches (
+    subscriber_id TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    matched_at INTEGER NOT NULL,
+    PRIMARY KEY (subscriber_id, event_id)
+  );
+
   -- OPE-37 (drizzle/0142) — promoter-enrichment notice debounce state. The
   -- notice module reads/upserts this single-row table, so the test schema needs it.
   CREATE TABLE promoter_enrichment_notice_state (
@@ -1208,6 +1263,72 @@ const SCHEMA_SQL = `
     expires_at INTEGER NOT NULL
   );
 
+  CREATE TABLE organization_members (
+    id TEXT PRIMARY KEY,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    invited_by_user_id TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    UNIQUE (entity_type, entity_id, user_id)
+  );
+
+  CREATE TABLE api_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL DEFAULT 'Default',
+    scopes TEXT NOT NULL DEFAULT '[]',
+    expires_at INTEGER,
+    revoked_at INTEGER,
+    revoked_reason TEXT,
+    allowed_cidrs TEXT,
+    use_count INTEGER NOT NULL DEFAULT 0,
+    denied_count INTEGER NOT NULL DEFAULT 0,
+    last_used_ip TEXT,
+    last_used_at INTEGER,
+    created_at INTEGER
+  );
+
+  -- drizzle/0241 — second factors and login history, read and written by the
+  -- OAuth sign-in form (src/oauth/two-factor.ts).
+  CREATE TABLE user_totp (
+    user_id TEXT PRIMARY KEY,
+    secret TEXT NOT NULL,
+    enabled_at INTEGER,
+    last_step INTEGER,
+    failed_code_attempts INTEGER NOT NULL DEFAULT 0,
+    code_locked_until INTEGER,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE user_passkeys (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL,
+    algorithm INTEGER NOT NULL,
+    sign_count INTEGER NOT NULL DEFAULT 0,
+    transports TEXT,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_used_at INTEGER
+  );
+
+  CREATE TABLE login_events (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    method TEXT NOT NULL,
+    second_factor TEXT,
+    ip TEXT,
+    user_agent TEXT,
+    created_at INTEGER NOT NULL,
+    verified_at INTEGER,
+    step_up_at INTEGER
+  );
+
   CREATE TABLE workflow_run_steps (
     id TEXT PRIMARY KEY,
     instance_id TEXT NOT NULL,
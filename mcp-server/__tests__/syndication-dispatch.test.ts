@@ -15,6 +15,9 @@ import {
   syndicationOutbox,
   syndicationSubscribers,
   syndicationSubscriptions,
+  syndicationQuerySubscriptions,
+  syndicationDeliveries,
+  syndicationQueryMatches,
 } from "../src/schema.js";
 import { eq } from "drizzle-orm";
 
@@ -188,6 +191,209 @@ describe("processSyndicationEntity — event_day resolves to parent event", () =
   });
 });
 
+describe("processSyndicationEntity — query subscriptions (SYN3)", () => {
+  function addQuery(id: string, query: Partial<typeof syndicationQuerySubscriptions.$inferInsert>) {
+    db.insert(syndicationQuerySubscriptions)
+      .values({ id, subscriberId: SUB_ID, createdAt: new Date(), ...query })
+      .run();
+  }
+
+  beforeEach(() => {
+    db.update(events).set({ stateCode: "ME", categories: '["Craft Fair"]' }).run();
+    db.update(venues).set({ latitude: 43.9, longitude: -70.35 }).run();
+  });
+
+  it("delivers every event a query matches, with no id subscriptions", async () => {
+    addQuery("q-1", { stateCode: "ME", category: "craft fair" });
+    seedVenueOutbox();
+
+    await processSyndicationEntity(db, { entityType: "venue", entityId: VENUE_ID });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips events outside the query, including outside a radius", async () => {
+    addQuery("q-1", { stateCode: "NH" });
+    // Portland, ME is ~20 miles from the venue.
+    addQuery("q-2", { latitude: 43.66, longitude: -70.26, radiusMiles: 10 });
+    seedVenueOutbox();
+
+    await processSyndicationEntity(db, { entityType: "venue", entityId: VENUE_ID });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("never matches a non-public event by query", async () => {
+    db.update(events).set({ status: "PENDING" }).where(eq(events.id, E2)).run();
+    addQuery("q-1", { stateCode: "ME" });
+    seedVenueOutbox();
+
+    await processSyndicationEntity(db, { entityType: "venue", entityId: VENUE_ID });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).eventId).toBe(E1);
+  });
+
+  function seedEventOutbox(id: string, changedFields: string[]) {
+    db.insert(syndicationOutbox)
+      .values({
+        id,
+        entityType: "event",
+        entityId: E1,
+        changeVersion: 1,
+        changedFields: JSON.stringify(changedFields),
+        snapshot: "{}",
+        createdAt: new Date(),
+      })
+      .run();
+  }
+
+  it("tells a query subscriber once when an event it was sent is cancelled", async () => {
+    addQuery("q-1", { stateCode: "ME" });
+    seedEventOutbox("ob-1", ["name"]);
+    await processSyndicationEntity(db, { entityType: "event", entityId: E1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(db.select().from(syndicationQueryMatches).all()).toMatchObject([
+      { subscriberId: SUB_ID, eventId: E1 },
+    ]);
+
+    db.update(events)
+      .set({ status: "CANCELLED", syndicationVersion: 3 })
+      .where(eq(events.id, E1))
+      .run();
+    seedEventOutbox("ob-2", ["status"]);
+    await processSyndicationEntity(db, { entityType: "event", entityId: E1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      eventId: E1,
+      eventVersion: 3,
+      removed: true,
+    });
+    expect(db.select().from(syndicationQueryMatches).all()).toEqual([]);
+
+    // Already told: a later change to the cancelled event isn't sent again.
+    seedEventOutbox("ob-3", ["name"]);
+    await processSyndicationEntity(db, { entityType: "event", entityId: E1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("tells a query subscriber when an event moves out of the query's state", async () => {
+    addQuery("q-1", { stateCode: "ME" });
+    seedEventOutbox("ob-1", ["name"]);
+    await processSyndicationEntity(db, { entityType: "event", entityId: E1 });
+
+    db.update(events).set({ stateCode: "NH" }).where(eq(events.id, E1)).run();
+    seedEventOutbox("ob-2", ["stateCode"]);
+    await processSyndicationEntity(db, { entityType: "event", entityId: E1 });
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toMatchObject({ removed: true });
+  });
+
+  it("keeps the removal pending until the subscriber accepts it", async () => {
+    addQuery("q-1", { stateCode: "ME" });
+    seedEventOutbox("ob-1", ["name"]);
+    await processSyndicationEntity(db, { entityType: "event", entityId: E1 });
+
+    db.update(events).set({ status: "CANCELLED" }).where(eq(events.id, E1)).run();
+    seedEventOutbox("ob-2", ["status"]);
+    fetchMock.mockResolvedValueOnce(new Response("nope", { status: 503 }));
+    await expect(
+      processSyndicationEntity(db, { entityType: "event", entityId: E1 })
+    ).rejects.toThrow(/delivery failed/);
+    expect(db.select().from(syndicationQueryMatches).all()).toHaveLength(1);
+
+    await processSyndicationEntity(db, { entityType: "event", entityId: E1 });
+    expect(JSON.parse(fetchMock.mock.calls[2][1].body)).toMatchObject({ removed: true });
+    expect(db.select().from(syndicationQueryMatches).all()).toEqual([]);
+  });
+
+  it("sends nothing to a query subscriber that was never sent the event", async () => {
+    db.update(events).set({ status: "CANCELLED" }).where(eq(events.id, E1)).run();
+    addQuery("q-1", { stateCode: "ME" });
+    seedEventOutbox("ob-1", ["status"]);
+
+    await processSyndicationEntity(db, { entityType: "event", entityId: E1 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("delivers once to a subscriber reached by id and by query", async () => {
+    db.insert(syndicationSubscriptions)
+      .values({ id: "ss-1", subscriberId: SUB_ID, eventId: E1, createdAt: new Date() })
+      .run();
+    addQuery("q-1", { stateCode: "ME" });
+    addQuery("q-2", { latitude: 43.66, longitude: -70.26, radiusMiles: 50 });
+    db.insert(syndicationOutbox)
+      .values({
+        id: "ob-e1",
+        entityType: "event",
+        entityId: E1,
+        changeVersion: 1,
+        changedFields: JSON.stringify(["name"]),
+        snapshot: "{}",
+        createdAt: new Date(),
+      })
+      .run();
+
+    await processSyndicationEntity(db, { entityType: "event", entityId: E1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("processSyndicationEntity — delivery log (SYN3)", () => {
+  beforeEach(() => {
+    db.insert(syndicationSubscriptions)
+      .values({ id: "ss-1", subscriberId: SUB_ID, eventId: E1, createdAt: new Date() })
+      .run();
+    seedVenueOutbox();
+  });
+
+  it("logs each attempt with the exact body and the id sent in the header", async () => {
+    await processSyndicationEntity(db, { entityType: "venue", entityId: VENUE_ID });
+
+    const [log] = db.select().from(syndicationDeliveries).all();
+    const init = fetchMock.mock.calls[0][1];
+    expect(log).toMatchObject({
+      subscriberId: SUB_ID,
+      kind: "change",
+      eventId: E1,
+      eventVersion: 2,
+      outboxId: "ob-1",
+      payload: init.body,
+      succeeded: true,
+      responseStatus: 200,
+      error: null,
+    });
+    expect(init.headers["X-Syndication-Delivery-Id"]).toBe(log.id);
+  });
+
+  it("logs a failed attempt on every retry", async () => {
+    fetchMock.mockResolvedValue(new Response("nope", { status: 503 }));
+    for (let i = 0; i < 2; i++) {
+      await expect(
+        processSyndicationEntity(db, { entityType: "venue", entityId: VENUE_ID })
+      ).rejects.toThrow();
+    }
+    const logs = db.select().from(syndicationDeliveries).all();
+    expect(logs).toHaveLength(2);
+    expect(logs.every((l) => !l.succeeded && l.responseStatus === 503)).toBe(true);
+  });
+
+  it("also signs with the previous secret during a rotation grace window", async () => {
+    db.update(syndicationSubscribers)
+      .set({
+        signingSecret: "rotated-signing-key-0001",
+        previousSigningSecret: SECRET,
+        previousSecretExpiresAt: new Date(Date.now() + 60_000),
+      })
+      .run();
+
+    await processSyndicationEntity(db, { entityType: "venue", entityId: VENUE_ID });
+    const init = fetchMock.mock.calls[0][1];
+    expect(init.headers["X-Syndication-Signature"]).toBe(
+      `sha256=${await hmacSha256Hex("rotated-signing-key-0001", init.body)}`
+    );
+    expect(init.headers["X-Syndication-Signature-Previous"]).toBe(
+      `sha256=${await hmacSha256Hex(SECRET, init.body)}`
+    );
+  });
+});
+
 describe("hmacSha256Hex", () => {
   it("is deterministic and 64 hex chars", async () => {
     const a = await hmacSha256Hex("k", "msg");
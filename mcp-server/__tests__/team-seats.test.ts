@@ -0,0 +1,114 @@
+/**
+ * Team accounts (drizzle/0239) on the MCP side: resolveSeats finds the vendor
+ * or promoter a user acts for — owned first, then their strongest team seat —
+ * and a VIEWER seat registers only the read tools.
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { CapturingMcpServer, createTestDb, type TestDb } from "./setup-db.js";
+import { resolveSeats } from "../src/auth.js";
+import { registerVendorTools } from "../src/tools/vendor.js";
+import { registerPromoterTools } from "../src/tools/promoter.js";
+import { organizationMembers, promoters, users, vendors } from "../src/schema.js";
+
+let db: TestDb;
+
+function seat(userId: string, entityType: "VENDOR" | "PROMOTER", entityId: string, role: string) {
+  db.insert(organizationMembers)
+    .values({
+      entityType,
+      entityId,
+      userId,
+      role: role as "EDITOR" | "VIEWER",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .run();
+}
+
+beforeEach(() => {
+  ({ db } = createTestDb());
+  db.insert(users)
+    .values([
+      { id: "u-owner", email: "owner@test", role: "VENDOR" },
+      { id: "u-mate", email: "mate@test", role: "USER" },
+      { id: "u-maple", email: "maple@test", role: "VENDOR" },
+    ])
+    .run();
+  db.insert(vendors)
+    .values([
+      { id: "v1", userId: "u-owner", businessName: "Kettle Corn Co", slug: "kettle-corn-co" },
+      { id: "v2", userId: "u-maple", businessName: "Maple Stand", slug: "maple-stand" },
+    ] as never)
+    .run();
+  db.insert(promoters)
+    .values({
+      id: "p1",
+      userId: "u-owner",
+      companyName: "Fair Society",
+      slug: "fair-society",
+    } as never)
+    .run();
+});
+
+describe("resolveSeats", () => {
+  it("prefers the vendor a user owns over a team seat elsewhere", async () => {
+    seat("u-owner", "VENDOR", "v2", "EDITOR");
+    expect(await resolveSeats(db, { id: "u-owner", role: "VENDOR" })).toEqual({
+      vendorId: "v1",
+      vendorRole: "OWNER",
+    });
+  });
+
+  it("seats a teammate whose primary role is still USER, strongest seat first", async () => {
+    seat("u-mate", "VENDOR", "v1", "VIEWER");
+    seat("u-mate", "VENDOR", "v2", "EDITOR");
+    seat("u-mate", "PROMOTER", "p1", "VIEWER");
+    expect(await resolveSeats(db, { id: "u-mate", role: "USER" })).toEqual({
+      vendorId: "v2",
+      vendorRole: "EDITOR",
+      promoterId: "p1",
+      promoterRole: "VIEWER",
+    });
+  });
+});
+
+describe("tool registration by seat", () => {
+  it("withholds vendor write tools from a viewer", () => {
+    const server = new CapturingMcpServer();
+    registerVendorTools(
+      server as never,
+      db,
+      { userId: "u-mate", role: "USER", vendorId: "v1", vendorRole: "VIEWER" },
+      undefined
+    );
+    expect(server.handlers.has("get_my_vendor_profile")).toBe(true);
+    expect(server.handlers.has("list_my_applications")).toBe(true);
+    expect(server.handlers.has("update_vendor_profile")).toBe(false);
+    expect(server.handlers.has("apply_to_event")).toBe(false);
+    expect(server.handlers.has("withdraw_application")).toBe(false);
+  });
+
+  it("gives a vendor editor the write tools", () => {
+    const server = new CapturingMcpServer();
+    registerVendorTools(
+      server as never,
+      db,
+      { userId: "u-mate", role: "USER", vendorId: "v1", vendorRole: "EDITOR" },
+      undefined
+    );
+    expect(server.handlers.has("update_vendor_profile")).toBe(true);
+    expect(server.handlers.has("apply_to_event")).toBe(true);
+  });
+
+  it("lets a promoter viewer read applications but not decide them", () => {
+    const server = new CapturingMcpServer();
+    registerPromoterTools(server as never, db, {
+      userId: "u-mate",
+      role: "USER",
+      promoterId: "p1",
+      promoterRole: "VIEWER",
+    });
+    expect(server.handlers.has("get_event_applications")).toBe(true);
+    expect(server.handlers.has("update_application_status")).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * `mmatf_` Bearer tokens on the MCP side (drizzle/0225): the legacy /mcp
+ * handler applies the same revoked / expired / allow-list policy as the main
+ * app's vendor API, and a token's scopes decide which tools it is given.
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { createHash } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { CapturingMcpServer, createTestDb, type TestDb } from "./setup-db.js";
+import { authenticateToken, hasFullAuthority, verifyBearerToken } from "../src/auth.js";
+import { registerUserTools } from "../src/tools/user.js";
+import { registerVendorTools } from "../src/tools/vendor.js";
+import { apiTokens, users, vendors } from "../src/schema.js";
+
+const RAW = "mmatf_0123456789abcdef0123456789abcdef01234567";
+const BEARER = `Bearer ${RAW}`;
+const ALL_SCOPES = '["applications:read","applications:write","profile:write","events:read"]';
+
+let db: TestDb;
+
+function insertToken(overrides: Partial<typeof apiTokens.$inferInsert> = {}) {
+  db.insert(apiTokens)
+    .values({
+      id: "t1",
+      userId: "u-vendor",
+      tokenHash: createHash("sha256").update(RAW).digest("hex"),
+      scopes: ALL_SCOPES,
+      ...overrides,
+    })
+    .run();
+}
+
+beforeEach(() => {
+  ({ db } = createTestDb());
+  db.insert(users).values({ id: "u-vendor", email: "vendor@test", role: "VENDOR" }).run();
+  db.insert(vendors)
+    .values({
+      id: "v1",
+      userId: "u-vendor",
+      businessName: "Kettle Corn Co",
+      slug: "kettle-corn-co",
+    } as never)
+    .run();
+});
+
+describe("authenticateToken", () => {
+  it("resolves a live token to the user, seat and scopes", async () => {
+    insertToken();
+    const auth = await authenticateToken(db, BEARER);
+    expect(auth).toMatchObject({ userId: "u-vendor", vendorId: "v1", vendorRole: "OWNER" });
+    expect(auth && hasFullAuthority(auth)).toBe(true);
+  });
+
+  it("returns null for a revoked token", async () => {
+    insertToken({ revokedAt: new Date(Date.now() - 60_000) });
+    expect(await authenticateToken(db, BEARER)).toBeNull();
+    expect(await verifyBearerToken(db, BEARER, null)).toEqual({
+      ok: false,
+      status: 401,
+      error: "Token has been revoked",
+    });
+  });
+
+  it("returns null for an expired token", async () => {
+    insertToken({ expiresAt: new Date(Date.now() - 60_000) });
+    expect(await authenticateToken(db, BEARER)).toBeNull();
+  });
+
+  it("refuses an address outside the allow-list with 403 and counts the denial", async () => {
+    insertToken({ allowedCidrs: '["203.0.113.0/24"]' });
+    expect(await verifyBearerToken(db, BEARER, "198.51.100.7")).toMatchObject({
+      ok: false,
+      status: 403,
+    });
+    expect(await authenticateToken(db, BEARER, "203.0.113.40")).not.toBeNull();
+
+    // The counter writes are fire-and-forget; let them land.
+    await new Promise((r) => setTimeout(r, 0));
+    const [row] = db.select().from(apiTokens).where(eq(apiTokens.id, "t1")).all();
+    expect(row.deniedCount).toBe(1);
+    expect(row.useCount).toBe(1);
+    expect(row.lastUsedIp).toBe("203.0.113.40");
+  });
+});
+
+describe("tool registration by token scope", () => {
+  it("gives a read-only token no tool that writes", async () => {
+    insertToken({ scopes: '["applications:read","events:read"]' });
+    const auth = await authenticateToken(db, BEARER);
+    expect(auth).not.toBeNull();
+    expect(hasFullAuthority(auth!)).toBe(false);
+
+    const server = new CapturingMcpServer();
+    registerUserTools(server as never, db, auth!);
+    registerVendorTools(server as never, db, auth!, undefined);
+    expect(server.handlers.has("get_my_favorites")).toBe(true);
+    expect(server.handlers.has("list_my_applications")).toBe(true);
+    expect(server.handlers.has("toggle_favorite")).toBe(false);
+    expect(server.handlers.has("suggest_event")).toBe(false);
+    expect(server.handlers.has("update_vendor_profile")).toBe(false);
+    expect(server.handlers.has("apply_to_event")).toBe(false);
+  });
+
+  it("gives a profile-only token the profile editor and nothing about applications", async () => {
+    insertToken({ scopes: '["profile:write"]' });
+    const auth = await authenticateToken(db, BEARER);
+
+    const server = new CapturingMcpServer();
+    registerVendorTools(server as never, db, auth!, undefined);
+    expect(server.handlers.has("update_vendor_profile")).toBe(true);
+    expect(server.handlers.has("list_my_applications")).toBe(false);
+    expect(server.handlers.has("apply_to_event")).toBe(false);
+  });
+});
@@ -8,10 +8,15 @@
  * Used by mcp-server/src/tools/admin.ts's update_event_status tool to
  * fire the "your submission was approved" email on non-APPROVED →
  * APPROVED transitions for submitter-attributed events.
+ *
+ * The in-app half (signed-in submitter, "Submission approved" preference
+ * from drizzle/0233) is inlined below because the main app's notification
+ * center module isn't importable from this Worker; the type string and
+ * the defaults must match src/lib/notifications/types.ts.
  */
 
 import { eq, and, isNull } from "drizzle-orm";
-import { events, inboundEmails } from "./schema.js";
+import { events, inboundEmails, notificationPreferences, notifications } from "./schema.js";
 import type { Db } from "./db.js";
 import { issueToken } from "./feedback-tokens.js";
 
@@ -78,6 +83,7 @@ export interface NotifyApprovalEnv {
 
 export type NotifyApprovalOutcome =
   | "sent"
+  | "notified-in-app"
   | "skipped:no-suggester-email"
   | "skipped:not-approved"
   | "skipped:already-notified"
@@ -88,6 +94,30 @@ export interface NotifyApprovalResult {
   outcome: NotifyApprovalOutcome;
 }
 
+const SUBMISSION_APPROVED_DEFAULTS = { email: true, inApp: true };
+
+/** The submitter's stored channels, or the defaults (also on a failed read). */
+async function submissionApprovedChannels(
+  db: Db,
+  userId: string
+): Promise<{ email: boolean; inApp: boolean }> {
+  try {
+    const [row] = await db
+      .select({ email: notificationPreferences.email, inApp: notificationPreferences.inApp })
+      .from(notificationPreferences)
+      .where(
+        and(
+          eq(notificationPreferences.userId, userId),
+          eq(notificationPreferences.type, "submission_approved")
+        )
+      )
+      .limit(1);
+    return row ?? SUBMISSION_APPROVED_DEFAULTS;
+  } catch {
+    return SUBMISSION_APPROVED_DEFAULTS;
+  }
+}
+
 export async function notifyApprovalIfNeeded(
   db: Db,
   env: NotifyApprovalEnv,
@@ -100,6 +130,7 @@ export async function notifyApprovalIfNeeded(
       slug: events.slug,
       status: events.status,
       suggesterEmail: events.suggesterEmail,
+      submittedByUserId: events.submittedByUserId,
       approvalNotifiedAt: events.approvalNotifiedAt,
     })
     .from(events)
@@ -109,53 +140,79 @@ export async function notifyApprovalIfNeeded(
   if (rows.length === 0) return { outcome: "skipped:not-found" };
   const e = rows[0];
 
-  if (!e.suggesterEmail) return { outcome: "skipped:no-suggester-email" };
+  if (!e.suggesterEmail && !e.submittedByUserId) {
+    return { outcome: "skipped:no-suggester-email" };
+  }
   if (e.status !== "APPROVED") return { outcome: "skipped:not-approved" };
   if (e.approvalNotifiedAt !== null) return { outcome: "skipped:already-notified" };
 
-  if (!env.EMAIL_JOBS) return { outcome: "error:queue-missing" };
+  const prefs = e.submittedByUserId
+    ? await submissionApprovedChannels(db, e.submittedByUserId)
+    : SUBMISSION_APPROVED_DEFAULTS;
+  const emailTo = e.suggesterEmail && prefs.email ? e.suggesterEmail : null;
+
+  if (emailTo) {
+    if (!env.EMAIL_JOBS) return { outcome: "error:queue-missing" };
+
+    const eventUrl = `${PUBLIC_HOST}/events/${e.slug}`;
+
+    // Phase D.3: issue an approval-moment feedback token if there's an
+    // inbound_email this approval traces back to. Best-effort.
+    let feedback: { looksGoodUrl: string; needsFixingUrl: string } | null = null;
+    try {
+      const inboundRows = await db
+        .select({ id: inboundEmails.id })
+        .from(inboundEmails)
+        .where(eq(inboundEmails.resultingEventId, eventId))
+        .limit(1);
+      if (inboundRows.length === 1) {
+        const token = await issueToken(db, {
+          inboundEmailId: inboundRows[0].id,
+          feedbackMoment: "approval",
+          resultingEventId: eventId,
+        });
+        const base = `${PUBLIC_HOST}/feedback/${encodeURIComponent(token)}`;
+        feedback = {
+          looksGoodUrl: `${base}?v=looks_good`,
+          needsFixingUrl: `${base}?v=needs_fixing`,
+        };
+      }
+    } catch {
+      // Intentional swallow: see comment in main-app twin.
+    }
 
-  const eventUrl = `${PUBLIC_HOST}/events/${e.slug}`;
+    const msg: EmailJobMessage = {
+      to: emailTo,
+      subject: `${SUBJECT_PREFIX} ${e.name}`.slice(0, 200),
+      text: buildText(e.name, eventUrl, feedback),
+      html: buildHtml(e.name, eventUrl, feedback),
+      source: "email:submission-approved",
+    };
 
-  // Phase D.3: issue an approval-moment feedback token if there's an
-  // inbound_email this approval traces back to. Best-effort.
-  let feedback: { looksGoodUrl: string; needsFixingUrl: string } | null = null;
-  try {
-    const inboundRows = await db
-      .select({ id: inboundEmails.id })
-      .from(inboundEmails)
-      .where(eq(inboundEmails.resultingEventId, eventId))
-      .limit(1);
-    if (inboundRows.length === 1) {
-      const token = await issueToken(db, {
-        inboundEmailId: inboundRows[0].id,
-        feedbackMoment: "approval",
-        resultingEventId: eventId,
+    await env.EMAIL_JOBS.send(msg);
+  }
+
+  if (e.submittedByUserId && prefs.inApp) {
+    try {
+      await db.insert(notifications).values({
+        id: crypto.randomUUID(),
+        userId: e.submittedByUserId,
+        type: "submission_approved",
+        title: "Your submission is live",
+        message: `${e.name} has been approved and is now listed.`,
+        read: false,
+        data: JSON.stringify({ eventId: e.id, url: `/events/${e.slug}` }),
+        createdAt: new Date(),
       });
-      const base = `${PUBLIC_HOST}/feedback/${encodeURIComponent(token)}`;
-      feedback = {
-        looksGoodUrl: `${base}?v=looks_good`,
-        needsFixingUrl: `${base}?v=needs_fixing`,
-      };
+    } catch {
+      // Best-effort, as in the main-app notification writer.
     }
-  } catch {
-    // Intentional swallow: see comment in main-app twin.
   }
 
-  const msg: EmailJobMessage = {
-    to: e.suggesterEmail,
-    subject: `${SUBJECT_PREFIX} ${e.name}`.slice(0, 200),
-    text: buildText(e.name, eventUrl, feedback),
-    html: buildHtml(e.name, eventUrl, feedback),
-    source: "email:submission-approved",
-  };
-
-  await env.EMAIL_JOBS.send(msg);
-
   await db
     .update(events)
     .set({ approvalNotifiedAt: new Date() })
     .where(and(eq(events.id, eventId), isNull(events.approvalNotifiedAt)));
 
-  return { outcome: "sent" };
+  return { outcome: emailTo ? "sent" : "notified-in-app" };
 }
@@ -1,5 +1,11 @@
-import { eq } from "drizzle-orm";
-import { apiTokens, users, vendors, promoters } from "./schema.js";
+import { and, asc, eq, sql } from "drizzle-orm";
+import {
+  API_TOKEN_SCOPE_VALUES,
+  checkApiTokenPolicy,
+  parseTokenScopes,
+  type ApiTokenScope,
+} from "@takemetothefair/utils";
+import { apiTokens, organizationMembers, users, vendors, promoters } from "./schema.js";
 import type { Db } from "./db.js";
 
 export interface AuthContext {
@@ -7,6 +13,107 @@ export interface AuthContext {
   role: "ADMIN" | "PROMOTER" | "VENDOR" | "USER";
   vendorId?: string;
   promoterId?: string;
+  /** Team seat on vendorId / promoterId (drizzle/0239). VIEWERs get read tools only. */
+  vendorRole?: OrganizationRole;
+  promoterRole?: OrganizationRole;
+  /**
+   * Scopes of the `mmatf_` token behind this session (drizzle/0225). Absent
+   * for OAuth sessions, which carry the account's full authority.
+   */
+  scopes?: ApiTokenScope[];
+}
+
+/** True when the session may use a tool that needs `scope`. */
+export function hasScope(auth: AuthContext, scope: ApiTokenScope): boolean {
+  return !auth.scopes || auth.scopes.includes(scope);
+}
+
+/** True when the session may write anything at all — suggest, favorite, apply. */
+export function canWrite(auth: AuthContext): boolean {
+  return !auth.scopes || auth.scopes.some((s) => s.endsWith(":write"));
+}
+
+/**
+ * Admin tools need the whole grant: a token narrowed to any subset of scopes
+ * is somebody's integration, not an operator console.
+ */
+export function hasFullAuthority(auth: AuthContext): boolean {
+  return !auth.scopes || API_TOKEN_SCOPE_VALUES.every((s) => auth.scopes!.includes(s));
+}
+
+type OrganizationRole = "OWNER" | "EDITOR" | "VIEWER";
+
+export type Seats = {
+  vendorId?: string;
+  vendorRole?: OrganizationRole;
+  promoterId?: string;
+  promoterRole?: OrganizationRole;
+};
+
+/**
+ * Which vendor and promoter a user acts for — the main app's getMembership
+ * (src/lib/organizations/members.ts), repeated here because the Worker can't
+ * import from the app. An owned row wins; otherwise the user's strongest
+ * team seat. Seats are looked up whatever the primary role, since an invited
+ * teammate usually still has users.role = USER.
+ */
+export async function resolveSeats(
+  db: Db,
+  user: { id: string; role: string },
+): Promise<Seats> {
+  const seats: Seats = {};
+  const seat = async (entityType: "VENDOR" | "PROMOTER") => {
+    const rows = await db
+      .select({ entityId: organizationMembers.entityId, role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(
+        and(eq(organizationMembers.userId, user.id), eq(organizationMembers.entityType, entityType)),
+      )
+      // EDITOR sorts before VIEWER — the stronger seat wins.
+      .orderBy(asc(organizationMembers.role), asc(organizationMembers.createdAt))
+      .limit(1);
+    return rows[0];
+  };
+
+  if (user.role === "VENDOR" || user.role === "ADMIN") {
+    const vendorRows = await db
+      .select({ id: vendors.id })
+      .from(vendors)
+      .where(eq(vendors.userId, user.id))
+      .limit(1);
+    if (vendorRows.length > 0) {
+      seats.vendorId = vendorRows[0].id;
+      seats.vendorRole = "OWNER";
+    }
+  }
+  if (!seats.vendorId) {
+    const member = await seat("VENDOR");
+    if (member) {
+      seats.vendorId = member.entityId;
+      seats.vendorRole = member.role;
+    }
+  }
+
+  if (user.role === "PROMOTER" || user.role === "ADMIN") {
+    const promoterRows = await db
+      .select({ id: promoters.id })
+      .from(promoters)
+      .where(eq(promoters.userId, user.id))
+      .limit(1);
+    if (promoterRows.length > 0) {
+      seats.promoterId = promoterRows[0].id;
+      seats.promoterRole = "OWNER";
+    }
+  }
+  if (!seats.promoterId) {
+    const member = await seat("PROMOTER");
+    if (member) {
+      seats.promoterId = member.entityId;
+      seats.promoterRole = member.role;
+    }
+  }
+
+  return seats;
 }
 
 function toHex(buffer: ArrayBuffer): string {
@@ -22,14 +129,21 @@ async function hashToken(token: string): Promise<string> {
   return toHex(hash);
 }
 
+export type TokenAuthResult =
+  | { ok: true; auth: AuthContext }
+  | { ok: false; status: 401 | 403; error: string };
+
 /**
- * Validate a Bearer token and resolve the user's role + associated IDs.
- * Returns null if the token is invalid or not found.
+ * Validate a Bearer token against its row and the token policy shared with the
+ * main app's vendor API (revoked / expired → 401, outside the allow-list →
+ * 403), then resolve the user's role, seats and scopes. `clientIp` must be
+ * CF-Connecting-IP. Returns null when there is no token or no row matches it.
  */
-export async function authenticateToken(
+export async function verifyBearerToken(
   db: Db,
   authHeader: string | null,
-): Promise<AuthContext | null> {
+  clientIp: string | null,
+): Promise<TokenAuthResult | null> {
   if (!authHeader?.startsWith("Bearer ")) return null;
 
   const rawToken = authHeader.slice(7).trim();
@@ -42,6 +156,10 @@ export async function authenticateToken(
     .select({
       tokenId: apiTokens.id,
       userId: apiTokens.userId,
+      scopes: apiTokens.scopes,
+      expiresAt: apiTokens.expiresAt,
+      revokedAt: apiTokens.revokedAt,
+      allowedCidrs: apiTokens.allowedCidrs,
     })
     .from(apiTokens)
     .where(eq(apiTokens.tokenHash, tokenHash))
@@ -49,7 +167,23 @@ export async function authenticateToken(
 
   if (tokenRows.length === 0) return null;
 
-  const { tokenId, userId } = tokenRows[0];
+  const token = tokenRows[0];
+  const { tokenId, userId } = token;
+
+  const refusal = checkApiTokenPolicy(token, clientIp);
+  if (refusal) {
+    if (refusal.reason === "malformed_allow_list") {
+      console.error("[MCP Auth] Unparsable allowed_cidrs; denying all addresses");
+    }
+    if (refusal.status === 403) {
+      db.update(apiTokens)
+        .set({ deniedCount: sql`${apiTokens.deniedCount} + 1` })
+        .where(eq(apiTokens.id, tokenId))
+        .then(() => {})
+        .catch(() => {});
+    }
+    return { ok: false, status: refusal.status, error: refusal.error };
+  }
 
   // Get user with role
   const userRows = await db
@@ -65,9 +199,13 @@ export async function authenticateToken(
 
   const user = userRows[0];
 
-  // Update last_used_at (fire-and-forget, don't await)
+  // Update usage counters (fire-and-forget, don't await)
   db.update(apiTokens)
-    .set({ lastUsedAt: new Date() })
+    .set({
+      lastUsedAt: new Date(),
+      lastUsedIp: clientIp,
+      useCount: sql`${apiTokens.useCount} + 1`,
+    })
     .where(eq(apiTokens.id, tokenId))
     .then(() => {})
     .catch(() => {});
@@ -75,26 +213,24 @@ export async function authenticateToken(
   const ctx: AuthContext = {
     userId: user.id,
     role: user.role as AuthContext["role"],
+    scopes: parseTokenScopes(token.scopes),
   };
 
-  // Resolve vendor/promoter IDs if applicable
-  if (user.role === "VENDOR" || user.role === "ADMIN") {
-    const vendorRows = await db
-      .select({ id: vendors.id })
-      .from(vendors)
-      .where(eq(vendors.userId, user.id))
-      .limit(1);
-    if (vendorRows.length > 0) ctx.vendorId = vendorRows[0].id;
-  }
+  // Resolve vendor/promoter IDs — owned, or by team seat
+  Object.assign(ctx, await resolveSeats(db, user));
 
-  if (user.role === "PROMOTER" || user.role === "ADMIN") {
-    const promoterRows = await db
-      .select({ id: promoters.id })
-      .from(promoters)
-      .where(eq(promoters.userId, user.id))
-      .limit(1);
-    if (promoterRows.length > 0) ctx.promoterId = promoterRows[0].id;
-  }
+  return { ok: true, auth: ctx };
+}
 
-  return ctx;
+/**
+ * Validate a Bearer token and resolve the user's role + associated IDs.
+ * Returns null if the token is invalid, not found, or refused by its policy.
+ */
+export async function authenticateToken(
+  db: Db,
+  authHeader: string | null,
+  clientIp: string | null = null,
+): Promise<AuthContext | null> {
+  const result = await verifyBearerToken(db, authHeader, clientIp);
+  return result?.ok ? result.auth : null;
 }
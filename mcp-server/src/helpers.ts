@@ -199,6 +199,104 @@ export function publicEventWhere() {
   return and(inArrayMcp(events.status, [...PE]), inArrayMcp(events.lifecycleStatus, [...PL]));
 }
 
+import { desc, gte, isNotNull, lte, sql, type SQL } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import { locations, locationZips } from "./schema.js";
+import {
+  milesBetween,
+  nearBoundingBox,
+  nearDistanceScale,
+  normalizeZip,
+  parseRadiusMiles,
+  toGeoPoint,
+  type GeoPoint,
+} from "@takemetothefair/utils";
+
+/**
+ * Radius search for search_events / search_vendors. Mirrors
+ * src/lib/near-search.ts (the /events and /vendors listings and /api/search):
+ * same ZIP resolution, same box-then-distance predicate, so an agent and a
+ * visitor asking for "within 25 miles of 04101" get the same rows.
+ */
+export interface McpNearSearch {
+  center: GeoPoint;
+  radiusMiles: number;
+  zip: string | null;
+}
+
+export async function resolveMcpNearSearch(
+  db: Db,
+  params: { latitude?: number; longitude?: number; zip?: string; radius_miles?: number }
+): Promise<{ search: McpNearSearch | null; error?: string }> {
+  const radiusMiles = parseRadiusMiles(params.radius_miles);
+  if (params.zip) {
+    const zip = normalizeZip(params.zip);
+    if (!zip) return { search: null, error: `"${params.zip}" is not a US ZIP code.` };
+    // A ZIP can span several places; the most populous stands in for it.
+    const [row] = await db
+      .select({ latitude: locations.latitude, longitude: locations.longitude })
+      .from(locationZips)
+      .innerJoin(locations, eq(locationZips.locationId, locations.id))
+      .where(
+        and(
+          eq(locationZips.zip, zip),
+          isNotNull(locations.latitude),
+          isNotNull(locations.longitude)
+        )
+      )
+      .orderBy(desc(sql`coalesce(${locations.population}, 0)`))
+      .limit(1);
+    const center = row && toGeoPoint(row.latitude, row.longitude);
+    if (!center) return { search: null, error: `ZIP ${zip} is not in the locations table.` };
+    return { search: { center, radiusMiles, zip } };
+  }
+  if (params.latitude === undefined && params.longitude === undefined) return { search: null };
+  const center = toGeoPoint(params.latitude, params.longitude);
+  if (!center) {
+    return {
+      search: null,
+      error: "latitude and longitude must be given together, within ±90 / ±180.",
+    };
+  }
+  return { search: { center, radiusMiles, zip: null } };
+}
+
+/** Squared approximate miles from the center — sorts as distance does. */
+export function nearDistanceSquared(
+  latColumn: SQLiteColumn,
+  lngColumn: SQLiteColumn,
+  center: GeoPoint
+): SQL<number> {
+  const { latMiles, lngMiles } = nearDistanceScale(center);
+  return sql<number>`((${latColumn} - ${center.latitude}) * ${latMiles}) * ((${latColumn} - ${center.latitude}) * ${latMiles}) + ((${lngColumn} - ${center.longitude}) * ${lngMiles}) * ((${lngColumn} - ${center.longitude}) * ${lngMiles})`;
+}
+
+/** Bounding box (idx_venues_lat_lng / idx_vendors_lat_lng) first, then the distance test. */
+export function nearWhere(
+  latColumn: SQLiteColumn,
+  lngColumn: SQLiteColumn,
+  search: McpNearSearch
+): SQL {
+  const box = nearBoundingBox(search.center, search.radiusMiles);
+  return and(
+    gte(latColumn, box.minLat),
+    lte(latColumn, box.maxLat),
+    gte(lngColumn, box.minLng),
+    lte(lngColumn, box.maxLng),
+    sql`${nearDistanceSquared(latColumn, lngColumn, search.center)} <= ${search.radiusMiles * search.radiusMiles}`
+  )!;
+}
+
+/** Great-circle miles to one decimal, for tool output; null without coordinates. */
+export function nearDistanceMiles(
+  center: GeoPoint,
+  latitude: number | null,
+  longitude: number | null
+): number | null {
+  if (latitude === null || longitude === null) return null;
+  return Math.round(milesBetween(center.latitude, center.longitude, latitude, longitude) * 10) / 10;
+}
+
 /** Build a concise text content response for MCP */
 export function jsonContent(data: unknown): { type: "text"; text: string } {
   return { type: "text", text: JSON.stringify(data, null, 2) };
@@ -12,7 +12,7 @@ import {
 } from "./transport-collision-fix.js";
 import { timingSafeEqualString } from "@takemetothefair/utils";
 import { getDb } from "./db.js";
-import { authenticateToken } from "./auth.js";
+import { hasFullAuthority, verifyBearerToken } from "./auth.js";
 import { registerPublicTools } from "./tools/public.js";
 import { registerUserTools } from "./tools/user.js";
 import { registerVendorTools } from "./tools/vendor.js";
@@ -274,7 +274,9 @@ export class MeetMeAtTheFairMCP extends McpAgent<Env, Record<string, never>, Use
                   email: props.email,
                   role: props.role,
                   vendorId: props.vendorId || null,
+                  vendorRole: props.vendorRole || null,
                   promoterId: props.promoterId || null,
+                  promoterRole: props.promoterRole || null,
                   build,
                   toolSets,
                   tools: {
@@ -306,13 +308,15 @@ export class MeetMeAtTheFairMCP extends McpAgent<Env, Record<string, never>, Use
         role: this.props.role as AuthContext["role"],
         vendorId: this.props.vendorId,
         promoterId: this.props.promoterId,
+        vendorRole: this.props.vendorRole,
+        promoterRole: this.props.promoterRole,
       };
 
       before = snapshot();
       registerUserTools(this.server, db, auth);
       groups.user = diff(before);
 
-      if (auth.role === "VENDOR" || auth.role === "ADMIN") {
+      if (auth.role === "VENDOR" || auth.role === "ADMIN" || auth.vendorId) {
         console.log(
           `[INIT] Registering vendor tools for role=${auth.role} vendorId=${auth.vendorId || "none"}`
         );
@@ -320,7 +324,7 @@ export class MeetMeAtTheFairMCP extends McpAgent<Env, Record<string, never>, Use
         registerVendorTools(this.server, db, auth, this.env);
         groups.vendor = diff(before);
       }
-      if (auth.role === "PROMOTER" || auth.role === "ADMIN") {
+      if (auth.role === "PROMOTER" || auth.role === "ADMIN" || auth.promoterId) {
         before = snapshot();
         registerPromoterTools(this.server, db, auth);
         groups.promoter = diff(before);
@@ -609,18 +613,38 @@ async function handleLegacyMcpRequest(request: Request, env: Env): Promise<Respo
   }
 
   const db = getDb(env.DB);
+
+  // A revoked, expired or out-of-range token is refused outright rather than
+  // quietly downgraded to the public tools — the caller should learn its
+  // credential is dead.
+  const verified = await verifyBearerToken(
+    db,
+    request.headers.get("Authorization"),
+    request.headers.get("CF-Connecting-IP")
+  );
+  if (verified && !verified.ok) {
+    return new Response(JSON.stringify({ error: verified.error }), {
+      status: verified.status,
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": corsOrigin,
+      },
+    });
+  }
+  const auth = verified?.ok ? verified.auth : null;
+
   const server = new McpServer({ name: "MeetMeAtTheFair", version: "1.0.0" });
 
   registerPublicTools(server, db);
 
-  const authHeader = request.headers.get("Authorization");
-  const auth = await authenticateToken(db, authHeader);
-
   if (auth) {
     registerUserTools(server, db, auth);
-    if (auth.role === "VENDOR" || auth.role === "ADMIN") registerVendorTools(server, db, auth, env);
-    if (auth.role === "PROMOTER" || auth.role === "ADMIN") registerPromoterTools(server, db, auth);
-    if (auth.role === "ADMIN") {
+    if (auth.role === "VENDOR" || auth.role === "ADMIN" || auth.vendorId)
+      registerVendorTools(server, db, auth, env);
+    if (auth.role === "PROMOTER" || auth.role === "ADMIN" || auth.promoterId)
+      registerPromoterTools(server, db, auth);
+    // Admin tools follow the token's scopes as well as the account's role.
+    if (auth.role === "ADMIN" && hasFullAuthority(auth)) {
       registerAdminTools(server, db, auth, env);
       registerAdminProblemReportTools(server, db);
       registerInboundReadTools(server, db, auth, env);
@@ -827,6 +851,83 @@ async function runScheduledBingInspectionSweep(env: Env): Promise<void> {
   );
 }
 
+/**
+ * Waitlist promotion (drizzle/0228): expire unanswered booth offers so the
+ * slot cascades to the next waitlisted vendor, and offer booths freed by
+ * writers that don't reconcile inline — including this Worker's
+ * update_application_status tool. Hourly, so an offer's deadline is honoured
+ * to within the hour.
+ */
+async function runScheduledWaitlistSweep(env: Env): Promise<void> {
+  await runMainAppSweep(
+    env,
+    "waitlist sweep",
+    "/api/internal/waitlist/sweep",
+    (r) =>
+      `events=${r.events ?? "?"} expired=${r.expired ?? "?"} voided=${r.voided ?? "?"} offered=${r.offered ?? "?"} failed=${r.failed ?? "?"}`
+  );
+}
+
+/**
+ * Self-service account deletion (drizzle/0242): erase accounts whose grace
+ * period has run out. Hourly, so an erasure lands within the hour of the date
+ * the user was given; a partly-erased account is retried on the next fire.
+ */
+async function runScheduledAccountDeletionSweep(env: Env): Promise<void> {
+  await runMainAppSweep(
+    env,
+    "account deletion sweep",
+    "/api/internal/account-deletions/sweep",
+    (r) =>
+      `due=${r.due ?? "?"} erased=${r.erased ?? "?"} blocked=${r.blocked ?? "?"} failed=${r.failed ?? "?"}`
+  );
+}
+
+/**
+ * Saved-search digest (drizzle/0232): newly approved events matching users'
+ * saved /events searches, as in-app notifications plus one email per user.
+ * The main app decides which searches are due (daily, or weekly since their
+ * last run), so one daily trigger serves both frequencies.
+ */
+async function runScheduledSavedSearchDigest(env: Env): Promise<void> {
+  await runMainAppSweep(
+    env,
+    "saved-search digest",
+    "/api/internal/saved-searches/digest",
+    (r) =>
+      `searches=${r.searches ?? "?"} notified=${r.notified ?? "?"} emailed=${r.emailed ?? "?"} failed=${r.failed ?? "?"}`
+  );
+}
+
+/**
+ * Vendor application-deadline reminders (drizzle/0236): INVITED / INTERESTED
+ * vendors whose event stops taking applications within a week, as in-app
+ * notifications plus one email per vendor. Each link is reminded once per
+ * deadline, so a daily trigger is enough.
+ */
+async function runScheduledDeadlineReminders(env: Env): Promise<void> {
+  await runMainAppSweep(
+    env,
+    "deadline reminders",
+    "/api/internal/vendor-deadlines/remind",
+    (r) => `links=${r.links ?? "?"} notified=${r.notified ?? "?"} emailed=${r.emailed ?? "?"}`
+  );
+}
+
+/**
+ * Newsletter non-engagement flags (drizzle/0238): subscribers who opened and
+ * clicked none of their last few tracked issues get flagged for the editor;
+ * anyone who came back is cleared. Weekly is plenty — issues are weekly.
+ */
+async function runScheduledNewsletterEngagementFlags(env: Env): Promise<void> {
+  await runMainAppSweep(
+    env,
+    "newsletter engagement flags",
+    "/api/internal/newsletter/engagement-flags",
+    (r) => `evaluated=${r.evaluated ?? "?"} flagged=${r.flagged ?? "?"} cleared=${r.cleared ?? "?"}`
+  );
+}
+
 /**
  * Render-fault emitter (OPE-93) — POSTs the OPE-81 detect→dedup→emit endpoint so
  * error_logs render faults actually flow into fault_signatures. OPE-81 shipped
@@ -1377,6 +1478,7 @@ async function handleInternalApi(request: Request, env: Env, url: URL): Promise<
       text?: unknown;
       from?: unknown;
       source?: unknown;
+      newsletterIssueSlug?: unknown;
     };
     try {
       body = (await request.json()) as typeof body;
@@ -1409,6 +1511,9 @@ async function handleInternalApi(request: Request, env: Env, url: URL): Promise<
         text: body.text,
         from,
         source,
+        ...(typeof body.newsletterIssueSlug === "string"
+          ? { newsletterIssueSlug: body.newsletterIssueSlug }
+          : {}),
       });
     } catch (e) {
       await logError(env.DB, {
@@ -1657,7 +1762,10 @@ export default {
     //   - "0 6 * * *"     → daily heavy work (recs, gsc, time-to-index)
     //   - "10 6 * * *"    → GW1.3 holdout-sampling (added 2026-06-03)
     //   - "*/10 * * * *"  → §6.3 KPI state-machine recompute (light)
-    //   - "0 * * * *"     → hourly: drain pending_search_pings older than 1h
+    //   - "0 * * * *"     → hourly: drain pending_search_pings older than 1h,
+    //                        fault emit, waitlist offer expiry/promotion
+    //   - "0 12 * * *"    → saved-search digest (drizzle/0232), vendor
+    //                        application-deadline reminders (drizzle/0236)
     console.warn(
       `[cron] firing for cron='${controller.cron}' at ${new Date(controller.scheduledTime).toISOString()}`
     );
@@ -1706,6 +1814,8 @@ export default {
           runScheduledPendingPingsFlush(env),
           // OPE-93 — hourly render-fault emitter run (error_logs → fault_signatures).
           runScheduledFaultCandidatesEmit(env),
+          runScheduledWaitlistSweep(env),
+          runScheduledAccountDeletionSweep(env),
         ])
       );
       return;
@@ -1761,6 +1871,8 @@ export default {
     // there); duplicating any of it here is how two senders drift until one
     // stops honouring the suppression list.
     if (controller.cron === "0 11 * * 1") {
+      // drizzle/0238 — the weekly non-engagement pass rides the same trigger.
+      ctx.waitUntil(runScheduledNewsletterEngagementFlags(env));
       ctx.waitUntil(
         (async () => {
           try {
@@ -1791,6 +1903,12 @@ export default {
       return;
     }
 
+    if (controller.cron === "0 12 * * *") {
+      ctx.waitUntil(runScheduledSavedSearchDigest(env));
+      ctx.waitUntil(runScheduledDeadlineReminders(env));
+      return;
+    }
+
     if (controller.cron === "0 8 * * *") {
       // OPE-36 — nightly promoter-enrichment sweep (staggered 1h after vendors).
       // Selects ≤50 NEEDS_ENRICHMENT promoters, enqueues one job each; the queue
@@ -29,6 +29,8 @@ export interface LedgerEntry {
   providerMessageId?: string | null;
   error?: string | null;
   inboundEmailId?: string | null;
+  /** drizzle/0238 — newsletter_issues.slug for a tracked broadcast send. */
+  newsletterIssueSlug?: string | null;
   /** OPE-155 — the rendered body that went out (for the admin Sent viewer). */
   bodyHtml?: string | null;
   bodyText?: string | null;
@@ -49,6 +51,7 @@ export async function ledgerEmailSend(db: Db, e: LedgerEntry): Promise<void> {
     error: e.error ?? null,
     subject: e.subject ?? null,
     inboundEmailId: e.inboundEmailId ?? null,
+    newsletterIssueSlug: e.newsletterIssueSlug ?? null,
     provider: e.provider ?? null,
     bodyHtml: e.bodyHtml ?? null,
     bodyText: e.bodyText ?? null,
@@ -2,13 +2,39 @@ import { Hono } from "hono";
 import type { OAuthHelpers } from "@cloudflare/workers-oauth-provider";
 import { getDb } from "../db.js";
 import { logError } from "../logger.js";
-import { lookupUser, verifyPassword, resolveUserProps } from "./utils.js";
+import type { Db } from "../db.js";
+import type { MainAppEnv } from "../main-app-fetch.js";
+import { lookupUser, lookupUserById, verifyPassword, resolveUserProps } from "./utils.js";
+import {
+  MAX_CODE_ATTEMPTS,
+  PENDING_SIGN_IN_TTL_SECONDS,
+  clearPendingSignIn,
+  getSecondFactorRequirement,
+  loadPendingSignIn,
+  markMcpLoginVerified,
+  recordMcpLogin,
+  savePendingSignIn,
+  verifyCodeWithMainApp,
+  type SecondFactorRequirement,
+} from "./two-factor.js";
 
-interface Env {
+interface Env extends MainAppEnv {
   DB: D1Database;
   OAUTH_PROVIDER: OAuthHelpers;
+  OAUTH_KV: KVNamespace;
 }
 
+/** Why a password alone can't authorize these accounts (see ./two-factor.ts). */
+const NO_USABLE_FACTOR: Record<
+  Extract<SecondFactorRequirement, "passkey_only" | "admin_unenrolled">,
+  string
+> = {
+  passkey_only:
+    "Your account uses a passkey, which can't be used here yet. Add an authenticator app in your account settings, then connect again.",
+  admin_unenrolled:
+    "Admin accounts need an authenticator app before connecting. Set one up in your account settings, then connect again.",
+};
+
 const app = new Hono<{ Bindings: Env }>();
 
 // ---------------------------------------------------------------------------
@@ -56,7 +82,7 @@ app.get("/authorize", async (c) => {
 });
 
 // ---------------------------------------------------------------------------
-// POST /authorize — validate credentials, complete OAuth flow
+// POST /authorize — validate credentials, then ask for a code or complete OAuth flow
 // ---------------------------------------------------------------------------
 app.post("/authorize", async (c) => {
   console.log("[LOGIN] POST /authorize");
@@ -118,10 +144,147 @@ app.post("/authorize", async (c) => {
     return loginError(c, stateData, "Invalid email or password.");
   }
 
-  // Build user props for the OAuth token
-  const props = await resolveUserProps(db, user);
+  // drizzle/0241 — the same second factor the main app's sign-in asks for.
+  // A lookup that fails refuses the sign-in rather than skipping the check.
+  let requirement: SecondFactorRequirement;
+  try {
+    requirement = await getSecondFactorRequirement(db, user);
+  } catch (err) {
+    await logError(c.env.DB, {
+      source: "mcp:oauth",
+      message: "POST /authorize second-factor lookup failed",
+      error: err,
+      context: { userId: user.id },
+    });
+    return loginError(c, stateData, "We couldn't complete your sign-in. Please try again.");
+  }
+
+  if (requirement === "passkey_only" || requirement === "admin_unenrolled") {
+    await logError(c.env.DB, {
+      level: "warn",
+      source: "mcp:oauth",
+      message: "POST /authorize refused: no second factor usable on this form",
+      context: { userId: user.id, requirement },
+    });
+    return loginError(c, stateData, NO_USABLE_FACTOR[requirement]);
+  }
+
+  const sid = crypto.randomUUID();
+  await openLoginEvent(c, db, sid, user.id);
+
+  if (requirement === "code") {
+    await savePendingSignIn(c.env.OAUTH_KV, sid, { userId: user.id, attempts: 0 });
+    return codePrompt(c, stateData, sid, null);
+  }
 
   console.log("[LOGIN] Credentials valid for", user.email, "role:", user.role);
+  return completeSignIn(c, db, user, oauthReqInfo);
+});
+
+// ---------------------------------------------------------------------------
+// POST /authorize/two-factor — check the code, complete OAuth flow
+// ---------------------------------------------------------------------------
+app.post("/authorize/two-factor", async (c) => {
+  console.log("[LOGIN] POST /authorize/two-factor");
+  const formData = await c.req.raw.formData();
+
+  const csrfToken = formData.get("csrf_token") as string;
+  const cookies = c.req.raw.headers.get("Cookie") || "";
+  const match = cookies.match(/__Host-CSRF=([^;]+)/);
+  if (!match || match[1] !== csrfToken) {
+    await logError(c.env.DB, {
+      source: "mcp:oauth",
+      message: "POST /authorize/two-factor CSRF validation failed",
+      context: { hadCookieMatch: !!match, hadFormToken: !!csrfToken },
+    });
+    return c.text("CSRF validation failed. Please go back and try again.", 403);
+  }
+
+  const code = ((formData.get("code") as string) || "").trim();
+  const stateData = (formData.get("state") as string) || "";
+
+  let oauthReqInfo;
+  try {
+    oauthReqInfo = JSON.parse(atob(stateData));
+  } catch (err) {
+    await logError(c.env.DB, {
+      source: "mcp:oauth",
+      message: "POST /authorize/two-factor state parameter failed to decode/parse",
+      error: err,
+      context: { stateLen: stateData.length },
+    });
+    return c.text("Invalid authorization state. Please start the connection again.", 400);
+  }
+
+  const sid = cookies.match(/__Host-MCP-2FA=([^;]+)/)?.[1] ?? null;
+  const pending = sid ? await loadPendingSignIn(c.env.OAUTH_KV, sid) : null;
+  if (!sid || !pending) {
+    return loginError(c, stateData, "Your sign-in timed out. Please sign in again.");
+  }
+
+  let factor;
+  try {
+    factor = code ? await verifyCodeWithMainApp(c.env, { userId: pending.userId, code }) : null;
+  } catch (err) {
+    await logError(c.env.DB, {
+      source: "mcp:oauth",
+      message: "POST /authorize/two-factor code check failed",
+      error: err,
+      context: { userId: pending.userId },
+    });
+    return codePrompt(c, stateData, sid, "We couldn't check that code. Please try again.");
+  }
+
+  if (!factor) {
+    const attempts = pending.attempts + 1;
+    await logError(c.env.DB, {
+      level: "warn",
+      source: "mcp:oauth",
+      message: "POST /authorize/two-factor code did not match",
+      context: { userId: pending.userId, attempts },
+    });
+    if (attempts >= MAX_CODE_ATTEMPTS) {
+      await clearPendingSignIn(c.env.OAUTH_KV, sid);
+      return loginError(c, stateData, "Too many incorrect codes. Please sign in again.");
+    }
+    await savePendingSignIn(c.env.OAUTH_KV, sid, { ...pending, attempts });
+    return codePrompt(c, stateData, sid, "That code didn't match. Please try again.");
+  }
+
+  await clearPendingSignIn(c.env.OAUTH_KV, sid);
+  const db = getDb(c.env.DB);
+  const user = await lookupUserById(db, pending.userId);
+  if (!user) {
+    return loginError(c, stateData, "Your sign-in timed out. Please sign in again.");
+  }
+  try {
+    await markMcpLoginVerified(db, { sid, userId: user.id, secondFactor: factor });
+  } catch (err) {
+    await logError(c.env.DB, {
+      source: "mcp:oauth",
+      message: "Failed to mark MCP login event verified",
+      error: err,
+      context: { userId: user.id },
+    });
+  }
+
+  console.log("[LOGIN] Second factor valid for", user.email, "role:", user.role);
+  return completeSignIn(c, db, user, oauthReqInfo);
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Build the OAuth props, issue the auth code and redirect back to the client. */
+async function completeSignIn(
+  c: any,
+  db: Db,
+  user: { id: string; email: string; name: string | null; role: string },
+  oauthReqInfo: any
+) {
+  // Build user props for the OAuth token
+  const props = await resolveUserProps(db, user);
 
   // Complete the OAuth authorization — generates an auth code and redirects
   const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
@@ -133,18 +296,36 @@ app.post("/authorize", async (c) => {
   });
 
   console.log("[LOGIN] Redirecting to:", redirectTo.slice(0, 100) + "...");
-  return new Response(null, {
-    status: 302,
-    headers: {
-      Location: redirectTo,
-      "Set-Cookie": "__Host-CSRF=; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=0",
-    },
-  });
-});
+  const headers = new Headers({ Location: redirectTo });
+  headers.append("Set-Cookie", "__Host-CSRF=; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=0");
+  headers.append(
+    "Set-Cookie",
+    "__Host-MCP-2FA=; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=0"
+  );
+  return new Response(null, { status: 302, headers });
+}
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
+/**
+ * One login_events row per sign-in, as the main app keeps — it is the login
+ * history on /dashboard/settings. A failed write is logged, not fatal.
+ */
+async function openLoginEvent(c: any, db: Db, sid: string, userId: string) {
+  try {
+    await recordMcpLogin(db, {
+      sid,
+      userId,
+      ip: c.req.raw.headers.get("CF-Connecting-IP"),
+      userAgent: c.req.raw.headers.get("User-Agent"),
+    });
+  } catch (err) {
+    await logError(c.env.DB, {
+      source: "mcp:oauth",
+      message: "Failed to record MCP login event",
+      error: err,
+      context: { userId },
+    });
+  }
+}
 
 function loginError(c: any, stateData: string, message: string) {
   const newCsrf = crypto.randomUUID();
@@ -153,7 +334,26 @@ function loginError(c: any, stateData: string, message: string) {
   });
 }
 
-function renderLoginPage(csrfToken: string, stateData: string, error: string | null): string {
+function codePrompt(c: any, stateData: string, sid: string, error: string | null) {
+  const newCsrf = crypto.randomUUID();
+  const headers = new Headers({ "Content-Type": "text/html; charset=UTF-8" });
+  headers.append(
+    "Set-Cookie",
+    `__Host-CSRF=${newCsrf}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=600`
+  );
+  headers.append(
+    "Set-Cookie",
+    `__Host-MCP-2FA=${sid}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${PENDING_SIGN_IN_TTL_SECONDS}`
+  );
+  return new Response(renderLoginPage(newCsrf, stateData, error, "code"), { status: 200, headers });
+}
+
+function renderLoginPage(
+  csrfToken: string,
+  stateData: string,
+  error: string | null,
+  step: "password" | "code" = "password"
+): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -175,7 +375,7 @@ function renderLoginPage(csrfToken: string, stateData: string, error: string | n
     h1 { font-size: 1.5rem; margin-bottom: 0.25rem; color: #1a1a1a; }
     .subtitle { color: #666; font-size: 0.9rem; margin-bottom: 1.5rem; }
     label { display: block; font-weight: 500; margin-bottom: 0.25rem; font-size: 0.9rem; }
-    input[type="email"], input[type="password"] {
+    input[type="email"], input[type="password"], input[type="text"] {
       width: 100%; padding: 0.6rem 0.8rem; border: 1px solid #ddd;
       border-radius: 6px; font-size: 1rem; margin-bottom: 1rem;
     }
@@ -206,7 +406,14 @@ function renderLoginPage(csrfToken: string, stateData: string, error: string | n
       Sign in to authorize the connection.
     </div>
     ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
-    <form method="POST" action="/authorize">
+    ${step === "password" ? passwordForm(csrfToken, stateData) : codeForm(csrfToken, stateData)}
+  </div>
+</body>
+</html>`;
+}
+
+function passwordForm(csrfToken: string, stateData: string): string {
+  return `<form method="POST" action="/authorize">
       <input type="hidden" name="csrf_token" value="${csrfToken}" />
       <input type="hidden" name="state" value="${escapeHtml(stateData)}" />
       <label for="email">Email</label>
@@ -214,10 +421,18 @@ function renderLoginPage(csrfToken: string, stateData: string, error: string | n
       <label for="password">Password</label>
       <input type="password" id="password" name="password" required autocomplete="current-password" />
       <button type="submit">Sign In &amp; Authorize</button>
-    </form>
-  </div>
-</body>
-</html>`;
+    </form>`;
+}
+
+function codeForm(csrfToken: string, stateData: string): string {
+  return `<form method="POST" action="/authorize/two-factor">
+      <input type="hidden" name="csrf_token" value="${csrfToken}" />
+      <input type="hidden" name="state" value="${escapeHtml(stateData)}" />
+      <label for="code">Authentication code</label>
+      <input type="text" id="code" name="code" required autocomplete="one-time-code" autofocus />
+      <p class="subtitle">Enter the 6-digit code from your authenticator app, or one of your recovery codes.</p>
+      <button type="submit">Verify &amp; Authorize</button>
+    </form>`;
 }
 
 function escapeHtml(str: string): string {
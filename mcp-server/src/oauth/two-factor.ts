@@ -0,0 +1,158 @@
+/**
+ * The second factor on the MCP OAuth sign-in (drizzle/0241). The main app asks
+ * an enrolled user for an authenticator or recovery code after their password;
+ * the Worker's /authorize form asks too, or connecting Claude would be a way
+ * around it.
+ *
+ * Codes are checked by the main app (POST /api/internal/two-factor/verify):
+ * the TOTP secret is sealed under its AUTH_SECRET, and replay protection and
+ * recovery-code spending live there. A passkey can't be used on this form —
+ * its relying party is the main site — so a passkey-only account, and an admin
+ * with no authenticator app, is refused rather than let in on a password.
+ *
+ * Between the password and the code, the pending sign-in sits in OAUTH_KV
+ * under the login_events id, which the browser holds in an HttpOnly cookie.
+ */
+import { and, count, eq, isNull } from "drizzle-orm";
+import { loginEvents, userPasskeys, userRoles, userTotp } from "../schema.js";
+import type { Db } from "../db.js";
+import { mainAppFetch, type MainAppEnv } from "../main-app-fetch.js";
+
+/** `login_events.method` for sign-ins through this form. */
+export const MCP_LOGIN_METHOD = "mcp-oauth";
+
+/** How long the code prompt stays open after the password was accepted. */
+export const PENDING_SIGN_IN_TTL_SECONDS = 600;
+
+/** Wrong codes allowed per password entry before the user has to start over. */
+export const MAX_CODE_ATTEMPTS = 5;
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+export type CodeFactor = "totp" | "recovery";
+
+/**
+ * What a user must do after their password:
+ *   none             — not enrolled; the password is the whole sign-in
+ *   code             — authenticator app enrolled; ask for a code
+ *   passkey_only     — enrolled with passkeys only, which this form can't take
+ *   admin_unenrolled — an admin with no factor at all
+ */
+export type SecondFactorRequirement = "none" | "code" | "passkey_only" | "admin_unenrolled";
+
+export async function getSecondFactorRequirement(
+  db: Db,
+  user: { id: string; role: string }
+): Promise<SecondFactorRequirement> {
+  const [[totp], [passkeys], [adminGrant]] = await Promise.all([
+    db
+      .select({ enabledAt: userTotp.enabledAt })
+      .from(userTotp)
+      .where(eq(userTotp.userId, user.id))
+      .limit(1),
+    db.select({ n: count() }).from(userPasskeys).where(eq(userPasskeys.userId, user.id)),
+    db
+      .select({ role: userRoles.role })
+      .from(userRoles)
+      .where(and(eq(userRoles.userId, user.id), eq(userRoles.role, "ADMIN")))
+      .limit(1),
+  ]);
+  if (totp?.enabledAt) return "code";
+  if ((passkeys?.n ?? 0) > 0) return "passkey_only";
+  if (user.role === "ADMIN" || adminGrant) return "admin_unenrolled";
+  return "none";
+}
+
+/** Open this sign-in's login_events row. Verified only once a code matched. */
+export async function recordMcpLogin(
+  db: Db,
+  args: {
+    sid: string;
+    userId: string;
+    ip: string | null;
+    userAgent: string | null;
+    now?: Date;
+  }
+): Promise<void> {
+  await db.insert(loginEvents).values({
+    id: args.sid,
+    userId: args.userId,
+    method: MCP_LOGIN_METHOD,
+    secondFactor: null,
+    ip: args.ip,
+    userAgent: args.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+    createdAt: args.now ?? new Date(),
+    verifiedAt: null,
+  });
+}
+
+export async function markMcpLoginVerified(
+  db: Db,
+  args: { sid: string; userId: string; secondFactor: CodeFactor; now?: Date }
+): Promise<void> {
+  await db
+    .update(loginEvents)
+    .set({ verifiedAt: args.now ?? new Date(), secondFactor: args.secondFactor })
+    .where(
+      and(
+        eq(loginEvents.id, args.sid),
+        eq(loginEvents.userId, args.userId),
+        isNull(loginEvents.verifiedAt)
+      )
+    );
+}
+
+export interface PendingSignIn {
+  userId: string;
+  attempts: number;
+}
+
+function pendingKey(sid: string): string {
+  return `mcp-2fa:${sid}`;
+}
+
+export async function savePendingSignIn(
+  kv: KVNamespace,
+  sid: string,
+  pending: PendingSignIn
+): Promise<void> {
+  await kv.put(pendingKey(sid), JSON.stringify(pending), {
+    expirationTtl: PENDING_SIGN_IN_TTL_SECONDS,
+  });
+}
+
+export async function loadPendingSignIn(
+  kv: KVNamespace,
+  sid: string
+): Promise<PendingSignIn | null> {
+  const raw = await kv.get(pendingKey(sid));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as PendingSignIn;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearPendingSignIn(kv: KVNamespace, sid: string): Promise<void> {
+  await kv.delete(pendingKey(sid));
+}
+
+/**
+ * Ask the main app whether `code` is a current authenticator code or an
+ * unused recovery code for the user. Throws when the main app can't answer,
+ * so the caller refuses rather than guesses.
+ */
+export async function verifyCodeWithMainApp(
+  env: MainAppEnv,
+  args: { userId: string; code: string }
+): Promise<CodeFactor | null> {
+  const res = await mainAppFetch(env, "/api/internal/two-factor/verify", "fetch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(args),
+  });
+  if (!res.ok) throw new Error(`two-factor verify returned ${res.status}`);
+  const data = (await res.json()) as { factor?: CodeFactor | null };
+  return data.factor ?? null;
+}
@@ -1,5 +1,6 @@
 import { eq } from "drizzle-orm";
-import { users, vendors, promoters } from "../schema.js";
+import { users } from "../schema.js";
+import { resolveSeats, type Seats } from "../auth.js";
 import type { Db } from "../db.js";
 
 export type UserProps = {
@@ -7,9 +8,7 @@ export type UserProps = {
   email: string;
   name: string;
   role: "ADMIN" | "PROMOTER" | "VENDOR" | "USER";
-  vendorId?: string;
-  promoterId?: string;
-};
+} & Seats;
 
 function toHex(buffer: ArrayBuffer): string {
   return Array.from(new Uint8Array(buffer))
@@ -94,35 +93,35 @@ export async function lookupUser(
   return rows.length > 0 ? rows[0] : null;
 }
 
+/** Look up a user by id — the second half of a sign-in that paused for a code. */
+export async function lookupUserById(
+  db: Db,
+  id: string,
+): Promise<{ id: string; email: string; name: string | null; role: string } | null> {
+  const rows = await db
+    .select({
+      id: users.id,
+      email: users.email,
+      name: users.name,
+      role: users.role,
+    })
+    .from(users)
+    .where(eq(users.id, id))
+    .limit(1);
+
+  return rows.length > 0 ? rows[0] : null;
+}
+
 /** Resolve vendor/promoter IDs for a user to build the full OAuth props. */
 export async function resolveUserProps(
   db: Db,
   user: { id: string; email: string; name: string | null; role: string },
 ): Promise<UserProps> {
-  const props: UserProps = {
+  return {
     userId: user.id,
     email: user.email,
     name: user.name || "",
     role: user.role as UserProps["role"],
+    ...(await resolveSeats(db, user)),
   };
-
-  if (user.role === "VENDOR" || user.role === "ADMIN") {
-    const vendorRows = await db
-      .select({ id: vendors.id })
-      .from(vendors)
-      .where(eq(vendors.userId, user.id))
-      .limit(1);
-    if (vendorRows.length > 0) props.vendorId = vendorRows[0].id;
-  }
-
-  if (user.role === "PROMOTER" || user.role === "ADMIN") {
-    const promoterRows = await db
-      .select({ id: promoters.id })
-      .from(promoters)
-      .where(eq(promoters.userId, user.id))
-      .limit(1);
-    if (promoterRows.length > 0) props.promoterId = promoterRows[0].id;
-  }
-
-  return props;
 }
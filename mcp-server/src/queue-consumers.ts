@@ -105,6 +105,8 @@ type EmailJobMessage = {
    */
   listUnsubscribe?: string;
   listUnsubscribePost?: string;
+  /** drizzle/0238 — the newsletter issue a tracked broadcast belongs to. */
+  newsletterIssueSlug?: string;
 };
 
 type IndexNowMessage = {
@@ -281,6 +283,7 @@ export async function handleEmailBatch(
         provider: "stub",
         error: "reply-disabled (EMAIL_REPLY_ENABLED != 'true')",
         inboundEmailId: m.body.inboundEmailId ?? null,
+        newsletterIssueSlug: m.body.newsletterIssueSlug ?? null,
         bodyHtml: m.body.html,
         bodyText: m.body.text,
       });
@@ -305,6 +308,7 @@ export async function handleEmailBatch(
         provider: "cf-email",
         providerMessageId: result.messageId,
         inboundEmailId: m.body.inboundEmailId ?? null,
+        newsletterIssueSlug: m.body.newsletterIssueSlug ?? null,
         bodyHtml: m.body.html,
         bodyText: m.body.text,
       });
@@ -325,6 +329,7 @@ export async function handleEmailBatch(
         provider: "cf-email",
         error: result.error,
         inboundEmailId: m.body.inboundEmailId ?? null,
+        newsletterIssueSlug: m.body.newsletterIssueSlug ?? null,
         bodyHtml: m.body.html,
         bodyText: m.body.text,
       });
@@ -3,7 +3,15 @@
 // Each queue message names one entity whose mirrored fields changed. The
 // consumer drains that entity's UNPROCESSED `syndication_outbox` rows, resolves
 // the affected EVENT ids (notification grain is per-event), and POSTs an
-// HMAC-SHA256-signed webhook to every active subscriber tracking each event.
+// HMAC-SHA256-signed webhook to every active subscriber tracking each event —
+// by explicit event id, or (SYN3) through a query subscription the event
+// matches. Every attempt is written to `syndication_deliveries`, which backs
+// the partner portal's delivery log and manual redelivery.
+//
+// A query subscriber that was sent an event (`syndication_query_matches`) and
+// whose queries no longer match it — cancelled, unpublished, moved out of the
+// state / series / radius — gets one `{ eventId, eventVersion, removed: true }`
+// webhook, then drops out of that event's deliveries.
 //
 // Resilience model:
 //   • The durable outbox — not the message — is the source of truth. Draining
@@ -15,21 +23,41 @@
 //   • A row is marked `processed_at` only after ALL its deliveries succeed; any
 //     failure throws → the whole message retries (Queue backoff) → DLQ after
 //     max_retries. Already-processed rows are filtered out on retry.
-import { and, eq, isNull } from "drizzle-orm";
+import { and, eq, inArray, isNull } from "drizzle-orm";
 import {
   syndicationOutbox,
   syndicationSubscribers,
   syndicationSubscriptions,
+  syndicationQuerySubscriptions,
+  syndicationDeliveries,
+  syndicationQueryMatches,
+  buildSyndicationDeliveryValues,
   events,
   eventDays,
   venues,
 } from "../schema.js";
-import { buildEventSnapshot, type SyndicationChangeMessage } from "@takemetothefair/utils";
+import {
+  buildEventSnapshot,
+  eventMatchesSyndicationQuery,
+  postSyndicationWebhook,
+  SYNDICATION_DELIVERY_ID_HEADER,
+  SYNDICATION_KIND_HEADER,
+  type SyndicationChangeMessage,
+  type SyndicationWebhookTarget,
+} from "@takemetothefair/utils";
+import { PUBLIC_EVENT_STATUSES, PUBLIC_LIFECYCLE_STATUSES } from "../helpers.js";
 import { getDb, type Db } from "../db.js";
 import { logError } from "../logger.js";
 
+// Moved to @takemetothefair/utils (SYN3) so the portal's pings sign the same
+// way; re-exported for the existing tests.
+export { hmacSha256Hex } from "@takemetothefair/utils";
+
 const MAX_ROWS_PER_ENTITY = 200;
 
+const PUBLIC_STATUS_SET = new Set<string>(PUBLIC_EVENT_STATUSES);
+const PUBLIC_LIFECYCLE_SET = new Set<string>(PUBLIC_LIFECYCLE_STATUSES);
+
 type QueueMessage<T> = { body: T; ack: () => void; retry: () => void };
 type Batch<T> = { queue: string; messages: readonly QueueMessage<T>[] };
 type Env = { DB: D1Database };
@@ -82,7 +110,7 @@ export async function processSyndicationEntity(
     // Deliver each affected event to each subscriber tracking it. A single
     // failure throws → the row stays unprocessed → message retries.
     for (const eventId of eventIds) {
-      await deliverEvent(db, eventId);
+      await deliverEvent(db, eventId, row.id);
     }
     await db
       .update(syndicationOutbox)
@@ -116,8 +144,88 @@ async function resolveAffectedEventIds(
   return [];
 }
 
+type SubscriberTarget = SyndicationWebhookTarget & { id: string };
+
+/**
+ * How one subscriber hears about this change:
+ *   explicit — tracks the event id; always the full payload
+ *   matched  — a query matches; full payload, and remembered as sent
+ *   removed  — was sent the event by query, no query matches it any more
+ */
+type Recipient = SubscriberTarget & { via: "explicit" | "matched" | "removed" };
+
+const SUBSCRIBER_TARGET_COLUMNS = {
+  id: syndicationSubscribers.id,
+  callbackUrl: syndicationSubscribers.callbackUrl,
+  signingSecret: syndicationSubscribers.signingSecret,
+  previousSigningSecret: syndicationSubscribers.previousSigningSecret,
+  previousSecretExpiresAt: syndicationSubscribers.previousSecretExpiresAt,
+};
+
+/**
+ * Active subscribers for one event: those tracking its id, those with a query
+ * subscription it matches, and those it was sent by query before but no longer
+ * matches. A subscriber reached more than one way (or through two queries) is
+ * delivered to once; an explicit subscription wins.
+ */
+async function subscribersForEvent(
+  db: Db,
+  eventId: string,
+  event: Parameters<typeof eventMatchesSyndicationQuery>[1]
+): Promise<Recipient[]> {
+  const explicit = await db
+    .select(SUBSCRIBER_TARGET_COLUMNS)
+    .from(syndicationSubscriptions)
+    .innerJoin(
+      syndicationSubscribers,
+      eq(syndicationSubscriptions.subscriberId, syndicationSubscribers.id)
+    )
+    .where(
+      and(eq(syndicationSubscriptions.eventId, eventId), eq(syndicationSubscribers.active, true))
+    );
+
+  // Query subscriptions are evaluated here rather than in SQL: there are a
+  // handful per partner, and the radius test needs the great-circle distance.
+  const queries = await db
+    .select({ ...SUBSCRIBER_TARGET_COLUMNS, query: syndicationQuerySubscriptions })
+    .from(syndicationQuerySubscriptions)
+    .innerJoin(
+      syndicationSubscribers,
+      eq(syndicationQuerySubscriptions.subscriberId, syndicationSubscribers.id)
+    )
+    .where(eq(syndicationSubscribers.active, true));
+
+  const byId = new Map<string, Recipient>();
+  for (const s of explicit) byId.set(s.id, { ...s, via: "explicit" });
+  const unmatched = new Map<string, SubscriberTarget>();
+  for (const { query, ...s } of queries) {
+    if (byId.has(s.id)) continue;
+    if (eventMatchesSyndicationQuery(query, event)) {
+      byId.set(s.id, { ...s, via: "matched" });
+      unmatched.delete(s.id);
+    } else {
+      unmatched.set(s.id, s);
+    }
+  }
+  if (unmatched.size === 0) return [...byId.values()];
+
+  const sent = await db
+    .select({ subscriberId: syndicationQueryMatches.subscriberId })
+    .from(syndicationQueryMatches)
+    .where(
+      and(
+        eq(syndicationQueryMatches.eventId, eventId),
+        inArray(syndicationQueryMatches.subscriberId, [...unmatched.keys()])
+      )
+    );
+  for (const { subscriberId } of sent) {
+    byId.set(subscriberId, { ...unmatched.get(subscriberId)!, via: "removed" });
+  }
+  return [...byId.values()];
+}
+
 /** Build the canonical payload for one event + POST it to every subscriber. */
-async function deliverEvent(db: Db, eventId: string): Promise<void> {
+async function deliverEvent(db: Db, eventId: string, outboxId: string): Promise<void> {
   const [row] = await db
     .select({
       eventVersion: events.syndicationVersion,
@@ -125,11 +233,19 @@ async function deliverEvent(db: Db, eventId: string): Promise<void> {
       slug: events.slug,
       startDate: events.startDate,
       endDate: events.endDate,
+      status: events.status,
+      lifecycleStatus: events.lifecycleStatus,
+      stateCode: events.stateCode,
+      categories: events.categories,
+      promoterId: events.promoterId,
+      seriesId: events.seriesId,
       venueName: venues.name,
       venueAddress: venues.address,
       venueCity: venues.city,
       venueState: venues.state,
       venueZip: venues.zip,
+      venueLatitude: venues.latitude,
+      venueLongitude: venues.longitude,
     })
     .from(events)
     .leftJoin(venues, eq(events.venueId, venues.id))
@@ -139,19 +255,16 @@ async function deliverEvent(db: Db, eventId: string): Promise<void> {
   // Event vanished (deleted between enqueue and dispatch) — nothing to send.
   if (!row) return;
 
-  const subs = await db
-    .select({
-      callbackUrl: syndicationSubscribers.callbackUrl,
-      signingSecret: syndicationSubscribers.signingSecret,
-    })
-    .from(syndicationSubscriptions)
-    .innerJoin(
-      syndicationSubscribers,
-      eq(syndicationSubscriptions.subscriberId, syndicationSubscribers.id)
-    )
-    .where(
-      and(eq(syndicationSubscriptions.eventId, eventId), eq(syndicationSubscribers.active, true))
-    );
+  const subs = await subscribersForEvent(db, eventId, {
+    isPublic:
+      PUBLIC_STATUS_SET.has(row.status) && PUBLIC_LIFECYCLE_SET.has(row.lifecycleStatus ?? ""),
+    stateCode: row.stateCode,
+    categories: row.categories,
+    promoterId: row.promoterId,
+    seriesId: row.seriesId,
+    latitude: row.venueLatitude,
+    longitude: row.venueLongitude,
+  });
 
   if (subs.length === 0) return;
 
@@ -175,27 +288,36 @@ async function deliverEvent(db: Db, eventId: string): Promise<void> {
         : null
     ),
   };
-  const body = JSON.stringify(payload);
+  const fullBody = JSON.stringify(payload);
+  // No snapshot: the event may no longer be public, and the partner can't read
+  // it through reconcile either.
+  const removedBody = JSON.stringify({ eventId, eventVersion: row.eventVersion, removed: true });
 
   // Throw if any subscriber POST fails so the whole message retries. Other
   // subscribers that already succeeded get a harmless idempotent re-POST.
   const failures: string[] = [];
   for (const sub of subs) {
-    try {
-      const signature = await hmacSha256Hex(sub.signingSecret, body);
-      const res = await fetch(sub.callbackUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Syndication-Signature": `sha256=${signature}`,
-          "X-Syndication-Event-Id": eventId,
-          "X-Syndication-Event-Version": String(row.eventVersion ?? 0),
-        },
-        body,
-      });
-      if (!res.ok) failures.push(`${sub.callbackUrl} → HTTP ${res.status}`);
-    } catch (e) {
-      failures.push(`${sub.callbackUrl} → ${e instanceof Error ? e.message : String(e)}`);
+    const body = sub.via === "removed" ? removedBody : fullBody;
+    const deliveryId = crypto.randomUUID();
+    const result = await postSyndicationWebhook(sub, body, {
+      "X-Syndication-Event-Id": eventId,
+      "X-Syndication-Event-Version": String(row.eventVersion ?? 0),
+      [SYNDICATION_DELIVERY_ID_HEADER]: deliveryId,
+      [SYNDICATION_KIND_HEADER]: "change",
+    });
+    if (!result.ok) failures.push(`${sub.callbackUrl} → ${result.error}`);
+    await recordDelivery(db, {
+      id: deliveryId,
+      subscriberId: sub.id,
+      kind: "change",
+      eventId,
+      eventVersion: row.eventVersion,
+      outboxId,
+      payload: body,
+      result,
+    });
+    if (result.ok && sub.via !== "explicit") {
+      await recordQueryMatch(db, sub.id, eventId, sub.via === "matched");
     }
   }
   if (failures.length > 0) {
@@ -203,16 +325,46 @@ async function deliverEvent(db: Db, eventId: string): Promise<void> {
   }
 }
 
-/** HMAC-SHA256 hex digest via Web Crypto (available in Workers). Exported for tests. */
-export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
-  const enc = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    "raw",
-    enc.encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"]
-  );
-  const sig = await crypto.subtle.sign("HMAC", key, enc.encode(message));
-  return [...new Uint8Array(sig)].map((b) => b.toString(16).padStart(2, "0")).join("");
+/**
+ * Remember (or forget) that a query subscriber was sent this event. Written
+ * only after the POST succeeded, so a failed removal is retried with the rest
+ * of the message.
+ */
+async function recordQueryMatch(
+  db: Db,
+  subscriberId: string,
+  eventId: string,
+  matched: boolean
+): Promise<void> {
+  if (matched) {
+    await db
+      .insert(syndicationQueryMatches)
+      .values({ subscriberId, eventId, matchedAt: new Date() })
+      .onConflictDoNothing();
+    return;
+  }
+  await db
+    .delete(syndicationQueryMatches)
+    .where(
+      and(
+        eq(syndicationQueryMatches.subscriberId, subscriberId),
+        eq(syndicationQueryMatches.eventId, eventId)
+      )
+    );
+}
+
+/**
+ * Log one attempt. Best-effort: the delivery itself already happened (or
+ * failed, and will retry), so a log write that fails must not turn a
+ * successful POST into a retry that re-sends it.
+ */
+async function recordDelivery(
+  db: Db,
+  input: Parameters<typeof buildSyndicationDeliveryValues>[0]
+): Promise<void> {
+  try {
+    await db.insert(syndicationDeliveries).values(buildSyndicationDeliveryValues(input));
+  } catch {
+    // Swallow — see above.
+  }
 }
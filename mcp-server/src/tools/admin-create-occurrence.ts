@@ -5,7 +5,7 @@
  * merge_events / backfill_event_series wrapper pattern.
  *
  * Creates a new dated occurrence UNDER a series, never mutating a past one.
- * Skeleton posture (TENTATIVE, dates only if passed). Year is required and is
+ * Skeleton posture (TENTATIVE; dates as passed, else from the series RRULE). Year is required and is
  * the idempotency key — a second call for the same (series, year) is a no-op.
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
@@ -29,8 +29,10 @@ export function registerCreateOccurrenceTool(server: McpServer, auth: AuthContex
       "categories/audience from the series; pass overrides to change them. Year is",
       "required and is the idempotency key — calling twice for the same (series, year)",
       "is a no-op (returns created:false, reason:occurrence_exists). The occurrence is",
-      "created TENTATIVE + flagged for review; dates are only set if you pass them",
-      "(otherwise an operator fills them in later).",
+      "created TENTATIVE + flagged for review; dates are set if you pass them, else",
+      "expanded from the series recurrence rule (anchored on the latest dated edition;",
+      "a sub-annual rule yields one occurrence with a day per match), else left for",
+      "an operator to fill in.",
     ].join(" "),
     {
       series_id: z.string().min(1).describe("event_series id to create the occurrence under."),
@@ -7,6 +7,7 @@ import { decodeHtmlEntities } from "@takemetothefair/utils";
 import { jsonContent, publicUrlFor, triggerIndexNow } from "../helpers.js";
 import { LIFECYCLE_TRANSITIONS, isPublicLifecycle } from "../lifecycle.js";
 import { rolloverEventIfRecurring } from "../event-rollover.js";
+import { mainAppFetch } from "../main-app-fetch.js";
 import type { Db } from "../db.js";
 import type { AuthContext } from "../auth.js";
 
@@ -17,6 +18,18 @@ interface Env {
   INDEXNOW_KEY?: string;
 }
 
+/**
+ * Moves the event's favoriters are told about — the ones that change whether
+ * (or when) they can go. Mirrors favoriteChangeForLifecycle in the main app,
+ * which has the final say; this only saves a round-trip for the rest.
+ */
+const FAVORITER_LIFECYCLES: ReadonlySet<EventLifecycle> = new Set([
+  "RESCHEDULED",
+  "POSTPONED",
+  "CANCELLED",
+  "MOVED_ONLINE",
+]);
+
 export function registerEventLifecycleTools(
   server: McpServer,
   db: Db,
@@ -30,9 +43,11 @@ export function registerEventLifecycleTools(
     [
       "Transition an event's lifecycle_status with full bookkeeping: validates",
       "the transition, swaps dates for RESCHEDULED/POSTPONED, writes admin_actions",
-      "audit row keyed event.lifecycle_change, and fires IndexNow on public-visibility",
-      "boundary crossings. Mirror of /api/admin/events/[id]/lifecycle PATCH — use",
-      "either; both write the same audit trail.",
+      "audit row keyed event.lifecycle_change, fires IndexNow on public-visibility",
+      "boundary crossings, and notifies users who favorited the event of a",
+      "reschedule, postponement, cancellation or move online. Mirror of",
+      "/api/admin/events/[id]/lifecycle PATCH — use either; both write the same",
+      "audit trail and send the same notifications.",
       "",
       "Lifecycle states map to schema.org Event statuses: SCHEDULED/TENTATIVE →",
       "EventScheduled, POSTPONED → EventPostponed, RESCHEDULED → EventRescheduled,",
@@ -203,6 +218,30 @@ export function registerEventLifecycleTools(
         indexNowFired = true;
       }
 
+      // Favoriters, as the admin route does. The producer lives in the main app
+      // (src/lib/notifications/favorite-changes.ts), which reads the committed
+      // row to describe the change. Best-effort: the transition already
+      // committed, so a failure is reported as null rather than an error.
+      let favoritersNotified: number | null = null;
+      if (FAVORITER_LIFECYCLES.has(to)) {
+        try {
+          const res = await mainAppFetch(
+            env ?? {},
+            "/api/internal/favorite-changes/notify",
+            "fetch",
+            {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ eventId: event_id }),
+            }
+          );
+          const data = (await res.json().catch(() => null)) as { notified?: number } | null;
+          if (res.ok) favoritersNotified = data?.notified ?? 0;
+        } catch {
+          // swallow — see above.
+        }
+      }
+
       // K27 — when an admin marks an event OCCURRED, roll a recurring event
       // forward to its next-occurrence TENTATIVE edition (idempotent + gated;
       // a non-recurring event is a no-op). Best-effort: a rollover failure must
@@ -234,6 +273,7 @@ export function registerEventLifecycleTools(
             previous_start_date: dateUpdate.previousStartDate?.toISOString() ?? null,
             previous_end_date: dateUpdate.previousEndDate?.toISOString() ?? null,
             indexnow_fired: indexNowFired,
+            favoriters_notified: favoritersNotified,
             rolled_over_event_id: rolledOverEventId,
           }),
         ],
@@ -17,6 +17,10 @@
  *     will only pass that string after John's explicit chat approval. This is
  *     an EXTRA gate on top of the endpoint's own NEWSLETTER_SEND_ENABLED flag.
  *
+ * `preview_as` (drizzle/0237) is forwarded as-is: the endpoint renders a
+ * preview or test send as that subscriber gets it, and refuses it on a
+ * broadcast, so the STOP-gate above needs no new case.
+ *
  * Auth: forwards over X-Internal-Key (the send endpoint accepts an admin
  * session OR the internal key via withAuthorized — OPE-190 extended it).
  */
@@ -56,6 +60,11 @@ export function registerSendNewsletterBroadcastTool(
       "• neither set → REAL BROADCAST to the whole confirmed list. HARD STOP: this",
       "  tool refuses unless you also pass require_human_confirmation:'GO', which the",
       "  analyst runtime supplies ONLY after John's explicit chat approval (OPE-6).",
+      "",
+      "preview_as=<subscriber email> with preview_only or test_recipient renders the",
+      "issue as that subscriber gets it — their 'Just added near you' and 'You might",
+      "also like' blocks. With preview_only the rendered subject/html/text and their",
+      "profile + cohort come back; with test_recipient the tester gets their version.",
     ].join(" "),
     {
       subject: z.string().min(1).max(200).describe("Email subject line."),
@@ -81,6 +90,12 @@ export function registerSendNewsletterBroadcastTool(
         .describe(
           "If true, resolve + return the recipient list and issue shape WITHOUT sending or writing anything. Unattended-OK."
         ),
+      preview_as: z
+        .string()
+        .optional()
+        .describe(
+          "Subscriber email to render as (their location/category blocks and recommendations). Only with preview_only or test_recipient."
+        ),
       require_human_confirmation: z
         .string()
         .optional()
@@ -129,6 +144,7 @@ export function registerSendNewsletterBroadcastTool(
           ...(params.content_text ? { content_text: params.content_text } : {}),
           ...(isTest ? { test_recipient: params.test_recipient } : {}),
           ...(isPreview ? { preview_only: true } : {}),
+          ...(params.preview_as ? { preview_as: params.preview_as } : {}),
         }),
       });
 
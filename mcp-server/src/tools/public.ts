@@ -26,9 +26,14 @@ import {
   publicEventWhere,
   jsonContent,
   unsafeSlug,
+  resolveMcpNearSearch,
+  nearWhere,
+  nearDistanceSquared,
+  nearDistanceMiles,
 } from "../helpers.js";
 import {
   displayVendorName,
+  NEAR_MAX_RADIUS_MILES,
   type ParentDisplayInput,
   type VendorDisplayInput,
 } from "@takemetothefair/utils";
@@ -90,11 +95,37 @@ async function resolveSlugHistory(
   return cursor === requested ? null : cursor;
 }
 
+// Radius-search params shared by search_events and search_vendors.
+const NEAR_PARAMS = {
+  latitude: z
+    .number()
+    .min(-90)
+    .max(90)
+    .optional()
+    .describe("Center latitude for a radius search (requires longitude)"),
+  longitude: z
+    .number()
+    .min(-180)
+    .max(180)
+    .optional()
+    .describe("Center longitude for a radius search (requires latitude)"),
+  zip: z
+    .string()
+    .optional()
+    .describe("US ZIP code to center a radius search on (instead of latitude/longitude)"),
+  radius_miles: z
+    .number()
+    .positive()
+    .max(NEAR_MAX_RADIUS_MILES)
+    .optional()
+    .describe(`Radius in miles around the center (default 25, max ${NEAR_MAX_RADIUS_MILES})`),
+};
+
 export function registerPublicTools(server: McpServer, db: Db) {
   // ── search_events ──────────────────────────────────────────────
   server.tool(
     "search_events",
-    "Search events by name, category, state, venue, city, promoter, or date range. Supports fuzzy name matching to find events even when names differ slightly. Use venue_id or promoter_id to list all events for a specific venue or promoter. Returns up to 20 results.",
+    "Search events by name, category, state, venue, city, promoter, date range, or distance. Supports fuzzy name matching to find events even when names differ slightly. Use venue_id or promoter_id to list all events for a specific venue or promoter. Pass latitude/longitude or zip (with optional radius_miles) to find events near a point, sorted nearest first with distance_miles on each result. Returns up to 20 results.",
     {
       query: z
         .string()
@@ -138,6 +169,7 @@ export function registerPublicTools(server: McpServer, db: Db) {
         .describe(
           "Filter by public-access policy. OPEN = anyone can attend (may still require ticket); CLOSED = restricted."
         ),
+      ...NEAR_PARAMS,
       limit: z.number().min(1).max(50).optional().describe("Max results (default 20)"),
       offset: z
         .number()
@@ -148,6 +180,11 @@ export function registerPublicTools(server: McpServer, db: Db) {
     async (params) => {
       const conditions = [publicEventWhere()];
 
+      const { search: near, error: nearError } = await resolveMcpNearSearch(db, params);
+      if (nearError) return { content: [{ type: "text", text: nearError }], isError: true };
+      // Venue coordinates; venue-less events can't be placed, so they drop out.
+      if (near) conditions.push(nearWhere(venues.latitude, venues.longitude, near));
+
       if (params.query && !params.fuzzy) {
         conditions.push(like(events.name, `%${escapeLike(params.query)}%`));
       } else if (params.query && params.fuzzy) {
@@ -280,6 +317,8 @@ export function registerPublicTools(server: McpServer, db: Db) {
           venueName: venues.name,
           venueCity: venues.city,
           venueState: venues.state,
+          venueLatitude: venues.latitude,
+          venueLongitude: venues.longitude,
           promoterId: events.promoterId,
           promoterName: promoters.companyName,
         })
@@ -289,7 +328,15 @@ export function registerPublicTools(server: McpServer, db: Db) {
         .where(and(...conditions))
         .$dynamic();
 
+      // Fuzzy relevance outranks distance: the over-fetch slice has to keep
+      // the best name matches, and they are re-sorted by score below anyway.
       if (fuzzyOrder) query.orderBy(sql`${fuzzyOrder} DESC`);
+      else if (near) {
+        query.orderBy(
+          nearDistanceSquared(venues.latitude, venues.longitude, near.center),
+          events.startDate
+        );
+      }
 
       const rows = await query.limit(sqlLimit).offset(sqlOffset);
 
@@ -329,6 +376,9 @@ export function registerPublicTools(server: McpServer, db: Db) {
         price: formatPrice(r.ticketPriceMin, r.ticketPriceMax),
         status: r.status,
         image_url: r.imageUrl || null,
+        ...(near
+          ? { distance_miles: nearDistanceMiles(near.center, r.venueLatitude, r.venueLongitude) }
+          : {}),
         ...(r.matchScore != null ? { match_score: r.matchScore } : {}),
       }));
 
@@ -668,10 +718,11 @@ export function registerPublicTools(server: McpServer, db: Db) {
   // ── search_vendors ─────────────────────────────────────────────
   server.tool(
     "search_vendors",
-    "Search vendors by name or type.",
+    "Search vendors by name, type, or distance. Pass latitude/longitude or zip (with optional radius_miles) to find vendors based near a point, sorted nearest first with distance_miles on each result.",
     {
       query: z.string().optional().describe("Search by business name (partial match)"),
       type: z.string().optional().describe("Filter by vendor type"),
+      ...NEAR_PARAMS,
       limit: z.number().min(1).max(50).optional().describe("Max results (default 20)"),
       offset: z
         .number()
@@ -698,6 +749,10 @@ export function registerPublicTools(server: McpServer, db: Db) {
         conditions.push(like(vendors.vendorType, `%${escapeLike(params.type)}%`));
       }
 
+      const { search: near, error: nearError } = await resolveMcpNearSearch(db, params);
+      if (nearError) return { content: [{ type: "text", text: nearError }], isError: true };
+      if (near) conditions.push(nearWhere(vendors.latitude, vendors.longitude, near));
+
       const rows = await db
         .select({
           id: vendors.id,
@@ -710,9 +765,15 @@ export function registerPublicTools(server: McpServer, db: Db) {
           description: vendors.description,
           city: vendors.city,
           state: vendors.state,
+          latitude: vendors.latitude,
+          longitude: vendors.longitude,
         })
         .from(vendors)
         .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(
+          ...(near ? [nearDistanceSquared(vendors.latitude, vendors.longitude, near.center)] : []),
+          vendors.businessName
+        )
         .limit(params.limit ?? 20)
         .offset(params.offset ?? 0);
 
@@ -732,6 +793,9 @@ export function registerPublicTools(server: McpServer, db: Db) {
         products: parseJsonArray(r.products),
         description: r.description ? r.description.slice(0, 200) : null,
         location: [r.city, r.state].filter(Boolean).join(", ") || null,
+        ...(near
+          ? { distance_miles: nearDistanceMiles(near.center, r.latitude, r.longitude) }
+          : {}),
       }));
 
       return {
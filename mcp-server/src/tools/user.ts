@@ -4,7 +4,7 @@ import { eq, and } from "drizzle-orm";
 import { userFavorites, events, venues, vendors, promoters } from "../schema.js";
 import { jsonContent } from "../helpers.js";
 import type { Db } from "../db.js";
-import type { AuthContext } from "../auth.js";
+import { canWrite, type AuthContext } from "../auth.js";
 
 export function registerUserTools(server: McpServer, db: Db, auth: AuthContext) {
   // ── get_my_favorites ───────────────────────────────────────────
@@ -91,6 +91,9 @@ export function registerUserTools(server: McpServer, db: Db, auth: AuthContext)
     },
   );
 
+  // A token minted without any write scope (drizzle/0225) only reads.
+  if (!canWrite(auth)) return;
+
   // ── toggle_favorite ────────────────────────────────────────────
   server.tool(
     "toggle_favorite",
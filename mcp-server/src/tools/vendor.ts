@@ -20,7 +20,7 @@ import {
 } from "../helpers.js";
 import { checkDuplicateViaMainApp } from "../duplicates/check-duplicate.js";
 import type { Db } from "../db.js";
-import type { AuthContext } from "../auth.js";
+import { canWrite, hasScope, type AuthContext } from "../auth.js";
 import { gateUrlOnce, loadClassifications, shouldIngestFromSource } from "../url-classification.js";
 import {
   evaluateGates,
@@ -69,7 +69,7 @@ export function registerVendorTools(
   console.log(
     `[VENDOR-TOOLS] Registering suggest_event for userId=${auth.userId} role=${auth.role} vendorId=${auth.vendorId || "none"}`
   );
-  registerSuggestEvent(server, db, auth, env);
+  if (canWrite(auth)) registerSuggestEvent(server, db, auth, env);
 
   if (!auth.vendorId) {
     console.log(`[VENDOR-TOOLS] No vendorId — skipping profile/application tools`);
@@ -77,6 +77,13 @@ export function registerVendorTools(
   }
 
   const vendorId = auth.vendorId;
+  // Team viewers (drizzle/0239) read the profile and applications but get no
+  // tool that writes them.
+  const canEdit = auth.vendorRole !== "VIEWER";
+  // A scoped `mmatf_` token (drizzle/0225) narrows that to what it was minted for.
+  const canEditProfile = canEdit && hasScope(auth, "profile:write");
+  const canApply = canEdit && hasScope(auth, "applications:write");
+  const canReadApplications = hasScope(auth, "applications:read");
 
   // ── get_my_vendor_profile ──────────────────────────────────────
   server.tool("get_my_vendor_profile", "Get your vendor profile details.", {}, async () => {
@@ -112,349 +119,269 @@ export function registerVendorTools(
   });
 
   // ── update_vendor_profile ──────────────────────────────────────
-  server.tool(
-    "update_vendor_profile",
-    "Update your vendor profile fields. Only provided fields are updated.",
-    {
-      description: z.string().transform(sanitizeProse).optional().describe("Business description"),
-      vendor_type: z
-        .string()
-        .transform(sanitizeProse)
-        .optional()
-        .describe("Type of vendor (e.g., Food, Crafts)"),
-      products: z
-        .array(z.string().transform(sanitizeProse))
-        .optional()
-        .describe("List of products/services"),
-      website: z.string().optional().describe("Website URL"),
-      contact_name: z.string().optional().describe("Contact person name"),
-      contact_email: z.string().optional().describe("Contact email"),
-      contact_phone: z.string().optional().describe("Contact phone"),
-      city: z.string().optional().describe("City"),
-      state: z.string().optional().describe("State (2-letter code)"),
-      latitude: z.number().optional().describe("Home base latitude"),
-      longitude: z.number().optional().describe("Home base longitude"),
-    },
-    async (params) => {
-      const updates: Record<string, unknown> = {};
-      if (params.description !== undefined) updates.description = params.description;
-      if (params.vendor_type !== undefined) updates.vendorType = params.vendor_type;
-      if (params.products !== undefined) updates.products = JSON.stringify(params.products);
-      if (params.website !== undefined) updates.website = params.website;
-      if (params.contact_name !== undefined) updates.contactName = params.contact_name;
-      if (params.contact_email !== undefined) updates.contactEmail = params.contact_email;
-      if (params.contact_phone !== undefined) updates.contactPhone = params.contact_phone;
-      if (params.city !== undefined) updates.city = params.city;
-      if (params.state !== undefined) updates.state = params.state;
-      if (params.latitude !== undefined) updates.latitude = params.latitude;
-      if (params.longitude !== undefined) updates.longitude = params.longitude;
-
-      if (Object.keys(updates).length === 0) {
-        return { content: [{ type: "text", text: "No fields to update." }], isError: true };
-      }
-
-      updates.updatedAt = new Date();
-
-      await db.update(vendors).set(updates).where(eq(vendors.id, vendorId));
-
-      await recomputeVendorCompleteness(db, vendorId);
-
-      await logEnrichment(db, {
-        targetType: "vendor",
-        targetId: vendorId,
-        source: "vendor_self",
-        status: "success",
-        fieldsChanged: Object.keys(updates).filter((k) => k !== "updatedAt"),
-        actorUserId: auth.userId,
-        notes: "MCP update_my_vendor",
-      });
-
-      return {
-        content: [
-          jsonContent({
-            updated: true,
-            fields: Object.keys(updates).filter((k) => k !== "updatedAt"),
-          }),
-        ],
-      };
-    }
-  );
-
-  // ── list_my_applications ───────────────────────────────────────
-  server.tool(
-    "list_my_applications",
-    "List all your event applications with their status.",
-    {
-      status: z
-        .enum([
-          "INVITED",
-          "INTERESTED",
-          "APPLIED",
-          "WAITLISTED",
-          "APPROVED",
-          "CONFIRMED",
-          "REJECTED",
-          "WITHDRAWN",
-          "CANCELLED",
-        ])
-        .optional()
-        .describe("Filter by application status"),
-      limit: z.number().int().min(1).max(50).optional().describe("Max results (default 20)"),
-      offset: z
-        .number()
-        .int()
-        .min(0)
-        .optional()
-        .describe("Number of results to skip for pagination (default 0)"),
-    },
-    async (params) => {
-      const conditions = [eq(eventVendors.vendorId, vendorId)];
-      if (params.status) {
-        conditions.push(eq(eventVendors.status, params.status));
-      }
-
-      const rows = await db
-        .select({
-          applicationId: eventVendors.id,
-          eventId: eventVendors.eventId,
-          status: eventVendors.status,
-          paymentStatus: eventVendors.paymentStatus,
-          boothInfo: eventVendors.boothInfo,
-          eventName: events.name,
-          eventSlug: events.slug,
-          eventStartDate: events.startDate,
-          eventEndDate: events.endDate,
-          eventStatus: events.status,
-        })
-        .from(eventVendors)
-        .innerJoin(events, eq(eventVendors.eventId, events.id))
-        .where(and(...conditions))
-        .limit(params.limit ?? 20)
-        .offset(params.offset ?? 0);
-
-      const limit = params.limit ?? 20;
-      const offset = params.offset ?? 0;
-
-      const output = rows.map((r) => ({
-        applicationId: r.applicationId,
-        status: r.status,
-        paymentStatus: r.paymentStatus,
-        boothInfo: r.boothInfo,
-        event: {
-          id: r.eventId,
-          name: r.eventName,
-          slug: r.eventSlug,
-          dates: formatDateRange(r.eventStartDate, r.eventEndDate),
-          status: r.eventStatus,
-        },
-      }));
+  if (canEditProfile) {
+    server.tool(
+      "update_vendor_profile",
+      "Update your vendor profile fields. Only provided fields are updated.",
+      {
+        description: z
+          .string()
+          .transform(sanitizeProse)
+          .optional()
+          .describe("Business description"),
+        vendor_type: z
+          .string()
+          .transform(sanitizeProse)
+          .optional()
+          .describe("Type of vendor (e.g., Food, Crafts)"),
+        products: z
+          .array(z.string().transform(sanitizeProse))
+          .optional()
+          .describe("List of products/services"),
+        website: z.string().optional().describe("Website URL"),
+        contact_name: z.string().optional().describe("Contact person name"),
+        contact_email: z.string().optional().describe("Contact email"),
+        contact_phone: z.string().optional().describe("Contact phone"),
+        city: z.string().optional().describe("City"),
+        state: z.string().optional().describe("State (2-letter code)"),
+        latitude: z.number().optional().describe("Home base latitude"),
+        longitude: z.number().optional().describe("Home base longitude"),
+      },
+      async (params) => {
+        const updates: Record<string, unknown> = {};
+        if (params.description !== undefined) updates.description = params.description;
+        if (params.vendor_type !== undefined) updates.vendorType = params.vendor_type;
+        if (params.products !== undefined) updates.products = JSON.stringify(params.products);
+        if (params.website !== undefined) updates.website = params.website;
+        if (params.contact_name !== undefined) updates.contactName = params.contact_name;
+        if (params.contact_email !== undefined) updates.contactEmail = params.contact_email;
+        if (params.contact_phone !== undefined) updates.contactPhone = params.contact_phone;
+        if (params.city !== undefined) updates.city = params.city;
+        if (params.state !== undefined) updates.state = params.state;
+        if (params.latitude !== undefined) updates.latitude = params.latitude;
+        if (params.longitude !== undefined) updates.longitude = params.longitude;
+
+        if (Object.keys(updates).length === 0) {
+          return { content: [{ type: "text", text: "No fields to update." }], isError: true };
+        }
 
-      return {
-        content: [
-          jsonContent({
-            count: output.length,
-            offset,
-            has_more: output.length === limit,
-            applications: output,
-          }),
-        ],
-      };
-    }
-  );
+        updates.updatedAt = new Date();
 
-  // ── apply_to_event ─────────────────────────────────────────────
-  server.tool(
-    "apply_to_event",
-    "Apply to participate in an event as a vendor.",
-    {
-      event_slug: z.string().describe("Slug of the event to apply to"),
-      booth_info: z
-        .string()
-        .transform(sanitizeProse)
-        .optional()
-        .describe("Booth/space requirements or notes"),
-    },
-    async (params) => {
-      // Find the event
-      const eventRows = await db
-        .select({
-          id: events.id,
-          name: events.name,
-          status: events.status,
-          commercialVendorsAllowed: events.commercialVendorsAllowed,
-        })
-        .from(events)
-        .where(eq(events.slug, unsafeSlug(params.event_slug)))
-        .limit(1);
+        await db.update(vendors).set(updates).where(eq(vendors.id, vendorId));
 
-      if (eventRows.length === 0) {
-        return { content: [{ type: "text", text: "Event not found." }], isError: true };
-      }
+        await recomputeVendorCompleteness(db, vendorId);
 
-      const event = eventRows[0];
+        await logEnrichment(db, {
+          targetType: "vendor",
+          targetId: vendorId,
+          source: "vendor_self",
+          status: "success",
+          fieldsChanged: Object.keys(updates).filter((k) => k !== "updatedAt"),
+          actorUserId: auth.userId,
+          notes: "MCP update_my_vendor",
+        });
 
-      if (event.status !== "APPROVED" && event.status !== "TENTATIVE") {
         return {
           content: [
-            { type: "text", text: "This event is not currently accepting vendor applications." },
+            jsonContent({
+              updated: true,
+              fields: Object.keys(updates).filter((k) => k !== "updatedAt"),
+            }),
           ],
-          isError: true,
         };
       }
+    );
+  }
 
-      // Check commercial vendor restriction
-      const vendorRows = await db
-        .select({ commercial: vendors.commercial, canSelfConfirm: vendors.canSelfConfirm })
-        .from(vendors)
-        .where(eq(vendors.id, vendorId))
-        .limit(1);
+  // ── list_my_applications ───────────────────────────────────────
+  if (canReadApplications) {
+    server.tool(
+      "list_my_applications",
+      "List all your event applications with their status.",
+      {
+        status: z
+          .enum([
+            "INVITED",
+            "INTERESTED",
+            "APPLIED",
+            "WAITLISTED",
+            "APPROVED",
+            "CONFIRMED",
+            "REJECTED",
+            "WITHDRAWN",
+            "CANCELLED",
+          ])
+          .optional()
+          .describe("Filter by application status"),
+        limit: z.number().int().min(1).max(50).optional().describe("Max results (default 20)"),
+        offset: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("Number of results to skip for pagination (default 0)"),
+      },
+      async (params) => {
+        const conditions = [eq(eventVendors.vendorId, vendorId)];
+        if (params.status) {
+          conditions.push(eq(eventVendors.status, params.status));
+        }
+
+        const rows = await db
+          .select({
+            applicationId: eventVendors.id,
+            eventId: eventVendors.eventId,
+            status: eventVendors.status,
+            paymentStatus: eventVendors.paymentStatus,
+            boothInfo: eventVendors.boothInfo,
+            eventName: events.name,
+            eventSlug: events.slug,
+            eventStartDate: events.startDate,
+            eventEndDate: events.endDate,
+            eventStatus: events.status,
+          })
+          .from(eventVendors)
+          .innerJoin(events, eq(eventVendors.eventId, events.id))
+          .where(and(...conditions))
+          .limit(params.limit ?? 20)
+          .offset(params.offset ?? 0);
+
+        const limit = params.limit ?? 20;
+        const offset = params.offset ?? 0;
+
+        const output = rows.map((r) => ({
+          applicationId: r.applicationId,
+          status: r.status,
+          paymentStatus: r.paymentStatus,
+          boothInfo: r.boothInfo,
+          event: {
+            id: r.eventId,
+            name: r.eventName,
+            slug: r.eventSlug,
+            dates: formatDateRange(r.eventStartDate, r.eventEndDate),
+            status: r.eventStatus,
+          },
+        }));
 
-      if (vendorRows[0]?.commercial && !event.commercialVendorsAllowed) {
         return {
-          content: [{ type: "text", text: "This event does not allow commercial vendors." }],
-          isError: true,
+          content: [
+            jsonContent({
+              count: output.length,
+              offset,
+              has_more: output.length === limit,
+              applications: output,
+            }),
+          ],
         };
       }
+    );
+  }
 
-      // Check for existing application
-      const existing = await db
-        .select({ id: eventVendors.id })
-        .from(eventVendors)
-        .where(and(eq(eventVendors.eventId, event.id), eq(eventVendors.vendorId, vendorId)))
-        .limit(1);
+  // ── apply_to_event ─────────────────────────────────────────────
+  if (canApply) {
+    server.tool(
+      "apply_to_event",
+      "Apply to participate in an event as a vendor.",
+      {
+        event_slug: z.string().describe("Slug of the event to apply to"),
+        booth_info: z
+          .string()
+          .transform(sanitizeProse)
+          .optional()
+          .describe("Booth/space requirements or notes"),
+      },
+      async (params) => {
+        // Find the event
+        const eventRows = await db
+          .select({
+            id: events.id,
+            name: events.name,
+            status: events.status,
+            commercialVendorsAllowed: events.commercialVendorsAllowed,
+          })
+          .from(events)
+          .where(eq(events.slug, unsafeSlug(params.event_slug)))
+          .limit(1);
 
-      if (existing.length > 0) {
-        return {
-          content: [{ type: "text", text: "You have already applied to this event." }],
-          isError: true,
-        };
-      }
+        if (eventRows.length === 0) {
+          return { content: [{ type: "text", text: "Event not found." }], isError: true };
+        }
 
-      const autoConfirm = vendorRows[0]?.canSelfConfirm ?? false;
-      const applicationId = crypto.randomUUID();
+        const event = eventRows[0];
 
-      await db.insert(eventVendors).values({
-        id: applicationId,
-        eventId: event.id,
-        vendorId,
-        boothInfo: params.booth_info || null,
-        status: autoConfirm ? "CONFIRMED" : "APPLIED",
-      });
+        if (event.status !== "APPROVED" && event.status !== "TENTATIVE") {
+          return {
+            content: [
+              { type: "text", text: "This event is not currently accepting vendor applications." },
+            ],
+            isError: true,
+          };
+        }
 
-      return {
-        content: [
-          jsonContent({
-            applied: true,
-            applicationId,
-            event: event.name,
-            status: autoConfirm ? "CONFIRMED" : "APPLIED",
-          }),
-        ],
-      };
-    }
-  );
+        // Check commercial vendor restriction
+        const vendorRows = await db
+          .select({ commercial: vendors.commercial, canSelfConfirm: vendors.canSelfConfirm })
+          .from(vendors)
+          .where(eq(vendors.id, vendorId))
+          .limit(1);
 
-  // ── withdraw_application ───────────────────────────────────────
-  server.tool(
-    "withdraw_application",
-    "Withdraw your application from an event.",
-    {
-      event_slug: z.string().describe("Slug of the event to withdraw from"),
-    },
-    async (params) => {
-      const eventRows = await db
-        .select({ id: events.id, name: events.name })
-        .from(events)
-        .where(eq(events.slug, unsafeSlug(params.event_slug)))
-        .limit(1);
+        if (vendorRows[0]?.commercial && !event.commercialVendorsAllowed) {
+          return {
+            content: [{ type: "text", text: "This event does not allow commercial vendors." }],
+            isError: true,
+          };
+        }
 
-      if (eventRows.length === 0) {
-        return { content: [{ type: "text", text: "Event not found." }], isError: true };
-      }
+        // Check for existing application
+        const existing = await db
+          .select({ id: eventVendors.id })
+          .from(eventVendors)
+          .where(and(eq(eventVendors.eventId, event.id), eq(eventVendors.vendorId, vendorId)))
+          .limit(1);
 
-      const application = await db
-        .select({ id: eventVendors.id, status: eventVendors.status })
-        .from(eventVendors)
-        .where(and(eq(eventVendors.eventId, eventRows[0].id), eq(eventVendors.vendorId, vendorId)))
-        .limit(1);
+        if (existing.length > 0) {
+          return {
+            content: [{ type: "text", text: "You have already applied to this event." }],
+            isError: true,
+          };
+        }
 
-      if (application.length === 0) {
-        return {
-          content: [{ type: "text", text: "No application found for this event." }],
-          isError: true,
-        };
-      }
+        const autoConfirm = vendorRows[0]?.canSelfConfirm ?? false;
+        const applicationId = crypto.randomUUID();
+
+        await db.insert(eventVendors).values({
+          id: applicationId,
+          eventId: event.id,
+          vendorId,
+          boothInfo: params.booth_info || null,
+          status: autoConfirm ? "CONFIRMED" : "APPLIED",
+        });
 
-      const withdrawable = [
-        "APPLIED",
-        "APPROVED",
-        "CONFIRMED",
-        "WAITLISTED",
-        "INTERESTED",
-        "INVITED",
-      ];
-      if (!withdrawable.includes(application[0].status)) {
         return {
           content: [
-            {
-              type: "text",
-              text: `Cannot withdraw — application status is ${application[0].status}.`,
-            },
+            jsonContent({
+              applied: true,
+              applicationId,
+              event: event.name,
+              status: autoConfirm ? "CONFIRMED" : "APPLIED",
+            }),
           ],
-          isError: true,
         };
       }
+    );
+  }
 
-      await db
-        .update(eventVendors)
-        .set({ status: "WITHDRAWN" })
-        .where(eq(eventVendors.id, application[0].id));
-
-      return {
-        content: [
-          jsonContent({
-            withdrawn: true,
-            event: eventRows[0].name,
-            previousStatus: application[0].status,
-          }),
-        ],
-      };
-    }
-  );
-
-  // ── check_date_conflicts ────────────────────────────────────────
-  server.tool(
-    "check_date_conflicts",
-    "Check if an event's dates conflict with your existing applications. Optionally provide dates to check a hypothetical event. Also returns distance from your home base if coordinates are available.",
-    {
-      event_slug: z.string().optional().describe("Slug of an event to check against your schedule"),
-      start_date: z
-        .string()
-        .optional()
-        .describe("Start date (YYYY-MM-DD) to check — used if event_slug is not provided"),
-      end_date: z
-        .string()
-        .optional()
-        .describe("End date (YYYY-MM-DD) to check — used if event_slug is not provided"),
-    },
-    async (params) => {
-      // Resolve date range to check
-      let checkStart: Date | null = null;
-      let checkEnd: Date | null = null;
-      let checkEventId: string | null = null;
-      let checkEventName: string | null = null;
-      let venueLat: number | null = null;
-      let venueLng: number | null = null;
-
-      if (params.event_slug) {
+  // ── withdraw_application ───────────────────────────────────────
+  if (canApply) {
+    server.tool(
+      "withdraw_application",
+      "Withdraw your application from an event.",
+      {
+        event_slug: z.string().describe("Slug of the event to withdraw from"),
+      },
+      async (params) => {
         const eventRows = await db
-          .select({
-            id: events.id,
-            name: events.name,
-            startDate: events.startDate,
-            endDate: events.endDate,
-            venueId: events.venueId,
-          })
+          .select({ id: events.id, name: events.name })
           .from(events)
           .where(eq(events.slug, unsafeSlug(params.event_slug)))
           .limit(1);
@@ -463,121 +390,220 @@ export function registerVendorTools(
           return { content: [{ type: "text", text: "Event not found." }], isError: true };
         }
 
-        const evt = eventRows[0];
-        checkStart = evt.startDate;
-        checkEnd = evt.endDate;
-        checkEventId = evt.id;
-        checkEventName = evt.name;
+        const application = await db
+          .select({ id: eventVendors.id, status: eventVendors.status })
+          .from(eventVendors)
+          .where(
+            and(eq(eventVendors.eventId, eventRows[0].id), eq(eventVendors.vendorId, vendorId))
+          )
+          .limit(1);
 
-        // Get venue coordinates for distance
-        if (evt.venueId) {
-          const venueRows = await db
-            .select({ latitude: venues.latitude, longitude: venues.longitude })
-            .from(venues)
-            .where(eq(venues.id, evt.venueId))
-            .limit(1);
-          if (venueRows.length > 0) {
-            venueLat = venueRows[0].latitude;
-            venueLng = venueRows[0].longitude;
-          }
+        if (application.length === 0) {
+          return {
+            content: [{ type: "text", text: "No application found for this event." }],
+            isError: true,
+          };
         }
-      } else if (params.start_date) {
-        checkStart = new Date(params.start_date);
-        if (isNaN(checkStart.getTime())) checkStart = null;
-        if (params.end_date) {
-          checkEnd = new Date(params.end_date);
-          if (isNaN(checkEnd.getTime())) checkEnd = null;
+
+        const withdrawable = [
+          "APPLIED",
+          "APPROVED",
+          "CONFIRMED",
+          "WAITLISTED",
+          "INTERESTED",
+          "INVITED",
+        ];
+        if (!withdrawable.includes(application[0].status)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Cannot withdraw — application status is ${application[0].status}.`,
+              },
+            ],
+            isError: true,
+          };
         }
-        checkEnd = checkEnd || checkStart;
-      }
 
-      if (!checkStart || !checkEnd) {
+        await db
+          .update(eventVendors)
+          .set({ status: "WITHDRAWN" })
+          .where(eq(eventVendors.id, application[0].id));
+
         return {
           content: [
-            {
-              type: "text",
-              text: "Could not determine date range. Provide event_slug or start_date/end_date.",
-            },
+            jsonContent({
+              withdrawn: true,
+              event: eventRows[0].name,
+              previousStatus: application[0].status,
+            }),
           ],
-          isError: true,
         };
       }
+    );
+  }
 
-      // Get vendor's active applications
-      const apps = await db
-        .select({
-          eventId: eventVendors.eventId,
-          status: eventVendors.status,
-          eventName: events.name,
-          eventSlug: events.slug,
-          eventStartDate: events.startDate,
-          eventEndDate: events.endDate,
-        })
-        .from(eventVendors)
-        .innerJoin(events, eq(eventVendors.eventId, events.id))
-        .where(eq(eventVendors.vendorId, vendorId));
-
-      const activeStatuses = new Set([
-        "INVITED",
-        "INTERESTED",
-        "APPLIED",
-        "WAITLISTED",
-        "APPROVED",
-        "CONFIRMED",
-      ]);
-
-      const eStart = checkStart.getTime();
-      const eEnd = checkEnd.getTime();
-
-      const conflicts = apps
-        .filter((a) => {
-          if (checkEventId && a.eventId === checkEventId) return false;
-          if (!activeStatuses.has(a.status)) return false;
-          if (!a.eventStartDate || !a.eventEndDate) return false;
-          const oStart = new Date(a.eventStartDate).getTime();
-          const oEnd = new Date(a.eventEndDate).getTime();
-          return eStart <= oEnd && eEnd >= oStart;
-        })
-        .map((a) => ({
-          eventName: a.eventName,
-          eventSlug: a.eventSlug,
-          dates: formatDateRange(a.eventStartDate, a.eventEndDate),
-          status: a.status,
-        }));
+  // ── check_date_conflicts ────────────────────────────────────────
+  if (canReadApplications) {
+    server.tool(
+      "check_date_conflicts",
+      "Check if an event's dates conflict with your existing applications. Optionally provide dates to check a hypothetical event. Also returns distance from your home base if coordinates are available.",
+      {
+        event_slug: z
+          .string()
+          .optional()
+          .describe("Slug of an event to check against your schedule"),
+        start_date: z
+          .string()
+          .optional()
+          .describe("Start date (YYYY-MM-DD) to check — used if event_slug is not provided"),
+        end_date: z
+          .string()
+          .optional()
+          .describe("End date (YYYY-MM-DD) to check — used if event_slug is not provided"),
+      },
+      async (params) => {
+        // Resolve date range to check
+        let checkStart: Date | null = null;
+        let checkEnd: Date | null = null;
+        let checkEventId: string | null = null;
+        let checkEventName: string | null = null;
+        let venueLat: number | null = null;
+        let venueLng: number | null = null;
+
+        if (params.event_slug) {
+          const eventRows = await db
+            .select({
+              id: events.id,
+              name: events.name,
+              startDate: events.startDate,
+              endDate: events.endDate,
+              venueId: events.venueId,
+            })
+            .from(events)
+            .where(eq(events.slug, unsafeSlug(params.event_slug)))
+            .limit(1);
 
-      // Calculate distance if possible
-      let distanceMiles: number | null = null;
-      const vendorRows = await db
-        .select({ latitude: vendors.latitude, longitude: vendors.longitude })
-        .from(vendors)
-        .where(eq(vendors.id, vendorId))
-        .limit(1);
+          if (eventRows.length === 0) {
+            return { content: [{ type: "text", text: "Event not found." }], isError: true };
+          }
 
-      if (vendorRows[0]?.latitude && vendorRows[0]?.longitude && venueLat && venueLng) {
-        const R = 3959; // Earth radius in miles
-        const dLat = ((venueLat - vendorRows[0].latitude) * Math.PI) / 180;
-        const dLon = ((venueLng - vendorRows[0].longitude) * Math.PI) / 180;
-        const a =
-          Math.sin(dLat / 2) ** 2 +
-          Math.cos((vendorRows[0].latitude * Math.PI) / 180) *
-            Math.cos((venueLat * Math.PI) / 180) *
-            Math.sin(dLon / 2) ** 2;
-        distanceMiles = Math.round(R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)));
-      }
+          const evt = eventRows[0];
+          checkStart = evt.startDate;
+          checkEnd = evt.endDate;
+          checkEventId = evt.id;
+          checkEventName = evt.name;
+
+          // Get venue coordinates for distance
+          if (evt.venueId) {
+            const venueRows = await db
+              .select({ latitude: venues.latitude, longitude: venues.longitude })
+              .from(venues)
+              .where(eq(venues.id, evt.venueId))
+              .limit(1);
+            if (venueRows.length > 0) {
+              venueLat = venueRows[0].latitude;
+              venueLng = venueRows[0].longitude;
+            }
+          }
+        } else if (params.start_date) {
+          checkStart = new Date(params.start_date);
+          if (isNaN(checkStart.getTime())) checkStart = null;
+          if (params.end_date) {
+            checkEnd = new Date(params.end_date);
+            if (isNaN(checkEnd.getTime())) checkEnd = null;
+          }
+          checkEnd = checkEnd || checkStart;
+        }
 
-      return {
-        content: [
-          jsonContent({
-            event: checkEventName || `${params.start_date} to ${params.end_date}`,
-            hasConflicts: conflicts.length > 0,
-            conflictCount: conflicts.length,
-            conflicts,
-            ...(distanceMiles != null ? { distanceMiles } : {}),
-          }),
-        ],
-      };
-    }
-  );
+        if (!checkStart || !checkEnd) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Could not determine date range. Provide event_slug or start_date/end_date.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Get vendor's active applications
+        const apps = await db
+          .select({
+            eventId: eventVendors.eventId,
+            status: eventVendors.status,
+            eventName: events.name,
+            eventSlug: events.slug,
+            eventStartDate: events.startDate,
+            eventEndDate: events.endDate,
+          })
+          .from(eventVendors)
+          .innerJoin(events, eq(eventVendors.eventId, events.id))
+          .where(eq(eventVendors.vendorId, vendorId));
+
+        const activeStatuses = new Set([
+          "INVITED",
+          "INTERESTED",
+          "APPLIED",
+          "WAITLISTED",
+          "APPROVED",
+          "CONFIRMED",
+        ]);
+
+        const eStart = checkStart.getTime();
+        const eEnd = checkEnd.getTime();
+
+        const conflicts = apps
+          .filter((a) => {
+            if (checkEventId && a.eventId === checkEventId) return false;
+            if (!activeStatuses.has(a.status)) return false;
+            if (!a.eventStartDate || !a.eventEndDate) return false;
+            const oStart = new Date(a.eventStartDate).getTime();
+            const oEnd = new Date(a.eventEndDate).getTime();
+            return eStart <= oEnd && eEnd >= oStart;
+          })
+          .map((a) => ({
+            eventName: a.eventName,
+            eventSlug: a.eventSlug,
+            dates: formatDateRange(a.eventStartDate, a.eventEndDate),
+            status: a.status,
+          }));
+
+        // Calculate distance if possible
+        let distanceMiles: number | null = null;
+        const vendorRows = await db
+          .select({ latitude: vendors.latitude, longitude: vendors.longitude })
+          .from(vendors)
+          .where(eq(vendors.id, vendorId))
+          .limit(1);
+
+        if (vendorRows[0]?.latitude && vendorRows[0]?.longitude && venueLat && venueLng) {
+          const R = 3959; // Earth radius in miles
+          const dLat = ((venueLat - vendorRows[0].latitude) * Math.PI) / 180;
+          const dLon = ((venueLng - vendorRows[0].longitude) * Math.PI) / 180;
+          const a =
+            Math.sin(dLat / 2) ** 2 +
+            Math.cos((vendorRows[0].latitude * Math.PI) / 180) *
+              Math.cos((venueLat * Math.PI) / 180) *
+              Math.sin(dLon / 2) ** 2;
+          distanceMiles = Math.round(R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)));
+        }
+
+        return {
+          content: [
+            jsonContent({
+              event: checkEventName || `${params.start_date} to ${params.end_date}`,
+              hasConflicts: conflicts.length > 0,
+              conflictCount: conflicts.length,
+              conflicts,
+              ...(distanceMiles != null ? { distanceMiles } : {}),
+            }),
+          ],
+        };
+      }
+    );
+  }
 }
 
 // ---------------------------------------------------------------------------
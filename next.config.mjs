@@ -100,9 +100,22 @@ const nextConfig = {
         : `public, max-age=${maxAge}`,
     });
 
+    // The embeddable widget (/embed/*) exists to be framed by other sites, so
+    // it gets the same set minus X-Frame-Options and with any frame ancestor
+    // allowed. Everything else keeps `frame-ancestors 'none'` — the global
+    // rule's negative lookahead is what keeps the two from both applying.
+    const embedHeaders = securityHeaders
+      .filter((h) => h.key !== "X-Frame-Options")
+      .map((h) =>
+        h.key === "Content-Security-Policy"
+          ? { ...h, value: h.value.replace("frame-ancestors 'none'", "frame-ancestors *") }
+          : h
+      );
+
     return [
       // Global security headers
-      { source: "/(.*)", headers: securityHeaders },
+      { source: "/((?!embed/).*)", headers: securityHeaders },
+      { source: "/embed/:path*", headers: embedHeaders },
       // Static pages — CDN caches for 1 day
       ...["/about", "/privacy", "/terms", "/faq", "/contact", "/for-vendors", "/for-promoters", "/search-visibility"].map(
         (source) => ({ source, headers: [cdnCache(86400)] })
@@ -189,15 +189,26 @@ export const venues = sqliteTable(
     // cdnImage() as `gravity=${x}x${y}` when non-default.
     imageFocalX: real("image_focal_x").notNull().default(0.5),
     imageFocalY: real("image_focal_y").notNull().default(0.5),
+    // drizzle/0240 — the venue's owner, granted by an approved VENUE claim and
+    // the only thing the /venue portal authorizes on (there is no VENUE role).
+    // Nullable and not unique: most venues are unowned, and one fair
+    // association can run several grounds. Claimed tier mirrors performers.
+    userId: text("user_id").references(() => users.id, { onDelete: "set null" }),
+    claimed: integer("claimed", { mode: "boolean" }).notNull().default(false),
+    claimedAt: integer("claimed_at", { mode: "timestamp" }),
+    claimedBy: text("claimed_by").references(() => users.id, { onDelete: "set null" }),
   },
   (table) => [
     index("idx_venues_status").on(table.status),
+    index("idx_venues_user_id").on(table.userId),
     // Partial UNIQUE index from drizzle/0016 — multiple venues CAN have NULL
     // google_place_id (optional field), but if a venue has one it must be
     // unique. Same partial-index pattern as uq_inbound_emails_message_id.
     uniqueIndex("idx_venues_google_place_id_unique")
       .on(table.googlePlaceId)
       .where(sql`${table.googlePlaceId} IS NOT NULL`),
+    // drizzle/0235 — the bounding-box prefilter for radius search.
+    index("idx_venues_lat_lng").on(table.latitude, table.longitude),
   ]
 );
 
@@ -326,6 +337,8 @@ export const eventSeries = sqliteTable(
     venueId: text("venue_id").references(() => venues.id, { onDelete: "set null" }),
     promoterId: text("promoter_id").references(() => promoters.id, { onDelete: "set null" }),
     recurrenceRule: text("recurrence_rule"),
+    // drizzle/0234 — EXDATE days (JSON YYYY-MM-DD[]) excluded from the rule.
+    recurrenceExdates: text("recurrence_exdates"),
     description: text("description"),
     imageUrl: text("image_url"),
     categories: text("categories").default("[]"),
@@ -384,7 +397,10 @@ export const events = sqliteTable(
      * rather than the mechanism.
      */
     datesConfirmed: integer("dates_confirmed", { mode: "boolean" }).default(false),
+    // Canonical RFC 5545 RRULE value (packages/utils/src/rrule.ts), anchored
+    // on start_date. drizzle/0234 adds the EXDATE days as a JSON YYYY-MM-DD[].
     recurrenceRule: text("recurrence_rule"),
+    recurrenceExdates: text("recurrence_exdates"),
     categories: text("categories").default("[]"),
     tags: text("tags").default("[]"),
     ticketUrl: text("ticket_url"),
@@ -750,192 +766,202 @@ export const eventDateDriftFindings = sqliteTable(
 );
 
 // Vendors table
-export const vendors = sqliteTable("vendors", {
-  id: text("id")
-    .primaryKey()
-    .$defaultFn(() => crypto.randomUUID()),
-  userId: text("user_id")
-    .notNull()
-    .unique()
-    .references(() => users.id, { onDelete: "cascade" }),
-  businessName: text("business_name").notNull(),
-  // EH2.1 (drizzle/0121, 2026-06-09) — optional brand display override.
-  // Resolved at render time via displayVendorName() in @takemetothefair/utils.
-  // NULL = render business_name as today (zero behavior change for ~99% of rows).
-  displayName: text("display_name"),
-  slug: text("slug").$type<Slug>().notNull().unique(),
-  description: text("description"),
-  vendorType: text("vendor_type"),
-  products: text("products").default("[]"),
-  website: text("website"),
-  socialLinks: text("social_links"),
-  logoUrl: text("logo_url"),
-  verified: integer("verified", { mode: "boolean" }).default(false),
-  commercial: integer("commercial", { mode: "boolean" }).default(false),
-  canSelfConfirm: integer("can_self_confirm", { mode: "boolean" }).default(false),
-  // Contact Information
-  contactName: text("contact_name"),
-  contactEmail: text("contact_email"),
-  contactPhone: text("contact_phone"),
-  // Physical Address
-  address: text("address"),
-  city: text("city"),
-  state: text("state"),
-  zip: text("zip"),
-  // Geolocation (auto-populated from Google Places)
-  latitude: real("latitude"),
-  longitude: real("longitude"),
-  // Business Details
-  yearEstablished: integer("year_established"),
-  paymentMethods: text("payment_methods").default("[]"), // JSON array
-  licenseInfo: text("license_info"),
-  insuranceInfo: text("insurance_info"),
-  // Enhanced Profile (paid tier, round-3 — drizzle/0037)
-  enhancedProfile: integer("enhanced_profile", { mode: "boolean" }).notNull().default(false),
-  enhancedProfileStartedAt: integer("enhanced_profile_started_at", { mode: "timestamp" }),
-  enhancedProfileExpiresAt: integer("enhanced_profile_expires_at", { mode: "timestamp" }),
-  galleryImages: text("gallery_images").notNull().default("[]"), // JSON array of {url, alt, caption?}
-  featuredPriority: integer("featured_priority").notNull().default(0),
-  // Claimed tier (drizzle/0049) — vendor-confirmed ownership, distinct from userId
-  // which every vendor has. Drives the Claimed badge and tier-transition rules.
-  claimed: integer("claimed", { mode: "boolean" }).notNull().default(false),
-  claimedAt: integer("claimed_at", { mode: "timestamp" }),
-  claimedBy: text("claimed_by").references(() => users.id, { onDelete: "set null" }),
-  // Per-vendor view count (drizzle/0051). Server-incremented on each cached
-  // page render; ISR cache provides implicit ~5-min dedup. Used by the
-  // claimed_ready_for_enhanced_upsell rule for top-decile-by-views ranking.
-  viewCount: integer("view_count").notNull().default(0),
-  // Verified Pro tier scaffold (drizzle/0052). Credentialed identity-verification
-  // signal, orthogonal to the four-tier model. Admin-only set today; the actual
-  // identity-verification UX (LLC lookup, address validation, etc.) is a separate
-  // Q1-2027 product feature that just flips this flag when ready.
-  verifiedPro: integer("verified_pro", { mode: "boolean" }).notNull().default(false),
-  verifiedProAt: integer("verified_pro_at", { mode: "timestamp" }),
-  verifiedProBy: text("verified_pro_by").references(() => users.id, { onDelete: "set null" }),
-  // Soft delete (drizzle/0053). Non-null = vendor invisible everywhere; URL
-  // returns 410 Gone or 301 to redirectToVendorId if set. Hard purge happens
-  // after a 30-day grace window via the sweep-purge-deleted endpoint.
-  deletedAt: integer("deleted_at", { mode: "timestamp" }),
-  redirectToVendorId: text("redirect_to_vendor_id").references((): AnySQLiteColumn => vendors.id, {
-    onDelete: "set null",
-  }),
-  // §10.2 enrichment + quality tracking (drizzle/0054). enrichmentSource is one
-  // of: ai_workers | scraper | manual_admin | vendor_self | mcp_create. The
-  // enum lives in src/lib/enrichment-log.ts (TS-only, not DB-enforced because
-  // adding a new source shouldn't require a migration). completenessScore is
-  // a cached 0-100 value; recomputed via computeVendorCompleteness on every
-  // insert/update and gates inclusion in /sitemap.xml at >= 40.
-  enrichmentSource: text("enrichment_source"),
-  /**
-   * When a render last LOOKED at this row, whether or not it wrote anything.
-   *
-   * This is the column a recency / "don't re-research yet" filter wants — it is
-   * populated 485/485 across the NEEDS_ENRICHMENT queue and 28/28 for BLOCKED.
-   * See the OPE-496 note on `lastEnrichedAt` for what happens when the two are
-   * confused.
-   */
-  enrichmentAttemptedAt: integer("enrichment_attempted_at", { mode: "timestamp" }),
-  domainHijacked: integer("domain_hijacked", { mode: "boolean" }).notNull().default(false),
-  completenessScore: integer("completeness_score").notNull().default(0),
-  // EH1 Phase 1 — vendor hierarchy + relationship model.
-  // Originally added in drizzle/0106 (minimal model: role + parent_vendor_id
-  // + default_display/override_permitted/display_preference). Extended in
-  // drizzle/0107 (2026-06-05) to the full relationship model approved in
-  // Dev-Spec-Vendor-Hierarchy-Phase1-2026-06-04.md: brand vs operator
-  // parent split, 8-shape relationship_type enum, alias links, and a
-  // wider display vocabulary that can express operator_parent + both.
-  //
-  // `role` stays as a fast NATIONAL/LOCAL_OFFICE/INDEPENDENT discriminator
-  // (existing render page + sitemap SQL + admin form read it heavily).
-  role: text("role", { enum: ["NATIONAL", "LOCAL_OFFICE", "INDEPENDENT"] })
-    .notNull()
-    .default("INDEPENDENT"),
-  // Brand parent: who the consumer sees on signage (the national brand).
-  // The display resolver consumes this one. NULL for INDEPENDENT and
-  // for brand-parent rows themselves.
-  brandParentVendorId: text("brand_parent_vendor_id").references(
-    (): AnySQLiteColumn => vendors.id,
-    { onDelete: "set null" }
-  ),
-  // Operator parent: who signs contracts / pays booth fees (e.g. Esler
-  // Companies). Drives sales-motion + portfolio analytics, NOT public
-  // display. Often equal to brandParentVendorId for branch shapes;
-  // distinct for shape C (franchise with multi-market operator).
-  operatorParentVendorId: text("operator_parent_vendor_id").references(
-    (): AnySQLiteColumn => vendors.id,
-    { onDelete: "set null" }
-  ),
-  // Alias link: "this row IS that row, different spelling." Resolved
-  // transparently by resolveAlias() in src/lib/vendor-hierarchy.ts; the
-  // aliased row is also soft-deleted (deletedAt + redirectToVendorId)
-  // so middleware can 301-redirect its URL to the canonical.
-  aliasOfVendorId: text("alias_of_vendor_id").references((): AnySQLiteColumn => vendors.id, {
-    onDelete: "set null",
-  }),
-  // 8 shapes from the design doc — branch (W-2), franchise (independent
-  // operator), dealer (reseller), member (cooperative), agent (1099),
-  // employee_branch (small-corp branch), government (gov entity),
-  // independent (default — no relationship). SQL CHECK enforces.
-  relationshipType: text("relationship_type", {
-    enum: [
-      "branch",
-      "franchise",
-      "dealer",
-      "member",
-      "agent",
-      "employee_branch",
-      "government",
-      "independent",
-    ],
-  })
-    .notNull()
-    .default("independent"),
-  // Parent-side: what the brand-parent picks as its offices' default
-  // display target. 'self' = each office is its own canonical surface;
-  // 'brand_parent' = offices canonical-up to the brand hub; 'both' =
-  // office is canonical but also shown under the brand. NULL on
-  // non-parent rows.
-  defaultChildDisplay: text("default_child_display", {
-    enum: ["self", "brand_parent", "both"],
-  }),
-  // Child-side: parent-controlled gate. Default 0 — the parent's
-  // defaultChildDisplay always wins until the parent explicitly grants
-  // override. A vendor claim grants edit rights but NEVER bypasses this
-  // gate (spec §4.4 — parent's gate always wins).
-  displayOverridePermitted: integer("display_override_permitted", { mode: "boolean" })
-    .notNull()
-    .default(false),
-  // Child-side: the office's own requested preference. Honored only when
-  // displayOverridePermitted=true AND displayMode != 'inherit'. INHERIT
-  // falls through to parent.defaultChildDisplay.
-  displayMode: text("display_mode", {
-    enum: ["inherit", "self", "brand_parent", "operator_parent", "both"],
-  }),
-  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
-  /**
-   * OPE-332 — `$onUpdateFn` is what makes this column trustworthy as an HTTP
-   * validator. Before it, updated_at was set only where a writer remembered:
-   * an audit found 36/58 event updates, 26/31 vendor, 16/17 promoter and 10/11
-   * venue updates never touched it — including imageUrl, venueId and geocode
-   * writes, all of which change the rendered page. A 304 built on that would
-   * have told Google "unchanged" after a hero image swap.
-   *
-   * Fixing the ~100 call sites would have fixed today and started rotting
-   * immediately. This fixes the type: every Drizzle update bumps it, and a
-   * future writer cannot forget. The one deliberate exception is the view-count
-   * increment, which goes through raw SQL precisely so page views don't
-   * invalidate the validator — see event-detail-data.ts.
-   *
-   * Fails safe in the right direction: an unnecessary bump costs one extra 200,
-   * a missed bump would serve stale content as fresh.
-   */
-  updatedAt: integer("updated_at", { mode: "timestamp" })
-    .$defaultFn(() => new Date())
-    .$onUpdateFn(() => new Date()),
-  // IMG1 §1b Phase 1 — applies to logo_url. See events table comment.
-  imageFocalX: real("image_focal_x").notNull().default(0.5),
-  imageFocalY: real("image_focal_y").notNull().default(0.5),
-});
+export const vendors = sqliteTable(
+  "vendors",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .unique()
+      .references(() => users.id, { onDelete: "cascade" }),
+    businessName: text("business_name").notNull(),
+    // EH2.1 (drizzle/0121, 2026-06-09) — optional brand display override.
+    // Resolved at render time via displayVendorName() in @takemetothefair/utils.
+    // NULL = render business_name as today (zero behavior change for ~99% of rows).
+    displayName: text("display_name"),
+    slug: text("slug").$type<Slug>().notNull().unique(),
+    description: text("description"),
+    vendorType: text("vendor_type"),
+    products: text("products").default("[]"),
+    website: text("website"),
+    socialLinks: text("social_links"),
+    logoUrl: text("logo_url"),
+    verified: integer("verified", { mode: "boolean" }).default(false),
+    commercial: integer("commercial", { mode: "boolean" }).default(false),
+    canSelfConfirm: integer("can_self_confirm", { mode: "boolean" }).default(false),
+    // Contact Information
+    contactName: text("contact_name"),
+    contactEmail: text("contact_email"),
+    contactPhone: text("contact_phone"),
+    // Physical Address
+    address: text("address"),
+    city: text("city"),
+    state: text("state"),
+    zip: text("zip"),
+    // Geolocation (auto-populated from Google Places)
+    latitude: real("latitude"),
+    longitude: real("longitude"),
+    // Business Details
+    yearEstablished: integer("year_established"),
+    paymentMethods: text("payment_methods").default("[]"), // JSON array
+    licenseInfo: text("license_info"),
+    insuranceInfo: text("insurance_info"),
+    // Enhanced Profile (paid tier, round-3 — drizzle/0037)
+    enhancedProfile: integer("enhanced_profile", { mode: "boolean" }).notNull().default(false),
+    enhancedProfileStartedAt: integer("enhanced_profile_started_at", { mode: "timestamp" }),
+    enhancedProfileExpiresAt: integer("enhanced_profile_expires_at", { mode: "timestamp" }),
+    galleryImages: text("gallery_images").notNull().default("[]"), // JSON array of {url, alt, caption?}
+    featuredPriority: integer("featured_priority").notNull().default(0),
+    // Claimed tier (drizzle/0049) — vendor-confirmed ownership, distinct from userId
+    // which every vendor has. Drives the Claimed badge and tier-transition rules.
+    claimed: integer("claimed", { mode: "boolean" }).notNull().default(false),
+    claimedAt: integer("claimed_at", { mode: "timestamp" }),
+    claimedBy: text("claimed_by").references(() => users.id, { onDelete: "set null" }),
+    // Per-vendor view count (drizzle/0051). Server-incremented on each cached
+    // page render; ISR cache provides implicit ~5-min dedup. Used by the
+    // claimed_ready_for_enhanced_upsell rule for top-decile-by-views ranking.
+    viewCount: integer("view_count").notNull().default(0),
+    // Verified Pro tier scaffold (drizzle/0052). Credentialed identity-verification
+    // signal, orthogonal to the four-tier model. Admin-only set today; the actual
+    // identity-verification UX (LLC lookup, address validation, etc.) is a separate
+    // Q1-2027 product feature that just flips this flag when ready.
+    verifiedPro: integer("verified_pro", { mode: "boolean" }).notNull().default(false),
+    verifiedProAt: integer("verified_pro_at", { mode: "timestamp" }),
+    verifiedProBy: text("verified_pro_by").references(() => users.id, { onDelete: "set null" }),
+    // Soft delete (drizzle/0053). Non-null = vendor invisible everywhere; URL
+    // returns 410 Gone or 301 to redirectToVendorId if set. Hard purge happens
+    // after a 30-day grace window via the sweep-purge-deleted endpoint.
+    deletedAt: integer("deleted_at", { mode: "timestamp" }),
+    redirectToVendorId: text("redirect_to_vendor_id").references(
+      (): AnySQLiteColumn => vendors.id,
+      {
+        onDelete: "set null",
+      }
+    ),
+    // §10.2 enrichment + quality tracking (drizzle/0054). enrichmentSource is one
+    // of: ai_workers | scraper | manual_admin | vendor_self | mcp_create. The
+    // enum lives in src/lib/enrichment-log.ts (TS-only, not DB-enforced because
+    // adding a new source shouldn't require a migration). completenessScore is
+    // a cached 0-100 value; recomputed via computeVendorCompleteness on every
+    // insert/update and gates inclusion in /sitemap.xml at >= 40.
+    enrichmentSource: text("enrichment_source"),
+    /**
+     * When a render last LOOKED at this row, whether or not it wrote anything.
+     *
+     * This is the column a recency / "don't re-research yet" filter wants — it is
+     * populated 485/485 across the NEEDS_ENRICHMENT queue and 28/28 for BLOCKED.
+     * See the OPE-496 note on `lastEnrichedAt` for what happens when the two are
+     * confused.
+     */
+    enrichmentAttemptedAt: integer("enrichment_attempted_at", { mode: "timestamp" }),
+    domainHijacked: integer("domain_hijacked", { mode: "boolean" }).notNull().default(false),
+    completenessScore: integer("completeness_score").notNull().default(0),
+    // EH1 Phase 1 — vendor hierarchy + relationship model.
+    // Originally added in drizzle/0106 (minimal model: role + parent_vendor_id
+    // + default_display/override_permitted/display_preference). Extended in
+    // drizzle/0107 (2026-06-05) to the full relationship model approved in
+    // Dev-Spec-Vendor-Hierarchy-Phase1-2026-06-04.md: brand vs operator
+    // parent split, 8-shape relationship_type enum, alias links, and a
+    // wider display vocabulary that can express operator_parent + both.
+    //
+    // `role` stays as a fast NATIONAL/LOCAL_OFFICE/INDEPENDENT discriminator
+    // (existing render page + sitemap SQL + admin form read it heavily).
+    role: text("role", { enum: ["NATIONAL", "LOCAL_OFFICE", "INDEPENDENT"] })
+      .notNull()
+      .default("INDEPENDENT"),
+    // Brand parent: who the consumer sees on signage (the national brand).
+    // The display resolver consumes this one. NULL for INDEPENDENT and
+    // for brand-parent rows themselves.
+    brandParentVendorId: text("brand_parent_vendor_id").references(
+      (): AnySQLiteColumn => vendors.id,
+      { onDelete: "set null" }
+    ),
+    // Operator parent: who signs contracts / pays booth fees (e.g. Esler
+    // Companies). Drives sales-motion + portfolio analytics, NOT public
+    // display. Often equal to brandParentVendorId for branch shapes;
+    // distinct for shape C (franchise with multi-market operator).
+    operatorParentVendorId: text("operator_parent_vendor_id").references(
+      (): AnySQLiteColumn => vendors.id,
+      { onDelete: "set null" }
+    ),
+    // Alias link: "this row IS that row, different spelling." Resolved
+    // transparently by resolveAlias() in src/lib/vendor-hierarchy.ts; the
+    // aliased row is also soft-deleted (deletedAt + redirectToVendorId)
+    // so middleware can 301-redirect its URL to the canonical.
+    aliasOfVendorId: text("alias_of_vendor_id").references((): AnySQLiteColumn => vendors.id, {
+      onDelete: "set null",
+    }),
+    // 8 shapes from the design doc — branch (W-2), franchise (independent
+    // operator), dealer (reseller), member (cooperative), agent (1099),
+    // employee_branch (small-corp branch), government (gov entity),
+    // independent (default — no relationship). SQL CHECK enforces.
+    relationshipType: text("relationship_type", {
+      enum: [
+        "branch",
+        "franchise",
+        "dealer",
+        "member",
+        "agent",
+        "employee_branch",
+        "government",
+        "independent",
+      ],
+    })
+      .notNull()
+      .default("independent"),
+    // Parent-side: what the brand-parent picks as its offices' default
+    // display target. 'self' = each office is its own canonical surface;
+    // 'brand_parent' = offices canonical-up to the brand hub; 'both' =
+    // office is canonical but also shown under the brand. NULL on
+    // non-parent rows.
+    defaultChildDisplay: text("default_child_display", {
+      enum: ["self", "brand_parent", "both"],
+    }),
+    // Child-side: parent-controlled gate. Default 0 — the parent's
+    // defaultChildDisplay always wins until the parent explicitly grants
+    // override. A vendor claim grants edit rights but NEVER bypasses this
+    // gate (spec §4.4 — parent's gate always wins).
+    displayOverridePermitted: integer("display_override_permitted", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    // Child-side: the office's own requested preference. Honored only when
+    // displayOverridePermitted=true AND displayMode != 'inherit'. INHERIT
+    // falls through to parent.defaultChildDisplay.
+    displayMode: text("display_mode", {
+      enum: ["inherit", "self", "brand_parent", "operator_parent", "both"],
+    }),
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+    /**
+     * OPE-332 — `$onUpdateFn` is what makes this column trustworthy as an HTTP
+     * validator. Before it, updated_at was set only where a writer remembered:
+     * an audit found 36/58 event updates, 26/31 vendor, 16/17 promoter and 10/11
+     * venue updates never touched it — including imageUrl, venueId and geocode
+     * writes, all of which change the rendered page. A 304 built on that would
+     * have told Google "unchanged" after a hero image swap.
+     *
+     * Fixing the ~100 call sites would have fixed today and started rotting
+     * immediately. This fixes the type: every Drizzle update bumps it, and a
+     * future writer cannot forget. The one deliberate exception is the view-count
+     * increment, which goes through raw SQL precisely so page views don't
+     * invalidate the validator — see event-detail-data.ts.
+     *
+     * Fails safe in the right direction: an unnecessary bump costs one extra 200,
+     * a missed bump would serve stale content as fresh.
+     */
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .$onUpdateFn(() => new Date()),
+    // IMG1 §1b Phase 1 — applies to logo_url. See events table comment.
+    imageFocalX: real("image_focal_x").notNull().default(0.5),
+    imageFocalY: real("image_focal_y").notNull().default(0.5),
+  },
+  (table) => [
+    // drizzle/0235 — the bounding-box prefilter for radius search.
+    index("idx_vendors_lat_lng").on(table.latitude, table.longitude),
+  ]
+);
 
 /**
  * Vendor gallery photos — OPE-211 (drizzle/0160, 2026-07-15).
@@ -1127,6 +1153,78 @@ export const claimTokens = sqliteTable(
   })
 );
 
+/** Roles on a vendor or promoter team (drizzle/0239), strongest first. */
+export const ORGANIZATION_ROLES = ["OWNER", "EDITOR", "VIEWER"] as const;
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+export type OrganizationEntityType = "VENDOR" | "PROMOTER";
+
+/**
+ * drizzle/0239 — the people on a vendor's or promoter's team besides its owner.
+ *
+ * The OWNER is NOT a row here: it stays `vendors.user_id` / `promoters.user_id`,
+ * which every claim path writes and every owner-facing email reads. This table
+ * only ever holds EDITOR and VIEWER; ownership transfer rewrites the owner
+ * column and swaps the two people's rows (src/lib/organizations/members.ts).
+ * `entity_id` is polymorphic like claim_tokens — no FK.
+ */
+export const organizationMembers = sqliteTable(
+  "organization_members",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    entityType: text("entity_type", { enum: ["VENDOR", "PROMOTER"] }).notNull(),
+    entityId: text("entity_id").notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: text("role", { enum: ["EDITOR", "VIEWER"] }).notNull(),
+    invitedByUserId: text("invited_by_user_id"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [
+    uniqueIndex("idx_organization_members_unique").on(t.entityType, t.entityId, t.userId),
+    index("idx_organization_members_user").on(t.userId, t.entityType),
+  ]
+);
+
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+
+/**
+ * drizzle/0239 — pending team invitations. Same hashing as claim_tokens: the
+ * raw token lives only in the emailed link. Accepting requires the signed-in
+ * account's email to match `email`, so a forwarded link can't seat someone
+ * else. Rows are kept after acceptance or revocation as the audit trail.
+ */
+export const organizationInvites = sqliteTable(
+  "organization_invites",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    entityType: text("entity_type", { enum: ["VENDOR", "PROMOTER"] }).notNull(),
+    entityId: text("entity_id").notNull(),
+    /** Lowercased. */
+    email: text("email").notNull(),
+    role: text("role", { enum: ["EDITOR", "VIEWER"] }).notNull(),
+    tokenHash: text("token_hash").notNull().unique(),
+    invitedByUserId: text("invited_by_user_id").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    acceptedAt: integer("accepted_at", { mode: "timestamp" }),
+    acceptedByUserId: text("accepted_by_user_id"),
+    revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  },
+  (t) => [index("idx_organization_invites_entity").on(t.entityType, t.entityId)]
+);
+
+export type OrganizationInvite = typeof organizationInvites.$inferSelect;
+
 // Vendor slug history — for 301-redirecting old URLs after a slug change.
 // drizzle/0038
 export const vendorSlugHistory = sqliteTable(
@@ -1563,6 +1661,17 @@ export const eventVendors = sqliteTable(
     // existing reader; only the public boundary (isPubliclyVisibleVendorLink)
     // opts in.
     publicVisible: integer("public_visible", { mode: "boolean" }).notNull().default(true),
+    // drizzle/0226 — the promoter's private working notes on this application.
+    // Never shown to the vendor and never included in vendor emails.
+    promoterNotes: text("promoter_notes"),
+    // drizzle/0227 — the vendor's answers to the event's application form, as a
+    // JSON array of {id, label, type, value} snapshotted at submit time. NULL
+    // for applications made without a form.
+    applicationAnswers: text("application_answers"),
+    // drizzle/0236 — when the vendor was last reminded that this event's
+    // application deadline is close (src/lib/vendors/deadline-reminders.ts).
+    // Only INVITED / INTERESTED links are ever reminded.
+    deadlineRemindedAt: integer("deadline_reminded_at", { mode: "timestamp" }),
     createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
     updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
   },
@@ -1803,6 +1912,20 @@ export const newsletterSubscribers = sqliteTable(
     // Confirmation token expiry — 24h after issue. NULL when no token is
     // outstanding.
     confirmationExpires: integer("confirmation_expires", { mode: "timestamp" }),
+    // drizzle/0237 — the optional per-subscriber profile the digests are
+    // personalized by (src/lib/newsletter/subscriber-profile.ts). The ZIP's
+    // center is resolved when it's saved, so sends never look ZIPs up; an
+    // unknown ZIP is kept with NULL coordinates and simply doesn't localize.
+    homeZip: text("home_zip"),
+    homeLatitude: real("home_latitude"),
+    homeLongitude: real("home_longitude"),
+    radiusMiles: integer("radius_miles"),
+    /** JSON array of EVENT_CATEGORIES values; NULL or [] means "everything". */
+    categories: text("categories"),
+    /** drizzle/0238 — set when the last several tracked issues went unopened
+     *  and unclicked (src/lib/newsletter/engagement.ts); cleared by any later
+     *  open or click. A prompt for list hygiene, never an unsubscribe. */
+    engagementFlaggedAt: integer("engagement_flagged_at", { mode: "timestamp" }),
   },
   (table) => ({
     emailIdx: index("idx_newsletter_email").on(table.email),
@@ -1847,6 +1970,33 @@ export const newsletterIssues = sqliteTable(
   })
 );
 
+/**
+ * drizzle/0238 — one row per tracked open or click on a broadcast issue,
+ * written by /api/newsletter/open and /api/newsletter/click. Raw hits, not
+ * deduplicated: "unique opens" and "clicks per link" are computed at report
+ * time (src/lib/newsletter/engagement.ts). Keyed to the issue by slug, the same
+ * key the ledger's `newsletter_issue_slug` carries.
+ */
+export const newsletterEngagementEvents = sqliteTable(
+  "newsletter_engagement_events",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    issueSlug: text("issue_slug").notNull(),
+    /** Lowercased address the tracked link was minted for. */
+    recipient: text("recipient").notNull(),
+    kind: text("kind", { enum: ["open", "click"] }).notNull(),
+    /** The destination, for clicks. */
+    url: text("url"),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    index("idx_newsletter_engagement_issue").on(table.issueSlug, table.kind),
+    index("idx_newsletter_engagement_recipient").on(table.recipient, table.issueSlug),
+  ]
+);
+
 /** The newsletter audiences. Mirrors NEWSLETTER_LISTS (OPE-191). */
 export const NEWSLETTER_AUDIENCES = ["weekend", "vendor"] as const;
 export type NewsletterAudience = (typeof NEWSLETTER_AUDIENCES)[number];
@@ -1860,60 +2010,310 @@ export type NewsletterAudience = (typeof NEWSLETTER_AUDIENCES)[number];
  * event/vendor/venue row, the link is still recorded with target_slug so the
  * broken-link surface can show it.
  */
-export const contentLinks = sqliteTable(
-  "content_links",
+export const contentLinks = sqliteTable(
+  "content_links",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    sourceType: text("source_type", { enum: ["BLOG_POST"] }).notNull(),
+    sourceId: text("source_id").notNull(),
+    targetType: text("target_type", { enum: ["EVENT", "VENDOR", "VENUE", "BLOG_POST"] }).notNull(),
+    targetSlug: text("target_slug").notNull(),
+    targetId: text("target_id"),
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+    // Stamped after we successfully fire a promoter blog-mention email for
+    // this row. NULL means we haven't notified yet (or this link type isn't
+    // notifiable). See src/lib/content-links-sync.ts for the firing logic.
+    notifiedAt: integer("notified_at", { mode: "timestamp" }),
+  },
+  (table) => ({
+    // Migration drizzle/0086 created this as UNIQUE INDEX; the schema
+    // declaration must mirror it so future drizzle-kit diffs stay clean
+    // (same hygiene reason as the user_roles unique index above).
+    uniqueIdx: uniqueIndex("idx_content_links_unique").on(
+      table.sourceType,
+      table.sourceId,
+      table.targetType,
+      table.targetSlug
+    ),
+    targetIdIdx: index("idx_content_links_target_id").on(table.targetType, table.targetId),
+    targetSlugIdx: index("idx_content_links_target_slug").on(table.targetType, table.targetSlug),
+    sourceIdx: index("idx_content_links_source").on(table.sourceType, table.sourceId),
+  })
+);
+
+export const passwordResetTokens = sqliteTable(
+  "password_reset_tokens",
+  {
+    token: text("token").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    expires: integer("expires", { mode: "timestamp" }).notNull(),
+    // NOTE: migration 0028 set the SQL default to `unixepoch('now')` (seconds),
+    // but mode: "timestamp" expects ms. Drizzle's $defaultFn wins on every
+    // insert path Drizzle controls, so the SQL default is dormant. If anyone
+    // ever inserts via raw `wrangler d1 execute`, they'll create 1970 dates.
+    // Don't lean on the SQL default — always go through Drizzle.
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    userIdIdx: index("idx_password_reset_tokens_user_id").on(table.userId),
+    expiresIdx: index("idx_password_reset_tokens_expires").on(table.expires),
+  })
+);
+
+/**
+ * drizzle/0241 — a user's authenticator-app (TOTP) secret. `secret` is
+ * AES-GCM sealed under AUTH_SECRET (src/lib/auth/totp.ts); `enabledAt` stays
+ * null until the first code is confirmed, so an abandoned enrollment never
+ * gates a login. `lastStep` is the time step of the last accepted code.
+ */
+export const userTotp = sqliteTable("user_totp", {
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(),
+  enabledAt: integer("enabled_at", { mode: "timestamp" }),
+  lastStep: integer("last_step"),
+  // drizzle/0245 — wrong codes since the last accepted factor, and the lock
+  // they earned. See two-factor.ts.
+  failedCodeAttempts: integer("failed_code_attempts").notNull().default(0),
+  codeLockedUntil: integer("code_locked_until", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+/** drizzle/0241 — one-time TOTP recovery codes, stored as SHA-256 hashes. */
+export const userRecoveryCodes = sqliteTable(
+  "user_recovery_codes",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    codeHash: text("code_hash").notNull(),
+    usedAt: integer("used_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [index("idx_user_recovery_codes_user").on(t.userId)]
+);
+
+/**
+ * drizzle/0241 — WebAuthn passkeys. `credentialId` and `publicKey` (SPKI) are
+ * base64url; `algorithm` is the COSE id (-7 ES256, -257 RS256). `signCount`
+ * is the authenticator's counter as of the last assertion (0 for authenticators
+ * that don't keep one).
+ */
+export const userPasskeys = sqliteTable(
+  "user_passkeys",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    credentialId: text("credential_id").notNull().unique(),
+    publicKey: text("public_key").notNull(),
+    algorithm: integer("algorithm").notNull(),
+    signCount: integer("sign_count").notNull().default(0),
+    /** JSON array of AuthenticatorTransport hints, or null. */
+    transports: text("transports"),
+    name: text("name").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  },
+  (t) => [index("idx_user_passkeys_user").on(t.userId)]
+);
+
+export type UserPasskey = typeof userPasskeys.$inferSelect;
+
+/**
+ * drizzle/0241 — single-use WebAuthn challenges. `userId` is null for a
+ * passkey sign-in, where the user isn't known until the assertion arrives.
+ */
+export const authChallenges = sqliteTable(
+  "auth_challenges",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id").references(() => users.id, { onDelete: "cascade" }),
+    purpose: text("purpose", { enum: ["register", "login", "verify"] }).notNull(),
+    challenge: text("challenge").notNull(),
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [index("idx_auth_challenges_expires").on(t.expiresAt)]
+);
+
+/**
+ * drizzle/0241 — one row per signed-in session; `id` is the JWT's `sid`.
+ * `verifiedAt` is when the session satisfied its second factor (at sign-in or
+ * on /login/two-factor); `stepUpAt` is its latest re-authentication for a
+ * sensitive admin action (src/lib/auth/login-events.ts).
+ */
+export const loginEvents = sqliteTable(
+  "login_events",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    /** "credentials", "passkey", or the OAuth provider id. */
+    method: text("method").notNull(),
+    secondFactor: text("second_factor", { enum: ["totp", "recovery", "passkey"] }),
+    ip: text("ip"),
+    userAgent: text("user_agent"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    verifiedAt: integer("verified_at", { mode: "timestamp" }),
+    stepUpAt: integer("step_up_at", { mode: "timestamp" }),
+  },
+  (t) => [index("idx_login_events_user").on(t.userId, t.createdAt)]
+);
+
+export type LoginEvent = typeof loginEvents.$inferSelect;
+
+/**
+ * drizzle/0242 — self-service account deletion requests. Pending while both
+ * `cancelledAt` and `completedAt` are NULL; the hourly sweep erases accounts
+ * whose `scheduledFor` has passed (src/lib/account/deletion.ts). No FK on
+ * `userId`: the row outlives the account it records.
+ */
+export const accountDeletions = sqliteTable(
+  "account_deletions",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id").notNull(),
+    requestedAt: integer("requested_at", { mode: "timestamp" }).notNull(),
+    scheduledFor: integer("scheduled_for", { mode: "timestamp" }).notNull(),
+    cancelledAt: integer("cancelled_at", { mode: "timestamp" }),
+    completedAt: integer("completed_at", { mode: "timestamp" }),
+  },
+  (t) => [
+    uniqueIndex("idx_account_deletions_pending_user")
+      .on(t.userId)
+      .where(sql`${t.cancelledAt} IS NULL AND ${t.completedAt} IS NULL`),
+    index("idx_account_deletions_scheduled").on(t.scheduledFor),
+  ]
+);
+
+export type AccountDeletion = typeof accountDeletions.$inferSelect;
+
+export const EVENT_REVIEW_PARTICIPATION = ["ROSTER", "CORROBORATED", "SELF_REPORTED"] as const;
+export type EventReviewParticipation = (typeof EVENT_REVIEW_PARTICIPATION)[number];
+
+/**
+ * drizzle/0243 — a vendor's review of a past event it exhibited at, one per
+ * (vendor, event). `participation` is how we knew the vendor was there when
+ * the review was written (src/lib/reviews/event-reviews.ts). Ratings are 1-5.
+ * HIDDEN is an admin decision and survives the vendor editing the review.
+ */
+export const eventReviews = sqliteTable(
+  "event_reviews",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    eventId: text("event_id")
+      .notNull()
+      .references(() => events.id, { onDelete: "cascade" }),
+    vendorId: text("vendor_id")
+      .notNull()
+      .references(() => vendors.id, { onDelete: "cascade" }),
+    authorUserId: text("author_user_id").references(() => users.id, { onDelete: "set null" }),
+    participation: text("participation", { enum: EVENT_REVIEW_PARTICIPATION }).notNull(),
+    attendanceRating: integer("attendance_rating").notNull(),
+    salesRating: integer("sales_rating").notNull(),
+    organizationRating: integer("organization_rating").notNull(),
+    loadInRating: integer("load_in_rating").notNull(),
+    body: text("body"),
+    status: text("status", { enum: ["PUBLISHED", "HIDDEN"] })
+      .notNull()
+      .default("PUBLISHED"),
+    moderatedAt: integer("moderated_at", { mode: "timestamp" }),
+    moderatedBy: text("moderated_by"),
+    moderationNote: text("moderation_note"),
+    /** The event's promoter's public response; one per review, editable. */
+    replyBody: text("reply_body"),
+    replyUserId: text("reply_user_id").references(() => users.id, { onDelete: "set null" }),
+    repliedAt: integer("replied_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date())
+      .$onUpdate(() => new Date()),
+  },
+  (t) => [
+    uniqueIndex("idx_event_reviews_vendor_event").on(t.vendorId, t.eventId),
+    index("idx_event_reviews_event_status").on(t.eventId, t.status),
+  ]
+);
+
+export type EventReview = typeof eventReviews.$inferSelect;
+
+export const EVENT_REVIEW_REPORT_REASONS = [
+  "SPAM",
+  "ABUSIVE",
+  "FALSE",
+  "CONFLICT_OF_INTEREST",
+  "OTHER",
+] as const;
+export type EventReviewReportReason = (typeof EVENT_REVIEW_REPORT_REASONS)[number];
+
+/**
+ * drizzle/0243 — abuse reports against an event review. Open while
+ * `resolvedAt` is NULL; `resolution` records whether the admin hid the review
+ * or dismissed the report (src/lib/reviews/moderation.ts).
+ */
+export const eventReviewReports = sqliteTable(
+  "event_review_reports",
   {
     id: text("id")
       .primaryKey()
       .$defaultFn(() => crypto.randomUUID()),
-    sourceType: text("source_type", { enum: ["BLOG_POST"] }).notNull(),
-    sourceId: text("source_id").notNull(),
-    targetType: text("target_type", { enum: ["EVENT", "VENDOR", "VENUE", "BLOG_POST"] }).notNull(),
-    targetSlug: text("target_slug").notNull(),
-    targetId: text("target_id"),
-    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
-    // Stamped after we successfully fire a promoter blog-mention email for
-    // this row. NULL means we haven't notified yet (or this link type isn't
-    // notifiable). See src/lib/content-links-sync.ts for the firing logic.
-    notifiedAt: integer("notified_at", { mode: "timestamp" }),
-  },
-  (table) => ({
-    // Migration drizzle/0086 created this as UNIQUE INDEX; the schema
-    // declaration must mirror it so future drizzle-kit diffs stay clean
-    // (same hygiene reason as the user_roles unique index above).
-    uniqueIdx: uniqueIndex("idx_content_links_unique").on(
-      table.sourceType,
-      table.sourceId,
-      table.targetType,
-      table.targetSlug
-    ),
-    targetIdIdx: index("idx_content_links_target_id").on(table.targetType, table.targetId),
-    targetSlugIdx: index("idx_content_links_target_slug").on(table.targetType, table.targetSlug),
-    sourceIdx: index("idx_content_links_source").on(table.sourceType, table.sourceId),
-  })
-);
-
-export const passwordResetTokens = sqliteTable(
-  "password_reset_tokens",
-  {
-    token: text("token").primaryKey(),
-    userId: text("user_id")
+    reviewId: text("review_id")
       .notNull()
-      .references(() => users.id, { onDelete: "cascade" }),
-    expires: integer("expires", { mode: "timestamp" }).notNull(),
-    // NOTE: migration 0028 set the SQL default to `unixepoch('now')` (seconds),
-    // but mode: "timestamp" expects ms. Drizzle's $defaultFn wins on every
-    // insert path Drizzle controls, so the SQL default is dormant. If anyone
-    // ever inserts via raw `wrangler d1 execute`, they'll create 1970 dates.
-    // Don't lean on the SQL default — always go through Drizzle.
-    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+      .references(() => eventReviews.id, { onDelete: "cascade" }),
+    reporterUserId: text("reporter_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    reason: text("reason", { enum: EVENT_REVIEW_REPORT_REASONS }).notNull(),
+    details: text("details"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    resolvedAt: integer("resolved_at", { mode: "timestamp" }),
+    resolvedBy: text("resolved_by"),
+    resolution: text("resolution", { enum: ["DISMISSED", "HIDDEN"] }),
   },
-  (table) => ({
-    userIdIdx: index("idx_password_reset_tokens_user_id").on(table.userId),
-    expiresIdx: index("idx_password_reset_tokens_expires").on(table.expires),
-  })
+  (t) => [
+    uniqueIndex("idx_event_review_reports_reporter").on(t.reviewId, t.reporterUserId),
+    index("idx_event_review_reports_open")
+      .on(t.createdAt)
+      .where(sql`${t.resolvedAt} IS NULL`),
+  ]
 );
 
+export type EventReviewReport = typeof eventReviewReports.$inferSelect;
+
 // Event Schema.org Data table - stores fetched schema.org markup from ticket URLs
 export const eventSchemaOrg = sqliteTable("event_schema_org", {
   id: text("id")
@@ -1967,6 +2367,18 @@ export const apiTokens = sqliteTable("api_tokens", {
     .references(() => users.id, { onDelete: "cascade" }),
   tokenHash: text("token_hash").notNull().unique(),
   name: text("name").notNull().default("Default"),
+  // drizzle/0225 — JSON array of ApiTokenScope (packages/utils/src/api-token-scopes.ts).
+  // Pre-0225 tokens were backfilled to the full set.
+  scopes: text("scopes").notNull().default("[]"),
+  expiresAt: integer("expires_at", { mode: "timestamp" }),
+  // Soft revocation: the row stays so the dashboard can show what was pulled and why.
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  revokedReason: text("revoked_reason"),
+  // JSON array of IPv4/IPv6 CIDRs; NULL = any address.
+  allowedCidrs: text("allowed_cidrs"),
+  useCount: integer("use_count").notNull().default(0),
+  deniedCount: integer("denied_count").notNull().default(0),
+  lastUsedIp: text("last_used_ip"),
   lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
@@ -2782,6 +3194,10 @@ export const emailSendLedger = sqliteTable(
      *  from the newest applied event — enough for an operator to read WHY
      *  without joining email_delivery_events. */
     deliveryDetail: text("delivery_detail"),
+    /** drizzle/0238 — the newsletter_issues.slug this send belongs to, for
+     *  tracked broadcasts; NULL for everything else. Lets the per-issue report
+     *  count deliveries and bounces without matching on subject lines. */
+    newsletterIssueSlug: text("newsletter_issue_slug"),
   },
   (table) => [
     index("idx_email_send_ledger_sent_at").on(table.sentAt),
@@ -2792,6 +3208,7 @@ export const emailSendLedger = sqliteTable(
     // message. Without the index that is a full scan of the ledger per event.
     index("idx_email_send_ledger_provider_message_id").on(table.providerMessageId),
     index("idx_email_send_ledger_delivery_status").on(table.deliveryStatus),
+    index("idx_email_send_ledger_newsletter_issue").on(table.newsletterIssueSlug),
   ]
 );
 
@@ -4951,6 +5368,14 @@ export const syndicationSubscribers = sqliteTable("syndication_subscribers", {
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .$defaultFn(() => new Date()),
+  // SYN3 (drizzle/0231) — the partner account that registered this subscriber
+  // through the portal. NULL for admin-registered (MCP tool) subscribers,
+  // which the portal doesn't show to anyone.
+  ownerUserId: text("owner_user_id").references(() => users.id, { onDelete: "set null" }),
+  // Rotation grace: the retired secret keeps signing (second header) and
+  // authenticating reconcile reads until it expires.
+  previousSigningSecret: text("previous_signing_secret"),
+  previousSecretExpiresAt: integer("previous_secret_expires_at", { mode: "timestamp" }),
 });
 
 // Which event IDs a subscriber tracks. Notification grain is per-event because
@@ -4977,9 +5402,96 @@ export const syndicationSubscriptions = sqliteTable(
   })
 );
 
+// SYN3 (drizzle/0231) — subscribe by query instead of by id. Every non-null
+// criterion must hold; the radius needs latitude, longitude and radius_miles
+// together. Matching is `eventMatchesSyndicationQuery` in @takemetothefair/utils.
+export const syndicationQuerySubscriptions = sqliteTable(
+  "syndication_query_subscriptions",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    subscriberId: text("subscriber_id")
+      .notNull()
+      .references(() => syndicationSubscribers.id, { onDelete: "cascade" }),
+    stateCode: text("state_code"),
+    category: text("category"),
+    promoterId: text("promoter_id").references(() => promoters.id, { onDelete: "cascade" }),
+    seriesId: text("series_id").references(() => eventSeries.id, { onDelete: "cascade" }),
+    latitude: real("latitude"),
+    longitude: real("longitude"),
+    radiusMiles: real("radius_miles"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => ({
+    subscriberIdx: index("idx_syndication_query_subs_subscriber").on(t.subscriberId),
+  })
+);
+
+// SYN3 (drizzle/0231) — one row per webhook attempt, successful or not: change
+// deliveries from the dispatcher (each retry is its own row), portal test
+// pings, and manual redeliveries. `payload` is the exact body sent, so a
+// redelivery re-sends it byte for byte (re-signed with the current secret).
+export const syndicationDeliveries = sqliteTable(
+  "syndication_deliveries",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    subscriberId: text("subscriber_id")
+      .notNull()
+      .references(() => syndicationSubscribers.id, { onDelete: "cascade" }),
+    kind: text("kind", { enum: ["change", "ping"] }).notNull(),
+    // No FK: the log outlives a deleted event.
+    eventId: text("event_id"),
+    eventVersion: integer("event_version"),
+    outboxId: text("outbox_id"),
+    // Set on a manual redelivery: the attempt it repeated.
+    redeliveryOf: text("redelivery_of"),
+    payload: text("payload").notNull(),
+    succeeded: integer("succeeded", { mode: "boolean" }).notNull(),
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    durationMs: integer("duration_ms"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => ({
+    subscriberCreatedIdx: index("idx_syndication_deliveries_subscriber").on(
+      t.subscriberId,
+      t.createdAt
+    ),
+  })
+);
+
+// SYN3 (drizzle/0244) — events a query subscriber has been sent because its
+// query matched. When a later change stops matching (cancelled, unpublished,
+// moved out of the state / series / radius) the dispatcher sends one
+// `removed: true` webhook to each subscriber here and deletes the row.
+export const syndicationQueryMatches = sqliteTable(
+  "syndication_query_matches",
+  {
+    subscriberId: text("subscriber_id")
+      .notNull()
+      .references(() => syndicationSubscribers.id, { onDelete: "cascade" }),
+    eventId: text("event_id")
+      .notNull()
+      .references(() => events.id, { onDelete: "cascade" }),
+    matchedAt: integer("matched_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [primaryKey({ columns: [t.subscriberId, t.eventId] })]
+);
+
 export type SyndicationOutboxRow = typeof syndicationOutbox.$inferSelect;
 export type SyndicationSubscriber = typeof syndicationSubscribers.$inferSelect;
 export type SyndicationSubscription = typeof syndicationSubscriptions.$inferSelect;
+export type SyndicationQuerySubscription = typeof syndicationQuerySubscriptions.$inferSelect;
+export type SyndicationDelivery = typeof syndicationDeliveries.$inferSelect;
 
 // ─── SYN1 — Drizzle statement builders (shared by all 5 write-paths) ─────────
 // These embed into a `db.batch([...])` alongside the entity UPDATE so the
@@ -5025,6 +5537,41 @@ export function eventSyndicationVersionBumpExpr() {
   return sql`${events.syndicationVersion} + 1`;
 }
 
+/**
+ * SYN3 — `values()` payload for a `syndication_deliveries` row from one
+ * webhook attempt (`postSyndicationWebhook`'s result). Shared by the MCP
+ * dispatcher and the portal's ping/redeliver routes so the log reads the same
+ * whichever side sent. `id` is the caller's when it already went out in the
+ * X-Syndication-Delivery-Id header.
+ */
+export function buildSyndicationDeliveryValues(input: {
+  id: string;
+  subscriberId: string;
+  kind: "change" | "ping";
+  eventId?: string | null;
+  eventVersion?: number | null;
+  outboxId?: string | null;
+  redeliveryOf?: string | null;
+  payload: string;
+  result: { ok: boolean; status: number | null; error: string | null; durationMs: number };
+}) {
+  return {
+    id: input.id,
+    subscriberId: input.subscriberId,
+    kind: input.kind,
+    eventId: input.eventId ?? null,
+    eventVersion: input.eventVersion ?? null,
+    outboxId: input.outboxId ?? null,
+    redeliveryOf: input.redeliveryOf ?? null,
+    payload: input.payload,
+    succeeded: input.result.ok,
+    responseStatus: input.result.status,
+    // Bounded: a receiver's error text is theirs, not ours to store in full.
+    error: input.result.error?.slice(0, 500) ?? null,
+    durationMs: input.result.durationMs,
+  };
+}
+
 /**
  * OPE-225 — photo-coverage rails. One row per (entity_type, entity_id), the
  * single source of truth for image coverage, demand tier and URL health.
@@ -5451,3 +5998,262 @@ export const tunableThresholds = sqliteTable("tunable_thresholds", {
 });
 
 export type TunableThreshold = typeof tunableThresholds.$inferSelect;
+
+/**
+ * Subscribable iCal feeds (drizzle/0224) — the per-event RFC 5545 SEQUENCE the
+ * feed renderer last published, keyed by the fingerprint of the occurrence set
+ * it was computed from. The renderer bumps `sequence` whenever the fingerprint
+ * moves, so a subscribed calendar replaces its copy no matter which writer
+ * changed the dates. A row's existence also means "some feed has published this
+ * event", which is what keeps a later cancellation visible to subscribers. See
+ * src/lib/calendar/ical-feed.ts.
+ */
+export const calendarFeedSequences = sqliteTable("calendar_feed_sequences", {
+  eventId: text("event_id")
+    .primaryKey()
+    .references(() => events.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull().default(0),
+  fingerprint: text("fingerprint").notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+export type CalendarFeedSequence = typeof calendarFeedSequences.$inferSelect;
+
+/**
+ * Capability tokens for the private favorites feed (drizzle/0224). Calendar
+ * clients can't present a session, so the feed URL carries the token. One live
+ * token per user; rotating it is how a leaked link is revoked. Stored as issued
+ * (not hashed) because the dashboard re-displays the URL on every visit.
+ */
+export const calendarFeedTokens = sqliteTable(
+  "calendar_feed_tokens",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    token: text("token").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    lastFetchedAt: integer("last_fetched_at", { mode: "timestamp" }),
+  },
+  (t) => [
+    uniqueIndex("idx_calendar_feed_tokens_user").on(t.userId),
+    uniqueIndex("idx_calendar_feed_tokens_token").on(t.token),
+  ]
+);
+
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+
+/**
+ * drizzle/0227 — per-event vendor application form. One row per event that
+ * has one; `fields` is JSON validated by applicationFormSchema in
+ * packages/validation. Kept beside `events` rather than in it to stay clear of
+ * D1's 100-column cap on event joins.
+ */
+export const eventApplicationForms = sqliteTable("event_application_forms", {
+  eventId: text("event_id")
+    .primaryKey()
+    .references(() => events.id, { onDelete: "cascade" }),
+  fields: text("fields").notNull().default("[]"),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedByUserId: text("updated_by_user_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+});
+
+export type EventApplicationForm = typeof eventApplicationForms.$inferSelect;
+
+/**
+ * drizzle/0228 — opt-in booth capacity for automatic waitlist promotion. An
+ * event without a row never auto-promotes; see src/lib/waitlist/promotion.ts.
+ */
+export const eventBoothCapacity = sqliteTable("event_booth_capacity", {
+  eventId: text("event_id")
+    .primaryKey()
+    .references(() => events.id, { onDelete: "cascade" }),
+  capacity: integer("capacity").notNull(),
+  /** How long each waitlist offer stays open before it cascades. */
+  offerHours: integer("offer_hours").notNull().default(48),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedByUserId: text("updated_by_user_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+});
+
+export type EventBoothCapacity = typeof eventBoothCapacity.$inferSelect;
+
+export const WAITLIST_OFFER_STATUSES = [
+  "OFFERED",
+  "ACCEPTED",
+  "DECLINED",
+  "EXPIRED",
+  "VOID",
+] as const;
+export type WaitlistOfferStatus = (typeof WAITLIST_OFFER_STATUSES)[number];
+
+/**
+ * drizzle/0228 — a slot offered to a waitlisted vendor. The token is the
+ * accept/decline credential (same shape as submission_correction_tokens).
+ */
+export const waitlistOffers = sqliteTable(
+  "waitlist_offers",
+  {
+    token: text("token").primaryKey(),
+    eventId: text("event_id")
+      .notNull()
+      .references(() => events.id, { onDelete: "cascade" }),
+    eventVendorId: text("event_vendor_id")
+      .notNull()
+      .references(() => eventVendors.id, { onDelete: "cascade" }),
+    status: text("status", { enum: WAITLIST_OFFER_STATUSES }).notNull().default("OFFERED"),
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    usedAt: integer("used_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  (t) => [
+    index("idx_waitlist_offers_event_status").on(t.eventId, t.status),
+    uniqueIndex("idx_waitlist_offers_live")
+      .on(t.eventVendorId)
+      .where(sql`status = 'OFFERED'`),
+  ]
+);
+
+export type WaitlistOffer = typeof waitlistOffers.$inferSelect;
+
+/**
+ * drizzle/0229 — admin-defined scraper sources, run by
+ * src/lib/scrapers/declarative. `key` becomes events.source_name; `definition`
+ * is JSON validated by scraperDefinitionSchema in packages/validation.
+ */
+export const scraperDefinitions = sqliteTable("scraper_definitions", {
+  key: text("key").primaryKey(),
+  label: text("label").notNull(),
+  definition: text("definition").notNull(),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedByUserId: text("updated_by_user_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+});
+
+export type ScraperDefinitionRow = typeof scraperDefinitions.$inferSelect;
+
+/** Saved page bodies a definition's dry-run preview runs against. */
+export const scraperFixtures = sqliteTable(
+  "scraper_fixtures",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    definitionKey: text("definition_key")
+      .notNull()
+      .references(() => scraperDefinitions.key, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    body: text("body").notNull(),
+    capturedAt: integer("captured_at", { mode: "timestamp" }).notNull(),
+  },
+  (t) => [uniqueIndex("idx_scraper_fixtures_key_url").on(t.definitionKey, t.url)]
+);
+
+export type ScraperFixture = typeof scraperFixtures.$inferSelect;
+
+/**
+ * drizzle/0230 — the text each searchable entity is indexed under: external
+ * content for the `search_index` FTS5 virtual table, which Drizzle can't model
+ * and src/lib/search/fts.ts queries in raw SQL. Written only by the triggers
+ * in that migration and by the rebuild in src/lib/search/index-sync.ts.
+ */
+export const searchDocuments = sqliteTable(
+  "search_documents",
+  {
+    id: integer("id").primaryKey(),
+    entityType: text("entity_type", { enum: ["event", "venue", "vendor", "blog"] }).notNull(),
+    entityId: text("entity_id").notNull(),
+    title: text("title").notNull().default(""),
+    body: text("body").notNull().default(""),
+    place: text("place").notNull().default(""),
+    tags: text("tags").notNull().default(""),
+  },
+  (t) => [uniqueIndex("idx_search_documents_entity").on(t.entityType, t.entityId)]
+);
+
+export type SearchDocument = typeof searchDocuments.$inferSelect;
+export type SearchEntityType = SearchDocument["entityType"];
+
+/**
+ * drizzle/0232 — a user's saved /events filter state. `params` is the JSON
+ * SavedSearchParams (packages/validation); the daily/weekly digest in
+ * src/lib/saved-searches reports approved matches not yet in
+ * saved_search_seen.
+ */
+export const savedSearches = sqliteTable(
+  "saved_searches",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    params: text("params").notNull(),
+    frequency: text("frequency", { enum: ["DAILY", "WEEKLY"] })
+      .notNull()
+      .default("WEEKLY"),
+    emailEnabled: integer("email_enabled", { mode: "boolean" }).notNull().default(true),
+    lastRunAt: integer("last_run_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [index("idx_saved_searches_user").on(t.userId)]
+);
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+
+/** Events a saved search has already reported (or matched when it was saved). */
+export const savedSearchSeen = sqliteTable(
+  "saved_search_seen",
+  {
+    savedSearchId: text("saved_search_id")
+      .notNull()
+      .references(() => savedSearches.id, { onDelete: "cascade" }),
+    eventId: text("event_id").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [primaryKey({ columns: [t.savedSearchId, t.eventId] })]
+);
+
+/**
+ * drizzle/0233 — a user's email / in-app choice for one notification type.
+ * Sparse: no row means the type's defaults (src/lib/notifications/types.ts).
+ */
+export const notificationPreferences = sqliteTable(
+  "notification_preferences",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    type: text("type").notNull(),
+    email: integer("email", { mode: "boolean" }).notNull(),
+    inApp: integer("in_app", { mode: "boolean" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [primaryKey({ columns: [t.userId, t.type] })]
+);
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
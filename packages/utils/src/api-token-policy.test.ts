@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { checkApiTokenPolicy, parseAllowedCidrs } from "./api-token-policy";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const live = { revokedAt: null, expiresAt: null, allowedCidrs: null };
+
+describe("parseAllowedCidrs", () => {
+  it("reads NULL as no allow-list", () => {
+    expect(parseAllowedCidrs(null)).toBeNull();
+  });
+
+  it("keeps the string entries of a stored array", () => {
+    expect(parseAllowedCidrs('["203.0.113.0/24", 7]')).toEqual(["203.0.113.0/24"]);
+  });
+
+  it("reads a corrupted column as an empty list rather than no list", () => {
+    expect(parseAllowedCidrs("203.0.113.0/24")).toEqual([]);
+    expect(parseAllowedCidrs('{"cidr":"203.0.113.0/24"}')).toEqual([]);
+  });
+});
+
+describe("checkApiTokenPolicy", () => {
+  it("allows a live token with no allow-list from anywhere", () => {
+    expect(checkApiTokenPolicy(live, null, NOW)).toBeNull();
+  });
+
+  it("refuses a revoked token with 401", () => {
+    const refusal = checkApiTokenPolicy({ ...live, revokedAt: new Date("2026-10-01") }, null, NOW);
+    expect(refusal).toMatchObject({ reason: "revoked", status: 401 });
+  });
+
+  it("refuses a token at its expiry instant with 401", () => {
+    expect(checkApiTokenPolicy({ ...live, expiresAt: NOW }, null, NOW)).toMatchObject({
+      reason: "expired",
+      status: 401,
+    });
+    expect(
+      checkApiTokenPolicy({ ...live, expiresAt: new Date("2026-10-20") }, null, NOW)
+    ).toBeNull();
+  });
+
+  it("refuses an address outside the allow-list with 403", () => {
+    const token = { ...live, allowedCidrs: '["203.0.113.0/24"]' };
+    expect(checkApiTokenPolicy(token, "203.0.113.9", NOW)).toBeNull();
+    expect(checkApiTokenPolicy(token, "198.51.100.1", NOW)).toMatchObject({
+      reason: "address",
+      status: 403,
+    });
+    expect(checkApiTokenPolicy(token, null, NOW)).toMatchObject({ reason: "address" });
+  });
+
+  it("denies every address when the allow-list column is unparsable", () => {
+    const token = { ...live, allowedCidrs: "not json" };
+    expect(checkApiTokenPolicy(token, "203.0.113.9", NOW)).toMatchObject({
+      reason: "malformed_allow_list",
+      status: 403,
+    });
+  });
+});
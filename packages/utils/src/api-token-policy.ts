@@ -0,0 +1,81 @@
+/**
+ * Token-level policy for `mmatf_` API tokens (drizzle/0225): revocation,
+ * expiry and the per-token address allow-list.
+ *
+ * Shared because two deploy artifacts accept the same credential — the main
+ * app's vendor API (src/lib/api-token-auth.ts) and the MCP Worker's legacy
+ * Bearer handler (mcp-server/src/auth.ts). A rule enforced on one and not the
+ * other is a revoked token that still works somewhere.
+ *
+ * Pure: the caller looks the row up, reads the client address and records
+ * the outcome (counters, logs) itself.
+ */
+
+import { isIpAllowed } from "./ip-allowlist";
+
+export interface ApiTokenPolicyRow {
+  revokedAt: Date | null;
+  expiresAt: Date | null;
+  allowedCidrs: string | null;
+}
+
+export type ApiTokenRefusalReason = "revoked" | "expired" | "address" | "malformed_allow_list";
+
+export interface ApiTokenRefusal {
+  reason: ApiTokenRefusalReason;
+  /** 401 when the credential itself is dead; 403 when it is fine but not from here. */
+  status: 401 | 403;
+  error: string;
+}
+
+/**
+ * Parse the stored `api_tokens.allowed_cidrs` JSON. NULL means "any address".
+ * A value that is set but is not a JSON array yields `[]` — which
+ * `checkApiTokenPolicy` treats as "no address is allowed", so a corrupted
+ * column narrows the token to nothing instead of widening it to everything.
+ */
+export function parseAllowedCidrs(raw: string | null | undefined): string[] | null {
+  if (raw === null || raw === undefined) return null;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check a token row against its revocation, expiry and allow-list. Returns
+ * null when the token may be used from `clientIp`, the refusal otherwise.
+ * `clientIp` must come from a header the client cannot set (CF-Connecting-IP);
+ * null fails any allow-listed token closed.
+ */
+export function checkApiTokenPolicy(
+  token: ApiTokenPolicyRow,
+  clientIp: string | null,
+  now: Date = new Date()
+): ApiTokenRefusal | null {
+  if (token.revokedAt) {
+    return { reason: "revoked", status: 401, error: "Token has been revoked" };
+  }
+  if (token.expiresAt && token.expiresAt.getTime() <= now.getTime()) {
+    return { reason: "expired", status: 401, error: "Token has expired" };
+  }
+
+  const cidrs = parseAllowedCidrs(token.allowedCidrs);
+  if (cidrs !== null && cidrs.length === 0) {
+    return {
+      reason: "malformed_allow_list",
+      status: 403,
+      error: "Request address is not allowed for this token",
+    };
+  }
+  if (!isIpAllowed(clientIp, cidrs)) {
+    return {
+      reason: "address",
+      status: 403,
+      error: "Request address is not allowed for this token",
+    };
+  }
+  return null;
+}
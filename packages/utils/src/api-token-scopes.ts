@@ -0,0 +1,43 @@
+/**
+ * Permission scopes for vendor `mmatf_` API tokens (drizzle/0225).
+ *
+ * Each `withApiToken` route declares the ONE scope it needs; a token carries
+ * the set it was minted with. Scopes are `resource:verb` and deliberately
+ * coarse — four of them cover every token-gated route today, and a scope a
+ * vendor cannot explain to themselves in the settings UI is a scope they will
+ * grant wholesale anyway.
+ *
+ * `write` does not imply `read`. A sync job that pushes status changes and a
+ * dashboard that only displays them are different grants, and collapsing them
+ * is how least-privilege quietly turns back into full authority.
+ */
+
+export const API_TOKEN_SCOPES = {
+  "applications:read": "View your event applications",
+  "applications:write": "Create and update event applications",
+  "profile:write": "Edit your vendor profile",
+  "events:read": "Read your event calendar",
+} as const;
+
+export type ApiTokenScope = keyof typeof API_TOKEN_SCOPES;
+
+export const API_TOKEN_SCOPE_VALUES = Object.keys(API_TOKEN_SCOPES) as ApiTokenScope[];
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === "string" && value in API_TOKEN_SCOPES;
+}
+
+/**
+ * Parse the stored `api_tokens.scopes` JSON. Unknown strings are dropped
+ * rather than failing the token — a scope retired from the registry simply
+ * stops granting anything.
+ */
+export function parseTokenScopes(raw: string | null | undefined): ApiTokenScope[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isApiTokenScope) : [];
+  } catch {
+    return [];
+  }
+}
@@ -425,10 +425,22 @@ export * from "./timing-safe-equal";
 // snapshot shape, shared by the five mutation write-paths and SYN2 batch-read.
 export * from "./syndication-outbox";
 
+// SYN3: webhook signing/sending and query-subscription matching, shared by the
+// MCP dispatcher and the main app's partner portal.
+export * from "./syndication-delivery";
+
 // K27 (2026-06-15): recurrence-rule parser + next-occurrence date math, shared
 // by the MCP auto-rollover sweep (and available to the main app for display).
 export * from "./recurrence";
 
+// Full RFC 5545 RRULE parse/format/expand at day granularity (drizzle/0234):
+// event_days generation in the editors, series occurrence dates, ICS output.
+export * from "./rrule";
+
+// Radius search (drizzle/0235): near/zip/radius parsing and the bounding-box +
+// distance geometry the listings, /api/search and the MCP search tools share.
+export * from "./near-search";
+
 // EH3 P3.3 (2026-06-22): discovery match-to-series routing decision. Shared so
 // the MCP server's suggest_event ingest path can import it.
 export * from "./discovery-routing";
@@ -482,3 +494,14 @@ export * from "./mutation-audit";
 // MORE restricted than hotlinking and that read is John's.
 export * from "./image-host";
 export * from "./gsc-milestones";
+
+// UTM tagging for links back to the site. Shared so the MCP build_utm_url tool
+// and the embeddable widget slugify campaign values the same way.
+export * from "./utm";
+
+// Scoped, expiring, revocable `mmatf_` tokens (drizzle/0225): the scope
+// registry, CIDR matching and the revoked/expired/allow-list policy. Shared so
+// the vendor API and the MCP Worker's Bearer handler refuse the same tokens.
+export * from "./api-token-scopes";
+export * from "./ip-allowlist";
+export * from "./api-token-policy";
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { isIpAllowed, parseCidr, parseIp } from "./ip-allowlist";
+
+describe("parseIp", () => {
+  it("parses IPv4 and rejects malformed octets", () => {
+    expect(parseIp("203.0.113.5")).toEqual([203, 0, 113, 5]);
+    expect(parseIp("256.0.0.1")).toBeNull();
+    expect(parseIp("1.2.3")).toBeNull();
+  });
+
+  it("expands IPv6 shorthand", () => {
+    expect(parseIp("2001:db8::1")).toEqual([
+      0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1,
+    ]);
+    expect(parseIp("::")).toEqual(Array(16).fill(0));
+    expect(parseIp("1::2::3")).toBeNull();
+    expect(parseIp("2001:db8:1:2:3:4:5:6:7")).toBeNull();
+  });
+
+  it("folds IPv4-mapped IPv6 to IPv4", () => {
+    expect(parseIp("::ffff:203.0.113.5")).toEqual([203, 0, 113, 5]);
+  });
+});
+
+describe("parseCidr", () => {
+  it("treats a bare address as a single host", () => {
+    expect(parseCidr("203.0.113.5")).toEqual({ bytes: [203, 0, 113, 5], prefix: 32 });
+  });
+
+  it("rejects prefixes longer than the family allows", () => {
+    expect(parseCidr("203.0.113.0/33")).toBeNull();
+    expect(parseCidr("2001:db8::/129")).toBeNull();
+    expect(parseCidr("2001:db8::/48")).not.toBeNull();
+  });
+});
+
+describe("isIpAllowed", () => {
+  it("allows everything when no list is set", () => {
+    expect(isIpAllowed("198.51.100.1", null)).toBe(true);
+    expect(isIpAllowed(null, [])).toBe(true);
+  });
+
+  it("matches IPv4 ranges on non-octet boundaries", () => {
+    const list = ["198.51.100.0/22"];
+    expect(isIpAllowed("198.51.103.255", list)).toBe(true);
+    expect(isIpAllowed("198.51.104.0", list)).toBe(false);
+  });
+
+  it("matches IPv6 ranges and never crosses families", () => {
+    const list = ["2001:db8:abcd::/48"];
+    expect(isIpAllowed("2001:db8:abcd:12::1", list)).toBe(true);
+    expect(isIpAllowed("2001:db8:abce::1", list)).toBe(false);
+    expect(isIpAllowed("203.0.113.5", list)).toBe(false);
+  });
+
+  it("matches a mapped client address against an IPv4 list", () => {
+    expect(isIpAllowed("::ffff:203.0.113.5", ["203.0.113.0/24"])).toBe(true);
+  });
+
+  it("fails closed for an unknown caller address", () => {
+    expect(isIpAllowed(null, ["0.0.0.0/0"])).toBe(false);
+    expect(isIpAllowed("not-an-ip", ["0.0.0.0/0"])).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * IPv4/IPv6 CIDR matching for per-token address allow-lists (drizzle/0225).
+ *
+ * Addresses are compared as byte arrays so one code path serves both families.
+ * An IPv4-mapped IPv6 address (`::ffff:203.0.113.5`) is folded to its IPv4
+ * form first — Cloudflare hands us either shape for the same client depending
+ * on how it connected, and an allow-list of `203.0.113.0/24` must match both.
+ */
+
+function parseIpv4(input: string): number[] | null {
+  const parts = input.split(".");
+  if (parts.length !== 4) return null;
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const n = Number(part);
+    if (n > 255) return null;
+    bytes.push(n);
+  }
+  return bytes;
+}
+
+function parseIpv6(input: string): number[] | null {
+  let text = input;
+  // Embedded IPv4 tail, e.g. ::ffff:1.2.3.4 — rewrite it as two hextets.
+  const lastColon = text.lastIndexOf(":");
+  if (text.includes(".") && lastColon >= 0) {
+    const v4 = parseIpv4(text.slice(lastColon + 1));
+    if (!v4) return null;
+    const hi = ((v4[0] << 8) | v4[1]).toString(16);
+    const lo = ((v4[2] << 8) | v4[3]).toString(16);
+    text = `${text.slice(0, lastColon + 1)}${hi}:${lo}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const hextets = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  const bytes: number[] = [];
+  for (const h of hextets) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(h)) return null;
+    const n = parseInt(h, 16);
+    bytes.push(n >> 8, n & 0xff);
+  }
+  return bytes;
+}
+
+/** Bytes of an IP address (4 for IPv4, 16 for IPv6), or null if unparseable. */
+export function parseIp(input: string): number[] | null {
+  const text = input.trim();
+  if (!text) return null;
+  if (!text.includes(":")) return parseIpv4(text);
+  const bytes = parseIpv6(text);
+  if (!bytes) return null;
+  const mapped =
+    bytes.slice(0, 10).every((b) => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  return mapped ? bytes.slice(12) : bytes;
+}
+
+export interface Cidr {
+  bytes: number[];
+  prefix: number;
+}
+
+/** Parse `addr/prefix` (or a bare address, meaning a single host). */
+export function parseCidr(input: string): Cidr | null {
+  const [addr, prefixText, extra] = input.trim().split("/");
+  if (extra !== undefined) return null;
+  const bytes = parseIp(addr);
+  if (!bytes) return null;
+  const max = bytes.length * 8;
+  if (prefixText === undefined) return { bytes, prefix: max };
+  if (!/^\d{1,3}$/.test(prefixText)) return null;
+  const prefix = Number(prefixText);
+  return prefix <= max ? { bytes, prefix } : null;
+}
+
+export function ipInCidr(ip: number[], cidr: Cidr): boolean {
+  if (ip.length !== cidr.bytes.length) return false;
+  let remaining = cidr.prefix;
+  for (let i = 0; i < ip.length && remaining > 0; i++) {
+    const bits = Math.min(8, remaining);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    if ((ip[i] & mask) !== (cidr.bytes[i] & mask)) return false;
+    remaining -= bits;
+  }
+  return true;
+}
+
+/**
+ * True when `ip` is inside any of `cidrs`. An empty or absent list allows
+ * everything; an unknown or unparseable caller address matches nothing, so an
+ * allow-listed token fails closed.
+ */
+export function isIpAllowed(ip: string | null, cidrs: string[] | null | undefined): boolean {
+  if (!cidrs || cidrs.length === 0) return true;
+  const bytes = ip ? parseIp(ip) : null;
+  if (!bytes) return false;
+  return cidrs.some((c) => {
+    const cidr = parseCidr(c);
+    return cidr !== null && ipInCidr(bytes, cidr);
+  });
+}
@@ -79,8 +79,8 @@ describe("silence when there is nothing to say", () => {
           entityId: "v1",
           verb: "update",
           actor: "x",
-          before: { name: "Same", capacity: 100 },
-          after: { name: "Same", capacity: 250 },
+          before: { name: "Same", googleRatingCount: 100 },
+          after: { name: "Same", googleRatingCount: 250 },
         },
         NOW
       )
@@ -156,3 +156,23 @@ describe("diffAuditedFields", () => {
     ).toEqual({ name: { from: "Dartmouth Grange #162", to: "Dartmouth Grange Fair 2026" } });
   });
 });
+
+describe("waitlist promotion", () => {
+  it("records an application's status move and ignores its other columns", () => {
+    const row = buildMutationAudit(
+      {
+        entityType: "event_vendor",
+        entityId: "ev1",
+        verb: "update",
+        actor: "waitlist_promotion",
+        before: { status: "WAITLISTED", boothInfo: null },
+        after: { status: "APPROVED", boothInfo: "B-4" },
+      },
+      NOW
+    );
+    expect(row!.action).toBe("event_vendor.update");
+    expect(JSON.parse(row!.payloadJson).changed).toEqual({
+      status: { from: "WAITLISTED", to: "APPROVED" },
+    });
+  });
+});
@@ -17,8 +17,12 @@
  * shared rule here uses because app and MCP are separate builds.
  */
 
-/** Entities whose writes must be answerable. */
-export type AuditedEntityType = "venue" | "event_day";
+/**
+ * Entities whose writes must be answerable. `event_vendor` and
+ * `waitlist_offer` (drizzle/0228) cover automatic waitlist promotion, where a
+ * vendor can gain or lose a booth without anyone clicking anything.
+ */
+export type AuditedEntityType = "venue" | "event_day" | "event_vendor" | "waitlist_offer";
 
 export interface MutationAuditInput {
   entityType: AuditedEntityType;
@@ -72,8 +76,21 @@ export const AUDITED_FIELDS: Record<AuditedEntityType, ReadonlySet<string>> = {
     "imageUrl",
     "status",
     "locationId",
+    // The owner-editable details (src/lib/venues/owner.ts). A venue owner
+    // rewriting its own hours or parking notes is a public-page change made by
+    // someone outside the team, which is exactly what this log is for.
+    "capacity",
+    "amenities",
+    "description",
+    "contactEmail",
+    "contactPhone",
+    "openingHours",
+    "accessibility",
+    "parking",
   ]),
   event_day: new Set(["date", "openTime", "closeTime", "notes", "closed", "vendorOnly"]),
+  event_vendor: new Set(["status"]),
+  waitlist_offer: new Set(["status"]),
 };
 
 /** Values that differ, restricted to the audited fields. */
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  approxMilesBetween,
+  formatNearParam,
+  nearBoundingBox,
+  normalizeZip,
+  parseNearParam,
+  parseRadiusMiles,
+  NEAR_DEFAULT_RADIUS_MILES,
+  NEAR_MAX_RADIUS_MILES,
+} from "./near-search";
+import { milesBetween } from "./syndication-delivery";
+
+describe("parseNearParam / formatNearParam", () => {
+  it("reads a lat,lng pair and round-trips it", () => {
+    expect(parseNearParam("44.3106, -69.7795")).toEqual({ latitude: 44.3106, longitude: -69.7795 });
+    expect(formatNearParam({ latitude: 44.31064, longitude: -69.77949 })).toBe("44.311,-69.779");
+  });
+
+  it("rejects malformed or out-of-range input", () => {
+    expect(parseNearParam(null)).toBeNull();
+    expect(parseNearParam("44.3")).toBeNull();
+    expect(parseNearParam("44.3,-69.7,1")).toBeNull();
+    expect(parseNearParam("-169.7,44.3")).toBeNull();
+    expect(parseNearParam("abc,def")).toBeNull();
+    expect(parseNearParam(",")).toBeNull();
+  });
+});
+
+describe("parseRadiusMiles", () => {
+  it("defaults, rounds and clamps", () => {
+    expect(parseRadiusMiles(undefined)).toBe(NEAR_DEFAULT_RADIUS_MILES);
+    expect(parseRadiusMiles("nope")).toBe(NEAR_DEFAULT_RADIUS_MILES);
+    expect(parseRadiusMiles("-5")).toBe(NEAR_DEFAULT_RADIUS_MILES);
+    expect(parseRadiusMiles("49.6")).toBe(50);
+    expect(parseRadiusMiles(0.2)).toBe(1);
+    expect(parseRadiusMiles("5000")).toBe(NEAR_MAX_RADIUS_MILES);
+  });
+});
+
+describe("normalizeZip", () => {
+  it("keeps five digits and drops a +4", () => {
+    expect(normalizeZip(" 04101 ")).toBe("04101");
+    expect(normalizeZip("04101-1234")).toBe("04101");
+    expect(normalizeZip("041011234")).toBe("04101");
+    expect(normalizeZip("4101")).toBeNull();
+    expect(normalizeZip("Portland")).toBeNull();
+  });
+});
+
+describe("nearBoundingBox / approxMilesBetween", () => {
+  const augusta = { latitude: 44.3106, longitude: -69.7795 };
+  const bangor = { latitude: 44.8012, longitude: -68.7778 };
+
+  it("encloses every point within the radius", () => {
+    const box = nearBoundingBox(augusta, 70);
+    expect(bangor.latitude).toBeGreaterThan(box.minLat);
+    expect(bangor.latitude).toBeLessThan(box.maxLat);
+    expect(bangor.longitude).toBeGreaterThan(box.minLng);
+    expect(bangor.longitude).toBeLessThan(box.maxLng);
+    // Longitude degrees are shorter at 44°N, so the box is wider than it is tall.
+    expect(box.maxLng - box.minLng).toBeGreaterThan(box.maxLat - box.minLat);
+  });
+
+  it("tracks the great-circle distance closely", () => {
+    const approx = approxMilesBetween(augusta, bangor);
+    const exact = milesBetween(
+      augusta.latitude,
+      augusta.longitude,
+      bangor.latitude,
+      bangor.longitude
+    );
+    expect(Math.abs(approx - exact) / exact).toBeLessThan(0.01);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Radius ("near me") search, the pure half: parsing the `near` / `zip` /
+ * `radius` inputs and the geometry every SQL builder shares. The /events and
+ * /vendors listings, /api/search and the MCP search tools each build their own
+ * WHERE from these numbers, so all four agree on what "within 25 miles" means.
+ *
+ * SQLite has no trig functions we can count on in D1, so the in-database test
+ * is the equirectangular approximation: scale the latitude and longitude deltas
+ * to miles at the center's latitude and compare the squared sum against the
+ * squared radius. Within the radii we allow it stays within a fraction of a
+ * percent of the great-circle distance (`milesBetween`), which is what the UI
+ * displays.
+ */
+
+export const NEAR_DEFAULT_RADIUS_MILES = 25;
+export const NEAR_MAX_RADIUS_MILES = 250;
+/** The radius choices the listing filters offer. Any value in range is accepted. */
+export const NEAR_RADIUS_OPTIONS = [10, 25, 50, 100, 200] as const;
+
+export const MILES_PER_DEGREE_LATITUDE = 69;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface LatLngBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+function isLatitude(n: number): boolean {
+  return Number.isFinite(n) && n >= -90 && n <= 90;
+}
+
+function isLongitude(n: number): boolean {
+  return Number.isFinite(n) && n >= -180 && n <= 180;
+}
+
+/** A coordinate pair from loose input, or null when either half is out of range. */
+export function toGeoPoint(latitude: unknown, longitude: unknown): GeoPoint | null {
+  if (latitude === null || latitude === undefined || latitude === "") return null;
+  if (longitude === null || longitude === undefined || longitude === "") return null;
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  return isLatitude(lat) && isLongitude(lng) ? { latitude: lat, longitude: lng } : null;
+}
+
+/** `near=44.31,-69.78` → a point; anything else (including a swapped pair out of range) → null. */
+export function parseNearParam(raw: string | null | undefined): GeoPoint | null {
+  if (!raw) return null;
+  const parts = raw.split(",").map((p) => p.trim());
+  if (parts.length !== 2) return null;
+  return toGeoPoint(parts[0], parts[1]);
+}
+
+/** The `near` query-string value for a point, rounded to ~100 m so URLs stay short and cacheable. */
+export function formatNearParam(point: GeoPoint): string {
+  return `${point.latitude.toFixed(3)},${point.longitude.toFixed(3)}`;
+}
+
+/**
+ * Radius in miles: the default when absent or unparseable, clamped to
+ * [1, NEAR_MAX_RADIUS_MILES] otherwise. The ceiling keeps the bounding box
+ * small enough to be worth prefiltering on and the approximation honest.
+ */
+export function parseRadiusMiles(raw: string | number | null | undefined): number {
+  if (raw === null || raw === undefined || raw === "") return NEAR_DEFAULT_RADIUS_MILES;
+  const n = typeof raw === "number" ? raw : Number(raw);
+  if (!Number.isFinite(n) || n <= 0) return NEAR_DEFAULT_RADIUS_MILES;
+  return Math.min(Math.max(Math.round(n), 1), NEAR_MAX_RADIUS_MILES);
+}
+
+/** A US ZIP as the five digits `location_zips.zip` stores; ZIP+4 is truncated. */
+export function normalizeZip(raw: string | null | undefined): string | null {
+  const match = raw?.trim().match(/^(\d{5})(?:-?\d{4})?$/);
+  return match ? match[1] : null;
+}
+
+/** Miles per degree of longitude at `latitude`, floored so the poles don't divide by zero. */
+export function milesPerDegreeLongitude(latitude: number): number {
+  return MILES_PER_DEGREE_LATITUDE * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+}
+
+/**
+ * The lat/lng box enclosing the circle — the indexable prefilter
+ * (drizzle/0235) that runs before the exact distance test.
+ */
+export function nearBoundingBox(center: GeoPoint, radiusMiles: number): LatLngBox {
+  const dLat = radiusMiles / MILES_PER_DEGREE_LATITUDE;
+  const dLng = radiusMiles / milesPerDegreeLongitude(center.latitude);
+  return {
+    minLat: center.latitude - dLat,
+    maxLat: center.latitude + dLat,
+    minLng: center.longitude - dLng,
+    maxLng: center.longitude + dLng,
+  };
+}
+
+/**
+ * Per-degree scale factors for the SQL distance expression
+ * `(latMiles·Δlat)² + (lngMiles·Δlng)²`. Computed here because the cosine
+ * has to be taken in JS and bound as a constant.
+ */
+export function nearDistanceScale(center: GeoPoint): { latMiles: number; lngMiles: number } {
+  return {
+    latMiles: MILES_PER_DEGREE_LATITUDE,
+    lngMiles: milesPerDegreeLongitude(center.latitude),
+  };
+}
+
+/** The same approximation in JS, for callers that filter rows already in memory. */
+export function approxMilesBetween(center: GeoPoint, point: GeoPoint): number {
+  const { latMiles, lngMiles } = nearDistanceScale(center);
+  const dy = (point.latitude - center.latitude) * latMiles;
+  const dx = (point.longitude - center.longitude) * lngMiles;
+  return Math.sqrt(dx * dx + dy * dy);
+}
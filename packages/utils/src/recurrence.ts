@@ -7,7 +7,9 @@
  * INTERVAL to compute the NEXT occurrence of a recurring event — BYDAY / UNTIL /
  * COUNT and friends are parsed-around (ignored) rather than honored. The point
  * is to advance an event's start/end by one cadence period (e.g. an annual fair
- * 2026 → 2027), not to expand a full occurrence set.
+ * 2026 → 2027), not to expand a full occurrence set — that's rrule.ts, which
+ * honors the whole rule (BYDAY, BYSETPOS, COUNT, UNTIL, EXDATE) for event_days
+ * generation and ICS output.
  *
  * Rule-string format note: the stored `events.recurrence_rule` value is the
  * FULL RFC 5545 form `FREQ=YEARLY;INTERVAL=1`, because the ICS consumer
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import { parseRRule, formatRRule, normalizeRRule, expandRRule } from "./rrule";
+
+function errorOf(rule: string): string {
+  const result = parseRRule(rule);
+  if (result.ok) throw new Error(`expected "${rule}" to be rejected`);
+  return result.error;
+}
+
+describe("parseRRule", () => {
+  it("parses every BYxxx part into a structured rule", () => {
+    const result = parseRRule("FREQ=MONTHLY;INTERVAL=2;BYMONTH=5,6;BYDAY=2SA,-1SU;COUNT=4");
+    expect(result).toEqual({
+      ok: true,
+      rule: {
+        freq: "MONTHLY",
+        interval: 2,
+        count: 4,
+        until: null,
+        byMonth: [5, 6],
+        byWeekNo: [],
+        byYearDay: [],
+        byMonthDay: [],
+        byDay: [
+          { weekday: "SA", ordinal: 2 },
+          { weekday: "SU", ordinal: -1 },
+        ],
+        bySetPos: [],
+        wkst: "MO",
+      },
+    });
+  });
+
+  it("accepts an RRULE: prefix, lower case and a bare frequency", () => {
+    expect(parseRRule("rrule:freq=weekly;byday=sa").ok).toBe(true);
+    const bare = parseRRule("YEARLY;INTERVAL=2");
+    expect(bare.ok && bare.rule.freq).toBe("YEARLY");
+  });
+
+  it("keeps the UTC day of a date-time UNTIL", () => {
+    const result = parseRRule("FREQ=WEEKLY;UNTIL=20261031T235959Z");
+    expect(result.ok && result.rule.until).toBe("2026-10-31");
+  });
+
+  it("rejects what it can't honor instead of ignoring it", () => {
+    expect(errorOf("FREQ=HOURLY")).toMatch(/not supported/);
+    expect(errorOf("FREQ=DAILY;BYHOUR=9")).toMatch(/not supported/);
+    expect(errorOf("FREQ=WEEKLY;BYDAY=2SA")).toMatch(/MONTHLY or FREQ=YEARLY/);
+    expect(errorOf("FREQ=DAILY;COUNT=3;UNTIL=20260101")).toMatch(/COUNT and UNTIL/);
+    expect(errorOf("FREQ=MONTHLY;BYSETPOS=1")).toMatch(/BYSETPOS/);
+    expect(errorOf("FREQ=MONTHLY;BYMONTHDAY=32")).toMatch(/out of range/);
+    expect(errorOf("FREQ=MONTHLY;UNTIL=20260230")).toMatch(/not a valid date/);
+    expect(errorOf("FREQ=MONTHLY;FOO=1")).toMatch(/Unknown rule part/);
+    expect(errorOf("BYDAY=SA")).toBe("FREQ is required");
+  });
+});
+
+describe("formatRRule / normalizeRRule", () => {
+  it("produces one canonical spelling", () => {
+    expect(normalizeRRule(" byday=2sa ; freq=monthly ; bymonth=5,6 ; interval=1 ")).toBe(
+      "FREQ=MONTHLY;BYMONTH=5,6;BYDAY=2SA"
+    );
+    expect(normalizeRRule("MONTHLY")).toBe("FREQ=MONTHLY");
+    expect(normalizeRRule("FREQ=SOMETIMES")).toBeNull();
+  });
+
+  it("matches UNTIL to a date-time DTSTART on request", () => {
+    const result = parseRRule("FREQ=WEEKLY;BYDAY=SA;UNTIL=20261031");
+    if (!result.ok) throw new Error(result.error);
+    expect(formatRRule(result.rule)).toBe("FREQ=WEEKLY;BYDAY=SA;UNTIL=20261031");
+    expect(formatRRule(result.rule, { untilAsDateTime: true })).toBe(
+      "FREQ=WEEKLY;BYDAY=SA;UNTIL=20261031T235959Z"
+    );
+  });
+});
+
+describe("expandRRule", () => {
+  it("every 2nd Saturday, May through October", () => {
+    expect(
+      expandRRule("FREQ=MONTHLY;BYMONTH=5,6,7,8,9,10;BYDAY=2SA", {
+        dtstart: "2026-05-01",
+        to: "2026-12-31",
+      })
+    ).toEqual(["2026-05-09", "2026-06-13", "2026-07-11", "2026-08-08", "2026-09-12", "2026-10-10"]);
+  });
+
+  it("Thanksgiving, yearly, bounded by COUNT", () => {
+    expect(
+      expandRRule("FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=3", { dtstart: "2026-11-01" })
+    ).toEqual(["2026-11-26", "2027-11-25", "2028-11-23"]);
+  });
+
+  it("the last Sunday of each month", () => {
+    expect(expandRRule("FREQ=MONTHLY;BYDAY=-1SU", { dtstart: "2026-01-01", limit: 3 })).toEqual([
+      "2026-01-25",
+      "2026-02-22",
+      "2026-03-29",
+    ]);
+  });
+
+  it("the first weekday of each month via BYSETPOS", () => {
+    expect(
+      expandRRule("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1", {
+        dtstart: "2026-08-01",
+        limit: 3,
+      })
+    ).toEqual(["2026-08-03", "2026-09-01", "2026-10-01"]);
+  });
+
+  it("every other weekend until UNTIL, minus an EXDATE", () => {
+    expect(
+      expandRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=SA,SU;UNTIL=20260621", {
+        dtstart: "2026-05-30",
+        exdates: ["2026-06-13"],
+      })
+    ).toEqual(["2026-05-30", "2026-05-31", "2026-06-14"]);
+  });
+
+  it("fills the missing parts from DTSTART and skips months without the day", () => {
+    expect(expandRRule("FREQ=YEARLY;COUNT=3", { dtstart: "2026-08-15" })).toEqual([
+      "2026-08-15",
+      "2027-08-15",
+      "2028-08-15",
+    ]);
+    expect(expandRRule("FREQ=MONTHLY;COUNT=4", { dtstart: "2026-01-31" })).toEqual([
+      "2026-01-31",
+      "2026-03-31",
+      "2026-05-31",
+      "2026-07-31",
+    ]);
+  });
+
+  it("counts EXDATE days toward COUNT", () => {
+    expect(
+      expandRRule("FREQ=DAILY;COUNT=3", { dtstart: "2026-07-01", exdates: ["2026-07-02"] })
+    ).toEqual(["2026-07-01", "2026-07-03"]);
+  });
+
+  it("supports BYYEARDAY and BYWEEKNO", () => {
+    expect(expandRRule("FREQ=YEARLY;BYYEARDAY=-1", { dtstart: "2026-01-01", limit: 2 })).toEqual([
+      "2026-12-31",
+      "2027-12-31",
+    ]);
+    expect(
+      expandRRule("FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO", { dtstart: "2026-01-01", limit: 1 })
+    ).toEqual(["2026-05-11"]);
+  });
+
+  it("windows the result with from/to without disturbing COUNT", () => {
+    expect(
+      expandRRule("FREQ=WEEKLY;BYDAY=SA;COUNT=4", {
+        dtstart: "2026-05-02",
+        from: "2026-05-10",
+      })
+    ).toEqual(["2026-05-16", "2026-05-23"]);
+  });
+
+  it("returns nothing for a rule that never matches, an invalid rule or a bad DTSTART", () => {
+    expect(expandRRule("FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30", { dtstart: "2026-01-01" })).toEqual(
+      []
+    );
+    expect(expandRRule("FREQ=NEVER", { dtstart: "2026-01-01" })).toEqual([]);
+    expect(expandRRule("FREQ=DAILY", { dtstart: "2026-02-30" })).toEqual([]);
+  });
+});
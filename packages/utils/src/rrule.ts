@@ -0,0 +1,563 @@
+/**
+ * Full RFC 5545 RRULE parsing + occurrence expansion, at DAY granularity.
+ *
+ * recurrence.ts answers "when is the next edition?" from FREQ/INTERVAL alone,
+ * which is all the K27 rollover needs. This module answers the other question
+ * — "which days does this rule produce?" — for the shapes that subset can't
+ * model: "every 2nd Saturday May–October" (FREQ=MONTHLY;BYMONTH=5,6,7,8,9,10;
+ * BYDAY=2SA), "Thanksgiving weekend" (FREQ=YEARLY;BYMONTH=11;BYDAY=4TH), "the
+ * last Sunday of the month" (BYDAY=-1SU), "the first weekday"
+ * (BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1), bounded by COUNT or UNTIL and minus
+ * EXDATE exceptions. Consumers: event_days generation in the editors, series
+ * occurrence dates (src/lib/series/create-occurrence-core.ts) and the RRULE /
+ * EXDATE lines of ICS output.
+ *
+ * Everything here is a calendar DAY (`YYYY-MM-DD`), never an instant: events
+ * are scheduled by day and their hours live on event_days, so DTSTART is the
+ * event's start day and the time-of-day parts (BYHOUR / BYMINUTE / BYSECOND,
+ * and the sub-daily frequencies) are rejected rather than silently dropped.
+ *
+ * Expansion follows the RFC's expand/limit table by filtering: each period
+ * (year, month, week or day, stepped by INTERVAL from DTSTART's period) is
+ * enumerated day by day, the BYxxx parts keep the days they match, BYSETPOS
+ * picks from what's left, and COUNT/UNTIL/EXDATE apply last. Two deliberate
+ * simplifications, both in RFC-undefined territory:
+ *   - a DTSTART the rule doesn't produce is NOT emitted as an extra first
+ *     occurrence (§3.8.5.3 calls that set "undefined"); editors anchor the
+ *     rule on a day and the first occurrence is whatever the rule yields on
+ *     or after it.
+ *   - BYWEEKNO only selects days inside the period's own year; the days of
+ *     week 1 that fall in late December belong to the next year's period.
+ */
+import type { RecurrenceFreq } from "./recurrence";
+
+export type RRuleWeekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+export const RRULE_WEEKDAYS: readonly RRuleWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export interface RRuleByDay {
+  weekday: RRuleWeekday;
+  /** `2` in `2SA`, `-1` in `-1SU`; null for a plain `SA` (every Saturday). */
+  ordinal: number | null;
+}
+
+export interface RRule {
+  freq: RecurrenceFreq;
+  interval: number;
+  count: number | null;
+  /** Inclusive last day, `YYYY-MM-DD`. A date-time UNTIL keeps its UTC day. */
+  until: string | null;
+  byMonth: number[];
+  byWeekNo: number[];
+  byYearDay: number[];
+  byMonthDay: number[];
+  byDay: RRuleByDay[];
+  bySetPos: number[];
+  wkst: RRuleWeekday;
+}
+
+export type RRuleParseResult = { ok: true; rule: RRule } | { ok: false; error: string };
+
+const FREQS: readonly RecurrenceFreq[] = ["YEARLY", "MONTHLY", "WEEKLY", "DAILY"];
+const SUB_DAILY = ["HOURLY", "MINUTELY", "SECONDLY"];
+const TIME_PARTS = ["BYHOUR", "BYMINUTE", "BYSECOND"];
+
+const DAY_MS = 86_400_000;
+
+/**
+ * How far past DTSTART expansion will look before giving up. A rule that can
+ * never match (BYMONTH=2;BYMONTHDAY=30) with no COUNT/UNTIL/window would
+ * otherwise walk forever; a century is longer than any fair has run.
+ */
+export const RRULE_HORIZON_YEARS = 100;
+
+/** Default cap on expanded occurrences when the caller doesn't pass `limit`. */
+export const RRULE_DEFAULT_LIMIT = 500;
+
+function fail(error: string): RRuleParseResult {
+  return { ok: false, error };
+}
+
+function parseIntList(
+  raw: string,
+  name: string,
+  min: number,
+  max: number,
+  allowNegative: boolean
+): number[] | string {
+  const out: number[] = [];
+  for (const token of raw.split(",")) {
+    const t = token.trim();
+    if (!/^[+-]?\d{1,3}$/.test(t)) return `${name} has an invalid value "${t}"`;
+    const n = Number.parseInt(t, 10);
+    const abs = Math.abs(n);
+    if (abs < min || abs > max || (n < 0 && !allowNegative)) {
+      return `${name} value ${t} is out of range`;
+    }
+    if (!out.includes(n)) out.push(n);
+  }
+  return out;
+}
+
+function parseUntil(raw: string): string | null {
+  const m = raw.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!m) return null;
+  const [, y, mo, d] = m;
+  const key = `${y}-${mo}-${d}`;
+  return isValidDateKey(key) ? key : null;
+}
+
+/**
+ * Parse an RRULE value (`FREQ=MONTHLY;BYDAY=2SA`, with or without a leading
+ * `RRULE:`). Case- and whitespace-insensitive, and — like
+ * `parseRecurrenceRule` — tolerant of a bare `MONTHLY` with the FREQ keyword
+ * left off, since hand-seeded rows use that form. Everything else is strict:
+ * an unknown part or an out-of-range value is an error, so an editor can tell
+ * the promoter what's wrong instead of storing a rule that means something
+ * other than what they typed.
+ */
+export function parseRRule(input: string | null | undefined): RRuleParseResult {
+  if (!input || !input.trim()) return fail("Recurrence rule is empty");
+  const body = input.trim().replace(/^RRULE:/i, "");
+  const parts = body
+    .toUpperCase()
+    .split(";")
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const rule: RRule = {
+    freq: "YEARLY",
+    interval: 1,
+    count: null,
+    until: null,
+    byMonth: [],
+    byWeekNo: [],
+    byYearDay: [],
+    byMonthDay: [],
+    byDay: [],
+    bySetPos: [],
+    wkst: "MO",
+  };
+  let sawFreq = false;
+  const seen = new Set<string>();
+
+  for (const part of parts) {
+    if (!part.includes("=")) {
+      if (!sawFreq && (FREQS as readonly string[]).includes(part)) {
+        rule.freq = part as RecurrenceFreq;
+        sawFreq = true;
+        continue;
+      }
+      return fail(`Unrecognized rule part "${part}"`);
+    }
+    const [key, rawVal] = part.split("=", 2).map((s) => s.trim());
+    const val = rawVal ?? "";
+    if (seen.has(key)) return fail(`${key} appears more than once`);
+    seen.add(key);
+
+    switch (key) {
+      case "FREQ":
+        if (SUB_DAILY.includes(val)) {
+          return fail(`FREQ=${val} is not supported — events recur by day`);
+        }
+        if (!(FREQS as readonly string[]).includes(val)) return fail(`Unknown FREQ "${val}"`);
+        rule.freq = val as RecurrenceFreq;
+        sawFreq = true;
+        break;
+      case "INTERVAL": {
+        if (!/^\d+$/.test(val) || Number(val) < 1) return fail("INTERVAL must be 1 or more");
+        rule.interval = Number(val);
+        break;
+      }
+      case "COUNT": {
+        if (!/^\d+$/.test(val) || Number(val) < 1) return fail("COUNT must be 1 or more");
+        rule.count = Number(val);
+        break;
+      }
+      case "UNTIL": {
+        const until = parseUntil(val);
+        if (!until) return fail(`UNTIL "${val}" is not a valid date`);
+        rule.until = until;
+        break;
+      }
+      case "BYMONTH": {
+        const list = parseIntList(val, "BYMONTH", 1, 12, false);
+        if (typeof list === "string") return fail(list);
+        rule.byMonth = list;
+        break;
+      }
+      case "BYWEEKNO": {
+        const list = parseIntList(val, "BYWEEKNO", 1, 53, true);
+        if (typeof list === "string") return fail(list);
+        rule.byWeekNo = list;
+        break;
+      }
+      case "BYYEARDAY": {
+        const list = parseIntList(val, "BYYEARDAY", 1, 366, true);
+        if (typeof list === "string") return fail(list);
+        rule.byYearDay = list;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const list = parseIntList(val, "BYMONTHDAY", 1, 31, true);
+        if (typeof list === "string") return fail(list);
+        rule.byMonthDay = list;
+        break;
+      }
+      case "BYSETPOS": {
+        const list = parseIntList(val, "BYSETPOS", 1, 366, true);
+        if (typeof list === "string") return fail(list);
+        rule.bySetPos = list;
+        break;
+      }
+      case "BYDAY": {
+        for (const token of val.split(",")) {
+          const m = token.trim().match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+          if (!m) return fail(`BYDAY has an invalid value "${token.trim()}"`);
+          const ordinal = m[1] ? Number.parseInt(m[1], 10) : null;
+          if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+            return fail(`BYDAY ordinal ${m[1]} is out of range`);
+          }
+          const weekday = m[2] as RRuleWeekday;
+          if (!rule.byDay.some((d) => d.weekday === weekday && d.ordinal === ordinal)) {
+            rule.byDay.push({ weekday, ordinal });
+          }
+        }
+        break;
+      }
+      case "WKST":
+        if (!(RRULE_WEEKDAYS as readonly string[]).includes(val)) {
+          return fail(`WKST "${val}" is not a weekday`);
+        }
+        rule.wkst = val as RRuleWeekday;
+        break;
+      default:
+        if (TIME_PARTS.includes(key)) {
+          return fail(`${key} is not supported — hours belong on the daily schedule`);
+        }
+        return fail(`Unknown rule part "${key}"`);
+    }
+  }
+
+  if (!sawFreq) return fail("FREQ is required");
+  // §3.3.10 combinations the RFC forbids outright.
+  if (rule.count !== null && rule.until !== null) {
+    return fail("COUNT and UNTIL can't both be set");
+  }
+  if (rule.byMonthDay.length > 0 && rule.freq === "WEEKLY") {
+    return fail("BYMONTHDAY can't be used with FREQ=WEEKLY");
+  }
+  if (rule.byYearDay.length > 0 && rule.freq !== "YEARLY") {
+    return fail("BYYEARDAY can only be used with FREQ=YEARLY");
+  }
+  if (rule.byWeekNo.length > 0 && rule.freq !== "YEARLY") {
+    return fail("BYWEEKNO can only be used with FREQ=YEARLY");
+  }
+  if (rule.byDay.some((d) => d.ordinal !== null)) {
+    if (rule.freq !== "MONTHLY" && rule.freq !== "YEARLY") {
+      return fail("Numbered BYDAY values (like 2SA) need FREQ=MONTHLY or FREQ=YEARLY");
+    }
+    if (rule.freq === "YEARLY" && rule.byWeekNo.length > 0) {
+      return fail("Numbered BYDAY values can't be combined with BYWEEKNO");
+    }
+  }
+  if (
+    rule.bySetPos.length > 0 &&
+    rule.byMonth.length +
+      rule.byWeekNo.length +
+      rule.byYearDay.length +
+      rule.byMonthDay.length +
+      rule.byDay.length ===
+      0
+  ) {
+    return fail("BYSETPOS needs another BY rule part to select from");
+  }
+  return { ok: true, rule };
+}
+
+function formatByDay(d: RRuleByDay): string {
+  return `${d.ordinal ?? ""}${d.weekday}`;
+}
+
+/**
+ * The canonical RRULE value: FREQ first, INTERVAL only when it isn't 1, then
+ * the BYxxx parts, WKST only when it isn't the MO default, then COUNT/UNTIL.
+ *
+ * `untilAsDateTime` is for ICS output whose DTSTART is a UTC date-time (the
+ * one-off download) — §3.3.10 requires UNTIL to match DTSTART's value type,
+ * and the last second of the UNTIL day keeps an occurrence on that day in.
+ * Date-valued DTSTARTs (the subscription feed's all-day VEVENTs) and storage
+ * use the plain `YYYYMMDD` form.
+ */
+export function formatRRule(rule: RRule, opts: { untilAsDateTime?: boolean } = {}): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byWeekNo.length) parts.push(`BYWEEKNO=${rule.byWeekNo.join(",")}`);
+  if (rule.byYearDay.length) parts.push(`BYYEARDAY=${rule.byYearDay.join(",")}`);
+  if (rule.byMonthDay.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.map(formatByDay).join(",")}`);
+  if (rule.bySetPos.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.wkst !== "MO") parts.push(`WKST=${rule.wkst}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== null) {
+    const compact = rule.until.replace(/-/g, "");
+    parts.push(`UNTIL=${opts.untilAsDateTime ? `${compact}T235959Z` : compact}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * Parse + re-format in one step: the canonical form of `input`, or null when
+ * it doesn't parse. What the write paths store, so `events.recurrence_rule`
+ * holds one spelling per rule however it was typed.
+ */
+export function normalizeRRule(
+  input: string | null | undefined,
+  opts: { untilAsDateTime?: boolean } = {}
+): string | null {
+  const parsed = parseRRule(input);
+  return parsed.ok ? formatRRule(parsed.rule, opts) : null;
+}
+
+// ── Day arithmetic (UTC midnight, so no DST or host-zone drift) ──────
+
+function isValidDateKey(key: string): boolean {
+  const m = key.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return false;
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return d.toISOString().slice(0, 10) === key;
+}
+
+function keyToMs(key: string): number {
+  return Date.UTC(Number(key.slice(0, 4)), Number(key.slice(5, 7)) - 1, Number(key.slice(8, 10)));
+}
+
+function msToKey(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, month0: number): number {
+  return new Date(Date.UTC(year, month0 + 1, 0)).getUTCDate();
+}
+
+function daysInYear(year: number): number {
+  return (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS;
+}
+
+function weekdayIndex(w: RRuleWeekday): number {
+  return RRULE_WEEKDAYS.indexOf(w);
+}
+
+/** First day of BYWEEKNO week 1: the first WKST-started week with ≥4 days in `year`. */
+function weekOneStart(year: number, wkst: number): number {
+  const jan1 = Date.UTC(year, 0, 1);
+  const back = (new Date(jan1).getUTCDay() - wkst + 7) % 7;
+  const start = jan1 - back * DAY_MS;
+  return 7 - back >= 4 ? start : start + 7 * DAY_MS;
+}
+
+interface DayInfo {
+  ms: number;
+  year: number;
+  month: number; // 1-12
+  monthDay: number;
+  weekday: number; // 0 = SU
+  yearDay: number; // 1-based
+}
+
+function dayInfo(ms: number): DayInfo {
+  const d = new Date(ms);
+  const year = d.getUTCFullYear();
+  return {
+    ms,
+    year,
+    month: d.getUTCMonth() + 1,
+    monthDay: d.getUTCDate(),
+    weekday: d.getUTCDay(),
+    yearDay: Math.round((ms - Date.UTC(year, 0, 1)) / DAY_MS) + 1,
+  };
+}
+
+/** The BYxxx parts an expansion actually applies, with the DTSTART-derived defaults filled in. */
+interface EffectiveRule extends RRule {
+  wkstIndex: number;
+}
+
+/**
+ * §3.3.10: with no BYxxx part narrowing the period down to days, the missing
+ * pieces come from DTSTART — a yearly rule recurs on DTSTART's month and day,
+ * a monthly one on its day of the month, a weekly one on its weekday.
+ */
+function withDefaults(rule: RRule, dtstart: DayInfo): EffectiveRule {
+  const eff: EffectiveRule = { ...rule, wkstIndex: weekdayIndex(rule.wkst) };
+  const narrowsToDays =
+    rule.byWeekNo.length + rule.byYearDay.length + rule.byMonthDay.length + rule.byDay.length > 0;
+  if (!narrowsToDays) {
+    if (rule.freq === "YEARLY") {
+      if (eff.byMonth.length === 0) eff.byMonth = [dtstart.month];
+      eff.byMonthDay = [dtstart.monthDay];
+    } else if (rule.freq === "MONTHLY") {
+      eff.byMonthDay = [dtstart.monthDay];
+    } else if (rule.freq === "WEEKLY") {
+      eff.byDay = [{ weekday: RRULE_WEEKDAYS[dtstart.weekday], ordinal: null }];
+    }
+  }
+  return eff;
+}
+
+/** Whether `day` is the `ordinal`-th of its weekday within [spanStart, spanEnd]. */
+function matchesOrdinal(
+  day: DayInfo,
+  ordinal: number,
+  spanStart: number,
+  spanEnd: number
+): boolean {
+  if (ordinal > 0) {
+    return Math.floor((day.ms - spanStart) / DAY_MS / 7) + 1 === ordinal;
+  }
+  return Math.floor((spanEnd - day.ms) / DAY_MS / 7) + 1 === -ordinal;
+}
+
+function matches(day: DayInfo, rule: EffectiveRule): boolean {
+  if (rule.byMonth.length && !rule.byMonth.includes(day.month)) return false;
+
+  if (rule.byWeekNo.length) {
+    const start = weekOneStart(day.year, rule.wkstIndex);
+    const weeks = Math.round((weekOneStart(day.year + 1, rule.wkstIndex) - start) / DAY_MS / 7);
+    const weekNo = Math.floor((day.ms - start) / DAY_MS / 7) + 1;
+    if (weekNo < 1 || weekNo > weeks) return false;
+    if (!rule.byWeekNo.some((n) => (n > 0 ? n : weeks + n + 1) === weekNo)) return false;
+  }
+
+  if (rule.byYearDay.length) {
+    const total = daysInYear(day.year);
+    if (!rule.byYearDay.some((n) => (n > 0 ? n : total + n + 1) === day.yearDay)) return false;
+  }
+
+  if (rule.byMonthDay.length) {
+    const total = daysInMonth(day.year, day.month - 1);
+    if (!rule.byMonthDay.some((n) => (n > 0 ? n : total + n + 1) === day.monthDay)) return false;
+  }
+
+  if (rule.byDay.length) {
+    // Numbered weekdays count within the month for MONTHLY (and for YEARLY
+    // narrowed by BYMONTH), within the year otherwise.
+    const inMonth = rule.freq === "MONTHLY" || rule.byMonth.length > 0;
+    const spanStart = inMonth ? Date.UTC(day.year, day.month - 1, 1) : Date.UTC(day.year, 0, 1);
+    const spanEnd = inMonth
+      ? Date.UTC(day.year, day.month - 1, daysInMonth(day.year, day.month - 1))
+      : Date.UTC(day.year, 11, 31);
+    const hit = rule.byDay.some(
+      (d) =>
+        weekdayIndex(d.weekday) === day.weekday &&
+        (d.ordinal === null || matchesOrdinal(day, d.ordinal, spanStart, spanEnd))
+    );
+    if (!hit) return false;
+  }
+
+  return true;
+}
+
+/** The days of the `index`-th period after DTSTART's, in order. */
+function periodDays(rule: EffectiveRule, dtstart: DayInfo, index: number): number[] {
+  const step = index * rule.interval;
+  switch (rule.freq) {
+    case "YEARLY": {
+      const year = dtstart.year + step;
+      const start = Date.UTC(year, 0, 1);
+      return Array.from({ length: daysInYear(year) }, (_, i) => start + i * DAY_MS);
+    }
+    case "MONTHLY": {
+      const total = dtstart.year * 12 + dtstart.month - 1 + step;
+      const year = Math.floor(total / 12);
+      const month0 = total % 12;
+      const start = Date.UTC(year, month0, 1);
+      return Array.from({ length: daysInMonth(year, month0) }, (_, i) => start + i * DAY_MS);
+    }
+    case "WEEKLY": {
+      const back = (dtstart.weekday - rule.wkstIndex + 7) % 7;
+      const start = dtstart.ms - back * DAY_MS + step * 7 * DAY_MS;
+      return Array.from({ length: 7 }, (_, i) => start + i * DAY_MS);
+    }
+    case "DAILY":
+      return [dtstart.ms + step * DAY_MS];
+  }
+}
+
+function applySetPos(days: number[], positions: number[]): number[] {
+  if (positions.length === 0) return days;
+  const picked = new Set<number>();
+  for (const p of positions) {
+    const idx = p > 0 ? p - 1 : days.length + p;
+    if (idx >= 0 && idx < days.length) picked.add(days[idx]);
+  }
+  return [...picked].sort((a, b) => a - b);
+}
+
+export interface ExpandRRuleOptions {
+  /** The rule's anchor day (`YYYY-MM-DD`) — the event's start date. */
+  dtstart: string;
+  /** EXDATE days to leave out. They still count toward COUNT, per §3.8.5.1. */
+  exdates?: readonly string[];
+  /** Only return occurrences on or after this day (inclusive). */
+  from?: string;
+  /** Only return occurrences on or before this day (inclusive). */
+  to?: string;
+  /** Stop after this many returned occurrences. */
+  limit?: number;
+}
+
+/**
+ * The occurrence days `rule` produces from `dtstart`, ascending, as
+ * `YYYY-MM-DD`. Accepts a parsed rule or a rule string; an unparseable string
+ * or an invalid `dtstart` yields `[]`, the same "nothing to schedule" answer
+ * the rest of the date helpers give.
+ */
+export function expandRRule(rule: RRule | string, opts: ExpandRRuleOptions): string[] {
+  let parsed: RRule;
+  if (typeof rule === "string") {
+    const result = parseRRule(rule);
+    if (!result.ok) return [];
+    parsed = result.rule;
+  } else {
+    parsed = rule;
+  }
+  if (!isValidDateKey(opts.dtstart)) return [];
+
+  const dtstart = dayInfo(keyToMs(opts.dtstart));
+  const eff = withDefaults(parsed, dtstart);
+  const exdates = new Set(opts.exdates ?? []);
+  const limit = opts.limit ?? RRULE_DEFAULT_LIMIT;
+  const fromMs = opts.from && isValidDateKey(opts.from) ? keyToMs(opts.from) : -Infinity;
+  const horizon = Date.UTC(dtstart.year + RRULE_HORIZON_YEARS, 11, 31);
+  const lastMs = Math.min(
+    horizon,
+    opts.to && isValidDateKey(opts.to) ? keyToMs(opts.to) : Infinity,
+    parsed.until ? keyToMs(parsed.until) : Infinity
+  );
+
+  const out: string[] = [];
+  let produced = 0;
+  for (let index = 0; out.length < limit; index++) {
+    const days = periodDays(eff, dtstart, index);
+    if (days[0] > lastMs) break;
+    const selected = applySetPos(
+      days.filter((ms) => matches(dayInfo(ms), eff)),
+      eff.bySetPos
+    );
+    for (const ms of selected) {
+      if (ms < dtstart.ms) continue;
+      if (ms > lastMs) break;
+      produced++;
+      if (parsed.count !== null && produced > parsed.count) return out;
+      const key = msToKey(ms);
+      if (ms >= fromMs && !exdates.has(key)) {
+        out.push(key);
+        if (out.length >= limit) break;
+      }
+    }
+    if (parsed.count !== null && produced >= parsed.count) break;
+  }
+  return out;
+}
@@ -0,0 +1,131 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  eventMatchesSyndicationQuery,
+  hmacSha256Hex,
+  milesBetween,
+  postSyndicationWebhook,
+  type SyndicationEventQuery,
+  type SyndicationQueryTarget,
+} from "./syndication-delivery";
+
+const NO_QUERY: SyndicationEventQuery = {
+  stateCode: null,
+  category: null,
+  promoterId: null,
+  seriesId: null,
+  latitude: null,
+  longitude: null,
+  radiusMiles: null,
+};
+
+const EVENT: SyndicationQueryTarget = {
+  isPublic: true,
+  stateCode: "ME",
+  categories: '["Craft Fair","Agricultural Fair"]',
+  promoterId: "p1",
+  seriesId: "s1",
+  latitude: 44.1,
+  longitude: -70.21,
+};
+
+describe("eventMatchesSyndicationQuery", () => {
+  it("requires every set criterion", () => {
+    expect(
+      eventMatchesSyndicationQuery({ ...NO_QUERY, stateCode: "me", promoterId: "p1" }, EVENT)
+    ).toBe(true);
+    expect(
+      eventMatchesSyndicationQuery({ ...NO_QUERY, stateCode: "ME", promoterId: "p2" }, EVENT)
+    ).toBe(false);
+    expect(eventMatchesSyndicationQuery({ ...NO_QUERY, seriesId: "s2" }, EVENT)).toBe(false);
+  });
+
+  it("matches a category case-insensitively, from JSON or an array", () => {
+    const q = { ...NO_QUERY, category: "craft fair" };
+    expect(eventMatchesSyndicationQuery(q, EVENT)).toBe(true);
+    expect(eventMatchesSyndicationQuery(q, { ...EVENT, categories: ["Craft Fair"] })).toBe(true);
+    expect(eventMatchesSyndicationQuery(q, { ...EVENT, categories: "not json" })).toBe(false);
+  });
+
+  it("never matches a non-public event", () => {
+    expect(
+      eventMatchesSyndicationQuery({ ...NO_QUERY, stateCode: "ME" }, { ...EVENT, isPublic: false })
+    ).toBe(false);
+  });
+
+  it("tests the radius against the venue, failing without coordinates", () => {
+    const near = { ...NO_QUERY, latitude: 44.09, longitude: -70.23, radiusMiles: 5 };
+    expect(eventMatchesSyndicationQuery(near, EVENT)).toBe(true);
+    expect(
+      eventMatchesSyndicationQuery({ ...near, latitude: 44.8, longitude: -68.77 }, EVENT)
+    ).toBe(false);
+    expect(eventMatchesSyndicationQuery(near, { ...EVENT, latitude: null, longitude: null })).toBe(
+      false
+    );
+  });
+});
+
+describe("milesBetween", () => {
+  it("is zero for the same point and ~90 miles Lewiston → Bangor", () => {
+    expect(milesBetween(44.1, -70.21, 44.1, -70.21)).toBe(0);
+    const d = milesBetween(44.1, -70.21, 44.8, -68.77);
+    expect(d).toBeGreaterThan(80);
+    expect(d).toBeLessThan(95);
+  });
+});
+
+describe("postSyndicationWebhook", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const NOW = new Date("2026-06-01T12:00:00Z");
+  const target = {
+    callbackUrl: "https://hooks.example.com/fairs",
+    signingSecret: "new",
+    previousSigningSecret: "old",
+    previousSecretExpiresAt: new Date("2026-06-02T00:00:00Z"),
+  };
+
+  it("signs with the current secret, and the previous one inside its grace", async () => {
+    const fetchMock = vi.fn(async () => new Response("ok", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await postSyndicationWebhook(target, "{}", { "X-Extra": "1" }, NOW);
+    expect(result).toMatchObject({ ok: true, status: 200, error: null });
+    const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+    const headers = init.headers as Record<string, string>;
+    expect(headers["X-Extra"]).toBe("1");
+    expect(headers["X-Syndication-Signature"]).toBe(`sha256=${await hmacSha256Hex("new", "{}")}`);
+    expect(headers["X-Syndication-Signature-Previous"]).toBe(
+      `sha256=${await hmacSha256Hex("old", "{}")}`
+    );
+
+    await postSyndicationWebhook(target, "{}", {}, new Date("2026-06-03T00:00:00Z"));
+    const later = (fetchMock.mock.calls[1] as unknown as [string, RequestInit])[1];
+    expect(later.headers).not.toHaveProperty("X-Syndication-Signature-Previous");
+  });
+
+  it("returns failures instead of throwing", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("", { status: 503 }))
+    );
+    expect(await postSyndicationWebhook(target, "{}", {}, NOW)).toMatchObject({
+      ok: false,
+      status: 503,
+      error: "HTTP 503",
+    });
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new Error("connect ECONNREFUSED");
+      })
+    );
+    expect(await postSyndicationWebhook(target, "{}", {}, NOW)).toMatchObject({
+      ok: false,
+      status: null,
+      error: "connect ECONNREFUSED",
+    });
+  });
+});
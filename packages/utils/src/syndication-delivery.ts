@@ -0,0 +1,190 @@
+// SYN3 — syndication delivery + query-subscription matching, shared by the MCP
+// dispatcher (change webhooks) and the main app's partner portal (test pings,
+// manual redelivery, the matching-events read).
+//
+// Like syndication-outbox.ts this stays free of Drizzle and the DB. Two things
+// must be identical wherever a webhook is sent or a subscription evaluated:
+//   • the wire format — signature scheme and header names. A partner verifies
+//     change webhooks and portal pings with the same code, so the two senders
+//     cannot be allowed to drift.
+//   • what "this event matches this query" means. The dispatcher decides who
+//     gets a push and the reconcile endpoints decide who may read an event;
+//     a partner must never be pushed an event they can't then read, or the
+//     reverse.
+
+/** Signature of the exact request body, `sha256=<hex>`. */
+export const SYNDICATION_SIGNATURE_HEADER = "X-Syndication-Signature";
+
+/**
+ * During a secret-rotation grace window, the body is also signed with the
+ * retired secret so a partner can deploy the new one at their own pace.
+ */
+export const SYNDICATION_PREVIOUS_SIGNATURE_HEADER = "X-Syndication-Signature-Previous";
+
+/** Lets the receiver correlate with the portal's delivery log. */
+export const SYNDICATION_DELIVERY_ID_HEADER = "X-Syndication-Delivery-Id";
+
+/** 'change' | 'ping'; a redelivery repeats the original's kind. */
+export const SYNDICATION_KIND_HEADER = "X-Syndication-Kind";
+
+/** HMAC-SHA256 hex digest via Web Crypto (Workers, next-on-pages and Node 18+). */
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    enc.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, enc.encode(message));
+  return [...new Uint8Array(sig)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export interface SyndicationWebhookTarget {
+  callbackUrl: string;
+  signingSecret: string;
+  /** Still signed with until `previousSecretExpiresAt`; null outside a rotation. */
+  previousSigningSecret?: string | null;
+  previousSecretExpiresAt?: Date | null;
+}
+
+export interface SyndicationWebhookResult {
+  ok: boolean;
+  /** HTTP status, or null when the request never got a response. */
+  status: number | null;
+  /** Why it failed (HTTP status line or network error); null on success. */
+  error: string | null;
+  durationMs: number;
+}
+
+/** Receivers get this long to answer before the attempt counts as failed. */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * POST one signed webhook. Never throws — the outcome is returned so every
+ * caller can log it; the dispatcher then decides whether a failure retries.
+ * `headers` carries the per-kind extras (event id/version, delivery id).
+ */
+export async function postSyndicationWebhook(
+  target: SyndicationWebhookTarget,
+  body: string,
+  headers: Record<string, string>,
+  now: Date = new Date()
+): Promise<SyndicationWebhookResult> {
+  const started = Date.now();
+  try {
+    const signed: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...headers,
+      [SYNDICATION_SIGNATURE_HEADER]: `sha256=${await hmacSha256Hex(target.signingSecret, body)}`,
+    };
+    if (
+      target.previousSigningSecret &&
+      target.previousSecretExpiresAt &&
+      target.previousSecretExpiresAt.getTime() > now.getTime()
+    ) {
+      signed[SYNDICATION_PREVIOUS_SIGNATURE_HEADER] =
+        `sha256=${await hmacSha256Hex(target.previousSigningSecret, body)}`;
+    }
+    const res = await fetch(target.callbackUrl, {
+      method: "POST",
+      headers: signed,
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    return {
+      ok: res.ok,
+      status: res.status,
+      error: res.ok ? null : `HTTP ${res.status}`,
+      durationMs: Date.now() - started,
+    };
+  } catch (e) {
+    return {
+      ok: false,
+      status: null,
+      error: e instanceof Error ? e.message : String(e),
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+/**
+ * One query subscription. Every non-null criterion must hold (AND); a query
+ * with none set is refused at creation, so it never means "everything". The
+ * radius needs all three of latitude/longitude/radiusMiles.
+ */
+export interface SyndicationEventQuery {
+  stateCode: string | null;
+  category: string | null;
+  promoterId: string | null;
+  seriesId: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  radiusMiles: number | null;
+}
+
+/** The event fields a query can test. Coordinates are the venue's. */
+export interface SyndicationQueryTarget {
+  /**
+   * Publicly visible (editorial status + lifecycle). Queries only ever match
+   * public events: a partner subscribed to "everything in Maine" must not be
+   * pushed a PENDING submission. Explicit id subscriptions are an admin's
+   * call and aren't gated.
+   */
+  isPublic: boolean;
+  stateCode: string | null;
+  /** events.categories, still JSON-encoded or already parsed. */
+  categories: string | readonly string[] | null;
+  promoterId: string | null;
+  seriesId: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/** Great-circle distance in miles. */
+export function milesBetween(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(lat2 - lat1);
+  const dLon = rad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function parseCategories(raw: SyndicationQueryTarget["categories"]): string[] {
+  if (!raw) return [];
+  if (typeof raw !== "string") return [...raw];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Does `event` satisfy every criterion `query` sets? */
+export function eventMatchesSyndicationQuery(
+  query: SyndicationEventQuery,
+  event: SyndicationQueryTarget
+): boolean {
+  if (!event.isPublic) return false;
+  if (query.stateCode && event.stateCode?.toUpperCase() !== query.stateCode.toUpperCase()) {
+    return false;
+  }
+  if (query.category) {
+    const wanted = query.category.toLowerCase();
+    if (!parseCategories(event.categories).some((c) => c.toLowerCase() === wanted)) return false;
+  }
+  if (query.promoterId && event.promoterId !== query.promoterId) return false;
+  if (query.seriesId && event.seriesId !== query.seriesId) return false;
+  if (query.latitude !== null && query.longitude !== null && query.radiusMiles !== null) {
+    // An event without venue coordinates can't be shown to be inside.
+    if (event.latitude === null || event.longitude === null) return false;
+    const miles = milesBetween(query.latitude, query.longitude, event.latitude, event.longitude);
+    if (miles > query.radiusMiles) return false;
+  }
+  return true;
+}
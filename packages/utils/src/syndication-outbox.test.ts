@@ -19,6 +19,13 @@ describe("mirroredFieldsChanged", () => {
     expect(mirroredFieldsChanged("event", [])).toBe(false);
   });
 
+  it("fires for a field a query subscription tests, so an un-match is delivered", () => {
+    expect(mirroredFieldsChanged("event", ["status"])).toBe(true);
+    expect(mirroredFieldsChanged("event", ["lifecycleStatus"])).toBe(true);
+    expect(mirroredFieldsChanged("event", ["seriesId", "description"])).toBe(true);
+    expect(mirroredFieldsChanged("venue", ["latitude"])).toBe(true);
+  });
+
   it("fires for a mirrored venue field, not for others", () => {
     expect(mirroredFieldsChanged("venue", ["city"])).toBe(true);
     expect(mirroredFieldsChanged("venue", ["contactPhone", "website"])).toBe(false);
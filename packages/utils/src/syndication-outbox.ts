@@ -44,8 +44,34 @@ export const MIRRORED_VENUE_FIELDS = ["name", "address", "city", "state", "zip"]
  */
 export const MIRRORED_EVENT_DAY_FIELDS = ["date", "vendorOnly"] as const;
 
-const MIRRORED_EVENT_SET: ReadonlySet<string> = new Set(MIRRORED_EVENT_FIELDS);
-const MIRRORED_VENUE_SET: ReadonlySet<string> = new Set(MIRRORED_VENUE_FIELDS);
+/**
+ * SYN3 — event fields a query subscription tests (see
+ * `eventMatchesSyndicationQuery`). Not part of the snapshot, but a change can
+ * move the event into or out of a partner's query — a cancel, an unpublish, a
+ * new state or series — so it passes the gate and the dispatcher re-evaluates
+ * who should hear about it.
+ */
+export const QUERY_EVENT_FIELDS = [
+  "status",
+  "lifecycleStatus",
+  "stateCode",
+  "categories",
+  "promoterId",
+  "seriesId",
+  "venueId",
+] as const;
+
+/** SYN3 — venue fields a radius query tests. */
+export const QUERY_VENUE_FIELDS = ["latitude", "longitude"] as const;
+
+const MIRRORED_EVENT_SET: ReadonlySet<string> = new Set([
+  ...MIRRORED_EVENT_FIELDS,
+  ...QUERY_EVENT_FIELDS,
+]);
+const MIRRORED_VENUE_SET: ReadonlySet<string> = new Set([
+  ...MIRRORED_VENUE_FIELDS,
+  ...QUERY_VENUE_FIELDS,
+]);
 const MIRRORED_EVENT_DAY_SET: ReadonlySet<string> = new Set(MIRRORED_EVENT_DAY_FIELDS);
 
 function mirroredSetFor(entityType: SyndicationEntityType): ReadonlySet<string> {
@@ -57,7 +83,8 @@ function mirroredSetFor(entityType: SyndicationEntityType): ReadonlySet<string>
 /**
  * The gate: does this set of changed field names warrant a syndication event?
  *
- * - `event` / `venue`: true iff at least one changed field is mirrored.
+ * - `event` / `venue`: true iff at least one changed field is mirrored or
+ *   tested by a query subscription (`QUERY_EVENT_FIELDS` / `QUERY_VENUE_FIELDS`).
  * - `event_day`: always true — day edits alter the parent event's public dates,
  *   which are mirrored. (The caller decides the day actually changed.)
  *
@@ -14,11 +14,28 @@ import {
   eventUpdateSchema,
   eventDaySchema,
   promoterEventCreateSchema,
+  recurrenceRuleSchema,
+  recurrenceExdatesSchema,
   eventVendorCreateSchema,
   eventVendorAddSchema,
   eventVendorUpdateSchema,
   userUpdateSchema,
   validateRequestBody,
+  applicationFormSchema,
+  buildApplicationAnswersSchema,
+  parseStoredApplicationAnswers,
+  boothCapacitySchema,
+  scraperDefinitionSchema,
+  scraperSourceCreateSchema,
+  searchIndexRebuildSchema,
+  syndicationSubscriberCreateSchema,
+  syndicationSubscriberUpdateSchema,
+  syndicationQuerySchema,
+  savedSearchParamsSchema,
+  savedSearchCreateSchema,
+  savedSearchUpdateSchema,
+  notificationPreferencesUpdateSchema,
+  eventReviewSchema,
 } from "./index";
 import { z } from "zod";
 
@@ -662,6 +679,40 @@ describe("eventUpdateSchema", () => {
   });
 });
 
+describe("recurrenceRuleSchema / recurrenceExdatesSchema", () => {
+  it("stores a valid rule in its canonical spelling and clears on empty", () => {
+    expect(recurrenceRuleSchema.parse("rrule:byday=2sa;freq=monthly;interval=1")).toBe(
+      "FREQ=MONTHLY;BYDAY=2SA"
+    );
+    expect(recurrenceRuleSchema.parse("  ")).toBeNull();
+  });
+
+  it("rejects a rule with the parser's reason", () => {
+    const result = recurrenceRuleSchema.safeParse("FREQ=WEEKLY;BYDAY=2SA");
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.issues[0].message).toMatch(/MONTHLY or FREQ=YEARLY/);
+  });
+
+  it("dedupes and sorts exception dates, rejecting impossible ones", () => {
+    expect(recurrenceExdatesSchema.parse(["2026-07-11", "2026-05-09", "2026-07-11"])).toEqual([
+      "2026-05-09",
+      "2026-07-11",
+    ]);
+    expect(recurrenceExdatesSchema.safeParse(["2026-02-30"]).success).toBe(false);
+  });
+
+  it("threads both through the event schemas", () => {
+    const result = eventUpdateSchema.safeParse({
+      recurrenceRule: "FREQ=YEARLY;BYMONTH=11;BYDAY=4TH",
+      recurrenceExdates: ["2027-11-25"],
+    });
+    expect(result.success && result.data).toMatchObject({
+      recurrenceRule: "FREQ=YEARLY;BYMONTH=11;BYDAY=4TH",
+      recurrenceExdates: ["2027-11-25"],
+    });
+  });
+});
+
 describe("eventVendorCreateSchema", () => {
   const validEventVendor = {
     eventId: "550e8400-e29b-41d4-a716-446655440000",
@@ -766,6 +817,88 @@ describe("eventVendorUpdateSchema", () => {
   });
 });
 
+describe("applicationFormSchema", () => {
+  it("requires options on select fields and forbids them elsewhere", () => {
+    expect(
+      applicationFormSchema.safeParse({ fields: [{ id: "size", type: "select", label: "Size" }] })
+        .success
+    ).toBe(false);
+    expect(
+      applicationFormSchema.safeParse({
+        fields: [{ id: "power", type: "checkbox", label: "Power", options: ["yes"] }],
+      }).success
+    ).toBe(false);
+  });
+
+  it("rejects duplicate field ids and unsafe ids", () => {
+    const field = { id: "size", type: "text", label: "Size" };
+    expect(applicationFormSchema.safeParse({ fields: [field, field] }).success).toBe(false);
+    expect(
+      applicationFormSchema.safeParse({ fields: [{ ...field, id: "Booth Size" }] }).success
+    ).toBe(false);
+  });
+
+  it("defaults required to false", () => {
+    const r = applicationFormSchema.safeParse({ fields: [{ id: "a", type: "text", label: "A" }] });
+    expect(r.success && r.data.fields[0].required).toBe(false);
+  });
+});
+
+describe("buildApplicationAnswersSchema", () => {
+  const form = applicationFormSchema.parse({
+    fields: [
+      { id: "rules", type: "checkbox", label: "I accept the rules", required: true },
+      { id: "notes", type: "textarea", label: "Anything else?" },
+    ],
+  });
+  const schema = buildApplicationAnswersSchema(form);
+
+  it("treats a required checkbox as an acknowledgement", () => {
+    expect(schema.safeParse({ rules: false }).success).toBe(false);
+    expect(schema.safeParse({ rules: true }).success).toBe(true);
+  });
+
+  it("outputs a labelled snapshot and treats empty strings as unanswered", () => {
+    expect(schema.parse({ rules: true, notes: "" })).toEqual([
+      { id: "rules", label: "I accept the rules", type: "checkbox", value: true },
+    ]);
+  });
+});
+
+describe("parseStoredApplicationAnswers", () => {
+  it("reads null or malformed JSON as no answers and drops malformed entries", () => {
+    expect(parseStoredApplicationAnswers(null)).toEqual([]);
+    expect(parseStoredApplicationAnswers("{not json")).toEqual([]);
+    expect(
+      parseStoredApplicationAnswers(
+        JSON.stringify([
+          { id: "a", label: "A", type: "text", value: "x" },
+          { id: "b", label: "B", type: "bogus", value: "y" },
+          null,
+        ])
+      )
+    ).toEqual([{ id: "a", label: "A", type: "text", value: "x" }]);
+  });
+});
+
+describe("boothCapacitySchema", () => {
+  it("defaults the offer window to 48 hours", () => {
+    const r = boothCapacitySchema.safeParse({ capacity: 40 });
+    expect(r.success).toBe(true);
+    if (r.success) expect(r.data).toEqual({ capacity: 40, offerHours: 48 });
+  });
+
+  it("accepts capacity = null (turning promotion off)", () => {
+    expect(boothCapacitySchema.safeParse({ capacity: null }).success).toBe(true);
+  });
+
+  it("rejects a zero or fractional capacity and an offer window over two weeks", () => {
+    expect(boothCapacitySchema.safeParse({ capacity: 0 }).success).toBe(false);
+    expect(boothCapacitySchema.safeParse({ capacity: 2.5 }).success).toBe(false);
+    expect(boothCapacitySchema.safeParse({ capacity: 10, offerHours: 337 }).success).toBe(false);
+  });
+});
+
 describe("userUpdateSchema", () => {
   it("validates valid user update", () => {
     const result = userUpdateSchema.safeParse({
@@ -1032,3 +1165,263 @@ describe("vendorProfileUpdateSchema — EH1 self-edit perimeter", () => {
     );
   });
 });
+
+describe("scraperDefinitionSchema", () => {
+  const minimal = {
+    listUrl: "https://fairs.example.org/events",
+    itemSelector: ".event",
+    fields: { name: ".title" },
+  };
+
+  it("fills format, pagination, date hint and defaults", () => {
+    const r = scraperDefinitionSchema.safeParse(minimal);
+    expect(r.success).toBe(true);
+    if (r.success) {
+      expect(r.data.format).toBe("html");
+      expect(r.data.pagination).toEqual({ type: "none" });
+      expect(r.data.dateFormat).toBe("month-day");
+      expect(r.data.defaults).toEqual({});
+    }
+  });
+
+  it("defaults maxPages on paginated definitions", () => {
+    const r = scraperDefinitionSchema.safeParse({
+      ...minimal,
+      pagination: { type: "page-param", param: "page" },
+    });
+    expect(r.success).toBe(true);
+    if (r.success)
+      expect(r.data.pagination).toEqual({
+        type: "page-param",
+        param: "page",
+        start: 1,
+        maxPages: 5,
+      });
+  });
+
+  it("accepts fallback selector arrays", () => {
+    const r = scraperDefinitionSchema.safeParse({
+      ...minimal,
+      fields: { name: ".title", imageUrl: ["img@data-src", "img@src"] },
+    });
+    expect(r.success).toBe(true);
+  });
+
+  it("rejects unknown fields, non-http list URLs and runaway pagination", () => {
+    expect(
+      scraperDefinitionSchema.safeParse({ ...minimal, fields: { name: ".t", price: ".p" } }).success
+    ).toBe(false);
+    expect(
+      scraperDefinitionSchema.safeParse({ ...minimal, listUrl: "ftp://fairs.example.org" }).success
+    ).toBe(false);
+    expect(
+      scraperDefinitionSchema.safeParse({
+        ...minimal,
+        pagination: { type: "next-link", selector: "a.next", maxPages: 100 },
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("scraperSourceCreateSchema", () => {
+  const definition = {
+    listUrl: "https://fairs.example.org/events",
+    itemSelector: ".event",
+    fields: { name: ".title" },
+  };
+
+  it("accepts a hostname-style key", () => {
+    const r = scraperSourceCreateSchema.safeParse({
+      key: "fairs.example.org",
+      label: "Example Fairs",
+      definition,
+    });
+    expect(r.success).toBe(true);
+    if (r.success) expect(r.data.enabled).toBe(true);
+  });
+
+  it("rejects keys with uppercase, spaces or slashes", () => {
+    for (const key of ["Fairs.org", "my fairs", "fairs.org/events"]) {
+      expect(scraperSourceCreateSchema.safeParse({ key, label: "X", definition }).success).toBe(
+        false
+      );
+    }
+  });
+});
+
+describe("searchIndexRebuildSchema", () => {
+  it("accepts an empty body (rebuild everything) or a list of sections", () => {
+    expect(searchIndexRebuildSchema.safeParse({}).success).toBe(true);
+    expect(searchIndexRebuildSchema.safeParse({ entities: ["event", "blog"] }).success).toBe(true);
+  });
+
+  it("rejects unknown sections and an empty list", () => {
+    expect(searchIndexRebuildSchema.safeParse({ entities: ["users"] }).success).toBe(false);
+    expect(searchIndexRebuildSchema.safeParse({ entities: [] }).success).toBe(false);
+  });
+});
+
+describe("syndicationSubscriberCreateSchema", () => {
+  it("accepts a public https callback", () => {
+    const r = syndicationSubscriberCreateSchema.safeParse({
+      name: "  Sun Journal ",
+      callbackUrl: "https://hooks.sunjournal.com/fairs",
+    });
+    expect(r.success).toBe(true);
+    if (r.success) expect(r.data.name).toBe("Sun Journal");
+  });
+
+  it.each([
+    "http://hooks.example.com/fairs",
+    "https://localhost/hook",
+    "https://api.internal/hook",
+    "https://127.0.0.1/hook",
+    "https://10.1.2.3/hook",
+    "https://172.20.0.1/hook",
+    "https://192.168.1.1/hook",
+    "https://169.254.169.254/latest",
+    "https://[::1]/hook",
+    "not a url",
+  ])("rejects %s", (callbackUrl) => {
+    expect(syndicationSubscriberCreateSchema.safeParse({ name: "X", callbackUrl }).success).toBe(
+      false
+    );
+  });
+
+  it("update accepts a lone active flag", () => {
+    expect(syndicationSubscriberUpdateSchema.safeParse({ active: false }).success).toBe(true);
+  });
+});
+
+describe("syndicationQuerySchema", () => {
+  it("uppercases the state code", () => {
+    const r = syndicationQuerySchema.safeParse({ stateCode: "me" });
+    expect(r.success).toBe(true);
+    if (r.success) expect(r.data.stateCode).toBe("ME");
+  });
+
+  it("accepts a complete radius", () => {
+    expect(
+      syndicationQuerySchema.safeParse({ latitude: 44.1, longitude: -70.2, radiusMiles: 30 })
+        .success
+    ).toBe(true);
+  });
+
+  it("rejects an empty query", () => {
+    expect(syndicationQuerySchema.safeParse({}).success).toBe(false);
+  });
+
+  it("rejects a partial radius", () => {
+    expect(syndicationQuerySchema.safeParse({ stateCode: "ME", radiusMiles: 30 }).success).toBe(
+      false
+    );
+    expect(syndicationQuerySchema.safeParse({ latitude: 44.1, longitude: -70.2 }).success).toBe(
+      false
+    );
+  });
+
+  it("caps the radius", () => {
+    expect(
+      syndicationQuerySchema.safeParse({ latitude: 44.1, longitude: -70.2, radiusMiles: 500 })
+        .success
+    ).toBe(false);
+  });
+});
+
+describe("savedSearchParamsSchema", () => {
+  it("accepts listing filters and uppercases the state", () => {
+    const r = savedSearchParamsSchema.safeParse({
+      category: "Craft Fair",
+      state: "nh",
+      facet: "lakes-region",
+      excludeFarmersMarkets: "true",
+    });
+    expect(r.success).toBe(true);
+    if (r.success) expect(r.data.state).toBe("NH");
+  });
+
+  it("rejects a facet without a state", () => {
+    expect(savedSearchParamsSchema.safeParse({ facet: "august" }).success).toBe(false);
+  });
+
+  it("rejects values the listing never produces", () => {
+    expect(savedSearchParamsSchema.safeParse({ featured: "false" }).success).toBe(false);
+    expect(savedSearchParamsSchema.safeParse({ scale: "HUGE" }).success).toBe(false);
+    expect(savedSearchParamsSchema.safeParse({ state: "NH", facet: "../x" }).success).toBe(false);
+  });
+
+  it("keeps a radius search as its centre, with the ZIP as a label", () => {
+    expect(
+      savedSearchParamsSchema.safeParse({ near: "43.661,-70.255", zip: "04101", radius: "50" })
+        .success
+    ).toBe(true);
+    expect(savedSearchParamsSchema.safeParse({ zip: "04101", radius: "50" }).success).toBe(false);
+    expect(savedSearchParamsSchema.safeParse({ near: "143.661,-70.255" }).success).toBe(false);
+    expect(savedSearchParamsSchema.safeParse({ near: "43.661,-70.255", radius: "0" }).success).toBe(
+      false
+    );
+  });
+});
+
+describe("savedSearchCreateSchema", () => {
+  it("defaults to a weekly email digest", () => {
+    const r = savedSearchCreateSchema.safeParse({ params: { state: "ME" } });
+    expect(r.success).toBe(true);
+    if (r.success) {
+      expect(r.data.frequency).toBe("WEEKLY");
+      expect(r.data.emailEnabled).toBe(true);
+    }
+  });
+});
+
+describe("savedSearchUpdateSchema", () => {
+  it("accepts a partial update", () => {
+    expect(savedSearchUpdateSchema.safeParse({ emailEnabled: false }).success).toBe(true);
+  });
+
+  it("rejects an empty update", () => {
+    expect(savedSearchUpdateSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("notificationPreferencesUpdateSchema", () => {
+  it("accepts a list of per-type channel choices", () => {
+    expect(
+      notificationPreferencesUpdateSchema.safeParse({
+        preferences: [{ type: "application_update", email: false, inApp: true }],
+      }).success
+    ).toBe(true);
+  });
+
+  it("rejects malformed types and empty lists", () => {
+    expect(
+      notificationPreferencesUpdateSchema.safeParse({
+        preferences: [{ type: "Application Update", email: false, inApp: true }],
+      }).success
+    ).toBe(false);
+    expect(notificationPreferencesUpdateSchema.safeParse({ preferences: [] }).success).toBe(false);
+  });
+});
+
+describe("eventReviewSchema", () => {
+  const ratings = { attendance: 4, sales: 3, organization: 5, loadIn: 2 };
+
+  it("accepts whole-star ratings with optional text", () => {
+    expect(eventReviewSchema.safeParse({ eventId: "e1", ratings }).success).toBe(true);
+    const r = eventReviewSchema.safeParse({ eventId: "e1", ratings, body: "  Busy gate.  " });
+    expect(r.success && r.data.body).toBe("Busy gate.");
+  });
+
+  it("rejects missing, fractional and out-of-range ratings", () => {
+    expect(
+      eventReviewSchema.safeParse({ eventId: "e1", ratings: { ...ratings, loadIn: undefined } })
+        .success
+    ).toBe(false);
+    expect(
+      eventReviewSchema.safeParse({ eventId: "e1", ratings: { ...ratings, sales: 3.5 } }).success
+    ).toBe(false);
+    expect(
+      eventReviewSchema.safeParse({ eventId: "e1", ratings: { ...ratings, attendance: 6 } }).success
+    ).toBe(false);
+  });
+});
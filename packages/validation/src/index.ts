@@ -16,7 +16,15 @@ import {
   INDOOR_OUTDOOR,
   EVENT_SCALE,
 } from "@takemetothefair/constants";
-import { sanitizeProse, decodeHtmlEntities, coerceVenueNameAtIngest } from "@takemetothefair/utils";
+import {
+  sanitizeProse,
+  decodeHtmlEntities,
+  coerceVenueNameAtIngest,
+  parseRRule,
+  formatRRule,
+  parseNearParam,
+  NEAR_MAX_RADIUS_MILES,
+} from "@takemetothefair/utils";
 import { parseDateOnly } from "@takemetothefair/datetime";
 
 /** Length and format limits used across input validators. App-only
@@ -122,6 +130,50 @@ export const venueCreateSchema = _venueCreateBaseSchema.transform((v) => {
 // editing an existing venue should not be second-guessed about its name.
 export const venueUpdateSchema = _venueCreateBaseSchema.partial();
 
+// Google Places option keys the venue page knows how to label. Owners tick the
+// same keys the Places backfill writes, so `venues.accessibility` and
+// `venues.parking` keep one JSON shape whoever wrote them last.
+export const VENUE_ACCESSIBILITY_OPTIONS = [
+  "wheelchairAccessibleParking",
+  "wheelchairAccessibleEntrance",
+  "wheelchairAccessibleRestroom",
+  "wheelchairAccessibleSeating",
+] as const;
+export const VENUE_PARKING_OPTIONS = [
+  "freeParkingLot",
+  "paidParkingLot",
+  "freeStreetParking",
+  "paidStreetParking",
+  "valetParking",
+  "freeGarageParking",
+  "paidGarageParking",
+] as const;
+
+// What a venue owner may change from the /venue portal (drizzle/0240). Name,
+// address and coordinates stay with admins, and the google* columns belong to
+// the Places backfill — they aren't in this object, so a client that sends
+// them has them stripped rather than written. Hours are one line per day, the
+// `weekdayDescriptions` half of Google's regularOpeningHours.
+export const venueOwnerUpdateSchema = _venueCreateBaseSchema
+  .pick({
+    capacity: true,
+    contactEmail: true,
+    contactPhone: true,
+    website: true,
+    description: true,
+    imageUrl: true,
+  })
+  .extend({
+    amenities: z.array(z.string().trim().min(1).max(100)).max(50),
+    openingHours: z
+      .array(z.string().trim().min(1).max(200).transform(sanitizeProse))
+      .max(14)
+      .nullable(),
+    accessibility: z.partialRecord(z.enum(VENUE_ACCESSIBILITY_OPTIONS), z.boolean()).nullable(),
+    parking: z.partialRecord(z.enum(VENUE_PARKING_OPTIONS), z.boolean()).nullable(),
+  })
+  .partial();
+
 // Promoter schemas
 export const promoterCreateSchema = z.object({
   userId: z.string().uuid().optional().nullable(),
@@ -306,6 +358,34 @@ export const eventDaySchema = z.object({
   vendorOnly: z.boolean().optional().default(false),
 });
 
+// Recurrence (drizzle/0234). The rule is parsed here so a promoter typing
+// "BYDAY=2SA" under FREQ=WEEKLY hears why it's wrong at save time instead of
+// getting a schedule that silently means something else; a valid rule is
+// stored in its canonical spelling (formatRRule). "" clears it.
+export const recurrenceRuleSchema = z
+  .string()
+  .max(500)
+  .transform((value, ctx) => {
+    if (!value.trim()) return null;
+    const parsed = parseRRule(value);
+    if (!parsed.ok) {
+      ctx.addIssue({ code: "custom", message: parsed.error });
+      return z.NEVER;
+    }
+    return formatRRule(parsed.rule);
+  });
+
+// EXDATE days, deduped and sorted so the stored JSON is stable across saves.
+export const recurrenceExdatesSchema = z
+  .array(
+    z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format")
+      .refine((s) => parseDateOnly(s) !== null, "Invalid calendar date (e.g. Feb 30, month 13)")
+  )
+  .max(366, "Maximum 366 exception dates")
+  .transform((dates) => [...new Set(dates)].sort());
+
 // Event schemas - base fields
 const eventBaseSchema = z.object({
   name: nameSchema,
@@ -318,7 +398,8 @@ const eventBaseSchema = z.object({
   endDate: z.string().datetime().optional().nullable(),
   datesConfirmed: z.boolean().optional().default(true),
   discontinuousDates: z.boolean().optional().default(false),
-  recurrenceRule: z.string().optional().nullable(),
+  recurrenceRule: recurrenceRuleSchema.optional().nullable(),
+  recurrenceExdates: recurrenceExdatesSchema.optional(),
   categories: z.array(z.string()).optional().default([]),
   tags: z.array(z.string()).optional().default([]),
   ticketUrl: urlSchema,
@@ -542,6 +623,483 @@ export const eventVendorUpdateSchema = z.object({
   eventDayId: z.string().uuid().optional().nullable(),
 });
 
+// Promoter application board bulk update (/api/promoter/events/[id]/applications).
+// One change applied to every listed application; at least one field required.
+// `promoterNotes` is the promoter's private note (drizzle/0226).
+export const promoterApplicationUpdateSchema = z
+  .object({
+    eventVendorIds: z.array(z.string().uuid()).min(1).max(200),
+    status: eventVendorStatusEnum.optional(),
+    paymentStatus: paymentStatusEnum.optional(),
+    boothInfo: z.string().trim().max(500).optional().nullable(),
+    promoterNotes: z.string().trim().max(2000).optional().nullable(),
+  })
+  .refine(
+    (d) =>
+      d.status !== undefined ||
+      d.paymentStatus !== undefined ||
+      d.boothInfo !== undefined ||
+      d.promoterNotes !== undefined,
+    { message: "Provide at least one field to update" }
+  );
+
+// ── Per-event vendor application forms (drizzle/0227) ───────────
+//
+// A promoter defines the form; a vendor's answers are validated against the
+// form AS IT STOOD when they applied and stored as a labelled snapshot, so a
+// later edit to the form never orphans or relabels an answer already given.
+
+export const APPLICATION_FIELD_TYPES = [
+  "text",
+  "textarea",
+  "select",
+  "multiselect",
+  "checkbox",
+  "file",
+] as const;
+export type ApplicationFieldType = (typeof APPLICATION_FIELD_TYPES)[number];
+
+/** Vendor profile columns a field may pre-fill from. */
+export const APPLICATION_PREFILL_SOURCES = ["insuranceInfo", "licenseInfo", "products"] as const;
+export type ApplicationPrefillSource = (typeof APPLICATION_PREFILL_SOURCES)[number];
+
+const OPTION_TYPES = new Set<ApplicationFieldType>(["select", "multiselect"]);
+
+export const applicationFormFieldSchema = z
+  .object({
+    // Stable key the answers are stored under. Lowercase snake_case so it is
+    // safe as a CSV header suffix and a JSON key.
+    id: z.string().regex(/^[a-z][a-z0-9_]{0,39}$/, "Use lowercase letters, digits and _"),
+    type: z.enum(APPLICATION_FIELD_TYPES),
+    label: z.string().trim().min(1).max(200),
+    help: z.string().trim().max(500).optional(),
+    required: z.boolean().default(false),
+    options: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+    prefill: z.enum(APPLICATION_PREFILL_SOURCES).optional(),
+  })
+  .superRefine((field, ctx) => {
+    const needsOptions = OPTION_TYPES.has(field.type);
+    if (needsOptions && (!field.options || field.options.length === 0)) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: "Add at least one option" });
+    }
+    if (!needsOptions && field.options && field.options.length > 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["options"],
+        message: `A ${field.type} field has no options`,
+      });
+    }
+    if (field.options && new Set(field.options).size !== field.options.length) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: "Options must be unique" });
+    }
+  });
+export type ApplicationFormField = z.infer<typeof applicationFormFieldSchema>;
+
+export const applicationFormSchema = z
+  .object({ fields: z.array(applicationFormFieldSchema).max(30) })
+  .refine((form) => new Set(form.fields.map((f) => f.id)).size === form.fields.length, {
+    message: "Field ids must be unique",
+    path: ["fields"],
+  });
+export type ApplicationForm = z.infer<typeof applicationFormSchema>;
+
+/** An uploaded file answer — `key` is the storage key, checked server-side. */
+export const applicationFileAnswerSchema = z.object({
+  key: z.string().min(1).max(300),
+  name: z.string().trim().min(1).max(200),
+});
+export type ApplicationFileAnswer = z.infer<typeof applicationFileAnswerSchema>;
+
+export type ApplicationAnswerValue = string | string[] | boolean | ApplicationFileAnswer;
+
+/** One stored answer: the value plus the label/type it was given under. */
+export interface ApplicationAnswer {
+  id: string;
+  label: string;
+  type: ApplicationFieldType;
+  value: ApplicationAnswerValue;
+}
+
+function answerSchemaFor(field: ApplicationFormField): z.ZodType<ApplicationAnswerValue> {
+  switch (field.type) {
+    case "text":
+    case "textarea": {
+      const max = field.type === "text" ? 500 : 5000;
+      const base = z.string().trim().max(max);
+      return field.required ? base.min(1, "Required") : base;
+    }
+    case "select": {
+      return z.enum(field.options as [string, ...string[]]);
+    }
+    case "multiselect": {
+      const base = z.array(z.enum(field.options as [string, ...string[]]));
+      return field.required ? base.min(1, "Choose at least one") : base;
+    }
+    case "checkbox":
+      // A required checkbox is an acknowledgement ("I agree to the rules").
+      return field.required ? z.literal(true, { message: "Required" }) : z.boolean();
+    case "file":
+      return applicationFileAnswerSchema;
+  }
+}
+
+/**
+ * Build the answers validator for one form. Unknown keys are stripped; an
+ * optional field may be omitted entirely (empty strings/arrays count as
+ * omitted). The output is the labelled snapshot that gets stored.
+ */
+export function buildApplicationAnswersSchema(form: ApplicationForm) {
+  const shape: Record<string, z.ZodType> = {};
+  for (const field of form.fields) {
+    const schema = answerSchemaFor(field);
+    shape[field.id] = field.required ? schema : schema.optional();
+  }
+  return z
+    .preprocess((raw) => {
+      if (!raw || typeof raw !== "object" || Array.isArray(raw)) return raw;
+      const cleaned: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(raw)) {
+        if (v === "" || v === null || (Array.isArray(v) && v.length === 0)) continue;
+        cleaned[k] = v;
+      }
+      return cleaned;
+    }, z.object(shape))
+    .transform((values): ApplicationAnswer[] =>
+      form.fields
+        .filter((f) => values[f.id] !== undefined)
+        .map((f) => ({
+          id: f.id,
+          label: f.label,
+          type: f.type,
+          value: values[f.id] as ApplicationAnswerValue,
+        }))
+    );
+}
+
+/**
+ * Read the stored `event_vendors.application_answers` JSON. Tolerant: a
+ * malformed blob or entry reads as "no answer" rather than failing the
+ * review screen it is rendered on.
+ */
+export function parseStoredApplicationAnswers(raw: string | null | undefined): ApplicationAnswer[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (a): a is ApplicationAnswer =>
+        !!a &&
+        typeof a === "object" &&
+        typeof (a as ApplicationAnswer).id === "string" &&
+        typeof (a as ApplicationAnswer).label === "string" &&
+        APPLICATION_FIELD_TYPES.includes((a as ApplicationAnswer).type) &&
+        (a as ApplicationAnswer).value !== undefined
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Booth capacity + waitlist promotion (drizzle/0228). `capacity: null` turns
+// automatic promotion off for the event. `offerHours` is how long a waitlisted
+// vendor has to answer a booth offer before it cascades to the next one.
+export const boothCapacitySchema = z.object({
+  capacity: z.number().int().min(1).max(10000).nullable(),
+  offerHours: z.number().int().min(1).max(336).default(48),
+});
+export type BoothCapacityInput = z.infer<typeof boothCapacitySchema>;
+
+// ── Declarative scraper definitions (drizzle/0229) ──────────────
+//
+// A source definition is run by src/lib/scrapers/declarative. Selectors are
+// CSS for `format: "html"` (with an optional `@attr` suffix to read an
+// attribute instead of the text) and dotted JSON paths for `format: "json"`.
+// A field may list fallbacks, tried in order until one yields a value.
+
+export const SCRAPER_DATE_FORMATS = ["month-day", "iso", "mdy"] as const;
+export type ScraperDateFormat = (typeof SCRAPER_DATE_FORMATS)[number];
+
+const scraperSelectorSchema = z.string().trim().min(1).max(300);
+const scraperFieldSchema = z.union([
+  scraperSelectorSchema,
+  z.array(scraperSelectorSchema).min(1).max(5),
+]);
+export type ScraperFieldSelector = z.infer<typeof scraperFieldSchema>;
+
+const httpUrlSchema = z
+  .string()
+  .url()
+  .max(VALIDATION.URL_MAX_LENGTH)
+  .refine((u) => /^https?:\/\//i.test(u), { message: "Must be an http(s) URL" });
+
+const maxPagesSchema = z.number().int().min(1).max(20).default(5);
+
+export const scraperPaginationSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("none") }),
+  // Follow the "next page" link found by `selector` (an `@href` is implied).
+  z.object({
+    type: z.literal("next-link"),
+    selector: scraperSelectorSchema,
+    maxPages: maxPagesSchema,
+  }),
+  // Set ?<param>=start, start+1, … until a page adds no new events.
+  z.object({
+    type: z.literal("page-param"),
+    param: z.string().regex(/^[A-Za-z0-9_-]{1,40}$/),
+    start: z.number().int().min(0).max(1000).default(1),
+    maxPages: maxPagesSchema,
+  }),
+]);
+export type ScraperPagination = z.infer<typeof scraperPaginationSchema>;
+
+export const scraperDefinitionSchema = z.object({
+  format: z.enum(["html", "json"]).default("html"),
+  listUrl: httpUrlSchema,
+  pagination: scraperPaginationSchema.default({ type: "none" }),
+  /** Selects one node (HTML) or array element (JSON) per event. */
+  itemSelector: scraperSelectorSchema,
+  /** Relative to each item. `date` may hold a whole range ("Aug 7-9"). */
+  fields: z
+    .object({
+      name: scraperFieldSchema,
+      date: scraperFieldSchema.optional(),
+      endDate: scraperFieldSchema.optional(),
+      hours: scraperFieldSchema.optional(),
+      url: scraperFieldSchema.optional(),
+      id: scraperFieldSchema.optional(),
+      description: scraperFieldSchema.optional(),
+      venue: scraperFieldSchema.optional(),
+      address: scraperFieldSchema.optional(),
+      city: scraperFieldSchema.optional(),
+      state: scraperFieldSchema.optional(),
+      imageUrl: scraperFieldSchema.optional(),
+      ticketUrl: scraperFieldSchema.optional(),
+    })
+    .strict(),
+  dateFormat: z.enum(SCRAPER_DATE_FORMATS).default("month-day"),
+  /** Filled in where the page leaves a field blank (a state-wide calendar). */
+  defaults: z
+    .object({
+      state: z
+        .string()
+        .regex(/^[A-Z]{2}$/, "Two-letter state code")
+        .optional(),
+      city: z.string().trim().min(1).max(100).optional(),
+    })
+    .strict()
+    .default({}),
+  /** Selectors run against each event's own page by the details scrape. */
+  detail: z
+    .object({
+      description: scraperFieldSchema.optional(),
+      imageUrl: scraperFieldSchema.optional(),
+      venue: scraperFieldSchema.optional(),
+      address: scraperFieldSchema.optional(),
+      city: scraperFieldSchema.optional(),
+      state: scraperFieldSchema.optional(),
+    })
+    .strict()
+    .optional(),
+});
+export type ScraperDefinition = z.infer<typeof scraperDefinitionSchema>;
+
+// `key` becomes events.source_name, so it is shaped like the built-in keys
+// ("mafa.org", "vtnhfairs.org-vt") and never changes once saved.
+export const scraperSourceCreateSchema = z.object({
+  key: z.string().regex(/^[a-z0-9][a-z0-9.-]{2,79}$/, "Lowercase letters, digits, dots and dashes"),
+  label: z.string().trim().min(1).max(200),
+  enabled: z.boolean().default(true),
+  definition: scraperDefinitionSchema,
+});
+
+export const scraperSourceUpdateSchema = scraperSourceCreateSchema.omit({ key: true }).partial();
+
+// POST /api/admin/search-index. Omit `entities` to rebuild every section.
+export const searchIndexRebuildSchema = z.object({
+  entities: z
+    .array(z.enum(["event", "venue", "vendor", "blog"]))
+    .min(1)
+    .optional(),
+});
+
+// SYN3 — partner syndication portal. Webhooks are POSTed from our Workers to
+// whatever a partner registers, so the callback must be public https: no
+// loopback, link-local, private-range or internal hostnames.
+function isPublicHttpsUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:") return false;
+  const host = url.hostname.toLowerCase();
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".local") ||
+    host.endsWith(".internal") ||
+    host.startsWith("[")
+  ) {
+    return false;
+  }
+  const ip = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ip) {
+    const [a, b] = [Number(ip[1]), Number(ip[2])];
+    if (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .max(VALIDATION.URL_MAX_LENGTH)
+  .refine(isPublicHttpsUrl, "Must be a public https:// URL");
+
+export const syndicationSubscriberCreateSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  callbackUrl: webhookUrlSchema,
+});
+
+export const syndicationSubscriberUpdateSchema = syndicationSubscriberCreateSchema
+  .partial()
+  .extend({ active: z.boolean().optional() });
+
+// Every criterion optional, at least one required (an empty query would mean
+// "every event"), and a radius only as a complete centre + distance.
+export const syndicationQuerySchema = z
+  .object({
+    stateCode: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{2}$/, "Two-letter state code")
+      .transform((v) => v.toUpperCase())
+      .nullish(),
+    category: z.string().trim().min(1).max(100).nullish(),
+    promoterId: z.string().min(1).nullish(),
+    seriesId: z.string().min(1).nullish(),
+    latitude: z.number().min(-90).max(90).nullish(),
+    longitude: z.number().min(-180).max(180).nullish(),
+    radiusMiles: z.number().positive().max(250).nullish(),
+  })
+  .refine(
+    (q) =>
+      [q.stateCode, q.category, q.promoterId, q.seriesId, q.radiusMiles].some((v) => v != null),
+    { message: "Set at least one of state, category, promoter, series or radius" }
+  )
+  .refine(
+    (q) =>
+      [q.latitude, q.longitude, q.radiusMiles].every((v) => v == null) ||
+      [q.latitude, q.longitude, q.radiusMiles].every((v) => v != null),
+    { message: "A radius needs latitude, longitude and radiusMiles", path: ["radiusMiles"] }
+  );
+
+// Saved searches (drizzle/0232). The /events filter keys the calendar feed
+// also takes, plus `facet` — a /events/{state}/{facet} slug, checked against
+// src/lib/events/facets by the route since it needs the state's facet table.
+// `includePast`/`when` are left out on purpose: an alert is about what's
+// coming up, and a "this weekend" window frozen at save time would never fire.
+// A radius search is kept as its resolved centre (`near`, "lat,lng") so the
+// digest can match without a ZIP lookup; `zip` rides along only to label it.
+const savedSearchFlag = z.enum(["true"]).optional();
+
+export const savedSearchParamsSchema = z
+  .object({
+    query: z.string().trim().min(1).max(200).optional(),
+    category: z.string().trim().min(1).max(100).optional(),
+    state: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{2}$/, "Two-letter state code")
+      .transform((v) => v.toUpperCase())
+      .optional(),
+    featured: savedSearchFlag,
+    commercialVendors: savedSearchFlag,
+    excludeFarmersMarkets: savedSearchFlag,
+    indoorOutdoor: z
+      .enum([INDOOR_OUTDOOR.INDOOR, INDOOR_OUTDOOR.OUTDOOR, INDOOR_OUTDOOR.MIXED])
+      .optional(),
+    scale: z
+      .enum([EVENT_SCALE.SMALL, EVENT_SCALE.MEDIUM, EVENT_SCALE.LARGE, EVENT_SCALE.MAJOR])
+      .optional(),
+    facet: z
+      .string()
+      .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Invalid facet")
+      .max(60)
+      .optional(),
+    near: z
+      .string()
+      .trim()
+      .max(40)
+      .refine((v) => parseNearParam(v) !== null, "Expected latitude,longitude")
+      .optional(),
+    zip: z
+      .string()
+      .regex(/^\d{5}$/, "Five-digit ZIP")
+      .optional(),
+    radius: z
+      .string()
+      .regex(/^\d{1,3}$/, "Whole miles")
+      .refine((v) => Number(v) >= 1 && Number(v) <= NEAR_MAX_RADIUS_MILES, "Radius out of range")
+      .optional(),
+  })
+  .refine((p) => !p.facet || p.state, { message: "A facet needs a state", path: ["facet"] })
+  .refine((p) => p.near || (!p.zip && !p.radius), {
+    message: "A radius needs a centre",
+    path: ["near"],
+  });
+
+export type SavedSearchParams = z.infer<typeof savedSearchParamsSchema>;
+
+export const savedSearchCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  params: savedSearchParamsSchema,
+  frequency: z.enum(["DAILY", "WEEKLY"]).default("WEEKLY"),
+  emailEnabled: z.boolean().default(true),
+});
+
+export const savedSearchUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    frequency: z.enum(["DAILY", "WEEKLY"]),
+    emailEnabled: z.boolean(),
+  })
+  .partial()
+  .refine((u) => Object.keys(u).length > 0, { message: "Nothing to update" });
+
+// Notification center. `type` is checked against the app's type registry
+// (src/lib/notifications/types.ts) by the route; here it only has to look
+// like a notifications.type value.
+export const notificationPreferencesUpdateSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        type: z
+          .string()
+          .regex(/^[a-z][a-z_]*$/, "Invalid notification type")
+          .max(50),
+        email: z.boolean(),
+        inApp: z.boolean(),
+      })
+    )
+    .min(1)
+    .max(20),
+});
+
+export const notificationUpdateSchema = z.object({
+  read: z.boolean(),
+});
+
 // User schemas
 export const userUpdateSchema = z.object({
   name: z.string().max(VALIDATION.NAME_MAX_LENGTH).optional().nullable(),
@@ -549,6 +1107,48 @@ export const userUpdateSchema = z.object({
   role: z.enum(["ADMIN", "PROMOTER", "VENDOR", "USER"]).optional(),
 });
 
+// Second factors (drizzle/0241). Binary WebAuthn fields travel base64url;
+// the server-side checks are in src/lib/auth/webauthn.ts.
+const base64UrlField = z
+  .string()
+  .max(8192)
+  .regex(/^[A-Za-z0-9_-]*$/, "Expected base64url");
+
+export const passkeyAssertionSchema = z.object({
+  id: base64UrlField.min(1),
+  response: z.object({
+    clientDataJSON: base64UrlField,
+    authenticatorData: base64UrlField,
+    signature: base64UrlField,
+    userHandle: base64UrlField.nullable().optional(),
+  }),
+});
+
+export const passkeyRegistrationSchema = z.object({
+  challengeId: z.string().uuid(),
+  name: z.string().trim().max(60).default(""),
+  credential: z.object({
+    id: base64UrlField.min(1),
+    transports: z.array(z.string().max(20)).max(8).optional(),
+    response: z.object({
+      clientDataJSON: base64UrlField,
+      authenticatorData: base64UrlField,
+      publicKey: base64UrlField,
+      publicKeyAlgorithm: z.number().int(),
+    }),
+  }),
+});
+
+/**
+ * Proof of a second factor, for /login/two-factor, step-up, and changes to
+ * the factors themselves: a typed code (authenticator or recovery) or a
+ * passkey assertion against a challenge from the options endpoint.
+ */
+export const secondFactorProofSchema = z.union([
+  z.object({ code: z.string().trim().min(6).max(32) }),
+  z.object({ challengeId: z.string().uuid(), credential: passkeyAssertionSchema }),
+]);
+
 // Vendor profile update (self-service)
 export const vendorProfileUpdateSchema = z.object({
   businessName: nameSchema.optional(),
@@ -627,6 +1227,8 @@ export const promoterEventCreateSchema = z
     startDate: z.string().datetime().optional().nullable(),
     endDate: z.string().datetime().optional().nullable(),
     discontinuousDates: z.boolean().optional().default(false),
+    recurrenceRule: recurrenceRuleSchema.optional().nullable(),
+    recurrenceExdates: recurrenceExdatesSchema.optional(),
     categories: z.array(z.string()).optional().default([]),
     tags: z.array(z.string()).optional().default([]),
     ticketUrl: urlSchema,
@@ -719,6 +1321,44 @@ export const userProfileUpdateSchema = z.object({
   name: z.string().max(VALIDATION.NAME_MAX_LENGTH).optional().nullable(),
 });
 
+// Vendor / promoter team management. Only the owner seat is outside these
+// enums — ownership moves through organizationTransferSchema, never an invite.
+export const organizationInviteSchema = z.object({
+  email: z.string().trim().email().max(VALIDATION.EMAIL_MAX_LENGTH),
+  role: z.enum(["EDITOR", "VIEWER"]),
+});
+
+export const organizationMemberUpdateSchema = z.object({
+  role: z.enum(["EDITOR", "VIEWER"]),
+});
+
+export const organizationTransferSchema = z.object({
+  userId: z.string().min(1),
+});
+
+// Vendor reviews of past events (src/lib/reviews/). Ratings are whole stars.
+const reviewRatingSchema = z.number().int().min(1).max(5);
+
+export const eventReviewSchema = z.object({
+  eventId: z.string().min(1),
+  ratings: z.object({
+    attendance: reviewRatingSchema,
+    sales: reviewRatingSchema,
+    organization: reviewRatingSchema,
+    loadIn: reviewRatingSchema,
+  }),
+  body: z.string().trim().max(2000).transform(sanitizeProse).optional().nullable(),
+});
+
+export const eventReviewReplySchema = z.object({
+  body: z.string().trim().min(1).max(2000).transform(sanitizeProse),
+});
+
+export const eventReviewReportSchema = z.object({
+  reason: z.enum(["SPAM", "ABUSIVE", "FALSE", "CONFLICT_OF_INTEREST", "OTHER"]),
+  details: z.string().trim().max(1000).optional().nullable(),
+});
+
 // Favorite toggle
 export const favoriteSchema = z.object({
   type: z.enum(["EVENT", "VENUE", "VENDOR", "PROMOTER"]),
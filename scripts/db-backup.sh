@@ -34,10 +34,27 @@ echo "Database: $DB_NAME"
 echo "Output: $BACKUP_FILE"
 echo ""
 
+# `wrangler d1 export` refuses a database with a virtual table in it, so the
+# FTS5 search index (drizzle/0230) is detached for the export and attached and
+# rebuilt afterwards — on failure too, via the trap.
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+
+attach_search_index() {
+    echo "Re-attaching and rebuilding search_index..."
+    npx wrangler d1 execute "$DB_NAME" $REMOTE_FLAG --file="$SCRIPT_DIR/search-index-attach.sql"
+}
+
+echo "Detaching search_index for the export..."
+npx wrangler d1 execute "$DB_NAME" $REMOTE_FLAG --file="$SCRIPT_DIR/search-index-detach.sql"
+trap attach_search_index EXIT
+
 # Export the database
 echo "Exporting database..."
 npx wrangler d1 export "$DB_NAME" $REMOTE_FLAG --output="$BACKUP_FILE"
 
+attach_search_index
+trap - EXIT
+
 # Check if backup was created
 if [ -f "$BACKUP_FILE" ]; then
     FILE_SIZE=$(ls -lh "$BACKUP_FILE" | awk '{print $5}')
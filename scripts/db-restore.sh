@@ -65,8 +65,15 @@ fi
 # For restore, we need to:
 # 1. Drop existing tables (to avoid conflicts)
 # 2. Execute the backup SQL
+# 3. Re-attach the FTS5 search index, which backups never contain (see
+#    db-backup.sh), and rebuild it from the restored search_documents
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
 
-echo "Step 1: Getting list of existing tables..."
+# Drop search_index through its own DROP first: its shadow tables
+# (search_index_data, _idx, …) show up in sqlite_master but can't be dropped
+# on their own.
+echo "Step 1: Detaching search_index, then getting list of existing tables..."
+npx wrangler d1 execute "$DB_NAME" $REMOTE_FLAG --file="$SCRIPT_DIR/search-index-detach.sql"
 
 # Get table names (excluding sqlite internal tables)
 if [ "$ENV" = "prod" ]; then
@@ -88,6 +95,10 @@ echo ""
 echo "Step 3: Restoring from backup..."
 npx wrangler d1 execute "$DB_NAME" $REMOTE_FLAG --file="$BACKUP_FILE"
 
+echo ""
+echo "Step 4: Re-attaching and rebuilding search_index..."
+npx wrangler d1 execute "$DB_NAME" $REMOTE_FLAG --file="$SCRIPT_DIR/search-index-attach.sql"
+
 echo ""
 echo "=================================="
 echo "Restore completed successfully!"
@@ -0,0 +1,36 @@
+-- Put the FTS5 search index back after search-index-detach.sql, or after
+-- restoring a backup (which never contains it), and rebuild it from
+-- search_documents. Safe to run when the index is already there.
+--
+-- The statements are drizzle/0230_search_index.sql's, with IF NOT EXISTS;
+-- src/lib/search/__tests__/search-index.test.ts checks they still match.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  title,
+  body,
+  place,
+  tags,
+  content = 'search_documents',
+  content_rowid = 'id',
+  tokenize = 'porter unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE TRIGGER IF NOT EXISTS search_documents_ai AFTER INSERT ON search_documents BEGIN
+  INSERT INTO search_index (rowid, title, body, place, tags)
+  VALUES (NEW.id, NEW.title, NEW.body, NEW.place, NEW.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_documents_ad AFTER DELETE ON search_documents BEGIN
+  INSERT INTO search_index (search_index, rowid, title, body, place, tags)
+  VALUES ('delete', OLD.id, OLD.title, OLD.body, OLD.place, OLD.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_documents_au AFTER UPDATE ON search_documents BEGIN
+  INSERT INTO search_index (search_index, rowid, title, body, place, tags)
+  VALUES ('delete', OLD.id, OLD.title, OLD.body, OLD.place, OLD.tags);
+  INSERT INTO search_index (rowid, title, body, place, tags)
+  VALUES (NEW.id, NEW.title, NEW.body, NEW.place, NEW.tags);
+END;
+
+INSERT INTO search_index (search_index) VALUES ('rebuild');
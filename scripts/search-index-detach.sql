@@ -0,0 +1,16 @@
+-- Take the FTS5 search index (drizzle/0230) out of the database for
+-- `wrangler d1 export`, which refuses to export a database containing a
+-- virtual table. Run by scripts/db-backup.sh before the export and by
+-- scripts/db-restore.sh before it drops the remaining tables;
+-- search-index-attach.sql puts it back.
+--
+-- Only the FTS table and the three search_documents triggers that feed it go.
+-- search_documents and the source-table triggers stay, so every write made
+-- while the index is detached still lands in search_documents, and the
+-- 'rebuild' in search-index-attach.sql catches the FTS table up from there.
+-- While detached, full-text search queries fail; keep the window short.
+
+DROP TRIGGER IF EXISTS search_documents_ai;
+DROP TRIGGER IF EXISTS search_documents_ad;
+DROP TRIGGER IF EXISTS search_documents_au;
+DROP TABLE IF EXISTS search_index;
@@ -50,6 +50,12 @@ describe("middleware singular → plural redirect (OPE-87)", () => {
     expect(res.headers.get("location")).toBeNull();
   });
 
+  it("does NOT redirect the promoter team page /promoter/members", async () => {
+    const res = await middleware(new NextRequest("https://meetmeatthefair.com/promoter/members"));
+    expect(res.status).not.toBe(301);
+    expect(res.headers.get("location")).toBeNull();
+  });
+
   // OPE-120 — performers have no singular portal, so every single-segment
   // /performer/<slug> 301s to the plural public page.
   it("301s /performer/<slug> to /performers/<slug>", async () => {
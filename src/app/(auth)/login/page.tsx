@@ -1,13 +1,16 @@
 "use client";
 
-import { Suspense, useState } from "react";
-import { signIn } from "next-auth/react";
+import { Suspense, useEffect, useState } from "react";
+import { getSession, signIn, useSession } from "next-auth/react";
+import { KeyRound } from "lucide-react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { trackLogin } from "@/lib/analytics";
+import { browserSupportsPasskeys, getPasskey } from "@/lib/auth/webauthn-client";
+import type { PasskeyRequestOptions } from "@/lib/auth/webauthn";
 
 function LoginForm() {
   const router = useRouter();
@@ -22,6 +25,21 @@ function LoginForm() {
       : ""
   );
   const [isLoading, setIsLoading] = useState(false);
+  const [passkeyAvailable, setPasskeyAvailable] = useState(false);
+  const { data: session } = useSession();
+  const twoFactorUrl = `/login/two-factor?callbackUrl=${encodeURIComponent(callbackUrl)}`;
+
+  // A sign-in waiting on its second factor (password or Google/Facebook for
+  // an enrolled account) lands here, since every page treats it as signed
+  // out. Finish it on /login/two-factor.
+  const pendingTwoFactor = session?.user?.twoFactor === "pending";
+  useEffect(() => {
+    if (pendingTwoFactor) router.replace(twoFactorUrl);
+  }, [pendingTwoFactor, router, twoFactorUrl]);
+
+  useEffect(() => {
+    setPasskeyAvailable(browserSupportsPasskeys());
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,7 +62,8 @@ function LoginForm() {
         // (intent, not completion) — see trackLogin docstring for the
         // accepted tradeoff vs. a NextAuth events.signIn callback.
         trackLogin("credentials");
-        router.push(callbackUrl);
+        const next = await getSession();
+        router.push(next?.user?.twoFactor === "pending" ? twoFactorUrl : callbackUrl);
         router.refresh();
       }
     } catch {
@@ -54,6 +73,37 @@ function LoginForm() {
     }
   };
 
+  const handlePasskeySignIn = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/auth/passkey/options", { method: "POST" });
+      if (!res.ok) throw new Error("options");
+      const options = (await res.json()) as PasskeyRequestOptions;
+      const credential = await getPasskey(options);
+      if (!credential) {
+        setError("The passkey wasn't used. Try again, or sign in with your password.");
+        return;
+      }
+      const result = await signIn("passkey", {
+        challengeId: options.challengeId,
+        credential: JSON.stringify(credential),
+        redirect: false,
+      });
+      if (result?.error) {
+        setError("That passkey isn't registered to an account here.");
+        return;
+      }
+      trackLogin("passkey");
+      router.push(callbackUrl);
+      router.refresh();
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleGoogleSignIn = () => {
     trackLogin("google");
     signIn("google", { callbackUrl });
@@ -113,6 +163,19 @@ function LoginForm() {
           </div>
 
           <div className="mt-4 space-y-3">
+            {passkeyAvailable && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handlePasskeySignIn}
+                disabled={isLoading}
+              >
+                <KeyRound className="w-5 h-5 mr-2" />
+                Sign in with a passkey
+              </Button>
+            )}
+
             <Button type="button" variant="outline" className="w-full" onClick={handleGoogleSignIn}>
               <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
                 <path
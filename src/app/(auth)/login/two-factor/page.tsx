@@ -0,0 +1,96 @@
+"use client";
+
+import { Suspense } from "react";
+import { signOut, useSession } from "next-auth/react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { SecondFactorPrompt, postProof } from "@/components/auth/second-factor-prompt";
+
+/**
+ * Second step of a sign-in for an account with 2FA (drizzle/0241). The
+ * session exists but is "pending" — the server treats it as signed out —
+ * until POST /api/auth/two-factor accepts a code or passkey and `update()`
+ * re-reads the session.
+ */
+function TwoFactorForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const callbackUrl = searchParams.get("callbackUrl") || "/";
+  const { data: session, status, update } = useSession();
+
+  if (status === "loading") {
+    return <div className="w-full max-w-md h-64 bg-muted rounded-xl animate-pulse" />;
+  }
+
+  if (session?.user?.twoFactor !== "pending") {
+    return (
+      <Card className="w-full max-w-md">
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">
+          {session ? (
+            <>
+              You&apos;re already signed in.{" "}
+              <Link href={callbackUrl} className="text-royal hover:text-navy font-medium">
+                Continue
+              </Link>
+            </>
+          ) : (
+            <>
+              Your sign-in expired.{" "}
+              <Link href="/login" className="text-royal hover:text-navy font-medium">
+                Sign in again
+              </Link>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <h1 className="text-2xl font-bold text-center text-foreground">
+          Two-factor authentication
+        </h1>
+        <p className="text-center text-muted-foreground mt-2">
+          Enter the code from your authenticator app, a recovery code, or use your passkey.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <SecondFactorPrompt
+          submit={async (proof) => {
+            const result = await postProof("/api/auth/two-factor", proof);
+            if (!result.ok) return result.error ?? "That code or passkey didn't match.";
+            await update();
+            router.push(callbackUrl);
+            router.refresh();
+            return null;
+          }}
+        />
+        <p className="mt-6 text-center text-sm text-muted-foreground">
+          Not you?{" "}
+          <button
+            type="button"
+            onClick={() => signOut({ callbackUrl: "/login" })}
+            className="text-royal hover:text-navy font-medium"
+          >
+            Sign in with a different account
+          </button>
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function TwoFactorPage() {
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center px-4 py-12">
+      <Suspense
+        fallback={<div className="w-full max-w-md h-64 bg-muted rounded-xl animate-pulse" />}
+      >
+        <TwoFactorForm />
+      </Suspense>
+    </div>
+  );
+}
@@ -1,10 +1,10 @@
 /**
  * OPE-65 — /admin/claims review queue.
  *
- * Lists every PENDING / DISPUTED vendor + promoter claim (VENUE has no claim
- * funnel yet and is filtered out in the core query) so an admin can approve or
- * reject each with one click. Approving transfers ownership + grants the role +
- * emails the claimant; rejecting records the reason in the audit payload + email.
+ * Lists every PENDING / DISPUTED vendor, promoter, performer and venue claim
+ * so an admin can approve or reject each with one click. Approving transfers
+ * ownership (+ grants the role, for vendors and promoters) + emails the
+ * claimant; rejecting records the reason in the audit payload + email.
  *
  * Server component. Admin auth is enforced by src/app/admin/layout.tsx — not
  * re-guarded here. Renders a clean empty state when there are zero claims (an
@@ -35,7 +35,16 @@ function statusBadgeClasses(status: string): string {
 
 function listingHref(entityType: string, slug: string | null): string | null {
   if (!slug) return null;
-  return entityType === "VENDOR" ? `/vendors/${slug}` : `/promoters/${slug}`;
+  switch (entityType) {
+    case "VENDOR":
+      return `/vendors/${slug}`;
+    case "PERFORMER":
+      return `/performers/${slug}`;
+    case "VENUE":
+      return `/venues/${slug}`;
+    default:
+      return `/promoters/${slug}`;
+  }
 }
 
 function bandClasses(band: string): string {
@@ -14,6 +14,7 @@ import {
   HardDrive,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useStepUp } from "@/components/auth/step-up-dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 interface TableStats {
@@ -39,6 +40,7 @@ export default function DatabaseManagementPage() {
   const [success, setSuccess] = useState("");
   const [restoreFile, setRestoreFile] = useState<File | null>(null);
   const [confirmRestore, setConfirmRestore] = useState("");
+  const { withStepUp, stepUpDialog } = useStepUp();
   const [showRestoreDialog, setShowRestoreDialog] = useState(false);
 
   useEffect(() => {
@@ -115,10 +117,12 @@ export default function DatabaseManagementPage() {
       formData.append("file", restoreFile);
       formData.append("confirm", confirmRestore);
 
-      const res = await fetch("/api/admin/database/restore", {
-        method: "POST",
-        body: formData,
-      });
+      const res = await withStepUp(() =>
+        fetch("/api/admin/database/restore", {
+          method: "POST",
+          body: formData,
+        })
+      );
 
       const data = (await res.json()) as {
         error?: string;
@@ -150,6 +154,7 @@ export default function DatabaseManagementPage() {
 
   return (
     <div>
+      {stepUpDialog}
       <div className="mb-6">
         <Link
           href="/admin"
@@ -5,6 +5,7 @@ import { AlertTriangle, ArrowRight, Check, GitMerge, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { useStepUp } from "@/components/auth/step-up-dialog";
 import type {
   DuplicateEntityType,
   DuplicatePair,
@@ -88,6 +89,7 @@ function datesMatch(date1: unknown, date2: unknown): boolean {
 }
 
 export default function AdminDuplicatesPage() {
+  const { withStepUp, stepUpDialog } = useStepUp();
   const [entityType, setEntityType] = useState<DuplicateEntityType>("venues");
   const [threshold, setThreshold] = useState(0.7);
   const [duplicates, setDuplicates] = useState<DuplicatePair[]>([]);
@@ -216,15 +218,17 @@ export default function AdminDuplicatesPage() {
     setMerging(true);
 
     try {
-      const res = await fetch("/api/admin/duplicates/merge", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          type: entityType,
-          primaryId,
-          duplicateId,
-        }),
-      });
+      const res = await withStepUp(() =>
+        fetch("/api/admin/duplicates/merge", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            type: entityType,
+            primaryId,
+            duplicateId,
+          }),
+        })
+      );
 
       // Handle 503 timeout from Cloudflare before trying to parse JSON
       if (res.status === 503) {
@@ -264,6 +268,7 @@ export default function AdminDuplicatesPage() {
 
   return (
     <div>
+      {stepUpDialog}
       <div className="flex items-center justify-between mb-8">
         <div>
           <h1 className="text-2xl font-bold text-foreground">Find &amp; Merge Duplicates</h1>
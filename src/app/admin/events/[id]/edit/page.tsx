@@ -10,11 +10,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { DailyScheduleInput, type EventDayInput } from "@/components/events/DailyScheduleInput";
+import { RecurrenceRuleInput, type RecurrenceValue } from "@/components/events/RecurrenceRuleInput";
 import { SchemaOrgPanel } from "@/components/admin/SchemaOrgPanel";
 import { RescrapePanel } from "@/components/admin/RescrapePanel";
 import { FocalPointPicker } from "@/components/admin/FocalPointPicker";
 import { STATES, STATE_CODES, type StateCode } from "@/lib/states";
 import { parseDateOnly, toIsoDateOnly } from "@/lib/datetime";
+import { parseRecurrenceExdates } from "@/lib/events/recurrence";
 
 interface Venue {
   id: string;
@@ -50,6 +52,8 @@ interface Event {
   endDate: string | null;
   datesConfirmed: boolean;
   discontinuousDates?: boolean;
+  recurrenceRule?: string | null;
+  recurrenceExdates?: string | null;
   ticketUrl: string | null;
   ticketPriceMin: number | null;
   ticketPriceMax: number | null;
@@ -98,6 +102,9 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
   const [startDate, setStartDate] = useState<string>("");
   const [endDate, setEndDate] = useState<string>("");
   const [eventDays, setEventDays] = useState<EventDayInput[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceValue>({ rule: null, exdates: [] });
+  // Bumped to remount DailyScheduleInput when the recurrence rule replaces the schedule.
+  const [scheduleKey, setScheduleKey] = useState(0);
   // IMG1 §1b Phase 1 (2026-06-08) — controlled state for the image URL
   // + focal point. Image URL was previously uncontrolled (defaultValue
   // + formData.get on submit); promoted to controlled so the
@@ -121,6 +128,10 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
       setEvent(data);
       setDatesTBD(!data.startDate || !data.datesConfirmed);
       setDiscontinuousDates(data.discontinuousDates ?? false);
+      setRecurrence({
+        rule: data.recurrenceRule ?? null,
+        exdates: parseRecurrenceExdates(data.recurrenceExdates),
+      });
       setIsStatewide(!!data.isStatewide);
       setStateCode((data.stateCode as StateCode) || "");
       setSyncEnabled(data.syncEnabled !== false);
@@ -189,6 +200,26 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
     setEventDays(days);
   }, []);
 
+  const handleUseRecurrenceDates = (dates: string[]) => {
+    // Keep hours/notes already entered for a date the rule also produces.
+    const existing = new Map(eventDays.map((d) => [d.date, d]));
+    setDiscontinuousDates(true);
+    setEventDays(
+      dates.map(
+        (date) =>
+          existing.get(date) ?? {
+            date,
+            openTime: "10:00",
+            closeTime: "18:00",
+            notes: "",
+            closed: false,
+            vendorOnly: false,
+          }
+      )
+    );
+    setScheduleKey((k) => k + 1);
+  };
+
   const handleSchemaOrgFieldsApplied = useCallback((appliedFields: string[]) => {
     // Refresh the event data to show updated values
     fetchEvent();
@@ -226,6 +257,8 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
       endDate: endDateISO,
       datesConfirmed: !datesTBD,
       discontinuousDates,
+      recurrenceRule: recurrence.rule,
+      recurrenceExdates: recurrence.exdates,
       ticketUrl: formData.get("ticketUrl") || null,
       ticketPriceMin: formData.get("ticketPriceMin")
         ? parseFloat(formData.get("ticketPriceMin") as string)
@@ -481,6 +514,7 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
 
                 {!datesTBD && (
                   <DailyScheduleInput
+                    key={scheduleKey}
                     startDate={startDate}
                     endDate={endDate}
                     initialDays={eventDays}
@@ -491,6 +525,20 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
                     showVendorOnly
                   />
                 )}
+
+                {!datesTBD && (
+                  <RecurrenceRuleInput
+                    anchorDate={
+                      discontinuousDates
+                        ? (eventDays.map((d) => d.date).sort()[0] ?? null)
+                        : startDate || null
+                    }
+                    value={recurrence}
+                    onChange={setRecurrence}
+                    onUseDates={handleUseRecurrenceDates}
+                    disabled={saving}
+                  />
+                )}
               </div>
 
               <div>
@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { DailyScheduleInput, type EventDayInput } from "@/components/events/DailyScheduleInput";
+import { RecurrenceRuleInput, type RecurrenceValue } from "@/components/events/RecurrenceRuleInput";
 import { STATES, STATE_CODES, type StateCode } from "@/lib/states";
 import { parseDateOnly } from "@/lib/datetime";
 
@@ -38,6 +39,11 @@ export default function NewEventPage() {
   const [startDate, setStartDate] = useState<string>("");
   const [endDate, setEndDate] = useState<string>("");
   const [eventDays, setEventDays] = useState<EventDayInput[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceValue>({ rule: null, exdates: [] });
+  // Days generated from the recurrence rule; DailyScheduleInput is remounted
+  // (key bump) to pick them up as its initial days.
+  const [ruleDays, setRuleDays] = useState<EventDayInput[]>([]);
+  const [scheduleKey, setScheduleKey] = useState(0);
 
   useEffect(() => {
     fetchVenues();
@@ -93,6 +99,21 @@ export default function NewEventPage() {
     setEventDays(days);
   }, []);
 
+  const handleUseRecurrenceDates = (dates: string[]) => {
+    const days = dates.map((date) => ({
+      date,
+      openTime: "10:00",
+      closeTime: "18:00",
+      notes: "",
+      closed: false,
+      vendorOnly: false,
+    }));
+    setDiscontinuousDates(true);
+    setRuleDays(days);
+    setEventDays(days);
+    setScheduleKey((k) => k + 1);
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setLoading(true);
@@ -132,6 +153,8 @@ export default function NewEventPage() {
       endDate: endDateISO,
       datesConfirmed: !datesTBD,
       discontinuousDates,
+      recurrenceRule: datesTBD ? null : recurrence.rule,
+      recurrenceExdates: datesTBD ? [] : recurrence.exdates,
       ticketUrl: formData.get("ticketUrl") || null,
       ticketPriceMin: formData.get("ticketPriceMin")
         ? parseFloat(formData.get("ticketPriceMin") as string)
@@ -361,9 +384,10 @@ export default function NewEventPage() {
 
                 {!datesTBD && (
                   <DailyScheduleInput
+                    key={scheduleKey}
                     startDate={startDate}
                     endDate={endDate}
-                    initialDays={[]}
+                    initialDays={ruleDays}
                     discontinuousDates={discontinuousDates}
                     onDiscontinuousChange={setDiscontinuousDates}
                     onChange={handleEventDaysChange}
@@ -371,6 +395,20 @@ export default function NewEventPage() {
                     showVendorOnly
                   />
                 )}
+
+                {!datesTBD && (
+                  <RecurrenceRuleInput
+                    anchorDate={
+                      discontinuousDates
+                        ? (eventDays.map((d) => d.date).sort()[0] ?? null)
+                        : startDate || null
+                    }
+                    value={recurrence}
+                    onChange={setRecurrence}
+                    onUseDates={handleUseRecurrenceDates}
+                    disabled={loading}
+                  />
+                )}
               </div>
 
               <div>
@@ -17,6 +17,7 @@ import { Button } from "@/components/ui/button";
 import { IconButton, IconLink } from "@/components/ui/icon-button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { useStepUp } from "@/components/auth/step-up-dialog";
 import { formatDate } from "@/lib/utils";
 import { pluralize } from "@/lib/text";
 import {
@@ -70,6 +71,7 @@ const statusColors: Record<string, "default" | "success" | "warning" | "danger"
 };
 
 export default function AdminEventsPage() {
+  const { withStepUp, stepUpDialog } = useStepUp();
   const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
   const [sortConfig, setSortConfig] = useState<SortConfig>({
@@ -130,15 +132,17 @@ export default function AdminEventsPage() {
     );
     if (!ok) return;
     try {
-      const res = await fetch("/api/admin/duplicates/merge", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          type: "events",
-          primaryId: candidate.id,
-          duplicateId: pendingEventId,
-        }),
-      });
+      const res = await withStepUp(() =>
+        fetch("/api/admin/duplicates/merge", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            type: "events",
+            primaryId: candidate.id,
+            duplicateId: pendingEventId,
+          }),
+        })
+      );
       const data = (await res.json().catch(() => null)) as {
         success?: boolean;
         error?: string;
@@ -230,6 +234,7 @@ export default function AdminEventsPage() {
 
   return (
     <div>
+      {stepUpDialog}
       <div className="flex items-center justify-between mb-8">
         <h1 className="text-2xl font-bold text-foreground">Manage Events</h1>
         <div className="flex items-center gap-2">
@@ -53,6 +53,12 @@ interface Promoter {
   companyName: string;
 }
 
+interface ConfiguredSource {
+  key: string;
+  label: string;
+  enabled: boolean;
+}
+
 interface ImportedEvent {
   id: string;
   name: string;
@@ -70,6 +76,7 @@ function useImportPage() {
   const [selectedEvents, setSelectedEvents] = useState<Set<string>>(new Set());
   const [venues, setVenues] = useState<Venue[]>([]);
   const [promoters, setPromoters] = useState<Promoter[]>([]);
+  const [configuredSources, setConfiguredSources] = useState<ConfiguredSource[]>([]);
   const [selectedVenueId, setSelectedVenueId] = useState("");
   const [selectedPromoterId, setSelectedPromoterId] = useState("");
   const [fetchDetails, setFetchDetails] = useState(true);
@@ -95,8 +102,20 @@ function useImportPage() {
 
   useEffect(() => {
     fetchVenuesAndPromoters();
+    fetchConfiguredSources();
   }, []);
 
+  const fetchConfiguredSources = async () => {
+    try {
+      const res = await fetch("/api/admin/scraper-sources");
+      if (!res.ok) return;
+      const data = (await res.json()) as { sources: ConfiguredSource[] };
+      setConfiguredSources(data.sources.filter((s) => s.enabled));
+    } catch (err) {
+      console.error("Failed to fetch configured sources:", err);
+    }
+  };
+
   const downloadImportResults = () => {
     const rows: string[][] = [["Status", "Name", "URL"]];
 
@@ -414,6 +433,7 @@ function useImportPage() {
     downloadImportResults,
     handlePreview,
     handleImport,
+    configuredSources,
     handleSync,
     handleRescrapeDescriptions,
     rescraping,
@@ -511,6 +531,7 @@ function ImportResultsCard({
 function SourceSelectionCard({
   source,
   setSource,
+  configuredSources,
   customUrl,
   setCustomUrl,
   fetchDetailsOnPreview,
@@ -520,6 +541,7 @@ function SourceSelectionCard({
 }: {
   source: string;
   setSource: (v: string) => void;
+  configuredSources: ConfiguredSource[];
   customUrl: string;
   setCustomUrl: (v: string) => void;
   fetchDetailsOnPreview: boolean;
@@ -577,6 +599,15 @@ function SourceSelectionCard({
                     Custom URL (fairsandfestivals.net)
                   </option>
                 </optgroup>
+                {configuredSources.length > 0 && (
+                  <optgroup label="Configured sources">
+                    {configuredSources.map((s) => (
+                      <option key={s.key} value={s.key}>
+                        {s.label} ({s.key})
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
               </select>
             </div>
             <Button
@@ -959,7 +990,10 @@ function EmptyState({ loading }: { loading: boolean }) {
         </p>
         <p className="text-sm text-muted-foreground mt-4">
           Currently supported: mainefairs.net, mainemade.com, mainepublic.org, mafa.org,
-          vtnhfairs.org (VT &amp; NH), fairsandfestivals.net (all states)
+          vtnhfairs.org (VT &amp; NH), fairsandfestivals.net (all states), plus any{" "}
+          <Link href="/admin/import/sources" className="underline">
+            configured source
+          </Link>
         </p>
       </CardContent>
     </Card>
@@ -988,10 +1022,15 @@ export default function ImportEventsPage() {
           <h1 className="text-2xl font-bold text-foreground">Import Events</h1>
           <p className="text-muted-foreground mt-1">Import and sync events from external sources</p>
         </div>
-        <Button variant="outline" onClick={state.handleSync} disabled={state.syncing}>
-          <RefreshCw className={`w-4 h-4 mr-2 ${state.syncing ? "animate-spin" : ""}`} />
-          {state.syncing ? "Syncing..." : "Sync All"}
-        </Button>
+        <div className="flex gap-2">
+          <Link href="/admin/import/sources">
+            <Button variant="outline">Configured Sources</Button>
+          </Link>
+          <Button variant="outline" onClick={state.handleSync} disabled={state.syncing}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${state.syncing ? "animate-spin" : ""}`} />
+            {state.syncing ? "Syncing..." : "Sync All"}
+          </Button>
+        </div>
       </div>
 
       {state.error && (
@@ -1107,6 +1146,7 @@ export default function ImportEventsPage() {
       <SourceSelectionCard
         source={state.source}
         setSource={state.setSource}
+        configuredSources={state.configuredSources}
         customUrl={state.customUrl}
         setCustomUrl={state.setCustomUrl}
         fetchDetailsOnPreview={state.fetchDetailsOnPreview}
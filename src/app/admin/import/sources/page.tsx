@@ -0,0 +1,556 @@
+"use client";
+
+/**
+ * Config-driven scraper sources (drizzle/0229). Each source is a JSON
+ * definition — list URL, pagination, selectors, date hint — that the import
+ * page runs exactly like a hand-written module. "Dry run" executes the
+ * editor's current (unsaved) definition against the saved fixtures only, so
+ * selectors can be tuned without hitting the live site or importing anything.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, Play, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface SourceRow {
+  key: string;
+  label: string;
+  enabled: boolean;
+  definition: unknown | null;
+  updatedAt: string | null;
+}
+
+interface FixtureRow {
+  id: string;
+  url: string;
+  bytes: number;
+  capturedAt: string;
+}
+
+interface PreviewEvent {
+  sourceId: string;
+  sourceUrl: string;
+  name: string;
+  startDate?: string;
+  endDate?: string;
+  city?: string;
+  state?: string;
+  venue?: { name: string };
+}
+
+interface PreviewResult {
+  success: boolean;
+  events: PreviewEvent[];
+  pages: string[];
+  warnings: string[];
+  error?: string;
+}
+
+const TEMPLATE = {
+  format: "html",
+  listUrl: "https://example.com/events",
+  pagination: { type: "none" },
+  itemSelector: ".event",
+  fields: {
+    name: ".event-title",
+    url: "a@href",
+    date: ".event-date",
+    venue: ".event-venue",
+  },
+  dateFormat: "month-day",
+  defaults: { state: "ME" },
+};
+
+const inputClass =
+  "w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm mt-1";
+
+function formatDay(value?: string): string {
+  return value ? value.slice(0, 10) : "—";
+}
+
+export default function ScraperSourcesPage() {
+  const [sources, setSources] = useState<SourceRow[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [key, setKey] = useState("");
+  const [label, setLabel] = useState("");
+  const [enabled, setEnabled] = useState(true);
+  const [definitionText, setDefinitionText] = useState("");
+  const [fixtures, setFixtures] = useState<FixtureRow[]>([]);
+  const [fixtureUrl, setFixtureUrl] = useState("");
+  const [fixtureBody, setFixtureBody] = useState("");
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const fetchSources = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/scraper-sources");
+      const data = (await res.json()) as { sources: SourceRow[] };
+      setSources(data.sources ?? []);
+    } catch (err) {
+      console.error("Failed to fetch scraper sources:", err);
+    }
+  }, []);
+
+  const fetchFixtures = useCallback(async (sourceKey: string) => {
+    try {
+      const res = await fetch(
+        `/api/admin/scraper-sources/${encodeURIComponent(sourceKey)}/fixtures`
+      );
+      const data = (await res.json()) as { fixtures: FixtureRow[] };
+      setFixtures(data.fixtures ?? []);
+    } catch (err) {
+      console.error("Failed to fetch fixtures:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSources();
+  }, [fetchSources]);
+
+  const resetMessages = () => {
+    setError("");
+    setNotice("");
+  };
+
+  const selectSource = (source: SourceRow) => {
+    resetMessages();
+    setIsNew(false);
+    setSelectedKey(source.key);
+    setKey(source.key);
+    setLabel(source.label);
+    setEnabled(source.enabled);
+    setDefinitionText(source.definition ? JSON.stringify(source.definition, null, 2) : "");
+    if (!source.definition) setError("The stored definition no longer validates; replace it.");
+    setPreview(null);
+    fetchFixtures(source.key);
+  };
+
+  const startNew = () => {
+    resetMessages();
+    setIsNew(true);
+    setSelectedKey(null);
+    setKey("");
+    setLabel("");
+    setEnabled(true);
+    setDefinitionText(JSON.stringify(TEMPLATE, null, 2));
+    setFixtures([]);
+    setPreview(null);
+  };
+
+  /** The editor's JSON, or null (with the error shown) when it doesn't parse. */
+  const readDefinition = (): unknown | null => {
+    try {
+      return JSON.parse(definitionText);
+    } catch (err) {
+      setError(`Definition is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  };
+
+  const handleSave = async () => {
+    resetMessages();
+    const definition = readDefinition();
+    if (definition === null) return;
+    setBusy(true);
+    try {
+      const res = isNew
+        ? await fetch("/api/admin/scraper-sources", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ key, label, enabled, definition }),
+          })
+        : await fetch(`/api/admin/scraper-sources/${encodeURIComponent(key)}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ label, enabled, definition }),
+          });
+      const data = (await res.json()) as { error?: string };
+      if (!res.ok) throw new Error(data.error || "Failed to save source");
+      setNotice("Saved.");
+      setIsNew(false);
+      setSelectedKey(key);
+      await fetchSources();
+      await fetchFixtures(key);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save source");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedKey || !confirm(`Delete ${selectedKey} and its fixtures?`)) return;
+    resetMessages();
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/scraper-sources/${encodeURIComponent(selectedKey)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error("Failed to delete source");
+      setSelectedKey(null);
+      setDefinitionText("");
+      setFixtures([]);
+      setPreview(null);
+      await fetchSources();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete source");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveFixture = async () => {
+    if (!selectedKey) return;
+    resetMessages();
+    setBusy(true);
+    try {
+      const res = await fetch(
+        `/api/admin/scraper-sources/${encodeURIComponent(selectedKey)}/fixtures`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url: fixtureUrl, body: fixtureBody || undefined }),
+        }
+      );
+      const data = (await res.json()) as { error?: string; bytes?: number };
+      if (!res.ok) throw new Error(data.error || "Failed to save fixture");
+      setNotice(`Saved fixture (${data.bytes} bytes).`);
+      setFixtureUrl("");
+      setFixtureBody("");
+      await fetchFixtures(selectedKey);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save fixture");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteFixture = async (id: string) => {
+    if (!selectedKey) return;
+    try {
+      await fetch(`/api/admin/scraper-sources/${encodeURIComponent(selectedKey)}/fixtures`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      });
+      setFixtures((prev) => prev.filter((f) => f.id !== id));
+    } catch (err) {
+      console.error("Failed to delete fixture:", err);
+    }
+  };
+
+  const handleDryRun = async () => {
+    const previewKey = selectedKey ?? key;
+    if (!previewKey) return;
+    resetMessages();
+    const definition = readDefinition();
+    if (definition === null) return;
+    setBusy(true);
+    try {
+      const res = await fetch(
+        `/api/admin/scraper-sources/${encodeURIComponent(previewKey)}/preview`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ definition }),
+        }
+      );
+      const data = (await res.json()) as PreviewResult & { error?: string };
+      if (!res.ok) throw new Error(data.error || "Dry run failed");
+      setPreview(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Dry run failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const editing = isNew || selectedKey !== null;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link
+          href="/admin/import"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to Import
+        </Link>
+      </div>
+
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Configured Sources</h1>
+          <p className="text-muted-foreground mt-1">
+            Selector-based scrapers stored in the database. Enabled sources appear in the import
+            page&apos;s source list.
+          </p>
+        </div>
+        <Button variant="outline" onClick={startNew}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Source
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-600 rounded-md text-sm flex items-center gap-2">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-4 p-3 bg-green-50 text-green-600 rounded-md text-sm">{notice}</div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Sources</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sources.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No configured sources yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {sources.map((s) => (
+                  <li key={s.key}>
+                    <button
+                      type="button"
+                      onClick={() => selectSource(s)}
+                      className={`w-full text-left px-2 py-1.5 rounded text-sm hover:bg-muted ${
+                        s.key === selectedKey ? "bg-muted font-medium" : ""
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate">{s.label}</span>
+                        {!s.enabled && <Badge variant="default">off</Badge>}
+                        {!s.definition && <Badge variant="danger">invalid</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">{s.key}</div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {editing ? (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{isNew ? "New source" : selectedKey}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="key">Key</Label>
+                    <input
+                      id="key"
+                      value={key}
+                      onChange={(e) => setKey(e.target.value.toLowerCase())}
+                      disabled={!isNew}
+                      placeholder="examplefairs.org"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="label">Label</Label>
+                    <input
+                      id="label"
+                      value={label}
+                      onChange={(e) => setLabel(e.target.value)}
+                      placeholder="Example Fairs (examplefairs.org)"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => setEnabled(e.target.checked)}
+                    className="rounded border-border"
+                  />
+                  <span className="text-sm text-foreground">Enabled</span>
+                </label>
+                <div>
+                  <Label htmlFor="definition">Definition (JSON)</Label>
+                  <Textarea
+                    id="definition"
+                    value={definitionText}
+                    onChange={(e) => setDefinitionText(e.target.value)}
+                    rows={20}
+                    spellCheck={false}
+                    className="font-mono text-xs mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Selectors are CSS for HTML sources (append <code>@attr</code> to read an
+                    attribute) or <code>$.path[*]</code> for JSON. A field may list fallbacks as an
+                    array; the first non-empty match wins.
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={handleSave} disabled={busy || !key || !label}>
+                    Save
+                  </Button>
+                  <Button variant="outline" onClick={handleDryRun} disabled={busy || !key}>
+                    <Play className="w-4 h-4 mr-2" />
+                    Dry Run
+                  </Button>
+                  {!isNew && (
+                    <Button variant="outline" onClick={handleDelete} disabled={busy}>
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {!isNew && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Fixtures</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Saved pages the dry run reads instead of the live site. Capture one per page the
+                    definition visits (each pagination URL included).
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {fixtures.length > 0 && (
+                    <ul className="text-sm divide-y border rounded">
+                      {fixtures.map((f) => (
+                        <li key={f.id} className="flex items-center justify-between gap-2 p-2">
+                          <span className="truncate">{f.url}</span>
+                          <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                            {Math.round(f.bytes / 1024)} KB
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteFixture(f.id)}
+                              className="text-red-600 hover:underline"
+                            >
+                              Remove
+                            </button>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div>
+                    <Label htmlFor="fixtureUrl">Page URL</Label>
+                    <input
+                      id="fixtureUrl"
+                      type="url"
+                      value={fixtureUrl}
+                      onChange={(e) => setFixtureUrl(e.target.value)}
+                      placeholder="https://example.com/events?page=2"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="fixtureBody">Page source (optional)</Label>
+                    <Textarea
+                      id="fixtureBody"
+                      value={fixtureBody}
+                      onChange={(e) => setFixtureBody(e.target.value)}
+                      rows={4}
+                      placeholder="Leave empty to capture the URL now, or paste the page's HTML/JSON"
+                      className="font-mono text-xs mt-1"
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSaveFixture}
+                    disabled={busy || !fixtureUrl}
+                  >
+                    {fixtureBody ? "Save Pasted Page" : "Capture Page"}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {preview && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    Dry run: {preview.events.length} event{preview.events.length === 1 ? "" : "s"}{" "}
+                    from {preview.pages.length} page{preview.pages.length === 1 ? "" : "s"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {preview.error && <p className="text-sm text-red-600">Error: {preview.error}</p>}
+                  {preview.warnings.length > 0 && (
+                    <ul className="text-xs text-amber-700 list-disc pl-5">
+                      {preview.warnings.map((w, i) => (
+                        <li key={i}>{w}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {preview.events.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-muted-foreground border-b">
+                            <th className="py-1 pr-3">Name</th>
+                            <th className="py-1 pr-3">Dates</th>
+                            <th className="py-1 pr-3">Venue</th>
+                            <th className="py-1 pr-3">Location</th>
+                            <th className="py-1">Source ID</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {preview.events.map((e) => (
+                            <tr key={e.sourceId} className="border-b last:border-0">
+                              <td className="py-1 pr-3">
+                                <a
+                                  href={e.sourceUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="hover:underline"
+                                >
+                                  {e.name}
+                                </a>
+                              </td>
+                              <td className="py-1 pr-3 whitespace-nowrap">
+                                {formatDay(e.startDate)}
+                                {e.endDate && e.endDate !== e.startDate
+                                  ? ` – ${formatDay(e.endDate)}`
+                                  : ""}
+                              </td>
+                              <td className="py-1 pr-3">{e.venue?.name ?? "—"}</td>
+                              <td className="py-1 pr-3">
+                                {[e.city, e.state].filter(Boolean).join(", ") || "—"}
+                              </td>
+                              <td className="py-1 text-xs text-muted-foreground">{e.sourceId}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Pick a source to edit, or create a new one.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import {
   BarChart3,
   Inbox,
   Send,
+  Mail,
+  MessageSquare,
 } from "lucide-react";
 import { auth } from "@/lib/auth";
 import { bearerTokenMatches } from "@/lib/api-auth";
@@ -32,12 +34,14 @@ const adminNav = [
   { name: "Vendors", href: "/admin/vendors", icon: Store },
   { name: "Vendor Claim", href: "/admin/vendor-claim-leaderboard", icon: Store },
   { name: "Claim Review", href: "/admin/claims", icon: ShieldCheck },
+  { name: "Vendor Reviews", href: "/admin/reviews", icon: MessageSquare },
   { name: "Promoters", href: "/admin/promoters", icon: Megaphone },
   { name: "Promoter Quality", href: "/admin/promoter-quality", icon: Megaphone },
   { name: "Users", href: "/admin/users", icon: Users },
   { name: "Submissions", href: "/admin/submissions", icon: ClipboardList },
   { name: "Inbound Emails", href: "/admin/inbound-emails", icon: Inbox },
   { name: "Sent Emails", href: "/admin/sent-emails", icon: Send },
+  { name: "Newsletter", href: "/admin/newsletter", icon: Mail },
   { name: "Duplicates", href: "/admin/duplicates", icon: GitMerge },
   { name: "Blog Coverage", href: "/admin/coverage", icon: FileText },
   { name: "Blog Posts", href: "/admin/blog", icon: FileText },
@@ -67,6 +71,12 @@ export default async function AdminLayout({ children }: { children: React.ReactN
 
   const session = await auth();
 
+  // drizzle/0241 — an admin without a second factor has ADMIN withheld from
+  // the session; send them to enroll rather than to a login loop.
+  if (session?.user.adminTwoFactorRequired) {
+    redirect("/dashboard/settings?twoFactor=required#security");
+  }
+
   if (!session || session.user.role !== "ADMIN") {
     redirect("/login?callbackUrl=/admin");
   }
@@ -0,0 +1,169 @@
+/**
+ * One newsletter issue's engagement report (drizzle/0238): deliveries, unique
+ * opens, clicks per link, bounces by the provider's classification, and the
+ * unsubscribes it prompted. Computed by src/lib/newsletter/engagement.ts.
+ */
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import {
+  loadIssueEngagementReport,
+  UNSUBSCRIBE_ATTRIBUTION_DAYS,
+} from "@/lib/newsletter/engagement";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export const dynamic = "force-dynamic";
+
+interface Props {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function NewsletterIssueReportPage({ params }: Props) {
+  const { slug } = await params;
+  const report = await loadIssueEngagementReport(getCloudflareDb(), slug);
+  if (!report) notFound();
+
+  const bounced = report.bounces.reduce((sum, b) => sum + b.count, 0);
+
+  return (
+    <div className="max-w-7xl space-y-6">
+      <header>
+        <Link href="/admin/newsletter" className="text-sm text-royal hover:underline">
+          ← All issues
+        </Link>
+        <h1 className="text-2xl font-bold text-foreground mt-2">{report.subject}</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          {report.audience} issue ·{" "}
+          {report.sentAt ? `sent ${report.sentAt.toISOString().slice(0, 10)}` : "never broadcast"} ·{" "}
+          <Link
+            href={`/newsletter/${report.slug}`}
+            target="_blank"
+            rel="noreferrer"
+            className="text-royal hover:underline"
+          >
+            view issue
+          </Link>
+        </p>
+      </header>
+
+      {report.sent === 0 ? (
+        <Card>
+          <CardContent>
+            <p className="py-4 text-sm text-muted-foreground">
+              No tracked sends for this issue. It was either never broadcast or went out before
+              engagement tracking existed.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardContent>
+              <div className="flex flex-wrap items-center gap-8 py-2">
+                <Stat label="sent" value={report.sent} />
+                <Stat label="delivered" value={report.delivered} of={report.sent} />
+                <Stat label="unique opens" value={report.uniqueOpens} of={report.sent} />
+                <Stat label="unique clicks" value={report.uniqueClicks} of={report.sent} />
+                <Stat label="bounced" value={bounced} of={report.sent} />
+                <Stat label="complaints" value={report.complained} of={report.sent} />
+                <Stat label="unsubscribes" value={report.unsubscribes} of={report.sent} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm font-semibold">Clicks by link</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {report.links.length === 0 ? (
+                <p className="p-6 text-sm text-muted-foreground">No clicks yet.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead className="bg-muted border-b border-border text-left text-muted-foreground">
+                    <tr>
+                      <th className="px-4 py-2 font-medium">link</th>
+                      <th className="px-4 py-2 font-medium text-right">clicks</th>
+                      <th className="px-4 py-2 font-medium text-right">unique</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.links.map((link) => (
+                      <tr key={link.url} className="border-b border-border">
+                        <td className="px-4 py-2">
+                          {link.eventName && (
+                            <div className="font-medium text-foreground">{link.eventName}</div>
+                          )}
+                          <a
+                            href={link.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-xs font-mono text-royal hover:underline break-all"
+                          >
+                            {link.url}
+                          </a>
+                        </td>
+                        <td className="px-4 py-2 text-right tabular-nums text-foreground">
+                          {link.clicks.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 text-right tabular-nums text-foreground">
+                          {link.uniqueClicks.toLocaleString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm font-semibold">Bounces by classification</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {report.bounces.length === 0 ? (
+                <p className="p-6 text-sm text-muted-foreground">No bounces reported.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <tbody>
+                    {report.bounces.map((b) => (
+                      <tr key={b.classification} className="border-b border-border">
+                        <td className="px-4 py-2 font-mono text-foreground">{b.classification}</td>
+                        <td className="px-4 py-2 text-right tabular-nums text-foreground">
+                          {b.count.toLocaleString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <p className="text-xs text-muted-foreground">
+            Rates are over copies sent. Unsubscribes count recipients who unsubscribed, or left the{" "}
+            {report.audience} list, within {UNSUBSCRIBE_ATTRIBUTION_DAYS} days of the send.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value, of }: { label: string; value: number; of?: number }) {
+  return (
+    <div>
+      <p className="text-2xl font-bold tabular-nums text-foreground">
+        {value.toLocaleString()}
+        {of != null && of > 0 && (
+          <span className="ml-1 text-sm font-normal text-muted-foreground">
+            {Math.round((value / of) * 1000) / 10}%
+          </span>
+        )}
+      </p>
+      <p className="text-xs text-muted-foreground">{label}</p>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Newsletter engagement — recent issues with their open and click rates, and
+ * the subscribers flagged for not reading (drizzle/0238). Each issue links to
+ * its full report at /admin/newsletter/[slug].
+ *
+ * Rates are over copies SENT, not delivered: delivery events lag and some
+ * providers never send them, so a delivered denominator would make a fresh
+ * issue look better than it is. Issues from before tracking show "—".
+ */
+
+import Link from "next/link";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import {
+  listFlaggedSubscribers,
+  listIssueEngagement,
+  NON_ENGAGEMENT_ISSUES,
+} from "@/lib/newsletter/engagement";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export const dynamic = "force-dynamic";
+
+export default async function NewsletterEngagementPage() {
+  const db = getCloudflareDb();
+  const [issues, flagged] = await Promise.all([
+    listIssueEngagement(db),
+    listFlaggedSubscribers(db),
+  ]);
+
+  return (
+    <div className="max-w-7xl space-y-6">
+      <header>
+        <h1 className="text-2xl font-bold text-foreground">Newsletter engagement</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Opens and clicks per issue. An open counts anyone who loaded the tracking pixel or clicked
+          a link — image-blocking mail clients never load the pixel, so opens are a floor. Test
+          sends and previews are not tracked.
+        </p>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm font-semibold">Recent issues</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {issues.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">No issues sent yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-muted border-b border-border text-left text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">issue</th>
+                    <th className="px-4 py-2 font-medium">audience</th>
+                    <th className="px-4 py-2 font-medium">sent</th>
+                    <th className="px-4 py-2 font-medium text-right">recipients</th>
+                    <th className="px-4 py-2 font-medium text-right">opened</th>
+                    <th className="px-4 py-2 font-medium text-right">clicked</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {issues.map((issue) => (
+                    <tr key={issue.slug} className="border-b border-border hover:bg-muted">
+                      <td className="px-4 py-2">
+                        <Link
+                          href={`/admin/newsletter/${issue.slug}`}
+                          className="text-royal hover:underline font-medium"
+                        >
+                          {issue.subject}
+                        </Link>
+                        <div className="text-xs text-muted-foreground font-mono">{issue.slug}</div>
+                      </td>
+                      <td className="px-4 py-2 text-muted-foreground">{issue.audience}</td>
+                      <td className="px-4 py-2 text-muted-foreground tabular-nums">
+                        {issue.sentAt?.toISOString().slice(0, 10) ?? "—"}
+                      </td>
+                      <RateCell value={issue.sent} />
+                      <RateCell value={issue.uniqueOpens} of={issue.sent} />
+                      <RateCell value={issue.uniqueClicks} of={issue.sent} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm font-semibold">
+            Not engaging ({flagged.length.toLocaleString()})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <p className="px-4 pb-3 text-xs text-muted-foreground">
+            Subscribers who opened and clicked none of their last {NON_ENGAGEMENT_ISSUES} tracked
+            issues. Refreshed every Monday; any open or click clears the flag at once. Nobody is
+            unsubscribed automatically.
+          </p>
+          {flagged.length === 0 ? (
+            <p className="px-4 pb-6 text-sm text-muted-foreground">Nobody is flagged.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-muted border-b border-border text-left text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-2 font-medium">subscriber</th>
+                  <th className="px-4 py-2 font-medium">flagged</th>
+                </tr>
+              </thead>
+              <tbody>
+                {flagged.map((s) => (
+                  <tr key={s.email} className="border-b border-border">
+                    <td className="px-4 py-2 font-mono text-foreground">{s.email}</td>
+                    <td className="px-4 py-2 text-muted-foreground tabular-nums">
+                      {s.flaggedAt.toISOString().slice(0, 10)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function RateCell({ value, of }: { value: number; of?: number }) {
+  if (of === 0) {
+    return <td className="px-4 py-2 text-right text-muted-foreground">—</td>;
+  }
+  return (
+    <td className="px-4 py-2 text-right tabular-nums text-foreground">
+      {value.toLocaleString()}
+      {of != null && (
+        <span className="ml-1 text-xs text-muted-foreground">
+          ({Math.round((value / of) * 1000) / 10}%)
+        </span>
+      )}
+    </td>
+  );
+}
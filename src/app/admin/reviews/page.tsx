@@ -0,0 +1,178 @@
+/**
+ * /admin/reviews — vendor event review moderation.
+ *
+ * Reviews with open abuse reports first, oldest report first, then the most
+ * recent reviews so new ones get a look before anyone complains. Hiding takes
+ * a review off every public page and closes its reports; it can be restored.
+ *
+ * Server component. Admin auth is enforced by src/app/admin/layout.tsx.
+ */
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { formatDateMedium } from "@/lib/datetime";
+import {
+  listReviewsForModeration,
+  REPORT_REASON_LABELS,
+  type ModerationReview,
+} from "@/lib/reviews/moderation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ReviewModerationActions } from "@/components/admin/ReviewModerationActions";
+
+export const dynamic = "force-dynamic";
+
+function statusBadgeClasses(status: string): string {
+  return status === "HIDDEN"
+    ? "bg-red-50 text-red-800 border-red-300"
+    : "bg-muted text-muted-foreground border-border";
+}
+
+function ReviewTable({ rows, empty }: { rows: ModerationReview[]; empty: string }) {
+  if (rows.length === 0) {
+    return <p className="p-6 text-sm text-muted-foreground">{empty}</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead className="bg-muted border-b border-border text-left text-muted-foreground">
+          <tr>
+            <th className="px-4 py-2 font-medium">event</th>
+            <th className="px-4 py-2 font-medium">vendor</th>
+            <th className="px-4 py-2 font-medium text-right">overall</th>
+            <th className="px-4 py-2 font-medium">review</th>
+            <th className="px-4 py-2 font-medium">reports</th>
+            <th className="px-4 py-2 font-medium">written</th>
+            <th className="px-4 py-2 font-medium">actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.id} className="border-b border-border align-top hover:bg-muted">
+              <td className="px-4 py-3">
+                <a
+                  href={`/events/${r.eventSlug}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-medium text-royal hover:underline"
+                >
+                  {r.eventName}
+                </a>
+                <div>
+                  <span
+                    className={`inline-block mt-1 px-2 py-0.5 rounded text-[10px] font-medium border ${statusBadgeClasses(
+                      r.status
+                    )}`}
+                  >
+                    {r.status}
+                  </span>
+                </div>
+              </td>
+              <td className="px-4 py-3">
+                <a
+                  href={`/vendors/${r.vendorSlug}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-royal hover:underline"
+                >
+                  {r.vendorName}
+                </a>
+              </td>
+              <td className="px-4 py-3 text-right tabular-nums">{r.overall.toFixed(1)}</td>
+              <td className="px-4 py-3 max-w-md text-xs text-muted-foreground">
+                {r.body ? (
+                  <p className="whitespace-pre-line text-foreground">{r.body}</p>
+                ) : (
+                  <span>No text</span>
+                )}
+                {r.replyBody && (
+                  <p className="mt-2 border-l-2 border-border pl-2">
+                    <span className="font-medium">Reply:</span> {r.replyBody}
+                  </p>
+                )}
+                {r.moderationNote && (
+                  <p className="mt-2 italic">Moderator note: {r.moderationNote}</p>
+                )}
+              </td>
+              <td className="px-4 py-3 text-xs">
+                {r.openReports > 0 ? (
+                  <>
+                    <div className="font-semibold text-red-700">{r.openReports} open</div>
+                    {r.reportReasons.map((reason) => (
+                      <div key={reason} className="text-muted-foreground">
+                        {REPORT_REASON_LABELS[reason]}
+                      </div>
+                    ))}
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </td>
+              <td className="px-4 py-3 text-xs text-muted-foreground whitespace-nowrap">
+                {formatDateMedium(r.createdAt)}
+              </td>
+              <td className="px-4 py-3">
+                <ReviewModerationActions
+                  reviewId={r.id}
+                  status={r.status}
+                  openReports={r.openReports}
+                  hasReply={Boolean(r.replyBody)}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default async function AdminReviewsPage() {
+  const db = getCloudflareDb();
+  const { reported, recent } = await listReviewsForModeration(db);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <header>
+        <h1 className="text-2xl font-bold text-foreground">Vendor reviews</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Reviews vendors have written about events they exhibited at. Hiding a review removes it
+          from event and series pages and closes its reports; the vendor can still see it, and it
+          can be restored.
+        </p>
+      </header>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <Stat label="Reported" value={reported.length} />
+        <Stat label="Open reports" value={reported.reduce((sum, r) => sum + r.openReports, 0)} />
+        <Stat label="Recent reviews" value={recent.length} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm font-semibold">Reported</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <ReviewTable rows={reported} empty="No open reports." />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm font-semibold">Recent reviews</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <ReviewTable rows={recent} empty="No reviews yet." />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <p className="text-xs text-muted-foreground">{label}</p>
+        <p className="text-2xl font-semibold tabular-nums mt-1 text-foreground">{value}</p>
+      </CardContent>
+    </Card>
+  );
+}
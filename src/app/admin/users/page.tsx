@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { useStepUp } from "@/components/auth/step-up-dialog";
 import { formatDate } from "@/lib/utils";
 import {
   SortableHeader,
@@ -29,6 +30,7 @@ const roleColors: Record<string, "default" | "success" | "warning" | "danger" |
 };
 
 export default function AdminUsersPage() {
+  const { withStepUp, stepUpDialog } = useStepUp();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [sortConfig, setSortConfig] = useState<SortConfig>({
@@ -56,11 +58,13 @@ export default function AdminUsersPage() {
 
   const handleRoleChange = async (userId: string, newRole: string) => {
     try {
-      const res = await fetch(`/api/admin/users/${userId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ role: newRole }),
-      });
+      const res = await withStepUp(() =>
+        fetch(`/api/admin/users/${userId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ role: newRole }),
+        })
+      );
 
       if (res.ok) {
         setUsers(users.map((u) => (u.id === userId ? { ...u, role: newRole } : u)));
@@ -111,6 +115,7 @@ export default function AdminUsersPage() {
 
   return (
     <div>
+      {stepUpDialog}
       <div className="flex items-center justify-between mb-8">
         <h1 className="text-2xl font-bold text-foreground">Manage Users</h1>
       </div>
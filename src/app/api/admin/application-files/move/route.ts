@@ -0,0 +1,68 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { isAuthorized } from "@/lib/api-auth";
+import { getCloudflareDb, getCloudflareEnv } from "@/lib/cloudflare";
+import { logError } from "@/lib/logger";
+
+/**
+ * One-shot move of vendor application files out of the public bucket.
+ *
+ * Application documents (certificates of insurance and other file answers)
+ * were first written to VENDOR_ASSETS, which is served publicly at
+ * cdn.meetmeatthefair.com — an unguessable key was all that kept them
+ * private. They now live in APPLICATION_FILES, which has no public domain.
+ * This copies every `applications/` object across, keys and metadata
+ * unchanged so the stored answers still point at them, then deletes the
+ * public copy.
+ *
+ * Each call moves up to {@link BATCH} objects; call until `done`. Safe to
+ * re-run: a moved object is no longer listed in the old bucket.
+ */
+
+const PREFIX = "applications/";
+const BATCH = 50;
+
+export async function POST(request: Request) {
+  if (!(await isAuthorized(request))) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  const env = getCloudflareEnv() as unknown as {
+    VENDOR_ASSETS?: R2Bucket;
+    APPLICATION_FILES?: R2Bucket;
+  };
+  const from = env.VENDOR_ASSETS;
+  const to = env.APPLICATION_FILES;
+  if (!from || !to) {
+    return NextResponse.json(
+      { ok: false, error: "R2 buckets not bound (VENDOR_ASSETS / APPLICATION_FILES)" },
+      { status: 500 }
+    );
+  }
+
+  const page = await from.list({ prefix: PREFIX, limit: BATCH });
+  let moved = 0;
+  let failed = 0;
+  for (const { key } of page.objects) {
+    try {
+      const object = await from.get(key);
+      if (!object) continue;
+      await to.put(key, await object.arrayBuffer(), {
+        httpMetadata: object.httpMetadata,
+        customMetadata: object.customMetadata,
+      });
+      await from.delete(key);
+      moved++;
+    } catch (error) {
+      failed++;
+      await logError(getCloudflareDb(), {
+        message: "application-files move: object failed",
+        error,
+        source: "api/admin/application-files/move",
+        context: { key },
+      });
+    }
+  }
+
+  return NextResponse.json({ ok: true, moved, failed, done: !page.truncated && failed === 0 });
+}
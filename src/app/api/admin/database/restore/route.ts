@@ -2,6 +2,7 @@ export const dynamic = "force-dynamic";
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareEnv, getCloudflareDb } from "@/lib/cloudflare";
 import { auth } from "@/lib/auth";
+import { requireRecentStepUp } from "@/lib/api-auth";
 import { logError } from "@/lib/logger";
 import { checkAdminGeoRestriction } from "@/lib/geo-security";
 
@@ -17,6 +18,8 @@ export async function POST(request: NextRequest) {
   if (!session?.user || session.user.role !== "ADMIN") {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  const stepUp = await requireRecentStepUp();
+  if (stepUp) return stepUp;
 
   const errorDb = getCloudflareDb();
   try {
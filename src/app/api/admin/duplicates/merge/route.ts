@@ -1,6 +1,7 @@
 export const dynamic = "force-dynamic";
 import { NextResponse } from "next/server";
 import { withAuthorized } from "@/lib/api/with-auth";
+import { requireRecentStepUp } from "@/lib/api-auth";
 import { executeMerge } from "@/lib/duplicates/merge-operations";
 import type { DuplicateEntityType, MergeRequest } from "@/lib/duplicates/types";
 import { logError } from "@/lib/logger";
@@ -9,6 +10,13 @@ import { inArray } from "drizzle-orm";
 import { differentEditionYears } from "@/lib/series/merge-year-guard";
 
 export const POST = withAuthorized(async ({ request, db, userId }) => {
+  // drizzle/0241 — an admin merging from the UI must have stepped up
+  // recently. The internal-key caller (MCP `merge_events`) has no session.
+  if (userId) {
+    const stepUp = await requireRecentStepUp();
+    if (stepUp) return stepUp;
+  }
+
   let body: (MergeRequest & { actorUserId?: string | null }) | null = null;
 
   try {
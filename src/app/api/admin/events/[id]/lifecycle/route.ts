@@ -13,6 +13,10 @@ import {
 import { eventLifecycleUpdateSchema, validateRequestBody } from "@/lib/validations";
 import { pingIndexNow, indexNowUrlFor } from "@/lib/indexnow";
 import { logError } from "@/lib/logger";
+import {
+  favoriteChangeForLifecycle,
+  notifyFavoritedEventChanged,
+} from "@/lib/notifications/favorite-changes";
 
 interface Params {
   params: Promise<{ id: string }>;
@@ -31,6 +35,8 @@ interface Params {
  *     the MCP server's update_event_status transition logging)
  *   - fires IndexNow when public visibility is affected (a transition that
  *     crosses the isPublicLifecycle() boundary either direction)
+ *   - notifies users who favorited the event of a reschedule, postponement,
+ *     cancellation or move online (src/lib/notifications/favorite-changes.ts)
  *
  * Auth: admin session only. (X-Internal-Key is intentionally not accepted
  * here — lifecycle is a deliberate human/admin decision, not a sweep.)
@@ -158,6 +164,13 @@ export async function PATCH(request: NextRequest, { params }: Params) {
       );
     }
 
+    // Favoriters hear about the moves that change whether (or when) they can
+    // go. Best-effort; never throws.
+    const favoriteChange = favoriteChangeForLifecycle(to, dateUpdate, reason ?? null);
+    if (favoriteChange) {
+      await notifyFavoritedEventChanged(db, { eventId: id, change: favoriteChange, now });
+    }
+
     return NextResponse.json({ success: true, from, to });
   } catch (error) {
     await logError(db, {
@@ -24,6 +24,8 @@ import { recordMutation } from "@/lib/audit/record-mutation";
 import { parseTimestamp } from "@/lib/datetime";
 import { normalizeEventDate } from "@/lib/event-dates";
 import { notifyApprovalIfNeeded } from "@/lib/approval-notification";
+import { notifyFavoritedEventChanged } from "@/lib/notifications/favorite-changes";
+import { parseRecurrenceExdates, recurrenceColumns } from "@/lib/events/recurrence";
 import { evaluateGates, mirroredFieldsChanged } from "@takemetothefair/utils";
 import { eventSyndicationStatements } from "@/lib/syndication/outbox";
 import { enqueueSyndicationChange } from "@/lib/queues/producers";
@@ -123,6 +125,8 @@ export const PATCH = withAuth<{ id: string }>(
           applicationDeadline: events.applicationDeadline,
           eventScale: events.eventScale,
           discontinuousDates: events.discontinuousDates,
+          recurrenceRule: events.recurrenceRule,
+          recurrenceExdates: events.recurrenceExdates,
         })
         .from(events)
         .where(eq(events.id, id))
@@ -190,6 +194,19 @@ export const PATCH = withAuth<{ id: string }>(
       if (data.discontinuousDates !== undefined)
         updateData.discontinuousDates = data.discontinuousDates;
 
+      // drizzle/0234 — the rule and its exceptions are written as a pair: an
+      // exceptions-only edit keeps the stored rule, and clearing the rule
+      // clears the exceptions with it.
+      if (data.recurrenceRule !== undefined || data.recurrenceExdates !== undefined) {
+        Object.assign(
+          updateData,
+          recurrenceColumns(
+            data.recurrenceRule !== undefined ? data.recurrenceRule : currentEvent.recurrenceRule,
+            data.recurrenceExdates ?? parseRecurrenceExdates(currentEvent.recurrenceExdates)
+          )
+        );
+      }
+
       // Auto-compute startDate/endDate from eventDays when discontinuous.
       // Use normalizeEventDate (noon UTC) rather than parseDateOnly (midnight
       // UTC) so the calendar day renders correctly in US timezones — same fix
@@ -388,8 +405,9 @@ export const PATCH = withAuth<{ id: string }>(
 
       // SYN1 — syndication outbox row + per-event version bump, written in the
       // SAME batch so a correction is never dropped. Gated on a mirrored field
-      // (name / start / end) actually changing; the venue mirror is only fetched
-      // when the gate passes, to keep non-mirrored edits free of extra reads.
+      // (name / start / end) or a query-tested one (status, state, series, …)
+      // actually changing; the venue mirror is only fetched when the gate
+      // passes, to keep other edits free of extra reads.
       const syndicationChangedFields = Object.keys(updateData).filter(
         (k) => k !== "updatedAt" && k !== "slug"
       );
@@ -616,6 +634,29 @@ export const PATCH = withAuth<{ id: string }>(
         }
       }
 
+      // Favoriters of a listed event hear when its dates move. Compared on the
+      // committed row, so eventDays-derived dates count the same as explicit
+      // ones. Lifecycle moves (postponed, cancelled, …) notify from the
+      // lifecycle route instead. Never throws.
+      const sameInstant = (a: Date | null, b: Date | null) =>
+        (a?.getTime() ?? null) === (b?.getTime() ?? null);
+      if (
+        wasPublic &&
+        isPublic &&
+        updatedEvent &&
+        (!sameInstant(updatedEvent.startDate, currentEvent.startDate) ||
+          !sameInstant(updatedEvent.endDate, currentEvent.endDate))
+      ) {
+        await notifyFavoritedEventChanged(db, {
+          eventId: id,
+          change: {
+            kind: "rescheduled",
+            startDate: updatedEvent.startDate,
+            endDate: updatedEvent.endDate,
+          },
+        });
+      }
+
       // Surface gate flags that fired during this PATCH so the admin UI (and
       // MCP callers) can render a warning. Absence of the field means "no
       // gates fired on this PATCH" — does NOT mean the row is currently free
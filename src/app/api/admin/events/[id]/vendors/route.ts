@@ -9,9 +9,12 @@ import {
   eventVendorUpdateSchema,
   validateRequestBody,
 } from "@/lib/validations";
-import { isValidTransition } from "@/lib/vendor-status";
-import { PUBLIC_VENDOR_STATUSES } from "@/lib/constants";
+import { isValidTransition, STATUS_LABELS } from "@/lib/vendor-status";
+import { PUBLIC_VENDOR_STATUSES, type EventVendorStatus } from "@/lib/constants";
+import { createNotification } from "@/lib/notifications/notifications";
+import { describeVendorFacingDiff } from "@/lib/promoter/applications";
 import { logError } from "@/lib/logger";
+import { handleApplicationStatusChange } from "@/lib/waitlist/promotion";
 import { trackVendorStatusChange } from "@/lib/server-analytics";
 import { pingIndexNow, indexNowUrlFor } from "@/lib/indexnow";
 
@@ -176,6 +179,7 @@ export const PATCH = withAuth<{ id: string }>(
 
     try {
       const updateData: Record<string, unknown> = {};
+      let previousStatus: string | null = null;
       if (data.boothInfo !== undefined) updateData.boothInfo = data.boothInfo;
       if (data.paymentStatus !== undefined) updateData.paymentStatus = data.paymentStatus;
       if (data.participationType !== undefined)
@@ -233,6 +237,7 @@ export const PATCH = withAuth<{ id: string }>(
         }
 
         updateData.status = data.status;
+        previousStatus = current.status;
 
         // Track the status change for analytics
         trackVendorStatusChange(
@@ -253,6 +258,16 @@ export const PATCH = withAuth<{ id: string }>(
         .set(updateData)
         .where(and(eq(eventVendors.id, data.eventVendorId), eq(eventVendors.eventId, id)));
 
+      if (previousStatus && data.status) {
+        await handleApplicationStatusChange(db, {
+          eventId: id,
+          eventVendorId: data.eventVendorId,
+          from: previousStatus,
+          to: data.status,
+          actor: session.user.id,
+        });
+      }
+
       const [updated] = await db
         .select()
         .from(eventVendors)
@@ -260,6 +275,28 @@ export const PATCH = withAuth<{ id: string }>(
         .where(eq(eventVendors.id, data.eventVendorId))
         .limit(1);
 
+      // An admin decision is the same news to the vendor as a promoter's, so
+      // it lands in their notifications the same way (in-app only — this
+      // surface has never emailed).
+      if (previousStatus && data.status && updated.vendors?.userId) {
+        const [eventRow] = await db
+          .select({ name: events.name })
+          .from(events)
+          .where(eq(events.id, id))
+          .limit(1);
+        const from = STATUS_LABELS[previousStatus as EventVendorStatus] ?? previousStatus;
+        const to = STATUS_LABELS[data.status];
+        await createNotification(db, {
+          userId: updated.vendors.userId,
+          type: "application_update",
+          title: `${eventRow?.name ?? "Your event"}: application ${to.toLowerCase()}`,
+          message: describeVendorFacingDiff(updated.vendors.businessName, {
+            status: { from, to },
+          }),
+          data: { eventId: id, eventVendorId: data.eventVendorId, url: "/vendor/applications" },
+        });
+      }
+
       // IndexNow: when a vendor enters the public set on an event, the public
       // event page changes (the vendor list grows). Re-ping the event URL so
       // search engines pick up the new content. Only fires on transitions INTO
@@ -7,6 +7,7 @@ import { attachEventToSeries } from "@/lib/series/resolve-or-create-series";
 import { eq, and, sql, inArray } from "drizzle-orm";
 import { createSlug, computePublicDates, dollarsToCents, unsafeSlug } from "@/lib/utils";
 import { resolveUniqueEventSlug, insertEventDaysBatched } from "@/lib/events/insert-helpers";
+import { recurrenceColumns } from "@/lib/events/recurrence";
 import { getEventsWithRelations } from "@/lib/queries";
 import { eventCreateSchema, validateRequestBody } from "@/lib/validations";
 import { logError } from "@/lib/logger";
@@ -211,6 +212,7 @@ export const POST = withAuth({ role: "ADMIN" }, async ({ request, db }) => {
       // authoring first-party data; a later importer must not overwrite it.
       syncEnabled: data.syncEnabled ?? false,
       discontinuousDates: data.discontinuousDates || false,
+      ...recurrenceColumns(data.recurrenceRule, data.recurrenceExdates),
       categories: JSON.stringify(data.categories),
       tags: JSON.stringify(data.tags),
       ticketUrl: data.ticketUrl,
@@ -3,7 +3,7 @@ import { NextResponse } from "next/server";
 import { withAuth } from "@/lib/api/with-auth";
 import { events } from "@/lib/db/schema";
 import { logError } from "@/lib/logger";
-import { getDetailsScraper } from "@/lib/scrapers/registry";
+import { resolveDetailsScraper } from "@/lib/scrapers/registry";
 import { like, and, isNotNull } from "drizzle-orm";
 import { eq } from "drizzle-orm";
 
@@ -42,7 +42,7 @@ export const POST = withAuth({ role: "ADMIN" }, async ({ request, db }) => {
     if (dryRun) {
       // Preview mode: just report what would be re-scraped
       for (const event of truncatedEvents) {
-        const scraper = getDetailsScraper(event.sourceName);
+        const scraper = await resolveDetailsScraper(db, event.sourceName);
         results.previews.push({
           name: event.name,
           sourceName: event.sourceName!,
@@ -56,7 +56,7 @@ export const POST = withAuth({ role: "ADMIN" }, async ({ request, db }) => {
     // Actual re-scrape
     for (const event of truncatedEvents) {
       try {
-        const detailsScraper = getDetailsScraper(event.sourceName);
+        const detailsScraper = await resolveDetailsScraper(db, event.sourceName);
         if (!detailsScraper) {
           results.noScraper++;
           results.skipped++;
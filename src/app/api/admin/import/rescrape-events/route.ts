@@ -4,7 +4,7 @@ import { getCloudflareDb } from "@/lib/cloudflare";
 import { events } from "@/lib/db/schema";
 import { isAuthorized } from "@/lib/api-auth";
 import { logError } from "@/lib/logger";
-import { getDetailsScraper } from "@/lib/scrapers/registry";
+import { resolveDetailsScraper } from "@/lib/scrapers/registry";
 import { sanitizeScrapedDescription } from "@/lib/scrapers/utils";
 import { inArray, eq } from "drizzle-orm";
 import { loadClassifications, gateUrlForField } from "@/lib/url-classification";
@@ -81,7 +81,7 @@ export async function POST(request: Request) {
       }
 
       // Look up the detail scraper
-      const detailsScraper = getDetailsScraper(event.sourceName);
+      const detailsScraper = await resolveDetailsScraper(db, event.sourceName);
       if (!detailsScraper) {
         results.skipped++;
         results.details.push({
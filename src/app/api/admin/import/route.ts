@@ -6,7 +6,7 @@ import { events, venues, promoters, eventDays } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 import type { ScrapedEvent, ScrapedVenue } from "@/lib/scrapers/types";
 import { decodeHtmlEntities, sanitizeScrapedDescription } from "@/lib/scrapers/utils";
-import { getScraper, parseSourceOptions, getDetailsScraper } from "@/lib/scrapers/registry";
+import { parseSourceOptions, resolveDetailsScraper, resolveScraper } from "@/lib/scrapers/registry";
 import { createSlug, appendSlugSegment, unsafeSlug } from "@/lib/utils";
 import { normalizeEventDate } from "@/lib/event-dates";
 import { logError } from "@/lib/logger";
@@ -149,7 +149,7 @@ export const GET = withAuth({ role: "ADMIN" }, async ({ request, db }) => {
   try {
     let result;
 
-    const scraper = getScraper(source);
+    const scraper = await resolveScraper(db, source);
     if (!scraper) {
       return NextResponse.json({ error: "Unknown source" }, { status: 400 });
     }
@@ -188,10 +188,7 @@ export const GET = withAuth({ role: "ADMIN" }, async ({ request, db }) => {
           if (!event.sourceUrl) return event;
 
           try {
-            const detailsScraper = getDetailsScraper(source);
-            const details: Partial<ScrapedEvent> = detailsScraper
-              ? await detailsScraper(event.sourceUrl)
-              : {};
+            const details: Partial<ScrapedEvent> = await scraper.scrapeDetails(event.sourceUrl);
             return { ...event, ...details };
           } catch (error) {
             await logError(db, {
@@ -320,7 +317,7 @@ export const POST = withAuth({ role: "ADMIN" }, async ({ request, db }) => {
           // Use the appropriate scraper based on source
           let details: Partial<ScrapedEvent> = {};
           try {
-            const detailsScraper = getDetailsScraper(event.sourceName);
+            const detailsScraper = await resolveDetailsScraper(db, event.sourceName);
             if (detailsScraper) {
               details = await detailsScraper(event.sourceUrl);
             }
@@ -684,7 +681,7 @@ export const PATCH = withAuth({ role: "ADMIN" }, async ({ request, db }) => {
         if (!event.sourceUrl) continue;
 
         // Use the appropriate scraper based on source
-        const detailsScraper = getDetailsScraper(event.sourceName);
+        const detailsScraper = await resolveDetailsScraper(db, event.sourceName);
         if (!detailsScraper) {
           // Unknown source, skip
           results.unchanged++;
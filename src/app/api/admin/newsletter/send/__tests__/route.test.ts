@@ -11,6 +11,9 @@
  * broadcast flag. Auth moved to withAuthorized (admin session OR X-Internal-Key)
  * so the MCP `send_newsletter_broadcast` tool can forward server-to-server; the
  * session path still authorizes via the mocked auth() below.
+ *
+ * drizzle/0237 — adds `preview_as`: render (or test-send) the issue as one
+ * subscriber gets it.
  */
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { NextRequest } from "next/server";
@@ -56,6 +59,15 @@ vi.mock("@/lib/cloudflare", () => ({
 vi.mock("@/lib/queues/producers", () => ({
   enqueueEmail: (job: unknown) => enqueueEmailMock(job),
 }));
+// The per-subscriber blocks ("Just added near you", "You might also like")
+// have their own tests under src/lib; here nobody has any unless a test says so.
+const personalSectionsMock = vi.fn(
+  async (_db: unknown, _recipients: string[]) => new Map<string, { html: string; text: string }>()
+);
+vi.mock("@/lib/newsletter/personalize", () => ({
+  buildWeekendPersonalSections: (db: unknown, recipients: string[]) =>
+    personalSectionsMock(db, recipients),
+}));
 
 import { POST } from "../route";
 
@@ -77,6 +89,7 @@ beforeEach(() => {
   enqueueEmailMock.mockClear();
   selectMock.mockReset();
   insertMock.mockClear();
+  personalSectionsMock.mockClear();
   insertedValues.length = 0;
   conflictSets.length = 0;
   sendEnabled = "false";
@@ -353,3 +366,124 @@ describe("sent_at is set ONLY by a real broadcast (OPE-285)", () => {
     expect(insertedValues).toHaveLength(0);
   });
 });
+
+describe("POST /api/admin/newsletter/send — preview_as (drizzle/0237)", () => {
+  const subscriberRow = {
+    email: "reader@x.com",
+    homeZip: "04101",
+    homeLatitude: 43.66,
+    homeLongitude: -70.26,
+    radiusMiles: 25,
+    categories: '["Craft Fair"]',
+  };
+  const selectSubscriber = (rows: unknown[]) =>
+    selectMock.mockReturnValueOnce({
+      from: () => ({ where: () => ({ limit: () => Promise.resolve(rows) }) }),
+    });
+  const nearYou = { html: "<p>NEAR-YOU-BLOCK</p>", text: "NEAR-YOU-BLOCK" };
+
+  it("400 when used for a broadcast", async () => {
+    admin();
+    sendEnabled = "true";
+    const res = await call({
+      subject: "Weekend digest",
+      content_html: "<p>hi</p>",
+      preview_as: "reader@x.com",
+    });
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as { error: string }).error).toBe("preview_as_needs_preview");
+    expect(enqueueEmailMock).not.toHaveBeenCalled();
+  });
+
+  it("404 for an address that isn't a subscriber", async () => {
+    admin();
+    selectSubscriber([]);
+    const res = await call({
+      subject: "Weekend digest",
+      content_html: "<p>hi</p>",
+      preview_only: true,
+      test_recipient: "me@x.com",
+      preview_as: "nobody@x.com",
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("preview_only returns that subscriber's rendered email, profile and cohort, writing nothing", async () => {
+    admin();
+    selectSubscriber([subscriberRow]);
+    personalSectionsMock.mockResolvedValueOnce(new Map([["reader@x.com", nearYou]]));
+    const res = await call({
+      subject: "Weekend digest",
+      content_html: "<p>hi</p>",
+      preview_only: true,
+      preview_as: "Reader@X.com",
+    });
+    expect(res.status).toBe(200);
+    const j = (await res.json()) as {
+      preview_as: { email: string; profile: { zip: string } | null; cohort: string | null };
+      rendered: { subject: string; html: string; text: string };
+    };
+    expect(j.preview_as.email).toBe("reader@x.com");
+    expect(j.preview_as.profile?.zip).toBe("04101");
+    expect(j.preview_as.cohort).toBe("04101|25|Craft Fair");
+    expect(j.rendered.html).toContain("NEAR-YOU-BLOCK");
+    expect(j.rendered.text).toContain("NEAR-YOU-BLOCK");
+    expect(personalSectionsMock).toHaveBeenCalledWith(expect.anything(), ["reader@x.com"]);
+    expect(insertMock).not.toHaveBeenCalled();
+    expect(enqueueEmailMock).not.toHaveBeenCalled();
+  });
+
+  it("a test send delivers the subscriber's version to the test address", async () => {
+    admin();
+    selectSubscriber([subscriberRow]);
+    personalSectionsMock.mockResolvedValueOnce(new Map([["reader@x.com", nearYou]]));
+    const res = await call({
+      subject: "Weekend digest",
+      content_html: "<p>hi</p>",
+      test_recipient: "me@x.com",
+      preview_as: "reader@x.com",
+    });
+    expect(res.status).toBe(200);
+    expect(enqueueEmailMock).toHaveBeenCalledTimes(1);
+    const job = enqueueEmailMock.mock.calls[0]?.[0] as { to: string; html: string };
+    expect(job.to).toBe("me@x.com");
+    expect(job.html).toContain("NEAR-YOU-BLOCK");
+  });
+});
+
+// drizzle/0238 — a broadcast's body links and open pixel are tracked against
+// the issue; a test send (the editor's preview) is not, or their own clicks
+// would land in the issue's report.
+describe("POST /api/admin/newsletter/send — engagement tracking (drizzle/0238)", () => {
+  const body = '<p><a href="https://example.test/events/harvest-fair">Harvest Fair</a></p>';
+  const job = () =>
+    enqueueEmailMock.mock.calls[0]?.[0] as { html: string; newsletterIssueSlug?: string };
+
+  it("a broadcast routes body links through the click redirect and stamps the issue slug", async () => {
+    admin();
+    sendEnabled = "true";
+    selectMock
+      .mockReturnValueOnce({
+        from: () => ({
+          innerJoin: () => ({ where: () => Promise.resolve([{ email: "sub@x.com" }]) }),
+        }),
+      })
+      .mockReturnValueOnce({ from: () => Promise.resolve([]) });
+    const res = await call({ subject: "Weekend digest", content_html: body });
+    const { issue_slug } = (await res.json()) as { issue_slug: string };
+    expect(job().newsletterIssueSlug).toBe(issue_slug);
+    expect(job().html).toContain("/api/newsletter/click?");
+    expect(job().html).not.toContain('href="https://example.test/events/harvest-fair"');
+    expect(job().html).toContain("/api/newsletter/open?");
+    // The footer's own links stay direct.
+    expect(job().html).toContain("/api/newsletter/unsubscribe?token=");
+  });
+
+  it("a test send is left untracked", async () => {
+    admin();
+    await call({ subject: "Weekend digest", content_html: body, test_recipient: "me@x.com" });
+    expect(job().newsletterIssueSlug).toBeUndefined();
+    expect(job().html).toContain('href="https://example.test/events/harvest-fair"');
+    expect(job().html).not.toContain("/api/newsletter/open?");
+  });
+});
@@ -18,22 +18,35 @@ export const dynamic = "force-dynamic";
  *    behind NEWSLETTER_SEND_ENABLED === "true" (OPE-6 customer-facing send).
  *    Sets the issue's sent_at.
  *
+ * `preview_as` (drizzle/0237) renders the issue as one subscriber gets it —
+ * their "Just added near you" and "You might also like" blocks, from their
+ * profile and favorites. It narrows the two non-broadcast modes only: with
+ * `preview_only` the response carries the rendered email and the subscriber's
+ * profile/cohort; with `test_recipient` the test address receives that
+ * subscriber's version. A broadcast "as" someone means nothing, so it's a 400.
+ *
  * Auth (OPE-190): withAuthorized — an admin session OR X-Internal-Key, so the
  * MCP-server `send_newsletter_broadcast` tool can forward here without a
  * Next.js session cookie (mirrors the /api/admin/duplicates/merge pattern).
  *
- * Body: { subject, content_html, content_text?, test_recipient?, preview_only? }.
+ * Body: { subject, content_html, content_text?, test_recipient?, preview_only?,
+ *         preview_as? }.
  */
 import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
 import { withAuthorized } from "@/lib/api/with-auth";
+import type { Database } from "@/lib/db";
 import { getCloudflareEnv } from "@/lib/cloudflare";
-import { newsletterIssues } from "@/lib/db/schema";
+import { newsletterIssues, newsletterSubscribers } from "@/lib/db/schema";
 import { resolveUnsubscribeSecret } from "@/lib/email/newsletter-unsubscribe-token";
 import { resolveApproveSecret, signApproveToken } from "@/lib/email/newsletter-approve-token";
 import {
   enqueueNewsletterDigest,
+  renderNewsletterDigestFor,
   selectBroadcastRecipients,
 } from "@/lib/email/newsletter-broadcast";
+import { buildWeekendPersonalSections } from "@/lib/newsletter/personalize";
+import { cohortKey, profileFromRow } from "@/lib/newsletter/subscriber-profile";
 import { getSiteUrl } from "@/lib/email/send";
 import { createSlug } from "@takemetothefair/utils";
 
@@ -47,6 +60,7 @@ type Body = {
   content_text?: unknown;
   test_recipient?: unknown;
   preview_only?: unknown;
+  preview_as?: unknown;
 };
 
 export const POST = withAuthorized(async ({ request, db }) => {
@@ -62,12 +76,23 @@ export const POST = withAuthorized(async ({ request, db }) => {
   const testRecipient =
     typeof body.test_recipient === "string" ? body.test_recipient.trim().toLowerCase() : "";
   const previewOnly = body.preview_only === true;
+  const previewAs = typeof body.preview_as === "string" ? body.preview_as.trim().toLowerCase() : "";
   if (!subject || !contentHtml) {
     return NextResponse.json(
       { error: "missing_fields", message: "`subject` and `content_html` are required." },
       { status: 400 }
     );
   }
+  if (previewAs && !previewOnly && !testRecipient) {
+    return NextResponse.json(
+      {
+        error: "preview_as_needs_preview",
+        message:
+          "`preview_as` needs `preview_only` or `test_recipient` — a broadcast can't be sent as one subscriber.",
+      },
+      { status: 400 }
+    );
+  }
 
   const isBroadcast = !testRecipient;
   const env = getCloudflareEnv() as unknown as Record<string, string | undefined>;
@@ -91,6 +116,54 @@ export const POST = withAuthorized(async ({ request, db }) => {
   const slug = `${createSlug(subject)}-${now.toISOString().slice(0, 10)}`.slice(0, 120);
   const viewInBrowserUrl = `${siteUrl}/newsletter/${slug}`;
 
+  // The subscriber being previewed, when there is one. Any row will do —
+  // previewing someone who has since unsubscribed is still a fair question.
+  let previewSubscriber: typeof newsletterSubscribers.$inferSelect | undefined;
+  if (previewAs) {
+    [previewSubscriber] = await db
+      .select()
+      .from(newsletterSubscribers)
+      .where(eq(newsletterSubscribers.email, previewAs))
+      .limit(1);
+    if (!previewSubscriber) {
+      return NextResponse.json(
+        { error: "unknown_subscriber", message: `No newsletter subscriber ${previewAs}.` },
+        { status: 404 }
+      );
+    }
+  }
+
+  // A preview-as pre-flight answers "what does this subscriber get", so it
+  // skips the list resolution below entirely. Equally read-only.
+  if (previewOnly && previewSubscriber) {
+    const secret = resolveUnsubscribeSecret(env);
+    if (!secret) {
+      return NextResponse.json(
+        { error: "no_secret", message: "No unsubscribe signing secret configured." },
+        { status: 500 }
+      );
+    }
+    const profile = profileFromRow(previewSubscriber);
+    const rendered = await renderNewsletterDigestFor(previewAs, {
+      subject,
+      contentHtml,
+      contentText,
+      viewInBrowserUrl,
+      siteUrl,
+      secret,
+      mailingAddress: env.MAILING_ADDRESS,
+      personalSections: await buildWeekendPersonalSections(db, [previewAs], { siteUrl, now }),
+    });
+    return NextResponse.json({
+      success: true,
+      preview: true,
+      mode: isBroadcast ? "broadcast" : "test",
+      preview_as: { email: previewAs, profile, cohort: cohortKey(profile) || null },
+      rendered: { subject: rendered.subject, html: rendered.html, text: rendered.text },
+      view_in_browser: viewInBrowserUrl,
+    });
+  }
+
   // Resolve recipients (identical selection for preview and a real send). The
   // broadcast selection is shared with the OPE-231 approve route so both honour
   // the same suppression list.
@@ -187,6 +260,10 @@ export const POST = withAuthorized(async ({ request, db }) => {
     mailingAddress,
     approveUrl,
     approveDisabled,
+    personalSections: await personalSectionsFor(db, recipients, previewAs, { siteUrl, now }),
+    // drizzle/0238 — only a broadcast is tracked; a test send's opens would
+    // land in the issue's report.
+    trackIssueSlug: isBroadcast ? slug : undefined,
   });
 
   return NextResponse.json({
@@ -197,3 +274,19 @@ export const POST = withAuthorized(async ({ request, db }) => {
     recipients: queued,
   });
 });
+
+/**
+ * The personal blocks for this send. A test send with `preview_as` hands the
+ * tester that subscriber's blocks; otherwise everyone — the tester included —
+ * gets their own.
+ */
+async function personalSectionsFor(
+  db: Database,
+  recipients: string[],
+  previewAs: string,
+  opts: { siteUrl: string; now: Date }
+): Promise<Map<string, { html: string; text: string }>> {
+  if (!previewAs) return buildWeekendPersonalSections(db, recipients, opts);
+  const section = (await buildWeekendPersonalSections(db, [previewAs], opts)).get(previewAs);
+  return new Map(section ? recipients.map((email) => [email, section]) : []);
+}
@@ -12,6 +12,8 @@
  * value is that a real, reviewable issue still appears at /newsletter/{slug}
  * every Monday while the flag is off. A version that skipped the write would
  * pass a naive "didn't send" test and be useless.
+ *
+ * drizzle/0237 — sends are per subscriber cohort; the persisted issue isn't.
  */
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { NextRequest } from "next/server";
@@ -20,6 +22,8 @@ const authMock = vi.fn();
 const enqueueEmailMock = vi.fn(async (_job?: unknown) => {});
 const selectEventsMock = vi.fn();
 const selectRecipientsMock = vi.fn();
+const loadProfilesMock = vi.fn(async () => new Map<string, unknown>());
+const digestCallsMock = vi.fn();
 let broadcastEnabled = "false";
 
 const insertedValues: Array<Record<string, unknown>> = [];
@@ -40,15 +44,26 @@ vi.mock("@/lib/cloudflare", () => ({
   }),
 }));
 vi.mock("@/lib/queues/producers", () => ({ enqueueEmail: enqueueEmailMock }));
-vi.mock("@/lib/newsletter/new-this-week", () => ({
+vi.mock("@/lib/newsletter/new-this-week", async (orig) => ({
+  ...((await orig()) as Record<string, unknown>),
   selectNewThisWeekEvents: () => selectEventsMock(),
 }));
+vi.mock("@/lib/newsletter/subscriber-profile", async (orig) => ({
+  ...((await orig()) as Record<string, unknown>),
+  loadSubscriberProfiles: () => loadProfilesMock(),
+}));
 vi.mock("@/lib/email/newsletter-broadcast", async (orig) => {
   const actual = (await orig()) as Record<string, unknown>;
   return {
     ...actual,
     selectBroadcastRecipients: () => selectRecipientsMock(),
-    enqueueNewsletterDigest: async (args: { recipients: string[]; source?: string }) => {
+    enqueueNewsletterDigest: async (args: {
+      recipients: string[];
+      source?: string;
+      subject: string;
+      contentHtml: string;
+    }) => {
+      digestCallsMock(args);
       for (const r of args.recipients) await enqueueEmailMock({ to: r, source: args.source });
       return args.recipients.length;
     },
@@ -93,6 +108,7 @@ beforeEach(() => {
   authMock.mockResolvedValue({ user: { id: "u1", role: "ADMIN" } });
   selectEventsMock.mockResolvedValue([SHOW]);
   selectRecipientsMock.mockResolvedValue(["vendor@example.com"]);
+  loadProfilesMock.mockResolvedValue(new Map());
 });
 
 describe("refusal 1 — no qualifying shows", () => {
@@ -208,3 +224,63 @@ describe("dry_run", () => {
     expect(enqueueEmailMock).not.toHaveBeenCalled();
   });
 });
+
+describe("per-cohort sends (drizzle/0237)", () => {
+  const CRAFT_SHOW = {
+    ...SHOW,
+    id: "e2",
+    slug: "craft-show",
+    name: "Harvest Craft Show",
+    categories: ["Craft Fair"],
+  };
+
+  it("narrows each cohort's digest and subject count, but persists the full issue", async () => {
+    broadcastEnabled = "true";
+    selectEventsMock.mockResolvedValue([SHOW, CRAFT_SHOW]);
+    selectRecipientsMock.mockResolvedValue(["plain@example.com", "crafter@example.com"]);
+    loadProfilesMock.mockResolvedValue(
+      new Map([
+        [
+          "crafter@example.com",
+          { zip: null, center: null, radiusMiles: 25, categories: ["Craft Fair"] },
+        ],
+      ])
+    );
+
+    const json = (await (await call()).json()) as Record<string, unknown>;
+
+    expect(json).toMatchObject({ sent: true, queued: 2, cohort_count: 2 });
+    const sends = digestCallsMock.mock.calls.map(
+      ([a]) => a as { recipients: string[]; subject: string; contentHtml: string }
+    );
+    expect(sends.map((s) => [s.recipients, s.subject])).toEqual([
+      [["plain@example.com"], "New This Week — shows just added (2)"],
+      [["crafter@example.com"], "New This Week — shows just added (1)"],
+    ]);
+    expect(sends[1]!.contentHtml).toContain("Harvest Craft Show");
+    expect(sends[1]!.contentHtml).not.toContain("Cummington Fair");
+    expect(sends[1]!.contentHtml).toContain("Shows Craft Fair, from your newsletter preferences.");
+    expect(insertedValues[0]!.html).toContain("Cummington Fair");
+    expect(insertedValues[0]!.html).toContain("Harvest Craft Show");
+  });
+
+  it("falls back to the full list, saying so, when a profile matches nothing", async () => {
+    await call({ test_recipient: "me@example.com" });
+    expect(digestCallsMock).toHaveBeenCalledTimes(1);
+
+    digestCallsMock.mockClear();
+    loadProfilesMock.mockResolvedValue(
+      new Map([
+        [
+          "me@example.com",
+          { zip: null, center: null, radiusMiles: 25, categories: ["Flea Market"] },
+        ],
+      ])
+    );
+    await call({ test_recipient: "me@example.com" });
+    const [args] = digestCallsMock.mock.calls[0]! as [{ subject: string; contentHtml: string }];
+    expect(args.subject).toBe("New This Week — shows just added (1)");
+    expect(args.contentHtml).toContain("Cummington Fair");
+    expect(args.contentHtml).toContain("Nothing new Flea Market this week");
+  });
+});
@@ -19,6 +19,11 @@ export const dynamic = "force-dynamic";
  *
  * A broadcast is only reached when none of those apply, which is deliberately
  * the hardest path to arrive at by accident.
+ *
+ * Sends are per cohort (drizzle/0237, src/lib/newsletter/personalize.ts): a
+ * vendor with a home ZIP or categories gets the week narrowed to them, with
+ * the count in the subject matching what they got. The persisted issue — the
+ * /newsletter/{slug} page — is always the full, unnarrowed list.
  */
 import { NextResponse } from "next/server";
 import { withAuthorized } from "@/lib/api/with-auth";
@@ -31,6 +36,8 @@ import {
   VENDOR_DIGEST_SOURCE,
 } from "@/lib/email/newsletter-broadcast";
 import { selectNewThisWeekEvents } from "@/lib/newsletter/new-this-week";
+import { groupByCohort, vendorCohortContent } from "@/lib/newsletter/personalize";
+import { loadSubscriberProfiles } from "@/lib/newsletter/subscriber-profile";
 import { renderVendorDigestContent } from "@/lib/email/vendor-digest";
 import { getSiteUrl } from "@/lib/email/send";
 import { createSlug } from "@takemetothefair/utils";
@@ -78,6 +85,7 @@ export const POST = withAuthorized(async ({ request, db }) => {
     : broadcastEnabled
       ? await selectBroadcastRecipients(db, "vendor")
       : [];
+  const cohorts = groupByCohort(recipients, await loadSubscriberProfiles(db, recipients));
 
   if (dryRun) {
     return NextResponse.json({
@@ -89,6 +97,7 @@ export const POST = withAuthorized(async ({ request, db }) => {
       would_broadcast: isBroadcast,
       broadcast_enabled: broadcastEnabled,
       recipient_count: recipients.length,
+      cohort_count: cohorts.length,
       view_in_browser: viewInBrowserUrl,
     });
   }
@@ -140,16 +149,22 @@ export const POST = withAuthorized(async ({ request, db }) => {
     );
   }
 
-  const queued = await enqueueNewsletterDigest({
-    recipients,
-    subject,
-    contentHtml,
-    viewInBrowserUrl,
-    siteUrl,
-    secret,
-    mailingAddress: env.MAILING_ADDRESS,
-    source: VENDOR_DIGEST_SOURCE,
-  });
+  let queued = 0;
+  for (const cohort of cohorts) {
+    const content = vendorCohortContent(events, cohort.profile, now);
+    if (!content) continue;
+    queued += await enqueueNewsletterDigest({
+      recipients: cohort.recipients,
+      subject: `${SUBJECT_STEM} (${content.count})`,
+      contentHtml: content.html,
+      viewInBrowserUrl,
+      siteUrl,
+      secret,
+      mailingAddress: env.MAILING_ADDRESS,
+      source: VENDOR_DIGEST_SOURCE,
+      trackIssueSlug: isBroadcast ? slug : undefined,
+    });
+  }
 
   return NextResponse.json({
     success: true,
@@ -158,6 +173,7 @@ export const POST = withAuthorized(async ({ request, db }) => {
     event_count: events.length,
     slug,
     queued,
+    cohort_count: cohorts.length,
     view_in_browser: viewInBrowserUrl,
   });
 });
@@ -0,0 +1,56 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withAuth } from "@/lib/api/with-auth";
+import { logError } from "@/lib/logger";
+import { moderateReview } from "@/lib/reviews/moderation";
+
+const bodySchema = z.object({
+  reviewId: z.string().min(1),
+  action: z.enum(["hide", "restore", "dismiss_reports", "remove_reply"]),
+  note: z.string().max(1000).optional(),
+});
+
+/**
+ * Admin moderation of vendor event reviews from the /admin/reviews queue.
+ * Hiding needs a note — it's what the vendor is told if they ask why.
+ * `{ ok:false, reason }` from the core maps to 409 (the review isn't in a
+ * state the action applies to).
+ */
+export const POST = withAuth(
+  { role: "ADMIN", source: "api/admin/reviews" },
+  async ({ request, db, session }) => {
+    let parsed: z.infer<typeof bodySchema>;
+    try {
+      parsed = bodySchema.parse(await request.json());
+    } catch {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const { reviewId, action, note } = parsed;
+    if (action === "hide" && (!note || note.trim().length === 0)) {
+      return NextResponse.json({ error: "A note is required to hide a review" }, { status: 400 });
+    }
+
+    try {
+      const result = await moderateReview(db, {
+        reviewId,
+        action,
+        actorUserId: session.user.id,
+        note: note ?? null,
+      });
+      if (!result.ok) {
+        return NextResponse.json({ error: result.reason, ...result }, { status: 409 });
+      }
+      return NextResponse.json(result, { status: 200 });
+    } catch (error) {
+      await logError(db, {
+        message: "Failed to moderate review",
+        error,
+        source: "api/admin/reviews",
+        request,
+      });
+      return NextResponse.json({ error: "Failed to moderate review" }, { status: 500 });
+    }
+  }
+);
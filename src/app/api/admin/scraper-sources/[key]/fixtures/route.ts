@@ -0,0 +1,100 @@
+export const dynamic = "force-dynamic";
+/**
+ * Saved pages the dry-run preview runs against.
+ *
+ * GET    → fixture list (url, size, capturedAt — no bodies)
+ * POST   → save a fixture. Body: { url, body? }. With `body` the pasted page
+ *          is stored as-is (sites that block the Worker, pages behind a login
+ *          the admin opened themselves); without it the URL is fetched once,
+ *          now, with the scrapers' user agent. Re-saving a URL replaces it.
+ * DELETE → remove one. Body: { id }
+ */
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withAuth } from "@/lib/api/with-auth";
+import { validateRequestBody } from "@/lib/validations";
+import {
+  MAX_FIXTURE_BYTES,
+  deleteFixture,
+  getScraperSource,
+  listFixtures,
+  saveFixture,
+} from "@/lib/scrapers/declarative/store";
+import { fetchLivePage } from "@/lib/scrapers/declarative/run";
+
+const SOURCE = "api/admin/scraper-sources/[key]/fixtures";
+
+const saveSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((u) => /^https?:\/\//i.test(u), "Must be an http(s) URL"),
+  body: z.string().min(1).optional(),
+});
+
+const deleteSchema = z.object({ id: z.string().min(1) });
+
+export const GET = withAuth<{ key: string }>(
+  { role: "ADMIN", source: SOURCE },
+  async ({ db, params }) => {
+    const fixtures = await listFixtures(db, params.key);
+    return NextResponse.json({ fixtures });
+  }
+);
+
+export const POST = withAuth<{ key: string }>(
+  { role: "ADMIN", source: SOURCE },
+  async ({ request, db, params }) => {
+    // Fixtures hang off the source row (FK): save the source first.
+    if (!(await getScraperSource(db, params.key))) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+
+    const validation = await validateRequestBody(request, saveSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const { url } = validation.data;
+
+    let body = validation.data.body ?? null;
+    if (body === null) {
+      try {
+        body = await fetchLivePage(url);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Fetch failed";
+        return NextResponse.json(
+          { error: `Could not capture ${url}: ${message}` },
+          { status: 502 }
+        );
+      }
+    }
+    if (!body) {
+      return NextResponse.json({ error: `${url} returned an empty page` }, { status: 502 });
+    }
+    const bytes = new TextEncoder().encode(body).length;
+    if (bytes > MAX_FIXTURE_BYTES) {
+      return NextResponse.json(
+        { error: `Page is ${bytes} bytes; fixtures are capped at ${MAX_FIXTURE_BYTES}` },
+        { status: 413 }
+      );
+    }
+
+    await saveFixture(db, { key: params.key, url, body });
+    return NextResponse.json({ url, bytes }, { status: 201 });
+  }
+);
+
+export const DELETE = withAuth<{ key: string }>(
+  { role: "ADMIN", source: SOURCE },
+  async ({ request, db, params }) => {
+    const validation = await validateRequestBody(request, deleteSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const deleted = await deleteFixture(db, params.key, validation.data.id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Fixture not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  }
+);
@@ -0,0 +1,51 @@
+export const dynamic = "force-dynamic";
+/**
+ * Dry run of a scraper definition against the source's saved fixtures.
+ *
+ * POST { definition? } → { events, pages, warnings, error? }
+ *
+ * Without `definition` the stored one runs; with it the unsaved draft from
+ * the editor runs instead, so selectors can be tuned before saving. Nothing
+ * is fetched and nothing is imported — a URL with no fixture reads as the
+ * end of pagination.
+ */
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withAuth } from "@/lib/api/with-auth";
+import { scraperDefinitionSchema, validateRequestBody } from "@/lib/validations";
+import { fixtureFetcher, getScraperSource } from "@/lib/scrapers/declarative/store";
+import { runScraperDefinition } from "@/lib/scrapers/declarative/run";
+
+const previewSchema = z.object({ definition: scraperDefinitionSchema.optional() });
+
+export const POST = withAuth<{ key: string }>(
+  { role: "ADMIN", source: "api/admin/scraper-sources/[key]/preview" },
+  async ({ request, db, params }) => {
+    const validation = await validateRequestBody(request, previewSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    let definition = validation.data.definition;
+    if (!definition) {
+      const stored = await getScraperSource(db, params.key);
+      if (!stored) {
+        return NextResponse.json({ error: "Source not found" }, { status: 404 });
+      }
+      if (!stored.definition) {
+        return NextResponse.json(
+          { error: "The stored definition is no longer valid" },
+          { status: 400 }
+        );
+      }
+      definition = stored.definition;
+    }
+
+    const result = await runScraperDefinition(
+      params.key,
+      definition,
+      await fixtureFetcher(db, params.key)
+    );
+    return NextResponse.json(result);
+  }
+);
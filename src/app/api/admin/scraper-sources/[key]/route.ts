@@ -0,0 +1,74 @@
+export const dynamic = "force-dynamic";
+/**
+ * One config-driven scraper source.
+ *
+ * GET    → the source
+ * PUT    → partial update. Body: { label?, enabled?, definition? }
+ * DELETE → remove it and (FK cascade) its fixtures. Events already imported
+ *          from it keep their sourceName and simply stop being re-scraped.
+ */
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { scraperSourceUpdateSchema, validateRequestBody } from "@/lib/validations";
+import {
+  deleteScraperSource,
+  getScraperSource,
+  saveScraperSource,
+} from "@/lib/scrapers/declarative/store";
+
+const SOURCE = "api/admin/scraper-sources/[key]";
+
+export const GET = withAuth<{ key: string }>(
+  { role: "ADMIN", source: SOURCE },
+  async ({ db, params }) => {
+    const source = await getScraperSource(db, params.key);
+    if (!source) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+    return NextResponse.json(source);
+  }
+);
+
+export const PUT = withAuth<{ key: string }>(
+  { role: "ADMIN", source: SOURCE },
+  async ({ request, db, session, params }) => {
+    const existing = await getScraperSource(db, params.key);
+    if (!existing) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+
+    const validation = await validateRequestBody(request, scraperSourceUpdateSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    // A stored definition that stopped validating has to be replaced, not kept.
+    const definition = validation.data.definition ?? existing.definition;
+    if (!definition) {
+      return NextResponse.json(
+        { error: "The stored definition is no longer valid; send a replacement" },
+        { status: 400 }
+      );
+    }
+
+    await saveScraperSource(db, {
+      key: existing.key,
+      label: validation.data.label ?? existing.label,
+      enabled: validation.data.enabled ?? existing.enabled,
+      definition,
+      userId: session.user.id,
+    });
+    return NextResponse.json({ key: existing.key });
+  }
+);
+
+export const DELETE = withAuth<{ key: string }>(
+  { role: "ADMIN", source: SOURCE },
+  async ({ db, params }) => {
+    const deleted = await deleteScraperSource(db, params.key);
+    if (!deleted) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  }
+);
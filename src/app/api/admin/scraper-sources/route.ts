@@ -0,0 +1,52 @@
+export const dynamic = "force-dynamic";
+/**
+ * Admin CRUD for config-driven scraper sources (drizzle/0229).
+ *
+ * GET  → every stored source, enabled or not, with its parsed definition
+ *        (`definition: null` when the stored JSON no longer validates)
+ * POST → create. Body: { key, label, enabled?, definition }
+ *
+ * A key that a hand-written module already answers to is refused: the
+ * registry resolves code modules first, so the definition would never run.
+ */
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { scraperSourceCreateSchema, validateRequestBody } from "@/lib/validations";
+import { getScraper } from "@/lib/scrapers/registry";
+import {
+  getScraperSource,
+  listScraperSources,
+  saveScraperSource,
+} from "@/lib/scrapers/declarative/store";
+
+export const GET = withAuth(
+  { role: "ADMIN", source: "api/admin/scraper-sources" },
+  async ({ db }) => {
+    const sources = await listScraperSources(db);
+    return NextResponse.json({ sources });
+  }
+);
+
+export const POST = withAuth(
+  { role: "ADMIN", source: "api/admin/scraper-sources" },
+  async ({ request, db, session }) => {
+    const validation = await validateRequestBody(request, scraperSourceCreateSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const { key, label, enabled, definition } = validation.data;
+
+    if (getScraper(key)) {
+      return NextResponse.json(
+        { error: `"${key}" is a built-in scraper; pick another key` },
+        { status: 409 }
+      );
+    }
+    if (await getScraperSource(db, key)) {
+      return NextResponse.json({ error: "A source with this key already exists" }, { status: 409 });
+    }
+
+    await saveScraperSource(db, { key, label, enabled, definition, userId: session.user.id });
+    return NextResponse.json({ key }, { status: 201 });
+  }
+);
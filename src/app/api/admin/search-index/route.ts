@@ -0,0 +1,32 @@
+export const dynamic = "force-dynamic";
+/**
+ * Admin view and repair of the full-text search index (drizzle/0230).
+ *
+ * GET  → per-section document counts next to their source tables' row counts
+ * POST → backfill/rebuild. Body: { entities?: ("event"|"venue"|"vendor"|"blog")[] }
+ *        (omit `entities` for all four); returns the counts afterwards
+ *
+ * Triggers keep the index current on every write, so this is for drift, a
+ * bulk load that bypassed them, or a change to what a document contains.
+ */
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { searchIndexRebuildSchema, validateRequestBody } from "@/lib/validations";
+import { getSearchIndexCounts, rebuildSearchIndex } from "@/lib/search/index-sync";
+
+export const GET = withAuth({ role: "ADMIN", source: "api/admin/search-index" }, async ({ db }) => {
+  const counts = await getSearchIndexCounts(db);
+  return NextResponse.json({ counts });
+});
+
+export const POST = withAuth(
+  { role: "ADMIN", source: "api/admin/search-index" },
+  async ({ request, db }) => {
+    const validation = await validateRequestBody(request, searchIndexRebuildSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const counts = await rebuildSearchIndex(db, validation.data.entities);
+    return NextResponse.json({ counts });
+  }
+);
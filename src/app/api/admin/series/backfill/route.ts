@@ -223,6 +223,7 @@ async function commitBackfill(
       startDate: events.startDate,
       completenessScore: events.completenessScore,
       recurrenceRule: events.recurrenceRule,
+      recurrenceExdates: events.recurrenceExdates,
       description: events.description,
       imageUrl: events.imageUrl,
       categories: events.categories,
@@ -282,6 +283,7 @@ async function commitBackfill(
         venueId: d.venueId,
         promoterId: d.promoterId,
         recurrenceRule: d.recurrenceRule,
+        recurrenceExdates: d.recurrenceExdates,
         description: d.description,
         imageUrl: d.imageUrl,
         categories: d.categories ?? "[]",
@@ -1,6 +1,7 @@
 export const dynamic = "force-dynamic";
 import { NextResponse } from "next/server";
 import { withAuth } from "@/lib/api/with-auth";
+import { requireRecentStepUp } from "@/lib/api-auth";
 import { users, adminActions } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { userUpdateSchema, validateRequestBody } from "@/lib/validations";
@@ -27,6 +28,12 @@ export const PATCH = withAuth<{ id: string }>(
       .where(eq(users.id, id))
       .limit(1);
 
+    // drizzle/0241 — granting or revoking a role needs a recent step-up.
+    if (data.role && priorUser && data.role !== priorUser.role) {
+      const stepUp = await requireRecentStepUp();
+      if (stepUp) return stepUp;
+    }
+
     const updateData: Record<string, unknown> = { updatedAt: new Date() };
     if (data.role) updateData.role = data.role;
     if (data.name !== undefined) updateData.name = data.name;
@@ -8,6 +8,7 @@ import { eq, isNull, inArray, and } from "drizzle-orm";
 import { lookupPlace } from "@/lib/google-maps";
 import { logError } from "@/lib/logger";
 import { createSlug } from "@/lib/utils";
+import { withoutOwnerEdits } from "@/lib/venues/owner";
 
 export const POST = withAuth({ role: "ADMIN" }, async ({ request, db, session }) => {
   const env = getCloudflareEnv();
@@ -96,7 +97,11 @@ export const POST = withAuth({ role: "ADMIN" }, async ({ request, db, session })
             skippedPhotos++;
           }
         }
-        await db.update(venues).set(updates).where(eq(venues.id, venue.id));
+        // A claimed venue's owner may already have written its hours, parking
+        // or accessibility notes (or photo) from the /venue portal; Google fills
+        // only the ones they left blank.
+        const applied = withoutOwnerEdits(venue, updates);
+        await db.update(venues).set(applied).where(eq(venues.id, venue.id));
         // OPE-433 scope 5 — this sweep can overwrite `name` and `imageUrl` from
         // Google, which is exactly the OPE-421 shape (a venue's name replaced
         // by something else). An unattributed rename of a published venue is
@@ -106,8 +111,8 @@ export const POST = withAuth({ role: "ADMIN" }, async ({ request, db, session })
           entityId: venue.id,
           verb: "update",
           actor: session.user.id,
-          before: { name: venue.name, imageUrl: venue.imageUrl },
-          after: updates,
+          before: venue,
+          after: applied,
           note: "google places backfill sweep",
         });
         success++;
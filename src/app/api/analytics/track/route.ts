@@ -56,6 +56,11 @@ const ALLOWED_EVENT_NAMES = [
   // as claim_view_server (ad-block-resilient). The three deeper claim-funnel
   // conversions fire from pure server routes, not this beacon.
   "claim_view",
+  // Embeddable widget (src/lib/widget/render.ts). Beaconed from inside the
+  // iframe, which is edge-cached — so this, not the render, is the count.
+  // kind/slug/host in properties identify the embed.
+  "widget_impression",
+  "widget_click",
   // OPE-364 — per-step funnel instrumentation. The `*_form_interacted` steps
   // are the point of the ticket: OPE-361's signature is "page viewed, form
   // never touched", and a funnel counting only views and submissions cannot
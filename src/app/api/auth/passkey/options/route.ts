@@ -0,0 +1,32 @@
+export const dynamic = "force-dynamic";
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { beginPasskeyAssertion } from "@/lib/auth/passkeys";
+import { relyingPartyFor } from "@/lib/auth/webauthn";
+import { logError } from "@/lib/logger";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+// POST - Request options for "Sign in with a passkey". Anonymous: the passkey
+// the browser picks names the account, and the `passkey` provider in
+// src/lib/auth.ts verifies the assertion against this challenge.
+export async function POST(request: NextRequest) {
+  const limit = await checkRateLimit(request, "auth-two-factor");
+  if (!limit.allowed) return rateLimitResponse(limit);
+
+  const db = getCloudflareDb();
+  try {
+    const options = await beginPasskeyAssertion(db, {
+      userId: null,
+      rpId: relyingPartyFor(request.url).rpId,
+    });
+    return NextResponse.json(options);
+  } catch (error) {
+    await logError(db, {
+      message: "Failed to issue passkey sign-in challenge",
+      error,
+      source: "api/auth/passkey/options",
+      request,
+    });
+    return NextResponse.json({ error: "Something went wrong" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+export const dynamic = "force-dynamic";
+/**
+ * Step-up re-authentication (drizzle/0241): a signed-in user re-enters a code
+ * or passkey, and this session may perform the step-up-gated admin actions
+ * (requireRecentStepUp in src/lib/api-auth.ts) for the next
+ * STEP_UP_WINDOW_MS.
+ */
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { getAuthSecret } from "@/lib/auth";
+import { markSessionSteppedUp, STEP_UP_WINDOW_MS } from "@/lib/auth/login-events";
+import { verifySecondFactor } from "@/lib/auth/two-factor";
+import { relyingPartyFor } from "@/lib/auth/webauthn";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { secondFactorProofSchema, validateRequestBody } from "@/lib/validations";
+
+export const POST = withAuth({ source: "api/auth/step-up" }, async ({ request, db, session }) => {
+  const sid = session.user.sessionId;
+  if (!sid) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const limit = await checkRateLimit(request, "auth-two-factor");
+  if (!limit.allowed) return rateLimitResponse(limit);
+
+  const validation = await validateRequestBody(request, secondFactorProofSchema);
+  if (!validation.success) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+  const { origin, rpId } = relyingPartyFor(request.url);
+  const factor = await verifySecondFactor(db, {
+    userId: session.user.id,
+    proof: validation.data,
+    authSecret: getAuthSecret(),
+    origin,
+    rpId,
+  });
+  if (!factor) {
+    return NextResponse.json({ error: "That code or passkey didn't match." }, { status: 400 });
+  }
+  await markSessionSteppedUp(db, { sid, userId: session.user.id });
+  return NextResponse.json({
+    success: true,
+    expiresAt: new Date(Date.now() + STEP_UP_WINDOW_MS).toISOString(),
+  });
+});
@@ -0,0 +1,24 @@
+export const dynamic = "force-dynamic";
+import { NextRequest, NextResponse } from "next/server";
+import { auth, getPendingTwoFactorSession } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { beginPasskeyAssertion } from "@/lib/auth/passkeys";
+import { relyingPartyFor } from "@/lib/auth/webauthn";
+
+// POST - Request options for using a passkey as the second factor: either to
+// finish a pending sign-in (/login/two-factor) or to step up a signed-in
+// session. The allow-list is the caller's own passkeys.
+export async function POST(request: NextRequest) {
+  const pending = await getPendingTwoFactorSession();
+  const userId = pending?.userId ?? (await auth())?.user?.id;
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const options = await beginPasskeyAssertion(getCloudflareDb(), {
+    userId,
+    rpId: relyingPartyFor(request.url).rpId,
+  });
+  if (options.allowCredentialIds.length === 0) {
+    return NextResponse.json({ error: "No passkeys registered" }, { status: 404 });
+  }
+  return NextResponse.json(options);
+}
@@ -0,0 +1,67 @@
+export const dynamic = "force-dynamic";
+/**
+ * Finish a sign-in that is waiting on its second factor (drizzle/0241).
+ *
+ * Only a pending session reaches this — see getPendingTwoFactorSession. On a
+ * match the session's login_events row is marked verified; the client then
+ * calls next-auth's `update()`, whose jwt callback reads that row and flips
+ * the token to "verified". Nothing the client sends can flip it directly.
+ *
+ * `auth()` doesn't count a pending session, so the rate limit here is per IP;
+ * the per-account cap on wrong codes lives in verifyTotpOrRecoveryCode, and a
+ * refused code on a locked account gets a 429 saying until when.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthSecret, getPendingTwoFactorSession } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { markSessionVerified } from "@/lib/auth/login-events";
+import { codeEntryLockedUntil, verifySecondFactor } from "@/lib/auth/two-factor";
+import { relyingPartyFor } from "@/lib/auth/webauthn";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { secondFactorProofSchema, validateRequestBody } from "@/lib/validations";
+
+export async function POST(request: NextRequest) {
+  const pending = await getPendingTwoFactorSession();
+  if (!pending) {
+    return NextResponse.json({ error: "No sign-in is waiting for a code" }, { status: 401 });
+  }
+  const limit = await checkRateLimit(request, "auth-two-factor");
+  if (!limit.allowed) return rateLimitResponse(limit);
+
+  const validation = await validateRequestBody(request, secondFactorProofSchema);
+  if (!validation.success) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  const db = getCloudflareDb();
+  const { origin, rpId } = relyingPartyFor(request.url);
+  const factor = await verifySecondFactor(db, {
+    userId: pending.userId,
+    proof: validation.data,
+    authSecret: getAuthSecret(),
+    origin,
+    rpId,
+  });
+  if (!factor) {
+    const lockedUntil =
+      "code" in validation.data ? await codeEntryLockedUntil(db, pending.userId) : null;
+    if (lockedUntil) {
+      const retryAfter = Math.ceil((lockedUntil.getTime() - Date.now()) / 1000);
+      return NextResponse.json(
+        {
+          error:
+            "Too many wrong codes, so codes are paused on this account for now. We've emailed you. Use a passkey, or try again later.",
+          lockedUntil: lockedUntil.toISOString(),
+        },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+    return NextResponse.json({ error: "That code or passkey didn't match." }, { status: 400 });
+  }
+  await markSessionVerified(db, {
+    sid: pending.sessionId,
+    userId: pending.userId,
+    secondFactor: factor,
+  });
+  return NextResponse.json({ success: true, secondFactor: factor });
+}
@@ -0,0 +1,69 @@
+export const dynamic = "force-dynamic";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { calendarFeedResponse, calendarNotFound } from "@/lib/calendar/feed-response";
+import type { FeedScope } from "@/lib/calendar/feed-query";
+import type { FilterableSearchParams } from "@/lib/events-filter-count";
+import { resolveFacet, stateHasFacets } from "@/lib/events/facets";
+import { resolveNearSearch } from "@/lib/near-search";
+import { getStateName, getStateSlug } from "@/lib/states";
+
+/**
+ * GET /api/calendar/events?state=MA&category=Craft+Fair&facet=august
+ *
+ * Subscribable feed of an /events listing. Takes the listing's own query
+ * params, so the subscribe link on a filtered page is that page's query string
+ * pointed here. `facet` additionally narrows to a `/events/{state}/{facet}`
+ * page and requires `state`; `near`/`zip`/`radius` narrow to a radius search
+ * as on the listing. An unknown ZIP is a 404 rather than the unfiltered feed.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const get = (key: string) => url.searchParams.get(key) || undefined;
+  const params: FilterableSearchParams = {
+    query: get("query"),
+    category: get("category"),
+    state: get("state"),
+    featured: get("featured"),
+    commercialVendors: get("commercialVendors"),
+    excludeFarmersMarkets: get("excludeFarmersMarkets"),
+    indoorOutdoor: get("indoorOutdoor"),
+    scale: get("scale"),
+  };
+
+  let facet: Extract<FeedScope, { kind: "filter" }>["facet"];
+  const facetSlug = get("facet");
+  if (facetSlug) {
+    const stateSlug = getStateSlug(params.state);
+    const resolved =
+      stateSlug && stateHasFacets(stateSlug)
+        ? resolveFacet(stateSlug, facetSlug, new Date())
+        : null;
+    if (!stateSlug || !resolved) return calendarNotFound();
+    facet = { stateSlug, facet: resolved };
+  }
+
+  const db = getCloudflareDb();
+  const { search: near, unknownZip } = await resolveNearSearch(db, {
+    near: get("near"),
+    zip: get("zip"),
+    radius: get("radius"),
+  });
+  if (unknownZip) return calendarNotFound();
+
+  const label = [
+    facet?.facet.label,
+    params.category,
+    getStateName(params.state),
+    near ? `Within ${near.radiusMiles} mi of ${near.zip ?? "your location"}` : undefined,
+    params.featured === "true" ? "Featured" : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return calendarFeedResponse(db, request, {
+    scope: { kind: "filter", params, facet, near: near ?? undefined },
+    name: label ? `Meet Me at the Fair — ${label}` : "Meet Me at the Fair — Events",
+    description: "Fairs, festivals and markets from meetmeatthefair.com",
+    source: "api/calendar/events",
+  });
+}
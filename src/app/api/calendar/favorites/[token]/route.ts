@@ -0,0 +1,24 @@
+export const dynamic = "force-dynamic";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { resolveFeedToken } from "@/lib/calendar/feed-tokens";
+import { calendarFeedResponse, calendarNotFound } from "@/lib/calendar/feed-response";
+
+/**
+ * GET /api/calendar/favorites/[token] — a user's private favorites feed:
+ * favorited events, plus everything at favorited venues and by favorited
+ * promoters. The token is the credential (see feed-tokens.ts); an unknown or
+ * rotated token is a plain 404, indistinguishable from a bad URL.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const db = getCloudflareDb();
+  const userId = await resolveFeedToken(db, token);
+  if (!userId) return calendarNotFound();
+
+  return calendarFeedResponse(db, request, {
+    scope: { kind: "favorites", userId },
+    name: "My Favorites — Meet Me at the Fair",
+    description: "Your favorite events, venues and promoters",
+    source: "api/calendar/favorites",
+  });
+}
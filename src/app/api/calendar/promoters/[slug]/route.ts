@@ -0,0 +1,25 @@
+export const dynamic = "force-dynamic";
+import { eq } from "drizzle-orm";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { promoters } from "@/lib/db/schema";
+import { unsafeSlug } from "@/lib/utils";
+import { calendarFeedResponse, calendarNotFound } from "@/lib/calendar/feed-response";
+
+/** GET /api/calendar/promoters/[slug] — subscribable feed of a promoter's events. */
+export async function GET(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const db = getCloudflareDb();
+  const [promoter] = await db
+    .select({ id: promoters.id, companyName: promoters.companyName })
+    .from(promoters)
+    .where(eq(promoters.slug, unsafeSlug(slug)))
+    .limit(1);
+  if (!promoter) return calendarNotFound();
+
+  return calendarFeedResponse(db, request, {
+    scope: { kind: "promoter", promoterId: promoter.id },
+    name: `${promoter.companyName} — Meet Me at the Fair`,
+    description: `Upcoming events from ${promoter.companyName}`,
+    source: "api/calendar/promoters",
+  });
+}
@@ -0,0 +1,28 @@
+export const dynamic = "force-dynamic";
+import { eq } from "drizzle-orm";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { eventSeries } from "@/lib/db/schema";
+import { unsafeSlug } from "@/lib/utils";
+import { calendarFeedResponse, calendarNotFound } from "@/lib/calendar/feed-response";
+
+/**
+ * GET /api/calendar/series/[slug] — every edition of a recurring event.
+ * Keyed on the series' canonical (year-agnostic) slug, so one subscription
+ * picks up next year's edition as soon as it is published.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const db = getCloudflareDb();
+  const [series] = await db
+    .select({ id: eventSeries.id, name: eventSeries.name })
+    .from(eventSeries)
+    .where(eq(eventSeries.canonicalSlug, unsafeSlug(slug)))
+    .limit(1);
+  if (!series) return calendarNotFound();
+
+  return calendarFeedResponse(db, request, {
+    scope: { kind: "series", seriesId: series.id },
+    name: `${series.name} — Meet Me at the Fair`,
+    source: "api/calendar/series",
+  });
+}
@@ -0,0 +1,25 @@
+export const dynamic = "force-dynamic";
+import { eq } from "drizzle-orm";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { venues } from "@/lib/db/schema";
+import { unsafeSlug } from "@/lib/utils";
+import { calendarFeedResponse, calendarNotFound } from "@/lib/calendar/feed-response";
+
+/** GET /api/calendar/venues/[slug] — subscribable feed of a venue's events. */
+export async function GET(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const db = getCloudflareDb();
+  const [venue] = await db
+    .select({ id: venues.id, name: venues.name })
+    .from(venues)
+    .where(eq(venues.slug, unsafeSlug(slug)))
+    .limit(1);
+  if (!venue) return calendarNotFound();
+
+  return calendarFeedResponse(db, request, {
+    scope: { kind: "venue", venueId: venue.id },
+    name: `${venue.name} — Meet Me at the Fair`,
+    description: `Upcoming events at ${venue.name}`,
+    source: "api/calendar/venues",
+  });
+}
@@ -4,7 +4,14 @@ import { z } from "zod";
 import { and, eq } from "drizzle-orm";
 import { auth } from "@/lib/auth";
 import { getCloudflareDb } from "@/lib/cloudflare";
-import { vendors, promoters, performers, entityClaims, problemReports } from "@/lib/db/schema";
+import {
+  vendors,
+  promoters,
+  performers,
+  venues,
+  entityClaims,
+  problemReports,
+} from "@/lib/db/schema";
 import { unsafeSlug } from "@/lib/utils";
 import { parseGaClientId } from "@/lib/ga4-measurement-protocol";
 import { trackClaimVerificationAttemptedServer } from "@/lib/analytics/claim-funnel";
@@ -24,8 +31,9 @@ import { logError } from "@/lib/logger";
  * review. Approval happens later via the admin claim queue (OPE-65).
  */
 const bodySchema = z.object({
-  // OPE-318 — PERFORMER joins the claimable set.
-  entityType: z.enum(["VENDOR", "PROMOTER", "PERFORMER"]),
+  // OPE-318 — PERFORMER joins the claimable set. VENUE is the only way to
+  // claim a venue (drizzle/0240): there's no email-match shortcut for grounds.
+  entityType: z.enum(["VENDOR", "PROMOTER", "PERFORMER", "VENUE"]),
   slug: z.string().min(1),
   evidence: z.string().min(1, "Please describe how you're connected.").max(4000),
 });
@@ -68,6 +76,14 @@ export async function POST(request: NextRequest) {
         .limit(1);
       entityId = row?.id;
       if (row) entityName = row.name;
+    } else if (entityType === "VENUE") {
+      const [row] = await db
+        .select({ id: venues.id, name: venues.name })
+        .from(venues)
+        .where(eq(venues.slug, unsafeSlug(slug)))
+        .limit(1);
+      entityId = row?.id;
+      if (row) entityName = row.name;
     } else {
       const [row] = await db
         .select({ id: promoters.id, companyName: promoters.companyName })
@@ -0,0 +1,67 @@
+export const dynamic = "force-dynamic";
+import { SITE_URL } from "@takemetothefair/constants";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import type { SyndicationScope } from "@/lib/event-feeds/query";
+import { eventFeedResponse, feedNotFound } from "@/lib/event-feeds/response";
+import { parseFeedFilename } from "@/lib/event-feeds/render";
+import type { FilterableSearchParams } from "@/lib/events-filter-count";
+import { facetUrl, resolveFacet, stateHasFacets } from "@/lib/events/facets";
+import { getStateName, getStateSlug } from "@/lib/states";
+
+/**
+ * GET /api/feeds/events/{rss.xml,atom.xml,feed.json}?state=MA&facet=august
+ *
+ * Feed of an /events listing. Takes the same query params as the iCal feed at
+ * /api/calendar/events, so a filtered page's query string works unchanged;
+ * `facet` narrows to a `/events/{state}/{facet}` page and requires `state`.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ feed: string }> }) {
+  const { feed } = await params;
+  const format = parseFeedFilename(feed);
+  if (!format) return feedNotFound();
+
+  const url = new URL(request.url);
+  const get = (key: string) => url.searchParams.get(key) || undefined;
+  const filters: FilterableSearchParams = {
+    query: get("query"),
+    category: get("category"),
+    state: get("state"),
+    featured: get("featured"),
+    commercialVendors: get("commercialVendors"),
+    excludeFarmersMarkets: get("excludeFarmersMarkets"),
+    indoorOutdoor: get("indoorOutdoor"),
+    scale: get("scale"),
+  };
+
+  let facet: Extract<SyndicationScope, { kind: "filter" }>["facet"];
+  let homePageUrl = `${SITE_URL}/events${url.search}`;
+  const facetSlug = get("facet");
+  if (facetSlug) {
+    const stateSlug = getStateSlug(filters.state);
+    const resolved =
+      stateSlug && stateHasFacets(stateSlug)
+        ? resolveFacet(stateSlug, facetSlug, new Date())
+        : null;
+    if (!stateSlug || !resolved) return feedNotFound();
+    facet = { stateSlug, facet: resolved };
+    homePageUrl = facetUrl(stateSlug, facetSlug);
+  }
+
+  const label = [
+    facet?.facet.label,
+    filters.category,
+    getStateName(filters.state),
+    filters.featured === "true" ? "Featured" : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return eventFeedResponse(getCloudflareDb(), request, {
+    scope: { kind: "filter", params: filters, facet },
+    format,
+    title: label ? `Meet Me at the Fair — ${label}` : "Meet Me at the Fair — Events",
+    description: "Upcoming fairs, festivals and markets from meetmeatthefair.com",
+    homePageUrl,
+    source: "api/feeds/events",
+  });
+}
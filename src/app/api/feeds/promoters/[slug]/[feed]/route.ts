@@ -0,0 +1,34 @@
+export const dynamic = "force-dynamic";
+import { eq } from "drizzle-orm";
+import { SITE_URL } from "@takemetothefair/constants";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { promoters } from "@/lib/db/schema";
+import { unsafeSlug } from "@/lib/utils";
+import { eventFeedResponse, feedNotFound } from "@/lib/event-feeds/response";
+import { parseFeedFilename } from "@/lib/event-feeds/render";
+
+/** GET /api/feeds/promoters/[slug]/{rss.xml,atom.xml,feed.json} — a promoter's upcoming events. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string; feed: string }> }
+) {
+  const { slug, feed } = await params;
+  const format = parseFeedFilename(feed);
+  if (!format) return feedNotFound();
+  const db = getCloudflareDb();
+  const [promoter] = await db
+    .select({ id: promoters.id, companyName: promoters.companyName, slug: promoters.slug })
+    .from(promoters)
+    .where(eq(promoters.slug, unsafeSlug(slug)))
+    .limit(1);
+  if (!promoter) return feedNotFound();
+
+  return eventFeedResponse(db, request, {
+    scope: { kind: "promoter", promoterId: promoter.id },
+    format,
+    title: `${promoter.companyName} — Meet Me at the Fair`,
+    description: `Upcoming events from ${promoter.companyName}`,
+    homePageUrl: `${SITE_URL}/promoters/${promoter.slug}`,
+    source: "api/feeds/promoters",
+  });
+}
@@ -0,0 +1,38 @@
+export const dynamic = "force-dynamic";
+import { eq } from "drizzle-orm";
+import { SITE_URL } from "@takemetothefair/constants";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { eventSeries } from "@/lib/db/schema";
+import { unsafeSlug } from "@/lib/utils";
+import { eventFeedResponse, feedNotFound } from "@/lib/event-feeds/response";
+import { parseFeedFilename } from "@/lib/event-feeds/render";
+
+/**
+ * GET /api/feeds/series/[slug]/{rss.xml,atom.xml,feed.json} — the upcoming
+ * editions of a recurring event, keyed on the canonical slug so next year's
+ * edition appears in the same feed once it is published.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string; feed: string }> }
+) {
+  const { slug, feed } = await params;
+  const format = parseFeedFilename(feed);
+  if (!format) return feedNotFound();
+  const db = getCloudflareDb();
+  const [series] = await db
+    .select({ id: eventSeries.id, name: eventSeries.name, slug: eventSeries.canonicalSlug })
+    .from(eventSeries)
+    .where(eq(eventSeries.canonicalSlug, unsafeSlug(slug)))
+    .limit(1);
+  if (!series) return feedNotFound();
+
+  return eventFeedResponse(db, request, {
+    scope: { kind: "series", seriesId: series.id },
+    format,
+    title: `${series.name} — Meet Me at the Fair`,
+    description: `Upcoming dates for ${series.name}`,
+    homePageUrl: `${SITE_URL}/events/${series.slug}`,
+    source: "api/feeds/series",
+  });
+}
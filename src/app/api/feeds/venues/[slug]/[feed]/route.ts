@@ -0,0 +1,34 @@
+export const dynamic = "force-dynamic";
+import { eq } from "drizzle-orm";
+import { SITE_URL } from "@takemetothefair/constants";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { venues } from "@/lib/db/schema";
+import { unsafeSlug } from "@/lib/utils";
+import { eventFeedResponse, feedNotFound } from "@/lib/event-feeds/response";
+import { parseFeedFilename } from "@/lib/event-feeds/render";
+
+/** GET /api/feeds/venues/[slug]/{rss.xml,atom.xml,feed.json} — a venue's upcoming events. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string; feed: string }> }
+) {
+  const { slug, feed } = await params;
+  const format = parseFeedFilename(feed);
+  if (!format) return feedNotFound();
+  const db = getCloudflareDb();
+  const [venue] = await db
+    .select({ id: venues.id, name: venues.name, slug: venues.slug })
+    .from(venues)
+    .where(eq(venues.slug, unsafeSlug(slug)))
+    .limit(1);
+  if (!venue) return feedNotFound();
+
+  return eventFeedResponse(db, request, {
+    scope: { kind: "venue", venueId: venue.id },
+    format,
+    title: `${venue.name} — Meet Me at the Fair`,
+    description: `Upcoming events at ${venue.name}`,
+    homePageUrl: `${SITE_URL}/venues/${venue.slug}`,
+    source: "api/feeds/venues",
+  });
+}
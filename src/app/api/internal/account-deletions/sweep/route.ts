@@ -0,0 +1,31 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withInternalKey } from "@/lib/api/with-auth";
+import { runAccountDeletionSweep } from "@/lib/account/deletion";
+import { getCloudflareEnv } from "@/lib/cloudflare";
+
+/**
+ * POST /api/internal/account-deletions/sweep — hourly from the MCP Worker's
+ * cron.
+ *
+ * Erases accounts whose deletion grace period has run out, releasing their
+ * listings as unclaimed, deleting their vendors' application files and
+ * suppressing their address. A request that fails partway is retried on the
+ * next run. See src/lib/account/deletion.ts.
+ * Auth: X-Internal-Key.
+ */
+export const POST = withInternalKey(
+  { source: "api/internal/account-deletions/sweep" },
+  async ({ db }) => {
+    // Without the bucket, erasure would leave uploaded documents behind.
+    const env = getCloudflareEnv() as unknown as { APPLICATION_FILES?: R2Bucket };
+    if (!env.APPLICATION_FILES) {
+      return NextResponse.json(
+        { ok: false, error: "R2 bucket not bound (APPLICATION_FILES missing)" },
+        { status: 500 }
+      );
+    }
+    const result = await runAccountDeletionSweep(db, { applicationFiles: env.APPLICATION_FILES });
+    return NextResponse.json({ ok: true, ...result });
+  }
+);
@@ -0,0 +1,72 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { withInternalKey } from "@/lib/api/with-auth";
+import { events } from "@/lib/db/schema";
+import type { EventLifecycle } from "@/lib/event-lifecycle";
+import {
+  favoriteChangeForLifecycle,
+  notifyFavoritedEventChanged,
+} from "@/lib/notifications/favorite-changes";
+
+/**
+ * POST /api/internal/favorite-changes/notify — the MCP Worker's
+ * update_event_lifecycle tool, once its lifecycle write has committed.
+ *
+ * Tells the event's favoriters about the move, exactly as the admin lifecycle
+ * route does (src/lib/notifications/favorite-changes.ts). The change is read
+ * from the event row as it now stands — lifecycle, dates, reason — rather than
+ * taken from the caller, so the two surfaces can't describe one move
+ * differently. A lifecycle favoriters aren't told about is a no-op.
+ *
+ * Returns `{ notified, emailed }`. Auth: X-Internal-Key.
+ */
+
+const bodySchema = z.object({
+  eventId: z.string().min(1).max(64),
+});
+
+export const POST = withInternalKey(
+  { source: "api/internal/favorite-changes/notify" },
+  async ({ request, db }) => {
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch {
+      return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+    }
+
+    const parsed = bodySchema.safeParse(raw);
+    if (!parsed.success) {
+      return NextResponse.json({ ok: false, error: "invalid_payload" }, { status: 400 });
+    }
+
+    const [event] = await db
+      .select({
+        lifecycleStatus: events.lifecycleStatus,
+        lifecycleReason: events.lifecycleReason,
+        startDate: events.startDate,
+        endDate: events.endDate,
+      })
+      .from(events)
+      .where(eq(events.id, parsed.data.eventId))
+      .limit(1);
+    if (!event) {
+      return NextResponse.json({ ok: false, error: "event_not_found" }, { status: 404 });
+    }
+
+    const change = favoriteChangeForLifecycle(
+      event.lifecycleStatus as EventLifecycle,
+      event,
+      event.lifecycleReason
+    );
+    if (!change) return NextResponse.json({ ok: true, notified: 0, emailed: 0 });
+
+    const result = await notifyFavoritedEventChanged(db, {
+      eventId: parsed.data.eventId,
+      change,
+    });
+    return NextResponse.json({ ok: true, ...result });
+  }
+);
@@ -0,0 +1,21 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withInternalKey } from "@/lib/api/with-auth";
+import { refreshEngagementFlags } from "@/lib/newsletter/engagement";
+
+/**
+ * POST /api/internal/newsletter/engagement-flags — Mondays from the MCP
+ * Worker's cron.
+ *
+ * Flags newsletter subscribers who opened and clicked none of their last few
+ * tracked issues, and clears the flag on anyone who has come back. The flags
+ * surface on /admin/newsletter; nothing is unsubscribed. See
+ * src/lib/newsletter/engagement.ts. Auth: X-Internal-Key.
+ */
+export const POST = withInternalKey(
+  { source: "api/internal/newsletter/engagement-flags" },
+  async ({ db }) => {
+    const result = await refreshEngagementFlags(db);
+    return NextResponse.json({ ok: true, ...result });
+  }
+);
@@ -0,0 +1,22 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withInternalKey } from "@/lib/api/with-auth";
+import { getCloudflareEnv } from "@/lib/cloudflare";
+import { resolveUnsubscribeSecret } from "@/lib/email/newsletter-unsubscribe-token";
+import { runSavedSearchDigest } from "@/lib/saved-searches/digest";
+
+/**
+ * POST /api/internal/saved-searches/digest — daily from the MCP Worker's cron.
+ *
+ * Reports newly approved matches for every DAILY search and every WEEKLY
+ * search a week past its last run: in-app notifications plus one email per
+ * user. See src/lib/saved-searches/digest.ts. Auth: X-Internal-Key.
+ */
+export const POST = withInternalKey(
+  { source: "api/internal/saved-searches/digest" },
+  async ({ db }) => {
+    const env = getCloudflareEnv() as unknown as Record<string, string | undefined>;
+    const result = await runSavedSearchDigest(db, { secret: resolveUnsubscribeSecret(env) });
+    return NextResponse.json({ ok: true, ...result });
+  }
+);
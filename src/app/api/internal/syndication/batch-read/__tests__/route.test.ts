@@ -6,6 +6,8 @@ import { events, syndicationSubscriptions } from "@/lib/db/schema";
 vi.mock("@/lib/api-auth", () => ({ internalKeyMatches: vi.fn() }));
 vi.mock("@/lib/syndication/auth", () => ({ resolveSyndicationSubscriber: vi.fn() }));
 vi.mock("@/lib/logger", () => ({ logError: vi.fn() }));
+// Query-subscription matching has its own tests (lib/syndication/__tests__).
+vi.mock("@/lib/syndication/portal", () => ({ queryMatchedEventIds: vi.fn() }));
 
 let eventFixture: unknown[] = [];
 let subscriptionFixture: unknown[] = [];
@@ -27,7 +29,9 @@ vi.mock("@/lib/cloudflare", () => ({ getCloudflareDb: vi.fn(() => mockDb) }));
 import { POST } from "../route";
 import { internalKeyMatches } from "@/lib/api-auth";
 import { resolveSyndicationSubscriber } from "@/lib/syndication/auth";
+import { queryMatchedEventIds } from "@/lib/syndication/portal";
 
+const mockQueryMatched = queryMatchedEventIds as unknown as ReturnType<typeof vi.fn>;
 const mockInternal = internalKeyMatches as unknown as ReturnType<typeof vi.fn>;
 const mockSubscriber = resolveSyndicationSubscriber as unknown as ReturnType<typeof vi.fn>;
 
@@ -72,6 +76,7 @@ beforeEach(() => {
   lastFrom = undefined;
   mockInternal.mockResolvedValue(false);
   mockSubscriber.mockResolvedValue(null);
+  mockQueryMatched.mockResolvedValue(new Set());
 });
 
 describe("POST /api/internal/syndication/batch-read — auth", () => {
@@ -153,4 +158,18 @@ describe("subscriber bearer caller — scoped to subscriptions", () => {
     // The events table is never read when the subscriber's scope is empty.
     expect(mockDb.from).not.toHaveBeenCalledWith(events);
   });
+
+  it("also returns events matched by the subscriber's query subscriptions", async () => {
+    mockSubscriber.mockResolvedValue({ id: "sub-1" });
+    subscriptionFixture = [{ eventId: "e1" }];
+    mockQueryMatched.mockResolvedValue(new Set(["e2"]));
+    eventFixture = [E1, E2];
+
+    const res = await POST(req({ eventIds: ["e1", "e2", "e3"] }));
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as any;
+    expect(data.events.map((e: any) => e.eventId)).toEqual(["e1", "e2"]);
+    // Only ids not already covered explicitly go through query matching.
+    expect(mockQueryMatched).toHaveBeenCalledWith(mockDb, "sub-1", ["e2", "e3"]);
+  });
 });
@@ -6,6 +6,7 @@ import { events, venues, syndicationSubscriptions } from "@/lib/db/schema";
 import { eq, and, inArray } from "drizzle-orm";
 import { internalKeyMatches } from "@/lib/api-auth";
 import { resolveSyndicationSubscriber } from "@/lib/syndication/auth";
+import { queryMatchedEventIds } from "@/lib/syndication/portal";
 import { buildEventSnapshot } from "@takemetothefair/utils";
 import { logError } from "@/lib/logger";
 
@@ -26,6 +27,8 @@ import { logError } from "@/lib/logger";
 //     consumer authenticates with their OWN secret (the same one that signs
 //     their push webhooks), NOT MMATF's internal key. Results are SCOPED to the
 //     events that subscriber is subscribed to — they can't read arbitrary IDs.
+//     SYN3: "subscribed" covers both explicit event ids and public events one
+//     of their query subscriptions matches (found via ./matching-events).
 
 const MAX_EVENT_IDS = 200;
 // D1 caps bound parameters at 100 per statement, so `IN (...)` reads are
@@ -137,9 +140,14 @@ export async function POST(request: Request) {
   const db = getCloudflareDb();
   try {
     let ids = parsed.data.eventIds;
-    // Subscriber callers only ever see events they're subscribed to.
+    // Subscriber callers only ever see events they're subscribed to, by id
+    // or by query.
     if (subscriberId) {
       const allowed = await subscribedEventIds(db, subscriberId, ids);
+      const rest = ids.filter((id) => !allowed.has(id));
+      if (rest.length > 0) {
+        for (const id of await queryMatchedEventIds(db, subscriberId, rest)) allowed.add(id);
+      }
       ids = ids.filter((id) => allowed.has(id));
       if (ids.length === 0) {
         return NextResponse.json({ success: true, events: [] });
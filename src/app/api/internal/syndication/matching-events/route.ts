@@ -0,0 +1,42 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { resolveSyndicationSubscriber } from "@/lib/syndication/auth";
+import { listQueryMatchedEvents } from "@/lib/syndication/portal";
+import { logError } from "@/lib/logger";
+
+// SYN3 — discovery for query subscriptions. The outbox only fires when a
+// mirrored field of an EXISTING event changes, so a newly listed event that
+// matches a partner's query ("everything in Maine") is never pushed on its own.
+// A partner's reconcile job calls this to learn which upcoming public events
+// their queries cover, diffs the versions against what it holds, then pulls the
+// missing/stale ones through ../batch-read (which accepts query-matched ids).
+//
+// Auth: Authorization: Bearer <subscriber signing_secret> only — the answer is
+// per-subscriber, so the internal key has nothing to scope it to.
+
+/**
+ * GET /api/internal/syndication/matching-events
+ * Returns: { success: true, events: [{ eventId, eventVersion, startDate }] },
+ * soonest first. Empty when the subscriber has no query subscriptions.
+ */
+export async function GET(request: Request) {
+  const subscriber = await resolveSyndicationSubscriber(request);
+  if (!subscriber) {
+    return NextResponse.json({ success: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  const db = getCloudflareDb();
+  try {
+    const events = await listQueryMatchedEvents(db, subscriber.id);
+    return NextResponse.json({ success: true, events });
+  } catch (err) {
+    await logError(db, {
+      message: "SYN3 matching-events failed",
+      error: err,
+      source: "api/internal/syndication/matching-events",
+      request,
+    });
+    return NextResponse.json({ success: false, error: "internal_error" }, { status: 500 });
+  }
+}
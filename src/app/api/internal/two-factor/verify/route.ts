@@ -0,0 +1,47 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withInternalKey } from "@/lib/api/with-auth";
+import { getAuthSecret } from "@/lib/auth";
+import { verifyTotpOrRecoveryCode } from "@/lib/auth/two-factor";
+
+/**
+ * POST /api/internal/two-factor/verify — the MCP Worker's OAuth sign-in
+ * (mcp-server/src/oauth/login-handler.ts) checks an authenticator or recovery
+ * code here. The TOTP secret is sealed under AUTH_SECRET, which only the main
+ * app holds, and going through verifyTotpOrRecoveryCode keeps replay
+ * protection, recovery-code spending and the per-account lockout on wrong
+ * codes (drizzle/0245) in one place.
+ *
+ * Returns `{ factor }` — "totp", "recovery", or null when the code didn't
+ * match. Auth: X-Internal-Key.
+ */
+
+const bodySchema = z.object({
+  userId: z.string().min(1).max(64),
+  code: z.string().min(1).max(32),
+});
+
+export const POST = withInternalKey(
+  { source: "api/internal/two-factor/verify" },
+  async ({ request, db }) => {
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch {
+      return NextResponse.json({ ok: false, error: "invalid_json" }, { status: 400 });
+    }
+
+    const parsed = bodySchema.safeParse(raw);
+    if (!parsed.success) {
+      return NextResponse.json({ ok: false, error: "invalid_payload" }, { status: 400 });
+    }
+
+    const factor = await verifyTotpOrRecoveryCode(db, {
+      userId: parsed.data.userId,
+      code: parsed.data.code,
+      authSecret: getAuthSecret(),
+    });
+    return NextResponse.json({ ok: true, factor });
+  }
+);
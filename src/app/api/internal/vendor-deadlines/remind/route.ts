@@ -0,0 +1,20 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withInternalKey } from "@/lib/api/with-auth";
+import { runDeadlineReminders } from "@/lib/vendors/deadline-reminders";
+
+/**
+ * POST /api/internal/vendor-deadlines/remind — daily from the MCP Worker's cron.
+ *
+ * Reminds vendors who were invited to, or are interested in, an event whose
+ * application deadline is a week or less away: in-app notifications plus one
+ * email per vendor. See src/lib/vendors/deadline-reminders.ts. Auth:
+ * X-Internal-Key.
+ */
+export const POST = withInternalKey(
+  { source: "api/internal/vendor-deadlines/remind" },
+  async ({ db }) => {
+    const result = await runDeadlineReminders(db);
+    return NextResponse.json({ ok: true, ...result });
+  }
+);
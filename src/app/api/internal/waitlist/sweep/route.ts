@@ -0,0 +1,17 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withInternalKey } from "@/lib/api/with-auth";
+import { sweepWaitlists } from "@/lib/waitlist/promotion";
+
+/**
+ * POST /api/internal/waitlist/sweep — hourly from the MCP Worker's cron.
+ *
+ * Expires unanswered waitlist offers (cascading the slot to the next vendor)
+ * and offers any booth freed by a writer that doesn't call the immediate hook
+ * — the MCP `update_application_status` tool, a deleted application, a raised
+ * capacity. See src/lib/waitlist/promotion.ts. Auth: X-Internal-Key.
+ */
+export const POST = withInternalKey({ source: "api/internal/waitlist/sweep" }, async ({ db }) => {
+  const result = await sweepWaitlists(db);
+  return NextResponse.json({ ok: true, ...result });
+});
@@ -25,6 +25,9 @@ vi.mock("@/lib/cloudflare", () => ({
 }));
 vi.mock("@/lib/queues/producers", () => ({ enqueueEmail: (j: unknown) => enqueueEmailMock(j) }));
 vi.mock("@/lib/logger", () => ({ logError: vi.fn(async () => {}) }));
+vi.mock("@/lib/newsletter/personalize", () => ({
+  buildWeekendPersonalSections: vi.fn(async () => new Map()),
+}));
 
 const SECRET = "approve-secret";
 const { POST } = await import("../route");
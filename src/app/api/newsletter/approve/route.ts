@@ -34,6 +34,7 @@ import {
   enqueueNewsletterDigest,
   selectBroadcastRecipients,
 } from "@/lib/email/newsletter-broadcast";
+import { buildWeekendPersonalSections } from "@/lib/newsletter/personalize";
 
 /** All outcomes redirect to the confirm/result page with a status. Zero sends
  *  on every branch except the one that wins the latch. */
@@ -122,6 +123,8 @@ export async function POST(request: NextRequest) {
       siteUrl,
       secret,
       mailingAddress: env.MAILING_ADDRESS,
+      personalSections: await buildWeekendPersonalSections(db, recipients, { siteUrl, now }),
+      trackIssueSlug: slug,
       // No approveUrl — a broadcast never carries the approve button.
     });
 
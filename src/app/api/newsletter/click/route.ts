@@ -0,0 +1,53 @@
+export const dynamic = "force-dynamic";
+/**
+ * drizzle/0238 — the click redirect every link in a broadcast's body is routed
+ * through (src/lib/newsletter/tracking.ts). Sends the reader on to the real
+ * destination and records the click against the issue.
+ *
+ * The redirect is gated on the LINK signature alone: `u` must be a URL this
+ * issue actually linked to, so the endpoint can't be borrowed as an open
+ * redirect. Anything unsigned lands on the home page instead. The recipient
+ * token only decides whether the click is counted — a token a mail client
+ * mangled still gets the reader where they meant to go — and the write is
+ * best-effort for the same reason: a D1 hiccup must never strand someone on
+ * our domain.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareDb, getCloudflareEnv } from "@/lib/cloudflare";
+import { resolveUnsubscribeSecret } from "@/lib/email/newsletter-unsubscribe-token";
+import { verifyLink, verifyRecipientToken } from "@/lib/email/newsletter-tracking-token";
+import { getSiteUrl } from "@/lib/email/send";
+import { recordEngagement } from "@/lib/newsletter/tracking";
+import { logError } from "@/lib/logger";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const issueSlug = params.get("i") ?? "";
+  const url = params.get("u") ?? "";
+  const sig = params.get("s") ?? "";
+  const recipientToken = params.get("r") ?? "";
+
+  const env = getCloudflareEnv() as unknown as Record<string, string | undefined>;
+  const secret = resolveUnsubscribeSecret(env);
+  if (!secret || !/^https?:\/\//.test(url) || !(await verifyLink(issueSlug, url, sig, secret))) {
+    return NextResponse.redirect(`${getSiteUrl()}/`, { status: 302 });
+  }
+
+  const db = getCloudflareDb();
+  try {
+    const recipient = await verifyRecipientToken(recipientToken, secret);
+    if (recipient && recipient.issueSlug === issueSlug) {
+      await recordEngagement(db, { issueSlug, email: recipient.email, kind: "click", url });
+    }
+  } catch (e) {
+    await logError(db, {
+      level: "warn",
+      message: "Newsletter click could not be recorded",
+      error: e,
+      source: "api/newsletter/click",
+      context: { issueSlug },
+    });
+  }
+
+  return NextResponse.redirect(url, { status: 302 });
+}
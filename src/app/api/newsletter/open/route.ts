@@ -0,0 +1,58 @@
+export const dynamic = "force-dynamic";
+/**
+ * drizzle/0238 — the open pixel at the bottom of every broadcast's body
+ * (src/lib/newsletter/tracking.ts). Always answers with the same transparent
+ * GIF, whatever the token says: a broken image in someone's newsletter is
+ * worse than an uncounted open, and a different answer for a bad token would
+ * tell a prober which ones are good.
+ *
+ * Never cached, or a proxy would swallow every open after the first.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareDb, getCloudflareEnv } from "@/lib/cloudflare";
+import { resolveUnsubscribeSecret } from "@/lib/email/newsletter-unsubscribe-token";
+import { verifyRecipientToken } from "@/lib/email/newsletter-tracking-token";
+import { recordEngagement } from "@/lib/newsletter/tracking";
+import { logError } from "@/lib/logger";
+
+/** 1×1 transparent GIF. */
+const PIXEL = Uint8Array.from(
+  atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"),
+  (c) => c.charCodeAt(0)
+);
+
+function pixel() {
+  return new NextResponse(PIXEL, {
+    headers: {
+      "Content-Type": "image/gif",
+      "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0",
+    },
+  });
+}
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("r") ?? "";
+  const env = getCloudflareEnv() as unknown as Record<string, string | undefined>;
+  const secret = resolveUnsubscribeSecret(env);
+  if (!secret || !token) return pixel();
+
+  const db = getCloudflareDb();
+  try {
+    const recipient = await verifyRecipientToken(token, secret);
+    if (recipient) {
+      await recordEngagement(db, {
+        issueSlug: recipient.issueSlug,
+        email: recipient.email,
+        kind: "open",
+      });
+    }
+  } catch (e) {
+    await logError(db, {
+      level: "warn",
+      message: "Newsletter open could not be recorded",
+      error: e,
+      source: "api/newsletter/open",
+    });
+  }
+  return pixel();
+}
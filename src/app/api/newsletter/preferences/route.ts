@@ -0,0 +1,77 @@
+export const dynamic = "force-dynamic";
+/**
+ * drizzle/0237 — save a subscriber's newsletter profile (home ZIP, radius,
+ * categories) from /newsletter/preferences.
+ *
+ * Authorized by the same signed token as the unsubscribe link: the footer's
+ * "Update your preferences" link carries it, so a subscriber edits their own
+ * profile without an account and nobody can edit anyone else's. An address the
+ * token names but the list doesn't hold is "invalid" — there is no row to
+ * update, and creating one here would be a signup that skipped double opt-in.
+ *
+ * Body: { token, zip?, radius?, categories? }. Empty zip and no categories
+ * clears the profile back to the everyone-gets-this issue.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { getCloudflareDb, getCloudflareEnv } from "@/lib/cloudflare";
+import { newsletterSubscribers } from "@/lib/db/schema";
+import {
+  resolveUnsubscribeSecret,
+  verifyUnsubscribeToken,
+} from "@/lib/email/newsletter-unsubscribe-token";
+import { logError } from "@/lib/logger";
+import { parseProfileInput, saveSubscriberProfile } from "@/lib/newsletter/subscriber-profile";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+export async function POST(request: NextRequest) {
+  const rl = await checkRateLimit(request, "newsletter-preferences");
+  if (!rl.allowed) return rateLimitResponse(rl);
+
+  const db = getCloudflareDb();
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  const token = typeof body.token === "string" ? body.token : "";
+  if (!token) return NextResponse.json({ error: "missing_token" }, { status: 400 });
+
+  const secret = resolveUnsubscribeSecret(
+    getCloudflareEnv() as unknown as Record<string, string | undefined>
+  );
+  if (!secret) {
+    await logError(db, {
+      message: "Newsletter preferences: no signing secret configured",
+      source: "api/newsletter/preferences",
+    });
+    return NextResponse.json({ error: "server_error" }, { status: 500 });
+  }
+
+  const email = await verifyUnsubscribeToken(token, secret);
+  if (!email) return NextResponse.json({ error: "invalid" }, { status: 403 });
+
+  const profile = parseProfileInput(body);
+  if (!profile.ok) {
+    return NextResponse.json(
+      { error: "invalid_zip", message: "Enter a 5-digit ZIP code, or leave it blank." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [subscriber] = await db
+      .select({ email: newsletterSubscribers.email })
+      .from(newsletterSubscribers)
+      .where(eq(newsletterSubscribers.email, email))
+      .limit(1);
+    if (!subscriber) return NextResponse.json({ error: "invalid" }, { status: 403 });
+
+    const { unknownZip } = await saveSubscriberProfile(db, email, profile);
+    return NextResponse.json({ ok: true, unknownZip });
+  } catch (error) {
+    await logError(db, {
+      message: "Newsletter preferences save failed",
+      error,
+      source: "api/newsletter/preferences",
+      request,
+    });
+    return NextResponse.json({ error: "server_error" }, { status: 500 });
+  }
+}
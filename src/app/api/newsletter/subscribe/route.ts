@@ -10,10 +10,15 @@ import { issueNewsletterConfirmationToken } from "@/lib/email/newsletter-confirm
 import { newsletterConfirmTemplate } from "@/lib/email/templates";
 import { getSiteUrl } from "@/lib/email/send";
 import { enqueueEmail } from "@/lib/queues/producers";
+import { parseProfileInput, saveSubscriberProfile } from "@/lib/newsletter/subscriber-profile";
 
 const schema = z.object({
   email: z.string().email(),
   source: z.string().max(40).optional(),
+  // drizzle/0237 — optional subscriber profile. Validated by parseProfileInput.
+  zip: z.string().max(10).optional(),
+  radius: z.union([z.string(), z.number()]).optional(),
+  categories: z.array(z.string().max(60)).max(40).optional(),
 });
 
 /**
@@ -30,6 +35,12 @@ const schema = z.object({
  *
  * The response is the same `{ ok: true }` shape in all paths so the
  * form doesn't leak whether an email is on the list (enumeration-safe).
+ *
+ * An optional profile (home ZIP, radius, categories — drizzle/0237) is stored
+ * on path 1 only. On the other two it would let anyone who knows an address
+ * rewrite that subscriber's digest; they change it from the token-gated
+ * /newsletter/preferences page instead. A malformed ZIP drops the profile
+ * rather than the signup.
  */
 export async function POST(request: NextRequest) {
   const rl = await checkRateLimit(request, "newsletter-subscribe");
@@ -83,6 +94,19 @@ export async function POST(request: NextRequest) {
         source,
       });
       shouldSendConfirm = true;
+      const profile = parseProfileInput(parsed.data);
+      if (profile.ok && (profile.zip || profile.categories.length > 0)) {
+        // A profile is a nicety; the confirmation email below is the signup.
+        await saveSubscriberProfile(db, email, profile).catch((profileErr) =>
+          logError(db, {
+            level: "warn",
+            message: "Failed to save newsletter subscriber profile",
+            error: profileErr,
+            source: "api/newsletter/subscribe:profile",
+            context: { email },
+          })
+        );
+      }
     }
 
     if (shouldSendConfirm) {
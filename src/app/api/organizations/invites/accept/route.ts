@@ -0,0 +1,60 @@
+export const dynamic = "force-dynamic";
+/**
+ * POST { token } — accept a vendor or promoter team invitation as the
+ * signed-in user. The /team/join page calls this from a button rather than
+ * accepting on page load, so a mail scanner prefetching the link can't spend
+ * it.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { logError } from "@/lib/logger";
+import { acceptOrganizationInvite } from "@/lib/organizations/invites";
+import { validateRequestBody } from "@/lib/validations";
+
+const acceptSchema = z.object({ token: z.string().min(1).max(128) });
+
+const FAILURE_MESSAGES = {
+  not_found: "This invitation has already been used or was withdrawn.",
+  expired: "This invitation has expired. Ask the owner to send a new one.",
+  email_mismatch: "This invitation was sent to a different email address.",
+} as const;
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id || !session.user.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = await validateRequestBody(request, acceptSchema);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const db = getCloudflareDb();
+  try {
+    const result = await acceptOrganizationInvite(db, parsed.data.token, {
+      id: session.user.id,
+      email: session.user.email,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.reason, message: FAILURE_MESSAGES[result.reason] },
+        { status: result.reason === "email_mismatch" ? 403 : 410 }
+      );
+    }
+    return NextResponse.json({
+      role: result.role,
+      redirectTo: result.entityType === "VENDOR" ? "/vendor/profile" : "/promoter/events",
+    });
+  } catch (error) {
+    await logError(db, {
+      message: "Failed to accept team invitation",
+      error,
+      source: "api/organizations/invites/accept/route.ts",
+      request,
+    });
+    return NextResponse.json({ error: "Failed to accept invitation" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { hasRole } from "@/lib/auth";
+import { applicationFormSchema, validateRequestBody } from "@/lib/validations";
+import { getPromoterOwnedEvent } from "@/lib/promoter/applications";
+import { loadApplicationForm, saveApplicationForm } from "@/lib/application-forms/store";
+
+// GET - The event's vendor application form (`{ fields: [] }` when it has none)
+export const GET = withAuth<{ id: string }>(
+  { source: "api/promoter/events/[id]/application-form" },
+  async ({ db, session, params }) => {
+    const event = await getPromoterOwnedEvent(db, {
+      eventId: params.id,
+      userId: session.user.id,
+      isAdmin: hasRole(session, "ADMIN"),
+      role: "VIEWER",
+    });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const form = await loadApplicationForm(db, event.id);
+    return NextResponse.json({ event, form: form ?? { fields: [] } });
+  }
+);
+
+// PUT - Replace the form. An empty field list removes it.
+export const PUT = withAuth<{ id: string }>(
+  { source: "api/promoter/events/[id]/application-form" },
+  async ({ request, db, session, params }) => {
+    const event = await getPromoterOwnedEvent(db, {
+      eventId: params.id,
+      userId: session.user.id,
+      isAdmin: hasRole(session, "ADMIN"),
+    });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const validation = await validateRequestBody(request, applicationFormSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    await saveApplicationForm(db, {
+      eventId: event.id,
+      form: validation.data,
+      userId: session.user.id,
+    });
+    return NextResponse.json({ form: validation.data });
+  }
+);
@@ -0,0 +1,56 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { withAuth } from "@/lib/api/with-auth";
+import { hasRole } from "@/lib/auth";
+import { getCloudflareEnv } from "@/lib/cloudflare";
+import { eventVendors } from "@/lib/db/schema";
+import { parseStoredApplicationAnswers } from "@/lib/validations";
+import { getPromoterOwnedEvent } from "@/lib/promoter/applications";
+
+// GET - Download a file answer (`?field=<field id>`) from one application on the caller's event
+export const GET = withAuth<{ id: string; applicationId: string }>(
+  { source: "api/promoter/events/[id]/applications/[applicationId]/file" },
+  async ({ request, db, session, params }) => {
+    const event = await getPromoterOwnedEvent(db, {
+      eventId: params.id,
+      userId: session.user.id,
+      isAdmin: hasRole(session, "ADMIN"),
+      role: "VIEWER",
+    });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const [application] = await db
+      .select({ applicationAnswers: eventVendors.applicationAnswers })
+      .from(eventVendors)
+      .where(and(eq(eventVendors.id, params.applicationId), eq(eventVendors.eventId, event.id)))
+      .limit(1);
+    const field = new URL(request.url).searchParams.get("field");
+    const answer = parseStoredApplicationAnswers(application?.applicationAnswers).find(
+      (a) => a.id === field && a.type === "file"
+    );
+    if (!answer || typeof answer.value !== "object" || Array.isArray(answer.value)) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    // The private bucket (wrangler.toml) — this route is the only way out of it.
+    const env = getCloudflareEnv() as unknown as { APPLICATION_FILES?: R2Bucket };
+    const object = await env.APPLICATION_FILES?.get(answer.value.key);
+    if (!object) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    // Always a download, never rendered on our origin — the bytes are vendor-supplied.
+    const filename = answer.value.name.replace(/["\\\r\n]/g, "_");
+    return new NextResponse(object.body as unknown as ReadableStream, {
+      headers: {
+        "Content-Type": object.httpMetadata?.contentType ?? "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  }
+);
@@ -0,0 +1,71 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { hasRole } from "@/lib/auth";
+import { promoterApplicationUpdateSchema, validateRequestBody } from "@/lib/validations";
+import {
+  applicationsToCsv,
+  applyApplicationChanges,
+  getPromoterOwnedEvent,
+  listEventApplications,
+} from "@/lib/promoter/applications";
+
+// GET - List applications for one of the caller's events. `?format=csv` downloads them.
+export const GET = withAuth<{ id: string }>(
+  { source: "api/promoter/events/[id]/applications" },
+  async ({ request, db, session, params }) => {
+    const event = await getPromoterOwnedEvent(db, {
+      eventId: params.id,
+      userId: session.user.id,
+      isAdmin: hasRole(session, "ADMIN"),
+      role: "VIEWER",
+    });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const applications = await listEventApplications(db, event.id);
+
+    if (new URL(request.url).searchParams.get("format") === "csv") {
+      return new NextResponse(applicationsToCsv(applications), {
+        headers: {
+          "Content-Type": "text/csv;charset=utf-8",
+          "Content-Disposition": `attachment; filename="applications-${event.slug}-${new Date().toISOString().split("T")[0]}.csv"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    return NextResponse.json({ event, applications });
+  }
+);
+
+// PATCH - Apply one change (status / payment / booth / notes) to one or more applications
+export const PATCH = withAuth<{ id: string }>(
+  { source: "api/promoter/events/[id]/applications" },
+  async ({ request, db, session, params }) => {
+    const event = await getPromoterOwnedEvent(db, {
+      eventId: params.id,
+      userId: session.user.id,
+      isAdmin: hasRole(session, "ADMIN"),
+    });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const validation = await validateRequestBody(request, promoterApplicationUpdateSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { eventVendorIds, ...change } = validation.data;
+    const result = await applyApplicationChanges(db, {
+      event,
+      eventVendorIds,
+      change,
+      actorUserId: session.user.id,
+    });
+
+    return NextResponse.json(result);
+  }
+);
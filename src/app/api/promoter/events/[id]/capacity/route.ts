@@ -0,0 +1,54 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { hasRole } from "@/lib/auth";
+import { boothCapacitySchema, validateRequestBody } from "@/lib/validations";
+import { getPromoterOwnedEvent } from "@/lib/promoter/applications";
+import { loadBoothCapacity, saveBoothCapacity } from "@/lib/waitlist/promotion";
+
+// GET - The event's booth capacity (`capacity: null` when promotion is off)
+export const GET = withAuth<{ id: string }>(
+  { source: "api/promoter/events/[id]/capacity" },
+  async ({ db, session, params }) => {
+    const event = await getPromoterOwnedEvent(db, {
+      eventId: params.id,
+      userId: session.user.id,
+      isAdmin: hasRole(session, "ADMIN"),
+      role: "VIEWER",
+    });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const setting = await loadBoothCapacity(db, event.id);
+    return NextResponse.json(setting ?? { capacity: null, offerHours: 48 });
+  }
+);
+
+// PUT - Set or clear the capacity. Setting it offers any open slots at once.
+export const PUT = withAuth<{ id: string }>(
+  { source: "api/promoter/events/[id]/capacity" },
+  async ({ request, db, session, params }) => {
+    const event = await getPromoterOwnedEvent(db, {
+      eventId: params.id,
+      userId: session.user.id,
+      isAdmin: hasRole(session, "ADMIN"),
+    });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const validation = await validateRequestBody(request, boothCapacitySchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const reconciled = await saveBoothCapacity(db, {
+      eventId: event.id,
+      capacity: validation.data.capacity,
+      offerHours: validation.data.offerHours,
+      userId: session.user.id,
+    });
+    return NextResponse.json({ ...validation.data, offered: reconciled?.offered ?? 0 });
+  }
+);
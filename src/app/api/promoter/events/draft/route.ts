@@ -1,16 +1,18 @@
 export const dynamic = "force-dynamic";
 import { NextRequest, NextResponse } from "next/server";
 import { and, eq } from "drizzle-orm";
-import { auth } from "@/lib/auth";
+import { requireMemberSession } from "@/lib/api-auth";
 import { getCloudflareDb } from "@/lib/cloudflare";
 import { promoters, events, eventDays } from "@/lib/db/schema";
 import { createSlug, computePublicDates, dollarsToCents } from "@/lib/utils";
 import { resolveUniqueEventSlug, insertEventDaysBatched } from "@/lib/events/insert-helpers";
+import { recurrenceColumns } from "@/lib/events/recurrence";
 import { recordMutation } from "@/lib/audit/record-mutation";
 import { validateRequestBody, promoterEventCreateSchema } from "@/lib/validations";
 import { logError } from "@/lib/logger";
 import { parseDateOnly } from "@/lib/datetime";
 import { recomputeEventCompleteness } from "@/lib/completeness";
+import { notifyVenueOwnerOfSubmission } from "@/lib/notifications/venue-submissions";
 
 interface EventDayInput {
   date: string;
@@ -35,16 +37,14 @@ interface EventDayInput {
  */
 export async function POST(request: NextRequest) {
   const db = getCloudflareDb();
-  const session = await auth();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const gate = await requireMemberSession({ entityType: "PROMOTER", role: "EDITOR" });
+  if (!gate.ok) return gate.response;
 
   try {
     const promoterResults = await db
       .select()
       .from(promoters)
-      .where(eq(promoters.userId, session.user.id))
+      .where(eq(promoters.id, gate.membership.entityId))
       .limit(1);
 
     if (promoterResults.length === 0) {
@@ -125,6 +125,7 @@ export async function POST(request: NextRequest) {
           publicStartDate,
           publicEndDate,
           discontinuousDates: isDiscontinuous,
+          ...recurrenceColumns(data.recurrenceRule, data.recurrenceExdates),
           categories: JSON.stringify(data.categories ?? []),
           tags: JSON.stringify(data.tags ?? []),
           ticketUrl: data.ticketUrl,
@@ -156,11 +157,17 @@ export async function POST(request: NextRequest) {
         entityType: "event_day",
         entityId: existingId,
         verb: "delete",
-        actor: session.user.id,
+        actor: gate.userId,
         note: `promoter day-set replace on event ${existingId}`,
       });
       await db.delete(eventDays).where(eq(eventDays.eventId, existingId));
-      await insertEventDaysBatched(db, existingId, eventDaysInput, session.user.id);
+      await insertEventDaysBatched(db, existingId, eventDaysInput, gate.userId);
+      if (submit) {
+        await notifyVenueOwnerOfSubmission(db, {
+          eventId: existingId,
+          submittedByUserId: gate.userId,
+        });
+      }
 
       return NextResponse.json({
         id: existingId,
@@ -208,6 +215,7 @@ export async function POST(request: NextRequest) {
       publicStartDate,
       publicEndDate,
       discontinuousDates: isDiscontinuous,
+      ...recurrenceColumns(data.recurrenceRule, data.recurrenceExdates),
       categories: JSON.stringify(data.categories ?? []),
       tags: JSON.stringify(data.tags ?? []),
       ticketUrl: data.ticketUrl,
@@ -231,6 +239,9 @@ export async function POST(request: NextRequest) {
 
     // WS2a — shared D1-safe batched insert (was an inline unbatched insert).
     await insertEventDaysBatched(db, newId, eventDaysInput);
+    if (submit) {
+      await notifyVenueOwnerOfSubmission(db, { eventId: newId, submittedByUserId: gate.userId });
+    }
 
     return NextResponse.json({ id: newId, slug, status: finalStatus }, { status: 201 });
   } catch (error) {
@@ -250,10 +261,8 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   const db = getCloudflareDb();
-  const session = await auth();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const gate = await requireMemberSession({ entityType: "PROMOTER", role: "VIEWER" });
+  if (!gate.ok) return gate.response;
 
   const url = new URL(request.url);
   const id = url.searchParams.get("id");
@@ -265,7 +274,7 @@ export async function GET(request: NextRequest) {
     const [promoter] = await db
       .select()
       .from(promoters)
-      .where(eq(promoters.userId, session.user.id))
+      .where(eq(promoters.id, gate.membership.entityId))
       .limit(1);
     if (!promoter) {
       return NextResponse.json({ error: "Promoter profile not found" }, { status: 404 });
@@ -1,6 +1,6 @@
 export const dynamic = "force-dynamic";
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { requireMemberSession } from "@/lib/api-auth";
 import { getCloudflareDb } from "@/lib/cloudflare";
 import { promoters, events, venues } from "@/lib/db/schema";
 import { attachEventToSeries } from "@/lib/series/resolve-or-create-series";
@@ -8,24 +8,24 @@ import { eventVenueJoinProjection } from "@/lib/db/event-join-projection";
 import { eq, desc } from "drizzle-orm";
 import { createSlug, computePublicDates, dollarsToCents } from "@/lib/utils";
 import { resolveUniqueEventSlug, insertEventDaysBatched } from "@/lib/events/insert-helpers";
+import { recurrenceColumns } from "@/lib/events/recurrence";
 import { validateRequestBody, promoterEventCreateSchema } from "@/lib/validations";
 import { logError } from "@/lib/logger";
 import { parseDateOnly } from "@/lib/datetime";
 import { normalizeEventDate } from "@/lib/event-dates";
 import { recomputeEventCompleteness } from "@/lib/completeness";
+import { notifyVenueOwnerOfSubmission } from "@/lib/notifications/venue-submissions";
 
 export async function GET(request: NextRequest) {
   const db = getCloudflareDb();
-  const session = await auth();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const gate = await requireMemberSession({ entityType: "PROMOTER", role: "VIEWER" });
+  if (!gate.ok) return gate.response;
 
   try {
     const promoterResults = await db
       .select()
       .from(promoters)
-      .where(eq(promoters.userId, session.user.id))
+      .where(eq(promoters.id, gate.membership.entityId))
       .limit(1);
 
     if (promoterResults.length === 0) {
@@ -62,16 +62,14 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   const db = getCloudflareDb();
-  const session = await auth();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const gate = await requireMemberSession({ entityType: "PROMOTER", role: "EDITOR" });
+  if (!gate.ok) return gate.response;
 
   try {
     const promoterResults = await db
       .select()
       .from(promoters)
-      .where(eq(promoters.userId, session.user.id))
+      .where(eq(promoters.id, gate.membership.entityId))
       .limit(1);
 
     if (promoterResults.length === 0) {
@@ -96,6 +94,8 @@ export async function POST(request: NextRequest) {
       startDate: rawStartDate,
       endDate: rawEndDate,
       discontinuousDates: isDiscontinuous,
+      recurrenceRule,
+      recurrenceExdates,
       categories,
       tags,
       ticketUrl,
@@ -188,6 +188,7 @@ export async function POST(request: NextRequest) {
       publicStartDate,
       publicEndDate,
       discontinuousDates: isDiscontinuous || false,
+      ...recurrenceColumns(recurrenceRule, recurrenceExdates),
       categories: JSON.stringify(categories || []),
       tags: JSON.stringify(tags || []),
       ticketUrl,
@@ -224,6 +225,8 @@ export async function POST(request: NextRequest) {
     // with ≥12 days; the helper chunks at 11.
     await insertEventDaysBatched(db, eventId, eventDaysInput);
 
+    await notifyVenueOwnerOfSubmission(db, { eventId, submittedByUserId: gate.userId });
+
     const newEvent = await db.select().from(events).where(eq(events.id, eventId)).limit(1);
 
     return NextResponse.json(newEvent[0], { status: 201 });
@@ -0,0 +1,23 @@
+export const dynamic = "force-dynamic";
+/**
+ * PATCH changes a team member's role (owner only); DELETE removes them — by
+ * the owner, or by the member themselves leaving the team.
+ */
+import { NextRequest } from "next/server";
+import { removeMemberResponse, updateMemberResponse } from "@/lib/organizations/team-routes";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+  return updateMemberResponse(request, "PROMOTER", userId);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+  return removeMemberResponse("PROMOTER", userId);
+}
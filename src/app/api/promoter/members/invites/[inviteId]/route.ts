@@ -0,0 +1,12 @@
+export const dynamic = "force-dynamic";
+/** Revoke an open team invitation (owner only). */
+import { NextRequest } from "next/server";
+import { revokeInviteResponse } from "@/lib/organizations/team-routes";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ inviteId: string }> }
+) {
+  const { inviteId } = await params;
+  return revokeInviteResponse("PROMOTER", inviteId);
+}
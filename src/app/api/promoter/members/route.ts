@@ -0,0 +1,15 @@
+export const dynamic = "force-dynamic";
+/**
+ * The promoter's team: list it (any seat) or invite someone (owner). See
+ * src/lib/organizations/team-routes.ts.
+ */
+import { NextRequest } from "next/server";
+import { inviteMemberResponse, listTeamResponse } from "@/lib/organizations/team-routes";
+
+export async function GET() {
+  return listTeamResponse("PROMOTER");
+}
+
+export async function POST(request: NextRequest) {
+  return inviteMemberResponse(request, "PROMOTER");
+}
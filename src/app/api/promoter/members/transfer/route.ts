@@ -0,0 +1,8 @@
+export const dynamic = "force-dynamic";
+/** Hand ownership of the promoter to an existing team member (owner only). */
+import { NextRequest } from "next/server";
+import { transferOwnershipResponse } from "@/lib/organizations/team-routes";
+
+export async function POST(request: NextRequest) {
+  return transferOwnershipResponse(request, "PROMOTER");
+}
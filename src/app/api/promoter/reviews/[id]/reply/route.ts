@@ -0,0 +1,71 @@
+export const dynamic = "force-dynamic";
+/**
+ * The promoter's public reply to a vendor review of one of its events.
+ *
+ * PUT    { body } → set or replace the reply
+ * DELETE          → remove it
+ *
+ * Session + EDITOR seat on the promoter + email verification. The review must
+ * be of an event that promoter runs (setReviewReply); an admin can still
+ * remove a reply from /admin/reviews.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { requireVerifiedSession } from "@/lib/api-auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { logError } from "@/lib/logger";
+import { setReviewReply } from "@/lib/reviews/event-reviews";
+import { eventReviewReplySchema, validateRequestBody } from "@/lib/validations";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const requirePromoterEditor = () =>
+  requireVerifiedSession({ entityType: "PROMOTER", role: "EDITOR" });
+
+async function reply(
+  request: NextRequest,
+  gate: { userId: string; membership: { entityId: string } },
+  reviewId: string,
+  body: string | null
+) {
+  const db = getCloudflareDb();
+  try {
+    const result = await setReviewReply(db, {
+      reviewId,
+      promoterId: gate.membership.entityId,
+      userId: gate.userId,
+      body,
+    });
+    if (!result.ok) {
+      // Someone else's event looks the same as no review at all.
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    await logError(db, {
+      message: "Failed to save review reply",
+      error,
+      source: "api/promoter/reviews/[id]/reply",
+      request,
+      context: { reviewId },
+    });
+    return NextResponse.json({ error: "Failed to save reply" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const gate = await requirePromoterEditor();
+  if (!gate.ok) return gate.response;
+  const { id } = await params;
+  const validation = await validateRequestBody(request, eventReviewReplySchema);
+  if (!validation.success) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+  return reply(request, gate, id, validation.data.body);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const gate = await requirePromoterEditor();
+  if (!gate.ok) return gate.response;
+  const { id } = await params;
+  return reply(request, gate, id, null);
+}
@@ -0,0 +1,48 @@
+export const dynamic = "force-dynamic";
+/**
+ * POST /api/reviews/[id]/report — flag a published vendor review for admin
+ * attention (src/lib/reviews/moderation.ts). Any signed-in user, once per
+ * review; the report lands in the /admin/reviews queue.
+ */
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { reportReview, type ReportResult } from "@/lib/reviews/moderation";
+import { eventReviewReportSchema, validateRequestBody } from "@/lib/validations";
+
+const REFUSALS: Record<
+  Extract<ReportResult, { ok: false }>["reason"],
+  { error: string; status: number }
+> = {
+  not_found: { error: "Review not found", status: 404 },
+  already_reported: { error: "You've already reported this review.", status: 409 },
+  own_review: {
+    error: "You can't report your own review. Edit or withdraw it instead.",
+    status: 400,
+  },
+};
+
+export const POST = withAuth<{ id: string }>(
+  { source: "api/reviews/[id]/report" },
+  async ({ request, db, session, params }) => {
+    const limit = await checkRateLimit(request, "review-report");
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    const validation = await validateRequestBody(request, eventReviewReportSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await reportReview(db, {
+      reviewId: params.id,
+      reporterUserId: session.user.id,
+      reason: validation.data.reason,
+      details: validation.data.details ?? null,
+    });
+    if (!result.ok) {
+      const refusal = REFUSALS[result.reason];
+      return NextResponse.json({ error: refusal.error }, { status: refusal.status });
+    }
+    return NextResponse.json({ success: true }, { status: 201 });
+  }
+);
@@ -0,0 +1,99 @@
+export const dynamic = "force-dynamic";
+/**
+ * One-click "stop saved-search emails". The link in every saved-search digest
+ * (footer and List-Unsubscribe header) points here. Turns email off on ALL of
+ * the signed address's saved searches; the searches themselves and their
+ * in-app notifications stay, and email can be switched back on per search
+ * from /dashboard.
+ *
+ * Token semantics: src/lib/saved-searches/unsubscribe-token.ts — the
+ * newsletter's stateless HMAC under a purpose-scoped key. Same protocol split
+ * as /api/newsletter/unsubscribe: GET is a human clicking, POST is the mail
+ * client's RFC 8058 one-click, and both share `performUnsubscribe`.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { eq, inArray, sql } from "drizzle-orm";
+import { getCloudflareDb, getCloudflareEnv } from "@/lib/cloudflare";
+import { savedSearches, users } from "@/lib/db/schema";
+import { resolveUnsubscribeSecret } from "@/lib/email/newsletter-unsubscribe-token";
+import { verifySavedSearchUnsubscribeToken } from "@/lib/saved-searches/unsubscribe-token";
+import { logError } from "@/lib/logger";
+import { unsubscribePage } from "@/lib/unsubscribe-page";
+
+type UnsubscribeStatus = "ok" | "missing_token" | "invalid" | "server_error";
+
+async function performUnsubscribe(token: string): Promise<UnsubscribeStatus> {
+  if (!token) return "missing_token";
+
+  const env = getCloudflareEnv() as unknown as Record<string, string | undefined>;
+  const secret = resolveUnsubscribeSecret(env);
+  const db = getCloudflareDb();
+
+  if (!secret) {
+    await logError(db, {
+      message: "Saved-search unsubscribe: no signing secret configured",
+      source: "api/saved-searches/unsubscribe",
+    });
+    return "server_error";
+  }
+
+  try {
+    const email = await verifySavedSearchUnsubscribeToken(token, secret);
+    if (!email) return "invalid";
+    // Idempotent; an address with no account or no searches is still "ok".
+    const owners = db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(sql`LOWER(${users.email})`, email));
+    await db
+      .update(savedSearches)
+      .set({ emailEnabled: false, updatedAt: new Date() })
+      .where(inArray(savedSearches.userId, owners));
+    return "ok";
+  } catch (e) {
+    await logError(db, {
+      message: "Saved-search unsubscribe endpoint threw",
+      error: e,
+      source: "api/saved-searches/unsubscribe",
+    });
+    return "server_error";
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const token = new URL(request.url).searchParams.get("token") ?? "";
+  switch (await performUnsubscribe(token)) {
+    case "ok":
+      return unsubscribePage(
+        "Saved-search emails stopped",
+        "You won't get saved-search emails any more. Your saved searches still show new matches in your notifications, and you can turn email back on from your dashboard.",
+        200
+      );
+    case "server_error":
+      return unsubscribePage(
+        "Something went wrong",
+        "We couldn't process this link right now. Please try again in a few minutes.",
+        500
+      );
+    default:
+      return unsubscribePage(
+        "Invalid unsubscribe link",
+        "This link is missing information or has been altered. Please use the link from the email exactly as it appears, or manage your saved searches from your dashboard.",
+        400
+      );
+  }
+}
+
+/**
+ * RFC 8058 one-click. Plain 200 even for a bad token (a mail provider can't
+ * fix one, and a 4xx counts against the sender); 500 only when the signing
+ * secret is missing, which is ours to fix.
+ */
+export async function POST(request: NextRequest) {
+  const token = new URL(request.url).searchParams.get("token") ?? "";
+  const status = await performUnsubscribe(token);
+  return new NextResponse(status, {
+    status: status === "server_error" ? 500 : 200,
+    headers: { "Content-Type": "text/plain" },
+  });
+}
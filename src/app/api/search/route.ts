@@ -2,25 +2,19 @@ export const dynamic = "force-dynamic";
 import { NextResponse } from "next/server";
 import { getCloudflareDb } from "@/lib/cloudflare";
 import { events, venues, vendors, blogPosts } from "@/lib/db/schema";
-import {
-  and,
-  or,
-  gte,
-  eq,
-  inArray,
-  isNull,
-  sql,
-  desc,
-  type SQL,
-  type AnyColumn,
-} from "drizzle-orm";
-import { containsCI } from "@/lib/db/contains-ci";
+import { and, or, gte, eq, inArray, isNull, sql, type SQL } from "drizzle-orm";
 import { isPublicEventStatus } from "@/lib/event-status";
 import { withErrorHandler } from "@/lib/api-handler";
 import { searchHelpArticles } from "@/lib/help-articles";
-import { expandEventSearchQuery } from "@/lib/search/query-expansion";
+import {
+  buildSearchMatch,
+  searchSection,
+  type Highlighted,
+  type SearchMatch,
+} from "@/lib/search/fts";
 import { levenshteinSimilarity } from "@takemetothefair/utils";
 import { logError } from "@/lib/logger";
+import { distanceFrom, resolveNearSearch, withinRadius } from "@/lib/near-search";
 import {
   collectBrandParentIdsToLoad,
   groupVendorsForListing,
@@ -40,13 +34,48 @@ import {
 // COLUMN is also wrong: the column is irrelevant, the PATTERN is what is
 // measured.
 //
-// The matching now uses instr() (see src/lib/db/contains-ci.ts), which has no
-// pattern-length limit, so this cap no longer guards against anything — it is
-// retained only to bound input. Do not re-derive a LIKE cap from it.
+// The matching moved to instr() (see src/lib/db/contains-ci.ts) and then to
+// the FTS5 index (src/lib/search/fts.ts); neither has a pattern-length limit,
+// so this cap no longer guards against anything — it is retained only to
+// bound input. Do not re-derive a LIKE cap from it.
 const MAX_QUERY_LENGTH = 100;
 
 const EMPTY_RESPONSE = { events: [], venues: [], vendors: [], blogPosts: [], help: [] };
 
+const EVENT_COLUMNS = {
+  name: events.name,
+  slug: events.slug,
+  startDate: events.startDate,
+  endDate: events.endDate,
+  venueName: venues.name,
+  venueCity: venues.city,
+  venueState: venues.state,
+  venueLatitude: venues.latitude,
+  venueLongitude: venues.longitude,
+};
+
+const VENDOR_COLUMNS = {
+  id: vendors.id,
+  businessName: vendors.businessName,
+  // EH2.1 — surface display_name so the client dropdown can honor the brand
+  // override.
+  displayName: vendors.displayName,
+  slug: vendors.slug,
+  vendorType: vendors.vendorType,
+  latitude: vendors.latitude,
+  longitude: vendors.longitude,
+  // EH2.4 — hierarchy fields for the brand-parent search dedup.
+  role: vendors.role,
+  brandParentVendorId: vendors.brandParentVendorId,
+  operatorParentVendorId: vendors.operatorParentVendorId,
+  aliasOfVendorId: vendors.aliasOfVendorId,
+  displayOverridePermitted: vendors.displayOverridePermitted,
+  displayMode: vendors.displayMode,
+  defaultChildDisplay: vendors.defaultChildDisplay,
+};
+
+type Unhighlighted<T> = Omit<T, keyof Highlighted>;
+
 export const GET = withErrorHandler(async (request: Request) => {
   const url = new URL(request.url);
   const q = url.searchParams.get("q")?.trim();
@@ -60,17 +89,18 @@ export const GET = withErrorHandler(async (request: Request) => {
   }
 
   const db = getCloudflareDb();
-  // Escape LIKE metacharacters (`%`, `_`) before wrapping the user's input.
-  // Without this, a query like `100%_off` was interpreted as wildcards
-  // rather than literal text.
 
-  // OPE-281 — expand the query into structured match intent for the EVENTS
-  // section: event-type synonyms (fair⇄market⇄festival⇄show), category mapping
-  // ("arts and crafts" → Craft Fair/Art Show), and a trailing state token
-  // ("blueberry connecticut" → term "blueberry" + state CT). The other sections
-  // keep the plain substring match. If the query carries no distinctive text
-  // (e.g. only a state), fall back to the raw name LIKE.
-  const expanded = expandEventSearchQuery(q);
+  // Every section reads the FTS index (drizzle/0230) for its ranked ids and
+  // highlights, then fetches the display columns for those ids. The events
+  // and vendors sections use the full OPE-281 expansion — event-type synonyms
+  // (fair⇄market⇄festival⇄show) and, for events, category mapping ("arts and
+  // crafts" → Craft Fair/Art Show). A trailing state ("blueberry
+  // connecticut") becomes a filter on events and venues; vendors drop it, as
+  // vendor locations are too sparse to filter on. Blog posts skip state
+  // detection outright: "visiting maine" is a topic, not a filter.
+  const eventMatch = buildSearchMatch(q, { categories: true });
+  const placeMatch = buildSearchMatch(q);
+  const blogMatch = buildSearchMatch(q, { detectState: false });
   // OPE-281 follow-up — an event is "current/upcoming" if its end date hasn't
   // passed, OR (when end_date is NULL — 42 APPROVED start-date-only events) its
   // start date is upcoming. The old bare `endDate >= now` silently hid every
@@ -81,30 +111,26 @@ export const GET = withErrorHandler(async (request: Request) => {
     gte(events.endDate, nowDate),
     and(isNull(events.endDate), gte(events.startDate, nowDate))
   );
-  // OPE-366 — instr(), not LIKE. D1 caps a LIKE PATTERN at 50 characters and
-  // this route built one from the user's query, so any search past ~48 chars
-  // threw SQLITE_ERROR. See src/lib/db/contains-ci.ts. No escaping needed —
-  // `%` and `_` are literal to instr, which also fixes `100%_off` searching
-  // for the literal text rather than acting as wildcards.
-  const contains = (col: AnyColumn, term: string) => containsCI(col, term);
-  const nameGroupClauses = expanded.nameTermGroups
-    .map((group) => or(...group.map((alt) => contains(events.name, alt))))
-    .filter((c): c is SQL => c !== undefined);
-  const nameMatch = nameGroupClauses.length > 0 ? and(...nameGroupClauses) : undefined;
-  const categoryMatch =
-    expanded.categoryNames.length > 0
-      ? or(...expanded.categoryNames.map((c) => contains(events.categories, c.toLowerCase())))
-      : undefined;
-  const eventTextPredicate: SQL =
-    nameMatch && categoryMatch
-      ? (or(nameMatch, categoryMatch) as SQL)
-      : (nameMatch ?? categoryMatch ?? containsCI(events.name, q));
-  const eventsWhere = and(
-    isPublicEventStatus(),
-    notEnded,
-    eventTextPredicate,
-    ...(expanded.stateCode ? [sql`UPPER(${venues.state}) = ${expanded.stateCode}`] : [])
-  );
+  const inState = (m: SearchMatch | null): SQL[] =>
+    m?.stateCode ? [sql`UPPER(${venues.state}) = ${m.stateCode}`] : [];
+
+  // Optional radius (`near=lat,lng` or `zip=`, plus `radius=` miles, as on
+  // /events and /vendors). It narrows events, venues and vendors to rows
+  // inside it and adds `distanceMiles` to each; the order stays by relevance,
+  // since a typeahead's best match shouldn't lose to a closer weak one. An
+  // unresolvable ZIP is ignored rather than emptying every section, and the
+  // response's `near` says what, if anything, was applied.
+  const { search: near } = await resolveNearSearch(db, {
+    near: url.searchParams.get("near"),
+    zip: url.searchParams.get("zip"),
+    radius: url.searchParams.get("radius"),
+  });
+  const venueInRadius: SQL[] = near ? [withinRadius(venues.latitude, venues.longitude, near)] : [];
+  const vendorInRadius: SQL[] = near
+    ? [withinRadius(vendors.latitude, vendors.longitude, near)]
+    : [];
+  const milesTo = (lat: number | null, lng: number | null) =>
+    near ? { distanceMiles: distanceFrom(near.center, lat, lng) } : {};
 
   // Promise.allSettled (not Promise.all) so one failing section returns
   // empty for that section instead of 500-ing the whole response. Each
@@ -112,87 +138,81 @@ export const GET = withErrorHandler(async (request: Request) => {
   // (now-graceful) degradation; previously these manifested as hard 500s
   // in `error_logs` under source=`api/search`.
   const [eventsSettled, venuesSettled, vendorsSettled, blogSettled] = await Promise.allSettled([
-    db
-      .select({
-        name: events.name,
-        slug: events.slug,
-        startDate: events.startDate,
-        endDate: events.endDate,
-        venueName: venues.name,
-        venueCity: venues.city,
-        venueState: venues.state,
-      })
-      .from(events)
-      .leftJoin(venues, eq(events.venueId, venues.id))
-      .where(eventsWhere)
-      .orderBy(events.startDate)
-      .limit(5),
+    searchSection(
+      db,
+      eventMatch && {
+        entity: "event",
+        match: eventMatch.match,
+        where: and(isPublicEventStatus(), notEnded, ...inState(eventMatch), ...venueInRadius),
+        limit: 5,
+        now: nowDate,
+      },
+      (ids) =>
+        db
+          .select({ id: events.id, ...EVENT_COLUMNS })
+          .from(events)
+          .leftJoin(venues, eq(events.venueId, venues.id))
+          .where(inArray(events.id, ids))
+    ),
 
-    db
-      .select({
-        name: venues.name,
-        slug: venues.slug,
-        city: venues.city,
-        state: venues.state,
-      })
-      .from(venues)
-      .where(
-        and(eq(venues.status, "ACTIVE"), or(containsCI(venues.name, q), containsCI(venues.city, q)))
-      )
-      .orderBy(venues.name)
-      .limit(5),
+    searchSection(
+      db,
+      placeMatch && {
+        entity: "venue",
+        match: placeMatch.match,
+        where: and(eq(venues.status, "ACTIVE"), ...inState(placeMatch), ...venueInRadius),
+        limit: 5,
+      },
+      (ids) =>
+        db
+          .select({
+            id: venues.id,
+            name: venues.name,
+            slug: venues.slug,
+            city: venues.city,
+            state: venues.state,
+            latitude: venues.latitude,
+            longitude: venues.longitude,
+          })
+          .from(venues)
+          .where(inArray(venues.id, ids))
+    ),
 
-    db
-      .select({
-        id: vendors.id,
-        businessName: vendors.businessName,
-        // EH2.1 — surface display_name so the client dropdown can honor
-        // the brand override.
-        displayName: vendors.displayName,
-        slug: vendors.slug,
-        vendorType: vendors.vendorType,
-        // EH2.4 — hierarchy fields for the brand-parent search dedup
-        // applied below. We over-fetch (LIMIT 15 instead of 5) so the
-        // dedup leaves room for 5 distinct results in the dropdown.
-        role: vendors.role,
-        brandParentVendorId: vendors.brandParentVendorId,
-        operatorParentVendorId: vendors.operatorParentVendorId,
-        aliasOfVendorId: vendors.aliasOfVendorId,
-        displayOverridePermitted: vendors.displayOverridePermitted,
-        displayMode: vendors.displayMode,
-        defaultChildDisplay: vendors.defaultChildDisplay,
-      })
-      .from(vendors)
-      .where(
-        or(
-          containsCI(vendors.businessName, q),
-          containsCI(sql`COALESCE(${vendors.displayName}, '')`, q)
-        )
-      )
-      .orderBy(vendors.businessName)
-      .limit(15),
+    // EH2.4 — we over-fetch (15 instead of 5) so the brand-parent dedup
+    // applied below leaves room for 5 distinct results in the dropdown.
+    searchSection(
+      db,
+      placeMatch && {
+        entity: "vendor",
+        match: placeMatch.match,
+        where: and(isNull(vendors.deletedAt), ...vendorInRadius),
+        limit: 15,
+      },
+      (ids) => db.select(VENDOR_COLUMNS).from(vendors).where(inArray(vendors.id, ids))
+    ),
 
-    // SEARCH1 — Dropped `LOWER(blogPosts.body) LIKE …` from this WHERE.
-    // The full-Markdown body column was the primary trigger for "LIKE
-    // pattern too complex" failures on long queries. title + excerpt is
-    // a smaller, denser search surface; FTS5 is the longer-term answer
-    // (see plan §A "Out of scope") but a 1-line fix beats a migration.
-    // COALESCE because some older posts have NULL excerpt.
-    db
-      .select({
-        title: blogPosts.title,
-        slug: blogPosts.slug,
-        excerpt: blogPosts.excerpt,
-      })
-      .from(blogPosts)
-      .where(
-        and(
-          eq(blogPosts.status, "PUBLISHED"),
-          or(containsCI(blogPosts.title, q), containsCI(sql`COALESCE(${blogPosts.excerpt}, '')`, q))
-        )
-      )
-      .orderBy(desc(blogPosts.publishDate))
-      .limit(5),
+    // SEARCH1 dropped the Markdown body from this section's LIKE to dodge the
+    // pattern cap, pointing at FTS5 as the longer-term answer. The index
+    // covers excerpt + body again, and the snippet shows where it matched.
+    searchSection(
+      db,
+      blogMatch && {
+        entity: "blog",
+        match: blogMatch.match,
+        where: eq(blogPosts.status, "PUBLISHED"),
+        limit: 5,
+      },
+      (ids) =>
+        db
+          .select({
+            id: blogPosts.id,
+            title: blogPosts.title,
+            slug: blogPosts.slug,
+            excerpt: blogPosts.excerpt,
+          })
+          .from(blogPosts)
+          .where(inArray(blogPosts.id, ids))
+    ),
   ]);
 
   // Log per-section failures as `warn` (not `error`) — the route succeeded
@@ -225,32 +245,22 @@ export const GET = withErrorHandler(async (request: Request) => {
   const eventResults = eventsSettled.status === "fulfilled" ? eventsSettled.value : [];
 
   // OPE-281 — zero-result fuzzy fallback for misspellings ("mrshfeild" →
-  // "Marshfield Fair"). Only fires when the structured match found nothing AND
-  // the query carries a distinctive term, so the bounded name scan stays a rare
+  // "Marshfield Fair"). Only fires when the index found nothing AND the query
+  // carries a distinctive term, so the bounded name scan stays a rare
   // exception (matching the "zero-result is where we failed the user" signal).
-  let finalEventResults = eventResults;
-  const fuzzyTerms = expanded.coreTerms.filter((t) => t.length >= 5);
+  // The porter stemmer and prefix matching absorb plurals and half-typed
+  // words, but not transposed letters — this still earns its keep.
+  // Fuzzy matches come from a plain scan, so carry no highlight.
+  let finalEventResults: (Unhighlighted<(typeof eventResults)[number]> & Partial<Highlighted>)[] =
+    eventResults;
+  const fuzzyTerms = (eventMatch?.coreTerms ?? []).filter((t) => t.length >= 5);
   if (eventResults.length === 0 && fuzzyTerms.length > 0) {
     try {
       const candidates = await db
-        .select({
-          name: events.name,
-          slug: events.slug,
-          startDate: events.startDate,
-          endDate: events.endDate,
-          venueName: venues.name,
-          venueCity: venues.city,
-          venueState: venues.state,
-        })
+        .select({ id: events.id, ...EVENT_COLUMNS })
         .from(events)
         .leftJoin(venues, eq(events.venueId, venues.id))
-        .where(
-          and(
-            isPublicEventStatus(),
-            notEnded,
-            ...(expanded.stateCode ? [sql`UPPER(${venues.state}) = ${expanded.stateCode}`] : [])
-          )
-        )
+        .where(and(isPublicEventStatus(), notEnded, ...inState(eventMatch), ...venueInRadius))
         .orderBy(events.startDate)
         .limit(400);
       // 0.7 catches the audit's canonical "mrshfeild" → "marshfield" (exactly
@@ -295,7 +305,11 @@ export const GET = withErrorHandler(async (request: Request) => {
   // self-mode brand hubs from the result set (they're noindex,follow
   // surfaces — irrelevant in search), and collapses brand-parent-mode
   // brands' offices into a single row.
-  const matchedById = new Map(vendorResults.map((v) => [v.id, v]));
+  const matchedById = new Map<string, Unhighlighted<(typeof vendorResults)[number]>>(
+    vendorResults.map((v) => [v.id, v])
+  );
+  // Brand parents loaded below weren't hits themselves, so have no highlight.
+  const vendorHighlights = new Map(vendorResults.map((v) => [v.id, v.highlight]));
   const matchedAsGroupable: GroupableVendor[] = vendorResults.map((v) => ({
     id: v.id,
     role: v.role,
@@ -315,20 +329,7 @@ export const GET = withErrorHandler(async (request: Request) => {
   const extraBrandRows =
     missingBrandIds.length > 0
       ? await db
-          .select({
-            id: vendors.id,
-            businessName: vendors.businessName,
-            displayName: vendors.displayName,
-            slug: vendors.slug,
-            vendorType: vendors.vendorType,
-            role: vendors.role,
-            brandParentVendorId: vendors.brandParentVendorId,
-            operatorParentVendorId: vendors.operatorParentVendorId,
-            aliasOfVendorId: vendors.aliasOfVendorId,
-            displayOverridePermitted: vendors.displayOverridePermitted,
-            displayMode: vendors.displayMode,
-            defaultChildDisplay: vendors.defaultChildDisplay,
-          })
+          .select(VENDOR_COLUMNS)
           .from(vendors)
           .where(and(inArray(vendors.id, missingBrandIds), isNull(vendors.deletedAt)))
       : [];
@@ -384,6 +385,8 @@ export const GET = withErrorHandler(async (request: Request) => {
         displayName: row.displayName,
         slug: row.slug,
         vendorType: row.vendorType,
+        ...milesTo(row.latitude, row.longitude),
+        highlight: vendorHighlights.get(row.id),
       };
     })
     .filter((x): x is NonNullable<typeof x> => x !== null);
@@ -399,10 +402,35 @@ export const GET = withErrorHandler(async (request: Request) => {
       startDate: e.startDate,
       endDate: e.endDate,
       venue: e.venueName ? { name: e.venueName, city: e.venueCity, state: e.venueState } : null,
+      ...milesTo(e.venueLatitude, e.venueLongitude),
+      highlight: e.highlight,
+      snippet: e.snippet,
+    })),
+    venues: venueResults.map((v) => ({
+      name: v.name,
+      slug: v.slug,
+      city: v.city,
+      state: v.state,
+      ...milesTo(v.latitude, v.longitude),
+      highlight: v.highlight,
     })),
-    venues: venueResults,
     vendors: dedupedVendors,
-    blogPosts: blogResults,
+    blogPosts: blogResults.map((p) => ({
+      title: p.title,
+      slug: p.slug,
+      excerpt: p.excerpt,
+      highlight: p.highlight,
+      snippet: p.snippet,
+    })),
     help: helpResults,
+    ...(near && {
+      near: {
+        latitude: near.center.latitude,
+        longitude: near.center.longitude,
+        radiusMiles: near.radiusMiles,
+        zip: near.zip,
+        label: near.label,
+      },
+    }),
   });
 }, "api/search");
@@ -36,6 +36,7 @@ import {
 import { maybeRouteToOccurrence } from "@/lib/discovery/route-to-occurrence";
 import { submitEventSchema } from "./schema";
 import { sendSubmissionReceivedAck } from "@/lib/email/submission-received";
+import { notifyVenueOwnerOfSubmission } from "@/lib/notifications/venue-submissions";
 
 const PUBLIC_EVENT_SET = new Set<string>(PUBLIC_EVENT_STATUSES);
 
@@ -735,6 +736,12 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // drizzle/0240 — the venue's owner, if it has one, hears about it too.
+    await notifyVenueOwnerOfSubmission(db, {
+      eventId: newEventId,
+      submittedByUserId: data.submittedByUserId ?? null,
+    });
+
     return NextResponse.json({
       success: true,
       event: {
@@ -0,0 +1,134 @@
+export const dynamic = "force-dynamic";
+/**
+ * Self-service account deletion (drizzle/0242, src/lib/account/deletion.ts).
+ *
+ *   GET    — the pending request, if any, and whether this account may delete
+ *            itself at all.
+ *   POST   — schedule deletion. The caller retypes their email, plus their
+ *            password when the account has one (OAuth-only accounts don't),
+ *            so a borrowed unlocked laptop can't do it in one click.
+ *   DELETE — cancel a pending request.
+ */
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { withAuth } from "@/lib/api/with-auth";
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  cancelAccountDeletion,
+  deletionBlocker,
+  getPendingDeletion,
+  requestAccountDeletion,
+  type DeletionBlocker,
+} from "@/lib/account/deletion";
+import { verifyPassword } from "@/lib/auth";
+import { users } from "@/lib/db/schema";
+import { getSiteUrl } from "@/lib/email/send";
+import { accountDeletionScheduledTemplate } from "@/lib/email/templates";
+import { logError } from "@/lib/logger";
+import { enqueueEmail } from "@/lib/queues/producers";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { formatDate } from "@/lib/utils";
+import { validateRequestBody } from "@/lib/validations";
+
+const RequestBody = z.object({
+  confirmEmail: z.string().trim().min(1),
+  password: z.string().max(200).optional(),
+});
+
+const BLOCKER_MESSAGES: Record<DeletionBlocker, string> = {
+  admin:
+    "Admin accounts can't be deleted from settings. Ask another admin to remove your role first.",
+  blog_author:
+    "This account has written blog posts. Contact us and we'll reassign them before deleting it.",
+};
+
+export const GET = withAuth({ source: "api/user/account-deletion" }, async ({ db, session }) => {
+  const [pending, blocker, [user]] = await Promise.all([
+    getPendingDeletion(db, session.user.id),
+    deletionBlocker(db, session.user.id),
+    db
+      .select({ passwordHash: users.passwordHash })
+      .from(users)
+      .where(eq(users.id, session.user.id))
+      .limit(1),
+  ]);
+  return NextResponse.json({
+    pending,
+    graceDays: ACCOUNT_DELETION_GRACE_DAYS,
+    blocked: blocker ? BLOCKER_MESSAGES[blocker] : null,
+    passwordRequired: Boolean(user?.passwordHash),
+  });
+});
+
+export const POST = withAuth(
+  { source: "api/user/account-deletion" },
+  async ({ request, db, session }) => {
+    const limit = await checkRateLimit(request, "account-deletion");
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    const validation = await validateRequestBody(request, RequestBody);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const [user] = await db
+      .select({ email: users.email, name: users.name, passwordHash: users.passwordHash })
+      .from(users)
+      .where(eq(users.id, session.user.id))
+      .limit(1);
+    if (!user) return NextResponse.json({ error: "User not found" }, { status: 404 });
+
+    if (validation.data.confirmEmail.toLowerCase() !== user.email.toLowerCase()) {
+      return NextResponse.json(
+        { error: "That email doesn't match this account." },
+        { status: 400 }
+      );
+    }
+    if (user.passwordHash) {
+      const password = validation.data.password ?? "";
+      if (!password || !(await verifyPassword(password, user.passwordHash))) {
+        return NextResponse.json({ error: "Incorrect password." }, { status: 400 });
+      }
+    }
+
+    const result = await requestAccountDeletion(db, { userId: session.user.id });
+    if (!result.ok) {
+      return NextResponse.json({ error: BLOCKER_MESSAGES[result.reason] }, { status: 409 });
+    }
+
+    const tpl = accountDeletionScheduledTemplate({
+      name: user.name,
+      scheduledFor: formatDate(result.deletion.scheduledFor),
+      settingsUrl: `${getSiteUrl()}/dashboard/settings`,
+    });
+    try {
+      await enqueueEmail({
+        to: user.email,
+        subject: tpl.subject,
+        html: tpl.html,
+        text: tpl.text,
+        source: "account.deletion-scheduled",
+      });
+    } catch (error) {
+      // The request stands without the email; settings shows the date too.
+      await logError(db, {
+        level: "warn",
+        message: "Failed to enqueue account deletion email",
+        error,
+        source: "api/user/account-deletion",
+        request,
+      });
+    }
+
+    return NextResponse.json({ pending: result.deletion });
+  }
+);
+
+export const DELETE = withAuth({ source: "api/user/account-deletion" }, async ({ db, session }) => {
+  const cancelled = await cancelAccountDeletion(db, { userId: session.user.id });
+  if (!cancelled) {
+    return NextResponse.json({ error: "No deletion is scheduled." }, { status: 404 });
+  }
+  return NextResponse.json({ pending: null });
+});
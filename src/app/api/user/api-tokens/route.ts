@@ -3,7 +3,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { getCloudflareDb } from "@/lib/cloudflare";
 import { apiTokens } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, gt, isNull, or } from "drizzle-orm";
+import { z } from "zod";
+import { API_TOKEN_SCOPE_VALUES, parseCidr, parseTokenScopes } from "@takemetothefair/utils";
 
 function toHex(buffer: ArrayBuffer): string {
   return Array.from(new Uint8Array(buffer))
@@ -23,6 +25,34 @@ function generateRawToken(): string {
   return `mmatf_${toHex(bytes.buffer)}`;
 }
 
+const MAX_ACTIVE_TOKENS = 5;
+
+const CreateBody = z.object({
+  name: z.string().trim().max(50).optional(),
+  // At least one scope: a token that can do nothing is a mistake, not a choice.
+  scopes: z.array(z.enum(API_TOKEN_SCOPE_VALUES as [string, ...string[]])).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+  allowedCidrs: z
+    .array(
+      z
+        .string()
+        .trim()
+        .refine((c) => parseCidr(c) !== null, { message: "Invalid IP address or CIDR range" })
+    )
+    .max(10)
+    .optional(),
+});
+
+function parseJsonArray(raw: string | null): string[] | null {
+  if (!raw) return null;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === "string") : null;
+  } catch {
+    return null;
+  }
+}
+
 /** GET — list all tokens for the current user (hashes are NOT returned) */
 export async function GET() {
   const session = await auth();
@@ -35,13 +65,27 @@ export async function GET() {
     .select({
       id: apiTokens.id,
       name: apiTokens.name,
+      scopes: apiTokens.scopes,
+      expiresAt: apiTokens.expiresAt,
+      revokedAt: apiTokens.revokedAt,
+      revokedReason: apiTokens.revokedReason,
+      allowedCidrs: apiTokens.allowedCidrs,
+      useCount: apiTokens.useCount,
+      deniedCount: apiTokens.deniedCount,
+      lastUsedIp: apiTokens.lastUsedIp,
       lastUsedAt: apiTokens.lastUsedAt,
       createdAt: apiTokens.createdAt,
     })
     .from(apiTokens)
     .where(eq(apiTokens.userId, session.user.id));
 
-  return NextResponse.json(tokens);
+  return NextResponse.json(
+    tokens.map((t) => ({
+      ...t,
+      scopes: parseTokenScopes(t.scopes),
+      allowedCidrs: parseJsonArray(t.allowedCidrs),
+    }))
+  );
 }
 
 /** POST — create a new API token. Returns the raw token ONCE. */
@@ -51,30 +95,41 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  const json = await request.json().catch(() => null);
+  const parsed = CreateBody.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid token settings", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
   const db = getCloudflareDb();
 
-  // Limit to 5 tokens per user
+  // Revoked and expired tokens stay listed for the audit trail but don't count
+  // toward the cap.
   const existing = await db
     .select({ id: apiTokens.id })
     .from(apiTokens)
-    .where(eq(apiTokens.userId, session.user.id));
+    .where(
+      and(
+        eq(apiTokens.userId, session.user.id),
+        isNull(apiTokens.revokedAt),
+        or(isNull(apiTokens.expiresAt), gt(apiTokens.expiresAt, new Date()))
+      )
+    );
 
-  if (existing.length >= 5) {
+  if (existing.length >= MAX_ACTIVE_TOKENS) {
     return NextResponse.json(
       { error: "Maximum of 5 API tokens allowed. Please revoke an existing token first." },
       { status: 400 }
     );
   }
 
-  let name = "Default";
-  try {
-    const body = (await request.json()) as Record<string, unknown>;
-    if (body.name && typeof body.name === "string") {
-      name = body.name.slice(0, 50);
-    }
-  } catch {
-    // Body is optional
-  }
+  const { scopes, expiresInDays, allowedCidrs } = parsed.data;
+  const name = parsed.data.name || "Default";
+  const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 86_400_000) : null;
+  const cidrs = allowedCidrs && allowedCidrs.length > 0 ? allowedCidrs : null;
 
   const rawToken = generateRawToken();
   const tokenHash = await hashToken(rawToken);
@@ -85,19 +140,29 @@ export async function POST(request: NextRequest) {
     userId: session.user.id,
     tokenHash,
     name,
+    scopes: JSON.stringify([...new Set(scopes)]),
+    expiresAt,
+    allowedCidrs: cidrs ? JSON.stringify(cidrs) : null,
   });
 
   return NextResponse.json(
     {
       id,
       name,
+      scopes,
+      expiresAt,
+      allowedCidrs: cidrs,
       token: rawToken, // Shown once, never stored
     },
     { status: 201 }
   );
 }
 
-/** DELETE — revoke a token by ID */
+/**
+ * DELETE — revoke a token by ID, with an optional `reason`. Revocation is a
+ * soft flag (drizzle/0225): the token stops authenticating immediately but
+ * stays listed, so the owner can see what was pulled and why.
+ */
 export async function DELETE(request: NextRequest) {
   const session = await auth();
   if (!session?.user?.id) {
@@ -106,6 +171,7 @@ export async function DELETE(request: NextRequest) {
 
   const { searchParams } = new URL(request.url);
   const tokenId = searchParams.get("id");
+  const reason = searchParams.get("reason")?.trim().slice(0, 200) || null;
 
   if (!tokenId) {
     return NextResponse.json({ error: "Token ID required" }, { status: 400 });
@@ -113,18 +179,24 @@ export async function DELETE(request: NextRequest) {
 
   const db = getCloudflareDb();
 
-  // Verify the token exists and belongs to this user before deleting
-  const existing = await db
-    .select({ id: apiTokens.id })
+  // Verify the token exists and belongs to this user before revoking
+  const [existing] = await db
+    .select({ id: apiTokens.id, revokedAt: apiTokens.revokedAt })
     .from(apiTokens)
     .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, session.user.id)))
     .limit(1);
 
-  if (existing.length === 0) {
+  if (!existing) {
     return NextResponse.json({ error: "Token not found" }, { status: 404 });
   }
 
-  await db.delete(apiTokens).where(eq(apiTokens.id, tokenId));
+  // Idempotent: re-revoking keeps the original timestamp and reason.
+  if (!existing.revokedAt) {
+    await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(eq(apiTokens.id, tokenId));
+  }
 
-  return NextResponse.json({ deleted: true });
+  return NextResponse.json({ revoked: true });
 }
@@ -0,0 +1,32 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { SITE_URL } from "@takemetothefair/constants";
+import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { getOrCreateFeedToken, rotateFeedToken } from "@/lib/calendar/feed-tokens";
+
+function feedUrl(token: string): string {
+  return `${SITE_URL}/api/calendar/favorites/${token}`;
+}
+
+/** GET — the current user's private favorites feed URL (minted on first call). */
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const token = await getOrCreateFeedToken(getCloudflareDb(), session.user.id);
+  return NextResponse.json({ url: feedUrl(token) });
+}
+
+/** POST — rotate the token. The previous URL stops working immediately. */
+export async function POST() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const token = await rotateFeedToken(getCloudflareDb(), session.user.id);
+  return NextResponse.json({ url: feedUrl(token) });
+}
@@ -0,0 +1,26 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { buildAccountExport } from "@/lib/account/export";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+// GET - Download everything we hold about the caller as one JSON file
+export const GET = withAuth(
+  { source: "api/user/data-export" },
+  async ({ request, db, session }) => {
+    const limit = await checkRateLimit(request, "account-data-export");
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    const data = await buildAccountExport(db, session.user.id);
+    if (!data) return NextResponse.json({ error: "User not found" }, { status: 404 });
+
+    const date = data.exportedAt.slice(0, 10);
+    return new Response(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="takemetothefair-account-${date}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+);
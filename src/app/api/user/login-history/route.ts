@@ -0,0 +1,15 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { listLoginHistory } from "@/lib/auth/login-events";
+
+// GET - The caller's recent sign-ins (newest first), marking this session
+export const GET = withAuth({ source: "api/user/login-history" }, async ({ db, session }) => {
+  const history = await listLoginHistory(db, session.user.id);
+  return NextResponse.json({
+    logins: history.map((entry) => ({
+      ...entry,
+      current: entry.id === session.user.sessionId,
+    })),
+  });
+});
@@ -0,0 +1,44 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { notificationPreferencesUpdateSchema, validateRequestBody } from "@/lib/validations";
+import {
+  getNotificationPreferences,
+  setNotificationPreferences,
+} from "@/lib/notifications/notifications";
+import { isNotificationType, type NotificationType } from "@/lib/notifications/types";
+
+// GET - Every notification type with the caller's email / in-app choice
+// (the type's default where they haven't made one)
+export const GET = withAuth(
+  { source: "api/user/notification-preferences" },
+  async ({ db, session }) => {
+    const preferences = await getNotificationPreferences(db, session.user.id);
+    return NextResponse.json({ preferences });
+  }
+);
+
+// PUT - Set the channels for the listed types; unlisted types are untouched
+export const PUT = withAuth(
+  { source: "api/user/notification-preferences" },
+  async ({ request, db, session }) => {
+    const validation = await validateRequestBody(request, notificationPreferencesUpdateSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const unknown = validation.data.preferences.find((p) => !isNotificationType(p.type));
+    if (unknown) {
+      return NextResponse.json(
+        { error: `Unknown notification type: ${unknown.type}` },
+        { status: 400 }
+      );
+    }
+    await setNotificationPreferences(
+      db,
+      session.user.id,
+      validation.data.preferences.map((p) => ({ ...p, type: p.type as NotificationType }))
+    );
+    const preferences = await getNotificationPreferences(db, session.user.id);
+    return NextResponse.json({ preferences });
+  }
+);
@@ -0,0 +1,33 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { notificationUpdateSchema, validateRequestBody } from "@/lib/validations";
+import { deleteNotification, setNotificationRead } from "@/lib/notifications/notifications";
+
+// PATCH - Mark one notification read or unread
+export const PATCH = withAuth<{ id: string }>(
+  { source: "api/user/notifications/[id]" },
+  async ({ request, db, session, params }) => {
+    const validation = await validateRequestBody(request, notificationUpdateSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const found = await setNotificationRead(db, session.user.id, params.id, validation.data.read);
+    if (!found) {
+      return NextResponse.json({ error: "Notification not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  }
+);
+
+// DELETE - Remove one notification
+export const DELETE = withAuth<{ id: string }>(
+  { source: "api/user/notifications/[id]" },
+  async ({ db, session, params }) => {
+    const found = await deleteNotification(db, session.user.id, params.id);
+    if (!found) {
+      return NextResponse.json({ error: "Notification not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,13 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { markAllNotificationsRead } from "@/lib/notifications/notifications";
+
+// POST - Mark every unread notification read
+export const POST = withAuth(
+  { source: "api/user/notifications/read-all" },
+  async ({ db, session }) => {
+    const updated = await markAllNotificationsRead(db, session.user.id);
+    return NextResponse.json({ updated });
+  }
+);
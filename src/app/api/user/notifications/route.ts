@@ -0,0 +1,36 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import {
+  clearNotifications,
+  countUnreadNotifications,
+  listNotifications,
+} from "@/lib/notifications/notifications";
+
+// GET - The caller's notifications, newest first, with the unread count the
+// bell badges. ?unread=1 for unread only; ?limit= / ?offset= to page.
+export const GET = withAuth(
+  { source: "api/user/notifications" },
+  async ({ request, db, session }) => {
+    const url = new URL(request.url);
+    const [notifications, unreadCount] = await Promise.all([
+      listNotifications(db, session.user.id, {
+        limit: Number(url.searchParams.get("limit")) || undefined,
+        offset: Number(url.searchParams.get("offset")) || undefined,
+        unreadOnly: url.searchParams.get("unread") === "1",
+      }),
+      countUnreadNotifications(db, session.user.id),
+    ]);
+    return NextResponse.json({ notifications, unreadCount });
+  }
+);
+
+// DELETE - Clear the caller's notifications; ?read=1 clears only those already read
+export const DELETE = withAuth(
+  { source: "api/user/notifications" },
+  async ({ request, db, session }) => {
+    const readOnly = new URL(request.url).searchParams.get("read") === "1";
+    const deleted = await clearNotifications(db, session.user.id, { readOnly });
+    return NextResponse.json({ deleted });
+  }
+);
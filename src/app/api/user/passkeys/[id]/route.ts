@@ -0,0 +1,44 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withAuth } from "@/lib/api/with-auth";
+import { removePasskey, renamePasskey } from "@/lib/auth/passkeys";
+import { removalLeavesAdminUnprotected } from "@/lib/auth/two-factor";
+import { validateRequestBody } from "@/lib/validations";
+
+const RenameBody = z.object({ name: z.string().trim().min(1).max(60) });
+
+// PATCH - Rename one of the caller's passkeys
+export const PATCH = withAuth<{ id: string }>(
+  { source: "api/user/passkeys/[id]" },
+  async ({ request, db, session, params }) => {
+    const validation = await validateRequestBody(request, RenameBody);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const renamed = await renamePasskey(db, {
+      userId: session.user.id,
+      passkeyId: params.id,
+      name: validation.data.name,
+    });
+    if (!renamed) return NextResponse.json({ error: "Passkey not found" }, { status: 404 });
+    return NextResponse.json({ success: true });
+  }
+);
+
+// DELETE - Remove one of the caller's passkeys. An admin can't remove their
+// last second factor.
+export const DELETE = withAuth<{ id: string }>(
+  { source: "api/user/passkeys/[id]" },
+  async ({ db, session, params }) => {
+    if (await removalLeavesAdminUnprotected(db, { userId: session.user.id, removing: "passkey" })) {
+      return NextResponse.json(
+        { error: "Admin accounts need a second factor. Add another one before removing this." },
+        { status: 409 }
+      );
+    }
+    const removed = await removePasskey(db, { userId: session.user.id, passkeyId: params.id });
+    if (!removed) return NextResponse.json({ error: "Passkey not found" }, { status: 404 });
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,19 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { beginPasskeyRegistration } from "@/lib/auth/passkeys";
+import { relyingPartyFor } from "@/lib/auth/webauthn";
+
+// POST - Creation options for adding a passkey; the challenge lives 5 minutes
+export const POST = withAuth(
+  { source: "api/user/passkeys/options" },
+  async ({ request, db, session }) => {
+    const options = await beginPasskeyRegistration(db, {
+      userId: session.user.id,
+      email: session.user.email,
+      name: session.user.name ?? null,
+      rpId: relyingPartyFor(request.url).rpId,
+    });
+    return NextResponse.json(options);
+  }
+);
@@ -0,0 +1,46 @@
+export const dynamic = "force-dynamic";
+/**
+ * The caller's passkeys (drizzle/0241). GET lists them; POST registers one
+ * from a `credentials.create()` response made against a challenge from
+ * POST /api/user/passkeys/options.
+ *
+ * Registering counts as satisfying this session's second factor (the user
+ * just proved possession of the new key), which is what lets an admin who
+ * enrolls mid-session get the role back after the client's `update()`.
+ */
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { markSessionVerified } from "@/lib/auth/login-events";
+import { finishPasskeyRegistration, listPasskeys } from "@/lib/auth/passkeys";
+import { relyingPartyFor } from "@/lib/auth/webauthn";
+import { passkeyRegistrationSchema, validateRequestBody } from "@/lib/validations";
+
+export const GET = withAuth({ source: "api/user/passkeys" }, async ({ db, session }) => {
+  return NextResponse.json({ passkeys: await listPasskeys(db, session.user.id) });
+});
+
+export const POST = withAuth({ source: "api/user/passkeys" }, async ({ request, db, session }) => {
+  const validation = await validateRequestBody(request, passkeyRegistrationSchema);
+  if (!validation.success) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+  const { origin, rpId } = relyingPartyFor(request.url);
+  const result = await finishPasskeyRegistration(db, {
+    userId: session.user.id,
+    challengeId: validation.data.challengeId,
+    credential: validation.data.credential,
+    name: validation.data.name,
+    origin,
+    rpId,
+  });
+  if (!result.ok) return NextResponse.json({ error: result.error }, { status: 400 });
+
+  if (session.user.sessionId) {
+    await markSessionVerified(db, {
+      sid: session.user.sessionId,
+      userId: session.user.id,
+      secondFactor: "passkey",
+    });
+  }
+  return NextResponse.json({ passkey: result.passkey }, { status: 201 });
+});
@@ -0,0 +1,44 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { withAuth } from "@/lib/api/with-auth";
+import { savedSearches } from "@/lib/db/schema";
+import { savedSearchUpdateSchema, validateRequestBody } from "@/lib/validations";
+import { getOwnedSavedSearch, toClientSavedSearch } from "@/lib/saved-searches/saved-searches";
+
+// PATCH - Rename, change the digest frequency, or turn its email on/off.
+// The filters themselves are fixed; a different search is a new save.
+export const PATCH = withAuth<{ id: string }>(
+  { source: "api/user/saved-searches/[id]" },
+  async ({ request, db, session, params }) => {
+    const search = await getOwnedSavedSearch(db, session.user.id, params.id);
+    if (!search) {
+      return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+    }
+
+    const validation = await validateRequestBody(request, savedSearchUpdateSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const [updated] = await db
+      .update(savedSearches)
+      .set({ ...validation.data, updatedAt: new Date() })
+      .where(eq(savedSearches.id, search.id))
+      .returning();
+    return NextResponse.json({ savedSearch: toClientSavedSearch(updated) });
+  }
+);
+
+// DELETE - Remove the saved search; its seen set cascades
+export const DELETE = withAuth<{ id: string }>(
+  { source: "api/user/saved-searches/[id]" },
+  async ({ db, session, params }) => {
+    const search = await getOwnedSavedSearch(db, session.user.id, params.id);
+    if (!search) {
+      return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+    }
+    await db.delete(savedSearches).where(eq(savedSearches.id, search.id));
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,79 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { and, count, desc, eq } from "drizzle-orm";
+import { withAuth } from "@/lib/api/with-auth";
+import { savedSearches } from "@/lib/db/schema";
+import { savedSearchCreateSchema, validateRequestBody } from "@/lib/validations";
+import {
+  baselineSavedSearch,
+  describeSavedSearch,
+  resolveSavedSearchScope,
+  serializeSavedSearchParams,
+  toClientSavedSearch,
+  MAX_SAVED_SEARCHES_PER_USER,
+} from "@/lib/saved-searches/saved-searches";
+
+// GET - The caller's saved searches, newest first
+export const GET = withAuth({ source: "api/user/saved-searches" }, async ({ db, session }) => {
+  const rows = await db
+    .select()
+    .from(savedSearches)
+    .where(eq(savedSearches.userId, session.user.id))
+    .orderBy(desc(savedSearches.createdAt));
+  return NextResponse.json({ savedSearches: rows.map(toClientSavedSearch) });
+});
+
+// POST - Save the current /events filter state. Everything it already matches
+// is marked seen, so alerts start with the next newly approved event.
+export const POST = withAuth(
+  { source: "api/user/saved-searches" },
+  async ({ request, db, session }) => {
+    const validation = await validateRequestBody(request, savedSearchCreateSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const { params, frequency, emailEnabled } = validation.data;
+
+    const now = new Date();
+    const scope = resolveSavedSearchScope(params, now);
+    if (!scope) {
+      return NextResponse.json({ error: "Unknown facet for this state" }, { status: 400 });
+    }
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, session.user.id));
+    if (total >= MAX_SAVED_SEARCHES_PER_USER) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches` },
+        { status: 409 }
+      );
+    }
+
+    const serialized = serializeSavedSearchParams(params);
+    const [duplicate] = await db
+      .select({ id: savedSearches.id })
+      .from(savedSearches)
+      .where(and(eq(savedSearches.userId, session.user.id), eq(savedSearches.params, serialized)))
+      .limit(1);
+    if (duplicate) {
+      return NextResponse.json({ error: "You've already saved this search" }, { status: 409 });
+    }
+
+    const [created] = await db
+      .insert(savedSearches)
+      .values({
+        userId: session.user.id,
+        name: validation.data.name ?? describeSavedSearch(params, now),
+        params: serialized,
+        frequency,
+        emailEnabled,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    await baselineSavedSearch(db, created.id, scope, now);
+    return NextResponse.json({ savedSearch: toClientSavedSearch(created) }, { status: 201 });
+  }
+);
@@ -0,0 +1,36 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { withAuth } from "@/lib/api/with-auth";
+import { syndicationDeliveries } from "@/lib/db/schema";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { getOwnedSubscriber, redeliver } from "@/lib/syndication/portal";
+
+// POST - Re-send a logged attempt's exact payload; returns the new attempt
+export const POST = withAuth<{ id: string; deliveryId: string }>(
+  { source: "api/user/syndication/[id]/deliveries/[deliveryId]/redeliver" },
+  async ({ request, db, session, params }) => {
+    const limit = await checkRateLimit(request, "syndication-redeliver");
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    const sub = await getOwnedSubscriber(db, session.user.id, params.id);
+    if (!sub) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+    const [original] = await db
+      .select()
+      .from(syndicationDeliveries)
+      .where(
+        and(
+          eq(syndicationDeliveries.id, params.deliveryId),
+          eq(syndicationDeliveries.subscriberId, sub.id)
+        )
+      )
+      .limit(1);
+    if (!original) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+    const delivery = await redeliver(db, sub, original);
+    return NextResponse.json({ delivery });
+  }
+);
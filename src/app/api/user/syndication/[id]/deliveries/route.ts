@@ -0,0 +1,17 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { getOwnedSubscriber, listDeliveries } from "@/lib/syndication/portal";
+
+// GET - Recent webhook attempts (change, ping, redelivery), newest first
+export const GET = withAuth<{ id: string }>(
+  { source: "api/user/syndication/[id]/deliveries" },
+  async ({ db, session, params }) => {
+    const sub = await getOwnedSubscriber(db, session.user.id, params.id);
+    if (!sub) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+    const deliveries = await listDeliveries(db, sub.id);
+    return NextResponse.json({ deliveries });
+  }
+);
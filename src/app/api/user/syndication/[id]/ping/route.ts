@@ -0,0 +1,21 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { getOwnedSubscriber, sendTestPing } from "@/lib/syndication/portal";
+
+// POST - Send a signed test ping to the callback URL; returns the logged attempt
+export const POST = withAuth<{ id: string }>(
+  { source: "api/user/syndication/[id]/ping" },
+  async ({ request, db, session, params }) => {
+    const limit = await checkRateLimit(request, "syndication-ping");
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    const sub = await getOwnedSubscriber(db, session.user.id, params.id);
+    if (!sub) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+    const delivery = await sendTestPing(db, sub);
+    return NextResponse.json({ delivery });
+  }
+);
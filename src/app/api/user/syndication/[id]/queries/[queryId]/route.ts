@@ -0,0 +1,30 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { withAuth } from "@/lib/api/with-auth";
+import { syndicationQuerySubscriptions } from "@/lib/db/schema";
+import { getOwnedSubscriber } from "@/lib/syndication/portal";
+
+// DELETE - Remove one query subscription
+export const DELETE = withAuth<{ id: string; queryId: string }>(
+  { source: "api/user/syndication/[id]/queries/[queryId]" },
+  async ({ db, session, params }) => {
+    const sub = await getOwnedSubscriber(db, session.user.id, params.id);
+    if (!sub) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+    const deleted = await db
+      .delete(syndicationQuerySubscriptions)
+      .where(
+        and(
+          eq(syndicationQuerySubscriptions.id, params.queryId),
+          eq(syndicationQuerySubscriptions.subscriberId, sub.id)
+        )
+      )
+      .returning({ id: syndicationQuerySubscriptions.id });
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: "Query not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,50 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { count, eq } from "drizzle-orm";
+import { withAuth } from "@/lib/api/with-auth";
+import { syndicationQuerySubscriptions } from "@/lib/db/schema";
+import { syndicationQuerySchema, validateRequestBody } from "@/lib/validations";
+import { getOwnedSubscriber, MAX_QUERIES_PER_SUBSCRIBER } from "@/lib/syndication/portal";
+
+// POST - Subscribe by query (state, category, promoter, series and/or radius)
+export const POST = withAuth<{ id: string }>(
+  { source: "api/user/syndication/[id]/queries" },
+  async ({ request, db, session, params }) => {
+    const sub = await getOwnedSubscriber(db, session.user.id, params.id);
+    if (!sub) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+
+    const validation = await validateRequestBody(request, syndicationQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(syndicationQuerySubscriptions)
+      .where(eq(syndicationQuerySubscriptions.subscriberId, sub.id));
+    if (total >= MAX_QUERIES_PER_SUBSCRIBER) {
+      return NextResponse.json(
+        { error: `A subscriber can have up to ${MAX_QUERIES_PER_SUBSCRIBER} queries` },
+        { status: 409 }
+      );
+    }
+
+    const q = validation.data;
+    const [query] = await db
+      .insert(syndicationQuerySubscriptions)
+      .values({
+        subscriberId: sub.id,
+        stateCode: q.stateCode ?? null,
+        category: q.category ?? null,
+        promoterId: q.promoterId ?? null,
+        seriesId: q.seriesId ?? null,
+        latitude: q.latitude ?? null,
+        longitude: q.longitude ?? null,
+        radiusMiles: q.radiusMiles ?? null,
+      })
+      .returning();
+    return NextResponse.json({ query }, { status: 201 });
+  }
+);
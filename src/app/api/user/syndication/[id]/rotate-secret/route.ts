@@ -0,0 +1,18 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { getOwnedSubscriber, rotateSigningSecret } from "@/lib/syndication/portal";
+
+// POST - Issue a new signing secret (returned once). The old one keeps
+// working until `previousSecretExpiresAt`.
+export const POST = withAuth<{ id: string }>(
+  { source: "api/user/syndication/[id]/rotate-secret" },
+  async ({ db, session, params }) => {
+    const sub = await getOwnedSubscriber(db, session.user.id, params.id);
+    if (!sub) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+    const rotated = await rotateSigningSecret(db, sub);
+    return NextResponse.json(rotated);
+  }
+);
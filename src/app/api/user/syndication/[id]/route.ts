@@ -0,0 +1,94 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { and, count, desc, eq } from "drizzle-orm";
+import { withAuth } from "@/lib/api/with-auth";
+import {
+  syndicationSubscribers,
+  syndicationSubscriptions,
+  syndicationQuerySubscriptions,
+} from "@/lib/db/schema";
+import { syndicationSubscriberUpdateSchema, validateRequestBody } from "@/lib/validations";
+import { getOwnedSubscriber, toPortalSubscriber } from "@/lib/syndication/portal";
+
+// GET - One subscriber with its query subscriptions and explicit-event count
+export const GET = withAuth<{ id: string }>(
+  { source: "api/user/syndication/[id]" },
+  async ({ db, session, params }) => {
+    const sub = await getOwnedSubscriber(db, session.user.id, params.id);
+    if (!sub) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+
+    const queries = await db
+      .select()
+      .from(syndicationQuerySubscriptions)
+      .where(eq(syndicationQuerySubscriptions.subscriberId, sub.id))
+      .orderBy(desc(syndicationQuerySubscriptions.createdAt));
+    const [{ eventSubscriptions }] = await db
+      .select({ eventSubscriptions: count() })
+      .from(syndicationSubscriptions)
+      .where(eq(syndicationSubscriptions.subscriberId, sub.id));
+
+    return NextResponse.json({
+      subscriber: toPortalSubscriber(sub),
+      queries,
+      eventSubscriptions,
+    });
+  }
+);
+
+// PATCH - Rename, change the callback URL, or pause/resume
+export const PATCH = withAuth<{ id: string }>(
+  { source: "api/user/syndication/[id]" },
+  async ({ request, db, session, params }) => {
+    const sub = await getOwnedSubscriber(db, session.user.id, params.id);
+    if (!sub) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+
+    const validation = await validateRequestBody(request, syndicationSubscriberUpdateSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const { callbackUrl } = validation.data;
+
+    if (callbackUrl && callbackUrl !== sub.callbackUrl) {
+      const [duplicate] = await db
+        .select({ id: syndicationSubscribers.id })
+        .from(syndicationSubscribers)
+        .where(
+          and(
+            eq(syndicationSubscribers.ownerUserId, session.user.id),
+            eq(syndicationSubscribers.callbackUrl, callbackUrl)
+          )
+        )
+        .limit(1);
+      if (duplicate) {
+        return NextResponse.json(
+          { error: "A subscriber with this callback URL already exists" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const [updated] = await db
+      .update(syndicationSubscribers)
+      .set(validation.data)
+      .where(eq(syndicationSubscribers.id, sub.id))
+      .returning();
+    return NextResponse.json({ subscriber: toPortalSubscriber(updated) });
+  }
+);
+
+// DELETE - Remove the subscriber; its subscriptions and delivery log cascade
+export const DELETE = withAuth<{ id: string }>(
+  { source: "api/user/syndication/[id]" },
+  async ({ db, session, params }) => {
+    const sub = await getOwnedSubscriber(db, session.user.id, params.id);
+    if (!sub) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+    await db.delete(syndicationSubscribers).where(eq(syndicationSubscribers.id, sub.id));
+    return NextResponse.json({ success: true });
+  }
+);
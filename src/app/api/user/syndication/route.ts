@@ -0,0 +1,77 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { and, count, desc, eq } from "drizzle-orm";
+import { withAuth } from "@/lib/api/with-auth";
+import { requireVerifiedSession } from "@/lib/api-auth";
+import { syndicationSubscribers } from "@/lib/db/schema";
+import { syndicationSubscriberCreateSchema, validateRequestBody } from "@/lib/validations";
+import {
+  generateSigningSecret,
+  toPortalSubscriber,
+  MAX_SUBSCRIBERS_PER_USER,
+} from "@/lib/syndication/portal";
+
+// GET - The caller's syndication subscribers (secrets never included)
+export const GET = withAuth({ source: "api/user/syndication" }, async ({ db, session }) => {
+  const rows = await db
+    .select()
+    .from(syndicationSubscribers)
+    .where(eq(syndicationSubscribers.ownerUserId, session.user.id))
+    .orderBy(desc(syndicationSubscribers.createdAt));
+  return NextResponse.json({ subscribers: rows.map((r) => toPortalSubscriber(r)) });
+});
+
+// POST - Register a subscriber. The signing secret is in this response only.
+// A verified email is required: the subscriber makes our Worker POST to a URL
+// of the caller's choosing.
+export const POST = withAuth(
+  { source: "api/user/syndication" },
+  async ({ request, db, session }) => {
+    const gate = await requireVerifiedSession();
+    if (!gate.ok) return gate.response;
+
+    const validation = await validateRequestBody(request, syndicationSubscriberCreateSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const { name, callbackUrl } = validation.data;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(syndicationSubscribers)
+      .where(eq(syndicationSubscribers.ownerUserId, session.user.id));
+    if (total >= MAX_SUBSCRIBERS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can register up to ${MAX_SUBSCRIBERS_PER_USER} subscribers` },
+        { status: 409 }
+      );
+    }
+
+    const [duplicate] = await db
+      .select({ id: syndicationSubscribers.id })
+      .from(syndicationSubscribers)
+      .where(
+        and(
+          eq(syndicationSubscribers.ownerUserId, session.user.id),
+          eq(syndicationSubscribers.callbackUrl, callbackUrl)
+        )
+      )
+      .limit(1);
+    if (duplicate) {
+      return NextResponse.json(
+        { error: "A subscriber with this callback URL already exists" },
+        { status: 409 }
+      );
+    }
+
+    const signingSecret = generateSigningSecret();
+    const [created] = await db
+      .insert(syndicationSubscribers)
+      .values({ name, callbackUrl, signingSecret, ownerUserId: session.user.id })
+      .returning();
+    return NextResponse.json(
+      { subscriber: toPortalSubscriber(created), signingSecret },
+      { status: 201 }
+    );
+  }
+);
@@ -0,0 +1,46 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { getAuthSecret } from "@/lib/auth";
+import {
+  getTwoFactorStatus,
+  replaceRecoveryCodes,
+  verifySecondFactor,
+} from "@/lib/auth/two-factor";
+import { relyingPartyFor } from "@/lib/auth/webauthn";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { secondFactorProofSchema, validateRequestBody } from "@/lib/validations";
+
+// POST - Replace the recovery codes (the old ones stop working). Needs a
+// current code or passkey; the new codes are returned once and never again.
+export const POST = withAuth(
+  { source: "api/user/two-factor/recovery-codes" },
+  async ({ request, db, session }) => {
+    const limit = await checkRateLimit(request, "auth-two-factor");
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    const validation = await validateRequestBody(request, secondFactorProofSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const status = await getTwoFactorStatus(db, session.user.id);
+    if (!status.totpEnabled) {
+      return NextResponse.json(
+        { error: "Recovery codes come with an authenticator app. Set one up first." },
+        { status: 409 }
+      );
+    }
+    const { origin, rpId } = relyingPartyFor(request.url);
+    const factor = await verifySecondFactor(db, {
+      userId: session.user.id,
+      proof: validation.data,
+      authSecret: getAuthSecret(),
+      origin,
+      rpId,
+    });
+    if (!factor) {
+      return NextResponse.json({ error: "That code or passkey didn't match." }, { status: 400 });
+    }
+    return NextResponse.json({ recoveryCodes: await replaceRecoveryCodes(db, session.user.id) });
+  }
+);
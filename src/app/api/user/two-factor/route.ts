@@ -0,0 +1,18 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/api/with-auth";
+import { listPasskeys } from "@/lib/auth/passkeys";
+import { getTwoFactorStatus } from "@/lib/auth/two-factor";
+
+// GET - The caller's second factors, for the Security card in settings
+export const GET = withAuth({ source: "api/user/two-factor" }, async ({ db, session }) => {
+  const [status, passkeys] = await Promise.all([
+    getTwoFactorStatus(db, session.user.id),
+    listPasskeys(db, session.user.id),
+  ]);
+  return NextResponse.json({
+    ...status,
+    passkeys,
+    adminRequired: session.user.adminTwoFactorRequired === true,
+  });
+});
@@ -0,0 +1,109 @@
+export const dynamic = "force-dynamic";
+/**
+ * Authenticator-app enrollment (drizzle/0241).
+ *
+ *   POST   — start: a fresh secret and its otpauth:// URL for the QR code.
+ *   PUT    — confirm with the first code; returns the recovery codes, once.
+ *   DELETE — turn it off. Needs a current code or passkey, and an admin can't
+ *            remove their last factor.
+ *
+ * Confirming also marks this session's second factor as satisfied, so the
+ * client's `update()` afterwards lifts an admin's withheld role without a
+ * fresh sign-in.
+ */
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withAuth } from "@/lib/api/with-auth";
+import { getAuthSecret } from "@/lib/auth";
+import { markSessionVerified } from "@/lib/auth/login-events";
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTotp,
+  removalLeavesAdminUnprotected,
+  verifySecondFactor,
+} from "@/lib/auth/two-factor";
+import { relyingPartyFor } from "@/lib/auth/webauthn";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { secondFactorProofSchema, validateRequestBody } from "@/lib/validations";
+
+const ConfirmBody = z.object({ code: z.string().trim().min(6).max(10) });
+
+export const POST = withAuth({ source: "api/user/two-factor/totp" }, async ({ db, session }) => {
+  const enrollment = await beginTotpEnrollment(db, {
+    userId: session.user.id,
+    email: session.user.email,
+    authSecret: getAuthSecret(),
+  });
+  if (!enrollment) {
+    return NextResponse.json(
+      { error: "An authenticator app is already set up. Turn it off first to replace it." },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json(enrollment);
+});
+
+export const PUT = withAuth(
+  { source: "api/user/two-factor/totp" },
+  async ({ request, db, session }) => {
+    const limit = await checkRateLimit(request, "auth-two-factor");
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    const validation = await validateRequestBody(request, ConfirmBody);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const result = await confirmTotpEnrollment(db, {
+      userId: session.user.id,
+      code: validation.data.code,
+      authSecret: getAuthSecret(),
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: "That code didn't match. Check the time on your phone and try again." },
+        { status: 400 }
+      );
+    }
+    if (session.user.sessionId) {
+      await markSessionVerified(db, {
+        sid: session.user.sessionId,
+        userId: session.user.id,
+        secondFactor: "totp",
+      });
+    }
+    return NextResponse.json({ recoveryCodes: result.recoveryCodes });
+  }
+);
+
+export const DELETE = withAuth(
+  { source: "api/user/two-factor/totp" },
+  async ({ request, db, session }) => {
+    const limit = await checkRateLimit(request, "auth-two-factor");
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    const validation = await validateRequestBody(request, secondFactorProofSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    if (await removalLeavesAdminUnprotected(db, { userId: session.user.id, removing: "totp" })) {
+      return NextResponse.json(
+        { error: "Admin accounts need a second factor. Add a passkey before removing this." },
+        { status: 409 }
+      );
+    }
+    const { origin, rpId } = relyingPartyFor(request.url);
+    const factor = await verifySecondFactor(db, {
+      userId: session.user.id,
+      proof: validation.data,
+      authSecret: getAuthSecret(),
+      origin,
+      rpId,
+    });
+    if (!factor) {
+      return NextResponse.json({ error: "That code or passkey didn't match." }, { status: 400 });
+    }
+    await disableTotp(db, session.user.id);
+    return NextResponse.json({ success: true });
+  }
+);
@@ -4,9 +4,10 @@ import { withApiToken } from "@/lib/api/with-auth";
 import { eventVendors, events } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 import { isValidTransition } from "@/lib/vendor-status";
+import { handleApplicationStatusChange } from "@/lib/waitlist/promotion";
 
 export const GET = withApiToken<{ slug: string }>(
-  { source: "api/vendors/[slug]/applications" },
+  { scope: "applications:read", source: "api/vendors/[slug]/applications" },
   async ({ db, vendorId }) => {
     // Get all applications for this vendor
     const results = await db
@@ -43,7 +44,7 @@ export const GET = withApiToken<{ slug: string }>(
 
 /** PATCH — update vendor's own application status/paymentStatus for an event */
 export const PATCH = withApiToken<{ slug: string }>(
-  { source: "api/vendors/[slug]/applications" },
+  { scope: "applications:write", source: "api/vendors/[slug]/applications" },
   async ({ request, db, vendorId }) => {
     let body: { eventId?: string; status?: string; paymentStatus?: string };
     try {
@@ -110,6 +111,16 @@ export const PATCH = withApiToken<{ slug: string }>(
 
     await db.update(eventVendors).set(updates).where(eq(eventVendors.id, existing.id));
 
+    if (updates.status) {
+      await handleApplicationStatusChange(db, {
+        eventId: existing.eventId,
+        eventVendorId: existing.id,
+        from: existing.status,
+        to: updates.status,
+        actor: `api_token:${vendorId}`,
+      });
+    }
+
     return NextResponse.json({
       eventId: body.eventId,
       status: updates.status ?? existing.status,
@@ -0,0 +1,112 @@
+export const dynamic = "force-dynamic";
+/**
+ * Venue owner photo upload (drizzle/0240). The R2 half mirrors
+ * src/app/api/admin/events/[id]/upload-image/route.ts; the write goes through
+ * updateVenueAsOwner so the new imageUrl is audited like any other owner edit.
+ *
+ * Posted as multipart form-data (field name: "file"). Raster formats only:
+ * the admin routes accept SVG from trusted uploaders, but an SVG from the
+ * public is a script served off our CDN. Naming: `venues/{venueId}/image-{ts}.{ext}`.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { requireVerifiedSession } from "@/lib/api-auth";
+import { getCloudflareDb, getCloudflareEnv } from "@/lib/cloudflare";
+import { logError } from "@/lib/logger";
+import { getOwnedVenue, updateVenueAsOwner } from "@/lib/venues/owner";
+
+const MAX_BYTES = 5 * 1024 * 1024;
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+const CDN_BASE = "https://cdn.meetmeatthefair.com";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ venueId: string }> }
+) {
+  const gate = await requireVerifiedSession();
+  if (!gate.ok) return gate.response;
+  const { venueId } = await params;
+
+  const db = getCloudflareDb();
+  // Confirm ownership before paying for the upload.
+  const venue = await getOwnedVenue(db, gate.userId, venueId);
+  if (!venue) return NextResponse.json({ error: "Venue not found" }, { status: 404 });
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ error: "Invalid multipart body" }, { status: 400 });
+  }
+  const file = formData.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing 'file' field" }, { status: 400 });
+  }
+  if (file.size === 0) {
+    return NextResponse.json({ error: "Empty file" }, { status: 400 });
+  }
+  if (file.size > MAX_BYTES) {
+    return NextResponse.json(
+      { error: `File too large (max ${MAX_BYTES / 1024 / 1024} MB)` },
+      { status: 400 }
+    );
+  }
+  const contentType = file.type || "application/octet-stream";
+  const ext = EXTENSIONS[contentType];
+  if (!ext) {
+    return NextResponse.json(
+      { error: `Unsupported content type "${contentType}". Allowed: jpg/png/webp.` },
+      { status: 400 }
+    );
+  }
+
+  // VENDOR_ASSETS is the shared public bucket behind cdn.meetmeatthefair.com;
+  // the binding name is historical (see the admin event upload route).
+  const bucket = (getCloudflareEnv() as unknown as { VENDOR_ASSETS?: R2Bucket }).VENDOR_ASSETS;
+  if (!bucket) {
+    return NextResponse.json(
+      { error: "R2 bucket not bound (VENDOR_ASSETS missing)" },
+      { status: 500 }
+    );
+  }
+
+  const key = `venues/${venue.id}/image-${Date.now()}.${ext}`;
+  try {
+    await bucket.put(key, await file.arrayBuffer(), {
+      httpMetadata: { contentType },
+      customMetadata: { uploadedBy: gate.userId, originalName: file.name },
+    });
+  } catch (e) {
+    await logError(db, {
+      message: "venue-owner-photo: R2 put failed",
+      error: e,
+      source: "api/venue/[venueId]/photo",
+      context: { key },
+    });
+    return NextResponse.json({ error: "Upload failed" }, { status: 502 });
+  }
+
+  const url = `${CDN_BASE}/${key}`;
+  try {
+    await updateVenueAsOwner(db, {
+      venueId: venue.id,
+      userId: gate.userId,
+      patch: { imageUrl: url },
+    });
+  } catch (e) {
+    await logError(db, {
+      message: "venue-owner-photo: DB update failed (R2 has the file)",
+      error: e,
+      source: "api/venue/[venueId]/photo",
+      context: { key, venueId: venue.id },
+    });
+    return NextResponse.json({ error: "Uploaded but saving failed; try again" }, { status: 502 });
+  }
+
+  return NextResponse.json({ url });
+}
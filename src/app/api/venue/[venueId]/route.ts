@@ -0,0 +1,63 @@
+export const dynamic = "force-dynamic";
+/**
+ * The venue owner's own venue (drizzle/0240). GET for the portal form; PATCH
+ * for the owner-editable details, written through updateVenueAsOwner so every
+ * edit lands in the mutation audit and the google* columns are never touched.
+ *
+ * Not the owner — or no such venue — is a 404 either way, so the endpoint
+ * doesn't confirm which venue ids exist.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { requireVerifiedSession } from "@/lib/api-auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { logError } from "@/lib/logger";
+import { validateRequestBody, venueOwnerUpdateSchema } from "@/lib/validations";
+import { getOwnedVenue, updateVenueAsOwner } from "@/lib/venues/owner";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ venueId: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const { venueId } = await params;
+  const venue = await getOwnedVenue(getCloudflareDb(), session.user.id, venueId);
+  if (!venue) return NextResponse.json({ error: "Venue not found" }, { status: 404 });
+  return NextResponse.json(venue);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ venueId: string }> }
+) {
+  const gate = await requireVerifiedSession();
+  if (!gate.ok) return gate.response;
+  const { venueId } = await params;
+
+  const validation = await validateRequestBody(request, venueOwnerUpdateSchema);
+  if (!validation.success) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  const db = getCloudflareDb();
+  try {
+    const result = await updateVenueAsOwner(db, {
+      venueId,
+      userId: gate.userId,
+      patch: validation.data,
+    });
+    if (!result.ok) return NextResponse.json({ error: "Venue not found" }, { status: 404 });
+    return NextResponse.json(result.venue);
+  } catch (error) {
+    await logError(db, {
+      message: "Failed to update venue from the owner portal",
+      error,
+      source: "api/venue/[venueId]",
+      request,
+    });
+    return NextResponse.json({ error: "Failed to update venue" }, { status: 500 });
+  }
+}
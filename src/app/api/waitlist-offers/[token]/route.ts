@@ -0,0 +1,39 @@
+export const dynamic = "force-dynamic";
+/**
+ * POST /api/waitlist-offers/<token> — a vendor's answer to a booth offer.
+ * Body: `{ "action": "accept" | "decline" }`.
+ *
+ * Auth: the token IS the auth, as for /api/submit-event/<token> — the vendor
+ * proved control of the inbox by clicking the emailed link. Atomicity lives in
+ * consumeWaitlistOffer; a double-click or a race with the expiry sweep gets a
+ * 409 rather than a second status change.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { answerWaitlistOffer } from "@/lib/waitlist/promotion";
+
+const answerSchema = z.object({ action: z.enum(["accept", "decline"]) });
+
+const FAILURE: Record<string, { error: string; status: number }> = {
+  "not-found": { error: "Offer not found", status: 404 },
+  used: { error: "This offer has already been answered", status: 409 },
+  expired: { error: "This offer has expired", status: 410 },
+  full: { error: "Sorry — this booth is no longer available", status: 409 },
+};
+
+export async function POST(request: NextRequest, context: { params: Promise<{ token: string }> }) {
+  const { token } = await context.params;
+  const parsed = answerSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "action must be accept or decline" }, { status: 400 });
+  }
+
+  const db = getCloudflareDb();
+  const result = await answerWaitlistOffer(db, token, parsed.data.action);
+  if (!result.ok) {
+    const failure = FAILURE[result.reason];
+    return NextResponse.json({ error: failure.error }, { status: failure.status });
+  }
+  return NextResponse.json({ ok: true, outcome: result.outcome });
+}
@@ -0,0 +1,58 @@
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { logError } from "@/lib/logger";
+import { loadWidget, parseWidgetOptions } from "@/lib/widget/options";
+import { toWidgetEvents, widgetJson } from "@/lib/widget/render";
+
+/**
+ * GET /api/widget/events?venue=<slug>&limit=5 — the widget's data, for sites
+ * that render their own markup. Same query string as /embed/events.
+ *
+ * Open CORS: the body is the public listing, carries no session and sets no
+ * cookie, so any origin reading it learns nothing the events pages don't
+ * already publish. Edge-cached for ten minutes like the iframe.
+ */
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+const CACHE_CONTROL = "public, max-age=600, s-maxage=600";
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function GET(request: Request) {
+  const options = parseWidgetOptions(new URL(request.url).searchParams);
+  if (!options) {
+    return NextResponse.json(
+      { error: "Name exactly one of promoter, venue, series or vendor" },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+  const db = getCloudflareDb();
+  try {
+    const loaded = await loadWidget(db, options);
+    if (!loaded) {
+      return NextResponse.json({ error: "Not found" }, { status: 404, headers: CORS_HEADERS });
+    }
+    const events = toWidgetEvents(loaded.rows, options);
+    return NextResponse.json(widgetJson(loaded.owner, events, options), {
+      headers: { ...CORS_HEADERS, "Cache-Control": CACHE_CONTROL },
+    });
+  } catch (error) {
+    await logError(db, {
+      message: "Error loading widget events",
+      error,
+      source: "api/widget/events",
+      request,
+    });
+    return NextResponse.json(
+      { error: "Failed to load events" },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
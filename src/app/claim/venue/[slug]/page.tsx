@@ -0,0 +1,126 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { venues } from "@/lib/db/schema";
+import { unsafeSlug } from "@/lib/utils";
+import { displayVenueName } from "@/lib/venue-display";
+import { ClaimEvidenceForm } from "@/components/claim/ClaimEvidenceForm";
+import Link from "next/link";
+
+export const metadata: Metadata = {
+  title: "Claim your venue",
+  // Claim funnels must never be indexed (OPE-43 posture for auth-adjacent flows).
+  robots: { index: false, follow: false },
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The venue claim page (drizzle/0240). The evidence form, as for performers:
+ * a venue's contact email is usually a fair office's shared inbox or was
+ * scraped from a listing, so a match proves little, and the grounds are a
+ * public record worth a person's review before someone can rewrite them.
+ */
+export default async function ClaimVenuePage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const db = getCloudflareDb();
+
+  const [venue] = await db
+    .select({
+      id: venues.id,
+      name: venues.name,
+      slug: venues.slug,
+      city: venues.city,
+      state: venues.state,
+      claimed: venues.claimed,
+      userId: venues.userId,
+    })
+    .from(venues)
+    .where(eq(venues.slug, unsafeSlug(slug)))
+    .limit(1);
+
+  if (!venue) notFound();
+
+  const session = await auth();
+  const name = displayVenueName(venue);
+  const publicHref = `/venues/${venue.slug}`;
+
+  if (venue.claimed && session?.user?.id && venue.userId === session.user.id) {
+    return (
+      <div className="mx-auto max-w-2xl px-4 py-8 sm:px-6 lg:px-8">
+        <h1 className="mb-1 text-2xl font-bold text-foreground">You manage {name}</h1>
+        <p className="mb-6 text-muted-foreground">
+          Update its hours, amenities and photo from the venue portal.
+        </p>
+        <Link href={`/venue/${venue.id}`} className="text-navy hover:underline">
+          Go to the venue portal →
+        </Link>
+      </div>
+    );
+  }
+
+  if (venue.claimed) {
+    return (
+      <div className="mx-auto max-w-2xl px-4 py-8 sm:px-6 lg:px-8">
+        <h1 className="mb-1 text-2xl font-bold text-foreground">{name} is already claimed</h1>
+        <p className="mb-6 text-muted-foreground">
+          Someone has already verified they manage this venue. If you believe that is wrong, reply
+          to any of our emails or use the contact link and we will look into it.
+        </p>
+        <Link href={publicHref} className="text-navy hover:underline">
+          View the venue →
+        </Link>
+      </div>
+    );
+  }
+
+  if (!session?.user?.id) {
+    const callbackUrl = `/claim/venue/${venue.slug}`;
+    return (
+      <div className="mx-auto max-w-2xl px-4 py-8 sm:px-6 lg:px-8">
+        <h1 className="mb-1 text-2xl font-bold text-foreground">Claim this venue</h1>
+        <p className="mb-6 text-muted-foreground">
+          Sign in or create an account to tell us you manage {name}.
+        </p>
+        <div className="flex gap-3">
+          <Link
+            href={`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`}
+            className="rounded-md bg-navy px-4 py-2 text-white"
+          >
+            Sign in
+          </Link>
+          <Link
+            href={`/register?callbackUrl=${encodeURIComponent(callbackUrl)}`}
+            className="rounded-md border border-border px-4 py-2 text-foreground"
+          >
+            Create an account
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="mb-1 text-2xl font-bold text-foreground">Claim this venue</h1>
+      <p className="mb-6 text-muted-foreground">
+        Tell us your role at {name} — fair manager, board member, facilities staff — and how we can
+        confirm it. A person will review it and email you either way. Once approved you can keep its
+        hours, amenities, parking, accessibility notes and photo up to date, and you&apos;ll hear
+        about every event submitted for your grounds.
+      </p>
+      <ClaimEvidenceForm
+        entityType="VENUE"
+        slug={venue.slug as unknown as string}
+        entityName={name}
+      />
+      <p className="mt-6 text-sm text-muted-foreground">
+        <Link href={publicHref} className="text-navy hover:underline">
+          ← Back to {name}
+        </Link>
+      </p>
+    </div>
+  );
+}
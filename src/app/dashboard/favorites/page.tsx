@@ -11,6 +11,9 @@ import { eq, inArray, desc } from "drizzle-orm";
 import { logError } from "@/lib/logger";
 import { PrintButton } from "@/components/print/PrintButton";
 import { PrintEventSheetFooter } from "@/components/print/PrintEventSheetFooter";
+import { PrivateCalendarFeed } from "@/components/events/private-calendar-feed";
+import { getOrCreateFeedToken } from "@/lib/calendar/feed-tokens";
+import { SITE_URL } from "@takemetothefair/constants";
 
 async function getFavorites(userId: string) {
   const db = getCloudflareDb();
@@ -119,6 +122,8 @@ export default async function FavoritesPage() {
     vendors: vendorsList,
   } = await getFavorites(session.user.id);
   const totalFavorites = eventsList.length + venuesList.length + vendorsList.length;
+  // Minted on first visit so the subscribe link is always ready to click.
+  const feedToken = await getOrCreateFeedToken(getCloudflareDb(), session.user.id);
 
   return (
     <div className="mx-auto max-w-4xl px-4 sm:px-6 lg:px-8 py-8">
@@ -133,6 +138,12 @@ export default async function FavoritesPage() {
         {totalFavorites > 0 && <PrintButton label="Print favorites" />}
       </div>
 
+      {totalFavorites > 0 && (
+        <div className="mb-8">
+          <PrivateCalendarFeed initialUrl={`${SITE_URL}/api/calendar/favorites/${feedToken}`} />
+        </div>
+      )}
+
       {totalFavorites === 0 ? (
         <Card className="border-stone-100 bg-stone-50">
           <CardContent className="py-12 text-center">
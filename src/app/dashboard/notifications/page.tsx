@@ -0,0 +1,65 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { logError } from "@/lib/logger";
+import {
+  countUnreadNotifications,
+  listNotifications,
+  NOTIFICATIONS_PAGE_SIZE,
+  type ClientNotification,
+} from "@/lib/notifications/notifications";
+import { NotificationsList } from "@/components/notifications/notifications-list";
+
+async function getNotifications(
+  userId: string
+): Promise<{ notifications: ClientNotification[]; unreadCount: number }> {
+  const db = getCloudflareDb();
+  try {
+    const [notifications, unreadCount] = await Promise.all([
+      listNotifications(db, userId, { limit: NOTIFICATIONS_PAGE_SIZE }),
+      countUnreadNotifications(db, userId),
+    ]);
+    return { notifications, unreadCount };
+  } catch (e) {
+    await logError(db, {
+      message: "Error fetching notifications",
+      error: e,
+      source: "app/dashboard/notifications/page.tsx:getNotifications",
+      context: { userId },
+    });
+    return { notifications: [], unreadCount: 0 };
+  }
+}
+
+export const dynamic = "force-dynamic";
+
+export default async function NotificationsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login?callbackUrl=/dashboard/notifications");
+  }
+
+  const { notifications, unreadCount } = await getNotifications(session.user.id);
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-foreground">Notifications</h1>
+        <p className="mt-1 text-muted-foreground">
+          Choose what reaches you here and what by email in your{" "}
+          <Link href="/dashboard/settings#notifications" className="text-navy hover:underline">
+            notification settings
+          </Link>
+          .
+        </p>
+      </div>
+      <NotificationsList
+        initialNotifications={notifications}
+        initialUnreadCount={unreadCount}
+        pageSize={NOTIFICATIONS_PAGE_SIZE}
+      />
+    </div>
+  );
+}
@@ -11,11 +11,13 @@ import {
   ArrowRight,
   Mail,
   MapPin,
+  Sparkles,
 } from "lucide-react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { auth } from "@/lib/auth";
 import { getCloudflareDb } from "@/lib/cloudflare";
+import { getMembership } from "@/lib/organizations/members";
 import {
   userFavorites,
   users,
@@ -24,14 +26,18 @@ import {
   events,
   eventVendors,
   venues,
+  savedSearches,
 } from "@/lib/db/schema";
-import { eq, count, and, asc } from "drizzle-orm";
+import { eq, count, and, asc, desc } from "drizzle-orm";
 import { isPublicEventStatus } from "@/lib/event-status";
 import { upcomingEndPredicate } from "@/lib/event-dates";
 import { eventVenueJoinProjection } from "@/lib/db/event-join-projection";
 import { logError } from "@/lib/logger";
 import { formatDateRange } from "@/lib/utils";
+import { recommendEventsForUser } from "@/lib/event-recommendations/recommend";
 import { computeVendorCompleteness } from "@/lib/vendor-completeness";
+import { toClientSavedSearch } from "@/lib/saved-searches/saved-searches";
+import { SavedSearchesList, type SavedSearchItem } from "@/components/events/saved-searches-list";
 
 interface DashboardState {
   emailVerified: boolean;
@@ -79,19 +85,22 @@ async function getDashboardState(
 
   if (role === "VENDOR" || role === "ADMIN") {
     try {
-      const vendor = await db.query.vendors.findFirst({
-        where: eq(vendors.userId, userId),
-        columns: {
-          id: true,
-          logoUrl: true,
-          description: true,
-          products: true,
-          contactEmail: true,
-          contactPhone: true,
-          city: true,
-          state: true,
-        },
-      });
+      const membership = await getMembership(db, userId, "VENDOR");
+      const vendor =
+        membership &&
+        (await db.query.vendors.findFirst({
+          where: eq(vendors.id, membership.entityId),
+          columns: {
+            id: true,
+            logoUrl: true,
+            description: true,
+            products: true,
+            contactEmail: true,
+            contactPhone: true,
+            city: true,
+            state: true,
+          },
+        }));
       if (vendor) {
         const appResult = await db
           .select({ count: count() })
@@ -110,10 +119,13 @@ async function getDashboardState(
 
   if (role === "PROMOTER" || role === "ADMIN") {
     try {
-      const promoter = await db.query.promoters.findFirst({
-        where: eq(promoters.userId, userId),
-        columns: { id: true, description: true, website: true, contactEmail: true },
-      });
+      const membership = await getMembership(db, userId, "PROMOTER");
+      const promoter =
+        membership &&
+        (await db.query.promoters.findFirst({
+          where: eq(promoters.id, membership.entityId),
+          columns: { id: true, description: true, website: true, contactEmail: true },
+        }));
       if (promoter) {
         const eventResult = await db
           .select({ count: count() })
@@ -162,6 +174,39 @@ async function getUpcomingEvents() {
   }
 }
 
+// "You might also like" from the user's favorites — empty until they've
+// saved something, so new accounts see the checklist nudge instead.
+async function getRecommendedEvents(userId: string) {
+  const db = getCloudflareDb();
+  try {
+    return await recommendEventsForUser(db, userId, { limit: 3 });
+  } catch (e) {
+    await logError(db, {
+      message: "Error loading dashboard recommendations",
+      error: e,
+      source: "app/dashboard/page.tsx:getRecommendedEvents",
+      context: { userId },
+    });
+    return [];
+  }
+}
+
+async function getSavedSearches(userId: string): Promise<SavedSearchItem[]> {
+  try {
+    const rows = await getCloudflareDb()
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt));
+    return rows.map((r) => {
+      const { id, name, path, frequency, emailEnabled } = toClientSavedSearch(r);
+      return { id, name, path, frequency, emailEnabled };
+    });
+  } catch {
+    return [];
+  }
+}
+
 type ChecklistItem = {
   label: string;
   done: boolean;
@@ -235,9 +280,11 @@ export default async function DashboardPage() {
     redirect("/login?callbackUrl=/dashboard");
   }
 
-  const [state, upcoming] = await Promise.all([
+  const [state, upcoming, searches, recommended] = await Promise.all([
     getDashboardState(session.user.id, session.user.role),
     getUpcomingEvents(),
+    getSavedSearches(session.user.id),
+    getRecommendedEvents(session.user.id),
   ]);
 
   const checklist = buildChecklist(session.user.role, state);
@@ -409,6 +456,61 @@ export default async function DashboardPage() {
         </Card>
       )}
 
+      {recommended.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-baseline justify-between">
+              <h2 className="text-lg font-semibold text-foreground">You might also like</h2>
+              <Link
+                href="/dashboard/favorites"
+                className="text-sm font-medium text-navy hover:underline inline-flex items-center gap-1"
+              >
+                Your favorites
+                <ArrowRight className="w-3 h-3" />
+              </Link>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {recommended.map((event) => (
+                <Link key={event.id} href={`/events/${event.slug}`} className="block group">
+                  <div className="aspect-video relative rounded-lg overflow-hidden bg-stone-100 mb-2">
+                    {event.imageUrl && (
+                      <Image
+                        src={event.imageUrl}
+                        alt={event.name}
+                        fill
+                        sizes="(max-width: 640px) 100vw, 33vw"
+                        className="object-cover"
+                      />
+                    )}
+                  </div>
+                  <h3 className="text-sm font-semibold text-foreground line-clamp-2 group-hover:text-navy">
+                    {event.name}
+                  </h3>
+                  <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                    <Calendar className="w-3 h-3" />
+                    {formatDateRange(event.startDate, event.endDate)}
+                  </p>
+                  {event.venue && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      {event.venue.city}, {event.venue.state}
+                    </p>
+                  )}
+                  <p className="text-xs text-navy mt-1 flex items-center gap-1">
+                    <Sparkles className="w-3 h-3" />
+                    {event.recommendationReason}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <SavedSearchesList initialSearches={searches} />
+
       <Card>
         <CardHeader>
           <h2 className="text-lg font-semibold text-foreground">Your Profile</h2>
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,14 +9,34 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { getShortErrorMessage } from "@/lib/error-messages";
 import { Copy, Trash2, Plus, Key } from "lucide-react";
 import { formatDateMedium } from "@/lib/datetime";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "@takemetothefair/utils";
+import { NotificationPreferences } from "@/components/notifications/notification-preferences";
+import { SecuritySettings } from "@/components/auth/security-settings";
+import { LoginHistory } from "@/components/auth/login-history";
+import { AccountData } from "@/components/account/account-data";
 
 interface ApiToken {
   id: string;
   name: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  revokedAt: string | null;
+  revokedReason: string | null;
+  allowedCidrs: string[] | null;
+  useCount: number;
+  deniedCount: number;
+  lastUsedIp: string | null;
   lastUsedAt: string | null;
   createdAt: string | null;
 }
 
+const EXPIRY_OPTIONS = [
+  { value: "", label: "Never" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+];
+
 export default function SettingsPage() {
   const { data: session, update } = useSession();
   const [loading, setLoading] = useState(false);
@@ -28,6 +49,9 @@ export default function SettingsPage() {
   const [tokens, setTokens] = useState<ApiToken[]>([]);
   const [tokensLoading, setTokensLoading] = useState(false);
   const [newTokenName, setNewTokenName] = useState("");
+  const [newTokenScopes, setNewTokenScopes] = useState<ApiTokenScope[]>(["applications:read"]);
+  const [newTokenExpiry, setNewTokenExpiry] = useState("90");
+  const [newTokenCidrs, setNewTokenCidrs] = useState("");
   const [revealedToken, setRevealedToken] = useState<string | null>(null);
   const [tokenMessage, setTokenMessage] = useState("");
   const [copied, setCopied] = useState(false);
@@ -90,13 +114,22 @@ export default function SettingsPage() {
       const res = await fetch("/api/user/api-tokens", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: newTokenName || "Default" }),
+        body: JSON.stringify({
+          name: newTokenName || "Default",
+          scopes: newTokenScopes,
+          expiresInDays: newTokenExpiry ? Number(newTokenExpiry) : null,
+          allowedCidrs: newTokenCidrs
+            .split(",")
+            .map((c) => c.trim())
+            .filter(Boolean),
+        }),
       });
 
       if (res.ok) {
         const data = (await res.json()) as { token: string };
         setRevealedToken(data.token);
         setNewTokenName("");
+        setNewTokenCidrs("");
         await fetchTokens();
       } else {
         const data = (await res.json()) as { error?: string };
@@ -109,10 +142,18 @@ export default function SettingsPage() {
     }
   };
 
+  const toggleNewTokenScope = (scope: ApiTokenScope, checked: boolean) => {
+    setNewTokenScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
   const handleRevokeToken = async (id: string) => {
+    const reason = window.prompt("Why are you revoking this token? (optional)");
+    if (reason === null) return;
     try {
-      await fetch(`/api/user/api-tokens?id=${id}`, { method: "DELETE" });
-      setTokens((prev) => prev.filter((t) => t.id !== id));
+      const params = new URLSearchParams({ id });
+      if (reason.trim()) params.set("reason", reason.trim());
+      await fetch(`/api/user/api-tokens?${params.toString()}`, { method: "DELETE" });
+      await fetchTokens();
     } catch {
       setTokenMessage("Failed to revoke token");
     }
@@ -186,6 +227,12 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      <NotificationPreferences />
+
+      <SecuritySettings />
+
+      <LoginHistory />
+
       {/* API Tokens Section */}
       <Card className="mt-6">
         <CardHeader>
@@ -221,19 +268,64 @@ export default function SettingsPage() {
           )}
 
           {/* Create new token */}
-          <div className="flex items-end gap-2 mb-6">
-            <div className="flex-1">
+          <div className="space-y-4 mb-6">
+            <Input
+              label="Token Name"
+              value={newTokenName}
+              onChange={(e) => setNewTokenName(e.target.value)}
+              placeholder="e.g. Claude Cowork"
+            />
+            <fieldset>
+              <legend className="text-sm font-medium text-foreground mb-2">Permissions</legend>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {(Object.keys(API_TOKEN_SCOPES) as ApiTokenScope[]).map((scope) => (
+                  <label key={scope} className="flex items-start gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={newTokenScopes.includes(scope)}
+                      onChange={(e) => toggleNewTokenScope(scope, e.target.checked)}
+                      className="mt-0.5 rounded border-border"
+                    />
+                    <span>
+                      <span className="text-foreground">{API_TOKEN_SCOPES[scope]}</span>
+                      <span className="block text-xs font-mono text-muted-foreground">{scope}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="token-expiry"
+                  className="block text-sm font-medium text-foreground mb-1"
+                >
+                  Expires
+                </label>
+                <select
+                  id="token-expiry"
+                  value={newTokenExpiry}
+                  onChange={(e) => setNewTokenExpiry(e.target.value)}
+                  className="w-full px-3 py-2 border border-border rounded-md text-sm"
+                >
+                  {EXPIRY_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <Input
-                label="Token Name"
-                value={newTokenName}
-                onChange={(e) => setNewTokenName(e.target.value)}
-                placeholder="e.g. Claude Cowork"
+                label="Allowed IPs (optional)"
+                value={newTokenCidrs}
+                onChange={(e) => setNewTokenCidrs(e.target.value)}
+                placeholder="e.g. 203.0.113.0/24, 2001:db8::/32"
               />
             </div>
             <Button
               type="button"
               onClick={handleCreateToken}
-              disabled={tokensLoading}
+              disabled={tokensLoading || newTokenScopes.length === 0}
               isLoading={tokensLoading}
               size="md"
             >
@@ -247,30 +339,95 @@ export default function SettingsPage() {
             <p className="text-sm text-muted-foreground">No API tokens yet.</p>
           ) : (
             <div className="divide-y">
-              {tokens.map((token) => (
-                <div key={token.id} className="py-3 flex items-center justify-between">
-                  <div>
-                    <p className="text-sm font-medium text-foreground">{token.name}</p>
-                    <p className="text-xs text-muted-foreground">
-                      Created {token.createdAt ? formatDateMedium(token.createdAt) : "unknown"}
-                      {token.lastUsedAt && <> · Last used {formatDateMedium(token.lastUsedAt)}</>}
-                    </p>
+              {tokens.map((token) => {
+                const expired =
+                  !token.revokedAt &&
+                  token.expiresAt !== null &&
+                  new Date(token.expiresAt).getTime() <= Date.now();
+                return (
+                  <div key={token.id} className="py-3 flex items-start justify-between gap-4">
+                    <div className={token.revokedAt || expired ? "opacity-60" : undefined}>
+                      <p className="text-sm font-medium text-foreground">
+                        {token.name}
+                        {token.revokedAt && (
+                          <span className="ml-2 text-xs font-normal text-destructive">Revoked</span>
+                        )}
+                        {expired && (
+                          <span className="ml-2 text-xs font-normal text-destructive">Expired</span>
+                        )}
+                      </p>
+                      <p className="text-xs font-mono text-muted-foreground">
+                        {token.scopes.length > 0 ? token.scopes.join(", ") : "no scopes"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Created {token.createdAt ? formatDateMedium(token.createdAt) : "unknown"}
+                        {token.expiresAt && !token.revokedAt && (
+                          <>
+                            {" "}
+                            · {expired ? "Expired" : "Expires"} {formatDateMedium(token.expiresAt)}
+                          </>
+                        )}
+                        {token.lastUsedAt && (
+                          <>
+                            {" "}
+                            · Last used {formatDateMedium(token.lastUsedAt)}
+                            {token.lastUsedIp && <> from {token.lastUsedIp}</>}
+                          </>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {token.useCount} {token.useCount === 1 ? "request" : "requests"}
+                        {token.deniedCount > 0 && <> · {token.deniedCount} denied</>}
+                        {token.allowedCidrs && token.allowedCidrs.length > 0 && (
+                          <> · Limited to {token.allowedCidrs.join(", ")}</>
+                        )}
+                      </p>
+                      {token.revokedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Revoked {formatDateMedium(token.revokedAt)}
+                          {token.revokedReason && <> — {token.revokedReason}</>}
+                        </p>
+                      )}
+                    </div>
+                    {!token.revokedAt && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevokeToken(token.id)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        aria-label={`Revoke ${token.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleRevokeToken(token.id)}
-                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <Card className="mt-8">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-foreground">Event Syndication</h2>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">
+            Publishing fair listings on your own site? Register a webhook and get signed updates for
+            every event in your state, category, or area.
+          </p>
+          <Link
+            href="/dashboard/syndication"
+            className="text-sm font-medium text-navy hover:underline"
+          >
+            Manage syndication webhooks
+          </Link>
+        </CardContent>
+      </Card>
+
+      <AccountData email={session.user.email} />
     </div>
   );
 }
@@ -0,0 +1,520 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Copy, Plus, RefreshCw, Send, Trash2, RotateCcw } from "lucide-react";
+import { formatDateMedium, formatTimestamp } from "@/lib/datetime";
+
+interface Subscriber {
+  id: string;
+  name: string;
+  callbackUrl: string;
+  active: boolean;
+  createdAt: string;
+  previousSecretExpiresAt: string | null;
+}
+
+interface QuerySubscription {
+  id: string;
+  stateCode: string | null;
+  category: string | null;
+  promoterId: string | null;
+  seriesId: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  radiusMiles: number | null;
+}
+
+interface Delivery {
+  id: string;
+  kind: "change" | "ping";
+  eventId: string | null;
+  eventVersion: number | null;
+  redeliveryOf: string | null;
+  succeeded: boolean;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+async function errorFrom(res: Response, fallback: string): Promise<string> {
+  try {
+    // Gates like email_unverified put a code in `error` and the sentence in `message`.
+    const data = (await res.json()) as { error?: unknown; message?: unknown };
+    if (typeof data.message === "string") return data.message;
+    return typeof data.error === "string" ? data.error : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function describeQuery(q: QuerySubscription): string {
+  const parts: string[] = [];
+  if (q.stateCode) parts.push(`State ${q.stateCode}`);
+  if (q.category) parts.push(`Category “${q.category}”`);
+  if (q.promoterId) parts.push(`Promoter ${q.promoterId}`);
+  if (q.seriesId) parts.push(`Series ${q.seriesId}`);
+  if (q.radiusMiles !== null && q.latitude !== null && q.longitude !== null) {
+    parts.push(`Within ${q.radiusMiles} mi of ${q.latitude}, ${q.longitude}`);
+  }
+  return parts.join(" · ");
+}
+
+/** Shown once after create/rotate — the server never returns it again. */
+function RevealedSecret({ secret }: { secret: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <div className="p-4 rounded-lg bg-amber-50 border border-amber-200 mb-4">
+      <p className="text-sm font-medium text-amber-800 mb-2">
+        Copy your signing secret now — it won&apos;t be shown again.
+      </p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 bg-card px-3 py-2 rounded border text-xs font-mono break-all">
+          {secret}
+        </code>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={async () => {
+            await navigator.clipboard.writeText(secret);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+          }}
+        >
+          <Copy className="h-4 w-4" />
+          <span className="ml-1">{copied ? "Copied" : "Copy"}</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const EMPTY_QUERY = {
+  stateCode: "",
+  category: "",
+  promoterId: "",
+  seriesId: "",
+  latitude: "",
+  longitude: "",
+  radiusMiles: "",
+};
+
+function SubscriberPanel({
+  subscriber,
+  onChanged,
+}: {
+  subscriber: Subscriber;
+  onChanged: () => Promise<void>;
+}) {
+  const base = `/api/user/syndication/${subscriber.id}`;
+  const [queries, setQueries] = useState<QuerySubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [query, setQuery] = useState(EMPTY_QUERY);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    const [detail, log] = await Promise.all([fetch(base), fetch(`${base}/deliveries`)]);
+    if (detail.ok) {
+      setQueries(((await detail.json()) as { queries: QuerySubscription[] }).queries);
+    }
+    if (log.ok) {
+      setDeliveries(((await log.json()) as { deliveries: Delivery[] }).deliveries);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load().catch(() => setMessage("Failed to load subscriber"));
+  }, [load]);
+
+  const act = async (run: () => Promise<Response>, fallback: string) => {
+    setBusy(true);
+    setMessage("");
+    try {
+      const res = await run();
+      if (!res.ok) {
+        setMessage(await errorFrom(res, fallback));
+        return null;
+      }
+      return res;
+    } catch {
+      setMessage(fallback);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddQuery = async () => {
+    const body: Record<string, string | number> = {};
+    for (const key of ["stateCode", "category", "promoterId", "seriesId"] as const) {
+      if (query[key].trim()) body[key] = query[key].trim();
+    }
+    for (const key of ["latitude", "longitude", "radiusMiles"] as const) {
+      if (query[key].trim()) body[key] = Number(query[key]);
+    }
+    const res = await act(
+      () =>
+        fetch(`${base}/queries`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }),
+      "Failed to add query"
+    );
+    if (res) {
+      setQuery(EMPTY_QUERY);
+      await load();
+    }
+  };
+
+  const handleDeleteQuery = async (queryId: string) => {
+    const res = await act(
+      () => fetch(`${base}/queries/${queryId}`, { method: "DELETE" }),
+      "Failed to remove query"
+    );
+    if (res) await load();
+  };
+
+  const handlePing = async () => {
+    const res = await act(() => fetch(`${base}/ping`, { method: "POST" }), "Ping failed");
+    if (res) {
+      const { delivery } = (await res.json()) as { delivery: Delivery };
+      setMessage(
+        delivery.succeeded ? "Ping delivered." : `Ping failed: ${delivery.error ?? "no response"}`
+      );
+      await load();
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!confirm("Issue a new signing secret? The current one keeps working for 24 hours.")) {
+      return;
+    }
+    const res = await act(
+      () => fetch(`${base}/rotate-secret`, { method: "POST" }),
+      "Failed to rotate secret"
+    );
+    if (res) {
+      setSecret(((await res.json()) as { signingSecret: string }).signingSecret);
+      await onChanged();
+    }
+  };
+
+  const handleRedeliver = async (deliveryId: string) => {
+    const res = await act(
+      () => fetch(`${base}/deliveries/${deliveryId}/redeliver`, { method: "POST" }),
+      "Redelivery failed"
+    );
+    if (res) await load();
+  };
+
+  const handleToggle = async () => {
+    const res = await act(
+      () =>
+        fetch(base, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ active: !subscriber.active }),
+        }),
+      "Failed to update subscriber"
+    );
+    if (res) await onChanged();
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${subscriber.name}" and its delivery log?`)) return;
+    const res = await act(() => fetch(base, { method: "DELETE" }), "Failed to delete subscriber");
+    if (res) await onChanged();
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">
+              {subscriber.name}
+              {!subscriber.active && (
+                <span className="ml-2 text-xs font-normal text-muted-foreground">Paused</span>
+              )}
+            </h2>
+            <p className="text-xs font-mono text-muted-foreground break-all">
+              {subscriber.callbackUrl}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Created {formatDateMedium(subscriber.createdAt)}
+              {subscriber.previousSecretExpiresAt && (
+                <>
+                  {" "}
+                  · Previous secret valid until{" "}
+                  {formatTimestamp(subscriber.previousSecretExpiresAt)}
+                </>
+              )}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2 justify-end">
+            <Button type="button" variant="outline" size="sm" onClick={handlePing} disabled={busy}>
+              <Send className="h-4 w-4 mr-1" />
+              Test ping
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleRotate}
+              disabled={busy}
+            >
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Rotate secret
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleToggle}
+              disabled={busy}
+            >
+              {subscriber.active ? "Pause" : "Resume"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleDelete}
+              disabled={busy}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {secret && <RevealedSecret secret={secret} />}
+        {message && <p className="text-sm text-muted-foreground mb-4">{message}</p>}
+
+        <h3 className="text-sm font-semibold text-foreground mb-2">Subscriptions</h3>
+        {queries.length === 0 ? (
+          <p className="text-sm text-muted-foreground mb-4">
+            No queries yet — add one to start receiving matching events.
+          </p>
+        ) : (
+          <ul className="divide-y mb-4">
+            {queries.map((q) => (
+              <li key={q.id} className="py-2 flex items-center justify-between gap-4">
+                <span className="text-sm text-foreground">{describeQuery(q)}</span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDeleteQuery(q.id)}
+                  disabled={busy}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+          <Input
+            label="State"
+            value={query.stateCode}
+            onChange={(e) => setQuery({ ...query, stateCode: e.target.value })}
+            placeholder="e.g. ME"
+            maxLength={2}
+          />
+          <Input
+            label="Category"
+            value={query.category}
+            onChange={(e) => setQuery({ ...query, category: e.target.value })}
+            placeholder="e.g. Craft Fair"
+          />
+          <Input
+            label="Promoter ID"
+            value={query.promoterId}
+            onChange={(e) => setQuery({ ...query, promoterId: e.target.value })}
+          />
+          <Input
+            label="Series ID"
+            value={query.seriesId}
+            onChange={(e) => setQuery({ ...query, seriesId: e.target.value })}
+          />
+          <Input
+            label="Latitude"
+            value={query.latitude}
+            onChange={(e) => setQuery({ ...query, latitude: e.target.value })}
+            inputMode="decimal"
+          />
+          <Input
+            label="Longitude"
+            value={query.longitude}
+            onChange={(e) => setQuery({ ...query, longitude: e.target.value })}
+            inputMode="decimal"
+          />
+          <Input
+            label="Radius (miles)"
+            value={query.radiusMiles}
+            onChange={(e) => setQuery({ ...query, radiusMiles: e.target.value })}
+            inputMode="decimal"
+          />
+        </div>
+        <Button type="button" size="sm" onClick={handleAddQuery} disabled={busy} className="mb-6">
+          <Plus className="h-4 w-4 mr-1" />
+          Add query
+        </Button>
+
+        <h3 className="text-sm font-semibold text-foreground mb-2">Recent deliveries</h3>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing delivered yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {deliveries.map((d) => (
+              <li key={d.id} className="py-2 flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-sm text-foreground">
+                    <span className={d.succeeded ? "text-green-700" : "text-destructive"}>
+                      {d.succeeded ? "Delivered" : "Failed"}
+                    </span>{" "}
+                    · {d.kind === "ping" ? "Test ping" : `Event ${d.eventId} v${d.eventVersion}`}
+                    {d.redeliveryOf && " (redelivery)"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatTimestamp(d.createdAt)}
+                    {d.responseStatus !== null && <> · HTTP {d.responseStatus}</>}
+                    {d.durationMs !== null && <> · {d.durationMs} ms</>}
+                    {!d.succeeded && d.error && <> · {d.error}</>}
+                  </p>
+                  <p className="text-xs font-mono text-muted-foreground">{d.id}</p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRedeliver(d.id)}
+                  disabled={busy}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Redeliver
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SyndicationPage() {
+  const { data: session } = useSession();
+  const [subscribers, setSubscribers] = useState<Subscriber[]>([]);
+  const [name, setName] = useState("");
+  const [callbackUrl, setCallbackUrl] = useState("");
+  const [secret, setSecret] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const fetchSubscribers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/user/syndication");
+      if (res.ok) {
+        setSubscribers(((await res.json()) as { subscribers: Subscriber[] }).subscribers);
+      }
+    } catch {
+      setMessage("Failed to load subscribers");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      fetchSubscribers();
+    }
+  }, [session?.user?.id, fetchSubscribers]);
+
+  const handleCreate = async () => {
+    setLoading(true);
+    setMessage("");
+    setSecret(null);
+    try {
+      const res = await fetch("/api/user/syndication", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, callbackUrl }),
+      });
+      if (res.ok) {
+        setSecret(((await res.json()) as { signingSecret: string }).signingSecret);
+        setName("");
+        setCallbackUrl("");
+        await fetchSubscribers();
+      } else {
+        setMessage(await errorFrom(res, "Failed to register subscriber"));
+      }
+    } catch {
+      setMessage("Failed to register subscriber");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-foreground mb-2">Event Syndication</h1>
+      <p className="text-sm text-muted-foreground mb-8">
+        Receive signed webhooks when fairs matching your queries change. Verify each request&apos;s{" "}
+        <code className="text-xs">X-Syndication-Signature</code> (HMAC-SHA256 of the body with your
+        signing secret), and use{" "}
+        <code className="text-xs">/api/internal/syndication/matching-events</code> with your secret
+        as a Bearer token to discover newly listed events.
+      </p>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-foreground">Register a webhook</h2>
+        </CardHeader>
+        <CardContent>
+          {secret && <RevealedSecret secret={secret} />}
+          {message && <p className="text-sm text-destructive mb-4">{message}</p>}
+          <div className="space-y-4">
+            <Input
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Sun Journal events calendar"
+            />
+            <Input
+              label="Callback URL"
+              value={callbackUrl}
+              onChange={(e) => setCallbackUrl(e.target.value)}
+              placeholder="https://example.com/webhooks/fairs"
+            />
+            <Button
+              type="button"
+              onClick={handleCreate}
+              disabled={loading || !name.trim() || !callbackUrl.trim()}
+              isLoading={loading}
+              size="md"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Register
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {subscribers.map((s) => (
+        <SubscriberPanel key={s.id} subscriber={s} onChanged={fetchSubscribers} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+export const dynamic = "force-dynamic";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { logError } from "@/lib/logger";
+import { loadWidget, parseWidgetOptions } from "@/lib/widget/options";
+import { renderWidgetHtml, toWidgetEvents } from "@/lib/widget/render";
+
+/**
+ * GET /embed/events?promoter=<slug>&theme=dark&accent=c0392b&limit=5
+ *
+ * The widget iframe. Framable from any origin — next.config.mjs gives
+ * `/embed/*` its own header set without `frame-ancestors 'none'`.
+ */
+const HTML_HEADERS = { "Content-Type": "text/html; charset=utf-8" };
+
+function message(text: string, status: number): Response {
+  return new Response(
+    `<!doctype html><html lang="en"><head><meta charset="utf-8"><meta name="robots" content="noindex"></head><body style="font:14px system-ui,sans-serif;color:#6b7280">${text}</body></html>`,
+    { status, headers: { ...HTML_HEADERS, "Cache-Control": "public, max-age=60" } }
+  );
+}
+
+export async function GET(request: Request) {
+  const options = parseWidgetOptions(new URL(request.url).searchParams);
+  if (!options) return message("This widget isn't set up correctly.", 400);
+  const db = getCloudflareDb();
+  try {
+    const loaded = await loadWidget(db, options);
+    if (!loaded) return message("These events aren't available.", 404);
+    const html = renderWidgetHtml(loaded.owner, toWidgetEvents(loaded.rows, options), options);
+    return new Response(html, {
+      headers: { ...HTML_HEADERS, "Cache-Control": "public, max-age=600, s-maxage=600" },
+    });
+  } catch (error) {
+    await logError(db, {
+      message: "Error rendering widget",
+      error,
+      source: "embed/events",
+      request,
+    });
+    return message("Events couldn't be loaded right now.", 500);
+  }
+}
@@ -0,0 +1,15 @@
+import { widgetLoaderScript } from "@/lib/widget/render";
+
+/**
+ * GET /embed/widget.js — the script-tag embed. Static for a given build, so a
+ * day of edge and browser cache; the data it shows lives in the iframe it
+ * inserts, which caches on its own, shorter clock.
+ */
+export function GET() {
+  return new Response(widgetLoaderScript(), {
+    headers: {
+      "Content-Type": "text/javascript; charset=utf-8",
+      "Cache-Control": "public, max-age=86400, s-maxage=86400",
+    },
+  });
+}
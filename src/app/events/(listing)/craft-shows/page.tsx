@@ -33,7 +33,7 @@ export const metadata: Metadata = {
 export default async function CraftShowsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ page?: string; includePast?: string }>;
+  searchParams: Promise<{ page?: string; includePast?: string; view?: string }>;
 }) {
   const params = await searchParams;
   return <CategoryEventsPage categorySlug="craft-shows" searchParams={params} />;
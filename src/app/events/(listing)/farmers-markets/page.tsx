@@ -35,7 +35,7 @@ export const metadata: Metadata = {
 export default async function FarmersMarketsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ page?: string; includePast?: string }>;
+  searchParams: Promise<{ page?: string; includePast?: string; view?: string }>;
 }) {
   const params = await searchParams;
   return <CategoryEventsPage categorySlug="farmers-markets" searchParams={params} />;
@@ -11,6 +11,7 @@ import {
   hasOccurrenceInWindowOrUndated,
 } from "@/lib/event-dates";
 import { getCloudflareDb } from "@/lib/cloudflare";
+import { getMembership } from "@/lib/organizations/members";
 import {
   events,
   venues,
@@ -46,7 +47,23 @@ import { ItemListSchema } from "@/components/seo/ItemListSchema";
 import { ItemListTracker } from "@/components/analytics/ItemListTracker";
 import { BreadcrumbSchema } from "@/components/seo/BreadcrumbSchema";
 import { MobileFilterDrawer } from "@/components/ui/mobile-filter-drawer";
+import { SubscribeCalendarLink } from "@/components/events/subscribe-calendar-link";
+import { feedAlternates } from "@/lib/event-feeds/render";
+import { SaveSearchButton } from "@/components/events/save-search-button";
 import { countPublicFilteredEvents, hasPublicFilters } from "@/lib/events-filter-count";
+import {
+  distanceSquaredSql,
+  resolveNearSearch,
+  withinRadius,
+  type NearSearch,
+} from "@/lib/near-search";
+import { MAP_VIEW_MAX_EVENTS } from "@/lib/map/event-pins";
+import {
+  NEAR_DEFAULT_RADIUS_MILES,
+  NEAR_RADIUS_OPTIONS,
+  formatNearParam,
+  type GeoPoint,
+} from "@takemetothefair/utils";
 
 export const revalidate = 300; // Cache for 5 minutes
 
@@ -54,7 +71,10 @@ const BASE_METADATA: Metadata = {
   title: "Upcoming Fairs & Festivals | Meet Me at the Fair",
   description:
     "Browse upcoming fairs, festivals, and community events. Filter by category, state, and more.",
-  alternates: { canonical: "https://meetmeatthefair.com/events" },
+  alternates: {
+    canonical: "https://meetmeatthefair.com/events",
+    types: feedAlternates("/api/feeds/events", "Meet Me at the Fair — Events"),
+  },
   openGraph: {
     title: "Upcoming Fairs & Festivals | Meet Me at the Fair",
     description:
@@ -93,6 +113,11 @@ export async function generateMetadata({
   searchParams: Promise<SearchParams>;
 }): Promise<Metadata> {
   const resolved = await searchParams;
+  // A radius search is one visitor's location, and the coordinate space is
+  // unbounded — none of it belongs in the index.
+  if (resolved.near || resolved.zip) {
+    return { ...BASE_METADATA, robots: { index: false, follow: true } };
+  }
   if (!hasPublicFilters(resolved)) return BASE_METADATA;
   try {
     const db = getCloudflareDb();
@@ -124,6 +149,12 @@ interface SearchParams {
   favorites?: string;
   indoorOutdoor?: string;
   scale?: string;
+  /** Radius search center, "lat,lng" (the "use my location" control). */
+  near?: string;
+  /** Radius search center as a US ZIP, resolved through location_zips. Wins over `near`. */
+  zip?: string;
+  /** Radius in miles for `near`/`zip`; defaults to 25. */
+  radius?: string;
   page?: string;
   view?: string;
   sort?: string;
@@ -139,10 +170,10 @@ interface SearchParams {
   cal_days?: string;
 }
 
-type ViewMode = "cards" | "table" | "calendar";
+type ViewMode = "cards" | "table" | "calendar" | "map";
 
 function parseView(view?: string): ViewMode {
-  if (view === "table" || view === "calendar") return view;
+  if (view === "table" || view === "calendar" || view === "map") return view;
   return "cards";
 }
 
@@ -152,10 +183,12 @@ async function getVendorForUser(
 ): Promise<{ id: string; latitude: number | null; longitude: number | null } | null> {
   try {
     const db = getCloudflareDb();
+    const membership = await getMembership(db, userId, "VENDOR");
+    if (!membership) return null;
     const [vendor] = await db
       .select({ id: vendors.id, latitude: vendors.latitude, longitude: vendors.longitude })
       .from(vendors)
-      .where(eq(vendors.userId, userId))
+      .where(eq(vendors.id, membership.entityId))
       .limit(1);
     return vendor || null;
   } catch (error) {
@@ -168,14 +201,20 @@ async function getEvents(
   searchParams: SearchParams,
   vendorId?: string,
   favoriteUserId?: string,
-  includeVendorDays?: boolean
+  includeVendorDays?: boolean,
+  near?: NearSearch | null,
+  sortCenter?: GeoPoint | null
 ) {
   const viewMode = parseView(searchParams.view);
   const isCalendarView = viewMode === "calendar";
-  const page = parseInt(searchParams.page || "1");
-  const limit = 30;
+  // The map plots the filtered set in one go, so it reads one oversized first
+  // page rather than paginating.
+  const isMapView = viewMode === "map";
+  const page = isMapView ? 1 : parseInt(searchParams.page || "1");
+  const limit = isMapView ? MAP_VIEW_MAX_EVENTS : 30;
   const offset = (page - 1) * limit;
-  const sort = searchParams.sort || "date-asc";
+  // A radius search reads nearest-first unless the visitor picked a sort.
+  const sort = searchParams.sort || (near ? "nearest" : "date-asc");
 
   const db = getCloudflareDb();
 
@@ -285,6 +324,12 @@ async function getEvents(
       conditions.push(eq(events.eventScale, searchParams.scale));
     }
 
+    // Radius search on the venue's coordinates (drizzle/0235). Venue-less and
+    // ungeocoded events can't be shown to be inside, so they drop out.
+    if (near) {
+      conditions.push(withinRadius(venues.latitude, venues.longitude, near));
+    }
+
     // Filter by vendor's events using subquery (avoids D1 bind parameter limit)
     if (searchParams.myEvents === "true" && vendorId) {
       conditions.push(
@@ -323,7 +368,15 @@ async function getEvents(
       "name-desc": desc(events.name),
       popular: desc(events.viewCount),
     };
-    const orderBy = orderByMap[sort as keyof typeof orderByMap] || startDateAsc;
+    // "nearest" needs a center: the radius search's, else the vendor's home.
+    // Venues without coordinates sort after every placed one.
+    const distance = sortCenter
+      ? distanceSquaredSql(venues.latitude, venues.longitude, sortCenter)
+      : null;
+    const orderBy =
+      sort === "nearest" && distance
+        ? [sql`${distance} IS NULL`, asc(distance), startDateAsc]
+        : [orderByMap[sort as keyof typeof orderByMap] || startDateAsc];
 
     // Narrow projection — D1 caps result rows at 100 columns; the
     // default `db.select()` over events+venues+promoters emits 104
@@ -337,7 +390,7 @@ async function getEvents(
         .leftJoin(venues, eq(events.venueId, venues.id))
         .leftJoin(promoters, eq(events.promoterId, promoters.id))
         .where(and(...stateConditions))
-        .orderBy(orderBy);
+        .orderBy(...orderBy);
     } else {
       query = db
         .select(eventJoinProjection)
@@ -345,7 +398,7 @@ async function getEvents(
         .leftJoin(venues, eq(events.venueId, venues.id))
         .leftJoin(promoters, eq(events.promoterId, promoters.id))
         .where(and(...stateConditions))
-        .orderBy(orderBy)
+        .orderBy(...orderBy)
         .limit(limit)
         .offset(offset);
     }
@@ -483,11 +536,12 @@ async function getEvents(
     // shape, same sort). Small cost; one query per page render.
     const eventsWithVendors = await attachEventDayDates(db, eventsBase);
 
-    // Count total (state filter now lives on events.state_code, so no venue join needed)
-    const countResult = await db
-      .select({ count: count() })
-      .from(events)
-      .where(and(...stateConditions));
+    // Count total (state filter now lives on events.state_code, so no venue
+    // join needed — except for a radius search, which tests venue coordinates)
+    const countQuery = db.select({ count: count() }).from(events).$dynamic();
+    const countResult = await (
+      near ? countQuery.leftJoin(venues, eq(events.venueId, venues.id)) : countQuery
+    ).where(and(...stateConditions));
 
     const total = countResult[0]?.count || 0;
 
@@ -503,6 +557,8 @@ async function getEvents(
       searchParams.state ||
       searchParams.indoorOutdoor ||
       searchParams.scale ||
+      searchParams.near ||
+      searchParams.zip ||
       searchParams.featured ||
       searchParams.commercialVendors ||
       searchParams.excludeFarmersMarkets ||
@@ -720,6 +776,40 @@ function EventsFilter({
         </select>
       </div>
 
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-1" htmlFor="events-zip">
+          Near ZIP code
+        </label>
+        {/* A typed ZIP wins over `near`, so the hidden field only keeps a
+            "use my location" search alive across other filter changes. */}
+        {searchParams.near && <input type="hidden" name="near" value={searchParams.near} />}
+        <div className="flex gap-2">
+          <input
+            id="events-zip"
+            type="text"
+            name="zip"
+            inputMode="numeric"
+            autoComplete="postal-code"
+            maxLength={10}
+            defaultValue={searchParams.zip}
+            placeholder="e.g. 04101"
+            className="min-w-0 flex-1 px-3 py-2 border border-input rounded-lg focus:border-royal focus:outline-none focus:ring-1 focus:ring-royal"
+          />
+          <select
+            name="radius"
+            aria-label="Distance"
+            defaultValue={searchParams.radius || String(NEAR_DEFAULT_RADIUS_MILES)}
+            className="px-2 py-2 border border-input rounded-lg focus:border-royal focus:outline-none focus:ring-1 focus:ring-royal"
+          >
+            {NEAR_RADIUS_OPTIONS.map((miles) => (
+              <option key={miles} value={miles}>
+                {miles} mi
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
       <div>
         <label className="block text-sm font-medium text-foreground mb-1">Indoor/Outdoor</label>
         <select
@@ -869,13 +959,26 @@ export default async function EventsPage({
   // Pass userId for favorites subquery (avoids D1 bind parameter limit)
   const favoriteUserId = isLoggedIn && params.favorites === "true" ? session.user.id : undefined;
 
+  const nearResult = await resolveNearSearch(getCloudflareDb(), params);
+  const near = nearResult.search;
+  const sortCenter: GeoPoint | null =
+    near?.center ??
+    (vendorCoords ? { latitude: vendorCoords.lat, longitude: vendorCoords.lng } : null);
+
   const viewMode = parseView(params.view);
   // CAL1 — when the flag is ON, the calendar view renders the new SSR Month module
   // (Month-only) instead of the legacy client calendar. Default OFF → no change.
   const useSsrCalendar = viewMode === "calendar" && isCal1SsrMonthEnabled();
   const cal2Enabled = isCal2ViewsEnabled();
   const [{ events: eventsList, total, page, limit }, categories, states] = await Promise.all([
-    getEvents(params, vendorId, favoriteUserId, isVendor || session?.user?.role === "ADMIN"),
+    getEvents(
+      params,
+      vendorId,
+      favoriteUserId,
+      isVendor || session?.user?.role === "ADMIN",
+      near,
+      sortCenter
+    ),
     getCategories(),
     getStates(),
   ]);
@@ -902,6 +1005,49 @@ export default async function EventsPage({
     ? `/events?${clearWhenParams.toString()}`
     : "/events";
 
+  // Same pill treatment for a radius search. Clearing it also drops an
+  // implied "nearest" sort, which has nothing left to measure from.
+  const nearLabel = near
+    ? `Within ${near.radiusMiles} mi of ${near.label ?? "your location"}`
+    : null;
+  const clearNearParams = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) {
+    if (["near", "zip", "radius", "page"].includes(k) || typeof v !== "string" || !v) continue;
+    if (k === "sort" && v === "nearest") continue;
+    clearNearParams.set(k, v);
+  }
+  const clearNearHref = clearNearParams.toString()
+    ? `/events?${clearNearParams.toString()}`
+    : "/events";
+
+  // Subscribe link carries only the attribute filters — a calendar feed rolls
+  // forward on its own, so `when`/`includePast`/`page` would be meaningless there.
+  // A saved search (email alerts) takes the same subset for the same reason.
+  // A radius search goes along as its resolved centre, so a saved search
+  // matches without a ZIP lookup; the ZIP itself only labels it.
+  const feedParams = new URLSearchParams();
+  for (const key of [
+    "query",
+    "category",
+    "state",
+    "featured",
+    "commercialVendors",
+    "excludeFarmersMarkets",
+    "indoorOutdoor",
+    "scale",
+  ] as const) {
+    const v = params[key];
+    if (typeof v === "string" && v) feedParams.set(key, v);
+  }
+  if (near) {
+    feedParams.set("near", formatNearParam(near.center));
+    if (near.zip) feedParams.set("zip", near.zip);
+    feedParams.set("radius", String(near.radiusMiles));
+  }
+  const feedPath = feedParams.toString()
+    ? `/api/calendar/events?${feedParams.toString()}`
+    : "/api/calendar/events";
+
   return (
     <div
       className={`mx-auto ${useSsrCalendar ? "max-w-screen-2xl" : "max-w-7xl"} px-4 sm:px-6 lg:px-8 py-8 print:max-w-none print:px-0 print:py-0`}
@@ -935,21 +1081,45 @@ export default async function EventsPage({
         <p className="mt-2 text-muted-foreground">
           Discover upcoming fairs, festivals, and community events
         </p>
-        {whenLabel && (
+        <div className="mt-3 flex flex-wrap items-center gap-x-6 gap-y-2">
+          <SubscribeCalendarLink feedPath={feedPath} />
+          <SaveSearchButton params={Object.fromEntries(feedParams)} />
+        </div>
+        {(whenLabel || nearLabel) && (
           <div className="mt-4 flex flex-wrap items-center gap-2">
             <span className="text-sm text-muted-foreground">Filtered to:</span>
-            <span className="inline-flex items-center gap-1.5 rounded-full border border-amber/40 bg-amber-light py-1 pl-3 pr-1.5 text-sm font-semibold text-secondary">
-              {whenLabel}
-              <Link
-                href={clearWhenHref}
-                aria-label={`Clear ${whenLabel} filter`}
-                className="inline-flex items-center justify-center rounded-full p-0.5 text-secondary/70 hover:bg-secondary/10 hover:text-secondary"
-              >
-                <X className="h-3.5 w-3.5" />
-              </Link>
-            </span>
+            {whenLabel && (
+              <span className="inline-flex items-center gap-1.5 rounded-full border border-amber/40 bg-amber-light py-1 pl-3 pr-1.5 text-sm font-semibold text-secondary">
+                {whenLabel}
+                <Link
+                  href={clearWhenHref}
+                  aria-label={`Clear ${whenLabel} filter`}
+                  className="inline-flex items-center justify-center rounded-full p-0.5 text-secondary/70 hover:bg-secondary/10 hover:text-secondary"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Link>
+              </span>
+            )}
+            {nearLabel && (
+              <span className="inline-flex items-center gap-1.5 rounded-full border border-amber/40 bg-amber-light py-1 pl-3 pr-1.5 text-sm font-semibold text-secondary">
+                {nearLabel}
+                <Link
+                  href={clearNearHref}
+                  aria-label="Clear distance filter"
+                  className="inline-flex items-center justify-center rounded-full p-0.5 text-secondary/70 hover:bg-secondary/10 hover:text-secondary"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Link>
+              </span>
+            )}
           </div>
         )}
+        {nearResult.unknownZip && (
+          <p className="mt-4 text-sm text-muted-foreground" role="status">
+            We couldn&apos;t find ZIP code &ldquo;{nearResult.unknownZip}&rdquo;, so results
+            aren&apos;t limited by distance.
+          </p>
+        )}
       </div>
 
       {useSsrCalendar ? (
@@ -1012,6 +1182,16 @@ export default async function EventsPage({
               total={total}
               myEvents={params.myEvents === "true"}
               vendorCoords={vendorCoords}
+              nearSearch={
+                near
+                  ? {
+                      lat: near.center.latitude,
+                      lng: near.center.longitude,
+                      radiusMiles: near.radiusMiles,
+                    }
+                  : null
+              }
+              serverNearSearch
             />
             <CalendarPastEventsCta />
           </main>
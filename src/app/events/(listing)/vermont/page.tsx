@@ -10,7 +10,7 @@ export async function generateMetadata(): Promise<Metadata> {
 export default async function VermontEventsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ page?: string; includePast?: string }>;
+  searchParams: Promise<{ page?: string; includePast?: string; view?: string }>;
 }) {
   const params = await searchParams;
   return <StateEventsPage stateSlug="vermont" searchParams={params} />;
@@ -33,6 +33,7 @@ import { logError } from "@/lib/logger";
 import { buildEventTitle, buildEventMetaDescription } from "@/lib/seo-utils";
 import { cdnImage, OG_EVENT } from "@/lib/cdn-image";
 import { getSeriesLanding } from "@/lib/series/get-series-landing";
+import { feedAlternates } from "@/lib/event-feeds/render";
 import { chunkedInArray } from "@takemetothefair/utils";
 
 export async function getEvent(slug: string) {
@@ -233,7 +234,10 @@ export async function buildEventMetadata(slug: string, asOccurrence = false): Pr
     return {
       title,
       description,
-      alternates: { canonical: url },
+      alternates: {
+        canonical: url,
+        types: feedAlternates(`/api/feeds/series/${landing.series.canonicalSlug}`, title),
+      },
       openGraph: {
         title,
         description,
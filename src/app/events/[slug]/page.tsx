@@ -25,27 +25,17 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { formatDateRange, formatDiscontinuousDates, formatPrice } from "@/lib/utils";
 import { getCloudflareDb, getCloudflareEnv } from "@/lib/cloudflare";
+import { getMembership } from "@/lib/organizations/members";
 import { loadEventPerformers } from "@/lib/performers/load-event-performers";
 import { WhosPerforming } from "@/components/events/WhosPerforming";
 // K46 — getEvent (moved to event-detail-data.ts) owned the users/eventDays/
 // eventSeries/sql/isNull/inArray/resolveEventVendorTarget/isPublicVendorStatus
 // imports; the page body keeps only what it still references.
-import {
-  events,
-  venues,
-  promoters,
-  eventVendors,
-  vendors,
-  blogPosts,
-  contentLinks,
-} from "@/lib/db/schema";
-import { eq, and, ne, like, desc, or } from "drizzle-orm";
+import { events, eventVendors, vendors, blogPosts, contentLinks } from "@/lib/db/schema";
+import { eq, and, like, desc, or } from "drizzle-orm";
 import { dedupeByResolvedSlug } from "@/lib/event-vendor-display";
 import { STATUS_BADGE_VARIANTS } from "@/lib/vendor-status";
 import type { EventVendorStatus } from "@/lib/constants";
-import { isPublicEventStatus } from "@/lib/event-status";
-import { upcomingEndPredicate } from "@/lib/event-dates";
-import { eventJoinProjection } from "@/lib/db/event-join-projection";
 import { DailyScheduleDisplay } from "@/components/events/DailyScheduleDisplay";
 import { EventDayImageStrip } from "@/components/events/EventDayImageStrip";
 import { parseJsonArray } from "@/types";
@@ -53,6 +43,8 @@ import type { Metadata } from "next";
 import { auth } from "@/lib/auth";
 import { logError } from "@/lib/logger";
 import { VendorApplyButton } from "@/components/events/VendorApplyButton";
+import { loadApplicationForm } from "@/lib/application-forms/store";
+import { prefillApplicationAnswers } from "@/lib/application-forms/form";
 import { AddToCalendar } from "@/components/events/AddToCalendar";
 import { EventSchema } from "@/components/seo/EventSchema";
 import { groupVendorsByDay } from "@/lib/k18-vendor-grouping";
@@ -85,12 +77,20 @@ import { OutboundEventLink } from "@/components/OutboundEventLink";
 import { getPromoterResponseStats } from "@/lib/promoter-stats";
 import { StickyApplyBar } from "@/components/events/StickyApplyBar";
 import { FavoriteButton } from "@/components/FavoriteButton";
-import { EventCard } from "@/components/events/event-card";
+import { YouMightAlsoLike } from "@/components/events/you-might-also-like";
+import { recommendEventsForEvent } from "@/lib/event-recommendations/recommend";
 import { DetailPageTracker } from "@/components/DetailPageTracker";
 import { ScrollDepthTracker } from "@/components/ScrollDepthTracker";
 import { PrintBeacon } from "@/components/print/PrintBeacon";
 import { formatDateMedium } from "@/lib/datetime";
+import { parseRecurrenceExdates } from "@/lib/events/recurrence";
 import { cdnImage } from "@/lib/cdn-image";
+import { loadEventReviewsView } from "@/lib/reviews/event-page";
+import {
+  buildEventAggregateRating,
+  isReviewRatingEmissionEnabled,
+} from "@/lib/reviews/aggregate-rating";
+import { EventReviewsSection } from "@/components/reviews/event-reviews-section";
 
 export const revalidate = 300; // Cache for 5 minutes
 
@@ -104,11 +104,13 @@ async function getUserVendorInfo(userId: string | undefined, eventId: string) {
   const db = getCloudflareDb();
 
   try {
-    // Get the vendor for this user
+    // Get the vendor this user acts for — owned or as a team member
+    const membership = await getMembership(db, userId, "VENDOR");
+    if (!membership) return null;
     const vendorResults = await db
       .select()
       .from(vendors)
-      .where(eq(vendors.userId, userId))
+      .where(eq(vendors.id, membership.entityId))
       .limit(1);
 
     if (vendorResults.length === 0) return null;
@@ -122,9 +124,14 @@ async function getUserVendorInfo(userId: string | undefined, eventId: string) {
       .where(and(eq(eventVendors.eventId, eventId), eq(eventVendors.vendorId, vendor.id)))
       .limit(1);
 
+    // The promoter's application form only matters to a vendor who can still apply.
+    const applicationForm =
+      existingApplication.length === 0 ? await loadApplicationForm(db, eventId) : null;
+
     return {
       vendor,
       existingApplication: existingApplication.length > 0 ? existingApplication[0] : null,
+      applicationForm,
     };
   } catch (e) {
     await logError(db, {
@@ -187,83 +194,23 @@ async function getVendorDateConflicts(
   }
 }
 
-async function getRelatedEvents(eventId: string, venueId: string | null, categories: string[]) {
+async function getRecommendedEvents(eventId: string, userId: string | null) {
+  // U11 (2026-06-21): this module ALWAYS recommends UPCOMING events — even on
+  // a PAST event's page. It answers "what can I go to next", not "what else
+  // happened"; the candidate pool in recommend.ts is upcoming-only (24h
+  // end-of-day grace per upcomingEndPredicate), and too few good matches
+  // means a shorter module rather than past events as filler.
   const db = getCloudflareDb();
   try {
-    // U11 (2026-06-21): related-events modules ALWAYS recommend UPCOMING events
-    // — even on a PAST event's page. This surface answers "what can I go to
-    // next", not "what else happened". The prior code mirrored the host event's
-    // temporal context (strict lt() when the host was past), which surfaced
-    // 11-month-old events on past detail pages (e.g. maine-moose-lottery showed
-    // NH Sheep & Wool from May 2025). Uses the 24h end-of-day grace per
-    // upcomingEndPredicate. If too few upcoming matches exist, prefer fewer (or
-    // an empty module) over backfilling past events.
-    const dateCondition = upcomingEndPredicate(new Date());
-    const baseConditions = [ne(events.id, eventId), isPublicEventStatus(), dateCondition];
-
-    // Both branches use the narrow projection (D1 100-col cap); see
-    // eventJoinProjection. The cast back to full row types keeps the
-    // EventsView prop contract intact.
-    type FullVenue = typeof venues.$inferSelect;
-    type FullPromoter = typeof promoters.$inferSelect;
-
-    // Try same venue first
-    if (venueId) {
-      const sameVenue = await db
-        .select(eventJoinProjection)
-        .from(events)
-        .leftJoin(venues, eq(events.venueId, venues.id))
-        .leftJoin(promoters, eq(events.promoterId, promoters.id))
-        .where(and(...baseConditions, eq(events.venueId, venueId)))
-        .orderBy(events.startDate)
-        .limit(4);
-
-      if (sameVenue.length >= 2) {
-        // EventRow derived from sameVenue so any projection change
-        // flows through automatically.
-        type EventRow = (typeof sameVenue)[number];
-        return {
-          heading: "More Events at This Venue",
-          events: sameVenue.map((r: EventRow) => ({
-            ...r.events,
-            venue: r.venue as FullVenue | null,
-            promoter: r.promoter as FullPromoter | null,
-          })),
-        };
-      }
-    }
-
-    // Fallback: same category
-    const primaryCategory = categories[0];
-    if (primaryCategory) {
-      const sameCategory = await db
-        .select(eventJoinProjection)
-        .from(events)
-        .leftJoin(venues, eq(events.venueId, venues.id))
-        .leftJoin(promoters, eq(events.promoterId, promoters.id))
-        .where(and(...baseConditions, like(events.categories, `%${primaryCategory}%`)))
-        .orderBy(events.startDate)
-        .limit(4);
-
-      if (sameCategory.length > 0) {
-        // EventRow derived from sameCategory (same projection shape
-        // as sameVenue above; aliased separately so the locally-named
-        // result variable stays the source of truth).
-        type EventRow = (typeof sameCategory)[number];
-        return {
-          heading: `More ${primaryCategory} Events`,
-          events: sameCategory.map((r: EventRow) => ({
-            ...r.events,
-            venue: r.venue as FullVenue | null,
-            promoter: r.promoter as FullPromoter | null,
-          })),
-        };
-      }
-    }
-
-    return null;
-  } catch {
-    return null;
+    return await recommendEventsForEvent(db, { eventId, userId, limit: 4 });
+  } catch (e) {
+    await logError(db, {
+      message: "Error loading event recommendations",
+      error: e,
+      source: "app/events/[slug]/page.tsx:getRecommendedEvents",
+      context: { eventId },
+    });
+    return [];
   }
 }
 
@@ -442,6 +389,24 @@ export default async function EventDetailPage({ params }: Props, asOccurrence =
 
   const session = await auth();
   const vendorInfo = await getUserVendorInfo(session?.user?.id, event.id);
+  // Vendor reviews. The JSON-LD aggregate has its own policy — env flag,
+  // verified exhibitors only, a minimum count — see aggregate-rating.ts.
+  const reviewsView = await loadEventReviewsView(getCloudflareDb(), {
+    eventId: event.id,
+    promoterId: event.promoterId,
+    userId: session?.user?.id ?? null,
+  });
+  let emitReviewRatings = false;
+  try {
+    emitReviewRatings = isReviewRatingEmissionEnabled(
+      getCloudflareEnv() as { EMIT_REVIEW_RATINGS?: string }
+    );
+  } catch {
+    /* default off */
+  }
+  const aggregateRating = buildEventAggregateRating(reviewsView.verifiedSummary, {
+    enabled: emitReviewRatings,
+  });
   const dateConflicts = vendorInfo
     ? await getVendorDateConflicts(vendorInfo.vendor.id, event.id, event.startDate, event.endDate)
     : [];
@@ -470,8 +435,8 @@ export default async function EventDetailPage({ params }: Props, asOccurrence =
   const isVendor = !!vendorInfo;
   const isPastEvent = event.endDate ? new Date(event.endDate) < new Date() : false;
   const eventCategories = parseJsonArray(event.categories);
-  const [relatedEvents, relatedBlogPosts] = await Promise.all([
-    getRelatedEvents(event.id, event.venueId, eventCategories),
+  const [recommendedEvents, relatedBlogPosts] = await Promise.all([
+    getRecommendedEvents(event.id, session?.user?.id ?? null),
     getRelatedBlogPosts(event.id, event.name, eventCategories),
   ]);
 
@@ -607,6 +572,7 @@ export default async function EventDetailPage({ params }: Props, asOccurrence =
             stage: r.stage,
           }))}
           emitPerformerSubevents={emitPerformerSubevents}
+          aggregateRating={aggregateRating}
         />
         <BreadcrumbSchema
           items={[
@@ -1135,6 +1101,11 @@ export default async function EventDetailPage({ params }: Props, asOccurrence =
             {/* OPE-317 — signup where readers already are. Event pages are the
                 site's highest-traffic surface; the footer form they never
                 scroll to is the same form. */}
+            <EventReviewsSection
+              eventId={event.id}
+              view={reviewsView}
+              signedIn={Boolean(session?.user?.id)}
+            />
             <NewsletterSignupBlock source="event-detail" />
           </main>
 
@@ -1180,6 +1151,8 @@ export default async function EventDetailPage({ params }: Props, asOccurrence =
                         variant="icon"
                         eventSlug={event.slug}
                         eventDays={event.eventDays}
+                        recurrenceRule={event.recurrenceRule}
+                        recurrenceExdates={parseRecurrenceExdates(event.recurrenceExdates)}
                       />
                     </div>
                     {event.eventDays && event.eventDays.length > 0 ? (
@@ -1466,6 +1439,15 @@ export default async function EventDetailPage({ params }: Props, asOccurrence =
                         }
                         confirmedVendorsCount={confirmedVendorsCount}
                         promoterMedianResponseDays={promoterStats?.medianDays ?? null}
+                        applicationForm={vendorInfo.applicationForm}
+                        initialAnswers={
+                          vendorInfo.applicationForm
+                            ? prefillApplicationAnswers(
+                                vendorInfo.applicationForm,
+                                vendorInfo.vendor
+                              )
+                            : undefined
+                        }
                       />
                     </>
                   )}
@@ -1539,24 +1521,9 @@ export default async function EventDetailPage({ params }: Props, asOccurrence =
           </aside>
         </div>
 
-        {/* Related Events */}
-        {relatedEvents && relatedEvents.events.length > 0 && (
-          <div className="mt-12 border-t border-border pt-8">
-            <h2 className="text-2xl font-bold text-foreground mb-6">{relatedEvents.heading}</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-              {relatedEvents.events.map((relEvent) => (
-                <EventCard key={relEvent.id} event={relEvent} />
-              ))}
-            </div>
-            {isPastEvent && (
-              <div className="mt-6 text-center">
-                <Link href="/events" className="text-royal hover:text-navy text-sm font-medium">
-                  Browse upcoming events &rarr;
-                </Link>
-              </div>
-            )}
-          </div>
-        )}
+        {/* You might also like — favorites-based when signed in, this event
+          alone otherwise. See src/lib/event-recommendations/. */}
+        <YouMightAlsoLike events={recommendedEvents} showBrowseLink={isPastEvent} />
 
         {/* Related Blog Posts — direct-link posts are labeled; category
           matches are unlabeled fallback filler when there aren't 3 direct
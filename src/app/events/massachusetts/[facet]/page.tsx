@@ -35,7 +35,7 @@ export default async function MassachusettsFacetPage({
   searchParams,
 }: {
   params: Promise<{ facet: string }>;
-  searchParams: Promise<{ page?: string }>;
+  searchParams: Promise<{ page?: string; view?: string }>;
 }) {
   const { facet } = await params;
   const sp = await searchParams;
@@ -7,6 +7,7 @@ import { newsletterIssues } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { NewsletterSignup } from "@/components/layout/newsletter-signup";
 import { NEWSLETTER_NAME, newsletterMastheadHtml } from "@/lib/newsletter-masthead";
+import { issueExcerpt, sanitizeIssueHtml } from "@/lib/newsletter/archive";
 
 /**
  * OPE-170 — public per-issue newsletter page. Renders the issue's stored HTML
@@ -17,6 +18,10 @@ import { NEWSLETTER_NAME, newsletterMastheadHtml } from "@/lib/newsletter-masthe
  * (src/lib/newsletter-masthead.ts), so "view in browser" looks like the inbox.
  * The stored `html` is inner body only, so rendering the masthead here does NOT
  * double it in the email.
+ *
+ * The body goes through sanitizeIssueHtml before it is published: a stored
+ * issue can carry links signed for one subscriber (an unsubscribe token, a
+ * tracked click) if it was pasted from a received copy.
  */
 
 interface Props {
@@ -32,6 +37,7 @@ async function getIssue(slug: string) {
         subject: newsletterIssues.subject,
         html: newsletterIssues.html,
         sentAt: newsletterIssues.sentAt,
+        audience: newsletterIssues.audience,
       })
       .from(newsletterIssues)
       .where(eq(newsletterIssues.slug, slug))
@@ -48,7 +54,9 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   if (!issue) return { title: "Newsletter | Meet Me at the Fair" };
   return {
     title: `${issue.subject} | Meet Me at the Fair`,
-    description: `A past issue of ${NEWSLETTER_NAME}, the Meet Me at the Fair weekly newsletter.`,
+    description:
+      issueExcerpt(issue.html, 160) ||
+      `A past issue of ${NEWSLETTER_NAME}, the Meet Me at the Fair weekly newsletter.`,
     alternates: { canonical: `https://meetmeatthefair.com/newsletter/${issue.slug}` },
     openGraph: { title: issue.subject, type: "article" },
   };
@@ -67,7 +75,14 @@ export default async function NewsletterIssuePage({ params }: Props) {
   return (
     <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-12">
       <div className="mb-6">
-        <Link href="/newsletter" className="text-sm text-royal hover:underline">
+        <Link
+          href={
+            issue.audience === "vendor"
+              ? "/newsletter/archive?audience=vendor"
+              : "/newsletter/archive"
+          }
+          className="text-sm text-royal hover:underline"
+        >
           ← All issues
         </Link>
       </div>
@@ -85,8 +100,12 @@ export default async function NewsletterIssuePage({ params }: Props) {
           dangerouslySetInnerHTML={{ __html: newsletterMastheadHtml({ subtitle: issue.subject }) }}
         />
         {/* Stored issue HTML is admin-authored (send endpoint is admin-gated),
-            so it's trusted content — same posture as rendered blog bodies. */}
-        <article className="p-6 sm:p-8" dangerouslySetInnerHTML={{ __html: issue.html }} />
+            so it's trusted content — same posture as rendered blog bodies.
+            Sanitized only of per-recipient links, not of markup. */}
+        <article
+          className="p-6 sm:p-8"
+          dangerouslySetInnerHTML={{ __html: sanitizeIssueHtml(issue.html) }}
+        />
       </div>
 
       {issue.sentAt && (
@@ -0,0 +1,179 @@
+export const dynamic = "force-dynamic";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { Rss, Search } from "lucide-react";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import type { NewsletterAudience } from "@/lib/db/schema";
+import { Pagination } from "@/components/ui/pagination";
+import { NEWSLETTER_NAME } from "@/lib/newsletter-masthead";
+import {
+  listArchiveIssues,
+  parseArchiveAudience,
+  type ArchivePage,
+} from "@/lib/newsletter/archive";
+
+/**
+ * Every sent issue of both newsletters, paged and searchable, with a tab per
+ * audience. /newsletter and /newsletter/vendor stay the landing pages — each
+ * with its signup and the latest issues — and link here for the back catalog.
+ *
+ * ROUTE PRECEDENCE NOTE: like /newsletter/vendor, this static segment wins
+ * over `[slug]`; composer slugs are date-suffixed, so no issue is ever
+ * literally "archive".
+ */
+
+const AUDIENCE_LABELS: Record<NewsletterAudience, string> = {
+  weekend: NEWSLETTER_NAME,
+  vendor: "New This Week",
+};
+
+interface SearchParams {
+  audience?: string;
+  page?: string;
+  q?: string;
+}
+
+async function getArchive(params: SearchParams): Promise<ArchivePage> {
+  try {
+    return await listArchiveIssues(getCloudflareDb(), {
+      audience: parseArchiveAudience(params.audience),
+      page: Number(params.page) || 1,
+      q: params.q,
+    });
+  } catch {
+    return { issues: [], total: 0, page: 1, totalPages: 1 };
+  }
+}
+
+function feedUrl(audience: NewsletterAudience): string {
+  return audience === "weekend"
+    ? "/newsletter/feed.xml"
+    : `/newsletter/feed.xml?audience=${audience}`;
+}
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}): Promise<Metadata> {
+  const params = await searchParams;
+  const audience = parseArchiveAudience(params.audience);
+  const canonical =
+    audience === "weekend"
+      ? "https://meetmeatthefair.com/newsletter/archive"
+      : `https://meetmeatthefair.com/newsletter/archive?audience=${audience}`;
+  return {
+    title: `${AUDIENCE_LABELS[audience]} — All Issues | Meet Me at the Fair`,
+    description: `Every past issue of ${AUDIENCE_LABELS[audience]}, the Meet Me at the Fair newsletter. Browse, search, or follow by RSS.`,
+    alternates: {
+      canonical,
+      types: { "application/rss+xml": `https://meetmeatthefair.com${feedUrl(audience)}` },
+    },
+    // Search results are a view of the archive, not a page of their own.
+    robots: params.q ? { index: false, follow: true } : undefined,
+  };
+}
+
+function fmtDate(d: Date | null): string {
+  if (!d) return "";
+  return d.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+}
+
+export default async function NewsletterArchiveAllPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  const audience = parseArchiveAudience(params.audience);
+  const q = params.q?.trim() ?? "";
+  const archive = await getArchive(params);
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-12">
+      <h1 className="text-3xl font-bold text-foreground mb-2">Newsletter archive</h1>
+      <p className="text-muted-foreground mb-6">
+        Every issue we&apos;ve sent, newest first.{" "}
+        <Link
+          href={feedUrl(audience)}
+          className="inline-flex items-center gap-1 text-royal hover:underline"
+        >
+          <Rss className="w-4 h-4" aria-hidden />
+          RSS feed
+        </Link>
+      </p>
+
+      <nav aria-label="Newsletter" className="mb-6 flex gap-2">
+        {(Object.keys(AUDIENCE_LABELS) as NewsletterAudience[]).map((a) => (
+          <Link
+            key={a}
+            href={a === "weekend" ? "/newsletter/archive" : `/newsletter/archive?audience=${a}`}
+            aria-current={a === audience ? "page" : undefined}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              a === audience
+                ? "bg-secondary text-secondary-foreground"
+                : "bg-muted text-foreground hover:bg-muted/70"
+            }`}
+          >
+            {AUDIENCE_LABELS[a]}
+          </Link>
+        ))}
+      </nav>
+
+      <form method="GET" action="/newsletter/archive" className="mb-8">
+        {audience !== "weekend" && <input type="hidden" name="audience" value={audience} />}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="search"
+            name="q"
+            defaultValue={q}
+            aria-label="Search past issues"
+            placeholder="Search past issues..."
+            className="w-full pl-10 pr-4 py-2 border border-border rounded-lg text-sm focus:ring-2 focus:ring-royal focus:border-royal"
+          />
+        </div>
+      </form>
+
+      {archive.issues.length === 0 ? (
+        <p className="text-muted-foreground">
+          {q ? <>No issues mention &ldquo;{q}&rdquo;.</> : "No issues have been sent yet."}
+        </p>
+      ) : (
+        <>
+          {q && (
+            <p className="mb-3 text-sm text-muted-foreground" role="status">
+              {archive.total.toLocaleString()} {archive.total === 1 ? "issue" : "issues"} mention
+              &ldquo;{q}&rdquo;
+            </p>
+          )}
+          <ul className="divide-y divide-border rounded-xl border border-border bg-card">
+            {archive.issues.map((issue) => (
+              <li key={issue.slug}>
+                <Link
+                  href={`/newsletter/${issue.slug}`}
+                  className="flex flex-col gap-1 px-5 py-4 hover:bg-muted transition-colors"
+                >
+                  <span className="font-medium text-foreground">{issue.subject}</span>
+                  {issue.sentAt && (
+                    <span className="text-sm text-muted-foreground">{fmtDate(issue.sentAt)}</span>
+                  )}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <Pagination
+        currentPage={archive.page}
+        totalPages={archive.totalPages}
+        basePath="/newsletter/archive"
+        searchParams={{
+          audience: audience === "weekend" ? undefined : audience,
+          q: q || undefined,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+export const dynamic = "force-dynamic";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { NEWSLETTER_NAME } from "@/lib/newsletter-masthead";
+import { issueExcerpt, parseArchiveAudience } from "@/lib/newsletter/archive";
+import { newsletterIssues } from "@/lib/db/schema";
+import { and, desc, eq, isNotNull } from "drizzle-orm";
+
+/**
+ * RSS for the sent newsletter issues — the weekend digest by default,
+ * `?audience=vendor` for New This Week. Same shape as /blog/feed.xml. The
+ * description is a plain-text lead from the sanitized issue, so no
+ * per-recipient link can reach a feed reader.
+ */
+
+const CHANNELS = {
+  weekend: {
+    title: `Meet Me at the Fair — ${NEWSLETTER_NAME}`,
+    description:
+      "Our weekly roundup of New England fairs, festivals, new vendors, and hidden gems.",
+  },
+  vendor: {
+    title: "Meet Me at the Fair — New This Week",
+    description:
+      "Shows newly added to Meet Me at the Fair each week, with time left to apply for a booth.",
+  },
+} as const;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export async function GET(request: Request) {
+  const db = getCloudflareDb();
+  const baseUrl = "https://meetmeatthefair.com";
+  const audience = parseArchiveAudience(
+    new URL(request.url).searchParams.get("audience") ?? undefined
+  );
+  const channel = CHANNELS[audience];
+  const selfUrl =
+    audience === "weekend"
+      ? `${baseUrl}/newsletter/feed.xml`
+      : `${baseUrl}/newsletter/feed.xml?audience=${audience}`;
+
+  const issues = await db
+    .select({
+      slug: newsletterIssues.slug,
+      subject: newsletterIssues.subject,
+      html: newsletterIssues.html,
+      sentAt: newsletterIssues.sentAt,
+    })
+    .from(newsletterIssues)
+    .where(and(isNotNull(newsletterIssues.sentAt), eq(newsletterIssues.audience, audience)))
+    .orderBy(desc(newsletterIssues.sentAt))
+    .limit(50);
+
+  const items = issues
+    .map((issue) => {
+      const link = `${baseUrl}/newsletter/${issue.slug}`;
+      return `    <item>
+      <title>${escapeXml(issue.subject)}</title>
+      <link>${link}</link>
+      <guid isPermaLink="true">${link}</guid>
+      <description>${escapeXml(issueExcerpt(issue.html, 500))}</description>
+      <pubDate>${(issue.sentAt ?? new Date()).toUTCString()}</pubDate>
+    </item>`;
+    })
+    .join("\n");
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(channel.title)}</title>
+    <link>${baseUrl}/newsletter/archive${audience === "weekend" ? "" : `?audience=${audience}`}</link>
+    <description>${escapeXml(channel.description)}</description>
+    <language>en-us</language>
+    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml" />
+${items}
+  </channel>
+</rss>`;
+
+  return new Response(xml, {
+    headers: {
+      "Content-Type": "application/rss+xml; charset=utf-8",
+      "Cache-Control": "public, max-age=3600, s-maxage=3600",
+    },
+  });
+}
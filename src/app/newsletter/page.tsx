@@ -39,7 +39,10 @@ export async function generateMetadata(): Promise<Metadata> {
   return {
     title: `${NEWSLETTER_NAME} — Newsletter Archive | Meet Me at the Fair`,
     description: `Past issues of ${NEWSLETTER_NAME}, the Meet Me at the Fair weekly newsletter — New England fairs, festivals, new vendors, and hidden gems. Read online and subscribe.`,
-    alternates: { canonical: "https://meetmeatthefair.com/newsletter" },
+    alternates: {
+      canonical: "https://meetmeatthefair.com/newsletter",
+      types: { "application/rss+xml": "https://meetmeatthefair.com/newsletter/feed.xml" },
+    },
     // Don't index an empty archive; index once there's at least one issue.
     robots: issues.length === 0 ? { index: false, follow: true } : undefined,
   };
@@ -93,6 +96,15 @@ export default async function NewsletterArchivePage() {
           ))}
         </ul>
       )}
+      <p className="mt-4 text-sm">
+        <Link href="/newsletter/archive" className="text-royal hover:underline">
+          Search every issue
+        </Link>{" "}
+        ·{" "}
+        <Link href="/newsletter/feed.xml" className="text-royal hover:underline">
+          RSS feed
+        </Link>
+      </p>
     </div>
   );
 }
@@ -0,0 +1,106 @@
+export const dynamic = "force-dynamic";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { AlertCircle } from "lucide-react";
+import { eq } from "drizzle-orm";
+import { getCloudflareDb, getCloudflareEnv } from "@/lib/cloudflare";
+import { newsletterSubscribers } from "@/lib/db/schema";
+import {
+  resolveUnsubscribeSecret,
+  verifyUnsubscribeToken,
+} from "@/lib/email/newsletter-unsubscribe-token";
+import { NEWSLETTER_NAME } from "@/lib/newsletter-masthead";
+import { NewsletterPreferencesForm } from "@/components/newsletter/newsletter-preferences-form";
+import { NEAR_DEFAULT_RADIUS_MILES } from "@takemetothefair/utils";
+import { parseJsonArray } from "@/types";
+
+/**
+ * drizzle/0237 — where a subscriber sets their home ZIP, radius and favorite
+ * kinds of events. Reached from the "Update your preferences" link in every
+ * newsletter footer, which carries the same signed token as the unsubscribe
+ * link; the save goes through /api/newsletter/preferences with it.
+ */
+
+export const metadata: Metadata = {
+  title: "Newsletter Preferences | Meet Me at the Fair",
+  description: `Choose what ${NEWSLETTER_NAME} shows you.`,
+  robots: { index: false, follow: false },
+};
+
+interface Props {
+  searchParams: Promise<{ token?: string }>;
+}
+
+async function getSubscriber(token: string) {
+  try {
+    const secret = resolveUnsubscribeSecret(
+      getCloudflareEnv() as unknown as Record<string, string | undefined>
+    );
+    if (!secret || !token) return null;
+    const email = await verifyUnsubscribeToken(token, secret);
+    if (!email) return null;
+    const [row] = await getCloudflareDb()
+      .select({
+        email: newsletterSubscribers.email,
+        homeZip: newsletterSubscribers.homeZip,
+        radiusMiles: newsletterSubscribers.radiusMiles,
+        categories: newsletterSubscribers.categories,
+      })
+      .from(newsletterSubscribers)
+      .where(eq(newsletterSubscribers.email, email))
+      .limit(1);
+    return row ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export default async function NewsletterPreferencesPage({ searchParams }: Props) {
+  const { token = "" } = await searchParams;
+  const subscriber = await getSubscriber(token);
+
+  if (!subscriber) {
+    return (
+      <div className="mx-auto max-w-2xl px-4 sm:px-6 lg:px-8 py-16">
+        <div className="rounded-xl border border-border bg-card p-8 text-center">
+          <div className="flex justify-center mb-4">
+            <AlertCircle className="w-12 h-12 text-red-600" aria-hidden="true" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-3">
+            This preferences link isn&apos;t valid
+          </h1>
+          <p className="text-muted-foreground mb-8">
+            Open &ldquo;Update your preferences&rdquo; straight from the bottom of any{" "}
+            {NEWSLETTER_NAME} email and make sure you copied the full link.
+          </p>
+          <Link
+            href="/"
+            className="inline-flex items-center px-5 py-2.5 bg-secondary text-secondary-foreground font-medium rounded-lg hover:bg-secondary/90 transition-colors"
+          >
+            Back to Meet Me at the Fair
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl px-4 sm:px-6 lg:px-8 py-16">
+      <div className="rounded-xl border border-border bg-card p-8">
+        <h1 className="text-2xl font-bold text-foreground mb-2">Your newsletter preferences</h1>
+        <p className="text-muted-foreground mb-6">
+          Tell us where you are and what you like, and {NEWSLETTER_NAME} will lead with the fairs
+          near you. Sending to <span className="font-medium">{subscriber.email}</span>.
+        </p>
+        <NewsletterPreferencesForm
+          token={token}
+          initial={{
+            zip: subscriber.homeZip ?? "",
+            radiusMiles: subscriber.radiusMiles ?? NEAR_DEFAULT_RADIUS_MILES,
+            categories: parseJsonArray(subscriber.categories),
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { ApplicationFormBuilder } from "@/components/promoters/application-form-builder";
+import { auth, hasRole } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { getPromoterOwnedEvent } from "@/lib/promoter/applications";
+import { loadApplicationForm } from "@/lib/application-forms/store";
+
+export const dynamic = "force-dynamic";
+
+export default async function PromoterEventApplicationFormPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const session = await auth();
+  if (!session) redirect("/login");
+  const { id } = await params;
+
+  const db = getCloudflareDb();
+  const event = await getPromoterOwnedEvent(db, {
+    eventId: id,
+    userId: session.user.id,
+    isAdmin: hasRole(session, "ADMIN"),
+    role: "VIEWER",
+  });
+  if (!event) notFound();
+
+  const form = await loadApplicationForm(db, event.id);
+
+  return (
+    <div className="max-w-3xl">
+      <Link
+        href={`/promoter/events/${event.id}/applications`}
+        className="inline-flex items-center gap-1 text-sm text-royal hover:text-navy mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" aria-hidden />
+        Vendor applications
+      </Link>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">Application form</h1>
+        <p className="mt-1 text-muted-foreground">
+          {event.name} — what vendors answer when they apply. Answers already submitted keep the
+          wording they were given under.
+        </p>
+      </div>
+
+      <ApplicationFormBuilder eventId={event.id} initialForm={form ?? { fields: [] }} />
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { ArrowLeft, ClipboardList, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ApplicationBoard } from "@/components/promoters/application-board";
+import { BoothCapacityForm } from "@/components/promoters/booth-capacity-form";
+import { auth, hasRole } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { getPromoterOwnedEvent, listEventApplications } from "@/lib/promoter/applications";
+import { listLiveOffers, loadBoothCapacity } from "@/lib/waitlist/promotion";
+
+export const dynamic = "force-dynamic";
+
+export default async function PromoterEventApplicationsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const session = await auth();
+  if (!session) redirect("/login");
+  const { id } = await params;
+
+  const db = getCloudflareDb();
+  const event = await getPromoterOwnedEvent(db, {
+    eventId: id,
+    userId: session.user.id,
+    isAdmin: hasRole(session, "ADMIN"),
+    role: "VIEWER",
+  });
+  if (!event) notFound();
+
+  const [applications, capacity, liveOffers] = await Promise.all([
+    listEventApplications(db, event.id),
+    loadBoothCapacity(db, event.id),
+    listLiveOffers(db, event.id),
+  ]);
+  const filled = applications.filter(
+    (a) => a.status === "APPROVED" || a.status === "CONFIRMED"
+  ).length;
+
+  return (
+    <div>
+      <Link
+        href="/promoter/events"
+        className="inline-flex items-center gap-1 text-sm text-royal hover:text-navy mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" aria-hidden />
+        My Events
+      </Link>
+      <div className="flex items-center justify-between mb-8 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Vendor applications</h1>
+          <p className="mt-1 text-muted-foreground">{event.name}</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href={`/promoter/events/${event.id}/application-form`}>
+            <Button variant="outline">
+              <ClipboardList className="w-4 h-4 mr-2" />
+              Application form
+            </Button>
+          </Link>
+          {applications.length > 0 && (
+            <a href={`/api/promoter/events/${event.id}/applications?format=csv`}>
+              <Button variant="outline">
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+            </a>
+          )}
+        </div>
+      </div>
+
+      <BoothCapacityForm
+        eventId={event.id}
+        initialCapacity={capacity?.capacity ?? null}
+        initialOfferHours={capacity?.offerHours ?? 48}
+        filled={filled}
+      />
+
+      <ApplicationBoard
+        eventId={event.id}
+        applications={applications.map((a) => ({
+          id: a.id,
+          businessName: a.businessName,
+          vendorSlug: a.vendorSlug,
+          vendorType: a.vendorType,
+          contactName: a.contactName,
+          contactEmail: a.contactEmail,
+          contactPhone: a.contactPhone,
+          status: a.status,
+          paymentStatus: a.paymentStatus,
+          boothInfo: a.boothInfo,
+          promoterNotes: a.promoterNotes,
+          answers: a.answers,
+          createdAt: a.createdAt ? a.createdAt.toISOString() : null,
+          offerExpiresAt: liveOffers.get(a.id)?.toISOString() ?? null,
+        }))}
+      />
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { WizardSteps, type WizardStep } from "@/components/ui/wizard-steps";
 import { DailyScheduleInput, type EventDayInput } from "@/components/events/DailyScheduleInput";
+import { RecurrenceRuleInput, type RecurrenceValue } from "@/components/events/RecurrenceRuleInput";
+import { parseRecurrenceExdates } from "@/lib/events/recurrence";
 import { VenueComboSearch } from "@/components/venue-combo-search";
 import { WelcomeBanner } from "@/components/onboarding/welcome-banner";
 import { STATES, STATE_CODES, type StateCode } from "@/lib/states";
@@ -104,6 +106,7 @@ function buildRequestBody(
   form: FormState,
   discontinuousDates: boolean,
   eventDays: EventDayInput[],
+  recurrence: RecurrenceValue,
   venueTimezone?: string
 ): Record<string, unknown> {
   let startDateISO: string | null = null;
@@ -141,6 +144,8 @@ function buildRequestBody(
     startDate: startDateISO,
     endDate: endDateISO,
     discontinuousDates,
+    recurrenceRule: recurrence.rule,
+    recurrenceExdates: recurrence.exdates,
     categories: form.categories
       .split(",")
       .map((c) => c.trim())
@@ -180,6 +185,9 @@ function CreateEventWizard() {
   const [form, setForm] = useState<FormState>(EMPTY_FORM);
   const [eventDays, setEventDays] = useState<EventDayInput[]>([]);
   const [discontinuousDates, setDiscontinuousDates] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceValue>({ rule: null, exdates: [] });
+  // Bumped to remount DailyScheduleInput when the recurrence rule replaces the schedule.
+  const [scheduleKey, setScheduleKey] = useState(0);
   const [draftId, setDraftId] = useState<string | null>(null);
   const [stageError, setStageError] = useState("");
   const [submitError, setSubmitError] = useState("");
@@ -271,6 +279,10 @@ function CreateEventWizard() {
         };
         setForm(prefillForm);
         setDiscontinuousDates(!!e.discontinuousDates);
+        setRecurrence({
+          rule: (e.recurrenceRule as string | null) ?? null,
+          exdates: parseRecurrenceExdates(e.recurrenceExdates as string | null),
+        });
         // DailyScheduleInput's EventDayInput expects non-null strings, but the
         // DB column is nullable — normalize here.
         setEventDays(
@@ -305,6 +317,25 @@ function CreateEventWizard() {
     setEventDays(days);
   }, []);
 
+  const handleUseRecurrenceDates = (dates: string[]) => {
+    const existing = new Map(eventDays.map((d) => [d.date, d]));
+    setDiscontinuousDates(true);
+    setEventDays(
+      dates.map(
+        (date) =>
+          existing.get(date) ?? {
+            date,
+            openTime: form.startTime || "09:00",
+            closeTime: form.endTime || "17:00",
+            notes: "",
+            closed: false,
+            vendorOnly: false,
+          }
+      )
+    );
+    setScheduleKey((k) => k + 1);
+  };
+
   // Validate the current stage and return the error string, or "" if OK.
   const validateStage = (): string => {
     if (stage === "basics") {
@@ -329,7 +360,7 @@ function CreateEventWizard() {
     try {
       const venueTimezone = venues.find((v) => v.id === form.venueId)?.timezone;
       const body = {
-        ...buildRequestBody(form, discontinuousDates, eventDays, venueTimezone),
+        ...buildRequestBody(form, discontinuousDates, eventDays, recurrence, venueTimezone),
         id: draftId ?? undefined,
         submit,
       };
@@ -618,6 +649,7 @@ function CreateEventWizard() {
               )}
 
               <DailyScheduleInput
+                key={scheduleKey}
                 startDate={startDateTimeStr}
                 endDate={endDateTimeStr}
                 initialDays={eventDays}
@@ -627,6 +659,18 @@ function CreateEventWizard() {
                 disabled={saving}
               />
 
+              <RecurrenceRuleInput
+                anchorDate={
+                  discontinuousDates
+                    ? (eventDays.map((d) => d.date).sort()[0] ?? null)
+                    : form.startDate || null
+                }
+                value={recurrence}
+                onChange={setRecurrence}
+                onUseDates={handleUseRecurrenceDates}
+                disabled={saving}
+              />
+
               <div className="border-t pt-4 mt-2">
                 <h3 className="font-medium text-sm text-foreground mb-3">Tickets</h3>
                 <div className="grid grid-cols-2 gap-4">
@@ -1,12 +1,23 @@
 import Link from "next/link";
 import { redirect } from "next/navigation";
-import { Plus, Eye, Pencil, Calendar, Copy, FileText, CheckCircle2 } from "lucide-react";
+import {
+  Plus,
+  Eye,
+  Pencil,
+  Calendar,
+  Copy,
+  FileText,
+  CheckCircle2,
+  Users,
+  Code,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { formatDate } from "@/lib/utils";
 import { auth } from "@/lib/auth";
 import { getCloudflareDb } from "@/lib/cloudflare";
+import { getMembership } from "@/lib/organizations/members";
 import { promoters, events, venues, eventVendors } from "@/lib/db/schema";
 import { eventVenueJoinProjection } from "@/lib/db/event-join-projection";
 import { eq, desc, inArray, sql } from "drizzle-orm";
@@ -14,6 +25,7 @@ import { AddToCalendar } from "@/components/events/AddToCalendar";
 import { logError } from "@/lib/logger";
 import { PUBLIC_VENDOR_STATUSES } from "@/lib/constants";
 import { chunkedInArray } from "@takemetothefair/utils";
+import { widgetSnippets } from "@/lib/widget/render";
 
 const statusColors: Record<string, "default" | "success" | "warning" | "danger" | "info"> = {
   DRAFT: "default",
@@ -42,16 +54,21 @@ interface PromoterEvent {
   };
 }
 
-async function getPromoterEvents(userId: string): Promise<PromoterEvent[]> {
+async function getPromoterEvents(
+  userId: string
+): Promise<{ promoterSlug: string | null; events: PromoterEvent[] }> {
   const db = getCloudflareDb();
 
   try {
+    const membership = await getMembership(db, userId, "PROMOTER");
+    if (!membership) return { promoterSlug: null, events: [] };
+
     const [promoter] = await db
       .select()
       .from(promoters)
-      .where(eq(promoters.userId, userId))
+      .where(eq(promoters.id, membership.entityId))
       .limit(1);
-    if (!promoter) return [];
+    if (!promoter) return { promoterSlug: null, events: [] };
 
     // Narrow projection — 62 + 7 = 69 cols (was 92).
     const rows = await db
@@ -61,7 +78,7 @@ async function getPromoterEvents(userId: string): Promise<PromoterEvent[]> {
       .where(eq(events.promoterId, promoter.id))
       .orderBy(desc(events.createdAt));
 
-    if (rows.length === 0) return [];
+    if (rows.length === 0) return { promoterSlug: promoter.slug, events: [] };
 
     const eventIds = rows.map((r) => r.events.id);
 
@@ -100,7 +117,7 @@ async function getPromoterEvents(userId: string): Promise<PromoterEvent[]> {
       countByEvent.set(row.eventId, entry);
     }
 
-    return rows.map((r) => ({
+    const promoterEvents = rows.map((r) => ({
       id: r.events.id,
       name: r.events.name,
       slug: r.events.slug,
@@ -113,6 +130,7 @@ async function getPromoterEvents(userId: string): Promise<PromoterEvent[]> {
       venueName: r.venue?.name || "Unknown",
       vendorCounts: countByEvent.get(r.events.id) ?? { applied: 0, confirmed: 0, total: 0 },
     }));
+    return { promoterSlug: promoter.slug, events: promoterEvents };
   } catch (e) {
     await logError(db, {
       message: "Error fetching promoter events",
@@ -120,7 +138,7 @@ async function getPromoterEvents(userId: string): Promise<PromoterEvent[]> {
       source: "app/promoter/events/page.tsx:getPromoterEvents",
       context: { userId },
     });
-    return [];
+    return { promoterSlug: null, events: [] };
   }
 }
 
@@ -130,7 +148,8 @@ export default async function PromoterEventsPage() {
   const session = await auth();
   if (!session) redirect("/login");
 
-  const allEvents = await getPromoterEvents(session.user.id);
+  const { promoterSlug, events: allEvents } = await getPromoterEvents(session.user.id);
+  const embed = promoterSlug ? widgetSnippets("promoter", promoterSlug) : null;
   const drafts = allEvents.filter((e) => e.status === "DRAFT");
   const submitted = allEvents.filter((e) => e.status !== "DRAFT");
 
@@ -248,9 +267,12 @@ export default async function PromoterEventsPage() {
                           )}
                           <span className="inline-flex items-center gap-2 text-xs">
                             {event.vendorCounts.applied > 0 && (
-                              <span className="inline-flex items-center gap-1 bg-amber-light text-amber-bg-fg px-2 py-0.5 rounded-full font-medium">
+                              <Link
+                                href={`/promoter/events/${event.id}/applications`}
+                                className="inline-flex items-center gap-1 bg-amber-light text-amber-bg-fg px-2 py-0.5 rounded-full font-medium hover:underline"
+                              >
                                 {event.vendorCounts.applied} applied
-                              </span>
+                              </Link>
                             )}
                             {event.vendorCounts.confirmed > 0 && (
                               <span className="inline-flex items-center gap-1 bg-sage-50 text-sage-700 px-2 py-0.5 rounded-full font-medium">
@@ -273,6 +295,14 @@ export default async function PromoterEventsPage() {
                             </Button>
                           </Link>
                         )}
+                        <Link
+                          href={`/promoter/events/${event.id}/applications`}
+                          aria-label="Review vendor applications"
+                        >
+                          <Button variant="ghost" size="sm">
+                            <Users className="w-4 h-4" />
+                          </Button>
+                        </Link>
                         <Link
                           href={`/promoter/events/new?duplicate=${event.id}`}
                           aria-label="Duplicate this event"
@@ -293,6 +323,34 @@ export default async function PromoterEventsPage() {
               </CardContent>
             </Card>
           )}
+
+          {embed && (
+            <Card>
+              <CardHeader>
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-foreground">
+                  <Code className="w-5 h-5" aria-hidden />
+                  Embed on your website
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  Paste this where your upcoming events should appear. It updates itself whenever
+                  your listings change here. Add <code>data-theme=&quot;dark&quot;</code>,{" "}
+                  <code>data-accent=&quot;c0392b&quot;</code> or{" "}
+                  <code>data-layout=&quot;compact&quot;</code> to match your site.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <pre className="overflow-x-auto rounded-md bg-stone-50 p-3 text-xs text-stone-800">
+                  <code>{embed.script}</code>
+                </pre>
+                <p className="text-sm text-muted-foreground">
+                  If your site builder strips scripts, use the plain iframe instead:
+                </p>
+                <pre className="overflow-x-auto rounded-md bg-stone-50 p-3 text-xs text-stone-800">
+                  <code>{embed.iframe}</code>
+                </pre>
+              </CardContent>
+            </Card>
+          )}
         </div>
       )}
     </div>
@@ -1,8 +1,10 @@
 import type { Metadata } from "next";
 import { redirect } from "next/navigation";
 import Link from "next/link";
-import { Calendar, Plus, Settings } from "lucide-react";
+import { Calendar, Plus, Settings, Users } from "lucide-react";
 import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { getMembership } from "@/lib/organizations/members";
 
 // OPE-87 — the promoter portal is private (auth-gated below). noindex makes that
 // protection robust at the app layer instead of relying on a robots.txt Disallow
@@ -15,6 +17,7 @@ export const metadata: Metadata = {
 const promoterNav = [
   { name: "My Events", href: "/promoter/events", icon: Calendar },
   { name: "Create Event", href: "/promoter/events/new", icon: Plus },
+  { name: "Team", href: "/promoter/members", icon: Users },
   { name: "Settings", href: "/dashboard/settings", icon: Settings },
 ];
 
@@ -25,7 +28,14 @@ export default async function PromoterLayout({ children }: { children: React.Rea
     redirect("/login?callbackUrl=/promoter/events");
   }
 
-  if (session.user.role !== "PROMOTER" && session.user.role !== "ADMIN") {
+  // Team members hold the PROMOTER grant in user_roles, but the JWT only picks it
+  // up at their next sign-in — so someone who accepted an invite a minute ago
+  // is let in on the membership row itself.
+  if (
+    session.user.role !== "PROMOTER" &&
+    session.user.role !== "ADMIN" &&
+    !(await getMembership(getCloudflareDb(), session.user.id, "PROMOTER"))
+  ) {
     redirect("/dashboard");
   }
 
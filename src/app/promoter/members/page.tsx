@@ -0,0 +1,5 @@
+import { TeamMembersPanel } from "@/components/organizations/team-members-panel";
+
+export default function PromoterMembersPage() {
+  return <TeamMembersPanel kind="promoter" />;
+}
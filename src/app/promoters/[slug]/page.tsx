@@ -42,6 +42,8 @@ import { auth } from "@/lib/auth";
 import { unsafeSlug } from "@/lib/utils";
 import { buildPromoterMetaDescription } from "@/lib/seo-utils";
 import { cdnImage, OG_EVENT, focalPointGravity } from "@/lib/cdn-image";
+import { SubscribeCalendarLink } from "@/components/events/subscribe-calendar-link";
+import { feedAlternates } from "@/lib/event-feeds/render";
 
 export const revalidate = 300; // 5-minute ISR
 
@@ -158,7 +160,13 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   return {
     title,
     description,
-    alternates: { canonical: url },
+    alternates: {
+      canonical: url,
+      types: feedAlternates(
+        `/api/feeds/promoters/${promoter.slug}`,
+        `${promoter.companyName} — Meet Me at the Fair`
+      ),
+    },
     openGraph: {
       title: promoter.companyName,
       description,
@@ -305,6 +313,10 @@ export default async function PromoterDetailPage({ params }: Props) {
                   <Calendar className="w-6 h-6" />
                   Upcoming events
                 </h2>
+                <SubscribeCalendarLink
+                  feedPath={`/api/calendar/promoters/${promoter.slug}`}
+                  className="mb-4"
+                />
                 <EventList events={promoter.upcomingEvents} />
               </section>
             )}
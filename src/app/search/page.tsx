@@ -4,7 +4,7 @@ import Image from "next/image";
 import { Calendar, MapPin, Store, FileText, HelpCircle, Search } from "lucide-react";
 import { getCloudflareDb } from "@/lib/cloudflare";
 import { events, venues, vendors, blogPosts, users } from "@/lib/db/schema";
-import { and, eq, sql, desc, inArray, isNull } from "drizzle-orm";
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
 import { isPublicEventStatus } from "@/lib/event-status";
 import {
   collectBrandParentIdsToLoad,
@@ -12,13 +12,15 @@ import {
   type GroupableVendor,
 } from "@/lib/vendor-listing-grouping";
 import { upcomingEndPredicate } from "@/lib/event-dates";
-import { formatDateRange, sanitizeLikeInput } from "@/lib/utils";
+import { formatDateRange } from "@/lib/utils";
 import { formatDateMedium } from "@/lib/datetime";
 import { Card } from "@/components/ui/card";
 import { extractFirstImage } from "@/lib/markdown-utils";
 import { searchHelpArticles } from "@/lib/help-articles";
 import { logError } from "@/lib/logger";
 import { SearchResultsTracker } from "@/components/search/SearchResultsTracker";
+import { HighlightedText } from "@/components/search/HighlightedText";
+import { buildSearchMatch, searchSection } from "@/lib/search/fts";
 
 export const metadata: Metadata = {
   title: "Search Results | Meet Me at the Fair",
@@ -33,6 +35,26 @@ interface SearchPageProps {
 
 export const dynamic = "force-dynamic";
 
+const VENDOR_COLUMNS = {
+  id: vendors.id,
+  businessName: vendors.businessName,
+  // EH2.1 — surface display_name so the result card can render the brand
+  // surface (e.g. "LeafFilter" not "LeafFilter North LLC").
+  displayName: vendors.displayName,
+  slug: vendors.slug,
+  vendorType: vendors.vendorType,
+  logoUrl: vendors.logoUrl,
+  // EH2-A6 (2026-06-13) — hierarchy fields for the brand-parent dedup
+  // applied below, mirroring /api/search.
+  role: vendors.role,
+  brandParentVendorId: vendors.brandParentVendorId,
+  operatorParentVendorId: vendors.operatorParentVendorId,
+  aliasOfVendorId: vendors.aliasOfVendorId,
+  displayOverridePermitted: vendors.displayOverridePermitted,
+  displayMode: vendors.displayMode,
+  defaultChildDisplay: vendors.defaultChildDisplay,
+};
+
 export default async function SearchPage({ searchParams }: SearchPageProps) {
   const params = await searchParams;
   const q = (params.q ?? params.query)?.trim() || "";
@@ -53,111 +75,118 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
 
   const db = getCloudflareDb();
   // SEARCH1-class hardening (mirror of /api/search, 2026-06-13): cap the query
-  // length and escape LIKE metacharacters before building the pattern. An
-  // unanchored `%…%` over very long input trips SQLite's pattern-complexity
-  // limit — especially against large text columns — and 500s the whole page.
+  // length. The sections read the FTS index (see /api/search for how each
+  // section builds its match), which takes no LIKE pattern, so the cap only
+  // bounds input now.
   const MAX_QUERY_LENGTH = 100;
-  const searchTerm = `%${sanitizeLikeInput(q.slice(0, MAX_QUERY_LENGTH))}%`;
+  const term = q.slice(0, MAX_QUERY_LENGTH);
+  const eventMatch = buildSearchMatch(term, { categories: true });
+  const placeMatch = buildSearchMatch(term);
+  const blogMatch = buildSearchMatch(term, { detectState: false });
+  // A trailing state in the query ("blueberry connecticut") narrows events
+  // the same way the region selector does; an explicit ?state= wins.
+  const eventStateFilter =
+    stateFilter ?? (eventMatch?.stateCode ? eq(events.stateCode, eventMatch.stateCode) : undefined);
+  const now = new Date();
 
   // Promise.allSettled (not Promise.all) so one failing section degrades to
   // empty for that section instead of 500-ing the entire page.
   const [eventsSettled, venuesSettled, vendorsSettled, blogSettled] = await Promise.allSettled([
-    db
-      .select({
-        name: events.name,
-        slug: events.slug,
-        startDate: events.startDate,
-        endDate: events.endDate,
-        imageUrl: events.imageUrl,
-        categories: events.categories,
-      })
-      .from(events)
-      .where(
-        and(
+    searchSection(
+      db,
+      eventMatch && {
+        entity: "event",
+        match: eventMatch.match,
+        where: and(
           isPublicEventStatus(),
           // A2 (Dev backlog 2026-06-05): 24h end-of-day grace per upcomingEndPredicate.
-          upcomingEndPredicate(new Date()),
-          sql`(LOWER(${events.name}) LIKE LOWER(${searchTerm}) OR LOWER(${events.description}) LIKE LOWER(${searchTerm}))`,
+          upcomingEndPredicate(now),
           // OPE-172 — honor the homepage region selector (undefined = all NE).
-          stateFilter
-        )
-      )
-      .orderBy(events.startDate)
-      .limit(12),
+          eventStateFilter
+        ),
+        limit: 12,
+        now,
+      },
+      (ids) =>
+        db
+          .select({
+            id: events.id,
+            name: events.name,
+            slug: events.slug,
+            startDate: events.startDate,
+            endDate: events.endDate,
+            imageUrl: events.imageUrl,
+            categories: events.categories,
+          })
+          .from(events)
+          .where(inArray(events.id, ids))
+    ),
 
-    db
-      .select({
-        name: venues.name,
-        slug: venues.slug,
-        city: venues.city,
-        state: venues.state,
-        imageUrl: venues.imageUrl,
-      })
-      .from(venues)
-      .where(
-        and(
+    searchSection(
+      db,
+      placeMatch && {
+        entity: "venue",
+        match: placeMatch.match,
+        where: and(
           eq(venues.status, "ACTIVE"),
-          sql`(LOWER(${venues.name}) LIKE LOWER(${searchTerm}) OR LOWER(${venues.city}) LIKE LOWER(${searchTerm}))`
-        )
-      )
-      .orderBy(venues.name)
-      .limit(12),
+          placeMatch.stateCode ? sql`UPPER(${venues.state}) = ${placeMatch.stateCode}` : undefined
+        ),
+        limit: 12,
+      },
+      (ids) =>
+        db
+          .select({
+            id: venues.id,
+            name: venues.name,
+            slug: venues.slug,
+            city: venues.city,
+            state: venues.state,
+            imageUrl: venues.imageUrl,
+          })
+          .from(venues)
+          .where(inArray(venues.id, ids))
+    ),
 
-    db
-      .select({
-        id: vendors.id,
-        businessName: vendors.businessName,
-        // EH2.1 — surface display_name so the result card can render the
-        // brand surface (e.g. "LeafFilter" not "LeafFilter North LLC").
-        displayName: vendors.displayName,
-        slug: vendors.slug,
-        vendorType: vendors.vendorType,
-        logoUrl: vendors.logoUrl,
-        // EH2-A6 (2026-06-13) — hierarchy fields for the brand-parent dedup
-        // applied below, mirroring /api/search. Over-fetch (15) so the dedup
-        // leaves room for ~12 distinct cards.
-        role: vendors.role,
-        brandParentVendorId: vendors.brandParentVendorId,
-        operatorParentVendorId: vendors.operatorParentVendorId,
-        aliasOfVendorId: vendors.aliasOfVendorId,
-        displayOverridePermitted: vendors.displayOverridePermitted,
-        displayMode: vendors.displayMode,
-        defaultChildDisplay: vendors.defaultChildDisplay,
-      })
-      .from(vendors)
-      .where(
-        // Match against either business_name OR display_name OR description
-        // so brand-name searches surface a row even when only the override
-        // matches.
-        sql`(LOWER(${vendors.businessName}) LIKE LOWER(${searchTerm}) OR LOWER(COALESCE(${vendors.displayName}, '')) LIKE LOWER(${searchTerm}) OR LOWER(${vendors.description}) LIKE LOWER(${searchTerm}))`
-      )
-      .orderBy(vendors.businessName)
-      .limit(15),
+    // The index matches business name, display name, description, vendor
+    // type and products, so brand-name searches surface a row even when only
+    // the override matches.
+    searchSection(
+      db,
+      placeMatch && {
+        entity: "vendor",
+        match: placeMatch.match,
+        where: isNull(vendors.deletedAt),
+        // EH2-A6 — over-fetch (15) so the dedup leaves room for ~12 distinct cards.
+        limit: 15,
+      },
+      (ids) => db.select(VENDOR_COLUMNS).from(vendors).where(inArray(vendors.id, ids))
+    ),
 
-    db
-      .select({
-        title: blogPosts.title,
-        slug: blogPosts.slug,
-        excerpt: blogPosts.excerpt,
-        body: blogPosts.body,
-        featuredImageUrl: blogPosts.featuredImageUrl,
-        publishDate: blogPosts.publishDate,
-        authorName: users.name,
-      })
-      .from(blogPosts)
-      .leftJoin(users, eq(blogPosts.authorId, users.id))
-      .where(
-        and(
-          eq(blogPosts.status, "PUBLISHED"),
-          // SEARCH1: match title + excerpt, NOT the full-markdown body — the
-          // body LIKE was the pattern-complexity trigger. body is still
-          // SELECTed above for the card thumbnail (extractFirstImage), just
-          // no longer matched against. COALESCE because some posts have NULL excerpt.
-          sql`(LOWER(${blogPosts.title}) LIKE LOWER(${searchTerm}) OR LOWER(COALESCE(${blogPosts.excerpt}, '')) LIKE LOWER(${searchTerm}))`
-        )
-      )
-      .orderBy(desc(blogPosts.publishDate))
-      .limit(12),
+    searchSection(
+      db,
+      blogMatch && {
+        entity: "blog",
+        match: blogMatch.match,
+        where: eq(blogPosts.status, "PUBLISHED"),
+        limit: 12,
+      },
+      (ids) =>
+        db
+          .select({
+            id: blogPosts.id,
+            title: blogPosts.title,
+            slug: blogPosts.slug,
+            excerpt: blogPosts.excerpt,
+            // SELECTed for the card thumbnail (extractFirstImage).
+            body: blogPosts.body,
+            featuredImageUrl: blogPosts.featuredImageUrl,
+            publishDate: blogPosts.publishDate,
+            authorName: users.name,
+          })
+          .from(blogPosts)
+          .leftJoin(users, eq(blogPosts.authorId, users.id))
+          .where(inArray(blogPosts.id, ids))
+    ),
   ]);
 
   // Log any per-section failure as `warn` (the page still rendered), then fall
@@ -194,7 +223,12 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
   // of its offices. The grouper also drops self-mode brand hubs (noindex,
   // follow surfaces — irrelevant in search). Reuses the shared pure helper so
   // all three surfaces stay in lock-step.
-  const matchedById = new Map(vendorMatches.map((v) => [v.id, v]));
+  const matchedById = new Map<
+    string,
+    Omit<(typeof vendorMatches)[number], "highlight" | "snippet">
+  >(vendorMatches.map((v) => [v.id, v]));
+  // Brand parents loaded below weren't hits themselves, so have no highlight.
+  const vendorHighlights = new Map(vendorMatches.map((v) => [v.id, v.highlight]));
   const matchedAsGroupable: GroupableVendor[] = vendorMatches.map((v) => ({
     id: v.id,
     role: v.role,
@@ -212,21 +246,7 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
   const extraBrandRows =
     missingBrandIds.length > 0
       ? await db
-          .select({
-            id: vendors.id,
-            businessName: vendors.businessName,
-            displayName: vendors.displayName,
-            slug: vendors.slug,
-            vendorType: vendors.vendorType,
-            logoUrl: vendors.logoUrl,
-            role: vendors.role,
-            brandParentVendorId: vendors.brandParentVendorId,
-            operatorParentVendorId: vendors.operatorParentVendorId,
-            aliasOfVendorId: vendors.aliasOfVendorId,
-            displayOverridePermitted: vendors.displayOverridePermitted,
-            displayMode: vendors.displayMode,
-            defaultChildDisplay: vendors.defaultChildDisplay,
-          })
+          .select(VENDOR_COLUMNS)
           .from(vendors)
           .where(and(inArray(vendors.id, missingBrandIds), isNull(vendors.deletedAt)))
       : [];
@@ -278,6 +298,7 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
         slug: row.slug,
         vendorType: row.vendorType,
         logoUrl: row.logoUrl,
+        highlight: vendorHighlights.get(row.id),
       };
     })
     .filter((x): x is NonNullable<typeof x> => x !== null);
@@ -345,10 +366,17 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
               {eventResults.map((event) => (
                 <Link key={event.slug} href={`/events/${event.slug}`}>
                   <Card className="p-4 hover:shadow-md transition-shadow h-full">
-                    <h3 className="font-medium text-navy">{event.name}</h3>
+                    <h3 className="font-medium text-navy">
+                      <HighlightedText segments={event.highlight} fallback={event.name} />
+                    </h3>
                     <p className="text-sm text-muted-foreground mt-1">
                       {formatDateRange(event.startDate, event.endDate)}
                     </p>
+                    {event.snippet.length > 0 && (
+                      <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                        <HighlightedText segments={event.snippet} fallback="" />
+                      </p>
+                    )}
                   </Card>
                 </Link>
               ))}
@@ -381,10 +409,17 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
                         </div>
                       )}
                       <div className="p-4">
-                        <h3 className="font-medium text-navy">{post.title}</h3>
-                        {post.excerpt && (
+                        <h3 className="font-medium text-navy">
+                          <HighlightedText segments={post.highlight} fallback={post.title} />
+                        </h3>
+                        {/* Where the body matched, show that passage;
+                            otherwise the excerpt. */}
+                        {(post.snippet.length > 0 || post.excerpt) && (
                           <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
-                            {post.excerpt}
+                            <HighlightedText
+                              segments={post.snippet}
+                              fallback={post.excerpt ?? ""}
+                            />
                           </p>
                         )}
                         <div className="flex items-center gap-3 text-xs text-muted-foreground mt-2">
@@ -411,7 +446,9 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
               {venueResults.map((venue) => (
                 <Link key={venue.slug} href={`/venues/${venue.slug}`}>
                   <Card className="p-4 hover:shadow-md transition-shadow h-full">
-                    <h3 className="font-medium text-navy">{venue.name}</h3>
+                    <h3 className="font-medium text-navy">
+                      <HighlightedText segments={venue.highlight} fallback={venue.name} />
+                    </h3>
                     {(venue.city || venue.state) && (
                       <p className="text-sm text-muted-foreground mt-1">
                         {[venue.city, venue.state].filter(Boolean).join(", ")}
@@ -436,7 +473,10 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
                 <Link key={vendor.slug} href={`/vendors/${vendor.slug}`}>
                   <Card className="p-4 hover:shadow-md transition-shadow h-full">
                     <h3 className="font-medium text-navy">
-                      {vendor.displayName ?? vendor.businessName}
+                      <HighlightedText
+                        segments={vendor.highlight}
+                        fallback={vendor.displayName ?? vendor.businessName}
+                      />
                     </h3>
                     {vendor.vendorType && (
                       <p className="text-sm text-muted-foreground mt-1">{vendor.vendorType}</p>
@@ -163,6 +163,19 @@ function buildStaticUrls(): SitemapUrl[] {
       changeFrequency: "weekly",
       priority: 0.6,
     },
+    {
+      url: `${SITEMAP_BASE_URL}/newsletter/vendor`,
+      lastModified: NOW(),
+      changeFrequency: "weekly",
+      priority: 0.5,
+    },
+    {
+      // The paged back catalog; its vendor tab is a query on the same URL.
+      url: `${SITEMAP_BASE_URL}/newsletter/archive`,
+      lastModified: NOW(),
+      changeFrequency: "weekly",
+      priority: 0.5,
+    },
     {
       url: `${SITEMAP_BASE_URL}/about`,
       lastModified: NOW(),
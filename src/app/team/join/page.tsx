@@ -0,0 +1,69 @@
+export const dynamic = "force-dynamic";
+
+import { redirect } from "next/navigation";
+import type { Metadata } from "next";
+import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { Card, CardContent } from "@/components/ui/card";
+import { AcceptInviteButton } from "@/components/organizations/accept-invite-button";
+import { findOpenInvite } from "@/lib/organizations/invites";
+import { getOrganizationSummary, ORGANIZATION_ROLE_LABELS } from "@/lib/organizations/members";
+
+// The link carries a single-use token — keep it out of the index.
+export const metadata: Metadata = {
+  title: "Join a team | Meet Me at the Fair",
+  robots: { index: false, follow: false },
+};
+
+interface Props {
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function TeamJoinPage({ searchParams }: Props) {
+  const { token } = await searchParams;
+  const session = await auth();
+  if (!session) {
+    redirect(`/login?callbackUrl=${encodeURIComponent(`/team/join?token=${token ?? ""}`)}`);
+  }
+
+  const db = getCloudflareDb();
+  const found = token ? await findOpenInvite(db, token) : null;
+  const organization =
+    found?.ok && (await getOrganizationSummary(db, found.invite.entityType, found.invite.entityId));
+
+  return (
+    <div className="mx-auto max-w-xl px-4 sm:px-6 py-12">
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          {found?.ok && organization ? (
+            <>
+              <h1 className="text-2xl font-bold text-foreground">Join {organization.name}</h1>
+              <p className="text-muted-foreground">
+                You&apos;ve been invited to help manage <strong>{organization.name}</strong> as a{" "}
+                <strong>{ORGANIZATION_ROLE_LABELS[found.invite.role]}</strong>.
+              </p>
+              {session.user.email?.toLowerCase() !== found.invite.email ? (
+                <p className="rounded-md border border-amber/40 bg-amber/10 p-3 text-sm text-foreground">
+                  This invitation was sent to <strong>{found.invite.email}</strong>, but you&apos;re
+                  signed in as <strong>{session.user.email}</strong>. Sign in with the invited
+                  address to accept it.
+                </p>
+              ) : (
+                <AcceptInviteButton token={token as string} />
+              )}
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold text-foreground">Invitation unavailable</h1>
+              <p className="text-muted-foreground">
+                {found && !found.ok && found.reason === "expired"
+                  ? "This invitation has expired. Ask the owner to send a new one."
+                  : "This invitation has already been used or was withdrawn."}
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -12,6 +12,14 @@ import {
 import { isPubliclyVisibleVendorLink } from "@/lib/vendor-status";
 import { isPublicEventStatus } from "@/lib/event-status";
 import { upcomingEndPredicate } from "@/lib/event-dates";
+import {
+  distanceFrom,
+  distanceSquaredSql,
+  resolveNearSearch,
+  withinRadius,
+  type NearSearch,
+} from "@/lib/near-search";
+import { NEAR_DEFAULT_RADIUS_MILES, NEAR_RADIUS_OPTIONS } from "@takemetothefair/utils";
 import { auth } from "@/lib/auth";
 import { VendorsView } from "@/components/vendors/vendors-view";
 import { logError } from "@/lib/logger";
@@ -74,10 +82,20 @@ interface SearchParams {
   favorites?: string;
   hasEvents?: string;
   q?: string;
+  /** Radius search center, "lat,lng". */
+  near?: string;
+  /** Radius search center as a US ZIP; wins over `near`. */
+  zip?: string;
+  /** Radius in miles for `near`/`zip`; defaults to 25. */
+  radius?: string;
   page?: string;
 }
 
-async function getVendors(searchParams: SearchParams, favoriteUserId?: string) {
+async function getVendors(
+  searchParams: SearchParams,
+  favoriteUserId?: string,
+  near?: NearSearch | null
+) {
   const db = getCloudflareDb();
 
   try {
@@ -97,14 +115,24 @@ async function getVendors(searchParams: SearchParams, favoriteUserId?: string) {
     } else if (searchParams.favorites === "true" && !favoriteUserId) {
       return [];
     }
+    // Radius search on the vendor's own (Google Places) coordinates,
+    // nearest first (drizzle/0235).
+    if (near) {
+      conditions.push(withinRadius(vendors.latitude, vendors.longitude, near));
+    }
 
-    // Query 1: Get all vendors (filtered by deleted_at + optional type/favorites)
+    // Query 1: Get all vendors (filtered by deleted_at + optional type/favorites/radius)
     const vendorQuery = db
       .select()
       .from(vendors)
       .leftJoin(users, eq(vendors.userId, users.id))
       .where(and(...conditions))
-      .orderBy(vendors.businessName);
+      .orderBy(
+        ...(near
+          ? [asc(distanceSquaredSql(vendors.latitude, vendors.longitude, near.center))]
+          : []),
+        vendors.businessName
+      );
 
     let vendorResults = await vendorQuery;
 
@@ -372,6 +400,10 @@ async function getVendors(searchParams: SearchParams, favoriteUserId?: string) {
           verifiedPro: v.verifiedPro,
           city: v.city,
           state: v.state,
+          // A collapsed brand card renders the brand row, which may sit
+          // outside the radius (or have no coordinates) even though an
+          // office matched — null then, and it sorts after the placed rows.
+          distanceMiles: near ? distanceFrom(near.center, v.latitude, v.longitude) : null,
           // EH2.2 — flag set on brand-collapsed cards so the UI can show
           // a subtle "X offices" indicator if/when we want one. v1 leaves
           // the card visually identical; the flag is plumbing for v2.
@@ -405,6 +437,12 @@ async function getVendors(searchParams: SearchParams, favoriteUserId?: string) {
       result = result.filter((v) => v.events.length > 0);
     }
 
+    // Grouping keeps match order, but a collapsed brand card takes its
+    // first office's slot; re-sort on the distance the card actually shows.
+    if (near) {
+      result.sort((a, b) => (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity));
+    }
+
     return result;
   } catch (e) {
     await logError(db, {
@@ -499,9 +537,11 @@ export default async function VendorsPage({
   const isLoggedIn = !!session?.user?.id;
 
   const favoriteUserId = isLoggedIn && params.favorites === "true" ? session.user.id : undefined;
+  const nearResult = await resolveNearSearch(getCloudflareDb(), params);
+  const near = nearResult.search;
 
   const [vendorList, vendorTypes, featuredVendors] = await Promise.all([
-    getVendors(params, favoriteUserId),
+    getVendors(params, favoriteUserId, near),
     getVendorTypes(),
     getFeaturedVendors(params.type),
   ]);
@@ -511,7 +551,10 @@ export default async function VendorsPage({
   const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
   const pageVendors = vendorList.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
 
-  const hasFilters = params.type || params.q || params.favorites || params.hasEvents;
+  const hasFilters =
+    params.type || params.q || params.favorites || params.hasEvents || params.near || params.zip;
+  // Carried through every filter link so changing the type keeps the radius.
+  const nearParams = { near: params.near, zip: params.zip, radius: params.radius };
   const showingFavorites = params.favorites === "true";
   const showingWithEvents = params.hasEvents === "true";
 
@@ -584,6 +627,7 @@ export default async function VendorsPage({
                   {params.favorites && (
                     <input type="hidden" name="favorites" value={params.favorites} />
                   )}
+                  {params.near && <input type="hidden" name="near" value={params.near} />}
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                     <input
@@ -594,6 +638,43 @@ export default async function VendorsPage({
                       className="w-full pl-10 pr-4 py-2 border border-border rounded-lg text-sm focus:ring-2 focus:ring-royal focus:border-royal"
                     />
                   </div>
+                  <label
+                    htmlFor="vendors-zip"
+                    className="block text-sm font-medium text-stone-900 mt-3 mb-1"
+                  >
+                    Near ZIP code
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      id="vendors-zip"
+                      type="text"
+                      name="zip"
+                      inputMode="numeric"
+                      autoComplete="postal-code"
+                      maxLength={10}
+                      defaultValue={params.zip || ""}
+                      placeholder="e.g. 04101"
+                      className="min-w-0 flex-1 px-3 py-2 border border-border rounded-lg text-sm focus:ring-2 focus:ring-royal focus:border-royal"
+                    />
+                    <select
+                      name="radius"
+                      aria-label="Distance"
+                      defaultValue={params.radius || String(NEAR_DEFAULT_RADIUS_MILES)}
+                      className="px-2 py-2 border border-border rounded-lg text-sm focus:ring-2 focus:ring-royal focus:border-royal"
+                    >
+                      {NEAR_RADIUS_OPTIONS.map((miles) => (
+                        <option key={miles} value={miles}>
+                          {miles} mi
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    type="submit"
+                    className="mt-3 w-full px-4 py-2 text-sm font-medium rounded-lg bg-secondary text-secondary-foreground hover:bg-secondary/90 transition-colors"
+                  >
+                    Search
+                  </button>
                 </form>
               </div>
 
@@ -602,7 +683,7 @@ export default async function VendorsPage({
                 <h3 className="font-medium text-foreground mb-3">Filter by Type</h3>
                 <div className="space-y-2 max-h-64 overflow-y-auto">
                   <Link
-                    href={`/vendors${buildQueryString({ q: params.q, hasEvents: params.hasEvents, favorites: params.favorites })}`}
+                    href={`/vendors${buildQueryString({ q: params.q, hasEvents: params.hasEvents, favorites: params.favorites, ...nearParams })}`}
                     className={`block px-3 py-2 rounded-lg text-sm ${
                       !params.type
                         ? "bg-amber-light text-amber-bg-fg font-medium"
@@ -614,7 +695,7 @@ export default async function VendorsPage({
                   {vendorTypes.map((type) => (
                     <Link
                       key={type}
-                      href={`/vendors${buildQueryString({ type, q: params.q, hasEvents: params.hasEvents, favorites: params.favorites })}`}
+                      href={`/vendors${buildQueryString({ type, q: params.q, hasEvents: params.hasEvents, favorites: params.favorites, ...nearParams })}`}
                       className={`block px-3 py-2 rounded-lg text-sm ${
                         params.type === type
                           ? "bg-amber-light text-amber-bg-fg font-medium"
@@ -632,7 +713,7 @@ export default async function VendorsPage({
                 <h3 className="font-medium text-foreground mb-3">Events</h3>
                 {showingWithEvents ? (
                   <Link
-                    href={`/vendors${buildQueryString({ type: params.type, q: params.q, favorites: params.favorites })}`}
+                    href={`/vendors${buildQueryString({ type: params.type, q: params.q, favorites: params.favorites, ...nearParams })}`}
                     className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm bg-green-50 text-green-700 font-medium"
                   >
                     <Calendar className="w-4 h-4" />
@@ -640,7 +721,7 @@ export default async function VendorsPage({
                   </Link>
                 ) : (
                   <Link
-                    href={`/vendors${buildQueryString({ type: params.type, q: params.q, hasEvents: "true", favorites: params.favorites })}`}
+                    href={`/vendors${buildQueryString({ type: params.type, q: params.q, hasEvents: "true", favorites: params.favorites, ...nearParams })}`}
                     className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-muted-foreground hover:bg-muted"
                   >
                     <Calendar className="w-4 h-4" />
@@ -655,7 +736,7 @@ export default async function VendorsPage({
                   <h3 className="font-medium text-foreground mb-3">Favorites</h3>
                   {showingFavorites ? (
                     <Link
-                      href={`/vendors${buildQueryString({ type: params.type, q: params.q, hasEvents: params.hasEvents })}`}
+                      href={`/vendors${buildQueryString({ type: params.type, q: params.q, hasEvents: params.hasEvents, ...nearParams })}`}
                       className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm bg-pink-50 text-pink-700 font-medium"
                     >
                       <Heart className="w-4 h-4 fill-current" />
@@ -663,7 +744,7 @@ export default async function VendorsPage({
                     </Link>
                   ) : (
                     <Link
-                      href={`/vendors${buildQueryString({ type: params.type, q: params.q, hasEvents: params.hasEvents, favorites: "true" })}`}
+                      href={`/vendors${buildQueryString({ type: params.type, q: params.q, hasEvents: params.hasEvents, favorites: "true", ...nearParams })}`}
                       className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-muted-foreground hover:bg-muted"
                     >
                       <Heart className="w-4 h-4" />
@@ -688,6 +769,27 @@ export default async function VendorsPage({
         </aside>
 
         <main className="lg:col-span-3">
+          {near && (
+            <div className="mb-4 flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Filtered to:</span>
+              <span className="inline-flex items-center gap-1.5 rounded-full border border-amber/40 bg-amber-light py-1 pl-3 pr-1.5 text-sm font-semibold text-secondary">
+                Within {near.radiusMiles} mi of {near.label ?? "your location"}
+                <Link
+                  href={`/vendors${buildQueryString({ type: params.type, q: params.q, hasEvents: params.hasEvents, favorites: params.favorites })}`}
+                  aria-label="Clear distance filter"
+                  className="inline-flex items-center justify-center rounded-full p-0.5 text-secondary/70 hover:bg-secondary/10 hover:text-secondary"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Link>
+              </span>
+            </div>
+          )}
+          {nearResult.unknownZip && (
+            <p className="mb-4 text-sm text-muted-foreground" role="status">
+              We couldn&apos;t find ZIP code &ldquo;{nearResult.unknownZip}&rdquo;, so results
+              aren&apos;t limited by distance.
+            </p>
+          )}
           <VendorsView
             vendors={pageVendors}
             emptyMessage={
@@ -707,6 +809,7 @@ export default async function VendorsPage({
               favorites: params.favorites,
               hasEvents: params.hasEvents,
               q: params.q,
+              ...nearParams,
             }}
           />
         </main>
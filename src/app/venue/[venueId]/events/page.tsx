@@ -0,0 +1,129 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { Calendar } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { formatDateRange } from "@/lib/utils";
+import { displayVenueName } from "@/lib/venue-display";
+import { getOwnedVenue, listVenueEvents, type VenueEventRow } from "@/lib/venues/owner";
+
+export const dynamic = "force-dynamic";
+
+const statusColors: Record<string, "default" | "success" | "warning" | "danger" | "info"> = {
+  PENDING: "warning",
+  TENTATIVE: "warning",
+  APPROVED: "success",
+  CANCELLED: "default",
+};
+
+// Only these have a public event page to link to.
+const LINKABLE = new Set(["APPROVED", "TENTATIVE"]);
+
+function EventRows({ rows }: { rows: VenueEventRow[] }) {
+  return (
+    <div className="divide-y divide-stone-100">
+      {rows.map((event) => (
+        <div key={event.id} className="py-4 flex items-start justify-between gap-4">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-3 flex-wrap">
+              {LINKABLE.has(event.status) ? (
+                <Link
+                  href={`/events/${event.slug}`}
+                  className="font-medium text-foreground hover:text-navy"
+                >
+                  {event.name}
+                </Link>
+              ) : (
+                <h3 className="font-medium text-foreground">{event.name}</h3>
+              )}
+              <Badge variant={statusColors[event.status] ?? "default"}>
+                {event.status === "PENDING" ? "In review" : event.status}
+              </Badge>
+            </div>
+            <div className="mt-1 flex items-center gap-4 text-sm text-muted-foreground flex-wrap">
+              <span>
+                {formatDateRange(event.startDate, event.endDate) || "Dates to be announced"}
+              </span>
+              {event.promoterName && <span>{event.promoterName}</span>}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default async function VenueEventsPage({
+  params,
+}: {
+  params: Promise<{ venueId: string }>;
+}) {
+  const session = await auth();
+  if (!session) redirect("/login?callbackUrl=/venue");
+  const { venueId } = await params;
+
+  const db = getCloudflareDb();
+  const venue = await getOwnedVenue(db, session.user.id, venueId);
+  if (!venue) notFound();
+
+  const rows = await listVenueEvents(db, venue.id);
+  const now = Date.now();
+  // An event stays "upcoming" through its last day; undated ones are upcoming
+  // too, since they haven't happened yet as far as anyone knows.
+  const isPast = (e: VenueEventRow) => {
+    const last = e.endDate ?? e.startDate;
+    return last != null && new Date(last).getTime() < now;
+  };
+  const upcoming = rows.filter((e) => !isPast(e));
+  const past = rows.filter(isPast).reverse();
+
+  return (
+    <div className="max-w-3xl">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">Events at {displayVenueName(venue)}</h1>
+        <p className="mt-1 text-muted-foreground">
+          Everything submitted for your grounds, including events still in review. We email you when
+          a new one comes in.
+        </p>
+      </div>
+
+      {rows.length === 0 ? (
+        <Card className="border-stone-100 bg-stone-50">
+          <CardContent className="py-12 text-center">
+            <Calendar className="w-8 h-8 mx-auto text-amber-dark mb-3" aria-hidden />
+            <p className="text-stone-600">No events have been submitted for this venue yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-semibold text-foreground">
+                Upcoming ({upcoming.length})
+              </h2>
+            </CardHeader>
+            <CardContent>
+              {upcoming.length > 0 ? (
+                <EventRows rows={upcoming} />
+              ) : (
+                <p className="text-sm text-muted-foreground">Nothing scheduled yet.</p>
+              )}
+            </CardContent>
+          </Card>
+          {past.length > 0 && (
+            <Card>
+              <CardHeader>
+                <h2 className="text-lg font-semibold text-foreground">Past ({past.length})</h2>
+              </CardHeader>
+              <CardContent>
+                <EventRows rows={past} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { Calendar, ExternalLink, Star } from "lucide-react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { parseJsonArray } from "@/types";
+import { displayVenueName } from "@/lib/venue-display";
+import { getOwnedVenue, parseVenueHours, parseVenueOptions } from "@/lib/venues/owner";
+import { VenueOwnerForm } from "@/components/venues/venue-owner-form";
+
+export const dynamic = "force-dynamic";
+
+export default async function VenueDetailsPage({
+  params,
+}: {
+  params: Promise<{ venueId: string }>;
+}) {
+  const session = await auth();
+  if (!session) redirect("/login?callbackUrl=/venue");
+  const { venueId } = await params;
+
+  const venue = await getOwnedVenue(getCloudflareDb(), session.user.id, venueId);
+  if (!venue) notFound();
+  const name = displayVenueName(venue);
+
+  return (
+    <div className="max-w-3xl">
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">{name}</h1>
+          <p className="mt-1 text-muted-foreground">
+            {venue.address}, {venue.city}, {venue.state} {venue.zip}
+          </p>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Need the name or address changed? Reply to any of our emails and we&apos;ll update it.
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2 text-sm">
+          <Link
+            href={`/venues/${venue.slug}`}
+            className="inline-flex items-center gap-1 text-royal hover:text-navy"
+          >
+            <ExternalLink className="w-4 h-4" aria-hidden />
+            Public page
+          </Link>
+          <Link
+            href={`/venue/${venue.id}/events`}
+            className="inline-flex items-center gap-1 text-royal hover:text-navy"
+          >
+            <Calendar className="w-4 h-4" aria-hidden />
+            Events here
+          </Link>
+        </div>
+      </div>
+
+      {(venue.googleRating != null || venue.googleMapsUrl) && (
+        <Card className="mb-6">
+          <CardHeader>
+            <h2 className="font-semibold text-foreground">From Google</h2>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p className="text-muted-foreground">
+              Maintained from the venue&apos;s Google listing. Hours, parking and accessibility you
+              enter below take precedence; Google only fills the ones you leave blank.
+            </p>
+            {venue.googleRating != null && (
+              <p className="flex items-center gap-1 text-foreground">
+                <Star className="w-4 h-4 text-amber-dark" aria-hidden />
+                {venue.googleRating.toFixed(1)}
+                {venue.googleRatingCount != null && (
+                  <span className="text-muted-foreground">
+                    ({venue.googleRatingCount.toLocaleString()} reviews)
+                  </span>
+                )}
+              </p>
+            )}
+            {venue.googleMapsUrl && (
+              <a
+                href={venue.googleMapsUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-royal hover:text-navy"
+              >
+                <ExternalLink className="w-4 h-4" aria-hidden />
+                View on Google Maps
+              </a>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <VenueOwnerForm
+        venueId={venue.id}
+        initial={{
+          capacity: venue.capacity,
+          amenities: parseJsonArray(venue.amenities),
+          description: venue.description,
+          contactEmail: venue.contactEmail,
+          contactPhone: venue.contactPhone,
+          website: venue.website,
+          imageUrl: venue.imageUrl,
+          openingHours: parseVenueHours(venue.openingHours),
+          accessibility: parseVenueOptions(venue.accessibility),
+          parking: parseVenueOptions(venue.parking),
+        }}
+      />
+    </div>
+  );
+}
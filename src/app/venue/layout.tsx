@@ -0,0 +1,57 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { Building2, Settings } from "lucide-react";
+import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { listOwnedVenues } from "@/lib/venues/owner";
+
+// Private like the promoter portal: noindex on every page under /venue/*.
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+const venueNav = [
+  { name: "My Venues", href: "/venue", icon: Building2 },
+  { name: "Settings", href: "/dashboard/settings", icon: Settings },
+];
+
+export default async function VenueLayout({ children }: { children: React.ReactNode }) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login?callbackUrl=/venue");
+  }
+
+  // There's no VENUE role to check: owning at least one venue row is the
+  // grant, written when an admin approves the claim.
+  const owned = await listOwnedVenues(getCloudflareDb(), session.user.id);
+  if (owned.length === 0) {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="min-h-screen bg-muted">
+      <div className="flex">
+        <aside className="w-64 bg-card border-r border-border min-h-[calc(100vh-4rem)]">
+          <div className="p-4">
+            <h2 className="text-lg font-semibold text-foreground">Venue Portal</h2>
+          </div>
+          <nav className="p-4 space-y-1">
+            {venueNav.map((item) => (
+              <Link
+                key={item.name}
+                href={item.href}
+                className="flex items-center gap-3 px-3 py-2 text-foreground rounded-lg hover:bg-muted transition-colors"
+              >
+                <item.icon className="w-5 h-5" />
+                {item.name}
+              </Link>
+            ))}
+          </nav>
+        </aside>
+        <main className="flex-1 p-8">{children}</main>
+      </div>
+    </div>
+  );
+}
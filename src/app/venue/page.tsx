@@ -0,0 +1,62 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { Calendar, MapPin, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { displayVenueName } from "@/lib/venue-display";
+import { listOwnedVenues } from "@/lib/venues/owner";
+
+export const dynamic = "force-dynamic";
+
+export default async function VenuePortalPage() {
+  const session = await auth();
+  if (!session) redirect("/login?callbackUrl=/venue");
+
+  // The layout already sent anyone without a venue to /dashboard.
+  const owned = await listOwnedVenues(getCloudflareDb(), session.user.id);
+  if (owned.length === 1) redirect(`/venue/${owned[0].id}`);
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">My Venues</h1>
+        <p className="mt-1 text-muted-foreground">
+          The grounds you manage. Keep their details current and see what&apos;s scheduled there.
+        </p>
+      </div>
+      <div className="space-y-4">
+        {owned.map((venue) => (
+          <Card key={venue.id}>
+            <CardContent className="p-5 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <h2 className="font-semibold text-foreground truncate">
+                  {displayVenueName(venue)}
+                </h2>
+                <p className="mt-1 flex items-center gap-1 text-sm text-muted-foreground">
+                  <MapPin className="w-4 h-4" aria-hidden />
+                  {venue.city}, {venue.state}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Link href={`/venue/${venue.id}`}>
+                  <Button size="sm" variant="outline">
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Details
+                  </Button>
+                </Link>
+                <Link href={`/venue/${venue.id}/events`}>
+                  <Button size="sm" variant="outline">
+                    <Calendar className="w-4 h-4 mr-2" />
+                    Events
+                  </Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
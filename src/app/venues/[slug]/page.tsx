@@ -11,6 +11,7 @@ import {
   Pencil,
   Accessibility,
   ParkingSquare,
+  Clock,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -36,6 +37,10 @@ import { ItemListSchema } from "@/components/seo/ItemListSchema";
 import { DetailPageTracker } from "@/components/DetailPageTracker";
 import { ScrollDepthTracker } from "@/components/ScrollDepthTracker";
 import { cdnImage, OG_EVENT } from "@/lib/cdn-image";
+import { SubscribeCalendarLink } from "@/components/events/subscribe-calendar-link";
+import { ClaimVenueCTA } from "@/components/venues/ClaimVenueCTA";
+import { parseVenueHours } from "@/lib/venues/owner";
+import { feedAlternates } from "@/lib/event-feeds/render";
 
 export const revalidate = 300; // Cache for 5 minutes
 
@@ -141,6 +146,7 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
     description,
     alternates: {
       canonical: url,
+      types: feedAlternates(`/api/feeds/venues/${venue.slug}`, `${name} — Meet Me at the Fair`),
     },
     openGraph: {
       title: name,
@@ -180,6 +186,7 @@ export default async function VenueDetailPage({ params }: Props) {
 
   const session = await auth();
   const isAdmin = session?.user?.role === "ADMIN";
+  const isOwner = !!session?.user?.id && venue.userId === session.user.id;
 
   const amenities = parseJsonArray(venue.amenities);
 
@@ -423,6 +430,10 @@ export default async function VenueDetailPage({ params }: Props) {
                     View All
                   </Link>
                 </div>
+                <SubscribeCalendarLink
+                  feedPath={`/api/calendar/venues/${venue.slug}`}
+                  className="mb-4"
+                />
                 <EventList events={venue.events} />
               </div>
             )}
@@ -469,9 +480,37 @@ export default async function VenueDetailPage({ params }: Props) {
                     </Button>
                   </Link>
                 )}
+                {isOwner && !isAdmin && (
+                  <Link href={`/venue/${venue.id}`}>
+                    <Button variant="outline" className="w-full mt-3">
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Manage Venue
+                    </Button>
+                  </Link>
+                )}
               </CardContent>
             </Card>
 
+            {(() => {
+              const hours = parseVenueHours(venue.openingHours);
+              if (hours.length === 0) return null;
+              return (
+                <Card>
+                  <CardHeader>
+                    <h3 className="font-semibold text-foreground flex items-center gap-2">
+                      <Clock className="w-4 h-4 text-royal" />
+                      Hours
+                    </h3>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm text-foreground">
+                    {hours.map((line) => (
+                      <p key={line}>{line}</p>
+                    ))}
+                  </CardContent>
+                </Card>
+              );
+            })()}
+
             <Card>
               <CardHeader>
                 <h3 className="font-semibold text-foreground">Contact</h3>
@@ -521,6 +560,10 @@ export default async function VenueDetailPage({ params }: Props) {
               </CardContent>
             </Card>
 
+            {!venue.claimed && !isAdmin && (
+              <ClaimVenueCTA venueName={venueDisplayName} venueSlug={venue.slug} />
+            )}
+
             {linkedBlogPosts.length > 0 && (
               <Card>
                 <CardHeader>
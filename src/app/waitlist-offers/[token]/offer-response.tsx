@@ -0,0 +1,79 @@
+"use client";
+
+/**
+ * Accept / decline buttons for a waitlist booth offer. Plain fetch + state,
+ * like the correction form — one POST behind a one-time link.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+
+export function OfferResponse({ token }: { token: string }) {
+  const [pending, setPending] = useState<"accept" | "decline" | null>(null);
+  const [done, setDone] = useState<"ACCEPTED" | "DECLINED" | null>(null);
+  const [error, setError] = useState("");
+
+  const answer = async (action: "accept" | "decline") => {
+    if (
+      action === "decline" &&
+      !window.confirm("Decline this booth? It goes to the next vendor.")
+    ) {
+      return;
+    }
+    setPending(action);
+    setError("");
+    try {
+      const res = await fetch(`/api/waitlist-offers/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        outcome?: "ACCEPTED" | "DECLINED";
+        error?: string;
+      };
+      if (!res.ok || !data.outcome) {
+        setError(data.error || "Something went wrong. Please try again.");
+        return;
+      }
+      setDone(data.outcome);
+    } catch {
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (done) {
+    return (
+      <p className="mt-6 rounded-lg bg-sage-50 p-4 text-sage-700" role="status">
+        {done === "ACCEPTED"
+          ? "You're in! Your application is now approved. The organizer will be in touch with booth details."
+          : "Thanks for letting us know. The spot has been offered to the next vendor."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex gap-3">
+        <Button
+          onClick={() => answer("accept")}
+          isLoading={pending === "accept"}
+          disabled={!!pending}
+        >
+          Accept the booth
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => answer("decline")}
+          isLoading={pending === "decline"}
+          disabled={!!pending}
+        >
+          Decline
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * Waitlist booth offer (drizzle/0228). The offer email links here; the
+ * vendor accepts or declines, which posts to /api/waitlist-offers/<token>.
+ *
+ * No auth — the token is the credential, as for /submit-event/<token>. A
+ * token that never existed is a plain 404; answered and expired offers get a
+ * status message, since only the vendor it was sent to can reach them.
+ */
+
+import { notFound } from "next/navigation";
+import { eq } from "drizzle-orm";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { eventVendors, events, vendors } from "@/lib/db/schema";
+import { formatEventDateTime } from "@/lib/datetime";
+import { lookupWaitlistOffer } from "@/lib/waitlist/offer-tokens";
+import { OfferResponse } from "./offer-response";
+
+export const dynamic = "force-dynamic";
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+const ANSWERED: Record<string, string> = {
+  ACCEPTED: "You accepted this booth — you're approved for the event.",
+  DECLINED: "You declined this booth. The spot has gone to the next vendor on the waitlist.",
+  VOID: "The organizer updated your application directly, so this offer no longer applies.",
+};
+
+export default async function WaitlistOfferPage({ params }: PageProps) {
+  const { token } = await params;
+  const db = getCloudflareDb();
+  const lookup = await lookupWaitlistOffer(db, token);
+  if (lookup.status === "not-found") notFound();
+
+  const [row] = await db
+    .select({
+      eventName: events.name,
+      eventSlug: events.slug,
+      businessName: vendors.businessName,
+    })
+    .from(eventVendors)
+    .innerJoin(events, eq(eventVendors.eventId, events.id))
+    .innerJoin(vendors, eq(eventVendors.vendorId, vendors.id))
+    .where(eq(eventVendors.id, lookup.eventVendorId))
+    .limit(1);
+  if (!row) notFound();
+
+  if (lookup.status !== "live") {
+    return (
+      <main className="mx-auto max-w-2xl px-4 py-12">
+        <h1 className="text-2xl font-semibold">This booth offer is no longer open</h1>
+        <p className="mt-4 text-foreground">
+          {lookup.status === "expired"
+            ? `The reply window closed ${formatEventDateTime(lookup.expiresAt)}, so the spot was offered to the next vendor. You're still on the waitlist — the organizer can approve you directly.`
+            : ANSWERED[lookup.outcome]}
+        </p>
+        <p className="mt-4">
+          <a className="text-royal hover:underline" href="/vendor/applications">
+            View your applications
+          </a>
+        </p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="mx-auto max-w-2xl px-4 py-12">
+      <h1 className="text-2xl font-semibold">A booth opened up at {row.eventName}</h1>
+      <p className="mt-2 text-foreground">
+        <strong>{row.businessName}</strong> is next on the waitlist. Accept to take the spot, or
+        decline to pass it to the next vendor. This offer closes{" "}
+        <strong>{formatEventDateTime(lookup.expiresAt)}</strong>.
+      </p>
+      <p className="mt-2">
+        <a className="text-royal hover:underline" href={`/events/${row.eventSlug}`}>
+          View the event
+        </a>
+      </p>
+      <OfferResponse token={token} />
+    </main>
+  );
+}
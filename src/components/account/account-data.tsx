@@ -0,0 +1,190 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Download, UserX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { formatDateMedium } from "@/lib/datetime";
+
+interface DeletionStatus {
+  pending: { id: string; requestedAt: string; scheduledFor: string } | null;
+  graceDays: number;
+  blocked: string | null;
+  passwordRequired: boolean;
+}
+
+/**
+ * "Your Data" card in settings: download the account export, and request or
+ * cancel deletion. Deletion only schedules — the sweep erases the account
+ * after the grace period — so the card's main job once a request exists is
+ * to show the date and a way back.
+ */
+export function AccountData({ email }: { email: string }) {
+  const [status, setStatus] = useState<DeletionStatus | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [confirmEmail, setConfirmEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/user/account-deletion");
+      if (!res.ok) throw new Error(String(res.status));
+      setStatus((await res.json()) as DeletionStatus);
+    } catch {
+      setError("Failed to load account status");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const requestDeletion = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch("/api/user/account-deletion", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirmEmail, password: password || undefined }),
+      });
+      const data = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setError(data.error || "Failed to schedule deletion");
+        return;
+      }
+      setConfirming(false);
+      setConfirmEmail("");
+      setPassword("");
+      await load();
+    } catch {
+      setError("Failed to schedule deletion");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cancelDeletion = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch("/api/user/account-deletion", { method: "DELETE" });
+      if (!res.ok) {
+        const data = (await res.json()) as { error?: string };
+        setError(data.error || "Failed to cancel deletion");
+        return;
+      }
+      await load();
+    } catch {
+      setError("Failed to cancel deletion");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <h2 className="text-lg font-semibold text-foreground">Your Data</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Download a copy of your account, or close it.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <p className="text-sm text-muted-foreground mb-3">
+            One JSON file with your profile, favorites, notifications, claims, listings,
+            applications, newsletter subscriptions and the emails we&apos;ve sent you.
+          </p>
+          <a href="/api/user/data-export" download>
+            <Button variant="outline" size="sm">
+              <Download className="w-4 h-4 mr-1" />
+              Download my data
+            </Button>
+          </a>
+        </div>
+
+        <div className="border-t border-border pt-6">
+          <div className="flex items-center gap-2 mb-2">
+            <UserX className="h-4 w-4 text-muted-foreground" />
+            <h3 className="font-medium text-foreground">Delete account</h3>
+          </div>
+          {status === null ? (
+            <p className="text-sm text-muted-foreground">{error || "Loading…"}</p>
+          ) : status.pending ? (
+            <div className="space-y-3">
+              <p className="text-sm text-red-700">
+                Your account will be deleted on{" "}
+                <strong>{formatDateMedium(status.pending.scheduledFor)}</strong>. Until then you can
+                keep using it and cancel here.
+              </p>
+              <Button variant="outline" size="sm" onClick={cancelDeletion} disabled={busy}>
+                Cancel deletion
+              </Button>
+            </div>
+          ) : status.blocked ? (
+            <p className="text-sm text-muted-foreground">{status.blocked}</p>
+          ) : confirming ? (
+            <div className="space-y-3 max-w-md">
+              <p className="text-sm text-muted-foreground">
+                Type <strong>{email}</strong> to confirm. Your account is deleted after{" "}
+                {status.graceDays} days; you can cancel until then.
+              </p>
+              <Input
+                label="Email"
+                type="email"
+                value={confirmEmail}
+                onChange={(e) => setConfirmEmail(e.target.value)}
+                autoComplete="off"
+              />
+              {status.passwordRequired && (
+                <Input
+                  label="Password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                />
+              )}
+              <div className="flex gap-2">
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={requestDeletion}
+                  disabled={busy || !confirmEmail || (status.passwordRequired && !password)}
+                >
+                  Delete my account
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setConfirming(false);
+                    setError("");
+                  }}
+                >
+                  Never mind
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Removes your profile, favorites, notifications and sign-in details after a{" "}
+                {status.graceDays}-day grace period. Vendor and promoter listings you manage stay on
+                the site as unclaimed listings, and we stop emailing this address.
+              </p>
+              <Button variant="danger" size="sm" onClick={() => setConfirming(true)}>
+                Delete account…
+              </Button>
+            </div>
+          )}
+          {status !== null && error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+/**
+ * Moderation buttons for one row of the /admin/reviews queue. Hide opens an
+ * inline required-note input; the rest are one click. POSTs to
+ * /api/admin/reviews and refreshes the server-rendered page on success.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+
+interface ReviewModerationActionsProps {
+  reviewId: string;
+  status: "PUBLISHED" | "HIDDEN";
+  openReports: number;
+  hasReply: boolean;
+}
+
+type Action = "hide" | "restore" | "dismiss_reports" | "remove_reply";
+
+const REASON_MESSAGES: Record<string, string> = {
+  not_found: "This review no longer exists.",
+  already_hidden: "This review is already hidden.",
+  not_hidden: "This review is already published.",
+  no_reply: "This review has no reply to remove.",
+};
+
+export function ReviewModerationActions({
+  reviewId,
+  status,
+  openReports,
+  hasReply,
+}: ReviewModerationActionsProps) {
+  const router = useRouter();
+  const [hiding, setHiding] = useState(false);
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (action: Action, withNote?: string) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/reviews", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reviewId, action, note: withNote }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        const key = data.error ?? "";
+        throw new Error(REASON_MESSAGES[key] ?? data.error ?? `Request failed (${res.status})`);
+      }
+      setHiding(false);
+      setNote("");
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {!hiding ? (
+        <div className="flex flex-wrap gap-2">
+          {status === "PUBLISHED" ? (
+            <Button
+              type="button"
+              variant="danger"
+              size="sm"
+              disabled={submitting}
+              onClick={() => {
+                setError(null);
+                setHiding(true);
+              }}
+            >
+              Hide
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={submitting}
+              onClick={() => post("restore")}
+            >
+              Restore
+            </Button>
+          )}
+          {openReports > 0 && status === "PUBLISHED" && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={submitting}
+              onClick={() => post("dismiss_reports")}
+            >
+              Dismiss reports
+            </Button>
+          )}
+          {hasReply && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={submitting}
+              onClick={() => post("remove_reply")}
+            >
+              Remove reply
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            maxLength={1000}
+            placeholder="Why is this review being hidden? (required)"
+            className="w-full border border-border rounded px-2 py-1 text-sm"
+            disabled={submitting}
+          />
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="danger"
+              size="sm"
+              disabled={submitting || note.trim().length === 0}
+              onClick={() => post("hide", note.trim())}
+            >
+              {submitting ? "Working…" : "Confirm hide"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={submitting}
+              onClick={() => {
+                setHiding(false);
+                setNote("");
+                setError(null);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600 break-words">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History } from "lucide-react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatTimestamp } from "@/lib/datetime";
+
+interface LoginEntry {
+  id: string;
+  method: string;
+  secondFactor: "totp" | "recovery" | "passkey" | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  verifiedAt: string | null;
+  current: boolean;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  credentials: "Password",
+  google: "Google",
+  facebook: "Facebook",
+  passkey: "Passkey",
+  // The MCP Worker's OAuth form (mcp-server/src/oauth/login-handler.ts).
+  "mcp-oauth": "Claude connection",
+};
+
+const FACTOR_LABELS: Record<NonNullable<LoginEntry["secondFactor"]>, string> = {
+  totp: "Authenticator app",
+  recovery: "Recovery code",
+  passkey: "Passkey",
+};
+
+/**
+ * The caller's recent sign-ins from `login_events`. A row with no second
+ * factor and no verifiedAt is either an unenrolled sign-in or one abandoned
+ * at the code prompt — worth a second look if the IP isn't familiar.
+ */
+export function LoginHistory() {
+  const [logins, setLogins] = useState<LoginEntry[] | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/user/login-history")
+      .then(async (res) => {
+        if (!res.ok) throw new Error(String(res.status));
+        const data = (await res.json()) as { logins: LoginEntry[] };
+        setLogins(data.logins);
+      })
+      .catch(() => setError(true));
+  }, []);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-foreground">Recent Sign-ins</h2>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          If you don&apos;t recognise one of these, change your password and check your two-factor
+          settings.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-red-600">Failed to load sign-in history</p>
+        ) : logins === null ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : logins.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sign-ins recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 font-medium">When</th>
+                  <th className="py-2 pr-4 font-medium">Method</th>
+                  <th className="py-2 pr-4 font-medium">IP address</th>
+                  <th className="py-2 font-medium">Device</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {logins.map((login) => (
+                  <tr key={login.id}>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {formatTimestamp(login.createdAt)}
+                      {login.current && (
+                        <Badge variant="info" className="ml-2">
+                          This session
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {METHOD_LABELS[login.method] ?? login.method}
+                      {login.secondFactor && login.method !== "passkey" && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          + {FACTOR_LABELS[login.secondFactor]}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs">{login.ip ?? "—"}</td>
+                    <td
+                      className="py-2 text-xs text-muted-foreground max-w-xs truncate"
+                      title={login.userAgent ?? undefined}
+                    >
+                      {login.userAgent ?? "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
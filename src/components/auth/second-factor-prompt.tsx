@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { browserSupportsPasskeys, getPasskey } from "@/lib/auth/webauthn-client";
+import type { PasskeyAssertionPayload, PasskeyRequestOptions } from "@/lib/auth/webauthn";
+
+export type SecondFactorProof =
+  | { code: string }
+  | { challengeId: string; credential: PasskeyAssertionPayload };
+
+interface Props {
+  /** Posts the proof; resolves to an error message, or null on success. */
+  submit: (proof: SecondFactorProof) => Promise<string | null>;
+  submitLabel?: string;
+  /** Offer "Use a passkey" (the caller has one, or might). */
+  allowPasskey?: boolean;
+  onCancel?: () => void;
+}
+
+/**
+ * A code field (authenticator app or recovery code) with a passkey button
+ * beside it. Shared by /login/two-factor, the admin step-up dialog and the
+ * Security card's disable/regenerate confirmations; each passes its own
+ * endpoint through `submit`.
+ */
+export function SecondFactorPrompt({
+  submit,
+  submitLabel = "Verify",
+  allowPasskey = true,
+  onCancel,
+}: Props) {
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (proof: SecondFactorProof) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const failure = await submit(proof);
+      if (failure) setError(failure);
+    } catch {
+      setError("Something went wrong. Try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) void run({ code: code.trim() });
+  };
+
+  const handlePasskey = async () => {
+    setError(null);
+    const res = await fetch("/api/auth/two-factor/options", { method: "POST" });
+    if (!res.ok) {
+      setError(
+        res.status === 404 ? "You haven't added a passkey yet." : "Couldn't start the passkey."
+      );
+      return;
+    }
+    const options = (await res.json()) as PasskeyRequestOptions;
+    const credential = await getPasskey(options);
+    if (!credential) {
+      setError("The passkey wasn't used. Try again or enter a code.");
+      return;
+    }
+    await run({ challengeId: options.challengeId, credential });
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCode} className="space-y-3">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+            {error}
+          </div>
+        )}
+        <Input
+          label="Authentication code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456 or a recovery code"
+          autoComplete="one-time-code"
+          inputMode="text"
+          autoFocus
+        />
+        <div className="flex gap-2">
+          <Button type="submit" isLoading={busy} disabled={busy || !code.trim()}>
+            {submitLabel}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={busy}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+      {allowPasskey && browserSupportsPasskeys() && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={handlePasskey}
+          disabled={busy}
+        >
+          <KeyRound className="w-4 h-4 mr-2" />
+          Use a passkey instead
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/** POST a proof as JSON; the error message from the body, or null on 2xx. */
+export async function postProof(url: string, proof: SecondFactorProof, method = "POST") {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(proof),
+  });
+  if (res.ok) return { ok: true as const, res };
+  const data = (await res.json().catch(() => ({}))) as { error?: string };
+  return {
+    ok: false as const,
+    error: res.status === 429 ? "Too many attempts. Wait a while and try again." : data.error,
+  };
+}
@@ -0,0 +1,418 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import QRCode from "qrcode";
+import { Copy, KeyRound, ShieldCheck, Smartphone, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatDateMedium } from "@/lib/datetime";
+import { browserSupportsPasskeys, createPasskey } from "@/lib/auth/webauthn-client";
+import type { PasskeyCreationOptions } from "@/lib/auth/webauthn";
+import { SecondFactorPrompt, postProof } from "./second-factor-prompt";
+
+interface Passkey {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface Status {
+  totpEnabled: boolean;
+  recoveryCodesRemaining: number;
+  passkeyCount: number;
+  enrolled: boolean;
+  passkeys: Passkey[];
+  adminRequired: boolean;
+}
+
+/**
+ * The otpauth:// URL as a QR code: `QRCode.create()`'s module matrix drawn
+ * as SVG rects, the same way (and for the same reasons) as PrintQR.
+ */
+function TotpQrCode({ value }: { value: string }) {
+  const qr = QRCode.create(value, { errorCorrectionLevel: "M" });
+  const size = qr.modules.size;
+  const margin = 2;
+  const cells: Array<{ x: number; y: number }> = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (qr.modules.data[row * size + col]) cells.push({ x: col + margin, y: row + margin });
+    }
+  }
+  const box = size + margin * 2;
+  return (
+    <svg
+      width={180}
+      height={180}
+      viewBox={`0 0 ${box} ${box}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code for your authenticator app"
+    >
+      {/* Scanners need true black on white, whatever the theme (see PrintQR). */}
+      {/* eslint-disable-next-line no-restricted-syntax */}
+      <rect width={box} height={box} fill="#ffffff" />
+      {cells.map((c, i) => (
+        // eslint-disable-next-line no-restricted-syntax
+        <rect key={i} x={c.x} y={c.y} width={1} height={1} fill="#000000" />
+      ))}
+    </svg>
+  );
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <div className="p-4 rounded-lg bg-amber-50 border border-amber-200">
+      <p className="text-sm font-medium text-amber-800 mb-2">
+        Save these recovery codes somewhere safe — they won&apos;t be shown again. Each one signs
+        you in once if you lose your phone.
+      </p>
+      <ul className="grid grid-cols-2 gap-1 font-mono text-sm mb-3">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            void navigator.clipboard.writeText(codes.join("\n")).then(() => setCopied(true));
+          }}
+        >
+          <Copy className="h-4 w-4" />
+          <span className="ml-1">{copied ? "Copied" : "Copy"}</span>
+        </Button>
+        <Button type="button" size="sm" onClick={onDone}>
+          I&apos;ve saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Settings card for second factors (drizzle/0241): the authenticator app
+ * with its recovery codes, and passkeys. Turning the app off or replacing the
+ * recovery codes asks for a current code or passkey first.
+ *
+ * Enrolling marks this session verified server-side; `update()` then makes
+ * the session pick that up, which is what gives an admin their role back.
+ */
+export function SecuritySettings() {
+  const { update } = useSession();
+  const [status, setStatus] = useState<Status | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [confirmCode, setConfirmCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirming, setConfirming] = useState<"disable" | "regenerate" | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [passkeyName, setPasskeyName] = useState("");
+  const [passkeysSupported, setPasskeysSupported] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/user/two-factor");
+      if (!res.ok) throw new Error();
+      setStatus((await res.json()) as Status);
+    } catch {
+      setError("Failed to load security settings");
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+    setPasskeysSupported(browserSupportsPasskeys());
+  }, [load]);
+
+  const handleStartTotp = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/user/two-factor/totp", { method: "POST" });
+      const data = (await res.json()) as { secret?: string; otpauthUrl?: string; error?: string };
+      if (!res.ok || !data.secret || !data.otpauthUrl) {
+        setError(data.error || "Couldn't start setup");
+        return;
+      }
+      setEnrollment({ secret: data.secret, otpauthUrl: data.otpauthUrl });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirmTotp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/user/two-factor/totp", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: confirmCode.trim() }),
+      });
+      const data = (await res.json()) as { recoveryCodes?: string[]; error?: string };
+      if (!res.ok || !data.recoveryCodes) {
+        setError(data.error || "That code didn't match");
+        return;
+      }
+      setEnrollment(null);
+      setConfirmCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      await update();
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddPasskey = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const optionsRes = await fetch("/api/user/passkeys/options", { method: "POST" });
+      if (!optionsRes.ok) {
+        setError("Couldn't start passkey setup");
+        return;
+      }
+      const options = (await optionsRes.json()) as PasskeyCreationOptions;
+      const credential = await createPasskey(options);
+      if (!credential) {
+        setError("The passkey wasn't created.");
+        return;
+      }
+      const res = await fetch("/api/user/passkeys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challengeId: options.challengeId, name: passkeyName, credential }),
+      });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as { error?: string };
+        setError(data.error || "Couldn't save the passkey");
+        return;
+      }
+      setPasskeyName("");
+      await update();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't save the passkey");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemovePasskey = async (passkey: Passkey) => {
+    if (!confirm(`Remove the passkey "${passkey.name}"?`)) return;
+    setError(null);
+    const res = await fetch(`/api/user/passkeys/${passkey.id}`, { method: "DELETE" });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      setError(data.error || "Couldn't remove the passkey");
+      return;
+    }
+    await load();
+  };
+
+  const handleRenamePasskey = async (passkey: Passkey) => {
+    const name = prompt("Name this passkey", passkey.name)?.trim();
+    if (!name || name === passkey.name) return;
+    setError(null);
+    const res = await fetch(`/api/user/passkeys/${passkey.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    if (!res.ok) setError("Couldn't rename the passkey");
+    await load();
+  };
+
+  return (
+    <Card id="security" className="mt-6 scroll-mt-24">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-foreground">Two-Factor Authentication</h2>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Ask for a code from your phone or a passkey whenever you sign in, on top of your password
+          or Google/Facebook login.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {status?.adminRequired && (
+          <div className="p-3 rounded-lg text-sm bg-amber-50 border border-amber-200 text-amber-800">
+            Admin accounts must use two-factor authentication. Set up an authenticator app or a
+            passkey to get back into the admin area.
+          </div>
+        )}
+        {error && <div className="p-3 rounded-lg text-sm bg-red-50 text-red-600">{error}</div>}
+        {recoveryCodes && (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        )}
+
+        {status === null ? (
+          !error && <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <>
+            <section>
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2">
+                  <Smartphone className="h-4 w-4 text-muted-foreground" />
+                  <h3 className="font-medium text-foreground">Authenticator app</h3>
+                  {status.totpEnabled && <Badge variant="success">On</Badge>}
+                </div>
+                {!status.totpEnabled && !enrollment && (
+                  <Button type="button" size="sm" onClick={handleStartTotp} disabled={busy}>
+                    Set up
+                  </Button>
+                )}
+              </div>
+
+              {enrollment && (
+                <form onSubmit={handleConfirmTotp} className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Scan this with Google Authenticator, 1Password, Authy or a similar app, then
+                    enter the six-digit code it shows.
+                  </p>
+                  <TotpQrCode value={enrollment.otpauthUrl} />
+                  <p className="text-xs text-muted-foreground">
+                    Can&apos;t scan? Enter this key:{" "}
+                    <code className="font-mono break-all">{enrollment.secret}</code>
+                  </p>
+                  <Input
+                    label="Code from the app"
+                    value={confirmCode}
+                    onChange={(e) => setConfirmCode(e.target.value)}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                  />
+                  <div className="flex gap-2">
+                    <Button type="submit" isLoading={busy} disabled={busy || !confirmCode.trim()}>
+                      Turn on
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {status.totpEnabled && (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    {status.recoveryCodesRemaining} of 10 recovery codes left.
+                  </p>
+                  {confirming ? (
+                    <SecondFactorPrompt
+                      submitLabel={confirming === "disable" ? "Turn off" : "Get new codes"}
+                      onCancel={() => setConfirming(null)}
+                      submit={async (proof) => {
+                        const result =
+                          confirming === "disable"
+                            ? await postProof("/api/user/two-factor/totp", proof, "DELETE")
+                            : await postProof("/api/user/two-factor/recovery-codes", proof);
+                        if (!result.ok) return result.error ?? "That didn't work";
+                        if (confirming === "regenerate") {
+                          const data = (await result.res.json()) as { recoveryCodes: string[] };
+                          setRecoveryCodes(data.recoveryCodes);
+                        }
+                        setConfirming(null);
+                        await load();
+                        return null;
+                      }}
+                    />
+                  ) : (
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setConfirming("regenerate")}
+                      >
+                        New recovery codes
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setConfirming("disable")}
+                      >
+                        Turn off
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </section>
+
+            <section>
+              <div className="flex items-center gap-2 mb-2">
+                <KeyRound className="h-4 w-4 text-muted-foreground" />
+                <h3 className="font-medium text-foreground">Passkeys</h3>
+              </div>
+              <p className="text-sm text-muted-foreground mb-3">
+                Sign in with your fingerprint, face or device PIN instead of a password and code.
+              </p>
+              {status.passkeys.length > 0 && (
+                <ul className="divide-y divide-border mb-3">
+                  {status.passkeys.map((passkey) => (
+                    <li key={passkey.id} className="flex items-center justify-between py-2">
+                      <div>
+                        <button
+                          type="button"
+                          className="text-sm font-medium text-foreground hover:underline"
+                          onClick={() => handleRenamePasskey(passkey)}
+                        >
+                          {passkey.name}
+                        </button>
+                        <p className="text-xs text-muted-foreground">
+                          Added {formatDateMedium(new Date(passkey.createdAt))}
+                          {passkey.lastUsedAt &&
+                            ` · last used ${formatDateMedium(new Date(passkey.lastUsedAt))}`}
+                        </p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemovePasskey(passkey)}
+                        aria-label={`Remove ${passkey.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {passkeysSupported ? (
+                <div className="flex gap-2">
+                  <Input
+                    value={passkeyName}
+                    onChange={(e) => setPasskeyName(e.target.value)}
+                    placeholder="Name (e.g. MacBook)"
+                    maxLength={60}
+                  />
+                  <Button type="button" onClick={handleAddPasskey} disabled={busy}>
+                    Add passkey
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  This browser doesn&apos;t support passkeys.
+                </p>
+              )}
+            </section>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
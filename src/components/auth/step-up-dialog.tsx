@@ -0,0 +1,86 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { ShieldCheck, X } from "lucide-react";
+import { SecondFactorPrompt, postProof } from "./second-factor-prompt";
+
+/**
+ * Step-up for admin actions gated by requireRecentStepUp (database restore,
+ * merges, role changes). Wrap the action's fetch in `withStepUp`: when the
+ * server answers 403 `step_up_required`, the dialog asks for a code or
+ * passkey, posts it to /api/auth/step-up, and the fetch is retried once.
+ * Cancelling resolves with the original 403 so the caller's error path runs.
+ *
+ *     const { withStepUp, stepUpDialog } = useStepUp();
+ *     const res = await withStepUp(() => fetch("/api/admin/...", { method: "POST" }));
+ *     ...
+ *     return <>{stepUpDialog}...</>;
+ */
+export function useStepUp() {
+  const [open, setOpen] = useState(false);
+  const settle = useRef<((verified: boolean) => void) | null>(null);
+
+  const close = useCallback((verified: boolean) => {
+    setOpen(false);
+    settle.current?.(verified);
+    settle.current = null;
+  }, []);
+
+  const withStepUp = useCallback(async (action: () => Promise<Response>): Promise<Response> => {
+    const res = await action();
+    if (res.status !== 403) return res;
+    const body = (await res
+      .clone()
+      .json()
+      .catch(() => ({}))) as { error?: string };
+    if (body.error !== "step_up_required") return res;
+
+    const verified = await new Promise<boolean>((resolve) => {
+      settle.current = resolve;
+      setOpen(true);
+    });
+    return verified ? action() : res;
+  }, []);
+
+  const stepUpDialog = open ? (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="step-up-title"
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+    >
+      <div className="bg-card rounded-lg max-w-md w-full p-6 relative">
+        <button
+          type="button"
+          onClick={() => close(false)}
+          className="absolute top-3 right-3 text-muted-foreground hover:text-foreground"
+          aria-label="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-2 mb-2">
+          <ShieldCheck className="w-5 h-5 text-muted-foreground" />
+          <h2 id="step-up-title" className="text-xl font-semibold">
+            Confirm it&apos;s you
+          </h2>
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          This action needs a fresh code from your authenticator app, a recovery code, or your
+          passkey. You won&apos;t be asked again for 10 minutes.
+        </p>
+        <SecondFactorPrompt
+          submitLabel="Confirm"
+          onCancel={() => close(false)}
+          submit={async (proof) => {
+            const result = await postProof("/api/auth/step-up", proof);
+            if (!result.ok) return result.error ?? "That code or passkey didn't match.";
+            close(true);
+            return null;
+          }}
+        />
+      </div>
+    </div>
+  ) : null;
+
+  return { withStepUp, stepUpDialog };
+}
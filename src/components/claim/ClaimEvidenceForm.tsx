@@ -7,8 +7,9 @@ import { CheckCircle2, AlertCircle } from "lucide-react";
 interface Props {
   // OPE-318 — performers claim through this evidence path rather than the
   // wizard: the wizard's instant-approval grants a userRoles role, and there is
-  // no PERFORMER role or portal to grant.
-  entityType: "VENDOR" | "PROMOTER" | "PERFORMER";
+  // no PERFORMER role or portal to grant. Venues (drizzle/0240) claim here for
+  // the same reason: ownership is on the row, not a role.
+  entityType: "VENDOR" | "PROMOTER" | "PERFORMER" | "VENUE";
   slug: string;
   entityName: string;
 }
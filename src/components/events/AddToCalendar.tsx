@@ -66,6 +66,8 @@ interface AddToCalendarProps {
   // generateMultiDayICSDataUrl path below and emits one VEVENT per
   // occurrence (no RRULE needed).
   recurrenceRule?: string | null;
+  /** EXDATE days (YYYY-MM-DD) for `recurrenceRule` (drizzle/0234). */
+  recurrenceExdates?: string[];
   /** Venue's IANA timezone (P3b, 2026-06-06). Threaded into the
    *  multi-day ICS path so DTSTART/DTEND/VTIMEZONE all reference the
    *  venue's local clock. Omit (or pass undefined) at venues whose
@@ -86,6 +88,7 @@ export function AddToCalendar({
   eventSlug,
   eventDays = [],
   recurrenceRule = null,
+  recurrenceExdates = [],
   venueTimezone,
 }: AddToCalendarProps) {
   const [isOpen, setIsOpen] = useState(false);
@@ -129,6 +132,7 @@ export function AddToCalendar({
     // Cohort 7 — forward only when no event_days path is active.
     // When eventDays drive the ICS, recurrenceRule would double up.
     recurrenceRule: hasMultiDaySchedule ? null : recurrenceRule,
+    recurrenceExdates,
   };
 
   const googleUrl = generateGoogleCalendarUrl(eventParams);
@@ -8,7 +8,7 @@ import { Label } from "@/components/ui/label";
 import { parseDateOnly, formatDateOnly, toIsoDateOnly } from "@/lib/datetime";
 
 // Maximum number of event days allowed (SQLite variable limit is 999, with 7 vars per day = ~142 max)
-const MAX_EVENT_DAYS = 100;
+export const MAX_EVENT_DAYS = 100;
 
 export interface EventDayInput {
   date: string; // YYYY-MM-DD
@@ -0,0 +1,496 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { CalendarPlus, Repeat, RotateCcw, X } from "lucide-react";
+import {
+  RRULE_WEEKDAYS,
+  expandRRule,
+  formatRRule,
+  parseRRule,
+  type RRule,
+  type RRuleWeekday,
+} from "@takemetothefair/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatDateOnly, parseDateOnly } from "@/lib/datetime";
+import { MAX_EVENT_DAYS } from "./DailyScheduleInput";
+
+// How many upcoming dates the preview lists before "+N more".
+const PREVIEW_COUNT = 8;
+
+const FREQ_LABELS: Record<RRule["freq"], string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+  YEARLY: "year(s)",
+};
+
+const WEEKDAY_LABELS: Record<RRuleWeekday, string> = {
+  SU: "Sun",
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+};
+
+const ORDINALS: { value: string; label: string }[] = [
+  { value: "", label: "Every" },
+  { value: "1", label: "1st" },
+  { value: "2", label: "2nd" },
+  { value: "3", label: "3rd" },
+  { value: "4", label: "4th" },
+  { value: "-1", label: "Last" },
+];
+
+const MONTH_LABELS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+export interface RecurrenceValue {
+  /** Canonical RRULE value (no `RRULE:` prefix), or null for a one-off event. */
+  rule: string | null;
+  /** EXDATE days, YYYY-MM-DD. */
+  exdates: string[];
+}
+
+interface RecurrenceRuleInputProps {
+  /** The rule's DTSTART: the event's start date (YYYY-MM-DD), if set yet. */
+  anchorDate: string | null;
+  value: RecurrenceValue;
+  onChange: (value: RecurrenceValue) => void;
+  /**
+   * Replace the schedule with the rule's dates. The editor switches to
+   * non-contiguous dates and seeds one event day per date.
+   */
+  onUseDates?: (dates: string[]) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_RULE: RRule = {
+  freq: "WEEKLY",
+  interval: 1,
+  count: null,
+  until: null,
+  byMonth: [],
+  byWeekNo: [],
+  byYearDay: [],
+  byMonthDay: [],
+  byDay: [],
+  bySetPos: [],
+  wkst: "MO",
+};
+
+function formatDateDisplay(dateStr: string): string {
+  return formatDateOnly(parseDateOnly(dateStr));
+}
+
+/**
+ * Recurrence editor for the admin and promoter event forms (drizzle/0234).
+ *
+ * The builder covers the common shapes — every N days/weeks/months/years, on
+ * chosen weekdays (optionally "2nd"/"last" for monthly and yearly), in chosen
+ * months, ending never / on a date / after N times. Anything else (BYSETPOS,
+ * BYMONTHDAY, ...) goes through the raw RRULE field; the builder edits only
+ * the parts it shows and carries the rest through untouched. The preview is
+ * the real expander, so what it lists is what the ICS feed and the series
+ * tooling will produce. Skipping a previewed date adds an EXDATE.
+ */
+export function RecurrenceRuleInput({
+  anchorDate,
+  value,
+  onChange,
+  onUseDates,
+  disabled = false,
+}: RecurrenceRuleInputProps) {
+  const parsed = useMemo(() => (value.rule ? parseRRule(value.rule) : null), [value.rule]);
+  const rule = parsed?.ok ? parsed.rule : null;
+
+  // The raw field is a draft: it only reaches `value` once it parses.
+  const [rawDraft, setRawDraft] = useState(value.rule ?? "");
+  const [rawError, setRawError] = useState<string | null>(null);
+  useEffect(() => {
+    setRawDraft(value.rule ?? "");
+    setRawError(null);
+  }, [value.rule]);
+
+  const anchor = anchorDate && parseDateOnly(anchorDate) ? anchorDate : null;
+
+  const dates = useMemo(
+    () =>
+      rule && anchor
+        ? expandRRule(rule, { dtstart: anchor, exdates: value.exdates, limit: MAX_EVENT_DAYS + 1 })
+        : [],
+    [rule, anchor, value.exdates]
+  );
+  const capped = dates.length > MAX_EVENT_DAYS;
+
+  const update = (next: RRule) => {
+    // Builder switches can leave parts the new frequency rejects (an ordinal
+    // weekday under WEEKLY, say); drop them rather than emit an invalid rule.
+    const ordinalsAllowed = next.freq === "MONTHLY" || next.freq === "YEARLY";
+    const cleaned: RRule = {
+      ...next,
+      byDay: ordinalsAllowed ? next.byDay : next.byDay.map((d) => ({ ...d, ordinal: null })),
+      byMonthDay: next.freq === "WEEKLY" ? [] : next.byMonthDay,
+      byWeekNo: next.freq === "YEARLY" ? next.byWeekNo : [],
+      byYearDay: next.freq === "YEARLY" ? next.byYearDay : [],
+    };
+    const formatted = formatRRule(cleaned);
+    const check = parseRRule(formatted);
+    if (!check.ok) {
+      setRawError(check.error);
+      return;
+    }
+    onChange({ rule: formatted, exdates: value.exdates });
+  };
+
+  const applyRaw = () => {
+    const trimmed = rawDraft.trim();
+    if (!trimmed) {
+      onChange({ rule: null, exdates: [] });
+      return;
+    }
+    const result = parseRRule(trimmed);
+    if (!result.ok) {
+      setRawError(result.error);
+      return;
+    }
+    onChange({ rule: formatRRule(result.rule), exdates: value.exdates });
+  };
+
+  const toggleEnabled = (enabled: boolean) => {
+    onChange(
+      enabled ? { rule: formatRRule(DEFAULT_RULE), exdates: [] } : { rule: null, exdates: [] }
+    );
+  };
+
+  const skipDate = (date: string) => {
+    onChange({ rule: value.rule, exdates: [...new Set([...value.exdates, date])].sort() });
+  };
+
+  const restoreDate = (date: string) => {
+    onChange({ rule: value.rule, exdates: value.exdates.filter((d) => d !== date) });
+  };
+
+  const ordinal = rule?.byDay.find((d) => d.ordinal !== null)?.ordinal ?? null;
+  const selectedWeekdays = new Set(rule?.byDay.map((d) => d.weekday) ?? []);
+  const endsMode = rule?.count ? "count" : rule?.until ? "until" : "never";
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="bg-muted px-4 py-2 flex items-center gap-2 border-b">
+        <input
+          id="recurrenceEnabled"
+          type="checkbox"
+          checked={value.rule !== null}
+          onChange={(e) => toggleEnabled(e.target.checked)}
+          disabled={disabled}
+          className="h-4 w-4 rounded border-border"
+        />
+        <Label htmlFor="recurrenceEnabled" className="font-normal flex items-center gap-1">
+          <Repeat className="w-3.5 h-3.5" />
+          Repeats on a schedule
+        </Label>
+      </div>
+
+      {value.rule !== null && (
+        <div className="p-4 space-y-4">
+          {rule && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Every</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={rule.interval}
+                  onChange={(e) =>
+                    update({ ...rule, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })
+                  }
+                  disabled={disabled}
+                  className="w-20"
+                  aria-label="Interval"
+                />
+                <select
+                  value={rule.freq}
+                  onChange={(e) => update({ ...rule, freq: e.target.value as RRule["freq"] })}
+                  disabled={disabled}
+                  className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  aria-label="Frequency"
+                >
+                  {(Object.keys(FREQ_LABELS) as RRule["freq"][]).map((f) => (
+                    <option key={f} value={f}>
+                      {FREQ_LABELS[f]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm">On</Label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {(rule.freq === "MONTHLY" || rule.freq === "YEARLY") && (
+                    <select
+                      value={ordinal === null ? "" : String(ordinal)}
+                      onChange={(e) => {
+                        const next = e.target.value === "" ? null : Number(e.target.value);
+                        update({
+                          ...rule,
+                          byDay: rule.byDay.map((d) => ({ ...d, ordinal: next })),
+                        });
+                      }}
+                      disabled={disabled || rule.byDay.length === 0}
+                      className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      aria-label="Which weekday of the month"
+                    >
+                      {ORDINALS.map((o) => (
+                        <option key={o.value} value={o.value}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {[...RRULE_WEEKDAYS.slice(1), RRULE_WEEKDAYS[0]].map((wd) => (
+                    <Button
+                      key={wd}
+                      type="button"
+                      size="sm"
+                      variant={selectedWeekdays.has(wd) ? "primary" : "outline"}
+                      onClick={() =>
+                        update({
+                          ...rule,
+                          byDay: selectedWeekdays.has(wd)
+                            ? rule.byDay.filter((d) => d.weekday !== wd)
+                            : [...rule.byDay, { weekday: wd, ordinal }],
+                        })
+                      }
+                      disabled={disabled}
+                      className="text-xs px-2"
+                    >
+                      {WEEKDAY_LABELS[wd]}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  With none selected, the start date sets the day.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm">In months</Label>
+                <div className="flex flex-wrap gap-1">
+                  {MONTH_LABELS.map((label, i) => {
+                    const month = i + 1;
+                    const selected = rule.byMonth.includes(month);
+                    return (
+                      <Button
+                        key={label}
+                        type="button"
+                        size="sm"
+                        variant={selected ? "primary" : "outline"}
+                        onClick={() =>
+                          update({
+                            ...rule,
+                            byMonth: selected
+                              ? rule.byMonth.filter((m) => m !== month)
+                              : [...rule.byMonth, month].sort((a, b) => a - b),
+                          })
+                        }
+                        disabled={disabled}
+                        className="text-xs px-2"
+                      >
+                        {label}
+                      </Button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-muted-foreground">None selected means every month.</p>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Ends</span>
+                <select
+                  value={endsMode}
+                  onChange={(e) => {
+                    const mode = e.target.value;
+                    update({
+                      ...rule,
+                      count: mode === "count" ? (rule.count ?? 10) : null,
+                      until:
+                        mode === "until" ? (rule.until ?? dates[dates.length - 1] ?? anchor) : null,
+                    });
+                  }}
+                  disabled={disabled}
+                  className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  aria-label="Ends"
+                >
+                  <option value="never">Never</option>
+                  <option value="until">On date</option>
+                  <option value="count">After</option>
+                </select>
+                {endsMode === "until" && (
+                  <Input
+                    type="date"
+                    value={rule.until ?? ""}
+                    min={anchor ?? undefined}
+                    onChange={(e) => e.target.value && update({ ...rule, until: e.target.value })}
+                    disabled={disabled}
+                    className="w-44"
+                    aria-label="Last date"
+                  />
+                )}
+                {endsMode === "count" && (
+                  <>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={999}
+                      value={rule.count ?? 1}
+                      onChange={(e) =>
+                        update({ ...rule, count: Math.max(1, parseInt(e.target.value, 10) || 1) })
+                      }
+                      disabled={disabled}
+                      className="w-20"
+                      aria-label="Occurrences"
+                    />
+                    <span>times</span>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="recurrenceRule" className="text-sm">
+              RRULE
+            </Label>
+            <Input
+              id="recurrenceRule"
+              value={rawDraft}
+              onChange={(e) => {
+                setRawDraft(e.target.value);
+                setRawError(null);
+              }}
+              onBlur={applyRaw}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  applyRaw();
+                }
+              }}
+              disabled={disabled}
+              className="font-mono text-xs"
+              placeholder="FREQ=MONTHLY;BYMONTH=5,6,7,8,9,10;BYDAY=2SA"
+            />
+            {rawError ? (
+              <p className="text-xs text-destructive">{rawError}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                RFC 5545 rule, anchored on the start date. Edit directly for anything the controls
+                above don&apos;t cover (BYSETPOS, BYMONTHDAY, ...).
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Upcoming dates</span>
+              {onUseDates && dates.length > 0 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onUseDates(dates.slice(0, MAX_EVENT_DAYS))}
+                  disabled={disabled}
+                  className="text-xs"
+                >
+                  <CalendarPlus className="w-3 h-3 mr-1" />
+                  Use these dates as the schedule
+                </Button>
+              )}
+            </div>
+            {!anchor ? (
+              <p className="text-sm text-muted-foreground">Set a start date to preview.</p>
+            ) : dates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This rule produces no dates on or after the start date.
+              </p>
+            ) : (
+              <ul className="flex flex-wrap gap-2">
+                {dates.slice(0, PREVIEW_COUNT).map((d) => (
+                  <li
+                    key={d}
+                    className="flex items-center gap-1 rounded-md border px-2 py-1 text-xs"
+                  >
+                    {formatDateDisplay(d)}
+                    <button
+                      type="button"
+                      onClick={() => skipDate(d)}
+                      disabled={disabled}
+                      className="text-muted-foreground hover:text-destructive"
+                      aria-label={`Skip ${d}`}
+                      title="Skip this date"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+                {dates.length > PREVIEW_COUNT && (
+                  <li className="px-2 py-1 text-xs text-muted-foreground">
+                    +{capped ? `${MAX_EVENT_DAYS - PREVIEW_COUNT}+` : dates.length - PREVIEW_COUNT}{" "}
+                    more
+                  </li>
+                )}
+              </ul>
+            )}
+            {capped && (
+              <p className="text-xs text-amber-700">
+                Open-ended: only the first {MAX_EVENT_DAYS} dates can become event days.
+              </p>
+            )}
+          </div>
+
+          {value.exdates.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Skipped dates</span>
+              <ul className="flex flex-wrap gap-2">
+                {value.exdates.map((d) => (
+                  <li
+                    key={d}
+                    className="flex items-center gap-1 rounded-md border border-dashed px-2 py-1 text-xs text-muted-foreground line-through"
+                  >
+                    {formatDateDisplay(d)}
+                    <button
+                      type="button"
+                      onClick={() => restoreDate(d)}
+                      disabled={disabled}
+                      className="no-underline hover:text-foreground"
+                      aria-label={`Restore ${d}`}
+                      title="Restore this date"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
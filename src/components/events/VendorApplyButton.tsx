@@ -9,6 +9,8 @@ import { Label } from "@/components/ui/label";
 import { getErrorMessage } from "@/lib/error-messages";
 import { trackEvent, trackFormSubmit } from "@/lib/analytics";
 import { formatDateMedium } from "@/lib/datetime";
+import type { ApplicationForm } from "@/lib/validations";
+import { ApplicationFormFields, type ApplicationAnswerState } from "./application-form-fields";
 
 interface VendorApplyButtonProps {
   eventId: string;
@@ -20,6 +22,10 @@ interface VendorApplyButtonProps {
   confirmedVendorsCount?: number;
   /** Median response days for this promoter (null if insufficient data) */
   promoterMedianResponseDays?: number | null;
+  /** The promoter's structured form for this event, if they defined one */
+  applicationForm?: ApplicationForm | null;
+  /** Answers pre-filled from the vendor profile (insurance, license, products) */
+  initialAnswers?: ApplicationAnswerState;
 }
 
 function formatRelativeDeadline(iso: string | null | undefined): string | null {
@@ -46,6 +52,8 @@ export function VendorApplyButton({
   applicationDeadline,
   confirmedVendorsCount,
   promoterMedianResponseDays,
+  applicationForm,
+  initialAnswers,
 }: VendorApplyButtonProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -54,6 +62,7 @@ export function VendorApplyButton({
   const [wasAutoApproved, setWasAutoApproved] = useState(false);
   const [createdId, setCreatedId] = useState<string | null>(null);
   const [boothInfo, setBoothInfo] = useState("");
+  const [answers, setAnswers] = useState<ApplicationAnswerState>(initialAnswers ?? {});
 
   // Deadline text depends on "now", so compute on the client after hydration
   // to avoid SSR mismatch. Must be declared before any early return.
@@ -70,7 +79,11 @@ export function VendorApplyButton({
       const res = await fetch("/api/vendor/applications", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ eventId, boothInfo: boothInfo || undefined }),
+        body: JSON.stringify({
+          eventId,
+          boothInfo: boothInfo || undefined,
+          answers: applicationForm ? answers : undefined,
+        }),
       });
 
       if (!res.ok) {
@@ -179,6 +192,15 @@ export function VendorApplyButton({
         )}
       </p>
 
+      {applicationForm && (
+        <ApplicationFormFields
+          form={applicationForm}
+          values={answers}
+          onChange={setAnswers}
+          disabled={loading}
+        />
+      )}
+
       <div>
         <Label htmlFor="boothInfo">Booth Preferences (optional)</Label>
         <Input
@@ -0,0 +1,80 @@
+/**
+ * EventsMap in jsdom: no layout and no tiles load, so these cover what the
+ * visitor can act on — which pins exist, what a popup says, and where the
+ * events that can't be mapped end up.
+ */
+import { describe, it, expect } from "vitest";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { colorForCategory } from "@/lib/calendar/colors";
+import type { MapEventInput } from "@/lib/map/event-pins";
+import { EventsMap } from "../events-map";
+
+const fairgrounds = {
+  id: "v-skow",
+  name: "Skowhegan Fairgrounds",
+  city: "Skowhegan",
+  state: "ME",
+  latitude: 44.7651,
+  longitude: -69.7193,
+};
+
+/** jsdom reports inline colors as rgb(). */
+function rgb(hex: string): string {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+function event(id: string, overrides: Partial<MapEventInput> = {}): MapEventInput {
+  return {
+    id,
+    slug: id.toLowerCase().replace(/\s+/g, "-"),
+    name: id,
+    startDate: new Date("2026-08-13T12:00:00Z"),
+    endDate: new Date("2026-08-22T12:00:00Z"),
+    categories: '["Fair"]',
+    isStatewide: false,
+    stateCode: "ME",
+    venue: fairgrounds,
+    ...overrides,
+  };
+}
+
+describe("EventsMap", () => {
+  it("opens a venue popup with each event's dates and category color", () => {
+    render(
+      <EventsMap
+        events={[
+          event("Skowhegan State Fair"),
+          event("Antique Show", { categories: '["Market"]', startDate: null, endDate: null }),
+        ]}
+      />
+    );
+    fireEvent.click(screen.getByRole("button", { name: "Skowhegan Fairgrounds: 2 events" }));
+
+    const popup = screen.getByRole("dialog", { name: "Skowhegan Fairgrounds" });
+    const fair = within(popup).getByText("Skowhegan State Fair").closest("li")!;
+    expect(fair.textContent).toContain("Aug 13");
+    expect(fair.textContent).toContain("Fair");
+    const swatch = fair.querySelector<HTMLElement>("span[title='Fair']")!;
+    expect(swatch.style.backgroundColor).toBe(rgb(colorForCategory("Fair")));
+    expect(within(popup).getByText("Antique Show")).toBeTruthy();
+  });
+
+  it("pins statewide events on their state and lists unmappable ones below", () => {
+    render(
+      <EventsMap
+        events={[
+          event("Open Farm Day", { isStatewide: true, venue: null }),
+          event("Location TBA", { venue: null }),
+        ]}
+        truncatedTotal={612}
+      />
+    );
+    expect(screen.getByRole("button", { name: "Statewide — Maine: 1 event" })).toBeTruthy();
+    expect(screen.getByText(/Not on the map \(1\)/)).toBeTruthy();
+    expect(screen.getByRole("link", { name: "Location TBA" }).getAttribute("href")).toBe(
+      "/events/location-tba"
+    );
+    expect(screen.getByRole("status").textContent).toContain("of 612 matching events");
+  });
+});
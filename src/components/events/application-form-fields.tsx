@@ -0,0 +1,264 @@
+"use client";
+
+import { useState } from "react";
+import { FileText, Upload } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type {
+  ApplicationAnswerValue,
+  ApplicationFileAnswer,
+  ApplicationForm,
+  ApplicationFormField,
+} from "@/lib/validations";
+
+export type ApplicationAnswerState = Record<string, ApplicationAnswerValue>;
+
+interface Props {
+  form: ApplicationForm;
+  values: ApplicationAnswerState;
+  onChange: (values: ApplicationAnswerState) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Inputs for a promoter-defined application form (drizzle/0227). Controlled:
+ * the parent owns the answers and posts them with the application. Validation
+ * happens server-side against the same schema; this only marks required
+ * fields and uploads files ahead of submit.
+ */
+export function ApplicationFormFields({ form, values, onChange, disabled }: Props) {
+  const set = (id: string, value: ApplicationAnswerValue | undefined) => {
+    const next = { ...values };
+    if (value === undefined) delete next[id];
+    else next[id] = value;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {form.fields.map((field) => (
+        <FieldInput
+          key={field.id}
+          field={field}
+          value={values[field.id]}
+          onChange={(v) => set(field.id, v)}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  );
+}
+
+function FieldLabel({ field, htmlFor }: { field: ApplicationFormField; htmlFor?: string }) {
+  return (
+    <Label htmlFor={htmlFor}>
+      {field.label}
+      {field.required ? (
+        <span className="text-red-600"> *</span>
+      ) : (
+        <span className="text-stone-500 font-normal"> (optional)</span>
+      )}
+    </Label>
+  );
+}
+
+function FieldInput({
+  field,
+  value,
+  onChange,
+  disabled,
+}: {
+  field: ApplicationFormField;
+  value: ApplicationAnswerValue | undefined;
+  onChange: (value: ApplicationAnswerValue | undefined) => void;
+  disabled?: boolean;
+}) {
+  const inputId = `application-${field.id}`;
+  const help = field.help ? <p className="mt-1 text-xs text-stone-500">{field.help}</p> : null;
+
+  switch (field.type) {
+    case "text":
+      return (
+        <div>
+          <FieldLabel field={field} htmlFor={inputId} />
+          <Input
+            id={inputId}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => onChange(e.target.value)}
+            maxLength={500}
+            disabled={disabled}
+          />
+          {help}
+        </div>
+      );
+    case "textarea":
+      return (
+        <div>
+          <FieldLabel field={field} htmlFor={inputId} />
+          <Textarea
+            id={inputId}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => onChange(e.target.value)}
+            maxLength={5000}
+            rows={3}
+            disabled={disabled}
+          />
+          {help}
+        </div>
+      );
+    case "select":
+      return (
+        <div>
+          <FieldLabel field={field} htmlFor={inputId} />
+          <Select
+            id={inputId}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => onChange(e.target.value || undefined)}
+            options={[
+              { value: "", label: "Choose…" },
+              ...(field.options ?? []).map((o) => ({ value: o, label: o })),
+            ]}
+            disabled={disabled}
+          />
+          {help}
+        </div>
+      );
+    case "multiselect": {
+      const picked = Array.isArray(value) ? value : [];
+      return (
+        <fieldset>
+          <legend className="text-sm font-medium text-foreground">
+            {field.label}
+            {field.required && <span className="text-red-600"> *</span>}
+          </legend>
+          <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+            {(field.options ?? []).map((option) => (
+              <label key={option} className="flex items-center gap-2 text-sm text-stone-900">
+                <input
+                  type="checkbox"
+                  className="rounded border-border"
+                  checked={picked.includes(option)}
+                  onChange={(e) =>
+                    onChange(
+                      e.target.checked ? [...picked, option] : picked.filter((p) => p !== option)
+                    )
+                  }
+                  disabled={disabled}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+          {help}
+        </fieldset>
+      );
+    }
+    case "checkbox":
+      return (
+        <div>
+          <label className="flex items-start gap-2 text-sm text-stone-900">
+            <input
+              type="checkbox"
+              className="mt-0.5 rounded border-border"
+              checked={value === true}
+              onChange={(e) => onChange(e.target.checked)}
+              disabled={disabled}
+            />
+            <span>
+              {field.label}
+              {field.required && <span className="text-red-600"> *</span>}
+            </span>
+          </label>
+          {help}
+        </div>
+      );
+    case "file":
+      return (
+        <FileField
+          field={field}
+          value={value && typeof value === "object" && !Array.isArray(value) ? value : undefined}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+  }
+}
+
+function FileField({
+  field,
+  value,
+  onChange,
+  disabled,
+}: {
+  field: ApplicationFormField;
+  value: ApplicationFileAnswer | undefined;
+  onChange: (value: ApplicationFileAnswer | undefined) => void;
+  disabled?: boolean;
+}) {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState("");
+  const inputId = `application-${field.id}`;
+
+  const upload = async (file: File) => {
+    setUploading(true);
+    setError("");
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      const res = await fetch("/api/vendor/applications/uploads", { method: "POST", body });
+      const data = (await res.json().catch(() => ({}))) as Partial<ApplicationFileAnswer> & {
+        error?: string;
+      };
+      if (!res.ok || !data.key || !data.name) {
+        setError(data.error || "Upload failed");
+        return;
+      }
+      onChange({ key: data.key, name: data.name });
+    } catch {
+      setError("Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div>
+      <FieldLabel field={field} htmlFor={inputId} />
+      {value ? (
+        <p className="mt-1 flex items-center gap-2 text-sm text-stone-900">
+          <FileText className="w-4 h-4 flex-shrink-0" aria-hidden />
+          <span className="break-all">{value.name}</span>
+          <button
+            type="button"
+            className="text-xs text-royal hover:text-navy"
+            onClick={() => onChange(undefined)}
+            disabled={disabled}
+          >
+            Replace
+          </button>
+        </p>
+      ) : (
+        <label className="mt-1 flex items-center gap-2 text-sm text-royal cursor-pointer">
+          <Upload className="w-4 h-4" aria-hidden />
+          {uploading ? "Uploading…" : "Choose a PDF, JPG or PNG"}
+          <input
+            id={inputId}
+            type="file"
+            accept="application/pdf,image/jpeg,image/png"
+            className="sr-only"
+            disabled={disabled || uploading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void upload(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      )}
+      {field.help && <p className="mt-1 text-xs text-stone-500">{field.help}</p>}
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { isPubliclyVisibleVendorLink } from "@/lib/vendor-status";
 import { isPublicEventStatus } from "@/lib/event-status";
 import { upcomingEndPredicate } from "@/lib/event-dates";
 import { eventJoinProjection } from "@/lib/db/event-join-projection";
+import { MAP_VIEW_MAX_EVENTS } from "@/lib/map/event-pins";
 import { ItemListSchema } from "@/components/seo/ItemListSchema";
 import { BreadcrumbSchema } from "@/components/seo/BreadcrumbSchema";
 
@@ -156,15 +157,17 @@ async function getCategoryEvents(
 
 interface CategoryEventsPageProps {
   categorySlug: string;
-  searchParams: { page?: string; includePast?: string };
+  searchParams: { page?: string; includePast?: string; view?: string };
 }
 
 export async function CategoryEventsPage({ categorySlug, searchParams }: CategoryEventsPageProps) {
   const cat = CATEGORY_MAP[categorySlug];
   if (!cat) return null;
 
-  const page = parseInt(searchParams.page || "1");
-  const limit = 30;
+  // Map mode plots the whole category at once — one oversized first page.
+  const mapView = searchParams.view === "map";
+  const page = mapView ? 1 : parseInt(searchParams.page || "1");
+  const limit = mapView ? MAP_VIEW_MAX_EVENTS : 30;
   const includePast = searchParams.includePast === "true";
   const { events: eventsList, total } = await getCategoryEvents(
     cat.category,
@@ -222,6 +225,7 @@ export async function CategoryEventsPage({ categorySlug, searchParams }: Categor
       </div>
 
       <form className="mb-6 flex items-center gap-3">
+        {mapView && <input type="hidden" name="view" value="map" />}
         <label className="flex items-center gap-2">
           <input
             type="checkbox"
@@ -240,7 +244,7 @@ export async function CategoryEventsPage({ categorySlug, searchParams }: Categor
       {eventsList.length > 0 ? (
         <EventsView
           events={eventsList}
-          view="cards"
+          view={mapView ? "map" : "cards"}
           emptyMessage={`No upcoming ${cat.label.toLowerCase()} found. Check back soon!`}
           currentPage={page}
           totalPages={totalPages}
@@ -0,0 +1,357 @@
+"use client";
+
+/**
+ * Map mode for the events listings (`?view=map`). A small slippy map rather
+ * than a mapping library: tiles are plain <img>s from a swappable URL template
+ * (see mapTileConfig), pins are buttons positioned over them, and all the
+ * geometry lives in src/lib/map so this file only renders and handles input.
+ *
+ * It shows whatever list the host page fetched, so every listing filter
+ * applies unchanged. Pins cluster per zoom; a cluster click zooms in on its
+ * members, a venue click opens a popup of its events with date ranges and
+ * category colors. Events that can't be placed are listed under the map.
+ *
+ * The scroll wheel is left to the page — a map that captures it traps anyone
+ * scrolling past — so zoom is the buttons and double-click.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { Minus, Plus, Maximize2, MapPin, X } from "lucide-react";
+import { formatDateRange } from "@/lib/utils";
+import {
+  buildEventPins,
+  clusterPins,
+  MAP_VIEW_MAX_EVENTS,
+  type EventPin,
+  type MapEventInput,
+  type PinCluster,
+} from "@/lib/map/event-pins";
+import {
+  MAP_MIN_ZOOM,
+  clampZoom,
+  fitView,
+  mapTileConfig,
+  panBy,
+  tileUrl,
+  toViewport,
+  visibleTiles,
+  zoomAt,
+  type MapView,
+} from "@/lib/map/web-mercator";
+
+/** Events listed per popup before "and N more". */
+const POPUP_EVENT_LIMIT = 8;
+/** Used until the container reports a size (and in jsdom, which never does). */
+const FALLBACK_SIZE = { width: 800, height: 520 };
+/** Pointer travel, in pixels, past which a press is a drag rather than a click. */
+const DRAG_THRESHOLD_PX = 4;
+
+interface EventsMapProps<T extends MapEventInput> {
+  events: T[];
+  /**
+   * The filtered total, when it's more than the host loaded — the map only ever
+   * gets the first MAP_VIEW_MAX_EVENTS by date.
+   */
+  truncatedTotal?: number;
+}
+
+function clusterLabel(cluster: PinCluster): string {
+  const places = cluster.pins.length;
+  const count = `${cluster.eventCount} event${cluster.eventCount === 1 ? "" : "s"}`;
+  if (places === 1) return `${cluster.pins[0]!.label}: ${count}`;
+  return `${count} at ${places} places — zoom in`;
+}
+
+export function EventsMap<T extends MapEventInput>({ events, truncatedTotal }: EventsMapProps<T>) {
+  const tiles = useMemo(() => mapTileConfig(), []);
+  const { pins, unplaced } = useMemo(() => buildEventPins(events), [events]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState(FALLBACK_SIZE);
+  const [view, setView] = useState<MapView | null>(null);
+  const [openPinKey, setOpenPinKey] = useState<string | null>(null);
+  const drag = useRef<{ x: number; y: number; view: MapView; moved: boolean } | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry!.contentRect;
+      if (width > 0 && height > 0) setSize({ width, height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const fitAll = useCallback(
+    () =>
+      setView(
+        fitView(
+          pins.map((p) => p.point),
+          size.width,
+          size.height
+        )
+      ),
+    [pins, size.width, size.height]
+  );
+
+  // A new result set starts over with everything in view.
+  const touched = useRef(false);
+  useEffect(() => {
+    touched.current = false;
+    setOpenPinKey(null);
+  }, [pins]);
+  // Fit to each new result set and to the container's real size as it
+  // arrives — until the visitor pans or zooms, after which the view is theirs.
+  useEffect(() => {
+    if (!touched.current) fitAll();
+  }, [fitAll]);
+
+  const current = view ?? fitView([], size.width, size.height);
+  const clusters = useMemo(() => clusterPins(pins, current.zoom), [pins, current.zoom]);
+  const openPin: EventPin | undefined = pins.find((p) => p.key === openPinKey);
+
+  const setZoom = (zoom: number, anchor = { x: size.width / 2, y: size.height / 2 }) => {
+    const next = clampZoom(zoom, tiles.maxZoom);
+    if (next === current.zoom) return;
+    touched.current = true;
+    setView(zoomAt(current, next, anchor, size.width, size.height));
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    drag.current = { x: e.clientX, y: e.clientY, view: current, moved: false };
+  };
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const d = drag.current;
+    if (!d) return;
+    const dx = e.clientX - d.x;
+    const dy = e.clientY - d.y;
+    if (!d.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+    if (!d.moved) e.currentTarget.setPointerCapture?.(e.pointerId);
+    d.moved = true;
+    touched.current = true;
+    setView(panBy(d.view, dx, dy));
+  };
+  const onPointerUp = () => {
+    // Left in place until the click that follows a drag has been swallowed.
+    setTimeout(() => (drag.current = null), 0);
+  };
+  const wasDrag = () => drag.current?.moved === true;
+
+  const onClusterClick = (cluster: PinCluster) => {
+    if (wasDrag()) return;
+    if (cluster.pins.length === 1) {
+      setOpenPinKey(cluster.pins[0]!.key);
+      return;
+    }
+    // Zoom until the members separate, or as far as a fit will go.
+    const fit = fitView(
+      cluster.pins.map((p) => p.point),
+      size.width,
+      size.height
+    );
+    touched.current = true;
+    setView({
+      center: fit.center,
+      zoom: clampZoom(Math.max(fit.zoom, current.zoom + 1), tiles.maxZoom),
+    });
+    setOpenPinKey(null);
+  };
+
+  const popupAt = openPin ? toViewport(openPin.point, current, size.width, size.height) : null;
+
+  return (
+    <div>
+      {truncatedTotal !== undefined && (
+        <p className="mb-3 text-sm text-muted-foreground" role="status">
+          Mapping the first {MAP_VIEW_MAX_EVENTS} of {truncatedTotal} matching events by date.
+          Narrow the filters to map the rest.
+        </p>
+      )}
+      <div
+        ref={containerRef}
+        className="relative h-[520px] w-full select-none overflow-hidden rounded-lg border border-border bg-muted touch-none cursor-grab active:cursor-grabbing"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onDoubleClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          setZoom(current.zoom + 1, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+        }}
+        role="region"
+        aria-label="Map of events"
+      >
+        {visibleTiles(current, size.width, size.height).map((tile) => (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={tile.key}
+            src={tileUrl(tiles.url, tile)}
+            alt=""
+            width={256}
+            height={256}
+            draggable={false}
+            className="pointer-events-none absolute max-w-none"
+            style={{ left: tile.left, top: tile.top }}
+          />
+        ))}
+
+        {clusters.map((cluster) => {
+          const { x, y } = toViewport(cluster.point, current, size.width, size.height);
+          if (x < -40 || y < -40 || x > size.width + 40 || y > size.height + 40) return null;
+          const single = cluster.pins.length === 1 ? cluster.pins[0]! : null;
+          const statewide = single?.kind === "statewide";
+          const color = single?.events[0]?.color ?? null;
+          return (
+            <button
+              key={cluster.key}
+              type="button"
+              onClick={() => onClusterClick(cluster)}
+              onDoubleClick={(e) => e.stopPropagation()}
+              aria-label={clusterLabel(cluster)}
+              title={clusterLabel(cluster)}
+              className={`absolute flex -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 text-xs font-semibold text-white shadow-md focus:outline-none focus:ring-2 focus:ring-royal ${
+                statewide ? "border-dashed border-navy" : "border-white"
+              } ${single ? `h-7 min-w-7 px-1 ${color ? "" : "bg-card"}` : "h-9 min-w-9 px-1.5 bg-navy"}`}
+              style={{
+                left: x,
+                top: y,
+                ...(single ? { backgroundColor: color ?? undefined } : {}),
+              }}
+            >
+              <span className={single && !color ? "text-navy" : undefined}>
+                {cluster.eventCount}
+              </span>
+            </button>
+          );
+        })}
+
+        {openPin && popupAt && (
+          <div
+            className="absolute z-10 w-72 -translate-x-1/2 rounded-lg border border-border bg-card p-3 text-sm shadow-lg cursor-auto"
+            style={{
+              left: Math.min(Math.max(popupAt.x, 148), size.width - 148),
+              top: Math.min(popupAt.y + 18, size.height - 40),
+            }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-label={openPin.label}
+          >
+            <div className="mb-2 flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-semibold text-foreground">{openPin.label}</p>
+                {openPin.sublabel && (
+                  <p className="text-xs text-muted-foreground">{openPin.sublabel}</p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => setOpenPinKey(null)}
+                aria-label="Close"
+                className="rounded p-0.5 text-muted-foreground hover:bg-muted"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <ul className="max-h-60 space-y-1.5 overflow-y-auto">
+              {openPin.events.slice(0, POPUP_EVENT_LIMIT).map((event) => (
+                <li key={event.id} className="flex items-start gap-2">
+                  <span
+                    className="mt-1.5 h-2.5 w-2.5 flex-shrink-0 rounded-full border border-border"
+                    style={event.color ? { backgroundColor: event.color } : undefined}
+                    title={event.category ?? "Uncategorized"}
+                  />
+                  <span className="min-w-0">
+                    <Link
+                      href={`/events/${event.slug}`}
+                      className="font-medium text-foreground hover:text-navy"
+                    >
+                      {event.name}
+                    </Link>
+                    <span className="block text-xs text-muted-foreground">
+                      {formatDateRange(event.startDate, event.endDate)}
+                      {event.category ? ` · ${event.category}` : ""}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {openPin.events.length > POPUP_EVENT_LIMIT && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                and {openPin.events.length - POPUP_EVENT_LIMIT} more here
+              </p>
+            )}
+          </div>
+        )}
+
+        <div
+          className="absolute right-2 top-2 flex flex-col overflow-hidden rounded-md border border-border bg-card shadow-sm"
+          onPointerDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+        >
+          <button
+            type="button"
+            onClick={() => setZoom(current.zoom + 1)}
+            disabled={current.zoom >= tiles.maxZoom}
+            aria-label="Zoom in"
+            className="p-1.5 text-muted-foreground hover:bg-muted disabled:opacity-40"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setZoom(current.zoom - 1)}
+            disabled={current.zoom <= MAP_MIN_ZOOM}
+            aria-label="Zoom out"
+            className="border-t border-border p-1.5 text-muted-foreground hover:bg-muted disabled:opacity-40"
+          >
+            <Minus className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              touched.current = false;
+              fitAll();
+            }}
+            aria-label="Show all events"
+            className="border-t border-border p-1.5 text-muted-foreground hover:bg-muted"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="pointer-events-none absolute bottom-0 right-0 rounded-tl bg-card/80 px-1.5 py-0.5 text-[0.65rem] text-muted-foreground">
+          {tiles.attribution}
+        </div>
+      </div>
+
+      {unplaced.length > 0 && (
+        <div className="mt-4 rounded-lg border border-border bg-card p-4">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+            <MapPin className="h-4 w-4 text-muted-foreground" />
+            Not on the map ({unplaced.length})
+          </h3>
+          <p className="mt-1 text-xs text-muted-foreground">
+            These events don&apos;t have a mapped location yet.
+          </p>
+          <ul className="mt-2 grid grid-cols-1 gap-x-6 gap-y-1 text-sm sm:grid-cols-2">
+            {unplaced.map((event) => (
+              <li key={event.id} className="min-w-0 truncate">
+                <Link
+                  href={`/events/${event.slug}`}
+                  className="font-medium text-foreground hover:text-navy"
+                >
+                  {event.name}
+                </Link>{" "}
+                <span className="text-muted-foreground">
+                  {formatDateRange(event.startDate, event.endDate)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,10 +15,12 @@ import {
   ChevronRight,
   Printer,
   Plus,
+  Map as MapIcon,
 } from "lucide-react";
 import { nextOccurrence } from "@/lib/event-occurrence";
 import { EventCard } from "./event-card";
 import { EventPopover, DayEventsPopover } from "./event-popover";
+import { EventsMap } from "./events-map";
 import {
   SortableHeader,
   SortConfig,
@@ -29,6 +31,11 @@ import { Pagination } from "@/components/ui/pagination";
 import { Badge } from "@/components/ui/badge";
 import { formatDateRange } from "@/lib/utils";
 import { haversineDistance } from "@/lib/geo";
+import {
+  formatNearParam,
+  NEAR_MAX_RADIUS_MILES,
+  NEAR_RADIUS_OPTIONS,
+} from "@takemetothefair/utils";
 import { trackFilterApplied } from "@/lib/analytics";
 import { parseJsonArray } from "@/types";
 import type { events, venues, promoters } from "@/lib/db/schema";
@@ -58,7 +65,8 @@ type EventWithRelations = Event & {
 
 interface EventsViewProps {
   events: EventWithRelations[];
-  view?: "cards" | "table" | "calendar";
+  /** "map" expects the host to have loaded the whole filtered set (MAP_VIEW_MAX_EVENTS), not a page. */
+  view?: "cards" | "table" | "calendar" | "map";
   emptyMessage?: string;
   // Pagination props
   currentPage?: number;
@@ -70,6 +78,14 @@ interface EventsViewProps {
   basePath?: string;
   /** Vendor home coordinates for distance calculation */
   vendorCoords?: { lat: number; lng: number } | null;
+  /** The page's resolved radius search (near/zip/radius), if any. */
+  nearSearch?: { lat: number; lng: number; radiusMiles: number } | null;
+  /**
+   * The host page filters and sorts by distance in SQL (drizzle/0235), so the
+   * radius and "nearest" controls navigate with `near`/`radius` instead of
+   * narrowing only the rows already on this page.
+   */
+  serverNearSearch?: boolean;
   /** F3 C2 — admin calendar host: enables empty-cell "+ Add event" affordances. */
   isAdmin?: boolean;
 }
@@ -1139,6 +1155,8 @@ export function EventsView({
   myEvents = false,
   basePath = "/events",
   vendorCoords = null,
+  nearSearch = null,
+  serverNearSearch = false,
   isAdmin = false,
 }: EventsViewProps) {
   const currentSearchParams = useSearchParams();
@@ -1239,7 +1257,29 @@ export function EventsView({
     window.location.href = `${basePath}?${params.toString()}`;
   };
 
-  const currentSort = currentSearchParams.get("sort") || "date-asc";
+  const currentSort = currentSearchParams.get("sort") || (nearSearch ? "nearest" : "date-asc");
+
+  // Server-driven radius search: a typed ZIP would win over the new center,
+  // so it goes, and so does the page.
+  const switchNear = (
+    coords: { lat: number; lng: number } | null,
+    radius: number | null,
+    sort?: string
+  ) => {
+    const params = new URLSearchParams(currentSearchParams.toString());
+    params.delete("zip");
+    params.delete("page");
+    if (coords && radius) {
+      params.set("near", formatNearParam({ latitude: coords.lat, longitude: coords.lng }));
+      params.set("radius", String(radius));
+      if (sort) params.set("sort", sort);
+    } else {
+      params.delete("near");
+      params.delete("radius");
+      if (params.get("sort") === "nearest") params.delete("sort");
+    }
+    window.location.href = `${basePath}?${params.toString()}`;
+  };
 
   const [sortConfig, setSortConfig] = useState<SortConfig>({
     column: "startDate",
@@ -1262,8 +1302,18 @@ export function EventsView({
 
   // Distance filter & computation
   const [browserCoords, setBrowserCoords] = useState<{ lat: number; lng: number } | null>(null);
-  const [maxRadius, setMaxRadius] = useState<number | null>(null);
-  const activeCoords = vendorCoords || browserCoords;
+  const [clientRadius, setClientRadius] = useState<number | null>(null);
+  const activeCoords =
+    (nearSearch && { lat: nearSearch.lat, lng: nearSearch.lng }) || vendorCoords || browserCoords;
+  // The server has already applied its radius; re-filtering here would only
+  // disagree with it at the boundary.
+  const maxRadius = serverNearSearch ? null : clientRadius;
+  const radiusSelectValue = serverNearSearch ? (nearSearch?.radiusMiles ?? null) : clientRadius;
+  const radiusOptions: number[] = [...NEAR_RADIUS_OPTIONS];
+  if (radiusSelectValue && !radiusOptions.includes(radiusSelectValue)) {
+    radiusOptions.push(radiusSelectValue);
+    radiusOptions.sort((a, b) => a - b);
+  }
 
   const distanceMap = new Map<string, number>();
   if (activeCoords) {
@@ -1350,6 +1400,9 @@ export function EventsView({
       }
       return `Showing ${count} event${count !== 1 ? "s" : ""}${suffix} ${label}`;
     }
+    if (viewMode === "map") {
+      return `Mapping ${displayEvents.length} event${displayEvents.length !== 1 ? "s" : ""}${radiusSuffix}${suffix}`;
+    }
     if (maxRadius && activeCoords && total !== undefined) {
       return `Showing ${displayEvents.length} event${displayEvents.length !== 1 ? "s" : ""}${radiusSuffix}${suffix} (${total} total)`;
     }
@@ -1377,7 +1430,14 @@ export function EventsView({
               // Request browser geolocation then apply sort
               navigator.geolocation?.getCurrentPosition(
                 (pos) => {
-                  setBrowserCoords({ lat: pos.coords.latitude, lng: pos.coords.longitude });
+                  const coords = { lat: pos.coords.latitude, lng: pos.coords.longitude };
+                  if (serverNearSearch) {
+                    // The server needs a center to order by; the widest radius
+                    // keeps this a sort rather than a tight filter.
+                    switchNear(coords, NEAR_MAX_RADIUS_MILES, "nearest");
+                    return;
+                  }
+                  setBrowserCoords(coords);
                   switchSort("nearest");
                 },
                 () => {
@@ -1398,34 +1458,43 @@ export function EventsView({
           ))}
         </select>
         <select
-          value={maxRadius ?? ""}
+          value={radiusSelectValue ?? ""}
           onChange={(e) => {
             const val = e.target.value;
             trackFilterApplied("radius", val || "any", "events");
+            const applyRadius = (
+              coords: { lat: number; lng: number } | null,
+              radius: number | null
+            ) => (serverNearSearch ? switchNear(coords, radius) : setClientRadius(radius));
             if (!val) {
-              setMaxRadius(null);
+              applyRadius(null, null);
               return;
             }
             const radius = parseInt(val);
             if (!activeCoords) {
               navigator.geolocation?.getCurrentPosition(
                 (pos) => {
-                  setBrowserCoords({ lat: pos.coords.latitude, lng: pos.coords.longitude });
-                  setMaxRadius(radius);
+                  const coords = { lat: pos.coords.latitude, lng: pos.coords.longitude };
+                  setBrowserCoords(coords);
+                  applyRadius(coords, radius);
                 },
-                () => setMaxRadius(null)
+                () => {
+                  // Geolocation denied — a server-side search stays as it was.
+                  if (!serverNearSearch) setClientRadius(null);
+                }
               );
               return;
             }
-            setMaxRadius(radius);
+            applyRadius(activeCoords, radius);
           }}
           className="text-sm border border-border rounded-md px-2 py-1.5 bg-card text-muted-foreground focus:outline-none focus:ring-2 focus:ring-royal focus:border-transparent mr-auto"
         >
           <option value="">Any distance</option>
-          <option value="25">Within 25 mi</option>
-          <option value="50">Within 50 mi</option>
-          <option value="100">Within 100 mi</option>
-          <option value="200">Within 200 mi</option>
+          {radiusOptions.map((miles) => (
+            <option key={miles} value={miles}>
+              Within {miles} mi
+            </option>
+          ))}
         </select>
         {viewMode === "table" && (
           <button
@@ -1479,6 +1548,17 @@ export function EventsView({
             <CalendarIcon className="w-4 h-4" />
             Calendar
           </button>
+          <button
+            onClick={() => switchView("map")}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              viewMode === "map"
+                ? "bg-secondary text-secondary-foreground"
+                : "text-muted-foreground hover:bg-muted"
+            }`}
+          >
+            <MapIcon className="w-4 h-4" />
+            Map
+          </button>
         </div>
       </div>
 
@@ -1627,8 +1707,16 @@ export function EventsView({
         />
       )}
 
-      {/* Pagination - only shown for cards/table views, not calendar */}
-      {viewMode !== "calendar" && (
+      {/* Map View — the client radius filter applies, the list sort doesn't */}
+      {viewMode === "map" && (
+        <EventsMap
+          events={displayEvents}
+          truncatedTotal={total !== undefined && total > events.length ? total : undefined}
+        />
+      )}
+
+      {/* Pagination - only shown for cards/table views, not calendar or map */}
+      {viewMode !== "calendar" && viewMode !== "map" && (
         <Pagination
           currentPage={currentPage}
           totalPages={totalPages}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SubscribeCalendarLink } from "@/components/events/subscribe-calendar-link";
+
+interface PrivateCalendarFeedProps {
+  initialUrl: string;
+}
+
+/**
+ * The dashboard's private favorites feed. The URL is the credential, so the
+ * copy says so, and "Reset link" rotates it — the only way to cut off a
+ * calendar the link was shared into.
+ */
+export function PrivateCalendarFeed({ initialUrl }: PrivateCalendarFeedProps) {
+  const [url, setUrl] = useState(initialUrl);
+  const [resetting, setResetting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReset = async () => {
+    if (!confirm("Reset your calendar link? Calendars subscribed to the old link stop updating.")) {
+      return;
+    }
+    setResetting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/user/calendar-feed", { method: "POST" });
+      if (res.ok) {
+        const data = (await res.json()) as { url: string };
+        setUrl(data.url);
+      } else {
+        setError("Failed to reset link");
+      }
+    } catch {
+      setError("Failed to reset link");
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 print:hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="font-semibold text-foreground">Calendar feed</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Your favorite events, plus everything at your favorite venues and promoters. This link
+            is private — anyone with it can see your favorites.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleReset} isLoading={resetting}>
+          <RefreshCw className="w-4 h-4 mr-2" aria-hidden="true" />
+          Reset link
+        </Button>
+      </div>
+      <SubscribeCalendarLink feedUrl={url} className="mt-3" />
+      {error && <p className="mt-2 text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { BellPlus, Check } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { cn } from "@/lib/utils";
+
+interface SaveSearchButtonProps {
+  /** The listing's filter state — same keys as the calendar feed's query string. */
+  params: Record<string, string | undefined>;
+  /** A `/events/{state}/{facet}` page's facet slug; `params.state` must be set with it. */
+  facet?: string;
+  className?: string;
+}
+
+/**
+ * "Email me new matches" beside the calendar subscribe link. Saves the current
+ * filters as a weekly saved search; frequency and email are changed later on
+ * /dashboard. Logged-out visitors are sent to sign in and back.
+ */
+export function SaveSearchButton({ params, facet, className }: SaveSearchButtonProps) {
+  const { data: session } = useSession();
+  const [state, setState] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!session?.user) {
+      window.location.href =
+        "/login?callbackUrl=" +
+        encodeURIComponent(window.location.pathname + window.location.search);
+      return;
+    }
+    setState("saving");
+    setMessage(null);
+    const body: Record<string, string> = {};
+    for (const [key, value] of Object.entries(params)) if (value) body[key] = value;
+    if (facet) body.facet = facet;
+    try {
+      const res = await fetch("/api/user/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ params: body }),
+      });
+      if (res.ok) {
+        setState("saved");
+        return;
+      }
+      // 409 explains itself: already saved, or at the per-account cap.
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      setMessage(data.error ?? null);
+      setState("error");
+    } catch {
+      setState("error");
+    }
+  };
+
+  return (
+    <span className={cn("inline-flex items-center gap-2 text-sm print:hidden", className)}>
+      {state === "saved" ? (
+        <>
+          <Check className="w-4 h-4 text-sage-700" aria-hidden="true" />
+          <span className="text-foreground">
+            Saved —{" "}
+            <Link href="/dashboard#saved-searches" className="text-royal hover:underline">
+              manage alerts
+            </Link>
+          </span>
+        </>
+      ) : (
+        <>
+          <BellPlus className="w-4 h-4 text-royal" aria-hidden="true" />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={state === "saving"}
+            className="text-royal hover:text-navy hover:underline disabled:opacity-60"
+          >
+            {state === "saving" ? "Saving…" : "Email me new matches"}
+          </button>
+          {state === "error" && (
+            <span className="text-destructive">{message ?? "Couldn't save this search"}</span>
+          )}
+        </>
+      )}
+    </span>
+  );
+}
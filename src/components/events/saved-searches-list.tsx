@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Bell, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+
+export interface SavedSearchItem {
+  id: string;
+  name: string;
+  path: string;
+  frequency: "DAILY" | "WEEKLY";
+  emailEnabled: boolean;
+}
+
+interface SavedSearchesListProps {
+  initialSearches: SavedSearchItem[];
+}
+
+/**
+ * The dashboard's saved searches. Each reports newly approved matches to the
+ * notification bell on its schedule, and by email unless switched off here
+ * (or by the unsubscribe link in a digest, which switches off all of them).
+ */
+export function SavedSearchesList({ initialSearches }: SavedSearchesListProps) {
+  const [searches, setSearches] = useState(initialSearches);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = async (
+    id: string,
+    patch: Partial<Pick<SavedSearchItem, "frequency" | "emailEnabled">>
+  ) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/user/saved-searches/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      if (res.ok) {
+        setSearches((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+      } else {
+        setError("Failed to update saved search");
+      }
+    } catch {
+      setError("Failed to update saved search");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (!confirm("Delete this saved search? You'll stop hearing about new matches.")) return;
+    setBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/user/saved-searches/${id}`, { method: "DELETE" });
+      if (res.ok) {
+        setSearches((prev) => prev.filter((s) => s.id !== id));
+      } else {
+        setError("Failed to delete saved search");
+      }
+    } catch {
+      setError("Failed to delete saved search");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card id="saved-searches" className="mb-8 scroll-mt-24">
+      <CardHeader>
+        <h2 className="text-lg font-semibold text-foreground">Saved searches</h2>
+        <p className="mt-1 text-sm text-muted-foreground">
+          New events matching these show up in your notifications, and in an email digest if you
+          want one.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {searches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved searches yet. Filter the{" "}
+            <Link href="/events" className="text-navy hover:underline">
+              events listing
+            </Link>{" "}
+            and choose &ldquo;Email me new matches&rdquo;.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {searches.map((s) => (
+              <li key={s.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Bell className="w-4 h-4 text-royal flex-shrink-0" aria-hidden="true" />
+                  <Link
+                    href={s.path}
+                    className="font-medium text-foreground hover:text-navy truncate"
+                  >
+                    {s.name}
+                  </Link>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <label className="inline-flex items-center gap-1 text-muted-foreground">
+                    <span className="sr-only">Frequency for {s.name}</span>
+                    <select
+                      value={s.frequency}
+                      disabled={busyId === s.id}
+                      onChange={(e) =>
+                        update(s.id, { frequency: e.target.value as SavedSearchItem["frequency"] })
+                      }
+                      className="rounded-md border border-input bg-background px-2 py-1 text-foreground"
+                    >
+                      <option value="DAILY">Daily</option>
+                      <option value="WEEKLY">Weekly</option>
+                    </select>
+                  </label>
+                  <label className="inline-flex items-center gap-1 text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={s.emailEnabled}
+                      disabled={busyId === s.id}
+                      onChange={(e) => update(s.id, { emailEnabled: e.target.checked })}
+                    />
+                    Email
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(s.id)}
+                    disabled={busyId === s.id}
+                    aria-label={`Delete ${s.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" aria-hidden="true" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {error && <p className="mt-2 text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,6 +10,7 @@ import { isPublicEventStatus } from "@/lib/event-status";
 import { upcomingEndPredicate } from "@/lib/event-dates";
 import { attachEventDayDates } from "@/lib/event-days-attach";
 import { eventJoinProjection } from "@/lib/db/event-join-projection";
+import { MAP_VIEW_MAX_EVENTS } from "@/lib/map/event-pins";
 import { ItemListSchema } from "@/components/seo/ItemListSchema";
 import { BreadcrumbSchema } from "@/components/seo/BreadcrumbSchema";
 import { getStateColors } from "@/lib/state-colors";
@@ -19,6 +20,7 @@ import { buildStateTitle, buildStateMetaDescription } from "@/lib/seo-utils";
 import { FAQPageSchema } from "@/components/seo/FAQPageSchema";
 import { FacetNav } from "@/components/events/facet-nav";
 import { stateHasFacets } from "@/lib/events/facets";
+import { feedAlternates } from "@/lib/event-feeds/render";
 import {
   buildStateIntro,
   buildStateFaq,
@@ -179,7 +181,10 @@ export async function getStateMetadata(stateSlug: string): Promise<Metadata> {
   return {
     title,
     description,
-    alternates: { canonical },
+    alternates: {
+      canonical,
+      types: feedAlternates("/api/feeds/events", `Meet Me at the Fair — ${name}`, `?state=${code}`),
+    },
     openGraph: {
       title,
       description,
@@ -270,15 +275,17 @@ async function getStateInventory(stateCode: string): Promise<StateInventory> {
 
 interface StateEventsPageProps {
   stateSlug: string;
-  searchParams: { page?: string; includePast?: string };
+  searchParams: { page?: string; includePast?: string; view?: string };
 }
 
 export async function StateEventsPage({ stateSlug, searchParams }: StateEventsPageProps) {
   const state = STATE_MAP[stateSlug];
   if (!state) return null;
 
-  const page = parseInt(searchParams.page || "1");
-  const limit = 30;
+  // Map mode plots the whole state at once — one oversized first page.
+  const mapView = searchParams.view === "map";
+  const page = mapView ? 1 : parseInt(searchParams.page || "1");
+  const limit = mapView ? MAP_VIEW_MAX_EVENTS : 30;
   const includePast = searchParams.includePast === "true";
   const { events: eventsList, total } = await getStateEvents(state.code, page, limit, includePast);
   const totalPages = Math.ceil(total / limit);
@@ -363,6 +370,7 @@ export async function StateEventsPage({ stateSlug, searchParams }: StateEventsPa
 
       {/* Include past events toggle */}
       <form className="mb-6 flex items-center gap-3">
+        {mapView && <input type="hidden" name="view" value="map" />}
         <label className="flex items-center gap-2">
           <input
             type="checkbox"
@@ -382,7 +390,7 @@ export async function StateEventsPage({ stateSlug, searchParams }: StateEventsPa
       {eventsList.length > 0 ? (
         <EventsView
           events={eventsList}
-          view="cards"
+          view={mapView ? "map" : "cards"}
           emptyMessage={`No upcoming events found in ${state.name}. Check back soon!`}
           currentPage={page}
           totalPages={totalPages}
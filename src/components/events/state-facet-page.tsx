@@ -15,11 +15,15 @@ import type { Metadata } from "next";
 import { CalendarDays, MapPin, Tag, Sparkles } from "lucide-react";
 import { EventsView } from "@/components/events/events-view";
 import { FacetNav } from "@/components/events/facet-nav";
+import { SubscribeCalendarLink } from "@/components/events/subscribe-calendar-link";
+import { feedAlternates } from "@/lib/event-feeds/render";
+import { SaveSearchButton } from "@/components/events/save-search-button";
 import { getCloudflareDb } from "@/lib/cloudflare";
 import { ItemListSchema } from "@/components/seo/ItemListSchema";
 import { BreadcrumbSchema } from "@/components/seo/BreadcrumbSchema";
 import { truncateAtBoundary } from "@/lib/seo/truncate-meta";
 import { STATES, STATE_BY_SLUG } from "@/lib/states";
+import { MAP_VIEW_MAX_EVENTS } from "@/lib/map/event-pins";
 import {
   countFacetEvents,
   countFacetForIndexing,
@@ -172,7 +176,14 @@ export async function getFacetMetadata(stateSlug: string, facetSlug: string): Pr
   return {
     title,
     description,
-    alternates: { canonical },
+    alternates: {
+      canonical,
+      types: feedAlternates(
+        "/api/feeds/events",
+        `Meet Me at the Fair — ${facet.label} · ${state.name}`,
+        `?state=${state.code}&facet=${encodeURIComponent(facetSlug)}`
+      ),
+    },
     // Below the depth floor the page still serves readers and still passes link
     // equity onward — it just does not ask to be indexed. `follow` stays true so
     // the events it lists are still discovered through it.
@@ -203,7 +214,7 @@ export async function getFacetMetadata(stateSlug: string, facetSlug: string): Pr
 interface StateFacetPageProps {
   stateSlug: string;
   facetSlug: string;
-  searchParams: { page?: string };
+  searchParams: { page?: string; view?: string };
 }
 
 export async function StateFacetPage({ stateSlug, facetSlug, searchParams }: StateFacetPageProps) {
@@ -215,7 +226,9 @@ export async function StateFacetPage({ stateSlug, facetSlug, searchParams }: Sta
   // indexed, and then every typo is a competing URL.
   if (!state || !facet) notFound();
 
-  const page = Math.max(1, parseInt(searchParams.page || "1", 10) || 1);
+  // Map mode plots the whole facet at once — one oversized first page.
+  const mapView = searchParams.view === "map";
+  const page = mapView ? 1 : Math.max(1, parseInt(searchParams.page || "1", 10) || 1);
   const db = getCloudflareDb();
   const { events: eventsList, total } = await getFacetEvents(
     db,
@@ -224,7 +237,7 @@ export async function StateFacetPage({ stateSlug, facetSlug, searchParams }: Sta
     facet,
     now,
     page,
-    PAGE_SIZE
+    mapView ? MAP_VIEW_MAX_EVENTS : PAGE_SIZE
   );
   const totalPages = Math.ceil(total / PAGE_SIZE);
 
@@ -280,6 +293,12 @@ export async function StateFacetPage({ stateSlug, facetSlug, searchParams }: Sta
             ? `${total} upcoming ${total === 1 ? "event" : "events"}. ${facet.blurb}`
             : facet.blurb}
         </p>
+        <div className="mt-3 flex flex-wrap items-center gap-x-6 gap-y-2">
+          <SubscribeCalendarLink
+            feedPath={`/api/calendar/events?state=${state.code}&facet=${encodeURIComponent(facetSlug)}`}
+          />
+          <SaveSearchButton params={{ state: state.code }} facet={facetSlug} />
+        </div>
 
         <nav className="mt-4 text-sm text-muted-foreground" aria-label="Breadcrumb">
           <Link href="/" className="hover:text-navy">
@@ -301,7 +320,7 @@ export async function StateFacetPage({ stateSlug, facetSlug, searchParams }: Sta
       {eventsList.length > 0 ? (
         <EventsView
           events={eventsList}
-          view="cards"
+          view={mapView ? "map" : "cards"}
           emptyMessage={`Nothing listed yet for ${facet.label}.`}
           currentPage={page}
           totalPages={totalPages}
@@ -0,0 +1,45 @@
+import { CalendarPlus } from "lucide-react";
+import { SITE_URL } from "@takemetothefair/constants";
+import { googleSubscribeUrl, toWebcalUrl } from "@/lib/calendar/ical-feed";
+import { cn } from "@/lib/utils";
+
+interface SubscribeCalendarLinkProps {
+  /** Site-relative feed path, e.g. "/api/calendar/venues/big-e". Ignored when `feedUrl` is set. */
+  feedPath?: string;
+  /** Absolute feed URL — the private favorites feed arrives fully formed from the API. */
+  feedUrl?: string;
+  className?: string;
+}
+
+/**
+ * "Subscribe" (webcal://, which Apple Calendar and Outlook open as a live
+ * subscription) plus a Google Calendar add-by-URL link. Unlike AddToCalendar
+ * this follows the list: events added, moved or cancelled later reach the
+ * subscriber's calendar on its next refresh.
+ */
+export function SubscribeCalendarLink({
+  feedPath,
+  feedUrl,
+  className,
+}: SubscribeCalendarLinkProps) {
+  const url = feedUrl ?? `${SITE_URL}${feedPath ?? ""}`;
+  return (
+    <span className={cn("inline-flex items-center gap-2 text-sm print:hidden", className)}>
+      <CalendarPlus className="w-4 h-4 text-royal" aria-hidden="true" />
+      <a href={toWebcalUrl(url)} className="text-royal hover:text-navy hover:underline">
+        Subscribe to calendar
+      </a>
+      <span className="text-muted-foreground" aria-hidden="true">
+        ·
+      </span>
+      <a
+        href={googleSubscribeUrl(url)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-royal hover:text-navy hover:underline"
+      >
+        Google Calendar
+      </a>
+    </span>
+  );
+}
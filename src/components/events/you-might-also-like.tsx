@@ -0,0 +1,43 @@
+import Link from "next/link";
+import { Sparkles } from "lucide-react";
+import { EventCard } from "@/components/events/event-card";
+import type { RecommendedEvent } from "@/lib/event-recommendations/recommend";
+
+interface Props {
+  events: RecommendedEvent[];
+  /** Past event pages add a way out to the listings under the module. */
+  showBrowseLink?: boolean;
+}
+
+/**
+ * Event-page "You might also like" — replaces the old same-venue /
+ * same-category "Related Events" strip. Each card carries its reason so a
+ * pick that looks unrelated at a glance ("Vendors you follow will be there")
+ * explains itself. Renders nothing when no candidate cleared the bar.
+ */
+export function YouMightAlsoLike({ events, showBrowseLink = false }: Props) {
+  if (events.length === 0) return null;
+  return (
+    <div className="mt-12 border-t border-border pt-8">
+      <h2 className="text-2xl font-bold text-foreground mb-6">You might also like</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {events.map((event) => (
+          <div key={event.id} className="flex flex-col gap-2">
+            <EventCard event={event} />
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Sparkles className="w-3 h-3" aria-hidden />
+              {event.recommendationReason}
+            </p>
+          </div>
+        ))}
+      </div>
+      {showBrowseLink && (
+        <div className="mt-6 text-center">
+          <Link href="/events" className="text-royal hover:text-navy text-sm font-medium">
+            Browse upcoming events &rarr;
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
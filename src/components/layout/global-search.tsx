@@ -6,17 +6,36 @@ import { Search, Calendar, MapPin, Store, FileText, HelpCircle, X } from "lucide
 import { IconButton } from "@/components/ui/icon-button";
 import { trackEvent, trackSearchResults, trackZeroResults } from "@/lib/analytics";
 import { displayVenueName } from "@/lib/venue-display";
+import { HighlightedText } from "@/components/search/HighlightedText";
+import type { HighlightSegment } from "@/lib/search/fts";
 
 interface SearchResults {
-  events: { name: string; slug: string; startDate: string | null }[];
-  venues: { name: string; slug: string; city: string | null; state: string | null }[];
+  events: {
+    name: string;
+    slug: string;
+    startDate: string | null;
+    highlight?: HighlightSegment[];
+  }[];
+  venues: {
+    name: string;
+    slug: string;
+    city: string | null;
+    state: string | null;
+    highlight?: HighlightSegment[];
+  }[];
   vendors: {
     businessName: string;
     displayName?: string | null;
     slug: string;
     vendorType: string | null;
+    highlight?: HighlightSegment[];
+  }[];
+  blogPosts: {
+    title: string;
+    slug: string;
+    excerpt: string | null;
+    highlight?: HighlightSegment[];
   }[];
-  blogPosts: { title: string; slug: string; excerpt: string | null }[];
   help: { slug: string; title: string; category: string }[];
 }
 
@@ -193,7 +212,9 @@ export function GlobalSearch() {
                       className="w-full text-left px-3 py-2 hover:bg-muted flex items-center gap-3 transition-colors"
                     >
                       <Calendar className="w-4 h-4 text-amber-fg flex-shrink-0" />
-                      <span className="text-sm text-foreground truncate">{event.name}</span>
+                      <span className="text-sm text-foreground truncate">
+                        <HighlightedText segments={event.highlight} fallback={event.name} />
+                      </span>
                     </button>
                   ))}
                 </div>
@@ -213,7 +234,14 @@ export function GlobalSearch() {
                       <MapPin className="w-4 h-4 text-royal flex-shrink-0" />
                       <div className="min-w-0">
                         <div className="text-sm text-foreground truncate">
-                          {displayVenueName(venue)}
+                          {/* The highlight is of the stored name; when the
+                              display name differs, show it unhighlighted. */}
+                          <HighlightedText
+                            segments={
+                              displayVenueName(venue) === venue.name ? venue.highlight : undefined
+                            }
+                            fallback={displayVenueName(venue)}
+                          />
                         </div>
                         {(venue.city || venue.state) && (
                           <div className="text-xs text-muted-foreground">
@@ -244,7 +272,10 @@ export function GlobalSearch() {
                               "LeafFilter" instead of "LeafFilter North LLC").
                               Full brand_parent-mode collapse (one search row
                               per brand) lands with PR EH2.4's search dedup. */}
-                          {vendor.displayName ?? vendor.businessName}
+                          <HighlightedText
+                            segments={vendor.highlight}
+                            fallback={vendor.displayName ?? vendor.businessName}
+                          />
                         </div>
                         {vendor.vendorType && (
                           <div className="text-xs text-muted-foreground">{vendor.vendorType}</div>
@@ -267,7 +298,9 @@ export function GlobalSearch() {
                       className="w-full text-left px-3 py-2 hover:bg-muted flex items-center gap-3 transition-colors"
                     >
                       <FileText className="w-4 h-4 text-purple-600 flex-shrink-0" />
-                      <span className="text-sm text-foreground truncate">{post.title}</span>
+                      <span className="text-sm text-foreground truncate">
+                        <HighlightedText segments={post.highlight} fallback={post.title} />
+                      </span>
                     </button>
                   ))}
                 </div>
@@ -4,11 +4,12 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useSession, signOut } from "next-auth/react";
 import { useState, useEffect } from "react";
-import { Menu, X, User, LogOut, Settings, Calendar, Store } from "lucide-react";
+import { Menu, X, User, LogOut, Settings, Calendar, Store, Bell } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { IconButton } from "@/components/ui/icon-button";
 import { GlobalSearch } from "./global-search";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { NotificationBell } from "@/components/notifications/notification-bell";
 
 export function Header() {
   const { data: session, status } = useSession();
@@ -36,6 +37,7 @@ export function Header() {
   const userNavigation = [
     { name: "Dashboard", href: "/dashboard", icon: Calendar },
     { name: "Favorites", href: "/dashboard/favorites", icon: Store },
+    { name: "Notifications", href: "/dashboard/notifications", icon: Bell },
     { name: "Settings", href: "/dashboard/settings", icon: Settings },
   ];
 
@@ -115,6 +117,7 @@ export function Header() {
                 IconButton size="md" (40×40) matches the GlobalSearch
                 trigger so visual alignment stays consistent. */}
             <ThemeToggle />
+            {session && <NotificationBell />}
             {status === "loading" ? (
               <div className="h-8 w-20 bg-muted rounded animate-pulse" />
             ) : session ? (
@@ -241,7 +244,8 @@ export function Header() {
             )}
           </div>
 
-          <div className="md:hidden">
+          <div className="md:hidden flex items-center">
+            {session && <NotificationBell />}
             {/* U7 (2026-06-07) — migrated to IconButton primitive so the
                 hit-area floor (min 40×40 at size="md") is enforced at the
                 type level and the required-aria-label prop guarantees a
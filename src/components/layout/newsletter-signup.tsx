@@ -12,9 +12,17 @@ import { NEWSLETTER_NAME } from "@/lib/newsletter-masthead";
  * placement. With the same form on event pages, blog posts and archives, a
  * fixed value would make every signup look like a footer signup and hide which
  * surface actually converts — the one thing the growth target needs to know.
+ *
+ * `askZip` adds an optional home-ZIP field (drizzle/0237) so the digest can
+ * lead with what's near the subscriber. Off in the footer, where the form has
+ * to stay one line; the rest of the profile lives on /newsletter/preferences.
  */
-export function NewsletterSignup({ source = "footer" }: { source?: string } = {}) {
+export function NewsletterSignup({
+  source = "footer",
+  askZip = false,
+}: { source?: string; askZip?: boolean } = {}) {
   const [email, setEmail] = useState("");
+  const [zip, setZip] = useState("");
   const [status, setStatus] = useState<"idle" | "submitting" | "done" | "error">("idle");
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -25,7 +33,7 @@ export function NewsletterSignup({ source = "footer" }: { source?: string } = {}
       const res = await fetch("/api/newsletter/subscribe", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, source }),
+        body: JSON.stringify({ email, source, ...(zip.trim() ? { zip: zip.trim() } : {}) }),
       });
       setStatus(res.ok ? "done" : "error");
       // ENG1.3 (2026-06-09) — fire AFTER res.ok so failed POSTs don't
@@ -87,6 +95,26 @@ export function NewsletterSignup({ source = "footer" }: { source?: string } = {}
           </button>
         </div>
       )}
+      {askZip && status !== "done" && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="newsletter-zip" className="text-xs text-footer-foreground/70">
+            Home ZIP <span className="sr-only">(optional)</span>
+          </label>
+          <input
+            id="newsletter-zip"
+            type="text"
+            inputMode="numeric"
+            autoComplete="postal-code"
+            pattern="[0-9]{5}"
+            maxLength={5}
+            value={zip}
+            onChange={(e) => setZip(e.target.value)}
+            placeholder="04101"
+            className="w-24 px-2 py-1 rounded-md bg-footer-foreground/10 border border-footer-foreground/20 text-footer-foreground placeholder:text-footer-foreground/60 text-xs focus:border-amber focus:outline-none"
+          />
+          <span className="text-xs text-footer-foreground/60">optional — for shows near you</span>
+        </div>
+      )}
       {status === "error" && (
         // Dark-mode closeout (2026-06-08) — last untokenized error color
         // in the codebase. Pre-fix `text-red-300` on the footer's
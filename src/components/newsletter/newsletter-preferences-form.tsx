@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { Check } from "lucide-react";
+import { NEAR_RADIUS_OPTIONS } from "@takemetothefair/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { EVENT_CATEGORIES } from "@/lib/constants";
+
+/**
+ * drizzle/0237 — the subscriber's newsletter profile. Every field is optional:
+ * a blank ZIP and no categories is a valid answer, and puts them back on the
+ * issue everyone gets.
+ */
+export function NewsletterPreferencesForm({
+  token,
+  initial,
+}: {
+  token: string;
+  initial: { zip: string; radiusMiles: number; categories: string[] };
+}) {
+  const [zip, setZip] = useState(initial.zip);
+  const [radius, setRadius] = useState(String(initial.radiusMiles));
+  const [categories, setCategories] = useState<string[]>(initial.categories);
+  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const toggle = (category: string) => {
+    setStatus("idle");
+    setCategories((prev) =>
+      prev.includes(category) ? prev.filter((c) => c !== category) : [...prev, category]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus("saving");
+    setMessage(null);
+    try {
+      const res = await fetch("/api/newsletter/preferences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, zip, radius, categories }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        unknownZip?: boolean;
+        message?: string;
+      };
+      if (!res.ok) {
+        setStatus("error");
+        setMessage(data.message ?? "We couldn't save your preferences — try again in a moment.");
+        return;
+      }
+      setStatus("saved");
+      if (data.unknownZip) {
+        setMessage(
+          "Saved — but we don't recognize that ZIP yet, so your newsletter won't be localized until we do."
+        );
+      }
+    } catch {
+      setStatus("error");
+      setMessage("We couldn't save your preferences — try again in a moment.");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <Input
+          name="zip"
+          label="Home ZIP code"
+          inputMode="numeric"
+          autoComplete="postal-code"
+          maxLength={5}
+          placeholder="04101"
+          value={zip}
+          onChange={(e) => {
+            setStatus("idle");
+            setZip(e.target.value);
+          }}
+        />
+        <Select
+          name="radius"
+          label="Show me events within"
+          value={radius}
+          onChange={(e) => {
+            setStatus("idle");
+            setRadius(e.target.value);
+          }}
+          options={NEAR_RADIUS_OPTIONS.map((miles) => ({
+            value: String(miles),
+            label: `${miles} miles`,
+          }))}
+        />
+      </div>
+
+      <fieldset>
+        <legend className="text-sm font-medium text-foreground mb-2">
+          Kinds of events you like{" "}
+          <span className="font-normal text-muted-foreground">(leave blank for all)</span>
+        </legend>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {EVENT_CATEGORIES.map((category) => (
+            <label key={category} className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={categories.includes(category)}
+                onChange={() => toggle(category)}
+                className="rounded border-input"
+              />
+              {category}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex items-center gap-3">
+        <Button type="submit" disabled={status === "saving"}>
+          {status === "saving" ? "Saving…" : "Save preferences"}
+        </Button>
+        {status === "saved" && !message && (
+          <span className="inline-flex items-center gap-1 text-sm text-sage-700">
+            <Check className="w-4 h-4" aria-hidden />
+            Saved
+          </span>
+        )}
+      </div>
+      {message && (
+        <p
+          role={status === "error" ? "alert" : "status"}
+          className={
+            status === "error" ? "text-sm text-destructive" : "text-sm text-muted-foreground"
+          }
+        >
+          {message}
+        </p>
+      )}
+    </form>
+  );
+}
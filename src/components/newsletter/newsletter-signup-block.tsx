@@ -14,6 +14,8 @@ import { NEWSLETTER_NAME } from "@/lib/newsletter-masthead";
  * templates, a forgotten source silently attributes a signup to the wrong
  * surface, and knowing WHICH surface converts is the entire point of putting
  * it in more than one place.
+ *
+ * It asks for a home ZIP (optional); the footer form doesn't have the room.
  */
 export function NewsletterSignupBlock({ source }: { source: string }) {
   return (
@@ -31,7 +33,7 @@ export function NewsletterSignupBlock({ source }: { source: string }) {
             What&apos;s on across New England this weekend — one short email, every week, free.
           </p>
           <div className="mt-3 max-w-sm">
-            <NewsletterSignup source={source} />
+            <NewsletterSignup source={source} askZip />
           </div>
         </div>
       </div>
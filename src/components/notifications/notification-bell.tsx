@@ -0,0 +1,195 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { IconButton } from "@/components/ui/icon-button";
+import { formatTimestamp } from "@/lib/datetime";
+import { cn } from "@/lib/utils";
+import type { NotificationItem } from "./notifications-list";
+
+// How often the badge refreshes while the tab is visible. Notifications are
+// written by admin/promoter actions and the daily digest, not in real time,
+// so a couple of minutes behind is fine.
+const POLL_MS = 2 * 60 * 1000;
+const PREVIEW_COUNT = 8;
+
+/**
+ * Header bell for signed-in users: unread badge plus a dropdown of the latest
+ * notifications. Following one marks it read; the full list, deletes and
+ * the rest live on /dashboard/notifications.
+ */
+export function NotificationBell({ className }: { className?: string }) {
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/user/notifications?limit=${PREVIEW_COUNT}`);
+      if (!res.ok) return;
+      const data = (await res.json()) as {
+        notifications: NotificationItem[];
+        unreadCount: number;
+      };
+      setItems(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch {
+      // Silently fail — the bell just keeps its last state
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(() => {
+      if (document.visibilityState === "visible") load();
+    }, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", onPointer);
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("mousedown", onPointer);
+      document.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  const markRead = (item: NotificationItem) => {
+    setOpen(false);
+    if (item.read) return;
+    setItems((prev) => prev.map((n) => (n.id === item.id ? { ...n, read: true } : n)));
+    setUnreadCount((c) => Math.max(c - 1, 0));
+    // Fire-and-forget: the navigation shouldn't wait on it.
+    fetch(`/api/user/notifications/${item.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ read: true }),
+    }).catch(() => {});
+  };
+
+  const markAllRead = async () => {
+    try {
+      const res = await fetch("/api/user/notifications/read-all", { method: "POST" });
+      if (res.ok) {
+        setItems((prev) => prev.map((n) => ({ ...n, read: true })));
+        setUnreadCount(0);
+      }
+    } catch {
+      // Leave the badge as it was
+    }
+  };
+
+  const label =
+    unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications, none unread";
+
+  return (
+    <div ref={containerRef} className={cn("relative", className)}>
+      <IconButton
+        size="md"
+        onClick={() => {
+          if (!open) load();
+          setOpen(!open);
+        }}
+        icon={<Bell className="w-5 h-5" />}
+        aria-label={label}
+        aria-expanded={open}
+        aria-haspopup="true"
+      />
+      {unreadCount > 0 && (
+        <span
+          aria-hidden="true"
+          className="pointer-events-none absolute top-1 right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-[11px] font-semibold leading-[18px] text-center text-white"
+        >
+          {unreadCount > 99 ? "99+" : unreadCount}
+        </span>
+      )}
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-card rounded-lg shadow-lg border border-border z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-border">
+            <span className="text-sm font-semibold text-foreground">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={markAllRead}
+                className="text-xs text-royal hover:text-navy hover:underline"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          {items.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-muted-foreground text-center">
+              You&apos;re all caught up.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+              {items.map((item) => {
+                const body = (
+                  <>
+                    <span
+                      className={cn(
+                        "block text-sm",
+                        item.read ? "text-foreground" : "font-semibold text-foreground"
+                      )}
+                    >
+                      {item.title}
+                    </span>
+                    <span className="block text-xs text-muted-foreground line-clamp-2">
+                      {item.message}
+                    </span>
+                    {item.createdAt && (
+                      <span className="block mt-0.5 text-[11px] text-muted-foreground">
+                        {formatTimestamp(item.createdAt)}
+                      </span>
+                    )}
+                  </>
+                );
+                const rowClass = cn(
+                  "block px-4 py-2 hover:bg-muted",
+                  !item.read && "bg-brand-blue-light/40"
+                );
+                return (
+                  <li key={item.id}>
+                    {item.url ? (
+                      <Link href={item.url} className={rowClass} onClick={() => markRead(item)}>
+                        {body}
+                      </Link>
+                    ) : (
+                      <button
+                        type="button"
+                        className={cn(rowClass, "w-full text-left")}
+                        onClick={() => markRead(item)}
+                      >
+                        {body}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <div className="px-4 py-2 border-t border-border text-center">
+            <Link
+              href="/dashboard/notifications"
+              className="text-sm font-medium text-navy hover:underline"
+              onClick={() => setOpen(false)}
+            >
+              View all notifications
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
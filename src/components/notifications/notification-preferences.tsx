@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BellRing } from "lucide-react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+
+interface PreferenceRow {
+  type: string;
+  label: string;
+  description: string;
+  email: boolean;
+  inApp: boolean;
+}
+
+/**
+ * Settings card: per notification type, whether it reaches the bell, email,
+ * both or neither. Each toggle saves on change. Saved-search emails are also
+ * switched per search on /dashboard; this is the account-wide switch above
+ * those.
+ */
+export function NotificationPreferences() {
+  const [rows, setRows] = useState<PreferenceRow[] | null>(null);
+  const [busyType, setBusyType] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/user/notification-preferences")
+      .then((res) =>
+        res.ok ? (res.json() as Promise<{ preferences: PreferenceRow[] }>) : Promise.reject(res)
+      )
+      .then((data) => setRows(data.preferences))
+      .catch(() => setError("Failed to load notification settings"));
+  }, []);
+
+  const update = async (
+    row: PreferenceRow,
+    patch: Partial<Pick<PreferenceRow, "email" | "inApp">>
+  ) => {
+    const next = { ...row, ...patch };
+    setBusyType(row.type);
+    setError(null);
+    try {
+      const res = await fetch("/api/user/notification-preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          preferences: [{ type: next.type, email: next.email, inApp: next.inApp }],
+        }),
+      });
+      if (res.ok) {
+        const data = (await res.json()) as { preferences: PreferenceRow[] };
+        setRows(data.preferences);
+      } else {
+        setError("Failed to save notification settings");
+      }
+    } catch {
+      setError("Failed to save notification settings");
+    } finally {
+      setBusyType(null);
+    }
+  };
+
+  return (
+    <Card id="notifications" className="mt-6 scroll-mt-24">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-foreground">Notifications</h2>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Pick how you hear about each kind of update: in your notifications (the bell), by email,
+          or both.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+        {rows === null ? (
+          !error && <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="pb-2 font-medium">Update</th>
+                <th className="pb-2 px-3 font-medium text-center">In-app</th>
+                <th className="pb-2 pl-3 font-medium text-center">Email</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {rows.map((row) => (
+                <tr key={row.type}>
+                  <td className="py-3 pr-3">
+                    <span className="block font-medium text-foreground">{row.label}</span>
+                    <span className="block text-xs text-muted-foreground">{row.description}</span>
+                  </td>
+                  <td className="py-3 px-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={row.inApp}
+                      disabled={busyType === row.type}
+                      onChange={(e) => update(row, { inApp: e.target.checked })}
+                      aria-label={`${row.label} in-app`}
+                      className="rounded border-border"
+                    />
+                  </td>
+                  <td className="py-3 pl-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={row.email}
+                      disabled={busyType === row.type}
+                      onChange={(e) => update(row, { email: e.target.checked })}
+                      aria-label={`${row.label} by email`}
+                      className="rounded border-border"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Check, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { formatTimestamp } from "@/lib/datetime";
+import { cn } from "@/lib/utils";
+
+/** The API's view of a notification (ClientNotification in src/lib/notifications). */
+export interface NotificationItem {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  read: boolean;
+  url: string | null;
+  createdAt: string | null;
+}
+
+interface NotificationsListProps {
+  initialNotifications: NotificationItem[];
+  initialUnreadCount: number;
+  pageSize: number;
+}
+
+/**
+ * /dashboard/notifications: the whole inbox, newest first, a page at a time.
+ * Per-row read/unread and delete; bulk mark-all-read and clear-read.
+ */
+export function NotificationsList({
+  initialNotifications,
+  initialUnreadCount,
+  pageSize,
+}: NotificationsListProps) {
+  const [items, setItems] = useState(initialNotifications);
+  const [unreadCount, setUnreadCount] = useState(initialUnreadCount);
+  const [hasMore, setHasMore] = useState(initialNotifications.length === pageSize);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (key: string, fn: () => Promise<boolean>, failure: string) => {
+    setBusy(key);
+    setError(null);
+    try {
+      if (!(await fn())) setError(failure);
+    } catch {
+      setError(failure);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const setRead = (item: NotificationItem, read: boolean) =>
+    run(
+      item.id,
+      async () => {
+        const res = await fetch(`/api/user/notifications/${item.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ read }),
+        });
+        if (!res.ok) return false;
+        setItems((prev) => prev.map((n) => (n.id === item.id ? { ...n, read } : n)));
+        setUnreadCount((c) => Math.max(c + (read ? -1 : 1), 0));
+        return true;
+      },
+      "Failed to update notification"
+    );
+
+  const remove = (item: NotificationItem) =>
+    run(
+      item.id,
+      async () => {
+        const res = await fetch(`/api/user/notifications/${item.id}`, { method: "DELETE" });
+        if (!res.ok) return false;
+        setItems((prev) => prev.filter((n) => n.id !== item.id));
+        if (!item.read) setUnreadCount((c) => Math.max(c - 1, 0));
+        return true;
+      },
+      "Failed to delete notification"
+    );
+
+  const markAllRead = () =>
+    run(
+      "all",
+      async () => {
+        const res = await fetch("/api/user/notifications/read-all", { method: "POST" });
+        if (!res.ok) return false;
+        setItems((prev) => prev.map((n) => ({ ...n, read: true })));
+        setUnreadCount(0);
+        return true;
+      },
+      "Failed to mark notifications read"
+    );
+
+  const clearRead = () => {
+    if (!confirm("Delete every notification you've already read?")) return;
+    return run(
+      "all",
+      async () => {
+        const res = await fetch("/api/user/notifications?read=1", { method: "DELETE" });
+        if (!res.ok) return false;
+        setItems((prev) => prev.filter((n) => !n.read));
+        return true;
+      },
+      "Failed to clear notifications"
+    );
+  };
+
+  const loadMore = () =>
+    run(
+      "more",
+      async () => {
+        const res = await fetch(`/api/user/notifications?limit=${pageSize}&offset=${items.length}`);
+        if (!res.ok) return false;
+        const data = (await res.json()) as {
+          notifications: NotificationItem[];
+          unreadCount: number;
+        };
+        setItems((prev) => {
+          const seen = new Set(prev.map((n) => n.id));
+          return [...prev, ...data.notifications.filter((n) => !seen.has(n.id))];
+        });
+        setUnreadCount(data.unreadCount);
+        setHasMore(data.notifications.length === pageSize);
+        return true;
+      },
+      "Failed to load more notifications"
+    );
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {unreadCount === 0 ? "No unread notifications" : `${unreadCount} unread`}
+        </p>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={markAllRead}
+            disabled={busy !== null || unreadCount === 0}
+          >
+            Mark all read
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={clearRead}
+            disabled={busy !== null || !items.some((n) => n.read)}
+          >
+            Clear read
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
+      {items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Nothing here yet. We&apos;ll let you know about claim and application decisions,
+            approved submissions, changes to fairs you&apos;ve favorited, and new matches for your
+            saved searches.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <ul className="divide-y divide-border">
+            {items.map((item) => (
+              <li
+                key={item.id}
+                className={cn(
+                  "flex items-start justify-between gap-4 px-4 py-3",
+                  !item.read && "bg-brand-blue-light/40"
+                )}
+              >
+                <div className="min-w-0">
+                  <p className={cn("text-sm text-foreground", !item.read && "font-semibold")}>
+                    {item.url ? (
+                      <Link
+                        href={item.url}
+                        className="hover:text-navy hover:underline"
+                        onClick={() => {
+                          if (!item.read) setRead(item, true);
+                        }}
+                      >
+                        {item.title}
+                      </Link>
+                    ) : (
+                      item.title
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{item.message}</p>
+                  {item.createdAt && (
+                    <p className="mt-0.5 text-xs text-muted-foreground">
+                      {formatTimestamp(item.createdAt)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-shrink-0 items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRead(item, !item.read)}
+                    disabled={busy !== null}
+                    aria-label={
+                      item.read ? `Mark "${item.title}" unread` : `Mark "${item.title}" read`
+                    }
+                  >
+                    <Check
+                      className={cn("w-4 h-4", item.read && "opacity-40")}
+                      aria-hidden="true"
+                    />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(item)}
+                    disabled={busy !== null}
+                    aria-label={`Delete "${item.title}"`}
+                  >
+                    <Trash2 className="w-4 h-4" aria-hidden="true" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {hasMore && items.length > 0 && (
+        <div className="mt-4 text-center">
+          <Button variant="outline" onClick={loadMore} disabled={busy !== null}>
+            {busy === "more" ? "Loading…" : "Load more"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Accepts a team invitation on click (POST /api/organizations/invites/accept)
+ * and sends the new member to their portal.
+ */
+export function AcceptInviteButton({ token }: { token: string }) {
+  const router = useRouter();
+  const [status, setStatus] = useState<"idle" | "sending" | "error">("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function accept() {
+    setStatus("sending");
+    setMessage(null);
+    try {
+      const res = await fetch("/api/organizations/invites/accept", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const body = (await res.json().catch(() => ({}))) as {
+        redirectTo?: string;
+        message?: string;
+        error?: string;
+      };
+      if (!res.ok || !body.redirectTo) {
+        setStatus("error");
+        setMessage(body.message ?? body.error ?? "Something went wrong. Please try again.");
+        return;
+      }
+      router.push(body.redirectTo);
+      router.refresh();
+    } catch (err) {
+      setStatus("error");
+      setMessage(`Network error: ${(err as Error).message}`);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {message && <p className="text-sm text-red-600">{message}</p>}
+      <Button onClick={accept} disabled={status === "sending"}>
+        {status === "sending" ? "Joining…" : "Accept invitation"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+type Role = "OWNER" | "EDITOR" | "VIEWER";
+
+interface TeamResponse {
+  organization: { name: string; slug: string } | null;
+  viewer: { userId: string; role: Role };
+  members: { userId: string; name: string | null; email: string; role: Role }[];
+  invites: { id: string; email: string; role: Role; expiresAt: string }[];
+}
+
+const ROLE_LABELS: Record<Role, string> = { OWNER: "Owner", EDITOR: "Editor", VIEWER: "Viewer" };
+
+const SEAT_OPTIONS = [
+  { value: "EDITOR", label: "Editor — can edit and apply" },
+  { value: "VIEWER", label: "Viewer — read only" },
+];
+
+/**
+ * The team screen shared by /vendor/profile/members and /promoter/members.
+ * Everyone on the team sees the roster; only the owner gets the invite form,
+ * role selects, removal and transfer. Members can leave. All state round-trips
+ * through /api/{vendor,promoter}/members, which re-checks every permission.
+ */
+export function TeamMembersPanel({ kind }: { kind: "vendor" | "promoter" }) {
+  const base = `/api/${kind}/members`;
+  const [team, setTeam] = useState<TeamResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ tone: "ok" | "error"; text: string } | null>(null);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<"EDITOR" | "VIEWER">("EDITOR");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    const res = await fetch(base);
+    if (res.ok) setTeam((await res.json()) as TeamResponse);
+    setLoading(false);
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function call(url: string, init: RequestInit, success: string) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const body = (await res.json().catch(() => ({}))) as { error?: string; message?: string };
+      if (!res.ok) {
+        setMessage({
+          tone: "error",
+          text: body.message ?? body.error ?? "Something went wrong. Please try again.",
+        });
+        return false;
+      }
+      setMessage({ tone: "ok", text: success });
+      await load();
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function invite(e: React.FormEvent) {
+    e.preventDefault();
+    const ok = await call(
+      base,
+      { method: "POST", body: JSON.stringify({ email, role }) },
+      `Invitation sent to ${email}.`
+    );
+    if (ok) setEmail("");
+  }
+
+  if (loading) {
+    return <div className="animate-pulse h-48 bg-muted rounded-lg" />;
+  }
+  if (!team) {
+    return <p className="text-muted-foreground">You aren&apos;t on a {kind} team yet.</p>;
+  }
+
+  const isOwner = team.viewer.role === "OWNER";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Team</h1>
+        <p className="mt-1 text-muted-foreground">
+          People who can manage {team.organization?.name ?? `this ${kind}`}. Your role:{" "}
+          {ROLE_LABELS[team.viewer.role]}
+          {team.viewer.role === "VIEWER" ? " (read only)" : ""}.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          className={
+            message.tone === "ok"
+              ? "rounded-md border border-sage-300 bg-sage-50 p-3 text-sm text-sage-700"
+              : "rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700"
+          }
+        >
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-foreground">Members</h2>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y divide-border">
+            {team.members.map((m) => {
+              const self = m.userId === team.viewer.userId;
+              return (
+                <li key={m.userId} className="flex flex-wrap items-center gap-3 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground truncate">
+                      {m.name || m.email}
+                      {self && <span className="text-muted-foreground"> (you)</span>}
+                    </p>
+                    {m.name && <p className="text-sm text-muted-foreground truncate">{m.email}</p>}
+                  </div>
+                  {isOwner && m.role !== "OWNER" ? (
+                    <>
+                      <div className="w-56">
+                        <Select
+                          aria-label={`Role for ${m.email}`}
+                          value={m.role}
+                          options={SEAT_OPTIONS}
+                          disabled={busy}
+                          onChange={(e) =>
+                            call(
+                              `${base}/${m.userId}`,
+                              { method: "PATCH", body: JSON.stringify({ role: e.target.value }) },
+                              `${m.email} is now a ${ROLE_LABELS[e.target.value as Role]}.`
+                            )
+                          }
+                        />
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => {
+                          if (
+                            confirm(
+                              `Make ${m.email} the owner? You'll stay on the team as an Editor.`
+                            )
+                          ) {
+                            call(
+                              `${base}/transfer`,
+                              { method: "POST", body: JSON.stringify({ userId: m.userId }) },
+                              `${m.email} is now the owner.`
+                            );
+                          }
+                        }}
+                      >
+                        Make owner
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() =>
+                          call(
+                            `${base}/${m.userId}`,
+                            { method: "DELETE" },
+                            `${m.email} was removed.`
+                          )
+                        }
+                      >
+                        Remove
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant={m.role === "OWNER" ? "success" : "default"}>
+                      {ROLE_LABELS[m.role]}
+                    </Badge>
+                  )}
+                  {self && m.role !== "OWNER" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busy}
+                      onClick={async () => {
+                        if (!confirm("Leave this team? You'll need a new invitation to rejoin.")) {
+                          return;
+                        }
+                        if (
+                          await call(
+                            `${base}/${m.userId}`,
+                            { method: "DELETE" },
+                            "You left the team."
+                          )
+                        ) {
+                          window.location.assign("/dashboard");
+                        }
+                      }}
+                    >
+                      Leave team
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </CardContent>
+      </Card>
+
+      {isOwner && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-foreground">Invite someone</h2>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={invite} className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-[16rem]">
+                <Input
+                  label="Email"
+                  name="email"
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+              <div className="w-56">
+                <Select
+                  label="Role"
+                  name="role"
+                  value={role}
+                  options={SEAT_OPTIONS}
+                  onChange={(e) => setRole(e.target.value as "EDITOR" | "VIEWER")}
+                />
+              </div>
+              <Button type="submit" disabled={busy || !email}>
+                Send invite
+              </Button>
+            </form>
+
+            {team.invites.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-foreground mb-2">Pending invitations</h3>
+                <ul className="divide-y divide-border">
+                  {team.invites.map((inv) => (
+                    <li key={inv.id} className="flex items-center gap-3 py-2 text-sm">
+                      <span className="flex-1 truncate">{inv.email}</span>
+                      <Badge>{ROLE_LABELS[inv.role]}</Badge>
+                      <span className="text-muted-foreground">
+                        expires {new Date(inv.expiresAt).toLocaleDateString()}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() =>
+                          call(
+                            `${base}/invites/${inv.id}`,
+                            { method: "DELETE" },
+                            `Invitation to ${inv.email} withdrawn.`
+                          )
+                        }
+                      >
+                        Revoke
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,466 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FileText, Mail, Phone, StickyNote } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { formatDateMedium, formatEventDateTime } from "@/lib/datetime";
+import {
+  EVENT_VENDOR_STATUS,
+  PAYMENT_STATUS_VALUES,
+  type EventVendorStatus,
+  type PaymentStatus,
+} from "@/lib/constants";
+import {
+  PAYMENT_STATUS_BADGE_VARIANTS,
+  PAYMENT_STATUS_LABELS,
+  STATUS_BADGE_VARIANTS,
+  STATUS_LABELS,
+  VALID_TRANSITIONS,
+} from "@/lib/vendor-status";
+import type { ApplicationAnswer } from "@/lib/validations";
+import { formatAnswerValue } from "@/lib/application-forms/form";
+
+export interface ApplicationBoardItem {
+  id: string;
+  businessName: string;
+  vendorSlug: string;
+  vendorType: string | null;
+  contactName: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  status: EventVendorStatus;
+  paymentStatus: PaymentStatus;
+  boothInfo: string | null;
+  promoterNotes: string | null;
+  answers: ApplicationAnswer[];
+  createdAt: string | null;
+  /** Deadline of an open waitlist booth offer (drizzle/0228), if any. */
+  offerExpiresAt: string | null;
+}
+
+// The happy-path lifecycle, left to right. Everything else (invited, rejected,
+// withdrawn, …) collects in a trailing "Other" column so no application
+// silently drops off the board once it leaves that path.
+const BOARD_COLUMNS: EventVendorStatus[] = [
+  EVENT_VENDOR_STATUS.APPLIED,
+  EVENT_VENDOR_STATUS.WAITLISTED,
+  EVENT_VENDOR_STATUS.APPROVED,
+  EVENT_VENDOR_STATUS.CONFIRMED,
+];
+
+const BULK_STATUS_OPTIONS = [
+  { value: "", label: "Change status…" },
+  ...[...BOARD_COLUMNS, EVENT_VENDOR_STATUS.REJECTED, EVENT_VENDOR_STATUS.CANCELLED].map((s) => ({
+    value: s,
+    label: STATUS_LABELS[s],
+  })),
+];
+
+const PAYMENT_OPTIONS = PAYMENT_STATUS_VALUES.map((p) => ({
+  value: p,
+  label: PAYMENT_STATUS_LABELS[p],
+}));
+
+interface ChangeResult {
+  updated: string[];
+  skipped: { id: string; reason: string }[];
+  emailed: number;
+}
+
+interface Props {
+  eventId: string;
+  applications: ApplicationBoardItem[];
+}
+
+export function ApplicationBoard({ eventId, applications }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [bulkStatus, setBulkStatus] = useState("");
+  const [bulkPayment, setBulkPayment] = useState("");
+  const [message, setMessage] = useState<{ kind: "ok" | "error"; text: string } | null>(null);
+
+  const byName = useMemo(
+    () => new Map(applications.map((a) => [a.id, a.businessName])),
+    [applications]
+  );
+
+  const columns = useMemo(() => {
+    const grouped = new Map<string, ApplicationBoardItem[]>(
+      [...BOARD_COLUMNS, "OTHER"].map((c) => [c, []])
+    );
+    for (const app of applications) {
+      const key = BOARD_COLUMNS.includes(app.status) ? app.status : "OTHER";
+      grouped.get(key)!.push(app);
+    }
+    return grouped;
+  }, [applications]);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const submit = async (ids: string[], change: Record<string, unknown>): Promise<boolean> => {
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/promoter/events/${eventId}/applications`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventVendorIds: ids, ...change }),
+      });
+      const data = (await res.json().catch(() => ({}))) as Partial<ChangeResult> & {
+        error?: string;
+      };
+      if (!res.ok) {
+        setMessage({ kind: "error", text: data.error || "Failed to update applications" });
+        return false;
+      }
+      const updated = data.updated?.length ?? 0;
+      const skipped = (data.skipped ?? []).filter((s) => s.reason !== "No change");
+      const parts = [`Updated ${updated} application${updated === 1 ? "" : "s"}`];
+      if (data.emailed)
+        parts.push(`emailed ${data.emailed} vendor${data.emailed === 1 ? "" : "s"}`);
+      if (skipped.length > 0) {
+        parts.push(
+          `skipped ${skipped
+            .map((s) => `${byName.get(s.id) ?? "unknown"} (${s.reason})`)
+            .join("; ")}`
+        );
+      }
+      setMessage({ kind: skipped.length > 0 ? "error" : "ok", text: parts.join(" · ") });
+      startTransition(() => router.refresh());
+      return true;
+    } catch {
+      setMessage({ kind: "error", text: "Failed to update applications" });
+      return false;
+    }
+  };
+
+  const handleBulkApply = async () => {
+    const change: Record<string, unknown> = {};
+    if (bulkStatus) change.status = bulkStatus;
+    if (bulkPayment) change.paymentStatus = bulkPayment;
+    if (Object.keys(change).length === 0 || selected.size === 0) return;
+    if (await submit([...selected], change)) {
+      setSelected(new Set());
+      setBulkStatus("");
+      setBulkPayment("");
+    }
+  };
+
+  if (applications.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No vendors have applied to this event yet. Applications appear here as soon as a vendor
+        applies.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div
+          role="status"
+          className={
+            message.kind === "ok"
+              ? "p-3 rounded-lg text-sm bg-sage-50 text-sage-700"
+              : "p-3 rounded-lg text-sm bg-red-50 text-red-600"
+          }
+        >
+          {message.text}
+        </div>
+      )}
+
+      {selected.size > 0 && (
+        <div className="flex flex-wrap items-end gap-3 p-3 rounded-lg border border-border bg-card">
+          <p className="text-sm font-medium text-foreground self-center">
+            {selected.size} selected
+          </p>
+          <div className="w-48">
+            <Select
+              aria-label="New status"
+              value={bulkStatus}
+              onChange={(e) => setBulkStatus(e.target.value)}
+              options={BULK_STATUS_OPTIONS}
+            />
+          </div>
+          <div className="w-48">
+            <Select
+              aria-label="New payment status"
+              value={bulkPayment}
+              onChange={(e) => setBulkPayment(e.target.value)}
+              options={[{ value: "", label: "Change payment…" }, ...PAYMENT_OPTIONS]}
+            />
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleBulkApply}
+            disabled={isPending || (!bulkStatus && !bulkPayment)}
+            isLoading={isPending}
+          >
+            Apply
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => setSelected(new Set())}>
+            Clear
+          </Button>
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-5">
+        {[...columns.entries()].map(([column, items]) => (
+          <section
+            key={column}
+            aria-label={column === "OTHER" ? "Other" : STATUS_LABELS[column as EventVendorStatus]}
+          >
+            <h2 className="text-sm font-semibold text-foreground mb-2">
+              {column === "OTHER" ? "Other" : STATUS_LABELS[column as EventVendorStatus]}{" "}
+              <span className="text-muted-foreground font-normal">({items.length})</span>
+            </h2>
+            <div className="space-y-2">
+              {items.map((app) => (
+                <ApplicationCard
+                  key={app.id}
+                  eventId={eventId}
+                  app={app}
+                  selected={selected.has(app.id)}
+                  onToggle={() => toggle(app.id)}
+                  editing={editingId === app.id}
+                  onEdit={() => setEditingId(editingId === app.id ? null : app.id)}
+                  onSave={async (change) => {
+                    if (await submit([app.id], change)) setEditingId(null);
+                  }}
+                  busy={isPending}
+                />
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ApplicationCard({
+  eventId,
+  app,
+  selected,
+  onToggle,
+  editing,
+  onEdit,
+  onSave,
+  busy,
+}: {
+  eventId: string;
+  app: ApplicationBoardItem;
+  selected: boolean;
+  onToggle: () => void;
+  editing: boolean;
+  onEdit: () => void;
+  onSave: (change: Record<string, unknown>) => Promise<void>;
+  busy: boolean;
+}) {
+  return (
+    <div
+      className={
+        selected
+          ? "rounded-lg border border-royal bg-card p-3 text-sm"
+          : "rounded-lg border border-border bg-card p-3 text-sm"
+      }
+    >
+      <div className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={onToggle}
+          aria-label={`Select ${app.businessName}`}
+          className="mt-1 rounded border-border"
+        />
+        <div className="flex-1 min-w-0">
+          <Link
+            href={`/vendors/${app.vendorSlug}`}
+            className="font-medium text-foreground hover:text-royal break-words"
+          >
+            {app.businessName}
+          </Link>
+          {app.vendorType && <p className="text-xs text-muted-foreground">{app.vendorType}</p>}
+          <div className="mt-1 flex flex-wrap gap-1">
+            {!BOARD_COLUMNS.includes(app.status) && (
+              <Badge variant={STATUS_BADGE_VARIANTS[app.status]}>{STATUS_LABELS[app.status]}</Badge>
+            )}
+            <Badge variant={PAYMENT_STATUS_BADGE_VARIANTS[app.paymentStatus]}>
+              {PAYMENT_STATUS_LABELS[app.paymentStatus]}
+            </Badge>
+            {app.boothInfo && <Badge variant="info">Booth {app.boothInfo}</Badge>}
+            {app.offerExpiresAt && (
+              <Badge variant="warning">
+                Offered a booth · until {formatEventDateTime(app.offerExpiresAt)}
+              </Badge>
+            )}
+          </div>
+          <div className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+            {app.contactName && <p>{app.contactName}</p>}
+            {app.contactEmail && (
+              <p className="flex items-center gap-1 break-all">
+                <Mail className="w-3 h-3 flex-shrink-0" aria-hidden />
+                {app.contactEmail}
+              </p>
+            )}
+            {app.contactPhone && (
+              <p className="flex items-center gap-1">
+                <Phone className="w-3 h-3 flex-shrink-0" aria-hidden />
+                {app.contactPhone}
+              </p>
+            )}
+            {app.createdAt && <p>Applied {formatDateMedium(app.createdAt)}</p>}
+            {app.promoterNotes && !editing && (
+              <p className="flex items-start gap-1 text-foreground">
+                <StickyNote className="w-3 h-3 mt-0.5 flex-shrink-0" aria-hidden />
+                <span className="break-words">{app.promoterNotes}</span>
+              </p>
+            )}
+          </div>
+          {app.answers.length > 0 && (
+            <details className="mt-2 text-xs">
+              <summary className="cursor-pointer text-royal hover:text-navy">
+                Application answers ({app.answers.length})
+              </summary>
+              <dl className="mt-1 space-y-1">
+                {app.answers.map((answer) => (
+                  <div key={answer.id}>
+                    <dt className="text-muted-foreground">{answer.label}</dt>
+                    <dd className="text-foreground break-words">
+                      {answer.type === "file" ? (
+                        <a
+                          href={`/api/promoter/events/${eventId}/applications/${app.id}/file?field=${answer.id}`}
+                          className="inline-flex items-center gap-1 text-royal hover:text-navy"
+                        >
+                          <FileText className="w-3 h-3 flex-shrink-0" aria-hidden />
+                          {formatAnswerValue(answer)}
+                        </a>
+                      ) : (
+                        formatAnswerValue(answer)
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </details>
+          )}
+        </div>
+      </div>
+
+      {editing ? (
+        <ApplicationEditor app={app} onCancel={onEdit} onSave={onSave} busy={busy} />
+      ) : (
+        <button type="button" onClick={onEdit} className="mt-2 text-xs text-royal hover:text-navy">
+          Edit
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Mounted only while open, so every edit starts from the latest server values
+// (the board refreshes after each save) instead of stale local state.
+function ApplicationEditor({
+  app,
+  onCancel,
+  onSave,
+  busy,
+}: {
+  app: ApplicationBoardItem;
+  onCancel: () => void;
+  onSave: (change: Record<string, unknown>) => Promise<void>;
+  busy: boolean;
+}) {
+  const [status, setStatus] = useState<string>(app.status);
+  const [payment, setPayment] = useState<string>(app.paymentStatus);
+  const [booth, setBooth] = useState(app.boothInfo ?? "");
+  const [notes, setNotes] = useState(app.promoterNotes ?? "");
+
+  const statusOptions = [app.status, ...VALID_TRANSITIONS[app.status]].map((s) => ({
+    value: s,
+    label: s === app.status ? `${STATUS_LABELS[s]} (current)` : STATUS_LABELS[s],
+  }));
+
+  const handleSave = () => {
+    const change: Record<string, unknown> = {};
+    if (status !== app.status) change.status = status;
+    if (payment !== app.paymentStatus) change.paymentStatus = payment;
+    if (booth.trim() !== (app.boothInfo ?? "")) change.boothInfo = booth.trim() || null;
+    if (notes.trim() !== (app.promoterNotes ?? "")) change.promoterNotes = notes.trim() || null;
+    if (Object.keys(change).length === 0) {
+      onCancel();
+      return;
+    }
+    void onSave(change);
+  };
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-border pt-3">
+      <Select
+        label="Status"
+        id={`status-${app.id}`}
+        value={status}
+        onChange={(e) => setStatus(e.target.value)}
+        options={statusOptions}
+      />
+      <Select
+        label="Payment"
+        id={`payment-${app.id}`}
+        value={payment}
+        onChange={(e) => setPayment(e.target.value)}
+        options={PAYMENT_OPTIONS}
+      />
+      <Input
+        label="Booth"
+        id={`booth-${app.id}`}
+        value={booth}
+        onChange={(e) => setBooth(e.target.value)}
+        placeholder="e.g. B-12"
+        maxLength={500}
+      />
+      <div>
+        <label
+          htmlFor={`notes-${app.id}`}
+          className="block text-sm font-medium text-foreground mb-1"
+        >
+          Private notes
+        </label>
+        <Textarea
+          id={`notes-${app.id}`}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          maxLength={2000}
+          rows={3}
+        />
+        <p className="mt-1 text-xs text-muted-foreground">Only you can see these.</p>
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" onClick={handleSave} disabled={busy} isLoading={busy}>
+          Save
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Status, payment and booth changes are emailed to the vendor.
+      </p>
+    </div>
+  );
+}
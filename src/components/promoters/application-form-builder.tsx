@@ -0,0 +1,271 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  APPLICATION_FIELD_TYPES,
+  type ApplicationFieldType,
+  type ApplicationForm,
+  type ApplicationFormField,
+} from "@/lib/validations";
+import { APPLICATION_FORM_PRESETS } from "@/lib/application-forms/form";
+
+const TYPE_LABELS: Record<ApplicationFieldType, string> = {
+  text: "Short answer",
+  textarea: "Paragraph",
+  select: "Dropdown",
+  multiselect: "Checkboxes (pick several)",
+  checkbox: "Yes / no",
+  file: "File upload",
+};
+
+const PREFILL_OPTIONS = [
+  { value: "", label: "Don't pre-fill" },
+  { value: "insuranceInfo", label: "Vendor profile: insurance" },
+  { value: "licenseInfo", label: "Vendor profile: license" },
+  { value: "products", label: "Vendor profile: products" },
+];
+
+function hasOptions(type: ApplicationFieldType) {
+  return type === "select" || type === "multiselect";
+}
+
+function nextQuestionId(fields: ApplicationFormField[]) {
+  const taken = new Set(fields.map((f) => f.id));
+  let n = fields.length + 1;
+  while (taken.has(`question_${n}`)) n += 1;
+  return `question_${n}`;
+}
+
+interface Props {
+  eventId: string;
+  initialForm: ApplicationForm;
+}
+
+/**
+ * Editor for one event's vendor application form. Field ids are fixed once a
+ * field is added — they key the stored answers — so only the label, type and
+ * options are editable.
+ */
+export function ApplicationFormBuilder({ eventId, initialForm }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [fields, setFields] = useState<ApplicationFormField[]>(initialForm.fields);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "ok" | "error"; text: string } | null>(null);
+
+  const update = (index: number, patch: Partial<ApplicationFormField>) =>
+    setFields((prev) => prev.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+
+  const move = (index: number, delta: number) =>
+    setFields((prev) => {
+      const next = [...prev];
+      const [field] = next.splice(index, 1);
+      next.splice(index + delta, 0, field);
+      return next;
+    });
+
+  const remove = (index: number) => setFields((prev) => prev.filter((_, i) => i !== index));
+
+  const unusedPresets = APPLICATION_FORM_PRESETS.filter(
+    (p) => !fields.some((f) => f.id === p.field.id)
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/promoter/events/${eventId}/application-form`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        // Blank lines are just the textarea mid-edit, not options.
+        body: JSON.stringify({
+          fields: fields.map((f) =>
+            f.options ? { ...f, options: f.options.map((o) => o.trim()).filter(Boolean) } : f
+          ),
+        }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        setMessage({ kind: "error", text: data.error || "Failed to save the form" });
+        return;
+      }
+      setMessage({
+        kind: "ok",
+        text:
+          fields.length === 0
+            ? "Form removed. Vendors will see the plain application again."
+            : "Form saved. New applications will use it.",
+      });
+      startTransition(() => router.refresh());
+    } catch {
+      setMessage({ kind: "error", text: "Failed to save the form" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {fields.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No questions yet — vendors apply with just an optional booth note. Add questions below.
+        </p>
+      )}
+
+      {fields.map((field, index) => (
+        <div key={field.id} className="rounded-lg border border-border bg-card p-4 space-y-3">
+          <div className="flex items-start gap-3">
+            <div className="flex-1 grid gap-3 md:grid-cols-2">
+              <Input
+                label="Question"
+                value={field.label}
+                onChange={(e) => update(index, { label: e.target.value })}
+                maxLength={200}
+              />
+              <Select
+                label="Answer type"
+                value={field.type}
+                onChange={(e) => {
+                  const type = e.target.value as ApplicationFieldType;
+                  update(index, {
+                    type,
+                    options: hasOptions(type) ? (field.options ?? []) : undefined,
+                  });
+                }}
+                options={APPLICATION_FIELD_TYPES.map((t) => ({ value: t, label: TYPE_LABELS[t] }))}
+              />
+            </div>
+            <div className="flex flex-col gap-1 pt-6">
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                aria-label="Move up"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                aria-label="Move down"
+                onClick={() => move(index, 1)}
+                disabled={index === fields.length - 1}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {hasOptions(field.type) && (
+            <div>
+              <Label htmlFor={`options-${field.id}`}>Options (one per line)</Label>
+              <Textarea
+                id={`options-${field.id}`}
+                rows={3}
+                value={(field.options ?? []).join("\n")}
+                onChange={(e) =>
+                  update(index, {
+                    options: e.target.value.split("\n"),
+                  })
+                }
+              />
+            </div>
+          )}
+
+          <div className="grid gap-3 md:grid-cols-2">
+            <Input
+              label="Help text (optional)"
+              value={field.help ?? ""}
+              onChange={(e) => update(index, { help: e.target.value || undefined })}
+              maxLength={500}
+            />
+            {field.type !== "checkbox" && field.type !== "file" && field.type !== "select" && (
+              <Select
+                label="Pre-fill from"
+                value={field.prefill ?? ""}
+                onChange={(e) =>
+                  update(index, {
+                    prefill: (e.target.value || undefined) as ApplicationFormField["prefill"],
+                  })
+                }
+                options={PREFILL_OPTIONS}
+              />
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                className="rounded border-border"
+                checked={field.required}
+                onChange={(e) => update(index, { required: e.target.checked })}
+              />
+              Required
+            </label>
+            <Button type="button" size="sm" variant="ghost" onClick={() => remove(index)}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Remove
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {unusedPresets.map((preset) => (
+          <Button
+            key={preset.field.id}
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setFields((prev) => [...prev, { ...preset.field }])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {preset.name}
+          </Button>
+        ))}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            setFields((prev) => [
+              ...prev,
+              { id: nextQuestionId(prev), type: "text", label: "", required: false },
+            ])
+          }
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Custom question
+        </Button>
+      </div>
+
+      {message && (
+        <div
+          role="status"
+          className={
+            message.kind === "ok"
+              ? "p-3 rounded-lg text-sm bg-sage-50 text-sage-700"
+              : "p-3 rounded-lg text-sm bg-red-50 text-red-600"
+          }
+        >
+          {message.text}
+        </div>
+      )}
+
+      <Button type="button" onClick={handleSave} isLoading={saving || isPending}>
+        Save form
+      </Button>
+    </div>
+  );
+}
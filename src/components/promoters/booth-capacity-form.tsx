@@ -0,0 +1,116 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface Props {
+  eventId: string;
+  initialCapacity: number | null;
+  initialOfferHours: number;
+  /** APPROVED + CONFIRMED applications, shown against the capacity. */
+  filled: number;
+}
+
+/**
+ * Booth capacity for automatic waitlist promotion (drizzle/0228). With a
+ * capacity set, a withdrawn or cancelled booth is offered to the next
+ * waitlisted vendor; leaving it blank keeps the waitlist fully manual.
+ */
+export function BoothCapacityForm({ eventId, initialCapacity, initialOfferHours, filled }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [capacity, setCapacity] = useState(initialCapacity === null ? "" : String(initialCapacity));
+  const [offerHours, setOfferHours] = useState(String(initialOfferHours));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "ok" | "error"; text: string } | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/promoter/events/${eventId}/capacity`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          capacity: capacity.trim() === "" ? null : Number(capacity),
+          offerHours: Number(offerHours),
+        }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { error?: string; offered?: number };
+      if (!res.ok) {
+        setMessage({ kind: "error", text: data.error || "Failed to save capacity" });
+        return;
+      }
+      const offered = data.offered ?? 0;
+      setMessage({
+        kind: "ok",
+        text:
+          capacity.trim() === ""
+            ? "Capacity removed. The waitlist is manual again."
+            : offered > 0
+              ? `Capacity saved. Offered ${offered} open booth${offered === 1 ? "" : "s"} to the waitlist.`
+              : "Capacity saved.",
+      });
+      startTransition(() => router.refresh());
+    } catch {
+      setMessage({ kind: "error", text: "Failed to save capacity" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 mb-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <Label htmlFor="booth-capacity">Booth capacity</Label>
+          <Input
+            id="booth-capacity"
+            type="number"
+            min={1}
+            max={10000}
+            value={capacity}
+            onChange={(e) => setCapacity(e.target.value)}
+            placeholder="No limit"
+            className="w-32"
+          />
+        </div>
+        <div>
+          <Label htmlFor="offer-hours">Hours to accept an offer</Label>
+          <Input
+            id="offer-hours"
+            type="number"
+            min={1}
+            max={336}
+            value={offerHours}
+            onChange={(e) => setOfferHours(e.target.value)}
+            className="w-32"
+          />
+        </div>
+        <Button onClick={handleSave} isLoading={saving} disabled={saving || isPending}>
+          Save
+        </Button>
+      </div>
+      <p className="mt-2 text-xs text-muted-foreground">
+        {initialCapacity === null
+          ? `${filled} approved. Set a capacity to offer freed booths to the waitlist automatically, in application order.`
+          : `${filled} of ${initialCapacity} booths approved. When a booth frees up, the next waitlisted vendor gets an email offer; if it lapses, the offer moves down the list.`}
+      </p>
+      {message && (
+        <div
+          role="status"
+          className={
+            message.kind === "ok"
+              ? "mt-3 p-3 rounded-lg text-sm bg-sage-50 text-sage-700"
+              : "mt-3 p-3 rounded-lg text-sm bg-red-50 text-red-600"
+          }
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { MessageSquare } from "lucide-react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import type { EventReviewsView } from "@/lib/reviews/event-page";
+import { REVIEW_REFUSAL_MESSAGES } from "@/lib/reviews/event-reviews";
+import { ReviewCard } from "./review-card";
+import { ReviewForm } from "./review-form";
+import { ReviewSummaryBlock } from "./review-summary";
+
+/**
+ * Vendor reviews on the event detail page: the summary, the published
+ * reviews, and — for a vendor who exhibited — their own review form. Renders
+ * nothing when there are no reviews and the viewer can't write one, so
+ * upcoming events and most past ones look exactly as before.
+ */
+export function EventReviewsSection({
+  eventId,
+  view,
+  signedIn,
+}: {
+  eventId: string;
+  view: EventReviewsView;
+  signedIn: boolean;
+}) {
+  const { reviews, summary, vendorReview, canReply } = view;
+  if (reviews.length === 0 && !vendorReview) return null;
+
+  const own = vendorReview?.review ?? null;
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Vendor Reviews{reviews.length > 0 ? ` (${reviews.length})` : ""}
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          From vendors who exhibited here — attendance, sales, organization and load-in.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {summary ? <ReviewSummaryBlock summary={summary} /> : null}
+
+        {vendorReview ? (
+          <div className="rounded-lg border border-border p-4">
+            <h3 className="mb-3 font-medium text-foreground">
+              {own ? "Your review" : "Exhibited here? Review this event"}
+            </h3>
+            <ReviewForm
+              eventId={eventId}
+              existing={
+                own
+                  ? {
+                      ratings: {
+                        attendance: own.attendanceRating,
+                        sales: own.salesRating,
+                        organization: own.organizationRating,
+                        loadIn: own.loadInRating,
+                      },
+                      body: own.body,
+                      hidden: own.status === "HIDDEN",
+                    }
+                  : null
+              }
+              lockedReason={
+                vendorReview.eligibility.ok
+                  ? null
+                  : REVIEW_REFUSAL_MESSAGES[vendorReview.eligibility.reason]
+              }
+            />
+          </div>
+        ) : null}
+
+        {reviews.length > 0 ? (
+          <div className="space-y-5">
+            {reviews.map((review) => (
+              <ReviewCard
+                key={review.id}
+                review={review}
+                canReply={canReply}
+                canReport={signedIn && review.id !== own?.id}
+              />
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
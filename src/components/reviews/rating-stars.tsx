@@ -0,0 +1,25 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+/**
+ * Five stars filled to the nearest whole star, with the exact value for
+ * screen readers. Display only — the review form has its own picker.
+ */
+export function RatingStars({ value, className }: { value: number; className?: string }) {
+  const filled = Math.round(value);
+  return (
+    <span className={cn("inline-flex items-center gap-0.5", className)}>
+      {[1, 2, 3, 4, 5].map((n) => (
+        <Star
+          key={n}
+          aria-hidden="true"
+          className={cn(
+            "h-4 w-4",
+            n <= filled ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"
+          )}
+        />
+      ))}
+      <span className="sr-only">{value} out of 5</span>
+    </span>
+  );
+}
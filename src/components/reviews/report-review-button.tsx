@@ -0,0 +1,92 @@
+"use client";
+
+/**
+ * "Report" link under a review. Opens an inline reason picker and POSTs to
+ * /api/reviews/[id]/report; the review stays up until an admin acts.
+ */
+import { useState } from "react";
+import { Flag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+const REASONS = [
+  { value: "SPAM", label: "Spam or advertising" },
+  { value: "ABUSIVE", label: "Abusive or harassing" },
+  { value: "FALSE", label: "False or misleading" },
+  { value: "CONFLICT_OF_INTEREST", label: "Conflict of interest" },
+  { value: "OTHER", label: "Something else" },
+];
+
+export function ReportReviewButton({ reviewId }: { reviewId: string }) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("SPAM");
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/reviews/${reviewId}/report`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason, details: details.trim() || undefined }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status})`);
+      setDone(true);
+      setOpen(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (done) {
+    return <p className="text-xs text-muted-foreground">Thanks — we&apos;ll take a look.</p>;
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        <Flag className="h-3 w-3" />
+        Report
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md space-y-2">
+      <Select
+        label="What's wrong with this review?"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        options={REASONS}
+      />
+      <Textarea
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        placeholder="Anything we should know (optional)"
+        maxLength={1000}
+        rows={2}
+      />
+      <div className="flex gap-2">
+        <Button size="sm" variant="danger" onClick={submit} disabled={submitting}>
+          Send report
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setOpen(false)} disabled={submitting}>
+          Cancel
+        </Button>
+      </div>
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+    </div>
+  );
+}
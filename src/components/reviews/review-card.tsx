@@ -0,0 +1,76 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { formatDateMedium } from "@/lib/datetime";
+import {
+  PARTICIPATION_LABELS,
+  REVIEW_DIMENSIONS,
+  type PublicEventReview,
+} from "@/lib/reviews/event-reviews";
+import { RatingStars } from "./rating-stars";
+import { ReportReviewButton } from "./report-review-button";
+import { ReviewReplyForm } from "./review-reply-form";
+
+interface ReviewCardProps {
+  review: PublicEventReview;
+  /** Series pages name the occurrence each review is about. */
+  eventLabel?: { name: string; href: string };
+  canReport?: boolean;
+  canReply?: boolean;
+}
+
+export function ReviewCard({ review, eventLabel, canReport, canReply }: ReviewCardProps) {
+  const overall =
+    REVIEW_DIMENSIONS.reduce((sum, d) => sum + review.ratings[d.key], 0) / REVIEW_DIMENSIONS.length;
+  return (
+    <article className="border-b border-border pb-5 last:border-b-0 last:pb-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <RatingStars value={overall} />
+        <Link
+          href={`/vendors/${review.vendorSlug}`}
+          className="font-medium text-foreground hover:text-royal"
+        >
+          {review.vendorName}
+        </Link>
+        <Badge variant={review.participation === "SELF_REPORTED" ? "default" : "success"}>
+          {PARTICIPATION_LABELS[review.participation]}
+        </Badge>
+        <span className="text-sm text-muted-foreground">
+          {formatDateMedium(review.createdAt)}
+          {eventLabel ? (
+            <>
+              {" · "}
+              <Link href={eventLabel.href} className="hover:text-royal">
+                {eventLabel.name}
+              </Link>
+            </>
+          ) : null}
+        </span>
+      </div>
+      <dl className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {REVIEW_DIMENSIONS.map((d) => (
+          <div key={d.key} className="flex gap-1">
+            <dt>{d.label}</dt>
+            <dd className="font-medium text-foreground">{review.ratings[d.key]}/5</dd>
+          </div>
+        ))}
+      </dl>
+      {review.body ? (
+        <p className="mt-3 whitespace-pre-line text-sm text-foreground">{review.body}</p>
+      ) : null}
+      {review.reply ? (
+        <div className="mt-3 rounded-lg bg-muted/50 p-3 text-sm">
+          <div className="mb-1 font-medium text-foreground">Organizer reply</div>
+          <p className="whitespace-pre-line text-muted-foreground">{review.reply.body}</p>
+        </div>
+      ) : null}
+      {canReply || canReport ? (
+        <div className="mt-2 flex flex-wrap items-start gap-3">
+          {canReply ? (
+            <ReviewReplyForm reviewId={review.id} existing={review.reply?.body ?? null} />
+          ) : null}
+          {canReport ? <ReportReviewButton reviewId={review.id} /> : null}
+        </div>
+      ) : null}
+    </article>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+/**
+ * A vendor's own review of this event: four star pickers and optional text.
+ * PUT /api/vendor/reviews writes or edits it; DELETE withdraws it. When the
+ * vendor can no longer edit (window closed, self-report disputed) the form
+ * shows their review read-only with the reason.
+ */
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+const DIMENSIONS = [
+  { key: "attendance", label: "Attendance", hint: "Crowds through the gate" },
+  { key: "sales", label: "Sales", hint: "How you did at your booth" },
+  { key: "organization", label: "Organization", hint: "Communication and how it was run" },
+  { key: "loadIn", label: "Load-in", hint: "Setup, teardown and access" },
+] as const;
+
+type Ratings = Record<(typeof DIMENSIONS)[number]["key"], number>;
+
+interface ReviewFormProps {
+  eventId: string;
+  existing: { ratings: Ratings; body: string | null; hidden: boolean } | null;
+  /** Why the vendor can't write or edit right now; null when they can. */
+  lockedReason: string | null;
+}
+
+function StarPicker({
+  value,
+  onChange,
+  label,
+  disabled,
+}: {
+  value: number;
+  onChange: (n: number) => void;
+  label: string;
+  disabled: boolean;
+}) {
+  return (
+    <div role="radiogroup" aria-label={label} className="flex gap-1">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          type="button"
+          role="radio"
+          aria-checked={value === n}
+          aria-label={`${n} out of 5`}
+          disabled={disabled}
+          onClick={() => onChange(n)}
+          className="disabled:cursor-not-allowed"
+        >
+          <Star
+            className={cn(
+              "h-5 w-5",
+              n <= value ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function ReviewForm({ eventId, existing, lockedReason }: ReviewFormProps) {
+  const router = useRouter();
+  const [ratings, setRatings] = useState<Ratings>(
+    existing?.ratings ?? { attendance: 0, sales: 0, organization: 0, loadIn: 0 }
+  );
+  const [body, setBody] = useState(existing?.body ?? "");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const locked = lockedReason !== null;
+  const complete = DIMENSIONS.every((d) => ratings[d.key] >= 1);
+
+  const send = async (method: "PUT" | "DELETE") => {
+    setSubmitting(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const res =
+        method === "PUT"
+          ? await fetch("/api/vendor/reviews", {
+              method,
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ eventId, ratings, body: body.trim() || null }),
+            })
+          : await fetch(`/api/vendor/reviews?eventId=${encodeURIComponent(eventId)}`, { method });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status})`);
+      if (method === "DELETE") {
+        setRatings({ attendance: 0, sales: 0, organization: 0, loadIn: 0 });
+        setBody("");
+      } else {
+        setSaved(true);
+      }
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {existing?.hidden ? (
+        <p className="text-sm text-amber-700">
+          Your review has been hidden by a moderator and isn&apos;t shown on this page.
+        </p>
+      ) : null}
+      {lockedReason ? <p className="text-sm text-muted-foreground">{lockedReason}</p> : null}
+      <div className="grid gap-3 sm:grid-cols-2">
+        {DIMENSIONS.map((d) => (
+          <div key={d.key}>
+            <div className="text-sm font-medium text-foreground">{d.label}</div>
+            <div className="mb-1 text-xs text-muted-foreground">{d.hint}</div>
+            <StarPicker
+              label={d.label}
+              value={ratings[d.key]}
+              onChange={(n) => setRatings((r) => ({ ...r, [d.key]: n }))}
+              disabled={locked || submitting}
+            />
+          </div>
+        ))}
+      </div>
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="What should other vendors know? Booth fees, foot traffic, parking, the organizers…"
+        maxLength={2000}
+        rows={4}
+        disabled={locked || submitting}
+      />
+      <div className="flex gap-2">
+        {!locked ? (
+          <Button size="sm" onClick={() => send("PUT")} disabled={submitting || !complete}>
+            {existing ? "Update review" : "Post review"}
+          </Button>
+        ) : null}
+        {existing ? (
+          <Button size="sm" variant="ghost" onClick={() => send("DELETE")} disabled={submitting}>
+            Withdraw
+          </Button>
+        ) : null}
+      </div>
+      {saved ? <p className="text-sm text-green-700">Thanks — your review is saved.</p> : null}
+      {error ? <p className="text-sm text-red-600">{error}</p> : null}
+    </div>
+  );
+}
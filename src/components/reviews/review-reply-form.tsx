@@ -0,0 +1,82 @@
+"use client";
+
+/**
+ * The organizer's public reply to a review, shown to editors on the event's
+ * promoter. PUT/DELETE /api/promoter/reviews/[id]/reply, then refresh.
+ */
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+export function ReviewReplyForm({
+  reviewId,
+  existing,
+}: {
+  reviewId: string;
+  existing: string | null;
+}) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [body, setBody] = useState(existing ?? "");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (method: "PUT" | "DELETE") => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/promoter/reviews/${reviewId}/reply`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: method === "PUT" ? JSON.stringify({ body }) : undefined,
+      });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status})`);
+      setOpen(false);
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="text-xs font-medium text-royal hover:text-navy"
+      >
+        {existing ? "Edit reply" : "Reply as organizer"}
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-xl space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Thank the vendor, or say what you're changing next year"
+        maxLength={2000}
+        rows={3}
+      />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => send("PUT")} disabled={submitting || !body.trim()}>
+          Post reply
+        </Button>
+        {existing ? (
+          <Button size="sm" variant="outline" onClick={() => send("DELETE")} disabled={submitting}>
+            Remove reply
+          </Button>
+        ) : null}
+        <Button size="sm" variant="ghost" onClick={() => setOpen(false)} disabled={submitting}>
+          Cancel
+        </Button>
+      </div>
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+    </div>
+  );
+}
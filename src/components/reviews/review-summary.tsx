@@ -0,0 +1,25 @@
+import { REVIEW_DIMENSIONS, type ReviewSummary } from "@/lib/reviews/event-reviews";
+import { RatingStars } from "./rating-stars";
+
+/** Overall score plus the four dimension averages. */
+export function ReviewSummaryBlock({ summary }: { summary: ReviewSummary }) {
+  return (
+    <div className="flex flex-wrap items-start gap-x-8 gap-y-4">
+      <div>
+        <div className="text-3xl font-bold text-foreground">{summary.overall.toFixed(1)}</div>
+        <RatingStars value={summary.overall} />
+        <div className="mt-1 text-sm text-muted-foreground">
+          {summary.count} {summary.count === 1 ? "review" : "reviews"}
+        </div>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+        {REVIEW_DIMENSIONS.map((d) => (
+          <div key={d.key} className="flex items-center justify-between gap-3">
+            <dt className="text-muted-foreground">{d.label}</dt>
+            <dd className="font-medium text-foreground">{summary.averages[d.key].toFixed(1)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { SeriesReviews } from "@/lib/reviews/event-reviews";
+import { ReviewCard } from "./review-card";
+import { ReviewSummaryBlock } from "./review-summary";
+
+/**
+ * Vendor reviews across every year of a series, on the series landing page.
+ * Each review links the year it's about; writing and replying happen on that
+ * year's event page.
+ */
+export function SeriesReviewsSection({ reviews }: { reviews: SeriesReviews }) {
+  if (!reviews.summary) return null;
+  return (
+    <section className="mt-10">
+      <h2 className="mb-1 font-display text-lg font-semibold text-secondary">Vendor reviews</h2>
+      <p className="mb-4 text-sm text-secondary/70">
+        From vendors who exhibited, across every year of this event.
+      </p>
+      <ReviewSummaryBlock summary={reviews.summary} />
+      <div className="mt-6 space-y-5">
+        {reviews.recent.map((review) => (
+          <ReviewCard
+            key={review.id}
+            review={review}
+            eventLabel={{ name: review.eventName, href: `/events/${review.eventSlug}` }}
+          />
+        ))}
+      </div>
+    </section>
+  );
+}
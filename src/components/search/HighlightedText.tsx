@@ -0,0 +1,32 @@
+import type { HighlightSegment } from "@/lib/search/fts";
+
+interface HighlightedTextProps {
+  /** Segments from the search index (/api/search `highlight` / `snippet`). */
+  segments: HighlightSegment[] | undefined;
+  /** Rendered as-is when there are no segments (fuzzy matches carry none). */
+  fallback: string;
+}
+
+/**
+ * Search-result text with the matched terms in `<mark>`.
+ *
+ * The index hands back segments, not HTML, so matched and unmatched text are
+ * both rendered as React text nodes — a venue or vendor name containing
+ * markup can't inject anything.
+ */
+export function HighlightedText({ segments, fallback }: HighlightedTextProps) {
+  if (!segments || segments.length === 0) return <>{fallback}</>;
+  return (
+    <>
+      {segments.map((s, i) =>
+        s.match ? (
+          <mark key={i} className="bg-amber-light text-foreground rounded-sm">
+            {s.text}
+          </mark>
+        ) : (
+          <span key={i}>{s.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Search highlights arrive as segments; matched ones render in <mark>, and
+ * nothing in them is ever parsed as markup.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { render, cleanup } from "@testing-library/react";
+import { HighlightedText } from "../HighlightedText";
+
+describe("HighlightedText", () => {
+  afterEach(cleanup);
+
+  it("marks matched segments", () => {
+    const { container } = render(
+      <HighlightedText
+        segments={[
+          { text: "Fryeburg ", match: false },
+          { text: "Fair", match: true },
+        ]}
+        fallback="Fryeburg Fair"
+      />
+    );
+    expect(container.textContent).toBe("Fryeburg Fair");
+    expect([...container.querySelectorAll("mark")].map((m) => m.textContent)).toEqual(["Fair"]);
+  });
+
+  it("renders the fallback when there are no segments", () => {
+    const { container } = render(<HighlightedText segments={[]} fallback="Marshfield Fair" />);
+    expect(container.textContent).toBe("Marshfield Fair");
+    expect(container.querySelector("mark")).toBeNull();
+  });
+
+  it("renders segment text as text, not HTML", () => {
+    const { container } = render(
+      <HighlightedText segments={[{ text: "<b>Fair</b>", match: true }]} fallback="" />
+    );
+    expect(container.querySelector("b")).toBeNull();
+    expect(container.textContent).toBe("<b>Fair</b>");
+  });
+});
@@ -9,6 +9,7 @@ import {
   performerSchemaType,
   type ConfirmedAppearance,
 } from "@/lib/performers/event-jsonld";
+import type { AggregateRatingJsonLd } from "@/lib/reviews/aggregate-rating";
 
 interface EventDay {
   date: string;
@@ -117,6 +118,10 @@ interface EventSchemaProps {
   // appearance (Mr. Drew, Sat 3 PM). Global feature flag, DEFAULT OFF: times are
   // shown on-page but not submitted to search engines until John flips it.
   emitPerformerSubevents?: boolean;
+  // Vendor-review AggregateRating, already policy-checked by
+  // buildEventAggregateRating (src/lib/reviews/aggregate-rating.ts). Omitted
+  // unless the flag is on and the event has enough verified reviews.
+  aggregateRating?: AggregateRatingJsonLd | null;
 }
 
 function getEventType(categories?: string[]): string {
@@ -156,6 +161,7 @@ export function EventSchema({
   vendors,
   performers,
   emitPerformerSubevents,
+  aggregateRating,
   createdAt,
   primaryAudience,
   publicAccess,
@@ -562,6 +568,7 @@ export function EventSchema({
     performer: performerArray,
     sponsor: vendorSplit.sponsor,
     offers,
+    aggregateRating: aggregateRating ?? undefined,
   };
 
   // Remove undefined values for cleaner output
@@ -641,3 +641,22 @@ describe("EventSchema performer emission (OPE-114)", () => {
     expect((ld.performer as unknown[]).length).toBe(1);
   });
 });
+
+describe("EventSchema aggregateRating (vendor reviews)", () => {
+  it("omits aggregateRating unless one is passed", () => {
+    const { container } = render(<EventSchema {...baseProps} aggregateRating={null} />);
+    expect(extractJsonLd(container)).not.toHaveProperty("aggregateRating");
+  });
+
+  it("emits the AggregateRating node it is given", () => {
+    const rating = {
+      "@type": "AggregateRating" as const,
+      ratingValue: 4.2,
+      reviewCount: 3,
+      bestRating: 5 as const,
+      worstRating: 1 as const,
+    };
+    const { container } = render(<EventSchema {...baseProps} aggregateRating={rating} />);
+    expect(extractJsonLd(container).aggregateRating).toEqual(rating);
+  });
+});
@@ -20,6 +20,8 @@ import { BreadcrumbSchema } from "@/components/seo/BreadcrumbSchema";
 import type { SeriesLanding, LandingOccurrence } from "@/lib/series/get-series-landing";
 import { formatDateRange } from "@/lib/utils";
 import { cdnImage } from "@/lib/cdn-image";
+import { SubscribeCalendarLink } from "@/components/events/subscribe-calendar-link";
+import { SeriesReviewsSection } from "@/components/reviews/series-reviews-section";
 
 const HERO_WIDTHS = [400, 800, 1200, 1600];
 
@@ -159,6 +161,10 @@ export function SeriesLandingPage({ landing, now }: { landing: SeriesLanding; no
         </div>
         <h1 className="mt-1 font-display text-3xl font-bold text-secondary">{series.name}</h1>
         {series.description ? <p className="mt-3 text-secondary/80">{series.description}</p> : null}
+        <SubscribeCalendarLink
+          feedPath={`/api/calendar/series/${series.canonicalSlug}`}
+          className="mt-3"
+        />
       </header>
 
       {current.length > 0 ? (
@@ -178,6 +184,8 @@ export function SeriesLandingPage({ landing, now }: { landing: SeriesLanding; no
       {current.length === 0 && past.length === 0 ? (
         <p className="text-secondary/70">No published occurrences yet.</p>
       ) : null}
+
+      <SeriesReviewsSection reviews={landing.reviews} />
     </main>
   );
 }
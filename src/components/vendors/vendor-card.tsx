@@ -8,6 +8,7 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { parseJsonArray } from "@/types";
 import { formatDateRange } from "@/lib/utils";
+import { formatDistance } from "@/lib/geo";
 import { FavoriteButton } from "@/components/FavoriteButton";
 import { VendorTierBadges } from "./VendorTierBadges";
 import { cdnImage, focalPointGravity } from "@/lib/cdn-image";
@@ -52,6 +53,8 @@ interface VendorCardProps {
     verifiedPro?: boolean | null;
     city?: string | null;
     state?: string | null;
+    /** Miles from a radius search's center, shown beside the location. */
+    distanceMiles?: number | null;
     /** EH1 hierarchy fields — optional; when omitted the helper resolves
      *  to the row's own self-name. Populated by PR EH2.2's listing JOIN. */
     role?: "NATIONAL" | "LOCAL_OFFICE" | "INDEPENDENT";
@@ -180,6 +183,12 @@ export function VendorCard({ vendor, brandParent, operatorParent }: VendorCardPr
                   {[vendor.city, vendor.state].filter(Boolean).join(", ")}
                 </span>
               )}
+              {vendor.distanceMiles != null && (
+                <>
+                  {(vendor.vendorType || vendor.city || vendor.state) && <span>•</span>}
+                  <span>{formatDistance(vendor.distanceMiles)} away</span>
+                </>
+              )}
             </div>
             {vendor.description && (
               <p className="text-sm text-muted-foreground mt-2 line-clamp-2">
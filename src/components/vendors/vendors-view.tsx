@@ -11,6 +11,7 @@ import {
   getNextSortDirection,
 } from "@/components/ui/sortable-table";
 import { Badge } from "@/components/ui/badge";
+import { formatDistance } from "@/lib/geo";
 
 interface VendorEvent {
   id: string;
@@ -55,6 +56,8 @@ interface VendorWithEvents {
   verifiedPro?: boolean | null;
   city?: string | null;
   state?: string | null;
+  /** Miles from the listing's radius-search center; absent outside one. */
+  distanceMiles?: number | null;
   events: VendorEvent[];
 }
 
@@ -65,8 +68,10 @@ interface VendorsViewProps {
 
 export function VendorsView({ vendors, emptyMessage = "No vendors found" }: VendorsViewProps) {
   const [viewMode, setViewMode] = useState<"cards" | "table">("cards");
+  // A radius search arrives nearest-first; keep that order as the default.
+  const hasDistances = vendors.some((v) => v.distanceMiles != null);
   const [sortConfig, setSortConfig] = useState<SortConfig>({
-    column: "businessName",
+    column: hasDistances ? "distance" : "businessName",
     direction: "asc",
   });
 
@@ -89,6 +94,7 @@ export function VendorsView({ vendors, emptyMessage = "No vendors found" }: Vend
     vendorType: (v) => v.vendorType?.toLowerCase() || "",
     events: (v) => v.events.length,
     verified: (v) => v.verified || false,
+    distance: (v) => v.distanceMiles,
   });
 
   if (vendors.length === 0) {
@@ -180,6 +186,15 @@ export function VendorsView({ vendors, emptyMessage = "No vendors found" }: Vend
                     sortConfig={sortConfig}
                     onSort={handleSort}
                   />
+                  {hasDistances && (
+                    <SortableHeader
+                      column="distance"
+                      label="Distance"
+                      sortConfig={sortConfig}
+                      onSort={handleSort}
+                      className="w-28"
+                    />
+                  )}
                   <SortableHeader
                     column="events"
                     label="Events"
@@ -233,6 +248,11 @@ export function VendorsView({ vendors, emptyMessage = "No vendors found" }: Vend
                     <td className="py-3 px-4 text-sm text-muted-foreground">
                       {vendor.vendorType || "-"}
                     </td>
+                    {hasDistances && (
+                      <td className="py-3 px-4 text-sm text-muted-foreground">
+                        {vendor.distanceMiles != null ? formatDistance(vendor.distanceMiles) : "-"}
+                      </td>
+                    )}
                     <td className="py-3 px-4 text-sm text-muted-foreground">
                       {vendor.events.length}
                     </td>
@@ -0,0 +1,35 @@
+import Link from "next/link";
+import { Sparkles } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface Props {
+  venueName: string;
+  venueSlug: string;
+}
+
+// Public CTA on unclaimed venue pages. Rendered only when
+// !claimed && !isAdmin (gated in the parent page). Always the reviewed
+// evidence path — see /claim/venue/[slug] for why there's no one-click claim.
+export function ClaimVenueCTA({ venueName, venueSlug }: Props) {
+  return (
+    <Card className="border-amber-dark/30 bg-amber-light">
+      <CardContent className="p-5 flex items-start gap-3">
+        <Sparkles className="w-5 h-5 text-amber-dark flex-shrink-0 mt-1" aria-hidden />
+        <div className="flex-1">
+          <h3 className="font-semibold text-stone-900">Do you manage these grounds?</h3>
+          <p className="text-sm text-stone-700 mt-1">
+            Claim {venueName} to keep its hours, amenities, parking and accessibility notes current,
+            and to hear about every event submitted here.
+          </p>
+          <Link
+            href={`/claim/venue/${venueSlug}`}
+            rel="nofollow"
+            className="mt-3 inline-block rounded-md bg-navy px-4 py-2 text-sm font-medium text-white hover:opacity-90"
+          >
+            Claim this venue
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { VENUE_ACCESSIBILITY_OPTIONS, VENUE_PARKING_OPTIONS } from "@/lib/validations";
+
+interface VenueOwnerValues {
+  capacity: number | null;
+  amenities: string[];
+  description: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  website: string | null;
+  imageUrl: string | null;
+  openingHours: string[];
+  accessibility: Record<string, boolean>;
+  parking: Record<string, boolean>;
+}
+
+interface Props {
+  venueId: string;
+  initial: VenueOwnerValues;
+}
+
+// "wheelchairAccessibleEntrance" → "Wheelchair accessible entrance"
+function optionLabel(key: string): string {
+  const words = key.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function splitLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The /venue/[venueId] editor. Saves the owner-editable fields in one PATCH
+ * to /api/venue/[venueId]; the photo uploads separately and is saved as soon
+ * as it lands. Accessibility and parking are the Google Places option keys,
+ * ticked or not, so an owner's answer reads the same as Google's.
+ */
+export function VenueOwnerForm({ venueId, initial }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [capacity, setCapacity] = useState(
+    initial.capacity === null ? "" : String(initial.capacity)
+  );
+  const [amenities, setAmenities] = useState(initial.amenities.join(", "));
+  const [description, setDescription] = useState(initial.description ?? "");
+  const [contactEmail, setContactEmail] = useState(initial.contactEmail ?? "");
+  const [contactPhone, setContactPhone] = useState(initial.contactPhone ?? "");
+  const [website, setWebsite] = useState(initial.website ?? "");
+  const [imageUrl, setImageUrl] = useState(initial.imageUrl ?? "");
+  const [hours, setHours] = useState(initial.openingHours.join("\n"));
+  const [accessibility, setAccessibility] = useState(initial.accessibility);
+  const [parking, setParking] = useState(initial.parking);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState<{ kind: "ok" | "error"; text: string } | null>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/venue/${venueId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          capacity: capacity.trim() === "" ? null : Number(capacity),
+          amenities: amenities
+            .split(",")
+            .map((a) => a.trim())
+            .filter(Boolean),
+          description: description.trim() || null,
+          contactEmail: contactEmail.trim() || null,
+          contactPhone: contactPhone.trim() || null,
+          website: website.trim() || null,
+          imageUrl: imageUrl.trim() || null,
+          openingHours: splitLines(hours),
+          accessibility,
+          parking,
+        }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) {
+        setMessage({ kind: "error", text: data.error || "Failed to save venue" });
+        return;
+      }
+      setMessage({ kind: "ok", text: "Saved. Your changes are live on the venue page." });
+      startTransition(() => router.refresh());
+    } catch {
+      setMessage({ kind: "error", text: "Failed to save venue" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setUploading(true);
+    setMessage(null);
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      const res = await fetch(`/api/venue/${venueId}/photo`, { method: "POST", body });
+      const data = (await res.json().catch(() => ({}))) as { error?: string; url?: string };
+      if (!res.ok || !data.url) {
+        setMessage({ kind: "error", text: data.error || "Failed to upload photo" });
+        return;
+      }
+      setImageUrl(data.url);
+      setMessage({ kind: "ok", text: "Photo uploaded." });
+      startTransition(() => router.refresh());
+    } catch {
+      setMessage({ kind: "error", text: "Failed to upload photo" });
+    } finally {
+      setUploading(false);
+      e.target.value = "";
+    }
+  };
+
+  const optionGroup = (
+    legend: string,
+    keys: readonly string[],
+    values: Record<string, boolean>,
+    onChange: (next: Record<string, boolean>) => void
+  ) => (
+    <fieldset>
+      <legend className="text-sm font-medium text-foreground mb-2">{legend}</legend>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {keys.map((key) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={values[key] === true}
+              onChange={(ev) => onChange({ ...values, [key]: ev.target.checked })}
+            />
+            {optionLabel(key)}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+
+  return (
+    <form onSubmit={handleSave} className="space-y-6 rounded-lg border border-border bg-card p-6">
+      <div>
+        <Label htmlFor="venue-description">Description</Label>
+        <Textarea
+          id="venue-description"
+          rows={5}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="venue-capacity">Capacity</Label>
+          <Input
+            id="venue-capacity"
+            type="number"
+            min={1}
+            value={capacity}
+            onChange={(e) => setCapacity(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="venue-amenities">Amenities</Label>
+          <Input
+            id="venue-amenities"
+            value={amenities}
+            onChange={(e) => setAmenities(e.target.value)}
+            placeholder="Restrooms, Food court, RV hookups"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">Separate with commas.</p>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="venue-hours">Hours</Label>
+        <Textarea
+          id="venue-hours"
+          rows={7}
+          value={hours}
+          onChange={(e) => setHours(e.target.value)}
+          placeholder={"Monday: 9:00 AM – 5:00 PM\nTuesday: Closed"}
+        />
+        <p className="mt-1 text-xs text-muted-foreground">One line per day.</p>
+      </div>
+
+      {optionGroup("Accessibility", VENUE_ACCESSIBILITY_OPTIONS, accessibility, setAccessibility)}
+      {optionGroup("Parking", VENUE_PARKING_OPTIONS, parking, setParking)}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="venue-email">Contact email</Label>
+          <Input
+            id="venue-email"
+            type="email"
+            value={contactEmail}
+            onChange={(e) => setContactEmail(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="venue-phone">Contact phone</Label>
+          <Input
+            id="venue-phone"
+            type="tel"
+            value={contactPhone}
+            onChange={(e) => setContactPhone(e.target.value)}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <Label htmlFor="venue-website">Website</Label>
+          <Input
+            id="venue-website"
+            type="url"
+            value={website}
+            onChange={(e) => setWebsite(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="venue-photo">Photo</Label>
+        {imageUrl && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={imageUrl} alt="" className="mt-1 mb-2 h-40 w-full rounded-md object-cover" />
+        )}
+        <Input
+          id="venue-photo"
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          onChange={handlePhoto}
+          disabled={uploading}
+        />
+        <p className="mt-1 text-xs text-muted-foreground">JPG, PNG or WebP, up to 5 MB.</p>
+      </div>
+
+      {message && (
+        <div
+          role="status"
+          className={
+            message.kind === "ok"
+              ? "p-3 rounded-lg text-sm bg-sage-50 text-sage-700"
+              : "p-3 rounded-lg text-sm bg-red-50 text-red-600"
+          }
+        >
+          {message.text}
+        </div>
+      )}
+
+      <Button type="submit" isLoading={saving} disabled={saving || uploading || isPending}>
+        Save changes
+      </Button>
+    </form>
+  );
+}
@@ -16,6 +16,7 @@ const mockDb = {
   select: vi.fn().mockReturnThis(),
   from: vi.fn().mockReturnThis(),
   where: vi.fn().mockReturnThis(),
+  innerJoin: vi.fn().mockReturnThis(),
   limit: vi.fn(async () => limitResults.shift() ?? []),
   update: vi.fn(() => updateChain),
 };
@@ -26,9 +27,10 @@ vi.mock("@/lib/cloudflare", () => ({
 
 import { authenticateVendorToken } from "../api-token-auth";
 
-function makeRequest(authHeader?: string): Request {
+function makeRequest(authHeader?: string, clientIp?: string): Request {
   const headers = new Headers();
   if (authHeader) headers.set("Authorization", authHeader);
+  if (clientIp) headers.set("CF-Connecting-IP", clientIp);
   return new Request("https://example.com/api/vendor/x", { headers });
 }
 
@@ -85,6 +87,134 @@ describe("authenticateVendorToken", () => {
       );
       expect(result).toEqual({ authorized: false, error: "Token does not match this vendor" });
     });
+
+    it("accepts a team member's token for the vendor they're seated on", async () => {
+      limitResults.push([{ userId: "user-2", scopes: '["applications:write"]' }]); // token lookup
+      limitResults.push([]); // not the owner
+      limitResults.push([{ id: "vendor-1", role: "EDITOR" }]); // member seat
+      const result = await authenticateVendorToken(
+        makeRequest("Bearer mmatf_valid"),
+        "acme",
+        "applications:write"
+      );
+      expect(result).toEqual({ authorized: true, vendorId: "vendor-1" });
+    });
+
+    it("lets a viewer's token read but not write", async () => {
+      limitResults.push([{ userId: "user-3", scopes: '["applications:read","profile:write"]' }]);
+      limitResults.push([]);
+      limitResults.push([{ id: "vendor-1", role: "VIEWER" }]);
+      expect(
+        await authenticateVendorToken(
+          makeRequest("Bearer mmatf_valid"),
+          "acme",
+          "applications:read"
+        )
+      ).toEqual({ authorized: true, vendorId: "vendor-1" });
+
+      limitResults.push([{ userId: "user-3", scopes: '["applications:read","profile:write"]' }]);
+      limitResults.push([]);
+      limitResults.push([{ id: "vendor-1", role: "VIEWER" }]);
+      expect(
+        await authenticateVendorToken(makeRequest("Bearer mmatf_valid"), "acme", "profile:write")
+      ).toEqual({ authorized: false, error: "Your team role does not allow this", status: 403 });
+    });
+  });
+
+  describe("token policy (drizzle/0225)", () => {
+    const SCOPES = '["applications:read"]';
+
+    it("rejects a revoked token as 401", async () => {
+      limitResults.push([{ userId: "user-1", scopes: SCOPES, revokedAt: new Date() }]);
+      const result = await authenticateVendorToken(makeRequest("Bearer mmatf_valid"), "acme");
+      expect(result).toEqual({ authorized: false, error: "Token has been revoked", status: 401 });
+    });
+
+    it("rejects an expired token as 401", async () => {
+      limitResults.push([
+        { userId: "user-1", scopes: SCOPES, expiresAt: new Date(Date.now() - 1000) },
+      ]);
+      const result = await authenticateVendorToken(makeRequest("Bearer mmatf_valid"), "acme");
+      expect(result).toEqual({ authorized: false, error: "Token has expired", status: 401 });
+    });
+
+    it("accepts a token that has not reached its expiry", async () => {
+      limitResults.push([
+        { userId: "user-1", scopes: SCOPES, expiresAt: new Date(Date.now() + 60_000) },
+      ]);
+      limitResults.push([{ id: "vendor-1" }]);
+      const result = await authenticateVendorToken(makeRequest("Bearer mmatf_valid"), "acme");
+      expect(result).toEqual({ authorized: true, vendorId: "vendor-1" });
+    });
+
+    it("refuses a missing scope with 403 and counts the denial", async () => {
+      limitResults.push([{ userId: "user-1", scopes: SCOPES }]);
+      const result = await authenticateVendorToken(
+        makeRequest("Bearer mmatf_valid"),
+        "acme",
+        "applications:write"
+      );
+      expect(result).toEqual({
+        authorized: false,
+        error: "Insufficient scope",
+        status: 403,
+        missingScope: "applications:write",
+      });
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ deniedCount: expect.anything() })
+      );
+    });
+
+    it("grants a scope the token carries", async () => {
+      limitResults.push([{ userId: "user-1", scopes: SCOPES }]);
+      limitResults.push([{ id: "vendor-1" }]);
+      const result = await authenticateVendorToken(
+        makeRequest("Bearer mmatf_valid"),
+        "acme",
+        "applications:read"
+      );
+      expect(result).toEqual({ authorized: true, vendorId: "vendor-1" });
+    });
+
+    it("enforces the address allow-list against CF-Connecting-IP", async () => {
+      const row = { userId: "user-1", scopes: SCOPES, allowedCidrs: '["203.0.113.0/24"]' };
+      limitResults.push([row]);
+      const outside = await authenticateVendorToken(
+        makeRequest("Bearer mmatf_valid", "198.51.100.7"),
+        "acme"
+      );
+      expect(outside).toEqual({
+        authorized: false,
+        error: "Request address is not allowed for this token",
+        status: 403,
+      });
+
+      limitResults.push([row]);
+      limitResults.push([{ id: "vendor-1" }]);
+      const inside = await authenticateVendorToken(
+        makeRequest("Bearer mmatf_valid", "203.0.113.40"),
+        "acme"
+      );
+      expect(inside).toEqual({ authorized: true, vendorId: "vendor-1" });
+    });
+
+    it("fails closed for an allow-listed token when the client address is unknown", async () => {
+      limitResults.push([{ userId: "user-1", scopes: SCOPES, allowedCidrs: '["0.0.0.0/0"]' }]);
+      const result = await authenticateVendorToken(makeRequest("Bearer mmatf_valid"), "acme");
+      expect(result).toMatchObject({ authorized: false, status: 403 });
+    });
+
+    it("denies every address when the stored allow-list is unparsable", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      limitResults.push([{ userId: "user-1", scopes: SCOPES, allowedCidrs: "203.0.113.0/24" }]);
+      const result = await authenticateVendorToken(
+        makeRequest("Bearer mmatf_valid", "203.0.113.40"),
+        "acme"
+      );
+      expect(result).toMatchObject({ authorized: false, status: 403 });
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("allowed_cidrs"));
+      errorSpy.mockRestore();
+    });
   });
 
   describe("lastUsedAt fire-and-forget update", () => {
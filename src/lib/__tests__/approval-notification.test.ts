@@ -9,6 +9,14 @@
  * chainable stub, no real D1 spin-up.
  */
 import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const createNotification = vi.fn(async (..._args: unknown[]) => true);
+const wantsEmail = vi.fn(async (..._args: unknown[]) => true);
+vi.mock("@/lib/notifications/notifications", () => ({
+  createNotification: (...args: unknown[]) => createNotification(...args),
+  wantsEmail: (...args: unknown[]) => wantsEmail(...args),
+}));
+
 import { notifyApprovalIfNeeded } from "../approval-notification";
 
 interface FakeEventRow {
@@ -17,6 +25,7 @@ interface FakeEventRow {
   slug: string;
   status: string;
   suggesterEmail: string | null;
+  submittedByUserId?: string | null;
   approvalNotifiedAt: Date | null;
 }
 
@@ -174,3 +183,46 @@ describe("notifyApprovalIfNeeded — happy path", () => {
     expect(callOrder).toEqual(["queue", "update"]);
   });
 });
+
+describe("notifyApprovalIfNeeded — signed-in submitter", () => {
+  beforeEach(() => {
+    createNotification.mockClear();
+    wantsEmail.mockReset();
+    wantsEmail.mockResolvedValue(true);
+  });
+
+  it("emails and notifies in-app when the submitter keeps both", async () => {
+    const { db } = makeDb({ ...baseRow, submittedByUserId: "user_1" });
+    const { queue, send } = makeQueue();
+    const result = await notifyApprovalIfNeeded(db, { EMAIL_JOBS: queue }, "evt_123");
+    expect(result.outcome).toBe("sent");
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(wantsEmail).toHaveBeenCalledWith(db, "user_1", "submission_approved");
+    expect(createNotification).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({
+        userId: "user_1",
+        type: "submission_approved",
+        data: { eventId: "evt_123", url: "/events/fryeburg-fair-2026" },
+      })
+    );
+  });
+
+  it("skips the email but still notifies and marks when they opted out", async () => {
+    wantsEmail.mockResolvedValue(false);
+    const { db, spies } = makeDb({ ...baseRow, submittedByUserId: "user_1" });
+    const { queue, send } = makeQueue();
+    const result = await notifyApprovalIfNeeded(db, { EMAIL_JOBS: queue }, "evt_123");
+    expect(result.outcome).toBe("notified-in-app");
+    expect(send).not.toHaveBeenCalled();
+    expect(createNotification).toHaveBeenCalledTimes(1);
+    expect(spies.updateRoot).toHaveBeenCalledTimes(1);
+  });
+
+  it("notifies a submitter with no suggester email without needing the queue", async () => {
+    const { db } = makeDb({ ...baseRow, suggesterEmail: null, submittedByUserId: "user_1" });
+    const result = await notifyApprovalIfNeeded(db, { EMAIL_JOBS: undefined }, "evt_123");
+    expect(result.outcome).toBe("notified-in-app");
+    expect(createNotification).toHaveBeenCalledTimes(1);
+  });
+});
@@ -35,7 +35,9 @@ const SCHEMA_SQL = `
     status TEXT, provider TEXT, provider_message_id TEXT, error TEXT,
     inbound_email_id TEXT, body_html TEXT, body_text TEXT, sent_at INTEGER,
     -- OPE-177 (drizzle/0193) — delivery outcome columns.
-    delivery_status TEXT, delivery_updated_at INTEGER, delivery_detail TEXT
+    delivery_status TEXT, delivery_updated_at INTEGER, delivery_detail TEXT,
+    -- drizzle/0238 — tracked newsletter broadcasts.
+    newsletter_issue_slug TEXT
   );
 `;
 
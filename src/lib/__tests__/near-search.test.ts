@@ -0,0 +1,127 @@
+/**
+ * Radius search SQL (drizzle/0235) against in-memory SQLite: ZIP resolution
+ * through location_zips, the box + distance predicate and distance ordering.
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { asc } from "drizzle-orm";
+import * as schema from "../db/schema";
+import { distanceFrom, distanceSquaredSql, resolveNearSearch, withinRadius } from "../near-search";
+
+const SCHEMA_SQL = `
+  CREATE TABLE locations (
+    id TEXT PRIMARY KEY, state TEXT NOT NULL, county TEXT, county_note TEXT,
+    county_vintage TEXT, name TEXT NOT NULL, type TEXT NOT NULL,
+    is_denominator_eligible INTEGER NOT NULL DEFAULT 1, parent_location_id TEXT,
+    population INTEGER, population_year INTEGER, latitude REAL, longitude REAL,
+    canonical_slug TEXT NOT NULL, source TEXT NOT NULL, last_verified_at INTEGER
+  );
+  CREATE TABLE location_zips (location_id TEXT NOT NULL, zip TEXT NOT NULL);
+  -- Only the columns the radius predicate touches.
+  CREATE TABLE venues (id TEXT PRIMARY KEY, latitude REAL, longitude REAL);
+  CREATE INDEX idx_venues_lat_lng ON venues (latitude, longitude);
+`;
+
+const { venues } = schema;
+
+let raw: Database.Database;
+let db: ReturnType<typeof drizzle<typeof schema>>;
+
+function addLocation(id: string, name: string, population: number, lat: number, lng: number) {
+  raw
+    .prepare(
+      `INSERT INTO locations (id, state, name, type, population, latitude, longitude, canonical_slug, source)
+       VALUES (?, 'ME', ?, 'city', ?, ?, ?, ?, 'test')`
+    )
+    .run(id, name, population, lat, lng, name.toLowerCase());
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(SCHEMA_SQL);
+  db = drizzle(raw, { schema });
+  addLocation("waterville", "Waterville", 15_800, 44.552, -69.632);
+  addLocation("winslow", "Winslow", 7_900, 44.547, -69.62);
+  raw.exec(`INSERT INTO location_zips VALUES ('waterville', '04901'), ('winslow', '04901')`);
+});
+afterEach(() => raw.close());
+
+describe("resolveNearSearch", () => {
+  it("places a shared ZIP at its most populous town", async () => {
+    const { search, unknownZip } = await resolveNearSearch(db as never, {
+      zip: "04901-1234",
+      radius: "50",
+    });
+    expect(unknownZip).toBeNull();
+    expect(search).toEqual({
+      center: { latitude: 44.552, longitude: -69.632 },
+      radiusMiles: 50,
+      zip: "04901",
+      label: "04901 (Waterville, ME)",
+    });
+  });
+
+  it("uses coordinates when no ZIP is given, and a typed ZIP over them", async () => {
+    const { search } = await resolveNearSearch(db as never, { near: "43.66,-70.26" });
+    expect(search).toEqual({
+      center: { latitude: 43.66, longitude: -70.26 },
+      radiusMiles: 25,
+      zip: null,
+      label: null,
+    });
+    const both = await resolveNearSearch(db as never, { near: "43.66,-70.26", zip: "04901" });
+    expect(both.search?.zip).toBe("04901");
+  });
+
+  it("reports a ZIP it can't place instead of dropping the filter silently", async () => {
+    expect(await resolveNearSearch(db as never, { zip: "99999" })).toEqual({
+      search: null,
+      unknownZip: "99999",
+    });
+    expect(await resolveNearSearch(db as never, { zip: "Portland" })).toEqual({
+      search: null,
+      unknownZip: "Portland",
+    });
+    expect(await resolveNearSearch(db as never, {})).toEqual({ search: null, unknownZip: null });
+  });
+});
+
+describe("withinRadius / distanceSquaredSql", () => {
+  beforeEach(() => {
+    const insert = raw.prepare(`INSERT INTO venues (id, latitude, longitude) VALUES (?, ?, ?)`);
+    insert.run("augusta", 44.3106, -69.7795); // ~18 mi from Waterville
+    insert.run("skowhegan", 44.7651, -69.7193); // ~15 mi
+    insert.run("bangor", 44.8012, -68.7778); // ~45 mi
+    insert.run("portland", 43.6591, -70.2568); // ~68 mi
+    insert.run("unplaced", null, null);
+  });
+
+  it("keeps rows inside the radius, nearest first", async () => {
+    const center = { latitude: 44.552, longitude: -69.632 };
+    const rows = await db
+      .select({ id: venues.id })
+      .from(venues)
+      .where(withinRadius(venues.latitude, venues.longitude, { center, radiusMiles: 50 }))
+      .orderBy(asc(distanceSquaredSql(venues.latitude, venues.longitude, center)));
+    expect(rows.map((r) => r.id)).toEqual(["skowhegan", "augusta", "bangor"]);
+  });
+
+  it("uses the coordinate index for the box", () => {
+    const plan = raw
+      .prepare(
+        `EXPLAIN QUERY PLAN SELECT id FROM venues
+         WHERE latitude >= 43 AND latitude <= 45 AND longitude >= -71 AND longitude <= -68`
+      )
+      .all() as Array<{ detail: string }>;
+    expect(plan.some((p) => p.detail.includes("idx_venues_lat_lng"))).toBe(true);
+  });
+});
+
+describe("distanceFrom", () => {
+  it("is great-circle miles to a tenth, null without coordinates", () => {
+    const center = { latitude: 44.552, longitude: -69.632 };
+    expect(distanceFrom(center, 44.8012, -68.7778)).toBe(45.4);
+    expect(distanceFrom(center, null, -68.7778)).toBeNull();
+  });
+});
@@ -52,11 +52,24 @@ vi.mock("@/lib/cloudflare", () => ({
   }),
 }));
 
-const { requireVerifiedSession, targetUserIsVerified } = await import("../api-auth");
+// Team seats (drizzle/0239). Only the lookup is faked; the role ranking and
+// labels are the real ones.
+const seatByUser = new Map<string, { entityId: string; role: "OWNER" | "EDITOR" | "VIEWER" }>();
+vi.mock("@/lib/organizations/members", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/organizations/members")>()),
+  getMembership: async (_db: unknown, userId: string, entityType: "VENDOR" | "PROMOTER") => {
+    const seat = seatByUser.get(userId);
+    return seat ? { entityType, ...seat } : null;
+  },
+}));
+
+const { requireMemberSession, requireVerifiedSession, targetUserIsVerified } =
+  await import("../api-auth");
 
 beforeEach(() => {
   mockedAuth.mockReset();
   userById.clear();
+  seatByUser.clear();
 });
 
 describe("requireVerifiedSession", () => {
@@ -132,6 +145,59 @@ describe("requireVerifiedSession", () => {
   });
 });
 
+describe("requireVerifiedSession with a team requirement", () => {
+  it("resolves the caller's vendor by seat", async () => {
+    mockedAuth.mockResolvedValue({ user: { id: "u-ed", email: "ed@b.com" } });
+    userById.set("u-ed", { emailVerified: new Date("2026-01-01") });
+    seatByUser.set("u-ed", { entityId: "v-9", role: "EDITOR" });
+
+    const result = await requireVerifiedSession({ entityType: "VENDOR", role: "EDITOR" });
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.membership).toEqual({ entityType: "VENDOR", entityId: "v-9", role: "EDITOR" });
+    }
+  });
+
+  it("returns 403 insufficient_role for a viewer on a write", async () => {
+    mockedAuth.mockResolvedValue({ user: { id: "u-view", email: "v@b.com" } });
+    userById.set("u-view", { emailVerified: new Date("2026-01-01") });
+    seatByUser.set("u-view", { entityId: "v-9", role: "VIEWER" });
+
+    const result = await requireVerifiedSession({ entityType: "VENDOR", role: "EDITOR" });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.response.status).toBe(403);
+      const body = (await result.response.json()) as { error: string; requiredRole: string };
+      expect(body.error).toBe("insufficient_role");
+      expect(body.requiredRole).toBe("EDITOR");
+    }
+  });
+
+  it("returns the legacy 404 body when the caller has no seat", async () => {
+    mockedAuth.mockResolvedValue({ user: { id: "u-none", email: "n@b.com" } });
+    userById.set("u-none", { emailVerified: new Date("2026-01-01") });
+
+    const result = await requireVerifiedSession({ entityType: "PROMOTER", role: "VIEWER" });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.response.status).toBe(404);
+      expect(await result.response.json()).toEqual({ error: "Promoter profile not found" });
+    }
+  });
+});
+
+describe("requireMemberSession", () => {
+  it("lets a viewer read without a verified email", async () => {
+    mockedAuth.mockResolvedValue({ user: { id: "u-view", email: "v@b.com" } });
+    userById.set("u-view", { emailVerified: null });
+    seatByUser.set("u-view", { entityId: "v-9", role: "VIEWER" });
+
+    const result = await requireMemberSession({ entityType: "VENDOR", role: "VIEWER" });
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.membership.entityId).toBe("v-9");
+  });
+});
+
 describe("targetUserIsVerified", () => {
   it("returns true when the target user has emailVerified set", async () => {
     userById.set("u-target", { emailVerified: new Date() });
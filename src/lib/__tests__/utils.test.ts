@@ -223,6 +223,33 @@ describe("generateOutlookCalendarUrl", () => {
 });
 
 describe("generateICSContent", () => {
+  it("emits the canonical RRULE and EXDATEs matching the UTC DTSTART", () => {
+    const ics = generateICSContent({
+      title: "Farmers Market",
+      startDate: new Date(Date.UTC(2026, 4, 9, 12)),
+      endDate: new Date(Date.UTC(2026, 4, 9, 16)),
+      recurrenceRule: "byday=2sa;freq=monthly;until=20261010",
+      recurrenceExdates: ["2026-07-11"],
+    });
+
+    expect(ics).toContain("DTSTART:20260509T120000Z");
+    expect(ics).toContain("RRULE:FREQ=MONTHLY;BYDAY=2SA;UNTIL=20261010T235959Z");
+    expect(ics).toContain("EXDATE:20260711T120000Z");
+  });
+
+  it("drops a rule that doesn't parse", () => {
+    const ics = generateICSContent({
+      title: "Test Event",
+      startDate: new Date(Date.UTC(2026, 4, 9, 12)),
+      endDate: new Date(Date.UTC(2026, 4, 9, 16)),
+      recurrenceRule: "FREQ=SOMETIMES",
+      recurrenceExdates: ["2026-07-11"],
+    });
+
+    expect(ics).not.toContain("RRULE");
+    expect(ics).not.toContain("EXDATE");
+  });
+
   it("generates valid ICS format", () => {
     const ics = generateICSContent({
       title: "Test Event",
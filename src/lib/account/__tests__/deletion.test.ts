@@ -0,0 +1,375 @@
+/**
+ * Self-service account deletion (../deletion, drizzle/0242).
+ *
+ * The owner columns carry their production foreign keys — CASCADE on
+ * vendors.user_id, SET NULL on the others — because the point of erasure's
+ * ordering is that the final `DELETE FROM users` can't take a public listing
+ * with it. better-sqlite3 enforces foreign keys by default.
+ *
+ * The APPLICATION_FILES bucket is an in-memory stand-in that lists two keys a
+ * page, so the prefix delete has to follow the cursor.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import * as schema from "../../db/schema";
+import type { Database as AppDb } from "../../db";
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  cancelAccountDeletion,
+  deletionBlocker,
+  eraseAccount,
+  getPendingDeletion,
+  requestAccountDeletion,
+  runAccountDeletionSweep,
+} from "../deletion";
+
+const SCHEMA_SQL = `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY, email TEXT NOT NULL UNIQUE, password_hash TEXT,
+    origin TEXT NOT NULL DEFAULT 'registration', name TEXT, role TEXT NOT NULL DEFAULT 'USER',
+    email_verified INTEGER, image TEXT, oauth_provider TEXT, created_at INTEGER, updated_at INTEGER
+  );
+  CREATE TABLE user_roles (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL, granted_at INTEGER NOT NULL, granted_by TEXT
+  );
+  CREATE TABLE user_favorites (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    favoritable_type TEXT NOT NULL, favoritable_id TEXT NOT NULL, created_at INTEGER
+  );
+  CREATE TABLE blog_posts (
+    id TEXT PRIMARY KEY, author_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE
+  );
+  CREATE TABLE vendors (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    slug TEXT NOT NULL, contact_email TEXT, claimed INTEGER DEFAULT 0, claimed_at INTEGER,
+    claimed_by TEXT, updated_at INTEGER
+  );
+  CREATE TABLE promoters (
+    id TEXT PRIMARY KEY, user_id TEXT UNIQUE REFERENCES users(id) ON DELETE SET NULL,
+    contact_email TEXT, claimed INTEGER DEFAULT 0, claimed_at INTEGER, claimed_by TEXT,
+    updated_at INTEGER
+  );
+  CREATE TABLE venues (
+    id TEXT PRIMARY KEY, user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    contact_email TEXT, claimed INTEGER DEFAULT 0, claimed_at INTEGER, claimed_by TEXT,
+    updated_at INTEGER
+  );
+  CREATE TABLE performers (
+    id TEXT PRIMARY KEY, user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    contact_email TEXT, claimed INTEGER DEFAULT 0, claimed_at INTEGER, claimed_by TEXT,
+    updated_at INTEGER
+  );
+  CREATE TABLE organization_members (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE, role TEXT NOT NULL
+  );
+  CREATE TABLE organization_invites (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, email TEXT NOT NULL,
+    accepted_at INTEGER, revoked_at INTEGER
+  );
+  CREATE TABLE claim_tokens (id TEXT PRIMARY KEY, email TEXT);
+  CREATE TABLE newsletter_subscribers (id TEXT PRIMARY KEY, email TEXT NOT NULL UNIQUE);
+  CREATE TABLE newsletter_list_subscriptions (
+    id TEXT PRIMARY KEY, subscriber_id TEXT NOT NULL, list TEXT NOT NULL
+  );
+  CREATE TABLE email_send_ledger (
+    message_id TEXT PRIMARY KEY, recipient TEXT, subject TEXT, body_html TEXT, body_text TEXT
+  );
+  CREATE TABLE email_delivery_events (event_id TEXT PRIMARY KEY, recipient TEXT);
+  CREATE TABLE email_suppression_list (
+    email TEXT PRIMARY KEY, reason TEXT, source TEXT, created_at INTEGER NOT NULL
+  );
+  CREATE TABLE admin_actions (
+    id TEXT PRIMARY KEY, action TEXT NOT NULL, actor_user_id TEXT, target_type TEXT NOT NULL,
+    target_id TEXT NOT NULL, payload_json TEXT, created_at INTEGER NOT NULL
+  );
+  CREATE TABLE account_deletions (
+    id TEXT PRIMARY KEY NOT NULL, user_id TEXT NOT NULL, requested_at INTEGER NOT NULL,
+    scheduled_for INTEGER NOT NULL, cancelled_at INTEGER, completed_at INTEGER
+  );
+  CREATE UNIQUE INDEX idx_account_deletions_pending_user ON account_deletions (user_id)
+    WHERE cancelled_at IS NULL AND completed_at IS NULL;
+`;
+
+const T0 = new Date("2026-10-01T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let raw: InstanceType<typeof Database>;
+let db: AppDb;
+let stored: Set<string>;
+let files: R2Bucket;
+
+function memoryBucket(keys: Set<string>): R2Bucket {
+  return {
+    async list({ prefix = "", cursor }: { prefix?: string; cursor?: string } = {}) {
+      const matching = [...keys].filter((k) => k.startsWith(prefix)).sort();
+      const start = cursor ? Number(cursor) : 0;
+      const page = matching.slice(start, start + 2);
+      const truncated = start + 2 < matching.length;
+      return {
+        objects: page.map((key) => ({ key })),
+        truncated,
+        cursor: truncated ? String(start + 2) : undefined,
+      };
+    },
+    async delete(k: string | string[]) {
+      for (const key of Array.isArray(k) ? k : [k]) keys.delete(key);
+    },
+  } as unknown as R2Bucket;
+}
+
+beforeEach(() => {
+  stored = new Set();
+  files = memoryBucket(stored);
+  raw = new Database(":memory:");
+  raw.exec(SCHEMA_SQL);
+  db = drizzle(raw, { schema }) as unknown as AppDb;
+  raw.prepare("INSERT INTO users (id, email) VALUES ('u1', 'Maple@Example.com')").run();
+});
+
+const count = (sql: string, ...params: unknown[]) =>
+  (raw.prepare(sql).get(...params) as { n: number }).n;
+
+describe("requestAccountDeletion / cancelAccountDeletion", () => {
+  it("schedules the grace period out and returns the same request when asked again", async () => {
+    const first = await requestAccountDeletion(db, { userId: "u1", now: T0 });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    expect(first.deletion.scheduledFor.getTime()).toBe(
+      T0.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS
+    );
+
+    const again = await requestAccountDeletion(db, {
+      userId: "u1",
+      now: new Date(T0.getTime() + 3 * DAY_MS),
+    });
+    expect(again.ok && again.deletion.id).toBe(first.deletion.id);
+    expect(count("SELECT COUNT(*) AS n FROM account_deletions")).toBe(1);
+  });
+
+  it("cancels a pending request and allows a fresh one afterwards", async () => {
+    await requestAccountDeletion(db, { userId: "u1", now: T0 });
+    expect(await cancelAccountDeletion(db, { userId: "u1" })).toBe(true);
+    expect(await getPendingDeletion(db, "u1")).toBeNull();
+    expect(await cancelAccountDeletion(db, { userId: "u1" })).toBe(false);
+
+    const again = await requestAccountDeletion(db, { userId: "u1", now: T0 });
+    expect(again.ok).toBe(true);
+    expect(await getPendingDeletion(db, "u1")).not.toBeNull();
+  });
+
+  it("refuses admins and blog authors", async () => {
+    raw.prepare("INSERT INTO users (id, email) VALUES ('a1', 'admin@example.com')").run();
+    raw
+      .prepare(
+        "INSERT INTO user_roles (id, user_id, role, granted_at) VALUES ('r1', 'a1', 'ADMIN', 0)"
+      )
+      .run();
+    raw.prepare("INSERT INTO blog_posts (id, author_id) VALUES ('p1', 'u1')").run();
+
+    expect(await deletionBlocker(db, "a1")).toBe("admin");
+    expect(await requestAccountDeletion(db, { userId: "u1" })).toEqual({
+      ok: false,
+      reason: "blog_author",
+    });
+    expect(count("SELECT COUNT(*) AS n FROM account_deletions")).toBe(0);
+  });
+});
+
+describe("eraseAccount", () => {
+  beforeEach(() => {
+    raw.exec(`
+      INSERT INTO vendors (id, user_id, slug, contact_email, claimed, claimed_at, claimed_by)
+        VALUES ('v1', 'u1', 'maple-farm', 'maple@example.com', 1, 1, 'u1');
+      INSERT INTO promoters (id, user_id, contact_email, claimed)
+        VALUES ('p1', 'u1', 'office@maplefair.org', 1);
+      INSERT INTO venues (id, user_id, contact_email, claimed) VALUES ('ve1', 'u1', 'MAPLE@example.com', 1);
+      INSERT INTO performers (id, user_id, claimed) VALUES ('pf1', 'u1', 1);
+      INSERT INTO user_favorites (id, user_id, favoritable_type, favoritable_id)
+        VALUES ('f1', 'u1', 'EVENT', 'e1');
+      INSERT INTO users (id, email) VALUES ('u2', 'helper@example.com');
+      INSERT INTO organization_members (id, entity_type, entity_id, user_id, role) VALUES
+        ('m1', 'VENDOR', 'v1', 'u1', 'OWNER'),
+        ('m2', 'VENDOR', 'v1', 'u2', 'EDITOR'),
+        ('m3', 'PROMOTER', 'p-other', 'u2', 'OWNER');
+      INSERT INTO organization_invites (id, entity_type, entity_id, email) VALUES
+        ('i1', 'PROMOTER', 'p1', 'someone@example.com'),
+        ('i2', 'PROMOTER', 'p-other', 'maple@example.com');
+      INSERT INTO claim_tokens (id, email) VALUES ('c1', 'maple@example.com');
+      INSERT INTO newsletter_subscribers (id, email) VALUES ('s1', 'maple@example.com');
+      INSERT INTO newsletter_list_subscriptions (id, subscriber_id, list) VALUES ('l1', 's1', 'digest');
+      INSERT INTO email_send_ledger (message_id, recipient, subject, body_html, body_text) VALUES
+        ('e1', 'Maple@Example.com', 'Welcome', '<p>hi</p>', 'hi'),
+        ('e2', 'maple@example.com, helper@example.com', 'Team', '<p>x</p>', 'x');
+      INSERT INTO email_delivery_events (event_id, recipient) VALUES ('d1', 'maple@example.com');
+    `);
+  });
+
+  it("keeps every listing public and unclaimed", async () => {
+    const summary = await eraseAccount(db, { userId: "u1", applicationFiles: files, now: T0 });
+    expect(summary).toMatchObject({
+      vendorsReleased: 1,
+      promotersReleased: 1,
+      venuesReleased: 1,
+      performersReleased: 1,
+    });
+
+    const vendor = raw.prepare("SELECT * FROM vendors WHERE id = 'v1'").get() as Record<
+      string,
+      unknown
+    >;
+    expect(vendor).toMatchObject({ claimed: 0, claimed_at: null, claimed_by: null });
+    const owner = raw
+      .prepare("SELECT email, origin, role FROM users WHERE id = ?")
+      .get(vendor.user_id) as Record<string, unknown>;
+    expect(owner).toEqual({
+      email: "pending+maple-farm@meetmeatthefair.com",
+      origin: "ingestion",
+      role: "VENDOR",
+    });
+
+    for (const table of ["promoters", "venues", "performers"]) {
+      expect(raw.prepare(`SELECT user_id, claimed FROM ${table}`).get()).toEqual({
+        user_id: null,
+        claimed: 0,
+      });
+    }
+    expect(count("SELECT COUNT(*) AS n FROM admin_actions WHERE actor_user_id IS NULL")).toBe(4);
+  });
+
+  it("deletes the vendor's application files and no one else's", async () => {
+    for (const n of [1, 2, 3]) stored.add(`applications/v1/${n}.pdf`);
+    stored.add("applications/v-other/1.pdf");
+    stored.add("vendors/v1/logo.png");
+    const summary = await eraseAccount(db, { userId: "u1", applicationFiles: files, now: T0 });
+    expect(summary?.applicationFilesDeleted).toBe(3);
+    expect([...stored].sort()).toEqual(["applications/v-other/1.pdf", "vendors/v1/logo.png"]);
+  });
+
+  it("clears contact emails that are the account's address and no others", async () => {
+    await eraseAccount(db, { userId: "u1", applicationFiles: files, now: T0 });
+    expect(raw.prepare("SELECT contact_email FROM vendors").pluck().get()).toBeNull();
+    expect(raw.prepare("SELECT contact_email FROM venues").pluck().get()).toBeNull();
+    expect(raw.prepare("SELECT contact_email FROM promoters").pluck().get()).toBe(
+      "office@maplefair.org"
+    );
+  });
+
+  it("dissolves the released listings' teams but not other teams", async () => {
+    await eraseAccount(db, { userId: "u1", applicationFiles: files, now: T0 });
+    expect(raw.prepare("SELECT id FROM organization_members").pluck().all()).toEqual(["m3"]);
+    const invites = raw.prepare("SELECT id, revoked_at FROM organization_invites").all();
+    // i1 is on the released promoter; i2 is addressed to the departing user.
+    expect(invites).toEqual([
+      { id: "i1", revoked_at: T0.getTime() / 1000 },
+      { id: "i2", revoked_at: T0.getTime() / 1000 },
+    ]);
+  });
+
+  it("removes mail rows keyed by the address and suppresses it", async () => {
+    const summary = await eraseAccount(db, { userId: "u1", applicationFiles: files, now: T0 });
+    expect(summary?.emailsRedacted).toBe(1);
+
+    expect(count("SELECT COUNT(*) AS n FROM newsletter_subscribers")).toBe(0);
+    expect(count("SELECT COUNT(*) AS n FROM newsletter_list_subscriptions")).toBe(0);
+    expect(count("SELECT COUNT(*) AS n FROM claim_tokens")).toBe(0);
+    expect(raw.prepare("SELECT * FROM email_send_ledger ORDER BY message_id").all()).toEqual([
+      { message_id: "e1", recipient: null, subject: "Welcome", body_html: null, body_text: null },
+      {
+        message_id: "e2",
+        recipient: "maple@example.com, helper@example.com",
+        subject: "Team",
+        body_html: "<p>x</p>",
+        body_text: "x",
+      },
+    ]);
+    expect(raw.prepare("SELECT recipient FROM email_delivery_events").pluck().get()).toBeNull();
+    expect(raw.prepare("SELECT email, reason, source FROM email_suppression_list").get()).toEqual({
+      email: "maple@example.com",
+      reason: "account_deleted",
+      source: "account-deletion",
+    });
+  });
+
+  it("deletes the user, cascading personal rows", async () => {
+    await eraseAccount(db, { userId: "u1", applicationFiles: files, now: T0 });
+    expect(count("SELECT COUNT(*) AS n FROM users WHERE id = 'u1'")).toBe(0);
+    expect(count("SELECT COUNT(*) AS n FROM user_favorites")).toBe(0);
+    expect(await eraseAccount(db, { userId: "u1", applicationFiles: files, now: T0 })).toBeNull();
+  });
+
+  it("mints a fresh placeholder when the original already owns another vendor", async () => {
+    raw.exec(`
+      INSERT INTO users (id, email, origin) VALUES ('ph', 'pending+maple-farm@meetmeatthefair.com', 'ingestion');
+      INSERT INTO vendors (id, user_id, slug) VALUES ('v-other', 'ph', 'maple-farm-2');
+    `);
+    await eraseAccount(db, { userId: "u1", applicationFiles: files, now: T0 });
+    const email = raw
+      .prepare("SELECT u.email FROM vendors v JOIN users u ON u.id = v.user_id WHERE v.id = 'v1'")
+      .pluck()
+      .get() as string;
+    expect(email).toMatch(/^pending\+maple-farm-[0-9a-f]{8}@meetmeatthefair\.com$/);
+  });
+
+  it("reuses an unowned placeholder", async () => {
+    raw
+      .prepare(
+        "INSERT INTO users (id, email, origin) VALUES ('ph', 'pending+maple-farm@meetmeatthefair.com', 'ingestion')"
+      )
+      .run();
+    await eraseAccount(db, { userId: "u1", applicationFiles: files, now: T0 });
+    expect(raw.prepare("SELECT user_id FROM vendors WHERE id = 'v1'").pluck().get()).toBe("ph");
+  });
+});
+
+describe("runAccountDeletionSweep", () => {
+  it("erases due requests only, and stamps them complete", async () => {
+    raw.prepare("INSERT INTO users (id, email) VALUES ('u2', 'later@example.com')").run();
+    await requestAccountDeletion(db, { userId: "u1", now: T0 });
+    await requestAccountDeletion(db, { userId: "u2", now: new Date(T0.getTime() + 5 * DAY_MS) });
+
+    const due = new Date(T0.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS);
+    expect(await runAccountDeletionSweep(db, { applicationFiles: files, now: due })).toEqual({
+      due: 1,
+      erased: 1,
+      blocked: 0,
+      failed: 0,
+    });
+    expect(raw.prepare("SELECT id FROM users").pluck().all()).toEqual(["u2"]);
+    expect(await getPendingDeletion(db, "u1")).toBeNull();
+    expect(
+      raw.prepare("SELECT completed_at FROM account_deletions WHERE user_id = 'u1'").pluck().get()
+    ).toBe(due.getTime() / 1000);
+
+    expect(await runAccountDeletionSweep(db, { applicationFiles: files, now: due })).toMatchObject({
+      due: 0,
+    });
+  });
+
+  it("leaves a request pending when the account became an admin meanwhile", async () => {
+    await requestAccountDeletion(db, { userId: "u1", now: T0 });
+    raw
+      .prepare(
+        "INSERT INTO user_roles (id, user_id, role, granted_at) VALUES ('r1', 'u1', 'ADMIN', 0)"
+      )
+      .run();
+    const due = new Date(T0.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS);
+    expect(await runAccountDeletionSweep(db, { applicationFiles: files, now: due })).toMatchObject({
+      blocked: 1,
+      erased: 0,
+    });
+    expect(count("SELECT COUNT(*) AS n FROM users WHERE id = 'u1'")).toBe(1);
+  });
+
+  it("skips cancelled requests", async () => {
+    await requestAccountDeletion(db, { userId: "u1", now: T0 });
+    await cancelAccountDeletion(db, { userId: "u1", now: T0 });
+    const due = new Date(T0.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS);
+    expect(await runAccountDeletionSweep(db, { applicationFiles: files, now: due })).toMatchObject({
+      due: 0,
+    });
+    expect(count("SELECT COUNT(*) AS n FROM users")).toBe(1);
+  });
+});
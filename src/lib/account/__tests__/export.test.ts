@@ -0,0 +1,155 @@
+/**
+ * Self-service data export (../export). Mostly about what's left out: the
+ * password hash, other people's mail, and newsletter lists already left.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import * as schema from "../../db/schema";
+import type { Database as AppDb } from "../../db";
+import { ACCOUNT_EXPORT_FORMAT, buildAccountExport } from "../export";
+
+const SCHEMA_SQL = `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY, email TEXT NOT NULL UNIQUE, password_hash TEXT,
+    origin TEXT NOT NULL DEFAULT 'registration', name TEXT, role TEXT NOT NULL DEFAULT 'USER',
+    email_verified INTEGER, image TEXT, oauth_provider TEXT, created_at INTEGER, updated_at INTEGER
+  );
+  CREATE TABLE user_roles (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, role TEXT NOT NULL, granted_at INTEGER NOT NULL
+  );
+  CREATE TABLE accounts (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, type TEXT NOT NULL, provider TEXT NOT NULL,
+    access_token TEXT
+  );
+  CREATE TABLE user_favorites (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, favoritable_type TEXT NOT NULL,
+    favoritable_id TEXT NOT NULL, created_at INTEGER
+  );
+  CREATE TABLE notifications (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, type TEXT NOT NULL, title TEXT NOT NULL,
+    message TEXT NOT NULL, read INTEGER, data TEXT, created_at INTEGER
+  );
+  CREATE TABLE entity_claims (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, user_id TEXT NOT NULL,
+    method TEXT NOT NULL, status TEXT NOT NULL, evidence TEXT, created_at INTEGER NOT NULL,
+    decided_at INTEGER
+  );
+  CREATE TABLE vendors (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, business_name TEXT NOT NULL, slug TEXT NOT NULL,
+    contact_name TEXT, contact_email TEXT, contact_phone TEXT, website TEXT, claimed_at INTEGER,
+    created_at INTEGER
+  );
+  CREATE TABLE promoters (
+    id TEXT PRIMARY KEY, user_id TEXT, company_name TEXT NOT NULL, slug TEXT NOT NULL,
+    contact_email TEXT, contact_phone TEXT, website TEXT, claimed_at INTEGER, created_at INTEGER
+  );
+  CREATE TABLE venues (
+    id TEXT PRIMARY KEY, user_id TEXT, name TEXT NOT NULL, slug TEXT NOT NULL,
+    contact_email TEXT, contact_phone TEXT, website TEXT, claimed_at INTEGER, created_at INTEGER
+  );
+  CREATE TABLE performers (
+    id TEXT PRIMARY KEY, user_id TEXT, name TEXT NOT NULL, slug TEXT NOT NULL, contact_name TEXT,
+    contact_email TEXT, contact_phone TEXT, website TEXT, claimed_at INTEGER, created_at INTEGER
+  );
+  CREATE TABLE organization_members (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, user_id TEXT NOT NULL,
+    role TEXT NOT NULL, created_at INTEGER NOT NULL
+  );
+  CREATE TABLE events (id TEXT PRIMARY KEY, name TEXT NOT NULL);
+  CREATE TABLE event_vendors (
+    id TEXT PRIMARY KEY, event_id TEXT NOT NULL, vendor_id TEXT NOT NULL, booth_info TEXT,
+    status TEXT NOT NULL, payment_status TEXT NOT NULL, participation_type TEXT NOT NULL
+  );
+  CREATE TABLE newsletter_subscribers (
+    id TEXT PRIMARY KEY, email TEXT NOT NULL UNIQUE, source TEXT, confirmed INTEGER,
+    unsubscribed INTEGER, created_at INTEGER, confirmed_at INTEGER, unsubscribed_at INTEGER
+  );
+  CREATE TABLE newsletter_list_subscriptions (
+    id TEXT PRIMARY KEY, subscriber_id TEXT NOT NULL, list TEXT NOT NULL,
+    created_at INTEGER NOT NULL, unsubscribed_at INTEGER
+  );
+  CREATE TABLE saved_searches (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, name TEXT NOT NULL, params TEXT NOT NULL,
+    frequency TEXT NOT NULL, email_enabled INTEGER NOT NULL, created_at INTEGER
+  );
+  CREATE TABLE notification_preferences (
+    user_id TEXT NOT NULL, type TEXT NOT NULL, email INTEGER NOT NULL, in_app INTEGER NOT NULL
+  );
+  CREATE TABLE login_events (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, method TEXT NOT NULL, second_factor TEXT,
+    ip TEXT, user_agent TEXT, created_at INTEGER NOT NULL
+  );
+  CREATE TABLE email_send_ledger (
+    message_id TEXT PRIMARY KEY, sent_at INTEGER, recipient TEXT, source TEXT, status TEXT,
+    subject TEXT, body_html TEXT, body_text TEXT
+  );
+`;
+
+const NOW = new Date("2026-10-01T12:00:00Z");
+
+let raw: InstanceType<typeof Database>;
+let db: AppDb;
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(SCHEMA_SQL);
+  db = drizzle(raw, { schema }) as unknown as AppDb;
+  raw.exec(`
+    INSERT INTO users (id, email, password_hash, name)
+      VALUES ('u1', 'Maple@Example.com', 'salt:hash', 'Maple');
+    INSERT INTO accounts (id, user_id, type, provider, access_token)
+      VALUES ('a1', 'u1', 'oauth', 'google', 'secret-token');
+    INSERT INTO user_favorites (id, user_id, favoritable_type, favoritable_id)
+      VALUES ('f1', 'u1', 'EVENT', 'e1');
+    INSERT INTO vendors (id, user_id, business_name, slug, contact_email)
+      VALUES ('v1', 'u1', 'Maple Farm', 'maple-farm', 'maple@example.com');
+    INSERT INTO events (id, name) VALUES ('e1', 'Fryeburg Fair'), ('e2', 'Union Fair');
+    INSERT INTO event_vendors (id, event_id, vendor_id, status, payment_status, participation_type)
+      VALUES ('ev1', 'e1', 'v1', 'APPROVED', 'PAID', 'EXHIBITOR'),
+             ('ev2', 'e2', 'v-someone-else', 'APPLIED', 'PENDING', 'EXHIBITOR');
+    INSERT INTO newsletter_subscribers (id, email, source, confirmed)
+      VALUES ('s1', 'maple@example.com', 'footer', 1);
+    INSERT INTO newsletter_list_subscriptions (id, subscriber_id, list, created_at, unsubscribed_at)
+      VALUES ('l1', 's1', 'digest', 0, NULL), ('l2', 's1', 'vendor-digest', 0, 100);
+    INSERT INTO email_send_ledger (message_id, sent_at, recipient, subject, body_html, body_text)
+      VALUES ('m1', 1, 'MAPLE@example.com', 'Welcome', '<p>hi</p>', 'hi'),
+             ('m2', 2, 'someone@example.com', 'Not yours', '<p>x</p>', 'x');
+  `);
+});
+
+describe("buildAccountExport", () => {
+  it("returns null for an unknown user", async () => {
+    expect(await buildAccountExport(db, "nobody")).toBeNull();
+  });
+
+  it("stamps the format and leaves out credentials", async () => {
+    const data = await buildAccountExport(db, "u1", NOW);
+    expect(data?.format).toBe(ACCOUNT_EXPORT_FORMAT);
+    expect(data?.exportedAt).toBe(NOW.toISOString());
+    expect(data?.profile).toMatchObject({ id: "u1", email: "Maple@Example.com", name: "Maple" });
+    expect(data?.profile).not.toHaveProperty("passwordHash");
+    expect(data?.linkedAccounts).toEqual([{ provider: "google", type: "oauth" }]);
+    expect(JSON.stringify(data)).not.toContain("secret-token");
+  });
+
+  it("includes favorites, listings and only this user's applications", async () => {
+    const data = await buildAccountExport(db, "u1", NOW);
+    expect(data?.favorites).toEqual([{ type: "EVENT", id: "e1", createdAt: null }]);
+    expect(data?.listings.vendors).toMatchObject([{ id: "v1", name: "Maple Farm" }]);
+    expect(data?.vendorApplications).toEqual([
+      expect.objectContaining({ eventName: "Fryeburg Fair", status: "APPROVED" }),
+    ]);
+  });
+
+  it("matches newsletter and sent mail by address, case-insensitively", async () => {
+    const data = await buildAccountExport(db, "u1", NOW);
+    expect(data?.newsletter).toMatchObject({ source: "footer", confirmed: true });
+    expect(data?.newsletter).not.toHaveProperty("id");
+    expect(data?.newsletter?.lists.map((l) => l.list)).toEqual(["digest"]);
+    expect(data?.emailHistory).toEqual([
+      expect.objectContaining({ subject: "Welcome", bodyText: "hi" }),
+    ]);
+    expect(data?.emailHistory[0]).not.toHaveProperty("bodyHtml");
+  });
+});
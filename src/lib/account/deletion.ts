@@ -0,0 +1,480 @@
+/**
+ * Self-service account deletion (drizzle/0242).
+ *
+ * LIFECYCLE
+ * ---------
+ * A request from /dashboard/settings opens an `account_deletions` row
+ * scheduled {@link ACCOUNT_DELETION_GRACE_DAYS} days out. Until then nothing
+ * is touched — the user can still sign in, and cancelling simply stamps
+ * `cancelled_at`. The hourly sweep (POST /api/internal/account-deletions/sweep,
+ * from the MCP Worker's cron) erases every account whose date has passed.
+ *
+ * WHAT ERASURE DOES
+ * -----------------
+ * Most personal rows hang off `users` with ON DELETE CASCADE (roles,
+ * favorites, notifications, claims, team seats, sign-in history, tokens,
+ * saved searches…) and go with the users row. The work here is everything
+ * that would NOT go correctly on its own:
+ *
+ *   - Listings the user owns stay public, as unclaimed. This matters most for
+ *     vendors: `vendors.user_id` is NOT NULL with ON DELETE CASCADE, so a
+ *     plain delete would take the vendor — and every event it appears on —
+ *     with it. A vendor is handed to a placeholder owner, the same
+ *     `pending+<slug>` shape ingestion mints; promoters, venues and
+ *     performers have nullable owners and are simply released. Any other
+ *     team seats and open invites on those listings go too: an unclaimed
+ *     listing has no team, and the next owner arrives through a claim.
+ *   - Application documents the user's vendors uploaded (certificates of
+ *     insurance and the like, in the private APPLICATION_FILES bucket) are
+ *     deleted, not handed on with the listing. The answers that point at
+ *     them stay on the applications; the promoter's download gets a 404.
+ *   - A listing contact email equal to the account's address is cleared, so
+ *     the person's address doesn't stay published on a page they gave up.
+ *   - Newsletter rows are keyed by email, not user id: the subscriber and its
+ *     list memberships are deleted, and sent-mail history addressed solely to
+ *     them keeps its metadata but loses the recipient and rendered body.
+ *   - The address goes on `email_suppression_list`, so no solicited mail
+ *     (outreach, digests) is ever sent to it again.
+ *
+ * Steps run in that order with the users row last, and each is idempotent,
+ * so a sweep that dies halfway just picks the same request up next hour.
+ *
+ * REFUSALS
+ * --------
+ * Admins can't delete themselves here ({@link deletionBlocker}); another
+ * admin removes the role first. The same check refuses anyone who authored
+ * blog posts, which would otherwise cascade away with them.
+ */
+import { and, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import type { AnySQLiteColumn } from "drizzle-orm/sqlite-core";
+import { applicationUploadPrefix } from "@/lib/application-forms/form";
+import type { Database } from "@/lib/db";
+import {
+  accountDeletions,
+  adminActions,
+  blogPosts,
+  claimTokens,
+  emailDeliveryEvents,
+  emailSendLedger,
+  emailSuppressionList,
+  newsletterListSubscriptions,
+  newsletterSubscribers,
+  organizationInvites,
+  organizationMembers,
+  performers,
+  promoters,
+  userRoles,
+  users,
+  vendors,
+  venues,
+  type OrganizationEntityType,
+} from "@/lib/db/schema";
+import { logError } from "@/lib/logger";
+
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+/** Requests erased per sweep; the rest wait for the next hour. */
+const SWEEP_BATCH_SIZE = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PendingDeletion {
+  id: string;
+  requestedAt: Date;
+  scheduledFor: Date;
+}
+
+export async function getPendingDeletion(
+  db: Database,
+  userId: string
+): Promise<PendingDeletion | null> {
+  const [row] = await db
+    .select({
+      id: accountDeletions.id,
+      requestedAt: accountDeletions.requestedAt,
+      scheduledFor: accountDeletions.scheduledFor,
+    })
+    .from(accountDeletions)
+    .where(
+      and(
+        eq(accountDeletions.userId, userId),
+        isNull(accountDeletions.cancelledAt),
+        isNull(accountDeletions.completedAt)
+      )
+    )
+    .limit(1);
+  return row ?? null;
+}
+
+export type DeletionBlocker = "admin" | "blog_author";
+
+/** Why this account can't delete itself, or null when it can. */
+export async function deletionBlocker(
+  db: Database,
+  userId: string
+): Promise<DeletionBlocker | null> {
+  const [[admin], [post]] = await Promise.all([
+    db
+      .select({ role: userRoles.role })
+      .from(userRoles)
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.role, "ADMIN")))
+      .limit(1),
+    db.select({ id: blogPosts.id }).from(blogPosts).where(eq(blogPosts.authorId, userId)).limit(1),
+  ]);
+  if (admin) return "admin";
+  if (post) return "blog_author";
+  return null;
+}
+
+/**
+ * Schedule deletion. Asking again while a request is pending returns that
+ * request unchanged — the date never slides later.
+ */
+export async function requestAccountDeletion(
+  db: Database,
+  args: { userId: string; now?: Date }
+): Promise<{ ok: true; deletion: PendingDeletion } | { ok: false; reason: DeletionBlocker }> {
+  const blocker = await deletionBlocker(db, args.userId);
+  if (blocker) return { ok: false, reason: blocker };
+
+  const existing = await getPendingDeletion(db, args.userId);
+  if (existing) return { ok: true, deletion: existing };
+
+  const now = args.now ?? new Date();
+  const deletion = {
+    id: crypto.randomUUID(),
+    requestedAt: now,
+    scheduledFor: new Date(now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS),
+  };
+  await db.insert(accountDeletions).values({ ...deletion, userId: args.userId });
+  return { ok: true, deletion };
+}
+
+/** False when there was nothing pending to cancel. */
+export async function cancelAccountDeletion(
+  db: Database,
+  args: { userId: string; now?: Date }
+): Promise<boolean> {
+  const cancelled = await db
+    .update(accountDeletions)
+    .set({ cancelledAt: args.now ?? new Date() })
+    .where(
+      and(
+        eq(accountDeletions.userId, args.userId),
+        isNull(accountDeletions.cancelledAt),
+        isNull(accountDeletions.completedAt)
+      )
+    )
+    .returning({ id: accountDeletions.id });
+  return cancelled.length > 0;
+}
+
+export interface ErasureSummary {
+  vendorsReleased: number;
+  promotersReleased: number;
+  venuesReleased: number;
+  performersReleased: number;
+  applicationFilesDeleted: number;
+  emailsRedacted: number;
+}
+
+async function recordRelease(
+  db: Database,
+  targetType: string,
+  targetId: string,
+  now: Date
+): Promise<void> {
+  await db.insert(adminActions).values({
+    action: `${targetType}.released_by_account_deletion`,
+    actorUserId: null,
+    targetType,
+    targetId,
+    payloadJson: null,
+    createdAt: now,
+  });
+}
+
+async function dissolveTeams(
+  db: Database,
+  entityType: OrganizationEntityType,
+  entityIds: string[],
+  now: Date
+): Promise<void> {
+  if (entityIds.length === 0) return;
+  await db
+    .delete(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.entityType, entityType),
+        inArray(organizationMembers.entityId, entityIds)
+      )
+    );
+  await db
+    .update(organizationInvites)
+    .set({ revokedAt: now })
+    .where(
+      and(
+        eq(organizationInvites.entityType, entityType),
+        inArray(organizationInvites.entityId, entityIds),
+        isNull(organizationInvites.acceptedAt),
+        isNull(organizationInvites.revokedAt)
+      )
+    );
+}
+
+/**
+ * The placeholder owner for a released vendor: the existing
+ * `pending+<slug>` row when it owns nothing, otherwise a fresh one. A vendor
+ * claimed from ingestion usually still has its original placeholder around.
+ */
+async function placeholderOwnerFor(db: Database, slug: string): Promise<string> {
+  const email = `pending+${slug}@meetmeatthefair.com`;
+  const [existing] = await db
+    .select({ id: users.id, vendorId: vendors.id })
+    .from(users)
+    .leftJoin(vendors, eq(vendors.userId, users.id))
+    .where(eq(users.email, email))
+    .limit(1);
+  if (existing && !existing.vendorId) return existing.id;
+
+  const id = crypto.randomUUID();
+  await db.insert(users).values({
+    id,
+    email: existing ? `pending+${slug}-${id.slice(0, 8)}@meetmeatthefair.com` : email,
+    origin: "ingestion",
+    role: "VENDOR",
+  });
+  return id;
+}
+
+/**
+ * Delete every application file under a vendor's prefix; returns how many.
+ * The whole listing is read before anything is deleted, so the cursor never
+ * walks a prefix that is shrinking under it.
+ */
+async function deleteApplicationFiles(bucket: R2Bucket, vendorId: string): Promise<number> {
+  const prefix = applicationUploadPrefix(vendorId);
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix, cursor });
+    keys.push(...page.objects.map((o) => o.key));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  // R2 takes at most 1,000 keys per delete.
+  for (let i = 0; i < keys.length; i += 1000) {
+    await bucket.delete(keys.slice(i, i + 1000));
+  }
+  return keys.length;
+}
+
+/** Null a listing contact email that is the departing account's address. */
+function contactEmailIf(email: string) {
+  return (column: AnySQLiteColumn) =>
+    sql<string | null>`CASE WHEN lower(${column}) = ${email} THEN NULL ELSE ${column} END`;
+}
+
+/**
+ * Erase one account now. Null when the user no longer exists (an earlier
+ * sweep got as far as the delete). Callers check {@link deletionBlocker}
+ * first; this function does not. `applicationFiles` is the APPLICATION_FILES
+ * bucket.
+ */
+export async function eraseAccount(
+  db: Database,
+  args: { userId: string; applicationFiles: R2Bucket; now?: Date }
+): Promise<ErasureSummary | null> {
+  const now = args.now ?? new Date();
+  const [user] = await db
+    .select({ id: users.id, email: users.email })
+    .from(users)
+    .where(eq(users.id, args.userId))
+    .limit(1);
+  if (!user) return null;
+  const email = user.email.trim().toLowerCase();
+  const clearIfMine = contactEmailIf(email);
+
+  // Listings: released, not deleted.
+  const ownedVendors = await db
+    .select({ id: vendors.id, slug: vendors.slug })
+    .from(vendors)
+    .where(eq(vendors.userId, user.id));
+  // Files before the hand-over: once a vendor is released, a retried sweep
+  // no longer finds it among the user's.
+  let applicationFilesDeleted = 0;
+  for (const vendor of ownedVendors) {
+    applicationFilesDeleted += await deleteApplicationFiles(args.applicationFiles, vendor.id);
+  }
+  for (const vendor of ownedVendors) {
+    await db
+      .update(vendors)
+      .set({
+        userId: await placeholderOwnerFor(db, vendor.slug),
+        claimed: false,
+        claimedAt: null,
+        claimedBy: null,
+        contactEmail: clearIfMine(vendors.contactEmail),
+      })
+      .where(eq(vendors.id, vendor.id));
+    await recordRelease(db, "vendor", vendor.id, now);
+  }
+  await dissolveTeams(
+    db,
+    "VENDOR",
+    ownedVendors.map((v) => v.id),
+    now
+  );
+
+  const releasedPromoters = await db
+    .update(promoters)
+    .set({
+      userId: null,
+      claimed: false,
+      claimedAt: null,
+      claimedBy: null,
+      contactEmail: clearIfMine(promoters.contactEmail),
+    })
+    .where(eq(promoters.userId, user.id))
+    .returning({ id: promoters.id });
+  for (const p of releasedPromoters) await recordRelease(db, "promoter", p.id, now);
+  await dissolveTeams(
+    db,
+    "PROMOTER",
+    releasedPromoters.map((p) => p.id),
+    now
+  );
+
+  const releasedVenues = await db
+    .update(venues)
+    .set({
+      userId: null,
+      claimed: false,
+      claimedAt: null,
+      claimedBy: null,
+      contactEmail: clearIfMine(venues.contactEmail),
+    })
+    .where(eq(venues.userId, user.id))
+    .returning({ id: venues.id });
+  for (const v of releasedVenues) await recordRelease(db, "venue", v.id, now);
+
+  const releasedPerformers = await db
+    .update(performers)
+    .set({
+      userId: null,
+      claimed: false,
+      claimedAt: null,
+      claimedBy: null,
+      contactEmail: clearIfMine(performers.contactEmail),
+    })
+    .where(eq(performers.userId, user.id))
+    .returning({ id: performers.id });
+  for (const p of releasedPerformers) await recordRelease(db, "performer", p.id, now);
+
+  // Mail keyed by address rather than user id.
+  const [subscriber] = await db
+    .select({ id: newsletterSubscribers.id })
+    .from(newsletterSubscribers)
+    .where(eq(sql`lower(${newsletterSubscribers.email})`, email))
+    .limit(1);
+  if (subscriber) {
+    await db
+      .delete(newsletterListSubscriptions)
+      .where(eq(newsletterListSubscriptions.subscriberId, subscriber.id));
+    await db.delete(newsletterSubscribers).where(eq(newsletterSubscribers.id, subscriber.id));
+  }
+  await db.delete(claimTokens).where(eq(sql`lower(${claimTokens.email})`, email));
+  await db
+    .update(organizationInvites)
+    .set({ revokedAt: now })
+    .where(
+      and(
+        eq(organizationInvites.email, email),
+        isNull(organizationInvites.acceptedAt),
+        isNull(organizationInvites.revokedAt)
+      )
+    );
+
+  const redacted = await db
+    .update(emailSendLedger)
+    .set({ recipient: null, bodyHtml: null, bodyText: null })
+    .where(eq(sql`lower(${emailSendLedger.recipient})`, email))
+    .returning({ messageId: emailSendLedger.messageId });
+  await db
+    .update(emailDeliveryEvents)
+    .set({ recipient: null })
+    .where(eq(sql`lower(${emailDeliveryEvents.recipient})`, email));
+
+  await db
+    .insert(emailSuppressionList)
+    .values({ email, reason: "account_deleted", source: "account-deletion", createdAt: now })
+    .onConflictDoNothing({ target: emailSuppressionList.email });
+
+  // Last: everything else cascades from here.
+  await db.delete(users).where(eq(users.id, user.id));
+
+  return {
+    vendorsReleased: ownedVendors.length,
+    promotersReleased: releasedPromoters.length,
+    venuesReleased: releasedVenues.length,
+    performersReleased: releasedPerformers.length,
+    applicationFilesDeleted,
+    emailsRedacted: redacted.length,
+  };
+}
+
+export interface DeletionSweepResult {
+  due: number;
+  erased: number;
+  /** Became an admin or blog author during the grace period; left pending. */
+  blocked: number;
+  failed: number;
+}
+
+/** Erase every account whose grace period is over. */
+export async function runAccountDeletionSweep(
+  db: Database,
+  args: { applicationFiles: R2Bucket; now?: Date }
+): Promise<DeletionSweepResult> {
+  const now = args.now ?? new Date();
+  const due = await db
+    .select({ id: accountDeletions.id, userId: accountDeletions.userId })
+    .from(accountDeletions)
+    .where(
+      and(
+        lte(accountDeletions.scheduledFor, now),
+        isNull(accountDeletions.cancelledAt),
+        isNull(accountDeletions.completedAt)
+      )
+    )
+    .orderBy(accountDeletions.scheduledFor)
+    .limit(SWEEP_BATCH_SIZE);
+
+  const result: DeletionSweepResult = { due: due.length, erased: 0, blocked: 0, failed: 0 };
+  for (const request of due) {
+    try {
+      if (await deletionBlocker(db, request.userId)) {
+        result.blocked++;
+        continue;
+      }
+      await eraseAccount(db, {
+        userId: request.userId,
+        applicationFiles: args.applicationFiles,
+        now,
+      });
+      await db
+        .update(accountDeletions)
+        .set({ completedAt: now })
+        .where(eq(accountDeletions.id, request.id));
+      result.erased++;
+    } catch (error) {
+      result.failed++;
+      await logError(db, {
+        message: "Account deletion failed",
+        error,
+        source: "lib/account/deletion",
+        context: { deletionId: request.id },
+      });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,291 @@
+/**
+ * Self-service data export: everything we hold about one account, as a single
+ * JSON document downloaded from /dashboard/settings.
+ *
+ * Shape is `{ format, exportedAt, profile, … }` with one key per area. The
+ * `format` string is bumped whenever a key is renamed or removed so anyone
+ * scripting against old exports can tell; adding keys doesn't bump it.
+ *
+ * Deliberately left out: secrets and credentials (password hash, OAuth
+ * tokens, API token hashes, TOTP secret, recovery codes, passkey public
+ * keys) and data that is about the listing rather than the person. Owned
+ * listings appear as identity and contact fields only — the descriptions,
+ * photos and events are public on the listing's own page — and applications
+ * carry the event's name, not the event.
+ * Sent-mail history carries the plain-text body but not the HTML, which is
+ * the same words in our template and runs to tens of KB per message.
+ */
+import { and, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  accounts,
+  emailSendLedger,
+  entityClaims,
+  eventVendors,
+  events,
+  loginEvents,
+  newsletterListSubscriptions,
+  newsletterSubscribers,
+  notificationPreferences,
+  notifications,
+  organizationMembers,
+  performers,
+  promoters,
+  savedSearches,
+  userFavorites,
+  userRoles,
+  users,
+  vendors,
+  venues,
+} from "@/lib/db/schema";
+
+export const ACCOUNT_EXPORT_FORMAT = "takemetothefair.account-export.v1";
+
+/** Sent-mail rows included; the ledger is append-only and can be long. */
+const EMAIL_HISTORY_LIMIT = 1000;
+
+function newsletterRow<T extends { id: string }>({ id: _id, ...rest }: T) {
+  return rest;
+}
+
+export type AccountExport = Awaited<ReturnType<typeof buildAccountExport>>;
+
+/** Null when the user doesn't exist. */
+export async function buildAccountExport(db: Database, userId: string, now: Date = new Date()) {
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) return null;
+  const { passwordHash: _passwordHash, ...profile } = user;
+  const email = user.email.trim().toLowerCase();
+
+  const [
+    roles,
+    linkedAccounts,
+    favorites,
+    inbox,
+    claims,
+    ownedVendors,
+    ownedPromoters,
+    ownedVenues,
+    ownedPerformers,
+    teams,
+    searches,
+    preferences,
+    signIns,
+    sentEmails,
+  ] = await Promise.all([
+    db
+      .select({ role: userRoles.role, grantedAt: userRoles.grantedAt })
+      .from(userRoles)
+      .where(eq(userRoles.userId, userId)),
+    db
+      .select({ provider: accounts.provider, type: accounts.type })
+      .from(accounts)
+      .where(eq(accounts.userId, userId)),
+    db
+      .select({
+        type: userFavorites.favoritableType,
+        id: userFavorites.favoritableId,
+        createdAt: userFavorites.createdAt,
+      })
+      .from(userFavorites)
+      .where(eq(userFavorites.userId, userId)),
+    db
+      .select({
+        type: notifications.type,
+        title: notifications.title,
+        message: notifications.message,
+        read: notifications.read,
+        data: notifications.data,
+        createdAt: notifications.createdAt,
+      })
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt)),
+    db
+      .select({
+        entityType: entityClaims.entityType,
+        entityId: entityClaims.entityId,
+        method: entityClaims.method,
+        status: entityClaims.status,
+        evidence: entityClaims.evidence,
+        createdAt: entityClaims.createdAt,
+        decidedAt: entityClaims.decidedAt,
+      })
+      .from(entityClaims)
+      .where(eq(entityClaims.userId, userId)),
+    db
+      .select({
+        id: vendors.id,
+        name: vendors.businessName,
+        slug: vendors.slug,
+        contactName: vendors.contactName,
+        contactEmail: vendors.contactEmail,
+        contactPhone: vendors.contactPhone,
+        website: vendors.website,
+        claimedAt: vendors.claimedAt,
+        createdAt: vendors.createdAt,
+      })
+      .from(vendors)
+      .where(eq(vendors.userId, userId)),
+    db
+      .select({
+        id: promoters.id,
+        name: promoters.companyName,
+        slug: promoters.slug,
+        contactEmail: promoters.contactEmail,
+        contactPhone: promoters.contactPhone,
+        website: promoters.website,
+        claimedAt: promoters.claimedAt,
+        createdAt: promoters.createdAt,
+      })
+      .from(promoters)
+      .where(eq(promoters.userId, userId)),
+    db
+      .select({
+        id: venues.id,
+        name: venues.name,
+        slug: venues.slug,
+        contactEmail: venues.contactEmail,
+        contactPhone: venues.contactPhone,
+        website: venues.website,
+        claimedAt: venues.claimedAt,
+        createdAt: venues.createdAt,
+      })
+      .from(venues)
+      .where(eq(venues.userId, userId)),
+    db
+      .select({
+        id: performers.id,
+        name: performers.name,
+        slug: performers.slug,
+        contactName: performers.contactName,
+        contactEmail: performers.contactEmail,
+        contactPhone: performers.contactPhone,
+        website: performers.website,
+        claimedAt: performers.claimedAt,
+        createdAt: performers.createdAt,
+      })
+      .from(performers)
+      .where(eq(performers.userId, userId)),
+    db
+      .select({
+        entityType: organizationMembers.entityType,
+        entityId: organizationMembers.entityId,
+        role: organizationMembers.role,
+        createdAt: organizationMembers.createdAt,
+      })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, userId)),
+    db
+      .select({
+        name: savedSearches.name,
+        params: savedSearches.params,
+        frequency: savedSearches.frequency,
+        emailEnabled: savedSearches.emailEnabled,
+        createdAt: savedSearches.createdAt,
+      })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId)),
+    db
+      .select({
+        type: notificationPreferences.type,
+        email: notificationPreferences.email,
+        inApp: notificationPreferences.inApp,
+      })
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId)),
+    db
+      .select({
+        method: loginEvents.method,
+        secondFactor: loginEvents.secondFactor,
+        ip: loginEvents.ip,
+        userAgent: loginEvents.userAgent,
+        createdAt: loginEvents.createdAt,
+      })
+      .from(loginEvents)
+      .where(eq(loginEvents.userId, userId))
+      .orderBy(desc(loginEvents.createdAt)),
+    db
+      .select({
+        sentAt: emailSendLedger.sentAt,
+        subject: emailSendLedger.subject,
+        source: emailSendLedger.source,
+        status: emailSendLedger.status,
+        bodyText: emailSendLedger.bodyText,
+      })
+      .from(emailSendLedger)
+      .where(eq(sql`lower(${emailSendLedger.recipient})`, email))
+      .orderBy(desc(emailSendLedger.sentAt))
+      .limit(EMAIL_HISTORY_LIMIT),
+  ]);
+
+  const vendorIds = ownedVendors.map((v) => v.id);
+  const applications =
+    vendorIds.length === 0
+      ? []
+      : await db
+          .select({
+            vendorId: eventVendors.vendorId,
+            eventId: eventVendors.eventId,
+            eventName: events.name,
+            status: eventVendors.status,
+            paymentStatus: eventVendors.paymentStatus,
+            participationType: eventVendors.participationType,
+            boothInfo: eventVendors.boothInfo,
+          })
+          .from(eventVendors)
+          .innerJoin(events, eq(events.id, eventVendors.eventId))
+          .where(inArray(eventVendors.vendorId, vendorIds));
+
+  const [subscriber] = await db
+    .select({
+      id: newsletterSubscribers.id,
+      source: newsletterSubscribers.source,
+      confirmed: newsletterSubscribers.confirmed,
+      unsubscribed: newsletterSubscribers.unsubscribed,
+      createdAt: newsletterSubscribers.createdAt,
+      confirmedAt: newsletterSubscribers.confirmedAt,
+      unsubscribedAt: newsletterSubscribers.unsubscribedAt,
+    })
+    .from(newsletterSubscribers)
+    .where(eq(sql`lower(${newsletterSubscribers.email})`, email))
+    .limit(1);
+  const lists = subscriber
+    ? await db
+        .select({
+          list: newsletterListSubscriptions.list,
+          createdAt: newsletterListSubscriptions.createdAt,
+        })
+        .from(newsletterListSubscriptions)
+        .where(
+          and(
+            eq(newsletterListSubscriptions.subscriberId, subscriber.id),
+            isNull(newsletterListSubscriptions.unsubscribedAt)
+          )
+        )
+    : [];
+
+  return {
+    format: ACCOUNT_EXPORT_FORMAT,
+    exportedAt: now.toISOString(),
+    profile,
+    roles,
+    linkedAccounts,
+    favorites,
+    notifications: inbox,
+    claims,
+    listings: {
+      vendors: ownedVendors,
+      promoters: ownedPromoters,
+      venues: ownedVenues,
+      performers: ownedPerformers,
+    },
+    teamMemberships: teams,
+    vendorApplications: applications,
+    newsletter: subscriber ? { ...newsletterRow(subscriber), lists } : null,
+    savedSearches: searches,
+    notificationPreferences: preferences,
+    signInHistory: signIns,
+    emailHistory: sentEmails,
+  };
+}
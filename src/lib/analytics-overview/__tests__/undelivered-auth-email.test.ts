@@ -22,7 +22,9 @@ const SCHEMA_SQL = `
     source TEXT, provider_message_id TEXT, status TEXT NOT NULL DEFAULT 'sent',
     error TEXT, subject TEXT, inbound_email_id TEXT, provider TEXT,
     body_html TEXT, body_text TEXT,
-    delivery_status TEXT, delivery_updated_at INTEGER, delivery_detail TEXT
+    delivery_status TEXT, delivery_updated_at INTEGER, delivery_detail TEXT,
+    -- drizzle/0238 — tracked newsletter broadcasts.
+    newsletter_issue_slug TEXT
   );
   CREATE TABLE email_delivery_events (
     event_id TEXT PRIMARY KEY, event_type TEXT NOT NULL, status TEXT NOT NULL,
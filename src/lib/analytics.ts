@@ -364,7 +364,7 @@ export function trackShare(
 }
 
 /** Auth methods used by login + sign_up. */
-export type LoginMethod = "credentials" | "google" | "facebook";
+export type LoginMethod = "credentials" | "passkey" | "google" | "facebook";
 
 /** ENG1.2 (2026-06-09) — login instrumentation.
  *
@@ -34,7 +34,7 @@ import { sendGa4MeasurementProtocol } from "@/lib/ga4-measurement-protocol";
 // performer claim would have been reported to GA4 as a PROMOTER claim: not a
 // missing number but a wrong one, which is worse, and invisible because the
 // funnel would still look complete.
-export type ClaimEntityType = "VENDOR" | "PROMOTER" | "PERFORMER";
+export type ClaimEntityType = "VENDOR" | "PROMOTER" | "PERFORMER" | "VENUE";
 
 /**
  * Verification-ladder rungs (spec §4). EMAIL_MATCH / EVIDENCE are live today;
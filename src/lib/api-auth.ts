@@ -4,6 +4,15 @@ import { timingSafeEqualString } from "@takemetothefair/utils";
 import { auth } from "@/lib/auth";
 import { getCloudflareDb, getCloudflareEnv } from "@/lib/cloudflare";
 import { users } from "@/lib/db/schema";
+import { hasRecentStepUp } from "@/lib/auth/login-events";
+import {
+  getMembership,
+  roleAtLeast,
+  ORGANIZATION_ROLE_LABELS,
+  type Membership,
+  type OrganizationEntityType,
+  type OrganizationRole,
+} from "@/lib/organizations/members";
 
 /**
  * Sentinel actor id for the Claude read-only Bearer token. Use as
@@ -233,6 +242,42 @@ export async function requireAdminAuth(request: Request): Promise<NextResponse |
   return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 }
 
+/**
+ * Step-up gate for the most destructive admin actions — database restore,
+ * duplicate merge, role changes (drizzle/0241). Passes only when THIS session
+ * entered a code or passkey within STEP_UP_WINDOW_MS, at sign-in or via
+ * POST /api/auth/step-up.
+ *
+ * Returns a 403 `{ error: "step_up_required" }` the admin UI recognises and
+ * answers with its step-up dialog, then retries. Call it after the admin gate
+ * and only for session callers: the X-Internal-Key (MCP server, cron) has no
+ * session to step up, and is exempt by the caller skipping this check.
+ *
+ *     const fail = await requireRecentStepUp();
+ *     if (fail) return fail;
+ */
+export async function requireRecentStepUp(): Promise<NextResponse | null> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const sid = session.user.sessionId;
+  try {
+    if (sid && (await hasRecentStepUp(getCloudflareDb(), { sid, userId: session.user.id }))) {
+      return null;
+    }
+  } catch {
+    // Fall through: a step-up we couldn't confirm is a step-up we ask for again.
+  }
+  return NextResponse.json(
+    {
+      error: "step_up_required",
+      message: "Confirm it's you with your authenticator code or passkey to continue.",
+    },
+    { status: 403 }
+  );
+}
+
 /**
  * Gate result for `requireVerifiedSession`. On `ok: false`, the caller
  * should `return result.response` directly. On `ok: true`, the resolved
@@ -242,6 +287,85 @@ export type VerifiedSessionResult =
   | { ok: true; userId: string; email: string }
   | { ok: false; response: NextResponse };
 
+/**
+ * What a vendor/promoter route needs of the caller's team seat: which kind of
+ * organization, and the weakest role that may proceed (VIEWER for reads,
+ * EDITOR for writes, OWNER for managing the team).
+ */
+export interface MembershipRequirement {
+  entityType: OrganizationEntityType;
+  role: OrganizationRole;
+}
+
+export type VerifiedMemberResult =
+  | { ok: true; userId: string; email: string; membership: Membership }
+  | { ok: false; response: NextResponse };
+
+const ENTITY_LABEL: Record<OrganizationEntityType, string> = {
+  VENDOR: "Vendor",
+  PROMOTER: "Promoter",
+};
+
+/**
+ * Resolve the caller's seat and refuse if it's missing or too weak. No seat is
+ * a 404 with the same body these routes returned when they looked the vendor
+ * up by `user_id` — clients already handle it. A seat that's too weak is a
+ * 403 naming the role, so the portal can say "ask the owner" instead of
+ * pretending the profile doesn't exist.
+ */
+async function checkMembership(
+  userId: string,
+  requirement: MembershipRequirement
+): Promise<{ ok: true; membership: Membership } | { ok: false; response: NextResponse }> {
+  const membership = await getMembership(getCloudflareDb(), userId, requirement.entityType);
+  if (!membership) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: `${ENTITY_LABEL[requirement.entityType]} profile not found` },
+        { status: 404 }
+      ),
+    };
+  }
+  if (!roleAtLeast(membership.role, requirement.role)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        {
+          error: "insufficient_role",
+          message: `Your role on this team (${ORGANIZATION_ROLE_LABELS[membership.role]}) can't do this. Ask the owner for ${ORGANIZATION_ROLE_LABELS[requirement.role].toLowerCase()} access.`,
+          role: membership.role,
+          requiredRole: requirement.role,
+        },
+        { status: 403 }
+      ),
+    };
+  }
+  return { ok: true, membership };
+}
+
+/**
+ * Session + team-seat gate for vendor/promoter routes that don't require a
+ * verified email — the reads. Writes go through
+ * `requireVerifiedSession(requirement)`.
+ */
+export async function requireMemberSession(
+  requirement: MembershipRequirement
+): Promise<
+  { ok: true; userId: string; membership: Membership } | { ok: false; response: NextResponse }
+> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const seat = await checkMembership(session.user.id, requirement);
+  if (!seat.ok) return seat;
+  return { ok: true, userId: session.user.id, membership: seat.membership };
+}
+
 /**
  * Single-call session + email-verification gate for vendor (and other
  * end-user) API routes. Two-step check:
@@ -269,8 +393,21 @@ export type VerifiedSessionResult =
  * on emailVerified: profile EDIT, event-application submission, and
  * contact-form forwarding. Before that, verification was advisory —
  * unverified users could do everything a verified user could.
+ *
+ * Pass a {@link MembershipRequirement} to also resolve the caller's vendor or
+ * promoter by team seat (drizzle/0239) rather than `user_id` equality:
+ *
+ *     const gate = await requireVerifiedSession({ entityType: "VENDOR", role: "EDITOR" });
+ *     if (!gate.ok) return gate.response;
+ *     const vendorId = gate.membership.entityId;
  */
-export async function requireVerifiedSession(): Promise<VerifiedSessionResult> {
+export async function requireVerifiedSession(): Promise<VerifiedSessionResult>;
+export async function requireVerifiedSession(
+  requirement: MembershipRequirement
+): Promise<VerifiedMemberResult>;
+export async function requireVerifiedSession(
+  requirement?: MembershipRequirement
+): Promise<VerifiedSessionResult | VerifiedMemberResult> {
   const session = await auth();
   if (!session?.user?.id || !session.user.email) {
     return {
@@ -302,7 +439,17 @@ export async function requireVerifiedSession(): Promise<VerifiedSessionResult> {
       };
     }
 
-    return { ok: true, userId: session.user.id, email: session.user.email };
+    if (!requirement) {
+      return { ok: true, userId: session.user.id, email: session.user.email };
+    }
+    const seat = await checkMembership(session.user.id, requirement);
+    if (!seat.ok) return seat;
+    return {
+      ok: true,
+      userId: session.user.id,
+      email: session.user.email,
+      membership: seat.membership,
+    };
   } catch {
     // DB error — fall back to the same 403 shape so we never silently
     // permit a write on a verification-gated route when the gate itself
@@ -1,7 +1,8 @@
 import { getCloudflareDb } from "@/lib/cloudflare";
-import { apiTokens, vendors } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
+import { apiTokens, organizationMembers, vendors } from "@/lib/db/schema";
+import { eq, and, sql } from "drizzle-orm";
 import { unsafeSlug } from "@/lib/utils";
+import { checkApiTokenPolicy, parseTokenScopes, type ApiTokenScope } from "@takemetothefair/utils";
 
 function toHex(buffer: ArrayBuffer): string {
   return Array.from(new Uint8Array(buffer))
@@ -15,16 +16,43 @@ async function hashToken(token: string): Promise<string> {
   return toHex(hash);
 }
 
+/**
+ * The caller's address for allow-list checks. CF-Connecting-IP only — unlike
+ * rate limiting, an allow-list must not fall back to X-Forwarded-For, which
+ * the client controls. Off Cloudflare (local dev) this is null and an
+ * allow-listed token is refused.
+ */
+function getTrustedClientIp(request: Request): string | null {
+  return request.headers.get("CF-Connecting-IP");
+}
+
+export type VendorTokenAuthResult =
+  | { authorized: true; vendorId: string }
+  | {
+      authorized: false;
+      error: string;
+      /** 403 when the token is valid but not permitted here; 401 otherwise. */
+      status?: 401 | 403;
+      /** Set when the refusal is a missing scope. */
+      missingScope?: ApiTokenScope;
+    };
+
 /**
  * Authenticate a request via Bearer token and verify the token owner
- * matches the vendor identified by slug.
+ * owns, or is on the team of, the vendor identified by slug.
  *
- * Returns the vendorId if authorized, null otherwise.
+ * Token-level policy (drizzle/0225) is checked before ownership: revoked and
+ * expired tokens are 401 (the credential itself is dead), while an address
+ * outside the allow-list or a missing `requiredScope` is 403 (the credential
+ * is fine, this use of it is not).
+ *
+ * Returns the vendorId if authorized, the refusal otherwise.
  */
 export async function authenticateVendorToken(
   request: Request,
-  vendorSlug: string
-): Promise<{ authorized: true; vendorId: string } | { authorized: false; error: string }> {
+  vendorSlug: string,
+  requiredScope?: ApiTokenScope
+): Promise<VendorTokenAuthResult> {
   const authHeader = request.headers.get("Authorization");
   if (!authHeader?.startsWith("Bearer ")) {
     return { authorized: false, error: "Missing or invalid Authorization header" };
@@ -40,7 +68,13 @@ export async function authenticateVendorToken(
 
   // Look up the token
   const tokenResults = await db
-    .select({ userId: apiTokens.userId })
+    .select({
+      userId: apiTokens.userId,
+      scopes: apiTokens.scopes,
+      expiresAt: apiTokens.expiresAt,
+      revokedAt: apiTokens.revokedAt,
+      allowedCidrs: apiTokens.allowedCidrs,
+    })
     .from(apiTokens)
     .where(eq(apiTokens.tokenHash, tokenHash))
     .limit(1);
@@ -49,29 +83,98 @@ export async function authenticateVendorToken(
     return { authorized: false, error: "Invalid token" };
   }
 
-  const { userId } = tokenResults[0];
+  const token = tokenResults[0];
+  const { userId } = token;
+
+  const clientIp = getTrustedClientIp(request);
+  const refusal = checkApiTokenPolicy(token, clientIp);
+  if (refusal?.status === 401) {
+    return { authorized: false, error: refusal.error, status: 401 };
+  }
+
+  // Counter writes are fire-and-forget. Don't route through logError —
+  // this is a hot-path background write; if D1 is degraded we don't want
+  // to compound the problem by logging to D1 too. The console log
+  // surfaces in `wrangler tail` for forensic diagnosis.
+  const recordDenial = () => {
+    db.update(apiTokens)
+      .set({ deniedCount: sql`${apiTokens.deniedCount} + 1` })
+      .where(eq(apiTokens.tokenHash, tokenHash))
+      .catch((err) => {
+        console.error("[API Token] Failed to update deniedCount:", err);
+      });
+  };
+
+  if (refusal) {
+    // An allow-list that no longer parses denies everything; say so, or the
+    // vendor sees a token that stopped working for no visible reason.
+    if (refusal.reason === "malformed_allow_list") {
+      console.error("[API Token] Unparsable allowed_cidrs; denying all addresses");
+    }
+    recordDenial();
+    return { authorized: false, error: refusal.error, status: 403 };
+  }
+
+  if (requiredScope && !parseTokenScopes(token.scopes).includes(requiredScope)) {
+    recordDenial();
+    return {
+      authorized: false,
+      error: "Insufficient scope",
+      status: 403,
+      missingScope: requiredScope,
+    };
+  }
 
-  // Update last used timestamp (fire and forget). Don't route through
-  // logError — this is a hot-path background write; if D1 is degraded
-  // we don't want to compound the problem by logging to D1 too. The
-  // console log surfaces in `wrangler tail` for forensic diagnosis.
   db.update(apiTokens)
-    .set({ lastUsedAt: new Date() })
+    .set({
+      lastUsedAt: new Date(),
+      lastUsedIp: clientIp,
+      useCount: sql`${apiTokens.useCount} + 1`,
+    })
     .where(eq(apiTokens.tokenHash, tokenHash))
     .catch((err) => {
       console.error("[API Token] Failed to update lastUsedAt:", err);
     });
 
-  // Verify the vendor belongs to this user
+  // Verify the vendor belongs to this user — as its owner, or as a team
+  // member (drizzle/0239).
   const vendorResults = await db
     .select({ id: vendors.id })
     .from(vendors)
     .where(and(eq(vendors.slug, unsafeSlug(vendorSlug)), eq(vendors.userId, userId)))
     .limit(1);
 
-  if (vendorResults.length === 0) {
+  if (vendorResults.length > 0) {
+    return { authorized: true, vendorId: vendorResults[0].id };
+  }
+
+  const [seat] = await db
+    .select({ id: vendors.id, role: organizationMembers.role })
+    .from(organizationMembers)
+    .innerJoin(vendors, eq(organizationMembers.entityId, vendors.id))
+    .where(
+      and(
+        eq(organizationMembers.entityType, "VENDOR"),
+        eq(organizationMembers.userId, userId),
+        eq(vendors.slug, unsafeSlug(vendorSlug))
+      )
+    )
+    .limit(1);
+
+  if (!seat) {
     return { authorized: false, error: "Token does not match this vendor" };
   }
 
-  return { authorized: true, vendorId: vendorResults[0].id };
+  // A member's token can do what the member can: a viewer's token reads and
+  // nothing else, whatever scopes it was minted with.
+  if (seat.role === "VIEWER" && !requiredScope?.endsWith(":read")) {
+    recordDenial();
+    return {
+      authorized: false,
+      error: "Your team role does not allow this",
+      status: 403,
+    };
+  }
+
+  return { authorized: true, vendorId: seat.id };
 }
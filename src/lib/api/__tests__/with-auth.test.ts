@@ -9,15 +9,14 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { NextRequest } from "next/server";
 import type { Session } from "next-auth";
+import type { VendorTokenAuthResult } from "@/lib/api-token-auth";
 
 const ctl = vi.hoisted(() => ({
   session: null as Session | null,
   logError: vi.fn(async (..._args: unknown[]) => {}),
   db: { marker: "db" },
   internalKeyOk: false,
-  vendorAuth: { authorized: false, error: "Invalid token" } as
-    | { authorized: true; vendorId: string }
-    | { authorized: false; error: string },
+  vendorAuth: { authorized: false, error: "Invalid token" } as VendorTokenAuthResult,
   authorized: { authorized: false } as { authorized: boolean; userId?: string },
   getAuthorizedSessionSpy: vi.fn((..._args: unknown[]) => {}),
 }));
@@ -145,7 +144,7 @@ describe("withApiToken", () => {
   it("returns 401 with the helper's error when the token is rejected", async () => {
     ctl.vendorAuth = { authorized: false, error: "Token does not match this vendor" };
     const handler = vi.fn();
-    const GET = withApiToken<{ slug: string }>({}, handler);
+    const GET = withApiToken<{ slug: string }>({ scope: "applications:read" }, handler);
     const res = await GET(req(), ctx({ slug: "acme" }));
     expect(res.status).toBe(401);
     await expect(res.json()).resolves.toEqual({ error: "Token does not match this vendor" });
@@ -154,16 +153,62 @@ describe("withApiToken", () => {
 
   it("runs the handler with the resolved vendorId on success", async () => {
     ctl.vendorAuth = { authorized: true, vendorId: "v-123" };
-    const GET = withApiToken<{ slug: string }>({}, async ({ db, vendorId, params }) => {
-      expect(db).toBe(ctl.db);
-      expect(vendorId).toBe("v-123");
-      expect(params).toEqual({ slug: "acme" });
-      return Response.json({ vendorId });
-    });
+    const GET = withApiToken<{ slug: string }>(
+      { scope: "applications:read" },
+      async ({ db, vendorId, params }) => {
+        expect(db).toBe(ctl.db);
+        expect(vendorId).toBe("v-123");
+        expect(params).toEqual({ slug: "acme" });
+        return Response.json({ vendorId });
+      }
+    );
     const res = await GET(req(), ctx({ slug: "acme" }));
     expect(res.status).toBe(200);
     await expect(res.json()).resolves.toEqual({ vendorId: "v-123" });
   });
+
+  it("passes the declared scope through to the token check", async () => {
+    const { authenticateVendorToken } = await import("@/lib/api-token-auth");
+    const GET = withApiToken<{ slug: string }>({ scope: "applications:write" }, vi.fn());
+    await GET(req(), ctx({ slug: "acme" }));
+    expect(authenticateVendorToken).toHaveBeenCalledWith(
+      expect.anything(),
+      "acme",
+      "applications:write"
+    );
+  });
+
+  it("returns a structured 403 naming the missing scope", async () => {
+    ctl.vendorAuth = {
+      authorized: false,
+      error: "Insufficient scope",
+      status: 403,
+      missingScope: "applications:write",
+    };
+    const handler = vi.fn();
+    const PATCH = withApiToken<{ slug: string }>({ scope: "applications:write" }, handler);
+    const res = await PATCH(req(), ctx({ slug: "acme" }));
+    expect(res.status).toBe(403);
+    expect(res.headers.get("WWW-Authenticate")).toBe(
+      'Bearer error="insufficient_scope", scope="applications:write"'
+    );
+    await expect(res.json()).resolves.toEqual({
+      error: "Insufficient scope",
+      requiredScope: "applications:write",
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("returns 403 for a token used outside its address allow-list", async () => {
+    ctl.vendorAuth = {
+      authorized: false,
+      error: "Request address is not allowed for this token",
+      status: 403,
+    };
+    const GET = withApiToken<{ slug: string }>({ scope: "applications:read" }, vi.fn());
+    const res = await GET(req(), ctx({ slug: "acme" }));
+    expect(res.status).toBe(403);
+  });
 });
 
 describe("withAuthorized", () => {
@@ -3,6 +3,7 @@ import type { Session } from "next-auth";
 import { auth, hasRole } from "@/lib/auth";
 import { internalKeyMatches, getAuthorizedSession } from "@/lib/api-auth";
 import { authenticateVendorToken } from "@/lib/api-token-auth";
+import type { ApiTokenScope } from "@takemetothefair/utils";
 import { getCloudflareDb } from "@/lib/cloudflare";
 import { logError } from "@/lib/logger";
 import type { UserRole } from "@takemetothefair/constants";
@@ -176,6 +177,11 @@ export interface ApiTokenContext<P> {
 export type ApiTokenHandler<P> = (ctx: ApiTokenContext<P>) => Promise<Response> | Response;
 
 export interface WithApiTokenOptions<P> {
+  /**
+   * The permission this route needs (drizzle/0225). Required, so a new
+   * token-gated route cannot ship without deciding what it grants.
+   */
+  scope: ApiTokenScope;
   /** Param key holding the vendor slug the token is checked against. Default `"slug"`. */
   slugParam?: keyof P & string;
   /** `source` tag for logError on throw. Defaults to the request pathname. */
@@ -184,9 +190,13 @@ export interface WithApiTokenOptions<P> {
 
 /**
  * Gate on a vendor `mmatf_` Bearer token whose owner matches the vendor named
- * by `params[slugParam]` (default `slug`). On success the handler gets the
- * resolved `vendorId`. Failure returns 401 with the helper's specific error
- * message — same contract as the hand-rolled route.
+ * by `params[slugParam]` (default `slug`) and which carries `options.scope`.
+ * On success the handler gets the resolved `vendorId`. A dead or mismatched
+ * token returns 401 with the helper's specific error message — same contract
+ * as the hand-rolled route. A live token that lacks the scope (or is used from
+ * outside its address allow-list) returns 403; for scope, the body names the
+ * missing scope and `WWW-Authenticate` carries it per RFC 6750 §3.1, so an
+ * integrator can tell "wrong token" from "right token, too few permissions".
  */
 export function withApiToken<P extends Record<string, string> = { slug: string }>(
   options: WithApiTokenOptions<P>,
@@ -196,9 +206,20 @@ export function withApiToken<P extends Record<string, string> = { slug: string }
 
   return async (request, ctx) => {
     const params = await resolveParams<P>(ctx);
-    const result = await authenticateVendorToken(request, params[slugParam]);
+    const result = await authenticateVendorToken(request, params[slugParam], options.scope);
     if (!result.authorized) {
-      return NextResponse.json({ error: result.error }, { status: 401 });
+      if (result.missingScope) {
+        return NextResponse.json(
+          { error: result.error, requiredScope: result.missingScope },
+          {
+            status: 403,
+            headers: {
+              "WWW-Authenticate": `Bearer error="insufficient_scope", scope="${result.missingScope}"`,
+            },
+          }
+        );
+      }
+      return NextResponse.json({ error: result.error }, { status: result.status ?? 401 });
     }
     const { vendorId } = result;
     return dispatch(request, options.source, (db) => ({ request, db, params, vendorId }), handler);
@@ -307,7 +328,7 @@ export function withAuthorized<P = Record<string, never>>(
  * Cross-Worker / vendor-token / admin-or-internal routes use the siblings:
  *   export const POST = withInternalKey(async ({ db }) => { ... });
  *   export const GET  = withApiToken<{ slug: string }>(
- *     {}, async ({ db, vendorId }) => { ... }
+ *     { scope: "applications:read" }, async ({ db, vendorId }) => { ... }
  *   );
  *   export const POST = withAuthorized(async ({ db, userId }) => {
  *     await db.insert(adminActions).values({ actorUserId: userId ?? "internal", ... });
@@ -0,0 +1,121 @@
+/**
+ * Application forms: profile pre-fill, answer validation against the form
+ * (labelled errors, snapshot shape), and the upload-key ownership check.
+ */
+import { describe, expect, it } from "vitest";
+import type { ApplicationForm } from "@/lib/validations";
+import {
+  applicationUploadKey,
+  formatAnswerValue,
+  isVendorUploadKey,
+  prefillApplicationAnswers,
+  validateApplicationAnswers,
+} from "../form";
+
+const FORM: ApplicationForm = {
+  fields: [
+    {
+      id: "booth_size",
+      type: "select",
+      label: "Booth size",
+      required: true,
+      options: ["10x10", "10x20"],
+    },
+    { id: "electricity", type: "checkbox", label: "Need power", required: false },
+    {
+      id: "product_categories",
+      type: "multiselect",
+      label: "Products",
+      required: false,
+      options: ["Food", "Crafts", "Art"],
+      prefill: "products",
+    },
+    {
+      id: "insurance",
+      type: "text",
+      label: "Insurance",
+      required: false,
+      prefill: "insuranceInfo",
+    },
+    { id: "coi", type: "file", label: "Certificate", required: false },
+  ],
+};
+
+describe("prefillApplicationAnswers", () => {
+  it("fills marked fields from the profile, ticking only options the form offers", () => {
+    expect(
+      prefillApplicationAnswers(FORM, {
+        insuranceInfo: "  Acme Mutual #123 ",
+        licenseInfo: "L-9",
+        products: JSON.stringify(["food", "Soap", "Art"]),
+      })
+    ).toEqual({ product_categories: ["Food", "Art"], insurance: "Acme Mutual #123" });
+  });
+
+  it("ignores a missing or malformed profile", () => {
+    expect(
+      prefillApplicationAnswers(FORM, { insuranceInfo: null, licenseInfo: null, products: "{oops" })
+    ).toEqual({});
+  });
+});
+
+describe("validateApplicationAnswers", () => {
+  const key = applicationUploadKey("v1", "pdf");
+
+  it("returns the labelled snapshot in form order, dropping empty optionals", () => {
+    const result = validateApplicationAnswers(
+      FORM,
+      { coi: { key, name: "coi.pdf" }, booth_size: "10x20", insurance: "", stray: "x" },
+      "v1"
+    );
+    expect(result).toEqual({
+      ok: true,
+      answers: [
+        { id: "booth_size", label: "Booth size", type: "select", value: "10x20" },
+        { id: "coi", label: "Certificate", type: "file", value: { key, name: "coi.pdf" } },
+      ],
+    });
+  });
+
+  it("names the field by label when it is missing or invalid", () => {
+    expect(validateApplicationAnswers(FORM, {}, "v1")).toMatchObject({
+      ok: false,
+      error: expect.stringContaining("Booth size:"),
+    });
+    const bad = validateApplicationAnswers(
+      FORM,
+      { booth_size: "10x10", product_categories: ["Weapons"] },
+      "v1"
+    );
+    expect(bad.ok).toBe(false);
+    expect(!bad.ok && bad.error).toContain("Products:");
+  });
+
+  it("rejects a file uploaded by another vendor", () => {
+    const result = validateApplicationAnswers(
+      FORM,
+      { booth_size: "10x10", coi: { key: applicationUploadKey("v2", "pdf"), name: "coi.pdf" } },
+      "v1"
+    );
+    expect(result).toEqual({ ok: false, error: "Certificate: Upload the file again" });
+  });
+});
+
+describe("isVendorUploadKey", () => {
+  it("accepts only generated keys under the vendor's own prefix", () => {
+    expect(isVendorUploadKey(applicationUploadKey("v1", "png"), "v1")).toBe(true);
+    expect(isVendorUploadKey(applicationUploadKey("v12", "png"), "v1")).toBe(false);
+    expect(isVendorUploadKey("vendors/v1/logo-1.png", "v1")).toBe(false);
+    expect(isVendorUploadKey("applications/v1/../v2/x.pdf", "v1")).toBe(false);
+  });
+});
+
+describe("formatAnswerValue", () => {
+  it("renders each answer type on one line", () => {
+    expect(formatAnswerValue({ type: "checkbox", value: false })).toBe("No");
+    expect(formatAnswerValue({ type: "multiselect", value: ["Food", "Art"] })).toBe("Food, Art");
+    expect(formatAnswerValue({ type: "file", value: { key: "k", name: "coi.pdf" } })).toBe(
+      "coi.pdf"
+    );
+  });
+});
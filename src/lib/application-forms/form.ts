@@ -0,0 +1,194 @@
+/**
+ * Pure helpers for per-event vendor application forms (drizzle/0227). No DB
+ * access — imported by the promoter form builder and the vendor apply form on
+ * the client as well as by the server routes.
+ *
+ * The schemas themselves live in packages/validation so the MCP server reads
+ * stored answers with the same rules; this module adds the app-side pieces:
+ * the builder presets, profile pre-fill, and display formatting.
+ */
+import {
+  buildApplicationAnswersSchema,
+  type ApplicationAnswer,
+  type ApplicationAnswerValue,
+  type ApplicationForm,
+  type ApplicationFormField,
+} from "@/lib/validations";
+
+/**
+ * One-click starting points in the form builder for the questions nearly every
+ * fair asks. Promoters can edit any of them after adding — they are templates,
+ * not special field kinds.
+ */
+export const APPLICATION_FORM_PRESETS: { name: string; field: ApplicationFormField }[] = [
+  {
+    name: "Booth size",
+    field: {
+      id: "booth_size",
+      type: "select",
+      label: "Booth size",
+      required: true,
+      options: ["10x10", "10x20", "20x20"],
+    },
+  },
+  {
+    name: "Electricity",
+    field: {
+      id: "electricity",
+      type: "checkbox",
+      label: "I need electricity at my booth",
+      required: false,
+    },
+  },
+  {
+    name: "Product categories",
+    field: {
+      id: "product_categories",
+      type: "multiselect",
+      label: "What will you sell?",
+      required: true,
+      options: ["Food", "Crafts", "Art", "Jewelry", "Clothing", "Home & Garden", "Services"],
+      prefill: "products",
+    },
+  },
+  {
+    name: "Insurance certificate",
+    field: {
+      id: "insurance_certificate",
+      type: "file",
+      label: "Certificate of insurance",
+      help: "PDF or image, up to 5 MB.",
+      required: false,
+    },
+  },
+  {
+    name: "Insurance details",
+    field: {
+      id: "insurance_details",
+      type: "text",
+      label: "Insurance carrier and policy number",
+      required: false,
+      prefill: "insuranceInfo",
+    },
+  },
+  {
+    name: "License / permit",
+    field: {
+      id: "license",
+      type: "text",
+      label: "Business license or permit number",
+      required: false,
+      prefill: "licenseInfo",
+    },
+  },
+];
+
+export interface PrefillProfile {
+  insuranceInfo: string | null;
+  licenseInfo: string | null;
+  /** `vendors.products` — JSON array text. */
+  products: string | null;
+}
+
+function parseProducts(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((p): p is string => typeof p === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Starting answers for a vendor opening the form, from their profile. Only
+ * fields the promoter marked with `prefill` are touched, and a multiselect is
+ * only pre-ticked with options that actually exist on the form — a vendor's
+ * free-text product list never smuggles in an option the promoter didn't offer.
+ */
+export function prefillApplicationAnswers(
+  form: ApplicationForm,
+  profile: PrefillProfile
+): Record<string, ApplicationAnswerValue> {
+  const products = parseProducts(profile.products);
+  const answers: Record<string, ApplicationAnswerValue> = {};
+  for (const field of form.fields) {
+    if (!field.prefill) continue;
+    if (field.type === "text" || field.type === "textarea") {
+      const value =
+        field.prefill === "products" ? products.join(", ") : (profile[field.prefill] ?? "");
+      if (value.trim()) answers[field.id] = value.trim();
+    } else if (field.type === "multiselect" && field.prefill === "products") {
+      const wanted = new Set(products.map((p) => p.trim().toLowerCase()));
+      const picked = (field.options ?? []).filter((o) => wanted.has(o.toLowerCase()));
+      if (picked.length > 0) answers[field.id] = picked;
+    }
+  }
+  return answers;
+}
+
+/** One-line rendering of an answer for the review board and the CSV export. */
+export function formatAnswerValue(answer: Pick<ApplicationAnswer, "type" | "value">): string {
+  const { value } = answer;
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object" && value !== null) return value.name;
+  return value;
+}
+
+/** Every application file a vendor uploaded sits under this R2 prefix. */
+export function applicationUploadPrefix(vendorId: string): string {
+  return `applications/${vendorId}/`;
+}
+
+/**
+ * R2 key for an application file upload, in the private APPLICATION_FILES
+ * bucket. Only ever handed back to the uploading vendor and read through the
+ * promoter's authenticated route.
+ */
+export function applicationUploadKey(vendorId: string, ext: string): string {
+  return `${applicationUploadPrefix(vendorId)}${crypto.randomUUID()}.${ext}`;
+}
+
+/**
+ * Whether a file answer's key was uploaded by this vendor. The apply route
+ * checks every file answer with this so a vendor cannot attach someone else's
+ * certificate by pasting its key.
+ */
+export function isVendorUploadKey(key: string, vendorId: string): boolean {
+  return (
+    /^applications\/[^/]+\/[0-9a-f-]{36}\.[a-z0-9]{2,5}$/.test(key) &&
+    key.startsWith(applicationUploadPrefix(vendorId))
+  );
+}
+
+/**
+ * Validate a vendor's submitted answers against the event's form and return
+ * the snapshot to store. Errors name the field by its label ("Booth size:
+ * Required") since that is what the vendor sees, not the field id.
+ */
+export function validateApplicationAnswers(
+  form: ApplicationForm,
+  raw: unknown,
+  vendorId: string
+): { ok: true; answers: ApplicationAnswer[] } | { ok: false; error: string } {
+  const result = buildApplicationAnswersSchema(form).safeParse(raw ?? {});
+  if (!result.success) {
+    const labels = new Map(form.fields.map((f) => [f.id, f.label]));
+    const error = result.error.issues
+      .map((i) => {
+        const label = labels.get(String(i.path[0]));
+        return label ? `${label}: ${i.message}` : i.message;
+      })
+      .join(", ");
+    return { ok: false, error };
+  }
+  for (const answer of result.data) {
+    if (answer.type !== "file") continue;
+    const file = answer.value as { key: string };
+    if (!isVendorUploadKey(file.key, vendorId)) {
+      return { ok: false, error: `${answer.label}: Upload the file again` };
+    }
+  }
+  return { ok: true, answers: result.data };
+}
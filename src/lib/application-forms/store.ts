@@ -0,0 +1,54 @@
+/**
+ * Persistence for per-event application forms (`event_application_forms`,
+ * drizzle/0227). Server-only; the pure helpers are in ./form.
+ */
+import { eq } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { eventApplicationForms } from "@/lib/db/schema";
+import { applicationFormSchema, type ApplicationForm } from "@/lib/validations";
+
+/**
+ * The event's form, or null when it has none (or the stored JSON no longer
+ * validates — the apply flow then falls back to the free-text booth field
+ * rather than rendering a half-broken form).
+ */
+export async function loadApplicationForm(
+  db: Database,
+  eventId: string
+): Promise<ApplicationForm | null> {
+  const [row] = await db
+    .select({ fields: eventApplicationForms.fields })
+    .from(eventApplicationForms)
+    .where(eq(eventApplicationForms.eventId, eventId))
+    .limit(1);
+  if (!row) return null;
+  let fields: unknown;
+  try {
+    fields = JSON.parse(row.fields);
+  } catch {
+    return null;
+  }
+  const parsed = applicationFormSchema.safeParse({ fields });
+  if (!parsed.success || parsed.data.fields.length === 0) return null;
+  return parsed.data;
+}
+
+/** Upsert the form; saving an empty form removes it. */
+export async function saveApplicationForm(
+  db: Database,
+  args: { eventId: string; form: ApplicationForm; userId: string }
+): Promise<void> {
+  if (args.form.fields.length === 0) {
+    await db.delete(eventApplicationForms).where(eq(eventApplicationForms.eventId, args.eventId));
+    return;
+  }
+  const values = {
+    fields: JSON.stringify(args.form.fields),
+    updatedAt: new Date(),
+    updatedByUserId: args.userId,
+  };
+  await db
+    .insert(eventApplicationForms)
+    .values({ eventId: args.eventId, ...values })
+    .onConflictDoUpdate({ target: eventApplicationForms.eventId, set: values });
+}
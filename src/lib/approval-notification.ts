@@ -1,9 +1,10 @@
 /**
- * Idempotent "your submission was approved" email notification.
+ * Idempotent "your submission was approved" notification.
  *
  * Fires once per event when admin transitions a submitter-attributed
  * event from PENDING/TENTATIVE → APPROVED. Gated on:
- *   - events.suggester_email IS NOT NULL (we need somewhere to send)
+ *   - events.suggester_email or events.submitted_by_user_id set (we need
+ *     somebody to tell)
  *   - events.status = 'APPROVED' (only on actual approval, not edits)
  *   - events.approval_notified_at IS NULL (idempotency — won't re-send
  *     if admin un-approves then re-approves to fix a typo)
@@ -13,6 +14,11 @@
  * AFTER the queue push so a queue-bound failure doesn't burn the
  * idempotency window.
  *
+ * A signed-in submitter (submitted_by_user_id) also gets an in-app
+ * notification, and their "Submission approved" preference decides
+ * whether the email goes at all — an anonymous suggester has no
+ * preferences and is always emailed.
+ *
  * Call this AFTER you've already written the new status to D1.
  * Read-only with respect to the events.status column; only updates
  * approval_notified_at.
@@ -24,6 +30,7 @@ import * as schema from "@/lib/db/schema";
 import { events, inboundEmails } from "@/lib/db/schema";
 import { recordWorkflowOutcome } from "@/lib/intent-feedback";
 import { issueToken } from "@/lib/feedback-tokens";
+import { createNotification, wantsEmail } from "@/lib/notifications/notifications";
 
 type Db = DrizzleD1Database<typeof schema>;
 
@@ -94,10 +101,13 @@ export interface NotifyApprovalEnv {
 
 export interface NotifyApprovalResult {
   /** "sent": queue push succeeded + approval_notified_at set.
+   *  "notified-in-app": no email (none on file, or the submitter opted
+   *  out), in-app notification written + approval_notified_at set.
    *  "skipped:<reason>": one of the gate conditions wasn't met.
    *  "error:queue-missing": EMAIL_JOBS binding absent (dev/misconfig). */
   outcome:
     | "sent"
+    | "notified-in-app"
     | "skipped:no-suggester-email"
     | "skipped:not-approved"
     | "skipped:already-notified"
@@ -125,6 +135,7 @@ export async function notifyApprovalIfNeeded(
       slug: events.slug,
       status: events.status,
       suggesterEmail: events.suggesterEmail,
+      submittedByUserId: events.submittedByUserId,
       approvalNotifiedAt: events.approvalNotifiedAt,
     })
     .from(events)
@@ -134,50 +145,73 @@ export async function notifyApprovalIfNeeded(
   if (rows.length === 0) return { outcome: "skipped:not-found" };
   const e = rows[0];
 
-  if (!e.suggesterEmail) return { outcome: "skipped:no-suggester-email" };
+  if (!e.suggesterEmail && !e.submittedByUserId) {
+    return { outcome: "skipped:no-suggester-email" };
+  }
   if (e.status !== "APPROVED") return { outcome: "skipped:not-approved" };
   if (e.approvalNotifiedAt !== null) return { outcome: "skipped:already-notified" };
 
-  if (!env.EMAIL_JOBS) return { outcome: "error:queue-missing" };
+  const emailTo =
+    e.suggesterEmail &&
+    (!e.submittedByUserId || (await wantsEmail(db, e.submittedByUserId, "submission_approved")))
+      ? e.suggesterEmail
+      : null;
+
+  if (emailTo) {
+    if (!env.EMAIL_JOBS) return { outcome: "error:queue-missing" };
+
+    const eventUrl = `${PUBLIC_HOST}/events/${e.slug}`;
+
+    // Phase D.3: issue an approval-moment feedback token if there's an
+    // inbound_email this approval traces back to. Best-effort — any
+    // failure leaves the widget out of the email rather than blocking
+    // the approval flow.
+    let feedback: { looksGoodUrl: string; needsFixingUrl: string } | null = null;
+    try {
+      const inboundRows = await db
+        .select({ id: inboundEmails.id })
+        .from(inboundEmails)
+        .where(eq(inboundEmails.resultingEventId, eventId))
+        .limit(1);
+      if (inboundRows.length === 1) {
+        const token = await issueToken(db, {
+          inboundEmailId: inboundRows[0].id,
+          feedbackMoment: "approval",
+          resultingEventId: eventId,
+        });
+        const base = `${PUBLIC_HOST}/feedback/${encodeURIComponent(token)}`;
+        feedback = {
+          looksGoodUrl: `${base}?v=looks_good`,
+          needsFixingUrl: `${base}?v=needs_fixing`,
+        };
+      }
+    } catch {
+      // Intentional swallow: see comment above.
+    }
 
-  const eventUrl = `${PUBLIC_HOST}/events/${e.slug}`;
+    const msg: EmailJobMessage = {
+      to: emailTo,
+      subject: `${SUBJECT_PREFIX} ${e.name}`.slice(0, 200),
+      text: buildText(e.name, eventUrl, feedback),
+      html: buildHtml(e.name, eventUrl, feedback),
+      source: "email:submission-approved",
+    };
 
-  // Phase D.3: issue an approval-moment feedback token if there's an
-  // inbound_email this approval traces back to. Best-effort — any
-  // failure leaves the widget out of the email rather than blocking
-  // the approval flow.
-  let feedback: { looksGoodUrl: string; needsFixingUrl: string } | null = null;
-  try {
-    const inboundRows = await db
-      .select({ id: inboundEmails.id })
-      .from(inboundEmails)
-      .where(eq(inboundEmails.resultingEventId, eventId))
-      .limit(1);
-    if (inboundRows.length === 1) {
-      const token = await issueToken(db, {
-        inboundEmailId: inboundRows[0].id,
-        feedbackMoment: "approval",
-        resultingEventId: eventId,
-      });
-      const base = `${PUBLIC_HOST}/feedback/${encodeURIComponent(token)}`;
-      feedback = {
-        looksGoodUrl: `${base}?v=looks_good`,
-        needsFixingUrl: `${base}?v=needs_fixing`,
-      };
-    }
-  } catch {
-    // Intentional swallow: see comment above.
+    await env.EMAIL_JOBS.send(msg);
   }
 
-  const msg: EmailJobMessage = {
-    to: e.suggesterEmail,
-    subject: `${SUBJECT_PREFIX} ${e.name}`.slice(0, 200),
-    text: buildText(e.name, eventUrl, feedback),
-    html: buildHtml(e.name, eventUrl, feedback),
-    source: "email:submission-approved",
-  };
-
-  await env.EMAIL_JOBS.send(msg);
+  // In-app for a signed-in submitter. Best-effort (createNotification
+  // never throws), and written before the marker for the same reason
+  // the email is sent before it.
+  if (e.submittedByUserId) {
+    await createNotification(db, {
+      userId: e.submittedByUserId,
+      type: "submission_approved",
+      title: "Your submission is live",
+      message: `${e.name} has been approved and is now listed.`,
+      data: { eventId: e.id, url: `/events/${e.slug}` },
+    });
+  }
 
   // Marker AFTER queue push so a queue failure doesn't burn the
   // idempotency window. Race window: if the queue push succeeds but the
@@ -198,5 +232,5 @@ export async function notifyApprovalIfNeeded(
     // Intentional swallow — see comment above.
   }
 
-  return { outcome: "sent" };
+  return { outcome: emailTo ? "sent" : "notified-in-app" };
 }
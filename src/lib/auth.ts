@@ -9,10 +9,25 @@ import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { getCloudflareDb } from "./cloudflare";
 import * as schema from "./db/schema";
 import { eq, and } from "drizzle-orm";
+import { headers } from "next/headers";
 import { logError } from "./logger";
+import { isSessionVerified, recordLogin, type SecondFactor } from "./auth/login-events";
+import { finishPasskeyAssertion } from "./auth/passkeys";
+import { getTwoFactorStatus } from "./auth/two-factor";
+import { relyingPartyFor, type PasskeyAssertionPayload } from "./auth/webauthn";
 
 type UserRole = "ADMIN" | "PROMOTER" | "VENDOR" | "USER";
 
+/**
+ * drizzle/0241 — where a session stands on its second factor.
+ *   none     — the user has no second factor enrolled.
+ *   pending  — enrolled, first factor passed, second not yet entered. A
+ *              pending session reads as signed-out everywhere (see `auth`
+ *              below) except /login/two-factor.
+ *   verified — the second factor was entered (or the sign-in was a passkey).
+ */
+export type TwoFactorState = "none" | "pending" | "verified";
+
 declare module "next-auth" {
   interface Session {
     user: {
@@ -32,11 +47,22 @@ declare module "next-auth" {
        * drizzle/0089). Dual-role users have multiple entries.
        */
       roles: UserRole[];
+      /** The login_events row for this session (drizzle/0241). */
+      sessionId?: string;
+      twoFactor: TwoFactorState;
+      /**
+       * Set when the user holds ADMIN but hasn't enrolled a second factor.
+       * ADMIN is withheld from `role` / `roles` until they do; the admin
+       * layout sends them to /dashboard/settings to enroll.
+       */
+      adminTwoFactorRequired?: boolean;
     };
   }
 
   interface User {
     role: UserRole;
+    /** Set by an authorize() that already checked a second factor (passkey sign-in). */
+    secondFactor?: SecondFactor | null;
   }
 }
 
@@ -45,6 +71,8 @@ declare module "next-auth/jwt" {
     id: string;
     role: UserRole;
     roles: UserRole[];
+    sid?: string;
+    twoFactor?: TwoFactorState;
   }
 }
 
@@ -148,6 +176,32 @@ function getRuntimeEnv(key: string): string | undefined {
   }
 }
 
+/**
+ * IP and user agent for the login history. Only available inside a request
+ * scope; anything else (a test, a script) records nulls.
+ */
+async function requestMetadata(): Promise<{ ip: string | null; userAgent: string | null }> {
+  try {
+    const h = await headers();
+    const ip = h.get("cf-connecting-ip") ?? h.get("x-forwarded-for")?.split(",")[0].trim() ?? null;
+    return { ip, userAgent: h.get("user-agent") };
+  } catch {
+    return { ip: null, userAgent: null };
+  }
+}
+
+/**
+ * The key material the TOTP secrets are sealed under (src/lib/auth/totp.ts).
+ * Rotating AUTH_SECRET therefore also invalidates every enrolled
+ * authenticator app — users fall back to a passkey or recovery code and
+ * re-enroll.
+ */
+export function getAuthSecret(): string {
+  const secret = getRuntimeEnv("AUTH_SECRET") ?? getRuntimeEnv("NEXTAUTH_SECRET");
+  if (!secret) throw new Error("AUTH_SECRET is not configured");
+  return secret;
+}
+
 // Create NextAuth config lazily so Google credentials are read at runtime
 function createAuthConfig(): NextAuthConfig {
   const googleClientId = getRuntimeEnv("GOOGLE_CLIENT_ID");
@@ -225,6 +279,59 @@ function createAuthConfig(): NextAuthConfig {
     }),
   ];
 
+  // drizzle/0241 — "Sign in with a passkey". The passkey is both factors: it
+  // is possession of the key plus the authenticator's own PIN or biometric
+  // (user verification is required for this purpose), so the session starts
+  // out verified.
+  providers.push(
+    Credentials({
+      id: "passkey",
+      name: "passkey",
+      credentials: {
+        challengeId: { type: "text" },
+        credential: { type: "text" },
+      },
+      async authorize(credentials, request) {
+        if (typeof credentials?.challengeId !== "string") return null;
+        if (typeof credentials?.credential !== "string") return null;
+
+        const db = getCloudflareDb();
+        try {
+          const credential = JSON.parse(credentials.credential) as PasskeyAssertionPayload;
+          const { origin, rpId } = relyingPartyFor(request.url);
+          const match = await finishPasskeyAssertion(db, {
+            userId: null,
+            challengeId: credentials.challengeId,
+            credential,
+            origin,
+            rpId,
+          });
+          if (!match) return null;
+
+          const user = await db.query.users.findFirst({
+            where: eq(schema.users.id, match.userId),
+          });
+          if (!user || isPlaceholderEmail(user.email)) return null;
+          return {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+            image: user.image,
+            role: user.role as UserRole,
+            secondFactor: "passkey",
+          };
+        } catch (error) {
+          await logError(db, {
+            message: "Passkey sign-in error",
+            error,
+            source: "lib/auth.ts:authorize(passkey)",
+          });
+          return null;
+        }
+      },
+    })
+  );
+
   const facebookClientId = getRuntimeEnv("FACEBOOK_CLIENT_ID");
   const facebookClientSecret = getRuntimeEnv("FACEBOOK_CLIENT_SECRET");
 
@@ -354,7 +461,17 @@ function createAuthConfig(): NextAuthConfig {
 
         return true;
       },
-      async jwt({ token, user }: { token: JWT; user?: User }) {
+      async jwt({
+        token,
+        user,
+        account,
+        trigger,
+      }: {
+        token: JWT;
+        user?: User;
+        account?: { provider: string } | null;
+        trigger?: "signIn" | "signUp" | "update";
+      }) {
         if (user && user.id) {
           token.id = user.id;
           if (user.role) {
@@ -384,6 +501,61 @@ function createAuthConfig(): NextAuthConfig {
           } catch {
             token.roles = [token.role as UserRole];
           }
+
+          // drizzle/0241 — open this session's login_events row. An enrolled
+          // user who signed in without a second factor (password or OAuth)
+          // starts "pending"; a status lookup that fails counts as enrolled,
+          // so an outage can't wave anyone past their second factor.
+          const db = getCloudflareDb();
+          const secondFactor = user.secondFactor ?? null;
+          let enrolled = true;
+          try {
+            enrolled = (await getTwoFactorStatus(db, user.id)).enrolled;
+          } catch {
+            // fail closed — see above
+          }
+          token.sid = crypto.randomUUID();
+          token.twoFactor = secondFactor ? "verified" : enrolled ? "pending" : "none";
+          try {
+            await recordLogin(db, {
+              sid: token.sid,
+              userId: user.id,
+              method: account?.provider ?? "credentials",
+              secondFactor,
+              ...(await requestMetadata()),
+            });
+          } catch (error) {
+            await logError(db, {
+              message: "Failed to record login event",
+              error,
+              source: "lib/auth.ts:jwt",
+              context: { userId: user.id },
+            });
+          }
+          return token;
+        }
+
+        // A token minted before drizzle/0241 has no session row to hang
+        // second-factor or step-up state on. Ending it costs each user one
+        // sign-in; keeping it would leave every pre-0241 admin session
+        // outside the second-factor requirement until it expired.
+        if (!token.sid) return null;
+
+        // `update()` from the client (after /login/two-factor, or after
+        // enrolling in settings) re-reads the state from login_events. The
+        // client-sent payload is ignored: the row is the only authority.
+        if (trigger === "update" && token.twoFactor !== "verified") {
+          const db = getCloudflareDb();
+          try {
+            if (await isSessionVerified(db, token.sid, token.id)) {
+              token.twoFactor = "verified";
+            } else if (token.twoFactor === "none") {
+              const status = await getTwoFactorStatus(db, token.id);
+              if (status.enrolled) token.twoFactor = "pending";
+            }
+          } catch {
+            // Keep the current state; the next update retries.
+          }
         }
         return token;
       },
@@ -392,6 +564,19 @@ function createAuthConfig(): NextAuthConfig {
           session.user.id = token.id as string;
           session.user.role = token.role as UserRole;
           session.user.roles = (token.roles as UserRole[] | undefined) ?? [token.role as UserRole];
+          session.user.sessionId = token.sid;
+          session.user.twoFactor = token.twoFactor ?? "none";
+
+          // 2FA is mandatory for admins. Rather than touch the ~100 role
+          // checks, an admin session without a verified second factor simply
+          // doesn't carry ADMIN: every gate fails closed, and the flag tells
+          // the admin layout why.
+          if (session.user.roles.includes("ADMIN") && session.user.twoFactor !== "verified") {
+            const remaining = session.user.roles.filter((r) => r !== "ADMIN");
+            session.user.roles = remaining.length > 0 ? remaining : ["USER"];
+            if (session.user.role === "ADMIN") session.user.role = session.user.roles[0];
+            session.user.adminTwoFactorRequired = true;
+          }
         }
         return session;
       },
@@ -418,12 +603,36 @@ export const handlers: HandlersType = {
   POST: (req) => initAuth().handlers.POST(req),
 };
 
-// Typed auth function with all overloads
+// Typed auth function with all overloads. The no-argument form — the one
+// every page, layout and route handler uses — treats a session still waiting
+// on its second factor as no session at all.
 export const auth: AuthType = ((...args: Parameters<AuthType>) => {
   const instance = initAuth();
-  return (instance.auth as (...args: Parameters<AuthType>) => ReturnType<AuthType>)(...args);
+  const result = (instance.auth as (...args: Parameters<AuthType>) => ReturnType<AuthType>)(
+    ...args
+  );
+  if (args.length > 0) return result;
+  return (result as unknown as Promise<Session | null>).then((session) =>
+    session?.user?.twoFactor === "pending" ? null : session
+  );
 }) as AuthType;
 
+/**
+ * The one place a pending session is visible: /login/two-factor and the
+ * endpoints it posts to. Null unless the session is waiting on its second
+ * factor.
+ */
+export async function getPendingTwoFactorSession(): Promise<{
+  userId: string;
+  sessionId: string;
+  email: string;
+} | null> {
+  const session = await (initAuth().auth as () => Promise<Session | null>)();
+  const user = session?.user;
+  if (!user || user.twoFactor !== "pending" || !user.sessionId) return null;
+  return { userId: user.id, sessionId: user.sessionId, email: user.email };
+}
+
 // Typed signIn function
 export const signIn: SignInType = ((...args: Parameters<SignInType>) => {
   const instance = initAuth();
@@ -0,0 +1,505 @@
+/**
+ * Passkeys (drizzle/0241): the WebAuthn checks in ../webauthn and the
+ * challenge/credential bookkeeping in ../passkeys.
+ *
+ * There is no browser here, so `authenticator()` plays one: a P-256 key made
+ * with WebCrypto, authenticator data assembled byte by byte, and signatures
+ * DER-encoded the way real authenticators send them. That exercises the same
+ * DER→raw conversion and signed-bytes layout production does.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import * as schema from "../../db/schema";
+import type { Database as AppDb } from "../../db";
+import {
+  COSE_ES256,
+  base64UrlDecode,
+  base64UrlEncode,
+  derToRawEcdsa,
+  relyingPartyFor,
+  verifyAuthentication,
+  verifyRegistration,
+  type PasskeyAssertionPayload,
+  type PasskeyRegistrationPayload,
+} from "../webauthn";
+import {
+  beginPasskeyAssertion,
+  beginPasskeyRegistration,
+  consumeChallenge,
+  finishPasskeyAssertion,
+  finishPasskeyRegistration,
+  listPasskeys,
+  removePasskey,
+  renamePasskey,
+} from "../passkeys";
+
+const RP_ID = "meetmeatthefair.com";
+const ORIGIN = "https://meetmeatthefair.com";
+
+const UP = 0x01;
+const UV = 0x04;
+const AT = 0x40;
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes as BufferSource));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+function derInteger(bytes: Uint8Array): Uint8Array {
+  let i = 0;
+  while (i < bytes.length - 1 && bytes[i] === 0) i++;
+  let int: Uint8Array = bytes.slice(i);
+  if (int[0] & 0x80) int = concat(new Uint8Array([0]), int);
+  return concat(new Uint8Array([0x02, int.length]), int);
+}
+
+function rawToDer(raw: Uint8Array): Uint8Array {
+  const body = concat(derInteger(raw.slice(0, 32)), derInteger(raw.slice(32)));
+  return concat(new Uint8Array([0x30, body.length]), body);
+}
+
+function clientData(type: string, challenge: string, origin = ORIGIN): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify({ type, challenge, origin }));
+}
+
+async function authenticator(rpId = RP_ID) {
+  const pair = (await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const spki = new Uint8Array(await crypto.subtle.exportKey("spki", pair.publicKey));
+  const credentialId = crypto.getRandomValues(new Uint8Array(16));
+  const id = base64UrlEncode(credentialId);
+  let counter = 0;
+
+  async function authData(flags: number, signCount: number, attested: boolean) {
+    const head = new Uint8Array(37);
+    head.set(await sha256(new TextEncoder().encode(rpId)));
+    head[32] = flags | (attested ? AT : 0);
+    new DataView(head.buffer).setUint32(33, signCount);
+    if (!attested) return head;
+    const idLength = new Uint8Array(2);
+    new DataView(idLength.buffer).setUint16(0, credentialId.length);
+    // aaguid (zeros), id length, id, then a stand-in for the COSE key we never parse.
+    return concat(head, new Uint8Array(16), idLength, credentialId, new Uint8Array([0xa0]));
+  }
+
+  return {
+    id,
+    async register(
+      challenge: string,
+      opts: { origin?: string; flags?: number } = {}
+    ): Promise<PasskeyRegistrationPayload> {
+      return {
+        id,
+        transports: ["internal"],
+        response: {
+          clientDataJSON: base64UrlEncode(clientData("webauthn.create", challenge, opts.origin)),
+          authenticatorData: base64UrlEncode(await authData(opts.flags ?? UP | UV, 0, true)),
+          publicKey: base64UrlEncode(spki),
+          publicKeyAlgorithm: COSE_ES256,
+        },
+      };
+    },
+    async assert(
+      challenge: string,
+      opts: { origin?: string; flags?: number; signCount?: number } = {}
+    ): Promise<PasskeyAssertionPayload> {
+      counter = opts.signCount ?? counter + 1;
+      const data = await authData(opts.flags ?? UP | UV, counter, false);
+      const cdj = clientData("webauthn.get", challenge, opts.origin);
+      const raw = new Uint8Array(
+        await crypto.subtle.sign(
+          { name: "ECDSA", hash: "SHA-256" },
+          pair.privateKey,
+          concat(data, await sha256(cdj)) as BufferSource
+        )
+      );
+      return {
+        id,
+        response: {
+          clientDataJSON: base64UrlEncode(cdj),
+          authenticatorData: base64UrlEncode(data),
+          signature: base64UrlEncode(rawToDer(raw)),
+          userHandle: null,
+        },
+      };
+    },
+  };
+}
+
+describe("webauthn helpers", () => {
+  it("base64url round-trips without padding", () => {
+    const bytes = new Uint8Array([251, 255, 0, 62, 63]);
+    const encoded = base64UrlEncode(bytes);
+    expect(encoded).not.toMatch(/[+/=]/);
+    expect(base64UrlDecode(encoded)).toEqual(bytes);
+  });
+
+  it("derives the relying party from the request host", () => {
+    expect(relyingPartyFor("https://preview.example.dev/api/x?y=1")).toEqual({
+      rpId: "preview.example.dev",
+      origin: "https://preview.example.dev",
+    });
+    expect(relyingPartyFor("http://localhost:3000/login")).toEqual({
+      rpId: "localhost",
+      origin: "http://localhost:3000",
+    });
+  });
+
+  it("left-pads short DER integers to the fixed-width raw form", () => {
+    const r = new Uint8Array(32).fill(1);
+    r[0] = 0;
+    const s = new Uint8Array(32).fill(0x90);
+    expect(derToRawEcdsa(rawToDer(concat(r, s)))).toEqual(concat(r, s));
+    expect(derToRawEcdsa(new Uint8Array([0x31, 0]))).toBeNull();
+  });
+});
+
+describe("verifyRegistration", () => {
+  it("accepts a well-formed response and returns what to store", async () => {
+    const key = await authenticator();
+    const result = await verifyRegistration({
+      credential: await key.register("chal"),
+      expectedChallenge: "chal",
+      origin: ORIGIN,
+      rpId: RP_ID,
+    });
+    expect(result).toMatchObject({ ok: true, credentialId: key.id, algorithm: COSE_ES256 });
+  });
+
+  it.each([
+    ["challenge", { expectedChallenge: "other" }, "challenge mismatch"],
+    ["origin", { origin: "https://evil.example" }, "origin mismatch"],
+    ["rpId", { rpId: "evil.example" }, "rpId mismatch"],
+  ])("refuses the wrong %s", async (_label, override, reason) => {
+    const key = await authenticator();
+    const result = await verifyRegistration({
+      credential: await key.register("chal"),
+      expectedChallenge: "chal",
+      origin: ORIGIN,
+      rpId: RP_ID,
+      ...override,
+    });
+    expect(result).toEqual({ ok: false, reason });
+  });
+
+  it("refuses a response whose reported id isn't the attested one", async () => {
+    const key = await authenticator();
+    const credential = await key.register("chal");
+    const result = await verifyRegistration({
+      credential: { ...credential, id: base64UrlEncode(new Uint8Array(16)) },
+      expectedChallenge: "chal",
+      origin: ORIGIN,
+      rpId: RP_ID,
+    });
+    expect(result).toEqual({ ok: false, reason: "credential id mismatch" });
+  });
+});
+
+describe("verifyAuthentication", () => {
+  async function registered() {
+    const key = await authenticator();
+    const reg = await verifyRegistration({
+      credential: await key.register("chal"),
+      expectedChallenge: "chal",
+      origin: ORIGIN,
+      rpId: RP_ID,
+    });
+    if (!reg.ok) throw new Error(reg.reason);
+    return { key, publicKey: reg.publicKey };
+  }
+
+  const base = { origin: ORIGIN, rpId: RP_ID, algorithm: COSE_ES256, storedSignCount: 0 };
+
+  it("verifies a signature from the registered key and returns the new counter", async () => {
+    const { key, publicKey } = await registered();
+    const result = await verifyAuthentication({
+      ...base,
+      credential: await key.assert("c2"),
+      expectedChallenge: "c2",
+      publicKey,
+      requireUserVerification: true,
+    });
+    expect(result).toEqual({ ok: true, signCount: 1 });
+  });
+
+  it("refuses a signature from another key", async () => {
+    const { publicKey } = await registered();
+    const other = await authenticator();
+    const result = await verifyAuthentication({
+      ...base,
+      credential: await other.assert("c2"),
+      expectedChallenge: "c2",
+      publicKey,
+      requireUserVerification: false,
+    });
+    expect(result).toEqual({ ok: false, reason: "bad signature" });
+  });
+
+  it("requires user verification only when asked", async () => {
+    const { key, publicKey } = await registered();
+    const presenceOnly = { ...base, expectedChallenge: "c2", publicKey };
+    expect(
+      await verifyAuthentication({
+        ...presenceOnly,
+        credential: await key.assert("c2", { flags: UP }),
+        requireUserVerification: true,
+      })
+    ).toEqual({ ok: false, reason: "user not verified" });
+    expect(
+      await verifyAuthentication({
+        ...presenceOnly,
+        credential: await key.assert("c2", { flags: UP }),
+        requireUserVerification: false,
+      })
+    ).toMatchObject({ ok: true });
+  });
+
+  it("refuses a counter that didn't go up, but allows synced passkeys at 0", async () => {
+    const { key, publicKey } = await registered();
+    const args = { ...base, expectedChallenge: "c2", publicKey, requireUserVerification: false };
+    expect(
+      await verifyAuthentication({
+        ...args,
+        storedSignCount: 5,
+        credential: await key.assert("c2", { signCount: 5 }),
+      })
+    ).toEqual({ ok: false, reason: "signature counter went backwards" });
+    expect(
+      await verifyAuthentication({ ...args, credential: await key.assert("c2", { signCount: 0 }) })
+    ).toEqual({ ok: true, signCount: 0 });
+  });
+
+  it("refuses a replayed assertion for a different challenge", async () => {
+    const { key, publicKey } = await registered();
+    const result = await verifyAuthentication({
+      ...base,
+      credential: await key.assert("c2"),
+      expectedChallenge: "c3",
+      publicKey,
+      requireUserVerification: false,
+    });
+    expect(result).toEqual({ ok: false, reason: "challenge mismatch" });
+  });
+});
+
+// ── The stored side ─────────────────────────────────────────────────
+
+const SCHEMA_SQL = `
+  CREATE TABLE user_passkeys (
+    id TEXT PRIMARY KEY NOT NULL, user_id TEXT NOT NULL, credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL, algorithm INTEGER NOT NULL, sign_count INTEGER NOT NULL DEFAULT 0,
+    transports TEXT, name TEXT NOT NULL, created_at INTEGER NOT NULL, last_used_at INTEGER
+  );
+  CREATE TABLE auth_challenges (
+    id TEXT PRIMARY KEY NOT NULL, user_id TEXT, purpose TEXT NOT NULL, challenge TEXT NOT NULL,
+    expires_at INTEGER NOT NULL, created_at INTEGER NOT NULL
+  );
+`;
+
+let raw: InstanceType<typeof Database>;
+let db: AppDb;
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(SCHEMA_SQL);
+  db = drizzle(raw, { schema }) as unknown as AppDb;
+});
+
+async function enroll(userId: string, name = "Laptop") {
+  const key = await authenticator();
+  const options = await beginPasskeyRegistration(db, {
+    userId,
+    email: `${userId}@example.com`,
+    name: null,
+    rpId: RP_ID,
+  });
+  const result = await finishPasskeyRegistration(db, {
+    userId,
+    challengeId: options.challengeId,
+    credential: await key.register(options.challenge),
+    name,
+    origin: ORIGIN,
+    rpId: RP_ID,
+  });
+  if (!result.ok) throw new Error(result.error);
+  return { key, passkey: result.passkey };
+}
+
+describe("challenges", () => {
+  it("are single-use", async () => {
+    const options = await beginPasskeyAssertion(db, { userId: "u1", rpId: RP_ID });
+    const args = { challengeId: options.challengeId, purpose: "verify" as const, userId: "u1" };
+    expect(await consumeChallenge(db, args)).toBe(options.challenge);
+    expect(await consumeChallenge(db, args)).toBeNull();
+  });
+
+  it("are bound to their purpose, user and lifetime", async () => {
+    const issued = new Date("2026-10-01T12:00:00Z");
+    const verify = await beginPasskeyAssertion(db, { userId: "u1", rpId: RP_ID, now: issued });
+    expect(
+      await consumeChallenge(db, {
+        challengeId: verify.challengeId,
+        purpose: "login",
+        userId: null,
+      })
+    ).toBeNull();
+
+    const other = await beginPasskeyAssertion(db, { userId: "u1", rpId: RP_ID, now: issued });
+    expect(
+      await consumeChallenge(db, {
+        challengeId: other.challengeId,
+        purpose: "verify",
+        userId: "u2",
+      })
+    ).toBeNull();
+
+    const stale = await beginPasskeyAssertion(db, { userId: "u1", rpId: RP_ID, now: issued });
+    expect(
+      await consumeChallenge(db, {
+        challengeId: stale.challengeId,
+        purpose: "verify",
+        userId: "u1",
+        now: new Date(issued.getTime() + 6 * 60 * 1000),
+      })
+    ).toBeNull();
+  });
+});
+
+describe("passkey registration", () => {
+  it("stores the passkey and lists it", async () => {
+    const { passkey } = await enroll("u1");
+    expect(await listPasskeys(db, "u1")).toEqual([
+      expect.objectContaining({ id: passkey.id, name: "Laptop", lastUsedAt: null }),
+    ]);
+  });
+
+  it("excludes already-registered credentials from the next creation request", async () => {
+    const { key } = await enroll("u1");
+    const options = await beginPasskeyRegistration(db, {
+      userId: "u1",
+      email: "u1@example.com",
+      name: "Una",
+      rpId: RP_ID,
+    });
+    expect(options.excludeCredentialIds).toEqual([key.id]);
+    expect(options.user.displayName).toBe("Una");
+  });
+
+  it("refuses a response for someone else's challenge", async () => {
+    const key = await authenticator();
+    const options = await beginPasskeyRegistration(db, {
+      userId: "u1",
+      email: "u1@example.com",
+      name: null,
+      rpId: RP_ID,
+    });
+    const result = await finishPasskeyRegistration(db, {
+      userId: "u2",
+      challengeId: options.challengeId,
+      credential: await key.register(options.challenge),
+      name: "",
+      origin: ORIGIN,
+      rpId: RP_ID,
+    });
+    expect(result.ok).toBe(false);
+    expect(await listPasskeys(db, "u2")).toEqual([]);
+  });
+
+  it("renames and removes only the owner's passkey", async () => {
+    const { passkey } = await enroll("u1");
+    expect(await renamePasskey(db, { userId: "u2", passkeyId: passkey.id, name: "Mine" })).toBe(
+      false
+    );
+    expect(await renamePasskey(db, { userId: "u1", passkeyId: passkey.id, name: " Phone " })).toBe(
+      true
+    );
+    expect((await listPasskeys(db, "u1"))[0].name).toBe("Phone");
+    expect(await removePasskey(db, { userId: "u2", passkeyId: passkey.id })).toBe(false);
+    expect(await removePasskey(db, { userId: "u1", passkeyId: passkey.id })).toBe(true);
+    expect(await listPasskeys(db, "u1")).toEqual([]);
+  });
+});
+
+describe("passkey assertion", () => {
+  it("signs in with a discoverable passkey and records use", async () => {
+    const { key, passkey } = await enroll("u1");
+    const options = await beginPasskeyAssertion(db, { userId: null, rpId: RP_ID });
+    expect(options.userVerification).toBe("required");
+    expect(options.allowCredentialIds).toEqual([]);
+
+    const now = new Date("2026-10-02T09:00:00Z");
+    const match = await finishPasskeyAssertion(db, {
+      userId: null,
+      challengeId: options.challengeId,
+      credential: await key.assert(options.challenge),
+      origin: ORIGIN,
+      rpId: RP_ID,
+      now,
+    });
+    expect(match).toEqual({ userId: "u1", passkeyId: passkey.id });
+    expect((await listPasskeys(db, "u1"))[0].lastUsedAt).toEqual(now);
+  });
+
+  it("requires user verification when the passkey is the whole sign-in", async () => {
+    const { key } = await enroll("u1");
+    const options = await beginPasskeyAssertion(db, { userId: null, rpId: RP_ID });
+    expect(
+      await finishPasskeyAssertion(db, {
+        userId: null,
+        challengeId: options.challengeId,
+        credential: await key.assert(options.challenge, { flags: UP }),
+        origin: ORIGIN,
+        rpId: RP_ID,
+      })
+    ).toBeNull();
+  });
+
+  it("refuses another user's passkey as a second factor", async () => {
+    const { key } = await enroll("u1");
+    const options = await beginPasskeyAssertion(db, { userId: "u2", rpId: RP_ID });
+    expect(
+      await finishPasskeyAssertion(db, {
+        userId: "u2",
+        challengeId: options.challengeId,
+        credential: await key.assert(options.challenge),
+        origin: ORIGIN,
+        rpId: RP_ID,
+      })
+    ).toBeNull();
+  });
+
+  it("can't reuse a challenge", async () => {
+    const { key } = await enroll("u1");
+    const options = await beginPasskeyAssertion(db, { userId: "u1", rpId: RP_ID });
+    const args = {
+      userId: "u1",
+      challengeId: options.challengeId,
+      origin: ORIGIN,
+      rpId: RP_ID,
+    };
+    expect(
+      await finishPasskeyAssertion(db, {
+        ...args,
+        credential: await key.assert(options.challenge),
+      })
+    ).not.toBeNull();
+    expect(
+      await finishPasskeyAssertion(db, {
+        ...args,
+        credential: await key.assert(options.challenge),
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Authenticator-app codes, the sealed secret and recovery codes (drizzle/0241).
+ *
+ * The code vectors are RFC 6238 Appendix B (SHA-1), truncated to the last six
+ * digits — the RFC prints eight. If these drift, every enrolled phone stops
+ * working at once, so they are pinned against the spec rather than against
+ * our own output.
+ */
+import { describe, expect, it } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  normalizeRecoveryCode,
+  openTotpSecret,
+  sealTotpSecret,
+  totpCode,
+  totpStep,
+  totpUri,
+  verifyTotp,
+} from "../totp";
+
+// "12345678901234567890" in base32 — the RFC 6238 SHA-1 test key.
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("base32", () => {
+  it("round-trips arbitrary bytes", () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 251, 252, 253, 254, 255, 17]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it("decodes the RFC key", () => {
+    expect(new TextDecoder().decode(base32Decode(RFC_SECRET))).toBe("12345678901234567890");
+  });
+
+  it("forgives lowercase, spaces and padding", () => {
+    expect(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq==")).toEqual(
+      base32Decode(RFC_SECRET)
+    );
+  });
+
+  it("generates 160-bit secrets", () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe("totpCode (RFC 6238 Appendix B)", () => {
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ])("T=%i → %s", async (seconds, expected) => {
+    expect(await totpCode(RFC_SECRET, totpStep(new Date(seconds * 1000)))).toBe(expected);
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = new Date(1111111111 * 1000);
+
+  it("accepts the current code and returns its step", async () => {
+    expect(await verifyTotp(RFC_SECRET, "050471", { now })).toBe(totpStep(now));
+  });
+
+  it("tolerates one step of clock drift either way, not two", async () => {
+    const step = totpStep(now);
+    expect(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step - 1), { now })).toBe(
+      step - 1
+    );
+    expect(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step + 1), { now })).toBe(
+      step + 1
+    );
+    expect(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step - 2), { now })).toBeNull();
+  });
+
+  it("refuses a step at or before lastStep (replay)", async () => {
+    const step = totpStep(now);
+    expect(await verifyTotp(RFC_SECRET, "050471", { now, lastStep: step })).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, "050471", { now, lastStep: step - 1 })).toBe(step);
+  });
+
+  it("refuses anything that isn't six digits", async () => {
+    expect(await verifyTotp(RFC_SECRET, "50471", { now })).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, "abcdef", { now })).toBeNull();
+  });
+});
+
+describe("totpUri", () => {
+  it("labels the account with the issuer and carries the parameters", () => {
+    const uri = totpUri({ secret: RFC_SECRET, accountName: "a@b.com", issuer: "Fair" });
+    expect(uri.startsWith("otpauth://totp/Fair%3Aa%40b.com?")).toBe(true);
+    const params = new URL(uri).searchParams;
+    expect(params.get("secret")).toBe(RFC_SECRET);
+    expect(params.get("issuer")).toBe("Fair");
+    expect(params.get("digits")).toBe("6");
+    expect(params.get("period")).toBe("30");
+  });
+});
+
+describe("sealTotpSecret / openTotpSecret", () => {
+  it("round-trips under the same AUTH_SECRET", async () => {
+    const sealed = await sealTotpSecret(RFC_SECRET, "auth-secret-one");
+    expect(sealed.startsWith("v1.")).toBe(true);
+    expect(sealed).not.toContain(RFC_SECRET);
+    expect(await openTotpSecret(sealed, "auth-secret-one")).toBe(RFC_SECRET);
+  });
+
+  it("uses a fresh IV each time", async () => {
+    expect(await sealTotpSecret(RFC_SECRET, "s")).not.toBe(await sealTotpSecret(RFC_SECRET, "s"));
+  });
+
+  it("returns null under a different AUTH_SECRET or for garbage", async () => {
+    const sealed = await sealTotpSecret(RFC_SECRET, "auth-secret-one");
+    expect(await openTotpSecret(sealed, "auth-secret-two")).toBeNull();
+    expect(await openTotpSecret("v2.a.b", "auth-secret-one")).toBeNull();
+    expect(await openTotpSecret("not-sealed", "auth-secret-one")).toBeNull();
+  });
+});
+
+describe("recovery codes", () => {
+  it("issues ten distinct xxxxx-xxxxx codes from the unambiguous alphabet", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) expect(code).toMatch(/^[a-km-np-z2-9]{5}-[a-km-np-z2-9]{5}$/);
+  });
+
+  it("hashes case, spacing and the dash the same way", async () => {
+    const hash = await hashRecoveryCode("abcde-fghij");
+    expect(normalizeRecoveryCode(" ABCDE FGHIJ ")).toBe("abcdefghij");
+    expect(await hashRecoveryCode("ABCDEFGHIJ")).toBe(hash);
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,436 @@
+/**
+ * Authenticator-app enrollment, recovery codes, the wrong-code lockout, the
+ * admin last-factor guard (../two-factor) and the per-session verified/step-up
+ * state (../login-events).
+ *
+ * Codes are computed with the same `totpCode` the server uses, from the secret
+ * `beginTotpEnrollment` hands back — i.e. exactly what a phone would show.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import * as schema from "../../db/schema";
+import type { Database as AppDb } from "../../db";
+import { totpCode, totpStep } from "../totp";
+import {
+  CODE_ATTEMPTS_PER_LOCK,
+  beginTotpEnrollment,
+  codeEntryLockedUntil,
+  confirmTotpEnrollment,
+  disableTotp,
+  getTwoFactorStatus,
+  removalLeavesAdminUnprotected,
+  replaceRecoveryCodes,
+  verifySecondFactor,
+  verifyTotpOrRecoveryCode,
+} from "../two-factor";
+import {
+  STEP_UP_WINDOW_MS,
+  hasRecentStepUp,
+  isSessionVerified,
+  listLoginHistory,
+  markSessionSteppedUp,
+  markSessionVerified,
+  recordLogin,
+} from "../login-events";
+
+const { enqueueEmail } = vi.hoisted(() => ({
+  enqueueEmail: vi.fn(async (_args: { to: string; subject: string; text: string }) => undefined),
+}));
+vi.mock("@/lib/queues/producers", () => ({ enqueueEmail }));
+vi.mock("@/lib/email/send", () => ({ getSiteUrl: () => "https://example.test" }));
+vi.mock("@/lib/logger", () => ({ logError: vi.fn(async () => undefined) }));
+
+const SCHEMA_SQL = `
+  CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT NOT NULL, name TEXT);
+  CREATE TABLE user_roles (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, role TEXT NOT NULL,
+    granted_at INTEGER NOT NULL, granted_by TEXT
+  );
+  CREATE TABLE user_totp (
+    user_id TEXT PRIMARY KEY NOT NULL, secret TEXT NOT NULL, enabled_at INTEGER,
+    last_step INTEGER, failed_code_attempts INTEGER NOT NULL DEFAULT 0,
+    code_locked_until INTEGER, created_at INTEGER NOT NULL
+  );
+  CREATE TABLE user_recovery_codes (
+    id TEXT PRIMARY KEY NOT NULL, user_id TEXT NOT NULL, code_hash TEXT NOT NULL,
+    used_at INTEGER, created_at INTEGER NOT NULL
+  );
+  CREATE TABLE user_passkeys (
+    id TEXT PRIMARY KEY NOT NULL, user_id TEXT NOT NULL, credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL, algorithm INTEGER NOT NULL, sign_count INTEGER NOT NULL DEFAULT 0,
+    transports TEXT, name TEXT NOT NULL, created_at INTEGER NOT NULL, last_used_at INTEGER
+  );
+  CREATE TABLE auth_challenges (
+    id TEXT PRIMARY KEY NOT NULL, user_id TEXT, purpose TEXT NOT NULL, challenge TEXT NOT NULL,
+    expires_at INTEGER NOT NULL, created_at INTEGER NOT NULL
+  );
+  CREATE TABLE login_events (
+    id TEXT PRIMARY KEY NOT NULL, user_id TEXT NOT NULL, method TEXT NOT NULL,
+    second_factor TEXT, ip TEXT, user_agent TEXT, created_at INTEGER NOT NULL,
+    verified_at INTEGER, step_up_at INTEGER
+  );
+`;
+
+const AUTH_SECRET = "test-auth-secret";
+const T0 = new Date("2026-10-01T12:00:00Z");
+const at = (seconds: number) => new Date(T0.getTime() + seconds * 1000);
+
+let raw: InstanceType<typeof Database>;
+let db: AppDb;
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(SCHEMA_SQL);
+  db = drizzle(raw, { schema }) as unknown as AppDb;
+  enqueueEmail.mockClear();
+});
+
+function grantAdmin(userId: string) {
+  raw
+    .prepare("INSERT INTO user_roles (id, user_id, role, granted_at) VALUES (?, ?, 'ADMIN', 0)")
+    .run(`r-${userId}`, userId);
+}
+
+function addPasskeyRow(userId: string, id: string) {
+  raw
+    .prepare(
+      "INSERT INTO user_passkeys (id, user_id, credential_id, public_key, algorithm, name, created_at) VALUES (?, ?, ?, 'pk', -7, 'Key', 0)"
+    )
+    .run(id, userId, `cred-${id}`);
+}
+
+async function enrollTotp(userId: string) {
+  const started = await beginTotpEnrollment(db, {
+    userId,
+    email: `${userId}@example.com`,
+    authSecret: AUTH_SECRET,
+    now: T0,
+  });
+  if (!started) throw new Error("already enrolled");
+  const confirmed = await confirmTotpEnrollment(db, {
+    userId,
+    code: await totpCode(started.secret, totpStep(T0)),
+    authSecret: AUTH_SECRET,
+    now: T0,
+  });
+  if (!confirmed.ok) throw new Error("confirm failed");
+  return { secret: started.secret, recoveryCodes: confirmed.recoveryCodes };
+}
+
+describe("authenticator-app enrollment", () => {
+  it("stays off until the first code is confirmed", async () => {
+    const started = await beginTotpEnrollment(db, {
+      userId: "u1",
+      email: "u1@example.com",
+      authSecret: AUTH_SECRET,
+    });
+    expect(started?.otpauthUrl).toContain(`secret=${started?.secret}`);
+    expect(await getTwoFactorStatus(db, "u1")).toMatchObject({
+      totpEnabled: false,
+      enrolled: false,
+    });
+  });
+
+  it("stores the secret sealed, not in the clear", async () => {
+    const { secret } = await enrollTotp("u1");
+    const row = raw.prepare("SELECT secret FROM user_totp WHERE user_id = 'u1'").get() as {
+      secret: string;
+    };
+    expect(row.secret.startsWith("v1.")).toBe(true);
+    expect(row.secret).not.toContain(secret);
+  });
+
+  it("refuses a wrong first code", async () => {
+    await beginTotpEnrollment(db, { userId: "u1", email: "e", authSecret: AUTH_SECRET });
+    expect(
+      await confirmTotpEnrollment(db, { userId: "u1", code: "000000", authSecret: AUTH_SECRET })
+    ).toEqual({ ok: false });
+  });
+
+  it("issues ten recovery codes and won't restart once enabled", async () => {
+    const { recoveryCodes } = await enrollTotp("u1");
+    expect(recoveryCodes).toHaveLength(10);
+    expect(await getTwoFactorStatus(db, "u1")).toEqual({
+      totpEnabled: true,
+      recoveryCodesRemaining: 10,
+      passkeyCount: 0,
+      enrolled: true,
+    });
+    expect(
+      await beginTotpEnrollment(db, { userId: "u1", email: "e", authSecret: AUTH_SECRET })
+    ).toBeNull();
+  });
+
+  it("counts a passkey alone as enrolled", async () => {
+    addPasskeyRow("u1", "p1");
+    expect(await getTwoFactorStatus(db, "u1")).toMatchObject({ passkeyCount: 1, enrolled: true });
+  });
+});
+
+describe("verifyTotpOrRecoveryCode", () => {
+  it("accepts a fresh app code once, then refuses the replay", async () => {
+    const { secret } = await enrollTotp("u1");
+    const now = at(90);
+    const code = await totpCode(secret, totpStep(now));
+    const args = { userId: "u1", code, authSecret: AUTH_SECRET, now };
+    expect(await verifyTotpOrRecoveryCode(db, args)).toBe("totp");
+    expect(await verifyTotpOrRecoveryCode(db, args)).toBeNull();
+  });
+
+  it("refuses the code used to confirm enrollment", async () => {
+    const { secret } = await enrollTotp("u1");
+    expect(
+      await verifyTotpOrRecoveryCode(db, {
+        userId: "u1",
+        code: await totpCode(secret, totpStep(T0)),
+        authSecret: AUTH_SECRET,
+        now: T0,
+      })
+    ).toBeNull();
+  });
+
+  it("spends a recovery code, forgiving case and dash", async () => {
+    const { recoveryCodes } = await enrollTotp("u1");
+    const typed = recoveryCodes[3].toUpperCase().replace("-", " ");
+    const args = { userId: "u1", code: typed, authSecret: AUTH_SECRET, now: at(60) };
+    expect(await verifyTotpOrRecoveryCode(db, args)).toBe("recovery");
+    expect(await verifyTotpOrRecoveryCode(db, args)).toBeNull();
+    expect((await getTwoFactorStatus(db, "u1")).recoveryCodesRemaining).toBe(9);
+  });
+
+  it("refuses everything when the app isn't enabled, or under another AUTH_SECRET", async () => {
+    const { secret, recoveryCodes } = await enrollTotp("u1");
+    const code = await totpCode(secret, totpStep(at(60)));
+    expect(
+      await verifyTotpOrRecoveryCode(db, { userId: "u1", code, authSecret: "rotated", now: at(60) })
+    ).toBeNull();
+    await disableTotp(db, "u1");
+    expect(
+      await verifyTotpOrRecoveryCode(db, {
+        userId: "u1",
+        code: recoveryCodes[0],
+        authSecret: AUTH_SECRET,
+      })
+    ).toBeNull();
+  });
+
+  it("invalidates the old recovery codes when replaced", async () => {
+    const { recoveryCodes } = await enrollTotp("u1");
+    const fresh = await replaceRecoveryCodes(db, "u1");
+    const args = { userId: "u1", authSecret: AUTH_SECRET };
+    expect(await verifyTotpOrRecoveryCode(db, { ...args, code: recoveryCodes[0] })).toBeNull();
+    expect(await verifyTotpOrRecoveryCode(db, { ...args, code: fresh[0] })).toBe("recovery");
+  });
+});
+
+describe("wrong-code lockout", () => {
+  const WRONG = "aaaaa-bbbbb";
+
+  async function guessWrong(times: number, now: Date) {
+    for (let i = 0; i < times; i++) {
+      const args = { userId: "u1", code: WRONG, authSecret: AUTH_SECRET, now };
+      expect(await verifyTotpOrRecoveryCode(db, args)).toBeNull();
+    }
+  }
+
+  beforeEach(() => {
+    raw.prepare("INSERT INTO users (id, email, name) VALUES ('u1', 'u1@example.com', 'Ada')").run();
+  });
+
+  it("locks code entry after the cap, refusing even the right code, and emails the owner", async () => {
+    const { secret } = await enrollTotp("u1");
+    await guessWrong(CODE_ATTEMPTS_PER_LOCK - 1, at(60));
+    expect(await codeEntryLockedUntil(db, "u1", at(60))).toBeNull();
+    expect(enqueueEmail).not.toHaveBeenCalled();
+
+    await guessWrong(1, at(60));
+    expect(await codeEntryLockedUntil(db, "u1", at(60))).toEqual(at(60 + 15 * 60));
+    expect(enqueueEmail).toHaveBeenCalledTimes(1);
+    expect(enqueueEmail.mock.calls[0][0]).toMatchObject({ to: "u1@example.com" });
+    expect(enqueueEmail.mock.calls[0][0].text).toContain("https://example.test/forgot-password");
+
+    const code = await totpCode(secret, totpStep(at(120)));
+    const args = { userId: "u1", code, authSecret: AUTH_SECRET };
+    expect(await verifyTotpOrRecoveryCode(db, { ...args, now: at(120) })).toBeNull();
+    // Once the lock lapses the same code is good.
+    const later = at(60 + 15 * 60 + 30);
+    const fresh = await totpCode(secret, totpStep(later));
+    expect(await verifyTotpOrRecoveryCode(db, { ...args, code: fresh, now: later })).toBe("totp");
+  });
+
+  it("doubles the lock each time the cap is reached again", async () => {
+    await enrollTotp("u1");
+    await guessWrong(CODE_ATTEMPTS_PER_LOCK, at(0));
+    const unlocked = at(15 * 60);
+    await guessWrong(CODE_ATTEMPTS_PER_LOCK, unlocked);
+    expect(await codeEntryLockedUntil(db, "u1", unlocked)).toEqual(
+      new Date(unlocked.getTime() + 30 * 60 * 1000)
+    );
+    expect(enqueueEmail).toHaveBeenCalledTimes(2);
+  });
+
+  it("clears the count on an accepted code", async () => {
+    const { recoveryCodes } = await enrollTotp("u1");
+    await guessWrong(CODE_ATTEMPTS_PER_LOCK - 1, at(60));
+    const args = { userId: "u1", code: recoveryCodes[0], authSecret: AUTH_SECRET, now: at(60) };
+    expect(await verifyTotpOrRecoveryCode(db, args)).toBe("recovery");
+    await guessWrong(CODE_ATTEMPTS_PER_LOCK - 1, at(60));
+    expect(await codeEntryLockedUntil(db, "u1", at(60))).toBeNull();
+    expect(enqueueEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe("verifySecondFactor", () => {
+  it("routes a code to the app and refuses an unknown passkey challenge", async () => {
+    const { secret } = await enrollTotp("u1");
+    const rp = { origin: "https://meetmeatthefair.com", rpId: "meetmeatthefair.com" };
+    const now = at(120);
+    expect(
+      await verifySecondFactor(db, {
+        userId: "u1",
+        proof: { code: await totpCode(secret, totpStep(now)) },
+        authSecret: AUTH_SECRET,
+        now,
+        ...rp,
+      })
+    ).toBe("totp");
+    expect(
+      await verifySecondFactor(db, {
+        userId: "u1",
+        proof: {
+          challengeId: crypto.randomUUID(),
+          credential: {
+            id: "x",
+            response: { clientDataJSON: "", authenticatorData: "", signature: "" },
+          },
+        },
+        authSecret: AUTH_SECRET,
+        ...rp,
+      })
+    ).toBeNull();
+  });
+});
+
+describe("removalLeavesAdminUnprotected", () => {
+  it("never blocks a non-admin", async () => {
+    await enrollTotp("u1");
+    expect(await removalLeavesAdminUnprotected(db, { userId: "u1", removing: "totp" })).toBe(false);
+  });
+
+  it("blocks an admin removing their only factor", async () => {
+    grantAdmin("a1");
+    await enrollTotp("a1");
+    expect(await removalLeavesAdminUnprotected(db, { userId: "a1", removing: "totp" })).toBe(true);
+
+    grantAdmin("a2");
+    addPasskeyRow("a2", "p1");
+    expect(await removalLeavesAdminUnprotected(db, { userId: "a2", removing: "passkey" })).toBe(
+      true
+    );
+  });
+
+  it("lets an admin remove one factor while another remains", async () => {
+    grantAdmin("a1");
+    await enrollTotp("a1");
+    addPasskeyRow("a1", "p1");
+    expect(await removalLeavesAdminUnprotected(db, { userId: "a1", removing: "totp" })).toBe(false);
+    expect(await removalLeavesAdminUnprotected(db, { userId: "a1", removing: "passkey" })).toBe(
+      false
+    );
+  });
+});
+
+describe("login events", () => {
+  const session = { sid: "s1", userId: "u1" };
+
+  it("records a sign-in, verified at once when it came with a factor", async () => {
+    await recordLogin(db, {
+      ...session,
+      method: "passkey",
+      secondFactor: "passkey",
+      ip: "203.0.113.9",
+      userAgent: "x".repeat(600),
+      now: T0,
+    });
+    expect(await isSessionVerified(db, "s1", "u1")).toBe(true);
+    const [entry] = await listLoginHistory(db, "u1");
+    expect(entry).toMatchObject({ id: "s1", ip: "203.0.113.9", verifiedAt: T0 });
+    expect(entry.userAgent).toHaveLength(512);
+  });
+
+  it("marks a pending session verified, keeping the method, scoped to its owner", async () => {
+    await recordLogin(db, {
+      ...session,
+      method: "credentials",
+      secondFactor: null,
+      ip: null,
+      userAgent: null,
+      now: T0,
+    });
+    expect(await isSessionVerified(db, "s1", "u1")).toBe(false);
+    await markSessionVerified(db, { sid: "s1", userId: "u2", secondFactor: "totp" });
+    expect(await isSessionVerified(db, "s1", "u1")).toBe(false);
+    await markSessionVerified(db, { ...session, secondFactor: "totp", now: at(10) });
+    expect(await isSessionVerified(db, "s1", "u1")).toBe(true);
+    expect((await listLoginHistory(db, "u1"))[0]).toMatchObject({
+      method: "credentials",
+      secondFactor: "totp",
+    });
+  });
+
+  it("counts the sign-in's own factor, then a step-up, within the window", async () => {
+    await recordLogin(db, {
+      ...session,
+      method: "credentials",
+      secondFactor: "totp",
+      ip: null,
+      userAgent: null,
+      now: T0,
+    });
+    const after = (ms: number) => new Date(T0.getTime() + ms);
+    expect(await hasRecentStepUp(db, { ...session, now: after(STEP_UP_WINDOW_MS) })).toBe(true);
+    expect(await hasRecentStepUp(db, { ...session, now: after(STEP_UP_WINDOW_MS + 1) })).toBe(
+      false
+    );
+
+    expect(await markSessionSteppedUp(db, { ...session, now: after(STEP_UP_WINDOW_MS * 2) })).toBe(
+      true
+    );
+    expect(
+      await hasRecentStepUp(db, { ...session, now: after(STEP_UP_WINDOW_MS * 2 + 1000) })
+    ).toBe(true);
+  });
+
+  it("has no step-up for an unverified, unknown or foreign session", async () => {
+    await recordLogin(db, {
+      ...session,
+      method: "google",
+      secondFactor: null,
+      ip: null,
+      userAgent: null,
+      now: T0,
+    });
+    expect(await hasRecentStepUp(db, { ...session, now: T0 })).toBe(false);
+    expect(await markSessionSteppedUp(db, { sid: "s1", userId: "u2" })).toBe(false);
+    expect(await hasRecentStepUp(db, { sid: "nope", userId: "u1" })).toBe(false);
+  });
+
+  it("lists newest first", async () => {
+    for (const [sid, seconds] of [
+      ["old", 0],
+      ["new", 60],
+    ] as const) {
+      await recordLogin(db, {
+        sid,
+        userId: "u1",
+        method: "credentials",
+        secondFactor: null,
+        ip: null,
+        userAgent: null,
+        now: at(seconds),
+      });
+    }
+    expect((await listLoginHistory(db, "u1")).map((e) => e.id)).toEqual(["new", "old"]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * One login_events row per session (drizzle/0241). The row's id travels in
+ * the JWT as `sid`, which is what ties a browser session to its second-factor
+ * and step-up state — the JWT itself can't be trusted to say "verified" after
+ * the fact, because the client can ask next-auth to refresh it at any time.
+ *
+ *   verifiedAt — the session satisfied its second factor (at sign-in, on
+ *                /login/two-factor, or by enrolling a factor mid-session).
+ *   stepUpAt   — the session last re-entered a code or passkey for a
+ *                sensitive admin action (database restore, merge, role change).
+ *
+ * The rows double as the user's login history on /dashboard/settings.
+ */
+import { and, desc, eq } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { loginEvents, type LoginEvent } from "@/lib/db/schema";
+
+export type SecondFactor = NonNullable<LoginEvent["secondFactor"]>;
+
+/**
+ * How long a step-up (or the second factor entered at sign-in) covers
+ * sensitive admin actions. Long enough to restore-then-verify a database
+ * without re-prompting, short enough that a laptop left unlocked over lunch
+ * has to prove it's still the admin.
+ */
+export const STEP_UP_WINDOW_MS = 10 * 60 * 1000;
+
+export const LOGIN_HISTORY_LIMIT = 20;
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+export async function recordLogin(
+  db: Database,
+  args: {
+    sid: string;
+    userId: string;
+    method: string;
+    secondFactor: SecondFactor | null;
+    ip: string | null;
+    userAgent: string | null;
+    now?: Date;
+  }
+): Promise<void> {
+  const now = args.now ?? new Date();
+  await db.insert(loginEvents).values({
+    id: args.sid,
+    userId: args.userId,
+    method: args.method,
+    secondFactor: args.secondFactor,
+    ip: args.ip,
+    userAgent: args.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+    createdAt: now,
+    verifiedAt: args.secondFactor ? now : null,
+  });
+}
+
+async function getSessionRow(db: Database, sid: string, userId: string) {
+  const [row] = await db
+    .select()
+    .from(loginEvents)
+    .where(and(eq(loginEvents.id, sid), eq(loginEvents.userId, userId)))
+    .limit(1);
+  return row ?? null;
+}
+
+export async function isSessionVerified(
+  db: Database,
+  sid: string,
+  userId: string
+): Promise<boolean> {
+  return !!(await getSessionRow(db, sid, userId))?.verifiedAt;
+}
+
+/** The session passed its second factor. Keeps the first factor recorded. */
+export async function markSessionVerified(
+  db: Database,
+  args: { sid: string; userId: string; secondFactor: SecondFactor; now?: Date }
+): Promise<void> {
+  const now = args.now ?? new Date();
+  const row = await getSessionRow(db, args.sid, args.userId);
+  if (!row) return;
+  await db
+    .update(loginEvents)
+    .set({ verifiedAt: now, secondFactor: row.secondFactor ?? args.secondFactor })
+    .where(eq(loginEvents.id, args.sid));
+}
+
+export async function markSessionSteppedUp(
+  db: Database,
+  args: { sid: string; userId: string; now?: Date }
+): Promise<boolean> {
+  const row = await getSessionRow(db, args.sid, args.userId);
+  if (!row) return false;
+  await db
+    .update(loginEvents)
+    .set({ stepUpAt: args.now ?? new Date() })
+    .where(eq(loginEvents.id, args.sid));
+  return true;
+}
+
+/**
+ * True when the session entered a code or passkey within
+ * {@link STEP_UP_WINDOW_MS} — either a step-up or the sign-in itself.
+ */
+export async function hasRecentStepUp(
+  db: Database,
+  args: { sid: string; userId: string; now?: Date }
+): Promise<boolean> {
+  const row = await getSessionRow(db, args.sid, args.userId);
+  if (!row) return false;
+  const latest = Math.max(row.verifiedAt?.getTime() ?? 0, row.stepUpAt?.getTime() ?? 0);
+  return latest > 0 && (args.now ?? new Date()).getTime() - latest <= STEP_UP_WINDOW_MS;
+}
+
+export interface LoginHistoryEntry {
+  id: string;
+  method: string;
+  secondFactor: SecondFactor | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  /** Null when no second factor was entered — not enrolled, or abandoned at the prompt. */
+  verifiedAt: Date | null;
+}
+
+export async function listLoginHistory(
+  db: Database,
+  userId: string,
+  limit = LOGIN_HISTORY_LIMIT
+): Promise<LoginHistoryEntry[]> {
+  return db
+    .select({
+      id: loginEvents.id,
+      method: loginEvents.method,
+      secondFactor: loginEvents.secondFactor,
+      ip: loginEvents.ip,
+      userAgent: loginEvents.userAgent,
+      createdAt: loginEvents.createdAt,
+      verifiedAt: loginEvents.verifiedAt,
+    })
+    .from(loginEvents)
+    .where(eq(loginEvents.userId, userId))
+    .orderBy(desc(loginEvents.createdAt))
+    .limit(limit);
+}
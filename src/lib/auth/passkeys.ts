@@ -0,0 +1,285 @@
+/**
+ * Stored passkeys and their challenges (drizzle/0241). The cryptography is in
+ * src/lib/auth/webauthn.ts; this module owns the rows.
+ *
+ * Challenges are single-use: {@link consumeChallenge} deletes the row before
+ * returning it, so a captured response can't be posted twice. Three purposes:
+ *
+ *   register — adding a passkey from /dashboard/settings (signed in).
+ *   login    — "Sign in with a passkey" (no user yet; the passkey names one).
+ *   verify   — a passkey as the second factor or for step-up (user known).
+ */
+import { and, asc, eq, lt } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { authChallenges, userPasskeys, type UserPasskey } from "@/lib/db/schema";
+import {
+  base64UrlEncode,
+  generateChallenge,
+  verifyAuthentication,
+  verifyRegistration,
+  type PasskeyAssertionPayload,
+  type PasskeyCreationOptions,
+  type PasskeyRegistrationPayload,
+  type PasskeyRequestOptions,
+} from "./webauthn";
+
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_PASSKEYS_PER_USER = 10;
+const RP_NAME = "Meet Me at the Fair";
+
+type ChallengePurpose = (typeof authChallenges.$inferInsert)["purpose"];
+
+async function issueChallenge(
+  db: Database,
+  args: { userId: string | null; purpose: ChallengePurpose; now: Date }
+): Promise<{ challengeId: string; challenge: string }> {
+  // Expired rows are swept on every issue; there is no cron for them.
+  await db.delete(authChallenges).where(lt(authChallenges.expiresAt, args.now));
+  const challengeId = crypto.randomUUID();
+  const challenge = generateChallenge();
+  await db.insert(authChallenges).values({
+    id: challengeId,
+    userId: args.userId,
+    purpose: args.purpose,
+    challenge,
+    expiresAt: new Date(args.now.getTime() + CHALLENGE_TTL_MS),
+    createdAt: args.now,
+  });
+  return { challengeId, challenge };
+}
+
+/**
+ * Take a challenge out of the table. Null when it doesn't exist, has expired,
+ * was issued for another purpose or (when `userId` is given) another user.
+ */
+export async function consumeChallenge(
+  db: Database,
+  args: { challengeId: string; purpose: ChallengePurpose; userId: string | null; now?: Date }
+): Promise<string | null> {
+  const [row] = await db
+    .select()
+    .from(authChallenges)
+    .where(eq(authChallenges.id, args.challengeId))
+    .limit(1);
+  if (!row) return null;
+  await db.delete(authChallenges).where(eq(authChallenges.id, row.id));
+  if (row.purpose !== args.purpose) return null;
+  if (row.userId !== args.userId) return null;
+  if (row.expiresAt.getTime() < (args.now ?? new Date()).getTime()) return null;
+  return row.challenge;
+}
+
+export interface PasskeySummary {
+  id: string;
+  name: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export async function listPasskeys(db: Database, userId: string): Promise<PasskeySummary[]> {
+  return db
+    .select({
+      id: userPasskeys.id,
+      name: userPasskeys.name,
+      createdAt: userPasskeys.createdAt,
+      lastUsedAt: userPasskeys.lastUsedAt,
+    })
+    .from(userPasskeys)
+    .where(eq(userPasskeys.userId, userId))
+    .orderBy(asc(userPasskeys.createdAt));
+}
+
+async function credentialIdsFor(db: Database, userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ credentialId: userPasskeys.credentialId })
+    .from(userPasskeys)
+    .where(eq(userPasskeys.userId, userId));
+  return rows.map((r) => r.credentialId);
+}
+
+export async function beginPasskeyRegistration(
+  db: Database,
+  args: { userId: string; email: string; name: string | null; rpId: string; now?: Date }
+): Promise<PasskeyCreationOptions> {
+  const { challengeId, challenge } = await issueChallenge(db, {
+    userId: args.userId,
+    purpose: "register",
+    now: args.now ?? new Date(),
+  });
+  return {
+    challengeId,
+    challenge,
+    rp: { id: args.rpId, name: RP_NAME },
+    user: {
+      // The WebAuthn user handle: opaque bytes, never shown. Our ids are UUIDs.
+      id: base64UrlEncode(new TextEncoder().encode(args.userId)),
+      name: args.email,
+      displayName: args.name || args.email,
+    },
+    excludeCredentialIds: await credentialIdsFor(db, args.userId),
+  };
+}
+
+export type AddPasskeyResult = { ok: true; passkey: PasskeySummary } | { ok: false; error: string };
+
+export async function finishPasskeyRegistration(
+  db: Database,
+  args: {
+    userId: string;
+    challengeId: string;
+    credential: PasskeyRegistrationPayload;
+    name: string;
+    origin: string;
+    rpId: string;
+    now?: Date;
+  }
+): Promise<AddPasskeyResult> {
+  const now = args.now ?? new Date();
+  const challenge = await consumeChallenge(db, {
+    challengeId: args.challengeId,
+    purpose: "register",
+    userId: args.userId,
+    now,
+  });
+  if (!challenge) return { ok: false, error: "The request expired. Try again." };
+
+  const existing = await credentialIdsFor(db, args.userId);
+  if (existing.length >= MAX_PASSKEYS_PER_USER) {
+    return { ok: false, error: `You can register up to ${MAX_PASSKEYS_PER_USER} passkeys.` };
+  }
+
+  const verified = await verifyRegistration({
+    credential: args.credential,
+    expectedChallenge: challenge,
+    origin: args.origin,
+    rpId: args.rpId,
+  });
+  if (!verified.ok) return { ok: false, error: "The passkey couldn't be verified." };
+
+  const [taken] = await db
+    .select({ id: userPasskeys.id })
+    .from(userPasskeys)
+    .where(eq(userPasskeys.credentialId, verified.credentialId))
+    .limit(1);
+  if (taken) return { ok: false, error: "That passkey is already registered." };
+
+  const id = crypto.randomUUID();
+  const name = args.name.trim().slice(0, 60) || "Passkey";
+  await db.insert(userPasskeys).values({
+    id,
+    userId: args.userId,
+    credentialId: verified.credentialId,
+    publicKey: verified.publicKey,
+    algorithm: verified.algorithm,
+    signCount: verified.signCount,
+    transports: args.credential.transports?.length
+      ? JSON.stringify(args.credential.transports.slice(0, 8))
+      : null,
+    name,
+    createdAt: now,
+  });
+  return { ok: true, passkey: { id, name, createdAt: now, lastUsedAt: null } };
+}
+
+export async function renamePasskey(
+  db: Database,
+  args: { userId: string; passkeyId: string; name: string }
+): Promise<boolean> {
+  const name = args.name.trim().slice(0, 60);
+  if (!name) return false;
+  const updated = await db
+    .update(userPasskeys)
+    .set({ name })
+    .where(and(eq(userPasskeys.id, args.passkeyId), eq(userPasskeys.userId, args.userId)))
+    .returning({ id: userPasskeys.id });
+  return updated.length > 0;
+}
+
+export async function removePasskey(
+  db: Database,
+  args: { userId: string; passkeyId: string }
+): Promise<boolean> {
+  const deleted = await db
+    .delete(userPasskeys)
+    .where(and(eq(userPasskeys.id, args.passkeyId), eq(userPasskeys.userId, args.userId)))
+    .returning({ id: userPasskeys.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Options for a passkey assertion. With a `userId` ("verify") the allow-list
+ * is that user's passkeys; without one ("login") it's empty, so the browser
+ * offers whatever discoverable passkey the person has for this site.
+ */
+export async function beginPasskeyAssertion(
+  db: Database,
+  args: { userId: string | null; rpId: string; now?: Date }
+): Promise<PasskeyRequestOptions> {
+  const purpose = args.userId ? "verify" : "login";
+  const { challengeId, challenge } = await issueChallenge(db, {
+    userId: args.userId,
+    purpose,
+    now: args.now ?? new Date(),
+  });
+  return {
+    challengeId,
+    challenge,
+    rpId: args.rpId,
+    allowCredentialIds: args.userId ? await credentialIdsFor(db, args.userId) : [],
+    // A passkey that replaces the password must prove who's holding it.
+    userVerification: args.userId ? "preferred" : "required",
+  };
+}
+
+/**
+ * Check an assertion against its challenge and the stored passkey, and bump
+ * the counter. Returns the passkey's owner, or null. With `userId` set, a
+ * passkey belonging to anyone else is refused.
+ */
+export async function finishPasskeyAssertion(
+  db: Database,
+  args: {
+    userId: string | null;
+    challengeId: string;
+    credential: PasskeyAssertionPayload;
+    origin: string;
+    rpId: string;
+    now?: Date;
+  }
+): Promise<{ userId: string; passkeyId: string } | null> {
+  const now = args.now ?? new Date();
+  const purpose = args.userId ? "verify" : "login";
+  const challenge = await consumeChallenge(db, {
+    challengeId: args.challengeId,
+    purpose,
+    userId: args.userId,
+    now,
+  });
+  if (!challenge) return null;
+
+  const [passkey]: UserPasskey[] = await db
+    .select()
+    .from(userPasskeys)
+    .where(eq(userPasskeys.credentialId, args.credential.id))
+    .limit(1);
+  if (!passkey) return null;
+  if (args.userId && passkey.userId !== args.userId) return null;
+
+  const verified = await verifyAuthentication({
+    credential: args.credential,
+    expectedChallenge: challenge,
+    origin: args.origin,
+    rpId: args.rpId,
+    publicKey: passkey.publicKey,
+    algorithm: passkey.algorithm,
+    storedSignCount: passkey.signCount,
+    requireUserVerification: purpose === "login",
+  });
+  if (!verified.ok) return null;
+
+  await db
+    .update(userPasskeys)
+    .set({ signCount: verified.signCount, lastUsedAt: now })
+    .where(eq(userPasskeys.id, passkey.id));
+  return { userId: passkey.userId, passkeyId: passkey.id };
+}
@@ -0,0 +1,217 @@
+/**
+ * Authenticator-app codes (RFC 6238 TOTP) and recovery codes, on WebCrypto
+ * so they run on the Workers runtime with no dependency.
+ *
+ * Everything here is pure: secrets, codes and the AUTH_SECRET-derived sealing
+ * key are passed in. The database side (enrollment, replay protection,
+ * spending recovery codes) is src/lib/auth/two-factor.ts.
+ *
+ * Parameters are the ones every authenticator app defaults to — SHA-1, six
+ * digits, 30-second steps — because apps that accept others in the otpauth
+ * URL still silently ignore them (Google Authenticator does).
+ */
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+/** Accept the previous and next step too, for clock drift and slow typists. */
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+/** Lenient about case, spaces and padding, as typed-in secrets often carry them. */
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  const out: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx === -1) throw new Error(`Invalid base32 character "${ch}"`);
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+}
+
+/** A fresh 160-bit secret, base32 as authenticator apps expect it. */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+export function totpStep(now: Date): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/** The code for one time step (RFC 4226 HOTP over the step counter). */
+export async function totpCode(secret: string, step: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(secret) as BufferSource,
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  const counter = new Uint8Array(8);
+  const view = new DataView(counter.buffer);
+  view.setUint32(0, Math.floor(step / 2 ** 32));
+  view.setUint32(4, step >>> 0);
+  const mac = new Uint8Array(await crypto.subtle.sign("HMAC", key, counter as BufferSource));
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary =
+    ((mac[offset] & 0x7f) << 24) |
+    (mac[offset + 1] << 16) |
+    (mac[offset + 2] << 8) |
+    mac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Check a code against the steps around `now`. Returns the matching step, or
+ * null. Steps at or before `lastStep` never match, so a code that already
+ * signed someone in can't be replayed within its window.
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  opts: { now: Date; lastStep?: number | null }
+): Promise<number | null> {
+  const digits = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(digits)) return null;
+  const current = totpStep(opts.now);
+  for (let delta = -TOTP_WINDOW; delta <= TOTP_WINDOW; delta++) {
+    const step = current + delta;
+    if (opts.lastStep != null && step <= opts.lastStep) continue;
+    if ((await totpCode(secret, step)) === digits) return step;
+  }
+  return null;
+}
+
+/** The otpauth:// URL an authenticator app reads from the enrollment QR code. */
+export function totpUri(args: { secret: string; accountName: string; issuer: string }): string {
+  const label = encodeURIComponent(`${args.issuer}:${args.accountName}`);
+  const params = new URLSearchParams({
+    secret: args.secret,
+    issuer: args.issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ── Sealing the stored secret ───────────────────────────────────────
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(input: string): Uint8Array {
+  const b64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function sealingKey(authSecret: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(authSecret),
+    "HKDF",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode("takemetothefair/totp-secret/v1"),
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/** `v1.<iv>.<ciphertext>`, both base64url. */
+export async function sealTotpSecret(secret: string, authSecret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await sealingKey(authSecret),
+    new TextEncoder().encode(secret)
+  );
+  return `v1.${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+}
+
+/** Null when the value is malformed or was sealed under a different AUTH_SECRET. */
+export async function openTotpSecret(sealed: string, authSecret: string): Promise<string | null> {
+  const [version, iv, ciphertext] = sealed.split(".");
+  if (version !== "v1" || !iv || !ciphertext) return null;
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64Url(iv) as BufferSource },
+      await sealingKey(authSecret),
+      fromBase64Url(ciphertext) as BufferSource
+    );
+    return new TextDecoder().decode(plain);
+  } catch {
+    return null;
+  }
+}
+
+// ── Recovery codes ──────────────────────────────────────────────────
+
+/**
+ * `xxxxx-xxxxx` from a lowercase alphabet without 0/1/l/o, so a code copied
+ * onto paper reads back unambiguously. 50 bits each.
+ */
+const RECOVERY_ALPHABET = "abcdefghijkmnpqrstuvwxyz23456789";
+
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(10));
+    const chars = Array.from(bytes, (b) => RECOVERY_ALPHABET[b & 31]).join("");
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+/** Case, spaces and the dash are forgiven. */
+export function normalizeRecoveryCode(input: string): string {
+  return input.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalizeRecoveryCode(code))
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,380 @@
+/**
+ * Second factors for a user (drizzle/0241): the authenticator app, its
+ * recovery codes, and the status the settings page and the sign-in flow read.
+ *
+ * A user is "enrolled" once they have a confirmed TOTP secret or at least one
+ * passkey. From then on every sign-in needs one of those (or a recovery code)
+ * on top of the first factor — except a passkey sign-in, which is both.
+ *
+ * Admins MUST be enrolled: src/lib/auth.ts withholds the ADMIN role from an
+ * unenrolled session, and {@link removalLeavesAdminUnprotected} stops an admin
+ * removing their last factor from under themselves.
+ *
+ * Wrong codes are counted per account (drizzle/0245), not just rate-limited
+ * per IP: every {@link CODE_ATTEMPTS_PER_LOCK}th locks code entry and emails
+ * the owner, since whoever is guessing already has the password.
+ */
+import { and, count, eq, isNull, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { userPasskeys, userRecoveryCodes, userRoles, userTotp, users } from "@/lib/db/schema";
+import { getSiteUrl } from "@/lib/email/send";
+import { twoFactorLockedTemplate } from "@/lib/email/templates";
+import { logError } from "@/lib/logger";
+import { enqueueEmail } from "@/lib/queues/producers";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  normalizeRecoveryCode,
+  openTotpSecret,
+  sealTotpSecret,
+  totpUri,
+  verifyTotp,
+} from "./totp";
+import type { SecondFactor } from "./login-events";
+import { finishPasskeyAssertion } from "./passkeys";
+import type { PasskeyAssertionPayload } from "./webauthn";
+
+const TOTP_ISSUER = "Meet Me at the Fair";
+
+/** Wrong codes (app or recovery) allowed between lockouts. */
+export const CODE_ATTEMPTS_PER_LOCK = 10;
+/** The first lockout; each further one doubles, up to {@link MAX_CODE_LOCK_MS}. */
+const FIRST_CODE_LOCK_MS = 15 * 60 * 1000;
+const MAX_CODE_LOCK_MS = 24 * 60 * 60 * 1000;
+
+export interface TwoFactorStatus {
+  totpEnabled: boolean;
+  recoveryCodesRemaining: number;
+  passkeyCount: number;
+  enrolled: boolean;
+}
+
+export async function getTwoFactorStatus(db: Database, userId: string): Promise<TwoFactorStatus> {
+  const [[totp], [codes], [passkeys]] = await Promise.all([
+    db
+      .select({ enabledAt: userTotp.enabledAt })
+      .from(userTotp)
+      .where(eq(userTotp.userId, userId))
+      .limit(1),
+    db
+      .select({ n: count() })
+      .from(userRecoveryCodes)
+      .where(and(eq(userRecoveryCodes.userId, userId), isNull(userRecoveryCodes.usedAt))),
+    db.select({ n: count() }).from(userPasskeys).where(eq(userPasskeys.userId, userId)),
+  ]);
+  const totpEnabled = !!totp?.enabledAt;
+  const passkeyCount = passkeys?.n ?? 0;
+  return {
+    totpEnabled,
+    recoveryCodesRemaining: totpEnabled ? (codes?.n ?? 0) : 0,
+    passkeyCount,
+    enrolled: totpEnabled || passkeyCount > 0,
+  };
+}
+
+/**
+ * Start (or restart) authenticator-app enrollment: a fresh secret, stored
+ * sealed and not yet enabled. Null when the app is already enabled — turning
+ * it off first is deliberate, so a hijacked session can't silently swap in
+ * its own authenticator.
+ */
+export async function beginTotpEnrollment(
+  db: Database,
+  args: { userId: string; email: string; authSecret: string; now?: Date }
+): Promise<{ secret: string; otpauthUrl: string } | null> {
+  const [existing] = await db
+    .select({ enabledAt: userTotp.enabledAt })
+    .from(userTotp)
+    .where(eq(userTotp.userId, args.userId))
+    .limit(1);
+  if (existing?.enabledAt) return null;
+
+  const secret = generateTotpSecret();
+  const sealed = await sealTotpSecret(secret, args.authSecret);
+  const now = args.now ?? new Date();
+  await db
+    .insert(userTotp)
+    .values({ userId: args.userId, secret: sealed, createdAt: now })
+    .onConflictDoUpdate({
+      target: userTotp.userId,
+      set: {
+        secret: sealed,
+        enabledAt: null,
+        lastStep: null,
+        failedCodeAttempts: 0,
+        codeLockedUntil: null,
+        createdAt: now,
+      },
+    });
+  return {
+    secret,
+    otpauthUrl: totpUri({ secret, accountName: args.email, issuer: TOTP_ISSUER }),
+  };
+}
+
+async function loadTotp(db: Database, userId: string, authSecret: string) {
+  const [row] = await db.select().from(userTotp).where(eq(userTotp.userId, userId)).limit(1);
+  if (!row) return null;
+  const secret = await openTotpSecret(row.secret, authSecret);
+  return secret ? { ...row, secret } : null;
+}
+
+/**
+ * Accept the first code from the app, enable it, and issue recovery codes.
+ * The codes are returned exactly once; only their hashes are kept.
+ */
+export async function confirmTotpEnrollment(
+  db: Database,
+  args: { userId: string; code: string; authSecret: string; now?: Date }
+): Promise<{ ok: true; recoveryCodes: string[] } | { ok: false }> {
+  const now = args.now ?? new Date();
+  const totp = await loadTotp(db, args.userId, args.authSecret);
+  if (!totp || totp.enabledAt) return { ok: false };
+  const step = await verifyTotp(totp.secret, args.code, { now });
+  if (step === null) return { ok: false };
+
+  await db
+    .update(userTotp)
+    .set({ enabledAt: now, lastStep: step })
+    .where(eq(userTotp.userId, args.userId));
+  return { ok: true, recoveryCodes: await replaceRecoveryCodes(db, args.userId, now) };
+}
+
+/** Throw away any unused codes and issue a fresh set. */
+export async function replaceRecoveryCodes(
+  db: Database,
+  userId: string,
+  now = new Date()
+): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  const hashes = await Promise.all(codes.map(hashRecoveryCode));
+  await db.delete(userRecoveryCodes).where(eq(userRecoveryCodes.userId, userId));
+  await db
+    .insert(userRecoveryCodes)
+    .values(hashes.map((codeHash) => ({ userId, codeHash, createdAt: now })));
+  return codes;
+}
+
+/** Turn the authenticator app off; its recovery codes go with it. */
+export async function disableTotp(db: Database, userId: string): Promise<void> {
+  await db.delete(userRecoveryCodes).where(eq(userRecoveryCodes.userId, userId));
+  await db.delete(userTotp).where(eq(userTotp.userId, userId));
+}
+
+/**
+ * Check a typed code: six digits go to the authenticator app, anything else
+ * is tried as a recovery code. Returns which factor matched, or null.
+ *
+ * A matched TOTP step is recorded so the same code can't be used twice; a
+ * matched recovery code is spent. Both writes are conditional on the row
+ * still being as read, so two requests racing with one code can't both win.
+ *
+ * While code entry is locked every code is refused unchecked. A wrong code
+ * counts towards the next lockout; a right one clears the count.
+ */
+export async function verifyTotpOrRecoveryCode(
+  db: Database,
+  args: { userId: string; code: string; authSecret: string; now?: Date }
+): Promise<Extract<SecondFactor, "totp" | "recovery"> | null> {
+  const now = args.now ?? new Date();
+  const totp = await loadTotp(db, args.userId, args.authSecret);
+  if (!totp?.enabledAt) return null;
+  if (totp.codeLockedUntil && totp.codeLockedUntil > now) return null;
+
+  const matched = await matchCode(db, { ...args, totp, now });
+  if (matched) {
+    if (totp.failedCodeAttempts > 0 || totp.codeLockedUntil) {
+      await clearFailedCodes(db, args.userId);
+    }
+    return matched;
+  }
+  await recordFailedCode(db, args.userId, now);
+  return null;
+}
+
+async function matchCode(
+  db: Database,
+  args: {
+    userId: string;
+    code: string;
+    totp: { secret: string; lastStep: number | null };
+    now: Date;
+  }
+): Promise<Extract<SecondFactor, "totp" | "recovery"> | null> {
+  const { totp, now } = args;
+  const trimmed = args.code.replace(/\s/g, "");
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = await verifyTotp(totp.secret, trimmed, { now, lastStep: totp.lastStep });
+    if (step === null) return null;
+    const lastStepClause =
+      totp.lastStep === null ? isNull(userTotp.lastStep) : eq(userTotp.lastStep, totp.lastStep);
+    const updated = await db
+      .update(userTotp)
+      .set({ lastStep: step })
+      .where(and(eq(userTotp.userId, args.userId), lastStepClause))
+      .returning({ userId: userTotp.userId });
+    return updated.length > 0 ? "totp" : null;
+  }
+
+  if (normalizeRecoveryCode(trimmed).length !== 10) return null;
+  const codeHash = await hashRecoveryCode(trimmed);
+  const spent = await db
+    .update(userRecoveryCodes)
+    .set({ usedAt: now })
+    .where(
+      and(
+        eq(userRecoveryCodes.userId, args.userId),
+        eq(userRecoveryCodes.codeHash, codeHash),
+        isNull(userRecoveryCodes.usedAt)
+      )
+    )
+    .returning({ id: userRecoveryCodes.id });
+  return spent.length > 0 ? "recovery" : null;
+}
+
+/**
+ * When code entry on the account unlocks, or null if it isn't locked. The
+ * sign-in route reads this after a refused code to say why.
+ */
+export async function codeEntryLockedUntil(
+  db: Database,
+  userId: string,
+  now: Date = new Date()
+): Promise<Date | null> {
+  const [row] = await db
+    .select({ lockedUntil: userTotp.codeLockedUntil })
+    .from(userTotp)
+    .where(eq(userTotp.userId, userId))
+    .limit(1);
+  return row?.lockedUntil && row.lockedUntil > now ? row.lockedUntil : null;
+}
+
+async function clearFailedCodes(db: Database, userId: string): Promise<void> {
+  await db
+    .update(userTotp)
+    .set({ failedCodeAttempts: 0, codeLockedUntil: null })
+    .where(eq(userTotp.userId, userId));
+}
+
+/**
+ * Count one wrong code, atomically so parallel guesses can't share a slot.
+ * Every {@link CODE_ATTEMPTS_PER_LOCK}th locks code entry — for longer each
+ * time, since the count only resets on an accepted factor — and emails the
+ * owner.
+ */
+async function recordFailedCode(db: Database, userId: string, now: Date): Promise<void> {
+  const [row] = await db
+    .update(userTotp)
+    .set({ failedCodeAttempts: sql`${userTotp.failedCodeAttempts} + 1` })
+    .where(eq(userTotp.userId, userId))
+    .returning({ failed: userTotp.failedCodeAttempts });
+  if (!row || row.failed % CODE_ATTEMPTS_PER_LOCK !== 0) return;
+
+  const lockouts = row.failed / CODE_ATTEMPTS_PER_LOCK;
+  const lockedUntil = new Date(
+    now.getTime() + Math.min(FIRST_CODE_LOCK_MS * 2 ** (lockouts - 1), MAX_CODE_LOCK_MS)
+  );
+  await db
+    .update(userTotp)
+    .set({ codeLockedUntil: lockedUntil })
+    .where(eq(userTotp.userId, userId));
+  await sendCodeLockoutEmail(db, userId, lockedUntil);
+}
+
+async function sendCodeLockoutEmail(
+  db: Database,
+  userId: string,
+  lockedUntil: Date
+): Promise<void> {
+  const [user] = await db
+    .select({ email: users.email, name: users.name })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) return;
+  const tpl = twoFactorLockedTemplate({
+    name: user.name,
+    lockedUntil: `${lockedUntil.toLocaleString("en-US", {
+      timeZone: "America/New_York",
+      dateStyle: "medium",
+      timeStyle: "short",
+    })} Eastern`,
+    resetPasswordUrl: `${getSiteUrl()}/forgot-password`,
+  });
+  try {
+    await enqueueEmail({ to: user.email, ...tpl, source: "auth.two-factor-locked" });
+  } catch (error) {
+    await logError(db, {
+      level: "warn",
+      message: "two-factor: failed to enqueue lockout email",
+      error,
+      source: "auth-two-factor",
+      context: { userId },
+    });
+  }
+}
+
+/**
+ * True when removing one factor (the app, or one passkey) would leave an
+ * ADMIN with none. Checked against `user_roles`, not the session, since the
+ * session of an unenrolled admin has the role withheld.
+ */
+export async function removalLeavesAdminUnprotected(
+  db: Database,
+  args: { userId: string; removing: "totp" | "passkey" }
+): Promise<boolean> {
+  const [admin] = await db
+    .select({ role: userRoles.role })
+    .from(userRoles)
+    .where(and(eq(userRoles.userId, args.userId), eq(userRoles.role, "ADMIN")))
+    .limit(1);
+  if (!admin) return false;
+  const status = await getTwoFactorStatus(db, args.userId);
+  const remaining =
+    (status.totpEnabled && args.removing !== "totp" ? 1 : 0) +
+    status.passkeyCount -
+    (args.removing === "passkey" ? 1 : 0);
+  return remaining <= 0;
+}
+
+/** A typed code, or a passkey assertion (see secondFactorProofSchema). */
+export type SecondFactorProof =
+  | { code: string }
+  | { challengeId: string; credential: PasskeyAssertionPayload };
+
+/**
+ * Check any second factor the user holds. Used by /login/two-factor, step-up
+ * and the factor-management endpoints, which all accept either kind.
+ */
+export async function verifySecondFactor(
+  db: Database,
+  args: {
+    userId: string;
+    proof: SecondFactorProof;
+    authSecret: string;
+    origin: string;
+    rpId: string;
+    now?: Date;
+  }
+): Promise<SecondFactor | null> {
+  if ("code" in args.proof) {
+    return verifyTotpOrRecoveryCode(db, {
+      userId: args.userId,
+      code: args.proof.code,
+      authSecret: args.authSecret,
+      now: args.now,
+    });
+  }
+  const match = await finishPasskeyAssertion(db, {
+    userId: args.userId,
+    challengeId: args.proof.challengeId,
+    credential: args.proof.credential,
+    origin: args.origin,
+    rpId: args.rpId,
+    now: args.now,
+  });
+  if (!match) return null;
+  await clearFailedCodes(db, args.userId);
+  return "passkey";
+}
@@ -0,0 +1,110 @@
+/**
+ * Browser half of the passkey ceremonies: turns the JSON options from the
+ * server into `navigator.credentials` calls and the results back into the
+ * JSON payloads src/lib/auth/webauthn.ts verifies.
+ *
+ * Registration sends `getPublicKey()` / `getAuthenticatorData()` rather than
+ * the CBOR attestation object; browsers without those (pre-2022) can't enroll
+ * a passkey here and get the TOTP option instead.
+ */
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  SUPPORTED_ALGORITHMS,
+  type PasskeyAssertionPayload,
+  type PasskeyCreationOptions,
+  type PasskeyRegistrationPayload,
+  type PasskeyRequestOptions,
+} from "./webauthn";
+
+export function browserSupportsPasskeys(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof window.PublicKeyCredential === "function" &&
+    typeof navigator.credentials?.create === "function"
+  );
+}
+
+function encode(buffer: ArrayBuffer): string {
+  return base64UrlEncode(new Uint8Array(buffer));
+}
+
+function decode(value: string): BufferSource {
+  return base64UrlDecode(value) as BufferSource;
+}
+
+/** Resolves null when the user cancels or the authenticator refuses. */
+export async function createPasskey(
+  options: PasskeyCreationOptions
+): Promise<PasskeyRegistrationPayload | null> {
+  let credential: Credential | null;
+  try {
+    credential = await navigator.credentials.create({
+      publicKey: {
+        challenge: decode(options.challenge),
+        rp: options.rp,
+        user: { ...options.user, id: decode(options.user.id) },
+        pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: "public-key", alg })),
+        excludeCredentials: options.excludeCredentialIds.map((id) => ({
+          type: "public-key",
+          id: decode(id),
+        })),
+        authenticatorSelection: { residentKey: "required", userVerification: "preferred" },
+        attestation: "none",
+        timeout: 120_000,
+      },
+    });
+  } catch {
+    return null;
+  }
+  if (!(credential instanceof PublicKeyCredential)) return null;
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const publicKey = response.getPublicKey?.();
+  if (!publicKey) {
+    throw new Error("This browser can't register passkeys here. Try an authenticator app.");
+  }
+  return {
+    id: encode(credential.rawId),
+    transports: response.getTransports?.() ?? [],
+    response: {
+      clientDataJSON: encode(response.clientDataJSON),
+      authenticatorData: encode(response.getAuthenticatorData()),
+      publicKey: encode(publicKey),
+      publicKeyAlgorithm: response.getPublicKeyAlgorithm(),
+    },
+  };
+}
+
+/** Resolves null when the user cancels or no passkey matches. */
+export async function getPasskey(
+  options: PasskeyRequestOptions
+): Promise<PasskeyAssertionPayload | null> {
+  let credential: Credential | null;
+  try {
+    credential = await navigator.credentials.get({
+      publicKey: {
+        challenge: decode(options.challenge),
+        rpId: options.rpId,
+        allowCredentials: options.allowCredentialIds.map((id) => ({
+          type: "public-key",
+          id: decode(id),
+        })),
+        userVerification: options.userVerification,
+        timeout: 120_000,
+      },
+    });
+  } catch {
+    return null;
+  }
+  if (!(credential instanceof PublicKeyCredential)) return null;
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: encode(credential.rawId),
+    response: {
+      clientDataJSON: encode(response.clientDataJSON),
+      authenticatorData: encode(response.authenticatorData),
+      signature: encode(response.signature),
+      userHandle: response.userHandle ? encode(response.userHandle) : null,
+    },
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * Passkey (WebAuthn) verification on WebCrypto, without a CBOR parser.
+ *
+ * Registration leans on the browser instead: `AuthenticatorAttestationResponse`
+ * already exposes `getPublicKey()` (SPKI DER), `getPublicKeyAlgorithm()` and
+ * `getAuthenticatorData()`, so the client posts those and the attestation
+ * object is never decoded. We ask for `attestation: "none"` anyway — this site
+ * has no use for authenticator make/model provenance.
+ *
+ * What IS checked, per the spec's verification steps that matter without
+ * attestation: the clientData type, challenge and origin; the rpId hash and
+ * user-presence flag in the authenticator data; that the attested credential
+ * id matches the one the client reported; and, on sign-in, the signature over
+ * `authenticatorData ‖ SHA-256(clientDataJSON)` and the signature counter.
+ *
+ * Supports ES256 (-7) and RS256 (-257), the two algorithms every platform
+ * authenticator offers.
+ */
+
+export const COSE_ES256 = -7;
+export const COSE_RS256 = -257;
+export const SUPPORTED_ALGORITHMS = [COSE_ES256, COSE_RS256] as const;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_DATA = 0x40;
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(input: string): Uint8Array {
+  const b64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+/** 32 random bytes, base64url — the challenge as stored and as sent. */
+export function generateChallenge(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * The relying party for a request: the host it arrived on, so preview
+ * deployments and localhost work without configuration. A passkey is bound to
+ * the rpId it was created under, so one made on a preview host won't sign in
+ * on production — the intended WebAuthn behaviour.
+ */
+export function relyingPartyFor(requestUrl: string): { rpId: string; origin: string } {
+  const url = new URL(requestUrl);
+  return { rpId: url.hostname, origin: url.origin };
+}
+
+/**
+ * Options for `credentials.create()`, JSON-safe (binary fields base64url).
+ * `challengeId` names the auth_challenges row the response must be posted with.
+ */
+export interface PasskeyCreationOptions {
+  challengeId: string;
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  excludeCredentialIds: string[];
+}
+
+/** Options for `credentials.get()`. An empty allow-list asks for any discoverable passkey. */
+export interface PasskeyRequestOptions {
+  challengeId: string;
+  challenge: string;
+  rpId: string;
+  allowCredentialIds: string[];
+  userVerification: "required" | "preferred";
+}
+
+/** What the browser helper (webauthn-client.ts) posts after `credentials.create()`. */
+export interface PasskeyRegistrationPayload {
+  id: string;
+  transports?: string[];
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    publicKey: string;
+    publicKeyAlgorithm: number;
+  };
+}
+
+/** What the browser helper posts after `credentials.get()`. */
+export interface PasskeyAssertionPayload {
+  id: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export type WebAuthnResult<T> = ({ ok: true } & T) | { ok: false; reason: string };
+
+interface ParsedAuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: number;
+  signCount: number;
+  credentialId: Uint8Array | null;
+}
+
+function parseAuthenticatorData(data: Uint8Array): ParsedAuthenticatorData | null {
+  if (data.length < 37) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const flags = data[32];
+  let credentialId: Uint8Array | null = null;
+  if (flags & FLAG_ATTESTED_DATA) {
+    // aaguid (16) then a 2-byte length, then the credential id.
+    if (data.length < 55) return null;
+    const length = view.getUint16(53);
+    if (data.length < 55 + length) return null;
+    credentialId = data.slice(55, 55 + length);
+  }
+  return {
+    rpIdHash: data.slice(0, 32),
+    flags,
+    signCount: view.getUint32(33),
+    credentialId,
+  };
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data as BufferSource));
+}
+
+function checkClientData(
+  clientDataJSON: Uint8Array,
+  expected: { type: string; challenge: string; origin: string }
+): string | null {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(clientDataJSON));
+  } catch {
+    return "clientDataJSON is not JSON";
+  }
+  if (clientData.type !== expected.type) return "wrong ceremony type";
+  if (clientData.challenge !== expected.challenge) return "challenge mismatch";
+  if (clientData.origin !== expected.origin) return "origin mismatch";
+  return null;
+}
+
+async function checkAuthenticatorData(
+  data: ParsedAuthenticatorData,
+  rpId: string,
+  requireUserVerification: boolean
+): Promise<string | null> {
+  if (!bytesEqual(data.rpIdHash, await sha256(new TextEncoder().encode(rpId)))) {
+    return "rpId mismatch";
+  }
+  if (!(data.flags & FLAG_USER_PRESENT)) return "user not present";
+  if (requireUserVerification && !(data.flags & FLAG_USER_VERIFIED)) {
+    return "user not verified";
+  }
+  return null;
+}
+
+function importParams(algorithm: number): RsaHashedImportParams | EcKeyImportParams | null {
+  if (algorithm === COSE_ES256) return { name: "ECDSA", namedCurve: "P-256" };
+  if (algorithm === COSE_RS256) return { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" };
+  return null;
+}
+
+async function importPublicKey(spki: Uint8Array, algorithm: number): Promise<CryptoKey | null> {
+  const params = importParams(algorithm);
+  if (!params) return null;
+  try {
+    return await crypto.subtle.importKey("spki", spki as BufferSource, params, false, ["verify"]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ECDSA signatures arrive DER-encoded (SEQUENCE of two INTEGERs); WebCrypto
+ * wants the fixed-width r‖s form.
+ */
+export function derToRawEcdsa(der: Uint8Array): Uint8Array | null {
+  if (der[0] !== 0x30) return null;
+  let offset = 2;
+  if (der[1] & 0x80) offset = 2 + (der[1] & 0x7f);
+  const out = new Uint8Array(64);
+  for (let part = 0; part < 2; part++) {
+    if (der[offset] !== 0x02) return null;
+    const length = der[offset + 1];
+    let int = der.slice(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+    while (int.length > 32 && int[0] === 0) int = int.slice(1);
+    if (int.length > 32) return null;
+    out.set(int, part * 32 + (32 - int.length));
+  }
+  return out;
+}
+
+/**
+ * Verify a `credentials.create()` response. On success returns what to store:
+ * the credential id, SPKI public key (both base64url), algorithm and counter.
+ */
+export async function verifyRegistration(args: {
+  credential: PasskeyRegistrationPayload;
+  expectedChallenge: string;
+  origin: string;
+  rpId: string;
+}): Promise<
+  WebAuthnResult<{ credentialId: string; publicKey: string; algorithm: number; signCount: number }>
+> {
+  const { credential } = args;
+  try {
+    const clientError = checkClientData(base64UrlDecode(credential.response.clientDataJSON), {
+      type: "webauthn.create",
+      challenge: args.expectedChallenge,
+      origin: args.origin,
+    });
+    if (clientError) return { ok: false, reason: clientError };
+
+    const authData = parseAuthenticatorData(base64UrlDecode(credential.response.authenticatorData));
+    if (!authData) return { ok: false, reason: "malformed authenticatorData" };
+    const authError = await checkAuthenticatorData(authData, args.rpId, false);
+    if (authError) return { ok: false, reason: authError };
+    if (
+      !authData.credentialId ||
+      !bytesEqual(authData.credentialId, base64UrlDecode(credential.id))
+    ) {
+      return { ok: false, reason: "credential id mismatch" };
+    }
+
+    const algorithm = credential.response.publicKeyAlgorithm;
+    const spki = base64UrlDecode(credential.response.publicKey);
+    if (!(await importPublicKey(spki, algorithm))) {
+      return { ok: false, reason: "unsupported or invalid public key" };
+    }
+    return {
+      ok: true,
+      credentialId: base64UrlEncode(authData.credentialId),
+      publicKey: base64UrlEncode(spki),
+      algorithm,
+      signCount: authData.signCount,
+    };
+  } catch {
+    return { ok: false, reason: "malformed credential" };
+  }
+}
+
+/**
+ * Verify a `credentials.get()` response against a stored passkey. Returns the
+ * new counter to store. `requireUserVerification` is set when the passkey is
+ * the whole sign-in (it must stand in for the password too); as a second
+ * factor after a password, presence is enough.
+ *
+ * Counter rule: an authenticator that keeps a counter must report a larger
+ * one each time; a smaller-or-equal value means the key was cloned. Synced
+ * passkeys report 0 throughout, which is allowed.
+ */
+export async function verifyAuthentication(args: {
+  credential: PasskeyAssertionPayload;
+  expectedChallenge: string;
+  origin: string;
+  rpId: string;
+  publicKey: string;
+  algorithm: number;
+  storedSignCount: number;
+  requireUserVerification: boolean;
+}): Promise<WebAuthnResult<{ signCount: number }>> {
+  const { credential } = args;
+  try {
+    const clientDataJSON = base64UrlDecode(credential.response.clientDataJSON);
+    const clientError = checkClientData(clientDataJSON, {
+      type: "webauthn.get",
+      challenge: args.expectedChallenge,
+      origin: args.origin,
+    });
+    if (clientError) return { ok: false, reason: clientError };
+
+    const rawAuthData = base64UrlDecode(credential.response.authenticatorData);
+    const authData = parseAuthenticatorData(rawAuthData);
+    if (!authData) return { ok: false, reason: "malformed authenticatorData" };
+    const authError = await checkAuthenticatorData(
+      authData,
+      args.rpId,
+      args.requireUserVerification
+    );
+    if (authError) return { ok: false, reason: authError };
+
+    const key = await importPublicKey(base64UrlDecode(args.publicKey), args.algorithm);
+    if (!key) return { ok: false, reason: "stored public key unusable" };
+
+    let signature = base64UrlDecode(credential.response.signature);
+    if (args.algorithm === COSE_ES256) {
+      const raw = derToRawEcdsa(signature);
+      if (!raw) return { ok: false, reason: "malformed signature" };
+      signature = raw;
+    }
+    const clientDataHash = await sha256(clientDataJSON);
+    const signed = new Uint8Array(rawAuthData.length + clientDataHash.length);
+    signed.set(rawAuthData);
+    signed.set(clientDataHash, rawAuthData.length);
+
+    const params =
+      args.algorithm === COSE_ES256
+        ? { name: "ECDSA", hash: "SHA-256" }
+        : { name: "RSASSA-PKCS1-v1_5" };
+    const valid = await crypto.subtle.verify(
+      params,
+      key,
+      signature as BufferSource,
+      signed as BufferSource
+    );
+    if (!valid) return { ok: false, reason: "bad signature" };
+
+    if (
+      (authData.signCount !== 0 || args.storedSignCount !== 0) &&
+      authData.signCount <= args.storedSignCount
+    ) {
+      return { ok: false, reason: "signature counter went backwards" };
+    }
+    return { ok: true, signCount: authData.signCount };
+  } catch {
+    return { ok: false, reason: "malformed credential" };
+  }
+}
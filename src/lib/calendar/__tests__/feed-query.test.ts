@@ -0,0 +1,178 @@
+/**
+ * Feed visibility + SEQUENCE reconciliation against an in-memory SQLite.
+ * The schema below carries only the columns the feed query touches.
+ */
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+
+import { loadFeedEvents, reconcileFeedSequences } from "../feed-query";
+
+const SCHEMA_SQL = `
+  CREATE TABLE venues (
+    id TEXT PRIMARY KEY, name TEXT, address TEXT, city TEXT, state TEXT, timezone TEXT,
+    latitude REAL, longitude REAL
+  );
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, slug TEXT, name TEXT, description TEXT,
+    status TEXT NOT NULL, lifecycle_status TEXT NOT NULL DEFAULT 'SCHEDULED',
+    start_date INTEGER, end_date INTEGER, updated_at INTEGER, categories TEXT,
+    recurrence_rule TEXT, recurrence_exdates TEXT,
+    venue_id TEXT, promoter_id TEXT, series_id TEXT, state_code TEXT,
+    featured INTEGER DEFAULT 0
+  );
+  CREATE TABLE event_days (
+    id TEXT PRIMARY KEY, event_id TEXT NOT NULL, date TEXT NOT NULL,
+    open_time TEXT, close_time TEXT, notes TEXT, closed INTEGER DEFAULT 0, vendor_only INTEGER DEFAULT 0
+  );
+  CREATE TABLE user_favorites (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, favoritable_type TEXT NOT NULL,
+    favoritable_id TEXT NOT NULL, created_at INTEGER
+  );
+  CREATE TABLE calendar_feed_sequences (
+    event_id TEXT PRIMARY KEY, sequence INTEGER NOT NULL DEFAULT 0,
+    fingerprint TEXT NOT NULL, updated_at INTEGER NOT NULL
+  );
+`;
+
+const sqlite = new Database(":memory:");
+// Bracket-access: see newsletter-confirm-token.test.ts.
+sqlite["exec"](SCHEMA_SQL);
+const db = drizzle(sqlite) as unknown as Parameters<typeof loadFeedEvents>[0];
+
+const NOW = new Date(Date.UTC(2026, 6, 1, 12));
+const sec = (y: number, m: number, d: number) => Date.UTC(y, m - 1, d, 12) / 1000;
+
+function seedEvent(
+  id: string,
+  opts: {
+    status?: string;
+    lifecycle?: string;
+    start?: number;
+    end?: number;
+    venueId?: string;
+    promoterId?: string;
+    stateCode?: string;
+  } = {}
+) {
+  sqlite
+    .prepare(
+      `INSERT INTO events (id, slug, name, status, lifecycle_status, start_date, end_date, venue_id, promoter_id, state_code)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      id,
+      `Event ${id}`,
+      opts.status ?? "APPROVED",
+      opts.lifecycle ?? "SCHEDULED",
+      opts.start ?? sec(2026, 8, 1),
+      opts.end ?? sec(2026, 8, 2),
+      opts.venueId ?? "v1",
+      opts.promoterId ?? "p1",
+      opts.stateCode ?? "MA"
+    );
+}
+
+beforeEach(() => {
+  sqlite["exec"](`
+    DELETE FROM venues; DELETE FROM events; DELETE FROM event_days;
+    DELETE FROM user_favorites; DELETE FROM calendar_feed_sequences;
+  `);
+  sqlite
+    .prepare(
+      `INSERT INTO venues (id, name, city, state, timezone, latitude, longitude) VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run("v1", "Fairgrounds", "Topsfield", "MA", "America/New_York", 42.64, -70.95);
+});
+
+afterAll(() => {
+  sqlite.close();
+});
+
+describe("loadFeedEvents", () => {
+  it("applies the public window and scope, with day schedules attached", async () => {
+    seedEvent("live");
+    seedEvent("other-state", { stateCode: "CT" });
+    seedEvent("long-past", { start: sec(2026, 3, 1), end: sec(2026, 3, 2) });
+    seedEvent("draft", { status: "DRAFT" });
+    sqlite
+      .prepare(
+        `INSERT INTO event_days (id, event_id, date, open_time, close_time) VALUES (?, ?, ?, ?, ?)`
+      )
+      .run("d1", "live", "2026-08-01", "10:00", "17:00");
+
+    const rows = await loadFeedEvents(db, { kind: "filter", params: { state: "MA" } }, NOW);
+    expect(rows.map((r) => r.id)).toEqual(["live"]);
+    expect(rows[0].venueName).toBe("Fairgrounds");
+    expect(rows[0].days).toEqual([
+      expect.objectContaining({ date: "2026-08-01", openTime: "10:00", closeTime: "17:00" }),
+    ]);
+  });
+
+  it("narrows a filter feed to a radius on the venue", async () => {
+    sqlite
+      .prepare(`INSERT INTO venues (id, name, latitude, longitude) VALUES (?, ?, ?, ?)`)
+      .run("v-far", "Far Fairgrounds", 41.77, -72.67);
+    seedEvent("close");
+    seedEvent("far", { venueId: "v-far" });
+
+    const rows = await loadFeedEvents(
+      db,
+      {
+        kind: "filter",
+        params: {},
+        near: { center: { latitude: 42.5, longitude: -71.0 }, radiusMiles: 25 },
+      },
+      NOW
+    );
+    expect(rows.map((r) => r.id)).toEqual(["close"]);
+  });
+
+  it("only carries cancelled events a feed has already published", async () => {
+    seedEvent("cancelled-seen", { lifecycle: "CANCELLED" });
+    seedEvent("cancelled-unseen", { status: "CANCELLED" });
+    sqlite
+      .prepare(
+        `INSERT INTO calendar_feed_sequences (event_id, sequence, fingerprint, updated_at) VALUES (?, 0, 'x', 0)`
+      )
+      .run("cancelled-seen");
+
+    const rows = await loadFeedEvents(db, { kind: "venue", venueId: "v1" }, NOW);
+    expect(rows.map((r) => r.id)).toEqual(["cancelled-seen"]);
+  });
+
+  it("resolves favorites across events, venues and promoters", async () => {
+    seedEvent("fav-event", { venueId: "vx", promoterId: "px" });
+    seedEvent("at-fav-venue", { venueId: "v1", promoterId: "px" });
+    seedEvent("by-fav-promoter", { venueId: "vx", promoterId: "p1" });
+    seedEvent("unrelated", { venueId: "vx", promoterId: "px" });
+    const fav = sqlite.prepare(
+      `INSERT INTO user_favorites (id, user_id, favoritable_type, favoritable_id) VALUES (?, 'u1', ?, ?)`
+    );
+    fav.run("f1", "EVENT", "fav-event");
+    fav.run("f2", "VENUE", "v1");
+    fav.run("f3", "PROMOTER", "p1");
+
+    const rows = await loadFeedEvents(db, { kind: "favorites", userId: "u1" }, NOW);
+    expect(rows.map((r) => r.id).sort()).toEqual(["at-fav-venue", "by-fav-promoter", "fav-event"]);
+  });
+});
+
+describe("reconcileFeedSequences", () => {
+  it("starts at 0, holds while unchanged, and bumps when dates move", async () => {
+    seedEvent("e1");
+    let [event] = await loadFeedEvents(db, { kind: "venue", venueId: "v1" }, NOW);
+
+    expect((await reconcileFeedSequences(db, [event], NOW)).get("e1")).toBe(0);
+    expect((await reconcileFeedSequences(db, [event], NOW)).get("e1")).toBe(0);
+
+    sqlite.prepare(`UPDATE events SET end_date = ? WHERE id = 'e1'`).run(sec(2026, 8, 3));
+    [event] = await loadFeedEvents(db, { kind: "venue", venueId: "v1" }, NOW);
+    expect((await reconcileFeedSequences(db, [event], NOW)).get("e1")).toBe(1);
+
+    sqlite.prepare(`UPDATE events SET lifecycle_status = 'CANCELLED' WHERE id = 'e1'`).run();
+    [event] = await loadFeedEvents(db, { kind: "venue", venueId: "v1" }, NOW);
+    expect((await reconcileFeedSequences(db, [event], NOW)).get("e1")).toBe(2);
+  });
+});
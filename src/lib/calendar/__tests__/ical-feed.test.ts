@@ -0,0 +1,255 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCalendarFeed,
+  buildEventVevents,
+  escapeIcsText,
+  feedFingerprint,
+  foldIcsLine,
+  googleSubscribeUrl,
+  toWebcalUrl,
+  type FeedEvent,
+} from "../ical-feed";
+
+const NOW = new Date(Date.UTC(2026, 6, 1, 12, 0, 0));
+
+function feedEvent(partial: Partial<FeedEvent> = {}): FeedEvent {
+  return {
+    id: "evt-1",
+    slug: "topsfield-fair",
+    name: "Topsfield Fair",
+    description: "Oldest agricultural fair in America",
+    status: "APPROVED",
+    lifecycleStatus: "SCHEDULED",
+    startDate: new Date(Date.UTC(2026, 9, 1, 12)),
+    endDate: new Date(Date.UTC(2026, 9, 3, 12)),
+    updatedAt: new Date(Date.UTC(2026, 5, 20)),
+    categories: '["Agricultural Fair"]',
+    venueName: "Topsfield Fairgrounds",
+    venueAddress: "207 Boston St",
+    venueCity: "Topsfield",
+    venueState: "MA",
+    venueTimezone: "America/New_York",
+    days: [],
+    ...partial,
+  };
+}
+
+const DAYS = [
+  { date: "2026-10-01", openTime: "10:00", closeTime: "22:00" },
+  { date: "2026-10-02", openTime: "10:00", closeTime: "22:00" },
+];
+
+describe("escapeIcsText / foldIcsLine", () => {
+  it("escapes backslash first, then separators and newlines", () => {
+    expect(escapeIcsText("a\\b; c, d\ne")).toBe("a\\\\b\\; c\\, d\\ne");
+  });
+
+  it("leaves short lines alone and folds long ones at 75 octets", () => {
+    expect(foldIcsLine("SUMMARY:short")).toBe("SUMMARY:short");
+    const folded = foldIcsLine(`DESCRIPTION:${"x".repeat(200)}`);
+    const physical = folded.split("\r\n");
+    expect(physical[0]).toHaveLength(75);
+    for (const line of physical.slice(1)) {
+      expect(line.startsWith(" ")).toBe(true);
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(physical.map((l, i) => (i === 0 ? l : l.slice(1))).join("")).toBe(
+      `DESCRIPTION:${"x".repeat(200)}`
+    );
+  });
+
+  it("never splits a multi-byte character", () => {
+    const folded = foldIcsLine(`SUMMARY:${"é".repeat(60)}`);
+    for (const line of folded.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain("�");
+    }
+  });
+});
+
+describe("buildEventVevents", () => {
+  it("emits one stable, ordinal-keyed VEVENT per public day", () => {
+    const blocks = buildEventVevents(
+      feedEvent({
+        days: [...DAYS, { date: "2026-09-30", openTime: null, closeTime: null, vendorOnly: true }],
+      }),
+      0,
+      NOW
+    );
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toContain("UID:evt-1-d1@meetmeatthefair.com");
+    expect(blocks[1]).toContain("UID:evt-1-d2@meetmeatthefair.com");
+    expect(blocks[0]).toContain("DTSTART;TZID=America/New_York:20261001T100000");
+    expect(blocks[0]).toContain("DTEND;TZID=America/New_York:20261001T220000");
+  });
+
+  it("keeps UIDs when day rows are re-created with new ids", () => {
+    const a = buildEventVevents(feedEvent({ days: DAYS }), 0, NOW);
+    const b = buildEventVevents(feedEvent({ days: [...DAYS].reverse() }), 0, NOW);
+    expect(a.map((l) => l[1])).toEqual(b.map((l) => l[1]));
+  });
+
+  it("uses an all-day span with exclusive DTEND when there are no days", () => {
+    const [lines] = buildEventVevents(feedEvent(), 3, NOW);
+    expect(lines).toContain("UID:evt-1@meetmeatthefair.com");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261001");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261004");
+    expect(lines).toContain("SEQUENCE:3");
+    expect(lines).toContain("STATUS:CONFIRMED");
+  });
+
+  it("falls back to all-day when a day's hours are unknown", () => {
+    const [lines] = buildEventVevents(
+      feedEvent({ days: [{ date: "2026-10-01", openTime: null, closeTime: null }] }),
+      0,
+      NOW
+    );
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261001");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261002");
+  });
+
+  it("uses UTC for a zone without a registered VTIMEZONE", () => {
+    const [lines] = buildEventVevents(
+      feedEvent({ venueTimezone: "America/Halifax", days: [DAYS[0]] }),
+      0,
+      NOW
+    );
+    expect(lines).toContain("DTSTART:20261001T130000Z");
+    expect(lines.some((l) => l.includes("TZID="))).toBe(false);
+  });
+
+  it("marks cancelled events and closed days STATUS:CANCELLED", () => {
+    const [cancelled] = buildEventVevents(feedEvent({ lifecycleStatus: "CANCELLED" }), 1, NOW);
+    expect(cancelled).toContain("STATUS:CANCELLED");
+    const days = buildEventVevents(
+      feedEvent({ days: [DAYS[0], { ...DAYS[1], closed: true }] }),
+      0,
+      NOW
+    );
+    expect(days[0]).toContain("STATUS:CONFIRMED");
+    expect(days[1]).toContain("STATUS:CANCELLED");
+  });
+
+  it("marks tentative events STATUS:TENTATIVE", () => {
+    const [lines] = buildEventVevents(feedEvent({ status: "TENTATIVE" }), 0, NOW);
+    expect(lines).toContain("STATUS:TENTATIVE");
+  });
+
+  it("skips undated events", () => {
+    expect(buildEventVevents(feedEvent({ startDate: null, endDate: null }), 0, NOW)).toEqual([]);
+  });
+
+  it("sends a day-less recurring event as one VEVENT with its RRULE and EXDATEs", () => {
+    // Season envelope May 9 – Oct 10: each occurrence is a single day.
+    const [lines] = buildEventVevents(
+      feedEvent({
+        startDate: new Date(Date.UTC(2026, 4, 9, 12)),
+        endDate: new Date(Date.UTC(2026, 9, 10, 12)),
+        recurrenceRule: "FREQ=MONTHLY;BYMONTH=5,6,7,8,9,10;BYDAY=2SA;UNTIL=20261010",
+        recurrenceExdates: '["2026-07-11","2026-08-08"]',
+      }),
+      0,
+      NOW
+    );
+    expect(lines).toContain("DTSTART;VALUE=DATE:20260509");
+    expect(lines).toContain("DTEND;VALUE=DATE:20260510");
+    expect(lines).toContain("RRULE:FREQ=MONTHLY;BYMONTH=5,6,7,8,9,10;BYDAY=2SA;UNTIL=20261010");
+    expect(lines).toContain("EXDATE;VALUE=DATE:20260711,20260808");
+  });
+
+  it("keeps a multi-day first occurrence as the repeating span", () => {
+    // Thanksgiving weekend: Thursday–Sunday, yearly.
+    const [lines] = buildEventVevents(
+      feedEvent({
+        startDate: new Date(Date.UTC(2026, 10, 26, 12)),
+        endDate: new Date(Date.UTC(2026, 10, 29, 12)),
+        recurrenceRule: "FREQ=YEARLY;BYMONTH=11;BYDAY=4TH",
+      }),
+      0,
+      NOW
+    );
+    expect(lines).toContain("DTEND;VALUE=DATE:20261130");
+    expect(lines).toContain("RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH");
+    expect(lines.some((l) => l.startsWith("EXDATE"))).toBe(false);
+  });
+
+  it("leaves the rule off when event_days already spell out the dates", () => {
+    const blocks = buildEventVevents(
+      feedEvent({ days: DAYS, recurrenceRule: "FREQ=WEEKLY;BYDAY=TH,FR" }),
+      0,
+      NOW
+    );
+    expect(blocks.flat().some((l) => l.startsWith("RRULE"))).toBe(false);
+  });
+});
+
+describe("feedFingerprint", () => {
+  it("changes when dates, hours or cancellation change — not on copy edits", () => {
+    const base = feedFingerprint(feedEvent({ days: DAYS }));
+    expect(feedFingerprint(feedEvent({ days: DAYS, name: "Renamed", description: "x" }))).toBe(
+      base
+    );
+    expect(feedFingerprint(feedEvent({ days: [...DAYS].reverse() }))).toBe(base);
+    expect(
+      feedFingerprint(feedEvent({ days: [DAYS[0], { ...DAYS[1], closeTime: "21:00" }] }))
+    ).not.toBe(base);
+    expect(feedFingerprint(feedEvent({ days: [DAYS[0]] }))).not.toBe(base);
+    expect(feedFingerprint(feedEvent({ days: DAYS, status: "CANCELLED" }))).not.toBe(base);
+  });
+
+  it("tracks the span for day-less events", () => {
+    const base = feedFingerprint(feedEvent());
+    expect(feedFingerprint(feedEvent({ endDate: new Date(Date.UTC(2026, 9, 4, 12)) }))).not.toBe(
+      base
+    );
+    const weekly = feedFingerprint(feedEvent({ recurrenceRule: "FREQ=WEEKLY" }));
+    expect(weekly).not.toBe(base);
+    expect(
+      feedFingerprint(
+        feedEvent({ recurrenceRule: "FREQ=WEEKLY", recurrenceExdates: '["2026-10-08"]' })
+      )
+    ).not.toBe(weekly);
+  });
+});
+
+describe("buildCalendarFeed", () => {
+  it("wraps VEVENTs in a subscribable VCALENDAR with one VTIMEZONE", () => {
+    const body = buildCalendarFeed({
+      name: "Topsfield, MA",
+      events: [feedEvent({ days: DAYS }), feedEvent({ id: "evt-2", days: DAYS })],
+      sequences: new Map([["evt-1", 2]]),
+      now: NOW,
+    });
+    const lines = body.split("\r\n");
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines.at(-1)).toBe("END:VCALENDAR");
+    expect(lines).toContain("METHOD:PUBLISH");
+    expect(lines).toContain("X-WR-CALNAME:Topsfield\\, MA");
+    expect(lines).toContain("REFRESH-INTERVAL;VALUE=DURATION:PT6H");
+    expect(lines.filter((l) => l === "BEGIN:VTIMEZONE")).toHaveLength(1);
+    expect(lines.filter((l) => l === "BEGIN:VEVENT")).toHaveLength(4);
+    expect(lines.filter((l) => l === "SEQUENCE:2")).toHaveLength(2);
+    expect(lines.filter((l) => l === "SEQUENCE:0")).toHaveLength(2);
+    expect(lines).toContain("DTSTAMP:20260701T120000Z");
+  });
+
+  it("omits VTIMEZONE when every event is all-day", () => {
+    const body = buildCalendarFeed({
+      name: "x",
+      events: [feedEvent()],
+      sequences: new Map(),
+      now: NOW,
+    });
+    expect(body).not.toContain("BEGIN:VTIMEZONE");
+  });
+});
+
+describe("subscribe URLs", () => {
+  it("swaps the scheme for webcal and wraps it for Google", () => {
+    const url = "https://meetmeatthefair.com/api/calendar/venues/big-e";
+    expect(toWebcalUrl(url)).toBe("webcal://meetmeatthefair.com/api/calendar/venues/big-e");
+    expect(googleSubscribeUrl(url)).toBe(
+      "https://calendar.google.com/calendar/r?cid=webcal%3A%2F%2Fmeetmeatthefair.com%2Fapi%2Fcalendar%2Fvenues%2Fbig-e"
+    );
+  });
+});
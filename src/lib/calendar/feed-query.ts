@@ -0,0 +1,258 @@
+/**
+ * Subscribable iCal feeds — the stateful half: which events a feed carries,
+ * and the SEQUENCE each one is published at.
+ *
+ * ── Visibility ─────────────────────────────────────────────────────────────
+ * A feed shows what the public site shows (`publicEventWhere`) PLUS one thing
+ * the site hides: a cancelled event that some feed has already published. The
+ * site can simply stop listing a cancelled fair; a subscribed calendar cannot
+ * be told "forget that" by omission, only by STATUS:CANCELLED. Gating that on
+ * a `calendar_feed_sequences` row means a fair cancelled before any feed ever
+ * carried it never leaks out at all.
+ *
+ * ── Window ─────────────────────────────────────────────────────────────────
+ * Events still running or ended within the last 30 days. The short tail keeps
+ * last weekend's fair on the subscriber's calendar (deleting history looks like
+ * a bug to them) without the feed growing forever. `includePast` and `when`
+ * are ignored on purpose — a subscription rolls forward by definition, and a
+ * "this weekend" feed frozen at the weekend it was created would be useless.
+ *
+ * ── SEQUENCE ───────────────────────────────────────────────────────────────
+ * `reconcileFeedSequences` compares each event's fingerprint (ical-feed.ts)
+ * with the one last published and bumps the counter on a difference. It runs
+ * at render time, so every write path that moves dates — admin, promoter, MCP,
+ * merge — is covered without any of them having to remember (see 0224).
+ */
+import { and, asc, eq, inArray, isNotNull, or, sql, type SQL } from "drizzle-orm";
+import {
+  calendarFeedSequences,
+  eventDays,
+  eventVendors,
+  events,
+  userFavorites,
+  venues,
+} from "@/lib/db/schema";
+import type { Database } from "@/lib/db";
+import { publicEventWhere } from "@/lib/event-lifecycle";
+import { isPubliclyVisibleVendorLink } from "@/lib/vendor-status";
+import { publicFilterConditions, type FilterableSearchParams } from "@/lib/events-filter-count";
+import { facetConditions, type ResolvedFacet } from "@/lib/events/facets";
+import { withinRadius, type NearSearch } from "@/lib/near-search";
+import { feedFingerprint, type FeedEvent } from "@/lib/calendar/ical-feed";
+
+/** Upper bound on events per feed. Comfortably above any real venue or
+ *  state listing; a runaway unfiltered feed is truncated, not unbounded. */
+export const FEED_EVENT_LIMIT = 500;
+
+const FEED_PAST_DAYS = 30;
+
+/** D1 caps a statement at 100 bound params; ids go 50 at a time. */
+const ID_BATCH_SIZE = 50;
+/** 4 columns per sequence row → 80 params per multi-row upsert. */
+const SEQUENCE_WRITE_BATCH = 20;
+
+export type FeedScope =
+  | {
+      kind: "filter";
+      params: FilterableSearchParams;
+      /** A `/events/{state}/{facet}` page; `params.state` must be its state code. */
+      facet?: { stateSlug: string; facet: ResolvedFacet };
+      /** A radius search, on the venue's coordinates. Callers join `venues`. */
+      near?: Pick<NearSearch, "center" | "radiusMiles">;
+    }
+  | { kind: "venue"; venueId: string }
+  | { kind: "promoter"; promoterId: string }
+  | { kind: "series"; seriesId: string }
+  /** Events a vendor is publicly listed at — the embeddable widget's vendor scope. */
+  | { kind: "vendor"; vendorId: string }
+  | { kind: "favorites"; userId: string };
+
+/**
+ * The WHERE fragments that narrow events to one feed's scope. Visibility and
+ * the date window are NOT included — the iCal and syndication feeds
+ * (src/lib/event-feeds) differ on both, and share only this.
+ */
+export function scopeConditions(scope: FeedScope, now: Date): SQL[] {
+  switch (scope.kind) {
+    case "filter":
+      return [
+        ...publicFilterConditions(scope.params),
+        ...(scope.facet ? facetConditions(scope.facet.stateSlug, scope.facet.facet, now) : []),
+        ...(scope.near ? [withinRadius(venues.latitude, venues.longitude, scope.near)] : []),
+      ];
+    case "venue":
+      return [eq(events.venueId, scope.venueId)];
+    case "promoter":
+      return [eq(events.promoterId, scope.promoterId)];
+    case "series":
+      return [eq(events.seriesId, scope.seriesId)];
+    case "vendor":
+      // Only links the vendor's own page would show: a pending application
+      // is not something to advertise on their website.
+      return [
+        inArray(
+          events.id,
+          sql`(select ${eventVendors.eventId} from ${eventVendors} where ${eventVendors.vendorId} = ${scope.vendorId} and ${isPubliclyVisibleVendorLink()})`
+        ),
+      ];
+    case "favorites": {
+      // Subqueries, not id lists: a heavy favoriter would otherwise blow the
+      // bind-param cap before the query even reached the window predicate.
+      return [
+        or(
+          inArray(events.id, favoriteIds(scope.userId, "EVENT")),
+          inArray(events.venueId, favoriteIds(scope.userId, "VENUE")),
+          inArray(events.promoterId, favoriteIds(scope.userId, "PROMOTER"))
+        )!,
+      ];
+    }
+  }
+}
+
+function favoriteIds(userId: string, type: "EVENT" | "VENUE" | "PROMOTER"): SQL {
+  return sql`(select ${userFavorites.favoritableId} from ${userFavorites} where ${userFavorites.userId} = ${userId} and ${userFavorites.favoritableType} = ${type})`;
+}
+
+/** Public, or cancelled-after-publication (see header). */
+function feedVisibility(): SQL {
+  return or(
+    publicEventWhere(),
+    and(
+      or(eq(events.status, "CANCELLED"), eq(events.lifecycleStatus, "CANCELLED")),
+      sql`exists (select 1 from ${calendarFeedSequences} where ${calendarFeedSequences.eventId} = ${events.id})`
+    )
+  )!;
+}
+
+/**
+ * Load the events a feed carries, with their public-facing day schedule.
+ *
+ * Narrow projection on purpose — the feed reads a dozen columns, and selecting
+ * `events` whole alongside the venue join is how the 100-column cap bit the
+ * listing pages (event-join-projection.ts).
+ */
+export async function loadFeedEvents(
+  db: Database,
+  scope: FeedScope,
+  now: Date = new Date()
+): Promise<FeedEvent[]> {
+  // Raw seconds: a Date bound into a bare sql`` fragment bypasses the column's
+  // timestamp mapping (same reason as upcomingEndPredicateRaw).
+  const sinceSec = Math.floor((now.getTime() - FEED_PAST_DAYS * 86_400_000) / 1000);
+  const rows = await db
+    .select({
+      id: events.id,
+      slug: events.slug,
+      name: events.name,
+      description: events.description,
+      status: events.status,
+      lifecycleStatus: events.lifecycleStatus,
+      startDate: events.startDate,
+      endDate: events.endDate,
+      updatedAt: events.updatedAt,
+      categories: events.categories,
+      recurrenceRule: events.recurrenceRule,
+      recurrenceExdates: events.recurrenceExdates,
+      venueName: venues.name,
+      venueAddress: venues.address,
+      venueCity: venues.city,
+      venueState: venues.state,
+      venueTimezone: venues.timezone,
+    })
+    .from(events)
+    .leftJoin(venues, eq(events.venueId, venues.id))
+    .where(
+      and(
+        feedVisibility(),
+        isNotNull(events.startDate),
+        sql`COALESCE(${events.endDate}, ${events.startDate}) >= ${sinceSec}`,
+        ...scopeConditions(scope, now)
+      )
+    )
+    .orderBy(asc(events.startDate))
+    .limit(FEED_EVENT_LIMIT);
+
+  if (rows.length === 0) return [];
+
+  const dayMap = new Map<string, FeedEvent["days"]>();
+  const ids = rows.map((r) => r.id);
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const dayRows = await db
+      .select({
+        eventId: eventDays.eventId,
+        date: eventDays.date,
+        openTime: eventDays.openTime,
+        closeTime: eventDays.closeTime,
+        notes: eventDays.notes,
+        closed: eventDays.closed,
+        vendorOnly: eventDays.vendorOnly,
+      })
+      .from(eventDays)
+      .where(inArray(eventDays.eventId, ids.slice(i, i + ID_BATCH_SIZE)));
+    for (const { eventId, ...day } of dayRows) {
+      const arr = dayMap.get(eventId) ?? [];
+      arr.push(day);
+      dayMap.set(eventId, arr);
+    }
+  }
+
+  return rows.map((r) => ({ ...r, days: dayMap.get(r.id) ?? [] }));
+}
+
+/**
+ * Bring `calendar_feed_sequences` up to date for these events and return the
+ * SEQUENCE to publish each at. New events start at 0; an event whose
+ * fingerprint moved is bumped by one. Unchanged events cost a read and no write,
+ * which is the steady state for every fetch after the first.
+ *
+ * Two concurrent renders can both observe the old fingerprint and both write
+ * n+1. That is harmless — they publish the same number — and cheaper than a
+ * compare-and-swap loop on every feed hit.
+ */
+export async function reconcileFeedSequences(
+  db: Database,
+  feedEvents: FeedEvent[],
+  now: Date = new Date()
+): Promise<Map<string, number>> {
+  const sequences = new Map<string, number>();
+  if (feedEvents.length === 0) return sequences;
+
+  const existing = new Map<string, { sequence: number; fingerprint: string }>();
+  const ids = feedEvents.map((e) => e.id);
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const rows = await db
+      .select()
+      .from(calendarFeedSequences)
+      .where(inArray(calendarFeedSequences.eventId, ids.slice(i, i + ID_BATCH_SIZE)));
+    for (const row of rows) existing.set(row.eventId, row);
+  }
+
+  const writes: (typeof calendarFeedSequences.$inferInsert)[] = [];
+  for (const event of feedEvents) {
+    const fingerprint = feedFingerprint(event);
+    const prior = existing.get(event.id);
+    if (prior && prior.fingerprint === fingerprint) {
+      sequences.set(event.id, prior.sequence);
+      continue;
+    }
+    const sequence = prior ? prior.sequence + 1 : 0;
+    sequences.set(event.id, sequence);
+    writes.push({ eventId: event.id, sequence, fingerprint, updatedAt: now });
+  }
+
+  for (let i = 0; i < writes.length; i += SEQUENCE_WRITE_BATCH) {
+    await db
+      .insert(calendarFeedSequences)
+      .values(writes.slice(i, i + SEQUENCE_WRITE_BATCH))
+      .onConflictDoUpdate({
+        target: calendarFeedSequences.eventId,
+        set: {
+          sequence: sql`excluded.sequence`,
+          fingerprint: sql`excluded.fingerprint`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      });
+  }
+
+  return sequences;
+}
@@ -0,0 +1,69 @@
+/**
+ * The one response path for every `/api/calendar/*` feed route, so the five
+ * of them cannot drift on headers, caching or error handling.
+ *
+ * No rate limit, deliberately: Google Calendar fetches every subscribed URL
+ * from a small pool of shared IPs, and an IP-keyed limiter would start
+ * refusing ALL Google subscribers at once. Public feeds lean on the edge cache
+ * instead (`s-maxage`), which turns a popular feed into one render per hour.
+ */
+import { NextResponse } from "next/server";
+import type { Database } from "@/lib/db";
+import { logError } from "@/lib/logger";
+import { buildCalendarFeed } from "@/lib/calendar/ical-feed";
+import { loadFeedEvents, reconcileFeedSequences, type FeedScope } from "@/lib/calendar/feed-query";
+
+const PUBLIC_CACHE_CONTROL = "public, max-age=3600, s-maxage=3600";
+// The favorites feed is per-user: never let a shared cache hold it.
+const PRIVATE_CACHE_CONTROL = "private, no-store";
+
+export function calendarNotFound(): NextResponse {
+  return new NextResponse("Calendar not found", {
+    status: 404,
+    headers: { "Content-Type": "text/plain; charset=utf-8" },
+  });
+}
+
+export async function calendarFeedResponse(
+  db: Database,
+  request: Request,
+  args: {
+    scope: FeedScope;
+    name: string;
+    description?: string;
+    /** Route identifier for error_logs, e.g. "api/calendar/venues". */
+    source: string;
+  }
+): Promise<NextResponse> {
+  try {
+    const now = new Date();
+    const feedEvents = await loadFeedEvents(db, args.scope, now);
+    const sequences = await reconcileFeedSequences(db, feedEvents, now);
+    const body = buildCalendarFeed({
+      name: args.name,
+      description: args.description,
+      events: feedEvents,
+      sequences,
+      now,
+    });
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="calendar.ics"',
+        "Cache-Control":
+          args.scope.kind === "favorites" ? PRIVATE_CACHE_CONTROL : PUBLIC_CACHE_CONTROL,
+        "X-Robots-Tag": "noindex",
+      },
+    });
+  } catch (error) {
+    await logError(db, {
+      message: "Error rendering calendar feed",
+      error,
+      source: args.source,
+      request,
+    });
+    // A 5xx makes subscribed clients keep their last good copy, which is
+    // exactly what we want while the feed is broken.
+    return new NextResponse("Failed to render calendar", { status: 500 });
+  }
+}
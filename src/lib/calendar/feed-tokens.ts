@@ -0,0 +1,79 @@
+/**
+ * Capability tokens for the private favorites calendar feed.
+ *
+ * Calendar clients fetch a subscribed URL with no cookies and no auth header,
+ * so the only credential the favorites feed can carry is the URL itself. One
+ * live token per user (0224's UNIQUE user_id):
+ *
+ *   - getOrCreateFeedToken: dashboard shows the subscribe URL; mints on first
+ *     visit, returns the same token on every later one.
+ *   - rotateFeedToken: "Reset link". Overwrites in place, so the old URL stops
+ *     working on the subscriber's next refresh — the whole revocation story.
+ *   - resolveFeedToken: the feed route. Token → userId, and stamps
+ *     last_fetched_at so the dashboard can say whether a calendar is attached.
+ */
+import { eq } from "drizzle-orm";
+import { calendarFeedTokens } from "@/lib/db/schema";
+import type { Database } from "@/lib/db";
+
+const TOKEN_BYTES = 32;
+
+/** Base64url without padding — URL-safe in a path segment. */
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function getOrCreateFeedToken(db: Database, userId: string): Promise<string> {
+  const [existing] = await db
+    .select({ token: calendarFeedTokens.token })
+    .from(calendarFeedTokens)
+    .where(eq(calendarFeedTokens.userId, userId))
+    .limit(1);
+  if (existing) return existing.token;
+
+  // ON CONFLICT DO NOTHING + re-read: two tabs opening the dashboard at once
+  // must converge on one token, not fail the second insert.
+  await db
+    .insert(calendarFeedTokens)
+    .values({ userId, token: generateFeedToken(), createdAt: new Date() })
+    .onConflictDoNothing({ target: calendarFeedTokens.userId });
+  const [row] = await db
+    .select({ token: calendarFeedTokens.token })
+    .from(calendarFeedTokens)
+    .where(eq(calendarFeedTokens.userId, userId))
+    .limit(1);
+  return row.token;
+}
+
+export async function rotateFeedToken(db: Database, userId: string): Promise<string> {
+  const token = generateFeedToken();
+  const now = new Date();
+  await db
+    .insert(calendarFeedTokens)
+    .values({ userId, token, createdAt: now })
+    .onConflictDoUpdate({
+      target: calendarFeedTokens.userId,
+      set: { token, createdAt: now, lastFetchedAt: null },
+    });
+  return token;
+}
+
+/** The owning user id, or null for an unknown (or rotated-away) token. */
+export async function resolveFeedToken(db: Database, token: string): Promise<string | null> {
+  const [row] = await db
+    .select({ id: calendarFeedTokens.id, userId: calendarFeedTokens.userId })
+    .from(calendarFeedTokens)
+    .where(eq(calendarFeedTokens.token, token))
+    .limit(1);
+  if (!row) return null;
+  await db
+    .update(calendarFeedTokens)
+    .set({ lastFetchedAt: new Date() })
+    .where(eq(calendarFeedTokens.id, row.id));
+  return row.userId;
+}
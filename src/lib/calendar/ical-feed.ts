@@ -0,0 +1,369 @@
+/**
+ * Subscribable iCal feeds — the pure half: turn event rows into an RFC 5545
+ * VCALENDAR a calendar app can SUBSCRIBE to, as opposed to the one-off
+ * download `generateMultiDayICSContent` (src/lib/utils.ts) produces.
+ *
+ * The difference is what happens on the second fetch. A download is imported
+ * once and never looked at again; a subscription is re-fetched every few hours
+ * and diffed against what the client already holds. That diff keys on three
+ * things, and each one is a way for a feed to look fine and silently rot:
+ *
+ *   UID       — must be the SAME across fetches, or every refresh duplicates
+ *               the event. The download path uses `crypto.randomUUID()`, which
+ *               is correct for a download and fatal for a feed.
+ *   SEQUENCE  — must GO UP when the dates move, or Google keeps the old time.
+ *   STATUS    — a cancelled event must be sent as STATUS:CANCELLED. Merely
+ *               dropping it from the feed leaves it on some clients for good.
+ *
+ * UIDs are `<eventId>-d<n>@host` for the n-th public day of an event with an
+ * `event_days` schedule, and `<eventId>@host` for a simple date span. The
+ * ordinal — not the event_days row id — is deliberate: the admin and promoter
+ * editors rewrite event_days delete-then-insert, so row ids churn on every
+ * save, whereas "day 2 of the fair" is still day 2 after the fair moves a week.
+ * The cost is that inserting a day BEFORE the first one re-keys the days after
+ * it; clients then see one removal and one addition, which is still correct.
+ *
+ * SEQUENCE itself is stateful and lives in `calendar_feed_sequences`; this
+ * module only computes the fingerprint it is keyed on (see feed-query.ts).
+ *
+ * A day-less event with a recurrence rule (drizzle/0234) goes out as ONE
+ * VEVENT carrying the canonical RRULE and its EXDATEs, and the client expands
+ * it. Events with an event_days schedule never do — the days are already the
+ * expansion, and sending both would double every occurrence.
+ */
+import { SITE_HOSTNAME, SITE_URL } from "@takemetothefair/constants";
+import {
+  formatIcsUtc,
+  formatIcsVenueZone,
+  getVtimezoneBlock,
+  parseWallClockInVenueZone,
+  addDaysIso,
+  toIsoDateOnly,
+  VENUE_TZ,
+} from "@/lib/datetime";
+import { normalizeRRule } from "@takemetothefair/utils";
+import { parseRecurrenceExdates, recurringOccurrenceDays } from "@/lib/events/recurrence";
+
+/** How often subscribers are asked to re-fetch. Six hours is what Apple and
+ *  Outlook honour; Google ignores the hint and polls on its own schedule. */
+export const FEED_REFRESH_INTERVAL = "PT6H";
+
+export interface FeedEventDay {
+  date: string; // YYYY-MM-DD
+  openTime: string | null;
+  closeTime: string | null;
+  notes?: string | null;
+  closed?: boolean | null;
+  vendorOnly?: boolean | null;
+}
+
+export interface FeedEvent {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  status: string;
+  lifecycleStatus: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  updatedAt: Date | null;
+  categories: string | null;
+  venueName: string | null;
+  venueAddress: string | null;
+  venueCity: string | null;
+  venueState: string | null;
+  venueTimezone: string | null;
+  /** Canonical RRULE value + JSON EXDATE days; only read for day-less events. */
+  recurrenceRule?: string | null;
+  recurrenceExdates?: string | null;
+  days: FeedEventDay[];
+}
+
+/** True when subscribers should be told this event is off. */
+export function isCancelledForFeed(event: Pick<FeedEvent, "status" | "lifecycleStatus">): boolean {
+  return event.status === "CANCELLED" || event.lifecycleStatus === "CANCELLED";
+}
+
+/** Public days only, date-ordered. Vendor-only load-in days never reach a feed. */
+function publicDays(days: FeedEventDay[]): FeedEventDay[] {
+  return days.filter((d) => !d.vendorOnly).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The fingerprint SEQUENCE is keyed on: every public occurrence with its hours
+ * and closed flag, the span for a day-less event, and the cancellation state.
+ * Deliberately excludes name/description — a typo fix is not worth making
+ * every subscriber's calendar flash an "event updated" notice.
+ */
+export function feedFingerprint(event: FeedEvent): string {
+  const days = publicDays(event.days);
+  const occurrences =
+    days.length > 0
+      ? days.map((d) => `${d.date}|${d.openTime ?? ""}|${d.closeTime ?? ""}|${d.closed ? 1 : 0}`)
+      : [
+          `${toIsoDateOnly(event.startDate)}..${toIsoDateOnly(event.endDate)}`,
+          // A new rule or exception moves dates just as surely as a new span.
+          ...(event.recurrenceRule
+            ? [`R:${event.recurrenceRule}`, `X:${event.recurrenceExdates ?? ""}`]
+            : []),
+        ];
+  return [isCancelledForFeed(event) ? "X" : "L", ...occurrences].join(";");
+}
+
+/**
+ * RFC 5545 §3.3.11 TEXT escaping. Backslash first, or the escapes added for
+ * the other characters would themselves be doubled.
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * RFC 5545 §3.1 line folding: content lines longer than 75 octets continue on
+ * the next line after CRLF + a single space. Counted in UTF-8 bytes, and never
+ * split inside a multi-byte character — Apple Calendar rejects the whole feed
+ * on a broken sequence.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  // Continuation lines carry a leading space, so they hold 74 octets of content.
+  let limit = 75;
+  for (const ch of line) {
+    const bytes = encoder.encode(ch).length;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += ch;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function compactDate(isoDate: string): string {
+  return isoDate.replace(/-/g, "");
+}
+
+function locationFor(event: FeedEvent): string {
+  return [event.venueName, event.venueAddress, event.venueCity, event.venueState]
+    .filter((p): p is string => !!p && p.trim().length > 0)
+    .join(", ");
+}
+
+function categoriesFor(event: FeedEvent): string[] {
+  try {
+    const parsed = JSON.parse(event.categories || "[]");
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+interface VeventArgs {
+  uid: string;
+  event: FeedEvent;
+  sequence: number;
+  dtstamp: string;
+  summary: string;
+  start: string;
+  end: string;
+  /** RRULE / EXDATE lines, placed right after DTEND. */
+  recurrence?: string[];
+  cancelled: boolean;
+}
+
+function vevent(args: VeventArgs): string[] {
+  const { event } = args;
+  const url = `${SITE_URL}/events/${event.slug}`;
+  const description = [event.description?.trim(), `More info: ${url}`].filter(Boolean).join("\n\n");
+  const categories = categoriesFor(event);
+  const location = locationFor(event);
+  return [
+    "BEGIN:VEVENT",
+    `UID:${args.uid}`,
+    `DTSTAMP:${args.dtstamp}`,
+    event.updatedAt ? `LAST-MODIFIED:${formatIcsUtc(event.updatedAt)}` : "",
+    `SEQUENCE:${args.sequence}`,
+    args.start,
+    args.end,
+    ...(args.recurrence ?? []),
+    `SUMMARY:${escapeIcsText(args.summary)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    location ? `LOCATION:${escapeIcsText(location)}` : "",
+    categories.length > 0 ? `CATEGORIES:${categories.map(escapeIcsText).join(",")}` : "",
+    `URL:${url}`,
+    `STATUS:${args.cancelled ? "CANCELLED" : event.status === "TENTATIVE" ? "TENTATIVE" : "CONFIRMED"}`,
+    // All-day fair days shouldn't block the subscriber's free/busy.
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ].filter(Boolean);
+}
+
+/** DTSTART/DTEND pair for an all-day span. DTEND is exclusive per §3.6.1. */
+function allDay(startIso: string, endIso: string): { start: string; end: string } {
+  return {
+    start: `DTSTART;VALUE=DATE:${compactDate(startIso)}`,
+    end: `DTEND;VALUE=DATE:${compactDate(addDaysIso(endIso, 1))}`,
+  };
+}
+
+/**
+ * The VEVENTs for one event. Day-scheduled events get one VEVENT per public
+ * day (timed when both hours are known, all-day otherwise); a closed day is
+ * sent as a cancelled occurrence rather than dropped, for the same reason a
+ * cancelled event is. Undated events produce nothing — there is nothing to put
+ * on a calendar.
+ */
+export function buildEventVevents(
+  event: FeedEvent,
+  sequence: number,
+  now: Date = new Date()
+): string[][] {
+  const dtstamp = formatIcsUtc(now);
+  const cancelled = isCancelledForFeed(event);
+  const tz = event.venueTimezone || VENUE_TZ;
+  const days = publicDays(event.days);
+
+  if (days.length > 0) {
+    return days.map((day, i) => {
+      let range = allDay(day.date, day.date);
+      const open = day.openTime ? parseWallClockInVenueZone(day.date, day.openTime, tz) : null;
+      const close = day.closeTime ? parseWallClockInVenueZone(day.date, day.closeTime, tz) : null;
+      if (open && close) {
+        const start = formatIcsVenueZone(open, tz);
+        const end = formatIcsVenueZone(close, tz);
+        // TZID is only legal alongside a matching VTIMEZONE; a zone missing
+        // from the registry goes out as UTC instead (see VTIMEZONE_REGISTRY).
+        range =
+          start && end && getVtimezoneBlock(tz)
+            ? {
+                start: `DTSTART;TZID=${start.tzid}:${start.value}`,
+                end: `DTEND;TZID=${end.tzid}:${end.value}`,
+              }
+            : { start: `DTSTART:${formatIcsUtc(open)}`, end: `DTEND:${formatIcsUtc(close)}` };
+      }
+      return vevent({
+        uid: `${event.id}-d${i + 1}@${SITE_HOSTNAME}`,
+        event,
+        sequence,
+        dtstamp,
+        summary: day.notes ? `${event.name} - ${day.notes}` : event.name,
+        ...range,
+        cancelled: cancelled || !!day.closed,
+      });
+    });
+  }
+
+  const startIso = toIsoDateOnly(event.startDate);
+  if (!startIso) return [];
+  const endIso = toIsoDateOnly(event.endDate) || startIso;
+
+  // Recurring: one VEVENT the client expands. The span is one occurrence, not
+  // the season (see recurringOccurrenceDays), and UNTIL/EXDATE are DATE-valued
+  // to match the all-day DTSTART (§3.3.10, §3.8.5.1).
+  const rule = normalizeRRule(event.recurrenceRule);
+  const occurrenceDays = rule ? recurringOccurrenceDays(event) : null;
+  if (rule && occurrenceDays) {
+    const exdates = parseRecurrenceExdates(event.recurrenceExdates);
+    return [
+      vevent({
+        uid: `${event.id}@${SITE_HOSTNAME}`,
+        event,
+        sequence,
+        dtstamp,
+        summary: event.name,
+        ...allDay(startIso, addDaysIso(startIso, occurrenceDays - 1)),
+        recurrence: [
+          `RRULE:${rule}`,
+          exdates.length > 0 ? `EXDATE;VALUE=DATE:${exdates.map(compactDate).join(",")}` : "",
+        ],
+        cancelled,
+      }),
+    ];
+  }
+
+  return [
+    vevent({
+      uid: `${event.id}@${SITE_HOSTNAME}`,
+      event,
+      sequence,
+      dtstamp,
+      summary: event.name,
+      ...allDay(startIso, endIso < startIso ? startIso : endIso),
+      cancelled,
+    }),
+  ];
+}
+
+export interface CalendarFeedArgs {
+  /** Shown as the subscribed calendar's name (X-WR-CALNAME). */
+  name: string;
+  description?: string;
+  events: FeedEvent[];
+  /** event id → SEQUENCE; missing ids publish as 0. */
+  sequences: Map<string, number>;
+  now?: Date;
+}
+
+/** Assemble the full VCALENDAR body, CRLF-delimited and folded. */
+export function buildCalendarFeed(args: CalendarFeedArgs): string {
+  const now = args.now ?? new Date();
+  const vtimezones = new Set<string>();
+  const vevents: string[] = [];
+  for (const event of args.events) {
+    const blocks = buildEventVevents(event, args.sequences.get(event.id) ?? 0, now);
+    if (blocks.length === 0) continue;
+    // One VTIMEZONE per zone a VEVENT actually references by TZID.
+    const block = getVtimezoneBlock(event.venueTimezone || VENUE_TZ);
+    if (block && blocks.some((lines) => lines.some((l) => l.startsWith("DTSTART;TZID=")))) {
+      vtimezones.add(block);
+    }
+    for (const lines of blocks) vevents.push(...lines);
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Meet Me at the Fair//Calendar Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(args.name)}`,
+    args.description ? `X-WR-CALDESC:${escapeIcsText(args.description)}` : "",
+    `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`,
+    ...vtimezones,
+    ...vevents,
+    "END:VCALENDAR",
+  ].filter(Boolean);
+
+  // VTIMEZONE blocks arrive pre-joined; split so every physical line is folded.
+  return lines
+    .flatMap((l) => l.split(/\r?\n/))
+    .map(foldIcsLine)
+    .join("\r\n");
+}
+
+/**
+ * `https://…/api/calendar/…` → `webcal://…/api/calendar/…`. The webcal scheme
+ * is what makes Apple Calendar and Outlook offer "Subscribe" instead of
+ * downloading the file once.
+ */
+export function toWebcalUrl(httpsUrl: string): string {
+  return httpsUrl.replace(/^https?:\/\//, "webcal://");
+}
+
+/** Google Calendar's "add by URL" deep link for a feed. */
+export function googleSubscribeUrl(httpsUrl: string): string {
+  return `https://calendar.google.com/calendar/r?cid=${encodeURIComponent(toWebcalUrl(httpsUrl))}`;
+}
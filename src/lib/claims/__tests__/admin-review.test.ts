@@ -46,6 +46,17 @@ const SCHEMA_SQL = `
     claimed_by TEXT,
     updated_at INTEGER
   );
+  CREATE TABLE venues (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    name TEXT NOT NULL,
+    slug TEXT NOT NULL,
+    contact_email TEXT,
+    claimed INTEGER NOT NULL DEFAULT 0,
+    claimed_at INTEGER,
+    claimed_by TEXT,
+    updated_at INTEGER
+  );
   CREATE TABLE user_roles (
     id TEXT PRIMARY KEY,
     user_id TEXT NOT NULL,
@@ -247,6 +258,30 @@ describe("approveClaim", () => {
     expect(adminActionRows()[0].action).toBe("promoter.claim_admin_review_approve");
   });
 
+  it("approves a venue claim onto venues.user_id without granting a role", async () => {
+    raw
+      .prepare(`INSERT INTO venues (id, name, slug) VALUES (?, ?, ?)`)
+      .run("venue-1", "Topsham Fairgrounds", "topsham-fairgrounds");
+    seedClaim({ id: "c1", entityType: "VENUE", entityId: "venue-1", method: "EVIDENCE" });
+
+    const res = await approveClaim(db as never, { claimId: "c1", actorUserId: ADMIN });
+    expect(res.ok).toBe(true);
+    expect(res.entityType).toBe("VENUE");
+
+    expect(raw.prepare(`SELECT user_id, claimed, claimed_by FROM venues`).get()).toEqual({
+      user_id: CLAIMANT,
+      claimed: 1,
+      claimed_by: CLAIMANT,
+    });
+    expect(roleRows(CLAIMANT)).toHaveLength(0);
+    expect(claimRow("c1")).toMatchObject({ status: "APPROVED", decided_by: ADMIN });
+    expect(adminActionRows()[0]).toMatchObject({
+      action: "venue.claim_admin_review_approve",
+      target_type: "venue",
+      target_id: "venue-1",
+    });
+  });
+
   it("refuses when the entity is already claimed by a DIFFERENT user — touches nothing", async () => {
     seedVendor({ id: "v1", slug: "acme-foods", claimed: true, ownerUserId: OTHER });
     seedClaim({ id: "c1", entityType: "VENDOR", entityId: "v1", status: "DISPUTED" });
@@ -331,9 +366,12 @@ describe("listReviewableClaims", () => {
     expect(await listReviewableClaims(db as never)).toEqual([]);
   });
 
-  it("returns only PENDING + DISPUTED vendor/promoter claims, decorated, newest first", async () => {
+  it("returns only PENDING + DISPUTED claims, decorated, newest first", async () => {
     seedVendor({ id: "v1", slug: "acme-foods" });
     seedPromoter({ id: "p1", slug: "big-events-co" });
+    raw
+      .prepare(`INSERT INTO venues (id, name, slug) VALUES (?, ?, ?)`)
+      .run("venue-1", "Topsham Fairgrounds", "topsham-fairgrounds");
 
     seedClaim({
       id: "c-pending",
@@ -364,7 +402,7 @@ describe("listReviewableClaims", () => {
       status: "REJECTED",
       createdAt: 1600,
     });
-    // VENUE is filtered out (no funnel).
+    // VENUE is reviewable since the venue owner portal (drizzle/0240).
     seedClaim({
       id: "c-venue",
       entityType: "VENUE",
@@ -374,7 +412,8 @@ describe("listReviewableClaims", () => {
     });
 
     const rows = await listReviewableClaims(db as never);
-    expect(rows.map((r) => r.id)).toEqual(["c-disputed", "c-pending"]); // newest first, no venue
+    expect(rows.map((r) => r.id)).toEqual(["c-venue", "c-disputed", "c-pending"]); // newest first
+    expect(rows[0]).toMatchObject({ entityType: "VENUE", entityName: "Topsham Fairgrounds" });
 
     const disputed = rows.find((r) => r.id === "c-disputed")!;
     expect(disputed.entityType).toBe("PROMOTER");
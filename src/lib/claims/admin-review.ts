@@ -22,8 +22,9 @@
  *     or throw past the mutation (same posture as the register route's
  *     verification email).
  *
- * VENUE claims are intentionally out of scope (no claim funnel yet) and are
- * filtered out of every path here.
+ * VENUE joined with the venue owner portal (drizzle/0240). Like performers,
+ * venue ownership lives on the row (venues.user_id + claimed) and grants no
+ * role: the /venue portal authorizes on the column.
  */
 import { and, desc, eq, inArray, sql } from "drizzle-orm";
 import type { Database } from "@/lib/db";
@@ -31,6 +32,7 @@ import {
   vendors,
   promoters,
   performers,
+  venues,
   users,
   userRoles,
   entityClaims,
@@ -41,12 +43,19 @@ import { enqueueEmail } from "@/lib/queues/producers";
 import { claimDecisionTemplate } from "@/lib/email/templates";
 import { getSiteUrl } from "@/lib/email/send";
 import { insertClaimApprovedNotification } from "@/lib/claims/notify-approved";
+import { wantsEmail } from "@/lib/notifications/notifications";
 
 /** OPE-318 — PERFORMER joins the reviewable set. Widening this type is the
  *  point of the change: the queue filter below is what decides whether a claim
  *  is ever seen by a human, so a performer claim that is not in this union is a
  *  claim that silently never resolves. */
-export type ReviewEntityType = "VENDOR" | "PROMOTER" | "PERFORMER";
+export type ReviewEntityType = "VENDOR" | "PROMOTER" | "PERFORMER" | "VENUE";
+
+const REVIEWABLE_TYPES: ReviewEntityType[] = ["VENDOR", "PROMOTER", "PERFORMER", "VENUE"];
+
+function isReviewableType(entityType: string): entityType is ReviewEntityType {
+  return (REVIEWABLE_TYPES as string[]).includes(entityType);
+}
 
 export interface ReviewableClaim {
   id: string;
@@ -122,7 +131,7 @@ export async function listReviewableClaims(db: Database): Promise<ReviewableClai
     .where(
       and(
         inArray(entityClaims.status, ["PENDING", "DISPUTED"]),
-        inArray(entityClaims.entityType, ["VENDOR", "PROMOTER", "PERFORMER"])
+        inArray(entityClaims.entityType, REVIEWABLE_TYPES)
       )
     )
     .orderBy(desc(entityClaims.createdAt));
@@ -138,6 +147,9 @@ export async function listReviewableClaims(db: Database): Promise<ReviewableClai
   const performerIds = [
     ...new Set(claims.filter((c) => c.entityType === "PERFORMER").map((c) => c.entityId)),
   ];
+  const venueIds = [
+    ...new Set(claims.filter((c) => c.entityType === "VENUE").map((c) => c.entityId)),
+  ];
   const userIds = [...new Set(claims.map((c) => c.claimantUserId))];
 
   const vendorById = new Map<string, { name: string; slug: string }>();
@@ -172,6 +184,16 @@ export async function listReviewableClaims(db: Database): Promise<ReviewableClai
       performerById.set(r.id, { name: r.name, slug: r.slug as unknown as string });
   }
 
+  const venueById = new Map<string, { name: string; slug: string }>();
+  for (const ids of chunk(venueIds)) {
+    if (ids.length === 0) continue;
+    const rows = await db
+      .select({ id: venues.id, name: venues.name, slug: venues.slug })
+      .from(venues)
+      .where(inArray(venues.id, ids));
+    for (const r of rows) venueById.set(r.id, { name: r.name, slug: r.slug as unknown as string });
+  }
+
   const userById = new Map<string, { email: string; name: string | null }>();
   for (const ids of chunk(userIds)) {
     if (ids.length === 0) continue;
@@ -184,7 +206,7 @@ export async function listReviewableClaims(db: Database): Promise<ReviewableClai
 
   // Per-entity attempt counts: COUNT(*) grouped by (entity_type, entity_id).
   const attemptCounts = new Map<string, number>();
-  const allIds = [...vendorIds, ...promoterIds, ...performerIds];
+  const allIds = [...vendorIds, ...promoterIds, ...performerIds, ...venueIds];
   for (const ids of chunk(allIds)) {
     if (ids.length === 0) continue;
     const rows = await db
@@ -206,7 +228,9 @@ export async function listReviewableClaims(db: Database): Promise<ReviewableClai
         ? vendorById.get(c.entityId)
         : entityType === "PERFORMER"
           ? performerById.get(c.entityId)
-          : promoterById.get(c.entityId);
+          : entityType === "VENUE"
+            ? venueById.get(c.entityId)
+            : promoterById.get(c.entityId);
     const claimant = userById.get(c.claimantUserId);
     return {
       id: c.id,
@@ -275,6 +299,21 @@ async function loadEntity(
     if (!row) return undefined;
     return { ...row, slug: row.slug as unknown as string };
   }
+  if (entityType === "VENUE") {
+    const [row] = await db
+      .select({
+        userId: venues.userId,
+        claimed: venues.claimed,
+        name: venues.name,
+        slug: venues.slug,
+        contactEmail: venues.contactEmail,
+      })
+      .from(venues)
+      .where(eq(venues.id, entityId))
+      .limit(1);
+    if (!row) return undefined;
+    return { ...row, slug: row.slug as unknown as string };
+  }
   const [row] = await db
     .select({
       userId: promoters.userId,
@@ -318,7 +357,9 @@ async function sendDecisionEmailBestEffort(args: {
       args.decision === "approved"
         ? args.entityType === "VENDOR"
           ? `${getSiteUrl()}/vendor/profile`
-          : `${getSiteUrl()}/promoter/events`
+          : args.entityType === "VENUE"
+            ? `${getSiteUrl()}/venue`
+            : `${getSiteUrl()}/promoter/events`
         : undefined;
     const tpl = claimDecisionTemplate({
       entityName: args.entityName ?? "your listing",
@@ -367,14 +408,10 @@ export async function approveClaim(
   if (claim.status !== "PENDING" && claim.status !== "DISPUTED") {
     return { ok: false, reason: "not_reviewable" };
   }
-  // OPE-318 — the gate that decides what can be approved at all. PERFORMER is
-  // now claimable; VENUE still is not (it has no claim funnel), so this stays a
-  // deliberate allow-list rather than becoming "anything but VENUE".
-  if (
-    claim.entityType !== "VENDOR" &&
-    claim.entityType !== "PROMOTER" &&
-    claim.entityType !== "PERFORMER"
-  ) {
+  // OPE-318 — the gate that decides what can be approved at all. Still a
+  // deliberate allow-list (now with VENUE, drizzle/0240) rather than "any
+  // entity_type", so a value nothing grants on can't reach the writes below.
+  if (!isReviewableType(claim.entityType)) {
     return { ok: false, reason: "unsupported_entity" };
   }
   const entityType = claim.entityType;
@@ -410,6 +447,11 @@ export async function approveClaim(
       .update(performers)
       .set({ userId: claim.userId, claimed: true, claimedAt: now, claimedBy: claim.userId })
       .where(and(eq(performers.id, claim.entityId), eq(performers.claimed, false)));
+  } else if (entityType === "VENUE") {
+    await db
+      .update(venues)
+      .set({ userId: claim.userId, claimed: true, claimedAt: now, claimedBy: claim.userId })
+      .where(and(eq(venues.id, claim.entityId), eq(venues.claimed, false)));
   } else {
     await db
       .update(promoters)
@@ -426,7 +468,8 @@ export async function approveClaim(
   // reads as real and grants nothing, which is worse than its absence.
   // Performer ownership lives on performers.user_id + claimed, exactly as the
   // existing admin-grant tool records it.
-  if (entityType !== "PERFORMER") {
+  // Venues likewise: the /venue portal reads venues.user_id, not a role.
+  if (entityType === "VENDOR" || entityType === "PROMOTER") {
     await db
       .insert(userRoles)
       .values({ userId: claim.userId, role: entityType, grantedAt: now, grantedBy: actorUserId })
@@ -445,7 +488,9 @@ export async function approveClaim(
     action:
       entityType === "VENDOR"
         ? "vendor.claim_admin_review_approve"
-        : "promoter.claim_admin_review_approve",
+        : entityType === "VENUE"
+          ? "venue.claim_admin_review_approve"
+          : "promoter.claim_admin_review_approve",
     actorUserId,
     targetType: entityType.toLowerCase(),
     targetId: claim.entityId,
@@ -463,8 +508,11 @@ export async function approveClaim(
     entityName,
   });
 
+  // The claimant can turn the approval email off ("Claim approved" in their
+  // notification settings) and rely on the in-app notice above. Rejections
+  // aren't a notification type and always email.
   await sendDecisionEmailBestEffort({
-    to: claimantEmail,
+    to: (await wantsEmail(db, claim.userId, "claim_approved")) ? claimantEmail : null,
     entityName,
     decision: "approved",
     entityType,
@@ -508,14 +556,10 @@ export async function rejectClaim(
   if (claim.status !== "PENDING" && claim.status !== "DISPUTED") {
     return { ok: false, reason: "not_reviewable" };
   }
-  if (
-    claim.entityType !== "VENDOR" &&
-    claim.entityType !== "PROMOTER" &&
-    claim.entityType !== "PERFORMER"
-  ) {
-    // Same allow-list as approve — VENUE has no claim funnel. A claim that can
-    // be approved but not REJECTED would strand every performer claim an admin
-    // declines, so both guards move together.
+  if (!isReviewableType(claim.entityType)) {
+    // Same allow-list as approve. A claim that can be approved but not
+    // REJECTED would strand every claim of that type an admin declines, so
+    // both guards move together.
     return { ok: false, reason: "not_reviewable" };
   }
   const entityType = claim.entityType;
@@ -532,7 +576,9 @@ export async function rejectClaim(
     action:
       entityType === "VENDOR"
         ? "vendor.claim_admin_review_reject"
-        : "promoter.claim_admin_review_reject",
+        : entityType === "VENUE"
+          ? "venue.claim_admin_review_reject"
+          : "promoter.claim_admin_review_reject",
     actorUserId,
     targetType: entityType.toLowerCase(),
     targetId: claim.entityId,
@@ -6,9 +6,13 @@
  * approval, admin review). BEST-EFFORT by contract: a notifications insert
  * failure must NEVER roll back or throw past the ownership transfer — the claim
  * is already committed. Swallow everything.
+ *
+ * Goes through the notification center's writer, so a claimant who switched
+ * "Claim approved" off in-app gets no row; the decision email is gated
+ * separately by its sender.
  */
-import { notifications } from "@/lib/db/schema";
 import type { Database } from "@/lib/db";
+import { createNotification } from "@/lib/notifications/notifications";
 
 export async function insertClaimApprovedNotification(
   db: Database,
@@ -16,7 +20,7 @@ export async function insertClaimApprovedNotification(
     userId: string;
     // OPE-318 — PERFORMER included. A claimant who is approved and told nothing
     // is the same silence the claim rail exists to end.
-    entityType: "VENDOR" | "PROMOTER" | "PERFORMER";
+    entityType: "VENDOR" | "PROMOTER" | "PERFORMER" | "VENUE";
     entitySlug: string;
     entityName?: string | null;
   }
@@ -33,19 +37,20 @@ export async function insertClaimApprovedNotification(
         ? "/vendor/profile"
         : args.entityType === "PERFORMER"
           ? `/performers/${args.entitySlug}`
-          : "/promoter/events";
-    await db.insert(notifications).values({
-      id: crypto.randomUUID(),
+          : args.entityType === "VENUE"
+            ? "/venue"
+            : "/promoter/events";
+    await createNotification(db, {
       userId: args.userId,
       type: "claim_approved",
       title: "Claim approved",
       message: `You now manage ${name}.`,
-      data: JSON.stringify({
+      data: {
         entityType: args.entityType,
         entitySlug: args.entitySlug,
         portal,
-      }),
-      createdAt: new Date(),
+        url: portal,
+      },
     });
   } catch {
     // Best-effort — the approval is already committed.
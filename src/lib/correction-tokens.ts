@@ -39,6 +39,15 @@ function toBase64Url(bytes: Uint8Array): string {
   return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
 }
 
+/**
+ * A fresh unguessable URL token (32 random bytes, base64url). Also minted by
+ * the waitlist offer links (src/lib/waitlist/offer-tokens.ts), which follow
+ * this file's issue / lookup / consume lifecycle.
+ */
+export function generateUrlToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(TOKEN_BYTES)));
+}
+
 /**
  * Mint a new correction token and persist it. Caller is responsible for
  * passing the eventId of the freshly-created PENDING event and the
@@ -51,8 +60,7 @@ export async function issueCorrectionToken(
   db: Db,
   args: { eventId: string; inboundEmailId: string }
 ): Promise<string> {
-  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
-  const token = toBase64Url(bytes);
+  const token = generateUrlToken();
   const now = new Date();
   const expiresAt = new Date(now.getTime() + TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
   await db.insert(submissionCorrectionTokens).values({
@@ -30,6 +30,10 @@
  * headroom against the 100-col cap. Future ALTERs on `events` can add up
  * to 21 columns before this projection has to be revisited.
  *
+ * Recount at drizzle/0234 (recurrence_exdates): events(76) + venue(13) +
+ * promoter(7) = 96. Four columns left — the next events ALTER should come
+ * with a narrower `events` projection here rather than the whole table.
+ *
  * The maintenance contract
  * ------------------------
  * If a new event surface needs a venue/promoter field NOT in this list,
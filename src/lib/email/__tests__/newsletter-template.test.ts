@@ -4,7 +4,7 @@
  * the produced HTML so a regression to `baseLayout` is caught at build time.
  */
 import { describe, it, expect } from "vitest";
-import { newsletterDigestTemplate } from "../templates";
+import { newsletterDigestTemplate, newsletterRecommendationsSection } from "../templates";
 import { SOCIAL_LINKS } from "@/lib/social-links";
 
 const base = {
@@ -69,6 +69,15 @@ describe("newsletterDigestTemplate — branded shell (OPE-232)", () => {
     expect(h).toContain("Meet Me at the Fair, New England");
   });
 
+  it("links the preferences page beside unsubscribe when given one (drizzle/0237)", () => {
+    const prefs = "https://example.test/newsletter/preferences?token=abc";
+    const withPrefs = newsletterDigestTemplate({ ...base, preferencesUrl: prefs });
+    const footer = withPrefs.html.slice(withPrefs.html.lastIndexOf("background:#1f3a2d"));
+    expect(footer).toContain(`href="${prefs}"`);
+    expect(withPrefs.text).toContain(`Update your preferences: ${prefs}`);
+    expect(html).not.toContain("Update your preferences");
+  });
+
   it("escapes a wordmark so it can't inject markup", () => {
     const { html: h } = newsletterDigestTemplate({ ...base, wordmark: "<script>x</script>" });
     expect(h).not.toContain("<script>x</script>");
@@ -174,3 +183,34 @@ describe("newsletterDigestTemplate — social footer (OPE-235)", () => {
     expect(vendor.html).toContain("https://facebook.com/meetmeatthefair");
   });
 });
+
+describe("newsletterRecommendationsSection — per-subscriber picks", () => {
+  const section = newsletterRecommendationsSection({
+    events: [
+      {
+        name: "Fryeburg <Fair>",
+        url: "https://meetmeatthefair.com/events/fryeburg-fair",
+        when: "Oct 4 - 11, 2026",
+        place: "Fryeburg Fairgrounds, Fryeburg, ME",
+        reason: "Another edition of a fair you saved",
+      },
+    ],
+    favoritesUrl: "https://meetmeatthefair.com/dashboard/favorites",
+  });
+
+  it("stays in the newsletter palette inside the digest body", () => {
+    const { html } = newsletterDigestTemplate({
+      ...base,
+      contentHtml: `${base.contentHtml}\n${section.html}`,
+    });
+    expect(html).toContain("You might also like");
+    expect(html).toContain("Fryeburg &lt;Fair&gt;");
+    expect(html).not.toContain(":#1E2761");
+  });
+
+  it("carries the reason and link in the plain-text part", () => {
+    expect(section.text).toContain("- Fryeburg <Fair> (Oct 4 - 11, 2026 · Fryeburg Fairgrounds");
+    expect(section.text).toContain("Another edition of a fair you saved");
+    expect(section.text).toContain("https://meetmeatthefair.com/events/fryeburg-fair");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  signLink,
+  signRecipientToken,
+  verifyLink,
+  verifyRecipientToken,
+} from "../newsletter-tracking-token";
+import { signUnsubscribeToken, verifyUnsubscribeToken } from "../newsletter-unsubscribe-token";
+
+const SECRET = "test-secret-abc123";
+
+describe("newsletter tracking tokens", () => {
+  it("round-trips a recipient token, lowercasing the address", async () => {
+    const token = await signRecipientToken("weekend-2026-10-17", "Reader@Example.com", SECRET);
+    expect(await verifyRecipientToken(token, SECRET)).toEqual({
+      issueSlug: "weekend-2026-10-17",
+      email: "reader@example.com",
+    });
+  });
+
+  it("rejects a recipient token under another secret, or tampered", async () => {
+    const token = await signRecipientToken("issue-a", "a@example.com", SECRET);
+    expect(await verifyRecipientToken(token, "other-secret")).toBeNull();
+    const other = await signRecipientToken("issue-a", "b@example.com", SECRET);
+    const forged = `${other.split(".")[0]}.${token.split(".")[1]}`;
+    expect(await verifyRecipientToken(forged, SECRET)).toBeNull();
+    expect(await verifyRecipientToken("garbage", SECRET)).toBeNull();
+  });
+
+  it("binds a link signature to both the issue and the destination", async () => {
+    const sig = await signLink("issue-a", "https://example.com/events/fair", SECRET);
+    expect(await verifyLink("issue-a", "https://example.com/events/fair", sig, SECRET)).toBe(true);
+    expect(await verifyLink("issue-b", "https://example.com/events/fair", sig, SECRET)).toBe(false);
+    expect(await verifyLink("issue-a", "https://evil.example/", sig, SECRET)).toBe(false);
+  });
+
+  it("is not interchangeable with an unsubscribe token under the same key", async () => {
+    const unsubscribe = await signUnsubscribeToken("a@example.com", SECRET);
+    expect(await verifyRecipientToken(unsubscribe, SECRET)).toBeNull();
+    const recipient = await signRecipientToken("issue-a", "a@example.com", SECRET);
+    expect(await verifyUnsubscribeToken(recipient, SECRET)).toBeNull();
+  });
+});
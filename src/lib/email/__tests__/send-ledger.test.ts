@@ -26,7 +26,9 @@ const SCHEMA_SQL = `
     body_html TEXT, body_text TEXT,
     -- OPE-177 (drizzle/0193) — downstream delivery outcome. Separate from
     -- status, which stays the send-ATTEMPT outcome these tests assert on.
-    delivery_status TEXT, delivery_updated_at INTEGER, delivery_detail TEXT
+    delivery_status TEXT, delivery_updated_at INTEGER, delivery_detail TEXT,
+    -- drizzle/0238 — tracked newsletter broadcasts.
+    newsletter_issue_slug TEXT
   );
 `;
 
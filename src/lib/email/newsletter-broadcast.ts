@@ -18,6 +18,7 @@ import {
 import { enqueueEmail } from "@/lib/queues/producers";
 import { newsletterDigestTemplate } from "@/lib/email/templates";
 import { signUnsubscribeToken } from "@/lib/email/newsletter-unsubscribe-token";
+import { createIssueTracker, type IssueTracker } from "@/lib/newsletter/tracking";
 
 type Db = DrizzleD1Database<Record<string, unknown>>;
 
@@ -71,17 +72,8 @@ export async function selectBroadcastRecipients(db: Db, list: NewsletterList): P
   return subs.map((s) => s.email).filter((e) => !suppressed.has(e.toLowerCase()));
 }
 
-/**
- * Render the digest per recipient (each with its own signed unsubscribe URL)
- * and enqueue it. Returns the number enqueued. The queue consumer performs the
- * actual send + ledgers it (source `newsletter:weekly-digest`).
- *
- * `contentHtml` is the stored issue body — the same value the approve route
- * reads back from `newsletter_issues.html`, so a broadcast re-sends exactly what
- * was previewed, no re-render of the content.
- */
-export async function enqueueNewsletterDigest(args: {
-  recipients: string[];
+/** Everything but the recipient list — what one recipient's copy is rendered from. */
+export interface NewsletterDigestRender {
   subject: string;
   contentHtml: string;
   contentText?: string;
@@ -109,21 +101,83 @@ export async function enqueueNewsletterDigest(args: {
    * only, never a broadcast.
    */
   approveDisabled?: boolean;
-}): Promise<number> {
+  /**
+   * Per-recipient blocks appended under the body, keyed by lowercased address
+   * — the weekend issue's "Just added near you" and "You might also like"
+   * sections (src/lib/newsletter/personalize.ts). Recipients without an entry
+   * get the issue unchanged. Never part of `contentHtml`, so the stored issue
+   * stays the one everyone received.
+   */
+  personalSections?: ReadonlyMap<string, { html: string; text: string }>;
+  /**
+   * drizzle/0238 — the issue slug to track opens and clicks against. Set by
+   * the callers on a real broadcast only; a test send or preview omits it, so
+   * the editor's own clicks never show up in the issue's report. Also stamped
+   * on every ledger row as `newsletter_issue_slug`, which is where the
+   * report's delivery and bounce counts come from.
+   */
+  trackIssueSlug?: string;
+}
+
+/**
+ * One recipient's copy of a digest: the unsubscribe (and preferences) links
+ * signed for their address, and their personal section, if any, under the
+ * body. Exported for the send route's preview-as-subscriber, which must show
+ * exactly what this address would be sent.
+ */
+export async function renderNewsletterDigestFor(
+  email: string,
+  args: NewsletterDigestRender,
+  tracker?: IssueTracker
+): Promise<{ subject: string; html: string; text: string; unsubscribeUrl: string }> {
+  const token = await signUnsubscribeToken(email, args.secret);
+  const unsubscribeUrl = `${args.siteUrl}/api/newsletter/unsubscribe?token=${token}`;
+  const personal = args.personalSections?.get(email.toLowerCase());
+  const body = personal ? `${args.contentHtml}\n${personal.html}` : args.contentHtml;
+  const tpl = newsletterDigestTemplate({
+    subject: args.subject,
+    // Only the body is tracked; the masthead and footer links stay direct.
+    contentHtml: tracker ? await tracker.track(email, body) : body,
+    // Without an explicit text body the template derives one from the HTML,
+    // which already carries the section.
+    contentText:
+      personal && args.contentText !== undefined
+        ? `${args.contentText}\n\n${personal.text}`
+        : args.contentText,
+    unsubscribeUrl,
+    // drizzle/0237 — the same token authorizes the preferences page: it
+    // already proves the reader holds this address's mail.
+    preferencesUrl: `${args.siteUrl}/newsletter/preferences?token=${token}`,
+    viewInBrowserUrl: args.viewInBrowserUrl,
+    mailingAddress: args.mailingAddress,
+    approveUrl: args.approveUrl,
+    approveDisabled: args.approveDisabled,
+  });
+  return { ...tpl, unsubscribeUrl };
+}
+
+/**
+ * Render the digest per recipient (each with its own signed unsubscribe URL)
+ * and enqueue it. Returns the number enqueued. The queue consumer performs the
+ * actual send + ledgers it (source `newsletter:weekly-digest`).
+ *
+ * `contentHtml` is the stored issue body — the same value the approve route
+ * reads back from `newsletter_issues.html`, so a broadcast re-sends exactly what
+ * was previewed, no re-render of the content.
+ */
+export async function enqueueNewsletterDigest(
+  args: NewsletterDigestRender & { recipients: string[] }
+): Promise<number> {
+  const tracker = args.trackIssueSlug
+    ? createIssueTracker({
+        issueSlug: args.trackIssueSlug,
+        siteUrl: args.siteUrl,
+        secret: args.secret,
+      })
+    : undefined;
   let queued = 0;
   for (const email of args.recipients) {
-    const token = await signUnsubscribeToken(email, args.secret);
-    const unsubscribeUrl = `${args.siteUrl}/api/newsletter/unsubscribe?token=${token}`;
-    const tpl = newsletterDigestTemplate({
-      subject: args.subject,
-      contentHtml: args.contentHtml,
-      contentText: args.contentText,
-      unsubscribeUrl,
-      viewInBrowserUrl: args.viewInBrowserUrl,
-      mailingAddress: args.mailingAddress,
-      approveUrl: args.approveUrl,
-      approveDisabled: args.approveDisabled,
-    });
+    const { unsubscribeUrl, ...tpl } = await renderNewsletterDigestFor(email, args, tracker);
     await enqueueEmail({
       to: email,
       subject: tpl.subject,
@@ -144,6 +198,7 @@ export async function enqueueNewsletterDigest(args: {
       // from, and there is no second token type to expire or leak.
       listUnsubscribe: `<${unsubscribeUrl}>`,
       listUnsubscribePost: "List-Unsubscribe=One-Click",
+      newsletterIssueSlug: args.trackIssueSlug,
     });
     queued++;
   }
@@ -0,0 +1,111 @@
+// drizzle/0238 — signatures for newsletter engagement tracking: the open pixel
+// and the click redirect (src/lib/newsletter/tracking.ts).
+//
+// Two separate signatures, because they protect different things:
+//
+//   - the RECIPIENT token binds an issue slug to an address, so a hit can be
+//     counted for the person it was sent to and nobody can inflate someone
+//     else's opens. One per recipient per send.
+//   - the LINK signature binds an issue slug to a destination URL, so
+//     /api/newsletter/click is not an open redirect. One per distinct link per
+//     issue, shared by every recipient — signing per recipient per link would
+//     be tens of thousands of HMACs for one broadcast.
+//
+// The click URL carries both; the redirect checks only the link signature, so
+// a token mangled by a mail client still lands the reader where they meant to
+// go — it just isn't counted.
+//
+// Pure functions; the secret is injected. Both sign under their own domain
+// prefix, so neither can be cross-read as an unsubscribe or approve token that
+// shares the same key.
+
+const RECIPIENT_DOMAIN = "newsletter-track-recipient:v1";
+const LINK_DOMAIN = "newsletter-track-link:v1";
+
+function b64urlEncode(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function b64urlDecodeToString(s: string): string {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/") + "=".repeat((4 - (s.length % 4)) % 4);
+  const bin = atob(b64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new TextDecoder().decode(bytes);
+}
+
+async function hmacB64url(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return b64urlEncode(new Uint8Array(sig));
+}
+
+/** Constant-time compare (avoids leaking signature length/prefix). */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export interface TrackedRecipient {
+  issueSlug: string;
+  email: string;
+}
+
+/** Mint the recipient token for one send of one issue. */
+export async function signRecipientToken(
+  issueSlug: string,
+  email: string,
+  secret: string
+): Promise<string> {
+  const claims: TrackedRecipient = { issueSlug, email: email.trim().toLowerCase() };
+  const payload = b64urlEncode(new TextEncoder().encode(JSON.stringify(claims)));
+  const sig = await hmacB64url(secret, `${RECIPIENT_DOMAIN}.${payload}`);
+  return `${payload}.${sig}`;
+}
+
+/** The token's issue + address, or null for anything forged or malformed. Never throws. */
+export async function verifyRecipientToken(
+  token: string,
+  secret: string
+): Promise<TrackedRecipient | null> {
+  if (typeof token !== "string") return null;
+  const dot = token.indexOf(".");
+  if (dot <= 0 || dot === token.length - 1) return null;
+  const payload = token.slice(0, dot);
+  const expected = await hmacB64url(secret, `${RECIPIENT_DOMAIN}.${payload}`);
+  if (!timingSafeEqual(token.slice(dot + 1), expected)) return null;
+  try {
+    const claims = JSON.parse(b64urlDecodeToString(payload)) as Partial<TrackedRecipient>;
+    if (typeof claims.issueSlug !== "string" || !claims.issueSlug) return null;
+    if (typeof claims.email !== "string" || !claims.email.includes("@")) return null;
+    return { issueSlug: claims.issueSlug, email: claims.email };
+  } catch {
+    return null;
+  }
+}
+
+/** Sign one destination for one issue. */
+export function signLink(issueSlug: string, url: string, secret: string): Promise<string> {
+  return hmacB64url(secret, `${LINK_DOMAIN}.${issueSlug}\n${url}`);
+}
+
+/** Whether `sig` is this issue's signature for `url`. Never throws. */
+export async function verifyLink(
+  issueSlug: string,
+  url: string,
+  sig: string,
+  secret: string
+): Promise<boolean> {
+  if (!issueSlug || !url || typeof sig !== "string") return false;
+  return timingSafeEqual(sig, await signLink(issueSlug, url, secret));
+}
@@ -38,6 +38,9 @@ export interface SendEmailArgs {
    */
   listUnsubscribe?: string;
   listUnsubscribePost?: string;
+  /** drizzle/0238 — the newsletter issue a tracked broadcast send belongs to;
+   *  recorded on the ledger row so the per-issue report can find it. */
+  newsletterIssueSlug?: string;
 }
 
 /**
@@ -71,6 +74,7 @@ async function ledgerDirectSend(
       providerMessageId: outcome.providerMessageId ?? null,
       error: outcome.error ?? null,
       inboundEmailId: args.inboundEmailId ?? null,
+      newsletterIssueSlug: args.newsletterIssueSlug ?? null,
       bodyHtml: args.html,
       bodyText: args.text,
     });
@@ -17,8 +17,10 @@ function baseLayout(args: {
   heading: string;
   body: string;
   cta?: { url: string; label: string };
+  /** Replaces the "didn't expect this" line — for mail the user signed up for. */
+  footer?: string;
 }): string {
-  const { heading, body, cta } = args;
+  const { heading, body, cta, footer } = args;
   return `<!doctype html>
 <html>
   <body style="margin:0;padding:0;background:#FAF7F2;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;color:#2A2521;">
@@ -38,7 +40,7 @@ function baseLayout(args: {
                 }
                 <hr style="border:none;border-top:1px solid #EBE5DA;margin:28px 0;" />
                 <div style="font-size:13px;color:#6F6455;">
-                  If you didn't expect this email, you can safely ignore it.
+                  ${footer ?? "If you didn't expect this email, you can safely ignore it."}
                 </div>
               </td>
             </tr>
@@ -189,6 +191,324 @@ ${reasonBlock}
   return { subject: `Your claim for ${args.entityName} wasn't approved`, html, text };
 }
 
+/**
+ * Sent to a vendor when the promoter of an event changes their application
+ * from the promoter application board. One email per application per save,
+ * listing every vendor-facing field that changed in that save — a bulk
+ * "approve + mark paid" is one message, not two. Promoter notes are private
+ * and never appear here.
+ */
+export function applicationUpdateTemplate(args: {
+  businessName: string;
+  eventName: string;
+  eventUrl: string;
+  manageUrl: string;
+  changes: {
+    status?: { from: string; to: string };
+    paymentStatus?: { from: string; to: string };
+    boothInfo?: { from: string | null; to: string | null };
+  };
+}): { subject: string; html: string; text: string } {
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const lines: string[] = [];
+  if (args.changes.status) {
+    lines.push(`Application status: ${args.changes.status.from} → ${args.changes.status.to}`);
+  }
+  if (args.changes.paymentStatus) {
+    lines.push(
+      `Payment status: ${args.changes.paymentStatus.from} → ${args.changes.paymentStatus.to}`
+    );
+  }
+  if (args.changes.boothInfo) {
+    lines.push(
+      args.changes.boothInfo.to
+        ? `Booth assignment: ${args.changes.boothInfo.to}`
+        : "Booth assignment: removed"
+    );
+  }
+
+  const html = baseLayout({
+    heading: "Your application was updated",
+    body: `<p style="margin:0 0 12px;">The organizer of <a href="${args.eventUrl}" style="color:#1E2761;"><strong>${escape(args.eventName)}</strong></a> updated the application for <strong>${escape(args.businessName)}</strong>:</p>
+<ul style="margin:0 0 12px;padding-left:20px;">${lines.map((l) => `<li>${escape(l)}</li>`).join("")}</ul>
+<p style="margin:0 0 12px;">Questions about this change are best sent to the organizer directly.</p>`,
+    cta: { url: args.manageUrl, label: "View your applications" },
+  });
+  const text = `The organizer of "${args.eventName}" updated the application for "${args.businessName}":\n\n${lines.map((l) => `- ${l}`).join("\n")}\n\nView your applications:\n${args.manageUrl}\n\nEvent page: ${args.eventUrl}`;
+  const subject = args.changes.status
+    ? `${args.eventName}: your application is now ${args.changes.status.to}`
+    : `${args.eventName}: your application was updated`;
+  return { subject, html, text };
+}
+
+/**
+ * A booth opened up and the vendor is next on the waitlist (drizzle/0228).
+ * The link is the only credential — no login — and stops working at
+ * `expiresAt`, after which the slot goes to the next vendor in line.
+ */
+export function waitlistOfferTemplate(args: {
+  businessName: string;
+  eventName: string;
+  eventUrl: string;
+  offerUrl: string;
+  /** Already formatted for display, venue zone. */
+  expiresAt: string;
+}): { subject: string; html: string; text: string } {
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const html = baseLayout({
+    heading: "A booth opened up for you",
+    body: `<p style="margin:0 0 12px;">A vendor spot opened at <a href="${args.eventUrl}" style="color:#1E2761;"><strong>${escape(args.eventName)}</strong></a>, and <strong>${escape(args.businessName)}</strong> is next on the waitlist.</p>
+<p style="margin:0 0 12px;">Accept or decline by <strong>${escape(args.expiresAt)}</strong>. If we don't hear from you by then, the spot is offered to the next vendor in line.</p>`,
+    cta: { url: args.offerUrl, label: "Accept or decline" },
+  });
+  const text = `A vendor spot opened at "${args.eventName}", and "${args.businessName}" is next on the waitlist.\n\nAccept or decline by ${args.expiresAt}. If we don't hear from you by then, the spot is offered to the next vendor in line.\n\n${args.offerUrl}\n\nEvent page: ${args.eventUrl}`;
+  return {
+    subject: `${args.eventName}: a booth opened up — reply by ${args.expiresAt}`,
+    html,
+    text,
+  };
+}
+
+/**
+ * Team invitation (drizzle/0239). The link only seats someone signed in as
+ * the invited address, so the copy says which address to use.
+ */
+export function organizationInviteTemplate(args: {
+  organizationName: string;
+  /** "vendor" or "promoter" — how the portal is named in the copy. */
+  kind: string;
+  roleLabel: string;
+  inviterName: string | null;
+  email: string;
+  acceptUrl: string;
+  expiresInDays: number;
+}): { subject: string; html: string; text: string } {
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const who = args.inviterName ? escape(args.inviterName) : "A teammate";
+  const html = baseLayout({
+    heading: `Join ${escape(args.organizationName)} on Meet Me at the Fair`,
+    body: `<p style="margin:0 0 12px;">${who} invited you to help manage <strong>${escape(args.organizationName)}</strong> in the ${escape(args.kind)} portal as a <strong>${escape(args.roleLabel)}</strong>.</p>
+<p style="margin:0 0 12px;">Sign in or create an account with <strong>${escape(args.email)}</strong>, then open the link below. It expires in ${args.expiresInDays} days.</p>`,
+    cta: { url: args.acceptUrl, label: "Accept invitation" },
+  });
+  const text = `${args.inviterName ?? "A teammate"} invited you to help manage "${args.organizationName}" in the ${args.kind} portal as a ${args.roleLabel}.\n\nSign in or create an account with ${args.email}, then open this link. It expires in ${args.expiresInDays} days.\n\n${args.acceptUrl}`;
+  return {
+    subject: `You're invited to manage ${args.organizationName} on Meet Me at the Fair`,
+    html,
+    text,
+  };
+}
+
+/**
+ * A new event was submitted at a venue the recipient owns (drizzle/0240,
+ * src/lib/notifications/venue-submissions.ts). Most arrive PENDING, so the
+ * copy says whether the event is public yet.
+ */
+export function venueEventSubmittedTemplate(args: {
+  venueName: string;
+  eventName: string;
+  /** Formatted date range, or null when the submission had none. */
+  when: string | null;
+  /** Whether the event is already on the public site. */
+  isPublic: boolean;
+  eventsUrl: string;
+  settingsUrl: string;
+}): { subject: string; html: string; text: string } {
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const status = args.isPublic
+    ? "It's already listed on the site."
+    : "It will appear on the site once our team has reviewed it.";
+  const html = baseLayout({
+    heading: `New event at ${escape(args.venueName)}`,
+    body: `<p style="margin:0 0 12px;"><strong>${escape(args.eventName)}</strong>${args.when ? ` (${escape(args.when)})` : ""} was just submitted for ${escape(args.venueName)}. ${status}</p>
+<p style="margin:0 0 12px;">If it shouldn't be at your grounds, or the dates clash with something you know about, reply to this email and we'll look into it.</p>`,
+    cta: { url: args.eventsUrl, label: "See your venue's events" },
+    footer: `Turn these emails off in your <a href="${args.settingsUrl}" style="color:#6F6455;">notification settings</a>.`,
+  });
+  const text = `"${args.eventName}"${args.when ? ` (${args.when})` : ""} was just submitted for ${args.venueName}. ${status}\n\nIf it shouldn't be at your grounds, or the dates clash with something you know about, reply to this email and we'll look into it.\n\n${args.eventsUrl}\n\nTurn these emails off in your notification settings:\n${args.settingsUrl}`;
+  return { subject: `New event submitted at ${args.venueName}: ${args.eventName}`, html, text };
+}
+
+/**
+ * Saved-search digest (drizzle/0232): newly approved events for each of the
+ * user's saved searches that had any, one section per search. The footer
+ * carries the one-click unsubscribe, which stops these emails for every saved
+ * search but leaves the searches and their in-app notifications in place.
+ */
+export function savedSearchAlertTemplate(args: {
+  name: string | null;
+  searches: {
+    name: string;
+    url: string;
+    events: { name: string; url: string; when: string; place: string | null }[];
+  }[];
+  manageUrl: string;
+  unsubscribeUrl: string;
+}): { subject: string; html: string; text: string } {
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const total = args.searches.reduce((n, s) => n + s.events.length, 0);
+  const greeting = args.name ? `Hi ${escape(args.name)},` : "Hi,";
+  const sections = args.searches
+    .map(
+      (
+        s
+      ) => `<h2 style="font-family:Georgia,'Times New Roman',serif;font-size:18px;margin:20px 0 8px;color:#1E2761;"><a href="${s.url}" style="color:#1E2761;">${escape(s.name)}</a></h2>
+<ul style="margin:0 0 12px;padding-left:20px;">${s.events
+        .map(
+          (e) =>
+            `<li style="margin-bottom:6px;"><a href="${e.url}" style="color:#1E2761;"><strong>${escape(e.name)}</strong></a><br /><span style="color:#6F6455;">${escape([e.when, e.place].filter(Boolean).join(" · "))}</span></li>`
+        )
+        .join("")}</ul>`
+    )
+    .join("");
+  const html = baseLayout({
+    heading: total === 1 ? "A new event matches your search" : "New events match your searches",
+    body: `<p style="margin:0 0 12px;">${greeting} these were just listed on Meet Me at the Fair.</p>${sections}`,
+    cta: { url: args.manageUrl, label: "Manage saved searches" },
+    footer: `You're getting this because you saved these searches. <a href="${args.unsubscribeUrl}" style="color:#6F6455;">Stop saved-search emails</a>.`,
+  });
+  const text = `${args.name ? `Hi ${args.name},` : "Hi,"} these were just listed on Meet Me at the Fair.\n\n${args.searches
+    .map(
+      (s) =>
+        `${s.name}\n${s.events.map((e) => `- ${e.name} (${[e.when, e.place].filter(Boolean).join(" · ")})\n  ${e.url}`).join("\n")}`
+    )
+    .join(
+      "\n\n"
+    )}\n\nManage saved searches:\n${args.manageUrl}\n\nStop saved-search emails:\n${args.unsubscribeUrl}`;
+  const subject =
+    args.searches.length === 1
+      ? `${total} new ${total === 1 ? "event matches" : "events match"} "${args.searches[0].name}"`
+      : `${total} new events match your saved searches`;
+  return { subject, html, text };
+}
+
+/**
+ * A favorited event moved its dates, was postponed, cancelled or went online
+ * (src/lib/notifications/favorite-changes.ts). Opt-in: only users who turned
+ * on email for favorited-event changes in their settings get this.
+ */
+export function favoriteEventChangedTemplate(args: {
+  eventName: string;
+  eventUrl: string;
+  /** One-line title, e.g. "Fryeburg Fair has new dates". */
+  headline: string;
+  detail: string;
+  settingsUrl: string;
+}): { subject: string; html: string; text: string } {
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const html = baseLayout({
+    heading: escape(args.headline),
+    body: `<p style="margin:0 0 12px;">${escape(args.detail)}</p>
+<p style="margin:0 0 12px;">You're hearing about this because <a href="${args.eventUrl}" style="color:#1E2761;"><strong>${escape(args.eventName)}</strong></a> is one of your favorites.</p>`,
+    cta: { url: args.eventUrl, label: "See the event" },
+    footer: `Turn these emails off in your <a href="${args.settingsUrl}" style="color:#6F6455;">notification settings</a>.`,
+  });
+  const text = `${args.headline}\n\n${args.detail}\n\nYou're hearing about this because "${args.eventName}" is one of your favorites.\n\n${args.eventUrl}\n\nTurn these emails off in your notification settings:\n${args.settingsUrl}`;
+  return { subject: args.headline, html, text };
+}
+
+/**
+ * Application deadlines a week or less away for events the vendor is invited
+ * to or interested in but hasn't applied to (src/lib/vendors/deadline-reminders.ts).
+ * One email per vendor per daily pass, however many events are closing.
+ */
+export function applicationDeadlineReminderTemplate(args: {
+  name: string | null;
+  events: { name: string; url: string; deadline: string; when: string; place: string | null }[];
+  calendarUrl: string;
+  settingsUrl: string;
+}): { subject: string; html: string; text: string } {
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const greeting = args.name ? `Hi ${escape(args.name)},` : "Hi,";
+  const items = args.events
+    .map(
+      (e) =>
+        `<li style="margin-bottom:6px;"><a href="${e.url}" style="color:#1E2761;"><strong>${escape(e.name)}</strong></a> — applications close <strong>${escape(e.deadline)}</strong><br /><span style="color:#6F6455;">${escape([e.when, e.place].filter(Boolean).join(" · "))}</span></li>`
+    )
+    .join("");
+  const html = baseLayout({
+    heading:
+      args.events.length === 1
+        ? "An application deadline is coming up"
+        : "Application deadlines are coming up",
+    body: `<p style="margin:0 0 12px;">${greeting} these events stop taking vendor applications within the week, and you haven't applied yet.</p>
+<ul style="margin:0 0 12px;padding-left:20px;">${items}</ul>`,
+    cta: { url: args.calendarUrl, label: "Plan your season" },
+    footer: `Turn these emails off in your <a href="${args.settingsUrl}" style="color:#6F6455;">notification settings</a>.`,
+  });
+  const text = `${args.name ? `Hi ${args.name},` : "Hi,"} these events stop taking vendor applications within the week, and you haven't applied yet.\n\n${args.events
+    .map(
+      (e) =>
+        `- ${e.name}: applications close ${e.deadline} (${[e.when, e.place].filter(Boolean).join(" · ")})\n  ${e.url}`
+    )
+    .join(
+      "\n"
+    )}\n\nPlan your season:\n${args.calendarUrl}\n\nTurn these emails off in your notification settings:\n${args.settingsUrl}`;
+  const subject =
+    args.events.length === 1
+      ? `Applications for ${args.events[0].name} close ${args.events[0].deadline}`
+      : `${args.events.length} application deadlines this week`;
+  return { subject, html, text };
+}
+
+/**
+ * Confirmation that an account is scheduled for deletion
+ * (src/lib/account/deletion.ts). Sent on the request, not at erasure — by
+ * then the address is suppressed — so it's the one place the user learns the
+ * date and that signing in and cancelling still works until then.
+ */
+export function accountDeletionScheduledTemplate(args: {
+  name: string | null;
+  scheduledFor: string;
+  settingsUrl: string;
+}): { subject: string; html: string; text: string } {
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const greeting = args.name ? `Hi ${escape(args.name)},` : "Hi,";
+  const html = baseLayout({
+    heading: "Your account is scheduled for deletion",
+    body: `<p style="margin:0 0 12px;">${greeting} we got your request to delete your Meet Me at the Fair account. It will be deleted on <strong>${escape(args.scheduledFor)}</strong>.</p>
+<p style="margin:0 0 12px;">Until then you can sign in and cancel from your settings. Any vendor or promoter listings you manage will stay on the site as unclaimed listings.</p>
+<p style="margin:0 0 12px;">If you didn't ask for this, sign in and cancel it, then change your password.</p>`,
+    cta: { url: args.settingsUrl, label: "Cancel deletion" },
+    footer: "This is a one-time notice about your account, not a subscription.",
+  });
+  const text = `${args.name ? `Hi ${args.name},` : "Hi,"} we got your request to delete your Meet Me at the Fair account. It will be deleted on ${args.scheduledFor}.\n\nUntil then you can sign in and cancel from your settings. Any vendor or promoter listings you manage will stay on the site as unclaimed listings.\n\nIf you didn't ask for this, sign in and cancel it, then change your password.\n\n${args.settingsUrl}`;
+  return { subject: "Your account is scheduled for deletion", html, text };
+}
+
+/**
+ * Sent when wrong second-factor codes lock code entry on an account
+ * (src/lib/auth/two-factor.ts). Reaching the code step takes the password, so
+ * the point of the email is "someone has your password — change it".
+ */
+export function twoFactorLockedTemplate(args: {
+  name: string | null;
+  lockedUntil: string;
+  resetPasswordUrl: string;
+}): { subject: string; html: string; text: string } {
+  const escape = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const greeting = args.name ? `Hi ${escape(args.name)},` : "Hi,";
+  const html = baseLayout({
+    heading: "Too many wrong sign-in codes",
+    body: `<p style="margin:0 0 12px;">${greeting} someone entered your password correctly and then got the code from your authenticator app wrong too many times. We've stopped accepting codes for your account until <strong>${escape(args.lockedUntil)}</strong>.</p>
+<p style="margin:0 0 12px;">If that wasn't you, your password is known to someone else — change it now. A passkey still signs you in while codes are paused.</p>
+<p style="margin:0 0 12px;">If it was you, wait until then and try again, or use a recovery code once the pause ends.</p>`,
+    cta: { url: args.resetPasswordUrl, label: "Change your password" },
+    footer: "This is a one-time notice about your account, not a subscription.",
+  });
+  const text = `${args.name ? `Hi ${args.name},` : "Hi,"} someone entered your password correctly and then got the code from your authenticator app wrong too many times. We've stopped accepting codes for your account until ${args.lockedUntil}.\n\nIf that wasn't you, your password is known to someone else — change it now. A passkey still signs you in while codes are paused.\n\nIf it was you, wait until then and try again, or use a recovery code once the pause ends.\n\n${args.resetPasswordUrl}`;
+  return { subject: "Too many wrong sign-in codes on your account", html, text };
+}
+
 /**
  * Newsletter double opt-in confirmation. Sent once on signup; link
  * expires in 14 days (OPE-168 — NEWSLETTER_CONFIRM_TTL_DAYS). The CAN-SPAM /
@@ -283,8 +603,9 @@ function newsletterFooterHtml(args: {
   unsubscribeUrl: string;
   viewInBrowserUrl: string;
   mailing: string;
+  preferencesUrl?: string;
 }): string {
-  const { unsubscribeUrl, viewInBrowserUrl, mailing } = args;
+  const { unsubscribeUrl, viewInBrowserUrl, mailing, preferencesUrl } = args;
   return `<table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0" style="border-collapse:collapse;">
   <tr>
     <td style="background:${BAND_GREEN};padding:24px 32px;text-align:center;font-family:Georgia,'Times New Roman',serif;font-size:12px;line-height:1.6;color:${ON_BAND_MUTED};">
@@ -295,7 +616,7 @@ function newsletterFooterHtml(args: {
         <a href="${viewInBrowserUrl}" style="color:${EYEBROW_GOLD};text-decoration:underline;">View this email in your browser</a>
       </div>
       <div style="margin-top:8px;">
-        <a href="${unsubscribeUrl}" style="color:${ON_BAND_MUTED};text-decoration:underline;">Unsubscribe</a>
+        ${preferencesUrl ? `<a href="${preferencesUrl}" style="color:${ON_BAND_MUTED};text-decoration:underline;">Update your preferences</a> &nbsp;·&nbsp; ` : ""}<a href="${unsubscribeUrl}" style="color:${ON_BAND_MUTED};text-decoration:underline;">Unsubscribe</a>
       </div>
       <div style="margin-top:8px;color:${ON_BAND_MUTED};">${escapeHtmlText(mailing)}</div>
     </td>
@@ -353,6 +674,8 @@ function newsletterLayout(args: {
   unsubscribeUrl: string;
   viewInBrowserUrl: string;
   mailing: string;
+  /** drizzle/0237 — per-recipient link to /newsletter/preferences. */
+  preferencesUrl?: string;
   /** OPE-231 — preview-only approve link. Omitted on every broadcast. */
   approveUrl?: string;
   /** OPE-284 — preview composed while the broadcast gate is off: render the
@@ -367,6 +690,7 @@ function newsletterLayout(args: {
     unsubscribeUrl,
     viewInBrowserUrl,
     mailing,
+    preferencesUrl,
     approveUrl,
     approveDisabled,
   } = args;
@@ -397,7 +721,7 @@ function newsletterLayout(args: {
             </tr>
             <tr>
               <td style="padding:0;">
-                ${newsletterFooterHtml({ unsubscribeUrl, viewInBrowserUrl, mailing })}
+                ${newsletterFooterHtml({ unsubscribeUrl, viewInBrowserUrl, mailing, preferencesUrl })}
               </td>
             </tr>
           </table>
@@ -416,6 +740,9 @@ export function newsletterDigestTemplate(args: {
   contentText?: string;
   unsubscribeUrl: string;
   viewInBrowserUrl: string;
+  /** drizzle/0237 — where the subscriber sets their ZIP, radius and categories.
+   *  Signed with the same per-recipient token as `unsubscribeUrl`. */
+  preferencesUrl?: string;
   /** CAN-SPAM §5(a)(5) physical postal address. Falls back to a region line. */
   mailingAddress?: string;
   /** Masthead wordmark; OPE-191's vendor digest overrides it. */
@@ -441,6 +768,7 @@ export function newsletterDigestTemplate(args: {
     unsubscribeUrl: args.unsubscribeUrl,
     viewInBrowserUrl: args.viewInBrowserUrl,
     mailing,
+    preferencesUrl: args.preferencesUrl,
     approveUrl: args.approveUrl,
     approveDisabled: args.approveDisabled,
   });
@@ -451,11 +779,65 @@ export function newsletterDigestTemplate(args: {
       .replace(/<[^>]+>/g, " ")
       .replace(/\s+/g, " ")
       .trim();
-  const text = `${args.subject}\n\nView this issue in your browser: ${args.viewInBrowserUrl}\n\n${bodyText}\n\n—\nYou're receiving this because you subscribed to ${wordmark}, the Meet Me at the Fair weekly newsletter.\nUnsubscribe: ${args.unsubscribeUrl}\n${mailing}`;
+  const text = `${args.subject}\n\nView this issue in your browser: ${args.viewInBrowserUrl}\n\n${bodyText}\n\n—\nYou're receiving this because you subscribed to ${wordmark}, the Meet Me at the Fair weekly newsletter.\n${args.preferencesUrl ? `Update your preferences: ${args.preferencesUrl}\n` : ""}Unsubscribe: ${args.unsubscribeUrl}\n${mailing}`;
 
   return { subject: args.subject, html, text };
 }
 
+/**
+ * The per-subscriber "You might also like" block appended under a weekend
+ * issue's body for subscribers with an account and favorites. Kept out of
+ * the stored issue HTML — the archive and the view-in-browser page show the
+ * issue everyone got, not one reader's picks.
+ */
+export function newsletterRecommendationsSection(args: {
+  events: { name: string; url: string; when: string; place: string | null; reason: string }[];
+  favoritesUrl: string;
+}): { html: string; text: string } {
+  const items = args.events
+    .map(
+      (e) =>
+        `<li style="margin-bottom:8px;"><a href="${e.url}" style="color:#1f3a2d;"><strong>${escapeHtmlText(e.name)}</strong></a><br /><span style="color:#8A8178;">${escapeHtmlText([e.when, e.place].filter(Boolean).join(" · "))}</span><br /><em style="color:#8A8178;">${escapeHtmlText(e.reason)}</em></li>`
+    )
+    .join("");
+  const html = `<h2 style="margin:24px 0 8px;font-size:18px;color:#1f3a2d;">You might also like</h2>
+<p style="margin:0 0 12px;">Picked for you from the events, vendors and venues you've saved.</p>
+<ul style="margin:0 0 12px;padding-left:20px;">${items}</ul>
+<p style="margin:0 0 12px;font-size:13px;color:#8A8178;">Save more on <a href="${args.favoritesUrl}" style="color:#8A8178;">your favorites</a> to sharpen these picks.</p>`;
+  const text = `You might also like — picked for you from the events, vendors and venues you've saved:\n\n${args.events
+    .map(
+      (e) =>
+        `- ${e.name} (${[e.when, e.place].filter(Boolean).join(" · ")})\n  ${e.reason}\n  ${e.url}`
+    )
+    .join("\n")}`;
+  return { html, text };
+}
+
+/**
+ * The weekend issue's "Just added near you" block for one subscriber cohort
+ * (src/lib/newsletter/personalize.ts) — the week's new events narrowed to
+ * the cohort's ZIP radius and categories. `scope` says how ("within 25 miles
+ * of 04101"), so a reader can tell why these and not others.
+ */
+export function newsletterNearYouSection(args: {
+  scope: string;
+  events: { name: string; url: string; when: string; detail: string | null }[];
+}): { html: string; text: string } {
+  const items = args.events
+    .map(
+      (e) =>
+        `<li style="margin-bottom:8px;"><a href="${e.url}" style="color:#1f3a2d;"><strong>${escapeHtmlText(e.name)}</strong></a><br /><span style="color:#8A8178;">${escapeHtmlText([e.when, e.detail].filter(Boolean).join(" · "))}</span></li>`
+    )
+    .join("");
+  const html = `<h2 style="margin:24px 0 8px;font-size:18px;color:#1f3a2d;">Just added near you</h2>
+<p style="margin:0 0 12px;">New this week, ${escapeHtmlText(args.scope)}:</p>
+<ul style="margin:0 0 12px;padding-left:20px;">${items}</ul>`;
+  const text = `Just added near you — new this week, ${args.scope}:\n\n${args.events
+    .map((e) => `- ${e.name} (${[e.when, e.detail].filter(Boolean).join(" · ")})\n  ${e.url}`)
+    .join("\n")}`;
+  return { html, text };
+}
+
 function escapeHtmlText(s: string): string {
   return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
 }
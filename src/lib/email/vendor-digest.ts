@@ -9,6 +9,8 @@
  * Pure and side-effect-free so it's fully unit-testable; the selection query and
  * the Monday send wiring (increment 2) live elsewhere.
  */
+import type { GeoPoint } from "@takemetothefair/utils";
+
 const SITE = "https://meetmeatthefair.com";
 
 export interface VendorDigestEvent {
@@ -41,6 +43,8 @@ export interface VendorDigestEvent {
   applicationUrl: string | null;
   sourceUrl: string | null;
   promoterWebsite: string | null;
+  /** The venue's coordinates, for the per-cohort radius filter (drizzle/0237). */
+  point?: GeoPoint | null;
 }
 
 function esc(s: string): string {
@@ -164,10 +168,21 @@ function card(e: VendorDigestEvent, now: Date): string {
 /**
  * The digest inner HTML, or null when there are no shows (the caller must NOT
  * send an empty issue — that's the §2 "0 rows → skip" rule).
+ *
+ * `lead` is the per-cohort line above the intro saying what the list was
+ * narrowed by (src/lib/newsletter/personalize.ts); the stored issue has none.
  */
-export function renderVendorDigestContent(events: VendorDigestEvent[], now: Date): string | null {
+export function renderVendorDigestContent(
+  events: VendorDigestEvent[],
+  now: Date,
+  lead?: string
+): string | null {
   if (events.length === 0) return null;
 
+  const leadHtml = lead
+    ? `<p style="font-size:13px;color:#5c6b60;margin:0 0 12px;">${esc(lead)}</p>`
+    : "";
+
   const intro = `<p style="font-size:16px;line-height:1.55;color:#2A2521;margin:0 0 20px;">New shows just added to Meet Me at the Fair — with runway to apply for a booth. ${events.length} this week:</p>`;
 
   const glance = `
@@ -183,5 +198,5 @@ export function renderVendorDigestContent(events: VendorDigestEvent[], now: Date
   </table>`;
 
   const cards = events.map((e) => card(e, now)).join("");
-  return `${intro}${glance}${cards}`;
+  return `${leadHtml}${intro}${glance}${cards}`;
 }
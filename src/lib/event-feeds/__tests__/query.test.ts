@@ -0,0 +1,195 @@
+/**
+ * Syndication feed visibility + the conditional-GET path, against an in-memory
+ * SQLite. The schema carries only the columns the feed query touches.
+ */
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+
+vi.mock("@/lib/logger", () => ({ logError: vi.fn() }));
+
+import { loadSyndicationEvents } from "../query";
+import { eventFeedResponse } from "../response";
+
+const SCHEMA_SQL = `
+  CREATE TABLE venues (
+    id TEXT PRIMARY KEY, name TEXT, address TEXT, city TEXT, state TEXT, zip TEXT
+  );
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, slug TEXT, name TEXT, description TEXT,
+    status TEXT NOT NULL, lifecycle_status TEXT NOT NULL DEFAULT 'SCHEDULED',
+    start_date INTEGER, end_date INTEGER, public_start_date INTEGER, public_end_date INTEGER,
+    created_at INTEGER, updated_at INTEGER, image_url TEXT, categories TEXT,
+    venue_id TEXT, promoter_id TEXT, series_id TEXT, state_code TEXT,
+    featured INTEGER DEFAULT 0
+  );
+  CREATE TABLE event_vendors (
+    id TEXT PRIMARY KEY, event_id TEXT, vendor_id TEXT, status TEXT,
+    public_visible INTEGER NOT NULL DEFAULT 1
+  );
+`;
+
+const sqlite = new Database(":memory:");
+// Bracket-access: see newsletter-confirm-token.test.ts.
+sqlite["exec"](SCHEMA_SQL);
+const db = drizzle(sqlite) as unknown as Parameters<typeof loadSyndicationEvents>[0];
+
+const NOW = new Date(Date.UTC(2026, 6, 1, 12));
+const sec = (y: number, m: number, d: number) => Date.UTC(y, m - 1, d, 12) / 1000;
+
+function seedEvent(
+  id: string,
+  opts: {
+    status?: string;
+    lifecycle?: string;
+    start?: number | null;
+    end?: number;
+    venueId?: string;
+    seriesId?: string;
+  } = {}
+) {
+  sqlite
+    .prepare(
+      `INSERT INTO events (id, slug, name, status, lifecycle_status, start_date, end_date, created_at, updated_at, categories, venue_id, promoter_id, series_id, state_code)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'p1', ?, 'MA')`
+    )
+    .run(
+      id,
+      id,
+      `Event ${id}`,
+      opts.status ?? "APPROVED",
+      opts.lifecycle ?? "SCHEDULED",
+      opts.start === undefined ? sec(2026, 8, 1) : opts.start,
+      opts.end ?? sec(2026, 8, 2),
+      sec(2026, 5, 1),
+      sec(2026, 6, 1),
+      '["Agricultural Fair"]',
+      opts.venueId ?? "v1",
+      opts.seriesId ?? null
+    );
+}
+
+beforeEach(() => {
+  sqlite["exec"](`DELETE FROM venues; DELETE FROM events; DELETE FROM event_vendors;`);
+  sqlite
+    .prepare(`INSERT INTO venues (id, name, address, city, state, zip) VALUES (?, ?, ?, ?, ?, ?)`)
+    .run("v1", "Fairgrounds", "207 Boston St", "Topsfield", "MA", "01983");
+});
+
+afterAll(() => {
+  sqlite.close();
+});
+
+describe("loadSyndicationEvents", () => {
+  it("carries only public, upcoming, dated events in scope", async () => {
+    seedEvent("live");
+    seedEvent("tentative", { status: "TENTATIVE", start: sec(2026, 9, 1), end: sec(2026, 9, 2) });
+    seedEvent("ended", { start: sec(2026, 6, 1), end: sec(2026, 6, 2) });
+    seedEvent("draft", { status: "DRAFT" });
+    seedEvent("cancelled", { lifecycle: "CANCELLED" });
+    seedEvent("undated", { start: null });
+    seedEvent("elsewhere", { venueId: "v2" });
+
+    const rows = await loadSyndicationEvents(db, { kind: "venue", venueId: "v1" }, NOW);
+    expect(rows.map((r) => r.id)).toEqual(["live", "tentative"]);
+    expect(rows[0]).toMatchObject({
+      venueName: "Fairgrounds",
+      venueAddress: "207 Boston St",
+      venueZip: "01983",
+    });
+  });
+
+  it("scopes a series feed to its editions", async () => {
+    seedEvent("edition-2026", { seriesId: "s1" });
+    seedEvent("standalone");
+
+    const rows = await loadSyndicationEvents(db, { kind: "series", seriesId: "s1" }, NOW);
+    expect(rows.map((r) => r.id)).toEqual(["edition-2026"]);
+  });
+
+  it("scopes a vendor feed to the links the vendor's public page would show", async () => {
+    seedEvent("confirmed");
+    seedEvent("applied");
+    seedEvent("hidden");
+    const link = sqlite.prepare(
+      `INSERT INTO event_vendors (id, event_id, vendor_id, status, public_visible) VALUES (?, ?, 'vd1', ?, ?)`
+    );
+    link.run("l1", "confirmed", "CONFIRMED", 1);
+    link.run("l2", "applied", "APPLIED", 1);
+    link.run("l3", "hidden", "APPROVED", 0);
+
+    const rows = await loadSyndicationEvents(db, { kind: "vendor", vendorId: "vd1" }, NOW);
+    expect(rows.map((r) => r.id)).toEqual(["confirmed"]);
+  });
+
+  it("stops at the caller's limit", async () => {
+    seedEvent("a", { start: sec(2026, 8, 1) });
+    seedEvent("b", { start: sec(2026, 8, 3), end: sec(2026, 8, 4) });
+
+    const rows = await loadSyndicationEvents(db, { kind: "venue", venueId: "v1" }, NOW, 1);
+    expect(rows.map((r) => r.id)).toEqual(["a"]);
+  });
+});
+
+describe("eventFeedResponse", () => {
+  const args = {
+    scope: { kind: "venue", venueId: "v1" } as const,
+    format: "rss" as const,
+    title: "Fairgrounds — Meet Me at the Fair",
+    description: "Upcoming events at Fairgrounds",
+    homePageUrl: "https://meetmeatthefair.com/venues/fairgrounds",
+    source: "test",
+  };
+  // The response reads the real clock, so these rows sit well clear of it.
+  const FUTURE = { start: sec(2099, 8, 1), end: sec(2099, 8, 2) };
+  const url = "https://preview.example.com/api/feeds/venues/fairgrounds/rss.xml";
+
+  it("serves the feed with a body ETag and no Last-Modified", async () => {
+    seedEvent("live", FUTURE);
+    const res = await eventFeedResponse(db, new Request(url), args);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/rss+xml; charset=utf-8");
+    expect(res.headers.get("ETag")).toMatch(/^W\/"[0-9a-f]{32}"$/);
+    expect(res.headers.get("Last-Modified")).toBeNull();
+    const body = await res.text();
+    expect(body).toContain("<title>Event live</title>");
+    // The self link names the canonical host, whatever host served it.
+    expect(body).toContain(
+      'href="https://meetmeatthefair.com/api/feeds/venues/fairgrounds/rss.xml"'
+    );
+  });
+
+  it("answers a matching If-None-Match with 304, and a changed feed with 200", async () => {
+    seedEvent("live", FUTURE);
+    const first = await eventFeedResponse(db, new Request(url), args);
+    const etag = first.headers.get("ETag")!;
+
+    const again = await eventFeedResponse(
+      db,
+      new Request(url, { headers: { "If-None-Match": etag } }),
+      args
+    );
+    expect(again.status).toBe(304);
+    expect(await again.text()).toBe("");
+
+    // An event dropping out changes no remaining row's mtime — the body hash
+    // still sees it.
+    sqlite.prepare(`UPDATE events SET status = 'DRAFT' WHERE id = 'live'`).run();
+    const changed = await eventFeedResponse(
+      db,
+      new Request(url, { headers: { "If-None-Match": etag } }),
+      args
+    );
+    expect(changed.status).toBe(200);
+  });
+
+  it("never 304s on If-Modified-Since alone", async () => {
+    seedEvent("live", FUTURE);
+    const res = await eventFeedResponse(
+      db,
+      new Request(url, { headers: { "If-Modified-Since": new Date(2030, 0, 1).toUTCString() } }),
+      args
+    );
+    expect(res.status).toBe(200);
+  });
+});
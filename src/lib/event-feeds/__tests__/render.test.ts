@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  feedAlternates,
+  feedItemId,
+  feedSummary,
+  parseFeedFilename,
+  renderAtomFeed,
+  renderJsonFeed,
+  renderRssFeed,
+  type FeedChannel,
+} from "../render";
+import type { SyndicationEvent } from "../query";
+
+const channel: FeedChannel = {
+  title: "Topsfield Fairgrounds — Meet Me at the Fair",
+  description: "Upcoming events at Topsfield Fairgrounds",
+  homePageUrl: "https://meetmeatthefair.com/venues/topsfield-fairgrounds",
+  feedUrl: "https://meetmeatthefair.com/api/feeds/venues/topsfield-fairgrounds/rss.xml",
+};
+
+function event(overrides: Partial<SyndicationEvent> = {}): SyndicationEvent {
+  return {
+    id: "evt-1",
+    slug: "topsfield-fair-2026",
+    name: "Topsfield Fair",
+    description: "America's oldest agricultural fair.",
+    status: "APPROVED",
+    startDate: new Date(Date.UTC(2026, 9, 1, 12)),
+    endDate: new Date(Date.UTC(2026, 9, 12, 12)),
+    publicStartDate: null,
+    publicEndDate: null,
+    createdAt: new Date(Date.UTC(2026, 4, 1)),
+    updatedAt: new Date(Date.UTC(2026, 5, 15)),
+    imageUrl: "https://images.example.com/topsfield.jpg",
+    categories: '["Agricultural Fair","Fair"]',
+    venueName: "Topsfield Fairgrounds",
+    venueAddress: "207 Boston St",
+    venueCity: "Topsfield",
+    venueState: "MA",
+    venueZip: "01983",
+    ...overrides,
+  };
+}
+
+describe("parseFeedFilename", () => {
+  it("maps the three filenames and rejects anything else", () => {
+    expect(parseFeedFilename("rss.xml")).toBe("rss");
+    expect(parseFeedFilename("atom.xml")).toBe("atom");
+    expect(parseFeedFilename("feed.json")).toBe("json");
+    expect(parseFeedFilename("feed.xml")).toBeNull();
+  });
+});
+
+describe("feedSummary", () => {
+  it("says when and where, and flags tentative dates", () => {
+    const summary = feedSummary(event({ status: "TENTATIVE" }));
+    expect(summary).toContain("Topsfield Fairgrounds, 207 Boston St, Topsfield, MA 01983");
+    expect(summary).toContain("Dates not yet confirmed");
+  });
+});
+
+describe("renderRssFeed", () => {
+  it("emits a stable guid, categories, image and the event module dates", () => {
+    const xml = renderRssFeed(channel, [event()]);
+    expect(xml).toContain(
+      '<guid isPermaLink="false">tag:meetmeatthefair.com,2026:event:evt-1</guid>'
+    );
+    expect(xml).toContain("<link>https://meetmeatthefair.com/events/topsfield-fair-2026</link>");
+    expect(xml).toContain("<category>Agricultural Fair</category>");
+    expect(xml).toContain('<media:content url="https://images.example.com/topsfield.jpg"');
+    expect(xml).toContain("<ev:startdate>2026-10-01</ev:startdate>");
+    expect(xml).toContain("<ev:enddate>2026-10-12</ev:enddate>");
+    expect(xml).toContain("<ev:location>Topsfield Fairgrounds, 207 Boston St, Topsfield, MA 01983");
+    expect(xml).toContain(`href="${channel.feedUrl}" rel="self"`);
+  });
+
+  it("prefers the public span over one that includes vendor load-in", () => {
+    const xml = renderRssFeed(channel, [
+      event({ publicStartDate: new Date(Date.UTC(2026, 9, 2, 12)) }),
+    ]);
+    expect(xml).toContain("<ev:startdate>2026-10-02</ev:startdate>");
+  });
+
+  it("escapes names and descriptions", () => {
+    const xml = renderRssFeed(channel, [event({ name: "Crafts & <Quilts>" })]);
+    expect(xml).toContain("<title>Crafts &amp; &lt;Quilts&gt;</title>");
+  });
+
+  it("renders the same bytes twice — nothing reads the clock", () => {
+    expect(renderRssFeed(channel, [event()])).toBe(renderRssFeed(channel, [event()]));
+    expect(renderAtomFeed(channel, [event()])).toBe(renderAtomFeed(channel, [event()]));
+  });
+});
+
+describe("renderAtomFeed", () => {
+  it("dates the feed by its newest item and links the image as an enclosure", () => {
+    const xml = renderAtomFeed(channel, [
+      event(),
+      event({ id: "evt-2", updatedAt: new Date(Date.UTC(2026, 6, 4)) }),
+    ]);
+    expect(xml).toContain("<updated>2026-07-04T00:00:00.000Z</updated>\n  <author>");
+    expect(xml).toContain("<id>tag:meetmeatthefair.com,2026:event:evt-2</id>");
+    expect(xml).toContain(
+      '<link rel="enclosure" href="https://images.example.com/topsfield.jpg" />'
+    );
+    expect(xml).toContain('<category term="Fair" />');
+  });
+});
+
+describe("renderJsonFeed", () => {
+  it("is a JSON Feed 1.1 document with an _event extension", () => {
+    const feed = JSON.parse(renderJsonFeed(channel, [event({ imageUrl: "/uploads/a.jpg" })]));
+    expect(feed.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(feed.feed_url).toBe(channel.feedUrl);
+    const [item] = feed.items;
+    expect(item.id).toBe(feedItemId({ id: "evt-1" }));
+    expect(item.image).toBe("https://meetmeatthefair.com/uploads/a.jpg");
+    expect(item.tags).toEqual(["Agricultural Fair", "Fair"]);
+    expect(item._event).toEqual({
+      start_date: "2026-10-01",
+      end_date: "2026-10-12",
+      tentative: false,
+      location: {
+        name: "Topsfield Fairgrounds",
+        address: "207 Boston St",
+        city: "Topsfield",
+        state: "MA",
+        zip: "01983",
+      },
+    });
+  });
+
+  it("falls back to the summary when an event has no description", () => {
+    const [item] = JSON.parse(renderJsonFeed(channel, [event({ description: null })])).items;
+    expect(item.content_text).toBe(item.summary);
+  });
+});
+
+describe("feedAlternates", () => {
+  it("advertises all three formats with the query carried through", () => {
+    const types = feedAlternates("/api/feeds/events", "Massachusetts", "?state=MA");
+    expect(types["application/rss+xml"]).toEqual([
+      {
+        url: "https://meetmeatthefair.com/api/feeds/events/rss.xml?state=MA",
+        title: "Massachusetts",
+      },
+    ]);
+    expect(types["application/feed+json"][0].url).toBe(
+      "https://meetmeatthefair.com/api/feeds/events/feed.json?state=MA"
+    );
+  });
+});
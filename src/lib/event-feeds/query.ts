@@ -0,0 +1,93 @@
+/**
+ * Syndication feeds (RSS / Atom / JSON Feed) — which events a feed carries.
+ *
+ * Scope is shared with the iCal feeds (`scopeConditions`, calendar/feed-query.ts)
+ * so "a venue's events" means the same rows in a feed reader as in a calendar
+ * subscription. Visibility and the window are NOT shared:
+ *
+ *   - Visibility is exactly the public site's (`isPublicEventStatus`). The iCal
+ *     feed also carries cancelled-after-publication events so a subscribed
+ *     calendar can be told STATUS:CANCELLED; a feed reader has no such verb,
+ *     and an item titled with a cancelled fair reads as a live listing.
+ *   - The window is the listing's (`upcomingEndPredicate`). A feed item is an
+ *     invitation to go; last weekend's fair is not one, and the iCal feed's
+ *     30-day tail exists only because a calendar treats deletion as a bug.
+ */
+import { and, asc, eq, isNotNull } from "drizzle-orm";
+import { events, venues } from "@/lib/db/schema";
+import type { Database } from "@/lib/db";
+import { isPublicEventStatus } from "@/lib/event-status";
+import { upcomingEndPredicate } from "@/lib/event-dates";
+import { scopeConditions, type FeedScope } from "@/lib/calendar/feed-query";
+
+/** The favorites scope is per-user and only ever served as iCal. */
+export type SyndicationScope = Exclude<FeedScope, { kind: "favorites" }>;
+
+/** Items per feed. Readers show the newest few dozen; a state-wide feed past
+ *  this is a wall nobody scrolls, and every extra item is bytes on every poll. */
+export const SYNDICATION_ITEM_LIMIT = 100;
+
+export interface SyndicationEvent {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  status: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  /** Public span — excludes vendor-only load-in days when a schedule set it. */
+  publicStartDate: Date | null;
+  publicEndDate: Date | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  imageUrl: string | null;
+  categories: string | null;
+  venueName: string | null;
+  venueAddress: string | null;
+  venueCity: string | null;
+  venueState: string | null;
+  venueZip: string | null;
+}
+
+/** Upcoming public events in a feed's scope, soonest first. */
+export async function loadSyndicationEvents(
+  db: Database,
+  scope: SyndicationScope,
+  now: Date = new Date(),
+  limit: number = SYNDICATION_ITEM_LIMIT
+): Promise<SyndicationEvent[]> {
+  // Narrow projection — see eventJoinProjection for the 100-column cap.
+  return db
+    .select({
+      id: events.id,
+      slug: events.slug,
+      name: events.name,
+      description: events.description,
+      status: events.status,
+      startDate: events.startDate,
+      endDate: events.endDate,
+      publicStartDate: events.publicStartDate,
+      publicEndDate: events.publicEndDate,
+      createdAt: events.createdAt,
+      updatedAt: events.updatedAt,
+      imageUrl: events.imageUrl,
+      categories: events.categories,
+      venueName: venues.name,
+      venueAddress: venues.address,
+      venueCity: venues.city,
+      venueState: venues.state,
+      venueZip: venues.zip,
+    })
+    .from(events)
+    .leftJoin(venues, eq(events.venueId, venues.id))
+    .where(
+      and(
+        isPublicEventStatus(),
+        isNotNull(events.startDate),
+        upcomingEndPredicate(now),
+        ...scopeConditions(scope, now)
+      )
+    )
+    .orderBy(asc(events.startDate))
+    .limit(limit);
+}
@@ -0,0 +1,296 @@
+/**
+ * Syndication feeds — the pure half: event rows in, RSS 2.0 / Atom 1.0 /
+ * JSON Feed 1.1 out.
+ *
+ * ── Stable ids ─────────────────────────────────────────────────────────────
+ * A reader de-duplicates on the item id (RSS `guid`, Atom `id`, JSON `id`).
+ * The URL would be the obvious choice and is the wrong one: slugs change on a
+ * merge or rename (the middleware 301s the old one), and every subscriber
+ * would then see the fair arrive twice. Ids are tag URIs (RFC 4151) over the
+ * event's row id, which never changes.
+ *
+ * ── Event fields ───────────────────────────────────────────────────────────
+ * None of the three formats has a field for "when it happens" or "where".
+ * The XML feeds carry them in the RSS 1.0 event module (`ev:startdate`,
+ * `ev:enddate`, `ev:location`) — the one event vocabulary feed readers and
+ * aggregators actually recognise; JSON Feed gets an `_event` extension object,
+ * which is what the spec reserves underscore keys for. Both are repeated in
+ * the human-readable summary so a reader that ignores extensions still says
+ * when and where.
+ *
+ * ── Deterministic output ───────────────────────────────────────────────────
+ * Nothing here reads the clock. The ETag is a hash of the body (response.ts),
+ * so a `lastBuildDate` stamped per render would make every poll a full
+ * download. Atom's required feed `<updated>` is the newest item's mtime.
+ */
+import { SITE_HOSTNAME, SITE_URL } from "@takemetothefair/constants";
+import { toIsoDateOnly } from "@/lib/datetime";
+import { formatDateRange } from "@/lib/utils";
+import { xmlEscape } from "@/lib/sitemap-xml";
+import type { SyndicationEvent } from "@/lib/event-feeds/query";
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+/** The trailing path segment each format is served under. */
+export const FEED_FILENAMES: Record<FeedFormat, string> = {
+  rss: "rss.xml",
+  atom: "atom.xml",
+  json: "feed.json",
+};
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+/** `rss.xml` → `rss`; anything else → null (the route 404s). */
+export function parseFeedFilename(filename: string): FeedFormat | null {
+  const entry = Object.entries(FEED_FILENAMES).find(([, name]) => name === filename);
+  return entry ? (entry[0] as FeedFormat) : null;
+}
+
+/**
+ * `alternates.types` for a page's metadata — the `<link rel="alternate">` tags
+ * that let a reader find the feeds from the page URL alone. `feedPath` is the
+ * route without its filename, e.g. `/api/feeds/venues/topsfield-fairgrounds`.
+ */
+export function feedAlternates(
+  feedPath: string,
+  title: string,
+  search = ""
+): Record<string, { url: string; title: string }[]> {
+  const url = (format: FeedFormat) => `${SITE_URL}${feedPath}/${FEED_FILENAMES[format]}${search}`;
+  return {
+    "application/rss+xml": [{ url: url("rss"), title }],
+    "application/atom+xml": [{ url: url("atom"), title }],
+    "application/feed+json": [{ url: url("json"), title }],
+  };
+}
+
+export interface FeedChannel {
+  title: string;
+  description: string;
+  /** The page this feed mirrors, absolute. */
+  homePageUrl: string;
+  /** This feed's own URL, absolute — the `self` link readers re-poll. */
+  feedUrl: string;
+}
+
+const EVENT_MODULE_NS = "http://purl.org/rss/1.0/modules/event/";
+const MEDIA_RSS_NS = "http://search.yahoo.com/mrss/";
+const PUBLISHER = "Meet Me at the Fair";
+/** The tag URI authority date. Fixed forever — changing it re-keys every item. */
+const TAG_DATE = "2026";
+
+export function feedItemId(event: Pick<SyndicationEvent, "id">): string {
+  return `tag:${SITE_HOSTNAME},${TAG_DATE}:event:${event.id}`;
+}
+
+function eventUrl(event: SyndicationEvent): string {
+  return `${SITE_URL}/events/${event.slug}`;
+}
+
+function startOf(event: SyndicationEvent): Date | null {
+  return event.publicStartDate ?? event.startDate;
+}
+
+function endOf(event: SyndicationEvent): Date | null {
+  return event.publicEndDate ?? event.endDate ?? startOf(event);
+}
+
+function categoriesOf(event: SyndicationEvent): string[] {
+  try {
+    const parsed = JSON.parse(event.categories || "[]");
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** "Venue, 1 Fair Rd, Topsfield, MA 01983" — whichever parts exist. */
+export function feedLocation(event: SyndicationEvent): string {
+  const region = [event.venueState, event.venueZip].filter(Boolean).join(" ");
+  return [event.venueName, event.venueAddress, event.venueCity, region]
+    .filter((p): p is string => !!p && p.trim().length > 0)
+    .join(", ");
+}
+
+/** Images are stored absolute; a site-relative path is made absolute rather than dropped. */
+function imageOf(event: SyndicationEvent): string | null {
+  if (!event.imageUrl) return null;
+  if (/^https?:\/\//.test(event.imageUrl)) return event.imageUrl;
+  return event.imageUrl.startsWith("/") ? `${SITE_URL}${event.imageUrl}` : null;
+}
+
+/** One line a reader shows under the title: dates, place, and a tentative flag. */
+export function feedSummary(event: SyndicationEvent): string {
+  return [
+    formatDateRange(startOf(event), endOf(event)),
+    feedLocation(event),
+    event.status === "TENTATIVE" ? "Dates not yet confirmed" : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** Mtime of the newest item; what Atom's feed `<updated>` reports. */
+export function newestItemDate(items: SyndicationEvent[]): Date | null {
+  let newest: Date | null = null;
+  for (const item of items) {
+    const stamp = item.updatedAt ?? item.createdAt;
+    if (stamp && (!newest || stamp > newest)) newest = stamp;
+  }
+  return newest;
+}
+
+function published(event: SyndicationEvent): Date {
+  return event.createdAt ?? event.updatedAt ?? startOf(event) ?? new Date(0);
+}
+
+function modified(event: SyndicationEvent): Date {
+  return event.updatedAt ?? published(event);
+}
+
+function eventModuleXml(event: SyndicationEvent, indent: string): string {
+  const location = feedLocation(event);
+  return [
+    `${indent}<ev:startdate>${toIsoDateOnly(startOf(event))}</ev:startdate>`,
+    `${indent}<ev:enddate>${toIsoDateOnly(endOf(event))}</ev:enddate>`,
+    location ? `${indent}<ev:location>${xmlEscape(location)}</ev:location>` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function renderRssFeed(channel: FeedChannel, items: SyndicationEvent[]): string {
+  const body = items
+    .map((event) => {
+      const image = imageOf(event);
+      const description = [feedSummary(event), event.description?.trim()]
+        .filter(Boolean)
+        .join("\n\n");
+      return [
+        "    <item>",
+        `      <title>${xmlEscape(event.name)}</title>`,
+        `      <link>${xmlEscape(eventUrl(event))}</link>`,
+        `      <guid isPermaLink="false">${feedItemId(event)}</guid>`,
+        `      <description>${xmlEscape(description)}</description>`,
+        `      <pubDate>${published(event).toUTCString()}</pubDate>`,
+        ...categoriesOf(event).map((c) => `      <category>${xmlEscape(c)}</category>`),
+        image ? `      <media:content url="${xmlEscape(image)}" medium="image" />` : "",
+        eventModuleXml(event, "      "),
+        "    </item>",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:ev="${EVENT_MODULE_NS}" xmlns:media="${MEDIA_RSS_NS}">
+  <channel>
+    <title>${xmlEscape(channel.title)}</title>
+    <link>${xmlEscape(channel.homePageUrl)}</link>
+    <description>${xmlEscape(channel.description)}</description>
+    <language>en-us</language>
+    <atom:link href="${xmlEscape(channel.feedUrl)}" rel="self" type="application/rss+xml" />
+${body}
+  </channel>
+</rss>`;
+}
+
+export function renderAtomFeed(channel: FeedChannel, items: SyndicationEvent[]): string {
+  const updated = newestItemDate(items) ?? new Date(0);
+  const entries = items
+    .map((event) => {
+      const image = imageOf(event);
+      const content = event.description?.trim();
+      return [
+        "  <entry>",
+        `    <id>${feedItemId(event)}</id>`,
+        `    <title>${xmlEscape(event.name)}</title>`,
+        `    <link rel="alternate" type="text/html" href="${xmlEscape(eventUrl(event))}" />`,
+        `    <published>${published(event).toISOString()}</published>`,
+        `    <updated>${modified(event).toISOString()}</updated>`,
+        `    <summary>${xmlEscape(feedSummary(event))}</summary>`,
+        content ? `    <content type="text">${xmlEscape(content)}</content>` : "",
+        ...categoriesOf(event).map((c) => `    <category term="${xmlEscape(c)}" />`),
+        image ? `    <link rel="enclosure" href="${xmlEscape(image)}" />` : "",
+        eventModuleXml(event, "    "),
+        "  </entry>",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:ev="${EVENT_MODULE_NS}" xml:lang="en-us">
+  <id>${xmlEscape(channel.feedUrl)}</id>
+  <title>${xmlEscape(channel.title)}</title>
+  <subtitle>${xmlEscape(channel.description)}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${xmlEscape(channel.feedUrl)}" />
+  <link rel="alternate" type="text/html" href="${xmlEscape(channel.homePageUrl)}" />
+  <updated>${updated.toISOString()}</updated>
+  <author><name>${PUBLISHER}</name><uri>${SITE_URL}</uri></author>
+${entries}
+</feed>`;
+}
+
+export function renderJsonFeed(channel: FeedChannel, items: SyndicationEvent[]): string {
+  const feed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: channel.title,
+    home_page_url: channel.homePageUrl,
+    feed_url: channel.feedUrl,
+    description: channel.description,
+    language: "en-US",
+    authors: [{ name: PUBLISHER, url: SITE_URL }],
+    items: items.map((event) => {
+      const image = imageOf(event);
+      const categories = categoriesOf(event);
+      return {
+        id: feedItemId(event),
+        url: eventUrl(event),
+        title: event.name,
+        summary: feedSummary(event),
+        // content_text is required when there is no content_html; fall back to
+        // the summary so an undescribed event is still a valid item.
+        content_text: event.description?.trim() || feedSummary(event),
+        ...(image ? { image } : {}),
+        date_published: published(event).toISOString(),
+        date_modified: modified(event).toISOString(),
+        ...(categories.length > 0 ? { tags: categories } : {}),
+        _event: {
+          start_date: toIsoDateOnly(startOf(event)),
+          end_date: toIsoDateOnly(endOf(event)),
+          tentative: event.status === "TENTATIVE",
+          location: {
+            name: event.venueName,
+            address: event.venueAddress,
+            city: event.venueCity,
+            state: event.venueState,
+            zip: event.venueZip,
+          },
+        },
+      };
+    }),
+  };
+  return JSON.stringify(feed, null, 2);
+}
+
+export function renderEventFeed(
+  format: FeedFormat,
+  channel: FeedChannel,
+  items: SyndicationEvent[]
+): string {
+  switch (format) {
+    case "rss":
+      return renderRssFeed(channel, items);
+    case "atom":
+      return renderAtomFeed(channel, items);
+    case "json":
+      return renderJsonFeed(channel, items);
+  }
+}
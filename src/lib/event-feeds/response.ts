@@ -0,0 +1,96 @@
+/**
+ * The one response path for every `/api/feeds/*` route — RSS, Atom and JSON
+ * Feed for the events listing, state facets, venues, promoters and series.
+ *
+ * ── Conditional GET: ETag only ─────────────────────────────────────────────
+ * Feed readers poll on a timer, so a 304 is most of the traffic. The validator
+ * is a hash of the rendered body, checked with the same `isNotModified` the
+ * detail pages use (conditional-get.ts).
+ *
+ * There is deliberately no Last-Modified. The obvious candidate, the newest
+ * item's updated_at, is not a true validator for a feed: when a fair ends, or
+ * is cancelled, it drops out of the window while every remaining row keeps its
+ * old mtime, so a reader asking If-Modified-Since would be told "unchanged"
+ * about a feed that just lost an item. Passing `lastModified: null` means an
+ * If-Modified-Since on its own never yields a 304 — the safe direction.
+ */
+import { NextResponse } from "next/server";
+import { SITE_URL } from "@takemetothefair/constants";
+import type { Database } from "@/lib/db";
+import { logError } from "@/lib/logger";
+import { isNotModified } from "@/lib/conditional-get";
+import { loadSyndicationEvents, type SyndicationScope } from "@/lib/event-feeds/query";
+import { FEED_CONTENT_TYPES, renderEventFeed, type FeedFormat } from "@/lib/event-feeds/render";
+
+const CACHE_CONTROL = "public, max-age=3600, s-maxage=3600";
+
+export function feedNotFound(): NextResponse {
+  return new NextResponse("Feed not found", {
+    status: 404,
+    headers: { "Content-Type": "text/plain; charset=utf-8" },
+  });
+}
+
+async function bodyEtag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  return `W/"${Array.from(new Uint8Array(digest.slice(0, 16)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")}"`;
+}
+
+export async function eventFeedResponse(
+  db: Database,
+  request: Request,
+  args: {
+    scope: SyndicationScope;
+    format: FeedFormat;
+    title: string;
+    description: string;
+    /** The page the feed mirrors, absolute. */
+    homePageUrl: string;
+    /** Route identifier for error_logs, e.g. "api/feeds/venues". */
+    source: string;
+  }
+): Promise<NextResponse> {
+  try {
+    const url = new URL(request.url);
+    const items = await loadSyndicationEvents(db, args.scope);
+    const body = renderEventFeed(
+      args.format,
+      {
+        title: args.title,
+        description: args.description,
+        homePageUrl: args.homePageUrl,
+        // Canonical host, not the request's: a preview deploy must not hand
+        // readers a self link they'll re-poll forever.
+        feedUrl: `${SITE_URL}${url.pathname}${url.search}`,
+      },
+      items
+    );
+    const etag = await bodyEtag(body);
+    const headers = {
+      "Content-Type": FEED_CONTENT_TYPES[args.format],
+      "Cache-Control": CACHE_CONTROL,
+      ETag: etag,
+    };
+    if (
+      isNotModified({
+        ifNoneMatch: request.headers.get("If-None-Match"),
+        ifModifiedSince: request.headers.get("If-Modified-Since"),
+        etag,
+        lastModified: null,
+      })
+    ) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+    return new NextResponse(body, { headers });
+  } catch (error) {
+    await logError(db, {
+      message: "Error rendering event feed",
+      error,
+      source: args.source,
+      request,
+    });
+    return new NextResponse("Failed to render feed", { status: 500 });
+  }
+}
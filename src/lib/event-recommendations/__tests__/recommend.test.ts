@@ -0,0 +1,184 @@
+/**
+ * Recommendation loading against an in-memory SQLite: favorites (past events
+ * included) seed the profile, the pool is upcoming public events only, the
+ * logged-out event page falls back to the event on screen, and the newsletter
+ * gets a block only for subscribers whose account has favorites.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { getTableConfig, type SQLiteTable } from "drizzle-orm/sqlite-core";
+
+vi.mock("@/lib/logger", () => ({ logError: vi.fn(async () => undefined) }));
+
+import * as schema from "@/lib/db/schema";
+import { recommendEventsForEvent, recommendEventsForUser } from "../recommend";
+import { buildNewsletterRecommendations } from "../newsletter";
+
+// Hydration selects every event column, so the tables mirror the schema's
+// column list rather than a hand-picked subset.
+function createTable(table: SQLiteTable): string {
+  const { name, columns } = getTableConfig(table);
+  return `CREATE TABLE ${name} (${columns.map((c) => c.name).join(", ")});`;
+}
+
+type Db = Parameters<typeof recommendEventsForUser>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+const day = (n: number) => Math.floor(NOW.getTime() / 1000) + n * 86400;
+
+function addEvent(
+  id: string,
+  over: { categories?: string[]; venue?: string; start?: number; series?: string } = {},
+  extra: Record<string, unknown> = {}
+) {
+  const start = over.start ?? 30;
+  raw
+    .prepare(
+      `INSERT INTO events (id, slug, name, venue_id, series_id, categories, status, lifecycle_status, start_date, end_date)
+       VALUES (@id, @id, @name, @venue, @series, @categories, @status, @lifecycle, @start, @end)`
+    )
+    .run({
+      id,
+      name: `Fair ${id}`,
+      venue: over.venue ?? null,
+      series: over.series ?? null,
+      categories: JSON.stringify(over.categories ?? []),
+      status: "APPROVED",
+      lifecycle: "SCHEDULED",
+      start: day(start),
+      end: day(start + 2),
+      ...extra,
+    });
+}
+
+function favorite(userId: string, type: string, id: string) {
+  raw
+    .prepare(
+      `INSERT INTO user_favorites (id, user_id, favoritable_type, favoritable_id, created_at)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .run(`${userId}-${id}`, userId, type, id, day(-1));
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(
+    [
+      schema.users,
+      schema.events,
+      schema.venues,
+      schema.promoters,
+      schema.eventVendors,
+      schema.eventPerformers,
+      schema.userFavorites,
+    ]
+      .map(createTable)
+      .join("\n")
+  );
+  raw.exec(`
+    INSERT INTO users (id, email, name) VALUES ('u1', 'Fan@Example.com', 'Sam'), ('u2', 'new@example.com', NULL);
+    INSERT INTO venues (id, name, slug, city, state, latitude, longitude) VALUES
+      ('fryeburg', 'Fryeburg Fairgrounds', 'fryeburg', 'Fryeburg', 'ME', 44.02, -70.98),
+      ('bangor', 'Bass Park', 'bass-park', 'Bangor', 'ME', 44.8, -68.77);
+  `);
+  db = drizzle(raw, { schema }) as never;
+});
+
+describe("recommendEventsForUser", () => {
+  it("ranks upcoming public events from favorites, including past favorited events", async () => {
+    addEvent("last-year", { categories: ["Agricultural"], series: "fryeburg-fair", start: -300 });
+    addEvent("this-year", { categories: ["Crafts"], series: "fryeburg-fair", venue: "bangor" });
+    addEvent("ag-show", { categories: ["Agricultural"], venue: "bangor", start: 40 });
+    addEvent("unrelated", { categories: ["Music"], venue: "bangor" });
+    addEvent("draft", { categories: ["Agricultural"] }, { status: "DRAFT" });
+    addEvent("called-off", { categories: ["Agricultural"] }, { lifecycle: "CANCELLED" });
+    addEvent("far-off", { categories: ["Agricultural"], start: 400 });
+    favorite("u1", "EVENT", "last-year");
+
+    const picks = await recommendEventsForUser(db, "u1", { now: NOW, limit: 4 });
+
+    expect(picks.map((e) => [e.id, e.recommendationReason])).toEqual([
+      ["this-year", "Another edition of a fair you saved"],
+      ["ag-show", "Similar to events you like"],
+    ]);
+    expect(picks[0]!.venue?.name).toBe("Bass Park");
+    expect(await recommendEventsForUser(db, "u2", { now: NOW, limit: 4 })).toEqual([]);
+  });
+
+  it("uses favorited vendors through their public event links", async () => {
+    addEvent("with-booth", { categories: ["Music"] });
+    addEvent("hidden-booth", { categories: ["Music"] });
+    raw.exec(`
+      INSERT INTO event_vendors (id, event_id, vendor_id, status, public_visible) VALUES
+        ('l1', 'with-booth', 'kettle', 'CONFIRMED', 1),
+        ('l2', 'with-booth', 'pottery', 'CONFIRMED', 1),
+        ('l3', 'hidden-booth', 'kettle', 'CONFIRMED', 0),
+        ('l4', 'hidden-booth', 'pottery', 'APPLIED', 1);
+    `);
+    favorite("u1", "VENDOR", "kettle");
+    favorite("u1", "VENDOR", "pottery");
+
+    const picks = await recommendEventsForUser(db, "u1", { now: NOW, limit: 4 });
+    expect(picks.map((e) => [e.id, e.recommendationReason])).toEqual([
+      ["with-booth", "Vendors you follow will be there"],
+    ]);
+  });
+});
+
+describe("recommendEventsForEvent", () => {
+  it("falls back to the event on screen for logged-out visitors", async () => {
+    addEvent("viewed", { categories: ["Agricultural"], venue: "fryeburg" });
+    addEvent("same-venue", { categories: ["Music"], venue: "fryeburg" });
+    addEvent("same-kind", { categories: ["Agricultural"], venue: "bangor" });
+    addEvent("neither", { categories: ["Music"], venue: "bangor" });
+
+    const picks = await recommendEventsForEvent(db, { eventId: "viewed", now: NOW, limit: 4 });
+    expect(picks.map((e) => [e.id, e.recommendationReason])).toEqual([
+      ["same-kind", "Similar to this event"],
+      ["same-venue", "At the same venue"],
+    ]);
+    expect(await recommendEventsForEvent(db, { eventId: "missing", now: NOW, limit: 4 })).toEqual(
+      []
+    );
+  });
+
+  it("blends in a signed-in viewer's favorites without recommending them back", async () => {
+    addEvent("viewed", { categories: ["Music"] });
+    addEvent("saved", { categories: ["Crafts"] });
+    addEvent("crafty", { categories: ["Crafts"] });
+    favorite("u1", "EVENT", "saved");
+
+    const picks = await recommendEventsForEvent(db, {
+      eventId: "viewed",
+      userId: "u1",
+      now: NOW,
+      limit: 4,
+    });
+    expect(picks.map((e) => e.id)).toEqual(["crafty"]);
+    expect(picks[0]!.recommendationReason).toBe("Similar to events you like");
+  });
+});
+
+describe("buildNewsletterRecommendations", () => {
+  it("builds a block per subscriber whose account has picks, keyed by lowercased address", async () => {
+    addEvent("saved", { categories: ["Agricultural"], start: -300 });
+    addEvent("upcoming", { categories: ["Agricultural"], venue: "fryeburg" });
+    favorite("u1", "EVENT", "saved");
+
+    const sections = await buildNewsletterRecommendations(
+      db,
+      ["fan@example.com", "new@example.com", "no-account@example.com"],
+      { siteUrl: "https://example.test", now: NOW }
+    );
+
+    expect([...sections.keys()]).toEqual(["fan@example.com"]);
+    const block = sections.get("fan@example.com")!;
+    expect(block.html).toContain("You might also like");
+    expect(block.html).toContain('href="https://example.test/events/upcoming"');
+    expect(block.text).toContain("Fryeburg Fairgrounds, Fryeburg, ME");
+    expect(block.text).toContain("Similar to events you like");
+  });
+});
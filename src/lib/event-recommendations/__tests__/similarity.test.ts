@@ -0,0 +1,127 @@
+/**
+ * Attendee recommendation scoring: which signals count, how much, which one
+ * the caption names, and that ranking spreads across categories without
+ * padding the module with weak matches.
+ */
+import { describe, expect, it } from "vitest";
+import {
+  buildTasteProfile,
+  MIN_SCORE,
+  rankRecommendations,
+  scoreCandidate,
+  type SimilarityEvent,
+} from "../similarity";
+
+const PORTLAND = { latitude: 43.66, longitude: -70.26 };
+const BRUNSWICK = { latitude: 43.91, longitude: -69.96 }; // ~22 mi from Portland
+const BANGOR = { latitude: 44.8, longitude: -68.77 }; // ~105 mi
+
+function ev(id: string, over: Partial<SimilarityEvent> = {}): SimilarityEvent {
+  return {
+    id,
+    startDate: new Date("2026-08-01T00:00:00Z"),
+    categories: null,
+    venueId: null,
+    point: null,
+    seriesId: null,
+    promoterId: null,
+    vendorIds: [],
+    performerIds: [],
+    ...over,
+  };
+}
+
+describe("buildTasteProfile", () => {
+  it("weights categories by their share of the seeds and merges direct favorites", () => {
+    const profile = buildTasteProfile(
+      [
+        ev("a", { categories: '["Agricultural","Craft"]', venueId: "v1", vendorIds: ["x"] }),
+        ev("b", { categories: '["Agricultural"]', point: PORTLAND }),
+      ],
+      { vendorIds: ["y"], venueIds: ["v2"], venuePoints: [BANGOR], promoterIds: ["p1"] }
+    );
+    expect(profile.categories).toEqual(
+      new Map([
+        ["Agricultural", 1],
+        ["Craft", 0.5],
+      ])
+    );
+    expect([...profile.vendorIds].sort()).toEqual(["x", "y"]);
+    expect([...profile.venueIds].sort()).toEqual(["v1", "v2"]);
+    expect(profile.points).toEqual([PORTLAND, BANGOR]);
+    expect([...profile.promoterIds]).toEqual(["p1"]);
+    expect([...profile.seedIds].sort()).toEqual(["a", "b"]);
+  });
+});
+
+describe("scoreCandidate", () => {
+  it("names the strongest signal as the reason", () => {
+    const profile = buildTasteProfile([
+      ev("seed", { seriesId: "s1", categories: '["Craft"]', vendorIds: ["x"] }),
+    ]);
+    const next = scoreCandidate(
+      profile,
+      ev("c", { seriesId: "s1", categories: '["Craft"]', vendorIds: ["x"] })
+    );
+    expect(next?.reason).toBe("series");
+    expect(next?.score).toBe(4 + 3 + 1);
+
+    const sameBooths = scoreCandidate(
+      buildTasteProfile([ev("seed", { vendorIds: ["x", "y", "z", "w"] })]),
+      ev("c", { vendorIds: ["x", "y", "z", "w"] })
+    );
+    expect(sameBooths).toMatchObject({ reason: "vendors", score: 3 }); // capped
+  });
+
+  it("fades proximity out over 50 miles and prefers the exact venue", () => {
+    const profile = buildTasteProfile([ev("seed", { venueId: "v1", point: PORTLAND })]);
+    const near = scoreCandidate(profile, ev("near", { point: BRUNSWICK }));
+    expect(near?.reason).toBe("nearby");
+    expect(near!.score).toBeGreaterThan(0.5);
+    expect(near!.score).toBeLessThan(1.5);
+    expect(scoreCandidate(profile, ev("far", { point: BANGOR }))).toBeNull();
+    expect(scoreCandidate(profile, ev("same", { venueId: "v1", point: PORTLAND }))).toMatchObject({
+      reason: "venue",
+      score: 2,
+    });
+  });
+});
+
+describe("rankRecommendations", () => {
+  const profile = buildTasteProfile([
+    ev("seed", { categories: '["Agricultural"]', venueId: "v1", vendorIds: ["x"] }),
+  ]);
+
+  it("drops seeds, excluded ids and anything under MIN_SCORE", () => {
+    const ranked = rankRecommendations(
+      profile,
+      [
+        ev("seed", { categories: '["Agricultural"]' }),
+        ev("viewed", { categories: '["Agricultural"]' }),
+        ev("weak", { vendorIds: ["x"] }),
+        ev("good", { categories: '["Agricultural"]' }),
+      ],
+      { limit: 4, exclude: ["viewed"] }
+    );
+    expect(ranked.map((r) => r.event.id)).toEqual(["good"]);
+    expect(ranked[0]!.score).toBeGreaterThanOrEqual(MIN_SCORE);
+  });
+
+  it("orders by score, breaks ties by start date and spreads across categories", () => {
+    const at = (d: string) => new Date(`2026-${d}T00:00:00Z`);
+    const ranked = rankRecommendations(
+      buildTasteProfile([
+        ev("s1", { categories: '["Agricultural"]' }),
+        ev("s2", { categories: '["Craft"]', venueId: "v1" }),
+      ]),
+      [
+        ev("ag-late", { categories: '["Agricultural"]', startDate: at("09-01"), venueId: "v1" }),
+        ev("ag-early", { categories: '["Agricultural"]', startDate: at("07-01"), venueId: "v1" }),
+        ev("ag-third", { categories: '["Agricultural"]', startDate: at("08-01"), venueId: "v1" }),
+        ev("craft", { categories: '["Craft"]', startDate: at("10-01") }),
+      ],
+      { limit: 2 }
+    );
+    expect(ranked.map((r) => r.event.id)).toEqual(["ag-early", "craft"]);
+  });
+});
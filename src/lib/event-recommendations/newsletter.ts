@@ -0,0 +1,84 @@
+/**
+ * The weekend newsletter's "You might also like" block — one per subscriber
+ * whose address belongs to an account with favorites. Subscribers without an
+ * account (most of the list) or without favorites get no block; there's
+ * nothing to personalize from, and the issue already covers the weekend.
+ *
+ * Both weekend send paths build it: /api/admin/newsletter/send (test and
+ * broadcast) and the one-tap /api/newsletter/approve. The vendor digest
+ * doesn't — its readers want booths to apply to, not fairs to visit.
+ *
+ * Best-effort: a failure here is logged and the issue goes out without the
+ * block. The picks are a nicety; the broadcast is not.
+ */
+import { inArray, sql } from "drizzle-orm";
+import { chunkedInArray } from "@takemetothefair/utils";
+import type { Database } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { newsletterRecommendationsSection } from "@/lib/email/templates";
+import { logError } from "@/lib/logger";
+import { formatDateRange } from "@/lib/utils";
+import { recommendEventsForUsers } from "./recommend";
+
+export const NEWSLETTER_RECOMMENDATIONS = 3;
+
+/** Lowercased recipient address → the block to append for them. */
+export async function buildNewsletterRecommendations(
+  db: Database,
+  recipients: string[],
+  opts: { siteUrl: string; now?: Date }
+): Promise<Map<string, { html: string; text: string }>> {
+  try {
+    return await buildSections(db, recipients, opts);
+  } catch (error) {
+    await logError(db, {
+      level: "warn",
+      message: "newsletter recommendations: failed to build, sending without them",
+      error,
+      source: "newsletter:recommendations",
+      context: { recipients: recipients.length },
+    });
+    return new Map();
+  }
+}
+
+async function buildSections(
+  db: Database,
+  recipients: string[],
+  opts: { siteUrl: string; now?: Date }
+): Promise<Map<string, { html: string; text: string }>> {
+  const addresses = [...new Set(recipients.map((e) => e.toLowerCase()))];
+  const accounts = await chunkedInArray(addresses, (batch) =>
+    db
+      .select({ id: users.id, email: sql<string>`lower(${users.email})` })
+      .from(users)
+      .where(inArray(sql`lower(${users.email})`, batch))
+  );
+  const picks = await recommendEventsForUsers(
+    db,
+    accounts.map((a) => a.id),
+    { now: opts.now, limit: NEWSLETTER_RECOMMENDATIONS }
+  );
+
+  const sections = new Map<string, { html: string; text: string }>();
+  for (const account of accounts) {
+    const events = picks.get(account.id);
+    if (!events?.length) continue;
+    sections.set(
+      account.email,
+      newsletterRecommendationsSection({
+        events: events.map((e) => ({
+          name: e.name,
+          url: `${opts.siteUrl}/events/${e.slug}`,
+          when: formatDateRange(e.startDate, e.endDate),
+          place: e.venue
+            ? [e.venue.name, e.venue.city, e.venue.state].filter(Boolean).join(", ")
+            : null,
+          reason: e.recommendationReason,
+        })),
+        favoritesUrl: `${opts.siteUrl}/dashboard/favorites`,
+      })
+    );
+  }
+  return sections;
+}
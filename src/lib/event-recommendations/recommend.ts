@@ -0,0 +1,317 @@
+/**
+ * "You might also like" — the loading half (scoring is ./similarity.ts).
+ *
+ * Three surfaces, one pool:
+ *
+ *   • the event page — the viewer's favorites plus the event on screen, or,
+ *     logged out, the event on screen alone;
+ *   • /dashboard — the user's favorites;
+ *   • the weekend newsletter — every subscriber with an account and
+ *     favorites, scored against one shared pool per send.
+ *
+ * "Favorites" is the whole history of a user's `user_favorites`: an event
+ * hearted two summers ago still says what they like, and it's what lets
+ * this year's edition of it surface. Favorited vendors, venues and promoters
+ * feed the profile directly.
+ *
+ * The pool is the soonest CANDIDATE_POOL public events starting within
+ * RECOMMENDATION_HORIZON_DAYS, with their public vendor links and
+ * non-cancelled performer appearances. Chosen ids are hydrated with
+ * eventJoinProjection so the page can hand them straight to EventCard.
+ */
+import { and, asc, eq, inArray, isNotNull, lte, ne } from "drizzle-orm";
+import { chunkedInArray, type GeoPoint } from "@takemetothefair/utils";
+import type { Database } from "@/lib/db";
+import {
+  eventPerformers,
+  eventVendors,
+  events,
+  promoters,
+  userFavorites,
+  venues,
+} from "@/lib/db/schema";
+import { eventJoinProjection } from "@/lib/db/event-join-projection";
+import { upcomingEndPredicate } from "@/lib/event-dates";
+import { isPublicEventStatus } from "@/lib/event-status";
+import { isPubliclyVisibleVendorLink } from "@/lib/vendor-status";
+import {
+  buildTasteProfile,
+  EMPTY_FAVORITES,
+  rankRecommendations,
+  REASON_LABELS,
+  type DirectFavorites,
+  type ScoredEvent,
+  type SimilarityEvent,
+} from "./similarity";
+
+export const RECOMMENDATION_HORIZON_DAYS = 180;
+/** Soonest-first cap on candidates — a season's worth without scoring the whole table. */
+const CANDIDATE_POOL = 300;
+/** Most recent favorited events used as seeds; older ones add little past this. */
+const MAX_SEEDS = 60;
+
+type FullVenue = typeof venues.$inferSelect;
+type FullPromoter = typeof promoters.$inferSelect;
+
+export type RecommendedEvent = typeof events.$inferSelect & {
+  venue: FullVenue | null;
+  promoter: FullPromoter | null;
+  /** Caption under the card — why this one (REASON_LABELS). */
+  recommendationReason: string;
+};
+
+interface UserFavoriteSets {
+  eventIds: string[];
+  favorites: DirectFavorites;
+}
+
+const similarityColumns = {
+  id: events.id,
+  startDate: events.startDate,
+  categories: events.categories,
+  venueId: events.venueId,
+  seriesId: events.seriesId,
+  promoterId: events.promoterId,
+  latitude: venues.latitude,
+  longitude: venues.longitude,
+};
+
+type SimilarityRow = {
+  id: string;
+  startDate: Date | null;
+  categories: string | null;
+  venueId: string | null;
+  seriesId: string | null;
+  promoterId: string | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+/** Rows → SimilarityEvents, with each event's public vendors and booked performers. */
+async function withLinks(db: Database, rows: SimilarityRow[]): Promise<SimilarityEvent[]> {
+  const ids = rows.map((r) => r.id);
+  if (ids.length === 0) return [];
+  const [vendorLinks, performerLinks] = await Promise.all([
+    chunkedInArray(ids, (batch) =>
+      db
+        .select({ eventId: eventVendors.eventId, id: eventVendors.vendorId })
+        .from(eventVendors)
+        .where(and(inArray(eventVendors.eventId, batch), isPubliclyVisibleVendorLink()))
+    ),
+    chunkedInArray(ids, (batch) =>
+      db
+        .select({ eventId: eventPerformers.eventId, id: eventPerformers.performerId })
+        .from(eventPerformers)
+        .where(
+          and(inArray(eventPerformers.eventId, batch), ne(eventPerformers.status, "CANCELLED"))
+        )
+    ),
+  ]);
+  const group = (links: { eventId: string; id: string }[]) => {
+    const by = new Map<string, Set<string>>();
+    for (const { eventId, id } of links) by.set(eventId, (by.get(eventId) ?? new Set()).add(id));
+    return by;
+  };
+  const vendorsBy = group(vendorLinks);
+  const performersBy = group(performerLinks);
+  return rows.map((r) => ({
+    id: r.id,
+    startDate: r.startDate,
+    categories: r.categories,
+    venueId: r.venueId,
+    point:
+      r.latitude !== null && r.longitude !== null
+        ? { latitude: r.latitude, longitude: r.longitude }
+        : null,
+    seriesId: r.seriesId,
+    promoterId: r.promoterId,
+    vendorIds: [...(vendorsBy.get(r.id) ?? [])],
+    performerIds: [...(performersBy.get(r.id) ?? [])],
+  }));
+}
+
+async function loadCandidatePool(db: Database, now: Date): Promise<SimilarityEvent[]> {
+  const horizon = new Date(now.getTime() + RECOMMENDATION_HORIZON_DAYS * 86_400_000);
+  const rows = await db
+    .select(similarityColumns)
+    .from(events)
+    .leftJoin(venues, eq(events.venueId, venues.id))
+    .where(
+      and(
+        isPublicEventStatus(),
+        upcomingEndPredicate(now),
+        isNotNull(events.startDate),
+        lte(events.startDate, horizon)
+      )
+    )
+    .orderBy(asc(events.startDate))
+    .limit(CANDIDATE_POOL);
+  return withLinks(db, rows);
+}
+
+/** Seed events by id, past or upcoming and whatever their status — taste doesn't expire. */
+async function loadSeeds(db: Database, ids: string[]): Promise<Map<string, SimilarityEvent>> {
+  const rows = await chunkedInArray(ids, (batch) =>
+    db
+      .select(similarityColumns)
+      .from(events)
+      .leftJoin(venues, eq(events.venueId, venues.id))
+      .where(inArray(events.id, batch))
+  );
+  return new Map((await withLinks(db, rows)).map((e) => [e.id, e]));
+}
+
+async function loadFavoriteSets(
+  db: Database,
+  userIds: string[]
+): Promise<Map<string, UserFavoriteSets>> {
+  const rows = await chunkedInArray(userIds, (batch) =>
+    db
+      .select({
+        userId: userFavorites.userId,
+        type: userFavorites.favoritableType,
+        id: userFavorites.favoritableId,
+        createdAt: userFavorites.createdAt,
+      })
+      .from(userFavorites)
+      .where(inArray(userFavorites.userId, batch))
+  );
+  rows.sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+
+  const favoriteVenueIds = [...new Set(rows.filter((r) => r.type === "VENUE").map((r) => r.id))];
+  const venuePoints = new Map<string, GeoPoint>();
+  for (const v of await chunkedInArray(favoriteVenueIds, (batch) =>
+    db
+      .select({ id: venues.id, latitude: venues.latitude, longitude: venues.longitude })
+      .from(venues)
+      .where(inArray(venues.id, batch))
+  )) {
+    if (v.latitude !== null && v.longitude !== null) {
+      venuePoints.set(v.id, { latitude: v.latitude, longitude: v.longitude });
+    }
+  }
+
+  const sets = new Map<string, UserFavoriteSets>();
+  for (const row of rows) {
+    const set = sets.get(row.userId) ?? {
+      eventIds: [],
+      favorites: { vendorIds: [], venueIds: [], venuePoints: [], promoterIds: [] },
+    };
+    if (row.type === "EVENT" && set.eventIds.length < MAX_SEEDS) set.eventIds.push(row.id);
+    if (row.type === "VENDOR") set.favorites.vendorIds.push(row.id);
+    if (row.type === "PROMOTER") set.favorites.promoterIds.push(row.id);
+    if (row.type === "VENUE") {
+      set.favorites.venueIds.push(row.id);
+      const point = venuePoints.get(row.id);
+      if (point) set.favorites.venuePoints.push(point);
+    }
+    sets.set(row.userId, set);
+  }
+  return sets;
+}
+
+/** Full card rows for `scored`, in rank order, captioned for `audience`. */
+async function hydrate(
+  db: Database,
+  scored: ScoredEvent[],
+  audience: "user" | "event"
+): Promise<RecommendedEvent[]> {
+  if (scored.length === 0) return [];
+  const rows = await chunkedInArray(
+    scored.map((s) => s.event.id),
+    (batch) =>
+      db
+        .select(eventJoinProjection)
+        .from(events)
+        .leftJoin(venues, eq(events.venueId, venues.id))
+        .leftJoin(promoters, eq(events.promoterId, promoters.id))
+        .where(inArray(events.id, batch))
+  );
+  const byId = new Map(rows.map((r) => [r.events.id, r]));
+  return scored.flatMap((s) => {
+    const row = byId.get(s.event.id);
+    if (!row) return [];
+    return [
+      {
+        ...row.events,
+        venue: row.venue as FullVenue | null,
+        promoter: row.promoter as FullPromoter | null,
+        recommendationReason: REASON_LABELS[s.reason][audience],
+      },
+    ];
+  });
+}
+
+/**
+ * Recommendations for several users against one shared pool — the
+ * newsletter's path. Users without favorites are left out of the map rather
+ * than given an empty list, so "no entry" means "nothing to personalize".
+ */
+export async function recommendEventsForUsers(
+  db: Database,
+  userIds: string[],
+  opts: { now?: Date; limit: number }
+): Promise<Map<string, RecommendedEvent[]>> {
+  const now = opts.now ?? new Date();
+  const out = new Map<string, RecommendedEvent[]>();
+  const sets = await loadFavoriteSets(db, [...new Set(userIds)]);
+  if (sets.size === 0) return out;
+
+  const seedIds = [...new Set([...sets.values()].flatMap((s) => s.eventIds))];
+  const [seeds, pool] = await Promise.all([loadSeeds(db, seedIds), loadCandidatePool(db, now)]);
+
+  const picks = new Map<string, ScoredEvent[]>();
+  for (const [userId, set] of sets) {
+    const profile = buildTasteProfile(
+      set.eventIds.map((id) => seeds.get(id)).filter((s): s is SimilarityEvent => !!s),
+      set.favorites
+    );
+    const ranked = rankRecommendations(profile, pool, { limit: opts.limit, exclude: set.eventIds });
+    if (ranked.length > 0) picks.set(userId, ranked);
+  }
+
+  const allPicked = [...new Map([...picks.values()].flat().map((s) => [s.event.id, s])).values()];
+  const hydrated = new Map((await hydrate(db, allPicked, "user")).map((e) => [e.id, e] as const));
+  for (const [userId, ranked] of picks) {
+    out.set(
+      userId,
+      ranked.flatMap((s) => {
+        const event = hydrated.get(s.event.id);
+        return event ? [{ ...event, recommendationReason: REASON_LABELS[s.reason].user }] : [];
+      })
+    );
+  }
+  return out;
+}
+
+/** /dashboard — the user's favorites, or nothing when they have none yet. */
+export async function recommendEventsForUser(
+  db: Database,
+  userId: string,
+  opts: { now?: Date; limit: number }
+): Promise<RecommendedEvent[]> {
+  return (await recommendEventsForUsers(db, [userId], opts)).get(userId) ?? [];
+}
+
+/**
+ * The event page. Logged out (or logged in with no favorites), the event on
+ * screen is the only seed and the captions talk about it; logged in, it joins
+ * the user's favorites so the module still leans toward the page they're on.
+ */
+export async function recommendEventsForEvent(
+  db: Database,
+  args: { eventId: string; userId?: string | null; now?: Date; limit: number }
+): Promise<RecommendedEvent[]> {
+  const now = args.now ?? new Date();
+  const set = args.userId ? (await loadFavoriteSets(db, [args.userId])).get(args.userId) : null;
+  const seedIds = [...new Set([args.eventId, ...(set?.eventIds ?? [])])];
+  const [seeds, pool] = await Promise.all([loadSeeds(db, seedIds), loadCandidatePool(db, now)]);
+  if (!seeds.has(args.eventId)) return [];
+
+  const profile = buildTasteProfile(
+    seedIds.map((id) => seeds.get(id)).filter((s): s is SimilarityEvent => !!s),
+    set?.favorites ?? EMPTY_FAVORITES
+  );
+  const ranked = rankRecommendations(profile, pool, { limit: args.limit });
+  return hydrate(db, ranked, set ? "user" : "event");
+}
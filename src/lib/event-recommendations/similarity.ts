@@ -0,0 +1,241 @@
+/**
+ * "You might also like" for attendees — the scoring half. Not to be confused
+ * with src/lib/recommendations/, which is the admin SEO / data-quality to-do
+ * engine and recommends work, not events.
+ *
+ * A taste profile is built from seed events (a user's favorited events, or
+ * the event page being viewed) plus the vendors, venues and promoters the
+ * user favorited directly. Each upcoming candidate is scored against it on
+ * five signals:
+ *
+ *   • series     — next year's edition of a fair they saved is the strongest
+ *                  hint there is;
+ *   • categories — weighted by how much of the profile each one makes up, so
+ *                  one craft fair among ten agricultural ones is a footnote;
+ *   • vendors    — the same booths, from `event_vendors` (public links only);
+ *   • performers — the same acts;
+ *   • place      — the same venue, or close to one they like, fading out
+ *                  over PROXIMITY_MILES.
+ *
+ * Candidates that clear MIN_SCORE are ranked, and the top of the list is
+ * spread across categories with diversifyByCategory so five farmers markets
+ * don't crowd out the rest. Too few qualifying candidates means a shorter
+ * module, never filler: an unrelated event labelled "you might like" costs
+ * more trust than an empty slot.
+ *
+ * Pure; ./recommend.ts loads the profile and the pool.
+ */
+import type { GeoPoint } from "@takemetothefair/utils";
+import { diversifyByCategory } from "@/lib/diversify-by-category";
+import { haversineDistance } from "@/lib/geo";
+import { parseJsonArray } from "@/types";
+
+/** Beyond this, a venue being near somewhere the user likes says nothing. */
+export const PROXIMITY_MILES = 50;
+
+/**
+ * The least a candidate needs to be recommended. A category making up half
+ * the profile clears it, as does a favorite venue; one vendor in common, or a
+ * venue 40 miles from somewhere they like, doesn't on its own.
+ */
+export const MIN_SCORE = 1.5;
+
+const WEIGHTS = {
+  series: 4,
+  category: 3,
+  vendor: 1,
+  performer: 1.5,
+  sameVenue: 2,
+  nearVenue: 1.5,
+  promoter: 1,
+};
+const MAX_SHARED_VENDORS = 3;
+const MAX_SHARED_PERFORMERS = 2;
+
+/** An event as the scorer sees it — a seed or a candidate. */
+export interface SimilarityEvent {
+  id: string;
+  startDate: Date | null;
+  /** JSON array, as stored on `events.categories`. */
+  categories: string | null;
+  venueId: string | null;
+  point: GeoPoint | null;
+  seriesId: string | null;
+  promoterId: string | null;
+  vendorIds: string[];
+  performerIds: string[];
+}
+
+export interface DirectFavorites {
+  vendorIds: string[];
+  venueIds: string[];
+  /** Coordinates of the favorited venues that have them. */
+  venuePoints: GeoPoint[];
+  promoterIds: string[];
+}
+
+export interface TasteProfile {
+  /** Category → share of seed events carrying it (0–1). */
+  categories: Map<string, number>;
+  vendorIds: Set<string>;
+  performerIds: Set<string>;
+  venueIds: Set<string>;
+  points: GeoPoint[];
+  seriesIds: Set<string>;
+  promoterIds: Set<string>;
+  /** Seed event ids — never recommended back. */
+  seedIds: Set<string>;
+}
+
+export type RecommendationReason =
+  | "series"
+  | "category"
+  | "vendors"
+  | "performers"
+  | "venue"
+  | "nearby"
+  | "promoter";
+
+export interface ScoredEvent<T extends SimilarityEvent = SimilarityEvent> {
+  event: T;
+  score: number;
+  /** The signal that contributed most — what the module's caption explains. */
+  reason: RecommendationReason;
+}
+
+export const EMPTY_FAVORITES: DirectFavorites = {
+  vendorIds: [],
+  venueIds: [],
+  venuePoints: [],
+  promoterIds: [],
+};
+
+export function buildTasteProfile(
+  seeds: readonly SimilarityEvent[],
+  favorites: DirectFavorites = EMPTY_FAVORITES
+): TasteProfile {
+  const counts = new Map<string, number>();
+  for (const seed of seeds) {
+    for (const category of new Set(parseJsonArray(seed.categories))) {
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+  }
+  const categories = new Map<string, number>();
+  for (const [category, n] of counts) categories.set(category, n / seeds.length);
+
+  const ids = (pick: (s: SimilarityEvent) => readonly (string | null)[]) =>
+    new Set(seeds.flatMap(pick).filter((id): id is string => id !== null));
+  const vendorIds = ids((s) => s.vendorIds);
+  for (const id of favorites.vendorIds) vendorIds.add(id);
+  const venueIds = ids((s) => [s.venueId]);
+  for (const id of favorites.venueIds) venueIds.add(id);
+  const promoterIds = ids((s) => [s.promoterId]);
+  for (const id of favorites.promoterIds) promoterIds.add(id);
+
+  return {
+    categories,
+    vendorIds,
+    performerIds: ids((s) => s.performerIds),
+    venueIds,
+    points: [
+      ...seeds.map((s) => s.point).filter((p): p is GeoPoint => p !== null),
+      ...favorites.venuePoints,
+    ],
+    seriesIds: ids((s) => [s.seriesId]),
+    promoterIds,
+    seedIds: new Set(seeds.map((s) => s.id)),
+  };
+}
+
+/** Score one candidate, or null when nothing about it matches the profile. */
+export function scoreCandidate<T extends SimilarityEvent>(
+  profile: TasteProfile,
+  candidate: T
+): ScoredEvent<T> | null {
+  const parts: [RecommendationReason, number][] = [];
+
+  if (candidate.seriesId && profile.seriesIds.has(candidate.seriesId)) {
+    parts.push(["series", WEIGHTS.series]);
+  }
+
+  const share = parseJsonArray(candidate.categories).reduce(
+    (sum, c) => sum + (profile.categories.get(c) ?? 0),
+    0
+  );
+  if (share > 0) parts.push(["category", WEIGHTS.category * Math.min(share, 1)]);
+
+  const vendors = candidate.vendorIds.filter((id) => profile.vendorIds.has(id)).length;
+  if (vendors > 0) {
+    parts.push(["vendors", WEIGHTS.vendor * Math.min(vendors, MAX_SHARED_VENDORS)]);
+  }
+
+  const performers = candidate.performerIds.filter((id) => profile.performerIds.has(id)).length;
+  if (performers > 0) {
+    parts.push(["performers", WEIGHTS.performer * Math.min(performers, MAX_SHARED_PERFORMERS)]);
+  }
+
+  if (candidate.venueId && profile.venueIds.has(candidate.venueId)) {
+    parts.push(["venue", WEIGHTS.sameVenue]);
+  } else if (candidate.point && profile.points.length > 0) {
+    const { latitude, longitude } = candidate.point;
+    const nearest = Math.min(
+      ...profile.points.map((p) => haversineDistance(p.latitude, p.longitude, latitude, longitude))
+    );
+    if (nearest < PROXIMITY_MILES) {
+      parts.push(["nearby", WEIGHTS.nearVenue * (1 - nearest / PROXIMITY_MILES)]);
+    }
+  }
+
+  if (candidate.promoterId && profile.promoterIds.has(candidate.promoterId)) {
+    parts.push(["promoter", WEIGHTS.promoter]);
+  }
+
+  const [best] = parts;
+  if (!best) return null;
+  const [reason] = parts.reduce((top, part) => (part[1] > top[1] ? part : top), best);
+  return { event: candidate, score: parts.reduce((sum, [, w]) => sum + w, 0), reason };
+}
+
+function startTime(event: SimilarityEvent): number {
+  return event.startDate ? event.startDate.getTime() : Infinity;
+}
+
+/**
+ * The `limit` best candidates for `profile`, category-diversified. `exclude`
+ * adds ids beyond the seeds that mustn't come back (the event being viewed,
+ * events the user already favorited). Diversity only reaches a few places
+ * down the ranking, so it reorders strong matches rather than promoting weak
+ * ones.
+ */
+export function rankRecommendations<T extends SimilarityEvent>(
+  profile: TasteProfile,
+  candidates: readonly T[],
+  opts: { limit: number; exclude?: Iterable<string> }
+): ScoredEvent<T>[] {
+  const exclude = new Set(opts.exclude ?? []);
+  const ranked = candidates
+    .filter((c) => !profile.seedIds.has(c.id) && !exclude.has(c.id))
+    .map((c) => scoreCandidate(profile, c))
+    .filter((s): s is ScoredEvent<T> => s !== null && s.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || startTime(a.event) - startTime(b.event))
+    .slice(0, opts.limit * 3);
+  return diversifyByCategory(
+    ranked.map((s) => ({ ...s, categories: s.event.categories })),
+    opts.limit
+  ).map(({ event, score, reason }) => ({ event, score, reason }));
+}
+
+/**
+ * Caption copy for a recommendation's reason. `user` when the profile came
+ * from someone's favorites; `event` for the anonymous fallback, where the
+ * only seed is the event on screen and "you follow" would be untrue.
+ */
+export const REASON_LABELS: Record<RecommendationReason, { user: string; event: string }> = {
+  series: { user: "Another edition of a fair you saved", event: "Another edition of this event" },
+  category: { user: "Similar to events you like", event: "Similar to this event" },
+  vendors: { user: "Vendors you follow will be there", event: "Some of the same vendors" },
+  performers: { user: "Performers from events you like", event: "Some of the same performers" },
+  venue: { user: "At a venue you like", event: "At the same venue" },
+  nearby: { user: "Near places you like", event: "Nearby" },
+  promoter: { user: "From an organizer you follow", event: "Same organizer" },
+};
@@ -1,4 +1,16 @@
-import { and, eq, isNotNull, like, notLike, or, isNull, lte, count, sql } from "drizzle-orm";
+import {
+  and,
+  eq,
+  isNotNull,
+  like,
+  notLike,
+  or,
+  isNull,
+  lte,
+  count,
+  sql,
+  type SQL,
+} from "drizzle-orm";
 import { events } from "@/lib/db/schema";
 import { isPublicEventStatus } from "@/lib/event-status";
 import { upcomingEndPredicate, whenWindowEnd } from "@/lib/event-dates";
@@ -22,7 +34,9 @@ const PUBLIC_FILTER_KEYS = [
   "when",
 ] as const;
 
-type FilterableSearchParams = Partial<Record<(typeof PUBLIC_FILTER_KEYS)[number] | "page", string>>;
+export type FilterableSearchParams = Partial<
+  Record<(typeof PUBLIC_FILTER_KEYS)[number] | "page", string>
+>;
 
 /**
  * Returns true when the request carries any public filter, OR is a
@@ -41,37 +55,13 @@ export function hasPublicFilters(searchParams: FilterableSearchParams): boolean
 }
 
 /**
- * Counts events matching the public-only filter subset. Mirrors the
- * conditions in src/app/events/page.tsx:getEvents but skips the
- * user-scoped (myEvents/favorites) branches, since those are never
- * indexed. Used by /events generateMetadata to decide whether to emit
- * `robots: noindex,follow` on zero-result filtered pages.
- *
- * Intentionally not extracted from getEvents itself — getEvents accretes
- * additional conditions across many branches (auth, calendar view, etc.)
- * and refactoring it carries risk disproportionate to the noindex fix.
- * A small divergence here is acceptable: if we noindex a page that
- * *would* have had results under the full pipeline, the user can still
- * navigate to it from a UI link — only Google's crawler is affected.
+ * The attribute filters from an /events URL — everything except visibility and
+ * the date window, which each caller owns. Shared by the noindex count below and
+ * the subscribable calendar feed (src/lib/calendar/feed-query.ts), so a feed
+ * built from a filtered listing carries the same events the listing showed.
  */
-export async function countPublicFilteredEvents(
-  db: DrizzleD1Database<Record<string, unknown>>,
-  searchParams: FilterableSearchParams
-): Promise<number> {
-  const conditions = [isPublicEventStatus()];
-
-  if (searchParams.includePast !== "true") {
-    conditions.push(isNotNull(events.startDate));
-    // A2 (Dev backlog 2026-06-05): 24h end-of-day grace per upcomingEndPredicate
-    // — keep this in lockstep with src/app/events/page.tsx (same predicate).
-    conditions.push(upcomingEndPredicate(new Date()));
-  }
-
-  // C2 P2 — keep the "when" date window in lockstep with src/app/events/page.tsx.
-  const whenEnd = whenWindowEnd(searchParams.when);
-  if (whenEnd) {
-    conditions.push(lte(events.startDate, whenEnd));
-  }
+export function publicFilterConditions(searchParams: FilterableSearchParams): SQL[] {
+  const conditions: SQL[] = [];
 
   if (searchParams.query) {
     const query = sanitizeLikeInput(searchParams.query.toLowerCase().trim());
@@ -117,6 +107,44 @@ export async function countPublicFilteredEvents(
     conditions.push(eq(events.stateCode, searchParams.state));
   }
 
+  return conditions;
+}
+
+/**
+ * Counts events matching the public-only filter subset. Mirrors the
+ * conditions in src/app/events/page.tsx:getEvents but skips the
+ * user-scoped (myEvents/favorites) branches, since those are never
+ * indexed. Used by /events generateMetadata to decide whether to emit
+ * `robots: noindex,follow` on zero-result filtered pages.
+ *
+ * Intentionally not extracted from getEvents itself — getEvents accretes
+ * additional conditions across many branches (auth, calendar view, etc.)
+ * and refactoring it carries risk disproportionate to the noindex fix.
+ * A small divergence here is acceptable: if we noindex a page that
+ * *would* have had results under the full pipeline, the user can still
+ * navigate to it from a UI link — only Google's crawler is affected.
+ */
+export async function countPublicFilteredEvents(
+  db: DrizzleD1Database<Record<string, unknown>>,
+  searchParams: FilterableSearchParams
+): Promise<number> {
+  const conditions = [isPublicEventStatus()];
+
+  if (searchParams.includePast !== "true") {
+    conditions.push(isNotNull(events.startDate));
+    // A2 (Dev backlog 2026-06-05): 24h end-of-day grace per upcomingEndPredicate
+    // — keep this in lockstep with src/app/events/page.tsx (same predicate).
+    conditions.push(upcomingEndPredicate(new Date()));
+  }
+
+  // C2 P2 — keep the "when" date window in lockstep with src/app/events/page.tsx.
+  const whenEnd = whenWindowEnd(searchParams.when);
+  if (whenEnd) {
+    conditions.push(lte(events.startDate, whenEnd));
+  }
+
+  conditions.push(...publicFilterConditions(searchParams));
+
   const [row] = await db
     .select({ count: count() })
     .from(events)
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { parseRecurrenceExdates, recurrenceColumns, recurringOccurrenceDays } from "../recurrence";
+
+describe("recurrenceColumns / parseRecurrenceExdates", () => {
+  it("stores exceptions as sorted JSON alongside the rule and round-trips them", () => {
+    const cols = recurrenceColumns("FREQ=WEEKLY;BYDAY=SA", ["2026-06-13", "2026-05-30"]);
+    expect(cols).toEqual({
+      recurrenceRule: "FREQ=WEEKLY;BYDAY=SA",
+      recurrenceExdates: '["2026-05-30","2026-06-13"]',
+    });
+    expect(parseRecurrenceExdates(cols.recurrenceExdates)).toEqual(["2026-05-30", "2026-06-13"]);
+  });
+
+  it("clears exceptions with the rule, and NULLs an empty list", () => {
+    expect(recurrenceColumns(null, ["2026-05-30"])).toEqual({
+      recurrenceRule: null,
+      recurrenceExdates: null,
+    });
+    expect(recurrenceColumns("FREQ=DAILY", []).recurrenceExdates).toBeNull();
+  });
+
+  it("reads a malformed blob as no exceptions", () => {
+    expect(parseRecurrenceExdates("not json")).toEqual([]);
+    expect(parseRecurrenceExdates('["2026-05-30", 7, "May 1"]')).toEqual(["2026-05-30"]);
+  });
+});
+
+describe("recurringOccurrenceDays", () => {
+  const at = (iso: string) => new Date(`${iso}T12:00:00Z`);
+
+  it("treats a start/end that reaches the second occurrence as a season envelope", () => {
+    expect(
+      recurringOccurrenceDays({
+        startDate: at("2026-05-09"),
+        endDate: at("2026-10-10"),
+        recurrenceRule: "FREQ=MONTHLY;BYMONTH=5,6,7,8,9,10;BYDAY=2SA",
+      })
+    ).toBe(1);
+  });
+
+  it("keeps the span when start/end is the first occurrence", () => {
+    expect(
+      recurringOccurrenceDays({
+        startDate: at("2026-11-26"),
+        endDate: at("2026-11-29"),
+        recurrenceRule: "FREQ=YEARLY;BYMONTH=11;BYDAY=4TH",
+      })
+    ).toBe(4);
+  });
+
+  it("is null without a start or a parseable rule", () => {
+    expect(
+      recurringOccurrenceDays({ startDate: null, endDate: null, recurrenceRule: "FREQ=YEARLY" })
+    ).toBeNull();
+    expect(
+      recurringOccurrenceDays({
+        startDate: at("2026-11-26"),
+        endDate: null,
+        recurrenceRule: "FREQ=SOMETIMES",
+      })
+    ).toBeNull();
+  });
+});
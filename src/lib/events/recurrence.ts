@@ -0,0 +1,73 @@
+/**
+ * Storage + read helpers for an event's recurrence (drizzle/0234): the
+ * canonical RRULE in `recurrence_rule` and its EXDATE days in
+ * `recurrence_exdates`. The expansion itself is `expandRRule` in
+ * packages/utils/src/rrule.ts; this module is the app-side glue around the two
+ * columns so the write paths and the ICS emitters agree on their shape.
+ *
+ * A rule is anchored on the event's start date (its DTSTART). Editors generate
+ * event_days from it and store both, so the days stay authoritative for
+ * display and the rule is what calendar clients and the series tooling read.
+ */
+import { expandRRule, parseRRule } from "@takemetothefair/utils";
+import { toIsoDateOnly } from "@/lib/datetime";
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** The EXDATE days stored for an event; `[]` for NULL or a malformed blob. */
+export function parseRecurrenceExdates(json: string | null | undefined): string[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed)
+      ? parsed.filter((d): d is string => typeof d === "string" && DATE_KEY.test(d))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Column values for a validated rule + exceptions (recurrenceRuleSchema has
+ * already canonicalized the rule). Exceptions without a rule mean nothing, so
+ * clearing the rule clears them too.
+ */
+export function recurrenceColumns(
+  rule: string | null | undefined,
+  exdates: readonly string[] | null | undefined
+): { recurrenceRule: string | null; recurrenceExdates: string | null } {
+  if (!rule) return { recurrenceRule: null, recurrenceExdates: null };
+  const days = [...new Set(exdates ?? [])].sort();
+  return { recurrenceRule: rule, recurrenceExdates: days.length > 0 ? JSON.stringify(days) : null };
+}
+
+export interface RecurringEventLike {
+  startDate: Date | string | null;
+  endDate: Date | string | null;
+  recurrenceRule?: string | null;
+  recurrenceExdates?: string | null;
+}
+
+/**
+ * How many days one occurrence lasts, for emitters that hand the rule to a
+ * calendar client as a single repeating VEVENT.
+ *
+ * start/end mean one of two things on a recurring event: the first
+ * occurrence ("Thanksgiving weekend": Thursday–Sunday, repeating yearly), or
+ * the whole season ("every 2nd Saturday": May 9 – Oct 10). The second
+ * occurrence tells them apart — if the event's end reaches it, start/end is
+ * the season envelope and each occurrence is a single day; otherwise the span
+ * is the occurrence. Null when the rule doesn't parse or there's no start.
+ */
+export function recurringOccurrenceDays(event: RecurringEventLike): number | null {
+  const startIso = toIsoDateOnly(event.startDate);
+  if (!startIso || !event.recurrenceRule || !parseRRule(event.recurrenceRule).ok) return null;
+  const endIso = toIsoDateOnly(event.endDate) || startIso;
+  const span =
+    Math.round(
+      (Date.parse(`${endIso}T00:00:00Z`) - Date.parse(`${startIso}T00:00:00Z`)) / 86_400_000
+    ) + 1;
+  if (span <= 1) return 1;
+  const [, second] = expandRRule(event.recurrenceRule, { dtstart: startIso, limit: 2 });
+  return second && second <= endIso ? 1 : span;
+}
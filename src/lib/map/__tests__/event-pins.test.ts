@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { colorForCategory } from "@/lib/calendar/colors";
+import { buildEventPins, clusterPins, type MapEventInput } from "../event-pins";
+
+const skowhegan = {
+  id: "v-skow",
+  name: "Skowhegan Fairgrounds",
+  city: "Skowhegan",
+  state: "ME",
+  latitude: 44.7651,
+  longitude: -69.7193,
+};
+const fryeburg = {
+  id: "v-frye",
+  name: "Fryeburg Fairgrounds",
+  city: "Fryeburg",
+  state: "ME",
+  latitude: 44.0173,
+  longitude: -70.9806,
+};
+
+function event(id: string, overrides: Partial<MapEventInput> = {}): MapEventInput {
+  return {
+    id,
+    slug: id,
+    name: id,
+    startDate: new Date("2026-08-01T12:00:00Z"),
+    endDate: null,
+    categories: '["Fair"]',
+    isStatewide: false,
+    stateCode: "ME",
+    venue: skowhegan,
+    ...overrides,
+  };
+}
+
+describe("buildEventPins", () => {
+  it("puts a venue's events on one pin, soonest first, with category colors", () => {
+    const { pins, unplaced } = buildEventPins([
+      event("late", { startDate: new Date("2026-09-12T12:00:00Z") }),
+      event("early", { categories: '["Market","Fair"]' }),
+      event("frye", { venue: fryeburg }),
+    ]);
+    expect(unplaced).toEqual([]);
+    expect(pins.map((p) => p.key)).toEqual(["venue:v-skow", "venue:v-frye"]);
+    expect(pins[0]!.sublabel).toBe("Skowhegan, ME");
+    expect(pins[0]!.events.map((e) => [e.id, e.category, e.color])).toEqual([
+      ["early", "Market", colorForCategory("Market")],
+      ["late", "Fair", colorForCategory("Fair")],
+    ]);
+  });
+
+  it("pins statewide events at their state's center and returns the rest unplaced", () => {
+    const ungeocoded = event("ungeocoded", {
+      venue: { ...fryeburg, id: "v-new", latitude: null, longitude: null },
+    });
+    const tbd = event("tbd", { venue: null });
+    const elsewhere = event("elsewhere", { isStatewide: true, stateCode: "NY", venue: null });
+    const { pins, unplaced } = buildEventPins([
+      event("open-farm-day", { isStatewide: true, venue: null, categories: null }),
+      ungeocoded,
+      tbd,
+      elsewhere,
+    ]);
+    expect(pins).toHaveLength(1);
+    expect(pins[0]).toMatchObject({
+      key: "state:ME",
+      kind: "statewide",
+      label: "Statewide — Maine",
+      point: { latitude: 45.25, longitude: -69.23 },
+    });
+    expect(pins[0]!.events[0]!.color).toBeNull();
+    expect(unplaced).toEqual([ungeocoded, tbd, elsewhere]);
+  });
+});
+
+describe("clusterPins", () => {
+  const { pins } = buildEventPins([
+    event("skow-1"),
+    event("skow-2"),
+    event("frye", { venue: fryeburg }),
+    event("statewide", { isStatewide: true, venue: null }),
+  ]);
+
+  it("merges nearby venues at state zoom and separates them closer in", () => {
+    const far = clusterPins(pins, 5);
+    const merged = far.find((c) => c.pins.length > 1)!;
+    expect(merged.eventCount).toBe(3);
+    expect(merged.key).toMatch(/^cluster:5:/);
+
+    const near = clusterPins(pins, 10);
+    expect(near.map((c) => c.key).sort()).toEqual(["state:ME", "venue:v-frye", "venue:v-skow"]);
+  });
+
+  it("never folds a statewide pin into a venue cluster", () => {
+    for (const zoom of [3, 4, 5, 6]) {
+      const statewide = clusterPins(pins, zoom).find((c) => c.key === "state:ME");
+      expect(statewide?.pins).toHaveLength(1);
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_TILE_URL,
+  MAP_DEFAULT_VIEW,
+  MAP_MAX_FIT_ZOOM,
+  fitView,
+  mapTileConfig,
+  panBy,
+  project,
+  tileUrl,
+  toViewport,
+  unproject,
+  visibleTiles,
+  zoomAt,
+} from "../web-mercator";
+
+const portland = { latitude: 43.6591, longitude: -70.2568 };
+const burlington = { latitude: 44.4759, longitude: -73.2121 };
+
+describe("project / unproject", () => {
+  it("puts 0,0 in the middle of the world and round-trips", () => {
+    expect(project({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: 128, y: 128 });
+    const back = unproject(project(portland, 9), 9);
+    expect(back.latitude).toBeCloseTo(portland.latitude, 6);
+    expect(back.longitude).toBeCloseTo(portland.longitude, 6);
+  });
+
+  it("lands Portland, ME on its standard tile", () => {
+    const { x, y } = project(portland, 10);
+    expect([Math.floor(x / 256), Math.floor(y / 256)]).toEqual([312, 373]);
+  });
+});
+
+describe("fitView", () => {
+  it("centers between the points at the deepest zoom that fits both", () => {
+    const view = fitView([portland, burlington], 800, 500);
+    expect(view.zoom).toBe(8);
+    const a = toViewport(portland, view, 800, 500);
+    const b = toViewport(burlington, view, 800, 500);
+    for (const p of [a, b]) {
+      expect(p.x).toBeGreaterThanOrEqual(40);
+      expect(p.x).toBeLessThanOrEqual(760);
+      expect(p.y).toBeGreaterThanOrEqual(40);
+      expect(p.y).toBeLessThanOrEqual(460);
+    }
+  });
+
+  it("caps a single point at the fit ceiling and falls back with none", () => {
+    const single = fitView([portland], 800, 500);
+    expect(single.zoom).toBe(MAP_MAX_FIT_ZOOM);
+    expect(single.center.latitude).toBeCloseTo(portland.latitude, 6);
+    expect(fitView([], 800, 500)).toBe(MAP_DEFAULT_VIEW);
+  });
+});
+
+describe("visibleTiles / panBy", () => {
+  it("covers the viewport and wraps columns across the antimeridian", () => {
+    const tiles = visibleTiles({ center: { latitude: 0, longitude: 180 }, zoom: 1 }, 300, 200);
+    expect(tiles.map((t) => t.x).sort()).toEqual([0, 0, 1, 1]);
+    for (const t of tiles) {
+      expect(t.left).toBeLessThan(300);
+      expect(t.left + 256).toBeGreaterThan(0);
+    }
+  });
+
+  it("moves the center opposite the drag", () => {
+    const view = { center: portland, zoom: 8 };
+    const moved = panBy(view, 100, 0);
+    expect(moved.center.longitude).toBeLessThan(portland.longitude);
+    expect(toViewport(portland, moved, 800, 500).x).toBeCloseTo(500, 6);
+  });
+
+  it("zooms toward an anchor without moving what's under it", () => {
+    const view = { center: portland, zoom: 7 };
+    const anchor = toViewport(burlington, view, 800, 500);
+    const zoomed = zoomAt(view, 9, anchor, 800, 500);
+    const after = toViewport(burlington, zoomed, 800, 500);
+    expect(after.x).toBeCloseTo(anchor.x, 6);
+    expect(after.y).toBeCloseTo(anchor.y, 6);
+  });
+});
+
+describe("tile provider", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("fills the template, including a rotating subdomain", () => {
+    expect(tileUrl("https://{s}.tiles.example/{z}/{x}/{y}.png", { z: 7, x: 39, y: 47 })).toBe(
+      "https://c.tiles.example/7/39/47.png"
+    );
+  });
+
+  it("reads a self-hosted provider from the environment", () => {
+    expect(mapTileConfig().url).toBe(DEFAULT_TILE_URL);
+    vi.stubEnv("NEXT_PUBLIC_MAP_TILE_URL", "/tiles/{z}/{x}/{y}.webp");
+    vi.stubEnv("NEXT_PUBLIC_MAP_TILE_MAX_ZOOM", "14");
+    expect(mapTileConfig()).toMatchObject({ url: "/tiles/{z}/{x}/{y}.webp", maxZoom: 14 });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Events → map pins for the events map view. One pin per venue (a fairground
+ * hosting a dozen markets is one place to drive to, not twelve), statewide
+ * events pinned at their state's center, and whatever can't be placed handed
+ * back so the map can list it beside itself rather than drop it.
+ *
+ * Pins then cluster per zoom level by screen distance, so a weekend's worth of
+ * southern Maine reads as one "14" bubble at state zoom and separates into
+ * venues as the visitor zooms in.
+ */
+import type { GeoPoint } from "@takemetothefair/utils";
+import { colorForCategory } from "@/lib/calendar/colors";
+import { getStateMapCenter, getStateName } from "@/lib/states";
+import { parseJsonArray } from "@/types";
+import { project } from "./web-mercator";
+
+/**
+ * The most events a map view loads. The listing's list views page at 30; the
+ * map shows the filtered set at once, and this keeps an unfiltered
+ * include-past map from pulling the whole table.
+ */
+export const MAP_VIEW_MAX_EVENTS = 500;
+
+/** How close, in screen pixels, pins have to be to merge. About one and a half marker widths. */
+export const CLUSTER_RADIUS_PX = 40;
+
+export interface MapEventInput {
+  id: string;
+  slug: string;
+  name: string;
+  startDate: Date | string | null;
+  endDate: Date | string | null;
+  categories: string | null;
+  isStatewide?: boolean | null;
+  stateCode?: string | null;
+  venue: {
+    id: string;
+    name: string;
+    city: string | null;
+    state: string | null;
+    latitude: number | null;
+    longitude: number | null;
+  } | null;
+}
+
+export interface MapPinEvent {
+  id: string;
+  slug: string;
+  name: string;
+  startDate: Date | string | null;
+  endDate: Date | string | null;
+  category: string | null;
+  /** Palette color for `category` (calendar/colors.ts); null for an uncategorized event. */
+  color: string | null;
+}
+
+export interface EventPin {
+  key: string;
+  kind: "venue" | "statewide";
+  point: GeoPoint;
+  label: string;
+  sublabel: string | null;
+  events: MapPinEvent[];
+}
+
+export interface PinCluster {
+  key: string;
+  point: GeoPoint;
+  pins: EventPin[];
+  eventCount: number;
+}
+
+function toPinEvent(event: MapEventInput): MapPinEvent {
+  const category = parseJsonArray(event.categories)[0] ?? null;
+  return {
+    id: event.id,
+    slug: event.slug,
+    name: event.name,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    category,
+    color: category ? colorForCategory(category) : null,
+  };
+}
+
+function startTime(event: MapPinEvent): number {
+  if (!event.startDate) return Infinity;
+  const t = new Date(event.startDate).getTime();
+  return Number.isNaN(t) ? Infinity : t;
+}
+
+/**
+ * Group events into pins. An event with a geocoded venue joins that venue's
+ * pin; a statewide event joins its state's; anything else — a venue still
+ * awaiting geocoding, a TBD location, a statewide event outside the states we
+ * know — comes back in `unplaced`, in input order.
+ */
+export function buildEventPins<T extends MapEventInput>(
+  events: readonly T[]
+): { pins: EventPin[]; unplaced: T[] } {
+  const pins = new Map<string, EventPin>();
+  const unplaced: T[] = [];
+  for (const event of events) {
+    const venue = event.venue;
+    const stateCenter = event.isStatewide ? getStateMapCenter(event.stateCode) : null;
+    let pin: EventPin | undefined;
+    if (!event.isStatewide && venue && venue.latitude !== null && venue.longitude !== null) {
+      const key = `venue:${venue.id}`;
+      pin = pins.get(key) ?? {
+        key,
+        kind: "venue",
+        point: { latitude: venue.latitude, longitude: venue.longitude },
+        label: venue.name,
+        sublabel: [venue.city, venue.state].filter(Boolean).join(", ") || null,
+        events: [],
+      };
+    } else if (stateCenter && event.stateCode) {
+      const key = `state:${event.stateCode}`;
+      pin = pins.get(key) ?? {
+        key,
+        kind: "statewide",
+        point: stateCenter,
+        label: `Statewide — ${getStateName(event.stateCode)}`,
+        sublabel: "Held across the state, or at locations still to be announced",
+        events: [],
+      };
+    }
+    if (!pin) {
+      unplaced.push(event);
+      continue;
+    }
+    pin.events.push(toPinEvent(event));
+    pins.set(pin.key, pin);
+  }
+  for (const pin of pins.values()) pin.events.sort((a, b) => startTime(a) - startTime(b));
+  return { pins: [...pins.values()], unplaced };
+}
+
+/**
+ * Merge venue pins within `radiusPx` screen pixels of a cluster's seed (its
+ * first pin, west to east) at `zoom`. Seeding beats a fixed grid here: two
+ * fairgrounds a few pixels apart on either side of a grid line would otherwise
+ * stay apart at every zoom until that line moves.
+ *
+ * Statewide pins never merge: they sit on an approximate center, and folding
+ * them into whatever venue happens to be nearby would place those events
+ * somewhere specific they aren't.
+ */
+export function clusterPins(
+  pins: readonly EventPin[],
+  zoom: number,
+  radiusPx = CLUSTER_RADIUS_PX
+): PinCluster[] {
+  const clusters: PinCluster[] = [];
+  const seeds: { x: number; y: number; members: EventPin[] }[] = [];
+  const placed = pins
+    .filter((pin) => pin.kind === "venue")
+    .map((pin) => ({ pin, ...project(pin.point, zoom) }))
+    .sort((a, b) => a.x - b.x || a.y - b.y);
+  for (const { pin, x, y } of placed) {
+    const seed = seeds.find((s) => Math.abs(s.x - x) <= radiusPx && Math.abs(s.y - y) <= radiusPx);
+    if (seed) seed.members.push(pin);
+    else seeds.push({ x, y, members: [pin] });
+  }
+  for (const { members } of seeds) {
+    const latitude = members.reduce((sum, p) => sum + p.point.latitude, 0) / members.length;
+    const longitude = members.reduce((sum, p) => sum + p.point.longitude, 0) / members.length;
+    clusters.push({
+      key: members.length === 1 ? members[0]!.key : `cluster:${zoom}:${members[0]!.key}`,
+      point: { latitude, longitude },
+      pins: members,
+      eventCount: members.reduce((sum, p) => sum + p.events.length, 0),
+    });
+  }
+  for (const pin of pins) {
+    if (pin.kind !== "statewide") continue;
+    clusters.push({ key: pin.key, point: pin.point, pins: [pin], eventCount: pin.events.length });
+  }
+  return clusters;
+}
@@ -0,0 +1,217 @@
+/**
+ * The slippy-map arithmetic behind the events map view: Web Mercator
+ * projection, fitting a set of pins to a viewport, and which 256px tiles cover
+ * it. Pure and dependency-free so the client component stays a thin renderer
+ * and the math is testable on its own.
+ *
+ * Tiles come from a URL template (`{z}/{x}/{y}`, optional `{s}` subdomain)
+ * read from NEXT_PUBLIC_MAP_TILE_URL, so pointing the map at a self-hosted
+ * tile server or a commercial provider is a build-env change, not a code one.
+ * The default is the OpenStreetMap standard layer, which is fine for
+ * development but whose usage policy rules it out for production traffic.
+ */
+import type { GeoPoint } from "@takemetothefair/utils";
+
+export const TILE_SIZE = 256;
+export const MAP_MIN_ZOOM = 3;
+/** Closest a fit zooms on its own — one pin at street level says less than one at town level. */
+export const MAP_MAX_FIT_ZOOM = 12;
+/** Roughly the six states, for a map with nothing on it yet. */
+export const MAP_DEFAULT_VIEW: MapView = {
+  center: { latitude: 43.9, longitude: -71.3 },
+  zoom: 6,
+};
+
+export const DEFAULT_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const DEFAULT_TILE_ATTRIBUTION = "© OpenStreetMap contributors";
+const DEFAULT_TILE_MAX_ZOOM = 18;
+
+/** Web Mercator's latitude limit; the projection runs to infinity at the poles. */
+const MAX_LATITUDE = 85.0511287798;
+
+export interface MapView {
+  center: GeoPoint;
+  /** Integer zoom; tiles only exist at whole levels. */
+  zoom: number;
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapTile {
+  key: string;
+  z: number;
+  /** Tile column, wrapped into [0, 2^z) — the world repeats east–west. */
+  x: number;
+  y: number;
+  /** Offset of the tile's top-left corner from the viewport's, in pixels. */
+  left: number;
+  top: number;
+}
+
+export interface MapTileConfig {
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+/**
+ * The tile provider for this build. NEXT_PUBLIC_* values are inlined at build
+ * time, so they have to be set where the site is built, not only at runtime.
+ */
+export function mapTileConfig(): MapTileConfig {
+  const maxZoom = Number(process.env.NEXT_PUBLIC_MAP_TILE_MAX_ZOOM);
+  return {
+    url: process.env.NEXT_PUBLIC_MAP_TILE_URL || DEFAULT_TILE_URL,
+    attribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || DEFAULT_TILE_ATTRIBUTION,
+    maxZoom: Number.isInteger(maxZoom) && maxZoom >= MAP_MIN_ZOOM ? maxZoom : DEFAULT_TILE_MAX_ZOOM,
+  };
+}
+
+function worldSize(zoom: number): number {
+  return TILE_SIZE * 2 ** zoom;
+}
+
+/** A point's position in world pixels at `zoom` (origin at the top-left of tile 0/0). */
+export function project(point: GeoPoint, zoom: number): PixelPoint {
+  const size = worldSize(zoom);
+  const lat = Math.max(Math.min(point.latitude, MAX_LATITUDE), -MAX_LATITUDE);
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((point.longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+/** The inverse of `project`. */
+export function unproject(pixel: PixelPoint, zoom: number): GeoPoint {
+  const size = worldSize(zoom);
+  const n = Math.PI - (2 * Math.PI * pixel.y) / size;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (pixel.x / size) * 360 - 180,
+  };
+}
+
+export function clampZoom(zoom: number, maxZoom: number): number {
+  return Math.min(Math.max(Math.round(zoom), MAP_MIN_ZOOM), maxZoom);
+}
+
+/**
+ * Center and zoom that show every point inside a `width`×`height` viewport
+ * with `padding` pixels to spare: the deepest whole zoom at which the points'
+ * pixel extent fits, capped at MAP_MAX_FIT_ZOOM.
+ */
+export function fitView(
+  points: readonly GeoPoint[],
+  width: number,
+  height: number,
+  padding = 40
+): MapView {
+  if (points.length === 0 || width <= 0 || height <= 0) return MAP_DEFAULT_VIEW;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of points) {
+    const { x, y } = project(p, 0);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  const center = unproject({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, 0);
+  const innerWidth = Math.max(width - 2 * padding, 1);
+  const innerHeight = Math.max(height - 2 * padding, 1);
+  const scale = Math.min(
+    maxX > minX ? innerWidth / (maxX - minX) : Infinity,
+    maxY > minY ? innerHeight / (maxY - minY) : Infinity
+  );
+  const zoom = Number.isFinite(scale) ? Math.floor(Math.log2(scale)) : MAP_MAX_FIT_ZOOM;
+  return { center, zoom: Math.min(Math.max(zoom, MAP_MIN_ZOOM), MAP_MAX_FIT_ZOOM) };
+}
+
+/** Where a point lands in the viewport, in pixels from its top-left corner. */
+export function toViewport(
+  point: GeoPoint,
+  view: MapView,
+  width: number,
+  height: number
+): PixelPoint {
+  const c = project(view.center, view.zoom);
+  const p = project(point, view.zoom);
+  return { x: p.x - c.x + width / 2, y: p.y - c.y + height / 2 };
+}
+
+/** The view after dragging the map by (dx, dy) pixels. */
+export function panBy(view: MapView, dx: number, dy: number): MapView {
+  const c = project(view.center, view.zoom);
+  const center = unproject({ x: c.x - dx, y: c.y - dy }, view.zoom);
+  return {
+    center: {
+      latitude: Math.max(Math.min(center.latitude, MAX_LATITUDE), -MAX_LATITUDE),
+      longitude: ((((center.longitude + 180) % 360) + 360) % 360) - 180,
+    },
+    zoom: view.zoom,
+  };
+}
+
+/**
+ * The view at `zoom` that keeps whatever is under `anchor` (viewport pixels)
+ * where it is — double-click zooms toward the cursor, not the middle.
+ */
+export function zoomAt(
+  view: MapView,
+  zoom: number,
+  anchor: PixelPoint,
+  width: number,
+  height: number
+): MapView {
+  const c = project(view.center, view.zoom);
+  const dx = anchor.x - width / 2;
+  const dy = anchor.y - height / 2;
+  const under = unproject({ x: c.x + dx, y: c.y + dy }, view.zoom);
+  const p = project(under, zoom);
+  return { center: unproject({ x: p.x - dx, y: p.y - dy }, zoom), zoom };
+}
+
+/** Every tile that overlaps the viewport, positioned relative to it. */
+export function visibleTiles(view: MapView, width: number, height: number): MapTile[] {
+  const z = view.zoom;
+  const count = 2 ** z;
+  const c = project(view.center, z);
+  const left = c.x - width / 2;
+  const top = c.y - height / 2;
+  const tiles: MapTile[] = [];
+  const firstY = Math.max(Math.floor(top / TILE_SIZE), 0);
+  const lastY = Math.min(Math.floor((top + height) / TILE_SIZE), count - 1);
+  for (let ty = firstY; ty <= lastY; ty++) {
+    for (
+      let tx = Math.floor(left / TILE_SIZE);
+      tx <= Math.floor((left + width) / TILE_SIZE);
+      tx++
+    ) {
+      const x = ((tx % count) + count) % count;
+      tiles.push({
+        key: `${z}/${tx}/${ty}`,
+        z,
+        x,
+        y: ty,
+        left: Math.round(tx * TILE_SIZE - left),
+        top: Math.round(ty * TILE_SIZE - top),
+      });
+    }
+  }
+  return tiles;
+}
+
+/** Fill a `{z}/{x}/{y}` template; `{s}` rotates across the a/b/c subdomains some providers use. */
+export function tileUrl(template: string, tile: Pick<MapTile, "z" | "x" | "y">): string {
+  return template
+    .replace("{z}", String(tile.z))
+    .replace("{x}", String(tile.x))
+    .replace("{y}", String(tile.y))
+    .replace("{s}", "abc"[(tile.x + tile.y) % 3]!);
+}
@@ -0,0 +1,161 @@
+/**
+ * Radius search, the SQL half (drizzle/0235). The input parsing and geometry
+ * live in packages/utils/src/near-search.ts so the MCP Worker shares them; this
+ * module turns a resolved center into drizzle predicates for whichever
+ * lat/lng column pair a caller passes — venue coordinates for events, the
+ * vendor's own for vendors.
+ *
+ * Every radius predicate leads with the enclosing box so SQLite can range-scan
+ * idx_venues_lat_lng / idx_vendors_lat_lng; the distance arithmetic then only
+ * runs on the rows inside it. Rows without coordinates never match — there is
+ * no way to show they are inside.
+ */
+import { and, desc, eq, gte, isNotNull, lte, sql, type SQL } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import {
+  milesBetween,
+  nearBoundingBox,
+  nearDistanceScale,
+  normalizeZip,
+  parseNearParam,
+  parseRadiusMiles,
+  type GeoPoint,
+} from "@takemetothefair/utils";
+import { locations, locationZips } from "@/lib/db/schema";
+import type { getCloudflareDb } from "@/lib/cloudflare";
+
+type Db = ReturnType<typeof getCloudflareDb>;
+
+export interface NearSearch {
+  center: GeoPoint;
+  radiusMiles: number;
+  /** The ZIP the center came from, when it came from one. */
+  zip: string | null;
+  /** Human label for the center: "04101 (Portland, ME)", or null for raw coordinates. */
+  label: string | null;
+}
+
+export interface NearSearchInput {
+  near?: string | null;
+  zip?: string | null;
+  radius?: string | number | null;
+}
+
+export interface ResolvedNearSearch {
+  search: NearSearch | null;
+  /** The ZIP as entered, when it was given but couldn't be placed on the map. */
+  unknownZip: string | null;
+}
+
+/**
+ * Center for a ZIP via location_zips. A ZIP can span several places
+ * (Waterville and Winslow share 04901), so the most populous one with
+ * coordinates stands in for it.
+ */
+export async function resolveZipCenter(
+  db: Db,
+  zip: string
+): Promise<{ center: GeoPoint; placeName: string; state: string } | null> {
+  const [row] = await db
+    .select({
+      latitude: locations.latitude,
+      longitude: locations.longitude,
+      name: locations.name,
+      state: locations.state,
+    })
+    .from(locationZips)
+    .innerJoin(locations, eq(locationZips.locationId, locations.id))
+    .where(
+      and(eq(locationZips.zip, zip), isNotNull(locations.latitude), isNotNull(locations.longitude))
+    )
+    .orderBy(desc(sql`coalesce(${locations.population}, 0)`))
+    .limit(1);
+  if (!row || row.latitude === null || row.longitude === null) return null;
+  return {
+    center: { latitude: row.latitude, longitude: row.longitude },
+    placeName: row.name,
+    state: row.state,
+  };
+}
+
+/**
+ * `zip` wins over `near` when both are present: the listing forms carry a
+ * "use my location" `near` along as a hidden field, so a ZIP typed over it is
+ * the newer intent.
+ */
+export async function resolveNearSearch(
+  db: Db,
+  input: NearSearchInput
+): Promise<ResolvedNearSearch> {
+  const radiusMiles = parseRadiusMiles(input.radius);
+  const entered = input.zip?.trim();
+  if (!entered) {
+    const point = parseNearParam(input.near);
+    return {
+      search: point ? { center: point, radiusMiles, zip: null, label: null } : null,
+      unknownZip: null,
+    };
+  }
+  const zip = normalizeZip(entered);
+  const place = zip ? await resolveZipCenter(db, zip) : null;
+  if (!zip || !place) return { search: null, unknownZip: entered };
+  return {
+    search: {
+      center: place.center,
+      radiusMiles,
+      zip,
+      label: `${zip} (${place.placeName}, ${place.state})`,
+    },
+    unknownZip: null,
+  };
+}
+
+/** The four range conditions of the enclosing box — the indexable part. */
+export function boundingBoxConditions(
+  latColumn: SQLiteColumn,
+  lngColumn: SQLiteColumn,
+  center: GeoPoint,
+  radiusMiles: number
+): SQL[] {
+  const box = nearBoundingBox(center, radiusMiles);
+  return [
+    gte(latColumn, box.minLat),
+    lte(latColumn, box.maxLat),
+    gte(lngColumn, box.minLng),
+    lte(lngColumn, box.maxLng),
+  ];
+}
+
+/** Squared approximate distance in miles² — monotonic in distance, so it sorts as one. */
+export function distanceSquaredSql(
+  latColumn: SQLiteColumn,
+  lngColumn: SQLiteColumn,
+  center: GeoPoint
+): SQL<number> {
+  const { latMiles, lngMiles } = nearDistanceScale(center);
+  return sql<number>`((${latColumn} - ${center.latitude}) * ${latMiles}) * ((${latColumn} - ${center.latitude}) * ${latMiles}) + ((${lngColumn} - ${center.longitude}) * ${lngMiles}) * ((${lngColumn} - ${center.longitude}) * ${lngMiles})`;
+}
+
+/** Box prefilter plus the distance test. */
+export function withinRadius(
+  latColumn: SQLiteColumn,
+  lngColumn: SQLiteColumn,
+  search: Pick<NearSearch, "center" | "radiusMiles">
+): SQL {
+  return and(
+    ...boundingBoxConditions(latColumn, lngColumn, search.center, search.radiusMiles),
+    sql`${distanceSquaredSql(latColumn, lngColumn, search.center)} <= ${search.radiusMiles * search.radiusMiles}`
+  )!;
+}
+
+/** Great-circle miles from the center to a row, to one decimal; null without coordinates. */
+export function distanceFrom(
+  center: GeoPoint,
+  latitude: number | null | undefined,
+  longitude: number | null | undefined
+): number | null {
+  if (latitude === null || latitude === undefined) return null;
+  if (longitude === null || longitude === undefined) return null;
+  const miles = milesBetween(center.latitude, center.longitude, latitude, longitude);
+  return Math.round(miles * 10) / 10;
+}
@@ -0,0 +1,132 @@
+/**
+ * The public archive: only sent issues, one audience at a time, paged and
+ * searchable — and an issue body published without any link that was signed
+ * for a single reader.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { getTableConfig, type SQLiteTable } from "drizzle-orm/sqlite-core";
+import * as schema from "@/lib/db/schema";
+import {
+  issueExcerpt,
+  listArchiveIssues,
+  parseArchiveAudience,
+  sanitizeIssueHtml,
+} from "../archive";
+
+function createTable(table: SQLiteTable): string {
+  const { name, columns } = getTableConfig(table);
+  return `CREATE TABLE ${name} (${columns.map((c) => c.name).join(", ")});`;
+}
+
+type Db = Parameters<typeof listArchiveIssues>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const day = (n: number) =>
+  Math.floor(new Date("2026-10-01T12:00:00Z").getTime() / 1000) + n * 86400;
+
+function issue(
+  slug: string,
+  sentDay: number | null,
+  over: { audience?: string; html?: string } = {}
+) {
+  raw
+    .prepare(
+      `INSERT INTO newsletter_issues (id, slug, subject, html, sent_at, audience) VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      slug,
+      slug,
+      `Issue ${slug}`,
+      over.html ?? "<p>fairs</p>",
+      sentDay === null ? null : day(sentDay),
+      over.audience ?? "weekend"
+    );
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(createTable(schema.newsletterIssues));
+  db = drizzle(raw, { schema }) as never;
+});
+
+describe("listArchiveIssues", () => {
+  it("lists sent issues of one audience, newest first, and pages them", async () => {
+    for (let i = 0; i < 5; i++) issue(`w${i}`, i);
+    issue("draft", null);
+    issue("v0", 3, { audience: "vendor" });
+
+    const first = await listArchiveIssues(db, { audience: "weekend", pageSize: 2 });
+    expect(first).toMatchObject({ total: 5, page: 1, totalPages: 3 });
+    expect(first.issues.map((i) => i.slug)).toEqual(["w4", "w3"]);
+
+    const last = await listArchiveIssues(db, { audience: "weekend", pageSize: 2, page: 99 });
+    expect(last.page).toBe(3);
+    expect(last.issues.map((i) => i.slug)).toEqual(["w0"]);
+
+    const vendor = await listArchiveIssues(db, { audience: "vendor" });
+    expect(vendor.issues.map((i) => i.slug)).toEqual(["v0"]);
+  });
+
+  it("searches subject and body, case-insensitively, with LIKE wildcards taken literally", async () => {
+    issue("fryeburg", 1, { html: "<p>The <b>Fryeburg Fair</b> opens Sunday.</p>" });
+    issue("percent", 2, { html: "<p>100% handmade</p>" });
+    issue("plain", 3);
+
+    const byBody = await listArchiveIssues(db, { audience: "weekend", q: "fryeburg" });
+    expect(byBody.issues.map((i) => i.slug)).toEqual(["fryeburg"]);
+    const bySubject = await listArchiveIssues(db, { audience: "weekend", q: "ISSUE PLAIN" });
+    expect(bySubject.issues.map((i) => i.slug)).toEqual(["plain"]);
+    const literal = await listArchiveIssues(db, { audience: "weekend", q: "0%" });
+    expect(literal.issues.map((i) => i.slug)).toEqual(["percent"]);
+  });
+
+  it("falls back to the weekend archive for an unknown audience", () => {
+    expect(parseArchiveAudience("vendor")).toBe("vendor");
+    expect(parseArchiveAudience("everyone")).toBe("weekend");
+    expect(parseArchiveAudience(undefined)).toBe("weekend");
+  });
+});
+
+describe("sanitizeIssueHtml", () => {
+  const SITE = "https://example.test";
+
+  it("unwraps unsubscribe, preferences and approve links to their text", () => {
+    const html = [
+      `<a href="${SITE}/api/newsletter/unsubscribe?token=abc.def">Unsubscribe</a>`,
+      `<a href="${SITE}/newsletter/preferences?token=abc.def">Preferences</a>`,
+      `<a href="${SITE}/newsletter/approve?token=xyz">Approve</a>`,
+      `<a href="${SITE}/events/harvest-fair">Harvest Fair</a>`,
+    ].join(" ");
+    expect(sanitizeIssueHtml(html)).toBe(
+      `Unsubscribe Preferences Approve <a href="${SITE}/events/harvest-fair">Harvest Fair</a>`
+    );
+  });
+
+  it("points tracked clicks back at their destination and drops the open pixel", () => {
+    const target = `${SITE}/events/harvest-fair?utm=x&y=1`;
+    const click = `${SITE}/api/newsletter/click?${new URLSearchParams({
+      i: "weekend-1",
+      u: target,
+      s: "sig",
+      r: "recipient-token",
+    }).toString()}`;
+    const html =
+      `<a style="color:#1f3a2d" href="${click.replace(/&/g, "&amp;")}">Fair</a>` +
+      `<img src="${SITE}/api/newsletter/open?r=recipient-token" width="1" height="1" alt="" />`;
+    const out = sanitizeIssueHtml(html);
+    expect(out).toBe(`<a style="color:#1f3a2d" href="${target.replace(/&/g, "&amp;")}">Fair</a>`);
+    expect(out).not.toContain("recipient-token");
+  });
+
+  it("excerpts plain text from the sanitized body", () => {
+    expect(
+      issueExcerpt(
+        `<style>p{}</style><p>Fairs &amp; festivals</p><a href="${SITE}/api/newsletter/unsubscribe?token=t">Unsubscribe</a>`
+      )
+    ).toBe("Fairs & festivals Unsubscribe");
+    expect(issueExcerpt("<p>one two three four</p>", 10)).toBe("one two…");
+  });
+});
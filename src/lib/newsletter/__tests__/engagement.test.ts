@@ -0,0 +1,207 @@
+/**
+ * drizzle/0238 — the per-issue report and the non-engagement flag pass, against
+ * an in-memory SQLite. The report's numbers come from three tables written by
+ * other code (the ledger, delivery events, engagement events), so the fixtures
+ * write those rows directly.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { getTableConfig, type SQLiteTable } from "drizzle-orm/sqlite-core";
+import * as schema from "@/lib/db/schema";
+import {
+  listIssueEngagement,
+  loadIssueEngagementReport,
+  NON_ENGAGEMENT_ISSUES,
+  refreshEngagementFlags,
+} from "../engagement";
+import { recordEngagement } from "../tracking";
+
+function createTable(table: SQLiteTable): string {
+  const { name, columns } = getTableConfig(table);
+  return `CREATE TABLE ${name} (${columns.map((c) => c.name).join(", ")});`;
+}
+
+type Db = Parameters<typeof refreshEngagementFlags>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const NOW = new Date("2026-10-19T11:00:00Z");
+const day = (n: number) => Math.floor(NOW.getTime() / 1000) + n * 86400;
+
+let seq = 0;
+function issue(slug: string, sentDay: number, audience = "weekend") {
+  raw
+    .prepare(
+      `INSERT INTO newsletter_issues (id, slug, subject, html, sent_at, audience) VALUES (?, ?, ?, '', ?, ?)`
+    )
+    .run(slug, slug, `Issue ${slug}`, day(sentDay), audience);
+}
+function sent(slug: string, recipient: string, sentDay: number, deliveryStatus?: string) {
+  const id = `msg-${++seq}`;
+  raw
+    .prepare(
+      `INSERT INTO email_send_ledger (message_id, sent_at, recipient, source, status, delivery_status, newsletter_issue_slug)
+       VALUES (?, ?, ?, 'newsletter:weekly-digest', 'sent', ?, ?)`
+    )
+    .run(id, day(sentDay), recipient, deliveryStatus ?? null, slug);
+  return id;
+}
+function subscriber(email: string, over: Record<string, unknown> = {}) {
+  raw
+    .prepare(
+      `INSERT INTO newsletter_subscribers (id, email, confirmed, unsubscribed, unsubscribed_at, engagement_flagged_at)
+       VALUES (@id, @email, 1, @unsubscribed, @unsubscribedAt, @flaggedAt)`
+    )
+    .run({ id: email, email, unsubscribed: 0, unsubscribedAt: null, flaggedAt: null, ...over });
+}
+function flaggedAt(email: string): number | null {
+  const row = raw
+    .prepare(`SELECT engagement_flagged_at AS f FROM newsletter_subscribers WHERE email = ?`)
+    .get(email) as { f: number | null };
+  return row.f;
+}
+
+beforeEach(() => {
+  seq = 0;
+  raw = new Database(":memory:");
+  raw.exec(
+    [
+      schema.newsletterIssues,
+      schema.newsletterSubscribers,
+      schema.newsletterListSubscriptions,
+      schema.newsletterEngagementEvents,
+      schema.emailSendLedger,
+      schema.emailDeliveryEvents,
+      schema.events,
+    ]
+      .map(createTable)
+      .join("\n")
+  );
+  db = drizzle(raw, { schema }) as never;
+});
+
+describe("loadIssueEngagementReport", () => {
+  beforeEach(() => {
+    issue("weekend-1", -2);
+    raw
+      .prepare(`INSERT INTO events (id, slug, name) VALUES ('e1', 'harvest-fair', 'Harvest Fair')`)
+      .run();
+    subscriber("a@x.com");
+    subscriber("b@x.com");
+    subscriber("c@x.com", { unsubscribed: 1, unsubscribedAt: day(-1) });
+    subscriber("d@x.com");
+    sent("weekend-1", "a@x.com", -2, "delivered");
+    sent("weekend-1", "b@x.com", -2, "delivered");
+    sent("weekend-1", "c@x.com", -2, "delivered");
+    const bounced = sent("weekend-1", "d@x.com", -2, "bounced");
+    for (const [id, status] of [
+      ["ev1", "deferred"],
+      ["ev2", "bounced"],
+      ["ev3", "bounced"],
+    ]) {
+      raw
+        .prepare(
+          `INSERT INTO email_delivery_events (event_id, event_type, status, bounce_classification, received_at, ledger_message_id)
+           VALUES (?, 'x', ?, ?, ?, ?)`
+        )
+        .run(id, status, status === "bounced" ? "mailbox-full" : null, day(-1), bounced);
+    }
+  });
+
+  it("reports deliveries, unique opens, per-link clicks, bounces and unsubscribes", async () => {
+    const eventUrl = "https://example.test/events/harvest-fair";
+    await recordEngagement(db, { issueSlug: "weekend-1", email: "a@x.com", kind: "open" });
+    await recordEngagement(db, { issueSlug: "weekend-1", email: "A@x.com", kind: "open" });
+    await recordEngagement(db, {
+      issueSlug: "weekend-1",
+      email: "a@x.com",
+      kind: "click",
+      url: eventUrl,
+    });
+    await recordEngagement(db, {
+      issueSlug: "weekend-1",
+      email: "a@x.com",
+      kind: "click",
+      url: eventUrl,
+    });
+    // A click with no pixel load still counts as an open.
+    await recordEngagement(db, {
+      issueSlug: "weekend-1",
+      email: "b@x.com",
+      kind: "click",
+      url: "https://promoter.example/",
+    });
+
+    const report = (await loadIssueEngagementReport(db, "weekend-1"))!;
+    expect(report).toMatchObject({
+      sent: 4,
+      delivered: 3,
+      uniqueOpens: 2,
+      uniqueClicks: 2,
+      unsubscribes: 1,
+      bounces: [{ classification: "mailbox-full", count: 1 }],
+    });
+    expect(report.links).toEqual([
+      { url: eventUrl, eventName: "Harvest Fair", clicks: 2, uniqueClicks: 1 },
+      { url: "https://promoter.example/", eventName: null, clicks: 1, uniqueClicks: 1 },
+    ]);
+  });
+
+  it("summarizes sent issues for the list and returns null for an unknown slug", async () => {
+    issue("untracked", -30);
+    const list = await listIssueEngagement(db);
+    expect(list.map((i) => [i.slug, i.sent])).toEqual([
+      ["weekend-1", 4],
+      ["untracked", 0],
+    ]);
+    expect(await loadIssueEngagementReport(db, "nope")).toBeNull();
+  });
+});
+
+describe("refreshEngagementFlags", () => {
+  function run(count: number, recipients: string[], firstDay = -7 * count) {
+    for (let i = 0; i < count; i++) {
+      const slug = `issue-${i}`;
+      for (const r of recipients) sent(slug, r, firstDay + i * 7);
+    }
+  }
+
+  it("flags a full run of unread issues, and only that", async () => {
+    subscriber("reader@x.com");
+    subscriber("ghost@x.com");
+    subscriber("newbie@x.com");
+    run(NON_ENGAGEMENT_ISSUES, ["reader@x.com", "ghost@x.com"]);
+    sent("issue-5", "newbie@x.com", -7);
+    await recordEngagement(db, { issueSlug: "issue-2", email: "reader@x.com", kind: "open" });
+
+    const result = await refreshEngagementFlags(db, NOW);
+    expect(result).toMatchObject({ flagged: 1, cleared: 0 });
+    expect(flaggedAt("ghost@x.com")).toBe(Math.floor(NOW.getTime() / 1000));
+    expect(flaggedAt("reader@x.com")).toBeNull();
+    // Too few issues to judge.
+    expect(flaggedAt("newbie@x.com")).toBeNull();
+  });
+
+  it("doesn't count an issue still inside the grace period", async () => {
+    subscriber("ghost@x.com");
+    // The last of the run went out yesterday — only five count yet.
+    run(NON_ENGAGEMENT_ISSUES, ["ghost@x.com"], -7 * (NON_ENGAGEMENT_ISSUES - 1) - 1);
+    expect(await refreshEngagementFlags(db, NOW)).toMatchObject({ flagged: 0 });
+  });
+
+  it("clears the flag on engagement, both at once and on the next pass", async () => {
+    subscriber("ghost@x.com", { flaggedAt: day(-7) });
+    subscriber("back@x.com", { flaggedAt: day(-7) });
+    run(NON_ENGAGEMENT_ISSUES, ["ghost@x.com", "back@x.com"]);
+
+    await recordEngagement(db, { issueSlug: "issue-5", email: "ghost@x.com", kind: "open" });
+    expect(flaggedAt("ghost@x.com")).toBeNull();
+
+    // Engagement that arrived without clearing (e.g. recorded before the flag).
+    raw.prepare(`UPDATE newsletter_subscribers SET engagement_flagged_at = ?`).run(day(-1));
+    expect(await refreshEngagementFlags(db, NOW)).toMatchObject({ flagged: 0, cleared: 1 });
+    expect(flaggedAt("ghost@x.com")).toBeNull();
+    expect(flaggedAt("back@x.com")).toBe(day(-1));
+  });
+});
@@ -5,7 +5,8 @@
  * pure boundaries the SQL is built from.
  */
 import { describe, it, expect } from "vitest";
-import { startOfUtcDay, weekAgo, datesAreUnconfirmed } from "../new-this-week";
+import type { VendorDigestEvent } from "@/lib/email/vendor-digest";
+import { startOfUtcDay, weekAgo, datesAreUnconfirmed, eventsForProfile } from "../new-this-week";
 
 describe("selection boundaries", () => {
   it("startOfUtcDay drops the time — an event earlier today still counts", () => {
@@ -48,3 +49,52 @@ describe("datesAreUnconfirmed (OPE-360)", () => {
     expect(datesAreUnconfirmed({ datesConfirmed: false, status: "APPROVED" })).toBe(true);
   });
 });
+
+describe("eventsForProfile (drizzle/0237)", () => {
+  const PORTLAND = { latitude: 43.66, longitude: -70.26 };
+  const show = (slug: string, over: Partial<VendorDigestEvent> = {}): VendorDigestEvent => ({
+    name: slug,
+    slug,
+    startDate: null,
+    endDate: null,
+    datesUnconfirmed: false,
+    categories: [],
+    commercialVendorsAllowed: null,
+    estimatedAttendance: null,
+    eventScale: null,
+    indoorOutdoor: null,
+    applicationUrl: null,
+    sourceUrl: null,
+    promoterWebsite: null,
+    point: null,
+    ...over,
+  });
+  const selection = [
+    show("brunswick", {
+      point: { latitude: 43.91, longitude: -69.96 },
+      categories: ["Craft Fair"],
+    }),
+    show("bangor", { point: { latitude: 44.8, longitude: -68.77 }, categories: ["Craft Fair"] }),
+    show("unmapped", { categories: ["Flea Market"] }),
+  ];
+
+  it("keeps shows inside the radius and drops unmapped ones", () => {
+    const near = eventsForProfile(selection, {
+      zip: "04101",
+      center: PORTLAND,
+      radiusMiles: 25,
+      categories: [],
+    });
+    expect(near.map((e) => e.slug)).toEqual(["brunswick"]);
+  });
+
+  it("narrows by category alone when no ZIP is set, unmapped shows included", () => {
+    const picked = eventsForProfile(selection, {
+      zip: null,
+      center: null,
+      radiusMiles: 25,
+      categories: ["Flea Market"],
+    });
+    expect(picked.map((e) => e.slug)).toEqual(["unmapped"]);
+  });
+});
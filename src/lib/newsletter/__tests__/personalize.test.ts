@@ -0,0 +1,151 @@
+/**
+ * drizzle/0237 — subscriber profiles and per-cohort rendering. The profile is
+ * optional in every part, so the interesting cases are the partial ones: a
+ * ZIP with no categories, categories with no ZIP, and neither (the fallback
+ * cohort, which must get exactly the pre-profile issue).
+ */
+import { describe, it, expect } from "vitest";
+import type { VendorDigestEvent } from "@/lib/email/vendor-digest";
+import { cohortKey, parseProfileInput, profileFromRow } from "../subscriber-profile";
+import {
+  describeProfile,
+  groupByCohort,
+  mergePersonalSections,
+  nearYouSection,
+  vendorCohortContent,
+} from "../personalize";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const PORTLAND = { latitude: 43.66, longitude: -70.26 };
+
+function show(slug: string, over: Partial<VendorDigestEvent> = {}): VendorDigestEvent {
+  return {
+    name: `Show ${slug}`,
+    slug,
+    startDate: new Date("2026-11-07T00:00:00Z"),
+    endDate: null,
+    datesUnconfirmed: false,
+    categories: [],
+    commercialVendorsAllowed: null,
+    estimatedAttendance: null,
+    eventScale: null,
+    indoorOutdoor: null,
+    applicationUrl: null,
+    sourceUrl: null,
+    promoterWebsite: null,
+    point: null,
+    ...over,
+  };
+}
+
+describe("profileFromRow / cohortKey", () => {
+  const row = {
+    homeZip: "04101",
+    homeLatitude: 43.66,
+    homeLongitude: -70.26,
+    radiusMiles: 50,
+    categories: '["Flea Market","Craft Fair"]',
+  };
+
+  it("has no profile when neither a placed ZIP nor categories are stored", () => {
+    expect(
+      profileFromRow({ ...row, homeLatitude: null, homeLongitude: null, categories: null })
+    ).toBeNull();
+    expect(cohortKey(null)).toBe("");
+  });
+
+  it("sorts categories so the same choices always share a cohort", () => {
+    const profile = profileFromRow(row)!;
+    expect(profile.categories).toEqual(["Craft Fair", "Flea Market"]);
+    expect(cohortKey(profile)).toBe("04101|50|Craft Fair,Flea Market");
+  });
+
+  it("keys an unplaced ZIP like no ZIP — it can't localize anything", () => {
+    const profile = profileFromRow({ ...row, homeLatitude: null, homeLongitude: null })!;
+    expect(cohortKey(profile)).toBe("-|50|Craft Fair,Flea Market");
+  });
+});
+
+describe("parseProfileInput", () => {
+  it("normalizes the ZIP, clamps the radius and drops unknown categories", () => {
+    expect(
+      parseProfileInput({ zip: " 04101 ", radius: "50", categories: ["Flea Market", "Rodeo"] })
+    ).toEqual({ ok: true, zip: "04101", radiusMiles: 50, categories: ["Flea Market"] });
+  });
+
+  it("treats a blank form as no profile and a malformed ZIP as an error", () => {
+    expect(parseProfileInput({})).toMatchObject({ ok: true, zip: null, categories: [] });
+    expect(parseProfileInput({ zip: "4101x" })).toEqual({ ok: false });
+  });
+});
+
+describe("groupByCohort", () => {
+  it("shares a cohort across matching profiles and puts the profile-less cohort first", () => {
+    const crafts = { zip: null, center: null, radiusMiles: 25, categories: ["Craft Fair"] };
+    const cohorts = groupByCohort(
+      ["a@x.com", "B@x.com", "c@x.com"],
+      new Map([
+        ["a@x.com", crafts],
+        ["b@x.com", { ...crafts }],
+      ])
+    );
+    expect(cohorts.map((c) => [c.key, c.recipients])).toEqual([
+      ["", ["c@x.com"]],
+      ["-|25|Craft Fair", ["a@x.com", "B@x.com"]],
+    ]);
+  });
+});
+
+describe("cohort content", () => {
+  const profile = { zip: "04101", center: PORTLAND, radiusMiles: 25, categories: [] };
+  const selection = [
+    show("brunswick", { point: { latitude: 43.91, longitude: -69.96 } }),
+    show("bangor", { point: { latitude: 44.8, longitude: -68.77 } }),
+  ];
+
+  it("describes what the content was narrowed by", () => {
+    expect(describeProfile({ ...profile, categories: ["Craft Fair"] })).toBe(
+      "within 25 miles of 04101 · Craft Fair"
+    );
+  });
+
+  it("builds a near-you block only when something is near", () => {
+    const section = nearYouSection(selection, profile, "https://example.test")!;
+    expect(section.html).toContain("Just added near you");
+    expect(section.html).toContain('href="https://example.test/events/brunswick"');
+    expect(section.html).not.toContain("bangor");
+    expect(nearYouSection([selection[1]!], profile, "https://example.test")).toBeNull();
+  });
+
+  it("gives the vendor cohort its matches, or everything with a note when none match", () => {
+    expect(vendorCohortContent(selection, profile, NOW)).toMatchObject({ count: 1 });
+    const fallback = vendorCohortContent([selection[1]!], profile, NOW)!;
+    expect(fallback.count).toBe(1);
+    expect(fallback.html).toContain("Show bangor");
+    expect(fallback.html).toContain("Nothing new within 25 miles of 04101 this week");
+    expect(vendorCohortContent([], profile, NOW)).toBeNull();
+  });
+
+  it("leaves the profile-less vendor cohort exactly as before", () => {
+    const plain = vendorCohortContent(selection, null, NOW)!;
+    expect(plain.count).toBe(2);
+    expect(plain.html).not.toContain("newsletter preferences");
+  });
+});
+
+describe("mergePersonalSections", () => {
+  it("concatenates per address in argument order", () => {
+    const merged = mergePersonalSections(
+      new Map([["a@x.com", { html: "<p>near</p>", text: "near" }]]),
+      new Map([
+        ["a@x.com", { html: "<p>recs</p>", text: "recs" }],
+        ["b@x.com", { html: "<p>recs</p>", text: "recs" }],
+      ])
+    );
+    expect(merged.get("a@x.com")).toEqual({
+      html: "<p>near</p>\n<p>recs</p>",
+      text: "near\n\nrecs",
+    });
+    expect(merged.get("b@x.com")?.text).toBe("recs");
+  });
+});
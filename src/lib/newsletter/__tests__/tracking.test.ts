@@ -0,0 +1,63 @@
+/**
+ * drizzle/0238 — the body rewrite. Every outbound link in the body goes
+ * through the signed click redirect, our own newsletter links never do, and
+ * the pixel carries a token that names the recipient.
+ */
+import { describe, expect, it } from "vitest";
+import { verifyLink, verifyRecipientToken } from "@/lib/email/newsletter-tracking-token";
+import { createIssueTracker } from "../tracking";
+
+const SECRET = "test-secret-abc123";
+const SITE = "https://example.test";
+
+function clickParams(html: string): URLSearchParams[] {
+  return [...html.matchAll(/href="([^"]+)"/g)]
+    .map((m) => m[1]!.replace(/&amp;/g, "&"))
+    .filter((href) => href.startsWith(`${SITE}/api/newsletter/click?`))
+    .map((href) => new URL(href).searchParams);
+}
+
+describe("createIssueTracker", () => {
+  const tracker = createIssueTracker({ issueSlug: "weekend-1", siteUrl: SITE, secret: SECRET });
+
+  it("routes body links through a signed redirect for that recipient", async () => {
+    const html = await tracker.track(
+      "Reader@Example.com",
+      `<a href="${SITE}/events/fair?utm=a&amp;b=1">Fair</a> <a href="https://promoter.example/">Site</a>`
+    );
+    const params = clickParams(html);
+    expect(params.map((p) => p.get("u"))).toEqual([
+      `${SITE}/events/fair?utm=a&b=1`,
+      "https://promoter.example/",
+    ]);
+    for (const p of params) {
+      expect(p.get("i")).toBe("weekend-1");
+      expect(await verifyLink("weekend-1", p.get("u")!, p.get("s")!, SECRET)).toBe(true);
+      expect(await verifyRecipientToken(p.get("r")!, SECRET)).toEqual({
+        issueSlug: "weekend-1",
+        email: "reader@example.com",
+      });
+    }
+  });
+
+  it("leaves preferences and newsletter API links alone", async () => {
+    const prefs = `${SITE}/newsletter/preferences?token=abc`;
+    const unsub = `${SITE}/api/newsletter/unsubscribe?token=abc`;
+    const html = await tracker.track(
+      "a@example.com",
+      `<a href="${prefs}">Prefs</a><a href="${unsub}">Unsub</a><a href="mailto:x@example.com">Mail</a>`
+    );
+    expect(clickParams(html)).toHaveLength(0);
+    expect(html).toContain(`href="${prefs}"`);
+    expect(html).toContain(`href="${unsub}"`);
+    expect(html).toContain('href="mailto:x@example.com"');
+  });
+
+  it("appends an open pixel carrying the recipient token", async () => {
+    const html = await tracker.track("a@example.com", "<p>Hello</p>");
+    const src = /<img src="([^"]+)"/.exec(html)![1]!.replace(/&amp;/g, "&");
+    expect(src.startsWith(`${SITE}/api/newsletter/open?`)).toBe(true);
+    const token = new URL(src).searchParams.get("r")!;
+    expect(await verifyRecipientToken(token, SECRET)).toMatchObject({ email: "a@example.com" });
+  });
+});
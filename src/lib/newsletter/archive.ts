@@ -0,0 +1,141 @@
+/**
+ * The public newsletter archive: which issues it lists, how they page and
+ * search, and what an issue's HTML looks like once it's on the web rather than
+ * in someone's inbox. Shared by /newsletter/archive, /newsletter/[slug] and
+ * /newsletter/feed.xml so the three agree on what "published" means.
+ *
+ * Published = sent. An issue with `sent_at` NULL is a preview or a draft the
+ * send flag held back (OPE-285); /newsletter/[slug] still renders it for the
+ * editor's view-in-browser link, but nothing here lists it.
+ */
+import { and, count, desc, eq, isNotNull, like, or, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { NEWSLETTER_AUDIENCES, newsletterIssues, type NewsletterAudience } from "@/lib/db/schema";
+
+export const ARCHIVE_PAGE_SIZE = 20;
+
+/** An audience from a query string, defaulting to the consumer digest. */
+export function parseArchiveAudience(value: string | undefined): NewsletterAudience {
+  return (NEWSLETTER_AUDIENCES as readonly string[]).includes(value ?? "")
+    ? (value as NewsletterAudience)
+    : "weekend";
+}
+
+export interface ArchiveIssue {
+  slug: string;
+  subject: string;
+  sentAt: Date | null;
+}
+
+export interface ArchivePage {
+  issues: ArchiveIssue[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * One page of sent issues for an audience, newest first. `q` matches the
+ * subject or the body — the body is where the fair names are, and "the issue
+ * with the Fryeburg Fair in it" is how people remember one. A page past the
+ * end clamps to the last page rather than rendering empty.
+ */
+export async function listArchiveIssues(
+  db: Database,
+  opts: { audience: NewsletterAudience; page?: number; q?: string; pageSize?: number }
+): Promise<ArchivePage> {
+  const pageSize = opts.pageSize ?? ARCHIVE_PAGE_SIZE;
+  const term = opts.q?.trim();
+  const pattern = term ? `%${escapeLike(term.toLowerCase())}%` : null;
+  const where = and(
+    isNotNull(newsletterIssues.sentAt),
+    eq(newsletterIssues.audience, opts.audience),
+    pattern
+      ? or(
+          like(sql`lower(${newsletterIssues.subject})`, sql`${pattern} ESCAPE '\\'`),
+          like(sql`lower(${newsletterIssues.html})`, sql`${pattern} ESCAPE '\\'`)
+        )
+      : undefined
+  );
+
+  const [{ total }] = await db.select({ total: count() }).from(newsletterIssues).where(where);
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const page = Math.min(Math.max(1, Math.floor(opts.page ?? 1) || 1), totalPages);
+  const issues = await db
+    .select({
+      slug: newsletterIssues.slug,
+      subject: newsletterIssues.subject,
+      sentAt: newsletterIssues.sentAt,
+    })
+    .from(newsletterIssues)
+    .where(where)
+    .orderBy(desc(newsletterIssues.sentAt))
+    .limit(pageSize)
+    .offset((page - 1) * pageSize);
+  return { issues, total, page, totalPages };
+}
+
+// Links that only mean something to the one recipient they were signed for.
+// A stored issue body shouldn't carry any — the footer is rendered outside it
+// — but bodies get pasted from a received copy, and anything in the body is
+// published word for word.
+const TOKEN_LINK = /\/(api\/newsletter\/unsubscribe|newsletter\/preferences|newsletter\/approve)\?/;
+const CLICK_REDIRECT = /\/api\/newsletter\/click\?/;
+const OPEN_PIXEL = /<img\b[^>]*\/api\/newsletter\/open\?[^>]*>/gi;
+const ANCHOR = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+const HREF_ATTR = /\bhref="([^"]*)"/i;
+
+function decodeAttr(value: string): string {
+  return value.replace(/&amp;/g, "&");
+}
+
+function encodeAttr(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+/**
+ * An issue's stored HTML made safe to publish: the open pixel removed, click
+ * redirects pointed back at their real destinations, and any unsubscribe,
+ * preferences or approve link — each carries a token that acts for one
+ * subscriber, or for the editor — unwrapped to its text.
+ */
+export function sanitizeIssueHtml(html: string): string {
+  return html.replace(OPEN_PIXEL, "").replace(ANCHOR, (whole, attrs: string, inner: string) => {
+    const href = HREF_ATTR.exec(attrs)?.[1];
+    if (!href) return whole;
+    const url = decodeAttr(href);
+    if (TOKEN_LINK.test(url)) return inner;
+    if (CLICK_REDIRECT.test(url)) {
+      let target: string | null = null;
+      try {
+        target = new URL(url).searchParams.get("u");
+      } catch {
+        /* not a URL we minted */
+      }
+      if (!target || !/^https?:\/\//.test(target)) return inner;
+      return `<a${attrs.replace(HREF_ATTR, `href="${encodeAttr(target)}"`)}>${inner}</a>`;
+    }
+    return whole;
+  });
+}
+
+/** Plain-text lead for feeds and meta descriptions. */
+export function issueExcerpt(html: string, max = 300): string {
+  const text = sanitizeIssueHtml(html)
+    .replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (text.length <= max) return text;
+  return `${text.slice(0, max).replace(/\s+\S*$/, "")}…`;
+}
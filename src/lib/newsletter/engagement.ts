@@ -0,0 +1,375 @@
+/**
+ * Newsletter engagement reporting (drizzle/0238): what happened to an issue
+ * after it went out, and which subscribers have stopped reading.
+ *
+ * Every number is derived from three sources, none of them written here:
+ *
+ *   • email_send_ledger rows stamped with the issue's slug — what was sent,
+ *     and the downstream delivery status Cloudflare reported for each;
+ *   • email_delivery_events matched to those rows — the bounces, with the
+ *     provider's classification;
+ *   • newsletter_engagement_events — the opens and clicks ./tracking.ts
+ *     recorded.
+ *
+ * Issues sent before tracking existed have no stamped ledger rows and report
+ * zeros; the admin page says so rather than showing a 0% open rate as if it
+ * were real.
+ */
+import { and, desc, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { chunkedInArray, chunkIds } from "@takemetothefair/utils";
+import type { Database } from "@/lib/db";
+import type { Slug } from "@/lib/utils";
+import {
+  emailSendLedger,
+  events,
+  newsletterEngagementEvents,
+  newsletterIssues,
+  newsletterSubscribers,
+} from "@/lib/db/schema";
+
+/** How many of a subscriber's most recent tracked issues must go unread before they're flagged. */
+export const NON_ENGAGEMENT_ISSUES = 6;
+
+/**
+ * Issues younger than this don't count against anyone yet: most opens land in
+ * the first couple of days, and a Monday flag pass must not count the issue
+ * that went out on Saturday as ignored.
+ */
+export const ENGAGEMENT_GRACE_DAYS = 3;
+
+/** An unsubscribe this soon after an issue went out is attributed to it. */
+export const UNSUBSCRIBE_ATTRIBUTION_DAYS = 7;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface IssueEngagementSummary {
+  slug: string;
+  subject: string;
+  audience: string;
+  sentAt: Date | null;
+  sent: number;
+  uniqueOpens: number;
+  uniqueClicks: number;
+}
+
+export interface IssueLinkClicks {
+  url: string;
+  /** Set when the link is an event page we could resolve. */
+  eventName: string | null;
+  clicks: number;
+  uniqueClicks: number;
+}
+
+export interface IssueEngagementReport extends IssueEngagementSummary {
+  delivered: number;
+  complained: number;
+  bounces: { classification: string; count: number }[];
+  unsubscribes: number;
+  links: IssueLinkClicks[];
+}
+
+interface CountsRow {
+  slug: string;
+  sent: number;
+  opens: number;
+  clicks: number;
+}
+
+/**
+ * Ledger and engagement counts for a set of issues. "Opens" counts anyone who
+ * opened OR clicked: image-blocking clients never load the pixel, but nobody
+ * clicks a link in an email they didn't open.
+ */
+async function countsFor(db: Database, slugs: string[]): Promise<Map<string, CountsRow>> {
+  const counts = new Map<string, CountsRow>(
+    slugs.map((slug) => [slug, { slug, sent: 0, opens: 0, clicks: 0 }])
+  );
+  const sent = await chunkedInArray(slugs, (batch) =>
+    db
+      .select({
+        slug: emailSendLedger.newsletterIssueSlug,
+        n: sql<number>`count(*)`,
+      })
+      .from(emailSendLedger)
+      .where(
+        and(inArray(emailSendLedger.newsletterIssueSlug, batch), eq(emailSendLedger.status, "sent"))
+      )
+      .groupBy(emailSendLedger.newsletterIssueSlug)
+  );
+  for (const row of sent) {
+    const c = row.slug ? counts.get(row.slug) : undefined;
+    if (c) c.sent = Number(row.n);
+  }
+  const engaged = await chunkedInArray(slugs, (batch) =>
+    db
+      .select({
+        slug: newsletterEngagementEvents.issueSlug,
+        opens: sql<number>`count(distinct ${newsletterEngagementEvents.recipient})`,
+        clicks: sql<number>`count(distinct case when ${newsletterEngagementEvents.kind} = 'click' then ${newsletterEngagementEvents.recipient} end)`,
+      })
+      .from(newsletterEngagementEvents)
+      .where(inArray(newsletterEngagementEvents.issueSlug, batch))
+      .groupBy(newsletterEngagementEvents.issueSlug)
+  );
+  for (const row of engaged) {
+    const c = counts.get(row.slug);
+    if (c) {
+      c.opens = Number(row.opens);
+      c.clicks = Number(row.clicks);
+    }
+  }
+  return counts;
+}
+
+/** The most recent sent issues, newest first, with their headline numbers. */
+export async function listIssueEngagement(
+  db: Database,
+  limit = 20
+): Promise<IssueEngagementSummary[]> {
+  const issues = await db
+    .select({
+      slug: newsletterIssues.slug,
+      subject: newsletterIssues.subject,
+      audience: newsletterIssues.audience,
+      sentAt: newsletterIssues.sentAt,
+    })
+    .from(newsletterIssues)
+    .where(isNotNull(newsletterIssues.sentAt))
+    .orderBy(desc(newsletterIssues.sentAt))
+    .limit(limit);
+  const counts = await countsFor(
+    db,
+    issues.map((i) => i.slug)
+  );
+  return issues.map((issue) => {
+    const c = counts.get(issue.slug)!;
+    return { ...issue, sent: c.sent, uniqueOpens: c.opens, uniqueClicks: c.clicks };
+  });
+}
+
+/** The `/events/<slug>` an on-site link points at, if it is one. */
+function eventSlugOf(url: string): string | null {
+  try {
+    const match = /^\/events\/([^/]+)\/?$/.exec(new URL(url).pathname);
+    return match ? decodeURIComponent(match[1]!) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The full report for one issue, or null when no such issue exists. */
+export async function loadIssueEngagementReport(
+  db: Database,
+  slug: string
+): Promise<IssueEngagementReport | null> {
+  const [issue] = await db
+    .select({
+      slug: newsletterIssues.slug,
+      subject: newsletterIssues.subject,
+      audience: newsletterIssues.audience,
+      sentAt: newsletterIssues.sentAt,
+    })
+    .from(newsletterIssues)
+    .where(eq(newsletterIssues.slug, slug))
+    .limit(1);
+  if (!issue) return null;
+
+  const counts = (await countsFor(db, [slug])).get(slug)!;
+
+  const [delivery] = await db
+    .select({
+      delivered: sql<number>`count(case when ${emailSendLedger.deliveryStatus} = 'delivered' then 1 end)`,
+      complained: sql<number>`count(case when ${emailSendLedger.deliveryStatus} = 'complained' then 1 end)`,
+    })
+    .from(emailSendLedger)
+    .where(eq(emailSendLedger.newsletterIssueSlug, slug));
+
+  // Counted per message, not per event: a soft bounce retried twice is
+  // still one bounced copy of the issue.
+  const bounces = await db.all<{ classification: string; count: number }>(sql`
+    SELECT
+      COALESCE(d.bounce_classification, 'unclassified') AS classification,
+      COUNT(DISTINCT d.ledger_message_id) AS count
+    FROM email_delivery_events d
+    JOIN email_send_ledger l ON l.message_id = d.ledger_message_id
+    WHERE l.newsletter_issue_slug = ${slug} AND d.status = 'bounced'
+    GROUP BY 1
+    ORDER BY 2 DESC, 1
+  `);
+
+  // A global unsubscribe, or leaving this issue's list, inside the
+  // attribution window — by someone this issue was actually sent to.
+  let unsubscribes = 0;
+  if (issue.sentAt) {
+    const from = Math.floor(issue.sentAt.getTime() / 1000);
+    const to = from + UNSUBSCRIBE_ATTRIBUTION_DAYS * DAY_SECONDS;
+    const [row] = await db.all<{ n: number }>(sql`
+      SELECT COUNT(*) AS n
+      FROM newsletter_subscribers s
+      WHERE lower(s.email) IN (
+        SELECT lower(recipient) FROM email_send_ledger WHERE newsletter_issue_slug = ${slug}
+      )
+      AND (
+        (s.unsubscribed_at >= ${from} AND s.unsubscribed_at < ${to})
+        OR EXISTS (
+          SELECT 1 FROM newsletter_list_subscriptions ls
+          WHERE ls.subscriber_id = s.id
+            AND ls.list = ${issue.audience}
+            AND ls.unsubscribed_at >= ${from} AND ls.unsubscribed_at < ${to}
+        )
+      )
+    `);
+    unsubscribes = Number(row?.n ?? 0);
+  }
+
+  const linkRows = await db
+    .select({
+      url: newsletterEngagementEvents.url,
+      clicks: sql<number>`count(*)`,
+      uniqueClicks: sql<number>`count(distinct ${newsletterEngagementEvents.recipient})`,
+    })
+    .from(newsletterEngagementEvents)
+    .where(
+      and(
+        eq(newsletterEngagementEvents.issueSlug, slug),
+        eq(newsletterEngagementEvents.kind, "click"),
+        isNotNull(newsletterEngagementEvents.url)
+      )
+    )
+    .groupBy(newsletterEngagementEvents.url)
+    .orderBy(desc(sql`count(*)`));
+
+  const eventSlugs = [
+    ...new Set(linkRows.map((r) => eventSlugOf(r.url!)).filter((s): s is string => s !== null)),
+  ] as Slug[];
+  const eventNames = new Map<string, string>(
+    (
+      await chunkedInArray(eventSlugs, (batch) =>
+        db
+          .select({ slug: events.slug, name: events.name })
+          .from(events)
+          .where(inArray(events.slug, batch))
+      )
+    ).map((e) => [e.slug, e.name])
+  );
+
+  return {
+    ...issue,
+    sent: counts.sent,
+    uniqueOpens: counts.opens,
+    uniqueClicks: counts.clicks,
+    delivered: Number(delivery?.delivered ?? 0),
+    complained: Number(delivery?.complained ?? 0),
+    bounces: bounces.map((b) => ({ classification: b.classification, count: Number(b.count) })),
+    unsubscribes,
+    links: linkRows.map((r) => {
+      const eventSlug = eventSlugOf(r.url!);
+      return {
+        url: r.url!,
+        eventName: eventSlug ? (eventNames.get(eventSlug) ?? null) : null,
+        clicks: Number(r.clicks),
+        uniqueClicks: Number(r.uniqueClicks),
+      };
+    }),
+  };
+}
+
+/** Subscribers currently flagged as not engaging, most recently flagged first. */
+export async function listFlaggedSubscribers(
+  db: Database,
+  limit = 100
+): Promise<{ email: string; flaggedAt: Date }[]> {
+  const rows = await db
+    .select({
+      email: newsletterSubscribers.email,
+      flaggedAt: newsletterSubscribers.engagementFlaggedAt,
+    })
+    .from(newsletterSubscribers)
+    .where(
+      and(
+        isNotNull(newsletterSubscribers.engagementFlaggedAt),
+        eq(newsletterSubscribers.unsubscribed, false)
+      )
+    )
+    .orderBy(desc(newsletterSubscribers.engagementFlaggedAt))
+    .limit(limit);
+  return rows.map((r) => ({ email: r.email, flaggedAt: r.flaggedAt! }));
+}
+
+/**
+ * Flag subscribers whose last NON_ENGAGEMENT_ISSUES tracked issues all went
+ * unopened and unclicked, and clear the flag on anyone who has since engaged.
+ *
+ * Only issues older than the grace period count, and only subscribers who
+ * have received a full run of them can be flagged — someone who joined three
+ * issues ago hasn't had the chance to ignore six. A flag is a prompt for the
+ * editor (a re-engagement note, or pruning before the list hurts
+ * deliverability); nothing here unsubscribes anyone.
+ */
+export async function refreshEngagementFlags(
+  db: Database,
+  now: Date = new Date()
+): Promise<{ evaluated: number; flagged: number; cleared: number }> {
+  const cutoff = Math.floor(now.getTime() / 1000) - ENGAGEMENT_GRACE_DAYS * DAY_SECONDS;
+  const rows = await db.all<{ email: string; received: number; engaged: number }>(sql`
+    WITH received AS (
+      SELECT lower(recipient) AS email, newsletter_issue_slug AS slug, MIN(sent_at) AS sent_at
+      FROM email_send_ledger
+      WHERE newsletter_issue_slug IS NOT NULL
+        AND status = 'sent'
+        AND recipient IS NOT NULL
+        AND sent_at < ${cutoff}
+      GROUP BY 1, 2
+    ),
+    recent AS (
+      SELECT email, slug,
+        ROW_NUMBER() OVER (PARTITION BY email ORDER BY sent_at DESC) AS rn
+      FROM received
+    )
+    SELECT
+      r.email AS email,
+      COUNT(*) AS received,
+      SUM(CASE WHEN EXISTS (
+        SELECT 1 FROM newsletter_engagement_events e
+        WHERE e.recipient = r.email AND e.issue_slug = r.slug
+      ) THEN 1 ELSE 0 END) AS engaged
+    FROM recent r
+    WHERE r.rn <= ${NON_ENGAGEMENT_ISSUES}
+    GROUP BY r.email
+  `);
+
+  const disengaged = rows
+    .filter((r) => Number(r.received) >= NON_ENGAGEMENT_ISSUES && Number(r.engaged) === 0)
+    .map((r) => r.email);
+  const engaged = rows.filter((r) => Number(r.engaged) > 0).map((r) => r.email);
+
+  let flagged = 0;
+  for (const batch of chunkIds(disengaged)) {
+    const updated = await db
+      .update(newsletterSubscribers)
+      .set({ engagementFlaggedAt: now })
+      .where(
+        and(
+          inArray(newsletterSubscribers.email, batch),
+          isNull(newsletterSubscribers.engagementFlaggedAt)
+        )
+      )
+      .returning({ id: newsletterSubscribers.id });
+    flagged += updated.length;
+  }
+  let cleared = 0;
+  for (const batch of chunkIds(engaged)) {
+    const updated = await db
+      .update(newsletterSubscribers)
+      .set({ engagementFlaggedAt: null })
+      .where(
+        and(
+          inArray(newsletterSubscribers.email, batch),
+          isNotNull(newsletterSubscribers.engagementFlaggedAt)
+        )
+      )
+      .returning({ id: newsletterSubscribers.id });
+    cleared += updated.length;
+  }
+  return { evaluated: rows.length, flagged, cleared };
+}
@@ -9,14 +9,20 @@
  *
  * TENTATIVE events are included — a vendor still wants
  * runway on a show whose dates aren't locked.
+ *
+ * drizzle/0237 — the same selection feeds every cohort of both digests:
+ * `eventsForProfile` narrows it to a subscriber profile's radius and
+ * categories (./personalize.ts renders per cohort).
  */
 import { and, desc, eq, gte, inArray, or } from "drizzle-orm";
 import type { DrizzleD1Database } from "drizzle-orm/d1";
 import * as schema from "@takemetothefair/db-schema";
+import { approxMilesBetween } from "@takemetothefair/utils";
 import { parseJsonArray } from "@/types";
 import type { VendorDigestEvent } from "@/lib/email/vendor-digest";
+import type { SubscriberProfile } from "./subscriber-profile";
 
-const { events, promoters } = schema;
+const { events, promoters, venues } = schema;
 type Db = DrizzleD1Database<typeof schema>;
 
 /** Start-of-day UTC for the past-date guard — an event today still counts. */
@@ -71,9 +77,12 @@ export async function selectNewThisWeekEvents(db: Db, now: Date): Promise<Vendor
       applicationUrl: events.applicationUrl,
       sourceUrl: events.sourceUrl,
       promoterWebsite: promoters.website,
+      latitude: venues.latitude,
+      longitude: venues.longitude,
     })
     .from(events)
     .leftJoin(promoters, eq(events.promoterId, promoters.id))
+    .leftJoin(venues, eq(events.venueId, venues.id))
     .where(
       and(
         gte(events.createdAt, weekAgo(now)),
@@ -108,6 +117,10 @@ export async function selectNewThisWeekEvents(db: Db, now: Date): Promise<Vendor
     applicationUrl: r.applicationUrl ?? null,
     sourceUrl: r.sourceUrl ?? null,
     promoterWebsite: r.promoterWebsite ?? null,
+    point:
+      r.latitude !== null && r.longitude !== null
+        ? { latitude: r.latitude, longitude: r.longitude }
+        : null,
   }));
 
   // Curate: soonest real date first; dateless/tentative last. (The SQL ordered
@@ -118,3 +131,23 @@ export async function selectNewThisWeekEvents(db: Db, now: Date): Promise<Vendor
     return at - bt;
   });
 }
+
+/**
+ * The selection narrowed to one subscriber profile: within its radius of the
+ * home ZIP (a show with no mapped venue can't be shown to be inside, so it's
+ * left out) and in one of its categories. Either half is skipped when the
+ * profile doesn't set it. Order is preserved.
+ */
+export function eventsForProfile(
+  selection: VendorDigestEvent[],
+  profile: SubscriberProfile
+): VendorDigestEvent[] {
+  const wanted = new Set(profile.categories);
+  return selection.filter((e) => {
+    if (profile.center) {
+      if (!e.point) return false;
+      if (approxMilesBetween(profile.center, e.point) > profile.radiusMiles) return false;
+    }
+    return wanted.size === 0 || e.categories.some((c) => wanted.has(c));
+  });
+}
@@ -0,0 +1,169 @@
+/**
+ * Per-cohort newsletter rendering (drizzle/0237). Recipients are grouped by
+ * subscriber profile (./subscriber-profile.ts); each cohort's content is
+ * rendered once from the week's ./new-this-week.ts selection and shared by
+ * everyone in it.
+ *
+ * The two digests personalize differently, because their bodies come from
+ * different places:
+ *
+ *   • weekend — the body is the issue an editor composed, the same for
+ *     everyone and stored as such. A cohort with a profile gets a "Just added
+ *     near you" block under it, and a subscriber with an account and favorites
+ *     gets "You might also like" (src/lib/event-recommendations/newsletter.ts);
+ *   • vendor — the body IS the selection, so a cohort gets the selection
+ *     narrowed to its profile. A profile nothing matched this week falls back
+ *     to the full list with a line saying so, rather than skipping a vendor
+ *     who signed up for the Monday email.
+ *
+ * Profile-less subscribers — the "" cohort — get exactly what they got before
+ * profiles existed.
+ */
+import type { Database } from "@/lib/db";
+import { newsletterNearYouSection } from "@/lib/email/templates";
+import {
+  formatShowDate,
+  renderVendorDigestContent,
+  type VendorDigestEvent,
+} from "@/lib/email/vendor-digest";
+import { buildNewsletterRecommendations } from "@/lib/event-recommendations/newsletter";
+import { logError } from "@/lib/logger";
+import { eventsForProfile, selectNewThisWeekEvents } from "./new-this-week";
+import { cohortKey, loadSubscriberProfiles, type SubscriberProfile } from "./subscriber-profile";
+
+/** Most "Just added near you" events under a weekend issue. */
+export const NEAR_YOU_LIMIT = 5;
+
+export type PersonalSection = { html: string; text: string };
+
+export interface Cohort {
+  key: string;
+  /** null for the profile-less cohort. */
+  profile: SubscriberProfile | null;
+  recipients: string[];
+}
+
+/** Recipients grouped by profile; the profile-less cohort, if any, comes first. */
+export function groupByCohort(
+  recipients: string[],
+  profiles: ReadonlyMap<string, SubscriberProfile>
+): Cohort[] {
+  const cohorts = new Map<string, Cohort>();
+  for (const email of recipients) {
+    const profile = profiles.get(email.toLowerCase()) ?? null;
+    const key = cohortKey(profile);
+    const cohort = cohorts.get(key) ?? { key, profile, recipients: [] };
+    cohort.recipients.push(email);
+    cohorts.set(key, cohort);
+  }
+  return [...cohorts.values()].sort((a, b) => (a.key === "" ? -1 : b.key === "" ? 1 : 0));
+}
+
+/** "within 25 miles of 04101 · Craft Fair, Flea Market" — what a cohort's content was narrowed by. */
+export function describeProfile(profile: SubscriberProfile): string {
+  const parts: string[] = [];
+  if (profile.center && profile.zip) {
+    parts.push(`within ${profile.radiusMiles} miles of ${profile.zip}`);
+  }
+  if (profile.categories.length > 0) parts.push(profile.categories.join(", "));
+  return parts.join(" · ");
+}
+
+/** One cohort's "Just added near you" block, or null when nothing matched. */
+export function nearYouSection(
+  selection: VendorDigestEvent[],
+  profile: SubscriberProfile,
+  siteUrl: string
+): PersonalSection | null {
+  const events = eventsForProfile(selection, profile).slice(0, NEAR_YOU_LIMIT);
+  if (events.length === 0) return null;
+  return newsletterNearYouSection({
+    scope: describeProfile(profile),
+    events: events.map((e) => ({
+      name: e.name,
+      url: `${siteUrl}/events/${e.slug}`,
+      when: formatShowDate(e),
+      detail: e.categories.slice(0, 2).join(", ") || null,
+    })),
+  });
+}
+
+/**
+ * One vendor-digest cohort's body, or null when the week has no shows at
+ * all (the caller skips the send, as it always has).
+ */
+export function vendorCohortContent(
+  selection: VendorDigestEvent[],
+  profile: SubscriberProfile | null,
+  now: Date
+): { html: string; count: number } | null {
+  if (!profile) {
+    const html = renderVendorDigestContent(selection, now);
+    return html ? { html, count: selection.length } : null;
+  }
+  const scope = describeProfile(profile);
+  const matched = eventsForProfile(selection, profile);
+  const shown = matched.length > 0 ? matched : selection;
+  const html = renderVendorDigestContent(
+    shown,
+    now,
+    matched.length > 0
+      ? `Shows ${scope}, from your newsletter preferences.`
+      : `Nothing new ${scope} this week — here's everything added across New England.`
+  );
+  return html ? { html, count: shown.length } : null;
+}
+
+/** Concatenate per-address sections, in argument order. */
+export function mergePersonalSections(
+  ...maps: ReadonlyMap<string, PersonalSection>[]
+): Map<string, PersonalSection> {
+  const merged = new Map<string, PersonalSection>();
+  for (const map of maps) {
+    for (const [email, section] of map) {
+      const prior = merged.get(email);
+      merged.set(
+        email,
+        prior
+          ? { html: `${prior.html}\n${section.html}`, text: `${prior.text}\n\n${section.text}` }
+          : section
+      );
+    }
+  }
+  return merged;
+}
+
+/**
+ * Every weekend recipient's personal sections — near-you first, then
+ * recommendations. Best-effort like the recommendations half: if the
+ * cohort pass fails, the issue goes out as composed.
+ */
+export async function buildWeekendPersonalSections(
+  db: Database,
+  recipients: string[],
+  opts: { siteUrl: string; now: Date }
+): Promise<Map<string, PersonalSection>> {
+  const nearYou = new Map<string, PersonalSection>();
+  try {
+    const profiles = await loadSubscriberProfiles(db, recipients);
+    if (profiles.size > 0) {
+      const selection = await selectNewThisWeekEvents(db, opts.now);
+      for (const cohort of groupByCohort(recipients, profiles)) {
+        if (!cohort.profile) continue;
+        const section = nearYouSection(selection, cohort.profile, opts.siteUrl);
+        if (!section) continue;
+        for (const email of cohort.recipients) nearYou.set(email.toLowerCase(), section);
+      }
+    }
+  } catch (error) {
+    await logError(db, {
+      level: "warn",
+      message: "newsletter personalization: near-you pass failed, sending without it",
+      error,
+      source: "newsletter:personalize",
+      context: { recipients: recipients.length },
+    });
+  }
+  const recommendations = await buildNewsletterRecommendations(db, recipients, opts);
+  return mergePersonalSections(nearYou, recommendations);
+}
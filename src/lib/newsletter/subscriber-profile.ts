@@ -0,0 +1,147 @@
+/**
+ * Newsletter subscriber profiles — where a subscriber is and what they like,
+ * so a reader in Presque Isle isn't sent Connecticut's week (drizzle/0237).
+ *
+ * Everything is optional. A ZIP localizes the digest to `radiusMiles` around
+ * it; categories narrow it to the kinds of events they picked. A subscriber
+ * with neither has no profile and gets the issue everyone gets — that's the
+ * fallback, not an error, and most of the list will be there for a while.
+ *
+ * Digests are rendered per COHORT, not per person: everyone sharing a ZIP,
+ * radius and category set gets identical content, so a send renders once per
+ * cohort however large the list grows (./personalize.ts).
+ */
+import { eq, inArray } from "drizzle-orm";
+import {
+  chunkedInArray,
+  NEAR_DEFAULT_RADIUS_MILES,
+  normalizeZip,
+  parseRadiusMiles,
+  type GeoPoint,
+} from "@takemetothefair/utils";
+import { EVENT_CATEGORIES } from "@/lib/constants";
+import type { Database } from "@/lib/db";
+import { newsletterSubscribers } from "@/lib/db/schema";
+import { resolveZipCenter } from "@/lib/near-search";
+import { parseJsonArray } from "@/types";
+
+export interface SubscriberProfile {
+  zip: string | null;
+  /** The ZIP's center; null when no ZIP, or one we couldn't place. */
+  center: GeoPoint | null;
+  radiusMiles: number;
+  /** Sorted; empty means every category. */
+  categories: string[];
+}
+
+export interface SubscriberProfileInput {
+  zip?: unknown;
+  radius?: unknown;
+  categories?: unknown;
+}
+
+type ProfileColumns = Pick<
+  typeof newsletterSubscribers.$inferSelect,
+  "homeZip" | "homeLatitude" | "homeLongitude" | "radiusMiles" | "categories"
+>;
+
+/** The stored profile, or null when the subscriber hasn't set one that does anything. */
+export function profileFromRow(row: ProfileColumns): SubscriberProfile | null {
+  const center =
+    row.homeLatitude !== null && row.homeLongitude !== null
+      ? { latitude: row.homeLatitude, longitude: row.homeLongitude }
+      : null;
+  const categories = parseJsonArray(row.categories).sort();
+  if (!center && categories.length === 0) return null;
+  return {
+    zip: row.homeZip,
+    center,
+    radiusMiles: row.radiusMiles ?? NEAR_DEFAULT_RADIUS_MILES,
+    categories,
+  };
+}
+
+/**
+ * The cohort a profile renders in. The ZIP stands in for the center (it's
+ * where the center came from), so "" — the profile-less cohort — is the only
+ * key without one.
+ */
+export function cohortKey(profile: SubscriberProfile | null): string {
+  if (!profile) return "";
+  return [profile.center ? profile.zip : "-", profile.radiusMiles, profile.categories.join(",")]
+    .map(String)
+    .join("|");
+}
+
+/**
+ * Form / API input → the values to store. Unknown categories are dropped
+ * rather than rejected: the picker only offers EVENT_CATEGORIES, so anything
+ * else is a stale form or a hand-built request. A malformed ZIP is an error —
+ * silently dropping it would leave someone thinking their digest is local.
+ */
+export function parseProfileInput(
+  input: SubscriberProfileInput
+): { ok: true; zip: string | null; radiusMiles: number; categories: string[] } | { ok: false } {
+  const rawZip = typeof input.zip === "string" ? input.zip.trim() : "";
+  const zip = rawZip ? normalizeZip(rawZip) : null;
+  if (rawZip && !zip) return { ok: false };
+  const radius =
+    typeof input.radius === "string" || typeof input.radius === "number" ? input.radius : null;
+  const known = new Set<string>(EVENT_CATEGORIES);
+  const categories = Array.isArray(input.categories)
+    ? [...new Set(input.categories.filter((c): c is string => typeof c === "string"))]
+        .filter((c) => known.has(c))
+        .sort()
+    : [];
+  return { ok: true, zip, radiusMiles: parseRadiusMiles(radius), categories };
+}
+
+/**
+ * Store a subscriber's profile, resolving the ZIP's center now. Returns
+ * `unknownZip` when the ZIP was valid but isn't one we can place — it's kept
+ * (they may be right and our table behind), it just doesn't localize yet.
+ */
+export async function saveSubscriberProfile(
+  db: Database,
+  email: string,
+  profile: { zip: string | null; radiusMiles: number; categories: string[] }
+): Promise<{ unknownZip: boolean }> {
+  const place = profile.zip ? await resolveZipCenter(db, profile.zip) : null;
+  await db
+    .update(newsletterSubscribers)
+    .set({
+      homeZip: profile.zip,
+      homeLatitude: place?.center.latitude ?? null,
+      homeLongitude: place?.center.longitude ?? null,
+      radiusMiles: profile.radiusMiles,
+      categories: profile.categories.length > 0 ? JSON.stringify(profile.categories) : null,
+    })
+    .where(eq(newsletterSubscribers.email, email.toLowerCase()));
+  return { unknownZip: profile.zip !== null && !place };
+}
+
+/** Lowercased address → profile, for every recipient that has one. */
+export async function loadSubscriberProfiles(
+  db: Database,
+  emails: string[]
+): Promise<Map<string, SubscriberProfile>> {
+  const rows = await chunkedInArray([...new Set(emails.map((e) => e.toLowerCase()))], (batch) =>
+    db
+      .select({
+        email: newsletterSubscribers.email,
+        homeZip: newsletterSubscribers.homeZip,
+        homeLatitude: newsletterSubscribers.homeLatitude,
+        homeLongitude: newsletterSubscribers.homeLongitude,
+        radiusMiles: newsletterSubscribers.radiusMiles,
+        categories: newsletterSubscribers.categories,
+      })
+      .from(newsletterSubscribers)
+      .where(inArray(newsletterSubscribers.email, batch))
+  );
+  const profiles = new Map<string, SubscriberProfile>();
+  for (const row of rows) {
+    const profile = profileFromRow(row);
+    if (profile) profiles.set(row.email.toLowerCase(), profile);
+  }
+  return profiles;
+}
@@ -0,0 +1,109 @@
+/**
+ * Newsletter engagement tracking (drizzle/0238): the click redirect and open
+ * pixel a broadcast carries, and the write both endpoints make.
+ *
+ * Only broadcasts are tracked. Test sends and previews reuse the broadcast's
+ * slug, so tracking them would put the editor's own opens in the issue's
+ * numbers — and a preview is where you want to click the real links anyway.
+ *
+ * What gets rewritten is the issue BODY (the composed content plus any
+ * personal sections). The masthead and footer — view in browser, preferences,
+ * unsubscribe — are never routed through the redirect: an unsubscribe link
+ * that depends on our tracking endpoint being up is not one CAN-SPAM accepts.
+ * The plain-text part stays untracked too; readers of it see real URLs.
+ *
+ * Opens are a floor, not a count: clients that block images never fetch the
+ * pixel. The report treats a click as an open for that reason.
+ */
+import { and, eq, isNotNull } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { newsletterEngagementEvents, newsletterSubscribers } from "@/lib/db/schema";
+import { signLink, signRecipientToken } from "@/lib/email/newsletter-tracking-token";
+
+export type EngagementKind = "open" | "click";
+
+/** A body href we route through the redirect: absolute http(s), not one of our own newsletter endpoints. */
+const HREF = /href="(https?:\/\/[^"]+)"/g;
+const UNTRACKED_PATH = /\/(api\/newsletter|newsletter\/preferences)\b/;
+
+function decodeAttr(value: string): string {
+  return value.replace(/&amp;/g, "&");
+}
+
+function encodeAttr(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+export interface IssueTracker {
+  /** `html` with its links routed through the click redirect and an open pixel appended. */
+  track(email: string, html: string): Promise<string>;
+}
+
+/**
+ * A tracker for one issue's send. Link signatures are cached for the whole
+ * send — every recipient gets the same destinations — so the per-recipient
+ * cost is one HMAC however many links the issue has.
+ */
+export function createIssueTracker(args: {
+  issueSlug: string;
+  siteUrl: string;
+  secret: string;
+}): IssueTracker {
+  const linkSigs = new Map<string, Promise<string>>();
+  const sigFor = (url: string) => {
+    let sig = linkSigs.get(url);
+    if (!sig) {
+      sig = signLink(args.issueSlug, url, args.secret);
+      linkSigs.set(url, sig);
+    }
+    return sig;
+  };
+
+  return {
+    async track(email, html) {
+      const r = await signRecipientToken(args.issueSlug, email, args.secret);
+      const urls = [...new Set([...html.matchAll(HREF)].map((m) => decodeAttr(m[1]!)))].filter(
+        (url) => !UNTRACKED_PATH.test(url)
+      );
+      const tracked = new Map<string, string>();
+      for (const url of urls) {
+        const qs = new URLSearchParams({ i: args.issueSlug, u: url, s: await sigFor(url), r });
+        tracked.set(url, `${args.siteUrl}/api/newsletter/click?${qs.toString()}`);
+      }
+      const rewritten = html.replace(HREF, (whole, raw: string) => {
+        const target = tracked.get(decodeAttr(raw));
+        return target ? `href="${encodeAttr(target)}"` : whole;
+      });
+      const pixel = `${args.siteUrl}/api/newsletter/open?${new URLSearchParams({ r }).toString()}`;
+      return `${rewritten}\n<img src="${encodeAttr(pixel)}" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px;" />`;
+    },
+  };
+}
+
+/**
+ * Record one open or click. Any engagement clears the subscriber's
+ * non-engagement flag on the spot, rather than waiting for the weekly pass to
+ * notice (./engagement.ts).
+ */
+export async function recordEngagement(
+  db: Database,
+  hit: { issueSlug: string; email: string; kind: EngagementKind; url?: string; now?: Date }
+): Promise<void> {
+  const email = hit.email.toLowerCase();
+  await db.insert(newsletterEngagementEvents).values({
+    issueSlug: hit.issueSlug,
+    recipient: email,
+    kind: hit.kind,
+    url: hit.url ?? null,
+    createdAt: hit.now ?? new Date(),
+  });
+  await db
+    .update(newsletterSubscribers)
+    .set({ engagementFlaggedAt: null })
+    .where(
+      and(
+        eq(newsletterSubscribers.email, email),
+        isNotNull(newsletterSubscribers.engagementFlaggedAt)
+      )
+    );
+}
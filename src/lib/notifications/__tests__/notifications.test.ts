@@ -0,0 +1,360 @@
+/**
+ * The notification center against an in-memory SQLite: per-type channel
+ * preferences and their defaults, the best-effort writers, the per-user
+ * read/mark/delete surface the bell and dashboard use, and the
+ * favorited-event change producer's in-app / opt-in email split.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+
+const sent: { to: string; subject: string; text: string; source?: string }[] = [];
+vi.mock("@/lib/email/send", () => ({ getSiteUrl: () => "https://example.test" }));
+vi.mock("@/lib/queues/producers", () => ({
+  enqueueEmail: async (args: (typeof sent)[number]) => {
+    sent.push(args);
+  },
+}));
+vi.mock("@/lib/logger", () => ({ logError: vi.fn(async () => undefined) }));
+
+import * as schema from "@/lib/db/schema";
+import {
+  clearNotifications,
+  countUnreadNotifications,
+  createNotification,
+  createNotifications,
+  deleteNotification,
+  getNotificationPreferences,
+  listNotifications,
+  markAllNotificationsRead,
+  setNotificationPreferences,
+  setNotificationRead,
+  toClientNotification,
+  wantsEmail,
+} from "../notifications";
+import {
+  FAVORITE_CHANGE_EMAIL_SOURCE,
+  favoriteChangeForLifecycle,
+  notifyFavoritedEventChanged,
+} from "../favorite-changes";
+
+const TABLES = `
+  CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT, name TEXT);
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, slug TEXT NOT NULL, name TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'APPROVED'
+  );
+  CREATE TABLE user_favorites (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, favoritable_type TEXT NOT NULL,
+    favoritable_id TEXT NOT NULL, created_at INTEGER
+  );
+  CREATE TABLE notifications (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, type TEXT NOT NULL, title TEXT NOT NULL,
+    message TEXT NOT NULL, read INTEGER DEFAULT 0, data TEXT, created_at INTEGER
+  );
+  CREATE TABLE notification_preferences (
+    user_id TEXT NOT NULL, type TEXT NOT NULL, email INTEGER NOT NULL, in_app INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL, PRIMARY KEY (user_id, type)
+  );
+  CREATE TABLE email_suppression_list (
+    email TEXT PRIMARY KEY, reason TEXT, source TEXT, created_at INTEGER NOT NULL
+  );
+`;
+
+type Db = Parameters<typeof notifyFavoritedEventChanged>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+
+function notificationRows() {
+  return raw.prepare(`SELECT * FROM notifications ORDER BY created_at, id`).all() as Record<
+    string,
+    unknown
+  >[];
+}
+
+function addNote(id: string, userId: string, minutesAgo: number, read = 0) {
+  raw
+    .prepare(
+      `INSERT INTO notifications (id, user_id, type, title, message, read, data, created_at)
+       VALUES (?, ?, 'claim_approved', ?, 'm', ?, NULL, ?)`
+    )
+    .run(id, userId, `t-${id}`, read, Math.floor(NOW.getTime() / 1000) - minutesAgo * 60);
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw["exec"](TABLES);
+  db = drizzle(raw, { schema }) as unknown as Db;
+  sent.length = 0;
+  raw["exec"](`
+    INSERT INTO users VALUES ('u1', 'One@Example.com', 'One'), ('u2', 'two@example.com', 'Two'),
+      ('u3', 'three@example.com', 'Three');
+  `);
+});
+
+describe("preferences", () => {
+  it("reports every type at its defaults until the user changes one", async () => {
+    const prefs = await getNotificationPreferences(db, "u1");
+    expect(prefs.map((p) => p.type)).toContain("application_update");
+    expect(prefs.find((p) => p.type === "favorite_event_changed")).toMatchObject({
+      email: false,
+      inApp: true,
+    });
+
+    await setNotificationPreferences(db, "u1", [
+      { type: "application_update", email: false, inApp: true },
+    ]);
+    await setNotificationPreferences(db, "u1", [
+      { type: "application_update", email: false, inApp: false },
+    ]);
+    const after = await getNotificationPreferences(db, "u1");
+    expect(after.find((p) => p.type === "application_update")).toMatchObject({
+      email: false,
+      inApp: false,
+    });
+    expect(raw.prepare(`SELECT COUNT(*) AS n FROM notification_preferences`).get()).toEqual({
+      n: 1,
+    });
+  });
+
+  it("answers wantsEmail from the stored choice, else the default", async () => {
+    expect(await wantsEmail(db, "u1", "submission_approved")).toBe(true);
+    expect(await wantsEmail(db, "u1", "favorite_event_changed")).toBe(false);
+    await setNotificationPreferences(db, "u1", [
+      { type: "submission_approved", email: false, inApp: true },
+    ]);
+    expect(await wantsEmail(db, "u1", "submission_approved")).toBe(false);
+    expect(await wantsEmail(db, "u2", "submission_approved")).toBe(true);
+  });
+
+  it("falls back to defaults when the preferences table can't be read", async () => {
+    raw["exec"](`DROP TABLE notification_preferences`);
+    expect(await wantsEmail(db, "u1", "claim_approved")).toBe(true);
+    expect(
+      await createNotification(db, {
+        userId: "u1",
+        type: "claim_approved",
+        title: "t",
+        message: "m",
+      })
+    ).toBe(true);
+  });
+});
+
+describe("writers", () => {
+  it("skips users who turned the type off in-app", async () => {
+    await setNotificationPreferences(db, "u2", [
+      { type: "saved_search_match", email: true, inApp: false },
+    ]);
+    expect(
+      await createNotification(db, {
+        userId: "u2",
+        type: "saved_search_match",
+        title: "t",
+        message: "m",
+      })
+    ).toBe(false);
+    expect(
+      await createNotification(db, {
+        userId: "u1",
+        type: "saved_search_match",
+        title: "t",
+        message: "m",
+        data: { url: "/events" },
+        now: NOW,
+      })
+    ).toBe(true);
+    const rows = notificationRows();
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ user_id: "u1", read: 0, data: '{"url":"/events"}' });
+  });
+
+  it("fans out past one insert batch", async () => {
+    const userIds = Array.from({ length: 40 }, (_, i) => `fan-${i}`);
+    const written = await createNotifications(db, {
+      userIds,
+      type: "favorite_event_changed",
+      title: "t",
+      message: "m",
+    });
+    expect(written).toBe(40);
+    expect(notificationRows()).toHaveLength(40);
+  });
+
+  it("never throws when the insert fails", async () => {
+    raw["exec"](`DROP TABLE notifications`);
+    expect(
+      await createNotification(db, {
+        userId: "u1",
+        type: "claim_approved",
+        title: "t",
+        message: "m",
+      })
+    ).toBe(false);
+  });
+});
+
+describe("reading and managing", () => {
+  beforeEach(() => {
+    addNote("n1", "u1", 30);
+    addNote("n2", "u1", 20, 1);
+    addNote("n3", "u1", 10);
+    addNote("other", "u2", 5);
+  });
+
+  it("lists newest first with the unread count, scoped to the user", async () => {
+    const list = await listNotifications(db, "u1");
+    expect(list.map((n) => n.id)).toEqual(["n3", "n2", "n1"]);
+    expect(await countUnreadNotifications(db, "u1")).toBe(2);
+    expect((await listNotifications(db, "u1", { unreadOnly: true })).map((n) => n.id)).toEqual([
+      "n3",
+      "n1",
+    ]);
+    expect((await listNotifications(db, "u1", { limit: 1, offset: 1 })).map((n) => n.id)).toEqual([
+      "n2",
+    ]);
+  });
+
+  it("marks read, unread and all read only on the owner's rows", async () => {
+    expect(await setNotificationRead(db, "u2", "n1", true)).toBe(false);
+    expect(await setNotificationRead(db, "u1", "n1", true)).toBe(true);
+    expect(await setNotificationRead(db, "u1", "n2", false)).toBe(true);
+    expect(await countUnreadNotifications(db, "u1")).toBe(2);
+    expect(await markAllNotificationsRead(db, "u1")).toBe(2);
+    expect(await countUnreadNotifications(db, "u1")).toBe(0);
+    expect(await countUnreadNotifications(db, "u2")).toBe(1);
+  });
+
+  it("deletes one, the read ones, or all", async () => {
+    expect(await deleteNotification(db, "u2", "n1")).toBe(false);
+    expect(await deleteNotification(db, "u1", "n1")).toBe(true);
+    expect(await clearNotifications(db, "u1", { readOnly: true })).toBe(1);
+    expect((await listNotifications(db, "u1")).map((n) => n.id)).toEqual(["n3"]);
+    expect(await clearNotifications(db, "u1")).toBe(1);
+    expect(notificationRows().map((r) => r.id)).toEqual(["other"]);
+  });
+
+  it("passes through only site-relative links", () => {
+    const base = {
+      id: "x",
+      userId: "u1",
+      type: "claim_approved",
+      title: "t",
+      message: "m",
+      read: null,
+      createdAt: NOW,
+    };
+    expect(toClientNotification({ ...base, data: '{"portal":"/vendor/profile"}' }).url).toBe(
+      "/vendor/profile"
+    );
+    expect(toClientNotification({ ...base, data: '{"url":"//evil.test/x"}' }).url).toBeNull();
+    expect(toClientNotification({ ...base, data: '{"url":"https://evil.test"}' }).url).toBeNull();
+    expect(toClientNotification({ ...base, data: "not json" })).toMatchObject({
+      url: null,
+      read: false,
+    });
+  });
+});
+
+describe("notifyFavoritedEventChanged", () => {
+  beforeEach(() => {
+    raw["exec"](`
+      INSERT INTO events VALUES ('e1', 'fryeburg-fair', 'Fryeburg Fair', 'APPROVED'),
+        ('e2', 'draft-fair', 'Draft Fair', 'PENDING');
+      INSERT INTO user_favorites VALUES
+        ('f1', 'u1', 'EVENT', 'e1', 0), ('f2', 'u2', 'EVENT', 'e1', 0),
+        ('f3', 'u3', 'VENUE', 'e1', 0), ('f4', 'u1', 'EVENT', 'e2', 0);
+    `);
+  });
+
+  it("notifies favoriters in-app and emails only those who opted in", async () => {
+    await setNotificationPreferences(db, "u1", [
+      { type: "favorite_event_changed", email: true, inApp: true },
+    ]);
+    const result = await notifyFavoritedEventChanged(db, {
+      eventId: "e1",
+      change: { kind: "cancelled", reason: "Flooded fairgrounds" },
+      now: NOW,
+    });
+    expect(result).toEqual({ notified: 2, emailed: 1 });
+
+    const rows = notificationRows();
+    expect(rows.map((r) => r.user_id).sort()).toEqual(["u1", "u2"]);
+    expect(rows[0].title).toBe("Fryeburg Fair has been cancelled");
+    expect(rows[0].message).toContain("Flooded fairgrounds");
+    expect(JSON.parse(rows[0].data as string)).toMatchObject({
+      eventId: "e1",
+      change: "cancelled",
+      url: "/events/fryeburg-fair",
+    });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      to: "one@example.com",
+      subject: "Fryeburg Fair has been cancelled",
+      source: FAVORITE_CHANGE_EMAIL_SOURCE,
+    });
+    expect(sent[0].text).toContain("https://example.test/events/fryeburg-fair");
+  });
+
+  it("describes a date move and skips suppressed addresses", async () => {
+    await setNotificationPreferences(db, "u1", [
+      { type: "favorite_event_changed", email: true, inApp: false },
+    ]);
+    raw["exec"](
+      `INSERT INTO email_suppression_list VALUES ('one@example.com', 'bounce', 'ses', 0)`
+    );
+    const result = await notifyFavoritedEventChanged(db, {
+      eventId: "e1",
+      change: {
+        kind: "rescheduled",
+        startDate: new Date("2026-10-04T12:00:00Z"),
+        endDate: new Date("2026-10-11T12:00:00Z"),
+      },
+    });
+    expect(result).toEqual({ notified: 1, emailed: 0 });
+    expect(notificationRows()[0]).toMatchObject({
+      user_id: "u2",
+      title: "Fryeburg Fair has new dates",
+    });
+  });
+
+  it("stays quiet for events that aren't publicly listed", async () => {
+    const result = await notifyFavoritedEventChanged(db, {
+      eventId: "e2",
+      change: { kind: "postponed" },
+    });
+    expect(result).toEqual({ notified: 0, emailed: 0 });
+    expect(notificationRows()).toHaveLength(0);
+  });
+});
+
+describe("favoriteChangeForLifecycle", () => {
+  it("carries the new dates for a reschedule", () => {
+    const startDate = new Date("2026-10-03T00:00:00Z");
+    const endDate = new Date("2026-10-04T00:00:00Z");
+    expect(favoriteChangeForLifecycle("RESCHEDULED", { startDate, endDate }, "Rain")).toEqual({
+      kind: "rescheduled",
+      startDate,
+      endDate,
+      reason: "Rain",
+    });
+  });
+
+  it("maps the other moves favoriters hear about", () => {
+    expect(favoriteChangeForLifecycle("POSTPONED", {}, null)).toEqual({
+      kind: "postponed",
+      reason: null,
+    });
+    expect(favoriteChangeForLifecycle("CANCELLED", {}, "Flooding")?.kind).toBe("cancelled");
+    expect(favoriteChangeForLifecycle("MOVED_ONLINE", {}, null)?.kind).toBe("moved_online");
+  });
+
+  it("returns null for moves favoriters aren't told about", () => {
+    for (const to of ["SCHEDULED", "TENTATIVE", "OCCURRED", "NO_SHOW"] as const) {
+      expect(favoriteChangeForLifecycle(to, {}, null)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * The venue owner's "new event at your venue" notice: who gets it, who
+ * doesn't (no owner, a draft, the owner's own submission), and the email's
+ * preference and suppression gates.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+
+const sent: { to: string; subject: string; text: string; source?: string }[] = [];
+vi.mock("@/lib/email/send", () => ({ getSiteUrl: () => "https://example.test" }));
+vi.mock("@/lib/queues/producers", () => ({
+  enqueueEmail: async (args: (typeof sent)[number]) => {
+    sent.push(args);
+  },
+}));
+vi.mock("@/lib/logger", () => ({ logError: vi.fn(async () => undefined) }));
+
+import * as schema from "@/lib/db/schema";
+import { setNotificationPreferences } from "../notifications";
+import { VENUE_SUBMISSION_EMAIL_SOURCE, notifyVenueOwnerOfSubmission } from "../venue-submissions";
+
+const TABLES = `
+  CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT, name TEXT);
+  CREATE TABLE venues (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, city TEXT, state TEXT, user_id TEXT
+  );
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, status TEXT NOT NULL, venue_id TEXT,
+    start_date INTEGER, end_date INTEGER
+  );
+  CREATE TABLE notifications (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, type TEXT NOT NULL, title TEXT NOT NULL,
+    message TEXT NOT NULL, read INTEGER DEFAULT 0, data TEXT, created_at INTEGER
+  );
+  CREATE TABLE notification_preferences (
+    user_id TEXT NOT NULL, type TEXT NOT NULL, email INTEGER NOT NULL, in_app INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL, PRIMARY KEY (user_id, type)
+  );
+  CREATE TABLE email_suppression_list (
+    email TEXT PRIMARY KEY, reason TEXT, source TEXT, created_at INTEGER NOT NULL
+  );
+`;
+
+type Db = Parameters<typeof notifyVenueOwnerOfSubmission>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+const sec = (iso: string) => Date.parse(iso) / 1000;
+
+function notificationRows() {
+  return raw.prepare(`SELECT * FROM notifications`).all() as Record<string, unknown>[];
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw["exec"](TABLES);
+  db = drizzle(raw, { schema }) as unknown as Db;
+  sent.length = 0;
+  raw["exec"](`
+    INSERT INTO users VALUES ('owner', 'Manager@Fair.example', 'Manager'),
+      ('promoter', 'p@example.com', 'Promoter');
+    INSERT INTO venues VALUES ('v-fair', 'Topsham Fairgrounds', 'Topsham', 'ME', 'owner'),
+      ('v-open', 'Cumberland Fairgrounds', 'Cumberland', 'ME', NULL);
+    INSERT INTO events VALUES
+      ('e1', 'Harvest Fair', 'PENDING', 'v-fair', ${sec("2026-08-10T12:00:00Z")},
+        ${sec("2026-08-12T12:00:00Z")}),
+      ('e-draft', 'Someday Fair', 'DRAFT', 'v-fair', NULL, NULL),
+      ('e-open', 'Cumberland Fair', 'PENDING', 'v-open', NULL, NULL);
+  `);
+});
+
+describe("notifyVenueOwnerOfSubmission", () => {
+  it("tells the owner in-app and by email, linking to their events list", async () => {
+    const result = await notifyVenueOwnerOfSubmission(db, {
+      eventId: "e1",
+      submittedByUserId: "promoter",
+      now: NOW,
+    });
+    expect(result).toEqual({ notified: true, emailed: true });
+
+    const [note] = notificationRows();
+    expect(note).toMatchObject({ user_id: "owner", type: "venue_event_submitted" });
+    expect(note.title).toBe("New event at Topsham Fairgrounds");
+    expect(JSON.parse(note.data as string)).toMatchObject({
+      eventId: "e1",
+      url: "/venue/v-fair/events",
+    });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe("manager@fair.example");
+    expect(sent[0].source).toBe(VENUE_SUBMISSION_EMAIL_SOURCE);
+    expect(sent[0].text).toContain("Harvest Fair");
+    expect(sent[0].text).toContain("https://example.test/venue/v-fair/events");
+  });
+
+  it("stays quiet for drafts, unowned venues and the owner's own submission", async () => {
+    expect(await notifyVenueOwnerOfSubmission(db, { eventId: "e-draft" })).toEqual({
+      notified: false,
+      emailed: false,
+    });
+    expect(await notifyVenueOwnerOfSubmission(db, { eventId: "e-open" })).toEqual({
+      notified: false,
+      emailed: false,
+    });
+    expect(
+      await notifyVenueOwnerOfSubmission(db, { eventId: "e1", submittedByUserId: "owner" })
+    ).toEqual({ notified: false, emailed: false });
+    expect(notificationRows()).toEqual([]);
+    expect(sent).toEqual([]);
+  });
+
+  it("skips the email when the owner opted out or the address is suppressed", async () => {
+    await setNotificationPreferences(db, "owner", [
+      { type: "venue_event_submitted", email: false, inApp: true },
+    ]);
+    expect(await notifyVenueOwnerOfSubmission(db, { eventId: "e1", now: NOW })).toEqual({
+      notified: true,
+      emailed: false,
+    });
+
+    await setNotificationPreferences(db, "owner", [
+      { type: "venue_event_submitted", email: true, inApp: true },
+    ]);
+    raw["exec"](
+      `INSERT INTO email_suppression_list VALUES ('manager@fair.example', 'bounce', 'ses', 0)`
+    );
+    expect(await notifyVenueOwnerOfSubmission(db, { eventId: "e1", now: NOW })).toEqual({
+      notified: true,
+      emailed: false,
+    });
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * "A fair you favorited changed" — the notification producer for users who
+ * hearted an event, fired when its dates move or its lifecycle turns to
+ * POSTPONED / CANCELLED / MOVED_ONLINE / RESCHEDULED.
+ *
+ * Callers are every surface that changes those things: the admin event edit
+ * PATCH (a plain date correction on a public event), the admin lifecycle
+ * route, and the MCP Worker's update_event_lifecycle tool — which can't import
+ * this, so it calls POST /api/internal/favorite-changes/notify once its write
+ * is done. All call in after their update has committed, and none should fail
+ * because of this, so everything here is best-effort — a failure is logged
+ * and the counts come back short.
+ *
+ * In-app by default; email only for users who opted in (see ./types.ts for
+ * why the default differs from the other types). Suppressed addresses are
+ * skipped like every other non-critical send.
+ */
+import { and, eq, inArray } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { emailSuppressionList, events, userFavorites, users } from "@/lib/db/schema";
+import { PUBLIC_EVENT_STATUSES } from "@/lib/constants";
+import type { EventLifecycle } from "@/lib/event-lifecycle";
+import { getSiteUrl } from "@/lib/email/send";
+import { favoriteEventChangedTemplate } from "@/lib/email/templates";
+import { logError } from "@/lib/logger";
+import { enqueueEmail } from "@/lib/queues/producers";
+import { formatDateRange } from "@/lib/utils";
+import { chunkedInArray } from "@takemetothefair/utils";
+import { createNotifications, resolveChannels } from "./notifications";
+
+export const FAVORITE_CHANGE_EMAIL_SOURCE = "favorite-event-changes";
+
+export type FavoriteEventChange =
+  | { kind: "rescheduled"; startDate: Date | null; endDate: Date | null; reason?: string | null }
+  | { kind: "postponed" | "cancelled" | "moved_online"; reason?: string | null };
+
+export interface FavoriteChangeResult {
+  notified: number;
+  emailed: number;
+}
+
+/**
+ * What a lifecycle move means to a favoriter, or null for the moves they
+ * aren't told about. `dates` are the event's dates after the move.
+ */
+export function favoriteChangeForLifecycle(
+  to: EventLifecycle,
+  dates: { startDate?: Date | null; endDate?: Date | null },
+  reason: string | null
+): FavoriteEventChange | null {
+  switch (to) {
+    case "RESCHEDULED":
+      return {
+        kind: "rescheduled",
+        startDate: dates.startDate ?? null,
+        endDate: dates.endDate ?? null,
+        reason,
+      };
+    case "POSTPONED":
+      return { kind: "postponed", reason };
+    case "CANCELLED":
+      return { kind: "cancelled", reason };
+    case "MOVED_ONLINE":
+      return { kind: "moved_online", reason };
+    default:
+      return null;
+  }
+}
+
+function describeChange(
+  eventName: string,
+  change: FavoriteEventChange
+): { headline: string; detail: string } {
+  const reason = change.reason?.trim();
+  const withReason = (s: string) => (reason ? `${s} Reason given: ${reason}` : s);
+  switch (change.kind) {
+    case "rescheduled":
+      return {
+        headline: `${eventName} has new dates`,
+        detail: withReason(`It's now ${formatDateRange(change.startDate, change.endDate)}.`),
+      };
+    case "postponed":
+      return {
+        headline: `${eventName} has been postponed`,
+        detail: withReason("New dates haven't been announced yet."),
+      };
+    case "cancelled":
+      return {
+        headline: `${eventName} has been cancelled`,
+        detail: withReason("The organizer has called it off."),
+      };
+    case "moved_online":
+      return {
+        headline: `${eventName} has moved online`,
+        detail: withReason("Check the event page for how to join."),
+      };
+  }
+}
+
+/**
+ * Tell everyone who favorited `eventId` about `change`. Events that aren't
+ * publicly listed are skipped: their favoriters can't open the page the
+ * notification links to.
+ */
+export async function notifyFavoritedEventChanged(
+  db: Database,
+  args: { eventId: string; change: FavoriteEventChange; now?: Date }
+): Promise<FavoriteChangeResult> {
+  const result: FavoriteChangeResult = { notified: 0, emailed: 0 };
+  try {
+    const [event] = await db
+      .select({ id: events.id, name: events.name, slug: events.slug, status: events.status })
+      .from(events)
+      .where(eq(events.id, args.eventId))
+      .limit(1);
+    if (!event || !(PUBLIC_EVENT_STATUSES as readonly string[]).includes(event.status)) {
+      return result;
+    }
+
+    const favoriters = await db
+      .select({ userId: userFavorites.userId })
+      .from(userFavorites)
+      .where(
+        and(eq(userFavorites.favoritableType, "EVENT"), eq(userFavorites.favoritableId, event.id))
+      );
+    const userIds = [...new Set(favoriters.map((f) => f.userId))];
+    if (userIds.length === 0) return result;
+
+    const { headline, detail } = describeChange(event.name, args.change);
+    const path = `/events/${event.slug}`;
+    result.notified = await createNotifications(db, {
+      userIds,
+      type: "favorite_event_changed",
+      title: headline,
+      message: detail,
+      data: { eventId: event.id, change: args.change.kind, url: path },
+      now: args.now,
+    });
+
+    const channels = await resolveChannels(db, userIds, "favorite_event_changed");
+    const emailUserIds = userIds.filter((id) => channels.get(id)?.email);
+    if (emailUserIds.length === 0) return result;
+
+    const recipients = await chunkedInArray(emailUserIds, (batch) =>
+      db.select({ email: users.email }).from(users).where(inArray(users.id, batch))
+    );
+    const addresses = [
+      ...new Set(recipients.map((r) => r.email?.toLowerCase()).filter((e): e is string => !!e)),
+    ];
+    const suppressed = new Set(
+      (
+        await chunkedInArray(addresses, (batch) =>
+          db
+            .select({ email: emailSuppressionList.email })
+            .from(emailSuppressionList)
+            .where(inArray(emailSuppressionList.email, batch))
+        )
+      ).map((r) => r.email)
+    );
+
+    const siteUrl = getSiteUrl();
+    const tpl = favoriteEventChangedTemplate({
+      eventName: event.name,
+      eventUrl: `${siteUrl}${path}`,
+      headline,
+      detail,
+      settingsUrl: `${siteUrl}/dashboard/settings#notifications`,
+    });
+    for (const to of addresses) {
+      if (suppressed.has(to)) continue;
+      try {
+        await enqueueEmail({
+          to,
+          subject: tpl.subject,
+          html: tpl.html,
+          text: tpl.text,
+          source: FAVORITE_CHANGE_EMAIL_SOURCE,
+        });
+        result.emailed += 1;
+      } catch (error) {
+        await logError(db, {
+          level: "warn",
+          message: "Failed to enqueue favorited-event change email",
+          error,
+          source: "notifications/favorite-changes",
+          context: { eventId: event.id },
+        });
+      }
+    }
+  } catch (error) {
+    await logError(db, {
+      message: "Favorited-event change notification failed",
+      error,
+      source: "notifications/favorite-changes",
+      context: { eventId: args.eventId, change: args.change.kind },
+    });
+  }
+  return result;
+}
@@ -0,0 +1,304 @@
+/**
+ * The in-app notification center: writing notifications on behalf of
+ * producers, reading them back for the bell and /dashboard/notifications, and
+ * the per-type channel preferences (drizzle/0233) both sides consult.
+ *
+ * Writers are BEST-EFFORT by contract, same as the original claim-approval
+ * writer: every producer calls in after its own change has committed, so a
+ * failed insert is swallowed rather than surfaced as a failure of the thing
+ * that actually happened. A producer that also emails asks `wantsEmail` first;
+ * the notification and the email are independent choices.
+ */
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import * as schema from "@/lib/db/schema";
+import { notificationPreferences, notifications, type Notification } from "@/lib/db/schema";
+import { chunkIds } from "@takemetothefair/utils";
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_KEYS,
+  type NotificationChannels,
+  type NotificationType,
+} from "./types";
+
+// The bare drizzle type rather than `Database`, so lib modules typed the same
+// way (approval-notification, for one) can produce notifications too.
+type Db = DrizzleD1Database<typeof schema>;
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+export const NOTIFICATIONS_MAX_PAGE_SIZE = 100;
+
+// 7 columns per notifications row → 98 bound params per insert (D1 caps at 100).
+const NOTIFICATION_INSERT_BATCH = 14;
+
+export interface NotificationContent {
+  title: string;
+  message: string;
+  /** Stored as JSON. A site-relative `url` is where the bell links to. */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Effective channels per user for one type. A user without a stored row — and
+ * every user, should the read itself fail — gets the type's defaults: a
+ * preferences hiccup must not cost anyone a notification they'd get anyway.
+ */
+export async function resolveChannels(
+  db: Db,
+  userIds: string[],
+  type: NotificationType
+): Promise<Map<string, NotificationChannels>> {
+  const out = new Map<string, NotificationChannels>();
+  for (const id of userIds) out.set(id, { ...NOTIFICATION_TYPES[type].defaults });
+  try {
+    for (const batch of chunkIds([...out.keys()])) {
+      const rows = await db
+        .select({
+          userId: notificationPreferences.userId,
+          email: notificationPreferences.email,
+          inApp: notificationPreferences.inApp,
+        })
+        .from(notificationPreferences)
+        .where(
+          and(
+            eq(notificationPreferences.type, type),
+            inArray(notificationPreferences.userId, batch)
+          )
+        );
+      for (const r of rows) out.set(r.userId, { email: r.email, inApp: r.inApp });
+    }
+  } catch {
+    // Defaults stand — see above.
+  }
+  return out;
+}
+
+/** Whether `userId` wants `type` by email. Defaults apply without a stored choice. */
+export async function wantsEmail(db: Db, userId: string, type: NotificationType): Promise<boolean> {
+  const channels = await resolveChannels(db, [userId], type);
+  return channels.get(userId)!.email;
+}
+
+/**
+ * Write one notification unless the user switched the type's in-app channel
+ * off. Returns whether a row was written; never throws.
+ */
+export async function createNotification(
+  db: Db,
+  args: NotificationContent & { userId: string; type: NotificationType; now?: Date }
+): Promise<boolean> {
+  const written = await createNotifications(db, { ...args, userIds: [args.userId] });
+  return written === 1;
+}
+
+/**
+ * The fan-out form: the same notification to many users (everyone who
+ * favorited an event, say). Users who switched the type off in-app are
+ * skipped. Returns how many rows were written; never throws.
+ */
+export async function createNotifications(
+  db: Db,
+  args: NotificationContent & { userIds: string[]; type: NotificationType; now?: Date }
+): Promise<number> {
+  const now = args.now ?? new Date();
+  const channels = await resolveChannels(db, [...new Set(args.userIds)], args.type);
+  const recipients = [...channels].filter(([, c]) => c.inApp).map(([userId]) => userId);
+  const data = args.data ? JSON.stringify(args.data) : null;
+
+  let written = 0;
+  for (const batch of chunkIds(recipients, NOTIFICATION_INSERT_BATCH)) {
+    try {
+      await db.insert(notifications).values(
+        batch.map((userId) => ({
+          id: crypto.randomUUID(),
+          userId,
+          type: args.type,
+          title: args.title,
+          message: args.message,
+          read: false,
+          data,
+          createdAt: now,
+        }))
+      );
+      written += batch.length;
+    } catch {
+      // Best-effort — the producer's own change is already committed.
+    }
+  }
+  return written;
+}
+
+// ── Reading ──────────────────────────────────────────────────────────
+
+export interface ClientNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  read: boolean;
+  /** Site-relative link, or null when the notification points nowhere. */
+  url: string | null;
+  createdAt: string | null;
+}
+
+/**
+ * The bell's view of a row. Only site-relative urls are passed through, so a
+ * malformed `data` blob can never turn the bell into an off-site link. Claim
+ * notifications written before the center existed carry `portal`, not `url`.
+ */
+export function toClientNotification(row: Notification): ClientNotification {
+  let url: string | null = null;
+  if (row.data) {
+    try {
+      const data = JSON.parse(row.data) as { url?: unknown; portal?: unknown };
+      const candidate = typeof data.url === "string" ? data.url : data.portal;
+      if (typeof candidate === "string" && /^\/(?!\/)/.test(candidate)) url = candidate;
+    } catch {
+      // Unparseable data — the notification still renders, just without a link.
+    }
+  }
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    message: row.message,
+    read: row.read ?? false,
+    url,
+    createdAt: row.createdAt ? row.createdAt.toISOString() : null,
+  };
+}
+
+// `read` has a default but no NOT NULL (drizzle/0000); NULL counts as unread.
+const unread = sql`COALESCE(${notifications.read}, 0) = 0`;
+
+export async function countUnreadNotifications(db: Db, userId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`COUNT(*)` })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), unread));
+  return Number(row?.count ?? 0);
+}
+
+/** Newest first; `unreadOnly` for the bell's "what's new" view. */
+export async function listNotifications(
+  db: Db,
+  userId: string,
+  opts: { limit?: number; offset?: number; unreadOnly?: boolean } = {}
+): Promise<ClientNotification[]> {
+  const limit = Math.min(
+    Math.max(opts.limit ?? NOTIFICATIONS_PAGE_SIZE, 1),
+    NOTIFICATIONS_MAX_PAGE_SIZE
+  );
+  const rows = await db
+    .select()
+    .from(notifications)
+    .where(
+      opts.unreadOnly
+        ? and(eq(notifications.userId, userId), unread)
+        : eq(notifications.userId, userId)
+    )
+    .orderBy(desc(notifications.createdAt), desc(notifications.id))
+    .limit(limit)
+    .offset(Math.max(opts.offset ?? 0, 0));
+  return rows.map(toClientNotification);
+}
+
+/** Mark one of the user's notifications read or unread. False when it isn't theirs. */
+export async function setNotificationRead(
+  db: Db,
+  userId: string,
+  id: string,
+  read: boolean
+): Promise<boolean> {
+  const rows = await db
+    .update(notifications)
+    .set({ read })
+    .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+    .returning({ id: notifications.id });
+  return rows.length > 0;
+}
+
+/** Returns how many were unread. */
+export async function markAllNotificationsRead(db: Db, userId: string): Promise<number> {
+  const rows = await db
+    .update(notifications)
+    .set({ read: true })
+    .where(and(eq(notifications.userId, userId), unread))
+    .returning({ id: notifications.id });
+  return rows.length;
+}
+
+/** Delete one of the user's notifications. False when it isn't theirs. */
+export async function deleteNotification(db: Db, userId: string, id: string): Promise<boolean> {
+  const rows = await db
+    .delete(notifications)
+    .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+    .returning({ id: notifications.id });
+  return rows.length > 0;
+}
+
+/** Clear the user's notifications — all of them, or only those already read. */
+export async function clearNotifications(
+  db: Db,
+  userId: string,
+  opts: { readOnly?: boolean } = {}
+): Promise<number> {
+  const rows = await db
+    .delete(notifications)
+    .where(
+      opts.readOnly
+        ? and(eq(notifications.userId, userId), sql`COALESCE(${notifications.read}, 0) = 1`)
+        : eq(notifications.userId, userId)
+    )
+    .returning({ id: notifications.id });
+  return rows.length;
+}
+
+// ── Preferences ──────────────────────────────────────────────────────
+
+export interface NotificationPreferenceView extends NotificationChannels {
+  type: NotificationType;
+  label: string;
+  description: string;
+}
+
+/** Every known type with the user's effective channels, in registry order. */
+export async function getNotificationPreferences(
+  db: Db,
+  userId: string
+): Promise<NotificationPreferenceView[]> {
+  const rows = await db
+    .select()
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId));
+  const stored = new Map(rows.map((r) => [r.type, r]));
+  return NOTIFICATION_TYPE_KEYS.map((type) => {
+    const row = stored.get(type);
+    const { label, description, defaults } = NOTIFICATION_TYPES[type];
+    return {
+      type,
+      label,
+      description,
+      email: row ? row.email : defaults.email,
+      inApp: row ? row.inApp : defaults.inApp,
+    };
+  });
+}
+
+/** Upsert the given types' channels; types not listed keep what they had. */
+export async function setNotificationPreferences(
+  db: Db,
+  userId: string,
+  prefs: { type: NotificationType; email: boolean; inApp: boolean }[],
+  now: Date = new Date()
+): Promise<void> {
+  for (const p of prefs) {
+    await db
+      .insert(notificationPreferences)
+      .values({ userId, type: p.type, email: p.email, inApp: p.inApp, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.type],
+        set: { email: p.email, inApp: p.inApp, updatedAt: now },
+      });
+  }
+}
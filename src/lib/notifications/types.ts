@@ -0,0 +1,69 @@
+/**
+ * The notification types a user can hear about, and the channel defaults they
+ * get until they change them in /dashboard/settings.
+ *
+ * The key is the `notifications.type` string every producer writes and the
+ * `notification_preferences.type` a choice is stored under (drizzle/0233).
+ * A producer writing a type that isn't listed here still works — it just
+ * can't be switched off — so add the entry alongside the producer.
+ *
+ * `email: false` in the defaults is an opt-in email, not a missing one: every
+ * type here has an email path. Favorited-event changes default to in-app only
+ * because a user can favorite dozens of fairs and a date correction on each
+ * would be an inbox's worth of mail nobody asked for.
+ */
+export const NOTIFICATION_TYPES = {
+  claim_approved: {
+    label: "Claim approved",
+    description:
+      "A vendor, promoter, performer or venue listing you claimed is now yours to manage.",
+    defaults: { email: true, inApp: true },
+  },
+  application_update: {
+    label: "Application updates",
+    description: "A promoter changes the status, payment or booth of one of your applications.",
+    defaults: { email: true, inApp: true },
+  },
+  submission_approved: {
+    label: "Submission approved",
+    description: "An event you submitted has been reviewed and is live.",
+    defaults: { email: true, inApp: true },
+  },
+  favorite_event_changed: {
+    label: "Favorited event changes",
+    description: "A fair you favorited moves its dates, is postponed or is cancelled.",
+    defaults: { email: false, inApp: true },
+  },
+  saved_search_match: {
+    label: "Saved search matches",
+    description: "New events match one of your saved searches.",
+    defaults: { email: true, inApp: true },
+  },
+  application_deadline: {
+    label: "Application deadlines",
+    description:
+      "An event you're invited to or interested in stops taking applications within a week.",
+    defaults: { email: true, inApp: true },
+  },
+  venue_event_submitted: {
+    label: "Events at your venue",
+    description: "Someone submits a new event at a venue you manage.",
+    defaults: { email: true, inApp: true },
+  },
+} as const satisfies Record<
+  string,
+  { label: string; description: string; defaults: NotificationChannels }
+>;
+
+export type NotificationType = keyof typeof NOTIFICATION_TYPES;
+
+export interface NotificationChannels {
+  email: boolean;
+  inApp: boolean;
+}
+
+export const NOTIFICATION_TYPE_KEYS = Object.keys(NOTIFICATION_TYPES) as NotificationType[];
+
+export function isNotificationType(value: string): value is NotificationType {
+  return Object.prototype.hasOwnProperty.call(NOTIFICATION_TYPES, value);
+}
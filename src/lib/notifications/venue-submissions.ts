@@ -0,0 +1,124 @@
+/**
+ * "A new event was submitted at your venue" — the notification producer for
+ * venue owners (drizzle/0240), fired by the three paths that create an event
+ * somebody else will review: a promoter's create, a promoter's draft submit,
+ * and the public suggest-event form.
+ *
+ * Every caller has already written the event, so this is best-effort like the
+ * rest of the notification center: a failure is logged and the submission
+ * stands. Drafts are skipped — nobody has submitted anything yet — and so is
+ * an owner who filed the event themselves.
+ */
+import { eq } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { emailSuppressionList, events, users, venues } from "@/lib/db/schema";
+import { PUBLIC_EVENT_STATUSES } from "@/lib/constants";
+import { getSiteUrl } from "@/lib/email/send";
+import { venueEventSubmittedTemplate } from "@/lib/email/templates";
+import { logError } from "@/lib/logger";
+import { enqueueEmail } from "@/lib/queues/producers";
+import { decodeHtmlEntities, formatDateRange } from "@/lib/utils";
+import { displayVenueName } from "@/lib/venue-display";
+import { createNotification, wantsEmail } from "./notifications";
+
+export const VENUE_SUBMISSION_EMAIL_SOURCE = "venue-event-submitted";
+
+export interface VenueSubmissionResult {
+  notified: boolean;
+  emailed: boolean;
+}
+
+/**
+ * Tell the owner of `eventId`'s venue that it was submitted. `submittedByUserId`
+ * is the account that filed it, when there is one.
+ */
+export async function notifyVenueOwnerOfSubmission(
+  db: Database,
+  args: { eventId: string; submittedByUserId?: string | null; now?: Date }
+): Promise<VenueSubmissionResult> {
+  const result: VenueSubmissionResult = { notified: false, emailed: false };
+  try {
+    const [event] = await db
+      .select({
+        id: events.id,
+        name: events.name,
+        status: events.status,
+        venueId: events.venueId,
+        startDate: events.startDate,
+        endDate: events.endDate,
+      })
+      .from(events)
+      .where(eq(events.id, args.eventId))
+      .limit(1);
+    if (!event?.venueId || event.status === "DRAFT") return result;
+
+    const [venue] = await db
+      .select({
+        id: venues.id,
+        name: venues.name,
+        city: venues.city,
+        state: venues.state,
+        userId: venues.userId,
+      })
+      .from(venues)
+      .where(eq(venues.id, event.venueId))
+      .limit(1);
+    if (!venue?.userId || venue.userId === args.submittedByUserId) return result;
+
+    const venueName = displayVenueName(venue);
+    const eventName = decodeHtmlEntities(event.name);
+    const when = event.startDate ? formatDateRange(event.startDate, event.endDate) : null;
+    const isPublic = (PUBLIC_EVENT_STATUSES as readonly string[]).includes(event.status);
+    const path = `/venue/${venue.id}/events`;
+
+    result.notified = await createNotification(db, {
+      userId: venue.userId,
+      type: "venue_event_submitted",
+      title: `New event at ${venueName}`,
+      message: `${eventName}${when ? ` (${when})` : ""} was submitted for your venue.`,
+      data: { eventId: event.id, venueId: venue.id, url: path },
+      now: args.now,
+    });
+
+    if (!(await wantsEmail(db, venue.userId, "venue_event_submitted"))) return result;
+    const [owner] = await db
+      .select({ email: users.email })
+      .from(users)
+      .where(eq(users.id, venue.userId))
+      .limit(1);
+    const to = owner?.email?.toLowerCase();
+    if (!to) return result;
+    const [suppressed] = await db
+      .select({ email: emailSuppressionList.email })
+      .from(emailSuppressionList)
+      .where(eq(emailSuppressionList.email, to))
+      .limit(1);
+    if (suppressed) return result;
+
+    const siteUrl = getSiteUrl();
+    const tpl = venueEventSubmittedTemplate({
+      venueName,
+      eventName,
+      when,
+      isPublic,
+      eventsUrl: `${siteUrl}${path}`,
+      settingsUrl: `${siteUrl}/dashboard/settings#notifications`,
+    });
+    await enqueueEmail({
+      to,
+      subject: tpl.subject,
+      html: tpl.html,
+      text: tpl.text,
+      source: VENUE_SUBMISSION_EMAIL_SOURCE,
+    });
+    result.emailed = true;
+  } catch (error) {
+    await logError(db, {
+      message: "Venue owner submission notice failed",
+      error,
+      source: "notifications/venue-submissions",
+      context: { eventId: args.eventId },
+    });
+  }
+  return result;
+}
@@ -0,0 +1,208 @@
+/**
+ * Team invitations (drizzle/0239): single-use, email-bound, 7-day links that
+ * seat an EDITOR or VIEWER. Same harness as members.test.ts plus user_roles,
+ * which accepting writes so the portal layouts let the new member in.
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { eq } from "drizzle-orm";
+import * as schema from "../../db/schema";
+import { organizationInvites, userRoles, users } from "../../db/schema";
+import {
+  acceptOrganizationInvite,
+  createOrganizationInvite,
+  findOpenInvite,
+  revokeOrganizationInvite,
+} from "../invites";
+import { getRoleFor } from "../members";
+
+const SCHEMA_SQL = `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY, name TEXT, email TEXT NOT NULL UNIQUE, email_verified INTEGER
+  );
+  CREATE TABLE user_roles (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, role TEXT NOT NULL,
+    granted_at INTEGER NOT NULL, granted_by TEXT, UNIQUE (user_id, role)
+  );
+  CREATE TABLE vendors (
+    id TEXT PRIMARY KEY, user_id TEXT, business_name TEXT NOT NULL, slug TEXT NOT NULL,
+    updated_at INTEGER
+  );
+  CREATE TABLE promoters (
+    id TEXT PRIMARY KEY, user_id TEXT, company_name TEXT NOT NULL, slug TEXT NOT NULL,
+    updated_at INTEGER
+  );
+  CREATE TABLE organization_members (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, user_id TEXT NOT NULL,
+    role TEXT NOT NULL, invited_by_user_id TEXT, created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL, UNIQUE (entity_type, entity_id, user_id)
+  );
+  CREATE TABLE organization_invites (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, email TEXT NOT NULL,
+    role TEXT NOT NULL, token_hash TEXT NOT NULL UNIQUE, invited_by_user_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL, expires_at INTEGER NOT NULL, accepted_at INTEGER,
+    accepted_by_user_id TEXT, revoked_at INTEGER
+  );
+  CREATE TABLE admin_actions (
+    id TEXT PRIMARY KEY, action TEXT NOT NULL, actor_user_id TEXT, target_type TEXT NOT NULL,
+    target_id TEXT NOT NULL, payload_json TEXT, created_at INTEGER NOT NULL
+  );
+`;
+
+let raw: Database.Database;
+let db: ReturnType<typeof drizzle<typeof schema>>;
+
+const NOW = new Date("2026-10-01T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+const TEAM = { entityType: "PROMOTER" as const, entityId: "p1" };
+
+function invite(email: string, role: "EDITOR" | "VIEWER" = "EDITOR", now = NOW) {
+  return createOrganizationInvite(
+    db as never,
+    { ...TEAM, email, role, invitedByUserId: "u-owner" },
+    now
+  );
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(SCHEMA_SQL);
+  db = drizzle(raw, { schema });
+  raw.exec(`
+    INSERT INTO users (id, name, email) VALUES
+      ('u-owner', 'Olive Owner', 'olive@example.com'),
+      ('u-new', 'Nadia New', 'nadia@example.com');
+    INSERT INTO promoters (id, user_id, company_name, slug) VALUES
+      ('p1', 'u-owner', 'Fair Society', 'fair-society');
+  `);
+});
+afterEach(() => raw.close());
+
+describe("createOrganizationInvite", () => {
+  it("stores only the token hash, lowercases the email and expires in a week", async () => {
+    const result = await invite("  Nadia@Example.com ");
+    if (!result.ok) throw new Error("expected an invite");
+    expect(result.expiresAt.getTime()).toBe(NOW.getTime() + 7 * DAY);
+
+    const [row] = await db.select().from(organizationInvites);
+    expect(row.email).toBe("nadia@example.com");
+    expect(row.tokenHash).not.toBe(result.rawToken);
+    expect(row.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("refuses someone already on the team", async () => {
+    expect(await invite("olive@example.com")).toEqual({ ok: false, reason: "already_member" });
+  });
+
+  it("revokes the earlier link when the same address is invited again", async () => {
+    const first = await invite("nadia@example.com", "VIEWER");
+    const second = await invite("nadia@example.com", "EDITOR");
+    if (!first.ok || !second.ok) throw new Error("expected invites");
+    expect(await findOpenInvite(db as never, first.rawToken, NOW)).toEqual({
+      ok: false,
+      reason: "not_found",
+    });
+    expect(await findOpenInvite(db as never, second.rawToken, NOW)).toMatchObject({ ok: true });
+  });
+});
+
+describe("acceptOrganizationInvite", () => {
+  it("seats the invited account, grants the portal role and verifies the email", async () => {
+    const created = await invite("nadia@example.com", "VIEWER");
+    if (!created.ok) throw new Error("expected an invite");
+
+    const result = await acceptOrganizationInvite(
+      db as never,
+      created.rawToken,
+      { id: "u-new", email: "Nadia@example.com" },
+      NOW
+    );
+    expect(result).toEqual({ ok: true, entityType: "PROMOTER", entityId: "p1", role: "VIEWER" });
+    expect(await getRoleFor(db as never, { ...TEAM, userId: "u-new" })).toBe("VIEWER");
+
+    const roles = await db
+      .select({ role: userRoles.role })
+      .from(userRoles)
+      .where(eq(userRoles.userId, "u-new"));
+    expect(roles).toEqual([{ role: "PROMOTER" }]);
+    const [user] = await db
+      .select({ emailVerified: users.emailVerified })
+      .from(users)
+      .where(eq(users.id, "u-new"));
+    expect(user.emailVerified).not.toBeNull();
+
+    // Single use.
+    expect(
+      await acceptOrganizationInvite(
+        db as never,
+        created.rawToken,
+        { id: "u-new", email: "nadia@example.com" },
+        NOW
+      )
+    ).toEqual({ ok: false, reason: "not_found" });
+  });
+
+  it("rejects a forwarded link and an expired one", async () => {
+    const created = await invite("nadia@example.com");
+    if (!created.ok) throw new Error("expected an invite");
+
+    expect(
+      await acceptOrganizationInvite(
+        db as never,
+        created.rawToken,
+        { id: "u-owner", email: "olive@example.com" },
+        NOW
+      )
+    ).toEqual({ ok: false, reason: "email_mismatch" });
+    expect(
+      await acceptOrganizationInvite(
+        db as never,
+        created.rawToken,
+        { id: "u-new", email: "nadia@example.com" },
+        new Date(NOW.getTime() + 8 * DAY)
+      )
+    ).toEqual({ ok: false, reason: "expired" });
+    expect(await getRoleFor(db as never, { ...TEAM, userId: "u-new" })).toBeNull();
+  });
+
+  it("upgrades a viewer who accepts an editor invite", async () => {
+    // Sent before they were seated as a viewer some other way.
+    const created = await invite("nadia@example.com", "EDITOR");
+    if (!created.ok) throw new Error("expected an invite");
+    raw.exec(`
+      INSERT INTO organization_members (id, entity_type, entity_id, user_id, role, created_at, updated_at)
+      VALUES ('m1', 'PROMOTER', 'p1', 'u-new', 'VIEWER', 0, 0)
+    `);
+
+    const result = await acceptOrganizationInvite(
+      db as never,
+      created.rawToken,
+      { id: "u-new", email: "nadia@example.com" },
+      NOW
+    );
+    expect(result).toMatchObject({ ok: true, role: "EDITOR" });
+    expect(await getRoleFor(db as never, { ...TEAM, userId: "u-new" })).toBe("EDITOR");
+  });
+});
+
+describe("revokeOrganizationInvite", () => {
+  it("withdraws an open invite once, and only for its own team", async () => {
+    const created = await invite("nadia@example.com");
+    if (!created.ok) throw new Error("expected an invite");
+
+    expect(
+      await revokeOrganizationInvite(
+        db as never,
+        { entityType: "VENDOR", entityId: "p1", inviteId: created.inviteId },
+        NOW
+      )
+    ).toBe(false);
+    expect(
+      await revokeOrganizationInvite(db as never, { ...TEAM, inviteId: created.inviteId }, NOW)
+    ).toBe(true);
+    expect(
+      await revokeOrganizationInvite(db as never, { ...TEAM, inviteId: created.inviteId }, NOW)
+    ).toBe(false);
+  });
+});
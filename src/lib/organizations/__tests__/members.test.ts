@@ -0,0 +1,301 @@
+/**
+ * Team accounts (drizzle/0239): who a user acts for, the roster, and the
+ * owner-only moves — role change, removal and ownership transfer. Ownership
+ * stays in vendors.user_id / promoters.user_id, so the transfer tests check
+ * that column rather than trusting the member table alone.
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { eq } from "drizzle-orm";
+import * as schema from "../../db/schema";
+import { adminActions, organizationMembers, promoters, userRoles, vendors } from "../../db/schema";
+import {
+  changeMemberRole,
+  getMembership,
+  getRoleFor,
+  listTeam,
+  removeMember,
+  roleAtLeast,
+  transferOwnership,
+} from "../members";
+
+const SCHEMA_SQL = `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY, name TEXT, email TEXT NOT NULL UNIQUE, email_verified INTEGER
+  );
+  CREATE TABLE vendors (
+    id TEXT PRIMARY KEY, user_id TEXT UNIQUE, business_name TEXT NOT NULL, slug TEXT NOT NULL,
+    updated_at INTEGER
+  );
+  CREATE TABLE promoters (
+    id TEXT PRIMARY KEY, user_id TEXT UNIQUE, company_name TEXT NOT NULL, slug TEXT NOT NULL,
+    updated_at INTEGER
+  );
+  CREATE TABLE organization_members (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, user_id TEXT NOT NULL,
+    role TEXT NOT NULL, invited_by_user_id TEXT, created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL, UNIQUE (entity_type, entity_id, user_id)
+  );
+  CREATE TABLE organization_invites (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, email TEXT NOT NULL,
+    role TEXT NOT NULL, token_hash TEXT NOT NULL UNIQUE, invited_by_user_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL, expires_at INTEGER NOT NULL, accepted_at INTEGER,
+    accepted_by_user_id TEXT, revoked_at INTEGER
+  );
+  CREATE TABLE user_roles (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, role TEXT NOT NULL, granted_at INTEGER NOT NULL,
+    granted_by TEXT, UNIQUE (user_id, role)
+  );
+  CREATE TABLE admin_actions (
+    id TEXT PRIMARY KEY, action TEXT NOT NULL, actor_user_id TEXT, target_type TEXT NOT NULL,
+    target_id TEXT NOT NULL, payload_json TEXT, created_at INTEGER NOT NULL
+  );
+`;
+
+let raw: Database.Database;
+let db: ReturnType<typeof drizzle<typeof schema>>;
+
+const NOW = new Date("2026-10-01T12:00:00Z");
+
+function seat(userId: string, role: "EDITOR" | "VIEWER", entityId = "v1", at = NOW) {
+  raw
+    .prepare(
+      `INSERT INTO organization_members (id, entity_type, entity_id, user_id, role, created_at, updated_at)
+       VALUES (?, 'VENDOR', ?, ?, ?, ?, ?)`
+    )
+    .run(
+      `m-${userId}-${entityId}`,
+      entityId,
+      userId,
+      role,
+      at.getTime() / 1000,
+      at.getTime() / 1000
+    );
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(SCHEMA_SQL);
+  db = drizzle(raw, { schema });
+  raw.exec(`
+    INSERT INTO users (id, name, email) VALUES
+      ('u-owner', 'Olive Owner', 'olive@example.com'),
+      ('u-ed', 'Eddie Editor', 'eddie@example.com'),
+      ('u-view', NULL, 'vera@example.com'),
+      ('u-out', 'Outsider', 'out@example.com');
+    INSERT INTO vendors (id, user_id, business_name, slug) VALUES
+      ('v1', 'u-owner', 'Kettle Corn &amp; Co', 'kettle-corn-co'),
+      ('v2', 'u-out', 'Maple Stand', 'maple-stand');
+    INSERT INTO promoters (id, user_id, company_name, slug) VALUES
+      ('p1', 'u-owner', 'Fair Society', 'fair-society');
+  `);
+});
+afterEach(() => raw.close());
+
+describe("roleAtLeast", () => {
+  it("ranks owner over editor over viewer", () => {
+    expect(roleAtLeast("OWNER", "EDITOR")).toBe(true);
+    expect(roleAtLeast("EDITOR", "EDITOR")).toBe(true);
+    expect(roleAtLeast("VIEWER", "EDITOR")).toBe(false);
+  });
+});
+
+describe("getMembership", () => {
+  it("resolves the owner from the owner column", async () => {
+    expect(await getMembership(db as never, "u-owner", "VENDOR")).toEqual({
+      entityType: "VENDOR",
+      entityId: "v1",
+      role: "OWNER",
+    });
+    expect(await getMembership(db as never, "u-owner", "PROMOTER")).toMatchObject({
+      entityId: "p1",
+      role: "OWNER",
+    });
+  });
+
+  it("takes a member's strongest seat, and nothing for an outsider", async () => {
+    seat("u-ed", "VIEWER", "v1", new Date("2026-01-01T00:00:00Z"));
+    seat("u-ed", "EDITOR", "v2");
+    expect(await getMembership(db as never, "u-ed", "VENDOR")).toEqual({
+      entityType: "VENDOR",
+      entityId: "v2",
+      role: "EDITOR",
+    });
+    expect(await getMembership(db as never, "u-view", "VENDOR")).toBeNull();
+  });
+
+  it("keeps an owner on their own vendor even when seated elsewhere", async () => {
+    seat("u-out", "EDITOR", "v1");
+    expect(await getMembership(db as never, "u-out", "VENDOR")).toMatchObject({ entityId: "v2" });
+    expect(
+      await getRoleFor(db as never, { entityType: "VENDOR", entityId: "v1", userId: "u-out" })
+    ).toBe("EDITOR");
+  });
+});
+
+describe("listTeam", () => {
+  it("lists the owner first, then members by join date, and only open invites", async () => {
+    seat("u-view", "VIEWER", "v1", new Date("2026-03-01T00:00:00Z"));
+    seat("u-ed", "EDITOR", "v1", new Date("2026-02-01T00:00:00Z"));
+    const open = NOW.getTime() / 1000 + 3600;
+    const gone = NOW.getTime() / 1000 - 3600;
+    raw.exec(`
+      INSERT INTO organization_invites (id, entity_type, entity_id, email, role, token_hash, invited_by_user_id, created_at, expires_at, revoked_at)
+      VALUES
+        ('i-open', 'VENDOR', 'v1', 'new@example.com', 'VIEWER', 'h1', 'u-owner', 0, ${open}, NULL),
+        ('i-expired', 'VENDOR', 'v1', 'old@example.com', 'VIEWER', 'h2', 'u-owner', 0, ${gone}, NULL),
+        ('i-revoked', 'VENDOR', 'v1', 'no@example.com', 'VIEWER', 'h3', 'u-owner', 0, ${open}, 1);
+    `);
+
+    const team = await listTeam(db as never, "VENDOR", "v1", NOW);
+    expect(team.members.map((m) => [m.userId, m.role])).toEqual([
+      ["u-owner", "OWNER"],
+      ["u-ed", "EDITOR"],
+      ["u-view", "VIEWER"],
+    ]);
+    expect(team.invites.map((i) => i.id)).toEqual(["i-open"]);
+  });
+});
+
+describe("changeMemberRole / removeMember", () => {
+  it("changes and removes seats with an audit row, and never touches the owner", async () => {
+    seat("u-ed", "EDITOR");
+    const target = { entityType: "VENDOR" as const, entityId: "v1", userId: "u-ed" };
+
+    expect(await changeMemberRole(db as never, { ...target, role: "VIEWER" }, "u-owner")).toBe(
+      true
+    );
+    expect(await getRoleFor(db as never, target)).toBe("VIEWER");
+
+    expect(await removeMember(db as never, target, "u-owner")).toBe(true);
+    expect(await getRoleFor(db as never, target)).toBeNull();
+
+    // The owner has no member row to remove — they must transfer first.
+    expect(await removeMember(db as never, { ...target, userId: "u-owner" }, "u-owner")).toBe(
+      false
+    );
+
+    const audit = await db.select({ action: adminActions.action }).from(adminActions);
+    expect(audit.map((a) => a.action)).toEqual([
+      "vendor.team_role_change",
+      "vendor.team_member_remove",
+    ]);
+  });
+});
+
+describe("removeMember — role grant", () => {
+  function grant(userId: string, role: "VENDOR" | "PROMOTER") {
+    raw
+      .prepare(`INSERT INTO user_roles (id, user_id, role, granted_at) VALUES (?, ?, ?, 0)`)
+      .run(`r-${userId}-${role}`, userId, role);
+  }
+  async function roles(userId: string) {
+    const rows = await db
+      .select({ role: userRoles.role })
+      .from(userRoles)
+      .where(eq(userRoles.userId, userId));
+    return rows.map((r) => r.role).sort();
+  }
+
+  it("revokes the VENDOR grant with the member's last vendor seat", async () => {
+    seat("u-ed", "EDITOR", "v1");
+    seat("u-ed", "VIEWER", "v2");
+    grant("u-ed", "VENDOR");
+    grant("u-ed", "PROMOTER");
+
+    await removeMember(
+      db as never,
+      { entityType: "VENDOR", entityId: "v1", userId: "u-ed" },
+      "u-owner"
+    );
+    expect(await roles("u-ed")).toEqual(["PROMOTER", "VENDOR"]);
+
+    await removeMember(
+      db as never,
+      { entityType: "VENDOR", entityId: "v2", userId: "u-ed" },
+      "u-ed"
+    );
+    expect(await roles("u-ed")).toEqual(["PROMOTER"]);
+  });
+
+  it("keeps the grant of a member who owns a vendor of their own", async () => {
+    seat("u-out", "EDITOR", "v1");
+    grant("u-out", "VENDOR");
+    await removeMember(
+      db as never,
+      { entityType: "VENDOR", entityId: "v1", userId: "u-out" },
+      "u-out"
+    );
+    expect(await roles("u-out")).toEqual(["VENDOR"]);
+  });
+});
+
+describe("transferOwnership", () => {
+  it("moves the owner column and keeps the old owner on as an editor", async () => {
+    seat("u-view", "VIEWER");
+    const result = await transferOwnership(db as never, {
+      entityType: "VENDOR",
+      entityId: "v1",
+      fromUserId: "u-owner",
+      toUserId: "u-view",
+    });
+    expect(result).toEqual({ ok: true });
+
+    const [vendor] = await db
+      .select({ userId: vendors.userId })
+      .from(vendors)
+      .where(eq(vendors.id, "v1"));
+    expect(vendor.userId).toBe("u-view");
+
+    const seats = await db
+      .select({ userId: organizationMembers.userId, role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.entityId, "v1"));
+    expect(seats).toEqual([{ userId: "u-owner", role: "EDITOR" }]);
+  });
+
+  it("refuses a non-member target and a caller who no longer owns it", async () => {
+    expect(
+      await transferOwnership(db as never, {
+        entityType: "PROMOTER",
+        entityId: "p1",
+        fromUserId: "u-owner",
+        toUserId: "u-out",
+      })
+    ).toEqual({ ok: false, reason: "not_a_member" });
+
+    seat("u-ed", "EDITOR");
+    expect(
+      await transferOwnership(db as never, {
+        entityType: "VENDOR",
+        entityId: "v1",
+        fromUserId: "u-out",
+        toUserId: "u-ed",
+      })
+    ).toEqual({ ok: false, reason: "not_owner" });
+    const [promoter] = await db.select({ userId: promoters.userId }).from(promoters);
+    expect(promoter.userId).toBe("u-owner");
+  });
+
+  it("refuses a member who already owns a vendor, leaving both owners in place", async () => {
+    seat("u-out", "EDITOR", "v1");
+    expect(
+      await transferOwnership(db as never, {
+        entityType: "VENDOR",
+        entityId: "v1",
+        fromUserId: "u-owner",
+        toUserId: "u-out",
+      })
+    ).toEqual({ ok: false, reason: "already_owns" });
+
+    const owners = await db.select({ id: vendors.id, userId: vendors.userId }).from(vendors);
+    expect(owners).toEqual([
+      { id: "v1", userId: "u-owner" },
+      { id: "v2", userId: "u-out" },
+    ]);
+    expect(
+      await getRoleFor(db as never, { entityType: "VENDOR", entityId: "v1", userId: "u-out" })
+    ).toBe("EDITOR");
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Team invitations — the owner names an email and a role; whoever holds that
+ * inbox joins the team by opening the link while signed in as that address.
+ *
+ * Token handling follows vendor-claim-token.ts: 32 random bytes, only the
+ * SHA-256 hex stored, single use. Two differences:
+ *
+ *   - The link is bound to an EMAIL, not an account, because the invitee may
+ *     not have one yet. Accepting requires the signed-in account's email to
+ *     match (the redeem-claim-token.ts second factor), so a forwarded invite
+ *     seats nobody but the person it was sent to.
+ *   - Rows aren't deleted on use. acceptedAt / revokedAt are the team's
+ *     history of who let whom in, which the owner can be asked about later.
+ *
+ * An invite can only grant EDITOR or VIEWER. Ownership moves by transfer
+ * (members.ts), never by link.
+ */
+import { and, eq, isNull } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  adminActions,
+  organizationInvites,
+  organizationMembers,
+  userRoles,
+  users,
+} from "@/lib/db/schema";
+import { getRoleFor, type OrganizationEntityType, type OrganizationRole } from "./members";
+
+const TOKEN_BYTE_LENGTH = 32;
+export const INVITE_TTL_DAYS = 7;
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  return toHex(hash);
+}
+
+function generateRawToken(): string {
+  const bytes = new Uint8Array(TOKEN_BYTE_LENGTH);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+}
+
+const normEmail = (email: string) => email.trim().toLowerCase();
+
+export type InviteRole = Exclude<OrganizationRole, "OWNER">;
+
+export type CreateInviteResult =
+  | { ok: true; rawToken: string; inviteId: string; expiresAt: Date }
+  | { ok: false; reason: "already_member" };
+
+/**
+ * Mint an invitation. Re-inviting an address revokes its earlier open invite,
+ * so only the newest link (and role) works.
+ */
+export async function createOrganizationInvite(
+  db: Database,
+  args: {
+    entityType: OrganizationEntityType;
+    entityId: string;
+    email: string;
+    role: InviteRole;
+    invitedByUserId: string;
+  },
+  now: Date = new Date()
+): Promise<CreateInviteResult> {
+  const email = normEmail(args.email);
+
+  const [existing] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+  if (
+    existing &&
+    (await getRoleFor(db, {
+      entityType: args.entityType,
+      entityId: args.entityId,
+      userId: existing.id,
+    }))
+  ) {
+    return { ok: false, reason: "already_member" };
+  }
+
+  await db
+    .update(organizationInvites)
+    .set({ revokedAt: now })
+    .where(
+      and(
+        eq(organizationInvites.entityType, args.entityType),
+        eq(organizationInvites.entityId, args.entityId),
+        eq(organizationInvites.email, email),
+        isNull(organizationInvites.acceptedAt),
+        isNull(organizationInvites.revokedAt)
+      )
+    );
+
+  const rawToken = generateRawToken();
+  const expiresAt = new Date(now.getTime() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const inviteId = crypto.randomUUID();
+  await db.insert(organizationInvites).values({
+    id: inviteId,
+    entityType: args.entityType,
+    entityId: args.entityId,
+    email,
+    role: args.role,
+    tokenHash: await sha256Hex(rawToken),
+    invitedByUserId: args.invitedByUserId,
+    createdAt: now,
+    expiresAt,
+  });
+  return { ok: true, rawToken, inviteId, expiresAt };
+}
+
+/** Withdraw an open invitation. False if it was already used, revoked or isn't this team's. */
+export async function revokeOrganizationInvite(
+  db: Database,
+  args: { entityType: OrganizationEntityType; entityId: string; inviteId: string },
+  now: Date = new Date()
+): Promise<boolean> {
+  const revoked = await db
+    .update(organizationInvites)
+    .set({ revokedAt: now })
+    .where(
+      and(
+        eq(organizationInvites.id, args.inviteId),
+        eq(organizationInvites.entityType, args.entityType),
+        eq(organizationInvites.entityId, args.entityId),
+        isNull(organizationInvites.acceptedAt),
+        isNull(organizationInvites.revokedAt)
+      )
+    )
+    .returning({ id: organizationInvites.id });
+  return revoked.length > 0;
+}
+
+export type InviteLookup =
+  | { ok: true; invite: typeof organizationInvites.$inferSelect }
+  | { ok: false; reason: "not_found" | "expired" };
+
+/** Resolve a link to its open invitation without consuming it — for the accept page. */
+export async function findOpenInvite(
+  db: Database,
+  rawToken: string,
+  now: Date = new Date()
+): Promise<InviteLookup> {
+  const [invite] = await db
+    .select()
+    .from(organizationInvites)
+    .where(eq(organizationInvites.tokenHash, await sha256Hex(rawToken)))
+    .limit(1);
+  if (!invite || invite.acceptedAt || invite.revokedAt) return { ok: false, reason: "not_found" };
+  if (invite.expiresAt.getTime() <= now.getTime()) return { ok: false, reason: "expired" };
+  return { ok: true, invite };
+}
+
+export type AcceptInviteResult =
+  | {
+      ok: true;
+      entityType: OrganizationEntityType;
+      entityId: string;
+      role: OrganizationRole;
+    }
+  | { ok: false; reason: "not_found" | "expired" | "email_mismatch" };
+
+/**
+ * Seat the signed-in user from an invite link. Already on the team (say, the
+ * owner clicking their own test invite) keeps the stronger of the two roles.
+ */
+export async function acceptOrganizationInvite(
+  db: Database,
+  rawToken: string,
+  user: { id: string; email: string },
+  now: Date = new Date()
+): Promise<AcceptInviteResult> {
+  const found = await findOpenInvite(db, rawToken, now);
+  if (!found.ok) return found;
+  const { invite } = found;
+  if (normEmail(user.email) !== invite.email) return { ok: false, reason: "email_mismatch" };
+
+  const { entityType, entityId } = invite;
+  const current = await getRoleFor(db, { entityType, entityId, userId: user.id });
+  let role: OrganizationRole = invite.role;
+  if (current === "OWNER" || current === "EDITOR") {
+    role = current;
+  } else if (current === "VIEWER") {
+    if (invite.role === "EDITOR") {
+      await db
+        .update(organizationMembers)
+        .set({ role: "EDITOR", updatedAt: now })
+        .where(
+          and(
+            eq(organizationMembers.entityType, entityType),
+            eq(organizationMembers.entityId, entityId),
+            eq(organizationMembers.userId, user.id)
+          )
+        );
+    }
+  } else {
+    await db.insert(organizationMembers).values({
+      entityType,
+      entityId,
+      userId: user.id,
+      role: invite.role,
+      invitedByUserId: invite.invitedByUserId,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  await db
+    .update(organizationInvites)
+    .set({ acceptedAt: now, acceptedByUserId: user.id })
+    .where(eq(organizationInvites.id, invite.id));
+
+  // The portal layouts and role-gated nav read user_roles; a member needs the
+  // same grant an owner gets from a claim.
+  await db
+    .insert(userRoles)
+    .values({
+      userId: user.id,
+      role: entityType,
+      grantedAt: now,
+      grantedBy: invite.invitedByUserId,
+    })
+    .onConflictDoNothing();
+
+  // Opening the link proves control of invite.email, which equals the
+  // account's — same reasoning as redeemClaimToken.
+  await db
+    .update(users)
+    .set({ emailVerified: now })
+    .where(and(eq(users.id, user.id), isNull(users.emailVerified)));
+
+  await db.insert(adminActions).values({
+    action: `${entityType.toLowerCase()}.team_invite_accept`,
+    actorUserId: user.id,
+    targetType: entityType.toLowerCase(),
+    targetId: entityId,
+    payloadJson: JSON.stringify({ inviteId: invite.id, role: invite.role }),
+    createdAt: now,
+  });
+
+  return { ok: true, entityType, entityId, role };
+}
@@ -0,0 +1,420 @@
+/**
+ * Team accounts — who may act for a vendor or promoter, and as what.
+ *
+ * ROLES
+ * -----
+ *   OWNER  — the account in `vendors.user_id` / `promoters.user_id`. Everything
+ *            an editor can do, plus managing the team and handing ownership on.
+ *   EDITOR — edits the profile, events and applications. Cannot touch the team.
+ *   VIEWER — reads the portal. Every write route refuses them.
+ *
+ * The owner is deliberately NOT an organization_members row. The owner column
+ * predates teams and is what every claim path writes and every owner-facing
+ * email (contact forwarding, deadline reminders, application updates) reads;
+ * keeping it the single source of truth for OWNER means none of those paths
+ * had to learn about teams, and a claim approved tomorrow seats its owner with
+ * no second write to forget. organization_members holds everyone else.
+ *
+ * AUTHORIZATION
+ * -------------
+ * "Which vendor is mine?" used to be `vendors.user_id = me`. It is now
+ * {@link getMembership}: the org I own if any, otherwise the one I was invited
+ * to — strongest role first, then oldest. One account works on one vendor and
+ * one promoter at a time; the portal has no org switcher, and a user invited
+ * to a second team while owning their own keeps landing on their own.
+ */
+import { and, asc, eq, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  adminActions,
+  organizationInvites,
+  organizationMembers,
+  promoters,
+  userRoles,
+  users,
+  vendors,
+  type OrganizationEntityType,
+  type OrganizationRole,
+} from "@/lib/db/schema";
+import { decodeHtmlEntities } from "@/lib/utils";
+
+export type { OrganizationEntityType, OrganizationRole };
+
+const ROLE_RANK: Record<OrganizationRole, number> = { OWNER: 3, EDITOR: 2, VIEWER: 1 };
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  OWNER: "Owner",
+  EDITOR: "Editor",
+  VIEWER: "Viewer",
+};
+
+/** True when `role` grants at least what `required` does. */
+export function roleAtLeast(role: OrganizationRole, required: OrganizationRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export interface Membership {
+  entityType: OrganizationEntityType;
+  entityId: string;
+  role: OrganizationRole;
+}
+
+async function ownedEntityId(
+  db: Database,
+  entityType: OrganizationEntityType,
+  userId: string
+): Promise<string | null> {
+  if (entityType === "VENDOR") {
+    const [row] = await db
+      .select({ id: vendors.id })
+      .from(vendors)
+      .where(eq(vendors.userId, userId))
+      .limit(1);
+    return row?.id ?? null;
+  }
+  const [row] = await db
+    .select({ id: promoters.id })
+    .from(promoters)
+    .where(eq(promoters.userId, userId))
+    .limit(1);
+  return row?.id ?? null;
+}
+
+/** The vendor (or promoter) this user acts for, or null if none. */
+export async function getMembership(
+  db: Database,
+  userId: string,
+  entityType: OrganizationEntityType
+): Promise<Membership | null> {
+  const owned = await ownedEntityId(db, entityType, userId);
+  if (owned) return { entityType, entityId: owned, role: "OWNER" };
+
+  const [row] = await db
+    .select({ entityId: organizationMembers.entityId, role: organizationMembers.role })
+    .from(organizationMembers)
+    .where(
+      and(eq(organizationMembers.userId, userId), eq(organizationMembers.entityType, entityType))
+    )
+    // EDITOR sorts before VIEWER alphabetically — the stronger seat wins.
+    .orderBy(asc(organizationMembers.role), asc(organizationMembers.createdAt))
+    .limit(1);
+  return row ? { entityType, entityId: row.entityId, role: row.role } : null;
+}
+
+/** This user's role on one specific vendor or promoter, or null. */
+export async function getRoleFor(
+  db: Database,
+  args: { entityType: OrganizationEntityType; entityId: string; userId: string }
+): Promise<OrganizationRole | null> {
+  const owner = await getOwnerUserId(db, args.entityType, args.entityId);
+  if (owner !== null && owner === args.userId) return "OWNER";
+  const [row] = await db
+    .select({ role: organizationMembers.role })
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.entityType, args.entityType),
+        eq(organizationMembers.entityId, args.entityId),
+        eq(organizationMembers.userId, args.userId)
+      )
+    )
+    .limit(1);
+  return row?.role ?? null;
+}
+
+export async function getOwnerUserId(
+  db: Database,
+  entityType: OrganizationEntityType,
+  entityId: string
+): Promise<string | null> {
+  if (entityType === "VENDOR") {
+    const [row] = await db
+      .select({ userId: vendors.userId })
+      .from(vendors)
+      .where(eq(vendors.id, entityId))
+      .limit(1);
+    return row?.userId ?? null;
+  }
+  const [row] = await db
+    .select({ userId: promoters.userId })
+    .from(promoters)
+    .where(eq(promoters.id, entityId))
+    .limit(1);
+  return row?.userId ?? null;
+}
+
+export interface OrganizationSummary {
+  entityType: OrganizationEntityType;
+  id: string;
+  name: string;
+  slug: string;
+  ownerUserId: string | null;
+}
+
+export async function getOrganizationSummary(
+  db: Database,
+  entityType: OrganizationEntityType,
+  entityId: string
+): Promise<OrganizationSummary | null> {
+  if (entityType === "VENDOR") {
+    const [row] = await db
+      .select({
+        id: vendors.id,
+        name: vendors.businessName,
+        slug: vendors.slug,
+        ownerUserId: vendors.userId,
+      })
+      .from(vendors)
+      .where(eq(vendors.id, entityId))
+      .limit(1);
+    return row
+      ? { entityType, ...row, name: decodeHtmlEntities(row.name), slug: row.slug as string }
+      : null;
+  }
+  const [row] = await db
+    .select({
+      id: promoters.id,
+      name: promoters.companyName,
+      slug: promoters.slug,
+      ownerUserId: promoters.userId,
+    })
+    .from(promoters)
+    .where(eq(promoters.id, entityId))
+    .limit(1);
+  return row
+    ? { entityType, ...row, name: decodeHtmlEntities(row.name), slug: row.slug as string }
+    : null;
+}
+
+export interface TeamMember {
+  userId: string;
+  name: string | null;
+  email: string;
+  role: OrganizationRole;
+  /** When they joined; null for the owner, whose tenure predates teams. */
+  since: Date | null;
+}
+
+export interface PendingInvite {
+  id: string;
+  email: string;
+  role: Exclude<OrganizationRole, "OWNER">;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/** The owner, then everyone else by when they joined, plus open invitations. */
+export async function listTeam(
+  db: Database,
+  entityType: OrganizationEntityType,
+  entityId: string,
+  now: Date = new Date()
+): Promise<{ members: TeamMember[]; invites: PendingInvite[] }> {
+  const members: TeamMember[] = [];
+
+  const ownerId = await getOwnerUserId(db, entityType, entityId);
+  if (ownerId) {
+    const [owner] = await db
+      .select({ id: users.id, name: users.name, email: users.email })
+      .from(users)
+      .where(eq(users.id, ownerId))
+      .limit(1);
+    if (owner) {
+      members.push({
+        userId: owner.id,
+        name: owner.name,
+        email: owner.email,
+        role: "OWNER",
+        since: null,
+      });
+    }
+  }
+
+  const rows = await db
+    .select({
+      userId: organizationMembers.userId,
+      role: organizationMembers.role,
+      since: organizationMembers.createdAt,
+      name: users.name,
+      email: users.email,
+    })
+    .from(organizationMembers)
+    .innerJoin(users, eq(organizationMembers.userId, users.id))
+    .where(
+      and(
+        eq(organizationMembers.entityType, entityType),
+        eq(organizationMembers.entityId, entityId)
+      )
+    )
+    .orderBy(asc(organizationMembers.createdAt));
+  members.push(...rows);
+
+  const invites = await db
+    .select({
+      id: organizationInvites.id,
+      email: organizationInvites.email,
+      role: organizationInvites.role,
+      createdAt: organizationInvites.createdAt,
+      expiresAt: organizationInvites.expiresAt,
+    })
+    .from(organizationInvites)
+    .where(
+      and(
+        eq(organizationInvites.entityType, entityType),
+        eq(organizationInvites.entityId, entityId),
+        sql`${organizationInvites.acceptedAt} IS NULL`,
+        sql`${organizationInvites.revokedAt} IS NULL`,
+        sql`${organizationInvites.expiresAt} > ${Math.floor(now.getTime() / 1000)}`
+      )
+    )
+    .orderBy(asc(organizationInvites.createdAt));
+
+  return { members, invites };
+}
+
+type Target = { entityType: OrganizationEntityType; entityId: string; userId: string };
+
+function memberWhere(t: Target) {
+  return and(
+    eq(organizationMembers.entityType, t.entityType),
+    eq(organizationMembers.entityId, t.entityId),
+    eq(organizationMembers.userId, t.userId)
+  );
+}
+
+async function audit(
+  db: Database,
+  action: string,
+  actorUserId: string,
+  t: { entityType: OrganizationEntityType; entityId: string },
+  payload: Record<string, unknown>
+) {
+  await db.insert(adminActions).values({
+    action: `${t.entityType.toLowerCase()}.${action}`,
+    actorUserId,
+    targetType: t.entityType.toLowerCase(),
+    targetId: t.entityId,
+    payloadJson: JSON.stringify(payload),
+    createdAt: new Date(),
+  });
+}
+
+/** Move a non-owner member between EDITOR and VIEWER. False if they aren't one. */
+export async function changeMemberRole(
+  db: Database,
+  target: Target & { role: Exclude<OrganizationRole, "OWNER"> },
+  actorUserId: string
+): Promise<boolean> {
+  const updated = await db
+    .update(organizationMembers)
+    .set({ role: target.role, updatedAt: new Date() })
+    .where(memberWhere(target))
+    .returning({ id: organizationMembers.id });
+  if (updated.length === 0) return false;
+  await audit(db, "team_role_change", actorUserId, target, {
+    userId: target.userId,
+    role: target.role,
+  });
+  return true;
+}
+
+/**
+ * Take a non-owner off the team — by the owner, or by the member leaving. The
+ * owner can't be removed this way; they transfer ownership first.
+ *
+ * Accepting the invite granted the user the VENDOR/PROMOTER role (invites.ts);
+ * once they neither own nor sit on any organization of that type, the grant
+ * goes too, so the portal nav stops offering a portal they can't open.
+ */
+export async function removeMember(
+  db: Database,
+  target: Target,
+  actorUserId: string
+): Promise<boolean> {
+  const removed = await db
+    .delete(organizationMembers)
+    .where(memberWhere(target))
+    .returning({ id: organizationMembers.id });
+  if (removed.length === 0) return false;
+  if (!(await getMembership(db, target.userId, target.entityType))) {
+    await db
+      .delete(userRoles)
+      .where(and(eq(userRoles.userId, target.userId), eq(userRoles.role, target.entityType)));
+  }
+  await audit(db, "team_member_remove", actorUserId, target, { userId: target.userId });
+  return true;
+}
+
+export type TransferResult =
+  | { ok: true }
+  | { ok: false; reason: "not_owner" | "not_a_member" | "already_owns" };
+
+/**
+ * Hand ownership to an existing member. The new owner leaves
+ * organization_members (ownership lives in the owner column); the previous
+ * owner stays on as an EDITOR, so a mistaken transfer can be handed back
+ * rather than needing support.
+ *
+ * The owner-column write is guarded on the CURRENT owner, so two tabs racing
+ * a transfer can't both win; the member swap only runs after that write lands.
+ * `user_id` is unique on both tables, so a member who already owns a vendor
+ * (or promoter) of their own can't be handed a second one.
+ */
+export async function transferOwnership(
+  db: Database,
+  args: {
+    entityType: OrganizationEntityType;
+    entityId: string;
+    fromUserId: string;
+    toUserId: string;
+  }
+): Promise<TransferResult> {
+  const { entityType, entityId, fromUserId, toUserId } = args;
+  const target = { entityType, entityId, userId: toUserId };
+  const [seat] = await db
+    .select({ id: organizationMembers.id })
+    .from(organizationMembers)
+    .where(memberWhere(target))
+    .limit(1);
+  if (!seat) return { ok: false, reason: "not_a_member" };
+  if (await ownedEntityId(db, entityType, toUserId)) return { ok: false, reason: "already_owns" };
+
+  const now = new Date();
+  const moved =
+    entityType === "VENDOR"
+      ? await db
+          .update(vendors)
+          .set({ userId: toUserId, updatedAt: now })
+          .where(and(eq(vendors.id, entityId), eq(vendors.userId, fromUserId)))
+          .returning({ id: vendors.id })
+      : await db
+          .update(promoters)
+          .set({ userId: toUserId, updatedAt: now })
+          .where(and(eq(promoters.id, entityId), eq(promoters.userId, fromUserId)))
+          .returning({ id: promoters.id });
+  if (moved.length === 0) return { ok: false, reason: "not_owner" };
+
+  await db.delete(organizationMembers).where(memberWhere(target));
+  await db
+    .insert(organizationMembers)
+    .values({
+      entityType,
+      entityId,
+      userId: fromUserId,
+      role: "EDITOR",
+      invitedByUserId: toUserId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [
+        organizationMembers.entityType,
+        organizationMembers.entityId,
+        organizationMembers.userId,
+      ],
+      set: { role: "EDITOR", updatedAt: now },
+    });
+
+  await audit(db, "ownership_transfer", fromUserId, args, { fromUserId, toUserId });
+  return { ok: true };
+}
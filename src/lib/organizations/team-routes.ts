@@ -0,0 +1,270 @@
+/**
+ * Route bodies for the team endpoints. The vendor and promoter trees expose
+ * the same five operations at parallel paths:
+ *
+ *   GET    /api/{vendor,promoter}/members                     any seat
+ *   POST   /api/{vendor,promoter}/members                     owner — invite
+ *   PATCH  /api/{vendor,promoter}/members/[userId]            owner — change role
+ *   DELETE /api/{vendor,promoter}/members/[userId]            owner, or the member leaving
+ *   DELETE /api/{vendor,promoter}/members/invites/[inviteId]  owner — revoke
+ *   POST   /api/{vendor,promoter}/members/transfer            owner — hand on ownership
+ *
+ * so each route file is a one-line call into here with its entity type.
+ *
+ * Invites and transfers go through requireVerifiedSession: both send an
+ * account's reach to someone else, the kind of action the email-verification
+ * gate exists for. Role changes and removals only narrow access, so a session
+ * is enough.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { requireMemberSession, requireVerifiedSession } from "@/lib/api-auth";
+import { getCloudflareDb } from "@/lib/cloudflare";
+import { users } from "@/lib/db/schema";
+import { getSiteUrl } from "@/lib/email/send";
+import { organizationInviteTemplate } from "@/lib/email/templates";
+import { logError } from "@/lib/logger";
+import { enqueueEmail } from "@/lib/queues/producers";
+import {
+  organizationInviteSchema,
+  organizationMemberUpdateSchema,
+  organizationTransferSchema,
+  validateRequestBody,
+} from "@/lib/validations";
+import { createOrganizationInvite, INVITE_TTL_DAYS, revokeOrganizationInvite } from "./invites";
+import {
+  changeMemberRole,
+  getOrganizationSummary,
+  listTeam,
+  ORGANIZATION_ROLE_LABELS,
+  removeMember,
+  transferOwnership,
+  type OrganizationEntityType,
+  type TransferResult,
+} from "./members";
+
+const SOURCE = "lib/organizations/team-routes.ts";
+
+export async function listTeamResponse(entityType: OrganizationEntityType) {
+  const gate = await requireMemberSession({ entityType, role: "VIEWER" });
+  if (!gate.ok) return gate.response;
+
+  const db = getCloudflareDb();
+  const { entityId, role } = gate.membership;
+  try {
+    const [organization, team] = await Promise.all([
+      getOrganizationSummary(db, entityType, entityId),
+      listTeam(db, entityType, entityId),
+    ]);
+    return NextResponse.json({
+      organization: organization && { name: organization.name, slug: organization.slug },
+      viewer: { userId: gate.userId, role },
+      members: team.members,
+      // Only the owner manages invitations; everyone else sees who's on the team.
+      invites: role === "OWNER" ? team.invites : [],
+    });
+  } catch (error) {
+    await logError(db, {
+      message: "Failed to list team",
+      error,
+      source: SOURCE,
+      context: { entityType, entityId },
+    });
+    return NextResponse.json({ error: "Failed to load team" }, { status: 500 });
+  }
+}
+
+export async function inviteMemberResponse(
+  request: NextRequest,
+  entityType: OrganizationEntityType
+) {
+  const gate = await requireVerifiedSession({ entityType, role: "OWNER" });
+  if (!gate.ok) return gate.response;
+
+  const parsed = await validateRequestBody(request, organizationInviteSchema);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const db = getCloudflareDb();
+  const { entityId } = gate.membership;
+  try {
+    const invite = await createOrganizationInvite(db, {
+      entityType,
+      entityId,
+      email: parsed.data.email,
+      role: parsed.data.role,
+      invitedByUserId: gate.userId,
+    });
+    if (!invite.ok) {
+      return NextResponse.json(
+        { error: "already_member", message: "That person is already on the team." },
+        { status: 409 }
+      );
+    }
+
+    const [organization, [inviter]] = await Promise.all([
+      getOrganizationSummary(db, entityType, entityId),
+      db.select({ name: users.name }).from(users).where(eq(users.id, gate.userId)).limit(1),
+    ]);
+    const email = parsed.data.email.trim().toLowerCase();
+    const tpl = organizationInviteTemplate({
+      organizationName: organization?.name ?? "your team",
+      kind: entityType === "VENDOR" ? "vendor" : "promoter",
+      roleLabel: ORGANIZATION_ROLE_LABELS[parsed.data.role],
+      inviterName: inviter?.name ?? null,
+      email,
+      acceptUrl: `${getSiteUrl()}/team/join?token=${invite.rawToken}`,
+      expiresInDays: INVITE_TTL_DAYS,
+    });
+    await enqueueEmail({ to: email, ...tpl, source: `${entityType.toLowerCase()}.team_invite` });
+
+    return NextResponse.json(
+      { id: invite.inviteId, email, role: parsed.data.role, expiresAt: invite.expiresAt },
+      { status: 201 }
+    );
+  } catch (error) {
+    await logError(db, {
+      message: "Failed to invite team member",
+      error,
+      source: SOURCE,
+      request,
+    });
+    return NextResponse.json({ error: "Failed to send invitation" }, { status: 500 });
+  }
+}
+
+export async function updateMemberResponse(
+  request: NextRequest,
+  entityType: OrganizationEntityType,
+  userId: string
+) {
+  const gate = await requireMemberSession({ entityType, role: "OWNER" });
+  if (!gate.ok) return gate.response;
+
+  const parsed = await validateRequestBody(request, organizationMemberUpdateSchema);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const db = getCloudflareDb();
+  const changed = await changeMemberRole(
+    db,
+    { entityType, entityId: gate.membership.entityId, userId, role: parsed.data.role },
+    gate.userId
+  );
+  if (!changed) {
+    return NextResponse.json({ error: "Team member not found" }, { status: 404 });
+  }
+  return NextResponse.json({ userId, role: parsed.data.role });
+}
+
+export async function removeMemberResponse(entityType: OrganizationEntityType, userId: string) {
+  const gate = await requireMemberSession({ entityType, role: "VIEWER" });
+  if (!gate.ok) return gate.response;
+
+  const leaving = userId === gate.userId;
+  if (!leaving && gate.membership.role !== "OWNER") {
+    return NextResponse.json(
+      { error: "insufficient_role", message: "Only the owner can remove team members." },
+      { status: 403 }
+    );
+  }
+  if (leaving && gate.membership.role === "OWNER") {
+    return NextResponse.json(
+      {
+        error: "owner_cannot_leave",
+        message: "Transfer ownership to another member before leaving the team.",
+      },
+      { status: 409 }
+    );
+  }
+
+  const db = getCloudflareDb();
+  const removed = await removeMember(
+    db,
+    { entityType, entityId: gate.membership.entityId, userId },
+    gate.userId
+  );
+  if (!removed) {
+    return NextResponse.json({ error: "Team member not found" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
+
+export async function revokeInviteResponse(entityType: OrganizationEntityType, inviteId: string) {
+  const gate = await requireMemberSession({ entityType, role: "OWNER" });
+  if (!gate.ok) return gate.response;
+
+  const revoked = await revokeOrganizationInvite(getCloudflareDb(), {
+    entityType,
+    entityId: gate.membership.entityId,
+    inviteId,
+  });
+  if (!revoked) {
+    return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
+
+export async function transferOwnershipResponse(
+  request: NextRequest,
+  entityType: OrganizationEntityType
+) {
+  const gate = await requireVerifiedSession({ entityType, role: "OWNER" });
+  if (!gate.ok) return gate.response;
+
+  const parsed = await validateRequestBody(request, organizationTransferSchema);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const db = getCloudflareDb();
+  try {
+    const result = await transferOwnership(db, {
+      entityType,
+      entityId: gate.membership.entityId,
+      fromUserId: gate.userId,
+      toUserId: parsed.data.userId,
+    });
+    if (!result.ok) {
+      return transferRefusal(result.reason, entityType);
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    await logError(db, {
+      message: "Failed to transfer ownership",
+      error,
+      source: SOURCE,
+      request,
+      context: { entityType, entityId: gate.membership.entityId },
+    });
+    return NextResponse.json({ error: "Failed to transfer ownership" }, { status: 500 });
+  }
+}
+
+function transferRefusal(
+  reason: Extract<TransferResult, { ok: false }>["reason"],
+  entityType: OrganizationEntityType
+) {
+  switch (reason) {
+    case "not_a_member":
+      return NextResponse.json(
+        { error: "not_a_member", message: "Ownership can only go to a current team member." },
+        { status: 400 }
+      );
+    case "already_owns":
+      return NextResponse.json(
+        {
+          error: "already_owns",
+          message: `That member already owns a ${entityType === "VENDOR" ? "vendor" : "promoter"} profile of their own, and an account can own only one. They'd need to hand theirs on first.`,
+        },
+        { status: 409 }
+      );
+    case "not_owner":
+      return NextResponse.json(
+        { error: "not_owner", message: "You are no longer the owner." },
+        { status: 409 }
+      );
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Promoter application board: ownership, per-row transition checks in bulk,
+ * what the vendor gets emailed or notified (and what they must never see),
+ * and the CSV.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+
+const sent: { to: string; subject: string; text: string; source?: string }[] = [];
+vi.mock("@/lib/email/send", () => ({ getSiteUrl: () => "https://example.test" }));
+vi.mock("@/lib/queues/producers", () => ({
+  enqueueEmail: async (args: { to: string; subject: string; text: string }) => {
+    sent.push(args);
+  },
+}));
+vi.mock("@/lib/server-analytics", () => ({
+  trackVendorStatusChange: vi.fn(async () => undefined),
+}));
+
+import {
+  applicationsToCsv,
+  applyApplicationChanges,
+  getPromoterOwnedEvent,
+  listEventApplications,
+  APPLICATION_EMAIL_SOURCE,
+} from "../applications";
+
+const SCHEMA_SQL = `
+  CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT);
+  CREATE TABLE promoters (id TEXT PRIMARY KEY, user_id TEXT);
+  CREATE TABLE events (id TEXT PRIMARY KEY, name TEXT NOT NULL, slug TEXT NOT NULL, promoter_id TEXT);
+  CREATE TABLE vendors (
+    id TEXT PRIMARY KEY, user_id TEXT, business_name TEXT NOT NULL, slug TEXT NOT NULL,
+    vendor_type TEXT, contact_name TEXT, contact_email TEXT, contact_phone TEXT
+  );
+  CREATE TABLE event_vendors (
+    id TEXT PRIMARY KEY, event_id TEXT NOT NULL, vendor_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'APPLIED',
+    payment_status TEXT NOT NULL DEFAULT 'NOT_REQUIRED',
+    booth_info TEXT, promoter_notes TEXT, application_answers TEXT, event_day_id TEXT,
+    created_at INTEGER, updated_at INTEGER
+  );
+  CREATE TABLE notifications (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, type TEXT NOT NULL, title TEXT NOT NULL,
+    message TEXT NOT NULL, read INTEGER DEFAULT 0, data TEXT, created_at INTEGER
+  );
+  CREATE TABLE organization_members (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, user_id TEXT NOT NULL,
+    role TEXT NOT NULL, invited_by_user_id TEXT, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE notification_preferences (
+    user_id TEXT NOT NULL, type TEXT NOT NULL, email INTEGER NOT NULL, in_app INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL, PRIMARY KEY (user_id, type)
+  );
+`;
+
+type Db = Parameters<typeof listEventApplications>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const EVENT = { id: "e1", name: "Topsham Fair", slug: "topsham-fair" };
+
+function link(id: string, vendorId: string, status = "APPLIED") {
+  raw
+    .prepare(
+      `INSERT INTO event_vendors (id, event_id, vendor_id, status, created_at) VALUES (?, 'e1', ?, ?, 1750000000)`
+    )
+    .run(id, vendorId, status);
+}
+
+function row(id: string) {
+  return raw.prepare(`SELECT * FROM event_vendors WHERE id = ?`).get(id) as Record<string, unknown>;
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw["exec"](SCHEMA_SQL);
+  db = drizzle(raw) as unknown as Db;
+  sent.length = 0;
+  raw["exec"](`
+    INSERT INTO users VALUES ('u-promoter', 'p@example.com'), ('u-v1', 'owner1@example.com'), ('u-v2', 'owner2@example.com');
+    INSERT INTO promoters VALUES ('p1', 'u-promoter');
+    INSERT INTO events VALUES ('e1', 'Topsham Fair', 'topsham-fair', 'p1'), ('e2', 'Other Fair', 'other-fair', NULL);
+    INSERT INTO vendors VALUES
+      ('v1', 'u-v1', 'Maple Farm', 'maple-farm', 'Food', 'Ann', 'ann@maple.test', NULL),
+      ('v2', 'u-v2', '=Kettle Corn, "Best"', 'kettle-corn', NULL, NULL, NULL, NULL);
+  `);
+});
+
+describe("getPromoterOwnedEvent", () => {
+  it("returns the event for its promoter and hides it from anyone else", async () => {
+    const owned = await getPromoterOwnedEvent(db, {
+      eventId: "e1",
+      userId: "u-promoter",
+      isAdmin: false,
+    });
+    expect(owned).toEqual(EVENT);
+    expect(
+      await getPromoterOwnedEvent(db, { eventId: "e2", userId: "u-promoter", isAdmin: false })
+    ).toBeNull();
+    expect(
+      await getPromoterOwnedEvent(db, { eventId: "e1", userId: "u-v1", isAdmin: false })
+    ).toBeNull();
+  });
+
+  it("lets a team member in at the role the caller asks for", async () => {
+    raw.exec(
+      `INSERT INTO organization_members (id, entity_type, entity_id, user_id, role, created_at, updated_at)
+       VALUES ('m1', 'PROMOTER', (SELECT promoter_id FROM events WHERE id = 'e1'), 'u-v1', 'VIEWER', 0, 0)`
+    );
+    expect(
+      await getPromoterOwnedEvent(db, { eventId: "e1", userId: "u-v1", isAdmin: false })
+    ).toBeNull();
+    expect(
+      await getPromoterOwnedEvent(db, {
+        eventId: "e1",
+        userId: "u-v1",
+        isAdmin: false,
+        role: "VIEWER",
+      })
+    ).toEqual(EVENT);
+  });
+
+  it("lets an admin open any event", async () => {
+    const owned = await getPromoterOwnedEvent(db, { eventId: "e2", userId: "u-v1", isAdmin: true });
+    expect(owned?.id).toBe("e2");
+  });
+});
+
+describe("applyApplicationChanges", () => {
+  it("checks each row's own transition in a bulk change", async () => {
+    link("a1", "v1", "APPLIED");
+    link("a2", "v2", "CONFIRMED");
+
+    const result = await applyApplicationChanges(db, {
+      event: EVENT,
+      eventVendorIds: ["a1", "a2"],
+      change: { status: "APPROVED" },
+      actorUserId: "u-promoter",
+    });
+
+    expect(result.updated).toEqual(["a1"]);
+    expect(result.skipped).toEqual([{ id: "a2", reason: "Cannot move Confirmed to Approved" }]);
+    expect(row("a1").status).toBe("APPROVED");
+    expect(row("a2").status).toBe("CONFIRMED");
+  });
+
+  it("emails the vendor contact once per application with every vendor-facing change", async () => {
+    link("a1", "v1");
+
+    await applyApplicationChanges(db, {
+      event: EVENT,
+      eventVendorIds: ["a1"],
+      change: { status: "APPROVED", paymentStatus: "PAID", boothInfo: "B-12" },
+      actorUserId: "u-promoter",
+    });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe("ann@maple.test");
+    expect(sent[0].source).toBe(APPLICATION_EMAIL_SOURCE);
+    expect(sent[0].subject).toBe("Topsham Fair: your application is now Approved");
+    expect(sent[0].text).toContain("Applied → Approved");
+    expect(sent[0].text).toContain("Not Required → Paid");
+    expect(sent[0].text).toContain("Booth assignment: B-12");
+    expect(row("a1").booth_info).toBe("B-12");
+  });
+
+  it("falls back to the vendor account email when there is no contact email", async () => {
+    link("a2", "v2");
+    await applyApplicationChanges(db, {
+      event: EVENT,
+      eventVendorIds: ["a2"],
+      change: { status: "WAITLISTED" },
+      actorUserId: "u-promoter",
+    });
+    expect(sent.map((m) => m.to)).toEqual(["owner2@example.com"]);
+  });
+
+  it("notifies the vendor's account holder in-app alongside the email", async () => {
+    link("a1", "v1");
+    await applyApplicationChanges(db, {
+      event: EVENT,
+      eventVendorIds: ["a1"],
+      change: { status: "APPROVED", boothInfo: "B-12" },
+      actorUserId: "u-promoter",
+    });
+    const notes = raw.prepare(`SELECT * FROM notifications`).all() as Record<string, string>[];
+    expect(notes).toHaveLength(1);
+    expect(notes[0].user_id).toBe("u-v1");
+    expect(notes[0].type).toBe("application_update");
+    expect(notes[0].title).toBe("Topsham Fair: application approved");
+    expect(notes[0].message).toBe("Maple Farm: status Applied → Approved, booth B-12.");
+    expect(sent).toHaveLength(1);
+  });
+
+  it("skips the email when the account holder turned application emails off", async () => {
+    raw
+      .prepare(
+        `INSERT INTO notification_preferences VALUES ('u-v1', 'application_update', 0, 1, 1750000000)`
+      )
+      .run();
+    link("a1", "v1");
+    const result = await applyApplicationChanges(db, {
+      event: EVENT,
+      eventVendorIds: ["a1"],
+      change: { status: "APPROVED" },
+      actorUserId: "u-promoter",
+    });
+    expect(result.emailed).toBe(0);
+    expect(sent).toHaveLength(0);
+    expect(raw.prepare(`SELECT COUNT(*) AS n FROM notifications`).get()).toEqual({ n: 1 });
+  });
+
+  it("saves private notes without emailing the vendor", async () => {
+    link("a1", "v1");
+    const result = await applyApplicationChanges(db, {
+      event: EVENT,
+      eventVendorIds: ["a1"],
+      change: { promoterNotes: "Waiting on insurance certificate" },
+      actorUserId: "u-promoter",
+    });
+    expect(result.updated).toEqual(["a1"]);
+    expect(row("a1").promoter_notes).toBe("Waiting on insurance certificate");
+    expect(sent).toHaveLength(0);
+  });
+
+  it("never touches an application on another event", async () => {
+    raw
+      .prepare(`INSERT INTO event_vendors (id, event_id, vendor_id) VALUES ('x1', 'e2', 'v1')`)
+      .run();
+    const result = await applyApplicationChanges(db, {
+      event: EVENT,
+      eventVendorIds: ["x1"],
+      change: { status: "APPROVED" },
+      actorUserId: "u-promoter",
+    });
+    expect(result.updated).toEqual([]);
+    expect(result.skipped[0].id).toBe("x1");
+    expect(row("x1").status).toBe("APPLIED");
+    expect(sent).toHaveLength(0);
+  });
+
+  it("reports an unchanged row as a no-op and sends nothing", async () => {
+    link("a1", "v1", "APPROVED");
+    const result = await applyApplicationChanges(db, {
+      event: EVENT,
+      eventVendorIds: ["a1"],
+      change: { status: "APPROVED" },
+      actorUserId: "u-promoter",
+    });
+    expect(result.skipped).toEqual([{ id: "a1", reason: "No change" }]);
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe("applicationsToCsv", () => {
+  it("quotes commas and quotes, and neutralizes spreadsheet formulas", async () => {
+    link("a1", "v1");
+    link("a2", "v2");
+    const csv = applicationsToCsv(await listEventApplications(db, "e1"));
+    const lines = csv.split("\n");
+    expect(lines[0]).toBe(
+      "Business Name,Vendor Type,Contact Name,Contact Email,Contact Phone,Status,Payment Status,Booth,Notes,Applied,Updated"
+    );
+    expect(lines).toContain(
+      "Maple Farm,Food,Ann,ann@maple.test,,Applied,Not Required,,,2025-06-15,"
+    );
+    expect(csv).toContain(`"'=Kettle Corn, ""Best"""`);
+  });
+
+  it("adds one column per application-form question any row answered", async () => {
+    link("a1", "v1");
+    link("a2", "v2");
+    raw.prepare(`UPDATE event_vendors SET application_answers = ? WHERE id = 'a1'`).run(
+      JSON.stringify([
+        { id: "booth_size", label: "Booth size", type: "select", value: "10x20" },
+        { id: "electricity", label: "Need power?", type: "checkbox", value: true },
+        {
+          id: "insurance_certificate",
+          label: "Certificate",
+          type: "file",
+          value: { key: "applications/v1/x.pdf", name: "coi.pdf" },
+        },
+      ])
+    );
+    raw
+      .prepare(`UPDATE event_vendors SET application_answers = ? WHERE id = 'a2'`)
+      .run(
+        JSON.stringify([
+          {
+            id: "product_categories",
+            label: "Products",
+            type: "multiselect",
+            value: ["Food", "Crafts"],
+          },
+        ])
+      );
+
+    // Same applied-at, so rows sort by name: "=Kettle Corn" (a2) before "Maple Farm" (a1).
+    const lines = applicationsToCsv(await listEventApplications(db, "e1")).split("\n");
+    expect(lines[0].endsWith(",Updated,Products,Booth size,Need power?,Certificate")).toBe(true);
+    expect(lines[1].endsWith(',"Food, Crafts",,,')).toBe(true);
+    expect(lines[2].endsWith(",,10x20,Yes,coi.pdf")).toBe(true);
+  });
+});
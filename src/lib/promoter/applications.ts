@@ -0,0 +1,397 @@
+/**
+ * Promoter application board — the web counterpart to the MCP promoter tools
+ * (`get_event_applications` / `update_application_status`).
+ *
+ * Everything the board does goes through here so the page, the API route and
+ * the CSV export agree on ownership, on which transitions are legal, and on
+ * what the vendor is told:
+ *
+ *   - getPromoterOwnedEvent: the ownership gate. A promoter sees only events
+ *     whose `promoter_id` is a profile they own or are on the team of (at the
+ *     role the caller asks for); admins see any event.
+ *   - listEventApplications: one row per event↔vendor link, with the vendor's
+ *     contact details the promoter needs to triage.
+ *   - applyApplicationChanges: bulk update. Every row is checked against
+ *     isValidTransition on its OWN current status — a bulk "approve" over a
+ *     mixed selection approves the APPLIED rows and reports the CONFIRMED ones
+ *     as skipped rather than failing the whole batch or forcing them backwards.
+ *   - applicationsToCsv: the export, with one extra column per application
+ *     form question (drizzle/0227) that any row answered.
+ *
+ * Vendor email goes out once per changed application per save, only for
+ * vendor-facing fields (status, payment, booth), alongside an in-app
+ * notification for the vendor's account holder — whose "Application updates"
+ * preference can turn the email off. `promoterNotes` is the promoter's private
+ * scratchpad (drizzle/0226) and changing it alone sends nothing.
+ */
+import { and, eq, inArray, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { eventVendors, events, promoters, users, vendors } from "@/lib/db/schema";
+import type { EventVendorStatus, PaymentStatus } from "@/lib/constants";
+import { isValidTransition, PAYMENT_STATUS_LABELS, STATUS_LABELS } from "@/lib/vendor-status";
+import { applicationUpdateTemplate } from "@/lib/email/templates";
+import { getSiteUrl } from "@/lib/email/send";
+import { enqueueEmail } from "@/lib/queues/producers";
+import { logError } from "@/lib/logger";
+import { trackVendorStatusChange } from "@/lib/server-analytics";
+import { handleApplicationStatusChange } from "@/lib/waitlist/promotion";
+import { chunkIds } from "@takemetothefair/utils";
+import { parseStoredApplicationAnswers, type ApplicationAnswer } from "@/lib/validations";
+import { formatAnswerValue } from "@/lib/application-forms/form";
+import { createNotification, wantsEmail } from "@/lib/notifications/notifications";
+import { getRoleFor, roleAtLeast, type OrganizationRole } from "@/lib/organizations/members";
+
+export const APPLICATION_EMAIL_SOURCE = "promoter-applications";
+
+export interface OwnedEvent {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+/**
+ * `role` is the weakest team seat that may proceed — EDITOR (the default) for
+ * anything that writes, VIEWER for the read-only board and downloads. A seat
+ * below it gets the same null as a stranger.
+ */
+export async function getPromoterOwnedEvent(
+  db: Database,
+  args: { eventId: string; userId: string; isAdmin: boolean; role?: OrganizationRole }
+): Promise<OwnedEvent | null> {
+  const [row] = await db
+    .select({
+      id: events.id,
+      name: events.name,
+      slug: events.slug,
+      promoterId: events.promoterId,
+      promoterUserId: promoters.userId,
+    })
+    .from(events)
+    .leftJoin(promoters, eq(events.promoterId, promoters.id))
+    .where(eq(events.id, args.eventId))
+    .limit(1);
+  if (!row) return null;
+  if (!args.isAdmin && row.promoterUserId !== args.userId) {
+    const seat = row.promoterId
+      ? await getRoleFor(db, {
+          entityType: "PROMOTER",
+          entityId: row.promoterId,
+          userId: args.userId,
+        })
+      : null;
+    if (!seat || !roleAtLeast(seat, args.role ?? "EDITOR")) return null;
+  }
+  return { id: row.id, name: row.name, slug: row.slug as unknown as string };
+}
+
+export interface ApplicationRow {
+  id: string;
+  vendorId: string;
+  businessName: string;
+  vendorSlug: string;
+  vendorType: string | null;
+  contactName: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  status: EventVendorStatus;
+  paymentStatus: PaymentStatus;
+  boothInfo: string | null;
+  promoterNotes: string | null;
+  /** Answers to the event's application form; empty when it had none. */
+  answers: ApplicationAnswer[];
+  eventDayId: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export async function listEventApplications(
+  db: Database,
+  eventId: string
+): Promise<ApplicationRow[]> {
+  const rows = await db
+    .select({
+      id: eventVendors.id,
+      vendorId: eventVendors.vendorId,
+      businessName: vendors.businessName,
+      vendorSlug: vendors.slug,
+      vendorType: vendors.vendorType,
+      contactName: vendors.contactName,
+      contactEmail: vendors.contactEmail,
+      contactPhone: vendors.contactPhone,
+      status: eventVendors.status,
+      paymentStatus: eventVendors.paymentStatus,
+      boothInfo: eventVendors.boothInfo,
+      promoterNotes: eventVendors.promoterNotes,
+      applicationAnswers: eventVendors.applicationAnswers,
+      eventDayId: eventVendors.eventDayId,
+      createdAt: eventVendors.createdAt,
+      updatedAt: eventVendors.updatedAt,
+    })
+    .from(eventVendors)
+    .innerJoin(vendors, eq(eventVendors.vendorId, vendors.id))
+    .where(eq(eventVendors.eventId, eventId))
+    .orderBy(eventVendors.createdAt, sql`${vendors.businessName} COLLATE NOCASE`);
+  return rows.map(({ applicationAnswers, ...r }) => ({
+    ...r,
+    vendorSlug: r.vendorSlug as unknown as string,
+    answers: parseStoredApplicationAnswers(applicationAnswers),
+  }));
+}
+
+export interface ApplicationChange {
+  status?: EventVendorStatus;
+  paymentStatus?: PaymentStatus;
+  /** `null` clears the booth assignment. */
+  boothInfo?: string | null;
+  /** `null` clears the notes. Private to the promoter. */
+  promoterNotes?: string | null;
+}
+
+export interface ApplicationChangeResult {
+  updated: string[];
+  skipped: { id: string; reason: string }[];
+  emailed: number;
+}
+
+export interface VendorFacingDiff {
+  status?: { from: string; to: string };
+  paymentStatus?: { from: string; to: string };
+  boothInfo?: { from: string | null; to: string | null };
+}
+
+/** The in-app notification's one-line summary of what the vendor would be emailed. */
+export function describeVendorFacingDiff(businessName: string, diff: VendorFacingDiff): string {
+  const parts: string[] = [];
+  if (diff.status) parts.push(`status ${diff.status.from} → ${diff.status.to}`);
+  if (diff.paymentStatus) {
+    parts.push(`payment ${diff.paymentStatus.from} → ${diff.paymentStatus.to}`);
+  }
+  if (diff.boothInfo) {
+    parts.push(diff.boothInfo.to ? `booth ${diff.boothInfo.to}` : "booth assignment removed");
+  }
+  return `${businessName}: ${parts.join(", ")}.`;
+}
+
+/**
+ * Apply one change to many applications on one event. Ids that don't belong
+ * to `eventId` are reported as skipped ("not found"), never touched — the
+ * event ownership check upstream only covers rows that really hang off it.
+ */
+export async function applyApplicationChanges(
+  db: Database,
+  args: {
+    event: OwnedEvent;
+    eventVendorIds: string[];
+    change: ApplicationChange;
+    actorUserId: string;
+  }
+): Promise<ApplicationChangeResult> {
+  const { event, change } = args;
+  const ids = [...new Set(args.eventVendorIds)];
+  const result: ApplicationChangeResult = { updated: [], skipped: [], emailed: 0 };
+  if (ids.length === 0) return result;
+
+  const current: {
+    id: string;
+    vendorId: string;
+    status: EventVendorStatus;
+    paymentStatus: PaymentStatus;
+    boothInfo: string | null;
+    promoterNotes: string | null;
+    businessName: string;
+    contactEmail: string | null;
+    ownerUserId: string | null;
+    ownerEmail: string | null;
+  }[] = [];
+  for (const batch of chunkIds(ids)) {
+    const rows = await db
+      .select({
+        id: eventVendors.id,
+        vendorId: eventVendors.vendorId,
+        status: eventVendors.status,
+        paymentStatus: eventVendors.paymentStatus,
+        boothInfo: eventVendors.boothInfo,
+        promoterNotes: eventVendors.promoterNotes,
+        businessName: vendors.businessName,
+        contactEmail: vendors.contactEmail,
+        ownerUserId: vendors.userId,
+        ownerEmail: users.email,
+      })
+      .from(eventVendors)
+      .innerJoin(vendors, eq(eventVendors.vendorId, vendors.id))
+      .leftJoin(users, eq(vendors.userId, users.id))
+      .where(and(eq(eventVendors.eventId, event.id), inArray(eventVendors.id, batch)));
+    current.push(...rows);
+  }
+
+  const found = new Set(current.map((r) => r.id));
+  for (const id of ids) {
+    if (!found.has(id)) result.skipped.push({ id, reason: "Application not found on this event" });
+  }
+
+  const siteUrl = getSiteUrl();
+  const now = new Date();
+
+  for (const row of current) {
+    const diff: VendorFacingDiff = {};
+    const set: Record<string, unknown> = {};
+
+    if (change.status !== undefined && change.status !== row.status) {
+      if (!isValidTransition(row.status, change.status)) {
+        result.skipped.push({
+          id: row.id,
+          reason: `Cannot move ${STATUS_LABELS[row.status]} to ${STATUS_LABELS[change.status]}`,
+        });
+        continue;
+      }
+      set.status = change.status;
+      diff.status = { from: STATUS_LABELS[row.status], to: STATUS_LABELS[change.status] };
+    }
+    if (change.paymentStatus !== undefined && change.paymentStatus !== row.paymentStatus) {
+      set.paymentStatus = change.paymentStatus;
+      diff.paymentStatus = {
+        from: PAYMENT_STATUS_LABELS[row.paymentStatus],
+        to: PAYMENT_STATUS_LABELS[change.paymentStatus],
+      };
+    }
+    if (change.boothInfo !== undefined && (change.boothInfo || null) !== row.boothInfo) {
+      set.boothInfo = change.boothInfo || null;
+      diff.boothInfo = { from: row.boothInfo, to: change.boothInfo || null };
+    }
+    if (
+      change.promoterNotes !== undefined &&
+      (change.promoterNotes || null) !== row.promoterNotes
+    ) {
+      set.promoterNotes = change.promoterNotes || null;
+    }
+
+    if (Object.keys(set).length === 0) {
+      result.skipped.push({ id: row.id, reason: "No change" });
+      continue;
+    }
+
+    // Stamp updatedAt so promoter response-time stats can compute decision latency.
+    set.updatedAt = now;
+    await db.update(eventVendors).set(set).where(eq(eventVendors.id, row.id));
+    result.updated.push(row.id);
+
+    if (set.status) {
+      await trackVendorStatusChange(
+        db,
+        row.vendorId,
+        event.id,
+        row.status,
+        set.status as string,
+        args.actorUserId
+      );
+      // Withdrawing/cancelling an approved vendor offers the booth onward.
+      await handleApplicationStatusChange(db, {
+        eventId: event.id,
+        eventVendorId: row.id,
+        from: row.status,
+        to: set.status as string,
+        actor: args.actorUserId,
+      });
+    }
+
+    if (Object.keys(diff).length === 0) continue;
+    if (row.ownerUserId) {
+      await createNotification(db, {
+        userId: row.ownerUserId,
+        type: "application_update",
+        title: diff.status
+          ? `${event.name}: application ${diff.status.to.toLowerCase()}`
+          : `${event.name}: application updated`,
+        message: describeVendorFacingDiff(row.businessName, diff),
+        data: { eventId: event.id, eventVendorId: row.id, url: "/vendor/applications" },
+        now,
+      });
+      // The account holder's email choice covers the business contact address
+      // too — it's their listing either way.
+      if (!(await wantsEmail(db, row.ownerUserId, "application_update"))) continue;
+    }
+    const to = row.contactEmail || row.ownerEmail;
+    if (!to) continue;
+    const tpl = applicationUpdateTemplate({
+      businessName: row.businessName,
+      eventName: event.name,
+      eventUrl: `${siteUrl}/events/${event.slug}`,
+      manageUrl: `${siteUrl}/vendor/applications`,
+      changes: diff,
+    });
+    // The change is already committed; a failed enqueue costs the vendor an
+    // email, not the promoter their update.
+    try {
+      await enqueueEmail({
+        to,
+        subject: tpl.subject,
+        html: tpl.html,
+        text: tpl.text,
+        source: APPLICATION_EMAIL_SOURCE,
+      });
+      result.emailed += 1;
+    } catch (error) {
+      await logError(db, {
+        level: "warn",
+        message: "Failed to enqueue application update email",
+        error,
+        source: "promoter-applications",
+        context: { eventId: event.id, eventVendorId: row.id },
+      });
+    }
+  }
+
+  return result;
+}
+
+function escapeCsv(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const str = String(value);
+  // Leading =, +, -, @ would be evaluated as a formula by spreadsheet apps;
+  // vendor-supplied names and notes are untrusted.
+  const safe = /^[=+\-@]/.test(str) ? `'${str}` : str;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function applicationsToCsv(rows: ApplicationRow[]): string {
+  // Question columns keyed by field id, labelled with the first label seen —
+  // answers are snapshots, so a renamed question keeps one column.
+  const questions = new Map<string, string>();
+  for (const r of rows) {
+    for (const a of r.answers) if (!questions.has(a.id)) questions.set(a.id, a.label);
+  }
+  const headers = [
+    "Business Name",
+    "Vendor Type",
+    "Contact Name",
+    "Contact Email",
+    "Contact Phone",
+    "Status",
+    "Payment Status",
+    "Booth",
+    "Notes",
+    "Applied",
+    "Updated",
+    ...questions.values(),
+  ];
+  const lines = rows.map((r) =>
+    [
+      escapeCsv(r.businessName),
+      escapeCsv(r.vendorType),
+      escapeCsv(r.contactName),
+      escapeCsv(r.contactEmail),
+      escapeCsv(r.contactPhone),
+      escapeCsv(STATUS_LABELS[r.status]),
+      escapeCsv(PAYMENT_STATUS_LABELS[r.paymentStatus]),
+      escapeCsv(r.boothInfo),
+      escapeCsv(r.promoterNotes),
+      escapeCsv(r.createdAt ? r.createdAt.toISOString().split("T")[0] : null),
+      escapeCsv(r.updatedAt ? r.updatedAt.toISOString().split("T")[0] : null),
+      ...[...questions.keys()].map((id) => {
+        const answer = r.answers.find((a) => a.id === id);
+        return escapeCsv(answer ? formatAnswerValue(answer) : null);
+      }),
+    ].join(",")
+  );
+  return [headers.map(escapeCsv).join(","), ...lines].join("\n");
+}
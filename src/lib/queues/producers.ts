@@ -85,6 +85,7 @@ export async function enqueueEmail(args: SendEmailArgs & { source: string }): Pr
       // caller owns the per-recipient signed token.
       listUnsubscribe: args.listUnsubscribe,
       listUnsubscribePost: args.listUnsubscribePost,
+      newsletterIssueSlug: args.newsletterIssueSlug,
     };
     await env.EMAIL_JOBS.send(msg);
     return;
@@ -36,6 +36,9 @@ export type EmailJobMessage = {
    */
   listUnsubscribe?: string;
   listUnsubscribePost?: string;
+  /** drizzle/0238 — newsletter_issues.slug for a tracked broadcast send; the
+   *  consumer writes it onto the ledger row. */
+  newsletterIssueSlug?: string;
 };
 
 /** A request to ping IndexNow for one or more URLs. */
@@ -53,6 +53,18 @@ export const RATE_LIMITS = {
     authenticatedLimit: 10,
     windowMs: 60 * 60 * 1000,
   },
+  // Second-factor attempts (drizzle/0241): the sign-in code field, the
+  // /login/two-factor page, step-up and factor management. Six digits with a
+  // ±1 step window is ~1 in 333,000 per guess. At sign-in this keys on the IP
+  // alone — a session still waiting on its second factor isn't signed in — so
+  // it doesn't stop someone holding the password guessing from many
+  // addresses; the per-account lockout in src/lib/auth/two-factor.ts
+  // (drizzle/0245) is what caps that.
+  "auth-two-factor": {
+    anonymousLimit: 20,
+    authenticatedLimit: 20,
+    windowMs: 60 * 60 * 1000,
+  },
   // Email verification send/resend
   "auth-verify-email-send": {
     anonymousLimit: 3,
@@ -65,6 +77,12 @@ export const RATE_LIMITS = {
     authenticatedLimit: 10,
     windowMs: 60 * 60 * 1000,
   },
+  // Newsletter profile saves from /newsletter/preferences (token-gated)
+  "newsletter-preferences": {
+    anonymousLimit: 20,
+    authenticatedLimit: 20,
+    windowMs: 60 * 60 * 1000,
+  },
   // Export endpoints - authenticated only, moderate limits
   "export-events": {
     anonymousLimit: 0, // Must be authenticated
@@ -81,6 +99,38 @@ export const RATE_LIMITS = {
     authenticatedLimit: 10,
     windowMs: 60 * 60 * 1000, // 1 hour
   },
+  // Self-service account export and deletion (src/lib/account). The export
+  // runs a dozen queries; deletion requests send an email.
+  "account-data-export": {
+    anonymousLimit: 0, // Must be authenticated
+    authenticatedLimit: 5,
+    windowMs: 60 * 60 * 1000, // 1 hour
+  },
+  "account-deletion": {
+    anonymousLimit: 0, // Must be authenticated
+    authenticatedLimit: 5,
+    windowMs: 60 * 60 * 1000, // 1 hour
+  },
+  // Abuse reports against vendor reviews (src/lib/reviews/moderation.ts).
+  // One per review per user already; this stops a sweep across all of them.
+  "review-report": {
+    anonymousLimit: 0, // Must be authenticated
+    authenticatedLimit: 20,
+    windowMs: 60 * 60 * 1000, // 1 hour
+  },
+  // Syndication portal (src/lib/syndication/portal.ts): a test ping and a
+  // redelivery each POST to the partner's callback URL from our Worker, so
+  // they're capped to keep the portal from being used to hammer a third party.
+  "syndication-ping": {
+    anonymousLimit: 0, // Must be authenticated
+    authenticatedLimit: 10,
+    windowMs: 60 * 60 * 1000, // 1 hour
+  },
+  "syndication-redeliver": {
+    anonymousLimit: 0, // Must be authenticated
+    authenticatedLimit: 30,
+    windowMs: 60 * 60 * 1000, // 1 hour
+  },
   // Google Places API proxies - authenticated only, moderate limits
   "google-autocomplete": {
     anonymousLimit: 0,
@@ -0,0 +1,50 @@
+/**
+ * The JSON-LD AggregateRating policy (../aggregate-rating): off by default,
+ * and never emitted for fewer than the minimum verified reviews.
+ */
+import { describe, expect, it } from "vitest";
+import {
+  buildEventAggregateRating,
+  isReviewRatingEmissionEnabled,
+  MIN_REVIEWS_FOR_AGGREGATE,
+} from "../aggregate-rating";
+import type { ReviewSummary } from "../event-reviews";
+
+const summary = (count: number): ReviewSummary => ({
+  count,
+  overall: 4.3,
+  averages: { attendance: 4.5, sales: 4, organization: 4.7, loadIn: 4 },
+});
+
+describe("isReviewRatingEmissionEnabled", () => {
+  it("is on only for the literal string 'true'", () => {
+    expect(isReviewRatingEmissionEnabled({ EMIT_REVIEW_RATINGS: "true" })).toBe(true);
+    expect(isReviewRatingEmissionEnabled({ EMIT_REVIEW_RATINGS: "1" })).toBe(false);
+    expect(isReviewRatingEmissionEnabled({})).toBe(false);
+  });
+});
+
+describe("buildEventAggregateRating", () => {
+  it("emits nothing while the flag is off", () => {
+    expect(buildEventAggregateRating(summary(10), { enabled: false })).toBeNull();
+  });
+
+  it("needs the minimum number of verified reviews", () => {
+    expect(buildEventAggregateRating(null, { enabled: true })).toBeNull();
+    expect(
+      buildEventAggregateRating(summary(MIN_REVIEWS_FOR_AGGREGATE - 1), { enabled: true })
+    ).toBeNull();
+  });
+
+  it("builds a 1-5 AggregateRating from the overall score", () => {
+    expect(
+      buildEventAggregateRating(summary(MIN_REVIEWS_FOR_AGGREGATE), { enabled: true })
+    ).toEqual({
+      "@type": "AggregateRating",
+      ratingValue: 4.3,
+      reviewCount: MIN_REVIEWS_FOR_AGGREGATE,
+      bestRating: 5,
+      worstRating: 1,
+    });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Vendor reviews of past events (../event-reviews, drizzle/0243): who may
+ * write one, what an edit keeps, promoter replies, and the summaries the event
+ * and series pages show.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import * as schema from "../../db/schema";
+import type { Database as AppDb } from "../../db";
+import {
+  checkReviewEligibility,
+  getSeriesReviews,
+  isVerifiedReview,
+  listEventReviews,
+  REVIEW_WINDOW_DAYS,
+  setReviewReply,
+  summarizeReviews,
+  upsertEventReview,
+} from "../event-reviews";
+
+const SCHEMA_SQL = `
+  CREATE TABLE users (id TEXT PRIMARY KEY);
+  CREATE TABLE promoters (id TEXT PRIMARY KEY, user_id TEXT);
+  CREATE TABLE vendors (id TEXT PRIMARY KEY, business_name TEXT NOT NULL, slug TEXT NOT NULL);
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, slug TEXT NOT NULL, promoter_id TEXT NOT NULL,
+    series_id TEXT, start_date INTEGER, end_date INTEGER
+  );
+  CREATE TABLE organization_members (
+    id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, user_id TEXT NOT NULL,
+    role TEXT NOT NULL
+  );
+  CREATE TABLE event_vendors (
+    id TEXT PRIMARY KEY, event_id TEXT NOT NULL, vendor_id TEXT NOT NULL, status TEXT NOT NULL
+  );
+  CREATE TABLE vendor_self_reported_events (
+    id TEXT PRIMARY KEY, vendor_id TEXT NOT NULL, event_id TEXT NOT NULL, status TEXT NOT NULL
+  );
+  CREATE TABLE event_reviews (
+    id TEXT PRIMARY KEY NOT NULL,
+    event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    vendor_id TEXT NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+    author_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    participation TEXT NOT NULL,
+    attendance_rating INTEGER NOT NULL, sales_rating INTEGER NOT NULL,
+    organization_rating INTEGER NOT NULL, load_in_rating INTEGER NOT NULL,
+    body TEXT, status TEXT NOT NULL DEFAULT 'PUBLISHED',
+    moderated_at INTEGER, moderated_by TEXT, moderation_note TEXT,
+    reply_body TEXT, reply_user_id TEXT REFERENCES users(id) ON DELETE SET NULL, replied_at INTEGER,
+    created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX idx_event_reviews_vendor_event ON event_reviews (vendor_id, event_id);
+`;
+
+const NOW = new Date("2026-10-01T12:00:00Z");
+const DAY = 24 * 60 * 60;
+const nowSec = Math.floor(NOW.getTime() / 1000);
+const RATINGS = { attendance: 4, sales: 3, organization: 5, loadIn: 2 };
+
+let raw: InstanceType<typeof Database>;
+let db: AppDb;
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(SCHEMA_SQL);
+  db = drizzle(raw, { schema }) as unknown as AppDb;
+  raw.exec(`
+    INSERT INTO users (id) VALUES ('u-vendor'), ('u-promoter'), ('u-both'), ('u-other');
+    INSERT INTO promoters (id, user_id) VALUES ('p1', 'u-promoter');
+    INSERT INTO organization_members (id, entity_type, entity_id, user_id, role)
+      VALUES ('m1', 'PROMOTER', 'p1', 'u-both', 'VIEWER');
+    INSERT INTO vendors (id, business_name, slug) VALUES
+      ('v-roster', 'Maple Farm', 'maple-farm'),
+      ('v-self', 'Bee Happy', 'bee-happy'),
+      ('v-disputed', 'Fudge Co', 'fudge-co'),
+      ('v-none', 'Nobody', 'nobody');
+    INSERT INTO events (id, name, slug, promoter_id, series_id, start_date, end_date) VALUES
+      ('e-past', 'Union Fair 2026', 'union-fair-2026', 'p1', 's1', ${nowSec - 12 * DAY}, ${nowSec - 10 * DAY}),
+      ('e-old', 'Union Fair 2024', 'union-fair-2024', 'p1', 's1', ${nowSec - 700 * DAY}, ${nowSec - 698 * DAY}),
+      ('e-future', 'Union Fair 2027', 'union-fair-2027', 'p1', 's1', ${nowSec + 300 * DAY}, NULL);
+    INSERT INTO event_vendors (id, event_id, vendor_id, status) VALUES
+      ('ev1', 'e-past', 'v-roster', 'CONFIRMED'),
+      ('ev2', 'e-past', 'v-none', 'APPLIED'),
+      ('ev3', 'e-future', 'v-roster', 'APPROVED'),
+      ('ev4', 'e-old', 'v-roster', 'APPROVED');
+    INSERT INTO vendor_self_reported_events (id, vendor_id, event_id, status) VALUES
+      ('sr1', 'v-self', 'e-past', 'SELF_REPORTED'),
+      ('sr2', 'v-disputed', 'e-past', 'DISPUTED');
+  `);
+});
+
+const eligibility = (vendorId: string, eventId: string, userId = "u-vendor") =>
+  checkReviewEligibility(db, { vendorId, eventId, userId, now: NOW });
+
+describe("checkReviewEligibility", () => {
+  it("takes the roster over a self-report and labels each", async () => {
+    expect(await eligibility("v-roster", "e-past")).toMatchObject({
+      ok: true,
+      participation: "ROSTER",
+    });
+    expect(await eligibility("v-self", "e-past")).toMatchObject({
+      ok: true,
+      participation: "SELF_REPORTED",
+    });
+  });
+
+  it("refuses vendors only applied or disputed, and unknown events", async () => {
+    expect(await eligibility("v-none", "e-past")).toEqual({
+      ok: false,
+      reason: "not_a_participant",
+    });
+    expect(await eligibility("v-disputed", "e-past")).toEqual({
+      ok: false,
+      reason: "not_a_participant",
+    });
+    expect(await eligibility("v-roster", "nope")).toEqual({
+      ok: false,
+      reason: "event_not_found",
+    });
+  });
+
+  it("opens when the event ends and closes after the window", async () => {
+    expect(await eligibility("v-roster", "e-future")).toEqual({ ok: false, reason: "not_ended" });
+    expect(REVIEW_WINDOW_DAYS).toBeLessThan(698);
+    expect(await eligibility("v-roster", "e-old")).toEqual({
+      ok: false,
+      reason: "window_closed",
+    });
+  });
+
+  it("refuses anyone with a seat on the event's promoter", async () => {
+    expect(await eligibility("v-roster", "e-past", "u-promoter")).toEqual({
+      ok: false,
+      reason: "promoter_member",
+    });
+    expect(await eligibility("v-roster", "e-past", "u-both")).toEqual({
+      ok: false,
+      reason: "promoter_member",
+    });
+  });
+});
+
+describe("upsertEventReview", () => {
+  const write = (over: Partial<Parameters<typeof upsertEventReview>[1]> = {}) =>
+    upsertEventReview(db, {
+      vendorId: "v-roster",
+      eventId: "e-past",
+      userId: "u-vendor",
+      ratings: RATINGS,
+      body: "  Great crowds, slow load-in.  ",
+      now: NOW,
+      ...over,
+    });
+
+  it("creates once per vendor and event, then edits in place", async () => {
+    const first = await write();
+    expect(first).toMatchObject({ ok: true, created: true });
+    if (!first.ok) throw new Error("expected ok");
+    expect(first.review).toMatchObject({
+      participation: "ROSTER",
+      body: "Great crowds, slow load-in.",
+      status: "PUBLISHED",
+    });
+
+    const second = await write({ ratings: { ...RATINGS, sales: 5 }, body: "" });
+    expect(second).toMatchObject({ ok: true, created: false });
+    if (!second.ok) throw new Error("expected ok");
+    expect(second.review.id).toBe(first.review.id);
+    expect(second.review).toMatchObject({ salesRating: 5, body: null });
+    expect(raw.prepare("SELECT count(*) AS n FROM event_reviews").get()).toEqual({ n: 1 });
+  });
+
+  it("keeps a hidden review hidden through an edit", async () => {
+    await write();
+    raw.exec("UPDATE event_reviews SET status = 'HIDDEN'");
+    const edited = await write({ body: "Edited" });
+    expect(edited.ok && edited.review.status).toBe("HIDDEN");
+  });
+
+  it("rejects out-of-range ratings and ineligible vendors", async () => {
+    expect(await write({ ratings: { ...RATINGS, loadIn: 0 } })).toEqual({
+      ok: false,
+      reason: "invalid_rating",
+    });
+    expect(await write({ vendorId: "v-none" })).toEqual({
+      ok: false,
+      reason: "not_a_participant",
+    });
+  });
+});
+
+describe("setReviewReply", () => {
+  it("lets the event's promoter reply, and only that promoter", async () => {
+    const written = await upsertEventReview(db, {
+      vendorId: "v-roster",
+      eventId: "e-past",
+      userId: "u-vendor",
+      ratings: RATINGS,
+      now: NOW,
+    });
+    if (!written.ok) throw new Error("expected ok");
+    const reviewId = written.review.id;
+
+    expect(
+      await setReviewReply(db, { reviewId, promoterId: "p-other", userId: "u-other", body: "Hi" })
+    ).toEqual({ ok: false, reason: "not_your_event" });
+    expect(
+      await setReviewReply(db, {
+        reviewId,
+        promoterId: "p1",
+        userId: "u-promoter",
+        body: " Thanks for coming! ",
+      })
+    ).toEqual({ ok: true });
+    let [review] = await listEventReviews(db, "e-past");
+    expect(review.reply?.body).toBe("Thanks for coming!");
+
+    await setReviewReply(db, { reviewId, promoterId: "p1", userId: "u-promoter", body: null });
+    [review] = await listEventReviews(db, "e-past");
+    expect(review.reply).toBeNull();
+  });
+});
+
+describe("summaries", () => {
+  beforeEach(async () => {
+    await upsertEventReview(db, {
+      vendorId: "v-roster",
+      eventId: "e-past",
+      userId: "u-vendor",
+      ratings: { attendance: 5, sales: 4, organization: 4, loadIn: 3 },
+      now: NOW,
+    });
+    await upsertEventReview(db, {
+      vendorId: "v-self",
+      eventId: "e-past",
+      userId: "u-other",
+      ratings: { attendance: 2, sales: 2, organization: 3, loadIn: 1 },
+      now: NOW,
+    });
+  });
+
+  it("lists published reviews only and averages to one decimal", async () => {
+    const reviews = await listEventReviews(db, "e-past");
+    expect(reviews).toHaveLength(2);
+    expect(summarizeReviews(reviews)).toEqual({
+      count: 2,
+      overall: 3,
+      averages: { attendance: 3.5, sales: 3, organization: 3.5, loadIn: 2 },
+    });
+    expect(summarizeReviews(reviews.filter(isVerifiedReview))?.count).toBe(1);
+
+    raw.exec("UPDATE event_reviews SET status = 'HIDDEN' WHERE vendor_id = 'v-self'");
+    expect(await listEventReviews(db, "e-past")).toHaveLength(1);
+    expect(summarizeReviews([])).toBeNull();
+  });
+
+  it("aggregates across a series and names each review's year", async () => {
+    const series = await getSeriesReviews(db, "s1");
+    expect(series.summary).toMatchObject({ count: 2, overall: 3 });
+    expect(series.recent.map((r) => r.eventName)).toEqual(["Union Fair 2026", "Union Fair 2026"]);
+    expect(await getSeriesReviews(db, "s-empty")).toEqual({ summary: null, recent: [] });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Review abuse reports and admin moderation (../moderation). Hiding must
+ * close the reports it answers, and every action must leave an audit row.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import * as schema from "../../db/schema";
+import type { Database as AppDb } from "../../db";
+import { listReviewsForModeration, moderateReview, reportReview } from "../moderation";
+
+const SCHEMA_SQL = `
+  CREATE TABLE users (id TEXT PRIMARY KEY);
+  CREATE TABLE vendors (id TEXT PRIMARY KEY, business_name TEXT NOT NULL, slug TEXT NOT NULL);
+  CREATE TABLE events (id TEXT PRIMARY KEY, name TEXT NOT NULL, slug TEXT NOT NULL);
+  CREATE TABLE event_reviews (
+    id TEXT PRIMARY KEY NOT NULL, event_id TEXT NOT NULL, vendor_id TEXT NOT NULL,
+    author_user_id TEXT, participation TEXT NOT NULL,
+    attendance_rating INTEGER NOT NULL, sales_rating INTEGER NOT NULL,
+    organization_rating INTEGER NOT NULL, load_in_rating INTEGER NOT NULL,
+    body TEXT, status TEXT NOT NULL DEFAULT 'PUBLISHED',
+    moderated_at INTEGER, moderated_by TEXT, moderation_note TEXT,
+    reply_body TEXT, reply_user_id TEXT, replied_at INTEGER,
+    created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE event_review_reports (
+    id TEXT PRIMARY KEY NOT NULL,
+    review_id TEXT NOT NULL REFERENCES event_reviews(id) ON DELETE CASCADE,
+    reporter_user_id TEXT, reason TEXT NOT NULL, details TEXT, created_at INTEGER NOT NULL,
+    resolved_at INTEGER, resolved_by TEXT, resolution TEXT
+  );
+  CREATE UNIQUE INDEX idx_event_review_reports_reporter
+    ON event_review_reports (review_id, reporter_user_id);
+  CREATE TABLE admin_actions (
+    id TEXT PRIMARY KEY, action TEXT NOT NULL, actor_user_id TEXT, target_type TEXT NOT NULL,
+    target_id TEXT NOT NULL, payload_json TEXT, created_at INTEGER NOT NULL
+  );
+`;
+
+const NOW = new Date("2026-10-01T12:00:00Z");
+
+let raw: InstanceType<typeof Database>;
+let db: AppDb;
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(SCHEMA_SQL);
+  db = drizzle(raw, { schema }) as unknown as AppDb;
+  raw.exec(`
+    INSERT INTO vendors (id, business_name, slug) VALUES ('v1', 'Maple Farm', 'maple-farm');
+    INSERT INTO events (id, name, slug) VALUES ('e1', 'Union Fair', 'union-fair');
+    INSERT INTO event_reviews (id, event_id, vendor_id, author_user_id, participation,
+        attendance_rating, sales_rating, organization_rating, load_in_rating, body,
+        reply_body, created_at, updated_at)
+      VALUES ('r1', 'e1', 'v1', 'u-author', 'ROSTER', 1, 1, 2, 1, 'Terrible.', 'Sorry!', 1, 1),
+             ('r2', 'e1', 'v1', 'u-author2', 'ROSTER', 5, 5, 5, 5, NULL, NULL, 2, 2);
+  `);
+});
+
+const report = (reporterUserId: string, reviewId = "r1") =>
+  reportReview(db, { reviewId, reporterUserId, reason: "ABUSIVE", now: NOW });
+
+describe("reportReview", () => {
+  it("takes one report per user and refuses the author's own", async () => {
+    expect(await report("u-a")).toEqual({ ok: true });
+    expect(await report("u-a")).toEqual({ ok: false, reason: "already_reported" });
+    expect(await report("u-author")).toEqual({ ok: false, reason: "own_review" });
+    expect(await report("u-a", "nope")).toEqual({ ok: false, reason: "not_found" });
+  });
+});
+
+describe("listReviewsForModeration", () => {
+  it("puts reported reviews first with their reasons, and the rest under recent", async () => {
+    await report("u-a");
+    await reportReview(db, { reviewId: "r1", reporterUserId: "u-b", reason: "FALSE", now: NOW });
+    await report("u-c");
+    const { reported, recent } = await listReviewsForModeration(db);
+    expect(reported).toHaveLength(1);
+    expect(reported[0]).toMatchObject({
+      id: "r1",
+      openReports: 3,
+      reportReasons: ["ABUSIVE", "FALSE"],
+      overall: 1.3,
+    });
+    expect(recent.map((r) => r.id)).toEqual(["r2"]);
+  });
+});
+
+describe("moderateReview", () => {
+  const act = (action: Parameters<typeof moderateReview>[1]["action"], note?: string) =>
+    moderateReview(db, { reviewId: "r1", action, actorUserId: "admin", note, now: NOW });
+
+  it("hides, closing open reports as HIDDEN, then restores", async () => {
+    await report("u-a");
+    expect(await act("hide", "Personal attack")).toEqual({ ok: true });
+    expect(await act("hide", "again")).toEqual({ ok: false, reason: "already_hidden" });
+    expect(
+      raw.prepare("SELECT status, moderation_note FROM event_reviews WHERE id = 'r1'").get()
+    ).toEqual({ status: "HIDDEN", moderation_note: "Personal attack" });
+    expect(raw.prepare("SELECT resolution FROM event_review_reports").get()).toEqual({
+      resolution: "HIDDEN",
+    });
+    // A hidden review can't collect new reports.
+    expect(await report("u-b")).toEqual({ ok: false, reason: "not_found" });
+
+    expect(await act("restore")).toEqual({ ok: true });
+    expect(await act("restore")).toEqual({ ok: false, reason: "not_hidden" });
+  });
+
+  it("dismisses reports and removes replies without touching the review", async () => {
+    await report("u-a");
+    expect(await act("dismiss_reports")).toEqual({ ok: true });
+    expect(raw.prepare("SELECT resolution, resolved_by FROM event_review_reports").get()).toEqual({
+      resolution: "DISMISSED",
+      resolved_by: "admin",
+    });
+    expect(await act("remove_reply")).toEqual({ ok: true });
+    expect(await act("remove_reply")).toEqual({ ok: false, reason: "no_reply" });
+    expect(
+      raw.prepare("SELECT status, reply_body FROM event_reviews WHERE id = 'r1'").get()
+    ).toEqual({ status: "PUBLISHED", reply_body: null });
+  });
+
+  it("audits every action", async () => {
+    await act("hide", "Spam");
+    await act("restore");
+    const rows = raw
+      .prepare("SELECT action, target_type, payload_json FROM admin_actions ORDER BY rowid")
+      .all();
+    expect(rows).toEqual([
+      {
+        action: "event_review.hide",
+        target_type: "event_review",
+        payload_json: JSON.stringify({ note: "Spam" }),
+      },
+      { action: "event_review.restore", target_type: "event_review", payload_json: null },
+    ]);
+  });
+});
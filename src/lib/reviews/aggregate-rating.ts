@@ -0,0 +1,54 @@
+/**
+ * When vendor reviews may surface as schema.org `aggregateRating` on an
+ * event's JSON-LD.
+ *
+ * Search engines treat an aggregate rating as a claim about the page's own
+ * item, shown to everyone searching for the fair — so the bar is higher than
+ * for the on-page list:
+ *
+ *   - The EMIT_REVIEW_RATINGS env flag is "true". Default off, flipped with no
+ *     code change, like EMIT_PERFORMER_SUBEVENTS.
+ *   - Only ROSTER and CORROBORATED reviews count. A self-reported exhibitor's
+ *     review is shown on the page, labelled, but not submitted.
+ *   - At least {@link MIN_REVIEWS_FOR_AGGREGATE} of them, for THIS event. A
+ *     series-wide average is never put on an occurrence — last year's fair is
+ *     not this year's.
+ *
+ * The reviews behind the number are always rendered on the same page
+ * (EventReviewsSection), which structured-data guidelines require.
+ */
+import type { ReviewSummary } from "./event-reviews";
+
+export const MIN_REVIEWS_FOR_AGGREGATE = 3;
+
+export interface AggregateRatingJsonLd {
+  "@type": "AggregateRating";
+  ratingValue: number;
+  reviewCount: number;
+  bestRating: 5;
+  worstRating: 1;
+}
+
+export function isReviewRatingEmissionEnabled(env: { EMIT_REVIEW_RATINGS?: string }): boolean {
+  return env.EMIT_REVIEW_RATINGS === "true";
+}
+
+/**
+ * The AggregateRating node for an event, or null when policy says not to
+ * emit one. `verifiedSummary` must be `summarizeReviews` over this event's
+ * published reviews filtered with `isVerifiedReview`.
+ */
+export function buildEventAggregateRating(
+  verifiedSummary: ReviewSummary | null,
+  opts: { enabled: boolean }
+): AggregateRatingJsonLd | null {
+  if (!opts.enabled || !verifiedSummary) return null;
+  if (verifiedSummary.count < MIN_REVIEWS_FOR_AGGREGATE) return null;
+  return {
+    "@type": "AggregateRating",
+    ratingValue: verifiedSummary.overall,
+    reviewCount: verifiedSummary.count,
+    bestRating: 5,
+    worstRating: 1,
+  };
+}
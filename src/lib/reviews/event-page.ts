@@ -0,0 +1,75 @@
+/**
+ * Everything the event detail page needs for its vendor-reviews section, in
+ * one call: the published reviews and their summaries, plus what the signed-in
+ * viewer may do — write or edit their vendor's review, or reply as the
+ * organizer. Anonymous viewers cost one query.
+ */
+import type { Database } from "@/lib/db";
+import type { EventReview } from "@/lib/db/schema";
+import { getMembership, getRoleFor, roleAtLeast } from "@/lib/organizations/members";
+import {
+  checkReviewEligibility,
+  getVendorReview,
+  isVerifiedReview,
+  listEventReviews,
+  summarizeReviews,
+  type PublicEventReview,
+  type ReviewEligibility,
+  type ReviewSummary,
+} from "./event-reviews";
+
+export interface EventReviewsView {
+  reviews: PublicEventReview[];
+  summary: ReviewSummary | null;
+  /** ROSTER and CORROBORATED reviews only — the JSON-LD aggregate's input. */
+  verifiedSummary: ReviewSummary | null;
+  /**
+   * Present when the viewer is an editor on a vendor that has reviewed this
+   * event or could. `review` may be HIDDEN; the vendor still sees their own.
+   */
+  vendorReview: { review: EventReview | null; eligibility: ReviewEligibility } | null;
+  /** The viewer is an editor on the event's promoter. */
+  canReply: boolean;
+}
+
+export async function loadEventReviewsView(
+  db: Database,
+  args: { eventId: string; promoterId: string; userId: string | null }
+): Promise<EventReviewsView> {
+  const reviews = await listEventReviews(db, args.eventId);
+  const view: EventReviewsView = {
+    reviews,
+    summary: summarizeReviews(reviews),
+    verifiedSummary: summarizeReviews(reviews.filter(isVerifiedReview)),
+    vendorReview: null,
+    canReply: false,
+  };
+  if (!args.userId) return view;
+
+  const [vendorSeat, promoterRole] = await Promise.all([
+    getMembership(db, args.userId, "VENDOR"),
+    reviews.length > 0
+      ? getRoleFor(db, {
+          entityType: "PROMOTER",
+          entityId: args.promoterId,
+          userId: args.userId,
+        })
+      : null,
+  ]);
+  view.canReply = promoterRole !== null && roleAtLeast(promoterRole, "EDITOR");
+
+  if (vendorSeat && roleAtLeast(vendorSeat.role, "EDITOR")) {
+    const [review, eligibility] = await Promise.all([
+      getVendorReview(db, vendorSeat.entityId, args.eventId),
+      checkReviewEligibility(db, {
+        vendorId: vendorSeat.entityId,
+        eventId: args.eventId,
+        userId: args.userId,
+      }),
+    ]);
+    // A vendor that never exhibited here gets no form at all, rather than a
+    // form that explains why it can't be used.
+    if (review || eligibility.ok) view.vendorReview = { review, eligibility };
+  }
+  return view;
+}
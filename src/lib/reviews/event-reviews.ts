@@ -0,0 +1,507 @@
+/**
+ * Vendor reviews of past fairs.
+ *
+ * Vendors pick shows by word of mouth; this puts that word on the event page.
+ * A review is written by a vendor listing (any EDITOR on its team) about an
+ * event it exhibited at, and rates four things a vendor cares about —
+ * attendance, sales, organization and load-in — with optional free text.
+ *
+ * WHO MAY REVIEW
+ * --------------
+ * Only a verified participant, judged when the review is written:
+ *
+ *   ROSTER        — an APPROVED or CONFIRMED `event_vendors` row: the
+ *                   organizer's own word that the vendor was there.
+ *   CORROBORATED  — a self-report an admin has checked.
+ *   SELF_REPORTED — the vendor's own claim (vendor_self_reported_events).
+ *                   Accepted, and labelled as such; DISPUTED self-reports are
+ *                   not.
+ *
+ * The strongest applies and is stored on the review, so the page can say how
+ * we know. The event must be over (end date, else start date, in the past)
+ * and ended within {@link REVIEW_WINDOW_DAYS} — a review of a show from five
+ * years ago tells a vendor little about this year's. Anyone holding a seat on
+ * the event's promoter is refused: an organizer reviewing their own fair
+ * through a vendor listing they also run is exactly the review readers can't
+ * trust.
+ *
+ * One review per (vendor, event). Writing again edits it; a review an admin
+ * has hidden stays hidden through edits (moderation.ts).
+ */
+import { and, avg, count, desc, eq, inArray } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  eventReviews,
+  events,
+  eventVendors,
+  organizationMembers,
+  promoters,
+  vendorSelfReportedEvents,
+  vendors,
+  type EventReview,
+  type EventReviewParticipation,
+} from "@/lib/db/schema";
+import { decodeHtmlEntities } from "@/lib/utils";
+
+/** How long after an event ends its exhibitors may still review it. */
+export const REVIEW_WINDOW_DAYS = 365;
+
+export const REVIEW_BODY_MAX_LENGTH = 2000;
+export const REVIEW_REPLY_MAX_LENGTH = 2000;
+
+export const REVIEW_DIMENSIONS = [
+  { key: "attendance", label: "Attendance" },
+  { key: "sales", label: "Sales" },
+  { key: "organization", label: "Organization" },
+  { key: "loadIn", label: "Load-in" },
+] as const;
+
+export type ReviewDimension = (typeof REVIEW_DIMENSIONS)[number]["key"];
+export type ReviewRatings = Record<ReviewDimension, number>;
+
+export const PARTICIPATION_LABELS: Record<EventReviewParticipation, string> = {
+  ROSTER: "Confirmed exhibitor",
+  CORROBORATED: "Verified exhibitor",
+  SELF_REPORTED: "Self-reported exhibitor",
+};
+
+/** event_vendors statuses that mean the organizer had the vendor on site. */
+const ROSTER_STATUSES = ["APPROVED", "CONFIRMED"] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReviewIneligibleReason =
+  | "event_not_found"
+  | "not_ended"
+  | "window_closed"
+  | "not_a_participant"
+  | "promoter_member";
+
+export type ReviewEligibility =
+  | { ok: true; participation: EventReviewParticipation; promoterId: string }
+  | { ok: false; reason: ReviewIneligibleReason };
+
+/** What the vendor is told when a review can't be written. */
+export const REVIEW_REFUSAL_MESSAGES: Record<ReviewIneligibleReason | "invalid_rating", string> = {
+  event_not_found: "Event not found",
+  not_ended: "You can review this event once it's over.",
+  window_closed: `Reviews close ${REVIEW_WINDOW_DAYS} days after an event ends.`,
+  not_a_participant:
+    "Only vendors who exhibited can review an event. Add it to your past events, or ask the organizer to confirm you.",
+  promoter_member: "You're on this event's organizer team, so you can't review it.",
+  invalid_rating: "Each rating must be a whole number from 1 to 5.",
+};
+
+export function isValidRating(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+/** How `vendorId` is known to have exhibited at `eventId`, strongest first. */
+export async function getParticipation(
+  db: Database,
+  vendorId: string,
+  eventId: string
+): Promise<EventReviewParticipation | null> {
+  const [roster] = await db
+    .select({ id: eventVendors.id })
+    .from(eventVendors)
+    .where(
+      and(
+        eq(eventVendors.vendorId, vendorId),
+        eq(eventVendors.eventId, eventId),
+        inArray(eventVendors.status, [...ROSTER_STATUSES])
+      )
+    )
+    .limit(1);
+  if (roster) return "ROSTER";
+
+  const [reported] = await db
+    .select({ status: vendorSelfReportedEvents.status })
+    .from(vendorSelfReportedEvents)
+    .where(
+      and(
+        eq(vendorSelfReportedEvents.vendorId, vendorId),
+        eq(vendorSelfReportedEvents.eventId, eventId)
+      )
+    )
+    .limit(1);
+  if (reported?.status === "CORROBORATED") return "CORROBORATED";
+  if (reported?.status === "SELF_REPORTED") return "SELF_REPORTED";
+  return null;
+}
+
+/** True when `userId` owns or has a seat on `promoterId`. */
+async function holdsPromoterSeat(
+  db: Database,
+  promoterId: string,
+  userId: string
+): Promise<boolean> {
+  const [owner] = await db
+    .select({ id: promoters.id })
+    .from(promoters)
+    .where(and(eq(promoters.id, promoterId), eq(promoters.userId, userId)))
+    .limit(1);
+  if (owner) return true;
+  const [seat] = await db
+    .select({ id: organizationMembers.id })
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.entityType, "PROMOTER"),
+        eq(organizationMembers.entityId, promoterId),
+        eq(organizationMembers.userId, userId)
+      )
+    )
+    .limit(1);
+  return Boolean(seat);
+}
+
+/**
+ * Whether `userId`, acting for `vendorId`, may review `eventId` right now.
+ * Date checks come first so a vendor looking at an upcoming show is told
+ * "not yet" rather than "you weren't there".
+ */
+export async function checkReviewEligibility(
+  db: Database,
+  args: { vendorId: string; eventId: string; userId: string; now?: Date }
+): Promise<ReviewEligibility> {
+  const now = args.now ?? new Date();
+  const [event] = await db
+    .select({
+      promoterId: events.promoterId,
+      startDate: events.startDate,
+      endDate: events.endDate,
+    })
+    .from(events)
+    .where(eq(events.id, args.eventId))
+    .limit(1);
+  if (!event) return { ok: false, reason: "event_not_found" };
+
+  const ended = event.endDate ?? event.startDate;
+  if (!ended || ended.getTime() > now.getTime()) return { ok: false, reason: "not_ended" };
+  if (now.getTime() - ended.getTime() > REVIEW_WINDOW_DAYS * DAY_MS) {
+    return { ok: false, reason: "window_closed" };
+  }
+
+  if (await holdsPromoterSeat(db, event.promoterId, args.userId)) {
+    return { ok: false, reason: "promoter_member" };
+  }
+
+  const participation = await getParticipation(db, args.vendorId, args.eventId);
+  if (!participation) return { ok: false, reason: "not_a_participant" };
+  return { ok: true, participation, promoterId: event.promoterId };
+}
+
+export async function getVendorReview(
+  db: Database,
+  vendorId: string,
+  eventId: string
+): Promise<EventReview | null> {
+  const [row] = await db
+    .select()
+    .from(eventReviews)
+    .where(and(eq(eventReviews.vendorId, vendorId), eq(eventReviews.eventId, eventId)))
+    .limit(1);
+  return row ?? null;
+}
+
+export type UpsertReviewResult =
+  | { ok: true; review: EventReview; created: boolean }
+  | { ok: false; reason: ReviewIneligibleReason | "invalid_rating" };
+
+/**
+ * Write or edit `vendorId`'s review of `eventId`. Eligibility is re-checked on
+ * every write, edits included: a roster row withdrawn or a self-report
+ * disputed since the first write closes the review to changes.
+ */
+export async function upsertEventReview(
+  db: Database,
+  args: {
+    vendorId: string;
+    eventId: string;
+    userId: string;
+    ratings: ReviewRatings;
+    body?: string | null;
+    now?: Date;
+  }
+): Promise<UpsertReviewResult> {
+  if (!REVIEW_DIMENSIONS.every((d) => isValidRating(args.ratings[d.key]))) {
+    return { ok: false, reason: "invalid_rating" };
+  }
+  const eligibility = await checkReviewEligibility(db, args);
+  if (!eligibility.ok) return eligibility;
+
+  const now = args.now ?? new Date();
+  const body = args.body?.trim() ? args.body.trim().slice(0, REVIEW_BODY_MAX_LENGTH) : null;
+  const values = {
+    authorUserId: args.userId,
+    participation: eligibility.participation,
+    attendanceRating: args.ratings.attendance,
+    salesRating: args.ratings.sales,
+    organizationRating: args.ratings.organization,
+    loadInRating: args.ratings.loadIn,
+    body,
+    updatedAt: now,
+  };
+
+  const existing = await getVendorReview(db, args.vendorId, args.eventId);
+  if (existing) {
+    const [review] = await db
+      .update(eventReviews)
+      .set(values)
+      .where(eq(eventReviews.id, existing.id))
+      .returning();
+    return { ok: true, review, created: false };
+  }
+
+  const [review] = await db
+    .insert(eventReviews)
+    .values({ ...values, vendorId: args.vendorId, eventId: args.eventId, createdAt: now })
+    .returning();
+  return { ok: true, review, created: true };
+}
+
+/** Withdraw a vendor's own review. Reports against it go with it. */
+export async function deleteEventReview(
+  db: Database,
+  args: { vendorId: string; eventId: string }
+): Promise<boolean> {
+  const deleted = await db
+    .delete(eventReviews)
+    .where(and(eq(eventReviews.vendorId, args.vendorId), eq(eventReviews.eventId, args.eventId)))
+    .returning({ id: eventReviews.id });
+  return deleted.length > 0;
+}
+
+export type ReplyResult = { ok: true } | { ok: false; reason: "not_found" | "not_your_event" };
+
+/**
+ * Set (or with `body: null`, clear) the promoter's public reply to a review.
+ * The review must be of one of `promoterId`'s events. Replies to hidden
+ * reviews are allowed — the review may be restored.
+ */
+export async function setReviewReply(
+  db: Database,
+  args: {
+    reviewId: string;
+    promoterId: string;
+    userId: string;
+    body: string | null;
+    now?: Date;
+  }
+): Promise<ReplyResult> {
+  const [row] = await db
+    .select({ promoterId: events.promoterId })
+    .from(eventReviews)
+    .innerJoin(events, eq(eventReviews.eventId, events.id))
+    .where(eq(eventReviews.id, args.reviewId))
+    .limit(1);
+  if (!row) return { ok: false, reason: "not_found" };
+  if (row.promoterId !== args.promoterId) return { ok: false, reason: "not_your_event" };
+
+  const body = args.body?.trim() ? args.body.trim().slice(0, REVIEW_REPLY_MAX_LENGTH) : null;
+  await db
+    .update(eventReviews)
+    .set(
+      body
+        ? { replyBody: body, replyUserId: args.userId, repliedAt: args.now ?? new Date() }
+        : { replyBody: null, replyUserId: null, repliedAt: null }
+    )
+    .where(eq(eventReviews.id, args.reviewId));
+  return { ok: true };
+}
+
+export interface PublicEventReview {
+  id: string;
+  eventId: string;
+  vendorName: string;
+  vendorSlug: string;
+  participation: EventReviewParticipation;
+  ratings: ReviewRatings;
+  body: string | null;
+  reply: { body: string; repliedAt: Date | null } | null;
+  createdAt: Date;
+}
+
+export interface ReviewSummary {
+  count: number;
+  /** Mean of the four dimension averages, 1 decimal. */
+  overall: number;
+  averages: ReviewRatings;
+}
+
+const reviewColumns = {
+  id: eventReviews.id,
+  eventId: eventReviews.eventId,
+  vendorName: vendors.businessName,
+  vendorSlug: vendors.slug,
+  participation: eventReviews.participation,
+  attendance: eventReviews.attendanceRating,
+  sales: eventReviews.salesRating,
+  organization: eventReviews.organizationRating,
+  loadIn: eventReviews.loadInRating,
+  body: eventReviews.body,
+  replyBody: eventReviews.replyBody,
+  repliedAt: eventReviews.repliedAt,
+  createdAt: eventReviews.createdAt,
+};
+
+type ReviewRow = {
+  id: string;
+  eventId: string;
+  vendorName: string;
+  vendorSlug: string;
+  participation: EventReviewParticipation;
+  attendance: number;
+  sales: number;
+  organization: number;
+  loadIn: number;
+  body: string | null;
+  replyBody: string | null;
+  repliedAt: Date | null;
+  createdAt: Date;
+};
+
+function toPublicReview(r: ReviewRow): PublicEventReview {
+  return {
+    id: r.id,
+    eventId: r.eventId,
+    vendorName: decodeHtmlEntities(r.vendorName),
+    vendorSlug: r.vendorSlug,
+    participation: r.participation,
+    ratings: {
+      attendance: r.attendance,
+      sales: r.sales,
+      organization: r.organization,
+      loadIn: r.loadIn,
+    },
+    body: r.body,
+    reply: r.replyBody ? { body: r.replyBody, repliedAt: r.repliedAt } : null,
+    createdAt: r.createdAt,
+  };
+}
+
+/** Published reviews of one event, newest first. */
+export async function listEventReviews(
+  db: Database,
+  eventId: string
+): Promise<PublicEventReview[]> {
+  const rows = await db
+    .select(reviewColumns)
+    .from(eventReviews)
+    .innerJoin(vendors, eq(eventReviews.vendorId, vendors.id))
+    .where(and(eq(eventReviews.eventId, eventId), eq(eventReviews.status, "PUBLISHED")))
+    .orderBy(desc(eventReviews.createdAt));
+  return rows.map((r) => toPublicReview(r as ReviewRow));
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/**
+ * Averages from SQL `avg()` results. SQLite returns them as numbers or
+ * numeric strings depending on the driver, so they're coerced here. Null when
+ * there are no reviews.
+ */
+export function toReviewSummary(row: {
+  count: number;
+  attendance: unknown;
+  sales: unknown;
+  organization: unknown;
+  loadIn: unknown;
+}): ReviewSummary | null {
+  if (!row.count) return null;
+  const averages: ReviewRatings = {
+    attendance: Number(row.attendance),
+    sales: Number(row.sales),
+    organization: Number(row.organization),
+    loadIn: Number(row.loadIn),
+  };
+  const overall = REVIEW_DIMENSIONS.reduce((sum, d) => sum + averages[d.key], 0) / 4;
+  return {
+    count: row.count,
+    overall: round1(overall),
+    averages: {
+      attendance: round1(averages.attendance),
+      sales: round1(averages.sales),
+      organization: round1(averages.organization),
+      loadIn: round1(averages.loadIn),
+    },
+  };
+}
+
+const summaryColumns = {
+  count: count(),
+  attendance: avg(eventReviews.attendanceRating),
+  sales: avg(eventReviews.salesRating),
+  organization: avg(eventReviews.organizationRating),
+  loadIn: avg(eventReviews.loadInRating),
+};
+
+/**
+ * Summary of reviews already loaded for a page. Pass
+ * {@link isVerifiedReview}-filtered reviews for the JSON-LD aggregate, which
+ * leaves self-reported exhibitors out (aggregate-rating.ts).
+ */
+export function summarizeReviews(reviews: PublicEventReview[]): ReviewSummary | null {
+  const mean = (key: ReviewDimension) =>
+    reviews.reduce((sum, r) => sum + r.ratings[key], 0) / reviews.length;
+  return toReviewSummary({
+    count: reviews.length,
+    attendance: reviews.length ? mean("attendance") : null,
+    sales: reviews.length ? mean("sales") : null,
+    organization: reviews.length ? mean("organization") : null,
+    loadIn: reviews.length ? mean("loadIn") : null,
+  });
+}
+
+/** Written by an exhibitor the organizer or an admin vouched for. */
+export function isVerifiedReview(review: Pick<PublicEventReview, "participation">): boolean {
+  return review.participation === "ROSTER" || review.participation === "CORROBORATED";
+}
+
+export interface SeriesReview extends PublicEventReview {
+  eventName: string;
+  eventSlug: string;
+}
+
+export interface SeriesReviews {
+  summary: ReviewSummary | null;
+  recent: SeriesReview[];
+}
+
+/**
+ * Published reviews across every occurrence of a series: one summary over all
+ * of them, plus the latest few with the year they're about. The series page
+ * is where "how is this fair, generally?" gets asked.
+ */
+export async function getSeriesReviews(
+  db: Database,
+  seriesId: string,
+  opts: { limit?: number } = {}
+): Promise<SeriesReviews> {
+  const where = and(eq(events.seriesId, seriesId), eq(eventReviews.status, "PUBLISHED"));
+  const [summaryRow] = await db
+    .select(summaryColumns)
+    .from(eventReviews)
+    .innerJoin(events, eq(eventReviews.eventId, events.id))
+    .where(where);
+  const rows = await db
+    .select({ ...reviewColumns, eventName: events.name, eventSlug: events.slug })
+    .from(eventReviews)
+    .innerJoin(events, eq(eventReviews.eventId, events.id))
+    .innerJoin(vendors, eq(eventReviews.vendorId, vendors.id))
+    .where(where)
+    .orderBy(desc(eventReviews.createdAt))
+    .limit(opts.limit ?? 5);
+
+  return {
+    summary: summaryRow ? toReviewSummary(summaryRow) : null,
+    recent: rows.map((r) => ({
+      ...toPublicReview(r as ReviewRow),
+      eventName: decodeHtmlEntities(r.eventName),
+      eventSlug: r.eventSlug,
+    })),
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Abuse reports and admin moderation for event reviews (/admin/reviews).
+ *
+ * Any signed-in user may report a published review, once. Reports queue until
+ * an admin acts:
+ *
+ *   hide            — the review leaves every public surface; open reports on
+ *                     it close as HIDDEN. A note is required.
+ *   restore         — a hidden review is published again.
+ *   dismiss_reports — the review stays; open reports close as DISMISSED.
+ *   remove_reply    — the promoter's reply is cleared, the review untouched.
+ *
+ * Hiding never deletes: the vendor can still see and edit their review, and
+ * an edit does not republish it. Every action leaves an admin_actions row
+ * under target type "event_review".
+ */
+import { and, count, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  adminActions,
+  eventReviewReports,
+  eventReviews,
+  events,
+  vendors,
+  type EventReviewReportReason,
+} from "@/lib/db/schema";
+import { decodeHtmlEntities } from "@/lib/utils";
+
+export const REPORT_REASON_LABELS: Record<EventReviewReportReason, string> = {
+  SPAM: "Spam or advertising",
+  ABUSIVE: "Abusive or harassing",
+  FALSE: "False or misleading",
+  CONFLICT_OF_INTEREST: "Conflict of interest",
+  OTHER: "Something else",
+};
+
+export type ReportResult =
+  | { ok: true }
+  | { ok: false; reason: "not_found" | "already_reported" | "own_review" };
+
+/**
+ * File a report. Reporting your own vendor's review is refused (withdraw it
+ * instead); a second report by the same user is refused rather than counted.
+ */
+export async function reportReview(
+  db: Database,
+  args: {
+    reviewId: string;
+    reporterUserId: string;
+    reason: EventReviewReportReason;
+    details?: string | null;
+    now?: Date;
+  }
+): Promise<ReportResult> {
+  const [review] = await db
+    .select({ authorUserId: eventReviews.authorUserId, status: eventReviews.status })
+    .from(eventReviews)
+    .where(eq(eventReviews.id, args.reviewId))
+    .limit(1);
+  if (!review || review.status !== "PUBLISHED") return { ok: false, reason: "not_found" };
+  if (review.authorUserId === args.reporterUserId) return { ok: false, reason: "own_review" };
+
+  const inserted = await db
+    .insert(eventReviewReports)
+    .values({
+      reviewId: args.reviewId,
+      reporterUserId: args.reporterUserId,
+      reason: args.reason,
+      details: args.details?.trim() || null,
+      createdAt: args.now ?? new Date(),
+    })
+    .onConflictDoNothing()
+    .returning({ id: eventReviewReports.id });
+  return inserted.length > 0 ? { ok: true } : { ok: false, reason: "already_reported" };
+}
+
+export interface ModerationReview {
+  id: string;
+  eventName: string;
+  eventSlug: string;
+  vendorName: string;
+  vendorSlug: string;
+  status: "PUBLISHED" | "HIDDEN";
+  overall: number;
+  body: string | null;
+  replyBody: string | null;
+  moderationNote: string | null;
+  createdAt: Date;
+  openReports: number;
+  /** Reasons on open reports, most common first. */
+  reportReasons: EventReviewReportReason[];
+}
+
+/**
+ * Reviews for the admin page: everything with an open report first (oldest
+ * report first), then the most recent reviews so new ones get a look even
+ * when nobody has complained.
+ */
+export async function listReviewsForModeration(
+  db: Database,
+  opts: { recentLimit?: number } = {}
+): Promise<{ reported: ModerationReview[]; recent: ModerationReview[] }> {
+  const open = await db
+    .select({
+      reviewId: eventReviewReports.reviewId,
+      reason: eventReviewReports.reason,
+      n: count(),
+      firstAt: sql<number>`min(${eventReviewReports.createdAt})`,
+    })
+    .from(eventReviewReports)
+    .where(isNull(eventReviewReports.resolvedAt))
+    .groupBy(eventReviewReports.reviewId, eventReviewReports.reason);
+
+  const reports = new Map<
+    string,
+    { total: number; firstAt: number; reasons: Map<EventReviewReportReason, number> }
+  >();
+  for (const row of open) {
+    const entry = reports.get(row.reviewId) ?? {
+      total: 0,
+      firstAt: row.firstAt,
+      reasons: new Map(),
+    };
+    entry.total += row.n;
+    entry.firstAt = Math.min(entry.firstAt, row.firstAt);
+    entry.reasons.set(row.reason, row.n);
+    reports.set(row.reviewId, entry);
+  }
+
+  const columns = {
+    id: eventReviews.id,
+    eventName: events.name,
+    eventSlug: events.slug,
+    vendorName: vendors.businessName,
+    vendorSlug: vendors.slug,
+    status: eventReviews.status,
+    attendance: eventReviews.attendanceRating,
+    sales: eventReviews.salesRating,
+    organization: eventReviews.organizationRating,
+    loadIn: eventReviews.loadInRating,
+    body: eventReviews.body,
+    replyBody: eventReviews.replyBody,
+    moderationNote: eventReviews.moderationNote,
+    createdAt: eventReviews.createdAt,
+  };
+  const base = () =>
+    db
+      .select(columns)
+      .from(eventReviews)
+      .innerJoin(events, eq(eventReviews.eventId, events.id))
+      .innerJoin(vendors, eq(eventReviews.vendorId, vendors.id));
+
+  const reportedIds = [...reports.keys()];
+  const [reportedRows, recentRows] = await Promise.all([
+    reportedIds.length > 0 ? base().where(inArray(eventReviews.id, reportedIds)) : [],
+    base()
+      .orderBy(desc(eventReviews.createdAt))
+      .limit(opts.recentLimit ?? 50),
+  ]);
+
+  const toModeration = (r: (typeof recentRows)[number]): ModerationReview => {
+    const entry = reports.get(r.id);
+    return {
+      id: r.id,
+      eventName: decodeHtmlEntities(r.eventName),
+      eventSlug: r.eventSlug,
+      vendorName: decodeHtmlEntities(r.vendorName),
+      vendorSlug: r.vendorSlug,
+      status: r.status,
+      overall: Math.round(((r.attendance + r.sales + r.organization + r.loadIn) / 4) * 10) / 10,
+      body: r.body,
+      replyBody: r.replyBody,
+      moderationNote: r.moderationNote,
+      createdAt: r.createdAt,
+      openReports: entry?.total ?? 0,
+      reportReasons: entry
+        ? [...entry.reasons.entries()].sort((a, b) => b[1] - a[1]).map(([reason]) => reason)
+        : [],
+    };
+  };
+
+  return {
+    reported: reportedRows
+      .map(toModeration)
+      .sort((a, b) => (reports.get(a.id)?.firstAt ?? 0) - (reports.get(b.id)?.firstAt ?? 0)),
+    recent: recentRows.filter((r) => !reports.has(r.id)).map(toModeration),
+  };
+}
+
+export type ModerationAction = "hide" | "restore" | "dismiss_reports" | "remove_reply";
+
+export type ModerationResult =
+  | { ok: true }
+  | { ok: false; reason: "not_found" | "already_hidden" | "not_hidden" | "no_reply" };
+
+export async function moderateReview(
+  db: Database,
+  args: {
+    reviewId: string;
+    action: ModerationAction;
+    actorUserId: string;
+    note?: string | null;
+    now?: Date;
+  }
+): Promise<ModerationResult> {
+  const now = args.now ?? new Date();
+  const [review] = await db
+    .select({ status: eventReviews.status, replyBody: eventReviews.replyBody })
+    .from(eventReviews)
+    .where(eq(eventReviews.id, args.reviewId))
+    .limit(1);
+  if (!review) return { ok: false, reason: "not_found" };
+
+  const note = args.note?.trim() || null;
+  const closeOpenReports = (resolution: "DISMISSED" | "HIDDEN") =>
+    db
+      .update(eventReviewReports)
+      .set({ resolvedAt: now, resolvedBy: args.actorUserId, resolution })
+      .where(
+        and(eq(eventReviewReports.reviewId, args.reviewId), isNull(eventReviewReports.resolvedAt))
+      );
+
+  switch (args.action) {
+    case "hide":
+      if (review.status === "HIDDEN") return { ok: false, reason: "already_hidden" };
+      await db
+        .update(eventReviews)
+        .set({
+          status: "HIDDEN",
+          moderatedAt: now,
+          moderatedBy: args.actorUserId,
+          moderationNote: note,
+        })
+        .where(eq(eventReviews.id, args.reviewId));
+      await closeOpenReports("HIDDEN");
+      break;
+    case "restore":
+      if (review.status !== "HIDDEN") return { ok: false, reason: "not_hidden" };
+      await db
+        .update(eventReviews)
+        .set({
+          status: "PUBLISHED",
+          moderatedAt: now,
+          moderatedBy: args.actorUserId,
+          moderationNote: note,
+        })
+        .where(eq(eventReviews.id, args.reviewId));
+      break;
+    case "dismiss_reports":
+      await closeOpenReports("DISMISSED");
+      break;
+    case "remove_reply":
+      if (!review.replyBody) return { ok: false, reason: "no_reply" };
+      await db
+        .update(eventReviews)
+        .set({ replyBody: null, replyUserId: null, repliedAt: null })
+        .where(eq(eventReviews.id, args.reviewId));
+      break;
+  }
+
+  await db.insert(adminActions).values({
+    action: `event_review.${args.action}`,
+    actorUserId: args.actorUserId,
+    targetType: "event_review",
+    targetId: args.reviewId,
+    payloadJson: note ? JSON.stringify({ note }) : null,
+    createdAt: now,
+  });
+  return { ok: true };
+}
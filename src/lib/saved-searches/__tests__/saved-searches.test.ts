@@ -0,0 +1,314 @@
+/**
+ * Saved searches against an in-memory SQLite: saving baselines what already
+ * matches, only newly APPROVED upcoming events count as new (facet regions
+ * and radius searches included), and the digest's due rules, notification rows, per-user email
+ * and the scoped one-click unsubscribe token.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+
+const sent: {
+  to: string;
+  subject: string;
+  text: string;
+  source?: string;
+  listUnsubscribe?: string;
+}[] = [];
+vi.mock("@/lib/email/send", () => ({ getSiteUrl: () => "https://example.test" }));
+vi.mock("@/lib/queues/producers", () => ({
+  enqueueEmail: async (args: (typeof sent)[number]) => {
+    sent.push(args);
+  },
+}));
+vi.mock("@/lib/logger", () => ({ logError: vi.fn(async () => undefined) }));
+
+import * as schema from "@/lib/db/schema";
+import { signUnsubscribeToken } from "@/lib/email/newsletter-unsubscribe-token";
+import {
+  baselineSavedSearch,
+  describeSavedSearch,
+  findNewMatches,
+  resolveSavedSearchScope,
+  savedSearchPath,
+  serializeSavedSearchParams,
+} from "../saved-searches";
+import { runSavedSearchDigest, SAVED_SEARCH_EMAIL_SOURCE } from "../digest";
+import {
+  signSavedSearchUnsubscribeToken,
+  verifySavedSearchUnsubscribeToken,
+} from "../unsubscribe-token";
+
+const TABLES = `
+  CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT, name TEXT);
+  CREATE TABLE venues (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, city TEXT, latitude REAL, longitude REAL
+  );
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, slug TEXT NOT NULL, name TEXT NOT NULL, description TEXT,
+    venue_id TEXT, state_code TEXT, categories TEXT DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'APPROVED', lifecycle_status TEXT NOT NULL DEFAULT 'SCHEDULED',
+    start_date INTEGER, end_date INTEGER
+  );
+  CREATE TABLE saved_searches (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, name TEXT NOT NULL, params TEXT NOT NULL,
+    frequency TEXT NOT NULL DEFAULT 'WEEKLY', email_enabled INTEGER NOT NULL DEFAULT 1,
+    last_run_at INTEGER, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE saved_search_seen (
+    saved_search_id TEXT NOT NULL, event_id TEXT NOT NULL, created_at INTEGER NOT NULL,
+    PRIMARY KEY (saved_search_id, event_id)
+  );
+  CREATE TABLE notifications (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, type TEXT NOT NULL, title TEXT NOT NULL,
+    message TEXT NOT NULL, read INTEGER DEFAULT 0, data TEXT, created_at INTEGER
+  );
+  CREATE TABLE email_suppression_list (
+    email TEXT PRIMARY KEY, reason TEXT, source TEXT, created_at INTEGER NOT NULL
+  );
+`;
+
+type Db = Parameters<typeof findNewMatches>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+const HOUR = 3600;
+const sec = (d: Date) => Math.floor(d.getTime() / 1000);
+const day = (n: number) => sec(NOW) + n * 86400;
+const SECRET = "test-secret";
+
+function addEvent(id: string, extra: Record<string, unknown> = {}) {
+  raw
+    .prepare(
+      `INSERT INTO events (id, slug, name, venue_id, state_code, categories, status, start_date, end_date)
+       VALUES (@id, @id, @name, @venue_id, @state_code, @categories, @status, @start_date, @end_date)`
+    )
+    .run({
+      id,
+      name: `Fair ${id}`,
+      venue_id: null,
+      state_code: "NH",
+      categories: '["Craft Fair"]',
+      status: "APPROVED",
+      start_date: day(10),
+      end_date: day(11),
+      ...extra,
+    });
+}
+
+function addSearch(id: string, params: object, extra: Record<string, unknown> = {}) {
+  raw
+    .prepare(
+      `INSERT INTO saved_searches (id, user_id, name, params, frequency, email_enabled, last_run_at, created_at, updated_at)
+       VALUES (@id, 'user-1', @name, @params, @frequency, @email_enabled, @last_run_at, @created_at, @created_at)`
+    )
+    .run({
+      id,
+      name: `Search ${id}`,
+      params: JSON.stringify(params),
+      frequency: "DAILY",
+      email_enabled: 1,
+      last_run_at: null,
+      created_at: day(-2),
+      ...extra,
+    });
+}
+
+function scopeOf(params: object) {
+  const scope = resolveSavedSearchScope(params, NOW);
+  if (!scope) throw new Error("fixture scope did not resolve");
+  return scope;
+}
+
+const seenIds = (searchId: string) =>
+  (
+    raw
+      .prepare("SELECT event_id FROM saved_search_seen WHERE saved_search_id = ? ORDER BY event_id")
+      .all(searchId) as { event_id: string }[]
+  ).map((r) => r.event_id);
+
+beforeEach(() => {
+  sent.length = 0;
+  raw = new Database(":memory:");
+  raw.exec(TABLES);
+  db = drizzle(raw, { schema }) as unknown as Db;
+  raw
+    .prepare("INSERT INTO users (id, email, name) VALUES ('user-1', 'Pat@Example.com', 'Pat')")
+    .run();
+});
+
+describe("matching", () => {
+  const params = { state: "NH", category: "Craft Fair" };
+
+  it("baselines current matches so only later approvals are new", async () => {
+    addEvent("old");
+    addSearch("s1", params);
+    expect(await baselineSavedSearch(db, "s1", scopeOf(params), NOW)).toBe(1);
+
+    addEvent("new");
+    const matches = await findNewMatches(db, { id: "s1" }, scopeOf(params), NOW);
+    expect(matches.map((m) => m.id)).toEqual(["new"]);
+  });
+
+  it("counts only APPROVED, public, upcoming events in scope", async () => {
+    addSearch("s1", params);
+    addEvent("ok");
+    addEvent("tentative", { status: "TENTATIVE" });
+    addEvent("pending", { status: "PENDING" });
+    addEvent("past", { start_date: day(-10), end_date: day(-9) });
+    addEvent("elsewhere", { state_code: "ME" });
+    addEvent("other-type", { categories: '["Farmers Market"]' });
+    addEvent("cancelled");
+    raw.prepare("UPDATE events SET lifecycle_status = 'CANCELLED' WHERE id = 'cancelled'").run();
+
+    const matches = await findNewMatches(db, { id: "s1" }, scopeOf(params), NOW);
+    expect(matches.map((m) => m.id)).toEqual(["ok"]);
+  });
+
+  it("narrows to a facet region by venue town", async () => {
+    const region = { state: "MA", facet: "berkshires" };
+    raw
+      .prepare("INSERT INTO venues (id, name, city) VALUES ('v-in', 'Fairgrounds', 'Pittsfield')")
+      .run();
+    raw.prepare("INSERT INTO venues (id, name, city) VALUES ('v-out', 'Common', 'Boston')").run();
+    addEvent("in", { state_code: "MA", venue_id: "v-in" });
+    addEvent("out", { state_code: "MA", venue_id: "v-out" });
+    addSearch("s1", region);
+
+    const matches = await findNewMatches(db, { id: "s1" }, scopeOf(region), NOW);
+    expect(matches.map((m) => m.id)).toEqual(["in"]);
+  });
+
+  it("narrows to a radius around the saved centre", async () => {
+    const nearPortland = { near: "43.661,-70.255", zip: "04101", radius: "25" };
+    raw.exec(`
+      INSERT INTO venues (id, name, city, latitude, longitude) VALUES
+        ('v-in', 'Expo', 'Portland', 43.66, -70.27),
+        ('v-out', 'Common', 'Boston', 42.36, -71.06),
+        ('v-none', 'Somewhere', 'Nowhere', NULL, NULL);
+    `);
+    addEvent("in", { venue_id: "v-in" });
+    addEvent("out", { venue_id: "v-out" });
+    addEvent("unplaced", { venue_id: "v-none" });
+    addSearch("s1", nearPortland);
+
+    const matches = await findNewMatches(db, { id: "s1" }, scopeOf(nearPortland), NOW);
+    expect(matches.map((m) => m.id)).toEqual(["in"]);
+    expect(savedSearchPath(nearPortland)).toBe("/events?near=43.661%2C-70.255&zip=04101&radius=25");
+    expect(describeSavedSearch(nearPortland, NOW)).toBe("Within 25 mi of 04101");
+  });
+
+  it("refuses a facet the state doesn't have", () => {
+    expect(resolveSavedSearchScope({ state: "MA", facet: "lakes-region" }, NOW)).toBeNull();
+  });
+
+  it("links and labels the listing it was saved from", () => {
+    expect(savedSearchPath({ state: "MA", facet: "berkshires", category: "Craft Fair" })).toBe(
+      "/events/massachusetts/berkshires?category=Craft+Fair"
+    );
+    expect(savedSearchPath({ state: "NH", featured: "true" })).toBe(
+      "/events?state=NH&featured=true"
+    );
+    expect(describeSavedSearch({ state: "MA", facet: "berkshires" }, NOW)).toBe(
+      "The Berkshires · Massachusetts"
+    );
+    expect(describeSavedSearch({}, NOW)).toBe("All events");
+  });
+
+  it("serializes the same filters identically", () => {
+    expect(serializeSavedSearchParams({ category: "Craft Fair", state: "nh" })).toBe(
+      serializeSavedSearchParams({ state: "NH", category: "Craft Fair" })
+    );
+  });
+});
+
+describe("runSavedSearchDigest", () => {
+  const params = { state: "NH" };
+
+  it("notifies, emails once per user, and marks matches seen", async () => {
+    addSearch("s1", params);
+    addSearch("s2", { state: "NH", category: "Craft Fair" });
+    addEvent("e1");
+
+    const result = await runSavedSearchDigest(db, { secret: SECRET, now: NOW });
+    expect(result).toEqual({ searches: 2, notified: 2, emailed: 1, failed: 0 });
+
+    const notes = raw.prepare("SELECT type, data FROM notifications").all() as {
+      type: string;
+      data: string;
+    }[];
+    expect(notes.map((n) => n.type)).toEqual(["saved_search_match", "saved_search_match"]);
+    expect(JSON.parse(notes[0].data)).toMatchObject({ eventIds: ["e1"], url: "/events?state=NH" });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe("pat@example.com");
+    expect(sent[0].source).toBe(SAVED_SEARCH_EMAIL_SOURCE);
+    expect(sent[0].text).toContain("https://example.test/events/e1");
+    const unsubscribeUrl = sent[0].listUnsubscribe!.slice(1, -1);
+    expect(sent[0].text).toContain(unsubscribeUrl);
+    const token = new URL(unsubscribeUrl).searchParams.get("token")!;
+    expect(await verifySavedSearchUnsubscribeToken(token, SECRET)).toBe("pat@example.com");
+
+    expect(seenIds("s1")).toEqual(["e1"]);
+    expect(seenIds("s2")).toEqual(["e1"]);
+  });
+
+  it("runs each search on its own schedule", async () => {
+    addSearch("daily", params, { last_run_at: day(0) - 23 * HOUR });
+    addSearch("weekly", params, { frequency: "WEEKLY", last_run_at: day(-3) });
+    addSearch("daily-fresh", params, { last_run_at: day(0) - 2 * HOUR });
+    addEvent("e1");
+
+    const result = await runSavedSearchDigest(db, { secret: SECRET, now: NOW });
+    expect(result.searches).toBe(1);
+    expect(seenIds("daily")).toEqual(["e1"]);
+    expect(seenIds("weekly")).toEqual([]);
+
+    const lastRun = raw
+      .prepare("SELECT last_run_at FROM saved_searches WHERE id = 'daily'")
+      .get() as {
+      last_run_at: number;
+    };
+    expect(lastRun.last_run_at).toBe(sec(NOW));
+  });
+
+  it("doesn't report the same event twice", async () => {
+    addSearch("s1", params);
+    addEvent("e1");
+    await runSavedSearchDigest(db, { secret: SECRET, now: NOW });
+    const later = new Date(NOW.getTime() + 86_400_000);
+    const result = await runSavedSearchDigest(db, { secret: SECRET, now: later });
+    expect(result).toMatchObject({ searches: 1, notified: 0, emailed: 0 });
+  });
+
+  it("keeps in-app notifications when email is off or suppressed", async () => {
+    addSearch("quiet", params, { email_enabled: 0 });
+    addEvent("e1");
+    expect(await runSavedSearchDigest(db, { secret: SECRET, now: NOW })).toMatchObject({
+      notified: 1,
+      emailed: 0,
+    });
+
+    addSearch("loud", params);
+    raw
+      .prepare(
+        "INSERT INTO email_suppression_list (email, created_at) VALUES ('pat@example.com', 0)"
+      )
+      .run();
+    expect(await runSavedSearchDigest(db, { secret: SECRET, now: NOW })).toMatchObject({
+      notified: 1,
+      emailed: 0,
+    });
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe("saved-search unsubscribe tokens", () => {
+  it("are not interchangeable with newsletter tokens", async () => {
+    const alert = await signSavedSearchUnsubscribeToken("pat@example.com", SECRET);
+    const newsletter = await signUnsubscribeToken("pat@example.com", SECRET);
+    expect(await verifySavedSearchUnsubscribeToken(alert, SECRET)).toBe("pat@example.com");
+    expect(await verifySavedSearchUnsubscribeToken(newsletter, SECRET)).toBeNull();
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * The saved-search digest — runs once a day from the MCP Worker's cron via
+ * POST /api/internal/saved-searches/digest.
+ *
+ * Each due search (DAILY: a day since its last run; WEEKLY: a week) reports
+ * its new matches (./saved-searches.ts) twice over:
+ *
+ *   • one `notifications` row per search with matches, unless the user
+ *     switched "Saved search matches" off in-app in their settings;
+ *   • one email per USER covering all of their searches with matches and
+ *     email on, so five saved searches don't mean five messages. Skipped for
+ *     suppressed addresses and for users who turned the type's email off in
+ *     their settings; carries a one-click unsubscribe that turns email off
+ *     for every saved search (./unsubscribe-token.ts).
+ *
+ * Reported events are marked seen before the email is queued. A failed
+ * enqueue is logged and not retried: the in-app notification already carries
+ * the same events, and re-reporting them tomorrow would be the worse failure.
+ */
+import { and, asc, eq, or, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { emailSuppressionList, savedSearches, users } from "@/lib/db/schema";
+import { getSiteUrl } from "@/lib/email/send";
+import { savedSearchAlertTemplate } from "@/lib/email/templates";
+import { logError } from "@/lib/logger";
+import { createNotification, wantsEmail } from "@/lib/notifications/notifications";
+import { enqueueEmail } from "@/lib/queues/producers";
+import { formatDateRange } from "@/lib/utils";
+import {
+  findNewMatches,
+  markSeen,
+  parseSavedSearchParams,
+  resolveSavedSearchScope,
+  savedSearchPath,
+  SAVED_SEARCH_NOTIFICATION_TYPE,
+  type SavedSearchMatch,
+} from "./saved-searches";
+import { savedSearchUnsubscribeUrl } from "./unsubscribe-token";
+
+export const SAVED_SEARCH_EMAIL_SOURCE = "saved-search-alerts";
+
+// A few hours short of the nominal period: the cron fires at a fixed hour but
+// a run takes a while, and "24h since last run" measured from a run that
+// finished at 12:03 would skip the next day's 12:00 pass.
+const DAILY_INTERVAL_MS = 20 * 60 * 60 * 1000;
+const WEEKLY_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000 - 4 * 60 * 60 * 1000;
+
+// Searches handled per run, most overdue first; any remainder is next run's.
+const DIGEST_BATCH = 500;
+
+export interface SavedSearchDigestResult {
+  searches: number;
+  notified: number;
+  emailed: number;
+  failed: number;
+}
+
+/** COALESCE(last_run_at, created_at) ≤ cutoff, in the column's seconds. */
+function lastRunBefore(cutoff: Date) {
+  return sql`COALESCE(${savedSearches.lastRunAt}, ${savedSearches.createdAt}) <= ${Math.floor(cutoff.getTime() / 1000)}`;
+}
+
+function placeOf(m: SavedSearchMatch): string | null {
+  return [m.venueName, m.venueCity, m.stateCode].filter(Boolean).join(", ") || null;
+}
+
+interface UserDigest {
+  email: string | null;
+  name: string | null;
+  sections: { name: string; path: string; matches: SavedSearchMatch[] }[];
+}
+
+export async function runSavedSearchDigest(
+  db: Database,
+  opts: { secret: string | undefined; now?: Date }
+): Promise<SavedSearchDigestResult> {
+  const now = opts.now ?? new Date();
+  const result: SavedSearchDigestResult = { searches: 0, notified: 0, emailed: 0, failed: 0 };
+
+  const due = await db
+    .select({
+      search: savedSearches,
+      email: users.email,
+      userName: users.name,
+    })
+    .from(savedSearches)
+    .innerJoin(users, eq(savedSearches.userId, users.id))
+    .where(
+      or(
+        and(
+          eq(savedSearches.frequency, "DAILY"),
+          lastRunBefore(new Date(now.getTime() - DAILY_INTERVAL_MS))
+        ),
+        and(
+          eq(savedSearches.frequency, "WEEKLY"),
+          lastRunBefore(new Date(now.getTime() - WEEKLY_INTERVAL_MS))
+        )
+      )
+    )
+    .orderBy(asc(sql`COALESCE(${savedSearches.lastRunAt}, ${savedSearches.createdAt})`))
+    .limit(DIGEST_BATCH);
+
+  const byUser = new Map<string, UserDigest>();
+  for (const { search, email, userName } of due) {
+    result.searches += 1;
+    try {
+      const params = parseSavedSearchParams(search.params);
+      const scope = params ? resolveSavedSearchScope(params, now) : null;
+      if (!params || !scope) {
+        await logError(db, {
+          level: "warn",
+          message: "saved-search digest: search no longer resolves",
+          source: "saved-search-digest",
+          context: { savedSearchId: search.id },
+        });
+      } else {
+        const matches = await findNewMatches(db, search, scope, now);
+        if (matches.length > 0) {
+          const path = savedSearchPath(params);
+          // Best-effort, like every other notifications writer — the email
+          // and the seen-marking must not hinge on it.
+          const notified = await createNotification(db, {
+            userId: search.userId,
+            type: SAVED_SEARCH_NOTIFICATION_TYPE,
+            title: `New matches for "${search.name}"`,
+            message:
+              matches.length === 1
+                ? `${matches[0].name} was just listed.`
+                : `${matches.length} new events were just listed, starting with ${matches[0].name}.`,
+            data: {
+              savedSearchId: search.id,
+              eventIds: matches.map((m) => m.id),
+              url: path,
+            },
+            now,
+          });
+          if (notified) result.notified += 1;
+          await markSeen(
+            db,
+            search.id,
+            matches.map((m) => m.id),
+            now
+          );
+          if (search.emailEnabled) {
+            const digest = byUser.get(search.userId) ?? {
+              email,
+              name: userName,
+              sections: [],
+            };
+            digest.sections.push({ name: search.name, path, matches });
+            byUser.set(search.userId, digest);
+          }
+        }
+      }
+      await db.update(savedSearches).set({ lastRunAt: now }).where(eq(savedSearches.id, search.id));
+    } catch (error) {
+      result.failed += 1;
+      await logError(db, {
+        message: "saved-search digest: search failed",
+        error,
+        source: "saved-search-digest",
+        context: { savedSearchId: search.id },
+      });
+    }
+  }
+
+  if (byUser.size === 0) return result;
+  if (!opts.secret) {
+    await logError(db, {
+      message: "saved-search digest: no unsubscribe signing secret configured; emails skipped",
+      source: "saved-search-digest",
+    });
+    return result;
+  }
+
+  const siteUrl = getSiteUrl();
+  for (const [userId, digest] of byUser) {
+    if (!digest.email) continue;
+    if (!(await wantsEmail(db, userId, SAVED_SEARCH_NOTIFICATION_TYPE))) continue;
+    const to = digest.email.toLowerCase();
+    const [suppressed] = await db
+      .select({ email: emailSuppressionList.email })
+      .from(emailSuppressionList)
+      .where(eq(emailSuppressionList.email, to))
+      .limit(1);
+    if (suppressed) continue;
+
+    const unsubscribeUrl = await savedSearchUnsubscribeUrl(siteUrl, to, opts.secret);
+    const tpl = savedSearchAlertTemplate({
+      name: digest.name,
+      searches: digest.sections.map((s) => ({
+        name: s.name,
+        url: `${siteUrl}${s.path}`,
+        events: s.matches.map((m) => ({
+          name: m.name,
+          url: `${siteUrl}/events/${m.slug}`,
+          when: formatDateRange(m.startDate, m.endDate),
+          place: placeOf(m),
+        })),
+      })),
+      manageUrl: `${siteUrl}/dashboard#saved-searches`,
+      unsubscribeUrl,
+    });
+    try {
+      await enqueueEmail({
+        to,
+        subject: tpl.subject,
+        html: tpl.html,
+        text: tpl.text,
+        source: SAVED_SEARCH_EMAIL_SOURCE,
+        // RFC 8058 one-click — the same signed URL as the footer link.
+        listUnsubscribe: `<${unsubscribeUrl}>`,
+        listUnsubscribePost: "List-Unsubscribe=One-Click",
+      });
+      result.emailed += 1;
+    } catch (error) {
+      await logError(db, {
+        level: "warn",
+        message: "saved-search digest: failed to enqueue email",
+        error,
+        source: "saved-search-digest",
+        context: { searches: digest.sections.length },
+      });
+    }
+  }
+
+  return result;
+}
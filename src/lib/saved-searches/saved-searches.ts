@@ -0,0 +1,268 @@
+/**
+ * Saved searches (drizzle/0232) — an /events filter state a user asked to be
+ * told about. This module owns what a saved search MEANS: its params, the
+ * listing URL and label it stands for, and which events are new matches.
+ * The scheduled digest that reports them is ./digest.ts.
+ *
+ * ── Matching ───────────────────────────────────────────────────────────────
+ * Same attribute filters as the listing and the calendar feed
+ * (`publicFilterConditions` + `facetConditions`, and `withinRadius` on the
+ * venue for a radius search), so a search saved from a page reports events
+ * that page would show. On top of that: editorial status
+ * exactly APPROVED (a TENTATIVE listing is public but not what "new fair
+ * listed" promises), the lifecycle gate, and upcoming only.
+ *
+ * ── "New" ──────────────────────────────────────────────────────────────────
+ * A match is new until it is in `saved_search_seen`. Saving a search seeds that
+ * set with everything already matching (`baselineSavedSearch`), so the first
+ * digest carries only what was approved after the user hit save. An event that
+ * drops out of a search and comes back is not reported twice.
+ */
+import { and, asc, eq, isNotNull, notInArray } from "drizzle-orm";
+import { parseNearParam, parseRadiusMiles } from "@takemetothefair/utils";
+import type { Database } from "@/lib/db";
+import { events, savedSearches, savedSearchSeen, venues, type SavedSearch } from "@/lib/db/schema";
+import { publicEventWhere } from "@/lib/event-lifecycle";
+import { upcomingEndPredicate } from "@/lib/event-dates";
+import { publicFilterConditions, type FilterableSearchParams } from "@/lib/events-filter-count";
+import {
+  facetConditions,
+  resolveFacet,
+  stateHasFacets,
+  type ResolvedFacet,
+} from "@/lib/events/facets";
+import { withinRadius, type NearSearch } from "@/lib/near-search";
+import { getStateName, getStateSlug } from "@/lib/states";
+import { savedSearchParamsSchema, type SavedSearchParams } from "@/lib/validations";
+
+/** Saved searches one account may keep. */
+export const MAX_SAVED_SEARCHES_PER_USER = 10;
+
+/** `notifications.type` for a digest's in-app half. */
+export const SAVED_SEARCH_NOTIFICATION_TYPE = "saved_search_match";
+
+/**
+ * Matches one search reports per digest. Anything beyond stays unseen and
+ * goes out in the next digest, so a burst of approvals is spread rather than
+ * dropped.
+ */
+export const MATCHES_PER_DIGEST = 25;
+
+// Seeding stops here. Past it, already-listed events can surface in later
+// digests — tolerable for a search that broad, and it bounds the save request.
+const BASELINE_LIMIT = 1000;
+
+// 3 columns per seen row → 90 bound params per insert (D1 caps at 100).
+const SEEN_INSERT_BATCH = 30;
+
+/** A search's filter scope, with the facet slug resolved against `now`. */
+export interface SavedSearchScope {
+  filter: FilterableSearchParams;
+  facet?: { stateSlug: string; facet: ResolvedFacet };
+  near?: Pick<NearSearch, "center" | "radiusMiles">;
+}
+
+/** The stored params, or null when the row no longer parses. */
+export function parseSavedSearchParams(raw: string): SavedSearchParams | null {
+  try {
+    const parsed = savedSearchParamsSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve params to a query scope. Null when the facet names nothing for the
+ * state — the route refuses those at save time, so this only fires if a
+ * region is later removed from facet-regions.ts, and such a search must not
+ * quietly widen to the whole state. The same goes for a centre that no longer
+ * parses.
+ */
+export function resolveSavedSearchScope(
+  params: SavedSearchParams,
+  now: Date
+): SavedSearchScope | null {
+  const { facet: facetSlug, near: nearParam, zip: _zip, radius, ...filter } = params;
+  let near: SavedSearchScope["near"];
+  if (nearParam) {
+    const center = parseNearParam(nearParam);
+    if (!center) return null;
+    near = { center, radiusMiles: parseRadiusMiles(radius) };
+  }
+  if (!facetSlug) return { filter, near };
+  const stateSlug = getStateSlug(params.state);
+  const facet =
+    stateSlug && stateHasFacets(stateSlug) ? resolveFacet(stateSlug, facetSlug, now) : null;
+  if (!stateSlug || !facet) return null;
+  return { filter, facet: { stateSlug, facet }, near };
+}
+
+/** The listing the search was saved from, site-relative. */
+export function savedSearchPath(params: SavedSearchParams): string {
+  const { facet, ...filter } = params;
+  const stateSlug = getStateSlug(params.state);
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    // The facet page carries its state in the path.
+    if (value && !(facet && key === "state")) query.set(key, value);
+  }
+  const qs = query.size > 0 ? `?${query}` : "";
+  return facet && stateSlug ? `/events/${stateSlug}/${facet}${qs}` : `/events${qs}`;
+}
+
+/** Default name for a search saved without one, e.g. "Lakes Region · Craft Fair · New Hampshire". */
+export function describeSavedSearch(params: SavedSearchParams, now: Date = new Date()): string {
+  const stateSlug = getStateSlug(params.state);
+  const facetLabel =
+    params.facet && stateSlug ? resolveFacet(stateSlug, params.facet, now)?.label : undefined;
+  const label = [
+    params.query ? `"${params.query}"` : undefined,
+    facetLabel,
+    params.category,
+    getStateName(params.state),
+    params.near
+      ? `Within ${parseRadiusMiles(params.radius)} mi of ${params.zip ?? "your location"}`
+      : undefined,
+    params.featured === "true" ? "Featured" : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  return label || "All events";
+}
+
+/**
+ * Canonical stored form. The schema's output has a fixed key order and drops
+ * unset keys, so two saves of the same listing serialize identically — which
+ * is what the create route's duplicate check compares.
+ */
+export function serializeSavedSearchParams(params: SavedSearchParams): string {
+  return JSON.stringify(savedSearchParamsSchema.parse(params));
+}
+
+/** The caller's saved search `id`, or null when it doesn't exist or isn't theirs. */
+export async function getOwnedSavedSearch(
+  db: Database,
+  userId: string,
+  id: string
+): Promise<SavedSearch | null> {
+  const [row] = await db
+    .select()
+    .from(savedSearches)
+    .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+    .limit(1);
+  return row ?? null;
+}
+
+/** The row as /dashboard shows it: params parsed, plus the listing it links to. */
+export function toClientSavedSearch(row: SavedSearch) {
+  const params = parseSavedSearchParams(row.params) ?? {};
+  return {
+    id: row.id,
+    name: row.name,
+    params,
+    path: savedSearchPath(params),
+    frequency: row.frequency,
+    emailEnabled: row.emailEnabled,
+    lastRunAt: row.lastRunAt,
+    createdAt: row.createdAt,
+  };
+}
+
+function matchConditions(scope: SavedSearchScope, now: Date) {
+  return [
+    eq(events.status, "APPROVED"),
+    publicEventWhere(),
+    isNotNull(events.startDate),
+    upcomingEndPredicate(now),
+    ...publicFilterConditions(scope.filter),
+    ...(scope.facet ? facetConditions(scope.facet.stateSlug, scope.facet.facet, now) : []),
+    ...(scope.near ? [withinRadius(venues.latitude, venues.longitude, scope.near)] : []),
+  ];
+}
+
+export interface SavedSearchMatch {
+  id: string;
+  slug: string;
+  name: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  venueName: string | null;
+  venueCity: string | null;
+  stateCode: string | null;
+}
+
+/** Matches not yet reported for `search`, soonest first. */
+export async function findNewMatches(
+  db: Database,
+  search: Pick<SavedSearch, "id">,
+  scope: SavedSearchScope,
+  now: Date,
+  limit: number = MATCHES_PER_DIGEST
+): Promise<SavedSearchMatch[]> {
+  const seen = db
+    .select({ eventId: savedSearchSeen.eventId })
+    .from(savedSearchSeen)
+    .where(eq(savedSearchSeen.savedSearchId, search.id));
+  return db
+    .select({
+      id: events.id,
+      slug: events.slug,
+      name: events.name,
+      startDate: events.startDate,
+      endDate: events.endDate,
+      venueName: venues.name,
+      venueCity: venues.city,
+      stateCode: events.stateCode,
+    })
+    .from(events)
+    .leftJoin(venues, eq(events.venueId, venues.id))
+    .where(and(...matchConditions(scope, now), notInArray(events.id, seen)))
+    .orderBy(asc(events.startDate))
+    .limit(limit);
+}
+
+/** Record events as reported for `savedSearchId`. Idempotent. */
+export async function markSeen(
+  db: Database,
+  savedSearchId: string,
+  eventIds: string[],
+  now: Date
+): Promise<void> {
+  for (let i = 0; i < eventIds.length; i += SEEN_INSERT_BATCH) {
+    await db
+      .insert(savedSearchSeen)
+      .values(
+        eventIds
+          .slice(i, i + SEEN_INSERT_BATCH)
+          .map((eventId) => ({ savedSearchId, eventId, createdAt: now }))
+      )
+      .onConflictDoNothing();
+  }
+}
+
+/**
+ * Seed a just-saved search's seen set with everything it already matches, so
+ * the digest reports only what is approved from here on. Returns how many
+ * were seeded.
+ */
+export async function baselineSavedSearch(
+  db: Database,
+  savedSearchId: string,
+  scope: SavedSearchScope,
+  now: Date = new Date()
+): Promise<number> {
+  const rows = await db
+    .select({ id: events.id })
+    .from(events)
+    .leftJoin(venues, eq(events.venueId, venues.id))
+    .where(and(...matchConditions(scope, now)))
+    .limit(BASELINE_LIMIT);
+  await markSeen(
+    db,
+    savedSearchId,
+    rows.map((r) => r.id),
+    now
+  );
+  return rows.length;
+}
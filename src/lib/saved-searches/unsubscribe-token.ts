@@ -0,0 +1,36 @@
+/**
+ * One-click "stop saved-search emails" links. The newsletter's stateless
+ * tokens (src/lib/email/newsletter-unsubscribe-token.ts) signed under a
+ * purpose-scoped key: the same HMAC scheme, but a newsletter link can't be
+ * replayed here and an alert link can't unsubscribe someone from the
+ * newsletter. Nothing to store or expire, like the original.
+ */
+import {
+  signUnsubscribeToken,
+  verifyUnsubscribeToken,
+} from "@/lib/email/newsletter-unsubscribe-token";
+
+function scopedSecret(secret: string): string {
+  return `${secret}:saved-search-alerts`;
+}
+
+export function signSavedSearchUnsubscribeToken(email: string, secret: string): Promise<string> {
+  return signUnsubscribeToken(email, scopedSecret(secret));
+}
+
+/** The (normalized) email the token was issued to, or null. */
+export function verifySavedSearchUnsubscribeToken(
+  token: string,
+  secret: string
+): Promise<string | null> {
+  return verifyUnsubscribeToken(token, scopedSecret(secret));
+}
+
+/** Absolute URL for both the email footer and the List-Unsubscribe header. */
+export async function savedSearchUnsubscribeUrl(
+  siteUrl: string,
+  email: string,
+  secret: string
+): Promise<string> {
+  return `${siteUrl}/api/saved-searches/unsubscribe?token=${await signSavedSearchUnsubscribeToken(email, secret)}`;
+}
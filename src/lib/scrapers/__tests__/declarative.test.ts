@@ -0,0 +1,329 @@
+/**
+ * Tests for the config-driven scraper (src/lib/scrapers/declarative).
+ *
+ * The parity block is the contract the feature was built on: a stored
+ * definition pointed at mainemade.com's markup must yield exactly what the
+ * hand-written parseEventsFromHtml does, so either can feed the importer.
+ * Fixture HTML mirrors mainemade.test.ts.
+ */
+
+import { describe, it, expect } from "vitest";
+import { scraperDefinitionSchema } from "@/lib/validations";
+import { parseEventsFromHtml } from "../mainemade";
+import { parseHtml, selectAll, selectValue, SelectorError } from "../declarative/html-select";
+import { parseDateText } from "../declarative/dates";
+import {
+  createDeclarativeScraper,
+  extractEventDetails,
+  runScraperDefinition,
+  type PageFetcher,
+} from "../declarative/run";
+
+function fixtures(pages: Record<string, string>): PageFetcher {
+  return async (url) => pages[url] ?? null;
+}
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+describe("html-select", () => {
+  const root = parseHtml(`
+    <ul id="list">
+      <li class="event featured"><a href="/e/one">One</a><span data-day="1">Sat</span></li>
+      <li class="event"><a href="/e/two">Two &amp; Co</a><p>first<p>second</li>
+      <li class="ad"><a href="/ad">Ad</a></li>
+    </ul>
+    <script>var x = "<li class='event'>fake</li>";</script>
+  `);
+
+  it("matches class, descendant, child and attribute selectors", () => {
+    expect(selectAll(root, "li.event")).toHaveLength(2);
+    expect(selectAll(root, "#list > li.featured")).toHaveLength(1);
+    expect(selectAll(root, "li a[href^='/e/']")).toHaveLength(2);
+    expect(selectAll(root, "li:last-child a")).toHaveLength(1);
+    expect(selectAll(root, "li.ad, li.featured")).toHaveLength(2);
+  });
+
+  it("reads text (entities decoded) or an attribute with @attr", () => {
+    const [, second] = selectAll(root, "li.event");
+    expect(selectValue(second, "a")).toBe("Two & Co");
+    expect(selectValue(second, "a@href")).toBe("/e/two");
+    expect(selectValue(root, "span@data-day")).toBe("1");
+  });
+
+  it("implicitly closes <p> and ignores markup inside <script>", () => {
+    const [, second] = selectAll(root, "li.event");
+    expect(selectAll(second, "p")).toHaveLength(2);
+    expect(selectAll(root, "li")).toHaveLength(3);
+  });
+
+  it("rejects selectors it does not support", () => {
+    expect(() => selectAll(root, "li:hover")).toThrow(SelectorError);
+  });
+});
+
+describe("parseDateText", () => {
+  const iso = (d: Date | undefined) => d?.toISOString().slice(0, 10);
+
+  it("reads month-day ranges across months and years", () => {
+    const r = parseDateText("Aug 30 - Sept 2, 2026", "month-day", 2025);
+    expect([iso(r?.start), iso(r?.end)]).toEqual(["2026-08-30", "2026-09-02"]);
+    const rolled = parseDateText("December 30 - January 2", "month-day", 2026);
+    expect([iso(rolled?.start), iso(rolled?.end)]).toEqual(["2026-12-30", "2027-01-02"]);
+  });
+
+  it("does not mistake a clock time for the end day", () => {
+    const r = parseDateText("July 15 - 5:00 PM", "month-day", 2026);
+    expect([iso(r?.start), iso(r?.end)]).toEqual(["2026-07-15", "2026-07-15"]);
+  });
+
+  it("reads iso and m/d/y hints", () => {
+    const i = parseDateText("2026-07-15T10:00:00-04:00 / 2026-07-19", "iso", 2026);
+    expect([iso(i?.start), iso(i?.end)]).toEqual(["2026-07-15", "2026-07-19"]);
+    const m = parseDateText("07/15/26 - 07/19/26", "mdy", 2026);
+    expect([iso(m?.start), iso(m?.end)]).toEqual(["2026-07-15", "2026-07-19"]);
+  });
+
+  it("returns null for text with no date", () => {
+    expect(parseDateText("Dates TBA", "month-day", 2026)).toBeNull();
+    expect(parseDateText(null, "iso", 2026)).toBeNull();
+  });
+});
+
+describe("runScraperDefinition — parity with mainemade", () => {
+  const LIST_URL = "https://www.mainemade.com/events/";
+  const definition = scraperDefinitionSchema.parse({
+    listUrl: LIST_URL,
+    itemSelector: ".all_events__container__item",
+    fields: {
+      name: ".all_events__container__item__content__title",
+      url: "a[href*='/event/']@href",
+      date: ["span[itemprop=startDate]", ".all_events__container__item__content__date"],
+      endDate: "span[itemprop=endDate]",
+      hours: ".all_events__container__item__content__date",
+      imageUrl: ["img@data-lazy-src", "img@src"],
+      ticketUrl: "a[href*='/event/']@href",
+    },
+    defaults: { state: "ME" },
+  });
+
+  function item(opts: {
+    slug: string;
+    title: string;
+    start: string;
+    end?: string;
+    container?: string;
+    img?: string;
+  }): string {
+    return `
+      <div class="all_events__container__item">
+        <a href="https://www.mainemade.com/event/${opts.slug}/">link</a>
+        <div class="all_events__container__item__content__title">${opts.title}</div>
+        <span itemprop="startDate">${opts.start}</span>
+        ${opts.end ? `<span itemprop="endDate">${opts.end}</span>` : ""}
+        <div class="all_events__container__item__content__date">${opts.container ?? opts.start}</div>
+        ${opts.img ? `<img ${opts.img} />` : ""}
+      </div>`;
+  }
+
+  const html = [
+    item({
+      slug: "winter-craft-fair",
+      title: "Winter Craft Fair",
+      start: "February 7",
+      container: "February 7 @ 2:00 PM - 7:00 PM",
+      img: 'src="data:image/gif;base64,AAA" data-lazy-src="https://cdn.example.com/w.jpg"',
+    }),
+    item({
+      slug: "spring-fest",
+      title: "Spring Fest",
+      start: "March 21",
+      end: "March 23",
+      container: "March 21 - March 23 — 10:00 AM - 5:00 PM daily",
+    }),
+    item({ slug: "garden-tour", title: "Garden Tour", start: "April 15", img: 'src="/g.jpg"' }),
+    item({ slug: "garden-tour", title: "Garden Tour (dupe)", start: "April 15" }),
+  ].join("\n");
+
+  it("yields the same ScrapedEvents as the hand-written module", async () => {
+    const result = await runScraperDefinition(
+      "mainemade.com",
+      definition,
+      fixtures({ [LIST_URL]: html })
+    );
+    expect(result.success).toBe(true);
+    const expected = parseEventsFromHtml(html).map((e) =>
+      // The module leaves site-relative image paths as-is; the definition
+      // resolves them against the page, which is what the importer wants.
+      e.imageUrl === "/g.jpg" ? { ...e, imageUrl: "https://www.mainemade.com/g.jpg" } : e
+    );
+    expect(result.events).toEqual(expected);
+    expect(result.pages).toEqual([LIST_URL]);
+  });
+
+  it("serves the same events through the ScraperEntry interface", async () => {
+    const scraper = createDeclarativeScraper(
+      "mainemade.com",
+      definition,
+      fixtures({ [LIST_URL]: html })
+    );
+    const result = await scraper.scrape();
+    expect(result.success).toBe(true);
+    expect(result.events.map((e) => e.sourceId)).toEqual([
+      "winter-craft-fair",
+      "spring-fest",
+      "garden-tour",
+    ]);
+    // No `detail` block: details are a no-op rather than a refetch.
+    expect(await scraper.scrapeDetails("https://www.mainemade.com/event/spring-fest/")).toEqual({});
+  });
+});
+
+describe("runScraperDefinition — pagination and JSON", () => {
+  const page = (names: string[], next?: string) =>
+    `<div>${names.map((n) => `<div class="ev"><h3>${n}</h3><time>June 1</time></div>`).join("")}${
+      next ? `<a class="next" href="${next}">Next</a>` : ""
+    }</div>`;
+
+  it("follows next links until there are none", async () => {
+    const definition = scraperDefinitionSchema.parse({
+      listUrl: "https://fairs.example.org/list",
+      pagination: { type: "next-link", selector: "a.next" },
+      itemSelector: ".ev",
+      fields: { name: "h3", date: "time" },
+    });
+    const result = await runScraperDefinition(
+      "fairs.example.org",
+      definition,
+      fixtures({
+        "https://fairs.example.org/list": page(["Alpha Fair"], "/list?p=2"),
+        "https://fairs.example.org/list?p=2": page(["Beta Fair"]),
+      }),
+      NOW
+    );
+    expect(result.events.map((e) => e.name)).toEqual(["Alpha Fair", "Beta Fair"]);
+    expect(result.events[0].sourceId).toBe("alpha-fair");
+    expect(result.events[0].sourceUrl).toBe("https://fairs.example.org/list");
+    expect(result.events[0].startDate?.toISOString()).toBe("2026-06-01T00:00:00.000Z");
+    expect(result.pages).toHaveLength(2);
+  });
+
+  it("stops page-param pagination at the first missing page, with a warning", async () => {
+    const definition = scraperDefinitionSchema.parse({
+      listUrl: "https://fairs.example.org/list",
+      pagination: { type: "page-param", param: "page", maxPages: 5 },
+      itemSelector: ".ev",
+      fields: { name: "h3", date: "time" },
+    });
+    const result = await runScraperDefinition(
+      "fairs.example.org",
+      definition,
+      fixtures({
+        "https://fairs.example.org/list?page=1": page(["Alpha Fair"]),
+        "https://fairs.example.org/list?page=2": page(["Beta Fair"]),
+      }),
+      NOW
+    );
+    expect(result.success).toBe(true);
+    expect(result.events).toHaveLength(2);
+    expect(result.warnings).toEqual([
+      "Stopped paginating: https://fairs.example.org/list?page=3 is not available",
+    ]);
+  });
+
+  it("fails when the first page is unavailable", async () => {
+    const definition = scraperDefinitionSchema.parse({
+      listUrl: "https://fairs.example.org/list",
+      itemSelector: ".ev",
+      fields: { name: "h3" },
+    });
+    const result = await runScraperDefinition("fairs.example.org", definition, fixtures({}));
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("No page at https://fairs.example.org/list");
+  });
+
+  it("reads a JSON feed with path selectors and fills defaults", async () => {
+    const definition = scraperDefinitionSchema.parse({
+      format: "json",
+      listUrl: "https://api.example.org/events.json",
+      itemSelector: "$.data.events[*]",
+      fields: {
+        id: "id",
+        name: "title",
+        date: "start",
+        endDate: "end",
+        venue: "location.name",
+        city: "location.city",
+        url: "link",
+      },
+      dateFormat: "iso",
+      defaults: { state: "VT" },
+    });
+    const body = JSON.stringify({
+      data: {
+        events: [
+          {
+            id: 42,
+            title: "Harvest Fair",
+            start: "2026-09-12",
+            end: "2026-09-13",
+            location: { name: "Town Common", city: "Tunbridge" },
+            link: "https://example.org/harvest",
+          },
+          { id: 43, start: "2026-09-20" },
+        ],
+      },
+    });
+    const result = await runScraperDefinition(
+      "api.example.org",
+      definition,
+      fixtures({ "https://api.example.org/events.json": body }),
+      NOW
+    );
+    expect(result.events).toEqual([
+      {
+        sourceId: "42",
+        sourceName: "api.example.org",
+        sourceUrl: "https://example.org/harvest",
+        name: "Harvest Fair",
+        startDate: new Date("2026-09-12T00:00:00Z"),
+        endDate: new Date("2026-09-13T00:00:00Z"),
+        datesConfirmed: true,
+        city: "Tunbridge",
+        state: "VT",
+        venue: { name: "Town Common", city: "Tunbridge", state: "VT" },
+      },
+    ]);
+    expect(result.warnings).toContain(
+      "https://api.example.org/events.json: 1 item(s) skipped with no name"
+    );
+  });
+});
+
+describe("extractEventDetails", () => {
+  it("applies the detail selectors to an event page", () => {
+    const definition = scraperDefinitionSchema.parse({
+      listUrl: "https://fairs.example.org/list",
+      itemSelector: ".ev",
+      fields: { name: "h3" },
+      detail: {
+        description: ".body",
+        imageUrl: "meta[property='og:image']@content",
+        venue: ".where strong",
+        state: ".where .st",
+      },
+    });
+    const details = extractEventDetails(
+      definition,
+      `<html><head><meta property="og:image" content="/img/fair.jpg"></head>
+       <body><div class="body"><p>Rides, livestock and pie.</p></div>
+       <div class="where"><strong>Fairgrounds</strong>, <span class="st">nh</span></div></body></html>`,
+      "https://fairs.example.org/e/alpha"
+    );
+    expect(details).toEqual({
+      description: "Rides, livestock and pie.",
+      imageUrl: "https://fairs.example.org/img/fair.jpg",
+      state: "NH",
+      venue: { name: "Fairgrounds", state: "NH" },
+    });
+  });
+});
@@ -0,0 +1,96 @@
+// Date parsing for declarative scrapers, steered by the definition's
+// `dateFormat` hint. Output follows the scraper convention in ../types:
+// midnight-UTC Date anchors, no time of day (hours go to eventDays).
+//
+//   month-day   "July 15-19", "Aug 30 - Sept 2, 2026", "Saturday, June 7th"
+//   iso         "2026-07-15", "2026-07-15T10:00:00-04:00 / 2026-07-19"
+//   mdy         "7/15/2026", "07/15/26 - 07/19/26"
+//
+// A text without a year takes `fallbackYear` (the current year, like the
+// hand-written calendar scrapers do). A range whose end falls before its
+// start ("Dec 30 - Jan 2") rolls the end into the next year.
+
+import type { ScraperDateFormat } from "@/lib/validations";
+import { monthNameToMidnightUtc } from "../utils";
+
+export interface ParsedDateRange {
+  start: Date;
+  end: Date;
+}
+
+const MONTHS =
+  "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+const DAY = "(\\d{1,2})(?:st|nd|rd|th)?";
+const YEAR = "(?:,?\\s*(\\d{4}))?";
+// The end day must not be a clock time: "July 15 - 5:00 PM" is one day.
+const NOT_TIME = "(?!\\s*(?::\\d|[ap]\\.?m\\b))";
+const MONTH_DAY_RE = new RegExp(
+  `\\b(${MONTHS})\\.?\\s+${DAY}${YEAR}(?:\\s*(?:-|–|—|to|through|thru)\\s*(?:(${MONTHS})\\.?\\s+)?${DAY}${NOT_TIME}${YEAR})?`,
+  "i"
+);
+
+function utc(year: number, month: number, day: number): Date | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) {
+    return null;
+  }
+  return d;
+}
+
+function orderRange(start: Date, end: Date | null, rollYear: boolean): ParsedDateRange {
+  if (!end) return { start, end: new Date(start) };
+  if (end.getTime() >= start.getTime()) return { start, end };
+  if (rollYear) {
+    const rolled = utc(end.getUTCFullYear() + 1, end.getUTCMonth() + 1, end.getUTCDate());
+    if (rolled) return { start, end: rolled };
+  }
+  return { start, end: new Date(start) };
+}
+
+function parseMonthDay(text: string, fallbackYear: number): ParsedDateRange | null {
+  const m = text.match(MONTH_DAY_RE);
+  if (!m) return null;
+  const [, startMonth, startDay, startYear, endMonth, endDay, endYear] = m;
+  const year = Number(startYear || endYear || fallbackYear);
+  const start = monthNameToMidnightUtc(startMonth.replace(/\.$/, ""), Number(startDay), year);
+  if (!start) return null;
+  if (!endDay) return { start, end: new Date(start) };
+  // A bare "15-12" (same month, end before start) is not a range.
+  if (!endMonth && Number(endDay) < Number(startDay)) return { start, end: new Date(start) };
+  const end = monthNameToMidnightUtc(
+    endMonth ?? startMonth,
+    Number(endDay),
+    Number(endYear || startYear || fallbackYear)
+  );
+  return orderRange(start, end, !endYear);
+}
+
+function parseAll(
+  text: string,
+  re: RegExp,
+  toDate: (m: RegExpMatchArray) => Date | null
+): ParsedDateRange | null {
+  const dates = [...text.matchAll(re)].map(toDate).filter((d): d is Date => d !== null);
+  if (dates.length === 0) return null;
+  return orderRange(dates[0], dates[1] ?? null, false);
+}
+
+export function parseDateText(
+  text: string | null | undefined,
+  format: ScraperDateFormat,
+  fallbackYear: number
+): ParsedDateRange | null {
+  if (!text) return null;
+  switch (format) {
+    case "month-day":
+      return parseMonthDay(text.replace(/\s+/g, " "), fallbackYear);
+    case "iso":
+      return parseAll(text, /\b(\d{4})-(\d{2})-(\d{2})/g, (m) =>
+        utc(Number(m[1]), Number(m[2]), Number(m[3]))
+      );
+    case "mdy":
+      return parseAll(text, /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g, (m) =>
+        utc(m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]), Number(m[1]), Number(m[2]))
+      );
+  }
+}
@@ -0,0 +1,400 @@
+// Minimal HTML tree + CSS selector matching for declarative scrapers.
+//
+// The hand-written scrapers get by on regex because each one knows its page.
+// A stored definition can't, so it needs real selectors — but the Worker has
+// no DOM, and a parser dependency would be the largest thing in the bundle for
+// one admin feature. This is deliberately small: a forgiving tree builder
+// (void elements, script/style skipped, unclosed <li>/<p>/<td> closed the way
+// a browser would) and the selector subset calendar pages actually need:
+//
+//   tag  .class  #id  [attr]  [attr=v] [attr^=v] [attr$=v] [attr*=v] [attr~=v]
+//   :first-child  :last-child  :nth-child(n)
+//   descendant (space) and child (>) combinators, comma-separated lists
+//
+// Anything outside that subset throws SelectorError at parse time, so a typo
+// in a definition shows up in the dry-run preview rather than as "no events".
+
+import { decodeHtmlEntities } from "../utils";
+
+export interface HtmlElement {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+interface HtmlText {
+  type: "text";
+  value: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+export class SelectorError extends Error {
+  constructor(selector: string, reason: string) {
+    super(`Invalid selector "${selector}": ${reason}`);
+    this.name = "SelectorError";
+  }
+}
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Content skipped entirely — never event text.
+const SKIPPED_TAGS = new Set(["script", "style", "noscript", "template"]);
+
+// Opening the key tag implicitly closes an open element of these tags.
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  li: ["li"],
+  p: ["p"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  tr: ["td", "th", "tr"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  option: ["option"],
+};
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "br",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "section",
+  "table",
+  "td",
+  "th",
+  "tr",
+  "ul",
+]);
+
+const TOKEN_RE =
+  /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTR_RE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function parseAttrs(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of raw.matchAll(ATTR_RE)) {
+    const name = m[1].toLowerCase();
+    if (name in attrs) continue; // first wins, as in browsers
+    attrs[name] = decodeHtmlEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+}
+
+/** Build a tree from an HTML string. Never throws; malformed markup degrades. */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = {
+    type: "element",
+    tag: "#root",
+    attrs: {},
+    children: [],
+    parent: null,
+  };
+  const stack: HtmlElement[] = [root];
+  const top = () => stack[stack.length - 1];
+  let last = 0;
+
+  const pushText = (raw: string) => {
+    if (raw) top().children.push({ type: "text", value: raw });
+  };
+
+  TOKEN_RE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = TOKEN_RE.exec(html)) !== null) {
+    pushText(html.slice(last, m.index));
+    last = TOKEN_RE.lastIndex;
+
+    if (m[1]) {
+      const tag = m[1].toLowerCase();
+      // Pop to the nearest matching open element; a stray close tag is ignored.
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === tag) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+    if (!m[2]) continue; // comment, doctype, processing instruction
+
+    const tag = m[2].toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) {
+      const close = html.toLowerCase().indexOf(`</${tag}`, last);
+      last = close === -1 ? html.length : close;
+      TOKEN_RE.lastIndex = last;
+      continue;
+    }
+
+    const closes = IMPLICIT_CLOSE[tag];
+    while (closes && stack.length > 1 && closes.includes(top().tag)) stack.pop();
+    if (BLOCK_TAGS.has(tag) && tag !== "br" && tag !== "hr" && top().tag === "p") stack.pop();
+
+    const el: HtmlElement = {
+      type: "element",
+      tag,
+      attrs: parseAttrs(m[3] ?? ""),
+      children: [],
+      parent: top(),
+    };
+    top().children.push(el);
+    if (!VOID_TAGS.has(tag) && !m[4]) stack.push(el);
+  }
+  pushText(html.slice(last));
+  return root;
+}
+
+/** Text content, entity-decoded, with block boundaries read as spaces. */
+export function textOf(node: HtmlNode): string {
+  const parts: string[] = [];
+  const walk = (n: HtmlNode) => {
+    if (n.type === "text") {
+      parts.push(n.value);
+      return;
+    }
+    const block = BLOCK_TAGS.has(n.tag);
+    if (block) parts.push(" ");
+    for (const c of n.children) walk(c);
+    if (block) parts.push(" ");
+  };
+  walk(node);
+  return decodeHtmlEntities(parts.join("")).replace(/\s+/g, " ").trim();
+}
+
+// ── Selectors ───────────────────────────────────────────────────────
+
+interface AttrTest {
+  name: string;
+  op: "" | "=" | "^=" | "$=" | "*=" | "~=";
+  value: string;
+}
+
+interface Compound {
+  tag: string | null;
+  id: string | null;
+  classes: string[];
+  attrs: AttrTest[];
+  /** 1-based position among element siblings; -1 = last. */
+  position: number | null;
+}
+
+interface Step {
+  compound: Compound;
+  /** How this step relates to the one before it (to its left). */
+  combinator: " " | ">";
+}
+
+type ComplexSelector = Step[];
+
+const IDENT = /^-?[_a-zA-Z][\w-]*/;
+
+function parseCompound(source: string, text: string): [Compound, string] {
+  const c: Compound = { tag: null, id: null, classes: [], attrs: [], position: null };
+  let rest = text;
+  const tag = rest.match(/^(\*|[a-zA-Z][\w-]*)/);
+  if (tag) {
+    c.tag = tag[1] === "*" ? null : tag[1].toLowerCase();
+    rest = rest.slice(tag[0].length);
+  }
+  let consumed = !!tag;
+  for (;;) {
+    if (rest.startsWith("#") || rest.startsWith(".")) {
+      const ident = rest.slice(1).match(IDENT);
+      if (!ident) throw new SelectorError(source, `expected a name after "${rest[0]}"`);
+      if (rest[0] === "#") c.id = ident[0];
+      else c.classes.push(ident[0]);
+      rest = rest.slice(1 + ident[0].length);
+    } else if (rest.startsWith("[")) {
+      const attr = rest.match(
+        /^\[\s*([\w:-]+)\s*(?:([~^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]/
+      );
+      if (!attr) throw new SelectorError(source, "malformed [attribute] test");
+      c.attrs.push({
+        name: attr[1].toLowerCase(),
+        op: (attr[2] ?? "") as AttrTest["op"],
+        value: attr[3] ?? attr[4] ?? attr[5] ?? "",
+      });
+      rest = rest.slice(attr[0].length);
+    } else if (rest.startsWith(":")) {
+      const pseudo = rest.match(/^:(first-child|last-child|nth-child\(\s*(\d+)\s*\))/);
+      if (!pseudo) throw new SelectorError(source, `unsupported pseudo-class "${rest}"`);
+      c.position =
+        pseudo[1] === "first-child" ? 1 : pseudo[1] === "last-child" ? -1 : Number(pseudo[2]);
+      rest = rest.slice(pseudo[0].length);
+    } else {
+      break;
+    }
+    consumed = true;
+  }
+  if (!consumed) throw new SelectorError(source, `unexpected "${rest.slice(0, 10)}"`);
+  return [c, rest];
+}
+
+function splitOutsideBrackets(text: string, sep: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "[" || ch === "(") depth++;
+    else if (ch === "]" || ch === ")") depth--;
+    else if (ch === sep && depth === 0) {
+      out.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  out.push(text.slice(start));
+  return out;
+}
+
+const parsedCache = new Map<string, ComplexSelector[]>();
+
+export function parseSelector(selector: string): ComplexSelector[] {
+  const cached = parsedCache.get(selector);
+  if (cached) return cached;
+  const list = splitOutsideBrackets(selector, ",").map((part) => {
+    const steps: Step[] = [];
+    let rest = part.trim();
+    if (!rest) throw new SelectorError(selector, "empty selector");
+    let combinator: Step["combinator"] = " ";
+    while (rest) {
+      const [compound, after] = parseCompound(selector, rest);
+      steps.push({ compound, combinator });
+      const comb = after.match(/^\s*(>)\s*|^\s+/);
+      if (!comb) {
+        if (after) throw new SelectorError(selector, `unexpected "${after.slice(0, 10)}"`);
+        break;
+      }
+      combinator = comb[1] ? ">" : " ";
+      rest = after.slice(comb[0].length);
+      if (!rest) throw new SelectorError(selector, "dangling combinator");
+    }
+    return steps;
+  });
+  parsedCache.set(selector, list);
+  return list;
+}
+
+function matchesCompound(el: HtmlElement, c: Compound): boolean {
+  if (c.tag && el.tag !== c.tag) return false;
+  if (c.id && el.attrs.id !== c.id) return false;
+  if (c.classes.length > 0) {
+    const classes = (el.attrs.class ?? "").split(/\s+/);
+    if (!c.classes.every((k) => classes.includes(k))) return false;
+  }
+  for (const a of c.attrs) {
+    const v = el.attrs[a.name];
+    if (v === undefined) return false;
+    if (a.op === "=" && v !== a.value) return false;
+    if (a.op === "^=" && !v.startsWith(a.value)) return false;
+    if (a.op === "$=" && !v.endsWith(a.value)) return false;
+    if (a.op === "*=" && !v.includes(a.value)) return false;
+    if (a.op === "~=" && !v.split(/\s+/).includes(a.value)) return false;
+  }
+  if (c.position !== null) {
+    const siblings = (el.parent?.children ?? []).filter(
+      (n): n is HtmlElement => n.type === "element"
+    );
+    const index = c.position === -1 ? siblings.length - 1 : c.position - 1;
+    if (siblings[index] !== el) return false;
+  }
+  return true;
+}
+
+/**
+ * Right-to-left match of `steps[0..i]` ending at `el`. Ancestors are only
+ * searched up to `scope` (inclusive), so an item-relative selector never
+ * matches through the page structure above the item.
+ */
+function matchesSteps(el: HtmlElement, steps: Step[], i: number, scope: HtmlElement): boolean {
+  if (!matchesCompound(el, steps[i].compound)) return false;
+  if (i === 0) return true;
+  const combinator = steps[i].combinator;
+  let anc = el === scope ? null : el.parent;
+  while (anc) {
+    if (matchesSteps(anc, steps, i - 1, scope)) return true;
+    if (combinator === ">" || anc === scope) return false;
+    anc = anc.parent;
+  }
+  return false;
+}
+
+/** Every descendant of `scope` matching `selector`, in document order. */
+export function selectAll(scope: HtmlElement, selector: string): HtmlElement[] {
+  const list = parseSelector(selector);
+  const out: HtmlElement[] = [];
+  const walk = (el: HtmlElement) => {
+    for (const child of el.children) {
+      if (child.type !== "element") continue;
+      if (list.some((steps) => matchesSteps(child, steps, steps.length - 1, scope))) {
+        out.push(child);
+      }
+      walk(child);
+    }
+  };
+  walk(scope);
+  return out;
+}
+
+/**
+ * Split a field selector into its CSS part and an optional trailing `@attr`.
+ * A bare `@attr` reads the attribute off the scope element itself.
+ */
+export function splitAttrSuffix(selector: string): { css: string; attr: string | null } {
+  const m = selector.match(/^(.*?)\s*@([a-zA-Z_:][\w:.-]*)\s*$/);
+  if (!m) return { css: selector.trim(), attr: null };
+  // An "@" inside [href*='mailto:a@b'] is part of the CSS, not a suffix.
+  const opens = (m[1].match(/\[/g) ?? []).length;
+  const closes = (m[1].match(/\]/g) ?? []).length;
+  if (opens !== closes) return { css: selector.trim(), attr: null };
+  return { css: m[1].trim(), attr: m[2].toLowerCase() };
+}
+
+/** First non-empty value `selector` yields within `scope`, or null. */
+export function selectValue(scope: HtmlElement, selector: string): string | null {
+  const { css, attr } = splitAttrSuffix(selector);
+  const targets = css ? selectAll(scope, css) : [scope];
+  for (const el of targets) {
+    const value = attr ? (el.attrs[attr] ?? "").trim() : textOf(el);
+    if (value) return value;
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+// Dotted paths into JSON for `format: "json"` definitions — enough for the
+// calendar APIs worth scraping (The Events Calendar's REST feed, simple
+// `{ "events": [...] }` endpoints) without a JSONPath dependency:
+//
+//   events            $.events[*]         data.items[0].venue.name
+//
+// `[*]` fans out over an array; a path that lands on an array also fans out,
+// so `events` and `events[*]` select the same items.
+
+import { SelectorError } from "./html-select";
+
+type Segment = { key: string } | { index: number } | { wildcard: true };
+
+function parsePath(path: string): Segment[] {
+  const text = path.trim().replace(/^\$\.?/, "");
+  const segments: Segment[] = [];
+  const re = /([^.[\]]+)|\[(\d+|\*)\]|(\.)/g;
+  let pos = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    if (m.index !== pos) throw new SelectorError(path, `unexpected "${text.slice(pos, m.index)}"`);
+    pos = re.lastIndex;
+    if (m[1] !== undefined) segments.push({ key: m[1] });
+    else if (m[2] === "*") segments.push({ wildcard: true });
+    else if (m[2] !== undefined) segments.push({ index: Number(m[2]) });
+  }
+  if (pos !== text.length) throw new SelectorError(path, `unexpected "${text.slice(pos)}"`);
+  return segments;
+}
+
+/** Every value `path` reaches from `root`. Missing keys yield nothing. */
+export function evaluatePath(root: unknown, path: string): unknown[] {
+  let current: unknown[] = [root];
+  for (const seg of parsePath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if ("wildcard" in seg) {
+        if (Array.isArray(value)) next.push(...value);
+      } else if ("index" in seg) {
+        if (Array.isArray(value) && seg.index < value.length) next.push(value[seg.index]);
+      } else if (Array.isArray(value)) {
+        for (const v of value) {
+          if (v && typeof v === "object" && seg.key in v) {
+            next.push((v as Record<string, unknown>)[seg.key]);
+          }
+        }
+      } else if (value && typeof value === "object" && seg.key in value) {
+        next.push((value as Record<string, unknown>)[seg.key]);
+      }
+    }
+    current = next;
+  }
+  return current.filter((v) => v !== undefined && v !== null);
+}
+
+/** The items a list path selects: arrays are flattened one level. */
+export function selectJsonItems(root: unknown, path: string): unknown[] {
+  return evaluatePath(root, path).flatMap((v) => (Array.isArray(v) ? v : [v]));
+}
+
+/** First non-empty scalar at `path`, as a string. */
+export function selectJsonValue(item: unknown, path: string): string | null {
+  for (const v of evaluatePath(item, path).flatMap((x) => (Array.isArray(x) ? x : [x]))) {
+    if (typeof v === "string" && v.trim()) return v.trim();
+    if (typeof v === "number" || typeof v === "boolean") return String(v);
+  }
+  return null;
+}
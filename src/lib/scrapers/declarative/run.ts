@@ -0,0 +1,337 @@
+// Runs a stored scraper definition (drizzle/0229) and yields the same
+// ScrapedEvent objects the hand-written modules do.
+//
+// Fetching is injected (`PageFetcher`) so one code path serves both the live
+// scrape and the dry-run preview, which answers from saved fixtures instead of
+// the network. Everything below `fetchPage` is pure.
+
+import type { ScraperDefinition, ScraperFieldSelector } from "@/lib/validations";
+import { fetchWithTimeout } from "@/lib/fetch-timeout";
+import { SCRAPER_USER_AGENT } from "@takemetothefair/constants";
+import type { ScrapedEvent, ScrapedVenue, ScrapeResult, ScraperEntry } from "../types";
+import {
+  createSlugFromName,
+  expandDateRange,
+  parseTimeRange,
+  sanitizeScrapedDescription,
+} from "../utils";
+import {
+  parseHtml,
+  selectAll,
+  selectValue,
+  splitAttrSuffix,
+  type HtmlElement,
+} from "./html-select";
+import { selectJsonItems, selectJsonValue } from "./json-path";
+import { parseDateText } from "./dates";
+
+/** Resolves a page body, or null when the page is not available. */
+export type PageFetcher = (url: string) => Promise<string | null>;
+
+export interface DeclarativeScrapeResult extends ScrapeResult {
+  /** Pages actually read, in order. */
+  pages: string[];
+  /** Non-fatal findings, for the preview ("12 items had no name"). */
+  warnings: string[];
+}
+
+type FieldReader = (field: ScraperFieldSelector | undefined) => string | null;
+
+interface ParsedPage {
+  items: FieldReader[];
+  /** Reads a value relative to the whole page (the next-page link). */
+  page: FieldReader;
+}
+
+function firstValue(
+  field: ScraperFieldSelector | undefined,
+  read: (selector: string) => string | null
+): string | null {
+  if (!field) return null;
+  for (const selector of Array.isArray(field) ? field : [field]) {
+    const value = read(selector);
+    if (value) return value;
+  }
+  return null;
+}
+
+/** Parse a page; `itemSelector` null reads the page only (detail pages). */
+function parsePage(
+  definition: ScraperDefinition,
+  body: string,
+  itemSelector: string | null = definition.itemSelector
+): ParsedPage {
+  if (definition.format === "json") {
+    let root: unknown;
+    try {
+      root = JSON.parse(body);
+    } catch {
+      throw new Error("Page is not valid JSON");
+    }
+    const reader =
+      (scope: unknown): FieldReader =>
+      (field) =>
+        firstValue(field, (path) => selectJsonValue(scope, path));
+    return {
+      items: itemSelector ? selectJsonItems(root, itemSelector).map(reader) : [],
+      page: reader(root),
+    };
+  }
+  const root = parseHtml(body);
+  const reader =
+    (scope: HtmlElement): FieldReader =>
+    (field) =>
+      firstValue(field, (selector) => selectValue(scope, selector));
+  return {
+    items: itemSelector ? selectAll(root, itemSelector).map(reader) : [],
+    page: reader(root),
+  };
+}
+
+function absoluteUrl(value: string | null, base: string): string | undefined {
+  if (!value || value.startsWith("data:")) return undefined;
+  try {
+    const url = new URL(value, base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The modules' sourceId convention: the URL's last path segment. */
+function lastPathSegment(url: string | undefined): string | null {
+  if (!url) return null;
+  const segments = new URL(url).pathname.split("/").filter(Boolean);
+  const last = segments[segments.length - 1];
+  return last ? decodeURIComponent(last).replace(/\.(html?|php|aspx?)$/i, "") : null;
+}
+
+function normalizeState(value: string | null): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  return /^[a-z]{2}$/i.test(trimmed) ? trimmed.toUpperCase() : trimmed;
+}
+
+/** Drop undefined keys so results compare equal to the modules' literals. */
+function compact<T extends object>(obj: T): T {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
+
+function buildEvent(
+  key: string,
+  definition: ScraperDefinition,
+  read: FieldReader,
+  pageUrl: string,
+  fallbackYear: number
+): ScrapedEvent | "no-name" {
+  const { fields, defaults } = definition;
+  const name = read(fields.name);
+  if (!name) return "no-name";
+
+  const url = absoluteUrl(read(fields.url), pageUrl);
+  const sourceId = read(fields.id) ?? lastPathSegment(url) ?? createSlugFromName(name);
+
+  const range = parseDateText(read(fields.date), definition.dateFormat, fallbackYear);
+  const explicitEnd = parseDateText(read(fields.endDate), definition.dateFormat, fallbackYear);
+  const startDate = range?.start;
+  const endDate =
+    explicitEnd && startDate && explicitEnd.start.getTime() >= startDate.getTime()
+      ? explicitEnd.start
+      : range?.end;
+
+  let eventDays: ScrapedEvent["eventDays"];
+  const hours = parseTimeRange(read(fields.hours));
+  if (hours && startDate && endDate) {
+    eventDays = expandDateRange(startDate, endDate).map((date) => ({ date, ...hours }));
+  }
+
+  const city = read(fields.city) ?? defaults.city;
+  const state = normalizeState(read(fields.state)) ?? defaults.state;
+  const venueName = read(fields.venue);
+  const venue: ScrapedVenue | undefined = venueName
+    ? compact({
+        name: venueName,
+        streetAddress: read(fields.address) ?? undefined,
+        city,
+        state,
+      })
+    : undefined;
+  const description = sanitizeScrapedDescription(read(fields.description));
+
+  return compact<ScrapedEvent>({
+    sourceId,
+    sourceName: key,
+    sourceUrl: url ?? pageUrl,
+    name,
+    startDate,
+    endDate,
+    datesConfirmed: !!startDate,
+    description: description || undefined,
+    address: read(fields.address) ?? undefined,
+    city,
+    state,
+    imageUrl: absoluteUrl(read(fields.imageUrl), pageUrl),
+    ticketUrl: absoluteUrl(read(fields.ticketUrl), pageUrl),
+    venue,
+    eventDays,
+  });
+}
+
+function pageParamUrl(listUrl: string, param: string, page: number): string {
+  const url = new URL(listUrl);
+  url.searchParams.set(param, String(page));
+  return url.toString();
+}
+
+function firstPageUrl(definition: ScraperDefinition): string {
+  const p = definition.pagination;
+  return p.type === "page-param"
+    ? pageParamUrl(definition.listUrl, p.param, p.start)
+    : definition.listUrl;
+}
+
+function nextPageUrl(
+  definition: ScraperDefinition,
+  pageIndex: number,
+  parsed: ParsedPage,
+  pageUrl: string
+): string | null {
+  const pagination = definition.pagination;
+  switch (pagination.type) {
+    case "none":
+      return null;
+    case "next-link": {
+      // An HTML link selector reads href unless it names another attribute.
+      const selector =
+        definition.format === "html" && !splitAttrSuffix(pagination.selector).attr
+          ? `${pagination.selector}@href`
+          : pagination.selector;
+      return absoluteUrl(parsed.page(selector), pageUrl) ?? null;
+    }
+    case "page-param":
+      return pageParamUrl(definition.listUrl, pagination.param, pagination.start + pageIndex + 1);
+  }
+}
+
+/**
+ * Run a definition across its pages. Events are de-duplicated on sourceId,
+ * as every module does; pagination stops at `maxPages`, at a page the
+ * fetcher can't supply, at a repeated URL, or at a page that adds nothing new.
+ */
+export async function runScraperDefinition(
+  key: string,
+  definition: ScraperDefinition,
+  fetchPage: PageFetcher,
+  now: Date = new Date()
+): Promise<DeclarativeScrapeResult> {
+  const events: ScrapedEvent[] = [];
+  const pages: string[] = [];
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+  const maxPages = definition.pagination.type === "none" ? 1 : definition.pagination.maxPages;
+  const fallbackYear = now.getUTCFullYear();
+
+  try {
+    let url: string | null = firstPageUrl(definition);
+    while (url && pages.length < maxPages && !pages.includes(url)) {
+      const body = await fetchPage(url);
+      if (body === null) {
+        if (pages.length === 0) {
+          return { success: false, events: [], pages, warnings, error: `No page at ${url}` };
+        }
+        warnings.push(`Stopped paginating: ${url} is not available`);
+        break;
+      }
+      pages.push(url);
+
+      const parsed = parsePage(definition, body);
+      if (parsed.items.length === 0) warnings.push(`${url}: itemSelector matched nothing`);
+      let added = 0;
+      let unnamed = 0;
+      let undated = 0;
+      for (const read of parsed.items) {
+        const event = buildEvent(key, definition, read, url, fallbackYear);
+        if (event === "no-name") {
+          unnamed += 1;
+          continue;
+        }
+        if (seen.has(event.sourceId)) continue;
+        seen.add(event.sourceId);
+        if (!event.startDate) undated += 1;
+        events.push(event);
+        added += 1;
+      }
+      if (unnamed > 0) warnings.push(`${url}: ${unnamed} item(s) skipped with no name`);
+      if (undated > 0) warnings.push(`${url}: ${undated} event(s) without a parseable date`);
+      if (added === 0 && pages.length > 1) break;
+
+      url = nextPageUrl(definition, pages.length - 1, parsed, url);
+    }
+    return { success: true, events, pages, warnings };
+  } catch (error) {
+    return {
+      success: false,
+      events,
+      pages,
+      warnings,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/** Apply a definition's `detail` selectors to one event page's body. */
+export function extractEventDetails(
+  definition: ScraperDefinition,
+  body: string,
+  pageUrl: string
+): Partial<ScrapedEvent> {
+  const detail = definition.detail;
+  if (!detail) return {};
+  const { page: read } = parsePage(definition, body, null);
+  const description = sanitizeScrapedDescription(read(detail.description));
+  const city = read(detail.city) ?? undefined;
+  const state = normalizeState(read(detail.state));
+  const venueName = read(detail.venue);
+  return compact<Partial<ScrapedEvent>>({
+    description: description || undefined,
+    imageUrl: absoluteUrl(read(detail.imageUrl), pageUrl),
+    address: read(detail.address) ?? undefined,
+    city,
+    state,
+    venue: venueName
+      ? compact({ name: venueName, streetAddress: read(detail.address) ?? undefined, city, state })
+      : undefined,
+  });
+}
+
+/** Live fetcher: same timeout and user agent as the hand-written scrapers. */
+export const fetchLivePage: PageFetcher = async (url) => {
+  const response = await fetchWithTimeout(url, {
+    headers: { "User-Agent": SCRAPER_USER_AGENT },
+    timeoutMs: 15000,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch page: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+};
+
+/** Wrap a definition in the interface the registry hands out. */
+export function createDeclarativeScraper(
+  key: string,
+  definition: ScraperDefinition,
+  fetchPage: PageFetcher = fetchLivePage
+): ScraperEntry {
+  return {
+    scrape: async () => {
+      const { success, events, error } = await runScraperDefinition(key, definition, fetchPage);
+      return error ? { success, events, error } : { success, events };
+    },
+    scrapeDetails: async (url) => {
+      // Events without their own page point at the list page: nothing to add.
+      if (!definition.detail || url === definition.listUrl) return {};
+      const body = await fetchPage(url);
+      return body === null ? {} : extractEventDetails(definition, body, url);
+    },
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Persistence for admin-defined scraper sources and their preview fixtures
+ * (`scraper_definitions`, `scraper_fixtures`, drizzle/0229). Server-only; the
+ * runner in ./run is pure.
+ */
+import { and, asc, eq, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { scraperDefinitions, scraperFixtures } from "@/lib/db/schema";
+import { scraperDefinitionSchema, type ScraperDefinition } from "@/lib/validations";
+import type { PageFetcher } from "./run";
+
+/** Fixture bodies are capped well under D1's 1 MB row limit. */
+export const MAX_FIXTURE_BYTES = 512 * 1024;
+
+export interface ScraperSource {
+  key: string;
+  label: string;
+  enabled: boolean;
+  /** Null when the stored JSON no longer validates (schema moved on). */
+  definition: ScraperDefinition | null;
+  updatedAt: Date | null;
+}
+
+function parseDefinition(raw: string): ScraperDefinition | null {
+  try {
+    const parsed = scraperDefinitionSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function listScraperSources(db: Database): Promise<ScraperSource[]> {
+  const rows = await db.select().from(scraperDefinitions).orderBy(asc(scraperDefinitions.label));
+  return rows.map((r) => ({
+    key: r.key,
+    label: r.label,
+    enabled: r.enabled,
+    definition: parseDefinition(r.definition),
+    updatedAt: r.updatedAt,
+  }));
+}
+
+export async function getScraperSource(db: Database, key: string): Promise<ScraperSource | null> {
+  const [row] = await db
+    .select()
+    .from(scraperDefinitions)
+    .where(eq(scraperDefinitions.key, key))
+    .limit(1);
+  if (!row) return null;
+  return {
+    key: row.key,
+    label: row.label,
+    enabled: row.enabled,
+    definition: parseDefinition(row.definition),
+    updatedAt: row.updatedAt,
+  };
+}
+
+/** Upsert. The caller has already refused keys that shadow a code module. */
+export async function saveScraperSource(
+  db: Database,
+  args: {
+    key: string;
+    label: string;
+    enabled: boolean;
+    definition: ScraperDefinition;
+    userId: string;
+  }
+): Promise<void> {
+  const now = new Date();
+  const values = {
+    label: args.label,
+    enabled: args.enabled,
+    definition: JSON.stringify(args.definition),
+    updatedAt: now,
+    updatedByUserId: args.userId,
+  };
+  await db
+    .insert(scraperDefinitions)
+    .values({ key: args.key, createdAt: now, ...values })
+    .onConflictDoUpdate({ target: scraperDefinitions.key, set: values });
+}
+
+export async function deleteScraperSource(db: Database, key: string): Promise<boolean> {
+  const deleted = await db
+    .delete(scraperDefinitions)
+    .where(eq(scraperDefinitions.key, key))
+    .returning({ key: scraperDefinitions.key });
+  return deleted.length > 0;
+}
+
+export interface FixtureSummary {
+  id: string;
+  url: string;
+  bytes: number;
+  capturedAt: Date;
+}
+
+/** Fixture list without bodies — a page of HTML per row is not a listing. */
+export async function listFixtures(db: Database, key: string): Promise<FixtureSummary[]> {
+  return db
+    .select({
+      id: scraperFixtures.id,
+      url: scraperFixtures.url,
+      bytes: sql<number>`length(${scraperFixtures.body})`,
+      capturedAt: scraperFixtures.capturedAt,
+    })
+    .from(scraperFixtures)
+    .where(eq(scraperFixtures.definitionKey, key))
+    .orderBy(asc(scraperFixtures.capturedAt));
+}
+
+export async function saveFixture(
+  db: Database,
+  args: { key: string; url: string; body: string }
+): Promise<void> {
+  const capturedAt = new Date();
+  await db
+    .insert(scraperFixtures)
+    .values({ definitionKey: args.key, url: args.url, body: args.body, capturedAt })
+    .onConflictDoUpdate({
+      target: [scraperFixtures.definitionKey, scraperFixtures.url],
+      set: { body: args.body, capturedAt },
+    });
+}
+
+export async function deleteFixture(db: Database, key: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(scraperFixtures)
+    .where(and(eq(scraperFixtures.definitionKey, key), eq(scraperFixtures.id, id)))
+    .returning({ id: scraperFixtures.id });
+  return deleted.length > 0;
+}
+
+/**
+ * A fetcher that answers from the source's saved fixtures only — the dry-run
+ * preview must never touch the live site. Unknown URLs read as unavailable.
+ */
+export async function fixtureFetcher(db: Database, key: string): Promise<PageFetcher> {
+  const rows = await db
+    .select({ url: scraperFixtures.url, body: scraperFixtures.body })
+    .from(scraperFixtures)
+    .where(eq(scraperFixtures.definitionKey, key));
+  const byUrl = new Map(rows.map((r) => [r.url, r.body]));
+  return async (url) => byUrl.get(url) ?? null;
+}
@@ -1,6 +1,9 @@
 // Scraper registry — single lookup point for all scraper sources
 
 import type { ScraperEntry, ScrapedEvent } from "./types";
+import type { Database } from "@/lib/db";
+import { createDeclarativeScraper } from "./declarative/run";
+import { getScraperSource } from "./declarative/store";
 import { scrapeMaineFairs, scrapeEventDetails as scrapeMaineFairsDetails } from "./mainefairs";
 import { scrapeVtFairs, scrapeNhFairs, scrapeVtNhEventDetails } from "./vtnhfairs";
 import { scrapeMafaFairs, scrapeMafaEventDetails } from "./mafa";
@@ -101,3 +104,28 @@ export function getDetailsScraper(sourceName: string | null | undefined): ((url:
   const entry = getScraper(sourceName);
   return entry?.scrapeDetails;
 }
+
+/**
+ * Like getScraper, but also finds admin-defined sources (scraper_definitions,
+ * drizzle/0229). Code modules win on a clash; a disabled or no-longer-valid
+ * definition resolves to nothing, same as an unknown source.
+ */
+export async function resolveScraper(
+  db: Database,
+  source: string
+): Promise<ScraperEntry | undefined> {
+  const builtIn = getScraper(source);
+  if (builtIn) return builtIn;
+  const stored = await getScraperSource(db, source);
+  if (!stored?.enabled || !stored.definition) return undefined;
+  return createDeclarativeScraper(stored.key, stored.definition);
+}
+
+/** getDetailsScraper for call sites that can reach D1. */
+export async function resolveDetailsScraper(
+  db: Database,
+  sourceName: string | null | undefined
+): Promise<((url: string) => Promise<Partial<ScrapedEvent>>) | undefined> {
+  if (!sourceName) return undefined;
+  return (await resolveScraper(db, sourceName))?.scrapeDetails;
+}
@@ -0,0 +1,349 @@
+/**
+ * The FTS search index (drizzle/0230): execs the real migration over minimal
+ * source tables, then checks the four things the feature rests on —
+ *   - the triggers keep search_documents + search_index in step with every
+ *     insert, update and delete, including a venue rename reaching its events;
+ *   - rebuildSearchIndex derives byte-identical documents (the trigger and
+ *     rebuild expressions are maintained twice, by hand);
+ *   - ranking, stemming, prefix, synonym and category matching, highlighting;
+ *   - the backup scripts can detach the index and put back the same one.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { eq, type SQL } from "drizzle-orm";
+import * as schema from "@/lib/db/schema";
+import { events } from "@/lib/db/schema";
+import { isPublicEventStatus } from "@/lib/event-status";
+import {
+  buildSearchMatch,
+  searchIndex,
+  searchSection,
+  splitHighlight,
+  toMatchExpression,
+} from "../fts";
+import { expandEventSearchQuery } from "../query-expansion";
+import { getSearchIndexCounts, rebuildSearchIndex } from "../index-sync";
+
+const MIGRATION = resolve(process.cwd(), "drizzle/0230_search_index.sql");
+
+const SOURCE_TABLES = `
+  CREATE TABLE venues (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, address TEXT NOT NULL, city TEXT NOT NULL,
+    state TEXT NOT NULL, description TEXT, status TEXT NOT NULL DEFAULT 'ACTIVE'
+  );
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, description TEXT, venue_id TEXT, state_code TEXT,
+    categories TEXT DEFAULT '[]', tags TEXT DEFAULT '[]', featured INTEGER DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'APPROVED', lifecycle_status TEXT NOT NULL DEFAULT 'SCHEDULED',
+    start_date INTEGER, end_date INTEGER, view_count INTEGER DEFAULT 0
+  );
+  CREATE TABLE vendors (
+    id TEXT PRIMARY KEY, business_name TEXT NOT NULL, display_name TEXT, description TEXT,
+    vendor_type TEXT, products TEXT DEFAULT '[]', city TEXT, state TEXT,
+    featured_priority INTEGER NOT NULL DEFAULT 0, deleted_at INTEGER
+  );
+  CREATE TABLE blog_posts (
+    id TEXT PRIMARY KEY, title TEXT NOT NULL, body TEXT NOT NULL, excerpt TEXT,
+    tags TEXT DEFAULT '[]', categories TEXT DEFAULT '[]', featured INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'PUBLISHED'
+  );
+`;
+
+type Db = Parameters<typeof searchIndex>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+const day = (n: number) => Math.floor(NOW.getTime() / 1000) + n * 86400;
+
+function addEvent(id: string, name: string, extra: Record<string, unknown> = {}) {
+  const row = {
+    id,
+    name,
+    description: null,
+    venue_id: null,
+    state_code: null,
+    categories: "[]",
+    featured: 0,
+    status: "APPROVED",
+    start_date: day(10),
+    end_date: day(11),
+    ...extra,
+  };
+  raw
+    .prepare(
+      `INSERT INTO events (id, name, description, venue_id, state_code, categories, featured, status, start_date, end_date)
+       VALUES (@id, @name, @description, @venue_id, @state_code, @categories, @featured, @status, @start_date, @end_date)`
+    )
+    .run(row);
+}
+
+function documents() {
+  return raw
+    .prepare(
+      `SELECT entity_type, entity_id, title, body, place, tags FROM search_documents ORDER BY entity_type, entity_id`
+    )
+    .all();
+}
+
+async function eventNames(q: string, where: SQL | undefined = isPublicEventStatus()) {
+  const m = buildSearchMatch(q, { categories: true });
+  if (!m) return [];
+  const hits = await searchIndex(db, {
+    entity: "event",
+    match: m.match,
+    where,
+    limit: 10,
+    now: NOW,
+  });
+  return hits.map((h) => h.title.map((s) => s.text).join(""));
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(SOURCE_TABLES);
+  raw.exec(readFileSync(MIGRATION, "utf8"));
+  db = drizzle(raw, { schema }) as unknown as Db;
+
+  raw
+    .prepare(
+      `INSERT INTO venues (id, name, address, city, state) VALUES ('v1', 'Fryeburg Fairgrounds', '1154 Main St', 'Fryeburg', 'ME')`
+    )
+    .run();
+  addEvent("e1", "Fryeburg Fair", { venue_id: "v1", description: "Maine's blue ribbon classic" });
+  addEvent("e2", "Blueberry Festival", {
+    state_code: "CT",
+    start_date: day(60),
+    end_date: day(61),
+  });
+  addEvent("e3", "Holiday Craft Market", { categories: '["Craft Fair"]' });
+  raw
+    .prepare(
+      `INSERT INTO vendors (id, business_name, display_name, vendor_type) VALUES ('d1', 'LeafFilter North LLC', 'LeafFilter', 'Gutters')`
+    )
+    .run();
+  raw
+    .prepare(
+      `INSERT INTO blog_posts (id, title, body, excerpt) VALUES ('b1', 'Packing for the fair', 'Bring sunscreen and cash.', NULL)`
+    )
+    .run();
+});
+
+describe("search index triggers", () => {
+  it("indexes rows as they are inserted", () => {
+    expect(documents()).toEqual([
+      {
+        entity_type: "blog",
+        entity_id: "b1",
+        title: "Packing for the fair",
+        body: "Bring sunscreen and cash.",
+        place: "",
+        tags: "[] []",
+      },
+      {
+        entity_type: "event",
+        entity_id: "e1",
+        title: "Fryeburg Fair",
+        body: "Maine's blue ribbon classic",
+        place: "Fryeburg Fairgrounds Fryeburg ME",
+        tags: "[] []",
+      },
+      expect.objectContaining({ entity_id: "e2", place: "CT" }),
+      expect.objectContaining({ entity_id: "e3", tags: '["Craft Fair"] []' }),
+      {
+        entity_type: "vendor",
+        entity_id: "d1",
+        title: "LeafFilter",
+        body: "",
+        place: "",
+        tags: "LeafFilter North LLC Gutters []",
+      },
+      expect.objectContaining({ entity_type: "venue", place: "1154 Main St Fryeburg ME" }),
+    ]);
+  });
+
+  it("follows updates and deletes", async () => {
+    raw.prepare(`UPDATE events SET name = 'Fryeburg Agricultural Fair' WHERE id = 'e1'`).run();
+    raw.prepare(`DELETE FROM events WHERE id = 'e2'`).run();
+    expect(await eventNames("agricultural")).toEqual(["Fryeburg Agricultural Fair"]);
+    expect(await eventNames("blueberry")).toEqual([]);
+    // No stale FTS entry survives the update.
+    const old = raw
+      .prepare(`SELECT COUNT(*) AS n FROM search_index WHERE search_index MATCH 'fryeburg'`)
+      .get() as { n: number };
+    expect(old.n).toBe(2); // the event + its venue, once each
+  });
+
+  it("carries a venue rename to the venue's events", () => {
+    raw.prepare(`UPDATE venues SET name = 'Fryeburg Fair Grounds' WHERE id = 'v1'`).run();
+    const row = raw
+      .prepare(
+        `SELECT place FROM search_documents WHERE entity_type = 'event' AND entity_id = 'e1'`
+      )
+      .get() as { place: string };
+    expect(row.place).toBe("Fryeburg Fair Grounds Fryeburg ME");
+  });
+});
+
+describe("rebuildSearchIndex", () => {
+  it("derives exactly the documents the triggers wrote", async () => {
+    const fromTriggers = documents();
+    raw.exec(`DELETE FROM search_documents`);
+    const counts = await rebuildSearchIndex(db);
+    expect(documents()).toEqual(fromTriggers);
+    expect(counts.event).toEqual({ indexed: 3, source: 3 });
+    expect(await eventNames("blueberry")).toEqual(["Blueberry Festival"]);
+  });
+
+  it("drops documents whose source row is gone and repairs the FTS table", async () => {
+    raw.exec(`DROP TRIGGER search_index_events_ad; DELETE FROM events WHERE id = 'e2';`);
+    expect((await getSearchIndexCounts(db)).event).toEqual({ indexed: 3, source: 2 });
+    await rebuildSearchIndex(db, ["event"]);
+    expect((await getSearchIndexCounts(db)).event).toEqual({ indexed: 2, source: 2 });
+    expect(await eventNames("blueberry")).toEqual([]);
+  });
+});
+
+describe("backup detach / attach (scripts/search-index-*.sql)", () => {
+  const script = (name: string) => readFileSync(resolve(process.cwd(), "scripts", name), "utf8");
+  const ftsObjects = () =>
+    raw
+      .prepare(
+        `SELECT name, sql FROM sqlite_master
+         WHERE name = 'search_index' OR (type = 'trigger' AND tbl_name = 'search_documents')
+         ORDER BY name`
+      )
+      .all();
+
+  it("recreates exactly what the migration created", () => {
+    const fromMigration = ftsObjects();
+    expect(fromMigration).toHaveLength(4);
+    raw.exec(script("search-index-detach.sql"));
+    expect(ftsObjects()).toEqual([]);
+    raw.exec(script("search-index-attach.sql"));
+    expect(ftsObjects()).toEqual(fromMigration);
+  });
+
+  it("catches up on writes made while detached", async () => {
+    raw.exec(script("search-index-detach.sql"));
+    addEvent("e4", "Pumpkin Regatta");
+    raw.exec(`UPDATE events SET name = 'Blueberry Jubilee' WHERE id = 'e2'`);
+    raw.exec(script("search-index-attach.sql"));
+    expect(await eventNames("pumpkin")).toEqual(["Pumpkin Regatta"]);
+    expect(await eventNames("blueberry")).toEqual(["Blueberry Jubilee"]);
+  });
+});
+
+describe("searchIndex", () => {
+  it("stems and prefix-matches the last term", async () => {
+    expect(await eventNames("fairs")).toContain("Fryeburg Fair");
+    expect(await eventNames("bluebe")).toEqual(["Blueberry Festival"]);
+  });
+
+  it("expands event-type synonyms and category phrases", async () => {
+    // "festival" ⇄ "fair" ⇄ "market"; "crafts" maps to the Craft Fair category.
+    expect(await eventNames("holiday festival")).toEqual(["Holiday Craft Market"]);
+    expect(await eventNames("arts and crafts")).toEqual(["Holiday Craft Market"]);
+  });
+
+  it("boosts featured and sooner events over an equal text match", async () => {
+    addEvent("e4", "Town Fair", { start_date: day(200), end_date: day(201) });
+    addEvent("e5", "County Fair", { featured: 1, start_date: day(200), end_date: day(201) });
+    addEvent("e6", "Village Fair", { start_date: day(2), end_date: day(3) });
+    const names = await eventNames("village county town fair");
+    expect(names).toEqual([]); // every term must match: AND, not OR
+    const ranked = await eventNames("fair");
+    expect(ranked.indexOf("County Fair")).toBeLessThan(ranked.indexOf("Town Fair"));
+    expect(ranked.indexOf("Village Fair")).toBeLessThan(ranked.indexOf("Town Fair"));
+  });
+
+  it("applies the caller's visibility filter through the join", async () => {
+    raw.prepare(`UPDATE events SET status = 'PENDING' WHERE id = 'e1'`).run();
+    expect(await eventNames("fryeburg")).toEqual([]);
+    expect(await eventNames("fryeburg", eq(events.status, "PENDING"))).toEqual(["Fryeburg Fair"]);
+  });
+
+  it("highlights matches in the title and the body snippet", async () => {
+    const m = buildSearchMatch("ribbon")!;
+    const [hit] = await searchIndex(db, { entity: "event", match: m.match, limit: 5, now: NOW });
+    expect(hit.id).toBe("e1");
+    expect(hit.title).toEqual([{ text: "Fryeburg Fair", match: false }]);
+    expect(hit.snippet).toEqual([
+      { text: "Maine's blue ", match: false },
+      { text: "ribbon", match: true },
+      { text: " classic", match: false },
+    ]);
+  });
+
+  it("finds a vendor by its legal name while titling it by display name", async () => {
+    const m = buildSearchMatch("leaffilter north")!;
+    const hits = await searchIndex(db, { entity: "vendor", match: m.match, limit: 5, now: NOW });
+    expect(hits.map((h) => h.id)).toEqual(["d1"]);
+    expect(hits[0].title).toEqual([{ text: "LeafFilter", match: true }]);
+  });
+});
+
+describe("searchSection", () => {
+  it("returns the fetched rows in rank order with highlights attached", async () => {
+    addEvent("e4", "County Fair", { featured: 1 });
+    addEvent("e5", "County Show");
+    addEvent("e6", "County Parade");
+    const m = buildSearchMatch("county")!;
+    const rows = await searchSection(
+      db,
+      { entity: "event", match: m.match, limit: 5, now: NOW },
+      // Fetch in the "wrong" order, and drop one, as a by-id query may.
+      async (ids) =>
+        [...ids]
+          .reverse()
+          .filter((id) => id !== "e6")
+          .map((id) => ({ id }))
+    );
+    expect(rows.map((r) => r.id)).toEqual(["e4", "e5"]);
+    expect(rows[0].highlight).toEqual([
+      { text: "County", match: true },
+      { text: " Fair", match: false },
+    ]);
+  });
+
+  it("is empty without a query, and never fetches", async () => {
+    let fetched = false;
+    const rows = await searchSection(db, null, async () => {
+      fetched = true;
+      return [];
+    });
+    expect(rows).toEqual([]);
+    expect(fetched).toBe(false);
+  });
+});
+
+describe("buildSearchMatch", () => {
+  it("quotes user input so FTS operators are inert", () => {
+    expect(toMatchExpression(expandEventSearchQuery('NEAR "title: -xy'))).toBe(
+      '"near" AND "title" AND "xy"*'
+    );
+  });
+
+  it("pulls out a trailing state, or searches a bare state as text", () => {
+    expect(buildSearchMatch("blueberry connecticut")).toEqual({
+      match: '"blueberry"*',
+      stateCode: "CT",
+      coreTerms: ["blueberry"],
+    });
+    expect(buildSearchMatch("maine")?.stateCode).toBeNull();
+    expect(buildSearchMatch("the and")).toBeNull();
+  });
+});
+
+describe("splitHighlight", () => {
+  it("turns markers into segments", () => {
+    expect(splitHighlight("a \uE000b\uE001 c")).toEqual([
+      { text: "a ", match: false },
+      { text: "b", match: true },
+      { text: " c", match: false },
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Full-text search over the `search_index` FTS5 table (drizzle/0230).
+ *
+ * Two halves:
+ *   - buildSearchMatch: raw query → FTS5 MATCH expression. Runs the query
+ *     through expandEventSearchQuery (event-type synonyms, category phrases,
+ *     trailing state) and quotes every term, so user input can never be read
+ *     as FTS syntax (`AND`, `NEAR`, `-`, `"`, `col:` are all inert). The last
+ *     term is a prefix match for type-ahead; the porter tokenizer stems the
+ *     rest, so "fairs" finds "Fair" and "festivals" finds "Festival".
+ *   - searchIndex: one section's ranked hits. Joins each FTS hit back to its
+ *     source table so the caller's visibility filter (public status, not
+ *     ended, not deleted) applies at query time — the index holds every row.
+ *
+ * Ranking is bm25() with per-column weights, scaled by a per-entity boost:
+ * featured rows, and events starting soon, sort ahead of an equally good text
+ * match. bm25() is negative (more negative = better), so a boost > 1 moves a
+ * row up when we ORDER BY score * boost ascending.
+ *
+ * Hits carry highlight segments rather than HTML, so no caller ever has to
+ * render index text with dangerouslySetInnerHTML.
+ */
+import { sql, type SQL } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import type { SearchEntityType } from "@/lib/db/schema";
+import type { StateCode } from "@/lib/states";
+import { expandEventSearchQuery, type ExpandedQuery } from "./query-expansion";
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  /** The source row's id (events.id, venues.id, …). */
+  id: string;
+  /** The document title with matched terms marked. */
+  title: HighlightSegment[];
+  /** A short excerpt of the body around the match; empty when the body didn't match. */
+  snippet: HighlightSegment[];
+}
+
+// Private-use code points as highlight markers: they can't collide with
+// anything a user or an importer typed, and they never reach a client.
+const MARK_OPEN = "\uE000";
+const MARK_CLOSE = "\uE001";
+
+/** bm25() weights, in search_index column order: title, body, place, tags. */
+const COLUMN_WEIGHTS = "10.0, 1.0, 3.0, 4.0";
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+/** Quote one term as an FTS5 phrase; null when it has no word characters. */
+function phrase(term: string, prefix: boolean): string | null {
+  const words = term.toLowerCase().match(WORD_RE);
+  if (!words) return null;
+  // A one-character prefix would expand to most of the vocabulary.
+  const star = prefix && words[words.length - 1].length >= 2 ? "*" : "";
+  return `"${words.join(" ")}"${star}`;
+}
+
+function anyOf(parts: string[]): string {
+  return parts.length === 1 ? parts[0] : `(${parts.join(" OR ")})`;
+}
+
+/**
+ * Compile an expanded query into a MATCH expression: the name-term groups
+ * AND-ed (each group an OR of its synonyms, matched in any column), OR-ed
+ * with the mapped category phrases matched against `tags`. Null when nothing
+ * searchable is left (a query that was only stopwords or a state).
+ */
+export function toMatchExpression(
+  expanded: ExpandedQuery,
+  { categories = false }: { categories?: boolean } = {}
+): string | null {
+  const groups = expanded.nameTermGroups
+    .map((group, i) => {
+      const isLast = i === expanded.nameTermGroups.length - 1;
+      const alternatives = group
+        .map((alt) => phrase(alt, isLast))
+        .filter((p): p is string => p !== null);
+      return alternatives.length > 0 ? anyOf(alternatives) : null;
+    })
+    .filter((g): g is string => g !== null);
+  const terms = groups.length > 0 ? groups.join(" AND ") : null;
+
+  const categoryPhrases = categories
+    ? expanded.categoryNames.map((c) => phrase(c, false)).filter((p): p is string => p !== null)
+    : [];
+  const categoryExpr =
+    categoryPhrases.length > 0 ? `tags : (${categoryPhrases.join(" OR ")})` : null;
+
+  if (terms && categoryExpr) return `(${terms}) OR (${categoryExpr})`;
+  return terms ?? categoryExpr;
+}
+
+export interface SearchMatch {
+  match: string;
+  /** Trailing state pulled out of the query, for the caller to filter on. */
+  stateCode: StateCode | null;
+  /** The query's distinctive terms (for the route's fuzzy fallback). */
+  coreTerms: string[];
+}
+
+/**
+ * Raw query → MATCH expression for one section. When the expansion leaves
+ * nothing to match (the query was only a state, e.g. "maine"), the query is
+ * searched as plain text instead, without a state filter — the old substring
+ * search's behaviour for the same input.
+ */
+export function buildSearchMatch(
+  q: string,
+  opts: { detectState?: boolean; categories?: boolean } = {}
+): SearchMatch | null {
+  const expanded = expandEventSearchQuery(q, { detectState: opts.detectState ?? true });
+  const match = toMatchExpression(expanded, { categories: opts.categories });
+  if (match) return { match, stateCode: expanded.stateCode, coreTerms: expanded.coreTerms };
+  if (!expanded.stateCode) return null;
+  const plain = expandEventSearchQuery(q, { detectState: false });
+  const fallback = toMatchExpression(plain);
+  return fallback ? { match: fallback, stateCode: null, coreTerms: plain.coreTerms } : null;
+}
+
+/** Split marker-delimited highlight()/snippet() output into segments. */
+export function splitHighlight(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let match = false;
+  for (const piece of text.split(/([\uE000\uE001])/)) {
+    if (piece === MARK_OPEN) match = true;
+    else if (piece === MARK_CLOSE) match = false;
+    else if (piece) segments.push({ text: piece, match });
+  }
+  return segments;
+}
+
+const SECONDS_PER_30_DAYS = 30 * 24 * 60 * 60;
+
+/**
+ * The source table each entity joins to (by the table's own name, so Drizzle
+ * column references in the caller's `where` resolve), and its ranking boost.
+ */
+function entitySql(entity: SearchEntityType, now: Date): { join: SQL; boost: SQL } {
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  switch (entity) {
+    case "event":
+      return {
+        join: sql`JOIN events ON events.id = d.entity_id
+          LEFT JOIN venues ON venues.id = events.venue_id`,
+        // featured: ×1.5. Starting now (or already running): up to +0.5,
+        // decaying over ~a month — a match next weekend outranks the same
+        // match in October.
+        boost: sql`(1.0 + 0.5 * COALESCE(events.featured, 0)
+          + 0.5 / (1.0 + MAX(0, COALESCE(events.start_date, ${nowSeconds}) - ${nowSeconds})
+            * 1.0 / ${SECONDS_PER_30_DAYS}))`,
+      };
+    case "venue":
+      return { join: sql`JOIN venues ON venues.id = d.entity_id`, boost: sql`1.0` };
+    case "vendor":
+      return {
+        join: sql`JOIN vendors ON vendors.id = d.entity_id`,
+        boost: sql`(1.0 + 0.5 * (vendors.featured_priority > 0))`,
+      };
+    case "blog":
+      return {
+        join: sql`JOIN blog_posts ON blog_posts.id = d.entity_id`,
+        boost: sql`(1.0 + 0.5 * COALESCE(blog_posts.featured, 0))`,
+      };
+  }
+}
+
+export interface SearchIndexQuery {
+  entity: SearchEntityType;
+  /** From buildSearchMatch. */
+  match: string;
+  /** Visibility filter, written against the joined source table (and `venues` for events). */
+  where?: SQL;
+  limit: number;
+  /** Reference time for the upcoming-date boost. */
+  now?: Date;
+}
+
+/** Ranked hits for one entity type. */
+export async function searchIndex(db: Database, opts: SearchIndexQuery): Promise<SearchHit[]> {
+  const { join, boost } = entitySql(opts.entity, opts.now ?? new Date());
+  const rows = await db.all<{ id: string; title: string; snippet: string }>(sql`
+    SELECT
+      d.entity_id AS id,
+      highlight(search_index, 0, ${MARK_OPEN}, ${MARK_CLOSE}) AS title,
+      snippet(search_index, 1, ${MARK_OPEN}, ${MARK_CLOSE}, '…', 16) AS snippet
+    FROM search_index
+    JOIN search_documents d ON d.id = search_index.rowid
+    ${join}
+    WHERE search_index MATCH ${opts.match}
+      AND d.entity_type = ${opts.entity}
+      ${opts.where ? sql`AND ${opts.where}` : sql``}
+    ORDER BY bm25(search_index, ${sql.raw(COLUMN_WEIGHTS)}) * ${boost}, d.id
+    LIMIT ${opts.limit}
+  `);
+  return rows.map((r) => ({
+    id: r.id,
+    title: splitHighlight(r.title),
+    snippet: r.snippet.includes(MARK_OPEN) ? splitHighlight(r.snippet) : [],
+  }));
+}
+
+/** A SearchHit's highlights, as merged onto a fetched row. */
+export interface Highlighted {
+  highlight: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+/**
+ * Put rows fetched by id back into the hits' rank order, with each hit's
+ * highlights attached. Hits whose row wasn't fetched are dropped.
+ */
+export function withHits<T extends { id: string }>(
+  hits: SearchHit[],
+  rows: T[]
+): (T & Highlighted)[] {
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  return hits.flatMap((h) => {
+    const row = byId.get(h.id);
+    return row ? [{ ...row, highlight: h.title, snippet: h.snippet }] : [];
+  });
+}
+
+/**
+ * One result section, as /api/search and /search render them: ranked hits,
+ * then the caller's display rows for those ids, back in rank order with
+ * highlights attached. A null query (nothing searchable left after expansion,
+ * e.g. "the and") is an empty section.
+ */
+export async function searchSection<T extends { id: string }>(
+  db: Database,
+  query: SearchIndexQuery | null,
+  fetchRows: (ids: string[]) => PromiseLike<T[]>
+): Promise<(T & Highlighted)[]> {
+  if (!query) return [];
+  const hits = await searchIndex(db, query);
+  if (hits.length === 0) return [];
+  return withHits(hits, await fetchRows(hits.map((h) => h.id)));
+}
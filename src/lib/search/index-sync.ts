@@ -0,0 +1,144 @@
+/**
+ * Backfill / rebuild for the full-text search index (drizzle/0230).
+ *
+ * Day to day the index needs nothing from the application: triggers on
+ * events, venues, vendors and blog_posts keep `search_documents` current, and
+ * its own triggers keep the FTS table in step. This is the repair path, behind
+ * POST /api/admin/search-index — for a bulk load that ran before the migration,
+ * a trigger edit that changed what a document contains, or an index suspected
+ * of drift:
+ *
+ *   1. re-derive every document from its source row (upsert, skipping rows
+ *      whose text is unchanged so the FTS table isn't churned for nothing);
+ *   2. drop documents whose source row is gone;
+ *   3. rebuild the FTS table from `search_documents` ('rebuild' command).
+ *
+ * The document expressions must stay identical to the triggers' in the
+ * migration; search-index.test.ts holds the two to each other.
+ */
+import { sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import type { SearchEntityType } from "@/lib/db/schema";
+
+export const SEARCH_ENTITY_TYPES: readonly SearchEntityType[] = [
+  "event",
+  "venue",
+  "vendor",
+  "blog",
+];
+
+interface DocumentSource {
+  /** Source table, for the orphan sweep. */
+  table: string;
+  /** SELECT of (entity_type, entity_id, title, body, place, tags). */
+  select: string;
+}
+
+const DOCUMENT_SOURCES: Record<SearchEntityType, DocumentSource> = {
+  event: {
+    table: "events",
+    select: `
+      SELECT
+        'event',
+        e.id,
+        e.name,
+        COALESCE(e.description, ''),
+        trim(
+          COALESCE((SELECT v.name || ' ' || v.city || ' ' || v.state FROM venues v WHERE v.id = e.venue_id), '')
+          || ' ' || COALESCE(e.state_code, '')
+        ),
+        COALESCE(e.categories, '') || ' ' || COALESCE(e.tags, '')
+      FROM events e`,
+  },
+  venue: {
+    table: "venues",
+    select: `
+      SELECT
+        'venue',
+        v.id,
+        v.name,
+        COALESCE(v.description, ''),
+        v.address || ' ' || v.city || ' ' || v.state,
+        ''
+      FROM venues v`,
+  },
+  vendor: {
+    table: "vendors",
+    select: `
+      SELECT
+        'vendor',
+        v.id,
+        COALESCE(NULLIF(v.display_name, ''), v.business_name),
+        COALESCE(v.description, ''),
+        trim(COALESCE(v.city, '') || ' ' || COALESCE(v.state, '')),
+        trim(
+          CASE WHEN NULLIF(v.display_name, '') IS NULL THEN '' ELSE v.business_name END
+          || ' ' || COALESCE(v.vendor_type, '') || ' ' || COALESCE(v.products, '')
+        )
+      FROM vendors v`,
+  },
+  blog: {
+    table: "blog_posts",
+    select: `
+      SELECT
+        'blog',
+        b.id,
+        b.title,
+        trim(COALESCE(b.excerpt, '') || ' ' || b.body),
+        '',
+        COALESCE(b.tags, '') || ' ' || COALESCE(b.categories, '')
+      FROM blog_posts b`,
+  },
+};
+
+export type SearchIndexCounts = Record<SearchEntityType, { indexed: number; source: number }>;
+
+/**
+ * Per-entity document count next to its source table's row count. A gap
+ * between the two means the index has drifted (or predates the rows).
+ */
+export async function getSearchIndexCounts(db: Database): Promise<SearchIndexCounts> {
+  const counts = {} as SearchIndexCounts;
+  for (const entity of SEARCH_ENTITY_TYPES) {
+    const { table } = DOCUMENT_SOURCES[entity];
+    const [row] = await db.all<{ indexed: number; source: number }>(sql`
+      SELECT
+        (SELECT COUNT(*) FROM search_documents WHERE entity_type = ${entity}) AS indexed,
+        (SELECT COUNT(*) FROM ${sql.raw(table)}) AS source
+    `);
+    counts[entity] = { indexed: row?.indexed ?? 0, source: row?.source ?? 0 };
+  }
+  return counts;
+}
+
+/**
+ * Re-derive documents for `entities` (default: all), then rebuild the FTS
+ * table. The FTS rebuild always covers the whole index — it is one command
+ * and cheap next to a page load of D1 round trips.
+ */
+export async function rebuildSearchIndex(
+  db: Database,
+  entities: readonly SearchEntityType[] = SEARCH_ENTITY_TYPES
+): Promise<SearchIndexCounts> {
+  for (const entity of entities) {
+    const { table, select } = DOCUMENT_SOURCES[entity];
+    // `WHERE true` disambiguates INSERT … SELECT … ON CONFLICT for the parser.
+    await db.run(sql`
+      INSERT INTO search_documents (entity_type, entity_id, title, body, place, tags)
+      ${sql.raw(select)} WHERE true
+      ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+        title = excluded.title, body = excluded.body, place = excluded.place, tags = excluded.tags
+      WHERE search_documents.title IS NOT excluded.title
+        OR search_documents.body IS NOT excluded.body
+        OR search_documents.place IS NOT excluded.place
+        OR search_documents.tags IS NOT excluded.tags
+    `);
+    await db.run(sql`
+      DELETE FROM search_documents
+      WHERE entity_type = ${entity}
+        AND entity_id NOT IN (SELECT id FROM ${sql.raw(table)})
+    `);
+  }
+  await db.run(sql`INSERT INTO search_index (search_index) VALUES ('rebuild')`);
+  return getSearchIndexCounts(db);
+}
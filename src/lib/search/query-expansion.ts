@@ -106,12 +106,21 @@ function matchTrailingState(tokens: string[]): { code: StateCode | null; consume
 
 /**
  * Expand a raw search query into structured match intent. Pure — no DB access.
+ *
+ * `detectState: false` keeps a trailing state name as an ordinary term, for
+ * sections with no state column to filter on (blog posts) — there "maine
+ * fairs" should still match the text "Maine".
  */
-export function expandEventSearchQuery(query: string): ExpandedQuery {
+export function expandEventSearchQuery(
+  query: string,
+  { detectState = true }: { detectState?: boolean } = {}
+): ExpandedQuery {
   const raw = query.trim().toLowerCase();
   let tokens = raw.split(/\s+/).filter(Boolean);
 
-  const { code: stateCode, consumed } = matchTrailingState(tokens);
+  const { code: stateCode, consumed } = detectState
+    ? matchTrailingState(tokens)
+    : { code: null, consumed: 0 };
   if (consumed > 0) tokens = tokens.slice(0, tokens.length - consumed);
 
   const remainingText = tokens.join(" ");
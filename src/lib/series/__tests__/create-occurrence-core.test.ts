@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import {
   inheritSeriesDefaults,
+  occurrenceDatesFromRule,
   occurrenceYearBounds,
   type SeriesRow,
 } from "../create-occurrence-core";
@@ -67,6 +68,60 @@ describe("occurrenceYearBounds", () => {
   });
 });
 
+describe("occurrenceDatesFromRule", () => {
+  const noon = (iso: string) => new Date(`${iso}T12:00:00Z`);
+
+  it("moves a yearly edition to the rule's date and keeps the anchor's span", () => {
+    // Thanksgiving weekend: Thu–Sun 2025 → the 4th Thursday of November 2026.
+    expect(
+      occurrenceDatesFromRule({
+        recurrenceRule: "FREQ=YEARLY;BYMONTH=11;BYDAY=4TH",
+        recurrenceExdates: [],
+        anchor: { startDate: noon("2025-11-27"), endDate: noon("2025-11-30") },
+        year: 2026,
+      })
+    ).toEqual({ startDate: noon("2026-11-26"), endDate: noon("2026-11-29"), days: [] });
+  });
+
+  it("turns a sub-annual rule into one discontinuous occurrence, minus EXDATEs", () => {
+    expect(
+      occurrenceDatesFromRule({
+        recurrenceRule: "FREQ=MONTHLY;BYMONTH=5,6,7,8,9,10;BYDAY=2SA",
+        recurrenceExdates: ["2027-07-10"],
+        anchor: { startDate: noon("2026-05-09"), endDate: noon("2026-10-10") },
+        year: 2027,
+      })
+    ).toEqual({
+      startDate: noon("2027-05-08"),
+      endDate: noon("2027-10-09"),
+      days: ["2027-05-08", "2027-06-12", "2027-08-14", "2027-09-11", "2027-10-09"],
+    });
+  });
+
+  it("stays a skeleton without a rule, an anchor, or a match in the year", () => {
+    const anchor = { startDate: noon("2026-08-15"), endDate: null };
+    expect(
+      occurrenceDatesFromRule({ recurrenceRule: null, recurrenceExdates: [], anchor, year: 2027 })
+    ).toBeNull();
+    expect(
+      occurrenceDatesFromRule({
+        recurrenceRule: "FREQ=YEARLY",
+        recurrenceExdates: [],
+        anchor: null,
+        year: 2027,
+      })
+    ).toBeNull();
+    expect(
+      occurrenceDatesFromRule({
+        recurrenceRule: "FREQ=YEARLY;INTERVAL=2",
+        recurrenceExdates: [],
+        anchor,
+        year: 2027,
+      })
+    ).toBeNull();
+  });
+});
+
 describe("differentEditionYears", () => {
   it("true when both dated and years differ", () => {
     expect(
@@ -17,6 +17,7 @@ const SCHEMA_SQL = `
     venue_id TEXT,
     promoter_id TEXT,
     recurrence_rule TEXT,
+    recurrence_exdates TEXT,
     description TEXT,
     image_url TEXT,
     categories TEXT,
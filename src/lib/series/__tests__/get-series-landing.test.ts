@@ -41,6 +41,12 @@ vi.mock("@/lib/cloudflare", () => ({
   getCloudflareEnv: () => ({}),
 }));
 
+// Series reviews are their own module with their own tests; stub them so the
+// two-select chain above stays the whole story.
+vi.mock("@/lib/reviews/event-reviews", () => ({
+  getSeriesReviews: async () => ({ summary: null, recent: [] }),
+}));
+
 const { getSeriesLanding } = await import("../get-series-landing");
 
 const SERIES = {
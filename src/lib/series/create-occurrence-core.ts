@@ -3,12 +3,15 @@
  *
  * Builds the inheritable `events` insert values for a new occurrence under a
  * series: override-or-inherit per field, with the fixed skeleton posture John
- * locked (TENTATIVE, dates_confirmed=false, flagged_for_review, NO RRULE date
- * compute — dates come from explicit overrides or stay null for an operator to
- * fill in). The MCP tool adds id/slug/timestamps/source fields and does the
- * insert + idempotency query + audit. Pure + unit-tested like the rest of
- * src/lib/series/.
+ * locked (TENTATIVE, dates_confirmed=false, flagged_for_review). Dates come
+ * from explicit overrides; failing those, `occurrenceDatesFromRule` expands the
+ * series RRULE + EXDATEs for the edition year (drizzle/0234), and they stay
+ * null for an operator to fill in when the rule can't pin them. The MCP tool
+ * adds id/slug/timestamps/source fields and does the insert + idempotency
+ * query + audit. Pure + unit-tested like the rest of src/lib/series/.
  */
+import { expandRRule, normalizeEventDate, parseRRule } from "@takemetothefair/utils";
+
 export type PrimaryAudience = "PUBLIC" | "TRADE" | "MEMBERS";
 export type PublicAccess = "OPEN" | "CLOSED";
 
@@ -18,6 +21,8 @@ export interface SeriesRow {
   venueId: string | null;
   promoterId: string | null;
   recurrenceRule: string | null;
+  /** JSON array of YYYY-MM-DD EXDATE days (drizzle/0234). */
+  recurrenceExdates?: string | null;
   description: string | null;
   imageUrl: string | null;
   categories: string | null;
@@ -44,6 +49,7 @@ export interface OccurrenceInsertValues {
   startDate: Date | null;
   endDate: Date | null;
   recurrenceRule: string | null;
+  recurrenceExdates: string | null;
   description: string | null;
   imageUrl: string | null;
   categories: string | null;
@@ -76,6 +82,7 @@ export function inheritSeriesDefaults(
     startDate: pick(overrides.startDate, null), // skeleton: null unless given
     endDate: pick(overrides.endDate, null),
     recurrenceRule: series.recurrenceRule,
+    recurrenceExdates: series.recurrenceExdates ?? null,
     description: pick(overrides.description, series.description),
     imageUrl: pick(overrides.imageUrl, series.imageUrl),
     categories: series.categories,
@@ -101,3 +108,62 @@ export function occurrenceYearBounds(year: number): { gte: Date; lt: Date } {
     lt: new Date(Date.UTC(year + 1, 0, 1)),
   };
 }
+
+export interface RuleOccurrenceDates {
+  startDate: Date;
+  endDate: Date;
+  /** YYYY-MM-DD event_days to insert; empty for a single contiguous run. */
+  days: string[];
+}
+
+/**
+ * The edition dates a series rule pins for `year`, or null when it doesn't.
+ *
+ * The rule is anchored on the latest dated sibling's start (its DTSTART), the
+ * same convention the editors use for an event's own rule, so INTERVAL phases
+ * and DTSTART-defaulted parts line up with the editions already on file. Two
+ * shapes come out of it:
+ *  - a yearly rule matching once in `year` ("4th Thursday of November") starts
+ *    there and keeps the anchor's span, so a Thu–Sun fair stays Thu–Sun;
+ *  - anything matching more often ("2nd Saturday, May–October") becomes one
+ *    discontinuous occurrence with a day per match, mirroring how OPE-28
+ *    attaches sub-annual dates to the year-occurrence.
+ * EXDATEs drop individual days. Dates are anchored at noon UTC.
+ */
+export function occurrenceDatesFromRule(args: {
+  recurrenceRule: string | null;
+  recurrenceExdates: readonly string[];
+  anchor: { startDate: Date; endDate: Date | null } | null;
+  year: number;
+}): RuleOccurrenceDates | null {
+  if (!args.recurrenceRule || !args.anchor) return null;
+  const parsed = parseRRule(args.recurrenceRule);
+  if (!parsed.ok) return null;
+
+  const dtstart = args.anchor.startDate.toISOString().slice(0, 10);
+  const dates = expandRRule(parsed.rule, {
+    dtstart,
+    exdates: args.recurrenceExdates,
+    from: `${args.year}-01-01`,
+    to: `${args.year}-12-31`,
+  });
+  if (dates.length === 0) return null;
+
+  const noon = (key: string) => normalizeEventDate(key)!;
+  if (parsed.rule.freq === "YEARLY" && dates.length === 1) {
+    const anchorEnd = args.anchor.endDate ?? args.anchor.startDate;
+    const spanDays = Math.max(
+      0,
+      Math.round(
+        (Date.parse(anchorEnd.toISOString().slice(0, 10)) - Date.parse(dtstart)) / 86_400_000
+      )
+    );
+    const startDate = noon(dates[0]);
+    return {
+      startDate,
+      endDate: new Date(startDate.getTime() + spanDays * 86_400_000),
+      days: [],
+    };
+  }
+  return { startDate: noon(dates[0]), endDate: noon(dates[dates.length - 1]), days: dates };
+}
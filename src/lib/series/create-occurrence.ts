@@ -10,8 +10,10 @@ import { and, eq } from "drizzle-orm";
 import type { Database } from "@/lib/db";
 import { events, eventSeries, eventDays, adminActions } from "@/lib/db/schema";
 import { createSlug, appendSlugSegment, unsafeSlug } from "@takemetothefair/utils";
+import { parseRecurrenceExdates } from "@/lib/events/recurrence";
 import {
   inheritSeriesDefaults,
+  occurrenceDatesFromRule,
   type SeriesRow,
   type OccurrenceOverrides,
 } from "./create-occurrence-core";
@@ -116,7 +118,7 @@ async function attachDateAsEventDay(
 /**
  * Create a new dated occurrence under a series — NEVER mutating a past one.
  * Skeleton posture (TENTATIVE, dates_confirmed=false, flagged_for_review, dates
- * only from explicit overrides). Year-bucketed idempotency. Returns a discrim-
+ * from explicit overrides, else from the series rule). Year-bucketed idempotency. Returns a discrim-
  * inated result the caller maps to HTTP (route) or a submit response (ingest).
  */
 export async function createOccurrenceForSeries(
@@ -132,6 +134,7 @@ export async function createOccurrenceForSeries(
       venueId: eventSeries.venueId,
       promoterId: eventSeries.promoterId,
       recurrenceRule: eventSeries.recurrenceRule,
+      recurrenceExdates: eventSeries.recurrenceExdates,
       description: eventSeries.description,
       imageUrl: eventSeries.imageUrl,
       categories: eventSeries.categories,
@@ -185,6 +188,27 @@ export async function createOccurrenceForSeries(
     rolledFromEventId: input.rolledFromEventId ?? null,
   });
 
+  // No explicit start: let the series rule place the edition, anchored on the
+  // most recent dated sibling. A sub-annual rule yields one discontinuous
+  // occurrence carrying every matching day of the year.
+  let ruleDays: string[] = [];
+  if (input.overrides?.startDate === undefined) {
+    const anchor = siblings
+      .filter((s): s is typeof s & { startDate: Date } => s.startDate != null)
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime())[0];
+    const fromRule = occurrenceDatesFromRule({
+      recurrenceRule: series.recurrenceRule,
+      recurrenceExdates: parseRecurrenceExdates(series.recurrenceExdates),
+      anchor: anchor ? { startDate: anchor.startDate, endDate: anchor.endDate ?? null } : null,
+      year,
+    });
+    if (fromRule) {
+      values.startDate = fromRule.startDate;
+      values.endDate = input.overrides?.endDate ?? fromRule.endDate;
+      ruleDays = fromRule.days;
+    }
+  }
+
   // events.promoter_id is NOT NULL — a series with no default promoter needs one.
   if (!values.promoterId) return { created: false, reason: "promoter_required", year };
 
@@ -218,8 +242,10 @@ export async function createOccurrenceForSeries(
     venueId: values.venueId,
     startDate: values.startDate,
     endDate: values.endDate,
+    discontinuousDates: ruleDays.length > 0,
     datesConfirmed: values.datesConfirmed,
     recurrenceRule: values.recurrenceRule,
+    recurrenceExdates: values.recurrenceExdates,
     categories: values.categories ?? "[]",
     tags: values.tags ?? "[]",
     imageUrl: values.imageUrl,
@@ -237,6 +263,10 @@ export async function createOccurrenceForSeries(
     updatedAt: now,
   });
 
+  for (const date of ruleDays) {
+    await db.insert(eventDays).values({ id: crypto.randomUUID(), eventId, date, createdAt: now });
+  }
+
   await db.insert(adminActions).values({
     action: "event.occurrence_created",
     actorUserId: input.actorUserId ?? null,
@@ -247,6 +277,7 @@ export async function createOccurrenceForSeries(
       year,
       slug: finalSlug,
       rolled_from_event_id: values.rolledFromEventId,
+      rule_days: ruleDays.length > 0 ? ruleDays.length : undefined,
       source: input.sourceName ?? "series-occurrence",
     }),
     createdAt: now,
@@ -17,6 +17,7 @@ import { unsafeSlug } from "@takemetothefair/utils";
 import { getCloudflareDb } from "@/lib/cloudflare";
 import { eventSeries, events, venues, promoters } from "@/lib/db/schema";
 import { isPublicEventStatus } from "@/lib/event-status";
+import { getSeriesReviews, type SeriesReviews } from "@/lib/reviews/event-reviews";
 import { pickHeroOccurrence, resolveSeriesLandingContent } from "@/lib/series/occurrence-view";
 import type { PlaceVenue } from "@/lib/seo/place-jsonld";
 import type { SchemaOrganizer } from "@/lib/series/series-schema-org";
@@ -63,6 +64,11 @@ export interface SeriesLanding {
     organizer: SchemaOrganizer | null;
   };
   occurrences: LandingOccurrence[];
+  /**
+   * Vendor reviews across every occurrence: one summary plus the latest few,
+   * each naming the year it's about. Empty until vendors write some.
+   */
+  reviews: SeriesReviews;
 }
 
 export const getSeriesLanding = cache(async (slug: string): Promise<SeriesLanding | null> => {
@@ -189,6 +195,8 @@ export const getSeriesLanding = cache(async (slug: string): Promise<SeriesLandin
       }
     : null;
 
+  const reviews = await getSeriesReviews(db, series.id);
+
   return {
     series: {
       canonicalSlug: series.canonicalSlug,
@@ -198,5 +206,6 @@ export const getSeriesLanding = cache(async (slug: string): Promise<SeriesLandin
       organizer,
     },
     occurrences,
+    reviews,
   };
 });
@@ -1,14 +1,46 @@
 // Canonical data for the six New England states the site covers.
 // Add a row here when a new state is onboarded — it becomes available to
 // getStateName, the "Statewide — X" chip, state filters, and form pickers.
+// `mapCenter` is the approximate geographic center, where the events map pins
+// statewide events that have no venue of their own.
 
 export const STATES = {
-  ME: { name: "Maine", slug: "maine", adjective: "Pine Tree State" },
-  NH: { name: "New Hampshire", slug: "new-hampshire", adjective: "Granite State" },
-  VT: { name: "Vermont", slug: "vermont", adjective: "Green Mountain State" },
-  MA: { name: "Massachusetts", slug: "massachusetts", adjective: "Bay State" },
-  CT: { name: "Connecticut", slug: "connecticut", adjective: "Constitution State" },
-  RI: { name: "Rhode Island", slug: "rhode-island", adjective: "Ocean State" },
+  ME: {
+    name: "Maine",
+    slug: "maine",
+    adjective: "Pine Tree State",
+    mapCenter: { latitude: 45.25, longitude: -69.23 },
+  },
+  NH: {
+    name: "New Hampshire",
+    slug: "new-hampshire",
+    adjective: "Granite State",
+    mapCenter: { latitude: 43.68, longitude: -71.58 },
+  },
+  VT: {
+    name: "Vermont",
+    slug: "vermont",
+    adjective: "Green Mountain State",
+    mapCenter: { latitude: 44.07, longitude: -72.67 },
+  },
+  MA: {
+    name: "Massachusetts",
+    slug: "massachusetts",
+    adjective: "Bay State",
+    mapCenter: { latitude: 42.35, longitude: -71.95 },
+  },
+  CT: {
+    name: "Connecticut",
+    slug: "connecticut",
+    adjective: "Constitution State",
+    mapCenter: { latitude: 41.62, longitude: -72.73 },
+  },
+  RI: {
+    name: "Rhode Island",
+    slug: "rhode-island",
+    adjective: "Ocean State",
+    mapCenter: { latitude: 41.68, longitude: -71.56 },
+  },
 } as const;
 
 export type StateCode = keyof typeof STATES;
@@ -31,6 +63,12 @@ export function getStateAdjective(code: string | null | undefined): string | nul
   return isStateCode(code) ? STATES[code].adjective : null;
 }
 
+export function getStateMapCenter(
+  code: string | null | undefined
+): { latitude: number; longitude: number } | null {
+  return isStateCode(code) ? STATES[code].mapCenter : null;
+}
+
 export const STATE_BY_SLUG: Record<string, StateCode> = Object.fromEntries(
   STATE_CODES.map((code) => [STATES[code].slug, code])
 );
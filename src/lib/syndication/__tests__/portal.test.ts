@@ -0,0 +1,260 @@
+/**
+ * SYN3 partner portal against an in-memory SQLite with a mocked fetch:
+ * rotation grace, test pings and redelivery (signed, logged, re-sent byte for
+ * byte), and the two reconcile reads over query subscriptions — public-only,
+ * upcoming-only, exact radius after the bounding-box prefilter.
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import * as schema from "@/lib/db/schema";
+import { hmacSha256Hex } from "@takemetothefair/utils";
+import {
+  generateSigningSecret,
+  getOwnedSubscriber,
+  listDeliveries,
+  listQueryMatchedEvents,
+  queryMatchedEventIds,
+  redeliver,
+  rotateSigningSecret,
+  sendTestPing,
+  toPortalSubscriber,
+  SECRET_ROTATION_GRACE_MS,
+} from "../portal";
+
+const TABLES = `
+  CREATE TABLE venues (id TEXT PRIMARY KEY, name TEXT NOT NULL, latitude REAL, longitude REAL);
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, venue_id TEXT, state_code TEXT,
+    categories TEXT DEFAULT '[]', promoter_id TEXT, series_id TEXT,
+    status TEXT NOT NULL DEFAULT 'APPROVED', lifecycle_status TEXT NOT NULL DEFAULT 'SCHEDULED',
+    start_date INTEGER, end_date INTEGER, syndication_version INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE syndication_subscribers (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, callback_url TEXT NOT NULL,
+    signing_secret TEXT NOT NULL, active INTEGER NOT NULL DEFAULT 1, created_at INTEGER NOT NULL,
+    owner_user_id TEXT, previous_signing_secret TEXT, previous_secret_expires_at INTEGER
+  );
+  CREATE TABLE syndication_query_subscriptions (
+    id TEXT PRIMARY KEY, subscriber_id TEXT NOT NULL, state_code TEXT, category TEXT,
+    promoter_id TEXT, series_id TEXT, latitude REAL, longitude REAL, radius_miles REAL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE syndication_deliveries (
+    id TEXT PRIMARY KEY, subscriber_id TEXT NOT NULL, kind TEXT NOT NULL, event_id TEXT,
+    event_version INTEGER, outbox_id TEXT, redelivery_of TEXT, payload TEXT NOT NULL,
+    succeeded INTEGER NOT NULL, response_status INTEGER, error TEXT, duration_ms INTEGER,
+    created_at INTEGER NOT NULL
+  );
+`;
+
+type Db = Parameters<typeof getOwnedSubscriber>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+const day = (n: number) => Math.floor(NOW.getTime() / 1000) + n * 86400;
+
+function addEvent(id: string, extra: Record<string, unknown> = {}) {
+  raw
+    .prepare(
+      `INSERT INTO events (id, name, venue_id, state_code, categories, promoter_id, status, start_date, end_date, syndication_version)
+       VALUES (@id, @id, @venue_id, @state_code, @categories, @promoter_id, @status, @start_date, @end_date, @syndication_version)`
+    )
+    .run({
+      id,
+      venue_id: null,
+      state_code: "ME",
+      categories: "[]",
+      promoter_id: null,
+      status: "APPROVED",
+      start_date: day(10),
+      end_date: day(11),
+      syndication_version: 1,
+      ...extra,
+    });
+}
+
+function addQuery(id: string, q: Record<string, unknown>) {
+  raw
+    .prepare(
+      `INSERT INTO syndication_query_subscriptions
+         (id, subscriber_id, state_code, category, promoter_id, latitude, longitude, radius_miles, created_at)
+       VALUES (@id, 'sub-1', @state_code, @category, @promoter_id, @latitude, @longitude, @radius_miles, 0)`
+    )
+    .run({
+      id,
+      state_code: null,
+      category: null,
+      promoter_id: null,
+      latitude: null,
+      longitude: null,
+      radius_miles: null,
+      ...q,
+    });
+}
+
+async function subscriber() {
+  const sub = await getOwnedSubscriber(db, "user-1", "sub-1");
+  if (!sub) throw new Error("fixture subscriber missing");
+  return sub;
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw.exec(TABLES);
+  db = drizzle(raw, { schema }) as unknown as Db;
+  raw
+    .prepare(
+      `INSERT INTO syndication_subscribers (id, name, callback_url, signing_secret, created_at, owner_user_id)
+       VALUES ('sub-1', 'Sun Journal', 'https://hooks.example.com/fairs', 'whsec_old', 0, 'user-1')`
+    )
+    .run();
+  fetchMock = vi.fn(async () => new Response("ok", { status: 200 }));
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("ownership and secrets", () => {
+  it("only resolves a subscriber for its owner", async () => {
+    expect(await getOwnedSubscriber(db, "user-1", "sub-1")).not.toBeNull();
+    expect(await getOwnedSubscriber(db, "user-2", "sub-1")).toBeNull();
+  });
+
+  it("generates distinct whsec_ secrets", () => {
+    const a = generateSigningSecret();
+    expect(a).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(generateSigningSecret()).not.toBe(a);
+  });
+
+  it("rotation keeps the old secret for the grace window and never exposes either", async () => {
+    const rotated = await rotateSigningSecret(db, await subscriber(), NOW);
+    const sub = await subscriber();
+    expect(sub.signingSecret).toBe(rotated.signingSecret);
+    expect(sub.previousSigningSecret).toBe("whsec_old");
+    expect(sub.previousSecretExpiresAt?.getTime()).toBe(
+      Math.floor((NOW.getTime() + SECRET_ROTATION_GRACE_MS) / 1000) * 1000
+    );
+
+    const shown = toPortalSubscriber(sub, NOW);
+    expect(JSON.stringify(shown)).not.toContain("whsec_");
+    expect(shown.previousSecretExpiresAt).not.toBeNull();
+    const later = new Date(NOW.getTime() + SECRET_ROTATION_GRACE_MS + 1000);
+    expect(toPortalSubscriber(sub, later).previousSecretExpiresAt).toBeNull();
+  });
+});
+
+describe("test ping and redelivery", () => {
+  it("sends a signed ping and logs it", async () => {
+    const delivery = await sendTestPing(db, await subscriber(), NOW);
+    expect(delivery.kind).toBe("ping");
+    expect(delivery.succeeded).toBe(true);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://hooks.example.com/fairs");
+    expect(JSON.parse(init.body)).toEqual({
+      type: "ping",
+      subscriberId: "sub-1",
+      sentAt: NOW.toISOString(),
+    });
+    expect(init.headers["X-Syndication-Signature"]).toBe(
+      `sha256=${await hmacSha256Hex("whsec_old", init.body)}`
+    );
+    expect(init.headers["X-Syndication-Delivery-Id"]).toBe(delivery.id);
+    expect(init.headers["X-Syndication-Kind"]).toBe("ping");
+  });
+
+  it("logs a failed ping with the receiver's status", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("nope", { status: 500 }));
+    const delivery = await sendTestPing(db, await subscriber(), NOW);
+    expect(delivery.succeeded).toBe(false);
+    expect(delivery.responseStatus).toBe(500);
+    expect(delivery.error).toBe("HTTP 500");
+  });
+
+  it("redelivers the exact payload with the current secret and event headers", async () => {
+    raw
+      .prepare(
+        `INSERT INTO syndication_deliveries (id, subscriber_id, kind, event_id, event_version, payload, succeeded, created_at)
+         VALUES ('d1', 'sub-1', 'change', 'e1', 4, '{"eventId":"e1","eventVersion":4}', 0, 0)`
+      )
+      .run();
+    await rotateSigningSecret(db, await subscriber(), NOW);
+    const sub = await subscriber();
+    const [original] = await listDeliveries(db, "sub-1");
+
+    const again = await redeliver(db, sub, original, NOW);
+    expect(again.redeliveryOf).toBe("d1");
+    expect(again.kind).toBe("change");
+    expect(again.payload).toBe(original.payload);
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.body).toBe('{"eventId":"e1","eventVersion":4}');
+    expect(init.headers["X-Syndication-Event-Id"]).toBe("e1");
+    expect(init.headers["X-Syndication-Event-Version"]).toBe("4");
+    expect(init.headers["X-Syndication-Signature"]).toBe(
+      `sha256=${await hmacSha256Hex(sub.signingSecret, init.body)}`
+    );
+    // Inside the grace window the retired secret signs too.
+    expect(init.headers["X-Syndication-Signature-Previous"]).toBe(
+      `sha256=${await hmacSha256Hex("whsec_old", init.body)}`
+    );
+    expect((await listDeliveries(db, "sub-1")).map((d) => d.id)).toContain(again.id);
+  });
+});
+
+describe("query-subscription reads", () => {
+  beforeEach(() => {
+    raw.exec(`
+      INSERT INTO venues (id, name, latitude, longitude) VALUES
+        ('lewiston', 'Lewiston', 44.1, -70.21),
+        ('bangor', 'Bangor', 44.8, -68.77);
+    `);
+    addEvent("me-crafts", {
+      categories: '["Craft Fair"]',
+      venue_id: "lewiston",
+      start_date: day(20),
+      end_date: day(21),
+    });
+    addEvent("me-other", { venue_id: "bangor", start_date: day(5), end_date: day(6) });
+    addEvent("me-pending", { categories: '["Craft Fair"]', status: "PENDING" });
+    addEvent("me-past", { categories: '["Craft Fair"]', start_date: day(-10), end_date: day(-9) });
+    addEvent("nh-crafts", { categories: '["Craft Fair"]', state_code: "NH" });
+  });
+
+  it("matches nothing without query subscriptions", async () => {
+    expect(await queryMatchedEventIds(db, "sub-1", ["me-crafts"])).toEqual(new Set());
+    expect(await listQueryMatchedEvents(db, "sub-1", NOW)).toEqual([]);
+  });
+
+  it("scopes batch-read ids to public events a query matches", async () => {
+    addQuery("q1", { state_code: "ME", category: "craft fair" });
+    const ids = await queryMatchedEventIds(db, "sub-1", [
+      "me-crafts",
+      "me-other",
+      "me-pending",
+      "nh-crafts",
+    ]);
+    expect([...ids]).toEqual(["me-crafts"]);
+  });
+
+  it("lists upcoming public matches across queries, deduped and soonest first", async () => {
+    addQuery("q1", { state_code: "ME", category: "Craft Fair" });
+    addQuery("q2", { state_code: "ME" });
+    const listed = await listQueryMatchedEvents(db, "sub-1", NOW);
+    expect(listed.map((e) => e.eventId)).toEqual(["me-other", "me-crafts"]);
+    expect(listed[0]).toMatchObject({ eventVersion: 1 });
+  });
+
+  it("applies the exact radius after the bounding-box prefilter", async () => {
+    // 30 miles from Auburn reaches Lewiston, not Bangor (~90 miles).
+    addQuery("q1", { latitude: 44.09, longitude: -70.23, radius_miles: 30 });
+    expect((await listQueryMatchedEvents(db, "sub-1", NOW)).map((e) => e.eventId)).toEqual([
+      "me-crafts",
+    ]);
+  });
+});
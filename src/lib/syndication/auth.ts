@@ -5,6 +5,10 @@
 // cross-Worker key — keeping the MMATF ↔ consumer business-separation boundary
 // intact. The same secret already signs the push webhooks, so the consumer
 // holds exactly one credential.
+//
+// SYN3: after a portal secret rotation the retired secret is accepted too,
+// until `previous_secret_expires_at`, so a partner's reconcile job keeps
+// working while they roll the new secret out.
 import { getCloudflareDb } from "@/lib/cloudflare";
 import { syndicationSubscribers } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
@@ -13,8 +17,9 @@ import { timingSafeEqualString } from "@takemetothefair/utils";
 /**
  * Resolve a `Authorization: Bearer <token>` header to an ACTIVE subscriber by
  * constant-time-comparing the token against each active subscriber's
- * signing_secret. Returns the subscriber id, or null when the header is
- * missing/malformed or no secret matches.
+ * signing_secret (and any previous secret still inside its rotation grace).
+ * Returns the subscriber id, or null when the header is missing/malformed or
+ * no secret matches.
  *
  * The loop compares against EVERY active subscriber (no early return) so a
  * mismatch can't leak — via timing — which subscriber a token nearly matched.
@@ -33,13 +38,24 @@ export async function resolveSyndicationSubscriber(
     .select({
       id: syndicationSubscribers.id,
       signingSecret: syndicationSubscribers.signingSecret,
+      previousSigningSecret: syndicationSubscribers.previousSigningSecret,
+      previousSecretExpiresAt: syndicationSubscribers.previousSecretExpiresAt,
     })
     .from(syndicationSubscribers)
     .where(eq(syndicationSubscribers.active, true));
 
+  const now = Date.now();
   let matchedId: string | null = null;
   for (const s of subs) {
     if (await timingSafeEqualString(token, s.signingSecret)) matchedId = s.id;
+    if (
+      s.previousSigningSecret &&
+      s.previousSecretExpiresAt &&
+      s.previousSecretExpiresAt.getTime() > now &&
+      (await timingSafeEqualString(token, s.previousSigningSecret))
+    ) {
+      matchedId = s.id;
+    }
   }
   return matchedId ? { id: matchedId } : null;
 }
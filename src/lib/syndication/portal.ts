@@ -0,0 +1,326 @@
+// SYN3 — partner self-service portal (/dashboard/syndication and
+// /api/user/syndication/*). A signed-in partner owns the subscribers they
+// register; everything here is scoped by `ownerUserId`, and an id that isn't
+// theirs reads as not-found so ids can't be probed.
+//
+// Signing, headers and the query matcher are shared with the MCP dispatcher
+// via @takemetothefair/utils (syndication-delivery.ts), so a portal test ping
+// verifies with exactly the code that verifies a change webhook, and the
+// reconcile reads below agree with the dispatcher on which events a query
+// subscription covers.
+import { and, desc, eq, inArray, type SQL } from "drizzle-orm";
+import {
+  events,
+  venues,
+  syndicationSubscribers,
+  syndicationQuerySubscriptions,
+  syndicationDeliveries,
+  buildSyndicationDeliveryValues,
+  type SyndicationDelivery,
+} from "@/lib/db/schema";
+import {
+  eventMatchesSyndicationQuery,
+  postSyndicationWebhook,
+  SYNDICATION_DELIVERY_ID_HEADER,
+  SYNDICATION_KIND_HEADER,
+  type SyndicationEventQuery,
+} from "@takemetothefair/utils";
+import { isPublicEventStatus } from "@/lib/event-status";
+import { upcomingEndPredicate } from "@/lib/event-dates";
+import { boundingBoxConditions } from "@/lib/near-search";
+import type { getCloudflareDb } from "@/lib/cloudflare";
+
+type Db = ReturnType<typeof getCloudflareDb>;
+type Subscriber = typeof syndicationSubscribers.$inferSelect;
+
+/** How long a rotated-out secret keeps signing and authenticating. */
+export const SECRET_ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/** Subscribers one partner account may register. */
+export const MAX_SUBSCRIBERS_PER_USER = 5;
+
+/** Query subscriptions per subscriber. */
+export const MAX_QUERIES_PER_SUBSCRIBER = 20;
+
+/** Delivery-log rows the portal shows (newest first). */
+export const DELIVERY_LOG_LIMIT = 50;
+
+// D1 caps bound parameters at 100 per statement.
+const ID_CHUNK = 90;
+
+// Upper bound on rows a single query subscription contributes to the
+// matching-events read; a state-wide query for a busy state stays well under.
+const MATCHING_EVENTS_PER_QUERY = 500;
+
+const SECRET_BYTES = 32;
+
+/** A fresh signing secret: `whsec_` + 64 hex chars. */
+export function generateSigningSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SECRET_BYTES));
+  return "whsec_" + [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The subscriber as the portal shows it. Secrets never leave the server after
+ * creation/rotation (which return the new one exactly once); the partner sees
+ * only whether a rotation grace window is open.
+ */
+export function toPortalSubscriber(sub: Subscriber, now: Date = new Date()) {
+  const graceOpen =
+    sub.previousSigningSecret !== null &&
+    sub.previousSecretExpiresAt !== null &&
+    sub.previousSecretExpiresAt.getTime() > now.getTime();
+  return {
+    id: sub.id,
+    name: sub.name,
+    callbackUrl: sub.callbackUrl,
+    active: sub.active,
+    createdAt: sub.createdAt,
+    previousSecretExpiresAt: graceOpen ? sub.previousSecretExpiresAt : null,
+  };
+}
+
+/** The caller's subscriber `id`, or null when it doesn't exist or isn't theirs. */
+export async function getOwnedSubscriber(
+  db: Db,
+  userId: string,
+  id: string
+): Promise<Subscriber | null> {
+  const [sub] = await db
+    .select()
+    .from(syndicationSubscribers)
+    .where(and(eq(syndicationSubscribers.id, id), eq(syndicationSubscribers.ownerUserId, userId)))
+    .limit(1);
+  return sub ?? null;
+}
+
+/**
+ * Swap in a new signing secret. The old one moves to `previousSigningSecret`
+ * for SECRET_ROTATION_GRACE_MS; rotating again inside the window retires the
+ * current secret and drops the one before it.
+ */
+export async function rotateSigningSecret(
+  db: Db,
+  sub: Subscriber,
+  now: Date = new Date()
+): Promise<{ signingSecret: string; previousSecretExpiresAt: Date }> {
+  const signingSecret = generateSigningSecret();
+  const previousSecretExpiresAt = new Date(now.getTime() + SECRET_ROTATION_GRACE_MS);
+  await db
+    .update(syndicationSubscribers)
+    .set({
+      signingSecret,
+      previousSigningSecret: sub.signingSecret,
+      previousSecretExpiresAt,
+    })
+    .where(eq(syndicationSubscribers.id, sub.id));
+  return { signingSecret, previousSecretExpiresAt };
+}
+
+/** POST one webhook and log it. Returns the logged row. */
+async function sendAndRecord(
+  db: Db,
+  sub: Subscriber,
+  input: {
+    kind: SyndicationDelivery["kind"];
+    payload: string;
+    headers: Record<string, string>;
+    eventId?: string | null;
+    eventVersion?: number | null;
+    outboxId?: string | null;
+    redeliveryOf?: string | null;
+  },
+  now: Date
+): Promise<SyndicationDelivery> {
+  const id = crypto.randomUUID();
+  const result = await postSyndicationWebhook(
+    sub,
+    input.payload,
+    {
+      ...input.headers,
+      [SYNDICATION_DELIVERY_ID_HEADER]: id,
+      [SYNDICATION_KIND_HEADER]: input.kind,
+    },
+    now
+  );
+  const [row] = await db
+    .insert(syndicationDeliveries)
+    .values(buildSyndicationDeliveryValues({ ...input, id, subscriberId: sub.id, result }))
+    .returning();
+  return row;
+}
+
+/**
+ * Signed `{ type: "ping" }` to the callback, so a partner can check their
+ * endpoint and signature verification before any real change arrives. Sent
+ * even when the subscriber is paused — that's often when it's being set up.
+ */
+export async function sendTestPing(
+  db: Db,
+  sub: Subscriber,
+  now: Date = new Date()
+): Promise<SyndicationDelivery> {
+  const payload = JSON.stringify({ type: "ping", subscriberId: sub.id, sentAt: now.toISOString() });
+  return sendAndRecord(db, sub, { kind: "ping", payload, headers: {} }, now);
+}
+
+/**
+ * Re-send a logged attempt byte for byte, signed with the CURRENT secret(s),
+ * as a new log row pointing back at the original. A change redelivery keeps
+ * its event id/version headers, so the receiver's highest-version check still
+ * makes it a no-op when they already have something newer.
+ */
+export async function redeliver(
+  db: Db,
+  sub: Subscriber,
+  original: SyndicationDelivery,
+  now: Date = new Date()
+): Promise<SyndicationDelivery> {
+  const headers: Record<string, string> = {};
+  if (original.eventId) headers["X-Syndication-Event-Id"] = original.eventId;
+  if (original.eventVersion !== null) {
+    headers["X-Syndication-Event-Version"] = String(original.eventVersion);
+  }
+  return sendAndRecord(
+    db,
+    sub,
+    {
+      kind: original.kind,
+      payload: original.payload,
+      headers,
+      eventId: original.eventId,
+      eventVersion: original.eventVersion,
+      outboxId: original.outboxId,
+      redeliveryOf: original.id,
+    },
+    now
+  );
+}
+
+/** Newest-first delivery log for one subscriber. */
+export async function listDeliveries(
+  db: Db,
+  subscriberId: string,
+  limit: number = DELIVERY_LOG_LIMIT
+): Promise<SyndicationDelivery[]> {
+  return db
+    .select()
+    .from(syndicationDeliveries)
+    .where(eq(syndicationDeliveries.subscriberId, subscriberId))
+    .orderBy(desc(syndicationDeliveries.createdAt))
+    .limit(limit);
+}
+
+async function loadQueries(db: Db, subscriberId: string): Promise<SyndicationEventQuery[]> {
+  return db
+    .select({
+      stateCode: syndicationQuerySubscriptions.stateCode,
+      category: syndicationQuerySubscriptions.category,
+      promoterId: syndicationQuerySubscriptions.promoterId,
+      seriesId: syndicationQuerySubscriptions.seriesId,
+      latitude: syndicationQuerySubscriptions.latitude,
+      longitude: syndicationQuerySubscriptions.longitude,
+      radiusMiles: syndicationQuerySubscriptions.radiusMiles,
+    })
+    .from(syndicationQuerySubscriptions)
+    .where(eq(syndicationQuerySubscriptions.subscriberId, subscriberId));
+}
+
+const MATCH_COLUMNS = {
+  id: events.id,
+  eventVersion: events.syndicationVersion,
+  startDate: events.startDate,
+  stateCode: events.stateCode,
+  categories: events.categories,
+  promoterId: events.promoterId,
+  seriesId: events.seriesId,
+  latitude: venues.latitude,
+  longitude: venues.longitude,
+};
+
+/**
+ * Of `eventIds`, those covered by one of the subscriber's query
+ * subscriptions — the batch-read's second scope, beside explicit ids. Only
+ * public events are read, matching what the dispatcher pushes.
+ */
+export async function queryMatchedEventIds(
+  db: Db,
+  subscriberId: string,
+  eventIds: string[]
+): Promise<Set<string>> {
+  const matched = new Set<string>();
+  const queries = await loadQueries(db, subscriberId);
+  if (queries.length === 0 || eventIds.length === 0) return matched;
+  for (let i = 0; i < eventIds.length; i += ID_CHUNK) {
+    const rows = await db
+      .select(MATCH_COLUMNS)
+      .from(events)
+      .leftJoin(venues, eq(events.venueId, venues.id))
+      .where(and(inArray(events.id, eventIds.slice(i, i + ID_CHUNK)), isPublicEventStatus()));
+    for (const r of rows) {
+      if (queries.some((q) => eventMatchesSyndicationQuery(q, { ...r, isPublic: true }))) {
+        matched.add(r.id);
+      }
+    }
+  }
+  return matched;
+}
+
+/**
+ * SQL narrowing for one query: the equality criteria plus, for a radius, the
+ * enclosing lat/lng box. The exact radius and the category (a JSON array
+ * column) are checked afterwards by the shared matcher.
+ */
+function queryPrefilter(q: SyndicationEventQuery): SQL[] {
+  const where: SQL[] = [];
+  if (q.stateCode) where.push(eq(events.stateCode, q.stateCode));
+  if (q.promoterId) where.push(eq(events.promoterId, q.promoterId));
+  if (q.seriesId) where.push(eq(events.seriesId, q.seriesId));
+  if (q.latitude !== null && q.longitude !== null && q.radiusMiles !== null) {
+    where.push(
+      ...boundingBoxConditions(
+        venues.latitude,
+        venues.longitude,
+        { latitude: q.latitude, longitude: q.longitude },
+        q.radiusMiles
+      )
+    );
+  }
+  return where;
+}
+
+export interface MatchingEvent {
+  eventId: string;
+  eventVersion: number;
+  startDate: Date | null;
+}
+
+/**
+ * Upcoming public events the subscriber's query subscriptions cover, soonest
+ * first. The outbox only fires on updates, so this is how a partner discovers
+ * a newly listed event that matches — they then fetch it via batch-read.
+ */
+export async function listQueryMatchedEvents(
+  db: Db,
+  subscriberId: string,
+  now: Date = new Date()
+): Promise<MatchingEvent[]> {
+  const queries = await loadQueries(db, subscriberId);
+  const byId = new Map<string, MatchingEvent>();
+  for (const q of queries) {
+    const rows = await db
+      .select(MATCH_COLUMNS)
+      .from(events)
+      .leftJoin(venues, eq(events.venueId, venues.id))
+      .where(and(isPublicEventStatus(), upcomingEndPredicate(now), ...queryPrefilter(q)))
+      .orderBy(events.startDate)
+      .limit(MATCHING_EVENTS_PER_QUERY);
+    for (const r of rows) {
+      if (byId.has(r.id) || !eventMatchesSyndicationQuery(q, { ...r, isPublic: true })) continue;
+      byId.set(r.id, { eventId: r.id, eventVersion: r.eventVersion, startDate: r.startDate });
+    }
+  }
+  return [...byId.values()].sort(
+    (a, b) => (a.startDate?.getTime() ?? Infinity) - (b.startDate?.getTime() ?? Infinity)
+  );
+}
@@ -19,6 +19,7 @@ import {
   decodeHtmlEntities,
   unsafeSlug,
   appendSlugSegment,
+  normalizeRRule,
   type Slug,
 } from "@takemetothefair/utils";
 export { createSlug, decodeHtmlEntities, unsafeSlug, appendSlugSegment };
@@ -142,6 +143,9 @@ interface CalendarEventParams {
   // series reads as one continuous block — not what the user wants
   // for a weekend-only fair.
   recurrenceRule?: string | null;
+  // drizzle/0234 — EXDATE days (YYYY-MM-DD) left out of the rule's
+  // occurrences. Ignored without a recurrenceRule.
+  recurrenceExdates?: string[] | null;
 }
 
 // Google's "dates" param uses compact ISO (YYYYMMDDTHHmmSSZ); strip
@@ -193,6 +197,16 @@ export function generateOutlookCalendarUrl(params: CalendarEventParams): string
 export function generateICSContent(params: CalendarEventParams): string {
   const { title, description, location, startDate, endDate, url, recurrenceRule } = params;
 
+  // Re-emit the rule in canonical form with a date-time UNTIL: DTSTART here is
+  // a UTC date-time, and §3.3.10 requires UNTIL to match its value type. A
+  // rule that doesn't parse is dropped rather than sent for the client to
+  // misread. EXDATEs carry DTSTART's time of day for the same reason.
+  const rule = normalizeRRule(recurrenceRule, { untilAsDateTime: true });
+  const dtstart = formatIcsUtc(startDate);
+  const exdates = rule
+    ? (params.recurrenceExdates ?? []).map((d) => `${d.replace(/-/g, "")}${dtstart.slice(8)}`)
+    : [];
+
   const eventDescription = url
     ? `${description || ""}\\n\\nMore info: ${url}`.trim()
     : description || "";
@@ -205,12 +219,11 @@ export function generateICSContent(params: CalendarEventParams): string {
     "VERSION:2.0",
     "PRODID:-//Meet Me at the Fair//EN",
     "BEGIN:VEVENT",
-    `DTSTART:${formatIcsUtc(startDate)}`,
+    `DTSTART:${dtstart}`,
     `DTEND:${formatIcsUtc(endDate)}`,
     // Cohort 7 (C1/U1) — emit RRULE when recurrenceRule is supplied.
-    // The caller is responsible for producing a valid RFC 5545 rule
-    // string; we don't validate here.
-    recurrenceRule ? `RRULE:${recurrenceRule}` : "",
+    rule ? `RRULE:${rule}` : "",
+    exdates.length > 0 ? `EXDATE:${exdates.join(",")}` : "",
     `SUMMARY:${title}`,
     `DESCRIPTION:${eventDescription.replace(/\n/g, "\\n")}`,
     `LOCATION:${location || ""}`,
@@ -0,0 +1,167 @@
+/**
+ * Application-deadline reminders against an in-memory SQLite: who is due
+ * (unapplied links, public events, deadline within the week), one email per
+ * vendor, and the stamp that keeps tomorrow's pass quiet until a promoter
+ * moves the deadline.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+
+const sent: { to: string; subject: string; text: string; source?: string }[] = [];
+vi.mock("@/lib/email/send", () => ({ getSiteUrl: () => "https://example.test" }));
+vi.mock("@/lib/queues/producers", () => ({
+  enqueueEmail: async (args: (typeof sent)[number]) => {
+    sent.push(args);
+  },
+}));
+vi.mock("@/lib/logger", () => ({ logError: vi.fn(async () => undefined) }));
+
+import * as schema from "@/lib/db/schema";
+import { DEADLINE_REMINDER_EMAIL_SOURCE, runDeadlineReminders } from "../deadline-reminders";
+
+const TABLES = `
+  CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT, name TEXT);
+  CREATE TABLE vendors (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, business_name TEXT NOT NULL);
+  CREATE TABLE venues (id TEXT PRIMARY KEY, name TEXT NOT NULL, city TEXT, state TEXT);
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, slug TEXT NOT NULL, name TEXT NOT NULL, venue_id TEXT,
+    status TEXT NOT NULL DEFAULT 'APPROVED', lifecycle_status TEXT NOT NULL DEFAULT 'SCHEDULED',
+    start_date INTEGER, end_date INTEGER,
+    application_deadline INTEGER
+  );
+  CREATE TABLE event_vendors (
+    id TEXT PRIMARY KEY, event_id TEXT NOT NULL, vendor_id TEXT NOT NULL,
+    status TEXT NOT NULL, deadline_reminded_at INTEGER
+  );
+  CREATE TABLE notifications (
+    id TEXT PRIMARY KEY, user_id TEXT NOT NULL, type TEXT NOT NULL, title TEXT NOT NULL,
+    message TEXT NOT NULL, read INTEGER DEFAULT 0, data TEXT, created_at INTEGER
+  );
+  CREATE TABLE notification_preferences (
+    user_id TEXT NOT NULL, type TEXT NOT NULL, email INTEGER NOT NULL, in_app INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL, PRIMARY KEY (user_id, type)
+  );
+  CREATE TABLE email_suppression_list (
+    email TEXT PRIMARY KEY, reason TEXT, source TEXT, created_at INTEGER NOT NULL
+  );
+`;
+
+type Db = Parameters<typeof runDeadlineReminders>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+const day = (n: number) => Math.floor(NOW.getTime() / 1000) + n * 86400;
+
+function addEvent(id: string, deadlineDay: number | null, extra: Record<string, unknown> = {}) {
+  raw
+    .prepare(
+      `INSERT INTO events (id, slug, name, venue_id, status, lifecycle_status, start_date, end_date, application_deadline)
+       VALUES (@id, @id, @name, 'venue-1', @status, @lifecycle, @start, @end, @deadline)`
+    )
+    .run({
+      id,
+      name: `Fair ${id}`,
+      status: "APPROVED",
+      lifecycle: "SCHEDULED",
+      start: day(40),
+      end: day(42),
+      deadline: deadlineDay === null ? null : day(deadlineDay),
+      ...extra,
+    });
+}
+
+function link(id: string, eventId: string, status: string, vendorId = "vendor-1") {
+  raw
+    .prepare(`INSERT INTO event_vendors (id, event_id, vendor_id, status) VALUES (?, ?, ?, ?)`)
+    .run(id, eventId, vendorId, status);
+}
+
+beforeEach(() => {
+  sent.length = 0;
+  raw = new Database(":memory:");
+  raw.exec(TABLES);
+  raw.exec(`
+    INSERT INTO users VALUES ('user-1', 'Maker@Example.com', 'Pat'), ('user-2', 'b@example.com', NULL);
+    INSERT INTO vendors VALUES ('vendor-1', 'user-1', 'Pat''s Pottery'), ('vendor-2', 'user-2', 'Kettle Corn');
+    INSERT INTO venues VALUES ('venue-1', 'Fryeburg Fairgrounds', 'Fryeburg', 'ME');
+  `);
+  db = drizzle(raw, { schema }) as never;
+});
+
+function notificationTitles(userId: string): string[] {
+  return (
+    raw.prepare(`SELECT title FROM notifications WHERE user_id = ? ORDER BY title`).all(userId) as {
+      title: string;
+    }[]
+  ).map((r) => r.title);
+}
+
+describe("runDeadlineReminders", () => {
+  it("reminds unapplied vendors about public events closing within the week", async () => {
+    addEvent("soon", 2);
+    addEvent("also-soon", 6);
+    addEvent("later", 20);
+    addEvent("passed", -1);
+    addEvent("draft", 3, { status: "DRAFT" });
+    addEvent("called-off", 4, { lifecycle: "CANCELLED" });
+    link("l1", "soon", "INVITED");
+    link("l2", "also-soon", "INTERESTED");
+    link("l3", "later", "INVITED");
+    link("l4", "passed", "INVITED");
+    link("l5", "draft", "INVITED");
+    link("l7", "called-off", "INTERESTED");
+    link("l6", "soon", "APPLIED", "vendor-2");
+
+    const result = await runDeadlineReminders(db, { now: NOW });
+
+    expect(result).toEqual({ links: 2, notified: 2, emailed: 1 });
+    expect(notificationTitles("user-1")).toEqual([
+      expect.stringMatching(/^Applications for Fair also-soon close /),
+      expect.stringMatching(/^Applications for Fair soon close /),
+    ]);
+    expect(notificationTitles("user-2")).toEqual([]);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      to: "maker@example.com",
+      subject: "2 application deadlines this week",
+      source: DEADLINE_REMINDER_EMAIL_SOURCE,
+    });
+    expect(sent[0]!.text).toContain("https://example.test/events/soon");
+    expect(sent[0]!.text).toContain("Fryeburg Fairgrounds, Fryeburg, ME");
+  });
+
+  it("reminds once per deadline, and again when the deadline moves out", async () => {
+    addEvent("soon", 3);
+    link("l1", "soon", "INVITED");
+    await runDeadlineReminders(db, { now: NOW });
+    const again = await runDeadlineReminders(db, { now: new Date(NOW.getTime() + 86400_000) });
+    expect(again.links).toBe(0);
+
+    // Extended by two weeks: the old stamp predates the new deadline's window.
+    raw.prepare(`UPDATE events SET application_deadline = ? WHERE id = 'soon'`).run(day(17));
+    const extended = await runDeadlineReminders(db, {
+      now: new Date(NOW.getTime() + 12 * 86400_000),
+    });
+    expect(extended.links).toBe(1);
+    expect(notificationTitles("user-1")).toHaveLength(2);
+  });
+
+  it("stamps but doesn't email suppressed addresses or users who opted out", async () => {
+    addEvent("soon", 2);
+    link("l1", "soon", "INVITED");
+    link("l2", "soon", "INTERESTED", "vendor-2");
+    raw.exec(`
+      INSERT INTO email_suppression_list VALUES ('maker@example.com', 'bounce', 'test', 0);
+      INSERT INTO notification_preferences VALUES ('user-2', 'application_deadline', 0, 1, 0);
+    `);
+    const result = await runDeadlineReminders(db, { now: NOW });
+    expect(result).toEqual({ links: 2, notified: 2, emailed: 0 });
+    expect(sent).toHaveLength(0);
+    const stamped = raw
+      .prepare(`SELECT COUNT(*) AS n FROM event_vendors WHERE deadline_reminded_at IS NOT NULL`)
+      .get() as { n: number };
+    expect(stamped.n).toBe(2);
+  });
+});
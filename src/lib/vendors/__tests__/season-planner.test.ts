@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSeasonPlan,
+  findDateConflicts,
+  findTravelLegs,
+  findUpcomingDeadlines,
+  parseSeasonParam,
+  totalSeasonFees,
+  type PlannerEntry,
+} from "../season-planner";
+
+const fryeburg = {
+  name: "Fryeburg Fairgrounds",
+  city: "Fryeburg",
+  state: "ME",
+  latitude: 44.0165,
+  longitude: -70.9806,
+};
+const skowhegan = {
+  name: "Skowhegan Fairgrounds",
+  city: "Skowhegan",
+  state: "ME",
+  latitude: 44.7651,
+  longitude: -69.7193,
+};
+const home = { latitude: 43.6591, longitude: -70.2568 };
+
+function entry(name: string, overrides: Partial<PlannerEntry> = {}): PlannerEntry {
+  return {
+    eventId: name,
+    name,
+    slug: name.toLowerCase().replace(/\s+/g, "-"),
+    status: "APPROVED",
+    startDate: null,
+    endDate: null,
+    applicationDeadline: null,
+    vendorFeeMinCents: null,
+    vendorFeeMaxCents: null,
+    venue: null,
+    ...overrides,
+  };
+}
+
+const d = (iso: string) => new Date(`${iso}T12:00:00Z`);
+
+describe("findDateConflicts", () => {
+  it("chains overlapping planned events into one conflict and ignores unapplied ones", () => {
+    const conflicts = findDateConflicts([
+      entry("A", { startDate: d("2026-08-14"), endDate: d("2026-08-16") }),
+      entry("B", { status: "APPLIED", startDate: d("2026-08-16"), endDate: d("2026-08-17") }),
+      entry("C", { status: "CONFIRMED", startDate: d("2026-08-17"), endDate: d("2026-08-18") }),
+      entry("Invite", { status: "INVITED", startDate: d("2026-08-15"), endDate: d("2026-08-15") }),
+      entry("Later", { startDate: d("2026-08-21"), endDate: d("2026-08-23") }),
+    ]);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]!.entries.map((e) => e.name)).toEqual(["A", "B", "C"]);
+    expect(conflicts[0]!.start).toEqual(d("2026-08-14"));
+    expect(conflicts[0]!.end).toEqual(d("2026-08-18"));
+  });
+});
+
+describe("findTravelLegs", () => {
+  it("measures back-to-back shows venue to venue and from home", () => {
+    const legs = findTravelLegs(
+      [
+        entry("Fryeburg", {
+          startDate: d("2026-10-04"),
+          endDate: d("2026-10-11"),
+          venue: fryeburg,
+        }),
+        entry("Skowhegan", {
+          startDate: d("2026-10-13"),
+          endDate: d("2026-10-15"),
+          venue: skowhegan,
+        }),
+        entry("Far off", { startDate: d("2026-10-25"), endDate: d("2026-10-26"), venue: fryeburg }),
+      ],
+      home
+    );
+    expect(legs).toHaveLength(1);
+    expect(legs[0]!.gapDays).toBe(2);
+    expect(legs[0]!.miles).toBeGreaterThan(70);
+    expect(legs[0]!.miles).toBeLessThan(90);
+    expect(legs[0]!.fromHomeMiles).toBeGreaterThan(75);
+  });
+
+  it("leaves distances null when a venue isn't geocoded", () => {
+    const legs = findTravelLegs(
+      [
+        entry("A", { startDate: d("2026-07-01"), endDate: d("2026-07-02"), venue: fryeburg }),
+        entry("B", { startDate: d("2026-07-03"), endDate: d("2026-07-04") }),
+      ],
+      null
+    );
+    expect(legs[0]).toMatchObject({ miles: null, fromHomeMiles: null });
+  });
+});
+
+describe("findUpcomingDeadlines", () => {
+  it("lists unapplied events due within 30 days, soonest first", () => {
+    const now = new Date("2026-06-01T09:00:00Z");
+    const deadlines = findUpcomingDeadlines(
+      [
+        entry("Late", { status: "INTERESTED", applicationDeadline: d("2026-06-20") }),
+        entry("Soon", { status: "INVITED", applicationDeadline: d("2026-06-03") }),
+        entry("Applied", { status: "APPLIED", applicationDeadline: d("2026-06-05") }),
+        entry("Passed", { status: "INVITED", applicationDeadline: d("2026-05-30") }),
+        entry("Far", { status: "INVITED", applicationDeadline: d("2026-07-15") }),
+      ],
+      now
+    );
+    expect(deadlines.map((x) => [x.entry.name, x.daysLeft])).toEqual([
+      ["Soon", 3],
+      ["Late", 20],
+    ]);
+  });
+});
+
+describe("totalSeasonFees", () => {
+  it("splits committed from pending and counts unknown fees apart from free", () => {
+    const fees = totalSeasonFees([
+      entry("A", { vendorFeeMinCents: 15000, vendorFeeMaxCents: 40000 }),
+      entry("B", { status: "CONFIRMED", vendorFeeMinCents: 0, vendorFeeMaxCents: 0 }),
+      entry("C", { status: "APPLIED", vendorFeeMaxCents: 25000 }),
+      entry("D", { status: "APPLIED" }),
+      entry("E", { status: "INVITED", vendorFeeMinCents: 99900 }),
+    ]);
+    expect(fees).toEqual({
+      committed: { events: 2, minCents: 15000, maxCents: 40000 },
+      pending: { events: 1, minCents: 25000, maxCents: 25000 },
+      unknown: 1,
+    });
+  });
+});
+
+describe("buildSeasonPlan", () => {
+  it("scopes conflicts and fees to the chosen season and lists seasons newest first", () => {
+    const entries = [
+      entry("2025 A", {
+        startDate: d("2025-08-01"),
+        endDate: d("2025-08-03"),
+        vendorFeeMinCents: 100,
+      }),
+      entry("2025 B", { startDate: d("2025-08-02"), endDate: d("2025-08-02") }),
+      entry("2026 A", {
+        startDate: d("2026-08-01"),
+        endDate: d("2026-08-03"),
+        vendorFeeMinCents: 500,
+      }),
+    ];
+    const plan = buildSeasonPlan(entries, { now: d("2026-03-01"), season: 2025 });
+    expect(plan.seasons).toEqual([2026, 2025]);
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.fees.committed.minCents).toBe(100);
+    expect(buildSeasonPlan(entries, { now: d("2026-03-01") }).fees.committed.minCents).toBe(500);
+  });
+
+  it("parses ?season= defensively", () => {
+    expect(parseSeasonParam("2027")).toBe(2027);
+    expect(parseSeasonParam(["2025", "2026"])).toBe(2025);
+    expect(parseSeasonParam("27")).toBeNull();
+    expect(parseSeasonParam("1800")).toBeNull();
+    expect(parseSeasonParam(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Application-deadline reminders — runs once a day from the MCP Worker's cron
+ * via POST /api/internal/vendor-deadlines/remind.
+ *
+ * A vendor who was invited to an event, or marked it interesting, and hasn't
+ * applied hears about it once its application deadline is
+ * REMINDER_WINDOW_DAYS or less away:
+ *
+ *   • one `notifications` row per event, unless they switched "Application
+ *     deadlines" off in-app;
+ *   • one email per vendor covering every event closing, skipped for
+ *     suppressed addresses and for users who turned the type's email off.
+ *
+ * Each link is stamped (`event_vendors.deadline_reminded_at`, drizzle/0236)
+ * before the email is queued, so a failed enqueue is logged rather than
+ * retried tomorrow — the in-app row already says the same thing. A stamp that
+ * predates the current deadline's window doesn't count: when a promoter
+ * extends the deadline, the vendor is reminded about the new one.
+ *
+ * The /vendor/calendar season planner shows the same events over a 30-day
+ * horizon (./season-planner.ts); this is the nudge for the last week of it.
+ */
+import { and, asc, eq, gt, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import { chunkIds } from "@takemetothefair/utils";
+import type { Database } from "@/lib/db";
+import {
+  emailSuppressionList,
+  eventVendors,
+  events,
+  users,
+  vendors,
+  venues,
+} from "@/lib/db/schema";
+import { getSiteUrl } from "@/lib/email/send";
+import { applicationDeadlineReminderTemplate } from "@/lib/email/templates";
+import { isPublicEventStatus } from "@/lib/event-status";
+import { logError } from "@/lib/logger";
+import { createNotification, wantsEmail } from "@/lib/notifications/notifications";
+import { enqueueEmail } from "@/lib/queues/producers";
+import { formatDate, formatDateRange } from "@/lib/utils";
+import { UNAPPLIED_STATUSES } from "./season-planner";
+
+export const DEADLINE_REMINDER_EMAIL_SOURCE = "vendor-deadline-reminders";
+
+export const REMINDER_WINDOW_DAYS = 7;
+
+const REMINDER_WINDOW_SECONDS = REMINDER_WINDOW_DAYS * 24 * 60 * 60;
+
+// Links handled per run, soonest deadline first; any remainder is next run's.
+const REMINDER_BATCH = 500;
+
+export interface DeadlineReminderResult {
+  links: number;
+  notified: number;
+  emailed: number;
+}
+
+interface DueLink {
+  linkId: string;
+  status: string;
+  userId: string;
+  email: string | null;
+  userName: string | null;
+  eventId: string;
+  eventName: string;
+  eventSlug: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  deadline: Date | null;
+  venueName: string | null;
+  venueCity: string | null;
+  venueState: string | null;
+}
+
+function placeOf(link: DueLink): string | null {
+  return [link.venueName, link.venueCity, link.venueState].filter(Boolean).join(", ") || null;
+}
+
+export async function runDeadlineReminders(
+  db: Database,
+  opts: { now?: Date } = {}
+): Promise<DeadlineReminderResult> {
+  const now = opts.now ?? new Date();
+  const result: DeadlineReminderResult = { links: 0, notified: 0, emailed: 0 };
+  const horizon = new Date(now.getTime() + REMINDER_WINDOW_SECONDS * 1000);
+
+  const due: DueLink[] = await db
+    .select({
+      linkId: eventVendors.id,
+      status: eventVendors.status,
+      userId: vendors.userId,
+      email: users.email,
+      userName: users.name,
+      eventId: events.id,
+      eventName: events.name,
+      eventSlug: events.slug,
+      startDate: events.startDate,
+      endDate: events.endDate,
+      deadline: events.applicationDeadline,
+      venueName: venues.name,
+      venueCity: venues.city,
+      venueState: venues.state,
+    })
+    .from(eventVendors)
+    .innerJoin(events, eq(eventVendors.eventId, events.id))
+    .innerJoin(vendors, eq(eventVendors.vendorId, vendors.id))
+    .innerJoin(users, eq(vendors.userId, users.id))
+    .leftJoin(venues, eq(events.venueId, venues.id))
+    .where(
+      and(
+        inArray(eventVendors.status, [...UNAPPLIED_STATUSES]),
+        isPublicEventStatus(),
+        gt(events.applicationDeadline, now),
+        lte(events.applicationDeadline, horizon),
+        or(
+          isNull(eventVendors.deadlineRemindedAt),
+          sql`${eventVendors.deadlineRemindedAt} < ${events.applicationDeadline} - ${REMINDER_WINDOW_SECONDS}`
+        )
+      )
+    )
+    .orderBy(asc(events.applicationDeadline))
+    .limit(REMINDER_BATCH);
+  if (due.length === 0) return result;
+  result.links = due.length;
+
+  const byUser = new Map<string, DueLink[]>();
+  for (const link of due) {
+    const deadline = link.deadline ? formatDate(link.deadline) : "soon";
+    // Best-effort, like every other notifications writer.
+    const notified = await createNotification(db, {
+      userId: link.userId,
+      type: "application_deadline",
+      title: `Applications for ${link.eventName} close ${deadline}`,
+      message: `You're ${link.status === "INVITED" ? "invited to" : "interested in"} this event and haven't applied yet.`,
+      data: { eventId: link.eventId, url: `/events/${link.eventSlug}` },
+      now,
+    });
+    if (notified) result.notified += 1;
+    byUser.set(link.userId, [...(byUser.get(link.userId) ?? []), link]);
+  }
+
+  for (const batch of chunkIds(due.map((l) => l.linkId))) {
+    await db
+      .update(eventVendors)
+      .set({ deadlineRemindedAt: now })
+      .where(inArray(eventVendors.id, batch));
+  }
+
+  const siteUrl = getSiteUrl();
+  for (const [userId, links] of byUser) {
+    const address = links[0]!.email?.toLowerCase();
+    if (!address) continue;
+    if (!(await wantsEmail(db, userId, "application_deadline"))) continue;
+    const [suppressed] = await db
+      .select({ email: emailSuppressionList.email })
+      .from(emailSuppressionList)
+      .where(eq(emailSuppressionList.email, address))
+      .limit(1);
+    if (suppressed) continue;
+
+    const tpl = applicationDeadlineReminderTemplate({
+      name: links[0]!.userName,
+      events: links.map((l) => ({
+        name: l.eventName,
+        url: `${siteUrl}/events/${l.eventSlug}`,
+        deadline: l.deadline ? formatDate(l.deadline) : "soon",
+        when: formatDateRange(l.startDate, l.endDate),
+        place: placeOf(l),
+      })),
+      calendarUrl: `${siteUrl}/vendor/calendar`,
+      settingsUrl: `${siteUrl}/dashboard/settings#notifications`,
+    });
+    try {
+      await enqueueEmail({
+        to: address,
+        subject: tpl.subject,
+        html: tpl.html,
+        text: tpl.text,
+        source: DEADLINE_REMINDER_EMAIL_SOURCE,
+      });
+      result.emailed += 1;
+    } catch (error) {
+      await logError(db, {
+        level: "warn",
+        message: "deadline reminders: failed to enqueue email",
+        error,
+        source: "vendor-deadline-reminders",
+        context: { events: links.length },
+      });
+    }
+  }
+
+  return result;
+}
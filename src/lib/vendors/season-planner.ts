@@ -0,0 +1,273 @@
+/**
+ * The vendor season planner behind /vendor/calendar: the vendor's active
+ * applications read as a season rather than a list.
+ *
+ *   • conflicts — APPLIED / APPROVED / CONFIRMED events whose dates overlap,
+ *     so a booth promised to two fairs on the same weekend shows up before
+ *     the second acceptance does, not on the Friday;
+ *   • travel legs — straight-line miles between shows that run back to back,
+ *     beside the miles from home, so "drive straight there or go home first"
+ *     is a glance rather than a map session;
+ *   • deadlines — applications the vendor hasn't made yet (INVITED /
+ *     INTERESTED) whose deadline falls in the next 30 days;
+ *   • fees — the season's booth fees, committed apart from still-pending.
+ *
+ * Pure so the page stays a loader and the arithmetic is testable. This is the
+ * web-side sibling of the MCP `check_date_conflicts` tool and uses the same
+ * day-granularity overlap test.
+ */
+import type { GeoPoint } from "@takemetothefair/utils";
+import { haversineDistance } from "@/lib/geo";
+
+/** Statuses that hold (or are asking for) a booth — the ones that can double-book. */
+export const PLANNED_STATUSES = ["APPLIED", "APPROVED", "CONFIRMED"] as const;
+/** The subset the promoter has said yes to; their fees are money the vendor owes. */
+export const COMMITTED_STATUSES = ["APPROVED", "CONFIRMED"] as const;
+/** Not applied yet — the rows an upcoming deadline is still actionable for. */
+export const UNAPPLIED_STATUSES = ["INVITED", "INTERESTED"] as const;
+
+export const DEADLINE_WINDOW_DAYS = 30;
+/**
+ * The longest gap between one show's last day and the next one's first that
+ * still counts as back to back. Three days covers a Sunday close and a
+ * Wednesday setup; anything longer and the vendor is going home regardless.
+ */
+export const BACK_TO_BACK_GAP_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlannerEntry {
+  eventId: string;
+  name: string;
+  slug: string;
+  status: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  applicationDeadline: Date | null;
+  vendorFeeMinCents: number | null;
+  vendorFeeMaxCents: number | null;
+  venue: {
+    name: string;
+    city: string | null;
+    state: string | null;
+    latitude: number | null;
+    longitude: number | null;
+  } | null;
+}
+
+export interface DateConflict {
+  /** First day of the earliest event to last day of the latest. */
+  start: Date;
+  end: Date;
+  entries: PlannerEntry[];
+}
+
+export interface TravelLeg {
+  from: PlannerEntry;
+  to: PlannerEntry;
+  /** Whole days between `from` ending and `to` starting (0 = next day or same day). */
+  gapDays: number;
+  /** Straight-line venue-to-venue miles; null when either venue isn't geocoded. */
+  miles: number | null;
+  /** Straight-line miles from the vendor's home to `to`; null without both points. */
+  fromHomeMiles: number | null;
+}
+
+export interface UpcomingDeadline {
+  entry: PlannerEntry;
+  deadline: Date;
+  /** Days left, rounded up — a deadline later today reads as 1, not 0. */
+  daysLeft: number;
+}
+
+export interface FeeTotal {
+  events: number;
+  minCents: number;
+  maxCents: number;
+}
+
+export interface SeasonFees {
+  committed: FeeTotal;
+  pending: FeeTotal;
+  /** Planned events in the season that list no booth fee at all. */
+  unknown: number;
+}
+
+export interface SeasonPlan {
+  season: number;
+  /** Years with at least one planned event, newest first — the season picker's options. */
+  seasons: number[];
+  conflicts: DateConflict[];
+  legs: TravelLeg[];
+  deadlines: UpcomingDeadline[];
+  fees: SeasonFees;
+}
+
+function isOneOf<T extends string>(list: readonly T[], value: string): value is T {
+  return (list as readonly string[]).includes(value);
+}
+
+/** Entries with usable dates, ordered by start then end. */
+function dated(
+  entries: readonly PlannerEntry[]
+): (PlannerEntry & { startDate: Date; endDate: Date })[] {
+  return entries
+    .filter((e): e is PlannerEntry & { startDate: Date; endDate: Date } =>
+      Boolean(e.startDate && e.endDate)
+    )
+    .sort(
+      (a, b) =>
+        a.startDate.getTime() - b.startDate.getTime() || a.endDate.getTime() - b.endDate.getTime()
+    );
+}
+
+function venuePoint(entry: PlannerEntry): GeoPoint | null {
+  const v = entry.venue;
+  return v && v.latitude !== null && v.longitude !== null
+    ? { latitude: v.latitude, longitude: v.longitude }
+    : null;
+}
+
+function miles(a: GeoPoint | null, b: GeoPoint | null): number | null {
+  return a && b ? haversineDistance(a.latitude, a.longitude, b.latitude, b.longitude) : null;
+}
+
+/**
+ * Overlapping runs of planned events. Overlap chains: if A overlaps B and B
+ * overlaps C, all three are one conflict even when A and C don't touch —
+ * resolving it means choosing among all of them.
+ */
+export function findDateConflicts(entries: readonly PlannerEntry[]): DateConflict[] {
+  const conflicts: DateConflict[] = [];
+  let run: DateConflict | null = null;
+  for (const entry of dated(entries.filter((e) => isOneOf(PLANNED_STATUSES, e.status)))) {
+    if (run && entry.startDate.getTime() <= run.end.getTime()) {
+      run.entries.push(entry);
+      if (entry.endDate > run.end) run.end = entry.endDate;
+      continue;
+    }
+    if (run && run.entries.length > 1) conflicts.push(run);
+    run = { start: entry.startDate, end: entry.endDate, entries: [entry] };
+  }
+  if (run && run.entries.length > 1) conflicts.push(run);
+  return conflicts;
+}
+
+/**
+ * Consecutive planned events at most BACK_TO_BACK_GAP_DAYS apart. Events that
+ * overlap are conflicts, not legs — there is no drive between two places on
+ * the same day to plan.
+ */
+export function findTravelLegs(
+  entries: readonly PlannerEntry[],
+  home: GeoPoint | null
+): TravelLeg[] {
+  const ordered = dated(entries.filter((e) => isOneOf(PLANNED_STATUSES, e.status)));
+  const legs: TravelLeg[] = [];
+  for (let i = 1; i < ordered.length; i++) {
+    const from = ordered[i - 1]!;
+    const to = ordered[i]!;
+    const gapMs = to.startDate.getTime() - from.endDate.getTime();
+    if (gapMs <= 0) continue;
+    const gapDays = Math.floor(gapMs / DAY_MS);
+    if (gapDays > BACK_TO_BACK_GAP_DAYS) continue;
+    legs.push({
+      from,
+      to,
+      gapDays,
+      miles: miles(venuePoint(from), venuePoint(to)),
+      fromHomeMiles: miles(home, venuePoint(to)),
+    });
+  }
+  return legs;
+}
+
+/** Not-yet-applied events whose application deadline is within `windowDays` of `now`. */
+export function findUpcomingDeadlines(
+  entries: readonly PlannerEntry[],
+  now: Date,
+  windowDays = DEADLINE_WINDOW_DAYS
+): UpcomingDeadline[] {
+  const horizon = now.getTime() + windowDays * DAY_MS;
+  return entries
+    .filter(
+      (e): e is PlannerEntry & { applicationDeadline: Date } =>
+        isOneOf(UNAPPLIED_STATUSES, e.status) &&
+        e.applicationDeadline !== null &&
+        e.applicationDeadline.getTime() >= now.getTime() &&
+        e.applicationDeadline.getTime() <= horizon
+    )
+    .map((entry) => ({
+      entry,
+      deadline: entry.applicationDeadline,
+      daysLeft: Math.ceil((entry.applicationDeadline.getTime() - now.getTime()) / DAY_MS),
+    }))
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+}
+
+/**
+ * Booth fees for the planned events in `entries`. An event listing only one
+ * end of its range counts that figure on both sides; one listing neither is
+ * counted in `unknown` rather than as free, since "free" is a fee of 0.
+ */
+export function totalSeasonFees(entries: readonly PlannerEntry[]): SeasonFees {
+  const committed: FeeTotal = { events: 0, minCents: 0, maxCents: 0 };
+  const pending: FeeTotal = { events: 0, minCents: 0, maxCents: 0 };
+  let unknown = 0;
+  for (const e of entries) {
+    if (!isOneOf(PLANNED_STATUSES, e.status)) continue;
+    const min = e.vendorFeeMinCents ?? e.vendorFeeMaxCents;
+    const max = e.vendorFeeMaxCents ?? e.vendorFeeMinCents;
+    if (min === null || max === null) {
+      unknown += 1;
+      continue;
+    }
+    const total = isOneOf(COMMITTED_STATUSES, e.status) ? committed : pending;
+    total.events += 1;
+    total.minCents += min;
+    total.maxCents += max;
+  }
+  return { committed, pending, unknown };
+}
+
+/** The season an event belongs to: the UTC year it starts in. */
+export function seasonOf(entry: PlannerEntry): number | null {
+  return entry.startDate ? entry.startDate.getUTCFullYear() : null;
+}
+
+/**
+ * The whole plan for one season. `season` defaults to `now`'s year. Conflicts,
+ * legs and fees cover that season's events; deadlines are always the next
+ * DEADLINE_WINDOW_DAYS from `now`, whichever season is being viewed.
+ */
+export function buildSeasonPlan(
+  entries: readonly PlannerEntry[],
+  opts: { now: Date; season?: number | null; home?: GeoPoint | null }
+): SeasonPlan {
+  const season = opts.season ?? opts.now.getUTCFullYear();
+  const inSeason = entries.filter((e) => seasonOf(e) === season);
+  const seasons = [
+    ...new Set(
+      entries
+        .filter((e) => isOneOf(PLANNED_STATUSES, e.status))
+        .map(seasonOf)
+        .filter((y): y is number => y !== null)
+    ),
+  ].sort((a, b) => b - a);
+  return {
+    season,
+    seasons,
+    conflicts: findDateConflicts(inSeason),
+    legs: findTravelLegs(inSeason, opts.home ?? null),
+    deadlines: findUpcomingDeadlines(entries, opts.now),
+    fees: totalSeasonFees(inSeason),
+  };
+}
+
+/** `?season=` from the URL: a plausible four-digit year, else null (the current season). */
+export function parseSeasonParam(value: string | string[] | undefined): number | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (!raw || !/^\d{4}$/.test(raw)) return null;
+  const year = Number(raw);
+  return year >= 2000 && year <= 2100 ? year : null;
+}
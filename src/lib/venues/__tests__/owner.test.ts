@@ -0,0 +1,226 @@
+/**
+ * The venue owner portal's data layer against an in-memory SQLite: ownership
+ * checks, the owner-field allowlist and its audit rows, the Places-compatible
+ * JSON for hours/parking/accessibility, the backfill's respect for owner
+ * edits, and the per-venue events list.
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import * as schema from "@/lib/db/schema";
+import {
+  getOwnedVenue,
+  listOwnedVenues,
+  listVenueEvents,
+  parseVenueHours,
+  parseVenueOptions,
+  updateVenueAsOwner,
+  withoutOwnerEdits,
+  type VenueOwnerUpdate,
+} from "../owner";
+
+const SCHEMA_SQL = `
+  CREATE TABLE venues (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, slug TEXT NOT NULL, address TEXT, city TEXT,
+    state TEXT, zip TEXT, location_id TEXT, location_matched_by TEXT, latitude REAL,
+    longitude REAL, capacity INTEGER, amenities TEXT DEFAULT '[]', contact_email TEXT,
+    contact_phone TEXT, website TEXT, description TEXT, image_url TEXT, google_place_id TEXT,
+    google_maps_url TEXT, opening_hours TEXT, google_rating REAL, google_rating_count INTEGER,
+    google_types TEXT, accessibility TEXT, parking TEXT, status TEXT DEFAULT 'ACTIVE',
+    timezone TEXT, locale TEXT, country TEXT, created_at INTEGER, updated_at INTEGER,
+    image_focal_x REAL, image_focal_y REAL, user_id TEXT, claimed INTEGER NOT NULL DEFAULT 0,
+    claimed_at INTEGER, claimed_by TEXT
+  );
+  CREATE TABLE promoters (id TEXT PRIMARY KEY, company_name TEXT NOT NULL);
+  CREATE TABLE events (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, slug TEXT NOT NULL, status TEXT NOT NULL,
+    lifecycle_status TEXT DEFAULT 'SCHEDULED', start_date INTEGER, end_date INTEGER,
+    venue_id TEXT, promoter_id TEXT
+  );
+  CREATE TABLE admin_actions (
+    id TEXT PRIMARY KEY, action TEXT NOT NULL, actor_user_id TEXT, target_type TEXT NOT NULL,
+    target_id TEXT NOT NULL, payload_json TEXT, created_at INTEGER NOT NULL
+  );
+`;
+
+type Db = Parameters<typeof listOwnedVenues>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const sec = (y: number, m: number, d: number) => Date.UTC(y, m - 1, d, 12) / 1000;
+
+function auditRows() {
+  return raw.prepare(`SELECT * FROM admin_actions`).all() as {
+    action: string;
+    actor_user_id: string | null;
+    target_id: string;
+    payload_json: string;
+  }[];
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  // Bracket-access: see newsletter-confirm-token.test.ts.
+  raw["exec"](SCHEMA_SQL);
+  db = drizzle(raw, { schema }) as unknown as Db;
+  raw["exec"](`
+    INSERT INTO venues (id, name, slug, city, state, capacity, google_place_id, google_rating,
+      opening_hours, user_id, claimed)
+    VALUES
+      ('v-fair', 'Topsham Fairgrounds', 'topsham-fairgrounds', 'Topsham', 'ME', 5000,
+        'place-1', 4.4, '{"weekdayDescriptions":["Monday: Closed"],"periods":[]}', 'owner', 1),
+      ('v-other', 'Cumberland Fairgrounds', 'cumberland-fairgrounds', 'Cumberland', 'ME', NULL,
+        NULL, NULL, NULL, NULL, 0);
+  `);
+});
+
+describe("ownership", () => {
+  it("lists and loads only the caller's venues", async () => {
+    expect((await listOwnedVenues(db, "owner")).map((v) => v.id)).toEqual(["v-fair"]);
+    expect(await listOwnedVenues(db, "someone")).toEqual([]);
+    expect((await getOwnedVenue(db, "owner", "v-fair"))?.name).toBe("Topsham Fairgrounds");
+    expect(await getOwnedVenue(db, "owner", "v-other")).toBeNull();
+  });
+});
+
+describe("updateVenueAsOwner", () => {
+  it("writes the owner fields in the Places JSON shape and audits the change", async () => {
+    const result = await updateVenueAsOwner(db, {
+      venueId: "v-fair",
+      userId: "owner",
+      patch: {
+        capacity: 6000,
+        amenities: ["Restrooms", "RV hookups"],
+        openingHours: ["Saturday: 9:00 AM – 6:00 PM", "Sunday: 9:00 AM – 4:00 PM"],
+        parking: { freeParkingLot: true, valetParking: false },
+        description: "   ",
+      },
+    });
+    expect(result.ok).toBe(true);
+
+    const row = raw.prepare(`SELECT * FROM venues WHERE id = 'v-fair'`).get() as Record<
+      string,
+      unknown
+    >;
+    expect(row.capacity).toBe(6000);
+    expect(JSON.parse(row.amenities as string)).toEqual(["Restrooms", "RV hookups"]);
+    expect(parseVenueHours(row.opening_hours as string)).toEqual([
+      "Saturday: 9:00 AM – 6:00 PM",
+      "Sunday: 9:00 AM – 4:00 PM",
+    ]);
+    expect(parseVenueOptions(row.parking as string)).toEqual({
+      freeParkingLot: true,
+      valetParking: false,
+    });
+    expect(row.description).toBeNull();
+
+    const [audit] = auditRows();
+    expect(audit).toMatchObject({ action: "venue.update", actor_user_id: "owner" });
+    const payload = JSON.parse(audit.payload_json);
+    expect(payload.note).toBe("venue owner portal");
+    expect(Object.keys(payload.changed)).toEqual(
+      expect.arrayContaining(["capacity", "amenities", "openingHours", "parking"])
+    );
+  });
+
+  it("ignores the google* columns and anything else outside the allowlist", async () => {
+    const patch = {
+      contactPhone: "207-555-0100",
+      googleRating: 1,
+      googlePlaceId: "forged",
+      name: "Renamed",
+    } as VenueOwnerUpdate;
+    await updateVenueAsOwner(db, { venueId: "v-fair", userId: "owner", patch });
+
+    const row = raw.prepare(`SELECT * FROM venues WHERE id = 'v-fair'`).get() as Record<
+      string,
+      unknown
+    >;
+    expect(row).toMatchObject({
+      contact_phone: "207-555-0100",
+      google_rating: 4.4,
+      google_place_id: "place-1",
+      name: "Topsham Fairgrounds",
+    });
+  });
+
+  it("refuses a caller who doesn't own the venue, without writing or auditing", async () => {
+    expect(
+      await updateVenueAsOwner(db, {
+        venueId: "v-other",
+        userId: "owner",
+        patch: { capacity: 1 },
+      })
+    ).toEqual({ ok: false });
+    expect(raw.prepare(`SELECT capacity FROM venues WHERE id = 'v-other'`).get()).toEqual({
+      capacity: null,
+    });
+    expect(auditRows()).toEqual([]);
+  });
+
+  it("clears hours and options from empty input", async () => {
+    await updateVenueAsOwner(db, {
+      venueId: "v-fair",
+      userId: "owner",
+      patch: { openingHours: [], accessibility: {} },
+    });
+    expect(
+      raw.prepare(`SELECT opening_hours, accessibility FROM venues WHERE id = 'v-fair'`).get()
+    ).toEqual({ opening_hours: null, accessibility: null });
+  });
+});
+
+describe("withoutOwnerEdits", () => {
+  const backfill = {
+    googleRating: 4.6,
+    openingHours: '{"weekdayDescriptions":["Monday: Open 24 hours"]}',
+    parking: '{"freeParkingLot":true}',
+  };
+
+  it("keeps a claimed venue's filled-in fields and lets Google fill the blanks", () => {
+    const venue = { claimed: true, openingHours: '{"weekdayDescriptions":["x"]}', parking: null };
+    expect(withoutOwnerEdits(venue, backfill)).toEqual({
+      googleRating: 4.6,
+      parking: '{"freeParkingLot":true}',
+    });
+  });
+
+  it("passes an unclaimed venue's update through untouched", () => {
+    const venue = { claimed: false, openingHours: '{"weekdayDescriptions":["x"]}' };
+    expect(withoutOwnerEdits(venue, backfill)).toEqual(backfill);
+  });
+});
+
+describe("parse helpers", () => {
+  it("read what they can and fall back to empty", () => {
+    expect(parseVenueHours(null)).toEqual([]);
+    expect(parseVenueHours("Mon-Fri 9-5")).toEqual([]);
+    expect(parseVenueHours('{"periods":[]}')).toEqual([]);
+    expect(parseVenueOptions('{"freeParkingLot":true,"note":"x"}')).toEqual({
+      freeParkingLot: true,
+    });
+    expect(parseVenueOptions("[true]")).toEqual({});
+  });
+});
+
+describe("listVenueEvents", () => {
+  it("lists submitted events at the venue, soonest first and undated last", async () => {
+    raw["exec"](`
+      INSERT INTO promoters VALUES ('p1', 'Topsham Fair Association');
+      INSERT INTO events (id, name, slug, status, start_date, end_date, venue_id, promoter_id)
+      VALUES
+        ('e-late', 'Harvest Fair', 'harvest-fair', 'APPROVED', ${sec(2026, 8, 10)},
+          ${sec(2026, 8, 15)}, 'v-fair', 'p1'),
+        ('e-early', 'Flea Market', 'flea-market', 'PENDING', ${sec(2026, 6, 1)},
+          ${sec(2026, 6, 1)}, 'v-fair', NULL),
+        ('e-tbd', 'Craft Show', 'craft-show', 'TENTATIVE', NULL, NULL, 'v-fair', NULL),
+        ('e-draft', 'Draft', 'draft', 'DRAFT', ${sec(2026, 7, 1)}, NULL, 'v-fair', 'p1'),
+        ('e-rejected', 'Nope', 'nope', 'REJECTED', ${sec(2026, 7, 1)}, NULL, 'v-fair', NULL),
+        ('e-elsewhere', 'Other', 'other', 'APPROVED', ${sec(2026, 7, 1)}, NULL, 'v-other', NULL);
+    `);
+    const rows = await listVenueEvents(db, "v-fair");
+    expect(rows.map((r) => r.id)).toEqual(["e-early", "e-late", "e-tbd"]);
+    expect(rows[1].promoterName).toBe("Topsham Fair Association");
+    expect(rows[0].promoterName).toBeNull();
+  });
+});
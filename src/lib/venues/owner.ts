@@ -0,0 +1,224 @@
+/**
+ * Venue owners — the /venue portal's data layer (drizzle/0240).
+ *
+ * Ownership is `venues.user_id`, written only when an admin approves a VENUE
+ * claim (src/lib/claims/admin-review.ts). There is no VENUE role and no team:
+ * every read and write here re-checks that the caller is the row's owner.
+ *
+ * Two sources write the same venue row, and each keeps to its own columns:
+ *
+ *   - The owner edits the details a fairground manager actually knows —
+ *     hours, amenities, parking, accessibility, capacity, contact and photo
+ *     (`VENUE_OWNER_FIELDS`). Name, address and coordinates stay with admins.
+ *   - The Places backfill owns the google* columns (`GOOGLE_MANAGED_FIELDS`),
+ *     which the owner sees but can't change. It also fills hours, parking and
+ *     accessibility, so `withoutOwnerEdits` keeps it from overwriting anything
+ *     the owner of a claimed venue has already filled in.
+ *
+ * Every owner edit is recorded through recordMutation, same as an admin's.
+ */
+import { and, asc, eq, notInArray } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import { events, promoters, venues } from "@/lib/db/schema";
+import { recordMutation } from "@/lib/audit/record-mutation";
+
+export const VENUE_OWNER_FIELDS = [
+  "capacity",
+  "amenities",
+  "description",
+  "contactEmail",
+  "contactPhone",
+  "website",
+  "imageUrl",
+  "openingHours",
+  "accessibility",
+  "parking",
+] as const;
+export type VenueOwnerField = (typeof VENUE_OWNER_FIELDS)[number];
+
+/** Columns the Places backfill writes and owners only read. */
+export const GOOGLE_MANAGED_FIELDS = [
+  "googlePlaceId",
+  "googleMapsUrl",
+  "googleRating",
+  "googleRatingCount",
+  "googleTypes",
+] as const;
+
+export type OwnedVenue = typeof venues.$inferSelect;
+
+/** The venues `userId` owns, by name. */
+export async function listOwnedVenues(db: Database, userId: string): Promise<OwnedVenue[]> {
+  return db.select().from(venues).where(eq(venues.userId, userId)).orderBy(asc(venues.name));
+}
+
+/** One venue, only if `userId` owns it. */
+export async function getOwnedVenue(
+  db: Database,
+  userId: string,
+  venueId: string
+): Promise<OwnedVenue | null> {
+  const [venue] = await db
+    .select()
+    .from(venues)
+    .where(and(eq(venues.id, venueId), eq(venues.userId, userId)))
+    .limit(1);
+  return venue ?? null;
+}
+
+export interface VenueOwnerUpdate {
+  capacity?: number | null;
+  amenities?: string[];
+  description?: string | null;
+  contactEmail?: string | null;
+  contactPhone?: string | null;
+  website?: string | null;
+  imageUrl?: string | null;
+  /** One line per day, e.g. "Monday: 9:00 AM – 5:00 PM". */
+  openingHours?: string[] | null;
+  /** Google Places option keys → offered or not. */
+  accessibility?: Partial<Record<string, boolean>> | null;
+  parking?: Partial<Record<string, boolean>> | null;
+}
+
+export type VenueOwnerUpdateResult = { ok: true; venue: OwnedVenue } | { ok: false };
+
+/**
+ * Apply an owner's edit. Only `VENUE_OWNER_FIELDS` present in `patch` are
+ * written — anything else the caller passes is ignored — and a blank string
+ * or empty list clears the field. Hours, accessibility and parking are stored
+ * in the JSON shape the Places backfill writes (see src/lib/google-maps.ts),
+ * so the venue page and the admin editor read an owner's edit the same way.
+ * `{ ok: false }` when `userId` doesn't own the venue.
+ */
+export async function updateVenueAsOwner(
+  db: Database,
+  args: { venueId: string; userId: string; patch: VenueOwnerUpdate }
+): Promise<VenueOwnerUpdateResult> {
+  const before = await getOwnedVenue(db, args.userId, args.venueId);
+  if (!before) return { ok: false };
+
+  const set: Partial<Record<VenueOwnerField, string | number | null>> = {};
+  for (const field of VENUE_OWNER_FIELDS) {
+    if (!(field in args.patch)) continue;
+    const value = args.patch[field];
+    if (field === "amenities") {
+      set.amenities = JSON.stringify(value ?? []);
+    } else if (field === "openingHours") {
+      const lines = (value as string[] | null | undefined) ?? [];
+      set.openingHours = lines.length > 0 ? JSON.stringify({ weekdayDescriptions: lines }) : null;
+    } else if (field === "accessibility" || field === "parking") {
+      const options = (value as Record<string, boolean> | null | undefined) ?? {};
+      set[field] = Object.keys(options).length > 0 ? JSON.stringify(options) : null;
+    } else if (typeof value === "string") {
+      set[field] = value.trim() === "" ? null : value.trim();
+    } else {
+      set[field] = (value as number | null | undefined) ?? null;
+    }
+  }
+  if (Object.keys(set).length === 0) return { ok: true, venue: before };
+
+  await db
+    .update(venues)
+    .set(set as Partial<typeof venues.$inferInsert>)
+    .where(eq(venues.id, before.id));
+  await recordMutation(db, {
+    entityType: "venue",
+    entityId: before.id,
+    verb: "update",
+    actor: args.userId,
+    before: Object.fromEntries(Object.keys(set).map((k) => [k, before[k as VenueOwnerField]])),
+    after: set,
+    note: "venue owner portal",
+  });
+
+  const after = await getOwnedVenue(db, args.userId, before.id);
+  return { ok: true, venue: after ?? before };
+}
+
+/** The day lines out of a stored `opening_hours` value; [] when unreadable. */
+export function parseVenueHours(stored: string | null): string[] {
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as { weekdayDescriptions?: unknown };
+    return Array.isArray(parsed.weekdayDescriptions)
+      ? parsed.weekdayDescriptions.filter((d): d is string => typeof d === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** A stored accessibility/parking option map; {} when unreadable. */
+export function parseVenueOptions(stored: string | null): Record<string, boolean> {
+  if (!stored) return {};
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter((e): e is [string, boolean] => typeof e[1] === "boolean")
+    );
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Drop the owner-editable fields a claimed venue already has a value for from
+ * a Places backfill update. Google still fills blanks; it never replaces what
+ * the owner wrote. Unclaimed venues get the update unchanged.
+ */
+export function withoutOwnerEdits<T extends Record<string, unknown>>(
+  venue: { claimed: boolean | null } & Partial<Record<VenueOwnerField, unknown>>,
+  updates: T
+): T {
+  if (!venue.claimed) return updates;
+  const kept: Record<string, unknown> = { ...updates };
+  for (const field of VENUE_OWNER_FIELDS) {
+    const current = venue[field];
+    if (field in kept && current != null && current !== "" && current !== "[]") {
+      delete kept[field];
+    }
+  }
+  return kept as T;
+}
+
+/**
+ * Statuses an owner sees on their events list: everything that has been
+ * submitted, including what's still waiting for review. Drafts haven't been
+ * submitted, and rejected events were never going to happen there.
+ */
+const HIDDEN_FROM_OWNER = ["DRAFT", "REJECTED"] as const;
+
+export interface VenueEventRow {
+  id: string;
+  name: string;
+  slug: string;
+  status: string;
+  lifecycleStatus: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  promoterName: string | null;
+}
+
+/** Every event scheduled at `venueId`, soonest first; undated events last. */
+export async function listVenueEvents(db: Database, venueId: string): Promise<VenueEventRow[]> {
+  const rows = await db
+    .select({
+      id: events.id,
+      name: events.name,
+      slug: events.slug,
+      status: events.status,
+      lifecycleStatus: events.lifecycleStatus,
+      startDate: events.startDate,
+      endDate: events.endDate,
+      promoterName: promoters.companyName,
+    })
+    .from(events)
+    .leftJoin(promoters, eq(events.promoterId, promoters.id))
+    .where(and(eq(events.venueId, venueId), notInArray(events.status, [...HIDDEN_FROM_OWNER])))
+    .orderBy(asc(events.startDate));
+  const dated = rows.filter((r) => r.startDate);
+  const undated = rows.filter((r) => !r.startDate);
+  return [...dated, ...undated].map((r) => ({ ...r, slug: r.slug as unknown as string }));
+}
@@ -0,0 +1,255 @@
+/**
+ * Waitlist promotion: who gets offered a freed booth, how an unanswered offer
+ * cascades, what accepting and declining do, and that every step is audited
+ * without the offer token ever reaching the admin log.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+
+const sent: { to: string; subject: string; text: string; source?: string }[] = [];
+vi.mock("@/lib/email/send", () => ({ getSiteUrl: () => "https://example.test" }));
+vi.mock("@/lib/queues/producers", () => ({
+  enqueueEmail: async (args: { to: string; subject: string; text: string }) => {
+    sent.push(args);
+  },
+}));
+vi.mock("@/lib/server-analytics", () => ({
+  trackVendorStatusChange: vi.fn(async () => undefined),
+}));
+vi.mock("@/lib/logger", () => ({ logError: vi.fn(async () => undefined) }));
+
+import {
+  answerWaitlistOffer,
+  handleApplicationStatusChange,
+  reconcileWaitlist,
+  sweepWaitlists,
+  WAITLIST_EMAIL_SOURCE,
+} from "../promotion";
+
+const SCHEMA_SQL = `
+  CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT);
+  CREATE TABLE events (id TEXT PRIMARY KEY, name TEXT NOT NULL, slug TEXT NOT NULL);
+  CREATE TABLE vendors (
+    id TEXT PRIMARY KEY, user_id TEXT, business_name TEXT NOT NULL, contact_email TEXT
+  );
+  CREATE TABLE event_vendors (
+    id TEXT PRIMARY KEY, event_id TEXT NOT NULL, vendor_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'APPLIED', created_at INTEGER, updated_at INTEGER
+  );
+  CREATE TABLE event_booth_capacity (
+    event_id TEXT PRIMARY KEY, capacity INTEGER NOT NULL, offer_hours INTEGER NOT NULL DEFAULT 48,
+    updated_at INTEGER, updated_by_user_id TEXT
+  );
+  CREATE TABLE waitlist_offers (
+    token TEXT PRIMARY KEY, event_id TEXT NOT NULL, event_vendor_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'OFFERED', expires_at INTEGER NOT NULL, used_at INTEGER,
+    created_at INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX idx_waitlist_offers_live ON waitlist_offers (event_vendor_id)
+    WHERE status = 'OFFERED';
+  CREATE TABLE admin_actions (
+    id TEXT PRIMARY KEY, action TEXT NOT NULL, actor_user_id TEXT, target_type TEXT NOT NULL,
+    target_id TEXT NOT NULL, payload_json TEXT, created_at INTEGER NOT NULL
+  );
+`;
+
+type Db = Parameters<typeof reconcileWaitlist>[0];
+let raw: InstanceType<typeof Database>;
+let db: Db;
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+const hoursLater = (h: number) => new Date(NOW.getTime() + h * 60 * 60 * 1000);
+
+function link(id: string, vendorId: string, status: string, createdAt: number) {
+  raw
+    .prepare(
+      `INSERT INTO event_vendors (id, event_id, vendor_id, status, created_at) VALUES (?, 'e1', ?, ?, ?)`
+    )
+    .run(id, vendorId, status, createdAt);
+}
+
+function status(id: string) {
+  return (
+    raw.prepare(`SELECT status FROM event_vendors WHERE id = ?`).get(id) as { status: string }
+  ).status;
+}
+
+function offers() {
+  return raw
+    .prepare(`SELECT token, event_vendor_id, status FROM waitlist_offers ORDER BY event_vendor_id`)
+    .all() as { token: string; event_vendor_id: string; status: string }[];
+}
+
+function liveToken(eventVendorId: string) {
+  return offers().find((o) => o.event_vendor_id === eventVendorId && o.status === "OFFERED")!.token;
+}
+
+beforeEach(() => {
+  raw = new Database(":memory:");
+  raw["exec"](SCHEMA_SQL);
+  db = drizzle(raw) as unknown as Db;
+  sent.length = 0;
+  raw["exec"](`
+    INSERT INTO users VALUES ('u-v1', 'owner1@example.com'), ('u-v3', 'owner3@example.com');
+    INSERT INTO events VALUES ('e1', 'Topsham Fair', 'topsham-fair');
+    INSERT INTO vendors VALUES
+      ('v1', 'u-v1', 'Maple Farm', NULL),
+      ('v2', NULL, 'Kettle Corn', 'kettle@corn.test'),
+      ('v3', 'u-v3', 'Wool Works', 'wool@works.test'),
+      ('v4', NULL, 'Pie Stand', 'pie@stand.test');
+    INSERT INTO event_booth_capacity (event_id, capacity, offer_hours) VALUES ('e1', 1, 24);
+  `);
+  // One booth, taken; three vendors waiting — a3 applied first.
+  link("a1", "v1", "APPROVED", 1750000000);
+  link("a2", "v2", "WAITLISTED", 1750000300);
+  link("a3", "v3", "WAITLISTED", 1750000100);
+  link("a4", "v4", "WAITLISTED", 1750000200);
+});
+
+async function withdraw(id: string) {
+  raw.prepare(`UPDATE event_vendors SET status = 'WITHDRAWN' WHERE id = ?`).run(id);
+  await handleApplicationStatusChange(db, {
+    eventId: "e1",
+    eventVendorId: id,
+    from: "APPROVED",
+    to: "WITHDRAWN",
+    actor: "u-v1",
+  });
+}
+
+describe("reconcileWaitlist", () => {
+  it("offers a freed booth to the earliest waitlisted application and emails them", async () => {
+    await withdraw("a1");
+
+    expect(offers()).toEqual([
+      expect.objectContaining({ event_vendor_id: "a3", status: "OFFERED" }),
+    ]);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe("wool@works.test");
+    expect(sent[0].source).toBe(WAITLIST_EMAIL_SOURCE);
+    expect(sent[0].text).toContain(`https://example.test/waitlist-offers/${liveToken("a3")}`);
+  });
+
+  it("does nothing for an event without a capacity", async () => {
+    raw["exec"](`DELETE FROM event_booth_capacity`);
+    await withdraw("a1");
+    expect(offers()).toEqual([]);
+    expect(sent).toEqual([]);
+  });
+
+  it("counts an open offer as an occupied booth", async () => {
+    await withdraw("a1");
+    const again = await reconcileWaitlist(db, "e1", NOW);
+    expect(again.offered).toBe(0);
+    expect(offers()).toHaveLength(1);
+  });
+
+  it("expires an unanswered offer and cascades to the next vendor, skipping the lapsed one", async () => {
+    await reconcileWaitlist(db, "e1", NOW);
+    raw["exec"](`UPDATE event_booth_capacity SET capacity = 2`);
+    await reconcileWaitlist(db, "e1", NOW);
+    expect(offers().map((o) => o.event_vendor_id)).toEqual(["a3"]);
+
+    const swept = await sweepWaitlists(db, hoursLater(25));
+    expect(swept).toMatchObject({ events: 1, failed: 0, expired: 1, offered: 1 });
+    expect(offers().map((o) => [o.event_vendor_id, o.status])).toEqual([
+      ["a3", "EXPIRED"],
+      ["a4", "OFFERED"],
+    ]);
+    // The lapsed vendor stays on the waitlist for the promoter to approve by hand.
+    expect(status("a3")).toBe("WAITLISTED");
+  });
+
+  it("voids an offer once the promoter moves the application by hand", async () => {
+    await withdraw("a1");
+    raw.prepare(`UPDATE event_vendors SET status = 'REJECTED' WHERE id = 'a3'`).run();
+    const result = await reconcileWaitlist(db, "e1", NOW);
+    expect(result).toEqual({ expired: 0, voided: 1, offered: 1 });
+    expect(offers().map((o) => [o.event_vendor_id, o.status])).toEqual([
+      ["a3", "VOID"],
+      ["a4", "OFFERED"],
+    ]);
+  });
+});
+
+describe("answerWaitlistOffer", () => {
+  it("approves the application on accept", async () => {
+    await withdraw("a1");
+    const result = await answerWaitlistOffer(db, liveToken("a3"), "accept", hoursLater(1));
+    expect(result).toEqual({ ok: true, outcome: "ACCEPTED", eventId: "e1" });
+    expect(status("a3")).toBe("APPROVED");
+    expect(offers()[0].status).toBe("ACCEPTED");
+  });
+
+  it("withdraws the application on decline and offers the booth to the next vendor", async () => {
+    await withdraw("a1");
+    const result = await answerWaitlistOffer(db, liveToken("a3"), "decline", hoursLater(1));
+    expect(result).toMatchObject({ ok: true, outcome: "DECLINED" });
+    expect(status("a3")).toBe("WITHDRAWN");
+    expect(offers().map((o) => [o.event_vendor_id, o.status])).toEqual([
+      ["a3", "DECLINED"],
+      ["a4", "OFFERED"],
+    ]);
+    expect(sent.map((s) => s.to)).toEqual(["wool@works.test", "pie@stand.test"]);
+  });
+
+  it("refuses a second answer, an expired link and an unknown token", async () => {
+    await withdraw("a1");
+    const token = liveToken("a3");
+    await answerWaitlistOffer(db, token, "accept", hoursLater(1));
+    expect(await answerWaitlistOffer(db, token, "decline", hoursLater(1))).toEqual({
+      ok: false,
+      reason: "used",
+    });
+    expect(await answerWaitlistOffer(db, "x".repeat(43), "accept", NOW)).toEqual({
+      ok: false,
+      reason: "not-found",
+    });
+
+    raw["exec"](`UPDATE event_booth_capacity SET capacity = 2`);
+    await reconcileWaitlist(db, "e1", hoursLater(1));
+    expect(await answerWaitlistOffer(db, liveToken("a4"), "accept", hoursLater(30))).toEqual({
+      ok: false,
+      reason: "expired",
+    });
+    expect(status("a4")).toBe("WAITLISTED");
+  });
+
+  it("refuses an accept when the booth was filled by hand in the meantime", async () => {
+    await withdraw("a1");
+    raw.prepare(`UPDATE event_vendors SET status = 'APPROVED' WHERE id = 'a2'`).run();
+    expect(await answerWaitlistOffer(db, liveToken("a3"), "accept", hoursLater(1))).toEqual({
+      ok: false,
+      reason: "full",
+    });
+    expect(status("a3")).toBe("WAITLISTED");
+  });
+});
+
+describe("audit trail", () => {
+  it("records the withdrawal, the offer and the answer, without the token", async () => {
+    await withdraw("a1");
+    const token = liveToken("a3");
+    await answerWaitlistOffer(db, token, "accept", hoursLater(1));
+
+    const rows = raw
+      .prepare(`SELECT action, actor_user_id, target_id, payload_json FROM admin_actions`)
+      .all() as {
+      action: string;
+      actor_user_id: string | null;
+      target_id: string;
+      payload_json: string;
+    }[];
+    expect(rows.map((r) => [r.action, r.target_id, r.actor_user_id])).toEqual([
+      ["event_vendor.update", "a1", "u-v1"],
+      ["waitlist_offer.create", "a3", null],
+      ["waitlist_offer.update", "a3", "u-v3"],
+      ["event_vendor.update", "a3", "u-v3"],
+    ]);
+    expect(JSON.parse(rows[3].payload_json).changed).toEqual({
+      status: { from: "WAITLISTED", to: "APPROVED" },
+    });
+    for (const row of rows) expect(row.payload_json).not.toContain(token);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Accept/decline links for waitlist offers (drizzle/0228).
+ *
+ * Same lifecycle as the correction-form tokens in src/lib/correction-tokens.ts,
+ * and the same token generator:
+ *   - issueWaitlistOffer: promotion.ts calls this when a slot opens. One row in
+ *     waitlist_offers, bound to (event_id, event_vendor_id).
+ *   - lookupWaitlistOffer: GET /waitlist-offers/<token> renders from the
+ *     `status` discriminator (live / used / expired / not-found).
+ *   - consumeWaitlistOffer: the accept/decline POST. Atomic — a false return
+ *     means someone else (a second tab, the expiry sweep) got there first.
+ *
+ * Unlike a correction token an offer has an outcome, so "consume" records
+ * which one and `used` carries it back for the status page.
+ */
+
+import { and, eq, gt, isNull } from "drizzle-orm";
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import * as schema from "@/lib/db/schema";
+import { waitlistOffers, type WaitlistOfferStatus } from "@/lib/db/schema";
+import { generateUrlToken } from "@/lib/correction-tokens";
+
+type Db = DrizzleD1Database<typeof schema>;
+
+export async function issueWaitlistOffer(
+  db: Db,
+  args: { eventId: string; eventVendorId: string; offerHours: number; now: Date }
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = generateUrlToken();
+  const expiresAt = new Date(args.now.getTime() + args.offerHours * 60 * 60 * 1000);
+  await db.insert(waitlistOffers).values({
+    token,
+    eventId: args.eventId,
+    eventVendorId: args.eventVendorId,
+    status: "OFFERED",
+    expiresAt,
+    usedAt: null,
+    createdAt: args.now,
+  });
+  return { token, expiresAt };
+}
+
+interface OfferRef {
+  eventId: string;
+  eventVendorId: string;
+  expiresAt: Date;
+}
+
+export type WaitlistOfferLookup =
+  | ({ status: "live" } & OfferRef)
+  | ({ status: "used"; outcome: Exclude<WaitlistOfferStatus, "OFFERED"> } & OfferRef)
+  | ({ status: "expired" } & OfferRef)
+  | { status: "not-found" };
+
+export async function lookupWaitlistOffer(
+  db: Db,
+  token: string,
+  now: Date = new Date()
+): Promise<WaitlistOfferLookup> {
+  if (!token || token.length < 16) return { status: "not-found" };
+  const [row] = await db
+    .select()
+    .from(waitlistOffers)
+    .where(eq(waitlistOffers.token, token))
+    .limit(1);
+  if (!row) return { status: "not-found" };
+  const ref: OfferRef = {
+    eventId: row.eventId,
+    eventVendorId: row.eventVendorId,
+    expiresAt: row.expiresAt,
+  };
+  // An EXPIRED row reads as "expired", not "used" — the vendor never answered.
+  if (row.status === "EXPIRED") return { status: "expired", ...ref };
+  if (row.status !== "OFFERED") return { status: "used", outcome: row.status, ...ref };
+  // Past its deadline but not swept yet: already dead to the vendor.
+  if (row.expiresAt.getTime() <= now.getTime()) return { status: "expired", ...ref };
+  return { status: "live", ...ref };
+}
+
+/**
+ * Atomically close a live offer with the vendor's answer. The WHERE clause
+ * re-checks OFFERED, unused and unexpired, so it loses cleanly to a
+ * concurrent answer or to the expiry sweep.
+ */
+export async function consumeWaitlistOffer(
+  db: Db,
+  token: string,
+  outcome: "ACCEPTED" | "DECLINED",
+  now: Date = new Date()
+): Promise<boolean> {
+  const result = await db
+    .update(waitlistOffers)
+    .set({ status: outcome, usedAt: now })
+    .where(
+      and(
+        eq(waitlistOffers.token, token),
+        eq(waitlistOffers.status, "OFFERED"),
+        isNull(waitlistOffers.usedAt),
+        gt(waitlistOffers.expiresAt, now)
+      )
+    )
+    .returning({ token: waitlistOffers.token });
+  return result.length > 0;
+}
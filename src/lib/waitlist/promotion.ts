@@ -0,0 +1,460 @@
+/**
+ * Automatic waitlist promotion (drizzle/0228).
+ *
+ * An event opts in by setting a booth capacity (`event_booth_capacity`). From
+ * then on the rule is a reconcile, not a trigger:
+ *
+ *   occupied = APPROVED + CONFIRMED applications + offers still open
+ *   open     = capacity − occupied
+ *
+ * and each open slot is offered to the next WAITLISTED application, oldest
+ * application first. Reconciling on the condition rather than on call sites
+ * means a slot freed anywhere — the vendor's withdraw button, the promoter
+ * board, the admin screen, an MCP tool in the other Worker, a deleted row —
+ * is picked up: app writers call `handleApplicationStatusChange` for an
+ * immediate offer, and the hourly sweep (`sweepWaitlists`) catches the rest
+ * and expires unanswered offers, which is what makes the offer cascade.
+ *
+ * Who gets skipped: a vendor whose offer for this event expired or who
+ * declined one is not offered again automatically. An expired vendor stays
+ * WAITLISTED (the promoter can still approve them by hand); a decline moves
+ * the application to WITHDRAWN, since the vendor said no.
+ *
+ * Every step — the withdrawal that opened the slot, each offer, each expiry,
+ * accept and decline — is written through recordMutation, with the sweep
+ * acting as `waitlist_promotion`. Offer rows are audited against the
+ * application id: the token is the vendor's credential and must not be
+ * readable from the admin action log.
+ */
+import { and, asc, eq, inArray, lte, sql } from "drizzle-orm";
+import type { Database } from "@/lib/db";
+import {
+  eventBoothCapacity,
+  eventVendors,
+  events,
+  users,
+  vendors,
+  waitlistOffers,
+} from "@/lib/db/schema";
+import type { EventVendorStatus } from "@/lib/constants";
+import { recordMutation } from "@/lib/audit/record-mutation";
+import { formatEventDateTime } from "@/lib/datetime";
+import { getSiteUrl } from "@/lib/email/send";
+import { waitlistOfferTemplate } from "@/lib/email/templates";
+import { logError } from "@/lib/logger";
+import { enqueueEmail } from "@/lib/queues/producers";
+import { trackVendorStatusChange } from "@/lib/server-analytics";
+import { consumeWaitlistOffer, issueWaitlistOffer, lookupWaitlistOffer } from "./offer-tokens";
+
+/** Machine identity on audit rows written by the reconcile itself. */
+export const WAITLIST_ACTOR = "waitlist_promotion";
+export const WAITLIST_EMAIL_SOURCE = "waitlist-offers";
+
+const OCCUPYING: EventVendorStatus[] = ["APPROVED", "CONFIRMED"];
+const VACATING: EventVendorStatus[] = ["WITHDRAWN", "CANCELLED"];
+
+/** Whether a status change hands a booth back. */
+export function opensSlot(from: string, to: string): boolean {
+  return (
+    OCCUPYING.includes(from as EventVendorStatus) && VACATING.includes(to as EventVendorStatus)
+  );
+}
+
+export interface ReconcileResult {
+  expired: number;
+  voided: number;
+  offered: number;
+}
+
+/**
+ * Bring one event's offers in line with its capacity. Safe to call any
+ * number of times; with nothing to do it does nothing.
+ */
+export async function reconcileWaitlist(
+  db: Database,
+  eventId: string,
+  now: Date = new Date()
+): Promise<ReconcileResult> {
+  const result: ReconcileResult = { expired: 0, voided: 0, offered: 0 };
+
+  const live = await db
+    .select({
+      token: waitlistOffers.token,
+      eventVendorId: waitlistOffers.eventVendorId,
+      expiresAt: waitlistOffers.expiresAt,
+      applicationStatus: eventVendors.status,
+    })
+    .from(waitlistOffers)
+    .innerJoin(eventVendors, eq(waitlistOffers.eventVendorId, eventVendors.id))
+    .where(and(eq(waitlistOffers.eventId, eventId), eq(waitlistOffers.status, "OFFERED")));
+
+  let stillLive = 0;
+  for (const offer of live) {
+    // The application left the waitlist some other way while the offer was
+    // open (promoter approved or rejected it by hand). The offer is moot.
+    const next =
+      offer.applicationStatus !== "WAITLISTED"
+        ? "VOID"
+        : offer.expiresAt.getTime() <= now.getTime()
+          ? "EXPIRED"
+          : null;
+    if (!next) {
+      stillLive += 1;
+      continue;
+    }
+    const closed = await db
+      .update(waitlistOffers)
+      .set({ status: next })
+      .where(and(eq(waitlistOffers.token, offer.token), eq(waitlistOffers.status, "OFFERED")))
+      .returning({ token: waitlistOffers.token });
+    if (closed.length === 0) continue; // answered in the meantime
+    if (next === "EXPIRED") result.expired += 1;
+    else result.voided += 1;
+    await recordMutation(db, {
+      entityType: "waitlist_offer",
+      entityId: offer.eventVendorId,
+      verb: "update",
+      actor: WAITLIST_ACTOR,
+      before: { status: "OFFERED" },
+      after: { status: next },
+      note: `event ${eventId}`,
+    });
+  }
+
+  const [settings] = await db
+    .select({ capacity: eventBoothCapacity.capacity, offerHours: eventBoothCapacity.offerHours })
+    .from(eventBoothCapacity)
+    .where(eq(eventBoothCapacity.eventId, eventId))
+    .limit(1);
+  if (!settings) return result;
+
+  const [{ occupied }] = await db
+    .select({ occupied: sql<number>`count(*)` })
+    .from(eventVendors)
+    .where(and(eq(eventVendors.eventId, eventId), inArray(eventVendors.status, OCCUPYING)));
+  const open = settings.capacity - Number(occupied) - stillLive;
+  if (open <= 0) return result;
+
+  // Oldest application first. Anyone with an open, expired or declined offer
+  // for this event is out of the running (VOID offers don't count against a
+  // vendor — those closed because the promoter acted, not the vendor).
+  const candidates = await db
+    .select({
+      id: eventVendors.id,
+      businessName: vendors.businessName,
+      contactEmail: vendors.contactEmail,
+      ownerEmail: users.email,
+    })
+    .from(eventVendors)
+    .innerJoin(vendors, eq(eventVendors.vendorId, vendors.id))
+    .leftJoin(users, eq(vendors.userId, users.id))
+    .where(
+      and(
+        eq(eventVendors.eventId, eventId),
+        eq(eventVendors.status, "WAITLISTED"),
+        sql`NOT EXISTS (SELECT 1 FROM waitlist_offers wo WHERE wo.event_vendor_id = ${eventVendors.id} AND wo.status IN ('OFFERED', 'EXPIRED', 'DECLINED'))`
+      )
+    )
+    .orderBy(asc(eventVendors.createdAt), asc(eventVendors.id))
+    .limit(open);
+  if (candidates.length === 0) return result;
+
+  const [event] = await db
+    .select({ name: events.name, slug: events.slug })
+    .from(events)
+    .where(eq(events.id, eventId))
+    .limit(1);
+  const siteUrl = getSiteUrl();
+
+  for (const candidate of candidates) {
+    let offer: { token: string; expiresAt: Date };
+    try {
+      offer = await issueWaitlistOffer(db, {
+        eventId,
+        eventVendorId: candidate.id,
+        offerHours: settings.offerHours,
+        now,
+      });
+    } catch {
+      // idx_waitlist_offers_live: a concurrent reconcile offered this vendor first.
+      continue;
+    }
+    result.offered += 1;
+    await recordMutation(db, {
+      entityType: "waitlist_offer",
+      entityId: candidate.id,
+      verb: "create",
+      actor: WAITLIST_ACTOR,
+      after: {
+        eventId,
+        status: "OFFERED",
+        expiresAt: offer.expiresAt.toISOString(),
+      },
+    });
+
+    const to = candidate.contactEmail || candidate.ownerEmail;
+    if (!to || !event) continue;
+    const tpl = waitlistOfferTemplate({
+      businessName: candidate.businessName,
+      eventName: event.name,
+      eventUrl: `${siteUrl}/events/${event.slug}`,
+      offerUrl: `${siteUrl}/waitlist-offers/${offer.token}`,
+      expiresAt: formatEventDateTime(offer.expiresAt),
+    });
+    // An offer whose email never went out still expires and cascades, so a
+    // failed enqueue is logged rather than allowed to stall the waitlist.
+    try {
+      await enqueueEmail({
+        to,
+        subject: tpl.subject,
+        html: tpl.html,
+        text: tpl.text,
+        source: WAITLIST_EMAIL_SOURCE,
+      });
+    } catch (error) {
+      await logError(db, {
+        level: "warn",
+        message: "waitlist: failed to enqueue offer email",
+        error,
+        source: "waitlist-promotion",
+        context: { eventId, eventVendorId: candidate.id },
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Call after committing an application status change. Records the change when
+ * it hands a booth back and reconciles the event straight away, so the next
+ * vendor hears within seconds rather than at the next sweep.
+ *
+ * Never throws: the caller's write already happened, and the hourly sweep
+ * retries whatever this could not do.
+ */
+export async function handleApplicationStatusChange(
+  db: Database,
+  args: { eventId: string; eventVendorId: string; from: string; to: string; actor: string }
+): Promise<void> {
+  if (!opensSlot(args.from, args.to)) return;
+  try {
+    await recordMutation(db, {
+      entityType: "event_vendor",
+      entityId: args.eventVendorId,
+      verb: "update",
+      actor: args.actor,
+      before: { status: args.from },
+      after: { status: args.to },
+      note: `slot opened on event ${args.eventId}`,
+    });
+    await reconcileWaitlist(db, args.eventId);
+  } catch (error) {
+    await logError(db, {
+      message: "waitlist: reconcile after status change failed",
+      error,
+      source: "waitlist-promotion",
+      context: { eventId: args.eventId, eventVendorId: args.eventVendorId },
+    });
+  }
+}
+
+export type OfferAnswerResult =
+  | { ok: true; outcome: "ACCEPTED" | "DECLINED"; eventId: string }
+  | { ok: false; reason: "not-found" | "used" | "expired" | "full" };
+
+/**
+ * The vendor's answer to an offer, from the token link. Accepting moves the
+ * application to APPROVED; declining moves it to WITHDRAWN and immediately
+ * offers the slot to the next vendor.
+ */
+export async function answerWaitlistOffer(
+  db: Database,
+  token: string,
+  answer: "accept" | "decline",
+  now: Date = new Date()
+): Promise<OfferAnswerResult> {
+  const lookup = await lookupWaitlistOffer(db, token, now);
+  if (lookup.status !== "live") return { ok: false, reason: lookup.status };
+
+  const [application] = await db
+    .select({
+      status: eventVendors.status,
+      vendorId: eventVendors.vendorId,
+      userId: vendors.userId,
+    })
+    .from(eventVendors)
+    .innerJoin(vendors, eq(eventVendors.vendorId, vendors.id))
+    .where(eq(eventVendors.id, lookup.eventVendorId))
+    .limit(1);
+  if (!application || application.status !== "WAITLISTED") {
+    // Left the waitlist since the email went out; the next reconcile voids it.
+    return { ok: false, reason: "used" };
+  }
+
+  if (answer === "accept") {
+    // A race (capacity lowered, promoter approved someone by hand) can leave
+    // no room for this offer. Check before burning the token.
+    const [settings] = await db
+      .select({ capacity: eventBoothCapacity.capacity })
+      .from(eventBoothCapacity)
+      .where(eq(eventBoothCapacity.eventId, lookup.eventId))
+      .limit(1);
+    if (settings) {
+      const [{ occupied }] = await db
+        .select({ occupied: sql<number>`count(*)` })
+        .from(eventVendors)
+        .where(
+          and(eq(eventVendors.eventId, lookup.eventId), inArray(eventVendors.status, OCCUPYING))
+        );
+      if (Number(occupied) >= settings.capacity) return { ok: false, reason: "full" };
+    }
+  }
+
+  const outcome = answer === "accept" ? "ACCEPTED" : "DECLINED";
+  if (!(await consumeWaitlistOffer(db, token, outcome, now))) {
+    const again = await lookupWaitlistOffer(db, token, now);
+    return { ok: false, reason: again.status === "expired" ? "expired" : "used" };
+  }
+
+  const nextStatus: EventVendorStatus = answer === "accept" ? "APPROVED" : "WITHDRAWN";
+  await db
+    .update(eventVendors)
+    .set({ status: nextStatus, updatedAt: now })
+    .where(eq(eventVendors.id, lookup.eventVendorId));
+
+  // The vendor answered through an emailed link, not a session, but the link
+  // is theirs — credit the vendor's user where there is one.
+  const actor = application.userId ?? WAITLIST_ACTOR;
+  await recordMutation(db, {
+    entityType: "waitlist_offer",
+    entityId: lookup.eventVendorId,
+    verb: "update",
+    actor,
+    before: { status: "OFFERED" },
+    after: { status: outcome },
+  });
+  await recordMutation(db, {
+    entityType: "event_vendor",
+    entityId: lookup.eventVendorId,
+    verb: "update",
+    actor,
+    before: { status: "WAITLISTED" },
+    after: { status: nextStatus },
+    note: `waitlist offer ${outcome.toLowerCase()}`,
+  });
+  await trackVendorStatusChange(
+    db,
+    application.vendorId,
+    lookup.eventId,
+    "WAITLISTED",
+    nextStatus,
+    application.userId ?? undefined
+  );
+
+  if (answer === "decline") {
+    try {
+      await reconcileWaitlist(db, lookup.eventId, now);
+    } catch (error) {
+      await logError(db, {
+        message: "waitlist: cascade after decline failed",
+        error,
+        source: "waitlist-promotion",
+        context: { eventId: lookup.eventId },
+      });
+    }
+  }
+
+  return { ok: true, outcome, eventId: lookup.eventId };
+}
+
+/**
+ * Hourly: every event with a capacity, plus any event still holding an open
+ * offer (its capacity may since have been removed — the offer must still
+ * expire). Per-event failures are logged and skipped.
+ */
+export async function sweepWaitlists(
+  db: Database,
+  now: Date = new Date()
+): Promise<{ events: number; failed: number } & ReconcileResult> {
+  const withCapacity = await db
+    .select({ eventId: eventBoothCapacity.eventId })
+    .from(eventBoothCapacity);
+  const withStaleOffers = await db
+    .selectDistinct({ eventId: waitlistOffers.eventId })
+    .from(waitlistOffers)
+    .where(and(eq(waitlistOffers.status, "OFFERED"), lte(waitlistOffers.expiresAt, now)));
+  const eventIds = [...new Set([...withCapacity, ...withStaleOffers].map((r) => r.eventId))];
+
+  const totals = { events: eventIds.length, failed: 0, expired: 0, voided: 0, offered: 0 };
+  for (const eventId of eventIds) {
+    try {
+      const r = await reconcileWaitlist(db, eventId, now);
+      totals.expired += r.expired;
+      totals.voided += r.voided;
+      totals.offered += r.offered;
+    } catch (error) {
+      totals.failed += 1;
+      await logError(db, {
+        message: "waitlist: sweep reconcile failed",
+        error,
+        source: "waitlist-promotion",
+        context: { eventId },
+      });
+    }
+  }
+  return totals;
+}
+
+/** Open offers on one event, for the promoter board. */
+export async function listLiveOffers(db: Database, eventId: string): Promise<Map<string, Date>> {
+  const rows = await db
+    .select({ eventVendorId: waitlistOffers.eventVendorId, expiresAt: waitlistOffers.expiresAt })
+    .from(waitlistOffers)
+    .where(and(eq(waitlistOffers.eventId, eventId), eq(waitlistOffers.status, "OFFERED")));
+  return new Map(rows.map((r) => [r.eventVendorId, r.expiresAt]));
+}
+
+export interface BoothCapacitySetting {
+  capacity: number;
+  offerHours: number;
+}
+
+/** The event's booth capacity, or null when it has not opted in. */
+export async function loadBoothCapacity(
+  db: Database,
+  eventId: string
+): Promise<BoothCapacitySetting | null> {
+  const [row] = await db
+    .select({ capacity: eventBoothCapacity.capacity, offerHours: eventBoothCapacity.offerHours })
+    .from(eventBoothCapacity)
+    .where(eq(eventBoothCapacity.eventId, eventId))
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Set or clear the capacity, then reconcile so a raised capacity offers its
+ * new slots straight away. Clearing it leaves open offers alone — they were
+ * made in good faith and run out on their own.
+ */
+export async function saveBoothCapacity(
+  db: Database,
+  args: { eventId: string; capacity: number | null; offerHours: number; userId: string }
+): Promise<ReconcileResult | null> {
+  if (args.capacity === null) {
+    await db.delete(eventBoothCapacity).where(eq(eventBoothCapacity.eventId, args.eventId));
+    return null;
+  }
+  const values = {
+    capacity: args.capacity,
+    offerHours: args.offerHours,
+    updatedAt: new Date(),
+    updatedByUserId: args.userId,
+  };
+  await db
+    .insert(eventBoothCapacity)
+    .values({ eventId: args.eventId, ...values })
+    .onConflictDoUpdate({ target: eventBoothCapacity.eventId, set: values });
+  return reconcileWaitlist(db, args.eventId);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { parseWidgetOptions, widgetLink, WIDGET_DEFAULT_LIMIT, WIDGET_MAX_LIMIT } from "../options";
+
+const parse = (query: string) => parseWidgetOptions(new URLSearchParams(query));
+
+describe("parseWidgetOptions", () => {
+  it("defaults everything but the owner", () => {
+    expect(parse("venue=topsfield-fairgrounds")).toEqual({
+      kind: "venue",
+      slug: "topsfield-fairgrounds",
+      theme: "light",
+      accent: null,
+      limit: WIDGET_DEFAULT_LIMIT,
+      layout: "list",
+      header: true,
+      host: null,
+    });
+  });
+
+  it("requires exactly one owner with a slug-shaped value", () => {
+    expect(parse("")).toBeNull();
+    expect(parse("venue=a&promoter=b")).toBeNull();
+    expect(parse("promoter=")).toBeNull();
+    expect(parse("promoter=../admin")).toBeNull();
+    expect(parse("series=Topsfield-Fair")?.slug).toBe("topsfield-fair");
+  });
+
+  it("accepts hex accents only, expanding the short form", () => {
+    expect(parse("vendor=x&accent=%23C0FFEE")?.accent).toBe("c0ffee");
+    expect(parse("vendor=x&accent=f80")?.accent).toBe("ff8800");
+    expect(parse("vendor=x&accent=red;}body{display:none")?.accent).toBeNull();
+  });
+
+  it("clamps the limit and reads the switches", () => {
+    expect(parse("vendor=x&limit=0")?.limit).toBe(1);
+    expect(parse("vendor=x&limit=500")?.limit).toBe(WIDGET_MAX_LIMIT);
+    expect(parse("vendor=x&limit=abc")?.limit).toBe(WIDGET_DEFAULT_LIMIT);
+    expect(parse("vendor=x&theme=dark&layout=compact&header=0")).toMatchObject({
+      theme: "dark",
+      layout: "compact",
+      header: false,
+    });
+  });
+
+  it("keeps a hostname and drops anything else", () => {
+    expect(parse("vendor=x&host=WWW.FryeburgFair.org")?.host).toBe("www.fryeburgfair.org");
+    expect(parse("vendor=x&host=<script>")?.host).toBeNull();
+  });
+});
+
+describe("widgetLink", () => {
+  it("tags the embedding host, the widget medium and the owner campaign", () => {
+    const url = new URL(
+      widgetLink("https://meetmeatthefair.com/events/fryeburg-fair-2026", {
+        kind: "promoter",
+        slug: "fryeburg-fair",
+        host: "www.fryeburgfair.org",
+      })
+    );
+    expect(url.searchParams.get("utm_source")).toBe("www-fryeburgfair-org");
+    expect(url.searchParams.get("utm_medium")).toBe("widget");
+    expect(url.searchParams.get("utm_campaign")).toBe("promoter-fryeburg-fair");
+  });
+
+  it("falls back to a generic source when the host is unknown", () => {
+    const url = new URL(
+      widgetLink("https://meetmeatthefair.com/venues/fairgrounds", {
+        kind: "venue",
+        slug: "fairgrounds",
+        host: null,
+      })
+    );
+    expect(url.searchParams.get("utm_source")).toBe("widget");
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import type { SyndicationEvent } from "@/lib/event-feeds/query";
+import type { WidgetOptions, WidgetOwner } from "../options";
+import {
+  renderWidgetHtml,
+  toWidgetEvents,
+  widgetJson,
+  widgetLoaderScript,
+  widgetSnippets,
+  WIDGET_HEIGHT_MESSAGE,
+} from "../render";
+
+const owner: WidgetOwner = {
+  kind: "venue",
+  slug: "topsfield-fairgrounds",
+  name: "Topsfield Fairgrounds",
+  pageUrl: "https://meetmeatthefair.com/venues/topsfield-fairgrounds",
+  scope: { kind: "venue", venueId: "v1" },
+};
+
+const options: WidgetOptions = {
+  kind: "venue",
+  slug: "topsfield-fairgrounds",
+  theme: "light",
+  accent: null,
+  limit: 5,
+  layout: "list",
+  header: true,
+  host: "topsfieldfair.org",
+};
+
+function row(overrides: Partial<SyndicationEvent> = {}): SyndicationEvent {
+  return {
+    id: "evt-1",
+    slug: "topsfield-fair-2026",
+    name: "Topsfield Fair",
+    description: null,
+    status: "APPROVED",
+    startDate: new Date(Date.UTC(2026, 9, 1, 12)),
+    endDate: new Date(Date.UTC(2026, 9, 12, 12)),
+    publicStartDate: null,
+    publicEndDate: null,
+    createdAt: null,
+    updatedAt: null,
+    imageUrl: "https://images.example.com/topsfield.jpg",
+    categories: null,
+    venueName: "Topsfield Fairgrounds",
+    venueAddress: "207 Boston St",
+    venueCity: "Topsfield",
+    venueState: "MA",
+    venueZip: "01983",
+    ...overrides,
+  };
+}
+
+describe("toWidgetEvents", () => {
+  it("tags each event link and keeps only https images", () => {
+    const [event, local] = toWidgetEvents(
+      [row(), row({ slug: "b", imageUrl: "/uploads/b.jpg" })],
+      options
+    );
+    expect(event.url).toContain("utm_source=topsfieldfair-org");
+    expect(event.url).toContain("utm_campaign=venue-topsfield-fairgrounds");
+    expect(event.startDate).toBe("2026-10-01");
+    expect(event.endDate).toBe("2026-10-12");
+    expect(event.imageUrl).toBe("https://images.example.com/topsfield.jpg");
+    expect(local.imageUrl).toBeNull();
+  });
+
+  it("flags tentative dates and prefers the public span", () => {
+    const [event] = toWidgetEvents(
+      [row({ status: "TENTATIVE", publicStartDate: new Date(Date.UTC(2026, 9, 2, 12)) })],
+      options
+    );
+    expect(event.tentative).toBe(true);
+    expect(event.startDate).toBe("2026-10-02");
+  });
+});
+
+describe("widgetJson", () => {
+  it("carries the owner with a tagged page link", () => {
+    const body = widgetJson(owner, [], options);
+    expect(body.owner.name).toBe("Topsfield Fairgrounds");
+    expect(body.owner.url).toContain("utm_medium=widget");
+    expect(body.events).toEqual([]);
+  });
+});
+
+describe("renderWidgetHtml", () => {
+  it("escapes event text and beacons its impressions and clicks", () => {
+    const html = renderWidgetHtml(
+      owner,
+      toWidgetEvents([row({ name: "Crafts & <Quilts>" })], options),
+      options
+    );
+    expect(html).toContain('<span class="n">Crafts &amp; &lt;Quilts&gt;</span>');
+    expect(html).toContain("<h2>Upcoming events at Topsfield Fairgrounds</h2>");
+    expect(html).toContain('data-event="topsfield-fair-2026"');
+    expect(html).toContain('send("widget_impression"');
+    expect(html).toContain('send("widget_click"');
+    expect(html).toContain(WIDGET_HEIGHT_MESSAGE);
+  });
+
+  it("themes through CSS variables and honours the layout switches", () => {
+    const html = renderWidgetHtml(owner, toWidgetEvents([row()], options), {
+      ...options,
+      theme: "dark",
+      accent: "c0ffee",
+      layout: "compact",
+      header: false,
+    });
+    expect(html).toContain("--accent: #c0ffee;");
+    expect(html).toContain("--bg: #111827;");
+    expect(html).toContain('<div class="w compact">');
+    expect(html).not.toContain("<h2>");
+  });
+
+  it("says so when nothing is upcoming", () => {
+    const html = renderWidgetHtml(owner, [], options);
+    expect(html).toContain("No upcoming events listed right now.");
+    expect(html).not.toContain("<ul>");
+  });
+
+  it("cannot be broken out of its inline script by an owner value", () => {
+    const html = renderWidgetHtml({ ...owner, slug: "</script><b>" }, [], options);
+    expect(html).not.toContain("</script><b>");
+  });
+});
+
+describe("widgetLoaderScript", () => {
+  it("frames our origin and only trusts height messages from its own iframe", () => {
+    const js = widgetLoaderScript();
+    expect(js).toContain('"https://meetmeatthefair.com"');
+    expect(js).toContain('"/embed/events?"');
+    expect(js).toContain("e.origin !== origin || e.source !== f.contentWindow");
+  });
+});
+
+describe("widgetSnippets", () => {
+  it("offers a script tag and a plain iframe for the same owner", () => {
+    const { script, iframe } = widgetSnippets("promoter", "fryeburg-fair");
+    expect(script).toBe(
+      '<script src="https://meetmeatthefair.com/embed/widget.js" data-promoter="fryeburg-fair" async></script>'
+    );
+    expect(iframe).toContain(
+      'src="https://meetmeatthefair.com/embed/events?promoter=fryeburg-fair"'
+    );
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * The embeddable events widget — what an embed asks for, and whose events it
+ * shows. Shared by the iframe (/embed/events), the JSON API
+ * (/api/widget/events) and the loader script (/embed/widget.js), which all
+ * take the same query string so an embed can move between them unchanged.
+ *
+ * Everything here is read from a URL that a third-party page controls, so
+ * every option is parsed to a closed set or a clamped number. Nothing a
+ * caller sends is echoed into the page as markup or CSS unparsed — `accent`
+ * in particular is a hex colour or nothing, because it lands in a `<style>`.
+ */
+import { eq } from "drizzle-orm";
+import { SITE_URL } from "@takemetothefair/constants";
+import { buildUtmUrl } from "@takemetothefair/utils";
+import type { Database } from "@/lib/db";
+import { eventSeries, promoters, vendors, venues } from "@/lib/db/schema";
+import {
+  loadSyndicationEvents,
+  type SyndicationEvent,
+  type SyndicationScope,
+} from "@/lib/event-feeds/query";
+import { unsafeSlug } from "@/lib/utils";
+import { displayVenueName } from "@/lib/venue-display";
+
+export const WIDGET_OWNER_KINDS = ["promoter", "venue", "series", "vendor"] as const;
+export type WidgetOwnerKind = (typeof WIDGET_OWNER_KINDS)[number];
+
+export const WIDGET_DEFAULT_LIMIT = 5;
+export const WIDGET_MAX_LIMIT = 20;
+
+export interface WidgetOptions {
+  kind: WidgetOwnerKind;
+  slug: string;
+  theme: "light" | "dark";
+  /** Six-digit hex without the `#`, or null for the site's royal blue. */
+  accent: string | null;
+  limit: number;
+  layout: "list" | "compact";
+  /** Show the "Upcoming events at …" header. */
+  header: boolean;
+  /**
+   * The embedding site's hostname, as the loader script reports it. Only
+   * ever used as an analytics and utm_source label — it proves nothing about
+   * who embedded the widget, and is never trusted for anything else.
+   */
+  host: string | null;
+}
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,199}$/;
+const HOST_PATTERN = /^[a-z0-9.-]{1,253}$/;
+
+function parseAccent(raw: string | null): string | null {
+  const hex = raw?.replace(/^#/, "").toLowerCase();
+  if (!hex) return null;
+  if (/^[0-9a-f]{6}$/.test(hex)) return hex;
+  if (/^[0-9a-f]{3}$/.test(hex)) return [...hex].map((c) => c + c).join("");
+  return null;
+}
+
+function parseLimit(raw: string | null): number {
+  const n = Number.parseInt(raw ?? "", 10);
+  if (!Number.isFinite(n)) return WIDGET_DEFAULT_LIMIT;
+  return Math.min(Math.max(n, 1), WIDGET_MAX_LIMIT);
+}
+
+/**
+ * Options from an embed's query string, or null when it names no owner (or
+ * more than one — `?venue=a&promoter=b` is ambiguous, not a union).
+ */
+export function parseWidgetOptions(params: URLSearchParams): WidgetOptions | null {
+  const owners = WIDGET_OWNER_KINDS.filter((kind) => params.has(kind));
+  if (owners.length !== 1) return null;
+  const kind = owners[0];
+  const slug = (params.get(kind) ?? "").trim().toLowerCase();
+  if (!SLUG_PATTERN.test(slug)) return null;
+  const host = params.get("host")?.trim().toLowerCase() ?? "";
+  return {
+    kind,
+    slug,
+    theme: params.get("theme") === "dark" ? "dark" : "light",
+    accent: parseAccent(params.get("accent")),
+    limit: parseLimit(params.get("limit")),
+    layout: params.get("layout") === "compact" ? "compact" : "list",
+    header: params.get("header") !== "0",
+    host: HOST_PATTERN.test(host) ? host : null,
+  };
+}
+
+export interface WidgetOwner {
+  kind: WidgetOwnerKind;
+  slug: string;
+  name: string;
+  /** The owner's page on the site, untagged. */
+  pageUrl: string;
+  scope: SyndicationScope;
+}
+
+/** The promoter, venue, series or vendor an embed names, or null if none matches. */
+export async function resolveWidgetOwner(
+  db: Database,
+  kind: WidgetOwnerKind,
+  slug: string
+): Promise<WidgetOwner | null> {
+  const key = unsafeSlug(slug);
+  switch (kind) {
+    case "promoter": {
+      const [row] = await db
+        .select({ id: promoters.id, name: promoters.companyName, slug: promoters.slug })
+        .from(promoters)
+        .where(eq(promoters.slug, key))
+        .limit(1);
+      return row
+        ? {
+            kind,
+            slug: row.slug,
+            name: row.name,
+            pageUrl: `${SITE_URL}/promoters/${row.slug}`,
+            scope: { kind: "promoter", promoterId: row.id },
+          }
+        : null;
+    }
+    case "venue": {
+      const [row] = await db
+        .select({
+          id: venues.id,
+          name: venues.name,
+          slug: venues.slug,
+          address: venues.address,
+          city: venues.city,
+          state: venues.state,
+        })
+        .from(venues)
+        .where(eq(venues.slug, key))
+        .limit(1);
+      return row
+        ? {
+            kind,
+            slug: row.slug,
+            name: displayVenueName(row),
+            pageUrl: `${SITE_URL}/venues/${row.slug}`,
+            scope: { kind: "venue", venueId: row.id },
+          }
+        : null;
+    }
+    case "series": {
+      const [row] = await db
+        .select({ id: eventSeries.id, name: eventSeries.name, slug: eventSeries.canonicalSlug })
+        .from(eventSeries)
+        .where(eq(eventSeries.canonicalSlug, key))
+        .limit(1);
+      return row
+        ? {
+            kind,
+            slug: row.slug,
+            name: row.name,
+            pageUrl: `${SITE_URL}/events/${row.slug}`,
+            scope: { kind: "series", seriesId: row.id },
+          }
+        : null;
+    }
+    case "vendor": {
+      const [row] = await db
+        .select({
+          id: vendors.id,
+          businessName: vendors.businessName,
+          displayName: vendors.displayName,
+          slug: vendors.slug,
+        })
+        .from(vendors)
+        .where(eq(vendors.slug, key))
+        .limit(1);
+      return row
+        ? {
+            kind,
+            slug: row.slug,
+            // The vendor's own name, not a brand parent's: the embed sits on
+            // their site, where the parent's name would read as someone else.
+            name: row.displayName?.trim() || row.businessName,
+            pageUrl: `${SITE_URL}/vendors/${row.slug}`,
+            scope: { kind: "vendor", vendorId: row.id },
+          }
+        : null;
+    }
+  }
+}
+
+/**
+ * A site URL tagged for the embed it was clicked from:
+ * utm_source = the embedding host (or "widget" when unknown),
+ * utm_medium = "widget", utm_campaign = "<kind>-<slug>".
+ */
+export function widgetLink(url: string, options: Pick<WidgetOptions, "kind" | "slug" | "host">) {
+  const tagged = buildUtmUrl({
+    url,
+    // Dots become hyphens first: the shared slugify would otherwise run
+    // "fryeburgfair.org" together into "fryeburgfairorg".
+    source: options.host?.replace(/\./g, "-") ?? "widget",
+    medium: "widget",
+    campaign: `${options.kind}-${options.slug}`,
+  });
+  // Only fails for a non-site URL, which no caller builds; fall back untagged.
+  return tagged.ok ? tagged.url : url;
+}
+
+/**
+ * The owner and its next `limit` upcoming events. Same visibility and window
+ * as the syndication feeds — a widget is one more place the public listing
+ * shows up, not a new definition of it.
+ */
+export async function loadWidget(
+  db: Database,
+  options: WidgetOptions,
+  now: Date = new Date()
+): Promise<{ owner: WidgetOwner; rows: SyndicationEvent[] } | null> {
+  const owner = await resolveWidgetOwner(db, options.kind, options.slug);
+  if (!owner) return null;
+  const rows = await loadSyndicationEvents(db, owner.scope, now, options.limit);
+  return { owner, rows };
+}
@@ -0,0 +1,272 @@
+/**
+ * The embeddable events widget — the pure half: event rows in, the iframe's
+ * HTML, the JSON API's body and the loader script out.
+ *
+ * The iframe is a bare HTML string, not a React page. It renders inside other
+ * people's sites, so it must not carry the site chrome, the consent banner or
+ * `auth()` (the root layout does all three), and a route handler that returns
+ * a string is also what lets it be cached publicly without a session ever
+ * touching it. The layout borrows from the print sheet (src/components/print):
+ * name, dates, venue line, nothing else.
+ *
+ * ── Analytics ──────────────────────────────────────────────────────────────
+ * The HTML is edge-cached, so a server-side counter would count cache misses.
+ * The iframe beacons instead — `widget_impression` on load, `widget_click` on
+ * a link — to /api/analytics/track, which it can reach same-origin because
+ * the iframe IS our origin. Both carry kind/slug/host, which is what
+ * identifies one embed. The JSON API has no such hook: its consumers render
+ * their own markup, and the UTM tags on every link are its attribution.
+ */
+import { SITE_URL } from "@takemetothefair/constants";
+import { toIsoDateOnly } from "@/lib/datetime";
+import type { SyndicationEvent } from "@/lib/event-feeds/query";
+import { formatDateRange } from "@/lib/utils";
+import { displayVenueName } from "@/lib/venue-display";
+import {
+  widgetLink,
+  type WidgetOptions,
+  type WidgetOwner,
+  type WidgetOwnerKind,
+} from "@/lib/widget/options";
+
+/** The postMessage type the iframe reports its height under. */
+export const WIDGET_HEIGHT_MESSAGE = "mmatf-widget:height";
+
+const DEFAULT_ACCENT = "3b6fd4";
+
+export interface WidgetEvent {
+  slug: string;
+  name: string;
+  /** The event page, UTM-tagged for this embed. */
+  url: string;
+  startDate: string;
+  endDate: string;
+  dateLabel: string;
+  tentative: boolean;
+  venue: { name: string; city: string | null; state: string | null } | null;
+  imageUrl: string | null;
+}
+
+export function toWidgetEvents(
+  rows: SyndicationEvent[],
+  options: Pick<WidgetOptions, "kind" | "slug" | "host">
+): WidgetEvent[] {
+  return rows.map((row) => {
+    const start = row.publicStartDate ?? row.startDate;
+    const end = row.publicEndDate ?? row.endDate ?? start;
+    return {
+      slug: row.slug,
+      name: row.name,
+      url: widgetLink(`${SITE_URL}/events/${row.slug}`, options),
+      startDate: toIsoDateOnly(start),
+      endDate: toIsoDateOnly(end),
+      dateLabel: formatDateRange(start, end),
+      tentative: row.status === "TENTATIVE",
+      venue:
+        row.venueName || row.venueCity
+          ? {
+              name: displayVenueName({
+                name: row.venueName ?? "",
+                address: row.venueAddress,
+                city: row.venueCity,
+                state: row.venueState,
+              }),
+              city: row.venueCity,
+              state: row.venueState,
+            }
+          : null,
+      imageUrl: row.imageUrl && /^https:\/\//.test(row.imageUrl) ? row.imageUrl : null,
+    };
+  });
+}
+
+/** The JSON API body. */
+export function widgetJson(owner: WidgetOwner, events: WidgetEvent[], options: WidgetOptions) {
+  return {
+    owner: {
+      kind: owner.kind,
+      slug: owner.slug,
+      name: owner.name,
+      url: widgetLink(owner.pageUrl, options),
+    },
+    events,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function headerText(owner: WidgetOwner): string {
+  switch (owner.kind) {
+    case "venue":
+      return `Upcoming events at ${owner.name}`;
+    case "vendor":
+      return `Where to find ${owner.name}`;
+    case "series":
+      return `Upcoming dates: ${owner.name}`;
+    case "promoter":
+      return `Upcoming events from ${owner.name}`;
+  }
+}
+
+function styles(options: WidgetOptions): string {
+  const dark = options.theme === "dark";
+  const accent = `#${options.accent ?? DEFAULT_ACCENT}`;
+  return `
+  :root { --bg: ${dark ? "#111827" : "#ffffff"}; --fg: ${dark ? "#f9fafb" : "#1f2937"};
+    --muted: ${dark ? "#9ca3af" : "#6b7280"}; --line: ${dark ? "#374151" : "#e5e7eb"};
+    --accent: ${accent}; }
+  * { box-sizing: border-box; }
+  html, body { margin: 0; background: var(--bg); color: var(--fg);
+    font: 14px/1.4 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+  .w { padding: 12px; }
+  h2 { margin: 0 0 8px; font-size: 16px; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  li { border-top: 1px solid var(--line); }
+  li:first-child { border-top: 0; }
+  li a { display: flex; gap: 10px; padding: 8px 0; color: inherit; text-decoration: none; }
+  li a:hover .n { text-decoration: underline; }
+  img { width: 64px; height: 48px; object-fit: cover; border-radius: 4px; flex: none; }
+  .n { display: block; font-weight: 600; color: var(--accent); }
+  .d, .v { display: block; color: var(--muted); font-size: 13px; }
+  .t { font-style: italic; }
+  .compact li a { padding: 4px 0; }
+  .compact img, .compact .v { display: none; }
+  .e { color: var(--muted); margin: 8px 0; }
+  footer { margin-top: 8px; font-size: 12px; }
+  footer a { color: var(--accent); }`;
+}
+
+/** Beacons + height reporting. `cfg` is JSON-serialised with `<` escaped. */
+function inlineScript(owner: WidgetOwner, options: WidgetOptions): string {
+  const cfg = JSON.stringify({
+    kind: owner.kind,
+    slug: owner.slug,
+    host: options.host,
+    layout: options.layout,
+    msg: WIDGET_HEIGHT_MESSAGE,
+  }).replace(/</g, "\\u003c");
+  return `(function () {
+  var c = ${cfg};
+  var host = c.host;
+  if (!host) { try { host = new URL(document.referrer).hostname; } catch (e) { host = null; } }
+  function send(name, extra) {
+    var props = { kind: c.kind, slug: c.slug, host: host, layout: c.layout };
+    for (var k in extra) props[k] = extra[k];
+    var body = JSON.stringify({ name: name, category: "engagement", properties: props });
+    try {
+      if (navigator.sendBeacon && navigator.sendBeacon("/api/analytics/track", new Blob([body], { type: "application/json" }))) return;
+      fetch("/api/analytics/track", { method: "POST", body: body, keepalive: true, headers: { "Content-Type": "application/json" } });
+    } catch (e) {}
+  }
+  send("widget_impression", {});
+  document.addEventListener("click", function (e) {
+    var a = e.target && e.target.closest ? e.target.closest("a[data-event]") : null;
+    if (a) send("widget_click", { eventSlug: a.getAttribute("data-event") });
+  });
+  function report() {
+    if (window.parent === window) return;
+    window.parent.postMessage({ type: c.msg, height: document.documentElement.scrollHeight }, "*");
+  }
+  report();
+  if (window.ResizeObserver) new ResizeObserver(report).observe(document.body);
+  window.addEventListener("load", report);
+})();`;
+}
+
+/** The iframe document. */
+export function renderWidgetHtml(
+  owner: WidgetOwner,
+  events: WidgetEvent[],
+  options: WidgetOptions
+): string {
+  const items = events
+    .map((event) => {
+      // displayVenueName may already be "Topsfield, MA venue"; don't say it twice.
+      const where = event.venue
+        ? [event.venue.name, event.venue.city, event.venue.state]
+            .filter((p, i): p is string => !!p && (i === 0 || !event.venue!.name.includes(p)))
+            .join(", ")
+        : "";
+      return `<li><a href="${escapeHtml(event.url)}" target="_blank" rel="noopener" data-event="${escapeHtml(event.slug)}">${
+        event.imageUrl ? `<img src="${escapeHtml(event.imageUrl)}" alt="" loading="lazy">` : ""
+      }<span><span class="n">${escapeHtml(event.name)}</span><span class="d">${escapeHtml(event.dateLabel)}${
+        event.tentative ? ' <span class="t">(dates not yet confirmed)</span>' : ""
+      }</span>${where ? `<span class="v">${escapeHtml(where)}</span>` : ""}</span></a></li>`;
+    })
+    .join("\n");
+  const title = headerText(owner);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${styles(options)}
+</style>
+</head>
+<body>
+<div class="w${options.layout === "compact" ? " compact" : ""}">
+${options.header ? `<h2>${escapeHtml(title)}</h2>` : ""}
+${events.length > 0 ? `<ul>\n${items}\n</ul>` : '<p class="e">No upcoming events listed right now.</p>'}
+<footer><a href="${escapeHtml(widgetLink(owner.pageUrl, options))}" target="_blank" rel="noopener">See all on Meet Me at the Fair</a></footer>
+</div>
+<script>${inlineScript(owner, options)}</script>
+</body>
+</html>`;
+}
+
+/**
+ * /embed/widget.js. Reads its own `data-*` attributes, inserts an iframe
+ * right after itself (or into `data-target`), and sizes it from the height
+ * the iframe reports. One closure per script tag, so several widgets on a page
+ * never answer each other's messages.
+ */
+export function widgetLoaderScript(): string {
+  return `(function () {
+  var s = document.currentScript;
+  if (!s) return;
+  var origin = ${JSON.stringify(SITE_URL)};
+  var keys = ["promoter", "venue", "series", "vendor", "theme", "accent", "limit", "layout", "header"];
+  var q = new URLSearchParams();
+  for (var i = 0; i < keys.length; i++) {
+    var v = s.getAttribute("data-" + keys[i]);
+    if (v !== null) q.set(keys[i], v);
+  }
+  q.set("host", location.hostname);
+  var f = document.createElement("iframe");
+  f.src = origin + "/embed/events?" + q.toString();
+  f.title = s.getAttribute("data-title") || "Upcoming events from Meet Me at the Fair";
+  f.loading = "lazy";
+  f.style.cssText = "width:100%;border:0;height:320px;display:block;";
+  var target = s.getAttribute("data-target");
+  var el = target && document.getElementById(target);
+  if (el) el.appendChild(f);
+  else s.parentNode.insertBefore(f, s.nextSibling);
+  window.addEventListener("message", function (e) {
+    if (e.origin !== origin || e.source !== f.contentWindow) return;
+    var d = e.data;
+    if (d && d.type === ${JSON.stringify(WIDGET_HEIGHT_MESSAGE)} && typeof d.height === "number") {
+      f.style.height = Math.ceil(d.height) + "px";
+    }
+  });
+})();`;
+}
+
+/** Copy-paste embed code for an owner: the script tag, and a plain iframe for sites that strip scripts. */
+export function widgetSnippets(
+  kind: WidgetOwnerKind,
+  slug: string
+): { script: string; iframe: string } {
+  return {
+    script: `<script src="${SITE_URL}/embed/widget.js" data-${kind}="${slug}" async></script>`,
+    iframe: `<iframe src="${SITE_URL}/embed/events?${kind}=${slug}" title="Upcoming events" style="width:100%;height:420px;border:0" loading="lazy"></iframe>`,
+  };
+}
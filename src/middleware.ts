@@ -212,7 +212,7 @@ async function handleRouting(request: NextRequest) {
     "submissions",
     "suggest-event",
   ]);
-  const PROMOTER_PORTAL_ROUTES = new Set(["events"]);
+  const PROMOTER_PORTAL_ROUTES = new Set(["events", "members"]);
   if (pathname.startsWith("/vendor/")) {
     const seg = pathname.slice("/vendor/".length);
     if (seg && !seg.includes("/") && !VENDOR_PORTAL_ROUTES.has(seg)) {